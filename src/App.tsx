@@ -36,9 +36,11 @@ import {
   Calculator,
   Megaphone,
   Percent,
+  BookOpen,
   PanelLeftClose,
   PanelLeft,
   Shield,
+  Trash2,
 } from "lucide-react";
 // Keep Login as static import since it's needed immediately
 import { Login } from "./components/Login";
@@ -75,8 +77,10 @@ const PlatformOrders = lazy(() => import("./components/PlatformOrders").then(m =
 const PlatformCustomers = lazy(() => import("./components/PlatformCustomers").then(m => ({ default: m.PlatformCustomers })));
 const Marketing = lazy(() => import("./components/Marketing").then(m => ({ default: m.Marketing })));
 const VAT = lazy(() => import("./components/VAT").then(m => ({ default: m.VAT })));
+const GeneralLedger = lazy(() => import("./components/GeneralLedger").then(m => ({ default: m.GeneralLedger })));
 const MyWorkspace = lazy(() => import("./components/MyWorkspace").then(m => ({ default: m.MyWorkspace })));
 const HistoryLog = lazy(() => import("./components/HistoryLog").then(m => ({ default: m.HistoryLog })));
+const RecycleBin = lazy(() => import("./components/RecycleBin").then(m => ({ default: m.RecycleBin })));
 const Custody = lazy(() => import("./components/Custody").then(m => ({ default: m.Custody })));
 const Assets = lazy(() => import("./components/Assets").then(m => ({ default: m.Assets })));
 const AttendanceSheet = lazy(() => import("./components/AttendanceSheet").then(m => ({ default: m.AttendanceSheet })));
@@ -87,10 +91,15 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
 import { toast } from "sonner";
 import type { PageId } from "./config/page-map";
 import { normalizePermissions, hasPermission, type ResolvedPermissions } from "./lib/permissions";
+import { navigate, useRoute } from "./lib/router";
+import { translateCurrent, useLocale } from "./lib/i18n";
+import { getSessionToken, hasActiveSession, SESSION_ENDED_EVENT } from "./lib/authSession";
+import type { MessageKey } from "./locales/en";
 import { refreshUserPermissions, verifyUserStatus } from "./lib/permissionRefresh";
 import { permissionEvents, PERMISSION_EVENTS } from "./lib/permissionEvents";
 import "./lib/permissionReloadTest"; // Load test utility
 import { getFilesByOwner, getFileUrl } from "./lib/storage";
+import type { QuotationContractDraft } from "./lib/quotations";
 import { FILE_CATEGORIES } from "../supabase/models/file_metadata";
 import { supabase } from "./lib/supabaseClient";
 import type { CompanyBranding } from "../supabase/models/company_branding";
@@ -101,12 +110,12 @@ type Page = PageId;
 
 interface NavigationItem {
   id: Page;
-  name: string;
   icon: any;
 }
 
 interface NavigationSection {
   section: string;
+  labelKey: MessageKey;
   icon: any;
   items: NavigationItem[];
 }
@@ -114,104 +123,117 @@ interface NavigationSection {
 const navigationSections: NavigationSection[] = [
   {
     section: "Dashboard & Analytics",
+    labelKey: "section.dashboard",
     icon: LayoutDashboard,
     items: [
-      { id: "dashboard" as Page, name: "Dashboard", icon: LayoutDashboard },
-      { id: "myworkspace" as Page, name: "My Workspace", icon: Briefcase },
-      { id: "analytics" as Page, name: "Analytics & KPIs", icon: BarChart3 },
-      { id: "calendar" as Page, name: "Calendar & Reminders", icon: Calendar },
+      { id: "dashboard" as Page, icon: LayoutDashboard },
+      { id: "myworkspace" as Page, icon: Briefcase },
+      { id: "analytics" as Page, icon: BarChart3 },
+      { id: "calendar" as Page, icon: Calendar },
     ]
   },
   {
     section: "Sales & Customers",
+    labelKey: "section.sales",
     icon: Building2,
     items: [
-      { id: "customers" as Page, name: "Customers", icon: Users },
-      { id: "leads" as Page, name: "Leads", icon: UserPlus },
-      { id: "quotations" as Page, name: "Quotations", icon: FileText },
-      { id: "invoices" as Page, name: "Invoices", icon: Receipt },
-      { id: "contracts" as Page, name: "Contracts", icon: FileStack },
-      { id: "statements" as Page, name: "Customer Statements", icon: Receipt },
+      { id: "customers" as Page, icon: Users },
+      { id: "leads" as Page, icon: UserPlus },
+      { id: "quotations" as Page, icon: FileText },
+      { id: "invoices" as Page, icon: Receipt },
+      { id: "contracts" as Page, icon: FileStack },
+      { id: "statements" as Page, icon: Receipt },
     ]
   },
   {
     section: "Operations",
+    labelKey: "section.operations",
     icon: ClipboardList,
     items: [
-      { id: "visits" as Page, name: "Visits", icon: Calendar },
-      { id: "monthlyVisits" as Page, name: "Monthly Visits", icon: Calendar },
-      { id: "payments" as Page, name: "Payments", icon: DollarSign },
-      { id: "representatives" as Page, name: "Representatives", icon: UserCog },
-      { id: "support" as Page, name: "Customer Support", icon: MessageSquare },
+      { id: "visits" as Page, icon: Calendar },
+      { id: "monthlyVisits" as Page, icon: Calendar },
+      { id: "payments" as Page, icon: DollarSign },
+      { id: "representatives" as Page, icon: UserCog },
+      { id: "support" as Page, icon: MessageSquare },
     ]
   },
   {
     section: "HR & Employees",
+    labelKey: "section.hr",
     icon: Briefcase,
     items: [
-      { id: "employees" as Page, name: "Employees", icon: Briefcase },
-      { id: "attendanceSheet" as Page, name: "Attendance Sheet", icon: Calendar },
-      { id: "payroll" as Page, name: "Payroll", icon: Wallet },
-      { id: "leaves" as Page, name: "Leave Management", icon: Plane },
-      { id: "employeeRequests" as Page, name: "Employee Requests", icon: HandCoins },
+      { id: "employees" as Page, icon: Briefcase },
+      { id: "attendanceSheet" as Page, icon: Calendar },
+      { id: "payroll" as Page, icon: Wallet },
+      { id: "leaves" as Page, icon: Plane },
+      { id: "employeeRequests" as Page, icon: HandCoins },
     ]
   },
   {
     section: "Inventory & Manufacturing",
+    labelKey: "section.inventory",
     icon: Boxes,
     items: [
-      { id: "inventory" as Page, name: "Inventory", icon: Package },
-      { id: "purchases" as Page, name: "Purchases", icon: ShoppingCart },
-      { id: "suppliers" as Page, name: "Suppliers", icon: Building2 },
-      { id: "manufacturing" as Page, name: "Manufacturing", icon: Factory },
-      { id: "returns" as Page, name: "Returns", icon: RefreshCcw },
+      { id: "inventory" as Page, icon: Package },
+      { id: "purchases" as Page, icon: ShoppingCart },
+      { id: "suppliers" as Page, icon: Building2 },
+      { id: "manufacturing" as Page, icon: Factory },
+      { id: "returns" as Page, icon: RefreshCcw },
     ]
   },
   {
     section: "Assets & Custody",
+    labelKey: "section.assets",
     icon: Building2,
     items: [
-      { id: "assets" as Page, name: "Fixed Assets", icon: Building2 },
-      { id: "custody" as Page, name: "Employee Custody", icon: Package },
+      { id: "assets" as Page, icon: Building2 },
+      { id: "custody" as Page, icon: Package },
     ]
   },
   {
     section: "E-Commerce Platforms",
+    labelKey: "section.ecommerce",
     icon: Store,
     items: [
-      { id: "platformOrders" as Page, name: "Platform Orders", icon: Store },
-      { id: "platformCustomers" as Page, name: "Platform Customers", icon: Users },
+      { id: "platformOrders" as Page, icon: Store },
+      { id: "platformCustomers" as Page, icon: Users },
     ]
   },
   {
     section: "Marketing",
+    labelKey: "section.marketing",
     icon: Megaphone,
     items: [
-      { id: "marketing" as Page, name: "Campaigns & Marketing", icon: Megaphone },
+      { id: "marketing" as Page, icon: Megaphone },
     ]
   },
   {
     section: "Finance & Accounting",
+    labelKey: "section.finance",
     icon: Calculator,
     items: [
-      { id: "expenses" as Page, name: "Expenses", icon: TrendingDown },
-      { id: "vat" as Page, name: "VAT & Zakat", icon: Percent },
-      { id: "reports" as Page, name: "Reports", icon: FileBarChart },
+      { id: "expenses" as Page, icon: TrendingDown },
+      { id: "vat" as Page, icon: Percent },
+      { id: "journalEntries" as Page, icon: BookOpen },
+      { id: "reports" as Page, icon: FileBarChart },
     ]
   },
   {
     section: "Templates & Communication",
+    labelKey: "section.templates",
     icon: FileStack,
     items: [
-      { id: "templates" as Page, name: "Message Templates", icon: FileStack },
+      { id: "templates" as Page, icon: FileStack },
     ]
   },
   {
     section: "System Settings",
+    labelKey: "section.system",
     icon: Settings,
     items: [
-      { id: "historyLog" as Page, name: "History Log", icon: FileText },
-      { id: "settings" as Page, name: "Settings & Permissions", icon: Settings },
+      { id: "historyLog" as Page, icon: FileText },
+      { id: "recycleBin" as Page, icon: Trash2 },
+      { id: "settings" as Page, icon: Settings },
     ]
   },
 ];
@@ -438,24 +460,29 @@ const mockActivities: Activity[] = [
   }
 ];
 
-const PermissionDenied = ({ page }: { page: Page }) => (
-  <div className="flex min-h-[60vh] flex-col items-center justify-center gap-4 text-center">
-    <Shield className="h-12 w-12 text-purple-500" />
-    <div className="space-y-1">
-      <h2 className="text-lg font-semibold">Access Restricted</h2>
-      <p className="text-sm text-muted-foreground">
-        You do not have permission to view the{" "}
-        <span className="font-medium text-foreground">{page}</span> section.
-      </p>
+const PermissionDenied = ({ page }: { page: Page }) => {
+  const { t } = useLocale();
+  return (
+    <div className="flex min-h-[60vh] flex-col items-center justify-center gap-4 text-center">
+      <Shield className="h-12 w-12 text-purple-500" />
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold">{t("shell.accessRestricted")}</h2>
+        <p className="text-sm text-muted-foreground">{t("shell.noPermission", { page: t(`page.${page}`) })}</p>
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 // Helper function to get initial auth state from localStorage (synchronous)
 const getInitialAuthState = () => {
   try {
     const stored = localStorage.getItem('auth_user');
     if (!stored) return null;
+    // Users stored without a live session token (older builds, expired sessions) log in again
+    if (!hasActiveSession()) {
+      localStorage.removeItem('auth_user');
+      return null;
+    }
     const parsed = JSON.parse(stored);
     if (parsed?.full_name || parsed?.email) {
       return {
@@ -474,27 +501,6 @@ const getInitialAuthState = () => {
   return null;
 };
 
-// Helper function to get initial page, but reset to dashboard on a brand-new tab/window
-const getInitialPage = (): Page => {
-  try {
-    // sessionStorage is cleared when the tab/window is closed, so use it to detect a fresh session
-    const hasSession = sessionStorage.getItem('session_started');
-    if (!hasSession) {
-      sessionStorage.setItem('session_started', 'true');
-      localStorage.setItem('current_page', 'dashboard'); // ensure new tabs start at dashboard
-      return "dashboard";
-    }
-
-    const stored = localStorage.getItem('current_page');
-    if (stored) {
-      return stored as Page;
-    }
-  } catch (error) {
-    console.error('Failed to parse stored current page', error);
-  }
-  return "dashboard";
-};
-
 export default function App() {
   // Initialize auth state synchronously from localStorage to prevent flash
   const initialAuthState = getInitialAuthState();
@@ -505,8 +511,11 @@ export default function App() {
   const [userRole, setUserRole] = useState(initialAuthState?.userRole ?? "");
   const [permissions, setPermissions] = useState<ResolvedPermissions>(initialAuthState?.permissions ?? ({} as ResolvedPermissions));
   
-  // Initialize current page from localStorage
-  const [currentPage, setCurrentPage] = useState<Page>(getInitialPage());
+  const { t, dir } = useLocale();
+
+  // The current page comes from the URL (see lib/router)
+  const route = useRoute();
+  const currentPage: Page = route?.page ?? "dashboard";
   
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -524,6 +533,7 @@ export default function App() {
   
   // Shared state for converting quotations to invoices
   const [pendingQuotationData, setPendingQuotationData] = useState<any>(null);
+  const [pendingContractQuotationData, setPendingContractQuotationData] = useState<QuotationContractDraft | null>(null);
   
   // Login key to force remount and clear form fields on logout
   const [loginKey, setLoginKey] = useState(0);
@@ -545,17 +555,14 @@ export default function App() {
     setUserRole(payload.roleName);
     setPermissions(normalizePermissions(payload.rolePermissions));
     setIsLoggedIn(true);
-    
-    // Persist current page (in case user navigated before login)
-    localStorage.setItem('current_page', currentPage);
   };
 
-  // Persist current page whenever it changes (only if logged in)
+  // Paths that match no page go to the dashboard
   useEffect(() => {
-    if (isLoggedIn && currentPage) {
-      localStorage.setItem('current_page', currentPage);
+    if (!route) {
+      navigate({ page: "dashboard" }, { replace: true });
     }
-  }, [currentPage, isLoggedIn]);
+  }, [route]);
 
   // Periodically check if user is still active and refresh permissions
   useEffect(() => {
@@ -567,20 +574,21 @@ export default function App() {
       setCurrentUserEmail("");
       setCurrentUserId("");
       setUserRole("");
-      setCurrentPage("dashboard");
+      navigate({ page: "dashboard" }, { replace: true });
       setPermissions({} as ResolvedPermissions);
       localStorage.removeItem('auth_user');
-      localStorage.removeItem('current_page');
       setLoginKey(prev => prev + 1);
     };
 
     // Check user status every 5 minutes
     const checkInterval = setInterval(async () => {
+      // Also refreshes the session token; without one the user is logged out (see SESSION_ENDED_EVENT)
+      if (!(await getSessionToken())) return;
       const isActive = await verifyUserStatus(currentUserId);
       if (!isActive) {
         // User is inactive, force logout
         performLogout();
-        toast.error("Your account has been deactivated. You have been logged out.");
+        toast.error(translateCurrent("shell.accountDeactivated"));
       } else {
         // Refresh permissions in case role was updated
         const refreshedPermissions = await refreshUserPermissions(currentUserId);
@@ -594,7 +602,7 @@ export default function App() {
     verifyUserStatus(currentUserId).then((isActive) => {
       if (!isActive) {
         performLogout();
-        toast.error("Your account has been deactivated. You have been logged out.");
+        toast.error(translateCurrent("shell.accountDeactivated"));
       }
     });
 
@@ -616,7 +624,7 @@ export default function App() {
           setUserRole(data.roleName);
         }
         
-        toast.success('Your permissions have been updated');
+        toast.success(translateCurrent("shell.permissionsUpdated"));
       }
     };
 
@@ -973,7 +981,7 @@ export default function App() {
       .find((item) => hasPermission(permissions, item.id, "view"));
 
     if (firstAccessible) {
-      setCurrentPage(firstAccessible.id);
+      navigate({ page: firstAccessible.id }, { replace: true });
       const parentSection = navigationSections.find((section) =>
         section.items.some((item) => item.id === firstAccessible.id)
       );
@@ -984,7 +992,7 @@ export default function App() {
     }
 
     if (hasPermission(permissions, "profile", "view")) {
-      setCurrentPage("profile");
+      navigate({ page: "profile" }, { replace: true });
     }
   }, [permissions, currentPage, isLoggedIn, openSections]);
 
@@ -1028,8 +1036,9 @@ export default function App() {
       case "marketing": importPromise = import("./components/Marketing"); break;
       case "vat": importPromise = import("./components/VAT"); break;
       case "myworkspace": importPromise = import("./components/MyWorkspace"); break;
-      case "historyLog":
-      case "journalEntries": importPromise = import("./components/HistoryLog"); break;
+      case "historyLog": importPromise = import("./components/HistoryLog"); break;
+      case "recycleBin": importPromise = import("./components/RecycleBin"); break;
+      case "journalEntries": importPromise = import("./components/GeneralLedger"); break;
       case "custody": importPromise = import("./components/Custody"); break;
       case "assets": importPromise = import("./components/Assets"); break;
       case "attendanceSheet": importPromise = import("./components/AttendanceSheet"); break;
@@ -1046,10 +1055,10 @@ export default function App() {
 
   const handlePageChange = (pageId: Page) => {
     if (!hasPermission(permissions, pageId, "view")) {
-      toast.error("You don't have permission to access this section.");
+      toast.error(t("shell.noPermissionToast"));
       return;
     }
-    setCurrentPage(pageId);
+    navigate({ page: pageId });
     
     // Find which section this page belongs to and open it
     const section = navigationSections.find(s => 
@@ -1067,14 +1076,24 @@ export default function App() {
     setCurrentUserEmail("");
     setCurrentUserId("");
     setUserRole("");
-    setCurrentPage("dashboard");
+    navigate({ page: "dashboard" }, { replace: true });
     setPermissions({} as ResolvedPermissions);
     localStorage.removeItem('auth_user');
-    localStorage.removeItem('current_page');
     // Increment login key to force Login component remount and clear form fields
     setLoginKey(prev => prev + 1);
   };
 
+  // An expired session or a failed token refresh ends in the login screen
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    const handleSessionEnded = () => {
+      handleLogout();
+      toast.error(translateCurrent("shell.sessionExpired"));
+    };
+    window.addEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+  }, [isLoggedIn]);
+
   const addActivity = (activity: Omit<Activity, "id" | "timestamp">) => {
     const newActivity: Activity = {
       ...activity,
@@ -1179,6 +1198,10 @@ export default function App() {
               setPendingQuotationData(quotationData);
               handlePageChange("invoices");
             }}
+            onConvertToContract={(quotationData) => {
+              setPendingContractQuotationData(quotationData);
+              handlePageChange("contracts");
+            }}
           />,
         );
       case "invoices":
@@ -1192,7 +1215,13 @@ export default function App() {
       case "contracts":
         return renderWithGuard(
           "contracts",
-          <Contracts systemLogo={systemLogo} systemNameAr={systemNameAr} systemNameEn={systemNameEn} />,
+          <Contracts
+            systemLogo={systemLogo}
+            systemNameAr={systemNameAr}
+            systemNameEn={systemNameEn}
+            pendingQuotationData={pendingContractQuotationData}
+            onQuotationDataConsumed={() => setPendingContractQuotationData(null)}
+          />,
         );
       case "visits":
         return renderWithGuard(
@@ -1242,6 +1271,8 @@ export default function App() {
         return renderWithGuard("marketing", <Marketing />);
       case "vat":
         return renderWithGuard("vat", <VAT />);
+      case "journalEntries":
+        return renderWithGuard("journalEntries", <GeneralLedger />);
       case "reports":
         return renderWithGuard("reports", <Reports />);
       case "leaves":
@@ -1294,6 +1325,8 @@ export default function App() {
         return renderWithGuard("assets", <Assets />);
       case "historyLog":
         return renderWithGuard("historyLog", <HistoryLog />);
+      case "recycleBin":
+        return renderWithGuard("recycleBin", <RecycleBin currentPermissions={permissions} />);
       case "settings":
         return renderWithGuard(
           "settings",
@@ -1315,7 +1348,7 @@ export default function App() {
       default:
         return renderWithGuard("dashboard", <Dashboard reminders={reminders} activities={activities} />);
     }
-  }, [currentPage, renderWithGuard, reminders, activities, systemLogo, systemNameAr, systemNameEn, pendingQuotationData, addActivity, upsertVisitReminder, removeVisitReminder, currentUser, userRole, currentUserEmail, currentUserId, permissions]);
+  }, [currentPage, renderWithGuard, reminders, activities, systemLogo, systemNameAr, systemNameEn, pendingQuotationData, pendingContractQuotationData, addActivity, upsertVisitReminder, removeVisitReminder, currentUser, userRole, currentUserEmail, currentUserId, permissions]);
 
   // Show login page if not logged in
   // Auth state is initialized synchronously from localStorage, so no flash should occur
@@ -1336,7 +1369,7 @@ export default function App() {
   return (
     <div className="min-h-screen bg-background">
       {/* Sidebar for desktop */}
-      <aside className={`fixed left-0 top-0 z-40 h-screen border-r border-border bg-card transition-all duration-300 lg:translate-x-0 hidden lg:block shadow-sm ${
+      <aside className={`fixed start-0 top-0 z-40 h-screen border-e border-border bg-card transition-all duration-300 lg:translate-x-0 hidden lg:block shadow-sm ${
         isSidebarCollapsed ? 'w-16' : 'w-64'
       }`}>
         <div className="flex h-full flex-col">
@@ -1399,12 +1432,12 @@ export default function App() {
                           className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-xs font-semibold text-muted-foreground hover:bg-accent/50 transition-all uppercase tracking-wide"
                         >
                           <SectionIcon className="h-3.5 w-3.5 flex-shrink-0" />
-                          <span className="flex-1 text-left">{section.section}</span>
-                          <ChevronRight className={`h-3.5 w-3.5 flex-shrink-0 transition-transform ${isSectionOpen ? "rotate-90" : ""}`} />
+                          <span className="flex-1 text-start">{t(section.labelKey)}</span>
+                          <ChevronRight className={`h-3.5 w-3.5 flex-shrink-0 transition-transform ${isSectionOpen ? "rotate-90" : "rtl:rotate-180"}`} />
                         </button>
                         
                         {isSectionOpen && (
-                          <div className="space-y-0.5 ml-2">
+                          <div className="space-y-0.5 ms-2">
                             {visibleItems.map((item) => {
                               const Icon = item.icon;
                               const isActive = currentPage === item.id;
@@ -1423,7 +1456,7 @@ export default function App() {
                                   }`}
                                 >
                                   <Icon className="h-4 w-4 flex-shrink-0" />
-                                  <span className="font-medium">{item.name}</span>
+                                  <span className="font-medium">{t(`page.${item.id}`)}</span>
                                 </button>
                               );
                             })}
@@ -1449,7 +1482,7 @@ export default function App() {
                                   ? "bg-purple-600 text-white shadow-sm"
                                   : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
                               }`}
-                              title={item.name}
+                              title={t(`page.${item.id}`)}
                             >
                               <Icon className="h-5 w-5 flex-shrink-0" />
                             </button>
@@ -1467,7 +1500,7 @@ export default function App() {
             <div className="space-y-2">
               {!isSidebarCollapsed ? (
                 <div className="px-3 py-2 bg-muted/50 rounded-lg">
-                  <p className="text-xs text-muted-foreground">Logged in as</p>
+                  <p className="text-xs text-muted-foreground">{t("shell.loggedInAs")}</p>
                   <p className="text-sm font-medium truncate">{currentUser}</p>
                   <p className="text-xs text-muted-foreground">{userRole}</p>
                 </div>
@@ -1490,11 +1523,11 @@ export default function App() {
                 className="w-full"
               >
                 {isSidebarCollapsed ? (
-                  <PanelLeft className="h-4 w-4" />
+                  <PanelLeft className="h-4 w-4 rtl:rotate-180" />
                 ) : (
                   <>
-                    <PanelLeftClose className="h-4 w-4 mr-2" />
-                    <span className="text-xs">Collapse</span>
+                    <PanelLeftClose className="h-4 w-4 me-2 rtl:rotate-180" />
+                    <span className="text-xs">{t("shell.collapse")}</span>
                   </>
                 )}
               </Button>
@@ -1510,7 +1543,7 @@ export default function App() {
             className="absolute inset-0 bg-black/50"
             onClick={() => setIsSidebarOpen(false)}
           />
-          <aside className="fixed left-0 top-0 h-screen w-64 border-r border-border bg-card shadow-lg">
+          <aside className="fixed start-0 top-0 h-screen w-64 border-e border-border bg-card shadow-lg">
             <div className="flex h-full flex-col">
               <div className="flex items-center justify-between border-b border-border px-6 py-5">
                 <div className="flex items-center gap-3">
@@ -1575,12 +1608,12 @@ export default function App() {
                         className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-xs font-semibold text-muted-foreground hover:bg-accent/50 transition-all uppercase tracking-wide"
                       >
                         <SectionIcon className="h-3.5 w-3.5" />
-                        <span className="flex-1 text-left">{section.section}</span>
-                        <ChevronRight className={`h-3.5 w-3.5 transition-transform ${isSectionOpen ? "rotate-90" : ""}`} />
+                        <span className="flex-1 text-start">{t(section.labelKey)}</span>
+                        <ChevronRight className={`h-3.5 w-3.5 transition-transform ${isSectionOpen ? "rotate-90" : "rtl:rotate-180"}`} />
                       </button>
                       
                       {isSectionOpen && (
-                        <div className="space-y-0.5 ml-2">
+                        <div className="space-y-0.5 ms-2">
                           {visibleItems.map((item) => {
                             const Icon = item.icon;
                             const isActive = currentPage === item.id;
@@ -1598,7 +1631,7 @@ export default function App() {
                                 }`}
                               >
                                 <Icon className="h-4 w-4" />
-                                <span className="font-medium">{item.name}</span>
+                                <span className="font-medium">{t(`page.${item.id}`)}</span>
                               </button>
                             );
                           })}
@@ -1614,7 +1647,7 @@ export default function App() {
       )}
 
       {/* Main content */}
-      <div className={`transition-all duration-300 ${isSidebarCollapsed ? 'lg:ml-16' : 'lg:ml-64'}`}>
+      <div className={`transition-all duration-300 ${isSidebarCollapsed ? 'lg:ms-16' : 'lg:ms-64'}`}>
         <header className="sticky top-0 z-30 border-b border-border bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60 shadow-sm">
           <div className="flex items-center justify-between gap-4 px-4 py-3 lg:px-6">
             <div className="flex items-center gap-4 flex-1">
@@ -1633,9 +1666,9 @@ export default function App() {
                 onClick={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
               >
                 {isSidebarCollapsed ? (
-                  <PanelLeft className="h-5 w-5" />
+                  <PanelLeft className="h-5 w-5 rtl:rotate-180" />
                 ) : (
-                  <PanelLeftClose className="h-5 w-5" />
+                  <PanelLeftClose className="h-5 w-5 rtl:rotate-180" />
                 )}
               </Button>
               <div>
@@ -1651,12 +1684,12 @@ export default function App() {
                 onClick={() => handlePageChange("calendar")}
               >
                 <Bell className="h-5 w-5" />
-                <span className="absolute top-1.5 right-1.5 h-2 w-2 rounded-full bg-purple-600 ring-2 ring-card"></span>
+                <span className="absolute top-1.5 end-1.5 h-2 w-2 rounded-full bg-purple-600 ring-2 ring-card"></span>
               </Button>
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" className="flex items-center gap-3 pl-2 pr-2 h-auto">
-                    <div className="hidden lg:block text-right">
+                  <Button variant="ghost" className="flex items-center gap-3 px-2 h-auto">
+                    <div className="hidden lg:block text-end">
                       <div className="text-sm font-medium">{currentUser}</div>
                       <div className="text-xs text-muted-foreground">{userRole}</div>
                     </div>
@@ -1680,19 +1713,19 @@ export default function App() {
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={() => handlePageChange("profile")}>
-                    <User className="mr-2 h-4 w-4" />
-                    <span>My Profile</span>
+                    <User className="me-2 h-4 w-4" />
+                    <span>{t("page.profile")}</span>
                   </DropdownMenuItem>
                   {hasPermission(permissions, "settings", "view") && (
                     <DropdownMenuItem onClick={() => handlePageChange("settings")}>
-                      <Settings className="mr-2 h-4 w-4" />
-                      <span>Settings</span>
+                      <Settings className="me-2 h-4 w-4" />
+                      <span>{t("shell.settings")}</span>
                     </DropdownMenuItem>
                   )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout} className="text-destructive focus:text-destructive">
-                    <LogOut className="mr-2 h-4 w-4" />
-                    <span>Logout / تسجيل خروج</span>
+                    <LogOut className="me-2 h-4 w-4" />
+                    <span>{t("shell.logout")}</span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -1705,7 +1738,7 @@ export default function App() {
             <div className="flex items-center justify-center min-h-[400px]">
               <div className="text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-2"></div>
-                <p className="text-sm text-muted-foreground">Loading...</p>
+                <p className="text-sm text-muted-foreground">{t("common.loading")}</p>
               </div>
             </div>
           }>
@@ -1713,7 +1746,7 @@ export default function App() {
           </Suspense>
         </main>
       </div>
-      <Toaster position="bottom-right" />
+      <Toaster position={dir === "rtl" ? "bottom-left" : "bottom-right"} dir={dir} />
     </div>
   );
 }
@@ -15,6 +15,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/
 import { Progress } from "./ui/progress";
 import { Button } from "./ui/button";
 import { supabase } from "../lib/supabaseClient";
+import { translateCurrent, useLocale } from "../lib/i18n";
 import { 
   BarChart, 
   Bar, 
@@ -37,8 +38,6 @@ import type { MonthlyVisits as MonthlyVisitRow } from "../../supabase/models/mon
 import type { Leads as LeadRow } from "../../supabase/models/leads";
 import type { CustomerSupportTickets as TicketRow } from "../../supabase/models/customer_support_tickets";
 
-const numberFormatter = new Intl.NumberFormat("en-SA", { maximumFractionDigits: 0 });
-
 const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
 
 const safeDate = (value?: string | null) => {
@@ -73,36 +72,6 @@ const computeGrowthPercentOrNull = (current: number, previous: number) => {
   return ((current - previous) / previous) * 100;
 };
 
-const formatCurrencySar = (value: number | null | undefined) => {
-  if (value == null || Number.isNaN(value)) return "--";
-  return `${numberFormatter.format(Math.round(value))} ر.س`;
-};
-
-const formatPercentValue = (value: number | null | undefined, fractionDigits = 1) => {
-  if (value == null || Number.isNaN(value)) return "--";
-  return `${Number(value).toFixed(fractionDigits)}%`;
-};
-
-const formatCount = (value: number | null | undefined) => {
-  if (value == null || Number.isNaN(value)) return "--";
-  return numberFormatter.format(Math.round(value));
-};
-
-const formatSignedNumber = (
-  value: number | null | undefined,
-  {
-    fractionDigits = 1,
-    suffix = "%",
-    fallback = "--",
-  }: { fractionDigits?: number; suffix?: string; fallback?: string } = {},
-) => {
-  if (value == null || Number.isNaN(value)) return fallback;
-  const normalized = Number(value.toFixed(fractionDigits));
-  const sign = normalized > 0 ? "+" : normalized < 0 ? "-" : "";
-  const absolute = Math.abs(normalized).toFixed(fractionDigits);
-  return `${sign}${absolute}${suffix}`;
-};
-
 const resolvedTicketStatuses = new Set(["resolved", "closed", "completed", "done", "approved"]);
 
 const normalizeInvoiceStatus = (status?: string | null) => {
@@ -210,6 +179,7 @@ const initialSnapshot: AnalyticsSnapshot = {
 };
 
 export function Analytics() {
+  const { t, formatNumber, monthName } = useLocale();
   const [data, setData] = useState<AnalyticsSnapshot>(initialSnapshot);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -254,15 +224,17 @@ export function Analytics() {
             .from("expenses")
             .select("total_amount,paid_amount,base_amount,expense_date,created_at,status")
             .or(`expense_date.gte.${windowIso},created_at.gte.${windowIso}`),
-          supabase.from("customers").select("status,created_at"),
+          supabase.from("customers").select("status,created_at").is("deleted_at", null),
           supabase
             .from("invoices")
-            .select("payment_status,total_amount,paid_amount,remaining_amount,invoice_date,created_at"),
+            .select("payment_status,total_amount,paid_amount,remaining_amount,invoice_date,created_at")
+            .is("deleted_at", null),
           supabase
             .from("contracts")
             .select(
               "contract_amount,contract_status,contract_start_date,contract_duration_interval,created_at,updated_at",
-            ),
+            )
+            .is("deleted_at", null),
           supabase
             .from("monthly_visits")
             .select("status,visit_date,created_at,customer_id,delegate_id"),
@@ -330,11 +302,11 @@ export function Analytics() {
           const revenue = Number((revenueByMonth.get(key) ?? 0).toFixed(2));
           const expense = Number((expenseByMonth.get(key) ?? 0).toFixed(2));
           salesSeries.push({
-            month: date.toLocaleString("en-US", { month: "short" }),
+            month: key,
             sales: revenue,
           });
           financeSeries.push({
-            month: date.toLocaleString("en-US", { month: "short" }),
+            month: key,
             revenue,
             expenses: expense,
           });
@@ -515,7 +487,7 @@ export function Analytics() {
           const key = monthKey(date);
           const monthData = visitsByMonthMap.get(key) ?? { total: 0, completed: 0, scheduled: 0, cancelled: 0 };
           visitsByMonth.push({
-            month: date.toLocaleString("en-US", { month: "short" }),
+            month: key,
             ...monthData,
           });
         }
@@ -676,7 +648,7 @@ export function Analytics() {
         const message =
           caughtError && typeof caughtError === "object" && "message" in caughtError
             ? String((caughtError as { message?: string }).message)
-            : "Failed to load analytics data";
+            : translateCurrent("analytics.loadFailed");
         setError(message);
       } finally {
         if (mode === "initial") {
@@ -697,53 +669,111 @@ export function Analytics() {
     void loadAnalytics("refresh");
   };
 
+  const formatCurrencySar = useCallback(
+    (value: number | null | undefined) => {
+      if (value == null || Number.isNaN(value)) return "--";
+      return formatNumber(value, { style: "currency", currency: "SAR", maximumFractionDigits: 0 });
+    },
+    [formatNumber],
+  );
+
+  const formatPercentValue = useCallback(
+    (value: number | null | undefined) => {
+      if (value == null || Number.isNaN(value)) return "--";
+      return formatNumber(value / 100, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    },
+    [formatNumber],
+  );
+
+  const formatCount = useCallback(
+    (value: number | null | undefined) => {
+      if (value == null || Number.isNaN(value)) return "--";
+      return formatNumber(Math.round(value));
+    },
+    [formatNumber],
+  );
+
+  const formatSignedPercent = useCallback(
+    (value: number | null | undefined) => {
+      if (value == null || Number.isNaN(value)) return "--";
+      return formatNumber(value / 100, {
+        style: "percent",
+        signDisplay: "exceptZero",
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      });
+    },
+    [formatNumber],
+  );
+
+  const formatSignedPoints = useCallback(
+    (value: number | null | undefined) => {
+      if (value == null || Number.isNaN(value)) return "--";
+      return t("analytics.points", {
+        value: formatNumber(value, { signDisplay: "exceptZero", minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+      });
+    },
+    [t, formatNumber],
+  );
+
   const quickMetrics = useMemo(
     () => [
       {
-        title: "Average Deal Size",
+        title: t("analytics.averageDealSize"),
         value: loading ? null : data.quickSummary.averageDealSize.value,
-        valueFormatter: (value: number | null) => formatCurrencySar(value),
+        valueFormatter: formatCurrencySar,
         change: loading ? null : data.quickSummary.averageDealSize.change,
-        changeFormatter: (change: number | null) => formatSignedNumber(change, { suffix: "%", fractionDigits: 1 }),
-        changeSuffix: "vs last month",
+        changeFormatter: formatSignedPercent,
+        changeSuffix: t("analytics.vsLastMonth"),
         positiveColor: "text-green-600",
         negativeColor: "text-orange-600",
       },
       {
-        title: "Customer Satisfaction",
+        title: t("analytics.customerSatisfaction"),
         value: loading ? null : data.quickSummary.customerSatisfaction.value,
-        valueFormatter: (value: number | null) => formatPercentValue(value, 1),
+        valueFormatter: formatPercentValue,
         change: loading ? null : data.quickSummary.customerSatisfaction.change,
-        changeFormatter: (change: number | null) =>
-          formatSignedNumber(change, { suffix: " pts", fractionDigits: 1 }),
-        changeSuffix: "vs last month",
+        changeFormatter: formatSignedPoints,
+        changeSuffix: t("analytics.vsLastMonth"),
         positiveColor: "text-green-600",
         negativeColor: "text-orange-600",
       },
       {
-        title: "Conversion Rate",
+        title: t("analytics.conversionRate"),
         value: loading ? null : data.quickSummary.conversionRate.value,
-        valueFormatter: (value: number | null) => formatPercentValue(value, 1),
+        valueFormatter: formatPercentValue,
         change: loading ? null : data.quickSummary.conversionRate.change,
-        changeFormatter: (change: number | null) =>
-          formatSignedNumber(change, { suffix: " pts", fractionDigits: 1 }),
-        changeSuffix: "vs last month",
+        changeFormatter: formatSignedPoints,
+        changeSuffix: t("analytics.vsLastMonth"),
         positiveColor: "text-green-600",
         negativeColor: "text-orange-600",
       },
       {
-        title: "Renewal Rate",
+        title: t("analytics.renewalRate"),
         value: loading ? null : data.quickSummary.renewalRate.value,
-        valueFormatter: (value: number | null) => formatPercentValue(value, 1),
+        valueFormatter: formatPercentValue,
         change: loading ? null : data.quickSummary.renewalRate.change,
-        changeFormatter: (change: number | null) =>
-          formatSignedNumber(change, { suffix: " pts", fractionDigits: 1 }),
-        changeSuffix: "vs last quarter",
+        changeFormatter: formatSignedPoints,
+        changeSuffix: t("analytics.vsLastQuarter"),
         positiveColor: "text-green-600",
         negativeColor: "text-orange-600",
       },
     ],
-    [data.quickSummary, loading],
+    [data.quickSummary, loading, t, formatCurrencySar, formatPercentValue, formatSignedPercent, formatSignedPoints],
+  );
+
+  const monthLabel = useCallback((key: string) => monthName(Number(key.slice(5, 7))), [monthName]);
+  const salesChartData = useMemo(
+    () => data.salesSeries.map((point) => ({ ...point, month: monthLabel(point.month) })),
+    [data.salesSeries, monthLabel],
+  );
+  const financeChartData = useMemo(
+    () => data.financeSeries.map((point) => ({ ...point, month: monthLabel(point.month) })),
+    [data.financeSeries, monthLabel],
+  );
+  const visitsChartData = useMemo(
+    () => data.visitStats.visitsByMonth.map((point) => ({ ...point, month: monthLabel(point.month) })),
+    [data.visitStats.visitsByMonth, monthLabel],
   );
 
   const revenueTrendUp = !loading && data.revenueGrowthPercent >= 0;
@@ -762,9 +792,9 @@ export function Analytics() {
     <div className="space-y-6">
       <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
       <div>
-        <h2 className="text-2xl font-semibold tracking-tight">Analytics & KPIs</h2>
-        <p className="text-muted-foreground mt-1">Track your business performance and key metrics</p>
-          {loading && <p className="text-xs text-muted-foreground mt-1">Loading real-time insights...</p>}
+        <h2 className="text-2xl font-semibold tracking-tight">{t("analytics.title")}</h2>
+        <p className="text-muted-foreground mt-1">{t("analytics.subtitle")}</p>
+          {loading && <p className="text-xs text-muted-foreground mt-1">{t("analytics.loadingInsights")}</p>}
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -774,7 +804,7 @@ export function Analytics() {
             className="gap-2"
           >
             {refreshing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-            Refresh
+            {t("common.refresh")}
           </Button>
         </div>
       </div>
@@ -788,7 +818,7 @@ export function Analytics() {
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("analytics.totalRevenue")}</CardTitle>
             <DollarSign className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
@@ -799,8 +829,8 @@ export function Analytics() {
               {!loading && <RevenueTrendIcon className={`h-3 w-3 ${revenueTrendColor}`} />}
               <p className={`text-xs ${loading ? "text-muted-foreground" : revenueTrendColor}`}>
                 {loading
-                  ? "Loading..."
-                  : `${formatSignedNumber(data.revenueGrowthPercent, { fractionDigits: 1 })} vs last month`}
+                  ? t("common.loading")
+                  : t("analytics.changeVsLastMonth", { change: formatSignedPercent(data.revenueGrowthPercent) })}
               </p>
             </div>
           </CardContent>
@@ -808,7 +838,7 @@ export function Analytics() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Net Profit</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("analytics.netProfit")}</CardTitle>
             <TrendingUp className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
@@ -816,14 +846,16 @@ export function Analytics() {
               {loading ? "--" : formatCurrencySar(data.netProfit)}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              {loading ? "Calculating margin..." : `${formatPercentValue(data.profitMarginPercent, 1)} profit margin`}
+              {loading
+                ? t("analytics.calculatingMargin")
+                : t("analytics.profitMargin", { margin: formatPercentValue(data.profitMarginPercent) })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Active Customers</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("analytics.activeCustomers")}</CardTitle>
             <Users className="h-4 w-4 text-purple-600" />
           </CardHeader>
           <CardContent>
@@ -834,8 +866,10 @@ export function Analytics() {
               {!loading && <CustomersTrendIcon className={`h-3 w-3 ${customersTrendColor}`} />}
               <p className={`text-xs ${loading ? "text-muted-foreground" : customersTrendColor}`}>
                 {loading
-                  ? "Loading..."
-                  : `${formatSignedNumber(data.customerStats.newThisMonth, { fractionDigits: 0, suffix: "" })} new this month`}
+                  ? t("common.loading")
+                  : t("analytics.newThisMonth", {
+                      count: formatNumber(data.customerStats.newThisMonth, { signDisplay: "exceptZero" }),
+                    })}
               </p>
             </div>
           </CardContent>
@@ -843,7 +877,7 @@ export function Analytics() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Expenses</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("analytics.totalExpenses")}</CardTitle>
             <ShoppingBag className="h-4 w-4 text-orange-600" />
           </CardHeader>
           <CardContent>
@@ -854,8 +888,8 @@ export function Analytics() {
               {!loading && <ExpensesTrendIcon className={`h-3 w-3 ${expensesTrendColor}`} />}
               <p className={`text-xs ${loading ? "text-muted-foreground" : expensesTrendColor}`}>
                 {loading
-                  ? "Loading..."
-                  : `${formatSignedNumber(data.expenseGrowthPercent, { fractionDigits: 1 })} vs last month`}
+                  ? t("common.loading")
+                  : t("analytics.changeVsLastMonth", { change: formatSignedPercent(data.expenseGrowthPercent) })}
               </p>
             </div>
           </CardContent>
@@ -865,17 +899,17 @@ export function Analytics() {
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
-            <CardTitle>Monthly Sales</CardTitle>
-            <CardDescription>Sales performance over the last 6 months</CardDescription>
+            <CardTitle>{t("analytics.monthlySales")}</CardTitle>
+            <CardDescription>{t("analytics.monthlySalesDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
-              <div className="py-12 text-center text-muted-foreground text-sm">Loading sales data...</div>
+              <div className="py-12 text-center text-muted-foreground text-sm">{t("analytics.loadingSales")}</div>
             ) : data.salesSeries.length === 0 ? (
-              <div className="py-12 text-center text-muted-foreground text-sm">No sales data available</div>
+              <div className="py-12 text-center text-muted-foreground text-sm">{t("analytics.noSales")}</div>
             ) : (
             <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={data.salesSeries}>
+                <BarChart data={salesChartData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                   <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: "12px" }} />
                   <YAxis stroke="#6b7280" style={{ fontSize: "12px" }} />
@@ -896,17 +930,17 @@ export function Analytics() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Revenue vs Expenses</CardTitle>
-            <CardDescription>Financial comparison over 6 months</CardDescription>
+            <CardTitle>{t("analytics.revenueVsExpenses")}</CardTitle>
+            <CardDescription>{t("analytics.revenueVsExpensesDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
-              <div className="py-12 text-center text-muted-foreground text-sm">Loading financial data...</div>
+              <div className="py-12 text-center text-muted-foreground text-sm">{t("analytics.loadingFinance")}</div>
             ) : data.financeSeries.length === 0 ? (
-              <div className="py-12 text-center text-muted-foreground text-sm">No financial data available</div>
+              <div className="py-12 text-center text-muted-foreground text-sm">{t("analytics.noFinance")}</div>
             ) : (
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={data.financeSeries}>
+                <LineChart data={financeChartData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                   <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: "12px" }} />
                   <YAxis stroke="#6b7280" style={{ fontSize: "12px" }} />
@@ -919,8 +953,8 @@ export function Analytics() {
                     }}
                   />
                   <Legend />
-                  <Line type="monotone" dataKey="revenue" stroke="#10b981" strokeWidth={2} name="Revenue" />
-                  <Line type="monotone" dataKey="expenses" stroke="#ef4444" strokeWidth={2} name="Expenses" />
+                  <Line type="monotone" dataKey="revenue" stroke="#10b981" strokeWidth={2} name={t("analytics.revenue")} />
+                  <Line type="monotone" dataKey="expenses" stroke="#ef4444" strokeWidth={2} name={t("analytics.expenses")} />
                 </LineChart>
               </ResponsiveContainer>
             )}
@@ -929,31 +963,25 @@ export function Analytics() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Monthly Visits Trend</CardTitle>
-            <CardDescription>Visit performance over the last 6 months</CardDescription>
+            <CardTitle>{t("analytics.visitsTrend")}</CardTitle>
+            <CardDescription>{t("analytics.visitsTrendDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
-              <div className="py-12 text-center text-muted-foreground text-sm">Loading visits data...</div>
+              <div className="py-12 text-center text-muted-foreground text-sm">{t("analytics.loadingVisits")}</div>
             ) : !data.visitStats.visitsByMonth || data.visitStats.visitsByMonth.length === 0 ? (
               <div className="py-12 text-center text-muted-foreground text-sm">
-                No visits data available for the last 6 months
+                {t("analytics.noVisits")}
               </div>
             ) : (
               <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={data.visitStats.visitsByMonth}>
+                <BarChart data={visitsChartData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                   <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: "12px" }} />
                   <YAxis stroke="#6b7280" style={{ fontSize: "12px" }} />
                   <Tooltip
-                    formatter={(value: number, name: string) => {
-                      if (name === "Total Visits") return `${formatCount(value)} total`;
-                      if (name === "Completed") return `${formatCount(value)} completed`;
-                      if (name === "Scheduled") return `${formatCount(value)} scheduled`;
-                      if (name === "Cancelled") return `${formatCount(value)} cancelled`;
-                      return formatCount(value);
-                    }}
-                    labelFormatter={(label) => `Month: ${label}`}
+                    formatter={(value: number) => formatCount(value)}
+                    labelFormatter={(label) => t("analytics.monthLabel", { month: label })}
                     contentStyle={{
                       backgroundColor: "#fff",
                       border: "1px solid #e5e7eb",
@@ -961,11 +989,11 @@ export function Analytics() {
                     }}
                   />
                   <Legend />
-                  <Bar dataKey="total" fill="#3b82f6" radius={[8, 8, 0, 0]} name="Total Visits" />
-                  <Bar dataKey="completed" fill="#10b981" radius={[8, 8, 0, 0]} name="Completed" />
-                  <Bar dataKey="scheduled" fill="#6366f1" radius={[8, 8, 0, 0]} name="Scheduled" />
+                  <Bar dataKey="total" fill="#3b82f6" radius={[8, 8, 0, 0]} name={t("analytics.totalVisits")} />
+                  <Bar dataKey="completed" fill="#10b981" radius={[8, 8, 0, 0]} name={t("visits.status.completed")} />
+                  <Bar dataKey="scheduled" fill="#6366f1" radius={[8, 8, 0, 0]} name={t("visits.status.scheduled")} />
                   {data.visitStats.visitsByMonth.some(v => v.cancelled > 0) && (
-                    <Bar dataKey="cancelled" fill="#ef4444" radius={[8, 8, 0, 0]} name="Cancelled" />
+                    <Bar dataKey="cancelled" fill="#ef4444" radius={[8, 8, 0, 0]} name={t("visits.status.cancelled")} />
                   )}
                 </BarChart>
               </ResponsiveContainer>
@@ -977,7 +1005,7 @@ export function Analytics() {
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Invoices</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("analytics.totalInvoices")}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -986,14 +1014,14 @@ export function Analytics() {
             </div>
             <div className="mt-4 space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Paid</span>
+                <span className="text-muted-foreground">{t("status.paid")}</span>
                 <span className="font-medium text-green-600">
                   {loading ? "--" : formatCount(data.invoiceStats.paid)}
                 </span>
               </div>
               <Progress value={loading ? 0 : clampPercent(data.invoiceStats.paidPercent)} className="h-2" />
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Pending</span>
+                <span className="text-muted-foreground">{t("status.pending")}</span>
                 <span className="font-medium text-yellow-600">
                   {loading ? "--" : formatCount(data.invoiceStats.pending)}
                 </span>
@@ -1004,7 +1032,7 @@ export function Analytics() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Contracts</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("analytics.activeContracts")}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -1013,7 +1041,7 @@ export function Analytics() {
             </div>
             <div className="mt-4 space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Monthly</span>
+                <span className="text-muted-foreground">{t("analytics.monthly")}</span>
                 <span className="font-medium">
                   {loading ? "--" : formatCount(data.contractStats.monthly)}
                 </span>
@@ -1031,7 +1059,7 @@ export function Analytics() {
                 className="h-2"
               />
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Annual</span>
+                <span className="text-muted-foreground">{t("analytics.annual")}</span>
                 <span className="font-medium">
                   {loading ? "--" : formatCount(data.contractStats.annual)}
                 </span>
@@ -1042,7 +1070,7 @@ export function Analytics() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Monthly Visits</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("analytics.monthlyVisits")}</CardTitle>
             <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -1061,27 +1089,27 @@ export function Analytics() {
               )}
               <p className={`text-xs ${loading ? "text-muted-foreground" : data.visitStats.growthPercent >= 0 ? "text-green-600" : "text-orange-600"}`}>
                 {loading
-                  ? "Loading..."
-                  : `${formatSignedNumber(data.visitStats.growthPercent, { fractionDigits: 1 })} vs last month`}
+                  ? t("common.loading")
+                  : t("analytics.changeVsLastMonth", { change: formatSignedPercent(data.visitStats.growthPercent) })}
               </p>
             </div>
             <div className="mt-4 space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Completed</span>
+                <span className="text-muted-foreground">{t("visits.status.completed")}</span>
                 <span className="font-medium text-green-600">
                   {loading ? "--" : formatCount(data.visitStats.completed)}
                 </span>
               </div>
               <Progress value={loading ? 0 : clampPercent(data.visitStats.completionRate)} className="h-2" />
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Scheduled</span>
+                <span className="text-muted-foreground">{t("visits.status.scheduled")}</span>
                 <span className="font-medium text-blue-600">
                   {loading ? "--" : formatCount(data.visitStats.scheduled)}
                 </span>
               </div>
               {!loading && data.visitStats.cancelled > 0 && (
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">Cancelled</span>
+                  <span className="text-muted-foreground">{t("visits.status.cancelled")}</span>
                   <span className="font-medium text-red-600">
                     {formatCount(data.visitStats.cancelled)}
                   </span>
@@ -1094,8 +1122,8 @@ export function Analytics() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Quick Summary</CardTitle>
-          <CardDescription>Key performance indicators at a glance</CardDescription>
+          <CardTitle>{t("analytics.quickSummary")}</CardTitle>
+          <CardDescription>{t("analytics.quickSummaryDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -1111,10 +1139,10 @@ export function Analytics() {
                   ? metric.positiveColor
                   : "text-muted-foreground";
               const changeLabel = loading
-                ? "Loading..."
+                ? t("common.loading")
                 : hasChange
                 ? `${metric.changeFormatter(metric.change)} ${metric.changeSuffix}`
-                : "No recent data";
+                : t("analytics.noRecentData");
 
               return (
                 <div key={metric.title} className="space-y-2">
@@ -21,6 +21,8 @@ import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { SupplierSelector } from "./SupplierSelector";
 import type { Supplier as SupplierOption } from "./SupplierSelector";
 import type { Suppliers } from "../../supabase/models/suppliers";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface Asset {
   id: string;
@@ -51,6 +53,39 @@ interface Asset {
   notes?: string;
 }
 
+const STATUS_KEYS: Record<Asset["status"], MessageKey> = {
+  Active: "assets.status.active",
+  "Under Maintenance": "assets.status.underMaintenance",
+  Disposed: "assets.status.disposed",
+  Sold: "assets.status.sold",
+};
+
+const CONDITION_KEYS: Record<Asset["condition"], MessageKey> = {
+  Excellent: "assets.condition.excellent",
+  Good: "assets.condition.good",
+  Fair: "assets.condition.fair",
+  Poor: "assets.condition.poor",
+};
+
+// Categories and departments are stored in English; anything else is shown as entered
+const CATEGORY_KEYS: Record<string, MessageKey> = {
+  "Real Estate": "assets.category.realEstate",
+  Vehicles: "assets.category.vehicles",
+  Machinery: "assets.category.machinery",
+  "IT Equipment": "assets.category.itEquipment",
+  Furniture: "assets.category.furniture",
+  Other: "assets.category.other",
+};
+
+const DEPARTMENT_KEYS: Record<string, MessageKey> = {
+  Administration: "assets.department.administration",
+  Manufacturing: "assets.department.manufacturing",
+  IT: "assets.department.it",
+  Sales: "assets.department.sales",
+  Logistics: "assets.department.logistics",
+  Finance: "assets.department.finance",
+};
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case "Active": return "bg-green-100 text-green-700 border-green-200";
@@ -135,6 +170,7 @@ const mapRecordToAsset = (record: FixedAssetsManagement, sequence: number): Asse
 
 export function Assets() {
   const dispatch = useAppDispatch();
+  const { t, formatNumber, formatCurrency, formatDate } = useLocale();
   const assetRecords = useAppSelector(selectors.fixed_assets_management.selectAll);
   const loading = useAppSelector(selectors.fixed_assets_management.selectLoading);
   const error = useAppSelector(selectors.fixed_assets_management.selectError);
@@ -268,13 +304,13 @@ export function Assets() {
   const supplierOptions = useMemo<SupplierOption[]>(() => {
     return dbSuppliers.map((supplier, idx) => ({
       id: idx + 1,
-      name: supplier.supplier_en_name ?? supplier.supplier_ar_name ?? "Unnamed Supplier",
+      name: supplier.supplier_en_name ?? supplier.supplier_ar_name ?? t("purchases.unnamedSupplier"),
       mobile: supplier.supplier_phone_num ?? undefined,
       email: supplier.supplier_email ?? undefined,
       location: [supplier.supplier_address, supplier.supplier_city, supplier.supplier_country].filter(Boolean).join(", "),
       dbId: supplier.supplier_id,
     }));
-  }, [dbSuppliers]);
+  }, [dbSuppliers, t]);
 
   // Update selectedSupplierOption when supplierOptions change (for editing)
   useEffect(() => {
@@ -307,6 +343,19 @@ export function Assets() {
     underMaintenance: assets.filter(a => a.status === "Under Maintenance").length,
   }), [assets]);
 
+  const getCategoryLabel = (category: string) => {
+    const key = CATEGORY_KEYS[category];
+    return key ? t(key) : category;
+  };
+
+  const getDepartmentLabel = (department: string) => {
+    const key = DEPARTMENT_KEYS[department];
+    return key ? t(key) : department;
+  };
+
+  const formatCompactCurrency = (value: number) =>
+    formatNumber(value, { style: "currency", currency: "SAR", notation: "compact", maximumFractionDigits: 1 });
+
   const resetForm = () => {
     setFormAssetName("");
     setFormAssetNameAr("");
@@ -343,7 +392,7 @@ export function Assets() {
     if (!file) return;
 
     if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image size should be less than 5MB");
+      toast.error(t("assets.imageTooLarge"));
       return;
     }
     
@@ -366,7 +415,7 @@ export function Assets() {
   const openEditDialog = (asset: Asset) => {
     const record = assetRecords.find(item => item.asset_id === asset.id);
     if (!record) {
-      toast.error("Unable to load asset for editing");
+      toast.error(t("assets.loadForEditFailed"));
       return;
     }
 
@@ -420,31 +469,31 @@ export function Assets() {
 
   const handleSave = async () => {
     if (!formAssetName || !formAssetNameAr || !formCategory || !formPurchaseDate || !formPurchasePrice || !formLocation || !formDepartment) {
-      toast.error("Please fill all required fields");
+      toast.error(t("assets.requiredFields"));
       return;
     }
 
     const purchasePrice = Number(formPurchasePrice);
     if (Number.isNaN(purchasePrice)) {
-      toast.error("Purchase price must be a number");
+      toast.error(t("assets.purchasePriceInvalid"));
       return;
     }
 
     const currentValueInput = formCurrentValue ? Number(formCurrentValue) : purchasePrice;
     if (Number.isNaN(currentValueInput)) {
-      toast.error("Current value must be a number");
+      toast.error(t("assets.currentValueInvalid"));
       return;
     }
 
     const depreciationRate = formDepreciationRate ? Number(formDepreciationRate) : null;
     if (formDepreciationRate && Number.isNaN(depreciationRate)) {
-      toast.error("Depreciation rate must be a number");
+      toast.error(t("assets.depreciationRateInvalid"));
       return;
     }
 
     const usefulLife = formUsefulLife ? Number(formUsefulLife) : null;
     if (formUsefulLife && Number.isNaN(usefulLife)) {
-      toast.error("Useful life must be a number");
+      toast.error(t("assets.usefulLifeInvalid"));
       return;
     }
 
@@ -485,13 +534,13 @@ export function Assets() {
                 uploadResult.fileMetadata.is_public
               )) || formImage;
           } else {
-            toast.error(uploadResult.error || 'Failed to upload image');
+            toast.error(uploadResult.error || translateCurrent("assets.imageUploadFailed"));
             imageUrl = formImage;
           }
         }
       } catch (error: any) {
         console.error('Error uploading image:', error);
-        toast.error(error.message || 'Failed to upload image');
+        toast.error(error.message || translateCurrent("assets.imageUploadFailed"));
         imageUrl = formImage;
       } finally {
         setUploadingImage(false);
@@ -539,7 +588,7 @@ export function Assets() {
           }));
         }
         
-        toast.success("Asset updated successfully!");
+        toast.success(translateCurrent("assets.updated"));
       } else {
         // Create new asset first
         const created = await dispatch(thunks.fixed_assets_management.createOne(payload)).unwrap();
@@ -596,12 +645,12 @@ export function Assets() {
           }
         }
         
-        toast.success("Asset added successfully!");
+        toast.success(translateCurrent("assets.added"));
       }
       setIsDialogOpen(false);
       resetForm();
     } catch (err: any) {
-      const message = err?.message || err?.error?.message || "Failed to save asset";
+      const message = err?.message || err?.error?.message || translateCurrent("assets.saveFailed");
       toast.error(message);
     }
   };
@@ -609,13 +658,13 @@ export function Assets() {
   const handleDelete = async (id: string) => {
     try {
       await dispatch(thunks.fixed_assets_management.deleteOne(id)).unwrap();
-      toast.success("Asset deleted successfully!");
+      toast.success(translateCurrent("assets.deleted"));
       if (selectedAsset?.id === id) {
         setIsViewDialogOpen(false);
         setSelectedAsset(null);
       }
     } catch (err: any) {
-      const message = err?.message || err?.error?.message || "Failed to delete asset";
+      const message = err?.message || err?.error?.message || translateCurrent("assets.deleteFailed");
       toast.error(message);
     }
   };
@@ -666,9 +715,9 @@ export function Assets() {
       XLSX.utils.book_append_sheet(wb, ws, "Assets");
       const fileName = `assets_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -678,17 +727,17 @@ export function Assets() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h2>Fixed Assets Management - إدارة الأصول الثابتة</h2>
-          <p className="text-muted-foreground mt-1">Track and manage company assets</p>
+          <h2>{t("assets.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("assets.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button onClick={openAddDialog} className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
             <Plus className="h-4 w-4" />
-            New Asset
+            {t("assets.newAsset")}
           </Button>
         </div>
       </div>
@@ -697,60 +746,60 @@ export function Assets() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Assets</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("assets.totalAssets")}</CardTitle>
             <Package className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-blue-600">{stats.totalAssets}</div>
-            <p className="text-xs text-muted-foreground mt-1">All assets</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("assets.allAssets")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Active Assets</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("assets.activeAssets")}</CardTitle>
             <TrendingUp className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-green-600">{stats.active}</div>
-            <p className="text-xs text-muted-foreground mt-1">In use</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("assets.inUse")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Purchase Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("assets.purchaseValue")}</CardTitle>
             <DollarSign className="h-5 w-5 text-purple-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-purple-600">
-              {(stats.totalPurchaseValue / 1000000).toFixed(1)}M
+              {formatCompactCurrency(stats.totalPurchaseValue)}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">SAR - Original cost</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("assets.originalCost")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Current Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("assets.currentValue")}</CardTitle>
             <DollarSign className="h-5 w-5 text-indigo-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-indigo-600">
-              {(stats.totalCurrentValue / 1000000).toFixed(1)}M
+              {formatCompactCurrency(stats.totalCurrentValue)}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">SAR - Book value</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("assets.bookValue")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Maintenance</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("assets.maintenance")}</CardTitle>
             <Wrench className="h-5 w-5 text-orange-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-orange-600">{stats.underMaintenance}</div>
-            <p className="text-xs text-muted-foreground mt-1">Under service</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("assets.underService")}</p>
           </CardContent>
         </Card>
       </div>
@@ -760,35 +809,35 @@ export function Assets() {
         <CardContent className="pt-6">
           <div className="flex gap-3">
             <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by name, asset number, serial number..."
+                placeholder={t("assets.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
+                className="ps-10"
               />
             </div>
             <Select value={categoryFilter} onValueChange={setCategoryFilter}>
               <SelectTrigger className="w-[200px]">
-                <SelectValue placeholder="All Categories" />
+                <SelectValue placeholder={t("assets.allCategories")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
+                <SelectItem value="all">{t("assets.allCategories")}</SelectItem>
                 {categories.map(cat => (
-                  <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                  <SelectItem key={cat} value={cat}>{getCategoryLabel(cat)}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="All Status" />
+                <SelectValue placeholder={t("common.allStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="Active">Active</SelectItem>
-                <SelectItem value="Under Maintenance">Under Maintenance</SelectItem>
-                <SelectItem value="Disposed">Disposed</SelectItem>
-                <SelectItem value="Sold">Sold</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="Active">{t(STATUS_KEYS.Active)}</SelectItem>
+                <SelectItem value="Under Maintenance">{t(STATUS_KEYS["Under Maintenance"])}</SelectItem>
+                <SelectItem value="Disposed">{t(STATUS_KEYS.Disposed)}</SelectItem>
+                <SelectItem value="Sold">{t(STATUS_KEYS.Sold)}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -801,34 +850,34 @@ export function Assets() {
           {error && assets.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12 text-center">
               <AlertCircle className="h-12 w-12 text-destructive mb-3" />
-              <p className="text-destructive font-medium">Failed to load assets</p>
+              <p className="text-destructive font-medium">{t("assets.loadFailed")}</p>
               <p className="text-sm text-muted-foreground max-w-md">{error}</p>
             </div>
           ) : loading && assets.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Clock className="h-12 w-12 text-muted-foreground mb-3 animate-spin" />
-              <p className="text-muted-foreground">Loading assets...</p>
+              <p className="text-muted-foreground">{t("assets.loading")}</p>
             </div>
           ) : filteredAssets.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Package className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No assets found</p>
+              <p className="text-muted-foreground">{t("assets.empty")}</p>
             </div>
           ) : (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Asset #</TableHead>
-                    <TableHead>Asset Name</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Location</TableHead>
-                    <TableHead>Purchase Date</TableHead>
-                    <TableHead>Purchase Price</TableHead>
-                    <TableHead>Current Value</TableHead>
-                    <TableHead>Condition</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead>{t("assets.number")}</TableHead>
+                    <TableHead>{t("assets.assetName")}</TableHead>
+                    <TableHead>{t("assets.category")}</TableHead>
+                    <TableHead>{t("assets.location")}</TableHead>
+                    <TableHead>{t("assets.purchaseDate")}</TableHead>
+                    <TableHead>{t("assets.purchasePrice")}</TableHead>
+                    <TableHead>{t("assets.currentValue")}</TableHead>
+                    <TableHead>{t("assets.conditionLabel")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                    <TableHead className="text-end">{t("common.actions")}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -848,32 +897,34 @@ export function Assets() {
                       </TableCell>
                       <TableCell>
                         <div>
-                          <p className="font-medium">{asset.category}</p>
+                          <p className="font-medium">{getCategoryLabel(asset.category)}</p>
                           <p className="text-xs text-muted-foreground">{asset.type}</p>
                         </div>
                       </TableCell>
                       <TableCell>{asset.location}</TableCell>
-                      <TableCell>{new Date(asset.purchaseDate).toLocaleDateString('en-GB')}</TableCell>
-                      <TableCell>SAR {asset.purchasePrice.toLocaleString()}</TableCell>
+                      <TableCell>{formatDate(asset.purchaseDate)}</TableCell>
+                      <TableCell>{formatCurrency(asset.purchasePrice)}</TableCell>
                       <TableCell>
                         <div>
-                          <p className="font-medium">SAR {asset.currentValue.toLocaleString()}</p>
+                          <p className="font-medium">{formatCurrency(asset.currentValue)}</p>
                           <p className="text-xs text-muted-foreground">
-                            {((asset.currentValue / asset.purchasePrice) * 100).toFixed(0)}% of original
+                            {t("assets.percentOfOriginal", {
+                              percent: formatNumber(asset.currentValue / asset.purchasePrice, { style: "percent", maximumFractionDigits: 0 }),
+                            })}
                           </p>
                         </div>
                       </TableCell>
                       <TableCell>
                         <Badge className={getConditionColor(asset.condition)}>
-                          {asset.condition}
+                          {t(CONDITION_KEYS[asset.condition])}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <Badge className={getStatusColor(asset.status)}>
-                          {asset.status}
+                          {t(STATUS_KEYS[asset.status])}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex justify-end gap-2">
                           <Button size="sm" variant="outline" onClick={() => openViewDialog(asset)}>
                             <Eye className="h-4 w-4" />
@@ -902,34 +953,34 @@ export function Assets() {
       }}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingAssetRecord ? "Edit Asset" : "Add New Asset"}</DialogTitle>
+            <DialogTitle>{editingAssetRecord ? t("assets.editTitle") : t("assets.addTitle")}</DialogTitle>
             <DialogDescription>
-              {editingAssetRecord ? "Update asset information" : "Register a new company asset"}
+              {editingAssetRecord ? t("assets.editDescription") : t("assets.addDescription")}
             </DialogDescription>
           </DialogHeader>
 
           <Tabs defaultValue="basic" className="mt-4">
             <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="basic">Basic Info</TabsTrigger>
-              <TabsTrigger value="financial">Financial</TabsTrigger>
-              <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
-              <TabsTrigger value="additional">Additional</TabsTrigger>
+              <TabsTrigger value="basic">{t("assets.tab.basic")}</TabsTrigger>
+              <TabsTrigger value="financial">{t("assets.tab.financial")}</TabsTrigger>
+              <TabsTrigger value="maintenance">{t("assets.maintenance")}</TabsTrigger>
+              <TabsTrigger value="additional">{t("assets.tab.additional")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="basic" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="assetName">Asset Name (English) *</Label>
+                  <Label htmlFor="assetName">{t("assets.assetNameEnRequired")}</Label>
                   <Input
                     id="assetName"
                     value={formAssetName}
                     onChange={(e) => setFormAssetName(e.target.value)}
-                    placeholder="Office Building"
+                    placeholder={t("assets.assetNameEnPlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="assetNameAr">Asset Name (Arabic) *</Label>
+                  <Label htmlFor="assetNameAr">{t("assets.assetNameArRequired")}</Label>
                   <Input
                     id="assetNameAr"
                     value={formAssetNameAr}
@@ -940,72 +991,72 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="category">Category *</Label>
+                  <Label htmlFor="category">{t("assets.categoryRequired")}</Label>
                   <Select value={formCategory} onValueChange={setFormCategory}>
                     <SelectTrigger id="category">
-                      <SelectValue placeholder="Select category" />
+                      <SelectValue placeholder={t("assets.selectCategory")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Real Estate">Real Estate</SelectItem>
-                      <SelectItem value="Vehicles">Vehicles</SelectItem>
-                      <SelectItem value="Machinery">Machinery & Equipment</SelectItem>
-                      <SelectItem value="IT Equipment">IT Equipment</SelectItem>
-                      <SelectItem value="Furniture">Furniture & Fixtures</SelectItem>
-                      <SelectItem value="Other">Other</SelectItem>
+                      <SelectItem value="Real Estate">{t(CATEGORY_KEYS["Real Estate"])}</SelectItem>
+                      <SelectItem value="Vehicles">{t(CATEGORY_KEYS.Vehicles)}</SelectItem>
+                      <SelectItem value="Machinery">{t(CATEGORY_KEYS.Machinery)}</SelectItem>
+                      <SelectItem value="IT Equipment">{t(CATEGORY_KEYS["IT Equipment"])}</SelectItem>
+                      <SelectItem value="Furniture">{t(CATEGORY_KEYS.Furniture)}</SelectItem>
+                      <SelectItem value="Other">{t(CATEGORY_KEYS.Other)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="type">Asset Type *</Label>
+                  <Label htmlFor="type">{t("assets.typeRequired")}</Label>
                   <Input
                     id="type"
                     value={formType}
                     onChange={(e) => setFormType(e.target.value)}
-                    placeholder="Building, Vehicle, Equipment..."
+                    placeholder={t("assets.typePlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="location">Location *</Label>
+                  <Label htmlFor="location">{t("assets.locationRequired")}</Label>
                   <Input
                     id="location"
                     value={formLocation}
                     onChange={(e) => setFormLocation(e.target.value)}
-                    placeholder="Riyadh Office"
+                    placeholder={t("assets.locationPlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="department">Department *</Label>
+                  <Label htmlFor="department">{t("assets.departmentRequired")}</Label>
                   <Select value={formDepartment} onValueChange={setFormDepartment}>
                     <SelectTrigger id="department">
-                      <SelectValue placeholder="Select department" />
+                      <SelectValue placeholder={t("assets.selectDepartment")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Administration">Administration</SelectItem>
-                      <SelectItem value="Manufacturing">Manufacturing</SelectItem>
-                      <SelectItem value="IT">IT</SelectItem>
-                      <SelectItem value="Sales">Sales</SelectItem>
-                      <SelectItem value="Logistics">Logistics</SelectItem>
-                      <SelectItem value="Finance">Finance</SelectItem>
+                      <SelectItem value="Administration">{t(DEPARTMENT_KEYS.Administration)}</SelectItem>
+                      <SelectItem value="Manufacturing">{t(DEPARTMENT_KEYS.Manufacturing)}</SelectItem>
+                      <SelectItem value="IT">{t(DEPARTMENT_KEYS.IT)}</SelectItem>
+                      <SelectItem value="Sales">{t(DEPARTMENT_KEYS.Sales)}</SelectItem>
+                      <SelectItem value="Logistics">{t(DEPARTMENT_KEYS.Logistics)}</SelectItem>
+                      <SelectItem value="Finance">{t(DEPARTMENT_KEYS.Finance)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="description">Description (English)</Label>
+                  <Label htmlFor="description">{t("assets.descriptionEn")}</Label>
                   <Textarea
                     id="description"
                     value={formDescription}
                     onChange={(e) => setFormDescription(e.target.value)}
-                    placeholder="Detailed description in English"
+                    placeholder={t("assets.descriptionEnPlaceholder")}
                     rows={2}
                   />
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="descriptionAr">Description (Arabic)</Label>
+                  <Label htmlFor="descriptionAr">{t("assets.descriptionAr")}</Label>
                   <Textarea
                     id="descriptionAr"
                     value={formDescriptionAr}
@@ -1017,31 +1068,31 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="status">Status *</Label>
+                  <Label htmlFor="status">{t("assets.statusRequired")}</Label>
                   <Select value={formStatus} onValueChange={(value: any) => setFormStatus(value)}>
                     <SelectTrigger id="status">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Active">Active</SelectItem>
-                      <SelectItem value="Under Maintenance">Under Maintenance</SelectItem>
-                      <SelectItem value="Disposed">Disposed</SelectItem>
-                      <SelectItem value="Sold">Sold</SelectItem>
+                      <SelectItem value="Active">{t(STATUS_KEYS.Active)}</SelectItem>
+                      <SelectItem value="Under Maintenance">{t(STATUS_KEYS["Under Maintenance"])}</SelectItem>
+                      <SelectItem value="Disposed">{t(STATUS_KEYS.Disposed)}</SelectItem>
+                      <SelectItem value="Sold">{t(STATUS_KEYS.Sold)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="condition">Condition *</Label>
+                  <Label htmlFor="condition">{t("assets.conditionRequired")}</Label>
                   <Select value={formCondition} onValueChange={(value: any) => setFormCondition(value)}>
                     <SelectTrigger id="condition">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Excellent">Excellent</SelectItem>
-                      <SelectItem value="Good">Good</SelectItem>
-                      <SelectItem value="Fair">Fair</SelectItem>
-                      <SelectItem value="Poor">Poor</SelectItem>
+                      <SelectItem value="Excellent">{t(CONDITION_KEYS.Excellent)}</SelectItem>
+                      <SelectItem value="Good">{t(CONDITION_KEYS.Good)}</SelectItem>
+                      <SelectItem value="Fair">{t(CONDITION_KEYS.Fair)}</SelectItem>
+                      <SelectItem value="Poor">{t(CONDITION_KEYS.Poor)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1051,7 +1102,7 @@ export function Assets() {
             <TabsContent value="financial" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="purchaseDate">Purchase Date *</Label>
+                  <Label htmlFor="purchaseDate">{t("assets.purchaseDateRequired")}</Label>
                   <Input
                     id="purchaseDate"
                     type="date"
@@ -1061,7 +1112,7 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="purchasePrice">Purchase Price (SAR) *</Label>
+                  <Label htmlFor="purchasePrice">{t("assets.purchasePriceRequired")}</Label>
                   <Input
                     id="purchasePrice"
                     type="number"
@@ -1073,7 +1124,7 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="currentValue">Current Value (SAR)</Label>
+                  <Label htmlFor="currentValue">{t("assets.currentValueSar")}</Label>
                   <Input
                     id="currentValue"
                     type="number"
@@ -1085,7 +1136,7 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="depreciationRate">Depreciation Rate (%)</Label>
+                  <Label htmlFor="depreciationRate">{t("assets.depreciationRate")}</Label>
                   <Input
                     id="depreciationRate"
                     type="number"
@@ -1097,7 +1148,7 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="usefulLife">Useful Life (Years)</Label>
+                  <Label htmlFor="usefulLife">{t("assets.usefulLife")}</Label>
                   <Input
                     id="usefulLife"
                     type="number"
@@ -1109,10 +1160,10 @@ export function Assets() {
 
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
-                    <Label>Supplier</Label>
+                    <Label>{t("selector.supplier")}</Label>
                     <div className="flex items-center gap-2">
                       <Label htmlFor="manual-supplier" className="text-sm font-normal cursor-pointer">
-                        Enter manually
+                        {t("assets.enterManually")}
                       </Label>
                       <Switch
                         id="manual-supplier"
@@ -1132,7 +1183,7 @@ export function Assets() {
                     <Input
                       value={manualSupplierName}
                       onChange={(e) => setManualSupplierName(e.target.value)}
-                      placeholder="Enter supplier name..."
+                      placeholder={t("assets.supplierNamePlaceholder")}
                     />
                   ) : (
                     <SupplierSelector
@@ -1141,7 +1192,7 @@ export function Assets() {
                       onSupplierSelect={(supplier) => {
                         setSelectedSupplierOption(supplier);
                       }}
-                      placeholder="Select supplier..."
+                      placeholder={t("assets.selectSupplier")}
                     />
                   )}
                 </div>
@@ -1150,21 +1201,29 @@ export function Assets() {
                   <div className="col-span-2 bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <div className="grid grid-cols-3 gap-4 text-sm">
                       <div>
-                        <p className="text-muted-foreground">Total Depreciation</p>
+                        <p className="text-muted-foreground">{t("assets.totalDepreciation")}</p>
                         <p className="font-semibold text-blue-700">
-                          SAR {(parseFloat(formPurchasePrice) - parseFloat(formCurrentValue)).toLocaleString()}
+                          {formatCurrency(parseFloat(formPurchasePrice) - parseFloat(formCurrentValue))}
                         </p>
                       </div>
                       <div>
-                        <p className="text-muted-foreground">Depreciation %</p>
+                        <p className="text-muted-foreground">{t("assets.depreciationPercent")}</p>
                         <p className="font-semibold text-blue-700">
-                          {(((parseFloat(formPurchasePrice) - parseFloat(formCurrentValue)) / parseFloat(formPurchasePrice)) * 100).toFixed(1)}%
+                          {formatNumber((parseFloat(formPurchasePrice) - parseFloat(formCurrentValue)) / parseFloat(formPurchasePrice), {
+                            style: "percent",
+                            minimumFractionDigits: 1,
+                            maximumFractionDigits: 1,
+                          })}
                         </p>
                       </div>
                       <div>
-                        <p className="text-muted-foreground">Remaining Value</p>
+                        <p className="text-muted-foreground">{t("assets.remainingValue")}</p>
                         <p className="font-semibold text-blue-700">
-                          {((parseFloat(formCurrentValue) / parseFloat(formPurchasePrice)) * 100).toFixed(1)}%
+                          {formatNumber(parseFloat(formCurrentValue) / parseFloat(formPurchasePrice), {
+                            style: "percent",
+                            minimumFractionDigits: 1,
+                            maximumFractionDigits: 1,
+                          })}
                         </p>
                       </div>
                     </div>
@@ -1176,7 +1235,7 @@ export function Assets() {
             <TabsContent value="maintenance" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="warrantyExpiry">Warranty Expiry</Label>
+                  <Label htmlFor="warrantyExpiry">{t("assets.warrantyExpiry")}</Label>
                   <Input
                     id="warrantyExpiry"
                     type="date"
@@ -1186,7 +1245,7 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="lastMaintenance">Last Maintenance Date</Label>
+                  <Label htmlFor="lastMaintenance">{t("assets.lastMaintenanceDate")}</Label>
                   <Input
                     id="lastMaintenance"
                     type="date"
@@ -1196,7 +1255,7 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="nextMaintenance">Next Maintenance Date</Label>
+                  <Label htmlFor="nextMaintenance">{t("assets.nextMaintenanceDate")}</Label>
                   <Input
                     id="nextMaintenance"
                     type="date"
@@ -1210,7 +1269,7 @@ export function Assets() {
             <TabsContent value="additional" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="serialNumber">Serial Number</Label>
+                  <Label htmlFor="serialNumber">{t("assets.serialNumber")}</Label>
                   <Input
                     id="serialNumber"
                     value={formSerialNumber}
@@ -1220,50 +1279,50 @@ export function Assets() {
                 </div>
 
                 <div>
-                  <Label htmlFor="model">Model</Label>
+                  <Label htmlFor="model">{t("assets.model")}</Label>
                   <Input
                     id="model"
                     value={formModel}
                     onChange={(e) => setFormModel(e.target.value)}
-                    placeholder="Model name/number"
+                    placeholder={t("assets.modelPlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="manufacturer">Manufacturer</Label>
+                  <Label htmlFor="manufacturer">{t("assets.manufacturer")}</Label>
                   <Input
                     id="manufacturer"
                     value={formManufacturer}
                     onChange={(e) => setFormManufacturer(e.target.value)}
-                    placeholder="Manufacturer name"
+                    placeholder={t("assets.manufacturerPlaceholder")}
                   />
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="notes">Notes</Label>
+                  <Label htmlFor="notes">{t("common.notes")}</Label>
                   <Textarea
                     id="notes"
                     value={formNotes}
                     onChange={(e) => setFormNotes(e.target.value)}
-                    placeholder="Additional notes or comments"
+                    placeholder={t("assets.notesPlaceholder")}
                     rows={3}
                   />
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="image">Asset Image</Label>
+                  <Label htmlFor="image">{t("assets.assetImage")}</Label>
                   <div className="mt-2">
                     {formImage ? (
                       <div className="relative inline-block">
                         <img 
                           src={formImage} 
-                          alt="Asset" 
+                          alt={t("assets.imageAlt")}
                           className="w-32 h-32 object-cover rounded-lg border"
                         />
                         <Button
                           size="sm"
                           variant="destructive"
-                          className="absolute -top-2 -right-2"
+                          className="absolute -top-2 -end-2"
                           onClick={() => setFormImage(null)}
                         >
                           <X className="h-4 w-4" />
@@ -1272,7 +1331,7 @@ export function Assets() {
                     ) : (
                       <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
                         <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground mb-2">Upload asset image</p>
+                        <p className="text-sm text-muted-foreground mb-2">{t("assets.uploadImage")}</p>
                         <Input
                           id="image"
                           type="file"
@@ -1280,7 +1339,7 @@ export function Assets() {
                           onChange={handleImageUpload}
                           className="max-w-xs mx-auto"
                         />
-                        <p className="text-xs text-muted-foreground mt-2">Max size: 5MB</p>
+                        <p className="text-xs text-muted-foreground mt-2">{t("assets.maxSize")}</p>
                       </div>
                     )}
                   </div>
@@ -1291,10 +1350,10 @@ export function Assets() {
 
           <div className="flex justify-end gap-3 pt-4 border-t mt-6">
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleSave} className="bg-purple-600 hover:bg-purple-700 text-white" disabled={uploadingImage}>
-              {editingAssetRecord ? "Update Asset" : "Add Asset"}
+              {editingAssetRecord ? t("assets.update") : t("assets.add")}
             </Button>
           </div>
         </DialogContent>
@@ -1304,8 +1363,8 @@ export function Assets() {
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Asset Details</DialogTitle>
-            <DialogDescription>Complete information about this asset</DialogDescription>
+            <DialogTitle>{t("assets.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("assets.detailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedAsset && (
@@ -1323,7 +1382,7 @@ export function Assets() {
                       <div className="p-4 rounded-lg bg-primary/10 text-primary inline-block mb-2">
                         {getCategoryIcon(selectedAsset.category)}
                       </div>
-                      <p className="text-sm text-muted-foreground">{selectedAsset.category}</p>
+                      <p className="text-sm text-muted-foreground">{getCategoryLabel(selectedAsset.category)}</p>
                     </div>
                   )}
                 </div>
@@ -1331,10 +1390,10 @@ export function Assets() {
                   <div>
                     <div className="flex items-center gap-2 mb-2">
                       <Badge className={getStatusColor(selectedAsset.status)}>
-                        {selectedAsset.status}
+                        {t(STATUS_KEYS[selectedAsset.status])}
                       </Badge>
                       <Badge className={getConditionColor(selectedAsset.condition)}>
-                        {selectedAsset.condition}
+                        {t(CONDITION_KEYS[selectedAsset.condition])}
                       </Badge>
                       <span className="text-xs text-muted-foreground font-mono">{selectedAsset.assetNumber}</span>
                     </div>
@@ -1348,29 +1407,33 @@ export function Assets() {
               <div className="grid grid-cols-4 gap-4">
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Purchase Price</p>
-                    <p className="text-xl font-bold">SAR {selectedAsset.purchasePrice.toLocaleString()}</p>
+                    <p className="text-sm text-muted-foreground">{t("assets.purchasePrice")}</p>
+                    <p className="text-xl font-bold">{formatCurrency(selectedAsset.purchasePrice)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Current Value</p>
-                    <p className="text-xl font-bold text-primary">SAR {selectedAsset.currentValue.toLocaleString()}</p>
+                    <p className="text-sm text-muted-foreground">{t("assets.currentValue")}</p>
+                    <p className="text-xl font-bold text-primary">{formatCurrency(selectedAsset.currentValue)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Depreciation</p>
+                    <p className="text-sm text-muted-foreground">{t("assets.depreciation")}</p>
                     <p className="text-xl font-bold text-red-600">
-                      {selectedAsset.depreciationRate}%/year
+                      {t("assets.depreciationPerYear", {
+                        rate: formatNumber(selectedAsset.depreciationRate / 100, { style: "percent", maximumFractionDigits: 2 }),
+                      })}
                     </p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Asset Age</p>
+                    <p className="text-sm text-muted-foreground">{t("assets.assetAge")}</p>
                     <p className="text-xl font-bold">
-                      {Math.floor((new Date().getTime() - new Date(selectedAsset.purchaseDate).getTime()) / (1000 * 60 * 60 * 24 * 365))} years
+                      {t("assets.years", {
+                        count: Math.floor((new Date().getTime() - new Date(selectedAsset.purchaseDate).getTime()) / (1000 * 60 * 60 * 24 * 365)),
+                      })}
                     </p>
                   </CardContent>
                 </Card>
@@ -1378,32 +1441,32 @@ export function Assets() {
 
               <div className="grid grid-cols-2 gap-6">
                 <div className="space-y-3">
-                  <h4 className="font-semibold">Asset Information</h4>
+                  <h4 className="font-semibold">{t("assets.assetInformation")}</h4>
                   <div className="space-y-2 text-sm">
                     <div>
-                      <Label className="text-muted-foreground">Description (EN)</Label>
+                      <Label className="text-muted-foreground">{t("assets.descriptionEnShort")}</Label>
                       <p>{selectedAsset.description}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Description (AR)</Label>
+                      <Label className="text-muted-foreground">{t("assets.descriptionArShort")}</Label>
                       <p dir="rtl">{selectedAsset.descriptionAr}</p>
                     </div>
                     <div className="grid grid-cols-2 gap-2">
                       <div>
-                        <Label className="text-muted-foreground">Category</Label>
-                        <p>{selectedAsset.category}</p>
+                        <Label className="text-muted-foreground">{t("assets.category")}</Label>
+                        <p>{getCategoryLabel(selectedAsset.category)}</p>
                       </div>
                       <div>
-                        <Label className="text-muted-foreground">Department</Label>
-                        <p>{selectedAsset.department}</p>
+                        <Label className="text-muted-foreground">{t("leaves.department")}</Label>
+                        <p>{getDepartmentLabel(selectedAsset.department)}</p>
                       </div>
                       <div>
-                        <Label className="text-muted-foreground">Location</Label>
+                        <Label className="text-muted-foreground">{t("assets.location")}</Label>
                         <p>{selectedAsset.location}</p>
                       </div>
                       {selectedAsset.supplier && (
                         <div>
-                          <Label className="text-muted-foreground">Supplier</Label>
+                          <Label className="text-muted-foreground">{t("selector.supplier")}</Label>
                           <p>{selectedAsset.supplier}</p>
                         </div>
                       )}
@@ -1412,34 +1475,34 @@ export function Assets() {
                 </div>
 
                 <div className="space-y-3">
-                  <h4 className="font-semibold">Additional Details</h4>
+                  <h4 className="font-semibold">{t("assets.additionalDetails")}</h4>
                   <div className="space-y-2 text-sm">
                     {selectedAsset.serialNumber && (
                       <div>
-                        <Label className="text-muted-foreground">Serial Number</Label>
+                        <Label className="text-muted-foreground">{t("assets.serialNumber")}</Label>
                         <p className="font-mono">{selectedAsset.serialNumber}</p>
                       </div>
                     )}
                     {selectedAsset.model && (
                       <div>
-                        <Label className="text-muted-foreground">Model</Label>
+                        <Label className="text-muted-foreground">{t("assets.model")}</Label>
                         <p>{selectedAsset.model}</p>
                       </div>
                     )}
                     {selectedAsset.manufacturer && (
                       <div>
-                        <Label className="text-muted-foreground">Manufacturer</Label>
+                        <Label className="text-muted-foreground">{t("assets.manufacturer")}</Label>
                         <p>{selectedAsset.manufacturer}</p>
                       </div>
                     )}
                     <div>
-                      <Label className="text-muted-foreground">Purchase Date</Label>
-                      <p>{new Date(selectedAsset.purchaseDate).toLocaleDateString('en-GB')}</p>
+                      <Label className="text-muted-foreground">{t("assets.purchaseDate")}</Label>
+                      <p>{formatDate(selectedAsset.purchaseDate)}</p>
                     </div>
                     {selectedAsset.warrantyExpiry && (
                       <div>
-                        <Label className="text-muted-foreground">Warranty Expiry</Label>
-                        <p>{new Date(selectedAsset.warrantyExpiry).toLocaleDateString('en-GB')}</p>
+                        <Label className="text-muted-foreground">{t("assets.warrantyExpiry")}</Label>
+                        <p>{formatDate(selectedAsset.warrantyExpiry)}</p>
                       </div>
                     )}
                   </div>
@@ -1448,18 +1511,18 @@ export function Assets() {
 
               {(selectedAsset.lastMaintenanceDate || selectedAsset.nextMaintenanceDate) && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <h4 className="font-semibold mb-2">Maintenance Information</h4>
+                  <h4 className="font-semibold mb-2">{t("assets.maintenanceInformation")}</h4>
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     {selectedAsset.lastMaintenanceDate && (
                       <div>
-                        <Label className="text-muted-foreground">Last Maintenance</Label>
-                        <p>{new Date(selectedAsset.lastMaintenanceDate).toLocaleDateString('en-GB')}</p>
+                        <Label className="text-muted-foreground">{t("assets.lastMaintenance")}</Label>
+                        <p>{formatDate(selectedAsset.lastMaintenanceDate)}</p>
                       </div>
                     )}
                     {selectedAsset.nextMaintenanceDate && (
                       <div>
-                        <Label className="text-muted-foreground">Next Maintenance</Label>
-                        <p>{new Date(selectedAsset.nextMaintenanceDate).toLocaleDateString('en-GB')}</p>
+                        <Label className="text-muted-foreground">{t("assets.nextMaintenance")}</Label>
+                        <p>{formatDate(selectedAsset.nextMaintenanceDate)}</p>
                       </div>
                     )}
                   </div>
@@ -1468,21 +1531,21 @@ export function Assets() {
 
               {selectedAsset.notes && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                  <Label className="text-muted-foreground">Notes</Label>
+                  <Label className="text-muted-foreground">{t("common.notes")}</Label>
                   <p className="text-sm mt-1">{selectedAsset.notes}</p>
                 </div>
               )}
 
               <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-                  Close
+                  {t("common.close")}
                 </Button>
                 <Button onClick={() => {
                   setIsViewDialogOpen(false);
                   openEditDialog(selectedAsset);
                 }}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Asset
+                  <Edit className="h-4 w-4 me-2" />
+                  {t("assets.editTitle")}
                 </Button>
               </div>
             </div>
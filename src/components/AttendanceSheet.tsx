@@ -12,6 +12,7 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Employees as DbEmployee } from "../../supabase/models/employees";
 import type { EmployeeAttendance as DbAttendance } from "../../supabase/models/employee_attendance";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface AttendanceDay {
   date: number;
@@ -35,11 +36,6 @@ interface EmployeeAttendanceRow {
   attendanceRecordId: string | null;
 }
 
-const months = [
-  "January", "February", "March", "April", "May", "June",
-  "July", "August", "September", "October", "November", "December"
-];
-
 const years = ["2025", "2024", "2023"];
 
 const defaultDepartments = ["Sales", "HR", "Finance", "Operations", "IT", "Marketing"];
@@ -92,6 +88,7 @@ const isFutureDay = (year: number, monthIndex: number, day: number) => {
 };
 
 export function AttendanceSheet() {
+  const { t, formatNumber, formatDateTime, monthName: gregorianMonthName } = useLocale();
   const dispatch = useAppDispatch();
   const dbEmployees = useAppSelector(selectors.employees.selectAll) as DbEmployee[];
   const employeesLoading = useAppSelector(selectors.employees.selectLoading);
@@ -116,10 +113,10 @@ export function AttendanceSheet() {
     () =>
       dbEmployees.map((emp) => ({
         id: emp.employee_id,
-        name: emp.name_en ?? emp.name_ar ?? "Unnamed Employee",
-        department: emp.department ?? "General",
+        name: emp.name_en ?? emp.name_ar ?? t("attendance.unnamedEmployee"),
+        department: emp.department ?? t("attendance.generalDepartment"),
       })),
-    [dbEmployees]
+    [dbEmployees, t]
   );
 
   const departmentOptions = useMemo(() => {
@@ -174,7 +171,7 @@ export function AttendanceSheet() {
         setAttendanceData([]);
         setIsGenerated(false);
         if (!silent) {
-          toast.error("No employees found for the selected filters.");
+          toast.error(translateCurrent("attendance.noEmployees"));
         }
         return;
       }
@@ -240,7 +237,7 @@ export function AttendanceSheet() {
       setAttendanceData(data);
       setIsGenerated(true);
       if (!silent) {
-        toast.success("Attendance sheet loaded successfully!");
+        toast.success(translateCurrent("attendance.loaded"));
       }
     },
     [
@@ -300,20 +297,20 @@ export function AttendanceSheet() {
 
   const handleExportPDF = () => {
     window.print();
-    toast.success("Please use your browser's print dialog to save as PDF");
+    toast.success(t("attendance.printToPdf"));
   };
 
   const exportToExcel = () => {
     try {
       if (!isGenerated || attendanceData.length === 0) {
-        toast.error("Generate attendance sheet before exporting");
+        toast.error(t("attendance.generateBeforeExport"));
         return;
       }
 
       const monthNum = parseInt(selectedMonth, 10);
       const yearNum = parseInt(selectedYear, 10);
       const daysInMonth = getDaysInMonth(monthNum, yearNum);
-      const monthName = new Date(yearNum, monthNum, 1).toLocaleString('default', { month: 'long' });
+      const monthName = new Date(yearNum, monthNum, 1).toLocaleString('en-GB', { month: 'long' });
 
       // Create headers with day numbers
       const headers: Record<string, any> = {
@@ -359,16 +356,16 @@ export function AttendanceSheet() {
       XLSX.utils.book_append_sheet(wb, ws, `${monthName} ${yearNum}`);
       const fileName = `attendance_${monthName}_${yearNum}_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
 
   const handleSaveAttendance = async () => {
     if (!isGenerated || attendanceData.length === 0) {
-      toast.error("Generate attendance before saving.");
+      toast.error(t("attendance.generateBeforeSave"));
       return;
     }
 
@@ -447,7 +444,7 @@ export function AttendanceSheet() {
       });
 
       if (operations.length === 0) {
-        toast.info("No attendance changes to save.");
+        toast.info(translateCurrent("attendance.noChanges"));
         return;
       }
 
@@ -456,9 +453,9 @@ export function AttendanceSheet() {
         dispatch(thunks.employees.fetchAll(undefined)).unwrap(),
         dispatch(thunks.employee_attendance.fetchAll(undefined)).unwrap(),
       ]);
-      toast.success("Attendance saved successfully!");
+      toast.success(translateCurrent("attendance.saved"));
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to save attendance";
+      const message = error?.message || error?.error?.message || translateCurrent("attendance.saveFailed");
       toast.error(message);
     } finally {
       setIsSaving(false);
@@ -488,10 +485,10 @@ export function AttendanceSheet() {
           <div>
             <h1 className="flex items-center gap-2">
               <Calendar className="h-7 w-7 text-primary" />
-              Monthly Attendance Sheet - كشف الحضور الشهري
+              {t("attendance.title")}
             </h1>
             <p className="text-muted-foreground mt-1">
-              Generate and manage employee attendance records
+              {t("attendance.subtitle")}
             </p>
           </div>
         </div>
@@ -500,21 +497,21 @@ export function AttendanceSheet() {
       {/* Filters - Hidden in print */}
       <Card className="no-print">
         <CardHeader>
-          <CardTitle>Generate Attendance Sheet</CardTitle>
-          <CardDescription>Select month, year, and department to generate attendance records</CardDescription>
+          <CardTitle>{t("attendance.generateTitle")}</CardTitle>
+          <CardDescription>{t("attendance.generateDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-5">
             <div className="space-y-2">
-              <Label>Month - الشهر</Label>
+              <Label>{t("attendance.month")}</Label>
               <Select value={selectedMonth} onValueChange={setSelectedMonth}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {months.map((month, index) => (
+                  {Array.from({ length: 12 }, (_, index) => (
                     <SelectItem key={index} value={index.toString()}>
-                      {month}
+                      {gregorianMonthName(index + 1)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -522,7 +519,7 @@ export function AttendanceSheet() {
             </div>
 
             <div className="space-y-2">
-              <Label>Year - السنة</Label>
+              <Label>{t("attendance.year")}</Label>
               <Select value={selectedYear} onValueChange={setSelectedYear}>
                 <SelectTrigger>
                   <SelectValue />
@@ -538,13 +535,13 @@ export function AttendanceSheet() {
             </div>
 
             <div className="space-y-2">
-              <Label>Department - القسم</Label>
+              <Label>{t("attendance.department")}</Label>
               <Select value={selectedDepartment} onValueChange={setSelectedDepartment}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Departments</SelectItem>
+                  <SelectItem value="all">{t("attendance.allDepartments")}</SelectItem>
                   {departmentOptions.map((dept) => (
                     <SelectItem key={dept} value={dept}>
                       {dept}
@@ -555,27 +552,27 @@ export function AttendanceSheet() {
             </div>
 
             <div className="space-y-2">
-              <Label>Search Employee</Label>
+              <Label>{t("attendance.searchEmployee")}</Label>
               <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Name or ID..."
+                  placeholder={t("attendance.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-9"
+                  className="ps-9"
                 />
               </div>
             </div>
 
             <div className="space-y-2">
-              <Label className="opacity-0">Action</Label>
+              <Label className="opacity-0">{t("common.actions")}</Label>
               <Button
                 onClick={() => generateAttendanceSheet()}
                 className="w-full gap-2"
                 disabled={employeesLoading || employeesList.length === 0}
               >
                 <Plus className="h-4 w-4" />
-                Generate Sheet
+                {t("attendance.generate")}
               </Button>
             </div>
           </div>
@@ -592,19 +589,19 @@ export function AttendanceSheet() {
                 ) : (
                   <FileText className="h-4 w-4" />
                 )}
-                {isSaving ? "Saving..." : "Save Attendance"}
+                {isSaving ? t("common.saving") : t("attendance.save")}
               </Button>
               <Button onClick={exportToExcel} variant="outline" className="gap-2">
                 <Download className="h-4 w-4" />
-                Export Excel
+                {t("common.exportExcel")}
               </Button>
               <Button onClick={handlePrint} variant="outline" className="gap-2">
                 <Printer className="h-4 w-4" />
-                Print
+                {t("common.print")}
               </Button>
               <Button onClick={handleExportPDF} variant="outline" className="gap-2">
                 <FileText className="h-4 w-4" />
-                Export PDF
+                {t("attendance.exportPdf")}
               </Button>
             </div>
           )}
@@ -618,27 +615,27 @@ export function AttendanceSheet() {
             <div className="flex flex-wrap gap-4">
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 rounded bg-green-100 border border-green-200 flex items-center justify-center font-medium text-green-700">P</div>
-                <span className="text-sm">Present - حاضر</span>
+                <span className="text-sm">{t("attendance.status.present")}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 rounded bg-red-100 border border-red-200 flex items-center justify-center font-medium text-red-700">A</div>
-                <span className="text-sm">Absent - غائب</span>
+                <span className="text-sm">{t("attendance.status.absent")}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 rounded bg-blue-100 border border-blue-200 flex items-center justify-center font-medium text-blue-700">L</div>
-                <span className="text-sm">Leave - إجازة</span>
+                <span className="text-sm">{t("attendance.status.leave")}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 rounded bg-purple-100 border border-purple-200 flex items-center justify-center font-medium text-purple-700">H</div>
-                <span className="text-sm">Holiday - عطلة رسمية</span>
+                <span className="text-sm">{t("attendance.status.holiday")}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 rounded bg-gray-100 border border-gray-200 flex items-center justify-center font-medium text-gray-500">W</div>
-                <span className="text-sm">Weekend - عطلة أسبوعية</span>
+                <span className="text-sm">{t("attendance.status.weekend")}</span>
               </div>
             </div>
             <p className="text-sm text-muted-foreground mt-3">
-              💡 Click on any cell to change status
+              {t("attendance.cellHint")}
             </p>
           </CardContent>
         </Card>
@@ -650,13 +647,12 @@ export function AttendanceSheet() {
           {/* Print Header - Only visible in print */}
           <div className="print-header">
             <div className="text-center mb-6">
-              <h1 className="text-2xl font-bold">Monthly Attendance Sheet</h1>
-              <h2 className="text-xl font-semibold text-muted-foreground">كشف الحضور الشهري</h2>
+              <h1 className="text-2xl font-bold">{t("attendance.title")}</h1>
               <p className="text-lg mt-2">
-                {months[monthNum]} {selectedYear}
+                {gregorianMonthName(monthNum + 1)} {selectedYear}
               </p>
               {selectedDepartment !== "all" && (
-                <p className="text-base mt-1">Department: {selectedDepartment} • القسم: {selectedDepartment}</p>
+                <p className="text-base mt-1">{t("attendance.departmentLabel", { department: selectedDepartment })}</p>
               )}
             </div>
           </div>
@@ -666,10 +662,13 @@ export function AttendanceSheet() {
               <div className="flex items-center justify-between">
                 <div>
                   <CardTitle>
-                    Attendance Record - {months[monthNum]} {selectedYear}
+                    {t("attendance.recordTitle", { month: gregorianMonthName(monthNum + 1), year: selectedYear })}
                   </CardTitle>
                   <CardDescription>
-                    {selectedDepartment !== "all" ? `Department: ${selectedDepartment}` : "All Departments"} • {attendanceData.length} Employees
+                    {selectedDepartment !== "all"
+                      ? t("attendance.departmentLabel", { department: selectedDepartment })
+                      : t("attendance.allDepartments")}{" "}
+                    • {t("attendance.employeeCount", { count: formatNumber(attendanceData.length) })}
                   </CardDescription>
                 </div>
               </div>
@@ -679,8 +678,8 @@ export function AttendanceSheet() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead className="sticky-col-1 min-w-[150px]">Employee<br/>الموظف</TableHead>
-                      <TableHead className="sticky-col-2 min-w-[100px]">Department<br/>القسم</TableHead>
+                      <TableHead className="sticky-col-1 min-w-[150px]">{t("attendance.employee")}</TableHead>
+                      <TableHead className="sticky-col-2 min-w-[100px]">{t("attendance.department")}</TableHead>
                       {Array.from({ length: daysInMonth }, (_, i) => i + 1).map((day) => {
                         const date = new Date(yearNum, monthNum, day);
                         const dayOfWeek = date.getDay();
@@ -695,9 +694,9 @@ export function AttendanceSheet() {
                           </TableHead>
                         );
                       })}
-                      <TableHead className="text-center bg-green-50 min-w-[50px]">P<br/>حاضر</TableHead>
-                      <TableHead className="text-center bg-red-50 min-w-[50px]">A<br/>غائب</TableHead>
-                      <TableHead className="text-center bg-blue-50 min-w-[50px]">L<br/>إجازة</TableHead>
+                      <TableHead className="text-center bg-green-50 min-w-[50px]">P<br/>{t("attendance.status.present")}</TableHead>
+                      <TableHead className="text-center bg-red-50 min-w-[50px]">A<br/>{t("attendance.status.absent")}</TableHead>
+                      <TableHead className="text-center bg-blue-50 min-w-[50px]">L<br/>{t("attendance.status.leave")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -719,11 +718,11 @@ export function AttendanceSheet() {
                           const isDisabled = day.status === "W" || day.locked || isFuture;
                           const reason =
                             day.status === "W"
-                              ? "Weekend entries cannot be modified."
+                              ? t("attendance.weekendLocked")
                               : day.locked
-                              ? "Attendance already saved for this date."
+                              ? t("attendance.alreadySaved")
                               : isFuture
-                              ? "Cannot record attendance for future dates."
+                              ? t("attendance.futureDate")
                               : undefined;
                           return (
                             <TableCell
@@ -744,13 +743,13 @@ export function AttendanceSheet() {
                           );
                         })}
                         <TableCell className="text-center font-medium bg-green-50">
-                          {employee.totalPresent}
+                          {formatNumber(employee.totalPresent)}
                         </TableCell>
                         <TableCell className="text-center font-medium bg-red-50">
-                          {employee.totalAbsent}
+                          {formatNumber(employee.totalAbsent)}
                         </TableCell>
                         <TableCell className="text-center font-medium bg-blue-50">
-                          {employee.totalLeave}
+                          {formatNumber(employee.totalLeave)}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -765,22 +764,22 @@ export function AttendanceSheet() {
             <div className="grid grid-cols-3 gap-8 mt-8">
               <div className="text-center">
                 <p className="text-sm mb-8">_____________________</p>
-                <p className="text-sm font-medium">Prepared By</p>
-                <p className="text-xs text-muted-foreground">HR Manager</p>
+                <p className="text-sm font-medium">{t("attendance.preparedBy")}</p>
+                <p className="text-xs text-muted-foreground">{t("attendance.hrManager")}</p>
               </div>
               <div className="text-center">
                 <p className="text-sm mb-8">_____________________</p>
-                <p className="text-sm font-medium">Reviewed By</p>
-                <p className="text-xs text-muted-foreground">Department Manager</p>
+                <p className="text-sm font-medium">{t("attendance.reviewedBy")}</p>
+                <p className="text-xs text-muted-foreground">{t("attendance.departmentManager")}</p>
               </div>
               <div className="text-center">
                 <p className="text-sm mb-8">_____________________</p>
-                <p className="text-sm font-medium">Approved By</p>
-                <p className="text-xs text-muted-foreground">General Manager</p>
+                <p className="text-sm font-medium">{t("attendance.approvedBy")}</p>
+                <p className="text-xs text-muted-foreground">{t("attendance.generalManager")}</p>
               </div>
             </div>
             <div className="text-center mt-6 text-xs text-muted-foreground">
-              Generated on: {new Date().toLocaleDateString('en-GB')} at {new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+              {t("attendance.generatedOn", { date: formatDateTime(new Date()) })}
             </div>
           </div>
         </div>
@@ -790,9 +789,9 @@ export function AttendanceSheet() {
         <Card>
           <CardContent className="py-12 text-center">
             <Calendar className="h-16 w-16 mx-auto text-muted-foreground mb-4 opacity-50" />
-            <h3 className="text-lg font-medium mb-2">No Attendance Sheet Generated</h3>
+            <h3 className="text-lg font-medium mb-2">{t("attendance.emptyTitle")}</h3>
             <p className="text-muted-foreground">
-              Select month, year, and department above, then click "Generate Sheet" to create attendance records
+              {t("attendance.emptyDescription")}
             </p>
           </CardContent>
         </Card>
@@ -914,14 +913,14 @@ export function AttendanceSheet() {
         /* Sticky columns for screen */
         .sticky-col-1 {
           position: sticky;
-          left: 0;
+          inset-inline-start: 0;
           z-index: 10;
           background: white;
         }
 
         .sticky-col-2 {
           position: sticky;
-          left: 150px;
+          inset-inline-start: 150px;
           z-index: 10;
           background: white;
         }
@@ -41,6 +41,7 @@ import {
   shareBackup,
   updateBackup,
 } from "../lib/backupApi";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface BackupHistoryItem {
   id: string;
@@ -63,6 +64,7 @@ interface BackupSettingsProps {
 }
 
 export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSettingsProps = {}) {
+  const { t, formatNumber, formatDateTime } = useLocale();
   const [backupEnabled, setBackupEnabled] = useState(false);
   const [lastBackupAt, setLastBackupAt] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -334,7 +336,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       setLastBackupAt(settings.last_backup_at);
     } catch (error) {
       console.error("Failed to load backup settings:", error);
-      toast.error("Failed to load backup settings");
+      toast.error(translateCurrent("backup.settingsLoadFailed"));
     }
   };
 
@@ -351,7 +353,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       setHistory(historyData);
     } catch (error) {
       console.error("Failed to load backup history:", error);
-      toast.error("Failed to load backup history");
+      toast.error(translateCurrent("backup.historyLoadFailed"));
     } finally {
       setIsLoadingHistory(false);
     }
@@ -410,11 +412,11 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }));
               try {
                 const { signed_url } = await generateSignedUrl(backup.s3_key);
-                toast.success("Backup completed! Opening download...");
+                toast.success(translateCurrent("backup.completedOpening"));
                 window.open(signed_url, "_blank");
               } catch (downloadError) {
                 console.error("[Backup] Failed to generate download URL:", downloadError);
-                toast.success("Backup completed! Check the backup history to download.");
+                toast.success(translateCurrent("backup.completedCheckHistory"));
               }
               await loadHistory();
               return;
@@ -427,7 +429,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 isRunning: false,
                 isTimedOut: false,
               }));
-              toast.error(`Backup failed: ${backup.error_text || "Unknown error"}`);
+              toast.error(translateCurrent("backup.failedWithError", { error: backup.error_text || translateCurrent("common.unknown") }));
               await loadHistory();
               return;
             } else if (backup.status === "cancelled") {
@@ -458,11 +460,11 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }));
               try {
                 const { signed_url } = await generateSignedUrl(backup.s3_key);
-                toast.success("Backup completed! Opening download...");
+                toast.success(translateCurrent("backup.completedOpening"));
                 window.open(signed_url, "_blank");
               } catch (downloadError) {
                 console.error("[Backup] Failed to generate download URL:", downloadError);
-                toast.success("Backup completed! Check the backup history to download.");
+                toast.success(translateCurrent("backup.completedCheckHistory"));
               }
               await loadHistory();
               return;
@@ -489,7 +491,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             isRunning: false,
             isTimedOut: false,
           }));
-          toast.success("Backup completed! Opening download...");
+          toast.success(translateCurrent("backup.completedOpening"));
           window.open(status.signed_url, "_blank");
           await loadHistory();
         } else if (status.status === "failed") {
@@ -501,7 +503,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             isRunning: false,
             isTimedOut: false,
           }));
-          toast.error(`Backup failed: ${status.error || "Unknown error"}`);
+          toast.error(translateCurrent("backup.failedWithError", { error: status.error || translateCurrent("common.unknown") }));
           await loadHistory();
         } else if (status.progress === 100 && status.status === "in_progress") {
           // ✅ FIX: Workflow completed (progress 100%) but DB hasn't updated yet
@@ -528,11 +530,11 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             }));
             try {
               const { signed_url } = await generateSignedUrl(backup.s3_key);
-              toast.success("Backup completed! Opening download...");
+              toast.success(translateCurrent("backup.completedOpening"));
               window.open(signed_url, "_blank");
             } catch (downloadError) {
               console.error("[Backup] Failed to generate download URL:", downloadError);
-              toast.success("Backup completed! Check the backup history to download.");
+              toast.success(translateCurrent("backup.completedCheckHistory"));
             }
             await loadHistory();
             return;
@@ -618,10 +620,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       if (onAutoBackupChange) {
         onAutoBackupChange(enabled);
       }
-      toast.success(`Backup ${enabled ? "enabled" : "disabled"}`);
+      toast.success(translateCurrent(enabled ? "backup.enabled" : "backup.disabled"));
     } catch (error) {
       console.error("Failed to update backup setting:", error);
-      toast.error("Failed to update backup setting");
+      toast.error(translateCurrent("backup.toggleFailed"));
       // Revert toggle on error
       setBackupEnabled(!enabled);
     } finally {
@@ -644,10 +646,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       try {
         console.log("[Backup] Cancelling backup in database:", manualBackupProgress.backupId);
         await cancelBackup(manualBackupProgress.backupId);
-        toast.success("Backup cancelled successfully");
+        toast.success(translateCurrent("backup.cancelledSuccess"));
       } catch (error) {
         console.error("[Backup] Failed to cancel backup:", error);
-        toast.error("Failed to cancel backup in database. It may still be running.");
+        toast.error(translateCurrent("backup.cancelInDatabaseFailed"));
       }
     } else if (manualBackupProgress.dispatchId) {
       // If we don't have backup_id yet, try to find it from history
@@ -657,16 +659,16 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
         if (matchingBackup && matchingBackup.status === "in_progress") {
           console.log("[Backup] Found matching backup, cancelling:", matchingBackup.id);
           await cancelBackup(matchingBackup.id);
-          toast.success("Backup cancelled successfully");
+          toast.success(translateCurrent("backup.cancelledSuccess"));
         } else {
-          toast.info("Backup polling cancelled. The backup may still be running in the background.");
+          toast.info(translateCurrent("backup.pollingCancelled"));
         }
       } catch (error) {
         console.error("[Backup] Failed to find and cancel backup:", error);
-        toast.info("Backup polling cancelled. The backup may still be running in the background.");
+        toast.info(translateCurrent("backup.pollingCancelled"));
       }
     } else {
-      toast.info("Backup polling cancelled. The backup may still be running in the background.");
+      toast.info(t("backup.pollingCancelled"));
     }
     
     setIsLoading(false);
@@ -706,7 +708,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
         progress: 10,
       }));
 
-      toast.info("Backup started. This may take several minutes for large databases...");
+      toast.info(translateCurrent("backup.started"));
 
       // Poll for status
       let pollAttempts = 0;
@@ -876,7 +878,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             
             // If we still don't have a URL, return null to indicate success but no download URL yet
             console.log("[Backup] Backup completed successfully but no download URL available yet");
-            toast.success("Backup completed successfully! Check the backup history to download.");
+            toast.success(translateCurrent("backup.completedSuccessCheckHistory"));
             setIsLoading(false);
             setManualBackupProgress((prev) => ({
               ...prev,
@@ -898,7 +900,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 console.warn("[Backup] Could not fetch backup history for error details:", historyError);
               }
             }
-            throw new Error(status.error || "Backup failed. Check GitHub Actions logs for details.");
+            throw new Error(status.error || translateCurrent("backup.failedCheckLogs"));
           } else if (status.status === "in_progress" || status.status === "pending") {
             const finalizationAttempts = finalizationAttemptsRef.current[dispatch_id] || 0;
             
@@ -936,13 +938,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 ...prev,
                 isRunning: false,
                 isTimedOut: true,
-                currentStep: "Finalizing backup (monitoring in background)",
+                currentStep: translateCurrent("backup.finalizingStep"),
               }));
               
               // ✅ FIX: Refresh history one more time to check if status updated
               await loadHistory();
               
-              toast.info("Backup finished. Waiting for Supabase to finalize — monitoring in background.");
+              toast.info(translateCurrent("backup.finishedFinalizing"));
               cancelPollingRef.current = true;
               return null;
             }
@@ -952,7 +954,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             return pollStatus();
           } else {
             console.error("[Backup] Unknown status:", status);
-            throw new Error(`Unknown backup status: ${status.status}`);
+            throw new Error(translateCurrent("backup.unknownStatus", { status: status.status }));
           }
         } catch (error) {
           // Check if cancelled
@@ -977,7 +979,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       if (signedUrl && !cancelPollingRef.current) {
         // Open download in new tab
         window.open(signedUrl, "_blank");
-        toast.success("Backup completed! Download started.");
+        toast.success(translateCurrent("backup.completedDownloadStarted"));
         // ✅ FIX: Reset loading state
         setIsLoading(false);
         setManualBackupProgress((prev) => ({
@@ -1020,7 +1022,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           try {
             const { signed_url } = await generateSignedUrl(latestBackup.s3_key);
             window.open(signed_url, "_blank");
-            toast.success("Backup completed! Download started.");
+            toast.success(translateCurrent("backup.completedDownloadStarted"));
             setManualBackupProgress((prev) => ({
               ...prev,
               progress: 100,
@@ -1047,12 +1049,12 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
         }
         
         toast.info(
-          "Backup is still running. The system will continue checking automatically. You can check the backup history for updates.",
+          translateCurrent("backup.stillRunning"),
           { duration: 8000 } // Show for 8 seconds
         );
       } else {
         // For other errors, extract detailed error message
-        let errorMessage = error instanceof Error ? error.message : "Failed to create backup. Please try again.";
+        let errorMessage = error instanceof Error ? error.message : translateCurrent("backup.createFailed");
         
         // Extract the actual error from Edge Function response
         if (errorMessage.includes("Edge Function trigger-backup failed:")) {
@@ -1088,7 +1090,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
         // Show error with longer duration for detailed messages
         toast.error(errorMessage, { 
           duration: 20000, // Show for 20 seconds to read detailed error
-          description: "Check Supabase Edge Function logs for more details if needed.",
+          description: translateCurrent("backup.checkEdgeLogs"),
         });
         
         setManualBackupProgress((prev) => ({
@@ -1111,20 +1113,20 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
 
   const handleDownloadFromHistory = async (s3Key: string | null) => {
     if (!s3Key) {
-      toast.error("No backup file available");
+      toast.error(t("backup.noFile"));
       return;
     }
 
     // Validate S3 key format (basic validation)
     if (typeof s3Key !== 'string' || s3Key.length === 0 || s3Key.length > 1024) {
-      toast.error("Invalid backup file reference");
+      toast.error(t("backup.invalidReference"));
       return;
     }
 
     // Sanitize S3 key (remove potentially dangerous characters)
     const sanitizedKey = s3Key.replace(/[<>"']/g, '');
     if (sanitizedKey !== s3Key) {
-      toast.error("Invalid backup file reference");
+      toast.error(t("backup.invalidReference"));
       return;
     }
 
@@ -1133,13 +1135,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       // Validate URL before opening
       if (signed_url && (signed_url.startsWith('http://') || signed_url.startsWith('https://'))) {
         window.open(signed_url, "_blank");
-        toast.success("Download started");
+        toast.success(translateCurrent("backup.downloadStarted"));
       } else {
         throw new Error("Invalid download URL received");
       }
     } catch (error) {
       console.error("Failed to generate download URL:", error);
-      toast.error("Failed to generate download URL");
+      toast.error(translateCurrent("backup.urlFailed"));
     }
   };
 
@@ -1154,7 +1156,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     // Validate backup ID format (UUID)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(cancelTargetId)) {
-      toast.error("Invalid backup ID format");
+      toast.error(t("backup.invalidId"));
       setCancelDialogOpen(false);
       setCancelTargetId(null);
       return;
@@ -1167,11 +1169,11 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       const result = await cancelBackup(cancelTargetId);
 
       if (!result.success) {
-        throw new Error(result.message || "Failed to cancel backup");
+        throw new Error(result.message || translateCurrent("backup.cancelFailed"));
       }
 
       console.log("[Backup] Backup cancelled successfully:", result);
-      toast.success(`Backup marked as cancelled (${result.cancelled_count} backup(s) cancelled)`);
+      toast.success(translateCurrent("backup.markedCancelled", { count: result.cancelled_count }));
       
       // Close dialog and reset
       setCancelDialogOpen(false);
@@ -1182,7 +1184,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     } catch (error) {
       console.error("[Backup] Failed to cancel backup:", error);
       toast.error(
-        error instanceof Error ? error.message : "Failed to cancel backup"
+        error instanceof Error ? error.message : translateCurrent("backup.cancelFailed")
       );
     } finally {
       setIsCancelling(false);
@@ -1193,7 +1195,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     const stuckBackups = history.filter((item) => item.status === "in_progress");
     
     if (stuckBackups.length === 0) {
-      toast.info("No stuck backups found");
+      toast.info(t("backup.noStuck"));
       return;
     }
     
@@ -1217,7 +1219,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
         .filter((id) => uuidRegex.test(id)); // Filter out invalid IDs
       
       if (stuckBackupIds.length === 0) {
-        toast.error("No valid backup IDs to cancel");
+        toast.error(t("backup.noValidIds"));
         setIsCancelling(false);
         setCancelAllDialogOpen(false);
         return;
@@ -1228,11 +1230,11 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       const result = await cancelBackup(undefined, stuckBackupIds);
 
       if (!result.success) {
-        throw new Error(result.message || "Failed to cancel backups");
+        throw new Error(result.message || translateCurrent("backup.cancelAllFailed"));
       }
 
       console.log("[Backup] Backups cancelled successfully:", result);
-      toast.success(`${result.cancelled_count} backup(s) marked as cancelled`);
+      toast.success(translateCurrent("backup.markedCancelledCount", { count: result.cancelled_count }));
       
       // Close dialog
       setCancelAllDialogOpen(false);
@@ -1242,7 +1244,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     } catch (error) {
       console.error("[Backup] Failed to cancel stuck backups:", error);
       toast.error(
-        error instanceof Error ? error.message : "Failed to cancel stuck backups"
+        error instanceof Error ? error.message : translateCurrent("backup.cancelStuckFailed")
       );
     } finally {
       setIsCancelling(false);
@@ -1261,7 +1263,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     // Validate backup ID format (UUID)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(deleteTargetId)) {
-      toast.error("Invalid backup ID format");
+      toast.error(t("backup.invalidId"));
       setDeleteDialogOpen(false);
       setDeleteTargetId(null);
       setDeleteTargetDate(null);
@@ -1275,11 +1277,11 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       const result = await deleteBackup(deleteTargetId);
 
       if (!result.success) {
-        throw new Error(result.message || "Failed to delete backup");
+        throw new Error(result.message || translateCurrent("backup.deleteFailed"));
       }
 
       console.log("[Backup] Backup deleted successfully:", result);
-      toast.success("Backup deleted successfully");
+      toast.success(translateCurrent("backup.deleted"));
       
       // Close dialog and reset
       setDeleteDialogOpen(false);
@@ -1291,49 +1293,21 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     } catch (error) {
       console.error("[Backup] Failed to delete backup:", error);
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete backup"
+        error instanceof Error ? error.message : translateCurrent("backup.deleteFailed")
       );
     } finally {
       setIsDeleting(false);
     }
   };
 
-  // ✅ FIXED: Format date with hours, minutes, seconds in AM/PM format
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return "Never";
-    try {
-      const date = new Date(dateString);
-      // Validate date is valid
-      if (isNaN(date.getTime())) {
-        return "Invalid date";
-      }
-      
-      // Format: Jan 14, 2025 – 03:27:18 PM
-      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const month = months[date.getMonth()];
-      const day = date.getDate();
-      const year = date.getFullYear();
-      
-      // Format time in 12-hour format with AM/PM
-      let hours = date.getHours();
-      const minutes = String(date.getMinutes()).padStart(2, "0");
-      const seconds = String(date.getSeconds()).padStart(2, "0");
-      const ampm = hours >= 12 ? 'PM' : 'AM';
-      hours = hours % 12;
-      hours = hours ? hours : 12; // 0 should be 12
-      const hoursStr = String(hours).padStart(2, "0");
-      
-      return `${month} ${day}, ${year} – ${hoursStr}:${minutes}:${seconds} ${ampm}`;
-    } catch {
-      return "Invalid date";
-    }
-  };
+  const formatDate = (dateString: string | null) => (dateString ? formatDateTime(dateString) : t("backup.never"));
 
   const formatFileSize = (bytes: number | null) => {
     if (!bytes) return "-";
     const mb = bytes / (1024 * 1024);
-    if (mb < 1) return `${(bytes / 1024).toFixed(2)} KB`;
-    return `${mb.toFixed(2)} MB`;
+    const decimals = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+    if (mb < 1) return t("backup.sizeKb", { size: formatNumber(bytes / 1024, decimals) });
+    return t("backup.sizeMb", { size: formatNumber(mb, decimals) });
   };
 
   const handleRestoreClick = () => {
@@ -1353,7 +1327,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     const isValidType = validTypes.includes(file.type) || file.name.toLowerCase().endsWith('.zip');
     
     if (!isValidType) {
-      toast.error("Invalid file type. Please select a ZIP file.");
+      toast.error(t("backup.invalidFileType"));
       event.target.value = ''; // Clear the input
       return;
     }
@@ -1361,7 +1335,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     // Validate file size (max 500MB for backup files)
     const maxSize = 500 * 1024 * 1024; // 500MB
     if (file.size > maxSize) {
-      toast.error("File size exceeds 500MB limit. Please select a smaller backup file.");
+      toast.error(t("backup.fileTooLarge"));
       event.target.value = ''; // Clear the input
       return;
     }
@@ -1369,7 +1343,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     // Additional security: check file name for suspicious patterns
     const suspiciousPatterns = [/\.\./, /[<>:"|?*]/, /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\.|$)/i];
     if (suspiciousPatterns.some(pattern => pattern.test(file.name))) {
-      toast.error("Invalid file name. Please use a valid filename.");
+      toast.error(t("backup.invalidFileName"));
       event.target.value = ''; // Clear the input
       return;
     }
@@ -1380,7 +1354,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
 
   const handleRestore = async () => {
     if (!restoreFile) {
-      toast.error("Please select a backup file to restore");
+      toast.error(t("backup.selectFile"));
       return;
     }
 
@@ -1389,14 +1363,14 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
     const isValidType = validTypes.includes(restoreFile.type) || restoreFile.name.toLowerCase().endsWith('.zip');
     
     if (!isValidType) {
-      toast.error("Invalid file type. Please select a ZIP file.");
+      toast.error(t("backup.invalidFileType"));
       setRestoreFile(null);
       return;
     }
 
     const maxSize = 500 * 1024 * 1024; // 500MB
     if (restoreFile.size > maxSize) {
-      toast.error("File size exceeds 500MB limit. Please select a smaller backup file.");
+      toast.error(t("backup.fileTooLarge"));
       setRestoreFile(null);
       return;
     }
@@ -1426,17 +1400,17 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       setRestoreResults(results);
       
       if (results.success) {
-        toast.success("Backup restore completed successfully! Data has been merged with existing data.");
+        toast.success(translateCurrent("backup.restoreSuccess"));
         // Refresh history and settings
         await Promise.all([loadHistory(), loadSettings()]);
       } else {
-        toast.error("Restore completed with warnings. Check the results for details.");
+        toast.error(translateCurrent("backup.restoreWarnings"));
       }
     } catch (error) {
-      handleFileUploadError(fileId, error instanceof Error ? error.message : "Upload failed");
+      handleFileUploadError(fileId, error instanceof Error ? error.message : translateCurrent("backup.uploadFailed"));
       console.error("[Backup] Restore failed:", error);
       toast.error(
-        error instanceof Error ? error.message : "Failed to restore backup"
+        error instanceof Error ? error.message : translateCurrent("backup.restoreFailed")
       );
     } finally {
       setIsRestoring(false);
@@ -1531,7 +1505,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
 
   const handleEmailShare = async () => {
     if (!shareBackupId || !emailRecipient.trim()) {
-      toast.error('Please enter an email address');
+      toast.error(t("backup.enterEmail"));
       return;
     }
     
@@ -1540,17 +1514,17 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       const result = await shareBackup(shareBackupId, 'email', emailRecipient.trim());
       
       if (result.success) {
-        toast.success(result.message || 'Email sent successfully');
+        toast.success(result.message || translateCurrent("backup.emailSent"));
         setEmailDialogOpen(false);
         setEmailRecipient("");
         // Update saved email recipient
         setSharingConfig((prev) => ({ ...prev, emailRecipient: emailRecipient.trim() }));
       } else {
-        toast.error(result.message || 'Failed to send email');
+        toast.error(result.message || translateCurrent("backup.emailFailed"));
       }
     } catch (error) {
       console.error('Email share error:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to send email');
+      toast.error(error instanceof Error ? error.message : translateCurrent("backup.emailFailed"));
     } finally {
       setIsSharing(false);
     }
@@ -1558,7 +1532,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
 
   const handleWhatsAppShare = async () => {
     if (!shareBackupId || !whatsappRecipient.trim()) {
-      toast.error('Please enter a phone number');
+      toast.error(t("backup.enterPhone"));
       return;
     }
     
@@ -1569,20 +1543,20 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       if (result.success) {
         if (result.whatsapp_url) {
           window.open(result.whatsapp_url, '_blank');
-          toast.success('WhatsApp share link opened');
+          toast.success(translateCurrent("backup.whatsappOpened"));
         } else {
-          toast.success(result.message || 'WhatsApp message sent successfully');
+          toast.success(result.message || translateCurrent("backup.whatsappSent"));
         }
         setWhatsappDialogOpen(false);
         setWhatsappRecipient("");
         // Update saved WhatsApp recipient
         setSharingConfig((prev) => ({ ...prev, whatsappRecipient: whatsappRecipient.trim() }));
       } else {
-        toast.error(result.message || 'Failed to share via WhatsApp');
+        toast.error(result.message || translateCurrent("backup.whatsappFailed"));
       }
     } catch (error) {
       console.error('WhatsApp share error:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to share via WhatsApp');
+      toast.error(error instanceof Error ? error.message : translateCurrent("backup.whatsappFailed"));
     } finally {
       setIsSharing(false);
     }
@@ -1601,7 +1575,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      toast.success('Backup automatically downloaded');
+      toast.success(translateCurrent("backup.autoDownloaded"));
     } catch (error) {
       console.error('Auto-download error:', error);
     }
@@ -1653,15 +1627,15 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       case "success":
         return (
           <Badge variant="default" className="bg-green-500">
-            <CheckCircle2 className="w-3 h-3 mr-1" />
-            Success
+            <CheckCircle2 className="w-3 h-3 me-1" />
+            {t("backup.status.success")}
           </Badge>
         );
       case "failed":
         return (
           <Badge variant="destructive">
-            <XCircle className="w-3 h-3 mr-1" />
-            Failed
+            <XCircle className="w-3 h-3 me-1" />
+            {t("backup.status.failed")}
           </Badge>
         );
       case "in_progress":
@@ -1669,16 +1643,16 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           <div className="flex items-center gap-2">
             <CircularProgress percentage={progress} size={32} />
             <Badge variant="outline" className="border-blue-500 text-blue-600">
-              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-              In Progress ({Math.round(progress)}%)
+              <Loader2 className="w-3 h-3 me-1 animate-spin" />
+              {t("backup.status.inProgressPercent", { progress: Math.round(progress) })}
             </Badge>
           </div>
         );
       case "cancelled":
         return (
           <Badge variant="outline">
-            <XCircle className="w-3 h-3 mr-1" />
-            Cancelled
+            <XCircle className="w-3 h-3 me-1" />
+            {t("backup.status.cancelled")}
           </Badge>
         );
       default:
@@ -1692,10 +1666,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Database className="w-5 h-5" />
-            Backup Configuration
+            {t("backup.configTitle")}
           </CardTitle>
           <CardDescription>
-            Configure automatic daily backups and create manual backups on demand
+            {t("backup.configDescription")}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -1703,10 +1677,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label htmlFor="backup-toggle" className="text-base">
-                Enable Automatic Daily Backups
+                {t("backup.enableDaily")}
               </Label>
               <p className="text-sm text-muted-foreground">
-                Backups will run automatically once per day at the scheduled time
+                {t("backup.enableDailyDescription")}
               </p>
             </div>
             <Switch
@@ -1721,7 +1695,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           <div className="flex items-center justify-between p-4 border rounded-lg">
             <div className="flex items-center gap-2">
               <Clock className="w-4 h-4 text-muted-foreground" />
-              <span className="text-sm font-medium">Last backup:</span>
+              <span className="text-sm font-medium">{t("backup.lastBackup")}</span>
               <span className="text-sm text-muted-foreground">
                 {formatDate(lastBackupAt)}
               </span>
@@ -1738,13 +1712,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               >
                 {isLoading || manualBackupProgress.isRunning ? (
                   <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Creating Backup...
+                    <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                    {t("backup.creating")}
                   </>
                 ) : (
                   <>
-                    <Download className="w-4 h-4 mr-2" />
-                    Download Backup Now
+                    <Download className="w-4 h-4 me-2" />
+                    {t("backup.downloadNow")}
                   </>
                 )}
               </Button>
@@ -1754,8 +1728,8 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 variant="outline"
                 className="flex-shrink-0"
               >
-                <Database className="w-4 h-4 mr-2" />
-                Restore Backup
+                <Database className="w-4 h-4 me-2" />
+                {t("backup.restore")}
               </Button>
               
               {manualBackupProgress.isRunning && (
@@ -1764,8 +1738,8 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                   variant="destructive"
                   className="flex-shrink-0"
                 >
-                  <X className="w-4 h-4 mr-2" />
-                  Cancel
+                  <X className="w-4 h-4 me-2" />
+                  {t("common.cancel")}
                 </Button>
               )}
             </div>
@@ -1778,19 +1752,19 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                   <p className="text-muted-foreground">
                     {manualBackupProgress.progress < 100
                       ? manualBackupProgress.isTimedOut
-                        ? `Backup taking longer than expected (${manualBackupProgress.progress}%). Still monitoring in background...`
-                        : `Backup in progress... ${manualBackupProgress.progress}%`
-                      : "Backup complete!"}
+                        ? t("backup.progressTimedOut", { progress: manualBackupProgress.progress })
+                        : t("backup.progress", { progress: manualBackupProgress.progress })
+                      : t("backup.complete")}
                   </p>
                   {manualBackupProgress.currentStep && manualBackupProgress.progress < 100 && (
                     <p className="text-xs text-blue-600 font-medium">
-                      Current step: {manualBackupProgress.currentStep}
+                      {t("backup.currentStep", { step: manualBackupProgress.currentStep })}
                     </p>
                   )}
                 </div>
                 {manualBackupProgress.isTimedOut && (
                   <p className="text-xs text-center text-blue-600">
-                    The system is checking the backup history automatically. You can close this and check the history tab.
+                    {t("backup.timedOutHint")}
                   </p>
                 )}
               </div>
@@ -1803,7 +1777,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               <div className="flex items-center justify-between">
                 <Label className="text-sm font-semibold flex items-center gap-2">
                   <Upload className="w-4 h-4" />
-                  Upload History
+                  {t("backup.uploadHistory")}
                 </Label>
                 <Button
                   variant="ghost"
@@ -1811,7 +1785,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                   onClick={() => setUploadFiles([])}
                   className="h-6 px-2 text-xs"
                 >
-                  Clear
+                  {t("backup.clear")}
                 </Button>
               </div>
               <div className="space-y-2">
@@ -1822,7 +1796,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                         <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
                         <span className="truncate">{file.name}</span>
                         <span className="text-xs text-muted-foreground flex-shrink-0">
-                          ({(file.size / (1024 * 1024)).toFixed(2)} MB)
+                          ({formatFileSize(file.size)})
                         </span>
                       </div>
                       <Badge
@@ -1833,12 +1807,12 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                             ? 'destructive'
                             : 'outline'
                         }
-                        className="ml-2 flex-shrink-0"
+                        className="ms-2 flex-shrink-0"
                       >
-                        {file.status === 'completed' && <CheckCircle2 className="w-3 h-3 mr-1" />}
-                        {file.status === 'error' && <XCircle className="w-3 h-3 mr-1" />}
-                        {file.status === 'uploading' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
-                        {file.status === 'completed' ? 'Completed' : file.status === 'error' ? 'Error' : 'Uploading'}
+                        {file.status === 'completed' && <CheckCircle2 className="w-3 h-3 me-1" />}
+                        {file.status === 'error' && <XCircle className="w-3 h-3 me-1" />}
+                        {file.status === 'uploading' && <Loader2 className="w-3 h-3 me-1 animate-spin" />}
+                        {t(file.status === 'completed' ? 'backup.upload.completed' : file.status === 'error' ? 'backup.upload.error' : 'backup.upload.uploading')}
                       </Badge>
                     </div>
                     {file.status === 'uploading' && (
@@ -1858,7 +1832,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             <div className="flex items-center justify-between">
               <Label className="text-base font-semibold flex items-center gap-2">
                 <SettingsIcon className="w-4 h-4" />
-                Backup Sharing & Auto-Download
+                {t("backup.sharingTitle")}
               </Label>
             </div>
             
@@ -1867,10 +1841,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label htmlFor="auto-download" className="text-sm">
-                    Auto-Download Automatic Backups
+                    {t("backup.autoDownload")}
                   </Label>
                   <p className="text-xs text-muted-foreground">
-                    Automatically download backups when they complete
+                    {t("backup.autoDownloadDescription")}
                   </p>
                 </div>
                 <Switch
@@ -1888,10 +1862,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                   <div className="space-y-0.5">
                     <Label htmlFor="email-sharing" className="text-sm flex items-center gap-2">
                       <Mail className="w-4 h-4" />
-                      Email Sharing
+                      {t("backup.emailSharing")}
                     </Label>
                     <p className="text-xs text-muted-foreground">
-                      Automatically send backups via email
+                      {t("backup.emailSharingDescription")}
                     </p>
                   </div>
                   <Switch
@@ -1921,10 +1895,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                   <div className="space-y-0.5">
                     <Label htmlFor="whatsapp-sharing" className="text-sm flex items-center gap-2">
                       <MessageCircle className="w-4 h-4" />
-                      WhatsApp Sharing
+                      {t("backup.whatsappSharing")}
                     </Label>
                     <p className="text-xs text-muted-foreground">
-                      Automatically share backups via WhatsApp
+                      {t("backup.whatsappSharingDescription")}
                     </p>
                   </div>
                   <Switch
@@ -1959,9 +1933,9 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             <div>
               <CardTitle className="flex items-center gap-2">
                 <HardDrive className="w-5 h-5" />
-                Backup History
+                {t("backup.historyTitle")}
               </CardTitle>
-              <CardDescription>Recent backup operations</CardDescription>
+              <CardDescription>{t("backup.historyDescription")}</CardDescription>
             </div>
             <div className="flex gap-2">
               {history.some((item) => item.status === "in_progress") && (
@@ -1971,8 +1945,8 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                   onClick={handleCancelAllStuckBackupsClick}
                   disabled={isLoadingHistory}
                 >
-                  <X className="w-4 h-4 mr-2" />
-                  Cancel All Stuck
+                  <X className="w-4 h-4 me-2" />
+                  {t("backup.cancelAllStuck")}
                 </Button>
               )}
               <Button
@@ -1982,9 +1956,9 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 disabled={isLoadingHistory}
               >
                 <RefreshCw
-                  className={`w-4 h-4 mr-2 ${isLoadingHistory ? "animate-spin" : ""}`}
+                  className={`w-4 h-4 me-2 ${isLoadingHistory ? "animate-spin" : ""}`}
                 />
-                Refresh
+                {t("common.refresh")}
               </Button>
             </div>
           </div>
@@ -1993,13 +1967,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           {/* ✅ NEW: Filters */}
           <div className="space-y-4 mb-6 p-4 border rounded-lg bg-muted/30">
             <div className="flex items-center gap-2">
-              <Label className="text-sm font-semibold">Filters:</Label>
+              <Label className="text-sm font-semibold">{t("backup.filters")}</Label>
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               {/* Status Filter */}
               <div className="space-y-2">
-                <Label className="text-xs">Status</Label>
+                <Label className="text-xs">{t("common.status")}</Label>
                 <Select
                   value={statusFilter}
                   onValueChange={(value: any) => setStatusFilter(value)}
@@ -2008,18 +1982,18 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="success">Successful</SelectItem>
-                    <SelectItem value="failed">Failed</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
+                    <SelectItem value="all">{t("backup.allStatuses")}</SelectItem>
+                    <SelectItem value="success">{t("backup.filter.success")}</SelectItem>
+                    <SelectItem value="failed">{t("backup.status.failed")}</SelectItem>
+                    <SelectItem value="cancelled">{t("backup.status.cancelled")}</SelectItem>
+                    <SelectItem value="in_progress">{t("backup.filter.inProgress")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               {/* Start Date Filter */}
               <div className="space-y-2">
-                <Label className="text-xs">Start Date</Label>
+                <Label className="text-xs">{t("backup.startDate")}</Label>
                 <Input
                   type="date"
                   value={dateFilter.start || ''}
@@ -2032,7 +2006,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
 
               {/* End Date Filter */}
               <div className="space-y-2">
-                <Label className="text-xs">End Date</Label>
+                <Label className="text-xs">{t("backup.endDate")}</Label>
                 <Input
                   type="date"
                   value={dateFilter.end || ''}
@@ -2045,10 +2019,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
 
               {/* Search Filter */}
               <div className="space-y-2">
-                <Label className="text-xs">Search (Filename)</Label>
+                <Label className="text-xs">{t("backup.searchFilename")}</Label>
                 <Input
                   type="text"
-                  placeholder="Search backups..."
+                  placeholder={t("backup.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="h-9"
@@ -2068,8 +2042,8 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 }}
                 className="mt-2"
               >
-                <X className="w-4 h-4 mr-2" />
-                Clear Filters
+                <X className="w-4 h-4 me-2" />
+                {t("backup.clearFilters")}
               </Button>
             )}
           </div>
@@ -2079,16 +2053,16 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             </div>
           ) : history.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
-              No backup history available
+              {t("backup.noHistory")}
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Date & Time</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Size</TableHead>
-                  <TableHead>Actions</TableHead>
+                  <TableHead>{t("backup.dateTime")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("backup.size")}</TableHead>
+                  <TableHead>{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -2106,15 +2080,15 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                               size="sm"
                               onClick={() => handleDownloadFromHistory(item.s3_key)}
                             >
-                              <Download className="w-4 h-4 mr-1" />
-                              Download
+                              <Download className="w-4 h-4 me-1" />
+                              {t("backup.download")}
                             </Button>
                             {/* ✅ NEW: Separate Email and WhatsApp share buttons */}
                             <Button
                               variant="ghost"
                               size="sm"
                               onClick={() => handleEmailShareClick(item.id)}
-                              title="Share via Email"
+                              title={t("backup.shareEmail")}
                             >
                               <Mail className="w-4 h-4" />
                             </Button>
@@ -2122,7 +2096,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                               variant="ghost"
                               size="sm"
                               onClick={() => handleWhatsAppShareClick(item.id)}
-                              title="Share via WhatsApp"
+                              title={t("backup.shareWhatsapp")}
                             >
                               <MessageCircle className="w-4 h-4" />
                             </Button>
@@ -2133,8 +2107,8 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                             size="sm"
                             onClick={() => handleCancelStuckBackupClick(item.id)}
                           >
-                            <X className="w-4 h-4 mr-1" />
-                            Cancel
+                            <X className="w-4 h-4 me-1" />
+                            {t("common.cancel")}
                           </Button>
                         ) : item.status === "failed" ? (
                           <div className="flex items-center gap-2">
@@ -2154,18 +2128,18 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                                   onClick={() => {
                                     // Sanitize error text before displaying
                                     const sanitizedError = item.error_text?.replace(/[<>]/g, '') || "Check GitHub Actions logs for details";
-                                    toast.error("Backup Failed", {
+                                    toast.error(t("backup.failedTitle"), {
                                       description: sanitizedError,
                                       duration: 15000,
                                     });
                                   }}
                                   className="h-6 px-2 text-xs"
                                 >
-                                  Details
+                                  {t("backup.details")}
                                 </Button>
                               </>
                             ) : (
-                              <span className="text-xs text-destructive">Failed - No error details</span>
+                              <span className="text-xs text-destructive">{t("backup.failedNoDetails")}</span>
                             )}
                           </div>
                         ) : (
@@ -2193,10 +2167,9 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Cancel Backup</DialogTitle>
+            <DialogTitle>{t("backup.cancelTitle")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to mark this backup as cancelled? This will stop it from showing as 'in progress'.
-              The backup workflow may still be running in the background.
+              {t("backup.cancelDescription")}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -2208,7 +2181,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }}
               disabled={isCancelling}
             >
-              No, Keep It
+              {t("backup.keepIt")}
             </Button>
             <Button
               variant="destructive"
@@ -2217,13 +2190,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             >
               {isCancelling ? (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Cancelling...
+                  <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                  {t("backup.cancelling")}
                 </>
               ) : (
                 <>
-                  <X className="w-4 h-4 mr-2" />
-                  Yes, Cancel Backup
+                  <X className="w-4 h-4 me-2" />
+                  {t("backup.confirmCancel")}
                 </>
               )}
             </Button>
@@ -2235,10 +2208,9 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
       <Dialog open={cancelAllDialogOpen} onOpenChange={setCancelAllDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Cancel All Stuck Backups</DialogTitle>
+            <DialogTitle>{t("backup.cancelAllTitle")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to mark all stuck backups as cancelled? This will stop them from showing as 'in progress'.
-              The backup workflows may still be running in the background.
+              {t("backup.cancelAllDescription")}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -2247,7 +2219,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               onClick={() => setCancelAllDialogOpen(false)}
               disabled={isCancelling}
             >
-              No, Keep Them
+              {t("backup.keepThem")}
             </Button>
             <Button
               variant="destructive"
@@ -2256,13 +2228,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             >
               {isCancelling ? (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Cancelling...
+                  <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                  {t("backup.cancelling")}
                 </>
               ) : (
                 <>
-                  <X className="w-4 h-4 mr-2" />
-                  Yes, Cancel All
+                  <X className="w-4 h-4 me-2" />
+                  {t("backup.confirmCancelAll")}
                 </>
               )}
             </Button>
@@ -2279,9 +2251,9 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 <AlertTriangle className="h-6 w-6 text-destructive" />
               </div>
               <div>
-                <DialogTitle>Delete Backup</DialogTitle>
+                <DialogTitle>{t("backup.deleteTitle")}</DialogTitle>
                 <DialogDescription>
-                  This action cannot be undone. The backup record will be permanently removed.
+                  {t("backup.deleteDescription")}
                 </DialogDescription>
               </div>
             </div>
@@ -2290,10 +2262,10 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4">
               <div className="space-y-2">
                 <p className="text-sm font-medium text-foreground">
-                  Backup Date: <span className="font-normal text-muted-foreground">{deleteTargetDate ? formatDate(deleteTargetDate) : "N/A"}</span>
+                  {t("backup.backupDate")} <span className="font-normal text-muted-foreground">{deleteTargetDate ? formatDate(deleteTargetDate) : t("common.notAvailable")}</span>
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Are you sure you want to delete this backup record? This will remove it from the history permanently.
+                  {t("backup.deleteConfirm")}
                 </p>
               </div>
             </div>
@@ -2308,7 +2280,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }}
               disabled={isDeleting}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               variant="destructive"
@@ -2317,13 +2289,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             >
               {isDeleting ? (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Deleting...
+                  <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                  {t("backup.deleting")}
                 </>
               ) : (
                 <>
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  Delete Backup
+                  <Trash2 className="w-4 h-4 me-2" />
+                  {t("backup.deleteTitle")}
                 </>
               )}
             </Button>
@@ -2337,28 +2309,28 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Database className="w-5 h-5" />
-              Restore Backup
+              {t("backup.restore")}
             </DialogTitle>
             <DialogDescription>
-              Upload a backup file to restore data. The restore will merge data with existing records without overwriting them.
+              {t("backup.restoreDescription")}
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
             {/* File Input */}
             <div className="space-y-2">
-              <Label htmlFor="restore-file">Backup File (ZIP)</Label>
+              <Label htmlFor="restore-file">{t("backup.fileLabel")}</Label>
               <input
                 id="restore-file"
                 type="file"
                 accept=".zip"
                 onChange={handleRestoreFileChange}
-                className="w-full text-sm file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90"
+                className="w-full text-sm file:me-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90"
                 disabled={isRestoring}
               />
               {restoreFile && (
                 <p className="text-sm text-muted-foreground">
-                  Selected: <span className="font-mono text-xs">{restoreFile.name.replace(/[<>]/g, '')}</span> ({(restoreFile.size / (1024 * 1024)).toFixed(2)} MB)
+                  {t("backup.selected")} <span className="font-mono text-xs">{restoreFile.name.replace(/[<>]/g, '')}</span> ({formatFileSize(restoreFile.size)})
                 </p>
               )}
             </div>
@@ -2368,12 +2340,12 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               <div className="flex items-start gap-2">
                 <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
                 <div className="space-y-1 text-sm">
-                  <p className="font-semibold text-yellow-900">Important Notes:</p>
+                  <p className="font-semibold text-yellow-900">{t("backup.importantNotes")}</p>
                   <ul className="list-disc list-inside space-y-1 text-yellow-800">
-                    <li>Data will be merged with existing records (no overwrites)</li>
-                    <li>Auth users will be created only if they don't exist</li>
-                    <li>Storage files will be uploaded only if they don't exist</li>
-                    <li>Database SQL restore requires manual execution via Supabase SQL Editor or psql</li>
+                    <li>{t("backup.noteMerge")}</li>
+                    <li>{t("backup.noteAuth")}</li>
+                    <li>{t("backup.noteStorage")}</li>
+                    <li>{t("backup.noteSql")}</li>
                   </ul>
                 </div>
               </div>
@@ -2382,18 +2354,18 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             {/* Restore Results */}
             {restoreResults && (
               <div className="space-y-3 p-4 border rounded-lg">
-                <h4 className="font-semibold">Restore Results:</h4>
+                <h4 className="font-semibold">{t("backup.restoreResults")}</h4>
                 
                 {/* Database Results */}
                 {restoreResults.results?.database && (
                   <div className="space-y-1">
-                    <p className="text-sm font-medium">Database:</p>
+                    <p className="text-sm font-medium">{t("backup.database")}</p>
                     <p className="text-sm text-muted-foreground">
                       {restoreResults.results.database.restored ? (
-                        <span className="text-green-600">✓ Restored ({restoreResults.results.database.rows_affected} rows)</span>
+                        <span className="text-green-600">✓ {t("backup.restoredRows", { count: restoreResults.results.database.rows_affected })}</span>
                       ) : (
                         <span className="text-yellow-600">
-                          ⚠ {restoreResults.results.database.message || "Not restored"}
+                          ⚠ {restoreResults.results.database.message || t("backup.notRestored")}
                         </span>
                       )}
                     </p>
@@ -2408,17 +2380,17 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 {/* Auth Users Results */}
                 {restoreResults.results?.auth_users && (
                   <div className="space-y-1">
-                    <p className="text-sm font-medium">Auth Users:</p>
+                    <p className="text-sm font-medium">{t("backup.authUsers")}</p>
                     <p className="text-sm text-muted-foreground">
                       {restoreResults.results.auth_users.restored ? (
                         <span className="text-green-600">
-                          ✓ Merged {restoreResults.results.auth_users.users_merged} user(s)
+                          ✓ {t("backup.mergedUsers", { count: restoreResults.results.auth_users.users_merged })}
                           {restoreResults.results.auth_users.users_skipped && restoreResults.results.auth_users.users_skipped > 0 && (
-                            <span className="text-muted-foreground">, skipped {restoreResults.results.auth_users.users_skipped}</span>
+                            <span className="text-muted-foreground">{t("backup.skipped", { count: restoreResults.results.auth_users.users_skipped })}</span>
                           )}
                         </span>
                       ) : (
-                        <span className="text-yellow-600">⚠ Not restored</span>
+                        <span className="text-yellow-600">⚠ {t("backup.notRestored")}</span>
                       )}
                     </p>
                   </div>
@@ -2427,17 +2399,17 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 {/* Storage Results */}
                 {restoreResults.results?.storage && (
                   <div className="space-y-1">
-                    <p className="text-sm font-medium">Storage Files:</p>
+                    <p className="text-sm font-medium">{t("backup.storageFiles")}</p>
                     <p className="text-sm text-muted-foreground">
                       {restoreResults.results.storage.restored ? (
                         <span className="text-green-600">
-                          ✓ Uploaded {restoreResults.results.storage.files_uploaded} file(s)
+                          ✓ {t("backup.uploadedFiles", { count: restoreResults.results.storage.files_uploaded })}
                           {restoreResults.results.storage.files_skipped && restoreResults.results.storage.files_skipped > 0 && (
-                            <span className="text-muted-foreground">, skipped {restoreResults.results.storage.files_skipped}</span>
+                            <span className="text-muted-foreground">{t("backup.skipped", { count: restoreResults.results.storage.files_skipped })}</span>
                           )}
                         </span>
                       ) : (
-                        <span className="text-yellow-600">⚠ Not restored</span>
+                        <span className="text-yellow-600">⚠ {t("backup.notRestored")}</span>
                       )}
                     </p>
                   </div>
@@ -2456,7 +2428,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }}
               disabled={isRestoring}
             >
-              Close
+              {t("common.close")}
             </Button>
             <Button
               onClick={handleRestore}
@@ -2464,13 +2436,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             >
               {isRestoring ? (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Restoring...
+                  <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                  {t("backup.restoring")}
                 </>
               ) : (
                 <>
-                  <Database className="w-4 h-4 mr-2" />
-                  Restore Backup
+                  <Database className="w-4 h-4 me-2" />
+                  {t("backup.restore")}
                 </>
               )}
             </Button>
@@ -2484,16 +2456,16 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Mail className="w-5 h-5" />
-              Share Backup via Email
+              {t("backup.shareEmailTitle")}
             </DialogTitle>
             <DialogDescription>
-              Enter the email address to send the backup download link
+              {t("backup.shareEmailDescription")}
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="email-recipient">Email Address</Label>
+              <Label htmlFor="email-recipient">{t("backup.emailAddress")}</Label>
               <Input
                 id="email-recipient"
                 type="email"
@@ -2519,7 +2491,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }}
               disabled={isSharing}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleEmailShare}
@@ -2527,13 +2499,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             >
               {isSharing ? (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Sending...
+                  <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                  {t("backup.sending")}
                 </>
               ) : (
                 <>
-                  <Mail className="w-4 h-4 mr-2" />
-                  Send Email
+                  <Mail className="w-4 h-4 me-2" />
+                  {t("backup.sendEmail")}
                 </>
               )}
             </Button>
@@ -2547,16 +2519,16 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <MessageCircle className="w-5 h-5" />
-              Share Backup via WhatsApp
+              {t("backup.shareWhatsappTitle")}
             </DialogTitle>
             <DialogDescription>
-              Enter the phone number (with country code) to share the backup
+              {t("backup.shareWhatsappDescription")}
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="whatsapp-recipient">Phone Number</Label>
+              <Label htmlFor="whatsapp-recipient">{t("backup.phoneNumber")}</Label>
               <Input
                 id="whatsapp-recipient"
                 type="tel"
@@ -2570,7 +2542,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
                 }}
               />
               <p className="text-xs text-muted-foreground">
-                Include country code (e.g., +1 for US, +44 for UK)
+                {t("backup.countryCodeHint")}
               </p>
             </div>
           </div>
@@ -2585,7 +2557,7 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
               }}
               disabled={isSharing}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleWhatsAppShare}
@@ -2593,13 +2565,13 @@ export function BackupSettings({ autoBackup, onAutoBackupChange }: BackupSetting
             >
               {isSharing ? (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Sharing...
+                  <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                  {t("backup.sharing")}
                 </>
               ) : (
                 <>
-                  <MessageCircle className="w-4 h-4 mr-2" />
-                  Share via WhatsApp
+                  <MessageCircle className="w-4 h-4 me-2" />
+                  {t("backup.shareWhatsapp")}
                 </>
               )}
             </Button>
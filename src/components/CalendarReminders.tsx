@@ -34,8 +34,12 @@ import { Textarea } from "./ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { ScrollArea } from "./ui/scroll-area";
 import { supabase } from "../lib/supabaseClient";
+import { readContractDetails } from "../lib/contractRecords";
+import type { Contracts } from "../../supabase/models/contracts";
 import type { Reminder, Activity } from "../types/activity";
 import { hasPermission, type ResolvedPermissions } from "../lib/permissions";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 const typeColors = {
   visit: "bg-blue-100 text-blue-700 border-blue-200",
@@ -59,6 +63,12 @@ const priorityColors = {
   low: "outline",
 };
 
+const PRIORITY_KEYS: Record<Reminder["priority"], MessageKey> = {
+  high: "reminders.priority.high",
+  medium: "reminders.priority.medium",
+  low: "reminders.priority.low",
+};
+
 type CalendarView = "month" | "year" | "decade" | "century";
 
 interface CalendarTileProperties {
@@ -94,6 +104,7 @@ export function CalendarReminders({
   onActivityAdd,
   currentPermissions = "all" // Default to "all" if not provided for backward compatibility
 }: CalendarRemindersProps) {
+  const { t, language, formatCurrency, formatDate, formatDateTime, monthName } = useLocale();
   // Check if user has permissions for calendar
   const canCreateReminders = hasPermission(currentPermissions, "calendar", "create");
   const canUpdateReminders = hasPermission(currentPermissions, "calendar", "update");
@@ -168,6 +179,7 @@ export function CalendarReminders({
     selectedDate.getMonth(),
     selectedDate.getDate()
   );
+  const selectedMonthLabel = `${monthName(selectedDate.getMonth() + 1)} ${selectedDate.getFullYear()}`;
 
   const getMinutesFromTime = (time: string) => {
     if (!time) return 0;
@@ -232,7 +244,7 @@ export function CalendarReminders({
       setDbReminders(mappedReminders);
     } catch (error) {
       console.error("Error fetching reminders:", error);
-      toast.error("Failed to load reminders");
+      toast.error(translateCurrent("reminders.loadFailed"));
     } finally {
       setLoadingReminders(false);
     }
@@ -253,9 +265,9 @@ export function CalendarReminders({
         return {
           id: idCounter++,
           title: visit.type === "monthly" 
-            ? `Monthly Visit: ${visit.customerName}${visit.contractNumber ? ` (${visit.contractNumber})` : ""}`
-            : `Visit: ${visit.customerName}`,
-          description: visit.notes ?? `${visit.delegateName} - ${visit.address ?? "No address"}`,
+            ? `${t("reminders.monthlyVisitTitle", { customer: visit.customerName })}${visit.contractNumber ? ` (${visit.contractNumber})` : ""}`
+            : t("reminders.visitTitle", { customer: visit.customerName }),
+          description: visit.notes ?? `${visit.delegateName} - ${visit.address ?? t("reminders.noAddress")}`,
           date: visit.date,
           time: visit.time ?? "09:00",
           type: "visit" as const,
@@ -266,7 +278,7 @@ export function CalendarReminders({
           relatedVisitId: visit.id,
         } as Reminder;
       });
-  }, [visits, startOfToday]);
+  }, [visits, startOfToday, t]);
 
   // Convert invoices with due dates to payment reminders
   const invoiceReminders = useMemo(() => {
@@ -279,8 +291,13 @@ export function CalendarReminders({
         
         return {
           id: idCounter++,
-          title: `Payment Due: ${invoice.customer?.customer_name ?? "Unknown Customer"}`,
-          description: `Invoice ${invoice.invoice_id.slice(0, 8)} - Amount: ${invoice.remaining_amount ?? invoice.total_amount} SAR`,
+          title: t("reminders.paymentDueTitle", {
+            customer: invoice.customer?.customer_name ?? t("reminders.unknownCustomer"),
+          }),
+          description: t("reminders.invoiceDescription", {
+            number: invoice.invoice_id.slice(0, 8),
+            amount: formatCurrency(Number(invoice.remaining_amount ?? invoice.total_amount)),
+          }),
           date: invoice.due_date,
           time: "09:00",
           type: "payment" as const,
@@ -290,7 +307,7 @@ export function CalendarReminders({
           relatedInvoiceId: invoice.invoice_id,
         } as Reminder & { relatedInvoiceId?: string };
       });
-  }, [invoices, startOfToday]);
+  }, [invoices, startOfToday, t, formatCurrency]);
 
   // Combine database reminders, visit reminders, and invoice reminders (exclude local state reminders which are now in dbReminders)
   const allReminders = useMemo(() => [...dbReminders, ...visitReminders, ...invoiceReminders], [dbReminders, visitReminders, invoiceReminders]);
@@ -376,8 +393,8 @@ export function CalendarReminders({
             id: visit.visit_id,
             date: visit.visit_date,
             time: visit.visit_time ? (visit.visit_time.length >= 5 ? visit.visit_time.slice(0, 5) : visit.visit_time) : null,
-            customerName: customer?.customer_name ?? "Unknown Customer",
-            delegateName: delegate?.delegate_name ?? "Unassigned",
+            customerName: customer?.customer_name ?? translateCurrent("reminders.unknownCustomer"),
+            delegateName: delegate?.delegate_name ?? translateCurrent("common.notAssigned"),
             status: visit.status ?? "scheduled",
             address: visit.address ?? null,
             notes: visit.notes ?? null,
@@ -397,8 +414,8 @@ export function CalendarReminders({
             id: visit.visit_id,
             date: visit.visit_date,
             time: visit.visit_time ? (visit.visit_time.length >= 5 ? visit.visit_time.slice(0, 5) : visit.visit_time) : null,
-            customerName: customer?.customer_name ?? "Unknown Customer",
-            delegateName: delegate?.delegate_name ?? "Unassigned",
+            customerName: customer?.customer_name ?? translateCurrent("reminders.unknownCustomer"),
+            delegateName: delegate?.delegate_name ?? translateCurrent("common.notAssigned"),
             status: visit.status ?? "scheduled",
             address: visit.address ?? null,
             notes: visit.notes ?? null,
@@ -411,7 +428,7 @@ export function CalendarReminders({
       setVisits(allVisits);
     } catch (error) {
       console.error("Error fetching visits:", error);
-      toast.error("Failed to load visits");
+      toast.error(translateCurrent("reminders.visitsLoadFailed"));
     } finally {
       setLoadingVisits(false);
     }
@@ -442,8 +459,9 @@ export function CalendarReminders({
       // Fetch active contracts
       const { data: contracts, error: contractsError } = await supabase
         .from("contracts")
-        .select("contract_id, contract_number, contract_status, customer_id, location, notes, delegate_id, contract_start_date")
-        .eq("contract_status", "active");
+        .select("*")
+        .eq("contract_status", "active")
+        .is("deleted_at", null);
 
       if (contractsError) {
         throw contractsError;
@@ -472,23 +490,15 @@ export function CalendarReminders({
       );
       nextMonthFirstDay.setHours(0, 0, 0, 0);
 
-      for (const contract of contracts as any[]) {
-        let additionalData: any = {};
-        try {
-          if (contract.notes) {
-            additionalData = JSON.parse(contract.notes);
-          }
-        } catch {
-          additionalData = { notes: contract.notes };
-        }
+      for (const contract of contracts as Contracts[]) {
+        const details = readContractDetails(contract);
 
         // Skip contracts where automatic monthly visits are disabled
-        if (additionalData.autoMonthlyVisitsEnabled === false) {
+        if (!details.autoMonthlyVisitsEnabled) {
           continue;
         }
 
-        const baseDateStr =
-          additionalData.monthlyVisitStartDate || contract.contract_start_date;
+        const baseDateStr = details.monthlyVisitStartDate;
         if (!baseDateStr) continue;
 
         const baseDate = new Date(baseDateStr);
@@ -588,6 +598,7 @@ export function CalendarReminders({
           customer:customers(customer_name)
         `)
         .not("due_date", "is", null)
+        .is("deleted_at", null)
         .order("due_date", { ascending: true });
 
       if (error) {
@@ -597,7 +608,7 @@ export function CalendarReminders({
       setInvoices(data ?? []);
     } catch (error) {
       console.error("Error fetching invoices:", error);
-      toast.error("Failed to load invoice due dates");
+      toast.error(translateCurrent("reminders.invoicesLoadFailed"));
     } finally {
       setLoadingInvoices(false);
     }
@@ -704,13 +715,13 @@ export function CalendarReminders({
 
   const handleCreateReminder = async () => {
     if (!reminderTitle.trim() || !reminderDate || !reminderTime) {
-      toast.error("Please fill all required fields");
+      toast.error(t("reminders.requiredFields"));
       return;
     }
 
     // Check create permission
     if (!canCreateReminders) {
-      toast.error("You do not have permission to create reminders");
+      toast.error(t("reminders.noCreatePermission"));
       return;
     }
 
@@ -764,10 +775,10 @@ export function CalendarReminders({
       setReminderCustomer("");
       setReminderAssignedTo("");
       
-      toast.success("Reminder created successfully!");
+      toast.success(translateCurrent("reminders.created"));
     } catch (error) {
       console.error("Error creating reminder:", error);
-      toast.error("Failed to create reminder");
+      toast.error(translateCurrent("reminders.createFailed"));
     }
   };
 
@@ -790,14 +801,14 @@ export function CalendarReminders({
   const handleUpdateReminder = async () => {
     if (!editingReminder) return;
     if (!editForm.title.trim() || !editForm.date || !editForm.time) {
-      toast.error("Please fill all required fields");
+      toast.error(t("reminders.requiredFields"));
       return;
     }
 
     // Check permissions for visit/invoice reminders
     if (editingReminder.relatedVisitId || (editingReminder as any).relatedInvoiceId) {
       if (!canUpdateReminders) {
-        toast.error("You do not have permission to update visit or invoice reminders");
+        toast.error(t("reminders.noUpdateLinkedPermission"));
         return;
       }
       // Allow editing if user has update permission
@@ -851,10 +862,10 @@ export function CalendarReminders({
       setIsEditReminderOpen(false);
       setEditingReminder(null);
       setEditForm({ ...emptyEditForm });
-      toast.success("Reminder updated successfully!");
+      toast.success(translateCurrent("reminders.updated"));
     } catch (error) {
       console.error("Error updating reminder:", error);
-      toast.error("Failed to update reminder");
+      toast.error(translateCurrent("reminders.updateFailed"));
     }
   };
 
@@ -862,25 +873,25 @@ export function CalendarReminders({
     const reminderToDelete = allReminders.find((r) => r.id === id);
     
     if (!reminderToDelete) {
-      toast.error("Reminder not found");
+      toast.error(t("reminders.notFound"));
       return;
     }
 
     // Check permissions for visit/invoice reminders
     if (reminderToDelete.relatedVisitId || (reminderToDelete as any)?.relatedInvoiceId) {
       if (!canDeleteReminders) {
-        toast.error("You do not have permission to delete visit or invoice reminders");
+        toast.error(t("reminders.noDeleteLinkedPermission"));
         return;
       }
       // Note: Visit/invoice reminders are derived from visits/invoices, so we don't delete them
       // We only allow deleting the underlying visit/invoice if user has permissions
-      toast.info("Visit and invoice reminders are managed through their respective modules");
+      toast.info(t("reminders.linkedManagedElsewhere"));
       return;
     }
 
     // Check delete permission for regular reminders
     if (!canDeleteReminders) {
-      toast.error("You do not have permission to delete reminders");
+      toast.error(t("reminders.noDeletePermission"));
       return;
     }
 
@@ -912,10 +923,10 @@ export function CalendarReminders({
         });
       }
 
-      toast.success("Reminder deleted successfully!");
+      toast.success(translateCurrent("reminders.deleted"));
     } catch (error) {
       console.error("Error deleting reminder:", error);
-      toast.error("Failed to delete reminder");
+      toast.error(translateCurrent("reminders.deleteFailed"));
     }
   };
 
@@ -923,14 +934,14 @@ export function CalendarReminders({
     const reminder = allReminders.find(r => r.id === id);
     
     if (!reminder) {
-      toast.error("Reminder not found");
+      toast.error(t("reminders.notFound"));
       return;
     }
 
     // Check permissions for visit/invoice reminders
     if (reminder.relatedVisitId || (reminder as any)?.relatedInvoiceId) {
       if (!canUpdateReminders) {
-        toast.error("You do not have permission to update visit or invoice reminders");
+        toast.error(t("reminders.noUpdateLinkedPermission"));
         return;
       }
     }
@@ -954,7 +965,7 @@ export function CalendarReminders({
 
           if (visitError) {
             console.error("Error updating visit:", visitError);
-            toast.error("Failed to update visit status");
+            toast.error(translateCurrent("reminders.visitStatusFailed"));
             return;
           }
         }
@@ -997,10 +1008,10 @@ export function CalendarReminders({
         });
       }
       
-      toast.success("Reminder marked as completed!");
+      toast.success(translateCurrent("reminders.markedCompleted"));
     } catch (error) {
       console.error("Error completing reminder:", error);
-      toast.error("Failed to complete reminder");
+      toast.error(translateCurrent("reminders.completeFailed"));
     }
   };
 
@@ -1008,14 +1019,14 @@ export function CalendarReminders({
     const reminder = allReminders.find((r) => r.id === id);
     
     if (!reminder) {
-      toast.error("Reminder not found");
+      toast.error(t("reminders.notFound"));
       return;
     }
 
     // Check permissions for visit/invoice reminders
     if (reminder.relatedVisitId || (reminder as any)?.relatedInvoiceId) {
       if (!canUpdateReminders) {
-        toast.error("You do not have permission to update visit or invoice reminders");
+        toast.error(t("reminders.noUpdateLinkedPermission"));
         return;
       }
     }
@@ -1038,7 +1049,7 @@ export function CalendarReminders({
 
           if (visitError) {
             console.error("Error updating visit:", visitError);
-            toast.error("Failed to update visit status");
+            toast.error(translateCurrent("reminders.visitStatusFailed"));
             return;
           }
         }
@@ -1079,10 +1090,10 @@ export function CalendarReminders({
         });
       }
 
-      toast.success("Reminder reopened and set to pending.");
+      toast.success(translateCurrent("reminders.reopened"));
     } catch (error) {
       console.error("Error reopening reminder:", error);
-      toast.error("Failed to reopen reminder");
+      toast.error(translateCurrent("reminders.reopenFailed"));
     }
   };
 
@@ -1090,14 +1101,14 @@ export function CalendarReminders({
     const reminder = allReminders.find((r) => r.id === id);
     
     if (!reminder) {
-      toast.error("Reminder not found");
+      toast.error(t("reminders.notFound"));
       return;
     }
 
     // Check permissions for visit/invoice reminders
     if (reminder.relatedVisitId || (reminder as any)?.relatedInvoiceId) {
       if (!canUpdateReminders) {
-        toast.error("You do not have permission to update visit or invoice reminders");
+        toast.error(t("reminders.noUpdateLinkedPermission"));
         return;
       }
     }
@@ -1120,7 +1131,7 @@ export function CalendarReminders({
 
           if (visitError) {
             console.error("Error updating visit:", visitError);
-            toast.error("Failed to update visit status");
+            toast.error(translateCurrent("reminders.visitStatusFailed"));
             return;
           }
         }
@@ -1161,10 +1172,10 @@ export function CalendarReminders({
         });
       }
 
-      toast.success("Reminder cancelled.");
+      toast.success(translateCurrent("reminders.cancelled"));
     } catch (error) {
       console.error("Error cancelling reminder:", error);
-      toast.error("Failed to cancel reminder");
+      toast.error(translateCurrent("reminders.cancelFailed"));
     }
   };
 
@@ -1193,22 +1204,22 @@ export function CalendarReminders({
                 {reminder.relatedVisitId && (
                   <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 gap-1">
                     <MapPin className="h-3 w-3" />
-                    Visit
+                    {t("reminders.type.visit")}
                   </Badge>
                 )}
                 <Badge variant={priorityColors[reminder.priority] as any}>
-                  {reminder.priority}
+                  {t(PRIORITY_KEYS[reminder.priority])}
                 </Badge>
                 {reminder.status === "completed" && (
                   <Badge variant="default" className="gap-1">
                     <Check className="h-3 w-3" />
-                    Completed
+                    {t("reminders.completed")}
                   </Badge>
                 )}
                 {reminder.status === "cancelled" && (
                   <Badge variant="destructive" className="gap-1">
                     <X className="h-3 w-3" />
-                    Cancelled
+                    {t("status.cancelled")}
                   </Badge>
                 )}
               </div>
@@ -1216,11 +1227,7 @@ export function CalendarReminders({
             <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
               <div className="flex items-center gap-1.5">
                 <CalendarIcon className="h-4 w-4" />
-                {reminderDate.toLocaleDateString("en-GB", {
-                  month: "short",
-                  day: "numeric",
-                  year: "numeric",
-                })}
+                {formatDate(reminderDate)}
               </div>
               <div className="flex items-center gap-1.5">
                 <Clock className="h-4 w-4" />
@@ -1235,18 +1242,12 @@ export function CalendarReminders({
             </div>
             {reminder.assignedTo && (
               <div className="text-xs text-muted-foreground">
-                Assigned to: {reminder.assignedTo}
+                {t("reminders.assignedTo", { name: reminder.assignedTo })}
               </div>
             )}
             {reminder.status === "completed" && reminder.completedAt && (
               <div className="text-xs text-muted-foreground">
-                Completed at:{" "}
-                {new Date(reminder.completedAt).toLocaleString("en-US", {
-                  month: "short",
-                  day: "numeric",
-                  hour: "2-digit",
-                  minute: "2-digit",
-                })}
+                {t("reminders.completedAt", { date: formatDateTime(reminder.completedAt) })}
               </div>
             )}
           </div>
@@ -1260,7 +1261,7 @@ export function CalendarReminders({
                   onClick={() => markAsCompleted(reminder.id)}
                 >
                   <Check className="h-3.5 w-3.5" />
-                  Complete
+                  {t("reminders.complete")}
                 </Button>
                 <Button
                   size="sm"
@@ -1269,7 +1270,7 @@ export function CalendarReminders({
                   onClick={() => markAsCancelled(reminder.id)}
                 >
                   <XCircle className="h-3.5 w-3.5" />
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
               </>
             ) : (
@@ -1280,7 +1281,7 @@ export function CalendarReminders({
                 onClick={() => markAsPending(reminder.id)}
               >
                 <RotateCcw className="h-3.5 w-3.5" />
-                Reopen
+                {t("reminders.reopen")}
               </Button>
             )}
             <div className="flex gap-2 justify-end">
@@ -1310,8 +1311,8 @@ export function CalendarReminders({
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Calendar & Reminders</h2>
-          <p className="text-muted-foreground mt-1">Manage your schedule, appointments, and reminders</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("reminders.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("reminders.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button
@@ -1330,71 +1331,71 @@ export function CalendarReminders({
             ) : (
               <RefreshCw className="h-4 w-4" />
             )}
-            Refresh
+            {t("common.refresh")}
           </Button>
           <Dialog open={isAddReminderOpen} onOpenChange={setIsAddReminderOpen}>
           <DialogTrigger asChild>
             <Button 
               className="gap-2 bg-purple-600 hover:bg-purple-700 text-white"
               disabled={!canCreateReminders}
-              title={!canCreateReminders ? "You do not have permission to create reminders" : ""}
+              title={!canCreateReminders ? t("reminders.noCreatePermission") : ""}
             >
               <Plus className="h-4 w-4" />
-              Add Reminder
+              {t("reminders.addReminder")}
             </Button>
           </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Create New Reminder</DialogTitle>
-              <DialogDescription>Set up a new reminder or appointment</DialogDescription>
+              <DialogTitle>{t("reminders.createTitle")}</DialogTitle>
+              <DialogDescription>{t("reminders.createDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="reminder-type">Type</Label>
+                  <Label htmlFor="reminder-type">{t("reminders.type")}</Label>
                   <Select value={reminderType} onValueChange={(value: any) => setReminderType(value)}>
                     <SelectTrigger id="reminder-type">
-                      <SelectValue placeholder="Select type" />
+                      <SelectValue placeholder={t("reminders.selectType")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="visit">Visit</SelectItem>
-                      <SelectItem value="payment">Payment</SelectItem>
-                      <SelectItem value="contract">Contract</SelectItem>
-                      <SelectItem value="follow-up">Follow-up</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      <SelectItem value="visit">{t("reminders.type.visit")}</SelectItem>
+                      <SelectItem value="payment">{t("reminders.type.payment")}</SelectItem>
+                      <SelectItem value="contract">{t("reminders.type.contract")}</SelectItem>
+                      <SelectItem value="follow-up">{t("reminders.type.followUp")}</SelectItem>
+                      <SelectItem value="other">{t("reminders.type.other")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="reminder-priority">Priority</Label>
+                  <Label htmlFor="reminder-priority">{t("reminders.priority")}</Label>
                   <Select value={reminderPriority} onValueChange={(value: any) => setReminderPriority(value)}>
                     <SelectTrigger id="reminder-priority">
-                      <SelectValue placeholder="Select priority" />
+                      <SelectValue placeholder={t("reminders.selectPriority")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="high">{t("reminders.priority.high")}</SelectItem>
+                      <SelectItem value="medium">{t("reminders.priority.medium")}</SelectItem>
+                      <SelectItem value="low">{t("reminders.priority.low")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="reminder-title">Title *</Label>
+                <Label htmlFor="reminder-title">{t("reminders.titleRequired")}</Label>
                 <Input 
                   id="reminder-title" 
-                  placeholder="Enter reminder title" 
+                  placeholder={t("reminders.titlePlaceholder")} 
                   value={reminderTitle}
                   onChange={(e) => setReminderTitle(e.target.value)}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="reminder-description">Description</Label>
+                <Label htmlFor="reminder-description">{t("reminders.description")}</Label>
                 <Textarea 
                   id="reminder-description" 
-                  placeholder="Additional details..." 
+                  placeholder={t("reminders.descriptionPlaceholder")} 
                   rows={3}
                   value={reminderDescription}
                   onChange={(e) => setReminderDescription(e.target.value)}
@@ -1403,7 +1404,7 @@ export function CalendarReminders({
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="reminder-date">Date *</Label>
+                  <Label htmlFor="reminder-date">{t("reminders.dateRequired")}</Label>
                   <Input 
                     id="reminder-date" 
                     type="date"
@@ -1412,7 +1413,7 @@ export function CalendarReminders({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="reminder-time">Time *</Label>
+                  <Label htmlFor="reminder-time">{t("reminders.timeRequired")}</Label>
                   <Input 
                     id="reminder-time" 
                     type="time"
@@ -1424,19 +1425,19 @@ export function CalendarReminders({
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="reminder-customer">Customer (Optional)</Label>
+                  <Label htmlFor="reminder-customer">{t("reminders.customerOptional")}</Label>
                   <Input 
                     id="reminder-customer"
-                    placeholder="Customer name"
+                    placeholder={t("reminders.customerPlaceholder")}
                     value={reminderCustomer}
                     onChange={(e) => setReminderCustomer(e.target.value)}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="reminder-assigned">Assign To (Optional)</Label>
+                  <Label htmlFor="reminder-assigned">{t("reminders.assignToOptional")}</Label>
                   <Input 
                     id="reminder-assigned"
-                    placeholder="Representative name"
+                    placeholder={t("reminders.assignToPlaceholder")}
                     value={reminderAssignedTo}
                     onChange={(e) => setReminderAssignedTo(e.target.value)}
                   />
@@ -1445,14 +1446,14 @@ export function CalendarReminders({
             </div>
             <div className="flex justify-end gap-3">
               <Button variant="outline" onClick={() => setIsAddReminderOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button 
                 onClick={handleCreateReminder} 
                 className="bg-purple-600 hover:bg-purple-700 text-white"
                 disabled={!canCreateReminders}
               >
-                Create Reminder
+                {t("reminders.createReminder")}
               </Button>
             </div>
           </DialogContent>
@@ -1470,13 +1471,13 @@ export function CalendarReminders({
         >
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Edit Reminder</DialogTitle>
-              <DialogDescription>Update reminder details</DialogDescription>
+              <DialogTitle>{t("reminders.editTitle")}</DialogTitle>
+              <DialogDescription>{t("reminders.editDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-reminder-type">Type</Label>
+                  <Label htmlFor="edit-reminder-type">{t("reminders.type")}</Label>
                   <Select
                     value={editForm.type}
                     onValueChange={(value: Reminder["type"]) =>
@@ -1484,19 +1485,19 @@ export function CalendarReminders({
                     }
                   >
                     <SelectTrigger id="edit-reminder-type">
-                      <SelectValue placeholder="Select type" />
+                      <SelectValue placeholder={t("reminders.selectType")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="visit">Visit</SelectItem>
-                      <SelectItem value="payment">Payment</SelectItem>
-                      <SelectItem value="contract">Contract</SelectItem>
-                      <SelectItem value="follow-up">Follow-up</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      <SelectItem value="visit">{t("reminders.type.visit")}</SelectItem>
+                      <SelectItem value="payment">{t("reminders.type.payment")}</SelectItem>
+                      <SelectItem value="contract">{t("reminders.type.contract")}</SelectItem>
+                      <SelectItem value="follow-up">{t("reminders.type.followUp")}</SelectItem>
+                      <SelectItem value="other">{t("reminders.type.other")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-reminder-priority">Priority</Label>
+                  <Label htmlFor="edit-reminder-priority">{t("reminders.priority")}</Label>
                   <Select
                     value={editForm.priority}
                     onValueChange={(value: Reminder["priority"]) =>
@@ -1504,22 +1505,22 @@ export function CalendarReminders({
                     }
                   >
                     <SelectTrigger id="edit-reminder-priority">
-                      <SelectValue placeholder="Select priority" />
+                      <SelectValue placeholder={t("reminders.selectPriority")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="high">{t("reminders.priority.high")}</SelectItem>
+                      <SelectItem value="medium">{t("reminders.priority.medium")}</SelectItem>
+                      <SelectItem value="low">{t("reminders.priority.low")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-reminder-title">Title *</Label>
+                <Label htmlFor="edit-reminder-title">{t("reminders.titleRequired")}</Label>
                 <Input
                   id="edit-reminder-title"
-                  placeholder="Enter reminder title"
+                  placeholder={t("reminders.titlePlaceholder")}
                   value={editForm.title}
                   onChange={(e) =>
                     setEditForm((prev) => ({ ...prev, title: e.target.value }))
@@ -1528,10 +1529,10 @@ export function CalendarReminders({
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-reminder-description">Description</Label>
+                <Label htmlFor="edit-reminder-description">{t("reminders.description")}</Label>
                 <Textarea
                   id="edit-reminder-description"
-                  placeholder="Additional details..."
+                  placeholder={t("reminders.descriptionPlaceholder")}
                   rows={3}
                   value={editForm.description}
                   onChange={(e) =>
@@ -1542,7 +1543,7 @@ export function CalendarReminders({
 
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-reminder-date">Date *</Label>
+                  <Label htmlFor="edit-reminder-date">{t("reminders.dateRequired")}</Label>
                   <Input
                     id="edit-reminder-date"
                     type="date"
@@ -1553,7 +1554,7 @@ export function CalendarReminders({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-reminder-time">Time *</Label>
+                  <Label htmlFor="edit-reminder-time">{t("reminders.timeRequired")}</Label>
                   <Input
                     id="edit-reminder-time"
                     type="time"
@@ -1564,7 +1565,7 @@ export function CalendarReminders({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-reminder-status">Status</Label>
+                  <Label htmlFor="edit-reminder-status">{t("common.status")}</Label>
                   <Select
                     value={editForm.status}
                     onValueChange={(value: Reminder["status"]) =>
@@ -1572,12 +1573,12 @@ export function CalendarReminders({
                     }
                   >
                     <SelectTrigger id="edit-reminder-status">
-                      <SelectValue placeholder="Select status" />
+                      <SelectValue placeholder={t("reminders.selectStatus")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                      <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                      <SelectItem value="completed">{t("reminders.completed")}</SelectItem>
+                      <SelectItem value="cancelled">{t("status.cancelled")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1585,10 +1586,10 @@ export function CalendarReminders({
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-reminder-customer">Customer (Optional)</Label>
+                  <Label htmlFor="edit-reminder-customer">{t("reminders.customerOptional")}</Label>
                   <Input
                     id="edit-reminder-customer"
-                    placeholder="Customer name"
+                    placeholder={t("reminders.customerPlaceholder")}
                     value={editForm.customer}
                     onChange={(e) =>
                       setEditForm((prev) => ({ ...prev, customer: e.target.value }))
@@ -1597,11 +1598,11 @@ export function CalendarReminders({
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="edit-reminder-assigned">
-                    Assign To (Optional)
+                    {t("reminders.assignToOptional")}
                   </Label>
                   <Input
                     id="edit-reminder-assigned"
-                    placeholder="Representative name"
+                    placeholder={t("reminders.assignToPlaceholder")}
                     value={editForm.assignedTo}
                     onChange={(e) =>
                       setEditForm((prev) => ({
@@ -1622,14 +1623,14 @@ export function CalendarReminders({
                   setEditForm({ ...emptyEditForm });
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button 
                 onClick={handleUpdateReminder} 
                 className="bg-purple-600 hover:bg-purple-700 text-white"
                 disabled={!canUpdateReminders}
               >
-                Save Changes
+                {t("common.saveChanges")}
               </Button>
             </div>
           </DialogContent>
@@ -1639,12 +1640,12 @@ export function CalendarReminders({
 
       {/* Today's Overview */}
       {todayReminders.length > 0 && (
-        <Card className="border-l-4 border-l-blue-600 bg-blue-50/50">
+        <Card className="border-s-4 border-s-blue-600 bg-blue-50/50">
           <CardHeader className="pb-3">
             <div className="flex items-center gap-2">
               <Bell className="h-5 w-5 text-blue-600" />
-              <CardTitle className="text-lg">Today's Reminders</CardTitle>
-              <Badge variant="default" className="ml-auto">{todayReminders.length}</Badge>
+              <CardTitle className="text-lg">{t("reminders.todayTitle")}</CardTitle>
+              <Badge variant="default" className="ms-auto">{todayReminders.length}</Badge>
             </div>
           </CardHeader>
           <CardContent>
@@ -1668,7 +1669,7 @@ export function CalendarReminders({
                         </div>
                       </div>
                     </div>
-                    <div className="flex flex-wrap items-center gap-1.5 md:ml-auto">
+                    <div className="flex flex-wrap items-center gap-1.5 md:ms-auto">
                       {reminder.status === "pending" ? (
                         <>
                           <Button
@@ -1678,7 +1679,7 @@ export function CalendarReminders({
                             onClick={() => markAsCompleted(reminder.id)}
                           >
                             <Check className="h-3.5 w-3.5" />
-                            Done
+                            {t("reminders.done")}
                           </Button>
                           <Button
                             size="sm"
@@ -1687,7 +1688,7 @@ export function CalendarReminders({
                             onClick={() => markAsCancelled(reminder.id)}
                           >
                             <XCircle className="h-3.5 w-3.5" />
-                            Cancel
+                            {t("common.cancel")}
                           </Button>
                         </>
                       ) : (
@@ -1698,14 +1699,14 @@ export function CalendarReminders({
                           onClick={() => markAsPending(reminder.id)}
                         >
                           <RotateCcw className="h-3.5 w-3.5" />
-                          Reopen
+                          {t("reminders.reopen")}
                         </Button>
                       )}
                       <Button
                         size="sm"
                         variant="ghost"
                         onClick={() => openEditReminder(reminder)}
-                        title="Edit reminder"
+                        title={t("reminders.editReminder")}
                       >
                         <Edit className="h-3.5 w-3.5" />
                       </Button>
@@ -1714,7 +1715,7 @@ export function CalendarReminders({
                         variant="ghost"
                         className="text-destructive"
                         onClick={() => handleDeleteReminder(reminder.id)}
-                        title="Delete reminder"
+                        title={t("reminders.deleteReminder")}
                       >
                         <Trash2 className="h-3.5 w-3.5" />
                       </Button>
@@ -1733,13 +1734,13 @@ export function CalendarReminders({
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle>Calendar</CardTitle>
-                <CardDescription>View and manage your schedule</CardDescription>
+                <CardTitle>{t("reminders.calendar")}</CardTitle>
+                <CardDescription>{t("reminders.calendarDescription")}</CardDescription>
               </div>
               <div className="flex items-center gap-4 text-xs text-muted-foreground">
                 <div className="flex items-center gap-1.5">
                   <span className="block h-2 w-2 rounded-full bg-purple-500"></span>
-                  <span>Activities</span>
+                  <span>{t("reminders.activities")}</span>
                 </div>
               </div>
             </div>
@@ -1758,7 +1759,7 @@ export function CalendarReminders({
                 showNeighboringMonth={false}
                 minDetail="month"
                 maxDetail="month"
-                locale="en-US"
+                locale={language === "ar" ? "ar-u-nu-latn" : "en-GB"}
                 className="react-calendar w-full border-none bg-transparent text-sm"
               />
             </div>
@@ -1766,12 +1767,7 @@ export function CalendarReminders({
           <CardContent className="pt-0">
             <div className="border-t pt-4">
               <h4 className="font-semibold text-sm mb-3 flex items-center gap-2">
-                Activities for{" "}
-                {selectedDate.toLocaleDateString("en-GB", {
-                  month: "long",
-                  day: "numeric",
-                  year: "numeric",
-                })}
+                {t("reminders.activitiesFor", { date: formatDate(selectedDate) })}
                 {remindersForSelectedDate.length > 0 && (
                   <Badge variant="secondary" className="text-xs">
                     {remindersForSelectedDate.length}
@@ -1797,17 +1793,17 @@ export function CalendarReminders({
                               {isVisitReminder && (
                                 <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 text-xs gap-1">
                                   <MapPin className="h-3 w-3" />
-                                  Visit
+                                  {t("reminders.type.visit")}
                                 </Badge>
                               )}
                               {isInvoiceReminder && (
                                 <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 text-xs gap-1">
                                   <DollarSign className="h-3 w-3" />
-                                  Payment
+                                  {t("reminders.type.payment")}
                                 </Badge>
                               )}
                               <Badge variant={priorityColors[reminder.priority] as any} className="text-xs">
-                                {reminder.priority}
+                                {t(PRIORITY_KEYS[reminder.priority])}
                               </Badge>
                             </div>
                           </div>
@@ -1835,25 +1831,20 @@ export function CalendarReminders({
                           {reminder.status === "completed" && (
                             <div className="mt-2 space-y-1">
                               <Badge variant="default" className="text-xs">
-                                <Check className="h-3 w-3 mr-1" />
-                                Completed
+                                <Check className="h-3 w-3 me-1" />
+                                {t("reminders.completed")}
                               </Badge>
                               {'completedAt' in reminder && reminder.completedAt && (
                                 <p className="text-xs text-muted-foreground">
-                                  Completed at: {new Date(reminder.completedAt).toLocaleString('en-US', { 
-                                    month: 'short', 
-                                    day: 'numeric', 
-                                    hour: '2-digit', 
-                                    minute: '2-digit' 
-                                  })}
+                                  {t("reminders.completedAt", { date: formatDateTime(reminder.completedAt) })}
                                 </p>
                               )}
                             </div>
                           )}
                           {reminder.status === "cancelled" && (
                             <Badge variant="destructive" className="text-xs mt-2">
-                              <X className="h-3 w-3 mr-1" />
-                              Cancelled
+                              <X className="h-3 w-3 me-1" />
+                              {t("status.cancelled")}
                             </Badge>
                           )}
                         </div>
@@ -1868,7 +1859,7 @@ export function CalendarReminders({
                                   onClick={() => markAsCompleted(reminder.id)}
                                 >
                                   <Check className="h-3.5 w-3.5" />
-                                  Done
+                                  {t("reminders.done")}
                                 </Button>
                                 <Button
                                   size="sm"
@@ -1877,7 +1868,7 @@ export function CalendarReminders({
                                   onClick={() => markAsCancelled(reminder.id)}
                                 >
                                   <XCircle className="h-3.5 w-3.5" />
-                                  Cancel
+                                  {t("common.cancel")}
                                 </Button>
                               </>
                             ) : (
@@ -1888,7 +1879,7 @@ export function CalendarReminders({
                                 onClick={() => markAsPending(reminder.id)}
                               >
                                 <RotateCcw className="h-3.5 w-3.5" />
-                                Reopen
+                                {t("reminders.reopen")}
                               </Button>
                             )}
                             {!isVisitReminder && (
@@ -1919,7 +1910,7 @@ export function CalendarReminders({
               ) : (
                 <div className="text-center py-6 text-muted-foreground">
                   <CalendarIcon className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">No activities scheduled for this date</p>
+                  <p className="text-sm">{t("reminders.noActivities")}</p>
                 </div>
               )}
             </div>
@@ -1929,11 +1920,11 @@ export function CalendarReminders({
         {/* Upcoming Reminders */}
         <Card className="lg:col-span-3">
           <CardHeader>
-            <CardTitle>Upcoming</CardTitle>
-            <CardDescription>Your next reminders</CardDescription>
+            <CardTitle>{t("reminders.upcoming")}</CardTitle>
+            <CardDescription>{t("reminders.upcomingDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
-            <ScrollArea className="h-[400px] pr-4">
+            <ScrollArea className="h-[400px] pe-4">
               <div className="space-y-3">
                 {upcomingReminders.length > 0 ? (
                   upcomingReminders.map((reminder) => {
@@ -1948,14 +1939,14 @@ export function CalendarReminders({
                             <div className="flex items-start justify-between gap-2 mb-1">
                               <h4 className="font-semibold text-sm">{reminder.title}</h4>
                               <Badge variant={priorityColors[reminder.priority] as any} className="text-xs">
-                                {reminder.priority}
+                                {t(PRIORITY_KEYS[reminder.priority])}
                               </Badge>
                             </div>
                             <p className="text-xs text-muted-foreground mb-2">{reminder.description}</p>
                             <div className="flex items-center gap-3 flex-wrap text-xs text-muted-foreground">
                               <div className="flex items-center gap-1">
                                 <CalendarIcon className="h-3 w-3" />
-                                {new Date(reminder.date).toLocaleDateString('en-GB', { month: 'short', day: 'numeric' })}
+                                {formatDate(toDateObject(reminder.date))}
                               </div>
                               <div className="flex items-center gap-1">
                                 <Clock className="h-3 w-3" />
@@ -1978,7 +1969,7 @@ export function CalendarReminders({
                         onClick={() => markAsCompleted(reminder.id)}
                       >
                         <Check className="h-3.5 w-3.5" />
-                        Complete
+                        {t("reminders.complete")}
                       </Button>
                       <Button
                         size="sm"
@@ -1987,7 +1978,7 @@ export function CalendarReminders({
                         onClick={() => markAsCancelled(reminder.id)}
                       >
                         <XCircle className="h-3.5 w-3.5" />
-                        Cancel
+                        {t("common.cancel")}
                       </Button>
                       <Button
                         size="sm"
@@ -2011,7 +2002,7 @@ export function CalendarReminders({
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
                     <Bell className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                    <p>No upcoming reminders</p>
+                    <p>{t("reminders.noUpcoming")}</p>
                   </div>
                 )}
               </div>
@@ -2025,24 +2016,24 @@ export function CalendarReminders({
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle>All Reminders</CardTitle>
-              <CardDescription>View and manage all reminders</CardDescription>
+              <CardTitle>{t("reminders.allReminders")}</CardTitle>
+              <CardDescription>{t("reminders.allDescription")}</CardDescription>
             </div>
             <Select value={selectedFilter} onValueChange={setSelectedFilter}>
               <SelectTrigger className="w-[180px]">
-                <Filter className="h-4 w-4 mr-2" />
+                <Filter className="h-4 w-4 me-2" />
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Reminders</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
-                <SelectItem value="visit">Visits</SelectItem>
-                <SelectItem value="payment">Payments</SelectItem>
-                <SelectItem value="contract">Contracts</SelectItem>
-                <SelectItem value="follow-up">Follow-ups</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
+                <SelectItem value="all">{t("reminders.allReminders")}</SelectItem>
+                <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                <SelectItem value="completed">{t("reminders.completed")}</SelectItem>
+                <SelectItem value="cancelled">{t("status.cancelled")}</SelectItem>
+                <SelectItem value="visit">{t("reminders.filter.visits")}</SelectItem>
+                <SelectItem value="payment">{t("reminders.filter.payments")}</SelectItem>
+                <SelectItem value="contract">{t("reminders.filter.contracts")}</SelectItem>
+                <SelectItem value="follow-up">{t("reminders.filter.followUps")}</SelectItem>
+                <SelectItem value="other">{t("reminders.type.other")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -2050,8 +2041,8 @@ export function CalendarReminders({
         <CardContent>
           <Tabs defaultValue="upcoming" className="w-full">
             <TabsList className="grid w-full max-w-md grid-cols-2">
-              <TabsTrigger value="upcoming">Upcoming (Next 5 Days)</TabsTrigger>
-              <TabsTrigger value="all">All (This Month)</TabsTrigger>
+              <TabsTrigger value="upcoming">{t("reminders.tabUpcoming")}</TabsTrigger>
+              <TabsTrigger value="all">{t("reminders.tabMonth")}</TabsTrigger>
             </TabsList>
             
             <TabsContent value="upcoming" className="mt-4 space-y-3">
@@ -2062,7 +2053,7 @@ export function CalendarReminders({
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <Bell className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>No upcoming reminders</p>
+                  <p>{t("reminders.noUpcoming")}</p>
                 </div>
               )}
             </TabsContent>
@@ -2072,7 +2063,7 @@ export function CalendarReminders({
                 <div className="space-y-3">
                   <div className="flex items-center gap-2 text-muted-foreground mb-4">
                     <span className="text-sm font-semibold uppercase tracking-wide">
-                      All Reminders in {selectedDate.toLocaleString("en-US", { month: "long", year: "numeric" })}
+                      {t("reminders.allInMonth", { month: selectedMonthLabel })}
                     </span>
                     <Badge variant="outline">
                       {allMonthRemindersFiltered.length}
@@ -2088,7 +2079,7 @@ export function CalendarReminders({
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <Filter className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>No reminders in {selectedDate.toLocaleString("en-US", { month: "long", year: "numeric" })}</p>
+                  <p>{t("reminders.noneInMonth", { month: selectedMonthLabel })}</p>
                 </div>
               )}
             </TabsContent>
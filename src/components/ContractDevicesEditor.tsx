@@ -0,0 +1,73 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { countDevices, type ContractDeviceLine } from "../lib/contractRecords";
+import { useLocale } from "../lib/i18n";
+
+interface ContractDevicesEditorProps {
+  idPrefix: string;
+  devices: ContractDeviceLine[];
+  onChange: (devices: ContractDeviceLine[]) => void;
+}
+
+/**
+ * Device type and quantity lines of a contract
+ */
+export function ContractDevicesEditor({ idPrefix, devices, onChange }: ContractDevicesEditorProps) {
+  const { t, formatNumber } = useLocale();
+  const updateLine = (index: number, values: Partial<ContractDeviceLine>) => {
+    onChange(devices.map((device, i) => (i === index ? { ...device, ...values } : device)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {devices.length > 0 && (
+        <div className="grid grid-cols-[1fr_7rem_2.5rem] gap-2 text-sm">
+          <Label htmlFor={`${idPrefix}-type-0`}>{t("contracts.deviceType")}</Label>
+          <Label htmlFor={`${idPrefix}-quantity-0`}>{t("contracts.deviceQuantity")}</Label>
+          <span />
+        </div>
+      )}
+      {devices.map((device, index) => (
+        <div key={index} className="grid grid-cols-[1fr_7rem_2.5rem] gap-2">
+          <Input
+            id={`${idPrefix}-type-${index}`}
+            value={device.device_type}
+            onChange={(e) => updateLine(index, { device_type: e.target.value })}
+            placeholder="Pro"
+          />
+          <Input
+            id={`${idPrefix}-quantity-${index}`}
+            type="number"
+            min={1}
+            value={device.quantity || ""}
+            onChange={(e) => updateLine(index, { quantity: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(devices.filter((_, i) => i !== index))}
+            aria-label={t("contracts.removeDevice")}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => onChange([...devices, { device_type: "", quantity: 1 }])}
+        >
+          <Plus className="h-4 w-4" />
+          {t("contracts.addDevice")}
+        </Button>
+        <span className="text-sm text-muted-foreground">{t("contracts.totalDevices", { count: formatNumber(countDevices(devices)) })}</span>
+      </div>
+    </div>
+  );
+}
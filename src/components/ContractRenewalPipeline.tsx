@@ -0,0 +1,180 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { ScrollArea } from "./ui/scroll-area";
+import { useAppDispatch } from "../redux-toolkit/hooks";
+import { thunks } from "../redux-toolkit/slices";
+import { contractHistoryEntry, readContractDetails } from "../lib/contractRecords";
+import { fetchRecurringBillingSettings } from "../lib/recurringBilling";
+import type { ContractRenewalStatus, Contracts } from "../../supabase/models/contracts";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+
+interface ContractRenewalPipelineProps {
+  contracts: Contracts[];
+}
+
+const STAGES: { stage: ContractRenewalStatus; title: MessageKey; description: MessageKey; className: string }[] = [
+  { stage: "upcoming", title: "renewals.upcoming", description: "renewals.upcomingHint", className: "bg-amber-100 text-amber-700" },
+  { stage: "offered", title: "renewals.offered", description: "renewals.offeredHint", className: "bg-blue-100 text-blue-700" },
+  { stage: "renewed", title: "renewals.renewed", description: "renewals.renewedHint", className: "bg-green-100 text-green-700" },
+  { stage: "lapsed", title: "renewals.lapsed", description: "renewals.lapsedHint", className: "bg-gray-100 text-gray-700" },
+];
+
+const CONTRACT_STATUS_KEYS: Record<string, MessageKey> = {
+  draft: "status.draft",
+  signed: "status.signed",
+  active: "status.active",
+  suspended: "status.suspended",
+  expired: "status.expired",
+  cancelled: "status.cancelled",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stage of a contract in the renewal pipeline. The scheduled run stores it in renewal_status; active
+ * contracts that entered the notice window since the last run are shown as upcoming already.
+ */
+function renewalStage(contract: Contracts, noticeDays: number, today: string): ContractRenewalStatus | null {
+  if (contract.renewal_status) return contract.renewal_status;
+  if ((contract.contract_status ?? "").toLowerCase() !== "active" || !contract.contract_end_date) return null;
+  const daysLeft = (new Date(contract.contract_end_date).getTime() - new Date(today).getTime()) / DAY_MS;
+  return daysLeft >= 0 && daysLeft <= noticeDays ? "upcoming" : null;
+}
+
+/**
+ * Renewal pipeline of the contracts screen: upcoming, offered, renewed and lapsed contracts
+ */
+export function ContractRenewalPipeline({ contracts }: ContractRenewalPipelineProps) {
+  const { t, formatDate } = useLocale();
+  const dispatch = useAppDispatch();
+  const { data: settings } = useQuery({
+    queryKey: ["recurring_billing_settings"],
+    queryFn: fetchRecurringBillingSettings,
+  });
+  const noticeDays = settings?.renewal_notice_days ?? 30;
+
+  const stages = useMemo(() => {
+    const today = new Date().toISOString().split("T")[0];
+    const byId = new Map(contracts.map((contract) => [contract.contract_id, contract]));
+    const grouped: Record<ContractRenewalStatus, { contract: Contracts; clientName: string; offer: string | null }[]> = {
+      upcoming: [],
+      offered: [],
+      renewed: [],
+      lapsed: [],
+    };
+    for (const contract of contracts) {
+      const stage = renewalStage(contract, noticeDays, today);
+      if (!stage) continue;
+      const renewal = contract.renewal_contract_id ? byId.get(contract.renewal_contract_id) : undefined;
+      grouped[stage].push({
+        contract,
+        clientName: readContractDetails(contract).clientName,
+        offer: renewal
+          ? t("renewals.renewalContract", {
+              number: renewal.contract_number,
+              status: t(CONTRACT_STATUS_KEYS[renewal.contract_status ?? "draft"] ?? "status.draft"),
+            })
+          : contract.renewal_quotation_id
+          ? t("renewals.quotationSent")
+          : null,
+      });
+    }
+    for (const entries of Object.values(grouped)) {
+      entries.sort((a, b) => (a.contract.contract_end_date ?? "").localeCompare(b.contract.contract_end_date ?? ""));
+    }
+    return grouped;
+  }, [contracts, noticeDays, t]);
+
+  const setRenewalStatus = async (contract: Contracts, status: ContractRenewalStatus) => {
+    try {
+      await dispatch(thunks.contracts.updateOne({ id: contract.contract_id, values: { renewal_status: status } })).unwrap();
+      await dispatch(
+        thunks.contract_history.createOne(
+          status === "renewed"
+            ? contractHistoryEntry(contract.contract_id, "Renewed", "Contract renewed", "Marked as renewed from the renewal pipeline")
+            : contractHistoryEntry(contract.contract_id, "Renewal declined", "Contract will not be renewed", "Marked as lapsed from the renewal pipeline")
+        )
+      ).unwrap();
+      dispatch(thunks.contract_history.fetchAll(undefined));
+      toast.success(translateCurrent(status === "renewed" ? "renewals.markedRenewed" : "renewals.markedLapsed", { number: contract.contract_number }));
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || translateCurrent("renewals.updateFailed"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("renewals.title")}</CardTitle>
+        <CardDescription>
+          {t("renewals.description", { days: noticeDays })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {STAGES.map(({ stage, title, description, className }) => (
+            <div key={stage} className="rounded-lg border">
+              <div className="flex items-center justify-between border-b p-3">
+                <div>
+                  <p className="font-medium">{t(title)}</p>
+                  <p className="text-xs text-muted-foreground">{t(description)}</p>
+                </div>
+                <Badge className={className}>{stages[stage].length}</Badge>
+              </div>
+              <ScrollArea className="h-64">
+                <div className="space-y-2 p-3">
+                  {stages[stage].length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">{t("renewals.empty")}</p>
+                  ) : (
+                    stages[stage].map(({ contract, clientName, offer }) => (
+                      <div key={contract.contract_id} className="space-y-1 rounded-md border p-2 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-mono">{contract.contract_number}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {contract.contract_end_date
+                              ? t("renewals.ends", { date: formatDate(contract.contract_end_date) })
+                              : t("renewals.noEndDate")}
+                          </span>
+                        </div>
+                        {clientName && <p className="truncate">{clientName}</p>}
+                        {offer && <p className="text-xs text-muted-foreground">{offer}</p>}
+                        {(stage === "upcoming" || stage === "offered") && (
+                          <div className="flex gap-1 pt-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-7 gap-1 px-2 text-xs"
+                              onClick={() => void setRenewalStatus(contract, "renewed")}
+                            >
+                              <CheckCircle className="h-3 w-3" />
+                              {t("renewals.renewed")}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 gap-1 px-2 text-xs"
+                              onClick={() => void setRenewalStatus(contract, "lapsed")}
+                            >
+                              <XCircle className="h-3 w-3" />
+                              {t("renewals.notRenewing")}
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
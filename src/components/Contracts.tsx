@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useMemo } from "react";
-import { Plus, Printer, Trash2, Download, Mail, MessageSquare, CheckCircle, XCircle, PauseCircle, Send, Upload, PlayCircle, MoreVertical, Edit, StickyNote, History, Clock, User, FileText } from "lucide-react";
+import { Plus, Printer, Trash2, Download, Mail, MessageSquare, CheckCircle, XCircle, PauseCircle, Send, Upload, PlayCircle, MoreVertical, Edit, StickyNote, History, Clock, User, FileText, FileSignature, Eye } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -14,6 +14,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Textarea } from "./ui/textarea";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator, DropdownMenuLabel } from "./ui/dropdown-menu";
 import { ScrollArea } from "./ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { CustomerSelector, type Customer } from "./CustomerSelector";
 import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { thunks, selectors } from "../redux-toolkit/slices";
@@ -21,26 +22,42 @@ import type { Customers } from "../../supabase/models/customers";
 import type { Contracts as DbContract } from "../../supabase/models/contracts";
 import type { MonthlyVisitsInsert } from "../../supabase/models/monthly_visits";
 import type { Delegates } from "../../supabase/models/delegates";
+import type { ContractDevices } from "../../supabase/models/contract_devices";
+import type { ContractHistory } from "../../supabase/models/contract_history";
+import {
+  contractDetailsToColumns,
+  contractHistoryEntry,
+  countDevices,
+  formatDeviceTypes,
+  readContractDetails,
+  saveContractDevices,
+  upgradeLegacyContract,
+  type ContractDeviceLine,
+  type ContractHistoryEntry,
+} from "../lib/contractRecords";
+import { ContractDevicesEditor } from "./ContractDevicesEditor";
+import { ContractRenewalPipeline } from "./ContractRenewalPipeline";
 import { supabase } from "../lib/supabaseClient";
-import { generateAutomaticInvoice } from "../utils/autoInvoice";
 import { uploadFile, getFileUrl } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { getPrintLogo } from "../lib/getPrintLogo";
+import { getCompanyInfo, getCompanyName, getCompanyNameArabic } from "../lib/companyInfo";
+import type { CompanyBranding } from "../../supabase/models/company_branding";
+import { SignatureRequestDialog } from "./SignatureRequestDialog";
+import { RecordHistory } from "./RecordHistory";
+import { downloadDocumentPdf } from "../lib/documentPdf";
+import { markQuotationConverted, type QuotationContractDraft } from "../lib/quotations";
+import { useRecordRoute } from "../lib/router";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
-interface HistoryLog {
-  id: number;
-  action: string;
-  description: string;
-  user: string;
-  timestamp: string;
-  details?: string;
-}
+type HistoryLog = ContractHistoryEntry;
 
 interface Contract {
   id: number;
   recordId?: string;
   contractNumber: string;
   contractDate: string;
+  endDate?: string; // Open-ended when empty
   clientName: string;
   clientCr: string;
   clientCity: string;
@@ -51,8 +68,9 @@ interface Contract {
   monthlyAmount: number;
   semiAnnualAmount: number;
   annualAmount: number;
-  devicesCount: string;
-  deviceTypes: string;
+  devices: ContractDeviceLine[];
+  devicesCount: string; // Total of devices, as printed
+  deviceTypes: string; // "Pro: 2, Ultra: 3", as printed
   emergencyVisitFee: number;
   paymentPlan: "monthly" | "semi-annual" | "annual";
   status: "draft" | "active" | "expired" | "cancelled" | "suspended" | "signed" | "attached";
@@ -93,6 +111,10 @@ const mockContracts: Contract[] = [
     monthlyAmount: 2000,
     semiAnnualAmount: 12000,
     annualAmount: 24000,
+    devices: [
+      { device_type: "Pro", quantity: 2 },
+      { device_type: "Ultra", quantity: 3 },
+    ],
     devicesCount: "5",
     deviceTypes: "Pro: 2, Ultra: 3",
     emergencyVisitFee: 500,
@@ -105,7 +127,7 @@ const mockContracts: Contract[] = [
     notes: "Premium client. Prefers French scents. Monthly visits on the 15th of each month.",
     historyLog: [
       {
-        id: 1,
+        id: "1",
         action: 'Created',
         description: 'Contract created',
         user: 'System Admin',
@@ -113,7 +135,7 @@ const mockContracts: Contract[] = [
         details: 'Contract created with status: Draft'
       },
       {
-        id: 2,
+        id: "2",
         action: 'Edited',
         description: 'Contract information updated',
         user: 'John Smith',
@@ -121,7 +143,7 @@ const mockContracts: Contract[] = [
         details: 'Updated client contact information and pricing details'
       },
       {
-        id: 3,
+        id: "3",
         action: 'Sent',
         description: 'Contract sent to client',
         user: 'John Smith',
@@ -129,7 +151,7 @@ const mockContracts: Contract[] = [
         details: 'Sent via Email to info@palmtrading.com'
       },
       {
-        id: 4,
+        id: "4",
         action: 'Signed',
         description: 'Contract marked as signed',
         user: 'Sarah Johnson',
@@ -137,7 +159,7 @@ const mockContracts: Contract[] = [
         details: 'Contract status changed from Draft to Signed'
       },
       {
-        id: 5,
+        id: "5",
         action: 'Attached',
         description: 'Signed contract file attached',
         user: 'Sarah Johnson',
@@ -162,14 +184,43 @@ interface ContractsProps {
   systemLogo: string;
   systemNameAr: string;
   systemNameEn: string;
+  pendingQuotationData?: QuotationContractDraft | null;
+  onQuotationDataConsumed?: () => void;
 }
 
-export function Contracts({ systemLogo }: ContractsProps) {
+export function Contracts({ systemLogo, pendingQuotationData, onQuotationDataConsumed }: ContractsProps) {
   const dispatch = useAppDispatch();
   const dbCustomers = useAppSelector(selectors.customers.selectAll) as Customers[];
   const dbContracts = useAppSelector(selectors.contracts.selectAll) as DbContract[];
   const dbDelegates = useAppSelector(selectors.delegates.selectAll) as Delegates[];
-  
+  const dbContractDevices = useAppSelector(selectors.contract_devices.selectAll) as ContractDevices[];
+  const dbContractHistory = useAppSelector(selectors.contract_history.selectAll) as ContractHistory[];
+  const { t, formatCurrency, formatDate, formatDateTime } = useLocale();
+
+  const paymentPlanLabel = (plan: Contract["paymentPlan"]) => {
+    if (plan === "semi-annual") return t("contracts.planSemiAnnual");
+    if (plan === "annual") return t("contracts.planAnnual");
+    return t("contracts.planMonthly");
+  };
+
+  const planAmount = (contract: Contract) => {
+    if (contract.paymentPlan === "semi-annual") return contract.semiAnnualAmount;
+    if (contract.paymentPlan === "annual") return contract.annualAmount;
+    return contract.monthlyAmount;
+  };
+
+  // History entries store the English action name
+  const historyActionLabels: Record<string, string> = {
+    Created: t("contracts.historyCreated"),
+    Edited: t("contracts.historyEdited"),
+    Sent: t("contracts.historySent"),
+    Signed: t("contracts.historySigned"),
+    Attached: t("contracts.historyAttached"),
+    Suspended: t("contracts.historySuspended"),
+    Cancelled: t("contracts.historyCancelled"),
+    Reactivated: t("contracts.historyReactivated"),
+  };
+
   const [contracts, setContracts] = useState<Contract[]>(mockContracts);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState("all");
@@ -183,12 +234,15 @@ export function Contracts({ systemLogo }: ContractsProps) {
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
   const [isNotesDialogOpen, setIsNotesDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [signatureContract, setSignatureContract] = useState<Contract | null>(null);
   const [suspensionReason, setSuspensionReason] = useState("");
   const [cancellationReason, setCancellationReason] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedCustomerId, setSelectedCustomerId] = useState<number | undefined>();
   const [hasRepresentative, setHasRepresentative] = useState(false);
   const [selectedDelegateId, setSelectedDelegateId] = useState<string | null>(null);
+  // Quotation being converted, linked to the contract when it is saved
+  const [sourceQuotation, setSourceQuotation] = useState<{ id: string; number: string } | null>(null);
 
   // Load customers and contracts from Redux
   useEffect(() => {
@@ -197,6 +251,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
       orderBy: 'created_at.desc' // Fetch contracts in descending order (newest first)
     }));
     dispatch(thunks.delegates.fetchAll(undefined));
+    dispatch(thunks.contract_devices.fetchAll(undefined));
+    dispatch(thunks.contract_history.fetchAll(undefined));
   }, [dispatch]);
 
   // Map database contracts to UI Contract format
@@ -211,66 +267,59 @@ export function Contracts({ systemLogo }: ContractsProps) {
       });
       
       const mappedContracts: Contract[] = sortedContracts.map((dbContract, idx) => {
-        // Try to parse additional data from notes field (stored as JSON)
-        let additionalData: any = {};
-        try {
-          if (dbContract.notes) {
-            additionalData = JSON.parse(dbContract.notes);
-          }
-        } catch (e) {
-          // If notes is not JSON, treat it as regular notes
-          additionalData = { notes: dbContract.notes };
-        }
-
-        // Get payment plan
-        const paymentPlan = additionalData.paymentPlan || "monthly";
-
+        const details = readContractDetails(dbContract, dbContractDevices, dbContractHistory);
         return {
+          ...details,
           id: idx + 1,
           recordId: dbContract.contract_id,
           contractNumber: dbContract.contract_number,
           contractDate: dbContract.contract_start_date,
-          monthlyVisitStartDate: additionalData.monthlyVisitStartDate || dbContract.contract_start_date,
-          clientName: additionalData.clientName || "",
-          clientCr: additionalData.clientCr || "",
-          clientCity: additionalData.clientCity || "",
-          clientRepresentative: additionalData.clientRepresentative || "",
-          clientDesignation: additionalData.clientDesignation || "",
-          serviceAddress: dbContract.location || additionalData.serviceAddress || "",
-          postalCode: additionalData.postalCode || "",
-          monthlyAmount: additionalData.monthlyAmount || 0,
-          semiAnnualAmount: additionalData.semiAnnualAmount || 0,
-          annualAmount: additionalData.annualAmount || 0,
-          devicesCount: additionalData.devicesCount || "",
-          deviceTypes: additionalData.deviceTypes || "",
-          emergencyVisitFee: additionalData.emergencyVisitFee || 500,
-          paymentPlan: paymentPlan as "monthly" | "semi-annual" | "annual",
+          endDate: dbContract.contract_end_date ?? undefined,
+          devicesCount: String(countDevices(details.devices)),
+          deviceTypes: formatDeviceTypes(details.devices),
           status: (dbContract.contract_status || "draft") as Contract["status"],
           createdDate: dbContract.created_at ? dbContract.created_at.split('T')[0] : new Date().toISOString().split('T')[0],
-          clientPhone: additionalData.clientPhone || "",
-          clientEmail: additionalData.clientEmail || "",
-          sentDate: additionalData.sentDate,
-          signedDate: additionalData.signedDate,
-          attachedDate: additionalData.attachedDate,
-          attachedFileName: additionalData.attachedFileName,
-          attachedFileData: additionalData.attachedFileData, // Keep for backward compatibility
-          attachedFileId: additionalData.attachedFileId,
-          attachedFileUrl: additionalData.attachedFileUrl,
-          suspendedDate: additionalData.suspendedDate,
-          suspensionReason: additionalData.suspensionReason,
-          cancelledDate: additionalData.cancelledDate,
-          cancellationReason: additionalData.cancellationReason,
-          reactivatedDate: additionalData.reactivatedDate,
-          notes: typeof additionalData.notes === 'string' ? additionalData.notes : dbContract.notes || "",
-          historyLog: additionalData.historyLog || [],
-          autoMonthlyVisitsEnabled: additionalData.autoMonthlyVisitsEnabled ?? true,
         };
       });
       setContracts(mappedContracts);
     } else {
       setContracts([]);
     }
-  }, [dbContracts, sortOrder]);
+  }, [dbContracts, dbContractDevices, dbContractHistory, sortOrder]);
+
+  // The details dialog follows the URL (/contracts/<id>), so contract links open it
+  const { recordId: linkedContractId, openRecord: openContract, closeRecord: closeContract } = useRecordRoute("contracts");
+  useEffect(() => {
+    if (!linkedContractId) {
+      setIsViewDialogOpen(false);
+      return;
+    }
+
+    const contract = contracts.find((c) => c.recordId === linkedContractId);
+    if (contract) {
+      setSelectedContract(contract);
+      setIsViewDialogOpen(true);
+      return;
+    }
+
+    // Not in the list (yet): only give up when the contract does not exist
+    let cancelled = false;
+    void supabase
+      .from("contracts")
+      .select("contract_id")
+      .eq("contract_id", linkedContractId)
+      .is("deleted_at", null)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (!cancelled && (error || !data)) {
+          toast.error(translateCurrent("contracts.notFound"));
+          closeContract();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedContractId, contracts, closeContract]);
 
   // Map DB customers to Customer interface
   const customers: Customer[] = useMemo(() => {
@@ -290,6 +339,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
   // Form states
   const [formData, setFormData] = useState({
     contractDate: new Date().toISOString().split('T')[0],
+    contractEndDate: "",
     monthlyVisitStartDate: new Date().toISOString().split('T')[0],
     clientName: "",
     clientCr: "",
@@ -301,8 +351,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
     monthlyAmount: "",
     semiAnnualAmount: "",
     annualAmount: "",
-    devicesCount: "",
-    deviceTypes: "",
+    devices: [] as ContractDeviceLine[],
     emergencyVisitFee: "500",
     paymentPlan: "monthly" as "monthly" | "semi-annual" | "annual",
     clientPhone: "",
@@ -360,39 +409,31 @@ export function Contracts({ systemLogo }: ContractsProps) {
       XLSX.utils.book_append_sheet(wb, ws, "Contracts");
       const fileName = `contracts_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
 
   const handleAddContract = async () => {
     if (!selectedCustomerId && !formData.clientName.trim()) {
-      toast.error("Please select a customer or enter client name");
+      toast.error(t("contracts.clientRequired"));
       return;
     }
 
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const initialLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Created',
-      description: 'Contract created',
-      user: currentUser,
-      timestamp,
-      details: `Contract created with status: Draft`
-    };
-
     // Get customer_id
     const customerId = selectedCustomerId 
       ? dbCustomers[selectedCustomerId - 1]?.customer_id 
       : null;
 
     if (!customerId) {
-      toast.error("Please select a customer from the list");
+      toast.error(t("contracts.selectCustomer"));
+      return;
+    }
+
+    if (formData.contractEndDate && formData.contractEndDate <= formData.contractDate) {
+      toast.error(t("contracts.endBeforeStart"));
       return;
     }
 
@@ -412,61 +453,88 @@ export function Contracts({ systemLogo }: ContractsProps) {
       contractAmount = parseFloat(formData.annualAmount) || 0;
     }
 
-    // Prepare additional data to store in notes field as JSON
-    const additionalData = {
-      monthlyVisitStartDate: formData.monthlyVisitStartDate,
-      clientName: formData.clientName,
-      clientCr: formData.clientCr,
-      clientCity: formData.clientCity,
-      clientRepresentative: formData.clientRepresentative,
-      clientDesignation: formData.clientDesignation,
-      postalCode: formData.postalCode,
-      monthlyAmount: parseFloat(formData.monthlyAmount) || 0,
-      semiAnnualAmount: parseFloat(formData.semiAnnualAmount) || 0,
-      annualAmount: parseFloat(formData.annualAmount) || 0,
-      devicesCount: formData.devicesCount,
-      deviceTypes: formData.deviceTypes,
-      emergencyVisitFee: parseFloat(formData.emergencyVisitFee) || 500,
-      paymentPlan: formData.paymentPlan,
-      clientPhone: formData.clientPhone,
-      clientEmail: formData.clientEmail,
-      notes: formData.notes,
-      assignedDelegateId: selectedDelegateId,
-      assignedDelegateName: hasRepresentative ? formData.clientRepresentative : undefined,
-      historyLog: [initialLog],
-      autoMonthlyVisitsEnabled: formData.autoMonthlyVisitsEnabled,
-    };
-
-    // Prepare database contract
-    const contractNumber = `CNT-2025-${String(dbContracts.length + 1).padStart(3, "0")}`;
+    // Prepare database contract (the contract number is assigned by the database on insert)
     const dbContractPayload: Partial<DbContract> = {
-      contract_number: contractNumber,
+      ...contractDetailsToColumns({
+        ...formData,
+        monthlyAmount: parseFloat(formData.monthlyAmount) || 0,
+        semiAnnualAmount: parseFloat(formData.semiAnnualAmount) || 0,
+        annualAmount: parseFloat(formData.annualAmount) || 0,
+        emergencyVisitFee: parseFloat(formData.emergencyVisitFee) || 500,
+      }),
       contract_status: "draft",
       contract_amount: contractAmount,
       contract_start_date: formData.contractDate,
-      contract_end_date: null,
+      contract_end_date: formData.contractEndDate || null,
       contract_duration_interval: contractDurationMap[formData.paymentPlan],
       customer_id: customerId,
-      location: formData.serviceAddress,
-      notes: JSON.stringify(additionalData),
-      delegate_id: null,
+      delegate_id: selectedDelegateId,
+      source_quotation_id: sourceQuotation?.id ?? null,
     };
 
     try {
-      await dispatch(thunks.contracts.createOne(dbContractPayload)).unwrap();
+      const created = (await dispatch(thunks.contracts.createOne(dbContractPayload)).unwrap()) as DbContract;
+      await saveContractDevices(created.contract_id, formData.devices);
+      await dispatch(
+        thunks.contract_history.createOne(
+          contractHistoryEntry(
+            created.contract_id,
+            "Created",
+            "Contract created",
+            sourceQuotation
+              ? `Contract created from quotation ${sourceQuotation.number} with status: Draft`
+              : "Contract created with status: Draft"
+          )
+        )
+      ).unwrap();
+      if (sourceQuotation) {
+        try {
+          await markQuotationConverted(sourceQuotation.id, { contractId: created.contract_id });
+          dispatch(thunks.quotations.fetchAll({ orderBy: 'created_at.desc' }));
+        } catch (quotationError) {
+          console.error('Failed to link the quotation to the contract', quotationError);
+          toast.error(t("contracts.quotationNotConverted", { number: sourceQuotation.number }));
+        }
+      }
       dispatch(thunks.contracts.fetchAll(undefined));
+      dispatch(thunks.contract_devices.fetchAll(undefined));
       setIsAddDialogOpen(false);
       resetForm();
-      toast.success("Contract created successfully!");
+      toast.success(t("contracts.created", { number: created.contract_number }));
     } catch (error: any) {
       console.error('Failed to create contract:', error);
-      toast.error(`Failed to create contract: ${error.message || 'Unknown error'}`);
+      toast.error(t("contracts.createFailed", { message: error.message || t("common.unknownError") }));
+    }
+  };
+
+  /**
+   * Update a contract's columns and log the action in its history
+   */
+  const updateContractRecord = async (
+    recordId: string,
+    values: Partial<DbContract>,
+    log: { action: string; description: string; details?: string }
+  ) => {
+    const dbContract = dbContracts.find((c) => c.contract_id === recordId);
+    if (!dbContract) {
+      throw new Error("Contract not found in database");
+    }
+    const upgraded = await upgradeLegacyContract(dbContract, dbContractDevices, dbContractHistory);
+    await dispatch(thunks.contracts.updateOne({ id: recordId, values: { ...upgraded, ...values } })).unwrap();
+    await dispatch(
+      thunks.contract_history.createOne(contractHistoryEntry(recordId, log.action, log.description, log.details))
+    ).unwrap();
+    dispatch(thunks.contracts.fetchAll(undefined));
+    dispatch(thunks.contract_history.fetchAll(undefined));
+    if (Object.keys(upgraded).length > 0) {
+      dispatch(thunks.contract_devices.fetchAll(undefined));
     }
   };
 
   const resetForm = () => {
     setFormData({
       contractDate: new Date().toISOString().split('T')[0],
+      contractEndDate: "",
       monthlyVisitStartDate: new Date().toISOString().split('T')[0],
       clientName: "",
       clientCr: "",
@@ -478,8 +546,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
       monthlyAmount: "",
       semiAnnualAmount: "",
       annualAmount: "",
-      devicesCount: "",
-      deviceTypes: "",
+      devices: [],
       emergencyVisitFee: "500",
       paymentPlan: "monthly",
       clientPhone: "",
@@ -490,6 +557,51 @@ export function Contracts({ systemLogo }: ContractsProps) {
     setSelectedCustomerId(undefined);
     setHasRepresentative(false);
     setSelectedDelegateId(null);
+    setSourceQuotation(null);
+  };
+
+  // Prefill the new contract from a quotation being converted. The quotation total before VAT becomes
+  // the monthly amount; the plan and dates are left to the user.
+  useEffect(() => {
+    if (!pendingQuotationData) return;
+    resetForm();
+    const customerIdx = pendingQuotationData.customerId
+      ? dbCustomers.findIndex((c) => c.customer_id === pendingQuotationData.customerId)
+      : -1;
+    const dbCustomer = customerIdx >= 0 ? dbCustomers[customerIdx] : undefined;
+    const delegateId = pendingQuotationData.delegateId ?? dbCustomer?.delegate_id ?? null;
+    const location = pendingQuotationData.location;
+    setSelectedCustomerId(customerIdx >= 0 ? customerIdx + 1 : undefined);
+    setSelectedDelegateId(delegateId);
+    setHasRepresentative(!!delegateId);
+    setSourceQuotation({ id: pendingQuotationData.sourceQuotationId, number: pendingQuotationData.quotationNumber });
+    setFormData((prev) => ({
+      ...prev,
+      clientName: pendingQuotationData.customerName,
+      clientCr: pendingQuotationData.commercialRegister,
+      clientCity: location ? location.split(",")[0].trim() : "",
+      serviceAddress: location,
+      clientPhone: pendingQuotationData.mobile,
+      clientEmail: pendingQuotationData.email,
+      clientRepresentative: delegateId
+        ? dbDelegates.find((delegate) => delegate.delegate_id === delegateId)?.delegate_name ?? ""
+        : "",
+      monthlyAmount: pendingQuotationData.totalBeforeVat > 0
+        ? String(Math.round(pendingQuotationData.totalBeforeVat * 100) / 100)
+        : "",
+      notes: `Based on quotation ${pendingQuotationData.quotationNumber}${
+        pendingQuotationData.notes ? `\n${pendingQuotationData.notes}` : ""
+      }`,
+    }));
+    setIsAddDialogOpen(true);
+    toast.success(translateCurrent("contracts.quotationLoaded", { number: pendingQuotationData.quotationNumber }));
+    onQuotationDataConsumed?.();
+  }, [pendingQuotationData, onQuotationDataConsumed, dbCustomers, dbDelegates]);
+
+  // A quotation is only linked to the contract created from it
+  const handleAddDialogOpenChange = (open: boolean) => {
+    setIsAddDialogOpen(open);
+    if (!open) setSourceQuotation(null);
   };
 
   // Handle customer selection from dropdown
@@ -537,30 +649,27 @@ export function Contracts({ systemLogo }: ContractsProps) {
 
   // Note: adding new customers from this screen has been disabled; use the main customers module instead.
 
-  const handleSendContract = (contract: Contract) => {
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const sendLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Sent',
-      description: 'Contract sent to client',
-      user: currentUser,
-      timestamp,
-      details: `Sent via ${contract.clientEmail ? 'Email' : 'WhatsApp'}`
-    };
+  const handleSendContract = async (contract: Contract) => {
+    if (!contract.recordId) {
+      toast.error(t("contracts.notFoundInDatabase"));
+      return;
+    }
 
-    setContracts(contracts.map((c) =>
-      c.id === contract.id
-        ? { 
-            ...c, 
-            sentDate: new Date().toISOString().split('T')[0],
-            historyLog: [...(c.historyLog || []), sendLog]
-          }
-        : c
-    ));
-    toast.success("Contract marked as sent!");
+    try {
+      await updateContractRecord(
+        contract.recordId,
+        { sent_date: new Date().toISOString().split('T')[0] },
+        {
+          action: 'Sent',
+          description: 'Contract sent to client',
+          details: `Sent via ${contract.clientEmail ? 'Email' : 'WhatsApp'}`,
+        }
+      );
+      toast.success(t("contracts.markedSent"));
+    } catch (error: any) {
+      console.error('Failed to update contract:', error);
+      toast.error(t("contracts.updateFailed", { message: error.message || t("common.unknownError") }));
+    }
   };
 
   const [isSignConfirmOpen, setIsSignConfirmOpen] = useState(false);
@@ -569,7 +678,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
   const handleSignContract = (contract: Contract) => {
     // Only allow signing if status is draft
     if (contract.status !== "draft") {
-      toast.error("Only draft contracts can be marked as signed");
+      toast.error(t("contracts.onlyDraftSign"));
       return;
     }
     setContractToSign(contract);
@@ -578,58 +687,31 @@ export function Contracts({ systemLogo }: ContractsProps) {
 
   const confirmSignContract = async () => {
     if (!contractToSign) return;
-    
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const signLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Signed',
-      description: 'Contract marked as signed',
-      user: currentUser,
-      timestamp,
-      details: `Contract status changed from ${contractToSign.status} to Signed`
-    };
 
-    // Find the database contract
-    const dbContract = dbContracts.find(c => c.contract_number === contractToSign.contractNumber);
-    if (!dbContract) {
-      toast.error("Contract not found in database");
+    if (!contractToSign.recordId) {
+      toast.error(t("contracts.notFoundInDatabase"));
       return;
     }
 
-    // Parse existing notes
-    let additionalData: any = {};
     try {
-      if (dbContract.notes) {
-        additionalData = JSON.parse(dbContract.notes);
-      }
-    } catch (e) {
-      additionalData = { notes: dbContract.notes };
-    }
-
-    // Update additional data
-    additionalData.signedDate = new Date().toISOString().split('T')[0];
-    additionalData.historyLog = [...(additionalData.historyLog || []), signLog];
-
-    // Update database contract
-    try {
-      await dispatch(thunks.contracts.updateOne({
-        id: dbContract.contract_id,
-        values: {
+      await updateContractRecord(
+        contractToSign.recordId,
+        {
           contract_status: "signed",
-          notes: JSON.stringify(additionalData),
+          signed_date: new Date().toISOString().split('T')[0],
+        },
+        {
+          action: 'Signed',
+          description: 'Contract marked as signed',
+          details: `Contract status changed from ${contractToSign.status} to Signed`,
         }
-      })).unwrap();
-      
-      dispatch(thunks.contracts.fetchAll(undefined));
+      );
       setIsSignConfirmOpen(false);
       setContractToSign(null);
-      toast.success("Contract marked as signed!");
+      toast.success(t("contracts.markedSigned"));
     } catch (error: any) {
       console.error('Failed to update contract:', error);
-      toast.error(`Failed to update contract: ${error.message || 'Unknown error'}`);
+      toast.error(t("contracts.updateFailed", { message: error.message || t("common.unknownError") }));
     }
   };
 
@@ -639,7 +721,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
   const handleAttachContract = (contract: Contract) => {
     // Only allow attaching if status is signed
     if (contract.status !== "signed") {
-      toast.error("Only signed contracts can have files attached");
+      toast.error(t("contracts.onlySignedAttach"));
       return;
     }
     setContractToAttach(contract);
@@ -659,24 +741,20 @@ export function Contracts({ systemLogo }: ContractsProps) {
 
     // Validate file type
     if (!file.name.match(/\.(pdf|jpg|jpeg|png)$/i)) {
-      toast.error("Please upload a PDF, JPG, or PNG file");
+      toast.error(t("contracts.fileType"));
       return;
     }
 
     // Validate file size (10 MB max for contracts)
     if (file.size > 10 * 1024 * 1024) {
-      toast.error("File size must be less than 10 MB");
+      toast.error(t("contracts.fileSize"));
       return;
     }
 
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
     // Find the database contract
     const dbContract = dbContracts.find(c => c.contract_number === selectedContract.contractNumber);
     if (!dbContract) {
-      toast.error("Contract not found in database");
+      toast.error(t("contracts.notFoundInDatabase"));
       return;
     }
 
@@ -715,69 +793,41 @@ export function Contracts({ systemLogo }: ContractsProps) {
         uploadResult.fileMetadata.is_public
       ));
 
-      const attachLog: HistoryLog = {
-        id: Date.now(),
-        action: 'Attached',
-        description: 'Signed contract file attached',
-        user: currentUser,
-        timestamp,
-        details: `File name: ${file.name}. Contract status changed to Active`
-      };
-      
       const activationDate = new Date().toISOString().split('T')[0];
       const visitStartDate = selectedContract.monthlyVisitStartDate || activationDate;
 
-      // Parse existing notes
-      let additionalData: any = {};
-      try {
-        if (dbContract.notes) {
-          additionalData = JSON.parse(dbContract.notes);
-        }
-      } catch (e) {
-        additionalData = { notes: dbContract.notes };
-      }
-
-      // Update additional data - store file metadata ID instead of base64
-      additionalData.attachedDate = activationDate;
-      additionalData.attachedFileName = file.name;
-      additionalData.attachedFileId = uploadResult.fileMetadata.id; // Store file metadata ID
-      additionalData.attachedFileUrl = fileUrl; // Store file URL for quick access
-      additionalData.monthlyVisitStartDate = visitStartDate;
-      additionalData.historyLog = [...(additionalData.historyLog || []), attachLog];
-
       // Update contract status to Active
-      await dispatch(thunks.contracts.updateOne({
-        id: dbContract.contract_id,
-        values: {
+      await updateContractRecord(
+        dbContract.contract_id,
+        {
           contract_status: "active",
-          notes: JSON.stringify(additionalData),
+          attached_date: activationDate,
+          attached_file_name: file.name,
+          attached_file_id: uploadResult.fileMetadata.id,
+          attached_file_url: fileUrl,
+          monthly_visit_start_date: visitStartDate,
+        },
+        {
+          action: 'Attached',
+          description: 'Signed contract file attached',
+          details: `File name: ${file.name}. Contract status changed to Active`,
         }
-      })).unwrap();
-      
-      dispatch(thunks.contracts.fetchAll(undefined));
+      );
       
       // Auto-create first monthly visit only if automatic visits are enabled
-      if (additionalData.autoMonthlyVisitsEnabled !== false) {
+      if (selectedContract.autoMonthlyVisitsEnabled !== false) {
         const nextVisitDate = await generateMonthlyVisit(dbContract, visitStartDate);
-        const formattedDate = nextVisitDate
-          ? new Date(nextVisitDate).toLocaleDateString("en-GB")
-          : null;
-
         toast.success(
-          `Contract attached and activated! File: ${file.name}. ${
-            formattedDate
-              ? `First monthly visit scheduled for ${formattedDate}.`
-              : "Visit already scheduled for this contract."
-          }`
+          nextVisitDate
+            ? t("contracts.attachedVisitScheduled", { file: file.name, date: formatDate(nextVisitDate) })
+            : t("contracts.attachedVisitExists", { file: file.name })
         );
       } else {
-        toast.success(
-          `Contract attached and activated! File: ${file.name}. Automatic monthly visits are disabled for this contract.`
-        );
+        toast.success(t("contracts.attachedNoVisits", { file: file.name }));
       }
     } catch (error: any) {
       console.error('Failed to upload contract file:', error);
-      toast.error(`Failed to upload contract file: ${error.message || 'Unknown error'}`);
+      toast.error(t("contracts.uploadFailed", { message: error.message || t("common.unknownError") }));
     } finally {
       // Reset file input
       if (fileInputRef.current) {
@@ -912,156 +962,116 @@ export function Contracts({ systemLogo }: ContractsProps) {
 
     await dispatch(thunks.monthly_visits.createOne(visitPayload)).unwrap();
 
-    // Generate automatic invoice if contract is active and automatic invoicing is enabled
-    if (dbContract.contract_status?.toLowerCase() === 'active') {
-      try {
-        // Parse contract additional data to get payment plan information
-        let contractAdditionalData: any = {};
-        try {
-          if (dbContract.notes) {
-            contractAdditionalData = JSON.parse(dbContract.notes);
-          }
-        } catch (e) {
-          // If notes is not JSON, use defaults
-        }
-
-        const paymentPlan = contractAdditionalData.paymentPlan || "monthly";
-        const monthlyAmount = contractAdditionalData.monthlyAmount || 0;
-        const semiAnnualAmount = contractAdditionalData.semiAnnualAmount || 0;
-        const annualAmount = contractAdditionalData.annualAmount || 0;
-
-        // Generate automatic invoice
-        await generateAutomaticInvoice(
-          dbContract.customer_id,
-          dbContract.contract_id,
-          visitDateIso,
-          paymentPlan as "monthly" | "semi-annual" | "annual",
-          monthlyAmount,
-          semiAnnualAmount,
-          annualAmount,
-          dispatch,
-          thunks
-        );
-      } catch (error) {
-        // Log error but don't fail the visit creation
-        console.error('Failed to generate automatic invoice for monthly visit:', error);
-      }
-    }
-
+    // Its invoice is created by the scheduled recurring-billing job when it falls due
     return visitDateIso;
   };
 
-  const handleSuspendContract = () => {
+  const handleSuspendContract = async () => {
     if (!selectedContract || !suspensionReason.trim()) {
-      toast.error("Please provide a suspension reason");
+      toast.error(t("contracts.suspensionReasonRequired"));
+      return;
+    }
+    if (!selectedContract.recordId) {
+      toast.error(t("contracts.notFoundInDatabase"));
       return;
     }
-    
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const suspendLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Suspended',
-      description: 'Contract suspended',
-      user: currentUser,
-      timestamp,
-      details: `Reason: ${suspensionReason}`
-    };
 
-    setContracts(contracts.map((c) =>
-      c.id === selectedContract.id
-        ? {
-            ...c,
-            status: "suspended",
-            suspendedDate: new Date().toISOString().split('T')[0],
-            suspensionReason: suspensionReason,
-            historyLog: [...(c.historyLog || []), suspendLog]
-          }
-        : c
-    ));
-    setIsSuspendDialogOpen(false);
-    setSuspensionReason("");
-    toast.success("Contract suspended successfully!");
+    try {
+      await updateContractRecord(
+        selectedContract.recordId,
+        {
+          contract_status: "suspended",
+          suspended_date: new Date().toISOString().split('T')[0],
+          suspension_reason: suspensionReason.trim(),
+        },
+        {
+          action: 'Suspended',
+          description: 'Contract suspended',
+          details: `Reason: ${suspensionReason.trim()}`,
+        }
+      );
+      setIsSuspendDialogOpen(false);
+      setSuspensionReason("");
+      toast.success(t("contracts.suspended"));
+    } catch (error: any) {
+      console.error('Failed to suspend contract:', error);
+      toast.error(t("contracts.suspendFailed", { message: error.message || t("common.unknownError") }));
+    }
   };
 
-  const handleCancelContract = () => {
+  const handleCancelContract = async () => {
     if (!selectedContract || !cancellationReason.trim()) {
-      toast.error("Please provide a cancellation reason");
+      toast.error(t("contracts.cancellationReasonRequired"));
+      return;
+    }
+    if (!selectedContract.recordId) {
+      toast.error(t("contracts.notFoundInDatabase"));
       return;
     }
-    
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const cancelLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Cancelled',
-      description: 'Contract cancelled',
-      user: currentUser,
-      timestamp,
-      details: `Reason: ${cancellationReason}`
-    };
 
-    setContracts(contracts.map((c) =>
-      c.id === selectedContract.id
-        ? {
-            ...c,
-            status: "cancelled",
-            cancelledDate: new Date().toISOString().split('T')[0],
-            cancellationReason: cancellationReason,
-            historyLog: [...(c.historyLog || []), cancelLog]
-          }
-        : c
-    ));
-    setIsCancelDialogOpen(false);
-    setCancellationReason("");
-    toast.success("Contract cancelled successfully!");
+    try {
+      await updateContractRecord(
+        selectedContract.recordId,
+        {
+          contract_status: "cancelled",
+          cancelled_date: new Date().toISOString().split('T')[0],
+          cancellation_reason: cancellationReason.trim(),
+        },
+        {
+          action: 'Cancelled',
+          description: 'Contract cancelled',
+          details: `Reason: ${cancellationReason.trim()}`,
+        }
+      );
+      setIsCancelDialogOpen(false);
+      setCancellationReason("");
+      toast.success(t("contracts.cancelled"));
+    } catch (error: any) {
+      console.error('Failed to cancel contract:', error);
+      toast.error(t("contracts.cancelFailed", { message: error.message || t("common.unknownError") }));
+    }
   };
 
-  const handleReactivateContract = (contract: Contract) => {
+  const handleReactivateContract = async (contract: Contract) => {
+    if (!contract.recordId) {
+      toast.error(t("contracts.notFoundInDatabase"));
+      return;
+    }
     const today = new Date().toISOString().split('T')[0];
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const reactivateLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Reactivated',
-      description: 'Contract reactivated',
-      user: currentUser,
-      timestamp,
-      details: `Contract reactivated from ${contract.status} status. Monthly visit start date updated to ${today}`
-    };
 
-    setContracts(contracts.map((c) =>
-      c.id === contract.id
-        ? {
-            ...c,
-            status: "active",
-            reactivatedDate: today,
-            monthlyVisitStartDate: today,
-            suspendedDate: undefined,
-            suspensionReason: undefined,
-            cancelledDate: undefined,
-            cancellationReason: undefined,
-            historyLog: [...(c.historyLog || []), reactivateLog]
-          }
-        : c
-    ));
-    toast.success("Contract reactivated successfully!");
+    try {
+      await updateContractRecord(
+        contract.recordId,
+        {
+          contract_status: "active",
+          reactivated_date: today,
+          monthly_visit_start_date: today,
+          suspended_date: null,
+          suspension_reason: null,
+          cancelled_date: null,
+          cancellation_reason: null,
+        },
+        {
+          action: 'Reactivated',
+          description: 'Contract reactivated',
+          details: `Contract reactivated from ${contract.status} status. Monthly visit start date updated to ${today}`,
+        }
+      );
+      toast.success(t("contracts.reactivated"));
+    } catch (error: any) {
+      console.error('Failed to reactivate contract:', error);
+      toast.error(t("contracts.reactivateFailed", { message: error.message || t("common.unknownError") }));
+    }
   };
 
   const handleDeleteContract = async (contract: Contract) => {
     if (!contract.recordId) {
-      toast.error("Unable to delete contract: missing contract identifier.");
+      toast.error(t("contracts.deleteMissingId"));
       return;
     }
 
     const confirmed = window.confirm(
-      "Are you sure you want to delete this contract? This action cannot be undone."
+      t("contracts.deleteConfirm")
     );
 
     if (!confirmed) return;
@@ -1069,10 +1079,10 @@ export function Contracts({ systemLogo }: ContractsProps) {
     try {
       await dispatch(thunks.contracts.deleteOne(contract.recordId)).unwrap();
       setContracts((prev) => prev.filter((c) => c.recordId !== contract.recordId));
-      toast.success("Contract deleted successfully!");
+      toast.success(t("contracts.deleted"));
     } catch (error: any) {
       console.error("Failed to delete contract:", error);
-      toast.error(`Failed to delete contract: ${error?.message ?? "Unknown error"}`);
+      toast.error(t("contracts.deleteFailed", { message: error?.message ?? t("common.unknownError") }));
     }
   };
 
@@ -1081,33 +1091,47 @@ export function Contracts({ systemLogo }: ContractsProps) {
     setIsEditDialogOpen(true);
   };
 
-  const handleSaveEdit = () => {
+  const handleSaveEdit = async () => {
     if (!editingContract) return;
-    
-    const currentUser = localStorage.getItem('userName') || 'System Admin';
-    const now = new Date();
-    const timestamp = now.toISOString();
-    
-    const editLog: HistoryLog = {
-      id: Date.now(),
-      action: 'Edited',
-      description: 'Contract information updated',
-      user: currentUser,
-      timestamp,
-      details: 'Contract details were modified'
-    };
+    if (!editingContract.recordId) {
+      toast.error(t("contracts.notFoundInDatabase"));
+      return;
+    }
+    if (editingContract.endDate && editingContract.endDate <= editingContract.contractDate) {
+      toast.error(t("contracts.endBeforeStart"));
+      return;
+    }
 
-    const updatedContract = {
-      ...editingContract,
-      historyLog: [...(editingContract.historyLog || []), editLog]
-    };
-    
-    setContracts(contracts.map((c) =>
-      c.id === updatedContract.id ? updatedContract : c
-    ));
-    setIsEditDialogOpen(false);
-    setEditingContract(null);
-    toast.success("Contract updated successfully!");
+    try {
+      await updateContractRecord(
+        editingContract.recordId,
+        {
+          contract_start_date: editingContract.contractDate,
+          contract_end_date: editingContract.endDate || null,
+          ...contractDetailsToColumns({
+            ...editingContract,
+            clientPhone: editingContract.clientPhone ?? "",
+            clientEmail: editingContract.clientEmail ?? "",
+            monthlyVisitStartDate: editingContract.monthlyVisitStartDate ?? "",
+            autoMonthlyVisitsEnabled: editingContract.autoMonthlyVisitsEnabled !== false,
+            notes: editingContract.notes ?? "",
+          }),
+        },
+        {
+          action: 'Edited',
+          description: 'Contract information updated',
+          details: 'Contract details were modified',
+        }
+      );
+      await saveContractDevices(editingContract.recordId, editingContract.devices);
+      dispatch(thunks.contract_devices.fetchAll(undefined));
+      setIsEditDialogOpen(false);
+      setEditingContract(null);
+      toast.success(t("contracts.updated"));
+    } catch (error: any) {
+      console.error('Failed to update contract:', error);
+      toast.error(t("contracts.updateFailed", { message: error.message || t("common.unknownError") }));
+    }
   };
 
   const handleWhatsAppSend = (contract: Contract) => {
@@ -1132,12 +1156,29 @@ export function Contracts({ systemLogo }: ContractsProps) {
 
     // Load logo from Settings if not provided
     const logoToUse = systemLogo || (await getPrintLogo()) || undefined;
-    const html = generateContractHTML(contract, logoToUse);
+    const html = generateContractHTML(contract, logoToUse, await getCompanyInfo());
     printWindow.document.write(html);
     printWindow.document.close();
     printWindow.print();
   };
 
+  const handleDownloadContractPdf = async (contract: Contract) => {
+    if (!contract.recordId) return;
+    const toastId = toast.loading(t("contracts.pdfGenerating"));
+    try {
+      const logoToUse = systemLogo || (await getPrintLogo()) || undefined;
+      await downloadDocumentPdf({
+        documentType: "contract",
+        ownerId: contract.recordId,
+        documentNumber: contract.contractNumber,
+        html: generateContractHTML(contract, logoToUse, await getCompanyInfo()),
+      });
+      toast.success(t("contracts.pdfReady"), { id: toastId });
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("contracts.pdfFailed"), { id: toastId });
+    }
+  };
+
   const handlePrintAttachedContract = async (contract: Contract) => {
     // Use file URL if available, otherwise fall back to base64 (for old contracts)
     let fileUrl = contract.attachedFileUrl || contract.attachedFileData;
@@ -1161,7 +1202,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
     }
 
     if (!fileUrl) {
-      toast.error("No attached contract file found");
+      toast.error(t("contracts.noAttachedFile"));
       return;
     }
 
@@ -1221,7 +1262,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
       .replace(/{{emergency_visit_fee}}/g, contract.emergencyVisitFee.toLocaleString());
   };
 
-  const generateContractHTML = (contract: Contract, logoToUse?: string) => {
+  const generateContractHTML = (contract: Contract, logoToUse: string | undefined, companyInfo: CompanyBranding | null) => {
+    const companyCommercialRegister = companyInfo?.company_commercial_register || "2051245473";
     return `
       <!DOCTYPE html>
       <html>
@@ -1361,8 +1403,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
           <div class="arabic-section">
             <div class="party-info">
               <div class="party-label">الطرف الأول:</div>
-              <div>شركة مانا الذكية للتجارة</div>
-              <div>سجل تجاري رقم (2051245473)</div>
+              <div>${getCompanyNameArabic(companyInfo)}</div>
+              <div>سجل تجاري رقم (${companyCommercialRegister})</div>
               <div>المقر الرئيسي: الخبر</div>
               <div>ويشار إليها لاحقًا بـ "المزود"</div>
             </div>
@@ -1377,8 +1419,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
           <div class="english-section">
             <div class="party-info">
               <div class="party-label">First Party:</div>
-              <div>Mana Smart Trading Company</div>
-              <div>Commercial Registration No. (2051245473)</div>
+              <div>${getCompanyName(companyInfo)}</div>
+              <div>Commercial Registration No. (${companyCommercialRegister})</div>
               <div>Headquartered in Khobar</div>
               <div>Hereinafter referred to as the "Provider"</div>
             </div>
@@ -1794,7 +1836,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
             <div class="arabic-section">
               <div class="signature-box">
                 <div class="party-label">الطرف الأول (المزود):</div>
-                <div>شركة مانا الذكية للتجارة</div>
+                <div>${getCompanyNameArabic(companyInfo)}</div>
                 <div>يمثلها: المهندس زياد عبدﷲ الغامدي</div>
                 <div>الصفة: المدير التنفيذي</div>
                 <div class="signature-line"></div>
@@ -1804,7 +1846,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
             <div class="english-section">
               <div class="signature-box">
                 <div class="party-label">First Party (Provider):</div>
-                <div>Mana Smart Trading Company</div>
+                <div>${getCompanyName(companyInfo)}</div>
                 <div>Represented by: Eng. Ziad Abdullah Al Ghamdi</div>
                 <div>Designation: Executive Director</div>
                 <div class="signature-line"></div>
@@ -1858,18 +1900,18 @@ export function Contracts({ systemLogo }: ContractsProps) {
       
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Contracts - العقود</h2>
-          <p className="text-muted-foreground mt-1">Manage service agreements</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("contracts.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("contracts.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <ImportExcelButton section="Contracts" />
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button onClick={() => setIsAddDialogOpen(true)} className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
             <Plus className="h-4 w-4" />
-            New Contract
+            {t("contracts.new")}
           </Button>
         </div>
       </div>
@@ -1879,40 +1921,40 @@ export function Contracts({ systemLogo }: ContractsProps) {
         <CardContent className="pt-6">
           <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-end pt-6">
             <div className="flex flex-col gap-2">
-              <Label>Status</Label>
+              <Label>{t("common.status")}</Label>
               <Select value={filterStatus} onValueChange={setFilterStatus}>
                 <SelectTrigger className="w-[220px]">
-                  <SelectValue placeholder="All statuses" />
+                  <SelectValue placeholder={t("contracts.allStatuses")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="draft">Draft</SelectItem>
-                  <SelectItem value="active">Active</SelectItem>
-                  <SelectItem value="signed">Signed</SelectItem>
-                  <SelectItem value="attached">Attached</SelectItem>
-                  <SelectItem value="suspended">Suspended</SelectItem>
-                  <SelectItem value="expired">Expired</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="all">{t("contracts.allStatuses")}</SelectItem>
+                  <SelectItem value="draft">{t("status.draft")}</SelectItem>
+                  <SelectItem value="active">{t("status.active")}</SelectItem>
+                  <SelectItem value="signed">{t("status.signed")}</SelectItem>
+                  <SelectItem value="attached">{t("status.attached")}</SelectItem>
+                  <SelectItem value="suspended">{t("status.suspended")}</SelectItem>
+                  <SelectItem value="expired">{t("status.expired")}</SelectItem>
+                  <SelectItem value="cancelled">{t("status.cancelled")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div className="flex flex-col gap-2">
-              <Label>Sort Order</Label>
+              <Label>{t("contracts.sortOrder")}</Label>
               <Select value={sortOrder} onValueChange={(value: "asc" | "desc") => setSortOrder(value)}>
                 <SelectTrigger className="w-[220px]">
-                  <SelectValue placeholder="Sort order" />
+                  <SelectValue placeholder={t("contracts.sortOrder")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="desc">Newest First</SelectItem>
-                  <SelectItem value="asc">Oldest First</SelectItem>
+                  <SelectItem value="desc">{t("contracts.newestFirst")}</SelectItem>
+                  <SelectItem value="asc">{t("contracts.oldestFirst")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div className="flex flex-col gap-2 flex-1">
-              <Label htmlFor="search">Search</Label>
+              <Label htmlFor="search">{t("contracts.search")}</Label>
               <Input
                 id="search"
-                placeholder="Search by contract number or client..."
+                placeholder={t("contracts.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(event) => setSearchQuery(event.target.value)}
                 className="w-full lg:w-[320px]"
@@ -1922,27 +1964,29 @@ export function Contracts({ systemLogo }: ContractsProps) {
         </CardContent>
       </Card>
 
+      <ContractRenewalPipeline contracts={dbContracts} />
+
       {/* Contracts Table */}
       <Card>
         <CardHeader>
-          <CardTitle>All Contracts</CardTitle>
+          <CardTitle>{t("contracts.all")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Contract #</TableHead>
-                  <TableHead>Client</TableHead>
-                  <TableHead>Contact</TableHead>
-                  <TableHead>Contract Date</TableHead>
-                  <TableHead>Visit Start</TableHead>
-                  <TableHead>Payment Plan</TableHead>
-                  <TableHead>Amount</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Suspend/Cancel Date</TableHead>
-                  <TableHead className="text-center">Quick Send</TableHead>
-                  <TableHead className="text-center">Actions</TableHead>
+                  <TableHead>{t("contracts.number")}</TableHead>
+                  <TableHead>{t("contracts.client")}</TableHead>
+                  <TableHead>{t("contracts.contact")}</TableHead>
+                  <TableHead>{t("contracts.contractDate")}</TableHead>
+                  <TableHead>{t("contracts.visitStart")}</TableHead>
+                  <TableHead>{t("contracts.paymentPlan")}</TableHead>
+                  <TableHead>{t("contracts.amount")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("contracts.suspendCancelDate")}</TableHead>
+                  <TableHead className="text-center">{t("contracts.quickSend")}</TableHead>
+                  <TableHead className="text-center">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -1951,7 +1995,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     <TableCell colSpan={10} className="p-0">
                       <div className="flex flex-col items-center justify-center py-12">
                         <FileText className="h-12 w-12 text-muted-foreground mb-3" />
-                        <p className="text-muted-foreground">No contracts found</p>
+                        <p className="text-muted-foreground">{t("contracts.empty")}</p>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -1972,45 +2016,41 @@ export function Contracts({ systemLogo }: ContractsProps) {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <div className="text-sm">{new Date(contract.contractDate).toLocaleDateString('en-GB')}</div>
+                      <div className="text-sm">{formatDate(contract.contractDate)}</div>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
                         {contract.monthlyVisitStartDate 
-                          ? new Date(contract.monthlyVisitStartDate).toLocaleDateString('en-GB')
+                          ? formatDate(contract.monthlyVisitStartDate)
                           : <span className="text-muted-foreground">-</span>
                         }
                       </div>
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline" className="text-xs">
-                        {contract.paymentPlan === "monthly" && "Monthly"}
-                        {contract.paymentPlan === "semi-annual" && "Semi-Annual (6+1)"}
-                        {contract.paymentPlan === "annual" && "Annual (12+2)"}
+                        {paymentPlanLabel(contract.paymentPlan)}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm font-semibold text-green-600">
-                        {contract.paymentPlan === "monthly" && `${contract.monthlyAmount.toLocaleString()} ر.س`}
-                        {contract.paymentPlan === "semi-annual" && `${contract.semiAnnualAmount.toLocaleString()} ر.س`}
-                        {contract.paymentPlan === "annual" && `${contract.annualAmount.toLocaleString()} ر.س`}
+                        {formatCurrency(planAmount(contract))}
                       </div>
                     </TableCell>
                     <TableCell>
                       <Badge className={statusColors[contract.status]}>
-                        {contract.status.charAt(0).toUpperCase() + contract.status.slice(1)}
+                        {t(`status.${contract.status}`)}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
                         {contract.suspendedDate && (
                           <div className="text-yellow-600">
-                            Susp: {new Date(contract.suspendedDate).toLocaleDateString('en-GB')}
+                            {t("contracts.suspendedOn", { date: formatDate(contract.suspendedDate) })}
                           </div>
                         )}
                         {contract.cancelledDate && (
                           <div className="text-red-600">
-                            Cancel: {new Date(contract.cancelledDate).toLocaleDateString('en-GB')}
+                            {t("contracts.cancelledOn", { date: formatDate(contract.cancelledDate) })}
                           </div>
                         )}
                         {!contract.suspendedDate && !contract.cancelledDate && (
@@ -2025,7 +2065,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                           size="sm"
                           onClick={() => handleWhatsAppSend(contract)}
                           disabled={!contract.clientPhone}
-                          title="Send via WhatsApp"
+                          title={t("contracts.sendWhatsApp")}
                         >
                           <MessageSquare className="h-4 w-4 text-green-600" />
                         </Button>
@@ -2034,7 +2074,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                           size="sm"
                           onClick={() => handleEmailSend(contract)}
                           disabled={!contract.clientEmail}
-                          title="Send via Email"
+                          title={t("contracts.sendEmail")}
                         >
                           <Mail className="h-4 w-4 text-blue-600" />
                         </Button>
@@ -2049,12 +2089,20 @@ export function Contracts({ systemLogo }: ContractsProps) {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end" className="w-56">
-                            <DropdownMenuLabel>Contract Actions</DropdownMenuLabel>
+                            <DropdownMenuLabel>{t("contracts.actions")}</DropdownMenuLabel>
                             <DropdownMenuSeparator />
+
+                            <DropdownMenuItem
+                              onClick={() => contract.recordId && openContract(contract.recordId)}
+                              disabled={!contract.recordId}
+                            >
+                              <Eye className="me-2 h-4 w-4" />
+                              {t("contracts.viewDetails")}
+                            </DropdownMenuItem>
                             
                             <DropdownMenuItem onClick={() => handleEditContract(contract)}>
-                              <Edit className="mr-2 h-4 w-4" />
-                              Edit Contract
+                              <Edit className="me-2 h-4 w-4" />
+                              {t("contracts.edit")}
                             </DropdownMenuItem>
                             
                             <DropdownMenuItem 
@@ -2063,8 +2111,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
                                 setIsNotesDialogOpen(true);
                               }}
                             >
-                              <StickyNote className="mr-2 h-4 w-4" />
-                              View Notes
+                              <StickyNote className="me-2 h-4 w-4" />
+                              {t("contracts.viewNotes")}
                             </DropdownMenuItem>
                             
                             <DropdownMenuItem 
@@ -2073,8 +2121,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
                                 setIsHistoryDialogOpen(true);
                               }}
                             >
-                              <History className="mr-2 h-4 w-4 text-blue-600" />
-                              View History Log
+                              <History className="me-2 h-4 w-4 text-blue-600" />
+                              {t("contracts.viewHistory")}
                             </DropdownMenuItem>
                             
                             <DropdownMenuSeparator />
@@ -2083,29 +2131,45 @@ export function Contracts({ systemLogo }: ContractsProps) {
                               onClick={() => handleSignContract(contract)}
                               disabled={contract.status !== "draft"}
                             >
-                              <CheckCircle className="mr-2 h-4 w-4 text-blue-600" />
-                              Mark as Signed
+                              <CheckCircle className="me-2 h-4 w-4 text-blue-600" />
+                              {t("contracts.markSigned")}
+                            </DropdownMenuItem>
+
+                            <DropdownMenuItem 
+                              onClick={() => setSignatureContract(contract)}
+                              disabled={contract.status !== "draft" || !contract.recordId}
+                            >
+                              <FileSignature className="me-2 h-4 w-4 text-blue-600" />
+                              {t("contracts.sendForSignature")}
                             </DropdownMenuItem>
                             
                             <DropdownMenuItem 
                               onClick={() => handleAttachContract(contract)}
                               disabled={contract.status !== "signed"}
                             >
-                              <Upload className="mr-2 h-4 w-4 text-purple-600" />
-                              Attach Signed File
+                              <Upload className="me-2 h-4 w-4 text-purple-600" />
+                              {t("contracts.attachSigned")}
                             </DropdownMenuItem>
                             
                             <DropdownMenuSeparator />
                             
                             <DropdownMenuItem onClick={() => handlePrintContract(contract)}>
-                              <Printer className="mr-2 h-4 w-4" />
-                              Print Contract
+                              <Printer className="me-2 h-4 w-4" />
+                              {t("contracts.print")}
+                            </DropdownMenuItem>
+
+                            <DropdownMenuItem
+                              onClick={() => void handleDownloadContractPdf(contract)}
+                              disabled={!contract.recordId}
+                            >
+                              <FileText className="me-2 h-4 w-4" />
+                              {t("contracts.downloadPdf")}
                             </DropdownMenuItem>
                             
                             {(contract.attachedFileUrl || contract.attachedFileData || contract.attachedFileId) && (
                               <DropdownMenuItem onClick={() => handlePrintAttachedContract(contract)}>
-                                <Download className="mr-2 h-4 w-4 text-purple-600" />
-                                Print Attached File
+                                <Download className="me-2 h-4 w-4 text-purple-600" />
+                                {t("contracts.printAttached")}
                               </DropdownMenuItem>
                             )}
                             
@@ -2118,8 +2182,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
                               }}
                               disabled={contract.status === "cancelled" || contract.status === "suspended" || contract.status === "draft"}
                             >
-                              <PauseCircle className="mr-2 h-4 w-4 text-yellow-600" />
-                              Suspend Contract
+                              <PauseCircle className="me-2 h-4 w-4 text-yellow-600" />
+                              {t("contracts.suspend")}
                             </DropdownMenuItem>
                             
                             <DropdownMenuItem 
@@ -2129,14 +2193,14 @@ export function Contracts({ systemLogo }: ContractsProps) {
                               }}
                               disabled={contract.status === "cancelled"}
                             >
-                              <XCircle className="mr-2 h-4 w-4 text-red-600" />
-                              Cancel Contract
+                              <XCircle className="me-2 h-4 w-4 text-red-600" />
+                              {t("contracts.cancel")}
                             </DropdownMenuItem>
                             
                             {(contract.status === "suspended" || contract.status === "cancelled") && (
                               <DropdownMenuItem onClick={() => handleReactivateContract(contract)}>
-                                <PlayCircle className="mr-2 h-4 w-4 text-green-600" />
-                                Reactivate Contract
+                                <PlayCircle className="me-2 h-4 w-4 text-green-600" />
+                                {t("contracts.reactivate")}
                               </DropdownMenuItem>
                             )}
                             
@@ -2146,8 +2210,8 @@ export function Contracts({ systemLogo }: ContractsProps) {
                               onClick={() => handleDeleteContract(contract)}
                               className="text-red-600"
                             >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              Delete Contract
+                              <Trash2 className="me-2 h-4 w-4" />
+                              {t("contracts.delete")}
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -2162,17 +2226,17 @@ export function Contracts({ systemLogo }: ContractsProps) {
       </Card>
 
       {/* Add Contract Dialog */}
-      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+      <Dialog open={isAddDialogOpen} onOpenChange={handleAddDialogOpenChange}>
         <DialogContent className="max-w-3xl">
           <DialogHeader>
-            <DialogTitle>New Service Agreement</DialogTitle>
-            <DialogDescription>Create a new aromatic service contract</DialogDescription>
+            <DialogTitle>{t("contracts.addTitle")}</DialogTitle>
+            <DialogDescription>{t("contracts.addDescription")}</DialogDescription>
           </DialogHeader>
 
           <div className="space-y-6">
             <div className="grid grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="contractDate">Contract Date</Label>
+                <Label htmlFor="contractDate">{t("contracts.contractDate")}</Label>
                 <Input
                   id="contractDate"
                   type="date"
@@ -2181,7 +2245,17 @@ export function Contracts({ systemLogo }: ContractsProps) {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="monthlyVisitStartDate">Monthly Visit Start Date</Label>
+                <Label htmlFor="contractEndDate">{t("contracts.endDate")}</Label>
+                <Input
+                  id="contractEndDate"
+                  type="date"
+                  min={formData.contractDate}
+                  value={formData.contractEndDate}
+                  onChange={(e) => setFormData({ ...formData, contractEndDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="monthlyVisitStartDate">{t("contracts.visitStartDate")}</Label>
                 <Input
                   id="monthlyVisitStartDate"
                   type="date"
@@ -2190,7 +2264,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="paymentPlan">Payment Plan</Label>
+                <Label htmlFor="paymentPlan">{t("contracts.paymentPlan")}</Label>
                 <Select
                   value={formData.paymentPlan}
                   onValueChange={(value: "monthly" | "semi-annual" | "annual") =>
@@ -2201,16 +2275,16 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="monthly">Monthly</SelectItem>
-                    <SelectItem value="semi-annual">Semi-Annual (6+1)</SelectItem>
-                    <SelectItem value="annual">Annual (12+2)</SelectItem>
+                    <SelectItem value="monthly">{t("contracts.planMonthly")}</SelectItem>
+                    <SelectItem value="semi-annual">{t("contracts.planSemiAnnual")}</SelectItem>
+                    <SelectItem value="annual">{t("contracts.planAnnual")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
             </div>
 
             <div className="space-y-4">
-              <h3 className="font-semibold">Client Information</h3>
+              <h3 className="font-semibold">{t("contracts.clientInformation")}</h3>
               
               {/* Customer Selector */}
               <div className="space-y-2">
@@ -2219,24 +2293,24 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   selectedCustomerId={selectedCustomerId}
                   onCustomerSelect={handleCustomerSelect}
                   hideQuickAdd
-                  label="Select Customer (or enter manually)"
-                  placeholder="Search customer by name, company, or mobile..."
+                  label={t("contracts.customerSelectorLabel")}
+                  placeholder={t("contracts.customerSelectorPlaceholder")}
                   required={false}
                 />
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="clientName">Client Name</Label>
+                  <Label htmlFor="clientName">{t("contracts.clientName")}</Label>
                   <Input
                     id="clientName"
                     value={formData.clientName}
                     onChange={(e) => setFormData({ ...formData, clientName: e.target.value })}
-                    placeholder="Company Name"
+                    placeholder={t("customers.companyPlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="clientCr">CR Number</Label>
+                  <Label htmlFor="clientCr">{t("contracts.crNumber")}</Label>
                   <Input
                     id="clientCr"
                     value={formData.clientCr}
@@ -2245,16 +2319,16 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="clientCity">City</Label>
+                  <Label htmlFor="clientCity">{t("contracts.city")}</Label>
                   <Input
                     id="clientCity"
                     value={formData.clientCity}
                     onChange={(e) => setFormData({ ...formData, clientCity: e.target.value })}
-                    placeholder="Riyadh"
+                    placeholder={t("contracts.cityPlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="postalCode">Postal Code</Label>
+                  <Label htmlFor="postalCode">{t("contracts.postalCode")}</Label>
                   <Input
                     id="postalCode"
                     value={formData.postalCode}
@@ -2263,30 +2337,30 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="clientRepresentative">Representative</Label>
+                  <Label htmlFor="clientRepresentative">{t("contracts.representative")}</Label>
                   <Input
                     id="clientRepresentative"
                     value={formData.clientRepresentative}
                     onChange={(e) => setFormData({ ...formData, clientRepresentative: e.target.value })}
-                    placeholder="Ahmed Al-Salem"
+                    placeholder={t("contracts.representativePlaceholder")}
                   />
                   {hasRepresentative && (
                     <p className="text-xs text-muted-foreground mt-1">
-                      Representative available
+                      {t("contracts.representativeAvailable")}
                     </p>
                   )}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="clientDesignation">Designation</Label>
+                  <Label htmlFor="clientDesignation">{t("contracts.designation")}</Label>
                   <Input
                     id="clientDesignation"
                     value={formData.clientDesignation}
                     onChange={(e) => setFormData({ ...formData, clientDesignation: e.target.value })}
-                    placeholder="General Manager"
+                    placeholder={t("contracts.designationPlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="clientPhone">Phone Number</Label>
+                  <Label htmlFor="clientPhone">{t("contracts.phoneNumber")}</Label>
                   <Input
                     id="clientPhone"
                     value={formData.clientPhone}
@@ -2295,7 +2369,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="clientEmail">Email</Label>
+                  <Label htmlFor="clientEmail">{t("common.email")}</Label>
                   <Input
                     id="clientEmail"
                     type="email"
@@ -2306,22 +2380,22 @@ export function Contracts({ systemLogo }: ContractsProps) {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="serviceAddress">Service Address</Label>
+                <Label htmlFor="serviceAddress">{t("contracts.serviceAddress")}</Label>
                 <Textarea
                   id="serviceAddress"
                   value={formData.serviceAddress}
                   onChange={(e) => setFormData({ ...formData, serviceAddress: e.target.value })}
-                  placeholder="Full service address"
+                  placeholder={t("contracts.serviceAddressPlaceholder")}
                   rows={2}
                 />
               </div>
             </div>
 
             <div className="space-y-4">
-              <h3 className="font-semibold">Pricing - Based on Selected Payment Plan</h3>
+              <h3 className="font-semibold">{t("contracts.pricing")}</h3>
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm mb-3">
                 <p className="text-blue-800">
-                  <strong>Note:</strong> Only the pricing input for your selected payment plan is enabled. Fill in the amount for the selected plan above.
+                  <strong>{t("contracts.note")}</strong> {t("contracts.pricingNote")}
                 </p>
               </div>
               <div className="flex items-center gap-2 mb-2">
@@ -2335,13 +2409,13 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   className="h-4 w-4 rounded border-gray-300 text-blue-100 focus:ring-blue-500"
                 />
                 <Label htmlFor="autoMonthlyVisitsEnabled" className="cursor-pointer">
-                  Enable automatic monthly visits before 7 days
+                  {t("contracts.autoVisits")}
                 </Label>
               </div>
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="monthlyAmount" className={formData.paymentPlan === 'monthly' ? 'text-green-600 font-semibold' : ''}>
-                    Monthly Amount (SAR) {formData.paymentPlan === 'monthly' && '✓'}
+                    {t("contracts.monthlyAmount")} {formData.paymentPlan === 'monthly' && '✓'}
                   </Label>
                   <Input
                     id="monthlyAmount"
@@ -2355,7 +2429,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="semiAnnualAmount" className={formData.paymentPlan === 'semi-annual' ? 'text-green-600 font-semibold' : ''}>
-                    Semi-Annual (6+1) (SAR) {formData.paymentPlan === 'semi-annual' && '✓'}
+                    {t("contracts.semiAnnualAmount")} {formData.paymentPlan === 'semi-annual' && '✓'}
                   </Label>
                   <Input
                     id="semiAnnualAmount"
@@ -2369,7 +2443,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="annualAmount" className={formData.paymentPlan === 'annual' ? 'text-green-600 font-semibold' : ''}>
-                    Annual (12+2) (SAR) {formData.paymentPlan === 'annual' && '✓'}
+                    {t("contracts.annualAmount")} {formData.paymentPlan === 'annual' && '✓'}
                   </Label>
                   <Input
                     id="annualAmount"
@@ -2385,97 +2459,99 @@ export function Contracts({ systemLogo }: ContractsProps) {
             </div>
 
             <div className="space-y-4">
-              <h3 className="font-semibold">Devices</h3>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="devicesCount">Number of Devices</Label>
-                  <Input
-                    id="devicesCount"
-                    value={formData.devicesCount}
-                    onChange={(e) => setFormData({ ...formData, devicesCount: e.target.value })}
-                    placeholder="5"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="deviceTypes">Device Types</Label>
-                  <Input
-                    id="deviceTypes"
-                    value={formData.deviceTypes}
-                    onChange={(e) => setFormData({ ...formData, deviceTypes: e.target.value })}
-                    placeholder="Pro: 2, Ultra: 3"
-                  />
-                </div>
-              </div>
+              <h3 className="font-semibold">{t("contracts.devices")}</h3>
+              <ContractDevicesEditor
+                idPrefix="device"
+                devices={formData.devices}
+                onChange={(devices) => setFormData({ ...formData, devices })}
+              />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="notes">Contract Notes</Label>
+              <Label htmlFor="notes">{t("contracts.notes")}</Label>
               <Textarea
                 id="notes"
                 value={formData.notes}
                 onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                placeholder="Add any notes about this contract..."
+                placeholder={t("contracts.notesPlaceholder")}
                 rows={3}
               />
             </div>
 
             <div className="flex justify-end gap-3 pt-4 border-t">
-              <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                Cancel
+              <Button variant="outline" onClick={() => handleAddDialogOpenChange(false)}>
+                {t("common.cancel")}
               </Button>
-              <Button onClick={handleAddContract} className="bg-purple-600 hover:bg-purple-700 text-white">Create Contract</Button>
+              <Button onClick={handleAddContract} className="bg-purple-600 hover:bg-purple-700 text-white">{t("contracts.create")}</Button>
             </div>
           </div>
         </DialogContent>
       </Dialog>
 
       {/* View Contract Dialog */}
-      <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+      <Dialog
+        open={isViewDialogOpen}
+        onOpenChange={(open) => {
+          setIsViewDialogOpen(open);
+          if (!open) closeContract();
+        }}
+      >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Contract Details</DialogTitle>
-            <DialogDescription>View contract information and print</DialogDescription>
+            <DialogTitle>{t("contracts.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("contracts.detailsDescription")}</DialogDescription>
           </DialogHeader>
           {selectedContract && (
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Contract #:</span>
-                  <p className="font-medium">{selectedContract.contractNumber}</p>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Client:</span>
-                  <p className="font-medium">{selectedContract.clientName}</p>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Date:</span>
-                  <p className="font-medium">{new Date(selectedContract.contractDate).toLocaleDateString('en-GB')}</p>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Payment Plan:</span>
-                  <p className="font-medium capitalize">{selectedContract.paymentPlan.replace('-', ' ')}</p>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Devices:</span>
-                  <p className="font-medium">{selectedContract.devicesCount}</p>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Status:</span>
-                  <Badge className={statusColors[selectedContract.status]}>
-                    {selectedContract.status}
-                  </Badge>
+            <Tabs defaultValue="details" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="details">{t("contracts.detailsTab")}</TabsTrigger>
+                <TabsTrigger value="history">{t("contracts.historyTab")}</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details">
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">{t("contracts.numberLabel")}</span>
+                      <p className="font-medium">{selectedContract.contractNumber}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">{t("contracts.clientLabel")}</span>
+                      <p className="font-medium">{selectedContract.clientName}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">{t("contracts.dateLabel")}</span>
+                      <p className="font-medium">{formatDate(selectedContract.contractDate)}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">{t("contracts.paymentPlanLabel")}</span>
+                      <p className="font-medium">{paymentPlanLabel(selectedContract.paymentPlan)}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">{t("contracts.devicesLabel")}</span>
+                      <p className="font-medium">{selectedContract.devicesCount}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">{t("contracts.statusLabel")}</span>
+                      <Badge className={statusColors[selectedContract.status]}>
+                        {t(`status.${selectedContract.status}`)}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-3 pt-4 border-t">
+                    <Button variant="outline" onClick={closeContract}>
+                      {t("common.close")}
+                    </Button>
+                    <Button onClick={() => handlePrintContract(selectedContract)} className="gap-2">
+                      <Printer className="h-4 w-4" />
+                      {t("contracts.print")}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-              <div className="flex justify-end gap-3 pt-4 border-t">
-                <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-                  Close
-                </Button>
-                <Button onClick={() => handlePrintContract(selectedContract)} className="gap-2">
-                  <Printer className="h-4 w-4" />
-                  Print Contract
-                </Button>
-              </div>
-            </div>
+              </TabsContent>
+              <TabsContent value="history">
+                <RecordHistory table="contracts" rowId={selectedContract.recordId} />
+              </TabsContent>
+            </Tabs>
           )}
         </DialogContent>
       </Dialog>
@@ -2484,19 +2560,19 @@ export function Contracts({ systemLogo }: ContractsProps) {
       <Dialog open={isSuspendDialogOpen} onOpenChange={setIsSuspendDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Suspend Contract</DialogTitle>
+            <DialogTitle>{t("contracts.suspend")}</DialogTitle>
             <DialogDescription>
-              Please provide a reason for suspending this contract
+              {t("contracts.suspendDescription")}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="suspensionReason">Suspension Reason</Label>
+              <Label htmlFor="suspensionReason">{t("contracts.suspensionReason")}</Label>
               <Textarea
                 id="suspensionReason"
                 value={suspensionReason}
                 onChange={(e) => setSuspensionReason(e.target.value)}
-                placeholder="Enter reason for suspension..."
+                placeholder={t("contracts.suspensionReasonPlaceholder")}
                 rows={4}
               />
             </div>
@@ -2508,10 +2584,10 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   setSuspensionReason("");
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleSuspendContract} variant="destructive">
-                Suspend Contract
+                {t("contracts.suspend")}
               </Button>
             </div>
           </div>
@@ -2522,19 +2598,19 @@ export function Contracts({ systemLogo }: ContractsProps) {
       <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Cancel Contract</DialogTitle>
+            <DialogTitle>{t("contracts.cancel")}</DialogTitle>
             <DialogDescription>
-              Please provide a reason for cancelling this contract. This action cannot be undone.
+              {t("contracts.cancelDescription")}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="cancellationReason">Cancellation Reason</Label>
+              <Label htmlFor="cancellationReason">{t("contracts.cancellationReason")}</Label>
               <Textarea
                 id="cancellationReason"
                 value={cancellationReason}
                 onChange={(e) => setCancellationReason(e.target.value)}
-                placeholder="Enter reason for cancellation..."
+                placeholder={t("contracts.cancellationReasonPlaceholder")}
                 rows={4}
               />
             </div>
@@ -2546,10 +2622,10 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   setCancellationReason("");
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleCancelContract} variant="destructive">
-                Cancel Contract
+                {t("contracts.cancel")}
               </Button>
             </div>
           </div>
@@ -2561,14 +2637,14 @@ export function Contracts({ systemLogo }: ContractsProps) {
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>Edit Contract</DialogTitle>
-              <DialogDescription>Update contract information</DialogDescription>
+              <DialogTitle>{t("contracts.edit")}</DialogTitle>
+              <DialogDescription>{t("contracts.editDescription")}</DialogDescription>
             </DialogHeader>
 
             <div className="space-y-6">
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-contractDate">Contract Date</Label>
+                  <Label htmlFor="edit-contractDate">{t("contracts.contractDate")}</Label>
                   <Input
                     id="edit-contractDate"
                     type="date"
@@ -2577,7 +2653,17 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-monthlyVisitStartDate">Monthly Visit Start Date</Label>
+                  <Label htmlFor="edit-contractEndDate">{t("contracts.endDate")}</Label>
+                  <Input
+                    id="edit-contractEndDate"
+                    type="date"
+                    min={editingContract.contractDate}
+                    value={editingContract.endDate || ""}
+                    onChange={(e) => setEditingContract({ ...editingContract, endDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-monthlyVisitStartDate">{t("contracts.visitStartDate")}</Label>
                   <Input
                     id="edit-monthlyVisitStartDate"
                     type="date"
@@ -2586,7 +2672,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-paymentPlan">Payment Plan</Label>
+                  <Label htmlFor="edit-paymentPlan">{t("contracts.paymentPlan")}</Label>
                   <Select
                     value={editingContract.paymentPlan}
                     onValueChange={(value: "monthly" | "semi-annual" | "annual") =>
@@ -2597,19 +2683,19 @@ export function Contracts({ systemLogo }: ContractsProps) {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                      <SelectItem value="semi-annual">Semi-Annual (6+1)</SelectItem>
-                      <SelectItem value="annual">Annual (12+2)</SelectItem>
+                      <SelectItem value="monthly">{t("contracts.planMonthly")}</SelectItem>
+                      <SelectItem value="semi-annual">{t("contracts.planSemiAnnual")}</SelectItem>
+                      <SelectItem value="annual">{t("contracts.planAnnual")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div className="space-y-4">
-                <h3 className="font-semibold">Client Information</h3>
+                <h3 className="font-semibold">{t("contracts.clientInformation")}</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="edit-clientName">Client Name</Label>
+                    <Label htmlFor="edit-clientName">{t("contracts.clientName")}</Label>
                     <Input
                       id="edit-clientName"
                       value={editingContract.clientName}
@@ -2617,7 +2703,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="edit-clientCr">CR Number</Label>
+                    <Label htmlFor="edit-clientCr">{t("contracts.crNumber")}</Label>
                     <Input
                       id="edit-clientCr"
                       value={editingContract.clientCr}
@@ -2625,7 +2711,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="edit-clientCity">City</Label>
+                    <Label htmlFor="edit-clientCity">{t("contracts.city")}</Label>
                     <Input
                       id="edit-clientCity"
                       value={editingContract.clientCity}
@@ -2633,7 +2719,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="edit-postalCode">Postal Code</Label>
+                    <Label htmlFor="edit-postalCode">{t("contracts.postalCode")}</Label>
                     <Input
                       id="edit-postalCode"
                       value={editingContract.postalCode}
@@ -2641,7 +2727,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="edit-clientPhone">Phone Number</Label>
+                    <Label htmlFor="edit-clientPhone">{t("contracts.phoneNumber")}</Label>
                     <Input
                       id="edit-clientPhone"
                       value={editingContract.clientPhone || ""}
@@ -2649,7 +2735,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="edit-clientEmail">Email</Label>
+                    <Label htmlFor="edit-clientEmail">{t("common.email")}</Label>
                     <Input
                       id="edit-clientEmail"
                       type="email"
@@ -2661,32 +2747,26 @@ export function Contracts({ systemLogo }: ContractsProps) {
               </div>
 
               <div className="space-y-4">
-                <h3 className="font-semibold">Service Details</h3>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="edit-devicesCount">Number of Devices</Label>
-                    <Input
-                      id="edit-devicesCount"
-                      value={editingContract.devicesCount}
-                      onChange={(e) => setEditingContract({ ...editingContract, devicesCount: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="edit-deviceTypes">Device Types</Label>
-                    <Input
-                      id="edit-deviceTypes"
-                      value={editingContract.deviceTypes}
-                      onChange={(e) => setEditingContract({ ...editingContract, deviceTypes: e.target.value })}
-                    />
-                  </div>
-                </div>
+                <h3 className="font-semibold">{t("contracts.serviceDetails")}</h3>
+                <ContractDevicesEditor
+                  idPrefix="edit-device"
+                  devices={editingContract.devices}
+                  onChange={(devices) =>
+                    setEditingContract({
+                      ...editingContract,
+                      devices,
+                      devicesCount: String(countDevices(devices)),
+                      deviceTypes: formatDeviceTypes(devices),
+                    })
+                  }
+                />
               </div>
 
               <div className="space-y-4">
-                <h3 className="font-semibold">Pricing - Based on Selected Payment Plan</h3>
+                <h3 className="font-semibold">{t("contracts.pricing")}</h3>
                 <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm mb-3">
                   <p className="text-blue-800">
-                    <strong>Note:</strong> Only the pricing input for your selected payment plan is enabled. Fill in the amount for the selected plan above.
+                    <strong>{t("contracts.note")}</strong> {t("contracts.pricingNote")}
                   </p>
                 </div>
                 <div className="flex items-center gap-2 mb-2">
@@ -2703,13 +2783,13 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                   />
                   <Label htmlFor="edit-autoMonthlyVisitsEnabled" className="cursor-pointer">
-                    Enable automatic creation of monthly visits (next month’s visit scheduled automatically)
+                    {t("contracts.autoVisitsEdit")}
                   </Label>
                 </div>
                 <div className="grid grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="edit-monthlyAmount" className={editingContract.paymentPlan === 'monthly' ? 'text-green-600 font-semibold' : ''}>
-                      Monthly Amount (SAR) {editingContract.paymentPlan === 'monthly' && '✓'}
+                      {t("contracts.monthlyAmount")} {editingContract.paymentPlan === 'monthly' && '✓'}
                     </Label>
                     <Input
                       id="edit-monthlyAmount"
@@ -2722,7 +2802,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="edit-semiAnnualAmount" className={editingContract.paymentPlan === 'semi-annual' ? 'text-green-600 font-semibold' : ''}>
-                      Semi-Annual (6+1) (SAR) {editingContract.paymentPlan === 'semi-annual' && '✓'}
+                      {t("contracts.semiAnnualAmount")} {editingContract.paymentPlan === 'semi-annual' && '✓'}
                     </Label>
                     <Input
                       id="edit-semiAnnualAmount"
@@ -2735,7 +2815,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="edit-annualAmount" className={editingContract.paymentPlan === 'annual' ? 'text-green-600 font-semibold' : ''}>
-                      Annual (12+2) (SAR) {editingContract.paymentPlan === 'annual' && '✓'}
+                      {t("contracts.annualAmount")} {editingContract.paymentPlan === 'annual' && '✓'}
                     </Label>
                     <Input
                       id="edit-annualAmount"
@@ -2747,7 +2827,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="edit-emergencyVisitFee">Emergency Visit Fee (SAR)</Label>
+                    <Label htmlFor="edit-emergencyVisitFee">{t("contracts.emergencyVisitFee")}</Label>
                     <Input
                       id="edit-emergencyVisitFee"
                       type="number"
@@ -2759,22 +2839,22 @@ export function Contracts({ systemLogo }: ContractsProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-notes">Contract Notes</Label>
+                <Label htmlFor="edit-notes">{t("contracts.notes")}</Label>
                 <Textarea
                   id="edit-notes"
                   value={editingContract.notes || ""}
                   onChange={(e) => setEditingContract({ ...editingContract, notes: e.target.value })}
-                  placeholder="Add any notes about this contract..."
+                  placeholder={t("contracts.notesPlaceholder")}
                   rows={4}
                 />
               </div>
 
               <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button onClick={handleSaveEdit}>
-                  Save Changes
+                  {t("common.saveChanges")}
                 </Button>
               </div>
             </div>
@@ -2787,21 +2867,21 @@ export function Contracts({ systemLogo }: ContractsProps) {
         <Dialog open={isNotesDialogOpen} onOpenChange={setIsNotesDialogOpen}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Contract Notes & Details</DialogTitle>
+              <DialogTitle>{t("contracts.notesTitle")}</DialogTitle>
               <DialogDescription>
-                Contract #{selectedContract.contractNumber} - {selectedContract.clientName}
+                {t("contracts.numberAndClient", { number: selectedContract.contractNumber, client: selectedContract.clientName })}
               </DialogDescription>
             </DialogHeader>
 
             <div className="space-y-6">
               {/* General Notes */}
               <div className="space-y-2">
-                <Label className="text-base font-semibold">General Notes</Label>
+                <Label className="text-base font-semibold">{t("contracts.generalNotes")}</Label>
                 <div className="p-4 bg-muted rounded-lg">
                   {selectedContract.notes ? (
                     <p className="text-sm whitespace-pre-wrap">{selectedContract.notes}</p>
                   ) : (
-                    <p className="text-sm text-muted-foreground italic">No notes added</p>
+                    <p className="text-sm text-muted-foreground italic">{t("contracts.noNotes")}</p>
                   )}
                 </div>
               </div>
@@ -2809,17 +2889,17 @@ export function Contracts({ systemLogo }: ContractsProps) {
               {/* Suspension Details */}
               {selectedContract.suspendedDate && (
                 <div className="space-y-2">
-                  <Label className="text-base font-semibold text-yellow-600">Suspension Details</Label>
+                  <Label className="text-base font-semibold text-yellow-600">{t("contracts.suspensionDetails")}</Label>
                   <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                     <div className="space-y-2">
                       <div>
-                        <span className="font-medium">Suspended Date:</span>{" "}
-                        <span>{new Date(selectedContract.suspendedDate).toLocaleDateString('en-GB')}</span>
+                        <span className="font-medium">{t("contracts.suspendedDate")}</span>{" "}
+                        <span>{formatDate(selectedContract.suspendedDate)}</span>
                       </div>
                       <div>
-                        <span className="font-medium">Reason:</span>
+                        <span className="font-medium">{t("contracts.reason")}</span>
                         <p className="mt-1 text-sm whitespace-pre-wrap">
-                          {selectedContract.suspensionReason || "No reason provided"}
+                          {selectedContract.suspensionReason || t("contracts.noReason")}
                         </p>
                       </div>
                     </div>
@@ -2830,17 +2910,17 @@ export function Contracts({ systemLogo }: ContractsProps) {
               {/* Cancellation Details */}
               {selectedContract.cancelledDate && (
                 <div className="space-y-2">
-                  <Label className="text-base font-semibold text-red-600">Cancellation Details</Label>
+                  <Label className="text-base font-semibold text-red-600">{t("contracts.cancellationDetails")}</Label>
                   <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
                     <div className="space-y-2">
                       <div>
-                        <span className="font-medium">Cancelled Date:</span>{" "}
-                        <span>{new Date(selectedContract.cancelledDate).toLocaleDateString('en-GB')}</span>
+                        <span className="font-medium">{t("contracts.cancelledDate")}</span>{" "}
+                        <span>{formatDate(selectedContract.cancelledDate)}</span>
                       </div>
                       <div>
-                        <span className="font-medium">Reason:</span>
+                        <span className="font-medium">{t("contracts.reason")}</span>
                         <p className="mt-1 text-sm whitespace-pre-wrap">
-                          {selectedContract.cancellationReason || "No reason provided"}
+                          {selectedContract.cancellationReason || t("contracts.noReason")}
                         </p>
                       </div>
                     </div>
@@ -2851,17 +2931,17 @@ export function Contracts({ systemLogo }: ContractsProps) {
               {/* Reactivation Info */}
               {selectedContract.reactivatedDate && (
                 <div className="space-y-2">
-                  <Label className="text-base font-semibold text-green-600">Reactivation Info</Label>
+                  <Label className="text-base font-semibold text-green-600">{t("contracts.reactivationInfo")}</Label>
                   <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-                    <span className="font-medium">Reactivated Date:</span>{" "}
-                    <span>{new Date(selectedContract.reactivatedDate).toLocaleDateString('en-GB')}</span>
+                    <span className="font-medium">{t("contracts.reactivatedDate")}</span>{" "}
+                    <span>{formatDate(selectedContract.reactivatedDate)}</span>
                   </div>
                 </div>
               )}
 
               <div className="flex justify-end pt-4 border-t">
                 <Button onClick={() => setIsNotesDialogOpen(false)}>
-                  Close
+                  {t("common.close")}
                 </Button>
               </div>
             </div>
@@ -2876,14 +2956,14 @@ export function Contracts({ systemLogo }: ContractsProps) {
             <DialogHeader>
               <DialogTitle className="flex items-center gap-2">
                 <History className="h-5 w-5" />
-                Contract History Log
+                {t("contracts.historyTitle")}
               </DialogTitle>
               <DialogDescription>
-                Contract #{selectedContract.contractNumber} - {selectedContract.clientName}
+                {t("contracts.numberAndClient", { number: selectedContract.contractNumber, client: selectedContract.clientName })}
               </DialogDescription>
             </DialogHeader>
 
-            <ScrollArea className="h-[600px] pr-4">
+            <ScrollArea className="h-[600px] pe-4">
               {selectedContract.historyLog && selectedContract.historyLog.length > 0 ? (
                 <div className="space-y-4">
                   {/* Timeline */}
@@ -2892,7 +2972,6 @@ export function Contracts({ systemLogo }: ContractsProps) {
                       .slice()
                       .reverse()
                       .map((log, index) => {
-                        const date = new Date(log.timestamp);
                         const actionColors: Record<string, string> = {
                           'Created': 'bg-blue-500',
                           'Edited': 'bg-purple-500',
@@ -2908,7 +2987,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                           <div key={log.id} className="relative pb-8">
                             {/* Timeline line */}
                             {index !== selectedContract.historyLog!.length - 1 && (
-                              <div className="absolute left-4 top-8 bottom-0 w-0.5 bg-border" />
+                              <div className="absolute start-4 top-8 bottom-0 w-0.5 bg-border" />
                             )}
                             
                             {/* Timeline dot */}
@@ -2928,11 +3007,11 @@ export function Contracts({ systemLogo }: ContractsProps) {
                               <div className="flex-1 bg-muted rounded-lg p-4">
                                 <div className="flex items-start justify-between gap-4 mb-2">
                                   <div>
-                                    <h4 className="font-semibold text-base">{log.action}</h4>
+                                    <h4 className="font-semibold text-base">{historyActionLabels[log.action] ?? log.action}</h4>
                                     <p className="text-sm text-muted-foreground">{log.description}</p>
                                   </div>
                                   <Badge variant="outline" className="flex-shrink-0">
-                                    {log.action}
+                                    {historyActionLabels[log.action] ?? log.action}
                                   </Badge>
                                 </div>
 
@@ -2949,7 +3028,7 @@ export function Contracts({ systemLogo }: ContractsProps) {
                                   </div>
                                   <div className="flex items-center gap-1">
                                     <Clock className="h-3 w-3" />
-                                    <span>{date.toLocaleDateString('en-GB')} at {date.toLocaleTimeString()}</span>
+                                    <span>{formatDateTime(log.timestamp)}</span>
                                   </div>
                                 </div>
                               </div>
@@ -2962,9 +3041,9 @@ export function Contracts({ systemLogo }: ContractsProps) {
               ) : (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
                   <History className="h-12 w-12 text-muted-foreground mb-4" />
-                  <h3 className="font-semibold mb-2">No History Available</h3>
+                  <h3 className="font-semibold mb-2">{t("contracts.noHistory")}</h3>
                   <p className="text-sm text-muted-foreground">
-                    This contract doesn't have any history logs yet.
+                    {t("contracts.noHistoryDescription")}
                   </p>
                 </div>
               )}
@@ -2972,27 +3051,52 @@ export function Contracts({ systemLogo }: ContractsProps) {
 
             <div className="flex justify-end pt-4 border-t">
               <Button onClick={() => setIsHistoryDialogOpen(false)}>
-                Close
+                {t("common.close")}
               </Button>
             </div>
           </DialogContent>
         </Dialog>
       )}
 
+      {/* E-Signature Dialog */}
+      {signatureContract?.recordId && (
+        <SignatureRequestDialog
+          open={!!signatureContract}
+          onOpenChange={(open) => {
+            if (open) return;
+            setSignatureContract(null);
+            // The customer may have signed while the dialog was open
+            dispatch(thunks.contracts.fetchAll({ orderBy: 'created_at.desc' }));
+            dispatch(thunks.contract_history.fetchAll(undefined));
+          }}
+          documentType="contract"
+          documentId={signatureContract.recordId}
+          documentNumber={signatureContract.contractNumber}
+          recipient={{
+            name: signatureContract.clientName,
+            phone: signatureContract.clientPhone,
+            email: signatureContract.clientEmail,
+          }}
+          buildDocumentHtml={async () =>
+            generateContractHTML(signatureContract, systemLogo || (await getPrintLogo()) || undefined, await getCompanyInfo())
+          }
+        />
+      )}
+
       {/* Sign Contract Confirmation Dialog */}
       <Dialog open={isSignConfirmOpen} onOpenChange={setIsSignConfirmOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Confirm Mark as Signed</DialogTitle>
+            <DialogTitle>{t("contracts.signConfirmTitle")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to mark this contract as signed? This will change the status from Draft to Signed.
+              {t("contracts.signConfirmDescription")}
             </DialogDescription>
           </DialogHeader>
           {contractToSign && (
             <div className="space-y-4">
               <div className="p-3 bg-muted rounded-md">
-                <p className="text-sm font-medium">Contract: {contractToSign.contractNumber}</p>
-                <p className="text-sm text-muted-foreground">Client: {contractToSign.clientName}</p>
+                <p className="text-sm font-medium">{t("contracts.contractNumber", { number: contractToSign.contractNumber })}</p>
+                <p className="text-sm text-muted-foreground">{t("contracts.clientNameValue", { name: contractToSign.clientName })}</p>
               </div>
               <div className="flex justify-end gap-3">
                 <Button
@@ -3002,10 +3106,10 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     setContractToSign(null);
                   }}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button onClick={confirmSignContract} className="bg-purple-600 hover:bg-purple-700 text-white">
-                  Confirm & Mark as Signed
+                  {t("contracts.signConfirm")}
                 </Button>
               </div>
             </div>
@@ -3017,18 +3121,20 @@ export function Contracts({ systemLogo }: ContractsProps) {
       <Dialog open={isAttachConfirmOpen} onOpenChange={setIsAttachConfirmOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Confirm Attach Signed File</DialogTitle>
+            <DialogTitle>{t("contracts.attachConfirmTitle")}</DialogTitle>
             <DialogDescription>
-              Attaching a signed file will change the contract status from Signed to Active and automatically generate monthly visit schedules.
+              {t("contracts.attachConfirmDescription")}
             </DialogDescription>
           </DialogHeader>
           {contractToAttach && (
             <div className="space-y-4">
               <div className="p-3 bg-muted rounded-md">
-                <p className="text-sm font-medium">Contract: {contractToAttach.contractNumber}</p>
-                <p className="text-sm text-muted-foreground">Client: {contractToAttach.clientName}</p>
+                <p className="text-sm font-medium">{t("contracts.contractNumber", { number: contractToAttach.contractNumber })}</p>
+                <p className="text-sm text-muted-foreground">{t("contracts.clientNameValue", { name: contractToAttach.clientName })}</p>
                 <p className="text-xs text-muted-foreground mt-2">
-                  After attaching, the contract will become Active and monthly visits will be scheduled starting from {contractToAttach.monthlyVisitStartDate || 'the activation date'}.
+                  {contractToAttach.monthlyVisitStartDate
+                    ? t("contracts.attachVisitsFrom", { date: formatDate(contractToAttach.monthlyVisitStartDate) })
+                    : t("contracts.attachVisitsFromActivation")}
                 </p>
               </div>
               <div className="flex justify-end gap-3">
@@ -3039,10 +3145,10 @@ export function Contracts({ systemLogo }: ContractsProps) {
                     setContractToAttach(null);
                   }}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button onClick={confirmAttachContract} className="bg-purple-600 hover:bg-purple-700 text-white">
-                  Continue to Upload
+                  {t("contracts.continueUpload")}
                 </Button>
               </div>
             </div>
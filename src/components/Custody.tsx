@@ -18,6 +18,8 @@ import type { EmployeeCustodyItems, EmployeeCustodyItemsInsert } from "../../sup
 import type { Employees } from "../../supabase/models/employees";
 import { uploadFile, getFileUrl, getFilesByOwner } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 type CustodyStatus = "Active" | "Returned" | "Damaged" | "Lost";
 type CustodyCondition = "New" | "Good" | "Fair" | "Poor";
@@ -60,6 +62,33 @@ interface EmployeeCustodyJsonEntry {
 const DEFAULT_STATUS: CustodyStatus = "Active";
 const DEFAULT_CONDITION: CustodyCondition = "New";
 
+const STATUS_KEYS: Record<CustodyStatus, MessageKey> = {
+  Active: "custody.status.active",
+  Returned: "custody.status.returned",
+  Damaged: "custody.status.damaged",
+  Lost: "custody.status.lost",
+};
+
+const CONDITION_KEYS: Record<CustodyCondition, MessageKey> = {
+  New: "custody.condition.new",
+  Good: "custody.condition.good",
+  Fair: "custody.condition.fair",
+  Poor: "custody.condition.poor",
+};
+
+// Categories are stored in English; anything else is shown as entered
+const CATEGORY_KEYS: Record<string, MessageKey> = {
+  Laptop: "custody.category.laptop",
+  Mobile: "custody.category.mobile",
+  Tablet: "custody.category.tablet",
+  Monitor: "custody.category.monitor",
+  Printer: "custody.category.printer",
+  Vehicle: "custody.category.vehicle",
+  "Access Card": "custody.category.accessCard",
+  Keys: "custody.category.keys",
+  Other: "custody.category.other",
+};
+
 // Generate custody number in AST-YYYY-XXX format
 const formatCustodyNumber = (item: EmployeeCustodyItems, sequence: number): string => {
   const date = item.item_date_issued ? new Date(item.item_date_issued) : 
@@ -134,13 +163,6 @@ const normalizeCondition = (condition: string | null | undefined): CustodyCondit
   }
 };
 
-const formatDateDisplay = (value?: string) => {
-  if (!value) return "-";
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) return value;
-  return parsed.toLocaleDateString('en-GB');
-};
-
 const calculateDurationDays = (value?: string) => {
   if (!value) return null;
   const issued = new Date(value);
@@ -186,6 +208,7 @@ const getCategoryIcon = (category: string) => {
 
 export function Custody() {
   const dispatch = useAppDispatch();
+  const { t, formatCurrency, formatDate, localizedName } = useLocale();
   const custodyRaw = useAppSelector(selectors.employee_custody_items.selectAll) as EmployeeCustodyItems[];
   const employees = useAppSelector(selectors.employees.selectAll) as Employees[];
   const employeesLoading = useAppSelector(selectors.employees.selectLoading);
@@ -297,9 +320,9 @@ export function Custody() {
           serialNumber: item.item_serial_number ?? undefined,
           description: item.item_desc_en ?? "",
           descriptionAr: item.item_desc_ar ?? "",
-          employeeName: employee?.name_en ?? "Unassigned",
+          employeeName: localizedName(employee?.name_en, employee?.name_ar) || t("common.notAssigned"),
           employeeId: item.employee_id ?? "",
-          department: employee?.department ?? "General",
+          department: employee?.department ?? t("custody.generalDepartment"),
           dateIssued: item.item_date_issued ?? "",
           dateReturn: item.item_return_date ?? undefined,
           status: normalizeStatus(item.item_status),
@@ -317,7 +340,7 @@ export function Custody() {
         const bDate = b.record.created_at ? new Date(b.record.created_at).getTime() : 0;
         return bDate - aDate;
       });
-  }, [custodyRaw, employeesById, custodyImages, custodyNumberMap]);
+  }, [custodyRaw, employeesById, custodyImages, custodyNumberMap, t, localizedName]);
 
   const categories = useMemo(() => {
     return Array.from(new Set(custodyItems.map(item => item.category))).sort();
@@ -328,11 +351,11 @@ export function Custody() {
       .filter((emp) => !!emp.employee_id)
       .map((emp) => ({
         id: emp.employee_id,
-        name: emp.name_en ?? "Unnamed Employee",
-        department: emp.department ?? "General",
+        name: localizedName(emp.name_en, emp.name_ar) || t("leaves.unnamedEmployee"),
+        department: emp.department ?? t("custody.generalDepartment"),
       }))
       .sort((a, b) => a.name.localeCompare(b.name));
-  }, [employees]);
+  }, [employees, t, localizedName]);
 
   // Form states
   const [formItemName, setFormItemName] = useState("");
@@ -387,6 +410,11 @@ export function Custody() {
 
   const selectedItemDuration = selectedItem ? calculateDurationDays(selectedItem.dateIssued) : null;
 
+  const getCategoryLabel = (category: string) => {
+    const key = CATEGORY_KEYS[category];
+    return key ? t(key) : category;
+  };
+
   const syncEmployeeCustody = async (
     employeeId: string | null | undefined,
     overrideItems?: EmployeeCustodyItems[]
@@ -411,7 +439,7 @@ export function Custody() {
       ).unwrap();
     } catch (error) {
       console.error("Failed to sync custody items with employee record", error);
-      toast.error("Failed to link custody items to employee record");
+      toast.error(translateCurrent("custody.linkFailed"));
     }
   };
 
@@ -443,7 +471,7 @@ export function Custody() {
     if (!file) return;
 
     if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image size should be less than 5MB");
+      toast.error(t("custody.imageTooLarge"));
       return;
     }
     
@@ -489,13 +517,13 @@ export function Custody() {
   const handleSave = async () => {
     if (isSubmitting) return;
     if (!formItemName || !formItemNameAr || !formCategory || !formEmployee || !formEmployeeId || !formDepartment || !formDateIssued || !formValue) {
-      toast.error("Please fill all required fields");
+      toast.error(t("custody.requiredFields"));
       return;
     }
 
     const parsedValue = Number(formValue);
     if (!Number.isFinite(parsedValue)) {
-      toast.error("Please enter a valid numeric value");
+      toast.error(t("custody.invalidValue"));
       return;
     }
 
@@ -536,13 +564,13 @@ export function Custody() {
                 uploadResult.fileMetadata.is_public
               )) || formImage;
           } else {
-            toast.error(uploadResult.error || 'Failed to upload image');
+            toast.error(uploadResult.error || translateCurrent("custody.imageUploadFailed"));
             imageUrl = formImage;
           }
         }
       } catch (error: any) {
         console.error('Error uploading image:', error);
-        toast.error(error.message || 'Failed to upload image');
+        toast.error(error.message || translateCurrent("custody.imageUploadFailed"));
         imageUrl = formImage;
       } finally {
         setUploadingImage(false);
@@ -606,7 +634,7 @@ export function Custody() {
           await syncEmployeeCustody(previousEmployeeId, previousEmployeeList);
         }
 
-        toast.success("Custody item updated successfully!");
+        toast.success(translateCurrent("custody.updated"));
       } else {
         const createPayload: EmployeeCustodyItemsInsert = {
           ...basePayload,
@@ -673,14 +701,14 @@ export function Custody() {
           created,
         ];
         await syncEmployeeCustody(nextEmployeeId, updatedListForEmployee);
-        toast.success("Custody item added successfully!");
+        toast.success(translateCurrent("custody.added"));
       }
 
       setIsDialogOpen(false);
       resetForm();
     } catch (error: any) {
       console.error("Failed to save custody item", error);
-      const message = error?.message || error?.error?.message || "Failed to save custody item";
+      const message = error?.message || error?.error?.message || translateCurrent("custody.saveFailed");
       toast.error(message);
     } finally {
       setIsSubmitting(false);
@@ -695,10 +723,10 @@ export function Custody() {
         (custody) => custody.employee_id === item.employeeId && custody.custody_id !== item.custodyId
       );
       await syncEmployeeCustody(item.employeeId, remainingItems);
-      toast.success("Custody item deleted successfully!");
+      toast.success(translateCurrent("custody.deleted"));
     } catch (error: any) {
       console.error("Failed to delete custody item", error);
-      const message = error?.message || error?.error?.message || "Failed to delete custody item";
+      const message = error?.message || error?.error?.message || translateCurrent("custody.deleteFailed");
       toast.error(message);
     } finally {
       setDeletingId(null);
@@ -744,9 +772,9 @@ export function Custody() {
       XLSX.utils.book_append_sheet(wb, ws, "Custody");
       const fileName = `custody_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -756,17 +784,17 @@ export function Custody() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h2>Employee Custody - عهدة الموظفين</h2>
-          <p className="text-muted-foreground mt-1">Manage items assigned to employees</p>
+          <h2>{t("custody.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("custody.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button onClick={openAddDialog} className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
             <Plus className="h-4 w-4" />
-            New Custody Item
+            {t("custody.newItem")}
           </Button>
         </div>
       </div>
@@ -775,58 +803,58 @@ export function Custody() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Items</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("custody.totalItems")}</CardTitle>
             <Package className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-blue-600">{stats.totalItems}</div>
-            <p className="text-xs text-muted-foreground mt-1">All custody items</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("custody.allItems")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Active</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("custody.status.active")}</CardTitle>
             <Package className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-green-600">{stats.active}</div>
-            <p className="text-xs text-muted-foreground mt-1">With employees</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("custody.withEmployees")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Returned</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("custody.status.returned")}</CardTitle>
             <Package className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-blue-600">{stats.returned}</div>
-            <p className="text-xs text-muted-foreground mt-1">Back to inventory</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("custody.backToInventory")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Damaged</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("custody.status.damaged")}</CardTitle>
             <Package className="h-5 w-5 text-orange-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-orange-600">{stats.damaged}</div>
-            <p className="text-xs text-muted-foreground mt-1">Needs attention</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("custody.needsAttention")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Active Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("custody.activeValue")}</CardTitle>
             <DollarSign className="h-5 w-5 text-purple-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-purple-600">
-              {stats.totalValue.toLocaleString()}
+              {formatCurrency(stats.totalValue)}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">SAR - Current value</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("custody.currentValue")}</p>
           </CardContent>
         </Card>
       </div>
@@ -836,35 +864,35 @@ export function Custody() {
         <CardContent className="pt-6">
           <div className="flex gap-3">
             <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by item, employee, serial number..."
+                placeholder={t("custody.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
+                className="ps-10"
               />
             </div>
             <Select value={categoryFilter} onValueChange={setCategoryFilter}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="All Categories" />
+                <SelectValue placeholder={t("custody.allCategories")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
+                <SelectItem value="all">{t("custody.allCategories")}</SelectItem>
                 {categories.map(cat => (
-                  <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                  <SelectItem key={cat} value={cat}>{getCategoryLabel(cat)}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-[160px]">
-                <SelectValue placeholder="All Status" />
+                <SelectValue placeholder={t("common.allStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="Active">Active</SelectItem>
-                <SelectItem value="Returned">Returned</SelectItem>
-                <SelectItem value="Damaged">Damaged</SelectItem>
-                <SelectItem value="Lost">Lost</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="Active">{t(STATUS_KEYS.Active)}</SelectItem>
+                <SelectItem value="Returned">{t(STATUS_KEYS.Returned)}</SelectItem>
+                <SelectItem value="Damaged">{t(STATUS_KEYS.Damaged)}</SelectItem>
+                <SelectItem value="Lost">{t(STATUS_KEYS.Lost)}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -877,23 +905,23 @@ export function Custody() {
           {filteredItems.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Package className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No custody items found</p>
+              <p className="text-muted-foreground">{t("custody.empty")}</p>
             </div>
           ) : (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Custody #</TableHead>
-                    <TableHead>Item</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Employee</TableHead>
-                    <TableHead>Department</TableHead>
-                    <TableHead>Date Issued</TableHead>
-                    <TableHead>Value</TableHead>
-                    <TableHead>Condition</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead>{t("custody.number")}</TableHead>
+                    <TableHead>{t("custody.item")}</TableHead>
+                    <TableHead>{t("custody.category")}</TableHead>
+                    <TableHead>{t("custody.employee")}</TableHead>
+                    <TableHead>{t("leaves.department")}</TableHead>
+                    <TableHead>{t("custody.dateIssued")}</TableHead>
+                    <TableHead>{t("custody.value")}</TableHead>
+                    <TableHead>{t("custody.conditionLabel")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                    <TableHead className="text-end">{t("common.actions")}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -911,7 +939,7 @@ export function Custody() {
                           </div>
                         </div>
                       </TableCell>
-                      <TableCell>{item.category}</TableCell>
+                      <TableCell>{getCategoryLabel(item.category)}</TableCell>
                       <TableCell>
                         <div>
                           <p className="font-medium">{item.employeeName}</p>
@@ -919,19 +947,19 @@ export function Custody() {
                         </div>
                       </TableCell>
                       <TableCell>{item.department}</TableCell>
-                      <TableCell>{formatDateDisplay(item.dateIssued)}</TableCell>
-                      <TableCell>SAR {item.value.toLocaleString()}</TableCell>
+                      <TableCell>{formatDate(item.dateIssued)}</TableCell>
+                      <TableCell>{formatCurrency(item.value)}</TableCell>
                       <TableCell>
                         <Badge className={getConditionColor(item.condition)}>
-                          {item.condition}
+                          {t(CONDITION_KEYS[item.condition])}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <Badge className={getStatusColor(item.status)}>
-                          {item.status}
+                          {t(STATUS_KEYS[item.status])}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex justify-end gap-2">
                           <Button size="sm" variant="outline" onClick={() => openViewDialog(item)}>
                             <Eye className="h-4 w-4" />
@@ -965,23 +993,23 @@ export function Custody() {
       }}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingItem ? "Edit Custody Item" : "Add New Custody Item"}</DialogTitle>
+            <DialogTitle>{editingItem ? t("custody.editTitle") : t("custody.addTitle")}</DialogTitle>
             <DialogDescription>
-              {editingItem ? "Update custody item information" : "Register a new custody item"}
+              {editingItem ? t("custody.editDescription") : t("custody.addDescription")}
             </DialogDescription>
           </DialogHeader>
 
           <Tabs defaultValue="item" className="mt-4">
             <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="item">Item Details</TabsTrigger>
-              <TabsTrigger value="employee">Employee Info</TabsTrigger>
-              <TabsTrigger value="additional">Additional Info</TabsTrigger>
+              <TabsTrigger value="item">{t("custody.tab.item")}</TabsTrigger>
+              <TabsTrigger value="employee">{t("custody.tab.employee")}</TabsTrigger>
+              <TabsTrigger value="additional">{t("custody.tab.additional")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="item" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="itemName">Item Name (English) *</Label>
+                  <Label htmlFor="itemName">{t("custody.itemNameEnRequired")}</Label>
                   <Input
                     id="itemName"
                     value={formItemName}
@@ -991,7 +1019,7 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="itemNameAr">Item Name (Arabic) *</Label>
+                  <Label htmlFor="itemNameAr">{t("custody.itemNameArRequired")}</Label>
                   <Input
                     id="itemNameAr"
                     value={formItemNameAr}
@@ -1002,27 +1030,27 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="category">Category *</Label>
+                  <Label htmlFor="category">{t("custody.categoryRequired")}</Label>
                   <Select value={formCategory} onValueChange={setFormCategory}>
                     <SelectTrigger id="category">
-                      <SelectValue placeholder="Select category" />
+                      <SelectValue placeholder={t("custody.selectCategory")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Laptop">Laptop</SelectItem>
-                      <SelectItem value="Mobile">Mobile Phone</SelectItem>
-                      <SelectItem value="Tablet">Tablet</SelectItem>
-                      <SelectItem value="Monitor">Monitor</SelectItem>
-                      <SelectItem value="Printer">Printer</SelectItem>
-                      <SelectItem value="Vehicle">Vehicle</SelectItem>
-                      <SelectItem value="Access Card">Access Card</SelectItem>
-                      <SelectItem value="Keys">Keys</SelectItem>
-                      <SelectItem value="Other">Other</SelectItem>
+                      <SelectItem value="Laptop">{t(CATEGORY_KEYS.Laptop)}</SelectItem>
+                      <SelectItem value="Mobile">{t(CATEGORY_KEYS.Mobile)}</SelectItem>
+                      <SelectItem value="Tablet">{t(CATEGORY_KEYS.Tablet)}</SelectItem>
+                      <SelectItem value="Monitor">{t(CATEGORY_KEYS.Monitor)}</SelectItem>
+                      <SelectItem value="Printer">{t(CATEGORY_KEYS.Printer)}</SelectItem>
+                      <SelectItem value="Vehicle">{t(CATEGORY_KEYS.Vehicle)}</SelectItem>
+                      <SelectItem value="Access Card">{t(CATEGORY_KEYS["Access Card"])}</SelectItem>
+                      <SelectItem value="Keys">{t(CATEGORY_KEYS.Keys)}</SelectItem>
+                      <SelectItem value="Other">{t(CATEGORY_KEYS.Other)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="serialNumber">Serial Number</Label>
+                  <Label htmlFor="serialNumber">{t("custody.serialNumber")}</Label>
                   <Input
                     id="serialNumber"
                     value={formSerialNumber}
@@ -1032,18 +1060,18 @@ export function Custody() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="description">Description (English)</Label>
+                  <Label htmlFor="description">{t("custody.descriptionEn")}</Label>
                   <Textarea
                     id="description"
                     value={formDescription}
                     onChange={(e) => setFormDescription(e.target.value)}
-                    placeholder="Detailed description in English"
+                    placeholder={t("custody.descriptionEnPlaceholder")}
                     rows={2}
                   />
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="descriptionAr">Description (Arabic)</Label>
+                  <Label htmlFor="descriptionAr">{t("custody.descriptionAr")}</Label>
                   <Textarea
                     id="descriptionAr"
                     value={formDescriptionAr}
@@ -1055,7 +1083,7 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="value">Item Value (SAR) *</Label>
+                  <Label htmlFor="value">{t("custody.itemValueRequired")}</Label>
                   <Input
                     id="value"
                     type="number"
@@ -1067,34 +1095,34 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="condition">Condition *</Label>
+                  <Label htmlFor="condition">{t("custody.conditionRequired")}</Label>
                   <Select value={formCondition} onValueChange={(value: any) => setFormCondition(value)}>
                     <SelectTrigger id="condition">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="New">New</SelectItem>
-                      <SelectItem value="Good">Good</SelectItem>
-                      <SelectItem value="Fair">Fair</SelectItem>
-                      <SelectItem value="Poor">Poor</SelectItem>
+                      <SelectItem value="New">{t(CONDITION_KEYS.New)}</SelectItem>
+                      <SelectItem value="Good">{t(CONDITION_KEYS.Good)}</SelectItem>
+                      <SelectItem value="Fair">{t(CONDITION_KEYS.Fair)}</SelectItem>
+                      <SelectItem value="Poor">{t(CONDITION_KEYS.Poor)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="image">Item Image</Label>
+                  <Label htmlFor="image">{t("custody.itemImage")}</Label>
                   <div className="mt-2">
                     {formImage ? (
                       <div className="relative inline-block">
                         <img 
                           src={formImage} 
-                          alt="Item" 
+                          alt={t("custody.item")}
                           className="w-32 h-32 object-cover rounded-lg border"
                         />
                         <Button
                           size="sm"
                           variant="destructive"
-                          className="absolute -top-2 -right-2"
+                          className="absolute -top-2 -end-2"
                           onClick={() => setFormImage(null)}
                         >
                           <X className="h-4 w-4" />
@@ -1103,7 +1131,7 @@ export function Custody() {
                     ) : (
                       <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
                         <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground mb-2">Upload item image</p>
+                        <p className="text-sm text-muted-foreground mb-2">{t("custody.uploadImage")}</p>
                         <Input
                           id="image"
                           type="file"
@@ -1111,7 +1139,7 @@ export function Custody() {
                           onChange={handleImageUpload}
                           className="max-w-xs mx-auto"
                         />
-                        <p className="text-xs text-muted-foreground mt-2">Max size: 5MB</p>
+                        <p className="text-xs text-muted-foreground mt-2">{t("custody.maxSize")}</p>
                       </div>
                     )}
                   </div>
@@ -1122,15 +1150,15 @@ export function Custody() {
             <TabsContent value="employee" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="col-span-2">
-                  <Label htmlFor="employeeSelect">Select Employee *</Label>
+                  <Label htmlFor="employeeSelect">{t("custody.selectEmployeeRequired")}</Label>
                   <Select
                     value={formEmployeeId}
                     onValueChange={(value) => {
                       setFormEmployeeId(value);
                       const selectedEmp = employeesById.get(value);
                       if (selectedEmp) {
-                        setFormEmployee(selectedEmp.name_en ?? "Unnamed Employee");
-                        setFormDepartment(selectedEmp.department ?? "General");
+                        setFormEmployee(localizedName(selectedEmp.name_en, selectedEmp.name_ar) || t("leaves.unnamedEmployee"));
+                        setFormDepartment(selectedEmp.department ?? t("custody.generalDepartment"));
                       } else {
                         setFormEmployee("");
                         setFormDepartment("");
@@ -1139,7 +1167,7 @@ export function Custody() {
                     disabled={employeesLoading}
                   >
                     <SelectTrigger id="employeeSelect">
-                      <SelectValue placeholder={employeesLoading ? "Loading employees..." : "Choose employee from list"} />
+                      <SelectValue placeholder={employeesLoading ? t("leaves.loadingEmployees") : t("custody.chooseEmployee")} />
                     </SelectTrigger>
                     <SelectContent>
                       {employeeOptions.map((emp) => (
@@ -1156,7 +1184,7 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="employee">Employee Name</Label>
+                  <Label htmlFor="employee">{t("custody.employeeName")}</Label>
                   <Input
                     id="employee"
                     value={formEmployee}
@@ -1166,7 +1194,7 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="employeeId">Employee ID</Label>
+                  <Label htmlFor="employeeId">{t("custody.employeeId")}</Label>
                   <Input
                     id="employeeId"
                     value={formEmployeeId}
@@ -1176,7 +1204,7 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="department">Department</Label>
+                  <Label htmlFor="department">{t("leaves.department")}</Label>
                   <Input
                     id="department"
                     value={formDepartment}
@@ -1186,7 +1214,7 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="dateIssued">Date Issued *</Label>
+                  <Label htmlFor="dateIssued">{t("custody.dateIssuedRequired")}</Label>
                   <Input
                     id="dateIssued"
                     type="date"
@@ -1196,22 +1224,22 @@ export function Custody() {
                 </div>
 
                 <div>
-                  <Label htmlFor="status">Status *</Label>
+                  <Label htmlFor="status">{t("custody.statusRequired")}</Label>
                   <Select value={formStatus} onValueChange={(value: any) => setFormStatus(value)}>
                     <SelectTrigger id="status">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Active">Active (With Employee)</SelectItem>
-                      <SelectItem value="Returned">Returned</SelectItem>
-                      <SelectItem value="Damaged">Damaged</SelectItem>
-                      <SelectItem value="Lost">Lost</SelectItem>
+                      <SelectItem value="Active">{t("custody.status.activeWithEmployee")}</SelectItem>
+                      <SelectItem value="Returned">{t(STATUS_KEYS.Returned)}</SelectItem>
+                      <SelectItem value="Damaged">{t(STATUS_KEYS.Damaged)}</SelectItem>
+                      <SelectItem value="Lost">{t(STATUS_KEYS.Lost)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="dateReturn">Date Returned (if applicable)</Label>
+                  <Label htmlFor="dateReturn">{t("custody.dateReturnedOptional")}</Label>
                   <Input
                     id="dateReturn"
                     type="date"
@@ -1225,17 +1253,17 @@ export function Custody() {
             <TabsContent value="additional" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="location">Location</Label>
+                  <Label htmlFor="location">{t("custody.location")}</Label>
                   <Input
                     id="location"
                     value={formLocation}
                     onChange={(e) => setFormLocation(e.target.value)}
-                    placeholder="Riyadh Office / Field"
+                    placeholder={t("custody.locationPlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="warrantyExpiry">Warranty Expiry</Label>
+                  <Label htmlFor="warrantyExpiry">{t("custody.warrantyExpiry")}</Label>
                   <Input
                     id="warrantyExpiry"
                     type="date"
@@ -1245,12 +1273,12 @@ export function Custody() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="notes">Notes</Label>
+                  <Label htmlFor="notes">{t("common.notes")}</Label>
                   <Textarea
                     id="notes"
                     value={formNotes}
                     onChange={(e) => setFormNotes(e.target.value)}
-                    placeholder="Additional notes or comments"
+                    placeholder={t("custody.notesPlaceholder")}
                     rows={4}
                   />
                 </div>
@@ -1260,14 +1288,14 @@ export function Custody() {
 
           <div className="flex justify-end gap-3 pt-4 border-t mt-6">
             <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleSave}
               className="bg-purple-600 hover:bg-purple-700 text-white"
               disabled={uploadingImage || isSubmitting}
             >
-              {editingItem ? "Update Custody Item" : "Add Custody Item"}
+              {editingItem ? t("custody.update") : t("custody.add")}
             </Button>
           </div>
         </DialogContent>
@@ -1277,8 +1305,8 @@ export function Custody() {
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Custody Item Details</DialogTitle>
-            <DialogDescription>Complete information about this custody item</DialogDescription>
+            <DialogTitle>{t("custody.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("custody.detailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedItem && (
@@ -1294,7 +1322,7 @@ export function Custody() {
                   ) : (
                     <div className="text-center">
                       {getCategoryIcon(selectedItem.category)}
-                      <p className="text-xs text-muted-foreground mt-2">{selectedItem.category}</p>
+                      <p className="text-xs text-muted-foreground mt-2">{getCategoryLabel(selectedItem.category)}</p>
                     </div>
                   )}
                 </div>
@@ -1302,10 +1330,10 @@ export function Custody() {
                   <div>
                     <div className="flex items-center gap-2 mb-2">
                       <Badge className={getStatusColor(selectedItem.status)}>
-                        {selectedItem.status}
+                        {t(STATUS_KEYS[selectedItem.status])}
                       </Badge>
                       <Badge className={getConditionColor(selectedItem.condition)}>
-                        {selectedItem.condition}
+                        {t(CONDITION_KEYS[selectedItem.condition])}
                       </Badge>
                       <span className="text-xs text-muted-foreground font-mono">{selectedItem.custodyNumber}</span>
                     </div>
@@ -1314,12 +1342,12 @@ export function Custody() {
                   </div>
                   <div className="grid grid-cols-2 gap-3 text-sm">
                     <div>
-                      <Label className="text-muted-foreground">Category</Label>
-                      <p className="font-medium">{selectedItem.category}</p>
+                      <Label className="text-muted-foreground">{t("custody.category")}</Label>
+                      <p className="font-medium">{getCategoryLabel(selectedItem.category)}</p>
                     </div>
                     {selectedItem.serialNumber && (
                       <div>
-                        <Label className="text-muted-foreground">Serial Number</Label>
+                        <Label className="text-muted-foreground">{t("custody.serialNumber")}</Label>
                         <p className="font-mono">{selectedItem.serialNumber}</p>
                       </div>
                     )}
@@ -1330,21 +1358,21 @@ export function Custody() {
               <div className="grid grid-cols-3 gap-4">
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Item Value</p>
-                    <p className="text-2xl font-bold">SAR {selectedItem.value.toLocaleString()}</p>
+                    <p className="text-sm text-muted-foreground">{t("custody.itemValue")}</p>
+                    <p className="text-2xl font-bold">{formatCurrency(selectedItem.value)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Date Issued</p>
-                    <p className="text-xl font-semibold">{formatDateDisplay(selectedItem.dateIssued)}</p>
+                    <p className="text-sm text-muted-foreground">{t("custody.dateIssued")}</p>
+                    <p className="text-xl font-semibold">{formatDate(selectedItem.dateIssued)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Duration</p>
+                    <p className="text-sm text-muted-foreground">{t("custody.duration")}</p>
                     <p className="text-xl font-semibold">
-                      {selectedItemDuration !== null ? `${selectedItemDuration} days` : "-"}
+                      {selectedItemDuration !== null ? t("leaves.days", { count: selectedItemDuration }) : "-"}
                     </p>
                   </CardContent>
                 </Card>
@@ -1354,19 +1382,19 @@ export function Custody() {
                 <div className="space-y-3">
                   <h4 className="font-semibold flex items-center gap-2">
                     <User className="h-4 w-4" />
-                    Employee Information
+                    {t("custody.employeeInformation")}
                   </h4>
                   <div className="space-y-2 text-sm">
                     <div>
-                      <Label className="text-muted-foreground">Name</Label>
+                      <Label className="text-muted-foreground">{t("custody.name")}</Label>
                       <p className="font-medium">{selectedItem.employeeName}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Employee ID</Label>
+                      <Label className="text-muted-foreground">{t("custody.employeeId")}</Label>
                       <p className="font-mono">{selectedItem.employeeId}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Department</Label>
+                      <Label className="text-muted-foreground">{t("leaves.department")}</Label>
                       <p>{selectedItem.department}</p>
                     </div>
                   </div>
@@ -1375,27 +1403,27 @@ export function Custody() {
                 <div className="space-y-3">
                   <h4 className="font-semibold flex items-center gap-2">
                     <FileText className="h-4 w-4" />
-                    Item Details
+                    {t("custody.tab.item")}
                   </h4>
                   <div className="space-y-2 text-sm">
                     <div>
-                      <Label className="text-muted-foreground">Description (EN)</Label>
+                      <Label className="text-muted-foreground">{t("custody.descriptionEnShort")}</Label>
                       <p>{selectedItem.description}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Description (AR)</Label>
+                      <Label className="text-muted-foreground">{t("custody.descriptionArShort")}</Label>
                       <p dir="rtl">{selectedItem.descriptionAr}</p>
                     </div>
                     {selectedItem.location && (
                       <div>
-                        <Label className="text-muted-foreground">Location</Label>
+                        <Label className="text-muted-foreground">{t("custody.location")}</Label>
                         <p>{selectedItem.location}</p>
                       </div>
                     )}
                     {selectedItem.warrantyExpiry && (
                       <div>
-                        <Label className="text-muted-foreground">Warranty Expiry</Label>
-                        <p>{formatDateDisplay(selectedItem.warrantyExpiry)}</p>
+                        <Label className="text-muted-foreground">{t("custody.warrantyExpiry")}</Label>
+                        <p>{formatDate(selectedItem.warrantyExpiry)}</p>
                       </div>
                     )}
                   </div>
@@ -1404,30 +1432,30 @@ export function Custody() {
 
               {selectedItem.notes && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                  <Label className="text-muted-foreground">Notes</Label>
+                  <Label className="text-muted-foreground">{t("common.notes")}</Label>
                   <p className="text-sm mt-1">{selectedItem.notes}</p>
                 </div>
               )}
 
               {selectedItem.dateReturn && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <Label className="text-muted-foreground">Return Information</Label>
+                  <Label className="text-muted-foreground">{t("custody.returnInformation")}</Label>
                   <p className="text-sm mt-1">
-                    <strong>Date Returned:</strong> {formatDateDisplay(selectedItem.dateReturn)}
+                    <strong>{t("custody.dateReturned")}</strong> {formatDate(selectedItem.dateReturn)}
                   </p>
                 </div>
               )}
 
               <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-                  Close
+                  {t("common.close")}
                 </Button>
                 <Button onClick={() => {
                   setIsViewDialogOpen(false);
                   openEditDialog(selectedItem);
                 }}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Item
+                  <Edit className="h-4 w-4 me-2" />
+                  {t("custody.editItem")}
                 </Button>
               </div>
             </div>
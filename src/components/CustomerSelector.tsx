@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { toast } from "sonner";
+import { translateCurrent, useLocale } from "../lib/i18n";
 import { useAppDispatch } from "../redux-toolkit/hooks";
 import { thunks } from "../redux-toolkit/slices";
 
@@ -43,11 +44,12 @@ export function CustomerSelector({
   selectedCustomerId,
   onCustomerSelect,
   onCustomerAdd,
-  label = "Customer",
-  placeholder = "Search customer...",
+  label,
+  placeholder,
   required = false,
   hideQuickAdd = false,
 }: CustomerSelectorProps) {
+  const { t } = useLocale();
   const dispatch = useAppDispatch();
   const [open, setOpen] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -66,7 +68,7 @@ export function CustomerSelector({
 
   const handleAddNewCustomer = async () => {
     if (!newCustomerName.trim() || !newCustomerMobile.trim()) {
-      toast.error("Please enter customer name and mobile number");
+      toast.error(t("selector.customerRequired"));
       return;
     }
 
@@ -116,19 +118,19 @@ export function CustomerSelector({
       setNewCustomerTaxNumber("");
       setIsAddDialogOpen(false);
       
-      toast.success("Customer added successfully!");
+      toast.success(translateCurrent("customers.added"));
       
       // Refresh customers list
       dispatch(thunks.customers.fetchAll(undefined));
     } catch (error: any) {
-      toast.error(error?.message || "Failed to add customer");
+      toast.error(error?.message || translateCurrent("customers.addFailed"));
     }
   };
 
   return (
     <div className="space-y-2">
       <Label>
-        {label} {required && <span className="text-destructive">*</span>}
+        {label ?? t("selector.customer")} {required && <span className="text-destructive">*</span>}
       </Label>
       
       <div className="flex gap-2">
@@ -148,16 +150,16 @@ export function CustomerSelector({
                   )}
                 </div>
               ) : (
-                <span className="text-muted-foreground truncate">{placeholder}</span>
+                <span className="text-muted-foreground truncate">{placeholder ?? t("selector.customerSearch")}</span>
               )}
-              <Search className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+              <Search className="ms-2 h-4 w-4 shrink-0 opacity-50" />
             </Button>
           </PopoverTrigger>
           <PopoverContent className="w-[350px] p-0" align="start">
             <Command>
-              <CommandInput placeholder="Search by name, company, or mobile..." />
+              <CommandInput placeholder={t("selector.customerSearchHint")} />
               <CommandList>
-                <CommandEmpty>No customer found.</CommandEmpty>
+                <CommandEmpty>{t("selector.customerEmpty")}</CommandEmpty>
                 <CommandGroup>
                   {customers.map((customer) => (
                     <CommandItem
@@ -189,7 +191,7 @@ export function CustomerSelector({
             variant="outline"
             size="icon"
             onClick={() => onCustomerSelect({} as Customer)}
-            title="Clear selection"
+            title={t("selector.clear")}
             className="shrink-0"
           >
             <X className="h-4 w-4" />
@@ -202,7 +204,7 @@ export function CustomerSelector({
               <Button 
                 variant="default" 
                 size="icon" 
-                title="Add new customer"
+                title={t("selector.customerAdd")}
                 className="shrink-0 bg-green-600 hover:bg-green-700"
               >
                 <Plus className="h-4 w-4" />
@@ -210,38 +212,38 @@ export function CustomerSelector({
             </DialogTrigger>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
-                <DialogTitle>Add New Customer</DialogTitle>
+                <DialogTitle>{t("selector.customerAddTitle")}</DialogTitle>
                 <DialogDescription>
-                  Quickly add a new customer without leaving this page
+                  {t("selector.customerAddDescription")}
                 </DialogDescription>
               </DialogHeader>
 
               <div className="grid grid-cols-2 gap-4 py-4">
                 <div className="space-y-2">
                   <Label htmlFor="newCustomerName">
-                    Customer Name <span className="text-destructive">*</span>
+                    {t("selector.customerName")} <span className="text-destructive">*</span>
                   </Label>
                   <Input
                     id="newCustomerName"
                     value={newCustomerName}
                     onChange={(e) => setNewCustomerName(e.target.value)}
-                    placeholder="Ahmed Mohammed"
+                    placeholder={t("selector.customerNamePlaceholder")}
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="newCustomerCompany">Company Name</Label>
+                  <Label htmlFor="newCustomerCompany">{t("customers.companyPlaceholder")}</Label>
                   <Input
                     id="newCustomerCompany"
                     value={newCustomerCompany}
                     onChange={(e) => setNewCustomerCompany(e.target.value)}
-                    placeholder="Palm Trading Company"
+                    placeholder={t("selector.companyPlaceholder")}
                   />
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="newCustomerMobile">
-                    Mobile Number <span className="text-destructive">*</span>
+                    {t("customers.mobile")} <span className="text-destructive">*</span>
                   </Label>
                   <Input
                     id="newCustomerMobile"
@@ -252,7 +254,7 @@ export function CustomerSelector({
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="newCustomerEmail">Email</Label>
+                  <Label htmlFor="newCustomerEmail">{t("common.email")}</Label>
                   <Input
                     id="newCustomerEmail"
                     type="email"
@@ -263,17 +265,17 @@ export function CustomerSelector({
                 </div>
 
                 <div className="col-span-2 space-y-2">
-                  <Label htmlFor="newCustomerLocation">Location</Label>
+                  <Label htmlFor="newCustomerLocation">{t("customers.location")}</Label>
                   <Input
                     id="newCustomerLocation"
                     value={newCustomerLocation}
                     onChange={(e) => setNewCustomerLocation(e.target.value)}
-                    placeholder="Riyadh, Al Malaz District"
+                    placeholder={t("selector.locationPlaceholder")}
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="newCustomerCommercialRegister">Commercial Register</Label>
+                  <Label htmlFor="newCustomerCommercialRegister">{t("customers.commercialRegister")}</Label>
                   <Input
                     id="newCustomerCommercialRegister"
                     value={newCustomerCommercialRegister}
@@ -283,7 +285,7 @@ export function CustomerSelector({
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="newCustomerTaxNumber">VAT Number</Label>
+                  <Label htmlFor="newCustomerTaxNumber">{t("customers.vatNumber")}</Label>
                   <Input
                     id="newCustomerTaxNumber"
                     value={newCustomerTaxNumber}
@@ -295,11 +297,11 @@ export function CustomerSelector({
 
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button onClick={handleAddNewCustomer}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Customer
+                  <Plus className="h-4 w-4 me-2" />
+                  {t("customers.add")}
                 </Button>
               </div>
             </DialogContent>
@@ -311,19 +313,19 @@ export function CustomerSelector({
         <div className="text-sm text-muted-foreground space-y-1 pt-2 border-t">
           {selectedCustomer.mobile && (
             <div className="flex items-center gap-2">
-              <span className="font-medium">Mobile:</span>
+              <span className="font-medium">{t("selector.mobileLabel")}</span>
               <span>{selectedCustomer.mobile}</span>
             </div>
           )}
           {selectedCustomer.email && (
             <div className="flex items-center gap-2">
-              <span className="font-medium">Email:</span>
+              <span className="font-medium">{t("selector.emailLabel")}</span>
               <span>{selectedCustomer.email}</span>
             </div>
           )}
           {selectedCustomer.location && (
             <div className="flex items-center gap-2">
-              <span className="font-medium">Location:</span>
+              <span className="font-medium">{t("selector.locationLabel")}</span>
               <span>{selectedCustomer.location}</span>
             </div>
           )}
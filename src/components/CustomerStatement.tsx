@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import { Search, Download, Printer, DollarSign, FileText, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "./ui/card";
@@ -7,13 +8,31 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
 import { Badge } from "./ui/badge";
 import { Label } from "./ui/label";
-import QRCode from "qrcode";
 import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Customers } from "../../supabase/models/customers";
 import type { Invoices as InvoiceRow } from "../../supabase/models/invoices";
 import type { Payments as PaymentRow } from "../../supabase/models/payments";
+import type { InvoiceNotes as InvoiceNoteRow } from "../../supabase/models/invoice_notes";
 import { getPrintLogo } from "../lib/getPrintLogo";
+import { downloadDocumentPdf } from "../lib/documentPdf";
+import { getCompanyInfo } from "../lib/companyInfo";
+import { buildZatcaQrFields, generateZatcaQrDataUrl } from "../lib/zatcaQr";
+import { NOTE_TYPE_LABELS, groupNotesByInvoice } from "../lib/invoiceNotes";
+import { useRecordRoute } from "../lib/router";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import {
+  AGING_BUCKETS,
+  ageInvoices,
+  groupPaymentsByInvoice,
+  invoiceDate,
+  invoiceTotal,
+  noteDate,
+  openingBalance as computeOpeningBalance,
+  paymentDate,
+  settledOnInvoice,
+  sumAging,
+} from "../lib/receivables";
 
 interface Transaction {
   id: string;
@@ -56,15 +75,18 @@ const PAYMENT_METHOD_LABELS: Record<string, { label: string; arabic: string }> =
 };
 
 export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: CustomerStatementProps) {
+  const { t, formatNumber, formatCurrency, formatDate, formatDateTime, localizedName } = useLocale();
   const dispatch = useAppDispatch();
   const dbCustomers = useAppSelector(selectors.customers.selectAll) as Customers[];
   const dbInvoices = useAppSelector(selectors.invoices.selectAll) as InvoiceRow[];
   const dbPayments = useAppSelector(selectors.payments.selectAll) as PaymentRow[];
+  const dbInvoiceNotes = useAppSelector(selectors.invoice_notes.selectAll) as InvoiceNoteRow[];
 
   useEffect(() => {
     dispatch(thunks.customers.fetchAll(undefined));
     dispatch(thunks.invoices.fetchAll(undefined));
     dispatch(thunks.payments.fetchAll(undefined));
+    dispatch(thunks.invoice_notes.fetchAll(undefined));
   }, [dispatch]);
 
   const customerOptions = useMemo<CustomerOption[]>(() => {
@@ -72,7 +94,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
       const accountNumber = customer.customer_id.slice(0, 8).toUpperCase();
       return {
         id: customer.customer_id,
-        name: customer.customer_name ?? customer.company ?? "Unknown Customer",
+        name: customer.customer_name ?? customer.company ?? t("statement.unknownCustomer"),
         nameAr: customer.company ?? customer.customer_name ?? "عميل",
         accountNumber,
         iban: `SA-${accountNumber}-0000`,
@@ -81,20 +103,18 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
         raw: customer,
       };
     });
-  }, [dbCustomers]);
+  }, [dbCustomers, t]);
 
-  const [selectedCustomerId, setSelectedCustomerId] = useState<string | undefined>(undefined);
+  // The selected customer lives in the URL (/customers/<id>/statement), so statement links can be shared
+  const { recordId: linkedCustomerId, openRecord: selectCustomer } = useRecordRoute("statements");
+  const selectedCustomerId = customerOptions.some((option) => option.id === linkedCustomerId)
+    ? linkedCustomerId ?? undefined
+    : customerOptions[0]?.id;
   const [_dateRange, _setDateRange] = useState<string>("last-6-months");
   const [fromDate, setFromDate] = useState<string>("");
   const [toDate, setToDate] = useState<string>("");
   const [customerSearchQuery, setCustomerSearchQuery] = useState<string>("");
 
-  useEffect(() => {
-    if (!selectedCustomerId && customerOptions.length > 0) {
-      setSelectedCustomerId(customerOptions[0].id);
-    }
-  }, [customerOptions, selectedCustomerId]);
-
   const filteredCustomers = useMemo(() => {
     if (!customerSearchQuery.trim()) return customerOptions;
     return customerOptions.filter((c) => {
@@ -110,15 +130,6 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
     });
   }, [customerOptions, customerSearchQuery]);
 
-  useEffect(() => {
-    if (
-      selectedCustomerId &&
-      !customerOptions.some((option) => option.id === selectedCustomerId)
-    ) {
-      setSelectedCustomerId(customerOptions[0]?.id);
-    }
-  }, [customerOptions, selectedCustomerId]);
-
   const selectedCustomer = useMemo(
     () => customerOptions.find((option) => option.id === selectedCustomerId) ?? null,
     [customerOptions, selectedCustomerId]
@@ -151,97 +162,91 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
     sorted.forEach((invoice, index) => {
       const baseDate = invoice.invoice_date ?? invoice.created_at ?? new Date().toISOString();
       const year = new Date(baseDate).getFullYear();
-      map.set(invoice.invoice_id, `INV-${year}-${String(index + 1).padStart(3, "0")}`);
+      map.set(invoice.invoice_id, invoice.invoice_number || `INV-${year}-${String(index + 1).padStart(3, "0")}`);
     });
 
     return map;
   }, [dbInvoices]);
 
-  const computeInvoiceTotal = (invoice: InvoiceRow) => {
-    const total = Number(invoice.total_amount ?? 0);
-    if (total > 0) return total;
-    const subtotal = Number(invoice.subtotal ?? 0);
-    const tax = Number(invoice.tax_amount ?? 0);
-    const fallback = subtotal + tax;
-    if (fallback > 0) return fallback;
-    try {
-      const items = Array.isArray(invoice.invoice_items) ? invoice.invoice_items : [];
-      return items.reduce((sum: number, item: any) => {
-        const quantity = Number(item?.quantity ?? 1);
-        const unit = Number(item?.unitPrice ?? 0);
-        const discount = Number(item?.discountPercent ?? 0);
-        const totalItem =
-          Number(item?.total ?? 0) ||
-          Number(item?.subtotal ?? 0) ||
-          unit * quantity * (1 - discount / 100);
-        return sum + totalItem;
-      }, 0);
-    } catch {
-      return 0;
-    }
-  };
+  const customerInvoices = useMemo(
+    () => (selectedCustomer ? dbInvoices.filter((invoice) => invoice.customer_id === selectedCustomer.id) : []),
+    [selectedCustomer, dbInvoices]
+  );
+  const paymentsByInvoice = useMemo(() => groupPaymentsByInvoice(dbPayments), [dbPayments]);
+  const notesByInvoice = useMemo(() => groupNotesByInvoice(dbInvoiceNotes), [dbInvoiceNotes]);
 
-  const transactions = useMemo<Transaction[]>(() => {
-    if (!selectedCustomer) return [];
+  // Everything before the period start is carried forward as one opening balance
+  const openingBalance = useMemo(
+    () => computeOpeningBalance(customerInvoices, paymentsByInvoice, fromDate, notesByInvoice),
+    [customerInvoices, paymentsByInvoice, fromDate, notesByInvoice]
+  );
 
-    // Parse date range
-    const fromDateObj = fromDate ? new Date(fromDate + "T00:00:00") : null;
-    const toDateObj = toDate ? new Date(toDate + "T23:59:59") : null;
+  const agingAsOf = toDate || new Date().toISOString().split("T")[0];
+  const aging = useMemo(
+    () => sumAging(ageInvoices(customerInvoices, paymentsByInvoice, agingAsOf, notesByInvoice)),
+    [customerInvoices, paymentsByInvoice, agingAsOf, notesByInvoice]
+  );
 
-    // Helper function to check if a date is within range
-    const isDateInRange = (dateStr: string): boolean => {
-      if (!dateStr) return false;
-      if (!fromDateObj && !toDateObj) return true; // No filter if no dates selected
-      
-      const transactionDate = new Date(dateStr);
-      if (Number.isNaN(transactionDate.getTime())) return false;
+  const transactions = useMemo<Transaction[]>(() => {
+    if (!selectedCustomer) return [];
 
-      if (fromDateObj && transactionDate < fromDateObj) return false;
-      if (toDateObj && transactionDate > toDateObj) return false;
-      
+    // Dates are compared as YYYY-MM-DD; an empty bound leaves that side open
+    const isDateInRange = (date: string): boolean => {
+      if (!date) return false;
+      if (fromDate && date < fromDate) return false;
+      if (toDate && date > toDate) return false;
       return true;
     };
 
-    const relevantInvoices = dbInvoices.filter(
-      (invoice) => invoice.customer_id === selectedCustomer.id
-    );
-    const invoiceIdSet = new Set(relevantInvoices.map((invoice) => invoice.invoice_id));
-
-    const invoiceEntries: Transaction[] = relevantInvoices
-      .filter((invoice) => {
-        const date = invoice.invoice_date ?? invoice.created_at ?? "";
-        return isDateInRange(date);
-      })
-      .map((invoice) => {
-        const amount = computeInvoiceTotal(invoice);
+    const invoiceEntries: Transaction[] = customerInvoices
+      .filter((invoice) => isDateInRange(invoiceDate(invoice)))
+      .flatMap((invoice) => {
+        const amount = invoiceTotal(invoice);
         const date = invoice.invoice_date ?? invoice.created_at ?? "";
         const reference =
           invoiceNumberMap.get(invoice.invoice_id) ?? invoice.invoice_id.slice(0, 8).toUpperCase();
 
-        return {
-          id: `invoice-${invoice.invoice_id}`,
-          date,
-          type: "invoice",
-          typeLabel: "Invoice",
-          typeArabic: "فاتورة",
-          reference,
-          details: invoice.invoice_notes || "Invoice issued",
-          debit: amount,
-          credit: 0,
-          balance: 0,
-        };
+        const entries: Transaction[] = [
+          {
+            id: `invoice-${invoice.invoice_id}`,
+            date,
+            type: "invoice",
+            typeLabel: "Invoice",
+            typeArabic: "فاتورة",
+            reference,
+            details: invoice.invoice_notes || t("statement.invoiceIssued"),
+            debit: amount,
+            credit: 0,
+            balance: 0,
+          },
+        ];
+
+        // Paid when issued, without a separate payment record
+        const settled = settledOnInvoice(invoice, paymentsByInvoice.get(invoice.invoice_id));
+        if (settled > 0) {
+          entries.push({
+            id: `settled-${invoice.invoice_id}`,
+            date,
+            type: "other",
+            typeLabel: PAYMENT_METHOD_LABELS.other.label,
+            typeArabic: PAYMENT_METHOD_LABELS.other.arabic,
+            reference,
+            details: t("statement.paidOnInvoice"),
+            debit: 0,
+            credit: settled,
+            balance: 0,
+          });
+        }
+        return entries;
       });
 
-    const paymentEntries: Transaction[] = dbPayments
-      .filter((payment) => {
-        if (!payment.invoice_id || !invoiceIdSet.has(payment.invoice_id)) return false;
-        const paymentDate = payment.payment_date ?? payment.created_at ?? "";
-        return isDateInRange(paymentDate);
-      })
+    const paymentEntries: Transaction[] = customerInvoices
+      .flatMap((invoice) => paymentsByInvoice.get(invoice.invoice_id) ?? [])
+      .filter((payment) => isDateInRange(paymentDate(payment)))
       .map((payment) => {
         const method = payment.payment_method ?? "other";
         const labels = PAYMENT_METHOD_LABELS[method] ?? PAYMENT_METHOD_LABELS.other;
-        const paymentDate = payment.payment_date ?? payment.created_at ?? "";
+        const paymentDateValue = payment.payment_date ?? payment.created_at ?? "";
         const reference =
           payment.reference_number ||
           invoiceNumberMap.get(payment.invoice_id ?? "") ||
@@ -250,19 +255,43 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
 
         return {
           id: `payment-${payment.payment_id}`,
-          date: paymentDate,
+          date: paymentDateValue,
           type: method,
           typeLabel: labels.label,
           typeArabic: labels.arabic,
           reference,
-          details: payment.notes || `Payment via ${labels.label}`,
+          details: payment.notes || t("statement.paymentVia", { method: localizedName(labels.label, labels.arabic) }),
           debit: 0,
           credit: amount,
           balance: 0,
         };
       });
 
-    const allTransactions = [...invoiceEntries, ...paymentEntries]
+    // Credit notes reduce the balance like a payment, debit notes raise it like an invoice
+    const noteEntries: Transaction[] = customerInvoices
+      .flatMap((invoice) => notesByInvoice.get(invoice.invoice_id) ?? [])
+      .filter((note) => isDateInRange(noteDate(note)))
+      .map((note) => {
+        const labels = NOTE_TYPE_LABELS[note.note_type];
+        const amount = Number(note.total_amount ?? 0);
+        const invoiceReference = invoiceNumberMap.get(note.invoice_id) ?? note.invoice_reference ?? "";
+        return {
+          id: `note-${note.note_id}`,
+          date: note.note_date ?? note.created_at ?? "",
+          type: `${note.note_type}_note`,
+          typeLabel: labels.label,
+          typeArabic: labels.labelAr,
+          reference: note.note_number,
+          details: [invoiceReference && t("statement.onInvoice", { reference: invoiceReference }), note.reason]
+            .filter(Boolean)
+            .join(" - "),
+          debit: note.note_type === "debit" ? amount : 0,
+          credit: note.note_type === "credit" ? amount : 0,
+          balance: 0,
+        };
+      });
+
+    const allTransactions = [...invoiceEntries, ...paymentEntries, ...noteEntries]
       .map((transaction) => {
         const timestamp = transaction.date ? new Date(transaction.date).getTime() : 0;
         return {
@@ -280,12 +309,23 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
         return rest;
       });
 
-    let runningBalance = 0;
+    let runningBalance = openingBalance;
     return allTransactions.map((transaction) => {
       runningBalance += transaction.debit - transaction.credit;
       return { ...transaction, balance: runningBalance };
     });
-  }, [selectedCustomer, dbInvoices, dbPayments, invoiceNumberMap, fromDate, toDate]);
+  }, [
+    selectedCustomer,
+    customerInvoices,
+    paymentsByInvoice,
+    notesByInvoice,
+    invoiceNumberMap,
+    fromDate,
+    toDate,
+    openingBalance,
+    t,
+    localizedName,
+  ]);
 
   const totalInvoices = useMemo(
     () => transactions.reduce((sum, transaction) => sum + (transaction.debit > 0 ? transaction.debit : 0), 0),
@@ -303,54 +343,50 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
     () => transactions.filter((transaction) => transaction.credit > 0).length,
     [transactions]
   );
-  const openingBalance = 0;
-  const closingBalance = transactions.length > 0 ? transactions[transactions.length - 1].balance : 0;
-
-  const formatDisplayDate = (isoDate: string) => {
-    if (!isoDate) return "-";
-    const parsed = new Date(isoDate);
-    if (Number.isNaN(parsed.getTime())) return isoDate;
-    return parsed.toLocaleDateString("en-CA");
-  };
-
-  const formatDateForDisplay = (dateStr: string): string => {
-    if (!dateStr) return "";
-    // Convert YYYY-MM-DD to YYYY/MM/DD
-    return dateStr.replace(/-/g, "/");
-  };
+  const closingBalance = transactions.length > 0 ? transactions[transactions.length - 1].balance : openingBalance;
 
-  const handlePrint = async () => {
-    if (!selectedCustomer) return;
+  const formatAmount = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
-    // Generate QR code for validation
-    const fromDateStr = formatDateForDisplay(fromDate);
-    const toDateStr = formatDateForDisplay(toDate);
-    const qrData = `Customer: ${selectedCustomer.name}\nAccount: ${selectedCustomer.accountNumber}\nIBAN: ${selectedCustomer.iban}\nPeriod: ${fromDateStr} - ${toDateStr}\nBalance: SAR ${closingBalance.toFixed(2)}`;
+  // The statement as printed: also the source of its PDF
+  const buildStatementHTML = async (customer: CustomerOption, refNumber: string) => {
+    // Generate ZATCA QR code covering the invoices on this statement
+    const fromDateStr = formatDate(fromDate);
+    const toDateStr = formatDate(toDate);
     let qrCode = "";
     
     try {
-      qrCode = await QRCode.toDataURL(qrData);
+      const statementInvoiceIds = new Set(
+        transactions
+          .filter((transaction) => transaction.type === "invoice")
+          .map((transaction) => transaction.id.replace(/^invoice-/, ""))
+      );
+      const statementVAT = dbInvoices
+        .filter((invoice) => statementInvoiceIds.has(invoice.invoice_id))
+        .reduce((sum, invoice) => sum + Number(invoice.tax_amount ?? 0), 0);
+      const companyInfo = await getCompanyInfo();
+      qrCode = await generateZatcaQrDataUrl(
+        buildZatcaQrFields(companyInfo, {
+          total_amount: totalInvoices,
+          tax_amount: statementVAT,
+          invoice_date: toDate || new Date().toISOString(),
+          created_at: new Date().toISOString(),
+        })
+      );
     } catch (err) {
       console.error("QR Code generation error:", err);
     }
 
-    const refNumber = `ST-${Date.now().toString().slice(-8)}`;
-    const currentDate = new Date();
-    const printDate = `${currentDate.getDate().toString().padStart(2, '0')}/${(currentDate.getMonth() + 1).toString().padStart(2, '0')}/${currentDate.getFullYear()}`;
-    const printTime = currentDate.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
-
-    const printWindow = window.open('', '', 'height=842,width=595');
-    if (!printWindow) return;
+    const printedAt = formatDateTime(new Date());
 
     // Load logo from Settings
     const logoToUse = systemLogo || (await getPrintLogo()) || undefined;
 
-    const html = `
+    return `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="UTF-8">
-        <title>Customer Account Statement - ${selectedCustomer.name}</title>
+        <title>Customer Account Statement - ${customer.name}</title>
         <style>
           @page { size: A4; margin: 15mm; }
           * { margin: 0; padding: 0; box-sizing: border-box; }
@@ -604,6 +640,30 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             font-weight: 700;
           }
           
+          /* Aging */
+          .aging-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 15px;
+          }
+          .aging-table th {
+            padding: 6px;
+            font-size: 9px;
+            background: #EFF6FF;
+            color: #1E40AF;
+            text-align: center;
+          }
+          .aging-table td {
+            padding: 8px 6px;
+            font-size: 10px;
+            font-weight: 600;
+            text-align: center;
+            border-bottom: 1px solid #e0e0e0;
+          }
+          .aging-overdue {
+            color: #DC2626;
+          }
+          
           /* Page Number */
           .page-number {
             text-align: center;
@@ -677,25 +737,14 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             </div>
           </div>
           
-          <div class="ref-info">
-            <div class="ref-row">
-              <span class="ref-label">Print Date</span>
-              <span class="ref-value">${printDate}</span>
-            </div>
-            <div class="ref-row">
-              <span class="ref-value" style="text-align: right;">${printDate}</span>
-              <span class="ref-label-ar">تاريخ الطباعة</span>
-            </div>
-          </div>
-          
           <div class="ref-info" style="border-bottom: 2px solid #ddd;">
             <div class="ref-row">
-              <span class="ref-label">Print Time</span>
-              <span class="ref-value">${printTime}</span>
+              <span class="ref-label">Printed On</span>
+              <span class="ref-value">${printedAt}</span>
             </div>
             <div class="ref-row">
-              <span class="ref-value" style="text-align: right;">${printTime}</span>
-              <span class="ref-label-ar">وقت الطباعة</span>
+              <span class="ref-value" style="text-align: right;">${printedAt}</span>
+              <span class="ref-label-ar">تاريخ ووقت الطباعة</span>
             </div>
           </div>
           
@@ -708,22 +757,22 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
           <table class="details-table">
             <tr>
               <td>Customer Name</td>
-              <td>${selectedCustomer.name}</td>
+              <td>${customer.name}</td>
               <td>اسم العميل</td>
             </tr>
             <tr>
               <td>Customer Name (Arabic)</td>
-              <td>${selectedCustomer.nameAr}</td>
+              <td>${customer.nameAr}</td>
               <td>اسم العميل (بالعربي)</td>
             </tr>
             <tr>
               <td>Account Number</td>
-              <td>${selectedCustomer.accountNumber}</td>
+              <td>${customer.accountNumber}</td>
               <td>رقم الحساب</td>
             </tr>
             <tr>
               <td>IBAN Number</td>
-              <td>${selectedCustomer.iban}</td>
+              <td>${customer.iban}</td>
               <td>رقم الآيبان</td>
             </tr>
             <tr>
@@ -733,7 +782,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             </tr>
             <tr>
               <td>Opening Balance</td>
-              <td style="color: #2563eb; font-weight: bold;">${openingBalance.toFixed(2)} SAR</td>
+              <td style="color: #2563eb; font-weight: bold;">${formatCurrency(openingBalance)}</td>
               <td>رصيد الحساب الافتتاحي</td>
             </tr>
             <tr>
@@ -743,7 +792,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             </tr>
             <tr>
               <td>Total Invoiced Amount</td>
-              <td style="color: #dc2626; font-weight: bold;">${totalInvoices.toFixed(2)} SAR</td>
+              <td style="color: #dc2626; font-weight: bold;">${formatCurrency(totalInvoices)}</td>
               <td>إجمالي المبالغ المستحقة</td>
             </tr>
             <tr>
@@ -753,16 +802,37 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             </tr>
             <tr>
               <td>Total Payments Received</td>
-              <td style="color: #16a34a; font-weight: bold;">${totalPayments.toFixed(2)} SAR</td>
+              <td style="color: #16a34a; font-weight: bold;">${formatCurrency(totalPayments)}</td>
               <td>إجمالي المدفوعات</td>
             </tr>
             <tr style="background: #FEF3C7;">
               <td style="font-size: 11px;">Closing Balance (Outstanding)</td>
-              <td style="color: ${closingBalance > 0 ? '#dc2626' : '#16a34a'}; font-weight: bold; font-size: 12px;">${closingBalance.toFixed(2)} SAR</td>
+              <td style="color: ${closingBalance > 0 ? '#dc2626' : '#16a34a'}; font-weight: bold; font-size: 12px;">${formatCurrency(closingBalance)}</td>
               <td style="font-size: 11px;">رصيد الإقفال (المتبقي)</td>
             </tr>
           </table>
           
+          <!-- Aging Section -->
+          <div class="section-header">
+            <div class="section-header-en">Balance Aging (as of ${formatDate(agingAsOf)})</div>
+            <div class="section-header-ar">أعمار الديون</div>
+          </div>
+          
+          <table class="aging-table">
+            <thead>
+              <tr>
+                ${AGING_BUCKETS.map((bucket) => `<th>${bucket.label}<br>${bucket.labelAr}</th>`).join('')}
+                <th>Total<br>الإجمالي</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                ${AGING_BUCKETS.map((bucket) => `<td class="${bucket.key !== 'current' && aging[bucket.key] > 0 ? 'aging-overdue' : ''}">${formatAmount(aging[bucket.key])}</td>`).join('')}
+                <td>${formatAmount(aging.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+          
           <!-- Page Number -->
           <div class="page-number">Page 1 of 2 - الصفحة 1 من 2</div>
           
@@ -800,6 +870,15 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
               </tr>
             </thead>
             <tbody>
+              <tr>
+                <td class="date">${formatDate(fromDate)}</td>
+                <td class="reference">-</td>
+                <td class="type">-</td>
+                <td class="details">Opening balance brought forward - رصيد افتتاحي مرحل</td>
+                <td class="amount amount-debit">-</td>
+                <td class="amount amount-credit">-</td>
+                <td class="amount amount-balance">${formatAmount(openingBalance)}</td>
+              </tr>
               ${transactions.map(transaction => {
                 let typeClass = 'type-transfer';
                 if (transaction.typeLabel === 'Invoice') {
@@ -811,7 +890,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
                 } else if (transaction.typeLabel === 'Credit Card') {
                   typeClass = 'type-transfer';
                 }
-                const formattedDate = formatDisplayDate(transaction.date);
+                const formattedDate = formatDate(transaction.date);
                 return `
                 <tr>
                   <td class="date">${formattedDate}</td>
@@ -821,9 +900,9 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
                     <span style="font-size: 7px; color: #666;">${transaction.typeArabic}</span>
                   </td>
                   <td class="details">${transaction.details}</td>
-                  <td class="amount amount-debit">${transaction.debit > 0 ? transaction.debit.toFixed(2) : '-'}</td>
-                  <td class="amount amount-credit">${transaction.credit > 0 ? transaction.credit.toFixed(2) : '-'}</td>
-                  <td class="amount amount-balance">${transaction.balance.toFixed(2)}</td>
+                  <td class="amount amount-debit">${transaction.debit > 0 ? formatAmount(transaction.debit) : '-'}</td>
+                  <td class="amount amount-credit">${transaction.credit > 0 ? formatAmount(transaction.credit) : '-'}</td>
+                  <td class="amount amount-balance">${formatAmount(transaction.balance)}</td>
                 </tr>
               `;
               }).join('')}
@@ -834,8 +913,8 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
           <div class="footer-note">
             <div class="footer-note-title">⚠️ Outstanding Balance - رصيد مستحق</div>
             <div class="footer-note-text">
-              Dear Customer, your account shows an outstanding balance of <strong>${closingBalance.toFixed(2)} SAR</strong>. Please arrange payment at your earliest convenience. For payment inquiries, please contact our accounts department.<br><br>
-              عزيزي العميل، حسابك يظهر رصيد مستحق قدره <strong>${closingBalance.toFixed(2)} ريال سعودي</strong>. يرجى ترتيب الدفع في أقرب وقت ممكن. للاستفسارات حول الدفع، يرجى التواصل مع قسم الحسابات.
+              Dear Customer, your account shows an outstanding balance of <strong>${formatAmount(closingBalance)} SAR</strong>. Please arrange payment at your earliest convenience. For payment inquiries, please contact our accounts department.<br><br>
+              عزيزي العميل، حسابك يظهر رصيد مستحق قدره <strong>${formatAmount(closingBalance)} ريال سعودي</strong>. يرجى ترتيب الدفع في أقرب وقت ممكن. للاستفسارات حول الدفع، يرجى التواصل مع قسم الحسابات.
             </div>
           </div>
           ` : ''}
@@ -846,6 +925,14 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
       </body>
       </html>
     `;
+  };
+
+  const handlePrint = async () => {
+    if (!selectedCustomer) return;
+    const html = await buildStatementHTML(selectedCustomer, `ST-${Date.now().toString().slice(-8)}`);
+
+    const printWindow = window.open('', '', 'height=842,width=595');
+    if (!printWindow) return;
 
     printWindow.document.write(html);
     printWindow.document.close();
@@ -856,27 +943,39 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
   };
 
   const handleDownload = async () => {
-    // Trigger print which can be saved as PDF
-    await handlePrint();
+    if (!selectedCustomer) return;
+    const refNumber = `ST-${Date.now().toString().slice(-8)}`;
+    const toastId = toast.loading(t("statement.generatingPdf"));
+    try {
+      await downloadDocumentPdf({
+        documentType: "customer_statement",
+        ownerId: selectedCustomer.id,
+        documentNumber: refNumber,
+        html: await buildStatementHTML(selectedCustomer, refNumber),
+      });
+      toast.success(translateCurrent("statement.downloaded"), { id: toastId });
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || translateCurrent("statement.pdfFailed"), { id: toastId });
+    }
   };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between flex-wrap gap-4">
         <div>
-          <h2 className="text-2xl font-bold tracking-tight">Customer Statements - كشوف حساب العملاء</h2>
+          <h2 className="text-2xl font-bold tracking-tight">{t("statement.title")}</h2>
           <p className="text-muted-foreground">
-            Generate detailed account statements for payment collection
+            {t("statement.subtitle")}
           </p>
         </div>
         <div className="flex gap-2">
           <Button onClick={handleDownload} variant="outline">
-            <Download className="mr-2 h-4 w-4" />
-            Download PDF
+            <Download className="me-2 h-4 w-4" />
+            {t("statement.downloadPdf")}
           </Button>
           <Button onClick={handlePrint}>
-            <Printer className="mr-2 h-4 w-4" />
-            Print Statement
+            <Printer className="me-2 h-4 w-4" />
+            {t("statement.print")}
           </Button>
         </div>
       </div>
@@ -884,28 +983,28 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
       {/* Filters */}
       <Card>
         <CardHeader>
-          <CardTitle>Generate Statement - إنشاء كشف حساب</CardTitle>
-          <CardDescription>Select customer and date range to generate collection statement</CardDescription>
+          <CardTitle>{t("statement.generateTitle")}</CardTitle>
+          <CardDescription>{t("statement.generateDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-3">
             <div className="space-y-2">
-              <label className="text-sm font-medium">Customer - العميل</label>
+              <label className="text-sm font-medium">{t("common.customer")}</label>
               <div className="relative">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground z-10" />
+                <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground z-10" />
                 <Input
-                  placeholder="Search by name, phone, contract #, account # - ابحث بالاسم، الجوال، رقم العقد، رقم الحساب"
+                  placeholder={t("statement.searchPlaceholder")}
                   value={customerSearchQuery}
                   onChange={(e) => setCustomerSearchQuery(e.target.value)}
-                  className="pl-9 mb-2"
+                  className="ps-9 mb-2"
                 />
               </div>
               <Select
                 value={selectedCustomerId ?? (filteredCustomers[0]?.id ?? "")}
-                onValueChange={setSelectedCustomerId}
+                onValueChange={selectCustomer}
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select customer" />
+                  <SelectValue placeholder={t("statement.selectCustomer")} />
                 </SelectTrigger>
                 <SelectContent>
                   {filteredCustomers.length > 0 ? (
@@ -917,7 +1016,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
                     ))
                   ) : (
                     <div className="px-2 py-6 text-center text-sm text-muted-foreground">
-                      No customers found - لا يوجد عملاء
+                      {t("statement.noCustomers")}
                     </div>
                   )}
                 </SelectContent>
@@ -925,7 +1024,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="from-date">From Date - من تاريخ</Label>
+              <Label htmlFor="from-date">{t("statement.fromDate")}</Label>
               <Input 
                 id="from-date"
                 type="date"
@@ -935,7 +1034,7 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="to-date">To Date - إلى تاريخ</Label>
+              <Label htmlFor="to-date">{t("statement.toDate")}</Label>
               <Input 
                 id="to-date"
                 type="date"
@@ -952,67 +1051,104 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Invoiced</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("statement.totalInvoiced")}</CardTitle>
             <FileText className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-red-600">SAR {totalInvoices.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(totalInvoices)}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              {numberOfInvoices} invoices issued
+              {t("statement.invoicesIssued", { count: numberOfInvoices })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Payments</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("statement.totalPayments")}</CardTitle>
             <TrendingUp className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">SAR {totalPayments.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(totalPayments)}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              {numberOfPayments} payments received
+              {t("statement.paymentsReceived", { count: numberOfPayments })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Opening Balance</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("statement.openingBalance")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">SAR {openingBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+            <div className="text-2xl font-bold">{formatCurrency(openingBalance)}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              Period start: {fromDate ? formatDateForDisplay(fromDate) : "—"}
+              {t("statement.periodStart", { date: formatDate(fromDate) })}
             </p>
           </CardContent>
         </Card>
 
         <Card className={closingBalance > 0 ? "border-red-200 bg-red-50" : "border-green-200 bg-green-50"}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("statement.outstandingBalance")}</CardTitle>
             <DollarSign className={`h-4 w-4 ${closingBalance > 0 ? 'text-red-600' : 'text-green-600'}`} />
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${closingBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
-              SAR {closingBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              {formatCurrency(closingBalance)}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              {closingBalance > 0 ? 'Amount due for collection' : 'Account fully paid'}
+              {closingBalance > 0 ? t("statement.amountDue") : t("statement.fullyPaid")}
             </p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Aging */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("statement.agingTitle")}</CardTitle>
+          <CardDescription>
+            {t("statement.agingDescription", { date: formatDate(agingAsOf) })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-6">
+            {AGING_BUCKETS.map((bucket) => (
+              <div key={bucket.key} className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">{localizedName(bucket.label, bucket.labelAr)}</p>
+                <p
+                  className={`text-lg font-bold ${
+                    bucket.key !== "current" && aging[bucket.key] > 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatCurrency(aging[bucket.key])}
+                </p>
+              </div>
+            ))}
+            <div className="rounded-md border p-3 bg-muted/40">
+              <p className="text-xs text-muted-foreground">{t("statement.totalDue")}</p>
+              <p className="text-lg font-bold">
+                {formatCurrency(aging.total)}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Transactions Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Transaction History - سجل المعاملات</CardTitle>
+          <CardTitle>{t("statement.historyTitle")}</CardTitle>
           <CardDescription>
             {selectedCustomer
-              ? `Showing ${transactions.length} transaction${transactions.length !== 1 ? 's' : ''} for ${selectedCustomer.name}${fromDate && toDate ? ` (${formatDateForDisplay(fromDate)} - ${formatDateForDisplay(toDate)})` : ''}`
-              : "Select a customer to view transactions"}
+              ? t(transactions.length === 1 ? "statement.showingOne" : "statement.showing", {
+                  count: transactions.length,
+                  name: selectedCustomer.name,
+                  from: formatDate(fromDate),
+                  to: formatDate(toDate),
+                })
+              : t("statement.selectToView")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -1020,53 +1156,68 @@ export function CustomerStatement({ systemLogo, systemNameAr, systemNameEn }: Cu
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="w-[110px]">Date</TableHead>
-                  <TableHead className="w-[130px]">Reference</TableHead>
-                  <TableHead className="w-[130px]">Type</TableHead>
-                  <TableHead>Details</TableHead>
-                  <TableHead className="text-right w-[110px]">Invoiced</TableHead>
-                  <TableHead className="text-right w-[110px]">Paid</TableHead>
-                  <TableHead className="text-right w-[120px]">Balance</TableHead>
+                  <TableHead className="w-[110px]">{t("common.date")}</TableHead>
+                  <TableHead className="w-[130px]">{t("statement.reference")}</TableHead>
+                  <TableHead className="w-[130px]">{t("statement.type")}</TableHead>
+                  <TableHead>{t("statement.details")}</TableHead>
+                  <TableHead className="text-end w-[110px]">{t("statement.invoiced")}</TableHead>
+                  <TableHead className="text-end w-[110px]">{t("statement.paid")}</TableHead>
+                  <TableHead className="text-end w-[120px]">{t("statement.balance")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
+                {selectedCustomer && fromDate && (
+                  <TableRow className="bg-muted/40">
+                    <TableCell className="font-medium">{formatDate(fromDate)}</TableCell>
+                    <TableCell className="text-xs font-mono">-</TableCell>
+                    <TableCell />
+                    <TableCell className="text-xs font-medium">{t("statement.openingBroughtForward")}</TableCell>
+                    <TableCell className="text-end">-</TableCell>
+                    <TableCell className="text-end">-</TableCell>
+                    <TableCell className="text-end font-bold text-blue-600">{formatCurrency(openingBalance)}</TableCell>
+                  </TableRow>
+                )}
                 {transactions.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={7} className="text-center text-sm text-muted-foreground py-6">
                       {selectedCustomer 
                         ? fromDate && toDate 
-                          ? `No transactions found for ${selectedCustomer.name} in the selected date range (${formatDateForDisplay(fromDate)} - ${formatDateForDisplay(toDate)}).`
-                          : "No transactions found for this customer."
-                        : "Select a customer to view transactions."}
+                          ? t("statement.noTransactionsInRange", {
+                              name: selectedCustomer.name,
+                              from: formatDate(fromDate),
+                              to: formatDate(toDate),
+                            })
+                          : t("statement.noTransactions")
+                        : t("statement.selectToView")}
                     </TableCell>
                   </TableRow>
                 ) : (
                   transactions.map((transaction) => (
                     <TableRow key={transaction.id}>
-                      <TableCell className="font-medium">{formatDisplayDate(transaction.date)}</TableCell>
+                      <TableCell className="font-medium">{formatDate(transaction.date)}</TableCell>
                       <TableCell className="text-xs font-mono">{transaction.reference}</TableCell>
                       <TableCell>
                         <Badge
                           variant={
-                            transaction.typeLabel === "Invoice"
+                            transaction.type === "invoice"
                               ? "destructive"
-                              : transaction.typeLabel === "Cash"
+                              : transaction.type === "cash"
                               ? "default"
                               : "secondary"
                           }
                         >
-                          {transaction.typeLabel}
+                          {localizedName(transaction.typeLabel, transaction.typeArabic)}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-xs max-w-md">{transaction.details}</TableCell>
-                      <TableCell className="text-right font-medium text-red-600">
-                        {transaction.debit > 0 ? `SAR ${transaction.debit.toFixed(2)}` : "-"}
+                      <TableCell className="text-end font-medium text-red-600">
+                        {transaction.debit > 0 ? formatCurrency(transaction.debit) : "-"}
                       </TableCell>
-                      <TableCell className="text-right font-medium text-green-600">
-                        {transaction.credit > 0 ? `SAR ${transaction.credit.toFixed(2)}` : "-"}
+                      <TableCell className="text-end font-medium text-green-600">
+                        {transaction.credit > 0 ? formatCurrency(transaction.credit) : "-"}
                       </TableCell>
-                      <TableCell className="text-right font-bold text-blue-600">
-                        SAR {transaction.balance.toFixed(2)}
+                      <TableCell className="text-end font-bold text-blue-600">
+                        {formatCurrency(transaction.balance)}
                       </TableCell>
                     </TableRow>
                   ))
@@ -30,10 +30,16 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { thunks, selectors } from "../redux-toolkit/slices";
 import type { Delegates } from "../../supabase/models/delegates";
 import type { Contracts as DbContract } from "../../supabase/models/contracts";
+import type { ContractDevices } from "../../supabase/models/contract_devices";
+import { countDevices, formatDeviceTypes, readContractDetails } from "../lib/contractRecords";
 import { getPrintLogo } from "../lib/getPrintLogo";
+import { getCompanyInfo, getCompanyName, getCompanyNameArabic } from "../lib/companyInfo";
+import type { CompanyBranding } from "../../supabase/models/company_branding";
 import type { MessageTemplateRow, MessageTemplateType, MessageTemplateCategory } from "../../supabase/models/message_templates";
 import { mockMessageTemplates, type MessageTemplateSeed } from "../data/mockMessageTemplates";
 import { supabase } from "../lib/supabaseClient";
+import { navigate, useRecordRoute } from "../lib/router";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface Customer {
   id: number;
@@ -129,9 +135,11 @@ const mapRowToTemplate = (row: MessageTemplateRow): MessageTemplate => ({
 
 export function Customers() {
   const dispatch = useAppDispatch();
+  const { t, formatCurrency, formatDate } = useLocale();
   const dbCustomers = useAppSelector(selectors.customers.selectAll) as any[];
   const dbDelegates = useAppSelector(selectors.delegates.selectAll) as Delegates[];
   const dbContracts = useAppSelector(selectors.contracts.selectAll) as DbContract[];
+  const dbContractDevices = useAppSelector(selectors.contract_devices.selectAll) as ContractDevices[];
   const loading = useAppSelector(selectors.customers.selectLoading);
   const loadError = useAppSelector(selectors.customers.selectError);
   const [searchQuery, setSearchQuery] = useState("");
@@ -177,6 +185,14 @@ export function Customers() {
     });
   }, [dbCustomers, dbDelegates]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const contractTypeLabel = (value: string) => {
+    const type = value.toLowerCase();
+    if (type === "monthly") return t("customers.contractMonthly");
+    if (type === "quarterly") return t("customers.contractQuarterly");
+    if (type === "yearly") return t("customers.contractYearly");
+    return value;
+  };
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
@@ -186,6 +202,44 @@ export function Customers() {
   const [selectedContractCustomer, setSelectedContractCustomer] = useState<Customer | null>(null);
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
 
+  // The details dialog follows the URL (/customers/<id>), so customer links open it
+  const { recordId: linkedCustomerId, openRecord: openCustomer, closeRecord: closeCustomer } = useRecordRoute("customers");
+  useEffect(() => {
+    if (!linkedCustomerId) {
+      setSelectedCustomer(null);
+      return;
+    }
+
+    const customer = customers.find((c) => c.dbId === linkedCustomerId);
+    if (customer) {
+      setSelectedCustomer(customer);
+      return;
+    }
+
+    // Not in the list (yet): only give up when the customer does not exist
+    let cancelled = false;
+    void supabase
+      .from("customers")
+      .select("customer_id")
+      .eq("customer_id", linkedCustomerId)
+      .is("deleted_at", null)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (!cancelled && (error || !data)) {
+          toast.error(translateCurrent("customers.notFound"));
+          closeCustomer();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedCustomerId, customers, closeCustomer]);
+
+  const closeCustomerDetails = () => {
+    setSelectedCustomer(null);
+    closeCustomer();
+  };
+
   const fetchTemplates = useCallback(async () => {
     setTemplatesLoading(true);
     try {
@@ -217,6 +271,7 @@ export function Customers() {
     dispatch(thunks.customers.fetchAll(undefined));
     dispatch(thunks.delegates.fetchAll(undefined));
     dispatch(thunks.contracts.fetchAll(undefined));
+    dispatch(thunks.contract_devices.fetchAll(undefined));
   }, [dispatch]);
 
   useEffect(() => {
@@ -237,7 +292,7 @@ export function Customers() {
     const message = `Hello ${customer.name}, welcome to our scent management service!`;
     const whatsappUrl = `https://wa.me/${customer.mobile.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`;
     window.open(whatsappUrl, '_blank');
-    toast.success(`Opening WhatsApp for ${customer.name}`);
+    toast.success(t("customers.openingWhatsApp", { name: customer.name }));
   };
 
   const sendEmailMessage = (customer: Customer) => {
@@ -245,7 +300,7 @@ export function Customers() {
     const body = `Dear ${customer.name},\n\nThank you for choosing our scent management service.`;
     const mailtoUrl = `mailto:${customer.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
     window.location.href = mailtoUrl;
-    toast.success(`Opening email client for ${customer.name}`);
+    toast.success(t("customers.openingEmail", { name: customer.name }));
   };
 
   const sendTemplateMessage = (customer: Customer, template: MessageTemplate) => {
@@ -298,25 +353,25 @@ export function Customers() {
 
       const mailtoUrl = `mailto:${customer.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message)}`;
       window.location.href = mailtoUrl;
-      toast.success(`Opening email for ${customer.name}`);
+      toast.success(t("customers.openingEmail", { name: customer.name }));
       return;
     }
 
     if (!sanitizedPhone) {
-      toast.error("Customer phone number is invalid");
+      toast.error(t("customers.invalidPhone"));
       return;
     }
 
     if (channel === "sms") {
       const smsUrl = `sms:${sanitizedPhone}?body=${encodeURIComponent(message)}`;
       window.location.href = smsUrl;
-      toast.success(`Preparing SMS for ${customer.name}`);
+      toast.success(t("customers.preparingSms", { name: customer.name }));
       return;
     }
 
     const whatsappUrl = `https://wa.me/${sanitizedPhone}?text=${encodeURIComponent(message)}`;
     window.open(whatsappUrl, "_blank");
-    toast.success(`Sending "${template.name}" to ${customer.name}`);
+    toast.success(t("customers.sendingTemplate", { template: template.name, name: customer.name }));
   };
 
   const updateCustomerStatus = (customerId: number, newStatus: "active" | "inactive" | "pending") => {
@@ -324,8 +379,8 @@ export function Customers() {
     if (!target?.dbId) return;
     dispatch(thunks.customers.updateOne({ id: target.dbId, values: { status: newStatus } as any }))
       .unwrap()
-      .then(() => toast.success(`Customer status updated to ${newStatus}`))
-      .catch((e: any) => toast.error(e.message || 'Failed to update status'));
+      .then(() => toast.success(t("customers.statusUpdated", { status: t(`status.${newStatus}`) })))
+      .catch((e: any) => toast.error(e.message || t("customers.statusUpdateFailed")));
   };
 
   const handleEditCustomer = (customer: Customer) => {
@@ -338,22 +393,14 @@ export function Customers() {
     const dbContract = dbContracts.find(contract => contract.customer_id === customer.dbId);
     
     if (!dbContract) {
-      toast.error(`No contract found for ${customer.name}`, {
-        description: "This customer does not have any contract yet. Please create a contract first.",
+      toast.error(t("customers.noContract", { name: customer.name }), {
+        description: t("customers.noContractDescription"),
         duration: 5000
       });
       return;
     }
     
-    // Parse additional data from notes field
-    let additionalData: any = {};
-    try {
-      if (dbContract.notes) {
-        additionalData = JSON.parse(dbContract.notes);
-      }
-    } catch (e) {
-      additionalData = { notes: dbContract.notes };
-    }
+    const details = readContractDetails(dbContract, dbContractDevices);
 
     // Map database contract to Contract interface
     const contract: Contract = {
@@ -361,38 +408,38 @@ export function Customers() {
       recordId: dbContract.contract_id,
       contractNumber: dbContract.contract_number,
       contractDate: dbContract.contract_start_date,
-      monthlyVisitStartDate: additionalData.monthlyVisitStartDate || dbContract.contract_start_date,
-      clientName: additionalData.clientName || customer.name,
-      clientCr: additionalData.clientCr || customer.commercialRegister || "",
-      clientCity: additionalData.clientCity || customer.location.split(',')[0] || "",
-      clientRepresentative: additionalData.clientRepresentative || customer.representative || "",
-      clientDesignation: additionalData.clientDesignation || "",
-      serviceAddress: dbContract.location || additionalData.serviceAddress || customer.location,
-      postalCode: additionalData.postalCode || "",
-      monthlyAmount: additionalData.monthlyAmount || 0,
-      semiAnnualAmount: additionalData.semiAnnualAmount || 0,
-      annualAmount: additionalData.annualAmount || 0,
-      devicesCount: additionalData.devicesCount || "",
-      deviceTypes: additionalData.deviceTypes || "",
-      emergencyVisitFee: additionalData.emergencyVisitFee || 500,
-      paymentPlan: additionalData.paymentPlan || "monthly",
+      monthlyVisitStartDate: details.monthlyVisitStartDate,
+      clientName: details.clientName || customer.name,
+      clientCr: details.clientCr || customer.commercialRegister || "",
+      clientCity: details.clientCity || customer.location.split(',')[0] || "",
+      clientRepresentative: details.clientRepresentative || customer.representative || "",
+      clientDesignation: details.clientDesignation || "",
+      serviceAddress: details.serviceAddress || customer.location,
+      postalCode: details.postalCode || "",
+      monthlyAmount: details.monthlyAmount,
+      semiAnnualAmount: details.semiAnnualAmount,
+      annualAmount: details.annualAmount,
+      devicesCount: String(countDevices(details.devices)),
+      deviceTypes: formatDeviceTypes(details.devices),
+      emergencyVisitFee: details.emergencyVisitFee,
+      paymentPlan: details.paymentPlan,
       status: (dbContract.contract_status || "draft") as Contract["status"],
       createdDate: dbContract.created_at ? dbContract.created_at.split('T')[0] : new Date().toISOString().split('T')[0],
-      clientPhone: additionalData.clientPhone || customer.mobile,
-      clientEmail: additionalData.clientEmail || customer.email,
-      sentDate: additionalData.sentDate,
-      signedDate: additionalData.signedDate,
-      attachedDate: additionalData.attachedDate,
-      attachedFileName: additionalData.attachedFileName,
-      attachedFileData: additionalData.attachedFileData,
-      attachedFileId: additionalData.attachedFileId,
-      attachedFileUrl: additionalData.attachedFileUrl,
-      suspendedDate: additionalData.suspendedDate,
-      suspensionReason: additionalData.suspensionReason,
-      cancelledDate: additionalData.cancelledDate,
-      cancellationReason: additionalData.cancellationReason,
-      reactivatedDate: additionalData.reactivatedDate,
-      notes: typeof additionalData.notes === 'string' ? additionalData.notes : dbContract.notes || "",
+      clientPhone: details.clientPhone || customer.mobile,
+      clientEmail: details.clientEmail || customer.email,
+      sentDate: details.sentDate,
+      signedDate: details.signedDate,
+      attachedDate: details.attachedDate,
+      attachedFileName: details.attachedFileName,
+      attachedFileData: details.attachedFileData,
+      attachedFileId: details.attachedFileId,
+      attachedFileUrl: details.attachedFileUrl,
+      suspendedDate: details.suspendedDate,
+      suspensionReason: details.suspensionReason,
+      cancelledDate: details.cancelledDate,
+      cancellationReason: details.cancellationReason,
+      reactivatedDate: details.reactivatedDate,
+      notes: details.notes,
     };
     
     setSelectedContractCustomer(customer);
@@ -406,7 +453,7 @@ export function Customers() {
 
     // Load logo from Settings if not provided
     const logoToUse = (await getPrintLogo()) || undefined;
-    const html = generateContractHTML(contract, logoToUse);
+    const html = generateContractHTML(contract, logoToUse, await getCompanyInfo());
     printWindow.document.write(html);
     printWindow.document.close();
     printWindow.print();
@@ -430,7 +477,8 @@ export function Customers() {
       .replace(/{{emergency_visit_fee}}/g, contract.emergencyVisitFee.toLocaleString());
   };
 
-  const generateContractHTML = (contract: Contract, logoToUse?: string) => {
+  const generateContractHTML = (contract: Contract, logoToUse: string | undefined, companyInfo: CompanyBranding | null) => {
+    const companyCommercialRegister = companyInfo?.company_commercial_register || "2051245473";
     return `
       <!DOCTYPE html>
       <html>
@@ -570,8 +618,8 @@ export function Customers() {
           <div class="arabic-section">
             <div class="party-info">
               <div class="party-label">الطرف الأول:</div>
-              <div>شركة مانا الذكية للتجارة</div>
-              <div>سجل تجاري رقم (2051245473)</div>
+              <div>${getCompanyNameArabic(companyInfo)}</div>
+              <div>سجل تجاري رقم (${companyCommercialRegister})</div>
               <div>المقر الرئيسي: الخبر</div>
               <div>ويشار إليها لاحقًا بـ "المزود"</div>
             </div>
@@ -586,8 +634,8 @@ export function Customers() {
           <div class="english-section">
             <div class="party-info">
               <div class="party-label">First Party:</div>
-              <div>Mana Smart Trading Company</div>
-              <div>Commercial Registration No. (2051245473)</div>
+              <div>${getCompanyName(companyInfo)}</div>
+              <div>Commercial Registration No. (${companyCommercialRegister})</div>
               <div>Headquartered in Khobar</div>
               <div>Hereinafter referred to as the "Provider"</div>
             </div>
@@ -732,9 +780,9 @@ export function Customers() {
       .then(() => {
         setIsEditDialogOpen(false);
         setEditingCustomer(null);
-        toast.success('Customer updated successfully!');
+        toast.success(t("customers.updated"));
       })
-      .catch((e: any) => toast.error(e.message || 'Failed to update customer'));
+      .catch((e: any) => toast.error(e.message || t("customers.updateFailed")));
   };
 
   const filteredCustomers = customers.filter(customer => {
@@ -765,9 +813,9 @@ export function Customers() {
       XLSX.utils.book_append_sheet(wb, ws, "Customers");
       const fileName = `customers_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -776,93 +824,93 @@ export function Customers() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2>Customers</h2>
-          <p className="text-muted-foreground mt-1">Manage customer accounts and contracts</p>
+          <h2>{t("customers.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("customers.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <ImportExcelButton section="Customers" />
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                Add Customer
+                {t("customers.add")}
               </Button>
             </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Add New Customer</DialogTitle>
-              <DialogDescription>Enter customer details to create a new account</DialogDescription>
+              <DialogTitle>{t("customers.addTitle")}</DialogTitle>
+              <DialogDescription>{t("customers.addDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Customer Name</Label>
+                  <Label>{t("customers.name")}</Label>
                   <Input placeholder="John Doe" value={createForm.name} onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })} />
                 </div>
                 <div className="space-y-2">
-                  <Label>Company</Label>
-                  <Input placeholder="Company Name" value={createForm.company} onChange={(e) => setCreateForm({ ...createForm, company: e.target.value })} />
+                  <Label>{t("customers.company")}</Label>
+                  <Input placeholder={t("customers.companyPlaceholder")} value={createForm.company} onChange={(e) => setCreateForm({ ...createForm, company: e.target.value })} />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Mobile Number</Label>
+                  <Label>{t("customers.mobile")}</Label>
                   <Input placeholder="05xxxxxxxx" value={createForm.mobile} onChange={(e) => setCreateForm({ ...createForm, mobile: e.target.value })} />
                 </div>
                 <div className="space-y-2">
-                  <Label>Email</Label>
+                  <Label>{t("common.email")}</Label>
                   <Input type="email" placeholder="email@example.com" value={createForm.email} onChange={(e) => setCreateForm({ ...createForm, email: e.target.value })} />
                 </div>
               </div>
               <div className="space-y-2">
-                <Label>Location</Label>
-                <Input placeholder="City, District" value={createForm.location} onChange={(e) => setCreateForm({ ...createForm, location: e.target.value })} />
+                <Label>{t("customers.location")}</Label>
+                <Input placeholder={t("customers.locationPlaceholder")} value={createForm.location} onChange={(e) => setCreateForm({ ...createForm, location: e.target.value })} />
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Commercial Register</Label>
+                  <Label>{t("customers.commercialRegister")}</Label>
                   <Input placeholder="1010123456" value={createForm.commercialRegister} onChange={(e) => setCreateForm({ ...createForm, commercialRegister: e.target.value })} />
                 </div>
                 <div className="space-y-2">
-                  <Label>VAT Number</Label>
+                  <Label>{t("customers.vatNumber")}</Label>
                   <Input placeholder="300159475400003" value={createForm.vatNumber} onChange={(e) => setCreateForm({ ...createForm, vatNumber: e.target.value })} />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Contract Type</Label>
+                  <Label>{t("customers.contractType")}</Label>
                   <Select value={createForm.contractType} onValueChange={(value) => setCreateForm({ ...createForm, contractType: value })}>
                     <SelectTrigger>
-                      <SelectValue placeholder="Select type" />
+                      <SelectValue placeholder={t("customers.selectType")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="monthly">Monthly Service</SelectItem>
-                      <SelectItem value="quarterly">Quarterly Service</SelectItem>
-                      <SelectItem value="yearly">Yearly Service</SelectItem>
+                      <SelectItem value="monthly">{t("customers.contractMonthly")}</SelectItem>
+                      <SelectItem value="quarterly">{t("customers.contractQuarterly")}</SelectItem>
+                      <SelectItem value="yearly">{t("customers.contractYearly")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label>Monthly Amount (SAR)</Label>
+                  <Label>{t("customers.monthlyAmountSar")}</Label>
                   <Input type="number" placeholder="0.00" value={createForm.monthlyAmount} onChange={(e) => setCreateForm({ ...createForm, monthlyAmount: e.target.value })} />
                 </div>
               </div>
               <div className="space-y-2">
-                <Label>Assigned Representative</Label>
+                <Label>{t("customers.representative")}</Label>
                 <Select value={createForm.delegateId || "none"} onValueChange={(value) => setCreateForm({ ...createForm, delegateId: value === "none" ? "" : value })}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select representative" />
+                    <SelectValue placeholder={t("customers.selectRepresentative")} />
                   </SelectTrigger>
                   <SelectContent>
                     {dbDelegates.length === 0 ? (
-                      <SelectItem value="none" disabled>No representatives available. Add representatives first.</SelectItem>
+                      <SelectItem value="none" disabled>{t("customers.noRepresentatives")}</SelectItem>
                     ) : (
                       <>
-                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="none">{t("common.none")}</SelectItem>
                         {dbDelegates.map(delegate => (
                           <SelectItem key={delegate.delegate_id} value={delegate.delegate_id}>
                             {delegate.delegate_name}
@@ -876,7 +924,7 @@ export function Customers() {
             </div>
             <div className="flex justify-end gap-3">
               <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={() => {
                 const values: any = {
@@ -897,11 +945,11 @@ export function Customers() {
                   .then(() => {
                     setIsCreateDialogOpen(false);
                     setCreateForm({ name: '', company: '', mobile: '', email: '', location: '', contractType: '', monthlyAmount: '', delegateId: '', commercialRegister: '', vatNumber: '' });
-                    toast.success('Customer added successfully!');
+                    toast.success(t("customers.added"));
                   })
-                  .catch((e: any) => toast.error(e.message || 'Failed to add customer'));
+                  .catch((e: any) => toast.error(e.message || t("customers.addFailed")));
               }}>
-                Add Customer
+                {t("customers.add")}
               </Button>
             </div>
           </DialogContent>
@@ -913,44 +961,44 @@ export function Customers() {
         <CardHeader>
           <div className="flex items-center gap-4">
             <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
               <Input
-                placeholder="Search customers..."
+                placeholder={t("customers.search")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
+                className="ps-9"
               />
             </div>
             <Select value={filterStatus} onValueChange={setFilterStatus}>
               <SelectTrigger className="w-40">
-                <Filter className="h-4 w-4 mr-2" />
+                <Filter className="h-4 w-4 me-2" />
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="inactive">Inactive</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="active">{t("status.active")}</SelectItem>
+                <SelectItem value="inactive">{t("status.inactive")}</SelectItem>
+                <SelectItem value="pending">{t("status.pending")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </CardHeader>
         <CardContent>
-          {loading && <div>Loading customers...</div>}
+          {loading && <div>{t("customers.loading")}</div>}
           {loadError && <div className="text-red-500">{loadError}</div>}
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Customer Name</TableHead>
-                <TableHead>Company</TableHead>
-                <TableHead>Contact</TableHead>
-                <TableHead>Location</TableHead>
-                <TableHead>Representative</TableHead>
-                <TableHead>Contract Type</TableHead>
-                <TableHead>Monthly Amount</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Quick Actions</TableHead>
-                <TableHead className="text-center">Actions</TableHead>
+                <TableHead>{t("customers.name")}</TableHead>
+                <TableHead>{t("customers.company")}</TableHead>
+                <TableHead>{t("customers.contact")}</TableHead>
+                <TableHead>{t("customers.location")}</TableHead>
+                <TableHead>{t("customers.representativeColumn")}</TableHead>
+                <TableHead>{t("customers.contractType")}</TableHead>
+                <TableHead>{t("customers.monthlyAmount")}</TableHead>
+                <TableHead>{t("common.status")}</TableHead>
+                <TableHead>{t("customers.quickActions")}</TableHead>
+                <TableHead className="text-center">{t("common.actions")}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -959,7 +1007,7 @@ export function Customers() {
                   <TableCell colSpan={10} className="p-0">
                     <div className="flex flex-col items-center justify-center py-12">
                       <User className="h-12 w-12 text-muted-foreground mb-3" />
-                      <p className="text-muted-foreground">No customers found</p>
+                      <p className="text-muted-foreground">{t("customers.empty")}</p>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -994,11 +1042,11 @@ export function Customers() {
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <User className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">{customer.representative || "Not assigned"}</span>
+                      <span className="text-sm">{customer.representative || t("common.notAssigned")}</span>
                     </div>
                   </TableCell>
-                  <TableCell>{customer.contractType}</TableCell>
-                  <TableCell className="font-semibold">{customer.monthlyAmount.toFixed(2)} SAR</TableCell>
+                  <TableCell>{contractTypeLabel(customer.contractType)}</TableCell>
+                  <TableCell className="font-semibold">{formatCurrency(customer.monthlyAmount)}</TableCell>
                   <TableCell>
                     <Select 
                       value={customer.status}
@@ -1011,19 +1059,19 @@ export function Customers() {
                         <SelectItem value="active">
                           <div className="flex items-center gap-2">
                             <div className="h-2 w-2 rounded-full bg-green-500"></div>
-                            Active
+                            {t("status.active")}
                           </div>
                         </SelectItem>
                         <SelectItem value="inactive">
                           <div className="flex items-center gap-2">
                             <div className="h-2 w-2 rounded-full bg-gray-400"></div>
-                            Inactive
+                            {t("status.inactive")}
                           </div>
                         </SelectItem>
                         <SelectItem value="pending">
                           <div className="flex items-center gap-2">
                             <div className="h-2 w-2 rounded-full bg-yellow-500"></div>
-                            Pending
+                            {t("status.pending")}
                           </div>
                         </SelectItem>
                       </SelectContent>
@@ -1034,13 +1082,13 @@ export function Customers() {
                       <DropdownMenuTrigger asChild>
                         <Button size="sm" variant="outline" className="gap-2">
                           <MessageSquare className="h-3.5 w-3.5" />
-                          Send Message
+                          {t("customers.sendMessage")}
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="start" className="w-56">
                         {templatesLoading ? (
                           <DropdownMenuItem disabled>
-                            <span className="text-muted-foreground text-sm">Loading templates...</span>
+                            <span className="text-muted-foreground text-sm">{t("customers.loadingTemplates")}</span>
                           </DropdownMenuItem>
                         ) : messageTemplates.length > 0 ? (
                           messageTemplates.map((template) => (
@@ -1048,13 +1096,13 @@ export function Customers() {
                               key={template.id}
                               onClick={() => sendTemplateMessage(customer, template)}
                             >
-                              <Send className="h-4 w-4 mr-2" />
+                              <Send className="h-4 w-4 me-2" />
                               {template.name}
                             </DropdownMenuItem>
                           ))
                         ) : (
                           <DropdownMenuItem disabled>
-                            <span className="text-muted-foreground text-sm">No templates available</span>
+                            <span className="text-muted-foreground text-sm">{t("customers.noTemplates")}</span>
                           </DropdownMenuItem>
                         )}
                       </DropdownMenuContent>
@@ -1065,10 +1113,10 @@ export function Customers() {
                       <Button 
                         size="sm" 
                         variant="outline"
-                        onClick={() => setSelectedCustomer(customer)}
+                        onClick={() => (customer.dbId ? openCustomer(customer.dbId) : setSelectedCustomer(customer))}
                       >
-                        <Eye className="h-3.5 w-3.5 mr-1" />
-                        View
+                        <Eye className="h-3.5 w-3.5 me-1" />
+                        {t("common.view")}
                       </Button>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -1078,32 +1126,32 @@ export function Customers() {
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
                           <DropdownMenuItem onClick={() => handleEditCustomer(customer)}>
-                            <Edit className="h-4 w-4 mr-2" />
-                            Edit
+                            <Edit className="h-4 w-4 me-2" />
+                            {t("common.edit")}
                           </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => sendWhatsAppMessage(customer)}>
-                            <Phone className="h-4 w-4 mr-2" />
+                            <Phone className="h-4 w-4 me-2" />
                             WhatsApp
                           </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => sendEmailMessage(customer)}>
-                            <Mail className="h-4 w-4 mr-2" />
-                            Email
+                            <Mail className="h-4 w-4 me-2" />
+                            {t("common.email")}
                           </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => handleViewContract(customer)}>
-                            <FileText className="h-4 w-4 mr-2" />
-                            View Contract
+                            <FileText className="h-4 w-4 me-2" />
+                            {t("customers.viewContract")}
                           </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => {
                             if (!customer.dbId) return;
-                            if (confirm('Are you sure you want to delete this customer?')) {
+                            if (confirm(t("customers.deleteConfirm"))) {
                               dispatch(thunks.customers.deleteOne(customer.dbId))
                                 .unwrap()
-                                .then(() => toast.success('Customer deleted'))
-                                .catch((e: any) => toast.error(e.message || 'Failed to delete customer'));
+                                .then(() => toast.success(t("customers.deleted")))
+                                .catch((e: any) => toast.error(e.message || t("customers.deleteFailed")));
                             }
                           }} className="text-destructive">
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
+                            <Trash2 className="h-4 w-4 me-2" />
+                            {t("common.delete")}
                           </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
@@ -1121,13 +1169,13 @@ export function Customers() {
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Edit Customer</DialogTitle>
-              <DialogDescription>Update customer information</DialogDescription>
+              <DialogTitle>{t("customers.editTitle")}</DialogTitle>
+              <DialogDescription>{t("customers.editDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Customer Name</Label>
+                  <Label>{t("customers.name")}</Label>
                   <Input 
                     value={editingCustomer.name}
                     onChange={(e) => setEditingCustomer({ ...editingCustomer, name: e.target.value })}
@@ -1135,17 +1183,17 @@ export function Customers() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Company</Label>
+                  <Label>{t("customers.company")}</Label>
                   <Input 
                     value={editingCustomer.company}
                     onChange={(e) => setEditingCustomer({ ...editingCustomer, company: e.target.value })}
-                    placeholder="Company Name" 
+                    placeholder={t("customers.companyPlaceholder")} 
                   />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Mobile Number</Label>
+                  <Label>{t("customers.mobile")}</Label>
                   <Input 
                     value={editingCustomer.mobile}
                     onChange={(e) => setEditingCustomer({ ...editingCustomer, mobile: e.target.value })}
@@ -1153,7 +1201,7 @@ export function Customers() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Email</Label>
+                  <Label>{t("common.email")}</Label>
                   <Input 
                     type="email"
                     value={editingCustomer.email}
@@ -1163,16 +1211,16 @@ export function Customers() {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label>Location</Label>
+                <Label>{t("customers.location")}</Label>
                 <Input 
                   value={editingCustomer.location}
                   onChange={(e) => setEditingCustomer({ ...editingCustomer, location: e.target.value })}
-                  placeholder="City, District" 
+                  placeholder={t("customers.locationPlaceholder")} 
                 />
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Commercial Register</Label>
+                  <Label>{t("customers.commercialRegister")}</Label>
                   <Input 
                     value={editingCustomer.commercialRegister || ""}
                     onChange={(e) => setEditingCustomer({ ...editingCustomer, commercialRegister: e.target.value })}
@@ -1180,7 +1228,7 @@ export function Customers() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>VAT Number</Label>
+                  <Label>{t("customers.vatNumber")}</Label>
                   <Input 
                     value={editingCustomer.vatNumber || ""}
                     onChange={(e) => setEditingCustomer({ ...editingCustomer, vatNumber: e.target.value })}
@@ -1190,7 +1238,7 @@ export function Customers() {
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Contract Type</Label>
+                  <Label>{t("customers.contractType")}</Label>
                   <Select 
                     value={(editingCustomer.contractType || '').toLowerCase()}
                     onValueChange={(value) => setEditingCustomer({ ...editingCustomer, contractType: value })}
@@ -1199,14 +1247,14 @@ export function Customers() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="monthly">Monthly Service</SelectItem>
-                      <SelectItem value="quarterly">Quarterly Service</SelectItem>
-                      <SelectItem value="yearly">Yearly Service</SelectItem>
+                      <SelectItem value="monthly">{t("customers.contractMonthly")}</SelectItem>
+                      <SelectItem value="quarterly">{t("customers.contractQuarterly")}</SelectItem>
+                      <SelectItem value="yearly">{t("customers.contractYearly")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label>Monthly Amount (SAR)</Label>
+                  <Label>{t("customers.monthlyAmountSar")}</Label>
                   <Input 
                     type="number"
                     value={editingCustomer.monthlyAmount}
@@ -1217,7 +1265,7 @@ export function Customers() {
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Start Date</Label>
+                  <Label>{t("customers.startDate")}</Label>
                   <Input 
                     type="date"
                     value={editingCustomer.startDate}
@@ -1225,7 +1273,7 @@ export function Customers() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Status</Label>
+                  <Label>{t("common.status")}</Label>
                   <Select 
                     value={editingCustomer.status}
                     onValueChange={(value) => setEditingCustomer({ ...editingCustomer, status: value as "active" | "inactive" | "pending" })}
@@ -1234,15 +1282,15 @@ export function Customers() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="inactive">Inactive</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="active">{t("status.active")}</SelectItem>
+                      <SelectItem value="inactive">{t("status.inactive")}</SelectItem>
+                      <SelectItem value="pending">{t("status.pending")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
               <div className="space-y-2">
-                <Label>Assigned Representative</Label>
+                <Label>{t("customers.representative")}</Label>
                 <Select 
                   value={editingCustomer.delegateDbId || "none"}
                   onValueChange={(value) => {
@@ -1263,10 +1311,10 @@ export function Customers() {
                   }}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select representative" />
+                    <SelectValue placeholder={t("customers.selectRepresentative")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="none">{t("common.none")}</SelectItem>
                     {dbDelegates.map(delegate => (
                       <SelectItem key={delegate.delegate_id} value={delegate.delegate_id}>
                         {delegate.delegate_name}
@@ -1281,10 +1329,10 @@ export function Customers() {
                 setIsEditDialogOpen(false);
                 setEditingCustomer(null);
               }}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleSaveEdit}>
-                Save Changes
+                {t("common.saveChanges")}
               </Button>
             </div>
           </DialogContent>
@@ -1293,79 +1341,88 @@ export function Customers() {
 
       {/* Customer Details Dialog */}
       {selectedCustomer && (
-        <Dialog open={!!selectedCustomer} onOpenChange={() => setSelectedCustomer(null)}>
+        <Dialog open={!!selectedCustomer} onOpenChange={closeCustomerDetails}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Customer Details</DialogTitle>
+              <DialogTitle>{t("customers.detailsTitle")}</DialogTitle>
               <DialogDescription>{selectedCustomer.company}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Customer Name</Label>
+                  <Label className="text-muted-foreground">{t("customers.name")}</Label>
                   <p className="font-medium">{selectedCustomer.name}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Company</Label>
+                  <Label className="text-muted-foreground">{t("customers.company")}</Label>
                   <p className="font-medium">{selectedCustomer.company}</p>
                 </div>
               </div>
               <Separator />
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Mobile</Label>
+                  <Label className="text-muted-foreground">{t("customers.mobileShort")}</Label>
                   <p className="font-medium">{selectedCustomer.mobile}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Email</Label>
+                  <Label className="text-muted-foreground">{t("common.email")}</Label>
                   <p className="font-medium">{selectedCustomer.email}</p>
                 </div>
               </div>
               <div>
-                <Label className="text-muted-foreground">Location</Label>
+                <Label className="text-muted-foreground">{t("customers.location")}</Label>
                 <p className="font-medium">{selectedCustomer.location}</p>
               </div>
               <Separator />
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Commercial Register</Label>
-                  <p className="font-medium">{selectedCustomer.commercialRegister || "N/A"}</p>
+                  <Label className="text-muted-foreground">{t("customers.commercialRegister")}</Label>
+                  <p className="font-medium">{selectedCustomer.commercialRegister || t("common.notAvailable")}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">VAT Number</Label>
-                  <p className="font-medium">{selectedCustomer.vatNumber || "N/A"}</p>
+                  <Label className="text-muted-foreground">{t("customers.vatNumber")}</Label>
+                  <p className="font-medium">{selectedCustomer.vatNumber || t("common.notAvailable")}</p>
                 </div>
               </div>
               <Separator />
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Contract Type</Label>
-                  <p className="font-medium">{selectedCustomer.contractType}</p>
+                  <Label className="text-muted-foreground">{t("customers.contractType")}</Label>
+                  <p className="font-medium">{contractTypeLabel(selectedCustomer.contractType)}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Monthly Amount</Label>
-                  <p className="font-medium">{selectedCustomer.monthlyAmount.toFixed(2)} SAR</p>
+                  <Label className="text-muted-foreground">{t("customers.monthlyAmount")}</Label>
+                  <p className="font-medium">{formatCurrency(selectedCustomer.monthlyAmount)}</p>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Start Date</Label>
-                  <p className="font-medium">{selectedCustomer.startDate}</p>
+                  <Label className="text-muted-foreground">{t("customers.startDate")}</Label>
+                  <p className="font-medium">{formatDate(selectedCustomer.startDate)}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Status</Label>
+                  <Label className="text-muted-foreground">{t("common.status")}</Label>
                   <Badge variant={selectedCustomer.status === "active" ? "default" : selectedCustomer.status === "inactive" ? "secondary" : "outline"}>
-                    {selectedCustomer.status.charAt(0).toUpperCase() + selectedCustomer.status.slice(1)}
+                    {t(`status.${selectedCustomer.status}`)}
                   </Badge>
                 </div>
               </div>
             </div>
             <div className="flex justify-end gap-3">
-              <Button variant="outline" onClick={() => setSelectedCustomer(null)}>Close</Button>
+              <Button variant="outline" onClick={closeCustomerDetails}>{t("common.close")}</Button>
+              {selectedCustomer.dbId && (
+                <Button
+                  variant="outline"
+                  onClick={() => navigate({ page: "statements", recordId: selectedCustomer.dbId })}
+                >
+                  <FileText className="h-4 w-4 me-2" />
+                  {t("customers.statement")}
+                </Button>
+              )}
               <Button onClick={() => {
                 handleEditCustomer(selectedCustomer);
-                setSelectedCustomer(null);
-              }}>Edit Customer</Button>
+                closeCustomerDetails();
+              }}>{t("customers.editTitle")}</Button>
             </div>
           </DialogContent>
         </Dialog>
@@ -1376,35 +1433,35 @@ export function Customers() {
         <Dialog open={isContractDialogOpen} onOpenChange={setIsContractDialogOpen}>
           <DialogContent className="max-w-3xl">
             <DialogHeader>
-              <DialogTitle>Contract Details</DialogTitle>
-              <DialogDescription>View contract information for {selectedContractCustomer?.company}</DialogDescription>
+              <DialogTitle>{t("customers.contractTitle")}</DialogTitle>
+              <DialogDescription>{t("customers.contractDescription", { company: selectedContractCustomer?.company ?? "" })}</DialogDescription>
             </DialogHeader>
             <div className="space-y-6 py-4">
               {/* Contract Information */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Contract Information</h3>
+                <h3 className="text-lg font-semibold">{t("customers.contractInformation")}</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-muted-foreground">Contract Number</Label>
+                    <Label className="text-muted-foreground">{t("customers.contractNumber")}</Label>
                     <p className="font-medium">{selectedContract.contractNumber}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Contract Date</Label>
-                    <p className="font-medium">{new Date(selectedContract.contractDate).toLocaleDateString('en-GB')}</p>
+                    <Label className="text-muted-foreground">{t("customers.contractDate")}</Label>
+                    <p className="font-medium">{formatDate(selectedContract.contractDate)}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Payment Plan</Label>
+                    <Label className="text-muted-foreground">{t("customers.paymentPlan")}</Label>
                     <p className="font-medium capitalize">{selectedContract.paymentPlan.replace('-', ' ')}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Status</Label>
+                    <Label className="text-muted-foreground">{t("common.status")}</Label>
                     <Badge variant={
                       selectedContract.status === "active" ? "default" : 
                       selectedContract.status === "draft" ? "secondary" : 
                       selectedContract.status === "signed" ? "outline" : 
                       "destructive"
                     }>
-                      {selectedContract.status.charAt(0).toUpperCase() + selectedContract.status.slice(1)}
+                      {t(`status.${selectedContract.status}`)}
                     </Badge>
                   </div>
                 </div>
@@ -1414,31 +1471,31 @@ export function Customers() {
 
               {/* Client Information */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Client Information</h3>
+                <h3 className="text-lg font-semibold">{t("customers.clientInformation")}</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-muted-foreground">Client Name</Label>
+                    <Label className="text-muted-foreground">{t("customers.clientName")}</Label>
                     <p className="font-medium">{selectedContract.clientName}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Commercial Register</Label>
-                    <p className="font-medium">{selectedContract.clientCr || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("customers.commercialRegister")}</Label>
+                    <p className="font-medium">{selectedContract.clientCr || t("common.notAvailable")}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">City</Label>
-                    <p className="font-medium">{selectedContract.clientCity || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("customers.city")}</Label>
+                    <p className="font-medium">{selectedContract.clientCity || t("common.notAvailable")}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Representative</Label>
-                    <p className="font-medium">{selectedContract.clientRepresentative || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("customers.representativeColumn")}</Label>
+                    <p className="font-medium">{selectedContract.clientRepresentative || t("common.notAvailable")}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Email</Label>
-                    <p className="font-medium">{selectedContract.clientEmail || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("common.email")}</Label>
+                    <p className="font-medium">{selectedContract.clientEmail || t("common.notAvailable")}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Phone</Label>
-                    <p className="font-medium">{selectedContract.clientPhone || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("common.phone")}</Label>
+                    <p className="font-medium">{selectedContract.clientPhone || t("common.notAvailable")}</p>
                   </div>
                 </div>
               </div>
@@ -1447,31 +1504,31 @@ export function Customers() {
 
               {/* Service Details */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Service Details</h3>
+                <h3 className="text-lg font-semibold">{t("customers.serviceDetails")}</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-muted-foreground">Service Address</Label>
+                    <Label className="text-muted-foreground">{t("customers.serviceAddress")}</Label>
                     <p className="font-medium">{selectedContract.serviceAddress}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Postal Code</Label>
-                    <p className="font-medium">{selectedContract.postalCode || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("customers.postalCode")}</Label>
+                    <p className="font-medium">{selectedContract.postalCode || t("common.notAvailable")}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Monthly Amount</Label>
-                    <p className="font-medium">{selectedContract.monthlyAmount.toFixed(2)} SAR</p>
+                    <Label className="text-muted-foreground">{t("customers.monthlyAmount")}</Label>
+                    <p className="font-medium">{formatCurrency(selectedContract.monthlyAmount)}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Emergency Visit Fee</Label>
-                    <p className="font-medium">{selectedContract.emergencyVisitFee.toFixed(2)} SAR</p>
+                    <Label className="text-muted-foreground">{t("customers.emergencyVisitFee")}</Label>
+                    <p className="font-medium">{formatCurrency(selectedContract.emergencyVisitFee)}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Devices Count</Label>
-                    <p className="font-medium">{selectedContract.devicesCount || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("customers.devicesCount")}</Label>
+                    <p className="font-medium">{selectedContract.devicesCount || t("common.notAvailable")}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Device Types</Label>
-                    <p className="font-medium">{selectedContract.deviceTypes || "N/A"}</p>
+                    <Label className="text-muted-foreground">{t("customers.deviceTypes")}</Label>
+                    <p className="font-medium">{selectedContract.deviceTypes || t("common.notAvailable")}</p>
                   </div>
                 </div>
               </div>
@@ -1481,24 +1538,24 @@ export function Customers() {
                 <>
                   <Separator />
                   <div className="space-y-4">
-                    <h3 className="text-lg font-semibold">Important Dates</h3>
+                    <h3 className="text-lg font-semibold">{t("customers.importantDates")}</h3>
                     <div className="grid grid-cols-2 gap-4">
                       {selectedContract.sentDate && (
                         <div>
-                          <Label className="text-muted-foreground">Sent Date</Label>
-                          <p className="font-medium">{new Date(selectedContract.sentDate).toLocaleDateString('en-GB')}</p>
+                          <Label className="text-muted-foreground">{t("customers.sentDate")}</Label>
+                          <p className="font-medium">{formatDate(selectedContract.sentDate)}</p>
                         </div>
                       )}
                       {selectedContract.signedDate && (
                         <div>
-                          <Label className="text-muted-foreground">Signed Date</Label>
-                          <p className="font-medium">{new Date(selectedContract.signedDate).toLocaleDateString('en-GB')}</p>
+                          <Label className="text-muted-foreground">{t("customers.signedDate")}</Label>
+                          <p className="font-medium">{formatDate(selectedContract.signedDate)}</p>
                         </div>
                       )}
                       {selectedContract.attachedDate && (
                         <div>
-                          <Label className="text-muted-foreground">Attached Date</Label>
-                          <p className="font-medium">{new Date(selectedContract.attachedDate).toLocaleDateString('en-GB')}</p>
+                          <Label className="text-muted-foreground">{t("customers.attachedDate")}</Label>
+                          <p className="font-medium">{formatDate(selectedContract.attachedDate)}</p>
                         </div>
                       )}
                     </div>
@@ -1511,7 +1568,7 @@ export function Customers() {
                 <>
                   <Separator />
                   <div className="space-y-4">
-                    <h3 className="text-lg font-semibold">Notes</h3>
+                    <h3 className="text-lg font-semibold">{t("common.notes")}</h3>
                     <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">
                       {selectedContract.notes}
                     </p>
@@ -1525,7 +1582,7 @@ export function Customers() {
                 setSelectedContract(null);
                 setSelectedContractCustomer(null);
               }}>
-                Close
+                {t("common.close")}
               </Button>
               <Button onClick={() => {
                 if (selectedContract) {
@@ -1533,7 +1590,7 @@ export function Customers() {
                 }
               }} className="gap-2">
                 <Printer className="h-4 w-4" />
-                Print Contract
+                {t("customers.printContract")}
               </Button>
             </div>
           </DialogContent>
@@ -43,6 +43,8 @@ import type { Contracts } from "../../supabase/models/contracts";
 import type { MarketingCampaigns } from "../../supabase/models/marketing_campaigns";
 import type { MonthlyVisits } from "../../supabase/models/monthly_visits";
 import { Button } from "./ui/button";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 interface DashboardProps {
   reminders: Reminder[];
@@ -119,16 +121,22 @@ const activityActionIcons = {
   received: ArrowDownRight,
 };
 
-const currencyFormatter = new Intl.NumberFormat("en-SA", {
-  style: "currency",
-  currency: "SAR",
-  maximumFractionDigits: 0,
-});
+const ACTIVITY_TYPE_KEYS: Record<Activity["type"], MessageKey> = {
+  customer: "dashboard.activityType.customer",
+  lead: "dashboard.activityType.lead",
+  contract: "dashboard.activityType.contract",
+  visit: "dashboard.activityType.visit",
+  payment: "dashboard.activityType.payment",
+  quotation: "dashboard.activityType.quotation",
+  invoice: "dashboard.activityType.invoice",
+  reminder: "dashboard.activityType.reminder",
+  system: "dashboard.activityType.system",
+};
 
-const formatPercentLabel = (value: number) => {
-  if (!Number.isFinite(value)) return "0%";
-  const rounded = value.toFixed(1);
-  return `${value >= 0 ? "+" : ""}${rounded}%`;
+const PRIORITY_KEYS: Record<Reminder["priority"], MessageKey> = {
+  high: "dashboard.priority.high",
+  medium: "dashboard.priority.medium",
+  low: "dashboard.priority.low",
 };
 
 const safeDate = (value?: string | null) => {
@@ -139,6 +147,26 @@ const safeDate = (value?: string | null) => {
 };
 
 export function Dashboard({ reminders, activities }: DashboardProps) {
+  const { t, formatNumber, formatDate, formatDateTime, monthName } = useLocale();
+  // Whole riyals: the cards and chart show totals, not settled amounts
+  const formatAmount = useCallback(
+    (value: number) => formatNumber(value, { style: "currency", currency: "SAR", maximumFractionDigits: 0 }),
+    [formatNumber]
+  );
+  const formatPercent = useCallback(
+    (value: number) => formatNumber(value / 100, { style: "percent", minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    [formatNumber]
+  );
+  const formatSignedPercent = useCallback(
+    (value: number) =>
+      formatNumber(Number.isFinite(value) ? value / 100 : 0, {
+        style: "percent",
+        signDisplay: "always",
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      }),
+    [formatNumber]
+  );
   const [metrics, setMetrics] = useState<DashboardMetrics>({
     totalRevenue: 0,
     revenueGrowthPercent: 0,
@@ -176,8 +204,8 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
     try {
       const [paymentsRes, customersRes, contractsRes, marketingRes, visitsRes] = await Promise.all([
         supabase.from("payments").select("paid_amount,payment_date,created_at"),
-        supabase.from("customers").select("status,created_at"),
-        supabase.from("contracts").select("contract_status,contract_start_date,created_at,contract_amount"),
+        supabase.from("customers").select("status,created_at").is("deleted_at", null),
+        supabase.from("contracts").select("contract_status,contract_start_date,created_at,contract_amount").is("deleted_at", null),
         supabase.from("marketing_campaigns").select("status,performance,last_modified"),
         supabase
           .from("manual_visits")
@@ -219,7 +247,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
         const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
         revenueSeriesData.push({
-          month: date.toLocaleString("en-US", { month: "short" }),
+          month: key,
           revenue: Number((monthMap.get(key) ?? 0).toFixed(2)),
         });
       }
@@ -288,11 +316,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         date.setDate(date.getDate() - i);
         const key = date.toISOString().slice(0, 10);
         visitsSeriesData.push({
-          day: date.toLocaleDateString("en-GB", {
-            weekday: "short",
-            month: "short",
-            day: "numeric",
-          }),
+          day: key,
           visits: visitsMap.get(key) ?? 0,
         });
       }
@@ -312,7 +336,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         totalClicks,
       });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to load dashboard data";
+      const message = error instanceof Error ? error.message : translateCurrent("dashboard.loadFailed");
       setMetricsError(message);
     } finally {
       setMetricsLoading(false);
@@ -333,11 +357,13 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         supabase
           .from("customers")
           .select("customer_id, customer_name, status, created_at")
+          .is("deleted_at", null)
           .order("created_at", { ascending: false })
           .limit(25),
         supabase
           .from("contracts")
           .select("contract_id, contract_number, contract_status, contract_amount, created_at, contract_start_date")
+          .is("deleted_at", null)
           .order("created_at", { ascending: false })
           .limit(25),
         supabase
@@ -377,15 +403,19 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           id: nextId(),
           type: activityTypeFallback.payments,
           action: activityActionFallback.payments,
-          title: "Payment recorded",
-          description: `Payment of ${currencyFormatter.format(payment.paid_amount ?? 0)} received` +
-            (payment.payment_method ? ` via ${payment.payment_method}` : ""),
-          user: "System",
-          userRole: "automation",
+          title: t("dashboard.feed.paymentRecorded"),
+          description: payment.payment_method
+            ? t("dashboard.feed.paymentReceivedVia", {
+                amount: formatAmount(payment.paid_amount ?? 0),
+                method: payment.payment_method,
+              })
+            : t("dashboard.feed.paymentReceived", { amount: formatAmount(payment.paid_amount ?? 0) }),
+          user: t("dashboard.feed.system"),
+          userRole: t("dashboard.feed.automation"),
           timestamp,
-          relatedEntity: payment.invoice_id ? `Invoice ${payment.invoice_id}` : undefined,
+          relatedEntity: payment.invoice_id ? t("dashboard.feed.invoiceRef", { id: payment.invoice_id }) : undefined,
           details: {
-            amount: currencyFormatter.format(payment.paid_amount ?? 0),
+            amount: formatAmount(payment.paid_amount ?? 0),
             status: payment.payment_method ?? undefined,
           },
         });
@@ -398,10 +428,10 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           id: nextId(),
           type: activityTypeFallback.customers,
           action: activityActionFallback.customers,
-          title: "New customer added",
+          title: t("dashboard.feed.customerAdded"),
           description: `${customer.customer_name}`,
-          user: "System",
-          userRole: "automation",
+          user: t("dashboard.feed.system"),
+          userRole: t("dashboard.feed.automation"),
           timestamp: created,
           relatedEntity: customer.customer_id,
           details: {
@@ -417,14 +447,14 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           id: nextId(),
           type: activityTypeFallback.contracts,
           action: activityActionFallback.contracts,
-          title: "Contract created",
+          title: t("dashboard.feed.contractCreated"),
           description: `${contract.contract_number ?? contract.contract_id}`,
-          user: "System",
-          userRole: "automation",
+          user: t("dashboard.feed.system"),
+          userRole: t("dashboard.feed.automation"),
           timestamp: created.toISOString(),
           relatedEntity: contract.contract_id,
           details: {
-            amount: currencyFormatter.format(contract.contract_amount ?? 0),
+            amount: formatAmount(contract.contract_amount ?? 0),
             status: contract.contract_status ?? "active",
           },
         });
@@ -437,10 +467,12 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           id: nextId(),
           type: activityTypeFallback.marketing,
           action: activityActionFallback.marketing,
-          title: `Campaign ${campaign.status ? campaign.status.toLowerCase() : "updated"}`,
+          title: campaign.status
+            ? t("dashboard.feed.campaignStatus", { status: campaign.status.toLowerCase() })
+            : t("dashboard.feed.campaignUpdated"),
           description: campaign.campaign_name,
-          user: "System",
-          userRole: "automation",
+          user: t("dashboard.feed.system"),
+          userRole: t("dashboard.feed.automation"),
           timestamp: modified.toISOString(),
           relatedEntity: campaign.campaign_id,
           details: {
@@ -456,10 +488,10 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           id: nextId(),
           type: activityTypeFallback.visits,
           action: activityActionFallback.visits,
-          title: "Visit logged",
-          description: visit.address ?? "Scheduled visit",
-          user: "System",
-          userRole: "automation",
+          title: t("dashboard.feed.visitLogged"),
+          description: visit.address ?? t("dashboard.feed.scheduledVisit"),
+          user: t("dashboard.feed.system"),
+          userRole: t("dashboard.feed.automation"),
           timestamp: created.toISOString(),
           relatedEntity: visit.visit_id,
           details: {
@@ -471,12 +503,12 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
       collected.sort((a, b) => (a.timestamp < b.timestamp ? 1 : -1));
       setDbActivities(collected);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to load system activities";
+      const message = error instanceof Error ? error.message : t("dashboard.activitiesFailed");
       setActivitiesError(message);
     } finally {
       setActivitiesLoading(false);
     }
-  }, []);
+  }, [t, formatAmount]);
 
   useEffect(() => {
     void loadDashboardData();
@@ -523,42 +555,56 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
 
   const recentActivities = activityFeed.slice(0, 10);
 
+  const activityTypeLabel = (type: string) => {
+    const key = ACTIVITY_TYPE_KEYS[type as Activity["type"]];
+    return key ? t(key) : type;
+  };
+
+  const revenueChartData = useMemo(
+    () => revenueSeries.map((point) => ({ ...point, month: monthName(Number(point.month.slice(5, 7))) })),
+    [revenueSeries, monthName]
+  );
+  const visitsChartData = useMemo(
+    () => visitsSeries.map((point) => ({ ...point, day: formatDate(point.day) })),
+    [visitsSeries, formatDate]
+  );
+
   const statsCards = useMemo(
     () => [
       {
-        title: "Total Revenue",
-        value: currencyFormatter.format(metrics.totalRevenue),
-        changeLabel: formatPercentLabel(metrics.revenueGrowthPercent),
+        title: t("dashboard.stats.totalRevenue"),
+        value: formatAmount(metrics.totalRevenue),
+        changeLabel: formatSignedPercent(metrics.revenueGrowthPercent),
         trend: metrics.revenueGrowthPercent >= 0 ? "up" : "down",
         icon: DollarSign,
-        description: "vs previous month revenue",
+        description: t("dashboard.stats.vsPreviousMonth"),
       },
       {
-        title: "Active Customers",
-        value: metrics.activeCustomers.toLocaleString(),
-        changeLabel: `${metrics.newCustomersThisMonth.toLocaleString()} new this month`,
+        title: t("dashboard.stats.activeCustomers"),
+        value: formatNumber(metrics.activeCustomers),
+        changeLabel: t("dashboard.stats.newThisMonth", { count: formatNumber(metrics.newCustomersThisMonth) }),
         trend: metrics.customerGrowthPercent >= 0 ? "up" : "down",
         icon: Users,
-        description: "Customers marked as active",
+        description: t("dashboard.stats.customersActive"),
       },
       {
-        title: "Active Contracts",
-        value: metrics.activeContracts.toLocaleString(),
-        changeLabel: `${metrics.newContractsThisMonth.toLocaleString()} new this month`,
+        title: t("dashboard.stats.activeContracts"),
+        value: formatNumber(metrics.activeContracts),
+        changeLabel: t("dashboard.stats.newThisMonth", { count: formatNumber(metrics.newContractsThisMonth) }),
         trend: metrics.newContractsThisMonth >= 0 ? "up" : "down",
         icon: FileText,
-        description: "Contracts with status active",
+        description: t("dashboard.stats.contractsActive"),
       },
       {
-        title: "Avg Campaign CTR",
-        value: `${metrics.averageCtr.toFixed(2)}%`,
-        changeLabel: `${metrics.totalClicks.toLocaleString()} clicks`,
+        title: t("dashboard.stats.campaignCtr"),
+        value: formatPercent(metrics.averageCtr),
+        changeLabel: t("dashboard.stats.clicks", { count: formatNumber(metrics.totalClicks) }),
         trend: "up" as const,
         icon: TrendingUp,
-        description: `${metrics.totalImpressions.toLocaleString()} impressions total`,
+        description: t("dashboard.stats.impressions", { count: formatNumber(metrics.totalImpressions) }),
       },
     ],
-    [metrics]
+    [metrics, t, formatNumber, formatAmount, formatPercent, formatSignedPercent]
   );
 
   const formatTimestamp = (timestamp: string) => {
@@ -569,17 +615,12 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
     const diffHours = Math.floor(diffMs / 3600000);
     const diffDays = Math.floor(diffMs / 86400000);
 
-    if (diffMins < 1) return "Just now";
-    if (diffMins < 60) return `${diffMins} min${diffMins > 1 ? "s" : ""} ago`;
-    if (diffHours < 24) return`${diffHours} hour${diffHours > 1 ? "s" : ""} ago`;
-    if (diffDays < 7) return`${diffDays} day${diffDays > 1 ? "s" : ""} ago`;
-
-    return date.toLocaleDateString("en-GB", {
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+    if (diffMins < 1) return t("dashboard.justNow");
+    if (diffMins < 60) return t(diffMins > 1 ? "dashboard.minutesAgo" : "dashboard.minuteAgo", { count: diffMins });
+    if (diffHours < 24) return t(diffHours > 1 ? "dashboard.hoursAgo" : "dashboard.hourAgo", { count: diffHours });
+    if (diffDays < 7) return t(diffDays > 1 ? "dashboard.daysAgo" : "dashboard.dayAgo", { count: diffDays });
+
+    return formatDateTime(date);
   };
 
   const renderStatsSkeleton = () => (
@@ -602,9 +643,9 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="text-2xl font-semibold tracking-tight">Dashboard Overview</h2>
+        <h2 className="text-2xl font-semibold tracking-tight">{t("dashboard.title")}</h2>
         <p className="text-muted-foreground mt-1">
-          Welcome back! Here's what's happening with your business today.
+          {t("dashboard.subtitle")}
         </p>
       </div>
 
@@ -660,7 +701,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         <Card className="hover:shadow-md transition-shadow bg-gradient-to-br from-blue-50 to-white border-blue-100">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
-              Today's Activities
+              {t("dashboard.todayActivities")}
             </CardTitle>
             <div className="h-8 w-8 rounded-lg bg-blue-100 flex items-center justify-center">
               <ActivityIcon className="h-4 w-4 text-blue-600" />
@@ -671,9 +712,9 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
             <div className="flex items-center gap-1 mt-1">
               <div className="flex items-center gap-0.5 text-xs font-medium text-blue-600">
                 <TrendingUp className="h-3 w-3" />
-                Active
+                {t("dashboard.activeTrend")}
               </div>
-              <span className="text-xs text-muted-foreground">system events</span>
+              <span className="text-xs text-muted-foreground">{t("dashboard.systemEvents")}</span>
             </div>
           </CardContent>
         </Card>
@@ -683,15 +724,15 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         <Card className="lg:col-span-4 hover:shadow-md transition-shadow">
           <CardHeader className="flex items-center justify-between">
             <div>
-            <CardTitle>Revenue Overview</CardTitle>
-              <CardDescription>Monthly revenue for the last 6 months</CardDescription>
+            <CardTitle>{t("dashboard.revenueTitle")}</CardTitle>
+              <CardDescription>{t("dashboard.revenueDescription")}</CardDescription>
             </div>
             <Button
               variant="outline"
               size="icon"
               onClick={() => void loadDashboardData()}
               disabled={metricsLoading}
-              title="Refresh revenue data"
+              title={t("dashboard.refreshRevenue")}
             >
               {metricsLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
             </Button>
@@ -699,11 +740,11 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           <CardContent>
             {revenueSeries.length === 0 ? (
               <div className="py-12 text-center text-muted-foreground text-sm">
-                No revenue data available
+                {t("dashboard.noRevenue")}
               </div>
             ) : (
             <ResponsiveContainer width="100%" height={300}>
-                <AreaChart data={revenueSeries}>
+                <AreaChart data={revenueChartData}>
                 <defs>
                   <linearGradient id="colorRevenue" x1="0" y1="0" x2="0" y2="1">
                       <stop offset="5%" stopColor="#2563eb" stopOpacity={0.3} />
@@ -725,7 +766,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                       borderRadius: "8px",
                       boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
                     }}
-                    formatter={(value: number) => currencyFormatter.format(value)}
+                    formatter={(value: number) => [formatAmount(value), t("dashboard.revenue")]}
                   />
                   <Area
                     type="monotone"
@@ -742,8 +783,8 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
 
         <Card className="lg:col-span-3 hover:shadow-md transition-shadow">
           <CardHeader>
-            <CardTitle>Activity by Type</CardTitle>
-            <CardDescription>Distribution of activities today</CardDescription>
+            <CardTitle>{t("dashboard.byTypeTitle")}</CardTitle>
+            <CardDescription>{t("dashboard.byTypeDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -756,7 +797,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
               ) : activityDistribution.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   <ActivityIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">No activities today</p>
+                  <p className="text-sm">{t("dashboard.noActivitiesToday")}</p>
                 </div>
               ) : (
                 activityDistribution.map(([type, count]) => {
@@ -769,7 +810,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                   <div className="flex items-center justify-between text-sm">
                     <div className="flex items-center gap-2">
                           <div className={`h-3 w-3 rounded-full ${progressClass}`}></div>
-                      <span className="font-medium capitalize">{type}</span>
+                      <span className="font-medium">{activityTypeLabel(type)}</span>
                     </div>
                     <span className="font-semibold">{count}</span>
                   </div>
@@ -791,8 +832,8 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
       <div className="grid gap-6 lg:grid-cols-2">
         <Card>
           <CardHeader>
-            <CardTitle>Today's Pending Reminders</CardTitle>
-            <CardDescription>Tasks scheduled for today</CardDescription>
+            <CardTitle>{t("dashboard.pendingTitle")}</CardTitle>
+            <CardDescription>{t("dashboard.pendingDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -833,7 +874,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                             : "outline"
                         }
                       >
-                        {reminder.priority}
+                        {t(PRIORITY_KEYS[reminder.priority])}
                       </Badge>
                     </div>
                   );
@@ -841,7 +882,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <Calendar className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>No pending reminders for today</p>
+                  <p>{t("dashboard.noPending")}</p>
                 </div>
               )}
             </div>
@@ -850,8 +891,8 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
 
         <Card>
           <CardHeader>
-            <CardTitle>Completed Today</CardTitle>
-            <CardDescription>Tasks completed today</CardDescription>
+            <CardTitle>{t("dashboard.completedTitle")}</CardTitle>
+            <CardDescription>{t("dashboard.completedDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -874,16 +915,11 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                         <p className="text-xs text-muted-foreground">{reminder.description}</p>
                         {reminder.completedAt && (
                           <p className="text-xs text-green-600 font-medium">
-                            ✓ Completed at
-                            {" "}
-                            {new Date(reminder.completedAt).toLocaleTimeString("en-US", {
-                              hour: "2-digit",
-                              minute: "2-digit",
-                            })}
+                            ✓ {t("dashboard.completedAt", { time: formatDateTime(reminder.completedAt) })}
                           </p>
                         )}
                         {reminder.customer && (
-                          <p className="text-xs text-muted-foreground">Customer: {reminder.customer}</p>
+                          <p className="text-xs text-muted-foreground">{t("dashboard.customerName", { name: reminder.customer })}</p>
                         )}
                       </div>
                     </div>
@@ -892,7 +928,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <CheckCircle2 className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>No tasks completed yet today</p>
+                  <p>{t("dashboard.noCompleted")}</p>
                 </div>
               )}
             </div>
@@ -903,8 +939,8 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
       {upcomingReminders.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Upcoming Reminders</CardTitle>
-            <CardDescription>Next scheduled tasks</CardDescription>
+            <CardTitle>{t("dashboard.upcomingTitle")}</CardTitle>
+            <CardDescription>{t("dashboard.upcomingDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -923,10 +959,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                       <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1">
                         <span className="flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          {new Date(reminder.date).toLocaleDateString("en-GB", {
-                            month: "short",
-                            day: "numeric",
-                          })}
+                          {formatDate(reminder.date)}
                         </span>
                         <span className="flex items-center gap-1">
                           <Clock className="h-3 w-3" />
@@ -950,7 +983,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                       }
                       className="text-xs"
                     >
-                      {reminder.priority}
+                      {t(PRIORITY_KEYS[reminder.priority])}
                     </Badge>
                   </div>
                 );
@@ -964,8 +997,8 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle className="text-lg">System Activity Log</CardTitle>
-              <CardDescription className="text-xs">Recent system activities</CardDescription>
+              <CardTitle className="text-lg">{t("dashboard.logTitle")}</CardTitle>
+              <CardDescription className="text-xs">{t("dashboard.logDescription")}</CardDescription>
             </div>
             <div className="flex items-center gap-2">
             <Badge variant="secondary" className="gap-1">
@@ -977,7 +1010,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                 size="icon"
                 onClick={() => void loadActivities()}
                 disabled={activitiesLoading}
-                title="Refresh activities"
+                title={t("dashboard.refreshActivities")}
               >
                 {activitiesLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
               </Button>
@@ -985,7 +1018,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           </div>
         </CardHeader>
         <CardContent>
-          <ScrollArea className="h-[280px] pr-3">
+          <ScrollArea className="h-[280px] pe-3">
             <div className="space-y-2">
               {activitiesLoading && dbActivities.length === 0 ? (
                 <div className="space-y-3">
@@ -995,7 +1028,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                 </div>
               ) : activityFeed.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground text-sm">
-                  No activity records available
+                  {t("dashboard.noRecords")}
                 </div>
               ) : (
                 activityFeed.slice(0, 25).map((activity) => {
@@ -1021,7 +1054,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                               </p>
                           </div>
                           <Badge variant="outline" className="text-xs px-1.5 py-0">
-                            {activity.type}
+                            {activityTypeLabel(activity.type)}
                           </Badge>
                         </div>
 
@@ -1055,17 +1088,17 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
       <div className="grid gap-4 md:grid-cols-2">
         <Card className="hover:shadow-md transition-shadow">
           <CardHeader>
-            <CardTitle>Weekly Visits</CardTitle>
-            <CardDescription>Number of customer visits this week</CardDescription>
+            <CardTitle>{t("dashboard.visitsTitle")}</CardTitle>
+            <CardDescription>{t("dashboard.visitsDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             {visitsSeries.length === 0 ? (
               <div className="py-12 text-center text-muted-foreground text-sm">
-                No visit data available
+                {t("dashboard.noVisits")}
               </div>
             ) : (
             <ResponsiveContainer width="100%" height={280}>
-                <BarChart data={visitsSeries}>
+                <BarChart data={visitsChartData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
                   <XAxis
                     dataKey="day"
@@ -1082,7 +1115,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                       boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
                   }}
                 />
-                <Bar dataKey="visits" fill="#2563eb" radius={[6, 6, 0, 0]} />
+                <Bar dataKey="visits" name={t("dashboard.visits")} fill="#2563eb" radius={[6, 6, 0, 0]} />
               </BarChart>
             </ResponsiveContainer>
             )}
@@ -1093,17 +1126,17 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle>Recent Activities</CardTitle>
-                <CardDescription>Latest system activities</CardDescription>
+                <CardTitle>{t("dashboard.recentTitle")}</CardTitle>
+                <CardDescription>{t("dashboard.recentDescription")}</CardDescription>
               </div>
               <div className="flex items-center gap-2">
-                <Badge variant="secondary">{todayActivitiesCount} Today</Badge>
+                <Badge variant="secondary">{t("dashboard.todayCount", { count: todayActivitiesCount })}</Badge>
                 <ActivityIcon className="h-5 w-5 text-primary" />
               </div>
             </div>
           </CardHeader>
           <CardContent>
-            <ScrollArea className="h-[400px] pr-4">
+            <ScrollArea className="h-[400px] pe-4">
               <div className="space-y-3">
                 {activitiesLoading && activityFeed.length === 0 ? (
                   <div className="space-y-2">
@@ -1112,7 +1145,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                   </div>
                 ) : activityFeed.length === 0 ? (
                   <div className="text-center py-12 text-muted-foreground text-sm">
-                    No system activities recorded yet
+                    {t("dashboard.noActivities")}
                   </div>
                 ) : (
                   recentActivities.map((activity) => {
@@ -1138,7 +1171,7 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                                 </p>
                             </div>
                             <Badge variant="outline" className="text-xs whitespace-nowrap">
-                              {activity.type}
+                              {activityTypeLabel(activity.type)}
                             </Badge>
                           </div>
                           
@@ -1146,17 +1179,18 @@ export function Dashboard({ reminders, activities }: DashboardProps) {
                             <div className="text-xs text-muted-foreground space-y-0.5 mt-2">
                               {activity.details.amount && (
                                   <p className="font-medium text-green-600">
-                                    Amount: {activity.details.amount}
+                                    {t("dashboard.amount", { amount: activity.details.amount })}
                                   </p>
                               )}
                               {activity.details.status && (
                                   <p>
-                                    Status: <span className="font-medium">{activity.details.status}</span>
+                                    {t("dashboard.statusLabel")} <span className="font-medium">{activity.details.status}</span>
                                   </p>
                               )}
                               {activity.details.oldValue && activity.details.newValue && (
                                   <p>
-                                    Changed from <span className="line-through">{activity.details.oldValue}</span> to{" "}
+                                    {t("dashboard.changedFrom")} <span className="line-through">{activity.details.oldValue}</span>{" "}
+                                    {t("dashboard.changedTo")}{" "}
                                     <span className="font-medium">{activity.details.newValue}</span>
                                   </p>
                               )}
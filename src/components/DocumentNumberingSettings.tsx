@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import {
+  PREFIX_PATTERN,
+  fetchDocumentSequences,
+  formatDocumentNumber,
+  updateDocumentSequence,
+  type DocumentSequenceWithNext,
+} from "../lib/documentNumbers";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+
+interface SequenceDraft {
+  prefix: string;
+  reset_yearly: boolean;
+  padding: string;
+}
+
+const toDraft = (sequence: DocumentSequenceWithNext): SequenceDraft => ({
+  prefix: sequence.prefix,
+  reset_yearly: sequence.reset_yearly,
+  padding: String(sequence.padding),
+});
+
+// Document types seeded by the document numbering migration; other types show their stored label
+const DOCUMENT_TYPE_KEYS: Record<string, MessageKey> = {
+  invoice: "numbering.type.invoice",
+  credit_note: "numbering.type.creditNote",
+  debit_note: "numbering.type.debitNote",
+  quotation: "numbering.type.quotation",
+  contract: "numbering.type.contract",
+  purchase_order: "numbering.type.purchaseOrder",
+  payroll: "numbering.type.payroll",
+};
+
+/**
+ * Prefix, yearly reset and padding of the numbers the database assigns to each document type
+ */
+export function DocumentNumberingSettings() {
+  const { t } = useLocale();
+  const documentLabel = (sequence: DocumentSequenceWithNext) => {
+    const key = DOCUMENT_TYPE_KEYS[sequence.document_type];
+    return key ? t(key) : sequence.label;
+  };
+  const [sequences, setSequences] = useState<DocumentSequenceWithNext[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, SequenceDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingType, setSavingType] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const rows = await fetchDocumentSequences();
+      setSequences(rows);
+      setDrafts(Object.fromEntries(rows.map((row) => [row.document_type, toDraft(row)])));
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || translateCurrent("numbering.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const updateDraft = (documentType: string, values: Partial<SequenceDraft>) => {
+    setDrafts((prev) => ({ ...prev, [documentType]: { ...prev[documentType], ...values } }));
+  };
+
+  const isDirty = (sequence: DocumentSequenceWithNext) => {
+    const draft = drafts[sequence.document_type];
+    return (
+      !!draft &&
+      (draft.prefix !== sequence.prefix ||
+        draft.reset_yearly !== sequence.reset_yearly ||
+        Number(draft.padding) !== sequence.padding)
+    );
+  };
+
+  const handleSave = async (sequence: DocumentSequenceWithNext) => {
+    const draft = drafts[sequence.document_type];
+    const prefix = draft.prefix.trim().toUpperCase();
+    const padding = Number(draft.padding);
+    if (!PREFIX_PATTERN.test(prefix)) {
+      toast.error(t("numbering.invalidPrefix"));
+      return;
+    }
+    if (!Number.isInteger(padding) || padding < 1 || padding > 10) {
+      toast.error(t("numbering.invalidPadding"));
+      return;
+    }
+
+    setSavingType(sequence.document_type);
+    try {
+      await updateDocumentSequence(sequence.document_type, { prefix, reset_yearly: draft.reset_yearly, padding });
+      toast.success(translateCurrent("numbering.updated", { document: documentLabel(sequence) }));
+      await load();
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || translateCurrent("numbering.updateFailed"));
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("numbering.title")}</CardTitle>
+        <CardDescription>
+          {t("numbering.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            <span className="ms-2 text-sm text-muted-foreground">{t("numbering.loading")}</span>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("numbering.document")}</TableHead>
+                  <TableHead className="w-32">{t("numbering.prefix")}</TableHead>
+                  <TableHead className="w-32">{t("numbering.resetYearly")}</TableHead>
+                  <TableHead className="w-28">{t("numbering.digits")}</TableHead>
+                  <TableHead>{t("numbering.nextNumber")}</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map((sequence) => {
+                  const draft = drafts[sequence.document_type] ?? toDraft(sequence);
+                  // Unsaved changes show the format only; the number itself comes from the counter
+                  const preview = isDirty(sequence)
+                    ? formatDocumentNumber(
+                        {
+                          prefix: draft.prefix.trim().toUpperCase() || sequence.prefix,
+                          reset_yearly: draft.reset_yearly,
+                          padding: Number(draft.padding) || sequence.padding,
+                        },
+                        new Date().getFullYear(),
+                        1
+                      ).replace(/\d+$/, (digits) => "#".repeat(digits.length))
+                    : sequence.nextNumber;
+                  return (
+                    <TableRow key={sequence.document_type}>
+                      <TableCell className="font-medium">{documentLabel(sequence)}</TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.prefix}
+                          maxLength={10}
+                          onChange={(e) => updateDraft(sequence.document_type, { prefix: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={draft.reset_yearly}
+                          onCheckedChange={(checked) => updateDraft(sequence.document_type, { reset_yearly: checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={draft.padding}
+                          onChange={(e) => updateDraft(sequence.document_type, { padding: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{preview}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          className="gap-1"
+                          disabled={!isDirty(sequence) || savingType === sequence.document_type}
+                          onClick={() => void handleSave(sequence)}
+                        >
+                          {savingType === sequence.document_type ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Save className="h-4 w-4" />
+                          )}
+                          {t("common.save")}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
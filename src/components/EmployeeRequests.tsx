@@ -39,6 +39,8 @@ import type {
   EmployeeRequestStatus,
   EmployeeRequestType,
 } from "../../supabase/models/employee_requests";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 type RequestTypeOption = EmployeeRequestType;
 type RequestStatusOption = EmployeeRequestStatus;
@@ -116,6 +118,28 @@ const statusColors: Record<RequestStatusOption, string> = {
   completed: "bg-blue-100 text-blue-700 border-blue-200",
 };
 
+const REQUEST_TYPE_KEYS: Record<RequestTypeOption, MessageKey> = {
+  leave: "employeeRequests.type.leave",
+  advance: "employeeRequests.type.advance",
+  loan: "employeeRequests.type.loan",
+  overtime: "employeeRequests.type.overtime",
+  other: "employeeRequests.type.other",
+};
+
+const STATUS_KEYS: Record<RequestStatusOption, MessageKey> = {
+  pending: "status.pending",
+  approved: "status.approved",
+  rejected: "status.rejected",
+  completed: "employeeRequests.status.completed",
+};
+
+const STATUS_CHANGED_KEYS: Record<RequestStatusOption, MessageKey> = {
+  pending: "employeeRequests.movedToPending",
+  approved: "employeeRequests.approved",
+  rejected: "employeeRequests.rejected",
+  completed: "employeeRequests.completed",
+};
+
 const calculateDays = (start: string, end: string) => {
   const startDate = new Date(start);
   const endDate = new Date(end);
@@ -123,14 +147,8 @@ const calculateDays = (start: string, end: string) => {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
 };
 
-const formatDate = (value: string | null, options?: Intl.DateTimeFormatOptions) => {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "—";
-  return date.toLocaleDateString("en-GB", options);
-};
-
 export function EmployeeRequests() {
+  const { t, formatNumber, formatCurrency, formatDate, formatDateTime, localizedName } = useLocale();
   const dispatch = useAppDispatch();
   const dbRequests = useAppSelector(selectors.employee_requests.selectAll) as DbRequest[];
   const requestsLoading = useAppSelector(selectors.employee_requests.selectLoading);
@@ -172,7 +190,7 @@ export function EmployeeRequests() {
           request.employee_name ??
           employee?.name_en ??
           employee?.name_ar ??
-          "Unknown Employee";
+          t("leaves.unknownEmployee");
         const department = request.employee_department ?? employee?.department ?? "—";
         const position = request.employee_position ?? employee?.position ?? "—";
 
@@ -203,7 +221,7 @@ export function EmployeeRequests() {
         const dateB = b.requestedDate ? new Date(b.requestedDate).getTime() : 0;
         return dateB - dateA;
       });
-  }, [dbRequests, employeeLookup]);
+  }, [dbRequests, employeeLookup, t]);
 
   const selectedRequest = useMemo(() => {
     if (!selectedRequestId) return null;
@@ -302,9 +320,9 @@ export function EmployeeRequests() {
       XLSX.utils.book_append_sheet(wb, ws, "Employee Requests");
       const fileName = `employee_requests_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -366,7 +384,7 @@ export function EmployeeRequests() {
       !formState.requestType ||
       !formState.description
     ) {
-      toast.error("Please fill all required fields.");
+      toast.error(t("leaves.requiredFields"));
       return false;
     }
 
@@ -374,7 +392,7 @@ export function EmployeeRequests() {
       formState.requestType === "leave" &&
       (!formState.leaveStartDate || !formState.leaveEndDate)
     ) {
-      toast.error("Please select leave start and end dates.");
+      toast.error(t("employeeRequests.leaveDatesRequired"));
       return false;
     }
 
@@ -384,7 +402,7 @@ export function EmployeeRequests() {
         formState.requestType === "overtime") &&
       !formState.amount
     ) {
-      toast.error("Please enter the amount for this request.");
+      toast.error(t("employeeRequests.amountRequiredError"));
       return false;
     }
 
@@ -394,7 +412,7 @@ export function EmployeeRequests() {
       formState.leaveEndDate &&
       new Date(formState.leaveStartDate) > new Date(formState.leaveEndDate)
     ) {
-      toast.error("Leave end date must be after start date.");
+      toast.error(t("employeeRequests.leaveEndBeforeStart"));
       return false;
     }
 
@@ -471,7 +489,7 @@ export function EmployeeRequests() {
             values: payload,
           })
         ).unwrap();
-        toast.success("Request updated successfully!");
+        toast.success(translateCurrent("employeeRequests.updated"));
       } else {
         await dispatch(
           thunks.employee_requests.createOne({
@@ -481,14 +499,14 @@ export function EmployeeRequests() {
             approved_date: null,
           })
         ).unwrap();
-        toast.success("Request submitted successfully!");
+        toast.success(translateCurrent("employeeRequests.submitted"));
       }
 
       setIsFormOpen(false);
       resetForm();
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to save the request.";
+        error?.message || error?.error?.message || translateCurrent("employeeRequests.saveFailed");
       toast.error(message);
     } finally {
       setIsSubmitting(false);
@@ -510,28 +528,22 @@ export function EmployeeRequests() {
           },
         })
       ).unwrap();
-      const messageMap: Record<RequestStatusOption, string> = {
-        pending: "Request moved back to pending.",
-        approved: "Request approved successfully!",
-        rejected: "Request rejected.",
-        completed: "Request marked as completed.",
-      };
-      toast.success(messageMap[status]);
+      toast.success(translateCurrent(STATUS_CHANGED_KEYS[status]));
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to update request status.";
+        error?.message || error?.error?.message || translateCurrent("employeeRequests.statusFailed");
       toast.error(message);
     }
   };
 
   const deleteRequest = async (requestId: string) => {
-    if (!window.confirm("Are you sure you want to delete this request?")) return;
+    if (!window.confirm(t("employeeRequests.deleteConfirm"))) return;
     try {
       await dispatch(thunks.employee_requests.deleteOne(requestId)).unwrap();
-      toast.success("Request deleted.");
+      toast.success(translateCurrent("employeeRequests.deleted"));
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to delete request.";
+        error?.message || error?.error?.message || translateCurrent("employeeRequests.deleteFailed");
       toast.error(message);
     }
   };
@@ -554,15 +566,15 @@ export function EmployeeRequests() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Employee Requests</h2>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("employeeRequests.title")}</h2>
           <p className="text-muted-foreground mt-1">
-            Manage leave requests, salary advances, loans, and other employee requests
+            {t("employeeRequests.subtitle")}
           </p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Dialog
             open={isFormOpen}
@@ -579,27 +591,27 @@ export function EmployeeRequests() {
                 onClick={openCreateForm}
               >
                 <Plus className="h-4 w-4" />
-                New Request
+                {t("employeeRequests.new")}
               </Button>
             </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>
-                {formMode === "create" ? "Submit Employee Request" : "Update Employee Request"}
+                {formMode === "create" ? t("employeeRequests.submitTitle") : t("employeeRequests.updateTitle")}
               </DialogTitle>
               <DialogDescription>
                 {formMode === "create"
-                  ? "Fill in the details for a new request"
-                  : "Modify the request details"}
+                  ? t("employeeRequests.submitDescription")
+                  : t("employeeRequests.updateDescription")}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 pt-4">
               <div className="space-y-2" ref={employeeSearchRef}>
-                <Label htmlFor="employeeSearch">Find Employee</Label>
+                <Label htmlFor="employeeSearch">{t("leaves.findEmployee")}</Label>
                 <div className="relative">
                   <Input
                     id="employeeSearch"
-                    placeholder="Search employees by name, ID, or department"
+                    placeholder={t("leaves.findEmployeePlaceholder")}
                     value={employeeSearchTerm}
                     onChange={(e) => setEmployeeSearchTerm(e.target.value)}
                     onFocus={() => {
@@ -611,25 +623,25 @@ export function EmployeeRequests() {
                     <div className="absolute z-20 mt-1 w-full rounded-md border bg-white shadow-md">
                       {employeesLoading ? (
                         <div className="px-4 py-2 text-sm text-muted-foreground">
-                          Loading employees...
+                          {t("leaves.loadingEmployees")}
                         </div>
                       ) : employeeSuggestions.length === 0 ? (
                         <div className="px-4 py-2 text-sm text-muted-foreground">
-                          No employees found. You can fill the fields manually.
+                          {t("leaves.noEmployees")}
                         </div>
                       ) : (
                         employeeSuggestions.map((employee) => (
                           <button
                             key={employee.employee_id}
                             type="button"
-                            className="flex w-full flex-col items-start px-4 py-2 text-left hover:bg-muted"
+                            className="flex w-full flex-col items-start px-4 py-2 text-start hover:bg-muted"
                             onClick={() => handleSelectEmployee(employee)}
                           >
                             <span className="font-medium">
-                              {employee.name_en ?? employee.name_ar ?? "Unnamed Employee"}
+                              {localizedName(employee.name_en, employee.name_ar) || t("leaves.unnamedEmployee")}
                             </span>
                             <span className="text-xs text-muted-foreground">
-                              {employee.employee_id} • {employee.department ?? "—"}
+                              {employee.employee_id} • {employee.department ?? t("common.notSet")}
                             </span>
                           </button>
                         ))
@@ -638,13 +650,13 @@ export function EmployeeRequests() {
                   )}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Select an employee to prefill details or leave blank to enter manually.
+                  {t("leaves.findEmployeeHint")}
                 </p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="employeeId">Employee ID *</Label>
+                  <Label htmlFor="employeeId">{t("leaves.employeeIdRequired")}</Label>
                   <Input
                     id="employeeId"
                     placeholder="EMP-001"
@@ -655,10 +667,10 @@ export function EmployeeRequests() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="employeeName">Employee Name *</Label>
+                  <Label htmlFor="employeeName">{t("leaves.employeeNameRequired")}</Label>
                   <Input
                     id="employeeName"
-                    placeholder="Full name"
+                    placeholder={t("leaves.fullNamePlaceholder")}
                     value={formState.employeeName}
                     onChange={(e) =>
                       setFormState((prev) => ({ ...prev, employeeName: e.target.value }))
@@ -669,10 +681,10 @@ export function EmployeeRequests() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="employeeDepartment">Department</Label>
+                  <Label htmlFor="employeeDepartment">{t("leaves.department")}</Label>
                   <Input
                     id="employeeDepartment"
-                    placeholder="Department"
+                    placeholder={t("leaves.department")}
                     value={formState.employeeDepartment}
                     onChange={(e) =>
                       setFormState((prev) => ({
@@ -683,10 +695,10 @@ export function EmployeeRequests() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="employeePosition">Position</Label>
+                  <Label htmlFor="employeePosition">{t("leaves.position")}</Label>
                   <Input
                     id="employeePosition"
-                    placeholder="Position"
+                    placeholder={t("leaves.position")}
                     value={formState.employeePosition}
                     onChange={(e) =>
                       setFormState((prev) => ({
@@ -699,7 +711,7 @@ export function EmployeeRequests() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="requestType">Request Type *</Label>
+                <Label htmlFor="requestType">{t("employeeRequests.requestTypeRequired")}</Label>
                 <Select
                   value={formState.requestType}
                   onValueChange={(value) =>
@@ -707,14 +719,14 @@ export function EmployeeRequests() {
                   }
                 >
                   <SelectTrigger id="requestType">
-                    <SelectValue placeholder="Select request type" />
+                    <SelectValue placeholder={t("employeeRequests.selectRequestType")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="leave">Leave Request</SelectItem>
-                    <SelectItem value="advance">Salary Advance</SelectItem>
-                    <SelectItem value="loan">Employee Loan</SelectItem>
-                    <SelectItem value="overtime">Overtime Payment</SelectItem>
-                    <SelectItem value="other">Other Request</SelectItem>
+                    <SelectItem value="leave">{t("employeeRequests.type.leave")}</SelectItem>
+                    <SelectItem value="advance">{t("employeeRequests.type.advance")}</SelectItem>
+                    <SelectItem value="loan">{t("employeeRequests.type.loan")}</SelectItem>
+                    <SelectItem value="overtime">{t("employeeRequests.type.overtime")}</SelectItem>
+                    <SelectItem value="other">{t("employeeRequests.type.other")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -722,7 +734,7 @@ export function EmployeeRequests() {
               {formState.requestType === "leave" && (
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="leaveStartDate">Start Date *</Label>
+                    <Label htmlFor="leaveStartDate">{t("leaves.startDateRequired")}</Label>
                     <Input
                       id="leaveStartDate"
                       type="date"
@@ -733,7 +745,7 @@ export function EmployeeRequests() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="leaveEndDate">End Date *</Label>
+                    <Label htmlFor="leaveEndDate">{t("leaves.endDateRequired")}</Label>
                     <Input
                       id="leaveEndDate"
                       type="date"
@@ -748,8 +760,10 @@ export function EmployeeRequests() {
                     new Date(formState.leaveStartDate) <= new Date(formState.leaveEndDate) && (
                       <div className="col-span-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                         <div className="text-sm text-blue-900">
-                          <strong>Duration:</strong>{" "}
-                          {calculateDays(formState.leaveStartDate, formState.leaveEndDate)} day(s)
+                          <strong>{t("leaves.durationLabel")}</strong>{" "}
+                          {t("leaves.days", {
+                            count: formatNumber(calculateDays(formState.leaveStartDate, formState.leaveEndDate)),
+                          })}
                         </div>
                       </div>
                     )}
@@ -761,7 +775,7 @@ export function EmployeeRequests() {
                 formState.requestType === "overtime") && (
                 <div className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="amount">Amount (SAR) *</Label>
+                    <Label htmlFor="amount">{t("employeeRequests.amountRequired")}</Label>
                     <Input
                       id="amount"
                       type="number"
@@ -775,11 +789,11 @@ export function EmployeeRequests() {
 
                   {(formState.requestType === "advance" || formState.requestType === "loan") && (
                     <div className="space-y-2">
-                      <Label htmlFor="repaymentMonths">Repayment Period (Months)</Label>
+                      <Label htmlFor="repaymentMonths">{t("employeeRequests.repaymentMonths")}</Label>
                       <Input
                         id="repaymentMonths"
                         type="number"
-                        placeholder="Enter number of months"
+                        placeholder={t("employeeRequests.repaymentMonthsPlaceholder")}
                         value={formState.repaymentMonths}
                         onChange={(e) =>
                           setFormState((prev) => ({
@@ -794,12 +808,11 @@ export function EmployeeRequests() {
                         Number.parseInt(formState.repaymentMonths, 10) > 0 && (
                           <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
                             <div className="text-sm text-green-900">
-                              <strong>Monthly Deduction:</strong>{" "}
-                              {(
+                              <strong>{t("employeeRequests.monthlyDeductionLabel")}</strong>{" "}
+                              {formatCurrency(
                                 Number.parseFloat(formState.amount) /
-                                Number.parseInt(formState.repaymentMonths, 10)
-                              ).toLocaleString()}{" "}
-                              ر.س
+                                  Number.parseInt(formState.repaymentMonths, 10)
+                              )}
                             </div>
                           </div>
                         )}
@@ -809,10 +822,10 @@ export function EmployeeRequests() {
               )}
 
               <div className="space-y-2">
-                <Label htmlFor="description">Description *</Label>
+                <Label htmlFor="description">{t("employeeRequests.descriptionRequired")}</Label>
                 <Textarea
                   id="description"
-                  placeholder="Describe the request..."
+                  placeholder={t("employeeRequests.descriptionPlaceholder")}
                   value={formState.description}
                   onChange={(e) =>
                     setFormState((prev) => ({ ...prev, description: e.target.value }))
@@ -822,10 +835,10 @@ export function EmployeeRequests() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="notes">Additional Notes</Label>
+                <Label htmlFor="notes">{t("leaves.additionalNotes")}</Label>
                 <Textarea
                   id="notes"
-                  placeholder="Any additional information..."
+                  placeholder={t("leaves.notesPlaceholder")}
                   value={formState.notes}
                   onChange={(e) =>
                     setFormState((prev) => ({ ...prev, notes: e.target.value }))
@@ -836,7 +849,7 @@ export function EmployeeRequests() {
 
               {formMode === "edit" && (
                 <div className="space-y-2">
-                  <Label htmlFor="status">Status</Label>
+                  <Label htmlFor="status">{t("common.status")}</Label>
                   <Select
                     value={formState.status}
                     onValueChange={(value) =>
@@ -850,10 +863,10 @@ export function EmployeeRequests() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="approved">Approved</SelectItem>
-                      <SelectItem value="rejected">Rejected</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
+                      <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                      <SelectItem value="approved">{t("status.approved")}</SelectItem>
+                      <SelectItem value="rejected">{t("status.rejected")}</SelectItem>
+                      <SelectItem value="completed">{t("employeeRequests.status.completed")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -867,14 +880,18 @@ export function EmployeeRequests() {
                   resetForm();
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 onClick={handleSubmit}
                 className="bg-purple-600 hover:bg-purple-700 text-white"
                 disabled={isSubmitting}
               >
-                {isSubmitting ? "Saving..." : formMode === "create" ? "Submit Request" : "Save Changes"}
+                {isSubmitting
+                  ? t("common.saving")
+                  : formMode === "create"
+                    ? t("leaves.submitRequest")
+                    : t("common.saveChanges")}
               </Button>
             </div>
           </DialogContent>
@@ -886,46 +903,46 @@ export function EmployeeRequests() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
-              Total Requests
+              {t("leaves.totalRequests")}
             </CardTitle>
             <User className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalRequests}</div>
-            <p className="text-xs text-muted-foreground mt-1">All time</p>
+            <div className="text-2xl font-bold">{formatNumber(totalRequests)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.allTime")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.pending")}</CardTitle>
             <AlertCircle className="h-4 w-4 text-yellow-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">{pendingRequests}</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting approval</p>
+            <div className="text-2xl font-bold text-yellow-600">{formatNumber(pendingRequests)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.awaitingApproval")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Approved</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.approved")}</CardTitle>
             <CheckCircle2 className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{approvedRequests}</div>
-            <p className="text-xs text-muted-foreground mt-1">This year</p>
+            <div className="text-2xl font-bold text-green-600">{formatNumber(approvedRequests)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.thisYear")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Advances</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("employeeRequests.totalAdvances")}</CardTitle>
             <DollarSign className="h-4 w-4 text-purple-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-purple-600">{totalAdvances.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Approved loans & advances</p>
+            <div className="text-2xl font-bold text-purple-600">{formatCurrency(totalAdvances)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("employeeRequests.approvedAdvances")}</p>
           </CardContent>
         </Card>
       </div>
@@ -933,42 +950,42 @@ export function EmployeeRequests() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Employee Requests</CardTitle>
+            <CardTitle>{t("employeeRequests.title")}</CardTitle>
             <div className="flex items-center gap-2">
               <Select value={filterType} onValueChange={setFilterType}>
                 <SelectTrigger className="w-[150px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="All Types" />
+                  <Filter className="h-4 w-4 me-2" />
+                  <SelectValue placeholder={t("leaves.allTypes")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="leave">Leave</SelectItem>
-                  <SelectItem value="advance">Advance</SelectItem>
-                  <SelectItem value="loan">Loan</SelectItem>
-                  <SelectItem value="overtime">Overtime</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
+                  <SelectItem value="all">{t("leaves.allTypes")}</SelectItem>
+                  <SelectItem value="leave">{t("employeeRequests.type.leave")}</SelectItem>
+                  <SelectItem value="advance">{t("employeeRequests.type.advance")}</SelectItem>
+                  <SelectItem value="loan">{t("employeeRequests.type.loan")}</SelectItem>
+                  <SelectItem value="overtime">{t("employeeRequests.type.overtime")}</SelectItem>
+                  <SelectItem value="other">{t("employeeRequests.type.other")}</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={filterStatus} onValueChange={setFilterStatus}>
                 <SelectTrigger className="w-[150px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="All Status" />
+                  <Filter className="h-4 w-4 me-2" />
+                  <SelectValue placeholder={t("common.allStatus")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="rejected">Rejected</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                  <SelectItem value="approved">{t("status.approved")}</SelectItem>
+                  <SelectItem value="rejected">{t("status.rejected")}</SelectItem>
+                  <SelectItem value="completed">{t("employeeRequests.status.completed")}</SelectItem>
                 </SelectContent>
               </Select>
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search requests..."
+                  placeholder={t("employeeRequests.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[250px]"
+                  className="ps-8 w-[250px]"
                 />
               </div>
             </div>
@@ -979,20 +996,20 @@ export function EmployeeRequests() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Request #</TableHead>
-                  <TableHead>Employee</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Details</TableHead>
-                  <TableHead>Requested Date</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("employeeRequests.number")}</TableHead>
+                  <TableHead>{t("leaves.employee")}</TableHead>
+                  <TableHead>{t("leaves.type")}</TableHead>
+                  <TableHead>{t("employeeRequests.details")}</TableHead>
+                  <TableHead>{t("employeeRequests.requestedDate")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {requestsLoading && (
                   <TableRow>
                     <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
-                      Loading requests...
+                      {t("employeeRequests.loading")}
                     </TableCell>
                   </TableRow>
                 )}
@@ -1015,41 +1032,37 @@ export function EmployeeRequests() {
                       </TableCell>
                       <TableCell>
                         <Badge className={requestTypeColors[request.requestType]}>
-                          {request.requestType}
+                          {t(REQUEST_TYPE_KEYS[request.requestType])}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <div className="space-y-1 text-sm">
                           {request.amount != null && (
                             <div className="font-semibold text-purple-600">
-                              {request.amount.toLocaleString()} ر.س
+                              {formatCurrency(request.amount)}
                             </div>
                           )}
                           {request.leaveDays != null && (
-                            <div>{request.leaveDays} day(s)</div>
+                            <div>{t("leaves.days", { count: formatNumber(request.leaveDays) })}</div>
                           )}
                           {request.repaymentMonths != null && (
                             <div className="text-xs text-muted-foreground">
-                              {request.repaymentMonths} months
+                              {t("employeeRequests.months", { count: formatNumber(request.repaymentMonths) })}
                             </div>
                           )}
                         </div>
                       </TableCell>
                       <TableCell>
                         <div className="text-sm">
-                          {formatDate(request.requestedDate, {
-                            year: "numeric",
-                            month: "short",
-                            day: "numeric",
-                          })}
+                          {formatDate(request.requestedDate)}
                         </div>
                       </TableCell>
                       <TableCell>
                         <Badge className={statusColors[request.status]}>
-                          {request.status}
+                          {t(STATUS_KEYS[request.status])}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex items-center justify-end gap-2">
                           <Button
                             variant="ghost"
@@ -1059,7 +1072,7 @@ export function EmployeeRequests() {
                               setIsDetailsDialogOpen(true);
                             }}
                           >
-                            View
+                            {t("common.view")}
                           </Button>
                           <Button
                             variant="outline"
@@ -1118,7 +1131,7 @@ export function EmployeeRequests() {
                                 })
                               }
                             >
-                              Mark Completed
+                              {t("employeeRequests.markCompleted")}
                             </Button>
                           )}
                         </div>
@@ -1133,7 +1146,7 @@ export function EmployeeRequests() {
             <div className="flex flex-col items-center justify-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mb-3" />
               <p className="text-muted-foreground">
-                {searchQuery ? "No requests found matching your search." : "No employee requests found"}
+                {searchQuery ? t("employeeRequests.noMatches") : t("employeeRequests.empty")}
               </p>
             </div>
           )}
@@ -1151,14 +1164,14 @@ export function EmployeeRequests() {
       >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Request Details</DialogTitle>
+            <DialogTitle>{t("employeeRequests.detailsTitle")}</DialogTitle>
             <DialogDescription>{selectedRequest?.requestNumber}</DialogDescription>
           </DialogHeader>
           {selectedRequest && (
             <div className="space-y-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Employee</Label>
+                  <Label className="text-muted-foreground">{t("leaves.employee")}</Label>
                   <div>
                     <div className="font-medium">{selectedRequest.employeeName}</div>
                     <div className="text-sm text-muted-foreground">
@@ -1170,10 +1183,10 @@ export function EmployeeRequests() {
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Request Type</Label>
+                  <Label className="text-muted-foreground">{t("employeeRequests.requestType")}</Label>
                   <div>
                     <Badge className={requestTypeColors[selectedRequest.requestType]}>
-                      {selectedRequest.requestType}
+                      {t(REQUEST_TYPE_KEYS[selectedRequest.requestType])}
                     </Badge>
                   </div>
                 </div>
@@ -1182,27 +1195,21 @@ export function EmployeeRequests() {
               {selectedRequest.requestType === "leave" && (
                 <div className="grid grid-cols-3 gap-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground text-xs">Start Date</Label>
+                    <Label className="text-muted-foreground text-xs">{t("leaves.startDate")}</Label>
                     <div className="font-medium">
-                      {formatDate(selectedRequest.leaveStartDate, {
-                        month: "short",
-                        day: "numeric",
-                      })}
+                      {formatDate(selectedRequest.leaveStartDate)}
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground text-xs">End Date</Label>
+                    <Label className="text-muted-foreground text-xs">{t("leaves.endDate")}</Label>
                     <div className="font-medium">
-                      {formatDate(selectedRequest.leaveEndDate, {
-                        month: "short",
-                        day: "numeric",
-                      })}
+                      {formatDate(selectedRequest.leaveEndDate)}
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground text-xs">Duration</Label>
+                    <Label className="text-muted-foreground text-xs">{t("leaves.duration")}</Label>
                     <div className="font-bold text-blue-600">
-                      {selectedRequest.leaveDays} day(s)
+                      {t("leaves.days", { count: formatNumber(selectedRequest.leaveDays ?? 0) })}
                     </div>
                   </div>
                 </div>
@@ -1212,23 +1219,25 @@ export function EmployeeRequests() {
                 <div className="p-4 bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-200 rounded-lg">
                   <div className="grid grid-cols-3 gap-4">
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-xs">Amount</Label>
+                      <Label className="text-muted-foreground text-xs">{t("employeeRequests.amount")}</Label>
                       <div className="text-2xl font-bold text-purple-600">
-                        {selectedRequest.amount.toLocaleString()} ر.س
+                        {formatCurrency(selectedRequest.amount)}
                       </div>
                     </div>
                     {selectedRequest.repaymentMonths != null && (
                       <>
                         <div className="space-y-1">
-                          <Label className="text-muted-foreground text-xs">Repayment Period</Label>
+                          <Label className="text-muted-foreground text-xs">{t("employeeRequests.repaymentPeriod")}</Label>
                           <div className="text-xl font-semibold">
-                            {selectedRequest.repaymentMonths} months
+                            {t("employeeRequests.months", { count: formatNumber(selectedRequest.repaymentMonths) })}
                           </div>
                         </div>
                         <div className="space-y-1">
-                          <Label className="text-muted-foreground text-xs">Monthly Deduction</Label>
+                          <Label className="text-muted-foreground text-xs">{t("employeeRequests.monthlyDeduction")}</Label>
                           <div className="text-xl font-semibold text-red-600">
-                            {selectedRequest.monthlyDeduction?.toLocaleString()} ر.س
+                            {selectedRequest.monthlyDeduction != null
+                              ? formatCurrency(selectedRequest.monthlyDeduction)
+                              : t("common.notSet")}
                           </div>
                         </div>
                       </>
@@ -1238,7 +1247,7 @@ export function EmployeeRequests() {
               )}
 
               <div className="space-y-2">
-                <Label>Description</Label>
+                <Label>{t("employeeRequests.description")}</Label>
                 <div className="p-3 bg-muted rounded-lg text-sm">
                   {selectedRequest.description}
                 </div>
@@ -1246,13 +1255,13 @@ export function EmployeeRequests() {
 
               {selectedRequest.notes && (
                 <div className="space-y-2">
-                  <Label>Notes</Label>
+                  <Label>{t("common.notes")}</Label>
                   <div className="p-3 bg-muted rounded-lg text-sm">{selectedRequest.notes}</div>
                 </div>
               )}
 
               <div className="space-y-1">
-                <Label className="text-muted-foreground">Status</Label>
+                <Label className="text-muted-foreground">{t("common.status")}</Label>
                 <div>
                   <Badge className={statusColors[selectedRequest.status]}>
                     {selectedRequest.status}
@@ -1262,33 +1271,21 @@ export function EmployeeRequests() {
 
               <div className="pt-4 border-t grid grid-cols-2 gap-4">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground text-xs">Requested Date</Label>
+                  <Label className="text-muted-foreground text-xs">{t("employeeRequests.requestedDate")}</Label>
                   <div className="text-sm">
-                    {formatDate(selectedRequest.requestedDate, {
-                      year: "numeric",
-                      month: "short",
-                      day: "numeric",
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
+                    {formatDateTime(selectedRequest.requestedDate)}
                   </div>
                 </div>
                 {selectedRequest.approvedBy && (
                   <>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-xs">Approved By</Label>
+                      <Label className="text-muted-foreground text-xs">{t("leaves.approvedBy")}</Label>
                       <div className="text-sm">{selectedRequest.approvedBy}</div>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-xs">Approved Date</Label>
+                      <Label className="text-muted-foreground text-xs">{t("leaves.approvedDate")}</Label>
                       <div className="text-sm">
-                        {formatDate(selectedRequest.approvedDate, {
-                          year: "numeric",
-                          month: "short",
-                          day: "numeric",
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
+                        {formatDateTime(selectedRequest.approvedDate)}
                       </div>
                     </div>
                   </>
@@ -1306,8 +1303,8 @@ export function EmployeeRequests() {
                       })
                     }
                   >
-                    <CheckCircle2 className="h-4 w-4 mr-2" />
-                    Approve Request
+                    <CheckCircle2 className="h-4 w-4 me-2" />
+                    {t("leaves.approveRequest")}
                   </Button>
                   <Button
                     variant="outline"
@@ -1319,8 +1316,8 @@ export function EmployeeRequests() {
                       })
                     }
                   >
-                    <XCircle className="h-4 w-4 mr-2" />
-                    Reject Request
+                    <XCircle className="h-4 w-4 me-2" />
+                    {t("leaves.rejectRequest")}
                   </Button>
                 </div>
               )}
@@ -1337,7 +1334,7 @@ export function EmployeeRequests() {
                       })
                     }
                   >
-                    Mark Completed
+                    {t("employeeRequests.markCompleted")}
                   </Button>
                   <Button
                     variant="outline"
@@ -1349,8 +1346,8 @@ export function EmployeeRequests() {
                       })
                     }
                   >
-                    <XCircle className="h-4 w-4 mr-2" />
-                    Reject Request
+                    <XCircle className="h-4 w-4 me-2" />
+                    {t("leaves.rejectRequest")}
                   </Button>
                 </div>
               )}
@@ -3,6 +3,7 @@ import { Plus, Search, Trash2, FileText, Download, Upload, User, Calendar, Dolla
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
 import { Button } from "./ui/button";
+import { ImportExcelButton } from "./ImportExcelButton";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -14,16 +15,20 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from ".
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { ScrollArea } from "./ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { RecordHistory } from "./RecordHistory";
 import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Employees as DbEmployee } from "../../supabase/models/employees";
-import { uploadFile, getFileUrl, deleteFile, getFilesByOwner, deleteFilesByOwner } from "../lib/storage";
+import { uploadFile, getFileUrl, deleteFile, getFilesByOwner } from "../lib/storage";
 import type { FileMetadata } from "../../supabase/models/file_metadata";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { supabase } from "../lib/supabaseClient";
+import { useRecordRoute } from "../lib/router";
 import type { SystemUsers } from "../../supabase/models/system_users";
 import type { Roles } from "../../supabase/models/roles";
 import { normalizePermissions } from "../lib/permissions";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface EmployeeDocument {
   id: string; // FileMetadata ID
@@ -81,7 +86,39 @@ const documentCategoryColors = {
   other: "bg-gray-100 text-gray-700 border-gray-200",
 };
 
+const STATUS_KEYS: Record<Employee["status"], MessageKey> = {
+  active: "employees.status.active",
+  "on-leave": "employees.status.onLeave",
+  terminated: "employees.status.terminated",
+};
+
+const CONTRACT_TYPE_KEYS: Record<Employee["contractType"], MessageKey> = {
+  "full-time": "employees.contract.fullTime",
+  "part-time": "employees.contract.partTime",
+  contract: "employees.contract.contract",
+};
+
+const DOCUMENT_CATEGORY_KEYS: Record<EmployeeDocument["category"], MessageKey> = {
+  contract: "employees.docCategory.contract",
+  id: "employees.docCategory.id",
+  photo: "employees.docCategory.photo",
+  certificate: "employees.docCategory.certificate",
+  other: "employees.docCategory.other",
+};
+
+// Departments are stored as these codes; anything else is shown as entered
+const DEPARTMENT_KEYS: Record<string, MessageKey> = {
+  General: "employees.department.general",
+  Sales: "employees.department.sales",
+  Finance: "employees.department.finance",
+  Operations: "employees.department.operations",
+  HR: "employees.department.hr",
+  IT: "employees.department.it",
+};
+
 export function Employees() {
+  const { t, localizedName, formatCurrency, formatNumber, formatDate } = useLocale();
+  const departmentLabel = (value: string) => (DEPARTMENT_KEYS[value] ? t(DEPARTMENT_KEYS[value]) : value);
   const dispatch = useAppDispatch();
   const dbEmployees = useAppSelector(selectors.employees.selectAll) as DbEmployee[];
   const employeesLoading = useAppSelector(selectors.employees.selectLoading);
@@ -254,7 +291,7 @@ export function Employees() {
         id: emp.employee_id,
         employeeId: emp.employee_id,
         displayCode: emp.employee_id.slice(0, 8).toUpperCase(),
-        name: emp.name_en ?? "Unnamed Employee",
+        name: emp.name_en ?? t("employees.unnamed"),
         nameAr: emp.name_ar ?? "",
         position: emp.position ?? "",
         department: emp.department ?? "General",
@@ -281,13 +318,46 @@ export function Employees() {
         documents: docs,
       };
     });
-  }, [dbEmployees, documentsByEmployee, adminEmployeeIds]);
+  }, [dbEmployees, documentsByEmployee, adminEmployeeIds, t]);
 
   const selectedEmployee = useMemo(
     () => employees.find((emp) => emp.id === selectedEmployeeId) ?? null,
     [employees, selectedEmployeeId]
   );
 
+  // The details dialog follows the URL (/employees/<id>), so employee links open it
+  const { recordId: linkedEmployeeId, openRecord: openEmployee, closeRecord: closeEmployee } = useRecordRoute("employees");
+  useEffect(() => {
+    if (!linkedEmployeeId) {
+      setIsDetailsDialogOpen(false);
+      return;
+    }
+
+    if (employees.some((emp) => emp.id === linkedEmployeeId)) {
+      setSelectedEmployeeId(linkedEmployeeId);
+      setIsDetailsDialogOpen(true);
+      return;
+    }
+
+    // Not in the list (yet): only give up when the employee does not exist
+    let cancelled = false;
+    void supabase
+      .from("employees")
+      .select("employee_id")
+      .eq("employee_id", linkedEmployeeId)
+      .is("deleted_at", null)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (!cancelled && (error || !data)) {
+          toast.error(translateCurrent("employees.notFound"));
+          closeEmployee();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedEmployeeId, employees, closeEmployee]);
+
   const filteredEmployees = useMemo(
     () =>
       employees.filter((emp) => {
@@ -346,13 +416,13 @@ export function Employees() {
 
         if (photoUrl) {
           setEmployeePhoto(photoUrl);
-          toast.success("Photo uploaded successfully");
+          toast.success(translateCurrent("employees.photoUploaded"));
         } else {
-          throw new Error('Failed to get photo URL');
+          throw new Error(translateCurrent("employees.photoUrlFailed"));
         }
       } catch (error: any) {
         console.error('Error uploading employee photo:', error);
-        toast.error(error.message || 'Failed to upload employee photo');
+        toast.error(error.message || translateCurrent("employees.photoUploadFailed"));
       } finally {
         setUploadingPhoto(false);
         if (e.target) {
@@ -378,18 +448,18 @@ export function Employees() {
       if (!documentName) {
         setDocumentName(file.name);
       }
-      toast.success("File selected");
+      toast.success(t("employees.fileSelected"));
     }
   };
 
   const handleAddDocument = async () => {
     if (!selectedEmployeeId) {
-      toast.error("Please select an employee first");
+      toast.error(t("employees.selectEmployeeFirst"));
       return;
     }
     
     if (!documentName || !documentFile) {
-      toast.error("Please provide document name and upload a file");
+      toast.error(t("employees.documentRequired"));
       return;
     }
 
@@ -432,7 +502,7 @@ export function Employees() {
       });
 
       if (!result.success || !result.fileMetadata) {
-        throw new Error(result.error || 'Failed to upload document');
+        throw new Error(result.error || translateCurrent("employees.documentUploadFailed"));
       }
 
       console.log('Document uploaded successfully:', result.fileMetadata.id);
@@ -442,10 +512,10 @@ export function Employees() {
 
       setIsUploadDialogOpen(false);
       resetDocumentForm();
-      toast.success("Document uploaded successfully!");
+      toast.success(translateCurrent("employees.documentUploaded"));
     } catch (error: any) {
       console.error('Error uploading document:', error);
-      toast.error(error.message || 'Failed to upload document');
+      toast.error(error.message || translateCurrent("employees.documentUploadFailed"));
     } finally {
       setUploadingDocument(false);
     }
@@ -476,11 +546,11 @@ export function Employees() {
           document.body.appendChild(link);
           link.click();
           document.body.removeChild(link);
-          toast.success("Document downloaded");
+          toast.success(translateCurrent("employees.documentDownloaded"));
           return;
         }
       }
-      toast.error("No file URL available");
+      toast.error(translateCurrent("employees.noFileUrl"));
       return;
     }
 
@@ -491,7 +561,7 @@ export function Employees() {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    toast.success("Document downloaded");
+    toast.success(t("employees.documentDownloaded"));
   };
 
   const handleDeleteDocument = async (docId: string) => {
@@ -507,19 +577,19 @@ export function Employees() {
           ...prev,
           [selectedEmployeeId]: (prev[selectedEmployeeId] ?? []).filter((d) => d.id !== docId),
         }));
-        toast.success("Document deleted successfully");
+        toast.success(translateCurrent("employees.documentDeleted"));
       } else {
-        toast.error("Failed to delete document");
+        toast.error(translateCurrent("employees.documentDeleteFailed"));
       }
     } catch (error: any) {
       console.error('Error deleting document:', error);
-      toast.error(error.message || 'Failed to delete document');
+      toast.error(error.message || translateCurrent("employees.documentDeleteFailed"));
     }
   };
 
   const handleAddEmployee = async () => {
     if (!name || !position || !department || !baseSalary) {
-      toast.error("Please fill all required fields");
+      toast.error(t("employees.requiredFields"));
       return;
     }
 
@@ -562,11 +632,11 @@ export function Employees() {
       // Reload employees to ensure new employee is in the list
       await dispatch(thunks.employees.fetchAll(undefined));
       
-      toast.success("Employee added successfully!");
+      toast.success(translateCurrent("employees.added"));
       setIsAddDialogOpen(false);
       resetForm();
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to add employee";
+      const message = error?.message || error?.error?.message || translateCurrent("employees.addFailed");
       toast.error(message);
     }
   };
@@ -608,15 +678,15 @@ export function Employees() {
       // Reload employees to get updated status
       await dispatch(thunks.employees.fetchAll(undefined));
       
-      const statusMessages: Record<"active" | "on-leave" | "terminated", string> = {
-        active: "Employee activated successfully!",
-        "on-leave": "Employee status changed to on-leave",
-        terminated: "Employee terminated successfully!",
+      const statusMessages: Record<"active" | "on-leave" | "terminated", MessageKey> = {
+        active: "employees.activated",
+        "on-leave": "employees.onLeave",
+        terminated: "employees.terminated",
       };
       
-      toast.success(statusMessages[newStatus]);
+      toast.success(translateCurrent(statusMessages[newStatus]));
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to update employee status";
+      const message = error?.message || error?.error?.message || translateCurrent("employees.statusFailed");
       toast.error(message);
     }
   };
@@ -632,85 +702,8 @@ export function Employees() {
     const id = employeeToDelete.id;
     
     try {
-      // First, delete all related records
-      // Delete employee attendance records
-      const { error: attendanceError } = await supabase
-        .from("employee_attendance")
-        .delete()
-        .eq("employee_id", id);
-      
-      if (attendanceError) {
-        console.error("Error deleting employee attendance:", attendanceError);
-        // Continue anyway, might not have attendance records
-      }
-
-      // Delete employee requests
-      const { error: requestsError } = await supabase
-        .from("employee_requests")
-        .delete()
-        .eq("employee_id", id);
-      
-      if (requestsError) {
-        console.error("Error deleting employee requests:", requestsError);
-        // Continue anyway
-      }
-
-      // Delete employee custody items
-      const { error: custodyError } = await supabase
-        .from("employee_custody_items")
-        .delete()
-        .eq("employee_id", id);
-      
-      if (custodyError) {
-        console.error("Error deleting employee custody items:", custodyError);
-        // Continue anyway
-      }
-
-      // Delete employee files (documents and photos)
-      const { deleted: filesDeleted, errors: fileErrors } = await deleteFilesByOwner(id, 'employee');
-      
-      if (fileErrors.length > 0) {
-        console.warn('Some employee files could not be deleted:', fileErrors);
-      }
-      
-      if (filesDeleted > 0) {
-        console.log(`Deleted ${filesDeleted} employee files`);
-      }
-
-      // Delete expenses linked to this employee (if any)
-      const { error: expensesError } = await supabase
-        .from("expenses_management")
-        .delete()
-        .eq("employee_id", id);
-      
-      if (expensesError) {
-        console.error("Error deleting employee expenses:", expensesError);
-        // Continue anyway
-      }
-
-      // Delete leaves linked to this employee (if any)
-      const { error: leavesError } = await supabase
-        .from("leaves")
-        .delete()
-        .eq("employee_id", id);
-      
-      if (leavesError) {
-        console.error("Error deleting employee leaves:", leavesError);
-        // Continue anyway
-      }
-
-      // Update system_users to remove employee_id reference (set to null)
-      const { error: usersError } = await supabase
-        .from("system_users")
-        .update({ employee_id: null })
-        .eq("employee_id", id);
-      
-      if (usersError) {
-        console.error("Error updating system users:", usersError);
-        // Continue anyway
-      }
-
-      // Now delete the employee
+      // Moves the employee to the recycle bin; attendance, requests, custody items and documents are
+      // kept so a restore brings everything back, and are removed when the employee is purged
       await dispatch(thunks.employees.deleteOne(id)).unwrap();
       
       setDocumentsByEmployee((prev) => {
@@ -720,11 +713,11 @@ export function Employees() {
         return updated;
       });
       
-      toast.success("Employee deleted successfully!");
+      toast.success(translateCurrent("employees.movedToRecycleBin"));
       setIsDeleteDialogOpen(false);
       setEmployeeToDelete(null);
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to delete employee";
+      const message = error?.message || error?.error?.message || translateCurrent("employees.deleteFailed");
       toast.error(message);
       console.error("Error deleting employee:", error);
     }
@@ -775,9 +768,9 @@ export function Employees() {
       XLSX.utils.book_append_sheet(wb, ws, "Employees");
       const fileName = `employees_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -786,33 +779,34 @@ export function Employees() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Employee Management</h2>
-          <p className="text-muted-foreground mt-1">Manage employee information, documents, and records</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("employees.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("employees.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
+          <ImportExcelButton section="Employees" />
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                Add Employee
+                {t("employees.add")}
               </Button>
             </DialogTrigger>
           <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>Add New Employee</DialogTitle>
-              <DialogDescription>Enter employee information and details</DialogDescription>
+              <DialogTitle>{t("employees.addTitle")}</DialogTitle>
+              <DialogDescription>{t("employees.addDescription")}</DialogDescription>
             </DialogHeader>
             
             <Tabs defaultValue="personal" className="w-full">
               <TabsList className="grid w-full grid-cols-4">
-                <TabsTrigger value="personal">Personal</TabsTrigger>
-                <TabsTrigger value="employment">Employment</TabsTrigger>
-                <TabsTrigger value="financial">Financial</TabsTrigger>
-                <TabsTrigger value="emergency">Emergency</TabsTrigger>
+                <TabsTrigger value="personal">{t("employees.tab.personal")}</TabsTrigger>
+                <TabsTrigger value="employment">{t("employees.tab.employment")}</TabsTrigger>
+                <TabsTrigger value="financial">{t("employees.tab.financial")}</TabsTrigger>
+                <TabsTrigger value="emergency">{t("employees.tab.emergency")}</TabsTrigger>
               </TabsList>
 
               <TabsContent value="personal" className="space-y-4 pt-4">
@@ -843,76 +837,76 @@ export function Employees() {
                     disabled={uploadingPhoto}
                   >
                     <Upload className="h-4 w-4" />
-                    {uploadingPhoto ? "Uploading..." : employeePhoto ? "Change Photo" : "Upload Photo"}
+                    {uploadingPhoto ? t("employees.uploading") : employeePhoto ? t("employees.changePhoto") : t("employees.uploadPhoto")}
                   </Button>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="name">Full Name (English) *</Label>
+                    <Label htmlFor="name">{t("employees.nameEnRequired")}</Label>
                     <Input id="name" value={name} onChange={(e) => setName(e.target.value)} placeholder="John Doe" />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="nameAr">Full Name (Arabic)</Label>
+                    <Label htmlFor="nameAr">{t("employees.nameAr")}</Label>
                     <Input id="nameAr" value={nameAr} onChange={(e) => setNameAr(e.target.value)} placeholder="جون دو" />
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="email">Email</Label>
+                    <Label htmlFor="email">{t("common.email")}</Label>
                     <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="john@company.com" />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="phone">Phone</Label>
+                    <Label htmlFor="phone">{t("common.phone")}</Label>
                     <Input id="phone" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+966 50 123 4567" />
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="nationalId">National ID</Label>
+                    <Label htmlFor="nationalId">{t("employees.nationalId")}</Label>
                     <Input id="nationalId" value={nationalId} onChange={(e) => setNationalId(e.target.value)} placeholder="1234567890" />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="address">Address</Label>
-                    <Input id="address" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="City, Country" />
+                    <Label htmlFor="address">{t("employees.address")}</Label>
+                    <Input id="address" value={address} onChange={(e) => setAddress(e.target.value)} placeholder={t("employees.addressPlaceholder")} />
                   </div>
                 </div>
               </TabsContent>
 
               <TabsContent value="employment" className="space-y-4 pt-4">
                 <div className="space-y-2">
-                  <Label htmlFor="position">Position *</Label>
-                  <Input id="position" value={position} onChange={(e) => setPosition(e.target.value)} placeholder="Sales Manager" />
+                  <Label htmlFor="position">{t("employees.positionRequired")}</Label>
+                  <Input id="position" value={position} onChange={(e) => setPosition(e.target.value)} placeholder={t("employees.positionPlaceholder")} />
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="department">Department *</Label>
+                    <Label htmlFor="department">{t("employees.departmentRequired")}</Label>
                     <Select value={department} onValueChange={setDepartment}>
                       <SelectTrigger id="department">
-                        <SelectValue placeholder="Select department" />
+                        <SelectValue placeholder={t("employees.selectDepartment")} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Sales">Sales</SelectItem>
-                        <SelectItem value="Finance">Finance</SelectItem>
-                        <SelectItem value="Operations">Operations</SelectItem>
-                        <SelectItem value="HR">Human Resources</SelectItem>
-                        <SelectItem value="IT">IT</SelectItem>
+                        <SelectItem value="Sales">{t("employees.department.sales")}</SelectItem>
+                        <SelectItem value="Finance">{t("employees.department.finance")}</SelectItem>
+                        <SelectItem value="Operations">{t("employees.department.operations")}</SelectItem>
+                        <SelectItem value="HR">{t("employees.department.hr")}</SelectItem>
+                        <SelectItem value="IT">{t("employees.department.it")}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="contractType">Contract Type</Label>
+                    <Label htmlFor="contractType">{t("employees.contractType")}</Label>
                     <Select value={contractType} onValueChange={(value: any) => setContractType(value)}>
                       <SelectTrigger id="contractType">
-                        <SelectValue placeholder="Select type" />
+                        <SelectValue placeholder={t("employees.selectType")} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="full-time">Full Time</SelectItem>
-                        <SelectItem value="part-time">Part Time</SelectItem>
-                        <SelectItem value="contract">Contract</SelectItem>
+                        <SelectItem value="full-time">{t("employees.contract.fullTime")}</SelectItem>
+                        <SelectItem value="part-time">{t("employees.contract.partTime")}</SelectItem>
+                        <SelectItem value="contract">{t("employees.contract.contract")}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -920,11 +914,11 @@ export function Employees() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="hireDate">Hire Date</Label>
+                    <Label htmlFor="hireDate">{t("employees.hireDate")}</Label>
                     <Input id="hireDate" type="date" value={hireDate} onChange={(e) => setHireDate(e.target.value)} />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="startDate">Start Date</Label>
+                    <Label htmlFor="startDate">{t("employees.startDate")}</Label>
                     <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
                   </div>
                 </div>
@@ -933,10 +927,10 @@ export function Employees() {
               <TabsContent value="financial" className="space-y-4 pt-4">
                 <div className="space-y-4">
                   <div className="p-3 bg-muted/50 rounded-lg">
-                    <h4 className="font-medium mb-3">Salary Components</h4>
+                    <h4 className="font-medium mb-3">{t("employees.salaryComponents")}</h4>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="baseSalary">Base Salary (SAR) *</Label>
+                        <Label htmlFor="baseSalary">{t("employees.baseSalaryRequired")}</Label>
                         <Input 
                           id="baseSalary" 
                           type="number" 
@@ -946,7 +940,7 @@ export function Employees() {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="housingAllowance">Housing Allowance (SAR)</Label>
+                        <Label htmlFor="housingAllowance">{t("employees.housingAllowanceSar")}</Label>
                         <Input 
                           id="housingAllowance" 
                           type="number" 
@@ -956,7 +950,7 @@ export function Employees() {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="transportAllowance">Transport Allowance (SAR)</Label>
+                        <Label htmlFor="transportAllowance">{t("employees.transportAllowanceSar")}</Label>
                         <Input 
                           id="transportAllowance" 
                           type="number" 
@@ -966,7 +960,7 @@ export function Employees() {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="otherAllowances">Other Allowances (SAR)</Label>
+                        <Label htmlFor="otherAllowances">{t("employees.otherAllowancesSar")}</Label>
                         <Input 
                           id="otherAllowances" 
                           type="number" 
@@ -978,14 +972,14 @@ export function Employees() {
                     </div>
                     <div className="mt-3 pt-3 border-t">
                       <div className="flex justify-between items-center">
-                        <span className="font-medium">Total Monthly Salary:</span>
+                        <span className="font-medium">{t("employees.totalMonthlySalary")}:</span>
                         <span className="text-lg font-bold text-primary">
-                          SAR {(
+                          {formatCurrency(
                             parseFloat(baseSalary || "0") + 
                             parseFloat(housingAllowance || "0") + 
                             parseFloat(transportAllowance || "0") + 
                             parseFloat(otherAllowances || "0")
-                          ).toLocaleString()}
+                          )}
                         </span>
                       </div>
                     </div>
@@ -993,7 +987,7 @@ export function Employees() {
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="socialInsurance">Social Insurance No.</Label>
+                      <Label htmlFor="socialInsurance">{t("employees.socialInsuranceNo")}</Label>
                       <Input 
                         id="socialInsurance" 
                         value={socialInsurance} 
@@ -1002,7 +996,7 @@ export function Employees() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="socialInsuranceAmount">Social Insurance Amount (SAR)</Label>
+                      <Label htmlFor="socialInsuranceAmount">{t("employees.socialInsuranceAmountSar")}</Label>
                       <Input 
                         id="socialInsuranceAmount" 
                         type="number" 
@@ -1015,10 +1009,10 @@ export function Employees() {
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="bankName">Bank Name</Label>
+                      <Label htmlFor="bankName">{t("employees.bankName")}</Label>
                       <Select value={bankName} onValueChange={setBankName}>
                         <SelectTrigger id="bankName">
-                          <SelectValue placeholder="Select bank" />
+                          <SelectValue placeholder={t("employees.selectBank")} />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="Al Rajhi Bank">Al Rajhi Bank</SelectItem>
@@ -1030,7 +1024,7 @@ export function Employees() {
                       </Select>
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="bankAccount">Bank Account (IBAN)</Label>
+                      <Label htmlFor="bankAccount">{t("employees.bankAccount")}</Label>
                       <Input 
                         id="bankAccount" 
                         value={bankAccount} 
@@ -1045,11 +1039,11 @@ export function Employees() {
               <TabsContent value="emergency" className="space-y-4 pt-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="emergencyContact">Emergency Contact Name</Label>
-                    <Input id="emergencyContact" value={emergencyContact} onChange={(e) => setEmergencyContact(e.target.value)} placeholder="Contact Name" />
+                    <Label htmlFor="emergencyContact">{t("employees.emergencyContactName")}</Label>
+                    <Input id="emergencyContact" value={emergencyContact} onChange={(e) => setEmergencyContact(e.target.value)} placeholder={t("employees.contactNamePlaceholder")} />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="emergencyPhone">Emergency Phone</Label>
+                    <Label htmlFor="emergencyPhone">{t("employees.emergencyPhone")}</Label>
                     <Input id="emergencyPhone" value={emergencyPhone} onChange={(e) => setEmergencyPhone(e.target.value)} placeholder="+966 50 123 4567" />
                   </div>
                 </div>
@@ -1057,8 +1051,8 @@ export function Employees() {
             </Tabs>
 
             <div className="flex justify-end gap-3 pt-4">
-              <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>Cancel</Button>
-              <Button onClick={handleAddEmployee} className="bg-purple-600 hover:bg-purple-700 text-white">Add Employee</Button>
+              <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>{t("common.cancel")}</Button>
+              <Button onClick={handleAddEmployee} className="bg-purple-600 hover:bg-purple-700 text-white">{t("employees.add")}</Button>
             </div>
           </DialogContent>
         </Dialog>
@@ -1069,47 +1063,47 @@ export function Employees() {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Employees</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("employees.stats.total")}</CardTitle>
             <User className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{employees.length}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              {employees.filter(e => e.status === "active").length} Active
+              {t("employees.stats.active", { count: employees.filter(e => e.status === "active").length })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Payroll</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("employees.stats.payroll")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">SAR {totalSalaries.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">Monthly total</p>
+            <div className="text-2xl font-bold">{formatCurrency(totalSalaries)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("employees.stats.monthlyTotal")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Departments</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("employees.stats.departments")}</CardTitle>
             <Briefcase className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{new Set(employees.map(e => e.department)).size}</div>
-            <p className="text-xs text-muted-foreground mt-1">Active departments</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("employees.stats.activeDepartments")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Documents</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("employees.stats.documents")}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{employees.reduce((sum, emp) => sum + emp.documents.length, 0)}</div>
-            <p className="text-xs text-muted-foreground mt-1">Total files</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("employees.stats.totalFiles")}</p>
           </CardContent>
         </Card>
       </div>
@@ -1118,15 +1112,15 @@ export function Employees() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Employee List</CardTitle>
+            <CardTitle>{t("employees.list")}</CardTitle>
             <div className="flex items-center gap-2">
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search employees..."
+                  placeholder={t("employees.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[300px]"
+                  className="ps-8 w-[300px]"
                 />
               </div>
             </div>
@@ -1134,24 +1128,24 @@ export function Employees() {
         </CardHeader>
         <CardContent>
           {employeesLoading && employees.length === 0 ? (
-            <div className="py-8 text-center text-muted-foreground">Loading employees...</div>
+            <div className="py-8 text-center text-muted-foreground">{t("employees.loading")}</div>
           ) : filteredEmployees.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <User className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No employees found</p>
+              <p className="text-muted-foreground">{t("employees.empty")}</p>
             </div>
           ) : (
             <div className="rounded-md border">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Employee</TableHead>
-                    <TableHead>Position</TableHead>
-                    <TableHead>Department</TableHead>
-                    <TableHead>Salary</TableHead>
-                    <TableHead>Documents</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead>{t("employees.column.employee")}</TableHead>
+                    <TableHead>{t("employees.position")}</TableHead>
+                    <TableHead>{t("employees.department")}</TableHead>
+                    <TableHead>{t("employees.column.salary")}</TableHead>
+                    <TableHead>{t("employees.column.documents")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                    <TableHead className="text-end">{t("common.actions")}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -1169,16 +1163,16 @@ export function Employees() {
                             )}
                           </Avatar>
                           <div>
-                            <div className="font-medium">{employee.name}</div>
+                            <div className="font-medium">{localizedName(employee.name, employee.nameAr)}</div>
                             <div className="text-sm text-muted-foreground">{employee.displayCode}</div>
                           </div>
                         </div>
                       </TableCell>
                       <TableCell>{employee.position}</TableCell>
                       <TableCell>
-                        <Badge variant="outline">{employee.department}</Badge>
+                        <Badge variant="outline">{departmentLabel(employee.department)}</Badge>
                       </TableCell>
-                      <TableCell>SAR {employee.salary.toLocaleString()}</TableCell>
+                      <TableCell>{formatCurrency(employee.salary)}</TableCell>
                       <TableCell>
                         <Badge variant="outline" className="gap-1">
                           <FileText className="h-3 w-3" />
@@ -1195,38 +1189,35 @@ export function Employees() {
                           <SelectTrigger className="w-[140px] h-8 border-0 p-0">
                             <SelectValue>
                               <Badge className={statusColors[employee.status]}>
-                                {employee.status.replace('-', ' ')}
+                                {t(STATUS_KEYS[employee.status])}
                               </Badge>
                             </SelectValue>
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="active">
                               <div className="flex items-center gap-2">
-                                <Badge className={statusColors.active}>Active</Badge>
+                                <Badge className={statusColors.active}>{t("employees.status.active")}</Badge>
                               </div>
                             </SelectItem>
                             <SelectItem value="on-leave">
                               <div className="flex items-center gap-2">
-                                <Badge className={statusColors["on-leave"]}>On Leave</Badge>
+                                <Badge className={statusColors["on-leave"]}>{t("employees.status.onLeave")}</Badge>
                               </div>
                             </SelectItem>
                             <SelectItem value="terminated">
                               <div className="flex items-center gap-2">
-                                <Badge className={statusColors.terminated}>Terminated</Badge>
+                                <Badge className={statusColors.terminated}>{t("employees.status.terminated")}</Badge>
                               </div>
                             </SelectItem>
                           </SelectContent>
                         </Select>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex items-center justify-end gap-2">
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => {
-                              setSelectedEmployeeId(employee.id);
-                              setIsDetailsDialogOpen(true);
-                            }}
+                            onClick={() => openEmployee(employee.id)}
                           >
                             <FileText className="h-4 w-4" />
                           </Button>
@@ -1249,22 +1240,29 @@ export function Employees() {
       </Card>
 
       {/* Employee Details Dialog */}
-      <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
+      <Dialog
+        open={isDetailsDialogOpen}
+        onOpenChange={(open) => {
+          setIsDetailsDialogOpen(open);
+          if (!open) closeEmployee();
+        }}
+      >
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Employee Details</DialogTitle>
-            <DialogDescription>Complete employee information and records</DialogDescription>
+            <DialogTitle>{t("employees.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("employees.detailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedEmployee && (
             <Tabs defaultValue="info" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
-                <TabsTrigger value="info">Information</TabsTrigger>
-                <TabsTrigger value="employment">Employment</TabsTrigger>
-                <TabsTrigger value="financial">Financial</TabsTrigger>
+              <TabsList className="grid w-full grid-cols-5">
+                <TabsTrigger value="info">{t("employees.tab.information")}</TabsTrigger>
+                <TabsTrigger value="employment">{t("employees.tab.employment")}</TabsTrigger>
+                <TabsTrigger value="financial">{t("employees.tab.financial")}</TabsTrigger>
                 <TabsTrigger value="documents">
-                  Documents ({selectedEmployee.documents.length})
+                  {t("employees.tab.documents", { count: selectedEmployee.documents.length })}
                 </TabsTrigger>
+                <TabsTrigger value="history">{t("employees.tab.history")}</TabsTrigger>
               </TabsList>
 
               <TabsContent value="info" className="space-y-4">
@@ -1292,24 +1290,24 @@ export function Employees() {
                         <SelectTrigger className="w-[140px] h-8 border-0 p-0">
                           <SelectValue>
                             <Badge className={statusColors[selectedEmployee.status]}>
-                              {selectedEmployee.status.replace('-', ' ')}
+                              {t(STATUS_KEYS[selectedEmployee.status])}
                             </Badge>
                           </SelectValue>
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="active">
                             <div className="flex items-center gap-2">
-                              <Badge className={statusColors.active}>Active</Badge>
+                              <Badge className={statusColors.active}>{t("employees.status.active")}</Badge>
                             </div>
                           </SelectItem>
                           <SelectItem value="on-leave">
                             <div className="flex items-center gap-2">
-                              <Badge className={statusColors["on-leave"]}>On Leave</Badge>
+                              <Badge className={statusColors["on-leave"]}>{t("employees.status.onLeave")}</Badge>
                             </div>
                           </SelectItem>
                           <SelectItem value="terminated">
                             <div className="flex items-center gap-2">
-                              <Badge className={statusColors.terminated}>Terminated</Badge>
+                              <Badge className={statusColors.terminated}>{t("employees.status.terminated")}</Badge>
                             </div>
                           </SelectItem>
                         </SelectContent>
@@ -1320,36 +1318,36 @@ export function Employees() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Email</Label>
+                    <Label className="text-muted-foreground">{t("common.email")}</Label>
                     <div className="flex items-center gap-2">
                       <Mail className="h-4 w-4 text-muted-foreground" />
                       <p>{selectedEmployee.email}</p>
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Phone</Label>
+                    <Label className="text-muted-foreground">{t("common.phone")}</Label>
                     <div className="flex items-center gap-2">
                       <Phone className="h-4 w-4 text-muted-foreground" />
                       <p>{selectedEmployee.phone}</p>
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">National ID</Label>
+                    <Label className="text-muted-foreground">{t("employees.nationalId")}</Label>
                     <p>{selectedEmployee.nationalId}</p>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Address</Label>
+                    <Label className="text-muted-foreground">{t("employees.address")}</Label>
                     <div className="flex items-center gap-2">
                       <MapPin className="h-4 w-4 text-muted-foreground" />
                       <p>{selectedEmployee.address}</p>
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Emergency Contact</Label>
+                    <Label className="text-muted-foreground">{t("employees.emergencyContact")}</Label>
                     <p>{selectedEmployee.emergencyContact}</p>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Emergency Phone</Label>
+                    <Label className="text-muted-foreground">{t("employees.emergencyPhone")}</Label>
                     <p>{selectedEmployee.emergencyPhone}</p>
                   </div>
                 </div>
@@ -1358,36 +1356,36 @@ export function Employees() {
               <TabsContent value="employment" className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Position</Label>
+                    <Label className="text-muted-foreground">{t("employees.position")}</Label>
                     <p className="font-medium">{selectedEmployee.position}</p>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Department</Label>
-                    <Badge variant="outline">{selectedEmployee.department}</Badge>
+                    <Label className="text-muted-foreground">{t("employees.department")}</Label>
+                    <Badge variant="outline">{departmentLabel(selectedEmployee.department)}</Badge>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Contract Type</Label>
-                    <Badge>{selectedEmployee.contractType}</Badge>
+                    <Label className="text-muted-foreground">{t("employees.contractType")}</Label>
+                    <Badge>{t(CONTRACT_TYPE_KEYS[selectedEmployee.contractType])}</Badge>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Hire Date</Label>
+                    <Label className="text-muted-foreground">{t("employees.hireDate")}</Label>
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <p>{selectedEmployee.hireDate ? new Date(selectedEmployee.hireDate).toLocaleDateString('en-GB') : "—"}</p>
+                      <p>{formatDate(selectedEmployee.hireDate)}</p>
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Start Date</Label>
+                    <Label className="text-muted-foreground">{t("employees.startDate")}</Label>
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <p>{selectedEmployee.startDate ? new Date(selectedEmployee.startDate).toLocaleDateString('en-GB') : "—"}</p>
+                      <p>{formatDate(selectedEmployee.startDate)}</p>
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Tenure</Label>
+                    <Label className="text-muted-foreground">{t("employees.tenure")}</Label>
                     <p>
                       {selectedEmployee.hireDate 
-                        ? `${Math.floor((new Date().getTime() - new Date(selectedEmployee.hireDate).getTime()) / (1000 * 60 * 60 * 24 * 365))} years`
+                        ? t("employees.tenureYears", { count: Math.floor((new Date().getTime() - new Date(selectedEmployee.hireDate).getTime()) / (1000 * 60 * 60 * 24 * 365)) })
                         : "—"}
                     </p>
                   </div>
@@ -1396,32 +1394,32 @@ export function Employees() {
 
               <TabsContent value="financial" className="space-y-4">
                 <div className="p-4 bg-muted/50 rounded-lg space-y-3">
-                  <h4 className="font-semibold">Salary Breakdown</h4>
+                  <h4 className="font-semibold">{t("employees.salaryBreakdown")}</h4>
                   <div className="grid grid-cols-2 gap-3">
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-sm">Base Salary</Label>
-                      <p className="font-medium">SAR {selectedEmployee.baseSalary.toLocaleString()}</p>
+                      <Label className="text-muted-foreground text-sm">{t("employees.baseSalary")}</Label>
+                      <p className="font-medium">{formatCurrency(selectedEmployee.baseSalary)}</p>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-sm">Housing Allowance</Label>
-                      <p className="font-medium">SAR {selectedEmployee.housingAllowance.toLocaleString()}</p>
+                      <Label className="text-muted-foreground text-sm">{t("employees.housingAllowance")}</Label>
+                      <p className="font-medium">{formatCurrency(selectedEmployee.housingAllowance)}</p>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-sm">Transport Allowance</Label>
-                      <p className="font-medium">SAR {selectedEmployee.transportAllowance.toLocaleString()}</p>
+                      <Label className="text-muted-foreground text-sm">{t("employees.transportAllowance")}</Label>
+                      <p className="font-medium">{formatCurrency(selectedEmployee.transportAllowance)}</p>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-sm">Other Allowances</Label>
-                      <p className="font-medium">SAR {selectedEmployee.otherAllowances.toLocaleString()}</p>
+                      <Label className="text-muted-foreground text-sm">{t("employees.otherAllowances")}</Label>
+                      <p className="font-medium">{formatCurrency(selectedEmployee.otherAllowances)}</p>
                     </div>
                   </div>
                   <div className="pt-3 border-t">
                     <div className="flex justify-between items-center">
-                      <Label className="text-muted-foreground">Total Monthly Salary</Label>
+                      <Label className="text-muted-foreground">{t("employees.totalMonthlySalary")}</Label>
                       <div className="flex items-center gap-2">
                         <DollarSign className="h-5 w-5 text-primary" />
                         <p className="text-xl font-bold text-primary">
-                          SAR {selectedEmployee.salary.toLocaleString()}
+                          {formatCurrency(selectedEmployee.salary)}
                         </p>
                       </div>
                     </div>
@@ -1430,22 +1428,22 @@ export function Employees() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Social Insurance No.</Label>
+                    <Label className="text-muted-foreground">{t("employees.socialInsuranceNo")}</Label>
                     <div className="flex items-center gap-2">
                       <Shield className="h-4 w-4 text-muted-foreground" />
                       <p>{selectedEmployee.socialInsurance}</p>
                     </div>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Social Insurance Amount</Label>
-                    <p className="font-medium">SAR {selectedEmployee.socialInsuranceAmount.toLocaleString()}</p>
+                    <Label className="text-muted-foreground">{t("employees.socialInsuranceAmount")}</Label>
+                    <p className="font-medium">{formatCurrency(selectedEmployee.socialInsuranceAmount)}</p>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Bank Name</Label>
+                    <Label className="text-muted-foreground">{t("employees.bankName")}</Label>
                     <p>{selectedEmployee.bankName}</p>
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground">Bank Account (IBAN)</Label>
+                    <Label className="text-muted-foreground">{t("employees.bankAccount")}</Label>
                     <p className="font-mono text-sm">{selectedEmployee.bankAccount}</p>
                   </div>
                 </div>
@@ -1453,7 +1451,7 @@ export function Employees() {
 
               <TabsContent value="documents" className="space-y-4">
                 <div className="flex items-center justify-between">
-                  <h4 className="font-semibold">Employee Documents</h4>
+                  <h4 className="font-semibold">{t("employees.documents")}</h4>
                   <Button 
                     size="sm" 
                     className="gap-2"
@@ -1463,14 +1461,14 @@ export function Employees() {
                     }}
                   >
                     <Upload className="h-4 w-4" />
-                    Upload Document
+                    {t("employees.uploadDocument")}
                   </Button>
                 </div>
 
                 {selectedEmployee.documents.length === 0 ? (
                   <div className="text-center py-12 border rounded-lg bg-muted/30">
                     <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
-                    <p className="text-muted-foreground">No documents uploaded yet</p>
+                    <p className="text-muted-foreground">{t("employees.noDocuments")}</p>
                     <Button 
                       variant="outline" 
                       size="sm" 
@@ -1481,7 +1479,7 @@ export function Employees() {
                       }}
                     >
                       <Upload className="h-4 w-4" />
-                      Upload First Document
+                      {t("employees.uploadFirstDocument")}
                     </Button>
                   </div>
                 ) : (
@@ -1506,11 +1504,11 @@ export function Employees() {
                             <div className="flex items-center gap-2">
                               <p className="font-medium">{doc.name}</p>
                               <Badge className={documentCategoryColors[doc.category]} variant="outline">
-                                {doc.category}
+                                {t(DOCUMENT_CATEGORY_KEYS[doc.category])}
                               </Badge>
                             </div>
                             <p className="text-sm text-muted-foreground">
-                              Uploaded {new Date(doc.uploadDate).toLocaleDateString('en-GB')}
+                              {t("employees.uploaded", { date: formatDate(doc.uploadDate) })}
                               {doc.notes && ` • ${doc.notes}`}
                             </p>
                           </div>
@@ -1527,7 +1525,7 @@ export function Employees() {
                               }}
                             >
                               <Eye className="h-4 w-4" />
-                              View
+                              {t("common.view")}
                             </Button>
                           )}
                           {doc.fileUrl && (
@@ -1538,7 +1536,7 @@ export function Employees() {
                               onClick={() => handleDownloadDocument(doc)}
                             >
                               <Download className="h-4 w-4" />
-                              Download
+                              {t("common.download")}
                             </Button>
                           )}
                           <Button 
@@ -1554,6 +1552,10 @@ export function Employees() {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="history">
+                <RecordHistory table="employees" rowId={selectedEmployee.id} />
+              </TabsContent>
             </Tabs>
           )}
         </DialogContent>
@@ -1563,41 +1565,41 @@ export function Employees() {
       <Dialog open={isUploadDialogOpen} onOpenChange={setIsUploadDialogOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Upload Employee Document</DialogTitle>
+            <DialogTitle>{t("employees.uploadTitle")}</DialogTitle>
             <DialogDescription>
-              Upload contract, ID, photo, certificates, or other documents for {selectedEmployee?.name}
+              {t("employees.uploadDescription", { name: selectedEmployee?.name ?? "" })}
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="docName">Document Name *</Label>
+              <Label htmlFor="docName">{t("employees.documentNameRequired")}</Label>
               <Input
                 id="docName"
                 value={documentName}
                 onChange={(e) => setDocumentName(e.target.value)}
-                placeholder="e.g., Employment Contract 2024"
+                placeholder={t("employees.documentNamePlaceholder")}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="docCategory">Document Category *</Label>
+              <Label htmlFor="docCategory">{t("employees.documentCategoryRequired")}</Label>
               <Select value={documentCategory} onValueChange={(value: any) => setDocumentCategory(value)}>
                 <SelectTrigger id="docCategory">
-                  <SelectValue placeholder="Select category" />
+                  <SelectValue placeholder={t("employees.selectCategory")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="contract">Contract</SelectItem>
-                  <SelectItem value="id">National ID / Iqama</SelectItem>
-                  <SelectItem value="photo">Employee Photo</SelectItem>
-                  <SelectItem value="certificate">Certificate / Diploma</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
+                  <SelectItem value="contract">{t("employees.docCategory.contract")}</SelectItem>
+                  <SelectItem value="id">{t("employees.docCategory.id")}</SelectItem>
+                  <SelectItem value="photo">{t("employees.docCategory.photo")}</SelectItem>
+                  <SelectItem value="certificate">{t("employees.docCategory.certificate")}</SelectItem>
+                  <SelectItem value="other">{t("employees.docCategory.other")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label>Upload File *</Label>
+              <Label>{t("employees.uploadFileRequired")}</Label>
               <input
                 ref={fileInputRef}
                 type="file"
@@ -1612,16 +1614,16 @@ export function Employees() {
                 className="w-full gap-2"
               >
                 <Upload className="h-4 w-4" />
-                {documentFile ? "Change File" : "Choose File"}
+                {documentFile ? t("employees.changeFile") : t("employees.chooseFile")}
               </Button>
               {documentFile && (
                 <div className="p-4 border rounded-lg bg-muted/30">
                   {documentFileType?.startsWith('image/') ? (
-                    <img src={URL.createObjectURL(documentFile)} alt="Preview" className="max-h-48 mx-auto rounded" />
+                    <img src={URL.createObjectURL(documentFile)} alt={t("employees.preview")} className="max-h-48 mx-auto rounded" />
                   ) : (
                     <div className="flex items-center gap-2 text-sm">
                       <File className="h-5 w-5 text-primary" />
-                      <span>{documentFile.name} ({(documentFile.size / 1024).toFixed(2)} KB)</span>
+                      <span>{t("employees.fileSize", { name: documentFile.name, size: formatNumber(documentFile.size / 1024, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}</span>
                     </div>
                   )}
                 </div>
@@ -1629,22 +1631,22 @@ export function Employees() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="docNotes">Notes (Optional)</Label>
+              <Label htmlFor="docNotes">{t("employees.notesOptional")}</Label>
               <Textarea
                 id="docNotes"
                 value={documentNotes}
                 onChange={(e) => setDocumentNotes(e.target.value)}
-                placeholder="Add any additional notes about this document..."
+                placeholder={t("employees.notesPlaceholder")}
                 rows={3}
               />
             </div>
           </div>
 
           <div className="flex justify-end gap-3 pt-4">
-            <Button variant="outline" onClick={() => setIsUploadDialogOpen(false)}>Cancel</Button>
+            <Button variant="outline" onClick={() => setIsUploadDialogOpen(false)}>{t("common.cancel")}</Button>
             <Button onClick={handleAddDocument} disabled={!documentName || !documentFile || uploadingDocument}>
-              <Upload className="h-4 w-4 mr-2" />
-              {uploadingDocument ? "Uploading..." : "Upload Document"}
+              <Upload className="h-4 w-4 me-2" />
+              {uploadingDocument ? t("employees.uploading") : t("employees.uploadDocument")}
             </Button>
           </div>
         </DialogContent>
@@ -1657,10 +1659,10 @@ export function Employees() {
             <DialogTitle>{viewDocument?.name}</DialogTitle>
             <DialogDescription>
               <Badge className={viewDocument ? documentCategoryColors[viewDocument.category] : ""} variant="outline">
-                {viewDocument?.category}
+                {viewDocument && t(DOCUMENT_CATEGORY_KEYS[viewDocument.category])}
               </Badge>
-              <span className="ml-2">
-                Uploaded on {viewDocument && new Date(viewDocument.uploadDate).toLocaleDateString('en-GB')}
+              <span className="ms-2">
+                {viewDocument && t("employees.uploadedOn", { date: formatDate(viewDocument.uploadDate) })}
               </span>
             </DialogDescription>
           </DialogHeader>
@@ -1682,7 +1684,7 @@ export function Employees() {
               ) : (
                 <div className="flex flex-col items-center justify-center h-[400px] border rounded-lg bg-muted/30">
                   <File className="h-16 w-16 text-muted-foreground mb-4" />
-                  <p className="text-muted-foreground">Preview not available for this file type</p>
+                  <p className="text-muted-foreground">{t("employees.previewUnavailable")}</p>
                   <Button
                     variant="outline"
                     size="sm"
@@ -1690,7 +1692,7 @@ export function Employees() {
                     onClick={() => handleDownloadDocument(viewDocument)}
                   >
                     <Download className="h-4 w-4" />
-                    Download to View
+                    {t("employees.downloadToView")}
                   </Button>
                 </div>
               )}
@@ -1699,17 +1701,17 @@ export function Employees() {
 
           {viewDocument?.notes && (
             <div className="p-3 border rounded-lg bg-muted/30 mt-4">
-              <Label className="text-sm font-medium">Notes:</Label>
+              <Label className="text-sm font-medium">{t("employees.notesLabel")}</Label>
               <p className="text-sm text-muted-foreground mt-1">{viewDocument.notes}</p>
             </div>
           )}
 
           <div className="flex justify-end gap-3 pt-4">
-            <Button variant="outline" onClick={() => setIsViewDocumentOpen(false)}>Close</Button>
+            <Button variant="outline" onClick={() => setIsViewDocumentOpen(false)}>{t("common.close")}</Button>
             {viewDocument && (
               <Button onClick={() => handleDownloadDocument(viewDocument)} className="gap-2">
                 <Download className="h-4 w-4" />
-                Download
+                {t("common.download")}
               </Button>
             )}
           </div>
@@ -1720,9 +1722,9 @@ export function Employees() {
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Employee</DialogTitle>
+            <DialogTitle>{t("employees.deleteTitle")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this employee? This action cannot be undone.
+              {t("employees.deleteDescription")}
             </DialogDescription>
           </DialogHeader>
           {employeeToDelete && (
@@ -1740,22 +1742,22 @@ export function Employees() {
                 <div>
                   <p className="font-medium">{employeeToDelete.name}</p>
                   <p className="text-sm text-muted-foreground">
-                    {employeeToDelete.position} • {employeeToDelete.department}
+                    {employeeToDelete.position} • {departmentLabel(employeeToDelete.department)}
                   </p>
                   <p className="text-xs text-muted-foreground">{employeeToDelete.displayCode}</p>
                 </div>
               </div>
-              <div className="mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
-                <p className="text-sm text-destructive font-medium">
-                  Warning: This will permanently delete:
+              <div className="mt-4 p-3 bg-muted/50 border rounded-lg">
+                <p className="text-sm font-medium">
+                  {t("employees.purgeDeletes")}
                 </p>
                 <ul className="mt-2 text-sm text-muted-foreground list-disc list-inside space-y-1">
-                  <li>Employee record and all personal information</li>
-                  <li>All attendance records</li>
-                  <li>All employee requests</li>
-                  <li>All custody items</li>
-                  <li>All documents and photos</li>
-                  <li>Related expenses and leaves</li>
+                  <li>{t("employees.purge.record")}</li>
+                  <li>{t("employees.purge.attendance")}</li>
+                  <li>{t("employees.purge.requests")}</li>
+                  <li>{t("employees.purge.custody")}</li>
+                  <li>{t("employees.purge.documents")}</li>
+                  <li>{t("employees.purge.expensesLeaves")}</li>
                 </ul>
               </div>
             </div>
@@ -1765,14 +1767,14 @@ export function Employees() {
               setIsDeleteDialogOpen(false);
               setEmployeeToDelete(null);
             }}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button 
               variant="destructive" 
               onClick={() => deleteEmployee()}
             >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete Employee
+              <Trash2 className="h-4 w-4 me-2" />
+              {t("employees.deleteTitle")}
             </Button>
           </div>
         </DialogContent>
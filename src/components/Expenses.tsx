@@ -16,6 +16,8 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Expenses as ExpenseRow } from "../../supabase/models/expenses";
 import type { ExpensePayments as ExpensePaymentRow } from "../../supabase/models/expense_payments";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 type ExpenseStatus = "Paid" | "Partial" | "Unpaid";
 
@@ -77,11 +79,32 @@ const statusColors: Record<ExpenseStatus, string> = {
   Unpaid: "bg-yellow-100 text-yellow-700 border-yellow-200"
 };
 
+// Categories and methods are stored as the English name; custom categories have no key
+const CATEGORY_KEYS: Record<string, MessageKey> = {
+  "Office Supplies": "expenses.category.officeSupplies",
+  "Transportation": "expenses.category.transportation",
+  "Utilities": "expenses.category.utilities",
+  "Marketing": "expenses.category.marketing",
+  "Maintenance": "expenses.category.maintenance",
+  "Salaries": "expenses.category.salaries",
+  "Rent": "expenses.category.rent",
+  "Other": "expenses.category.other"
+};
+
+const STATUS_KEYS: Record<ExpenseStatus, MessageKey> = {
+  Paid: "status.paid",
+  Partial: "status.partial",
+  Unpaid: "status.unpaid"
+};
+
 const paymentMethods = ["Cash", "Credit Card", "Bank Transfer", "Check"];
 
-function formatCurrency(value: number) {
-  return Number(value || 0).toLocaleString();
-}
+const PAYMENT_METHOD_KEYS: Record<string, MessageKey> = {
+  "Cash": "expenses.method.cash",
+  "Credit Card": "expenses.method.creditCard",
+  "Bank Transfer": "expenses.method.bankTransfer",
+  "Check": "expenses.method.check"
+};
 
 function computeStatus(total: number, paid: number): ExpenseStatus {
   if (paid >= total && total > 0) return "Paid";
@@ -123,6 +146,11 @@ function parseExpenseIdentifier(identifier: string | null | undefined) {
 }
 
 export function Expenses() {
+  const { t, formatCurrency, formatDate } = useLocale();
+  const optionLabel = (keys: Record<string, MessageKey>, value: string) => {
+    const key = keys[value];
+    return key ? t(key) : value;
+  };
   const dispatch = useAppDispatch();
 
   const dbExpenses = useAppSelector(selectors.expenses.selectAll) as ExpenseRow[];
@@ -264,7 +292,7 @@ export function Expenses() {
     ? Math.max(0, selectedExpenseForPayment.totalAmount - selectedExpenseForPayment.paidAmount)
     : 0;
 
-  const remainingBalanceLabel = remainingBalance > 0 ? "Remaining Balance" : "Already Paid";
+  const remainingBalanceLabel = remainingBalance > 0 ? t("expenses.remainingBalance") : t("expenses.alreadyPaid");
   const remainingBalanceColor = remainingBalance > 0 ? "text-orange-600" : "text-green-600";
 
   const calculateTax = (baseAmount: string, rate: string) => {
@@ -286,7 +314,7 @@ export function Expenses() {
     const paidValue = parseFloat(value) || 0;
     
     if (paidValue > total) {
-      toast.error(`Paid amount cannot exceed total amount of ر.س${formatCurrency(total)}`);
+      toast.error(t("expenses.paidExceedsTotal", { total: formatCurrency(total) }));
       return;
     }
     
@@ -297,7 +325,7 @@ export function Expenses() {
     const amountValue = Number(value) || 0;
     
     if (selectedExpenseForPayment && amountValue > remainingBalance) {
-      toast.error(`Payment amount cannot exceed remaining balance of ر.س${formatCurrency(remainingBalance)}`);
+      toast.error(t("expenses.paymentExceedsBalanceOf", { balance: formatCurrency(remainingBalance) }));
       return;
     }
     
@@ -337,18 +365,18 @@ export function Expenses() {
   const handleAddCategory = () => {
     const trimmed = newCategoryName.trim();
     if (!trimmed) {
-      toast.error("Please enter category name");
+      toast.error(t("expenses.categoryNameRequired"));
       return;
     }
     if (derivedCategories.includes(trimmed)) {
-      toast.error("Category already exists");
+      toast.error(t("expenses.categoryExists"));
       return;
     }
     setCustomCategories((prev) => [...prev, trimmed]);
     categoryColors[trimmed] = "bg-gray-100 text-gray-700 border-gray-200";
     setIsAddCategoryDialogOpen(false);
     setNewCategoryName("");
-    toast.success("Category added successfully!");
+    toast.success(t("expenses.categoryAdded"));
   };
 
   const resetExpenseForm = () => {
@@ -389,7 +417,7 @@ export function Expenses() {
 
   const handleSaveExpense = async () => {
     if (!date || !category || !description || !amount || !paymentMethod || !paidTo) {
-      toast.error("Please fill all required fields");
+      toast.error(t("expenses.requiredFields"));
       return;
     }
 
@@ -400,7 +428,7 @@ export function Expenses() {
 
     // Validate that paid amount doesn't exceed total amount
     if (paid > total) {
-      toast.error(`Paid amount (ر.س${formatCurrency(paid)}) cannot exceed total amount (ر.س${formatCurrency(total)})`);
+      toast.error(t("expenses.paidAmountExceedsTotal", { paid: formatCurrency(paid), total: formatCurrency(total) }));
       return;
     }
 
@@ -431,16 +459,16 @@ export function Expenses() {
             values: payload
           })
         ).unwrap();
-        toast.success("Expense updated successfully!");
+        toast.success(translateCurrent("expenses.updated"));
       } else {
         await dispatch(thunks.expenses.createOne(payload)).unwrap();
-    toast.success("Expense added successfully!");
+        toast.success(translateCurrent("expenses.added"));
       }
 
       setIsAddDialogOpen(false);
       resetExpenseForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to save expense");
+      toast.error(error?.message ?? translateCurrent("expenses.saveFailed"));
     } finally {
       setIsSavingExpense(false);
     }
@@ -448,14 +476,14 @@ export function Expenses() {
 
   const handleDeleteExpense = async (expense: ExpenseRecord) => {
     if (!expense.dbId) return;
-    const confirmDelete = window.confirm("Are you sure you want to delete this expense?");
+    const confirmDelete = window.confirm(t("expenses.confirmDelete"));
     if (!confirmDelete) return;
 
     try {
       await dispatch(thunks.expenses.deleteOne(expense.dbId)).unwrap();
-      toast.success("Expense deleted successfully!");
+      toast.success(translateCurrent("expenses.deleted"));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to delete expense");
+      toast.error(error?.message ?? translateCurrent("expenses.deleteFailed"));
     }
   };
 
@@ -494,27 +522,27 @@ export function Expenses() {
 
   const handleRecordPayment = async () => {
     if (!paymentForm.expenseId || !paymentForm.amount || paymentForm.amount <= 0) {
-      toast.error("Please select expense and enter payment amount");
+      toast.error(t("expenses.paymentRequired"));
       return;
     }
     if (!paymentForm.referenceNumber.trim()) {
-      toast.error("Reference number is required");
+      toast.error(t("expenses.referenceRequired"));
       return;
     }
 
     const expense = expenseLookup.get(paymentForm.expenseId);
     if (!expense) {
-      toast.error("Selected expense not found");
+      toast.error(t("expenses.notFound"));
       return;
     }
 
     const remaining = Math.max(0, expense.totalAmount - expense.paidAmount);
     if (remaining <= 0) {
-      toast.error("This expense is already fully paid");
+      toast.error(t("expenses.alreadyFullyPaid"));
       return;
     }
     if (paymentForm.amount > remaining) {
-      toast.error("Payment amount cannot exceed remaining balance");
+      toast.error(t("expenses.paymentExceedsBalance"));
       return;
     }
 
@@ -543,10 +571,10 @@ export function Expenses() {
         })
       ).unwrap();
 
-      toast.success("Payment recorded successfully!");
+      toast.success(translateCurrent("expenses.paymentRecorded"));
       resetPaymentForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to record payment");
+      toast.error(error?.message ?? translateCurrent("expenses.paymentFailed"));
     } finally {
       setIsSavingPayment(false);
     }
@@ -616,9 +644,9 @@ export function Expenses() {
       XLSX.utils.book_append_sheet(wb, ws, "Expenses");
       const fileName = `expenses_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -627,31 +655,31 @@ export function Expenses() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Expenses Management</h2>
-          <p className="text-muted-foreground mt-1">Track and manage purchase expenses</p>
-          {loading && <p className="text-xs text-muted-foreground mt-1">Syncing latest data...</p>}
+          <h2 className="text-2xl font-semibold tracking-tight">{t("expenses.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("expenses.subtitle")}</p>
+          {loading && <p className="text-xs text-muted-foreground mt-1">{t("expenses.syncing")}</p>}
         </div>
         <div className="flex gap-2">
           <Dialog open={isAddCategoryDialogOpen} onOpenChange={setIsAddCategoryDialogOpen}>
             <DialogTrigger asChild>
               <Button variant="outline" className="gap-2">
                 <Tag className="h-4 w-4" />
-                Add Category
+                {t("expenses.addCategory")}
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-md">
               <DialogHeader>
-                <DialogTitle>Add New Category</DialogTitle>
-                <DialogDescription>Create a custom expense category</DialogDescription>
+                <DialogTitle>{t("expenses.newCategoryTitle")}</DialogTitle>
+                <DialogDescription>{t("expenses.newCategoryDescription")}</DialogDescription>
               </DialogHeader>
               <div className="space-y-4 pt-4">
                 <div className="space-y-2">
-                  <Label htmlFor="categoryName">Category Name</Label>
+                  <Label htmlFor="categoryName">{t("expenses.categoryName")}</Label>
                   <Input 
                     id="categoryName" 
                     value={newCategoryName}
                     onChange={(e) => setNewCategoryName(e.target.value)}
-                    placeholder="Enter category name"
+                    placeholder={t("expenses.categoryNamePlaceholder")}
                   />
                 </div>
               </div>
@@ -663,26 +691,26 @@ export function Expenses() {
                   setNewCategoryName("");
                   }}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
-                <Button onClick={handleAddCategory}>Add Category</Button>
+                <Button onClick={handleAddCategory}>{t("expenses.addCategory")}</Button>
               </DialogFooter>
             </DialogContent>
           </Dialog>
 
           <Button variant="outline" onClick={() => openPaymentDialog()} className="gap-2">
             <DollarSign className="h-4 w-4" />
-            Add Payment
+            {t("expenses.addPayment")}
           </Button>
 
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
 
           <Button onClick={openAddExpenseDialog} className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                Add Expense
+                {t("expenses.add")}
               </Button>
         </div>
       </div>
@@ -698,84 +726,84 @@ export function Expenses() {
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Expenses</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("expenses.totalExpenses")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-red-600">{formatCurrency(totalExpensesPaid)} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Fully paid expenses</p>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(totalExpensesPaid)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("expenses.fullyPaidExpenses")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Outstanding</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("expenses.outstanding")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">{formatCurrency(pendingExpensesTotal)} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting payment</p>
+            <div className="text-2xl font-bold text-yellow-600">{formatCurrency(pendingExpensesTotal)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("expenses.awaitingPayment")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">This Month</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("expenses.thisMonth")}</CardTitle>
             <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{monthlyExpenseCount}</div>
-            <p className="text-xs text-muted-foreground mt-1">Transactions recorded</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("expenses.transactionsRecorded")}</p>
           </CardContent>
         </Card>
       </div>
 
       <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "expenses" | "payments")} className="space-y-4">
         <TabsList>
-          <TabsTrigger value="expenses">Expenses</TabsTrigger>
-          <TabsTrigger value="payments">Expense Payments</TabsTrigger>
+          <TabsTrigger value="expenses">{t("expenses.tab.expenses")}</TabsTrigger>
+          <TabsTrigger value="payments">{t("expenses.tab.payments")}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="expenses" className="space-y-4">
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle>Expense Records</CardTitle>
+                <CardTitle>{t("expenses.records")}</CardTitle>
                 <div className="flex items-center gap-2">
               <Select value={filterCategory} onValueChange={setFilterCategory}>
                 <SelectTrigger className="w-[180px]">
-                  <Tag className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Category" />
+                  <Tag className="h-4 w-4 me-2" />
+                  <SelectValue placeholder={t("expenses.category")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
+                  <SelectItem value="all">{t("expenses.allCategories")}</SelectItem>
                   {derivedCategories.map((cat) => (
                     <SelectItem key={cat} value={cat}>
-                      {cat}
+                      {optionLabel(CATEGORY_KEYS, cat)}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
               <Select value={filterStatus} onValueChange={setFilterStatus}>
                 <SelectTrigger className="w-[160px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Status" />
+                  <Filter className="h-4 w-4 me-2" />
+                  <SelectValue placeholder={t("common.status")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="Paid">Paid</SelectItem>
-                  <SelectItem value="Partial">Partial</SelectItem>
-                  <SelectItem value="Unpaid">Unpaid</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  <SelectItem value="Paid">{t("status.paid")}</SelectItem>
+                  <SelectItem value="Partial">{t("status.partial")}</SelectItem>
+                  <SelectItem value="Unpaid">{t("status.unpaid")}</SelectItem>
                 </SelectContent>
               </Select>
               </div>
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search expenses..."
+                  placeholder={t("expenses.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[250px]"
+                  className="ps-8 w-[250px]"
                 />
               </div>
               </div>
@@ -785,25 +813,25 @@ export function Expenses() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Expense #</TableHead>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Category</TableHead>
-                      <TableHead>Description</TableHead>
-                      <TableHead>Paid To</TableHead>
-                      <TableHead>Base Amount</TableHead>
-                      <TableHead>Tax</TableHead>
-                      <TableHead>Total</TableHead>
-                      <TableHead>Paid</TableHead>
-                      <TableHead>Remaining</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("expenses.number")}</TableHead>
+                      <TableHead>{t("common.date")}</TableHead>
+                      <TableHead>{t("expenses.category")}</TableHead>
+                      <TableHead>{t("expenses.description")}</TableHead>
+                      <TableHead>{t("expenses.paidTo")}</TableHead>
+                      <TableHead>{t("expenses.baseAmount")}</TableHead>
+                      <TableHead>{t("expenses.tax")}</TableHead>
+                      <TableHead>{t("common.total")}</TableHead>
+                      <TableHead>{t("expenses.paid")}</TableHead>
+                      <TableHead>{t("expenses.remaining")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {filteredExpenses.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={12} className="text-center py-6 text-muted-foreground">
-                          No expenses found
+                          {t("expenses.empty")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -811,32 +839,26 @@ export function Expenses() {
                         <TableRow key={expense.dbId}>
                           <TableCell className="font-mono text-sm">{expense.expenseNumber}</TableCell>
                           <TableCell>
-                            {expense.date
-                              ? new Date(expense.date).toLocaleDateString("en-GB", {
-                                  month: "short",
-                                  day: "numeric",
-                                  year: "numeric"
-                                })
-                              : "-"}
+                            {formatDate(expense.date)}
                           </TableCell>
                           <TableCell>
                             <Badge className={categoryColors[expense.category] || categoryColors.Other}>
-                              {expense.category}
+                              {optionLabel(CATEGORY_KEYS, expense.category)}
                             </Badge>
                           </TableCell>
                           <TableCell>
                             <div className="max-w-[180px] truncate">{expense.description}</div>
                           </TableCell>
                           <TableCell>{expense.paidTo}</TableCell>
-                          <TableCell className="font-medium">{formatCurrency(expense.baseAmount)} ر.س</TableCell>
+                          <TableCell className="font-medium">{formatCurrency(expense.baseAmount)}</TableCell>
                           <TableCell className="text-xs text-muted-foreground">
-                            {formatCurrency(expense.taxAmount)} ر.س
+                            {formatCurrency(expense.taxAmount)}
                           </TableCell>
                           <TableCell className="font-semibold text-red-600">
-                            {formatCurrency(expense.totalAmount)} ر.س
+                            {formatCurrency(expense.totalAmount)}
                           </TableCell>
                           <TableCell className="text-green-600">
-                            {formatCurrency(expense.paidAmount)} ر.س
+                            {formatCurrency(expense.paidAmount)}
                           </TableCell>
                           <TableCell
                             className={
@@ -845,18 +867,18 @@ export function Expenses() {
                                 : "text-muted-foreground"
                             }
                           >
-                            {formatCurrency(expense.remainingAmount)} ر.س
+                            {formatCurrency(expense.remainingAmount)}
                           </TableCell>
                           <TableCell>
-                            <Badge className={statusColors[expense.status]}>{expense.status}</Badge>
+                            <Badge className={statusColors[expense.status]}>{t(STATUS_KEYS[expense.status])}</Badge>
                           </TableCell>
-                          <TableCell className="text-right">
+                          <TableCell className="text-end">
                             <div className="flex items-center justify-end gap-2">
                               <Button
                                 variant="ghost"
                                 size="icon"
                                 onClick={() => openPaymentDialog(expense.dbId)}
-                                title="Record Payment"
+                                title={t("expenses.recordPayment")}
                               >
                                 <DollarSign className="h-4 w-4 text-green-600" />
                               </Button>
@@ -864,7 +886,7 @@ export function Expenses() {
                                 variant="ghost"
                                 size="icon"
                                 onClick={() => handleEditExpense(expense)}
-                                title="Edit Expense"
+                                title={t("expenses.edit")}
                               >
                                 <Edit className="h-4 w-4 text-blue-600" />
                               </Button>
@@ -872,7 +894,7 @@ export function Expenses() {
                                 variant="ghost"
                                 size="icon"
                                 onClick={() => handleDeleteExpense(expense)}
-                                title="Delete Expense"
+                                title={t("expenses.delete")}
                               >
                                 <Trash2 className="h-4 w-4 text-red-600" />
                               </Button>
@@ -883,11 +905,11 @@ export function Expenses() {
                                   setViewExpense(expense);
                                   setIsViewDialogOpen(true);
                                 }}
-                                title="View Receipt"
+                                title={t("expenses.viewReceipt")}
                               >
                                 <FileText className="h-4 w-4" />
                               </Button>
-                              <Button variant="ghost" size="icon" title="Download Receipt">
+                              <Button variant="ghost" size="icon" title={t("expenses.downloadReceipt")}>
                                 <Download className="h-4 w-4" />
                               </Button>
                             </div>
@@ -907,12 +929,12 @@ export function Expenses() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Expense Payments</CardTitle>
-                  <CardDescription>Reference log for recorded expense payments</CardDescription>
+                  <CardTitle>{t("expenses.tab.payments")}</CardTitle>
+                  <CardDescription>{t("expenses.paymentsDescription")}</CardDescription>
                 </div>
                 <Button variant="outline" onClick={() => setIsPaymentDialogOpen(true)}>
-                  <DollarSign className="mr-2 h-4 w-4" />
-                  Record Payment
+                  <DollarSign className="me-2 h-4 w-4" />
+                  {t("expenses.recordPayment")}
                 </Button>
               </div>
             </CardHeader>
@@ -921,19 +943,19 @@ export function Expenses() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Payment Date</TableHead>
-                      <TableHead>Expense</TableHead>
-                      <TableHead>Vendor</TableHead>
-                      <TableHead>Amount</TableHead>
-                      <TableHead>Method</TableHead>
-                      <TableHead>Reference</TableHead>
+                      <TableHead>{t("expenses.paymentDate")}</TableHead>
+                      <TableHead>{t("expenses.expense")}</TableHead>
+                      <TableHead>{t("expenses.vendor")}</TableHead>
+                      <TableHead>{t("expenses.amount")}</TableHead>
+                      <TableHead>{t("expenses.method")}</TableHead>
+                      <TableHead>{t("expenses.reference")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {payments.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
-                          No payments recorded yet
+                          {t("expenses.noPayments")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -942,17 +964,15 @@ export function Expenses() {
                         return (
                           <TableRow key={payment.id}>
                             <TableCell>
-                              {payment.date
-                                ? new Date(payment.date).toLocaleDateString("en-GB")
-                                : "-"}
+                              {formatDate(payment.date)}
                             </TableCell>
                             <TableCell>
-                              {expense ? `${expense.expenseNumber} - ${expense.description}` : "Unknown Expense"}
+                              {expense ? `${expense.expenseNumber} - ${expense.description}` : t("expenses.unknownExpense")}
                             </TableCell>
                             <TableCell>{expense?.paidTo ?? "-"}</TableCell>
-                            <TableCell className="font-medium">{formatCurrency(payment.amount)} ر.س</TableCell>
+                            <TableCell className="font-medium">{formatCurrency(payment.amount)}</TableCell>
                             <TableCell>
-                              <Badge variant="outline">{payment.method || "N/A"}</Badge>
+                              <Badge variant="outline">{payment.method ? optionLabel(PAYMENT_METHOD_KEYS, payment.method) : t("common.notAvailable")}</Badge>
                             </TableCell>
                             <TableCell className="text-sm text-muted-foreground">
                               {payment.reference}
@@ -978,13 +998,13 @@ export function Expenses() {
       >
             <DialogContent className="max-w-3xl">
               <DialogHeader>
-            <DialogTitle>{editingExpense ? "Edit Expense" : "Add New Expense"}</DialogTitle>
-                <DialogDescription>Enter expense details</DialogDescription>
+            <DialogTitle>{editingExpense ? t("expenses.edit") : t("expenses.newTitle")}</DialogTitle>
+                <DialogDescription>{t("expenses.newDescription")}</DialogDescription>
               </DialogHeader>
               <div className="space-y-4 pt-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                <Label htmlFor="expenseDate">Date *</Label>
+                <Label htmlFor="expenseDate">{t("expenses.dateRequired")}</Label>
                 <Input
                   id="expenseDate"
                   type="date"
@@ -993,15 +1013,15 @@ export function Expenses() {
                 />
                   </div>
                   <div className="space-y-2">
-                <Label htmlFor="expenseCategory">Category *</Label>
+                <Label htmlFor="expenseCategory">{t("expenses.categoryRequired")}</Label>
                     <Select value={category} onValueChange={setCategory}>
                   <SelectTrigger id="expenseCategory">
-                        <SelectValue placeholder="Select category" />
+                        <SelectValue placeholder={t("expenses.selectCategory")} />
                       </SelectTrigger>
                       <SelectContent>
                     {derivedCategories.map((cat) => (
                       <SelectItem key={cat} value={cat}>
-                        {cat}
+                        {optionLabel(CATEGORY_KEYS, cat)}
                       </SelectItem>
                         ))}
                       </SelectContent>
@@ -1010,21 +1030,21 @@ export function Expenses() {
                 </div>
 
                 <div className="space-y-2">
-              <Label htmlFor="expenseDescription">Description *</Label>
+              <Label htmlFor="expenseDescription">{t("expenses.descriptionRequired")}</Label>
                   <Textarea 
                 id="expenseDescription"
                     value={description} 
                     onChange={(e) => setDescription(e.target.value)}
-                    placeholder="Enter expense description"
+                    placeholder={t("expenses.descriptionPlaceholder")}
                     rows={3}
                   />
                 </div>
 
                 <div className="p-4 bg-muted/50 rounded-lg space-y-4">
-                  <h4 className="font-medium">Amount Details</h4>
+                  <h4 className="font-medium">{t("expenses.amountDetails")}</h4>
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                  <Label htmlFor="expenseAmount">Base Amount (SAR) *</Label>
+                  <Label htmlFor="expenseAmount">{t("expenses.baseAmountSar")}</Label>
                       <Input 
                     id="expenseAmount"
                         type="number" 
@@ -1034,7 +1054,7 @@ export function Expenses() {
                       />
                     </div>
                     <div className="space-y-2">
-                  <Label htmlFor="expenseTaxRate">Tax Rate (%)</Label>
+                  <Label htmlFor="expenseTaxRate">{t("expenses.taxRate")}</Label>
                       <Input 
                     id="expenseTaxRate"
                         type="number" 
@@ -1044,7 +1064,7 @@ export function Expenses() {
                       />
                     </div>
                     <div className="space-y-2">
-                  <Label htmlFor="expenseTaxAmount">Tax Amount (SAR)</Label>
+                  <Label htmlFor="expenseTaxAmount">{t("expenses.taxAmountSar")}</Label>
                       <Input 
                     id="expenseTaxAmount"
                         type="number" 
@@ -1054,7 +1074,7 @@ export function Expenses() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label>Total Amount (SAR)</Label>
+                      <Label>{t("expenses.totalAmountSar")}</Label>
                       <Input 
                         value={((parseFloat(amount) || 0) + (parseFloat(taxAmount) || 0)).toFixed(2)}
                         disabled
@@ -1066,7 +1086,7 @@ export function Expenses() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                <Label htmlFor="expensePaidAmount">Paid Amount (SAR)</Label>
+                <Label htmlFor="expensePaidAmount">{t("expenses.paidAmountSar")}</Label>
                     <Input 
                   id="expensePaidAmount"
                       type="number" 
@@ -1076,7 +1096,7 @@ export function Expenses() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label>Remaining Amount (SAR)</Label>
+                    <Label>{t("expenses.remainingAmountSar")}</Label>
                     <Input 
                       value={Math.max(0, (parseFloat(amount) || 0) + (parseFloat(taxAmount) || 0) - (parseFloat(paidAmount) || 0)).toFixed(2)}
                       disabled
@@ -1087,34 +1107,34 @@ export function Expenses() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                <Label htmlFor="expensePaymentMethod">Payment Method *</Label>
+                <Label htmlFor="expensePaymentMethod">{t("expenses.paymentMethodRequired")}</Label>
                     <Select value={paymentMethod} onValueChange={setPaymentMethod}>
                   <SelectTrigger id="expensePaymentMethod">
-                        <SelectValue placeholder="Select method" />
+                        <SelectValue placeholder={t("expenses.selectMethod")} />
                       </SelectTrigger>
                       <SelectContent>
                     {paymentMethods.map((method) => (
                       <SelectItem key={method} value={method}>
-                        {method}
+                        {optionLabel(PAYMENT_METHOD_KEYS, method)}
                       </SelectItem>
                     ))}
                       </SelectContent>
                     </Select>
                   </div>
                   <div className="space-y-2">
-                <Label htmlFor="expensePaidTo">Paid To *</Label>
+                <Label htmlFor="expensePaidTo">{t("expenses.paidToRequired")}</Label>
                     <Input 
                   id="expensePaidTo"
                       value={paidTo} 
                       onChange={(e) => setPaidTo(e.target.value)}
-                      placeholder="Vendor/Company name"
+                      placeholder={t("expenses.paidToPlaceholder")}
                     />
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                <Label htmlFor="expenseReceiptNumber">Receipt Number</Label>
+                <Label htmlFor="expenseReceiptNumber">{t("expenses.receiptNumber")}</Label>
                     <Input 
                   id="expenseReceiptNumber"
                       value={receiptNumber} 
@@ -1125,26 +1145,26 @@ export function Expenses() {
                 </div>
 
                 <div className="space-y-2">
-              <Label htmlFor="expenseNotes">Notes</Label>
+              <Label htmlFor="expenseNotes">{t("common.notes")}</Label>
                   <Textarea 
                 id="expenseNotes"
                     value={notes} 
                     onChange={(e) => setNotes(e.target.value)}
-                    placeholder="Additional notes"
+                    placeholder={t("expenses.notesPlaceholder")}
                     rows={2}
                   />
                 </div>
               </div>
           <DialogFooter className="gap-2 pt-4">
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleSaveExpense}
               className="bg-purple-600 hover:bg-purple-700 text-white"
               disabled={isSavingExpense}
             >
-              {isSavingExpense ? "Saving..." : editingExpense ? "Update Expense" : "Add Expense"}
+              {isSavingExpense ? t("expenses.saving") : editingExpense ? t("expenses.update") : t("expenses.add")}
             </Button>
           </DialogFooter>
             </DialogContent>
@@ -1159,25 +1179,25 @@ export function Expenses() {
       >
         <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>Record Expense Payment</DialogTitle>
+            <DialogTitle>{t("expenses.paymentTitle")}</DialogTitle>
             <DialogDescription>
-              Record a payment against an expense (reference only, suppliers are unaffected)
+              {t("expenses.paymentDialogDescription")}
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="paymentExpense">Expense *</Label>
+              <Label htmlFor="paymentExpense">{t("expenses.expenseRequired")}</Label>
               <Select
                 value={paymentForm.expenseId}
                 onValueChange={(value) => setPaymentForm((prev) => ({ ...prev, expenseId: value }))}
               >
                 <SelectTrigger id="paymentExpense">
-                  <SelectValue placeholder="Select expense" />
+                  <SelectValue placeholder={t("expenses.selectExpense")} />
                 </SelectTrigger>
                 <SelectContent>
                   {expenses.map((expense) => (
                     <SelectItem key={expense.dbId} value={expense.dbId}>
-                      {expense.expenseNumber} • {expense.paidTo} ({formatCurrency(expense.remainingAmount)} ر.س remaining)
+                      {expense.expenseNumber} • {expense.paidTo} ({t("expenses.remainingAmount", { amount: formatCurrency(expense.remainingAmount) })})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1186,7 +1206,7 @@ export function Expenses() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="paymentAmount">Amount (SAR) *</Label>
+                <Label htmlFor="paymentAmount">{t("expenses.amountSarRequired")}</Label>
                 <Input
                   id="paymentAmount"
                   type="number"
@@ -1199,7 +1219,7 @@ export function Expenses() {
                     <span>
                       {remainingBalanceLabel}:{" "}
                       <span className={`font-semibold ${remainingBalanceColor}`}>
-                        {formatCurrency(remainingBalance)} ر.س
+                        {formatCurrency(remainingBalance)}
                       </span>
                     </span>
                     <div className="flex gap-1">
@@ -1221,14 +1241,14 @@ export function Expenses() {
                         onClick={() => handleQuickPaymentFill("full")}
                         disabled={remainingBalance <= 0}
                       >
-                        Full
+                        {t("expenses.full")}
                       </Button>
                     </div>
                   </div>
                 )}
               </div>
               <div className="space-y-2">
-                <Label htmlFor="paymentDate">Payment Date *</Label>
+                <Label htmlFor="paymentDate">{t("expenses.paymentDateRequired")}</Label>
                 <Input
                   id="paymentDate"
                   type="date"
@@ -1242,7 +1262,7 @@ export function Expenses() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="paymentMethod">Method *</Label>
+                <Label htmlFor="paymentMethod">{t("expenses.methodRequired")}</Label>
                 <Select
                   value={paymentForm.paymentMethod}
                   onValueChange={(value) =>
@@ -1255,44 +1275,44 @@ export function Expenses() {
                 <SelectContent>
                     {paymentMethods.map((method) => (
                       <SelectItem key={method} value={method}>
-                        {method}
+                        {optionLabel(PAYMENT_METHOD_KEYS, method)}
                       </SelectItem>
                     ))}
                 </SelectContent>
               </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="paymentReference">Reference *</Label>
+                <Label htmlFor="paymentReference">{t("expenses.referenceRequiredLabel")}</Label>
                 <Input
                   id="paymentReference"
                   value={paymentForm.referenceNumber}
                   onChange={(e) =>
                     setPaymentForm((prev) => ({ ...prev, referenceNumber: e.target.value }))
                   }
-                  placeholder="TRX-0001 or CHE-1234"
+                  placeholder={t("expenses.referencePlaceholder")}
                 />
               </div>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="paymentNotes">Notes</Label>
+              <Label htmlFor="paymentNotes">{t("common.notes")}</Label>
               <Textarea
                 id="paymentNotes"
                 value={paymentForm.notes}
                 onChange={(e) =>
                   setPaymentForm((prev) => ({ ...prev, notes: e.target.value }))
                 }
-                placeholder="Payment details..."
+                placeholder={t("expenses.paymentNotesPlaceholder")}
                 rows={3}
               />
           </div>
                       </div>
           <DialogFooter className="gap-2">
             <Button variant="outline" onClick={resetPaymentForm}>
-              Cancel
+              {t("common.cancel")}
                         </Button>
             <Button onClick={handleRecordPayment} disabled={isSavingPayment}>
-              {isSavingPayment ? "Recording..." : "Record Payment"}
+              {isSavingPayment ? t("expenses.recording") : t("expenses.recordPayment")}
                         </Button>
           </DialogFooter>
         </DialogContent>
@@ -1307,11 +1327,11 @@ export function Expenses() {
       >
         <DialogContent className="max-w-3xl">
           <DialogHeader>
-            <DialogTitle>Expense Receipt</DialogTitle>
+            <DialogTitle>{t("expenses.receiptTitle")}</DialogTitle>
             <DialogDescription>
               {viewExpense
-                ? `${viewExpense.expenseNumber} • ${new Date(viewExpense.date).toLocaleDateString("en-GB")}`
-                : "Detailed expense information"}
+                ? `${viewExpense.expenseNumber} • ${formatDate(viewExpense.date)}`
+                : t("expenses.receiptDescription")}
             </DialogDescription>
           </DialogHeader>
 
@@ -1321,25 +1341,25 @@ export function Expenses() {
                 <Card>
                   <CardContent className="pt-4 space-y-3 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Vendor</span>
+                      <span className="text-muted-foreground">{t("expenses.vendor")}</span>
                       <span className="font-medium">{viewExpense.paidTo || "-"}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Category</span>
+                      <span className="text-muted-foreground">{t("expenses.category")}</span>
                       <Badge className={categoryColors[viewExpense.category] || categoryColors.Other}>
-                        {viewExpense.category}
+                        {optionLabel(CATEGORY_KEYS, viewExpense.category)}
                       </Badge>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Payment Method</span>
-                      <span className="font-medium">{viewExpense.paymentMethod || "-"}</span>
+                      <span className="text-muted-foreground">{t("expenses.paymentMethod")}</span>
+                      <span className="font-medium">{viewExpense.paymentMethod ? optionLabel(PAYMENT_METHOD_KEYS, viewExpense.paymentMethod) : "-"}</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Status</span>
-                      <Badge className={statusColors[viewExpense.status]}>{viewExpense.status}</Badge>
+                      <span className="text-muted-foreground">{t("common.status")}</span>
+                      <Badge className={statusColors[viewExpense.status]}>{t(STATUS_KEYS[viewExpense.status])}</Badge>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Receipt Number</span>
+                      <span className="text-muted-foreground">{t("expenses.receiptNumber")}</span>
                       <span className="font-medium">{viewExpense.receiptNumber || "-"}</span>
                     </div>
                   </CardContent>
@@ -1348,31 +1368,31 @@ export function Expenses() {
                 <Card>
                   <CardContent className="pt-4 space-y-3 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Base Amount</span>
+                      <span className="text-muted-foreground">{t("expenses.baseAmount")}</span>
                       <span className="font-medium text-blue-600">
-                        {formatCurrency(viewExpense.baseAmount)} ر.س
+                        {formatCurrency(viewExpense.baseAmount)}
                       </span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Tax Amount</span>
+                      <span className="text-muted-foreground">{t("expenses.taxAmount")}</span>
                       <span className="font-medium text-blue-600">
-                        {formatCurrency(viewExpense.taxAmount)} ر.س
+                        {formatCurrency(viewExpense.taxAmount)}
                       </span>
                     </div>
                     <div className="flex justify-between border-t pt-3">
-                      <span className="text-muted-foreground">Total</span>
+                      <span className="text-muted-foreground">{t("common.total")}</span>
                       <span className="text-xl font-bold text-red-600">
-                        {formatCurrency(viewExpense.totalAmount)} ر.س
+                        {formatCurrency(viewExpense.totalAmount)}
                       </span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Paid</span>
+                      <span className="text-muted-foreground">{t("expenses.paid")}</span>
                       <span className="font-medium text-green-600">
-                        {formatCurrency(viewExpense.paidAmount)} ر.س
+                        {formatCurrency(viewExpense.paidAmount)}
                       </span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Remaining</span>
+                      <span className="text-muted-foreground">{t("expenses.remaining")}</span>
                       <span
                         className={
                           viewExpense.remainingAmount > 0
@@ -1380,7 +1400,7 @@ export function Expenses() {
                             : "font-medium text-muted-foreground"
                         }
                       >
-                        {formatCurrency(viewExpense.remainingAmount)} ر.س
+                        {formatCurrency(viewExpense.remainingAmount)}
                       </span>
                     </div>
                   </CardContent>
@@ -1390,12 +1410,12 @@ export function Expenses() {
               <Card>
                 <CardContent className="pt-4 space-y-3 text-sm">
                   <div>
-                    <Label className="text-muted-foreground">Description</Label>
+                    <Label className="text-muted-foreground">{t("expenses.description")}</Label>
                     <p className="mt-1">{viewExpense.description || "-"}</p>
                   </div>
                   {viewExpense.notes && (
                     <div>
-                      <Label className="text-muted-foreground">Notes</Label>
+                      <Label className="text-muted-foreground">{t("common.notes")}</Label>
                       <p className="mt-1">{viewExpense.notes}</p>
                     </div>
                   )}
@@ -1406,11 +1426,11 @@ export function Expenses() {
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
             <Button className="gap-2" disabled>
               <Download className="h-4 w-4" />
-              Download Receipt
+              {t("expenses.downloadReceipt")}
             </Button>
           </DialogFooter>
         </DialogContent>
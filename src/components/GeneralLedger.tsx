@@ -0,0 +1,1006 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { BookOpen, Download, Pencil, Plus, RefreshCw, Scale, Trash2, TrendingUp, Undo2, Wallet } from "lucide-react";
+import * as XLSX from "@e965/xlsx";
+import { toast } from "sonner";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Badge } from "./ui/badge";
+import { Switch } from "./ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
+import { selectors, thunks } from "../redux-toolkit/slices";
+import type { GlAccounts, GlAccountType, GlPostingRules } from "../../supabase/models/gl_accounts";
+import type { JournalEntryWithLines, JournalSourceType } from "../../supabase/models/journal_entries";
+import {
+  ACCOUNT_TYPE_LABELS,
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  buildTrialBalance,
+  fetchAccountTotals,
+  fetchJournalEntries,
+  fetchPostingRules,
+  isDebitNormal,
+  postManualJournalEntry,
+  reverseManualJournalEntry,
+  updatePostingRule,
+  type AccountTotals,
+  type StatementRow,
+} from "../lib/generalLedger";
+
+const ACCOUNT_TYPES: GlAccountType[] = ["asset", "liability", "equity", "revenue", "expense"];
+
+const ACCOUNT_TYPE_KEYS: Record<GlAccountType, MessageKey> = {
+  asset: "ledger.type.asset",
+  liability: "ledger.type.liability",
+  equity: "ledger.type.equity",
+  revenue: "ledger.type.revenue",
+  expense: "ledger.type.expense",
+};
+
+const JOURNAL_SOURCE_KEYS: Record<JournalSourceType, MessageKey> = {
+  manual: "ledger.source.manual",
+  invoice: "ledger.source.invoice",
+  invoice_note: "ledger.source.invoiceNote",
+  payment: "ledger.source.payment",
+  purchase_order: "ledger.source.purchaseOrder",
+  purchase_payment: "ledger.source.purchasePayment",
+  expense: "ledger.source.expense",
+  expense_payment: "ledger.source.expensePayment",
+  payroll: "ledger.source.payroll",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+const startOfYear = () => `${new Date().getFullYear()}-01-01`;
+
+function currentUserId(): string | null {
+  try {
+    const stored = localStorage.getItem("auth_user");
+    return stored ? (JSON.parse(stored).user_id as string) ?? null : null;
+  } catch {
+    return null;
+  }
+}
+
+interface AccountFormState {
+  account_code: string;
+  account_name: string;
+  account_name_ar: string;
+  account_type: GlAccountType;
+  description: string;
+  is_active: boolean;
+}
+
+const emptyAccountForm: AccountFormState = {
+  account_code: "",
+  account_name: "",
+  account_name_ar: "",
+  account_type: "expense",
+  description: "",
+  is_active: true,
+};
+
+interface EntryLineForm {
+  accountId: string;
+  debit: string;
+  credit: string;
+  memo: string;
+}
+
+const emptyEntryLine = (): EntryLineForm => ({ accountId: "", debit: "", credit: "", memo: "" });
+
+export function GeneralLedger() {
+  const { t, formatNumber, formatCurrency, formatDate, localizedName } = useLocale();
+  const formatAmount = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const dispatch = useAppDispatch();
+  const accounts = useAppSelector(selectors.gl_accounts.selectAll) as GlAccounts[];
+
+  const [fromDate, setFromDate] = useState(startOfYear);
+  const [toDate, setToDate] = useState(today);
+  const [sourceFilter, setSourceFilter] = useState<"all" | JournalSourceType>("all");
+  const [entries, setEntries] = useState<JournalEntryWithLines[]>([]);
+  const [periodTotals, setPeriodTotals] = useState<Map<string, AccountTotals>>(new Map());
+  const [totalsToDate, setTotalsToDate] = useState<Map<string, AccountTotals>>(new Map());
+  const [rules, setRules] = useState<GlPostingRules[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<GlAccounts | null>(null);
+  const [accountForm, setAccountForm] = useState<AccountFormState>(emptyAccountForm);
+
+  const [entryDialogOpen, setEntryDialogOpen] = useState(false);
+  const [entryDate, setEntryDate] = useState(today);
+  const [entryDescription, setEntryDescription] = useState("");
+  const [entryLines, setEntryLines] = useState<EntryLineForm[]>([emptyEntryLine(), emptyEntryLine()]);
+  const [savingEntry, setSavingEntry] = useState(false);
+
+  const accountsById = useMemo(() => new Map(accounts.map((account) => [account.account_id, account])), [accounts]);
+  const activeAccounts = useMemo(
+    () =>
+      accounts
+        .filter((account) => account.is_active)
+        .sort((a, b) => a.account_code.localeCompare(b.account_code, undefined, { numeric: true })),
+    [accounts]
+  );
+
+  const loadLedger = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [journal, period, toDateTotals, postingRules] = await Promise.all([
+        fetchJournalEntries({
+          from: fromDate || undefined,
+          to: toDate || undefined,
+          sourceType: sourceFilter === "all" ? undefined : sourceFilter,
+        }),
+        fetchAccountTotals(fromDate, toDate),
+        fetchAccountTotals(null, toDate),
+        fetchPostingRules(),
+      ]);
+      setEntries(journal);
+      setPeriodTotals(period);
+      setTotalsToDate(toDateTotals);
+      setRules(postingRules);
+    } catch (error) {
+      console.error("Failed to load general ledger", error);
+      toast.error((error as { message?: string })?.message || translateCurrent("ledger.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate, sourceFilter]);
+
+  useEffect(() => {
+    dispatch(thunks.gl_accounts.fetchAll(undefined));
+  }, [dispatch]);
+
+  useEffect(() => {
+    void loadLedger();
+  }, [loadLedger]);
+
+  const trialBalance = useMemo(() => buildTrialBalance(accounts, periodTotals), [accounts, periodTotals]);
+  const profitAndLoss = useMemo(() => buildProfitAndLoss(accounts, periodTotals), [accounts, periodTotals]);
+  const balanceSheet = useMemo(() => buildBalanceSheet(accounts, totalsToDate), [accounts, totalsToDate]);
+
+  const accountLabel = (accountId: string) => {
+    const account = accountsById.get(accountId);
+    return account ? `${account.account_code} · ${localizedName(account.account_name, account.account_name_ar)}` : accountId.slice(0, 8);
+  };
+
+  // ---- Chart of accounts ----
+
+  const openAccountDialog = (account: GlAccounts | null) => {
+    setEditingAccount(account);
+    setAccountForm(
+      account
+        ? {
+            account_code: account.account_code,
+            account_name: account.account_name,
+            account_name_ar: account.account_name_ar ?? "",
+            account_type: account.account_type,
+            description: account.description ?? "",
+            is_active: account.is_active,
+          }
+        : emptyAccountForm
+    );
+    setAccountDialogOpen(true);
+  };
+
+  const handleSaveAccount = async () => {
+    const code = accountForm.account_code.trim();
+    const name = accountForm.account_name.trim();
+    if (!code || !name) {
+      toast.error(t("ledger.codeNameRequired"));
+      return;
+    }
+    if (accounts.some((account) => account.account_code === code && account.account_id !== editingAccount?.account_id)) {
+      toast.error(t("ledger.codeUsed", { code }));
+      return;
+    }
+    if (editingAccount && !accountForm.is_active && rules.some((rule) => rule.account_id === editingAccount.account_id)) {
+      toast.error(t("ledger.accountInRule"));
+      return;
+    }
+
+    const values = {
+      account_code: code,
+      account_name: name,
+      account_name_ar: accountForm.account_name_ar.trim() || null,
+      account_type: accountForm.account_type,
+      description: accountForm.description.trim() || null,
+      is_active: accountForm.is_active,
+    };
+    try {
+      if (editingAccount) {
+        await dispatch(
+          thunks.gl_accounts.updateOne({
+            id: editingAccount.account_id,
+            values: { ...values, updated_at: new Date().toISOString() },
+          })
+        ).unwrap();
+        toast.success(t("ledger.accountUpdated"));
+      } else {
+        await dispatch(thunks.gl_accounts.createOne(values)).unwrap();
+        toast.success(t("ledger.accountAdded"));
+      }
+      setAccountDialogOpen(false);
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("ledger.accountSaveFailed"));
+    }
+  };
+
+  // ---- Posting rules ----
+
+  const handleRuleChange = async (rule: GlPostingRules, accountId: string) => {
+    try {
+      await updatePostingRule(rule.rule_key, accountId);
+      setRules((prev) => prev.map((row) => (row.rule_key === rule.rule_key ? { ...row, account_id: accountId } : row)));
+      toast.success(t("ledger.ruleUpdated", { rule: rule.description }));
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("ledger.ruleUpdateFailed"));
+    }
+  };
+
+  // ---- Manual entries ----
+
+  const entryDebit = entryLines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0);
+  const entryCredit = entryLines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0);
+  const entryBalanced = entryDebit > 0 && Math.abs(entryDebit - entryCredit) < 0.005;
+
+  const openEntryDialog = () => {
+    setEntryDate(today());
+    setEntryDescription("");
+    setEntryLines([emptyEntryLine(), emptyEntryLine()]);
+    setEntryDialogOpen(true);
+  };
+
+  const updateEntryLine = (index: number, patch: Partial<EntryLineForm>) => {
+    setEntryLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const handleSaveEntry = async () => {
+    if (!entryDescription.trim()) {
+      toast.error(t("ledger.descriptionRequired"));
+      return;
+    }
+    if (entryLines.some((line) => (Number(line.debit) || Number(line.credit)) && !line.accountId)) {
+      toast.error(t("ledger.lineAccountRequired"));
+      return;
+    }
+    setSavingEntry(true);
+    try {
+      await postManualJournalEntry(
+        {
+          entryDate,
+          description: entryDescription.trim(),
+          lines: entryLines.map((line) => ({
+            accountId: line.accountId,
+            debit: Number(line.debit) || 0,
+            credit: Number(line.credit) || 0,
+            memo: line.memo.trim() || null,
+          })),
+        },
+        currentUserId()
+      );
+      toast.success(t("ledger.entryPosted"));
+      setEntryDialogOpen(false);
+      await loadLedger();
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("ledger.entryPostFailed"));
+    } finally {
+      setSavingEntry(false);
+    }
+  };
+
+  const reversedEntryIds = useMemo(
+    () => new Set(entries.filter((entry) => entry.source_type === "manual" && entry.source_id).map((entry) => entry.source_id)),
+    [entries]
+  );
+
+  const handleReverseEntry = async (entry: JournalEntryWithLines) => {
+    if (!window.confirm(t("ledger.reverseConfirm", { number: entry.entry_number }))) return;
+    try {
+      await reverseManualJournalEntry(entry.entry_id, currentUserId());
+      toast.success(t("ledger.entryReversed", { number: entry.entry_number }));
+      await loadLedger();
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("ledger.reverseFailed"));
+    }
+  };
+
+  // ---- Export ----
+
+  const exportTrialBalance = () => {
+    const rows = trialBalance.rows.map((row) => ({
+      Code: row.account.account_code,
+      Account: row.account.account_name,
+      Type: ACCOUNT_TYPE_LABELS[row.account.account_type],
+      Debit: row.debit,
+      Credit: row.credit,
+      Balance: row.balance,
+    }));
+    rows.push({ Code: "", Account: "Total", Type: "", Debit: trialBalance.totalDebit, Credit: trialBalance.totalCredit, Balance: 0 });
+    const worksheet = XLSX.utils.json_to_sheet(rows);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Trial Balance");
+    XLSX.writeFile(workbook, `trial_balance_${fromDate || "start"}_${toDate || today()}.xlsx`);
+  };
+
+  const renderStatementSection = (title: string, rows: StatementRow[], total: number) => (
+    <>
+      <TableRow className="bg-muted/40">
+        <TableCell colSpan={3} className="font-medium">
+          {title}
+        </TableCell>
+      </TableRow>
+      {rows.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={3} className="text-muted-foreground text-sm ps-8">
+            {t("ledger.noPostings")}
+          </TableCell>
+        </TableRow>
+      ) : (
+        rows.map((row) => (
+          <TableRow key={row.account.account_id}>
+            <TableCell className="ps-8 font-mono text-xs">{row.account.account_code}</TableCell>
+            <TableCell>{localizedName(row.account.account_name, row.account.account_name_ar)}</TableCell>
+            <TableCell className="text-end">{formatAmount(row.amount)}</TableCell>
+          </TableRow>
+        ))
+      )}
+      <TableRow>
+        <TableCell />
+        <TableCell className="font-medium">{t("ledger.totalOf", { title })}</TableCell>
+        <TableCell className="text-end font-medium">{formatAmount(total)}</TableCell>
+      </TableRow>
+    </>
+  );
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+        <div>
+          <h1 className="text-2xl mb-1">{t("ledger.title")}</h1>
+          <p className="text-sm text-muted-foreground">
+            {t("ledger.subtitle")}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="gl-from" className="text-xs">{t("ledger.from")}</Label>
+            <Input id="gl-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="gl-to" className="text-xs">{t("ledger.to")}</Label>
+            <Input id="gl-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+          </div>
+          <Button variant="outline" className="gap-2" onClick={() => void loadLedger()} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            {t("ledger.refresh")}
+          </Button>
+          <Button className="gap-2" onClick={openEntryDialog}>
+            <Plus className="h-4 w-4" />
+            {t("ledger.journalEntry")}
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm">{t("ledger.netProfitPeriod")}</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl ${profitAndLoss.netProfit < 0 ? "text-red-600" : "text-green-600"}`}>
+              {formatCurrency(profitAndLoss.netProfit)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t("ledger.revenueExpenses", {
+                revenue: formatCurrency(profitAndLoss.totalRevenue),
+                expenses: formatCurrency(profitAndLoss.totalExpenses),
+              })}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm">{t("ledger.totalAssets")}</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl">{formatCurrency(balanceSheet.totalAssets)}</div>
+            <p className="text-xs text-muted-foreground">{t("ledger.asOf", { date: formatDate(toDate || today()) })}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm">{t("ledger.trialBalance")}</CardTitle>
+            <Scale className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl">
+              {trialBalance.balanced ? (
+                <span className="text-green-600">{t("ledger.balanced")}</span>
+              ) : (
+                <span className="text-red-600">{t("ledger.outOfBalance")}</span>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t("ledger.debitsCredits", {
+                debits: formatCurrency(trialBalance.totalDebit),
+                credits: formatCurrency(trialBalance.totalCredit),
+              })}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="journal" className="space-y-4">
+        <TabsList className="flex-wrap h-auto">
+          <TabsTrigger value="journal">{t("ledger.journal")}</TabsTrigger>
+          <TabsTrigger value="trial">{t("ledger.trialBalance")}</TabsTrigger>
+          <TabsTrigger value="pl">{t("ledger.profitLoss")}</TabsTrigger>
+          <TabsTrigger value="bs">{t("ledger.balanceSheet")}</TabsTrigger>
+          <TabsTrigger value="accounts">{t("ledger.chartOfAccounts")}</TabsTrigger>
+          <TabsTrigger value="rules">{t("ledger.postingRules")}</TabsTrigger>
+        </TabsList>
+
+        {/* Journal */}
+        <TabsContent value="journal" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div>
+                  <CardTitle>{t("ledger.journalEntries")}</CardTitle>
+                  <CardDescription>
+                    {t("ledger.journalDescription")}
+                  </CardDescription>
+                </div>
+                <Select value={sourceFilter} onValueChange={(value) => setSourceFilter(value as "all" | JournalSourceType)}>
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("ledger.allSources")}</SelectItem>
+                    {(Object.keys(JOURNAL_SOURCE_KEYS) as JournalSourceType[]).map((source) => (
+                      <SelectItem key={source} value={source}>
+                        {t(JOURNAL_SOURCE_KEYS[source])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">#</TableHead>
+                      <TableHead className="w-28">{t("common.date")}</TableHead>
+                      <TableHead>{t("ledger.descriptionAccount")}</TableHead>
+                      <TableHead className="text-end">{t("ledger.debit")}</TableHead>
+                      <TableHead className="text-end">{t("ledger.credit")}</TableHead>
+                      <TableHead className="w-24 text-end">{t("common.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading && entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          {t("ledger.loadingJournal")}
+                        </TableCell>
+                      </TableRow>
+                    ) : entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          {t("ledger.noEntries")}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      entries.flatMap((entry) => [
+                        <TableRow key={entry.entry_id} className="bg-muted/30">
+                          <TableCell className="font-mono text-xs">#{entry.entry_number}</TableCell>
+                          <TableCell>{formatDate(entry.entry_date)}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="font-medium">{entry.description || "—"}</span>
+                              <Badge variant="outline">{t(JOURNAL_SOURCE_KEYS[entry.source_type])}</Badge>
+                              {entry.source_reference && (
+                                <span className="text-xs text-muted-foreground">{entry.source_reference}</span>
+                              )}
+                              {entry.is_reversal && <Badge variant="secondary">{t("ledger.reversal")}</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell />
+                          <TableCell />
+                          <TableCell className="text-end">
+                            {entry.source_type === "manual" && !entry.is_reversal && !reversedEntryIds.has(entry.entry_id) && (
+                              <Button variant="ghost" size="sm" onClick={() => void handleReverseEntry(entry)} title={t("ledger.reverseEntry")}>
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>,
+                        ...entry.journal_lines.map((line) => (
+                          <TableRow key={line.line_id}>
+                            <TableCell />
+                            <TableCell />
+                            <TableCell className={line.credit > 0 ? "ps-10" : "ps-4"}>
+                              {accountLabel(line.account_id)}
+                              {line.memo && <span className="text-xs text-muted-foreground"> — {line.memo}</span>}
+                            </TableCell>
+                            <TableCell className="text-end">{line.debit > 0 ? formatAmount(Number(line.debit)) : ""}</TableCell>
+                            <TableCell className="text-end">{line.credit > 0 ? formatAmount(Number(line.credit)) : ""}</TableCell>
+                            <TableCell />
+                          </TableRow>
+                        )),
+                      ])
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Trial balance */}
+        <TabsContent value="trial" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{t("ledger.trialBalance")}</CardTitle>
+                  <CardDescription>
+                    {t("ledger.trialDescription", {
+                      from: fromDate ? formatDate(fromDate) : t("ledger.theBeginning"),
+                      to: formatDate(toDate || today()),
+                    })}
+                  </CardDescription>
+                </div>
+                <Button onClick={exportTrialBalance} variant="outline" className="gap-2" disabled={trialBalance.rows.length === 0}>
+                  <Download className="h-4 w-4" />
+                  {t("common.exportExcel")}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">{t("ledger.code")}</TableHead>
+                      <TableHead>{t("ledger.account")}</TableHead>
+                      <TableHead>{t("ledger.type")}</TableHead>
+                      <TableHead className="text-end">{t("ledger.debit")}</TableHead>
+                      <TableHead className="text-end">{t("ledger.credit")}</TableHead>
+                      <TableHead className="text-end">{t("ledger.balance")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trialBalance.rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          {t("ledger.noPostingsPeriod")}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      trialBalance.rows.map((row) => (
+                        <TableRow key={row.account.account_id}>
+                          <TableCell className="font-mono text-xs">{row.account.account_code}</TableCell>
+                          <TableCell>{localizedName(row.account.account_name, row.account.account_name_ar)}</TableCell>
+                          <TableCell>{t(ACCOUNT_TYPE_KEYS[row.account.account_type])}</TableCell>
+                          <TableCell className="text-end">{formatAmount(row.debit)}</TableCell>
+                          <TableCell className="text-end">{formatAmount(row.credit)}</TableCell>
+                          <TableCell className="text-end">{formatAmount(row.balance)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={3}>{t("common.total")}</TableCell>
+                      <TableCell className="text-end">{formatAmount(trialBalance.totalDebit)}</TableCell>
+                      <TableCell className="text-end">{formatAmount(trialBalance.totalCredit)}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Profit & loss */}
+        <TabsContent value="pl" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("ledger.profitLoss")}</CardTitle>
+              <CardDescription>
+                {t("ledger.plDescription", {
+                  from: fromDate ? formatDate(fromDate) : t("ledger.theBeginning"),
+                  to: formatDate(toDate || today()),
+                })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableBody>
+                    {renderStatementSection(t("ledger.revenue"), profitAndLoss.revenue, profitAndLoss.totalRevenue)}
+                    {renderStatementSection(t("ledger.expenses"), profitAndLoss.expenses, profitAndLoss.totalExpenses)}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2}>{t("ledger.netProfit")}</TableCell>
+                      <TableCell className={`text-end ${profitAndLoss.netProfit < 0 ? "text-red-600" : ""}`}>
+                        {formatAmount(profitAndLoss.netProfit)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Balance sheet */}
+        <TabsContent value="bs" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{t("ledger.balanceSheet")}</CardTitle>
+                  <CardDescription>{t("ledger.asOf", { date: formatDate(toDate || today()) })}</CardDescription>
+                </div>
+                {balanceSheet.balanced ? (
+                  <Badge className="bg-green-100 text-green-700">{t("ledger.balanced")}</Badge>
+                ) : (
+                  <Badge variant="destructive">{t("ledger.outOfBalance")}</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableBody>
+                    {renderStatementSection(t("ledger.assets"), balanceSheet.assets, balanceSheet.totalAssets)}
+                    {renderStatementSection(t("ledger.liabilities"), balanceSheet.liabilities, balanceSheet.totalLiabilities)}
+                    {renderStatementSection(
+                      t("ledger.equity"),
+                      balanceSheet.equity,
+                      balanceSheet.totalEquity - balanceSheet.currentEarnings
+                    )}
+                    <TableRow>
+                      <TableCell />
+                      <TableCell>{t("ledger.currentEarnings")}</TableCell>
+                      <TableCell className="text-end">{formatAmount(balanceSheet.currentEarnings)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2}>{t("ledger.totalLiabilitiesEquity")}</TableCell>
+                      <TableCell className="text-end">
+                        {formatAmount(balanceSheet.totalLiabilities + balanceSheet.totalEquity)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Chart of accounts */}
+        <TabsContent value="accounts" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{t("ledger.chartOfAccounts")}</CardTitle>
+                  <CardDescription>{t("ledger.chartDescription")}</CardDescription>
+                </div>
+                <Button className="gap-2" onClick={() => openAccountDialog(null)}>
+                  <Plus className="h-4 w-4" />
+                  {t("ledger.addAccount")}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">{t("ledger.code")}</TableHead>
+                      <TableHead>{t("ledger.account")}</TableHead>
+                      <TableHead>{t("ledger.type")}</TableHead>
+                      <TableHead className="text-end">{t("ledger.balance")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="w-20 text-end">{t("common.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...accounts]
+                      .sort((a, b) => a.account_code.localeCompare(b.account_code, undefined, { numeric: true }))
+                      .map((account) => {
+                        const totals = totalsToDate.get(account.account_id);
+                        const balance = isDebitNormal(account.account_type)
+                          ? (totals?.debit ?? 0) - (totals?.credit ?? 0)
+                          : (totals?.credit ?? 0) - (totals?.debit ?? 0);
+                        return (
+                          <TableRow key={account.account_id}>
+                            <TableCell className="font-mono text-xs">{account.account_code}</TableCell>
+                            <TableCell>
+                              <div>{localizedName(account.account_name, account.account_name_ar)}</div>
+                              {account.account_name_ar && (
+                                <div className="text-xs text-muted-foreground">
+                                  {localizedName(account.account_name_ar, account.account_name)}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>{t(ACCOUNT_TYPE_KEYS[account.account_type])}</TableCell>
+                            <TableCell className="text-end">{formatAmount(balance)}</TableCell>
+                            <TableCell>
+                              <Badge variant={account.is_active ? "default" : "secondary"}>
+                                {account.is_active ? t("ledger.active") : t("ledger.inactive")}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-end">
+                              <Button variant="ghost" size="sm" onClick={() => openAccountDialog(account)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Posting rules */}
+        <TabsContent value="rules" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("ledger.postingRules")}</CardTitle>
+              <CardDescription>
+                {t("ledger.rulesDescription")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("ledger.posting")}</TableHead>
+                      <TableHead className="w-80">{t("ledger.account")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.map((rule) => (
+                      <TableRow key={rule.rule_key}>
+                        <TableCell>
+                          <div className="font-medium">{rule.description}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{rule.rule_key}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Select value={rule.account_id} onValueChange={(value) => void handleRuleChange(rule, value)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder={t("ledger.selectAccount")} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {activeAccounts.map((account) => (
+                                <SelectItem key={account.account_id} value={account.account_id}>
+                                  {account.account_code} · {localizedName(account.account_name, account.account_name_ar)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Account dialog */}
+      <Dialog open={accountDialogOpen} onOpenChange={setAccountDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? t("ledger.editAccount") : t("ledger.addAccount")}</DialogTitle>
+            <DialogDescription>{t("ledger.accountDialogDescription")}</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="gl-account-code">{t("ledger.code")}</Label>
+                <Input
+                  id="gl-account-code"
+                  value={accountForm.account_code}
+                  onChange={(e) => setAccountForm((prev) => ({ ...prev, account_code: e.target.value }))}
+                  placeholder={t("ledger.codePlaceholder")}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>{t("ledger.type")}</Label>
+                <Select
+                  value={accountForm.account_type}
+                  onValueChange={(value) => setAccountForm((prev) => ({ ...prev, account_type: value as GlAccountType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(ACCOUNT_TYPE_KEYS[type])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gl-account-name">{t("ledger.nameEn")}</Label>
+              <Input
+                id="gl-account-name"
+                value={accountForm.account_name}
+                onChange={(e) => setAccountForm((prev) => ({ ...prev, account_name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gl-account-name-ar">{t("ledger.nameAr")}</Label>
+              <Input
+                id="gl-account-name-ar"
+                dir="rtl"
+                value={accountForm.account_name_ar}
+                onChange={(e) => setAccountForm((prev) => ({ ...prev, account_name_ar: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gl-account-description">{t("ledger.description")}</Label>
+              <Textarea
+                id="gl-account-description"
+                rows={2}
+                value={accountForm.description}
+                onChange={(e) => setAccountForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="gl-account-active">{t("ledger.active")}</Label>
+              <Switch
+                id="gl-account-active"
+                checked={accountForm.is_active}
+                onCheckedChange={(value) => setAccountForm((prev) => ({ ...prev, is_active: value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAccountDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={() => void handleSaveAccount()}>{editingAccount ? t("common.save") : t("ledger.addAccount")}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Manual entry dialog */}
+      <Dialog open={entryDialogOpen} onOpenChange={setEntryDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              {t("ledger.newEntry")}
+            </DialogTitle>
+            <DialogDescription>{t("ledger.entryDialogDescription")}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="gl-entry-date">{t("common.date")}</Label>
+                <Input id="gl-entry-date" type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="gl-entry-description">{t("ledger.description")}</Label>
+                <Input
+                  id="gl-entry-description"
+                  value={entryDescription}
+                  onChange={(e) => setEntryDescription(e.target.value)}
+                  placeholder={t("ledger.descriptionPlaceholder")}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {entryLines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-5">
+                    <Select value={line.accountId} onValueChange={(value) => updateEntryLine(index, { accountId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={t("ledger.account")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeAccounts.map((account) => (
+                          <SelectItem key={account.account_id} value={account.account_id}>
+                            {account.account_code} · {localizedName(account.account_name, account.account_name_ar)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={t("ledger.debit")}
+                    value={line.debit}
+                    onChange={(e) => updateEntryLine(index, { debit: e.target.value, credit: e.target.value ? "" : line.credit })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={t("ledger.credit")}
+                    value={line.credit}
+                    onChange={(e) => updateEntryLine(index, { credit: e.target.value, debit: e.target.value ? "" : line.debit })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    placeholder={t("ledger.memo")}
+                    value={line.memo}
+                    onChange={(e) => updateEntryLine(index, { memo: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    disabled={entryLines.length <= 2}
+                    onClick={() => setEntryLines((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => setEntryLines((prev) => [...prev, emptyEntryLine()])}>
+                <Plus className="h-4 w-4" />
+                {t("ledger.addLine")}
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-6 text-sm">
+              <span>{t("ledger.debitsTotal", { amount: formatAmount(entryDebit) })}</span>
+              <span>{t("ledger.creditsTotal", { amount: formatAmount(entryCredit) })}</span>
+              <span className={entryBalanced ? "text-green-600" : "text-red-600"}>
+                {entryBalanced ? t("ledger.balanced") : t("ledger.difference", { amount: formatAmount(entryDebit - entryCredit) })}
+              </span>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={() => void handleSaveEntry()} disabled={!entryBalanced || savingEntry}>
+              {t("ledger.postEntry")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,38 +1,345 @@
-import { Upload } from "lucide-react";
+import { useRef, useState } from "react";
+import { Upload, Download, CheckCircle2, RefreshCw, XCircle } from "lucide-react";
 import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
 import { toast } from "sonner";
+import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
+import { thunks, selectors } from "../redux-toolkit/slices";
+import type { createCrudThunks } from "../redux-toolkit/slices/crudSliceFactory";
+import type { RootState } from "../redux-toolkit/store";
+import type { Customers } from "../../supabase/models/customers";
+import {
+  buildImportPlan,
+  exportImportRejects,
+  getImportSchema,
+  parseSpreadsheet,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type ImportPlan,
+  type ImportSection,
+  type ParsedSheet,
+} from "../lib/excelImport";
+import { postStockAdjustment } from "../lib/stockLedger";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 interface ImportExcelButtonProps {
-  section: string;
+  section: ImportSection;
 }
 
+type ImportThunks = ReturnType<typeof createCrudThunks<Record<string, unknown>>>;
+type ImportTable = keyof typeof thunks & keyof typeof selectors;
+
+const BATCH_SIZE = 25;
+const NOT_MAPPED = "__none__";
+
+const SECTION_KEYS: Record<ImportSection, MessageKey> = {
+  Customers: "page.customers",
+  Leads: "page.leads",
+  Contracts: "page.contracts",
+  Inventory: "page.inventory",
+  Suppliers: "page.suppliers",
+  Employees: "page.employees",
+};
+
 export function ImportExcelButton({ section }: ImportExcelButtonProps) {
-  const handleImport = () => {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = '.xlsx,.xls,.csv';
-    input.onchange = (e: any) => {
-      const file = e.target?.files?.[0];
-      if (file) {
-        toast.success(`Importing ${section} data from ${file.name}...`);
-        // Here you would implement the actual Excel import logic
-        // You can use libraries like xlsx or papaparse to parse the file
-        setTimeout(() => {
-          toast.success(`${section} data imported successfully!`);
-        }, 1500);
+  const { t, formatNumber } = useLocale();
+  const sectionLabel = t(SECTION_KEYS[section]);
+  const dispatch = useAppDispatch();
+  const schema = getImportSchema(section);
+  const table = schema.table as ImportTable;
+  const existingRows = useAppSelector(
+    (state: RootState) => (selectors[table].selectAll as (s: RootState) => unknown[])(state)
+  ) as Record<string, unknown>[];
+  const existingLoading = useAppSelector(
+    (state: RootState) => (selectors[table].selectLoading as (s: RootState) => boolean)(state)
+  );
+  const customers = useAppSelector(selectors.customers.selectAll) as Customers[];
+  const customersLoading = useAppSelector(selectors.customers.selectLoading);
+  // Matching against existing rows and customers is only right once both have loaded
+  const lookupsLoading = existingLoading || (section === "Contracts" && customersLoading);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<"mapping" | "review">("mapping");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const reset = () => {
+    setStep("mapping");
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setPlan(null);
+    setProgress(0);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error(translateCurrent("import.noRows", { file: file.name }));
+        return;
+      }
+      // Contracts reference customers, so make sure they are loaded for name/mobile lookup
+      if (section === "Contracts" && customers.length === 0) {
+        dispatch(thunks.customers.fetchAll(undefined));
+      }
+      if (existingRows.length === 0) {
+        dispatch((thunks[table] as unknown as ImportThunks).fetchAll(undefined));
       }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(suggestColumnMapping(schema, parsed.headers));
+      setStep("mapping");
+      setPlan(null);
+      setOpen(true);
+    } catch (error) {
+      console.error("Failed to read spreadsheet", error);
+      toast.error(translateCurrent("import.readFailed", { file: file.name }));
+    }
+  };
+
+  const missingRequired = schema.fields.filter((f) => f.required && !mapping[f.key]);
+
+  const handleDryRun = () => {
+    if (!sheet || lookupsLoading) return;
+    setPlan(buildImportPlan(schema, sheet, mapping, { existing: existingRows, customers }));
+    setStep("review");
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    const tableThunks = thunks[table] as unknown as ImportThunks;
+    // Product stock lives in the stock ledger, so imported quantities are posted as adjustments
+    const tracksStock = section === "Inventory";
+    const splitStock = (values: Record<string, unknown>) => {
+      const { current_stock, ...rest } = values;
+      return { rest, stock: current_stock === undefined ? null : Number(current_stock) };
     };
-    input.click();
+    const operations = [
+      ...plan.creates.map((row) => async () => {
+        if (!tracksStock) return dispatch(tableThunks.createOne(row.values)).unwrap();
+        const { rest, stock } = splitStock(row.values);
+        const created = await dispatch(tableThunks.createOne({ ...rest, current_stock: 0 })).unwrap();
+        if (stock) await postStockAdjustment("product", String(created.product_code), stock, "Imported stock");
+        return created;
+      }),
+      ...plan.updates.map((row) => async () => {
+        const id = row.existingId as string;
+        if (!tracksStock) return dispatch(tableThunks.updateOne({ id, values: row.values })).unwrap();
+        const { rest, stock } = splitStock(row.values);
+        const updated = await dispatch(tableThunks.updateOne({ id, values: rest })).unwrap();
+        const previous = Number(existingRows.find((r) => r.product_code === id)?.current_stock ?? 0);
+        if (stock !== null && stock !== previous) {
+          await postStockAdjustment("product", id, stock - previous, "Imported stock");
+        }
+        return updated;
+      }),
+    ];
+
+    setImporting(true);
+    let succeeded = 0;
+    let failed = 0;
+    try {
+      for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+        const results = await Promise.allSettled(operations.slice(i, i + BATCH_SIZE).map((run) => run()));
+        results.forEach((result) => {
+          if (result.status === "fulfilled") {
+            succeeded += 1;
+          } else {
+            failed += 1;
+            console.error(`${section} import row failed`, result.reason);
+          }
+        });
+        setProgress(Math.min(i + BATCH_SIZE, operations.length));
+      }
+    } finally {
+      setImporting(false);
+    }
+
+    if (tracksStock) {
+      dispatch(tableThunks.fetchAll(undefined));
+    }
+
+    if (failed > 0) {
+      toast.error(translateCurrent("import.partial", { section: sectionLabel, succeeded, failed }));
+    } else {
+      toast.success(
+        translateCurrent("import.done", { section: sectionLabel, created: plan.creates.length, updated: plan.updates.length })
+      );
+    }
+    if (plan.rejects.length > 0) {
+      toast.warning(translateCurrent("import.skipped", { count: plan.rejects.length }));
+    }
+    setOpen(false);
+    reset();
   };
 
+  const totalOperations = plan ? plan.creates.length + plan.updates.length : 0;
+
   return (
-    <Button
-      variant="outline"
-      className="gap-2"
-      onClick={handleImport}
-    >
-      <Upload className="h-4 w-4" />
-      Import Excel
-    </Button>
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="outline"
+        className="gap-2"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="h-4 w-4" />
+        {t("import.button")}
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          if (importing) return;
+          setOpen(value);
+          if (!value) reset();
+        }}
+      >
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("import.title", { section: sectionLabel })}</DialogTitle>
+            <DialogDescription>
+              {step === "mapping"
+                ? t("import.mappingDescription", { file: fileName, rows: formatNumber(sheet?.rows.length ?? 0), section: sectionLabel })
+                : t("import.reviewDescription")}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === "mapping" && sheet && (
+            <div className="space-y-3">
+              {schema.fields.map((field) => (
+                <div key={field.key} className="grid grid-cols-2 items-center gap-4">
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] || NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({ ...prev, [field.key]: value === NOT_MAPPED ? "" : value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={t("import.notMapped")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>{t("import.notMapped")}</SelectItem>
+                      {sheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">
+                  {t("import.mapRequired", { fields: missingRequired.map((f) => f.label).join(", ") })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === "review" && plan && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="gap-1 bg-green-100 text-green-800">
+                  <CheckCircle2 className="h-3 w-3" /> {t("import.toCreate", { count: formatNumber(plan.creates.length) })}
+                </Badge>
+                <Badge className="gap-1 bg-blue-100 text-blue-800">
+                  <RefreshCw className="h-3 w-3" /> {t("import.toUpdate", { count: formatNumber(plan.updates.length) })}
+                </Badge>
+                <Badge className="gap-1 bg-red-100 text-red-800">
+                  <XCircle className="h-3 w-3" /> {t("import.rejected", { count: formatNumber(plan.rejects.length) })}
+                </Badge>
+              </div>
+
+              {plan.rejects.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">{t("import.rejectedRows")}</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => exportImportRejects(section, plan.rejects)}
+                    >
+                      <Download className="h-4 w-4" />
+                      {t("common.download")}
+                    </Button>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">{t("import.row")}</TableHead>
+                        <TableHead>{t("import.problems")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.rejects.slice(0, 50).map((row) => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell className="text-sm text-red-700">{row.errors.join("; ")}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {plan.rejects.length > 50 && (
+                    <p className="text-xs text-gray-500">
+                      {t("import.firstRejected", { count: formatNumber(plan.rejects.length) })}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {importing && (
+                <p className="text-sm text-gray-600">
+                  {t("import.progress", { done: formatNumber(progress), total: formatNumber(totalOperations) })}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === "mapping" ? (
+              <Button onClick={handleDryRun} disabled={missingRequired.length > 0 || lookupsLoading}>
+                {lookupsLoading ? t("import.loadingExisting") : t("import.checkRows")}
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep("mapping")} disabled={importing}>
+                  {t("import.back")}
+                </Button>
+                <Button onClick={handleImport} disabled={importing || totalOperations === 0}>
+                  {importing ? t("import.importing") : t("import.importRows", { count: formatNumber(totalOperations) })}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
   );
 }
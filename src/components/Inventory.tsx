@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from "react";
-import { Plus, Search, Edit, Trash2, Package, DollarSign, Eye, Upload, X, Boxes, Download } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Package, DollarSign, Eye, Upload, X, Boxes, Download, History } from "lucide-react";
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
 import { Button } from "./ui/button";
+import { ImportExcelButton } from "./ImportExcelButton";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -16,6 +17,11 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { thunks, selectors } from "../redux-toolkit/slices";
 import { uploadFile, getFileUrl, getFilesByOwner, deleteFilesByRecord } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
+import { fetchItemStockMovements, postStockAdjustment, withRunningBalance } from "../lib/stockLedger";
+import type { StockMovements, StockMovementType } from "../../supabase/models/stock_movements";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
+
 const CATEGORY_ALLOW_LIST = [
   "General",
   "Essential Oils",
@@ -56,6 +62,44 @@ export interface InventoryItem {
   notes?: string;
 }
 
+// Categories are stored in English; anything else is shown as entered
+const CATEGORY_KEYS: Record<string, MessageKey> = {
+  General: "inventory.category.general",
+  "Essential Oils": "inventory.category.essentialOils",
+  Concentrates: "inventory.category.concentrates",
+  Diffusers: "inventory.category.diffusers",
+  Accessories: "inventory.category.accessories",
+  Bundles: "inventory.category.bundles",
+  "Raw Materials": "inventory.category.rawMaterials",
+};
+
+// Units are stored as these codes; anything else is shown as entered
+const UNIT_KEYS: Record<string, MessageKey> = {
+  bottle: "inventory.unit.bottle",
+  box: "inventory.unit.box",
+  piece: "inventory.unit.piece",
+  set: "inventory.unit.set",
+  kg: "inventory.unit.kg",
+  liter: "inventory.unit.liter",
+  pack: "inventory.unit.pack",
+};
+
+const STATUS_KEYS: Record<InventoryItem["status"], MessageKey> = {
+  "in-stock": "inventory.status.inStock",
+  "low-stock": "inventory.status.lowStock",
+  "out-of-stock": "inventory.status.outOfStock",
+};
+
+const STOCK_MOVEMENT_KEYS: Record<StockMovementType, MessageKey> = {
+  opening: "inventory.movement.opening",
+  adjustment: "inventory.movement.adjustment",
+  sale: "inventory.movement.sale",
+  purchase: "inventory.movement.purchase",
+  purchase_return: "inventory.movement.purchaseReturn",
+  mfg_consumption: "inventory.movement.mfgConsumption",
+  mfg_output: "inventory.movement.mfgOutput",
+};
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case "in-stock": return "bg-green-100 text-green-700 border-green-200";
@@ -66,6 +110,7 @@ const getStatusColor = (status: string) => {
 };
 
 export function Inventory() {
+  const { t, language, localizedName, formatCurrency, formatNumber, formatDate } = useLocale();
   const dispatch = useAppDispatch();
   const dbInventory = useAppSelector(selectors.inventory.selectAll) as any[];
   const loading = useAppSelector(selectors.inventory.selectLoading);
@@ -153,6 +198,33 @@ export function Inventory() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
+  const [stockMovements, setStockMovements] = useState<Array<StockMovements & { balance: number }>>([]);
+  const [stockMovementsLoading, setStockMovementsLoading] = useState(false);
+
+  // Movement history for the product being viewed
+  const viewedProductCode = selectedItem ? (dbInventory[selectedItem.id - 1]?.product_code as string | undefined) : undefined;
+  useEffect(() => {
+    if (!isViewDialogOpen || !viewedProductCode) {
+      setStockMovements([]);
+      return;
+    }
+    let cancelled = false;
+    setStockMovementsLoading(true);
+    fetchItemStockMovements('product', viewedProductCode)
+      .then((rows) => {
+        if (!cancelled) setStockMovements(withRunningBalance(rows));
+      })
+      .catch((error) => {
+        console.error('Failed to load stock movements', error);
+        if (!cancelled) setStockMovements([]);
+      })
+      .finally(() => {
+        if (!cancelled) setStockMovementsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isViewDialogOpen, viewedProductCode, selectedItem?.stock]);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
 
   // Form states
@@ -181,6 +253,9 @@ export function Inventory() {
   const [formImageFile, setFormImageFile] = useState<File | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
 
+  const categoryLabel = (category: string) => (CATEGORY_KEYS[category] ? t(CATEGORY_KEYS[category]) : category);
+  const unitLabel = (unit: string) => (UNIT_KEYS[unit] ? t(UNIT_KEYS[unit]) : unit);
+
   const categoryOptions = useMemo(() => {
     const set = new Set<string>();
     CATEGORY_ALLOW_LIST.forEach((cat) => set.add(cat));
@@ -259,9 +334,9 @@ export function Inventory() {
       XLSX.utils.book_append_sheet(wb, ws, "Inventory");
       const fileName = `inventory_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -298,7 +373,7 @@ export function Inventory() {
     if (!file) return;
 
     if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image size should be less than 5MB");
+      toast.error(t("inventory.imageTooLarge"));
       return;
     }
 
@@ -359,7 +434,7 @@ export function Inventory() {
       !formMinStock ||
       !formUnit
     ) {
-      toast.error("Please fill all required fields");
+      toast.error(t("inventory.requiredFields"));
       return;
     }
 
@@ -419,13 +494,13 @@ export function Inventory() {
                 uploadResult.fileMetadata.is_public
               )) || formImage;
           } else {
-            toast.error(uploadResult.error || 'Failed to upload image');
+            toast.error(uploadResult.error || translateCurrent("inventory.imageUploadFailed"));
             imageUrl = formImage; // Fallback to preview
           }
         }
       } catch (error: any) {
         console.error('Error uploading image:', error);
-        toast.error(error.message || 'Failed to upload image');
+        toast.error(error.message || translateCurrent("inventory.imageUploadFailed"));
         imageUrl = formImage; // Fallback to preview
       } finally {
         setUploadingImage(false);
@@ -469,7 +544,6 @@ export function Inventory() {
       prod_img: itemData.image ?? null,
       prod_selling_price: itemData.unitPrice,
       prod_cost_price: itemData.costPrice,
-      current_stock: itemData.stock,
       minimum_stock_alert: itemData.minStock,
       prod_status: itemData.status,
       prod_supplier: itemData.supplier ?? null,
@@ -489,11 +563,21 @@ export function Inventory() {
         }
         
         await dispatch(thunks.inventory.updateOne({ id, values })).unwrap();
-        toast.success("Product updated successfully!");
+        // Stock is derived from the ledger; a changed quantity is posted as an adjustment
+        const stockDelta = itemData.stock - Number(target.current_stock ?? 0);
+        if (stockDelta !== 0) {
+          await postStockAdjustment('product', id, stockDelta, 'Manual stock correction');
+          dispatch(thunks.inventory.fetchAll(undefined));
+        }
+        toast.success(translateCurrent("inventory.updated"));
       } else {
         // Create new item first
-        const created = await dispatch(thunks.inventory.createOne(values)).unwrap();
+        const created = await dispatch(thunks.inventory.createOne({ ...values, current_stock: 0 })).unwrap();
         const productCode = created?.product_code;
+        if (productCode && itemData.stock) {
+          await postStockAdjustment('product', productCode, itemData.stock, 'Opening stock');
+          dispatch(thunks.inventory.fetchAll(undefined));
+        }
         
         // Upload image after creation if we have one
         if (formImageFile && productCode) {
@@ -550,10 +634,10 @@ export function Inventory() {
           }
         }
         
-        toast.success("Product added successfully!");
+        toast.success(translateCurrent("inventory.added"));
       }
     } catch (error: any) {
-      toast.error(error.message || (editingItem ? 'Failed to update product' : 'Failed to add product'));
+      toast.error(error.message || translateCurrent(editingItem ? "inventory.updateFailed" : "inventory.addFailed"));
       return;
     }
 
@@ -566,7 +650,7 @@ export function Inventory() {
     const product_code = target?.product_code as string | undefined;
     if (!product_code) return;
     
-    if (confirm('Are you sure you want to delete this product? This will also delete associated images.')) {
+    if (confirm(t("inventory.deleteConfirm"))) {
       try {
         // Delete associated files from storage (both S3 and Supabase) - only for this specific product
         const { deleted, errors } = await deleteFilesByRecord(product_code, 'inventory', FILE_CATEGORIES.INVENTORY_IMAGE);
@@ -581,9 +665,9 @@ export function Inventory() {
         
         // Then delete the inventory item
         await dispatch(thunks.inventory.deleteOne(product_code)).unwrap();
-        toast.success('Product and associated images deleted successfully!');
+        toast.success(translateCurrent("inventory.deleted"));
       } catch (e: any) {
-        toast.error(e.message || 'Failed to delete product');
+        toast.error(e.message || translateCurrent("inventory.deleteFailed"));
       }
     }
   };
@@ -598,17 +682,18 @@ export function Inventory() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h2>Inventory Management</h2>
-          <p className="text-muted-foreground mt-1">Manage your products and stock levels</p>
+          <h2>{t("inventory.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("inventory.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
+          <ImportExcelButton section="Inventory" />
           <Button onClick={openAddDialog} className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
             <Plus className="h-4 w-4" />
-            Add Product
+            {t("inventory.addProduct")}
           </Button>
         </div>
       </div>
@@ -617,58 +702,58 @@ export function Inventory() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Items</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("inventory.totalItems")}</CardTitle>
             <Package className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-blue-600">{stats.totalItems}</div>
-            <p className="text-xs text-muted-foreground mt-1">Products in system</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("inventory.productsInSystem")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">In Stock</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("inventory.status.inStock")}</CardTitle>
             <Package className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-green-600">{stats.inStock}</div>
-            <p className="text-xs text-muted-foreground mt-1">Available products</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("inventory.availableProducts")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Low Stock</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("inventory.status.lowStock")}</CardTitle>
             <Package className="h-5 w-5 text-yellow-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-yellow-600">{stats.lowStock}</div>
-            <p className="text-xs text-muted-foreground mt-1">Need reorder</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("inventory.needReorder")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Out of Stock</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("inventory.status.outOfStock")}</CardTitle>
             <Package className="h-5 w-5 text-red-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-red-600">{stats.outOfStock}</div>
-            <p className="text-xs text-muted-foreground mt-1">Urgent reorder</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("inventory.urgentReorder")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("inventory.totalValue")}</CardTitle>
             <DollarSign className="h-5 w-5 text-purple-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-purple-600">
-              {stats.totalValue.toLocaleString()}
+              {formatCurrency(stats.totalValue)}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">SAR - Inventory value</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("inventory.inventoryValue")}</p>
           </CardContent>
         </Card>
       </div>
@@ -678,34 +763,34 @@ export function Inventory() {
         <CardContent className="pt-6">
           <div className="flex gap-3">
             <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by name, SKU, or barcode..."
+                placeholder={t("inventory.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
+                className="ps-10"
               />
             </div>
             <Select value={categoryFilter} onValueChange={setCategoryFilter}>
               <SelectTrigger className="w-[200px]">
-                <SelectValue placeholder="All Categories" />
+                <SelectValue placeholder={t("inventory.allCategories")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
+                <SelectItem value="all">{t("inventory.allCategories")}</SelectItem>
                 {categoryOptions.map(cat => (
-                  <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                  <SelectItem key={cat} value={cat}>{categoryLabel(cat)}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-[160px]">
-                <SelectValue placeholder="All Status" />
+                <SelectValue placeholder={t("common.allStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="in-stock">In Stock</SelectItem>
-                <SelectItem value="low-stock">Low Stock</SelectItem>
-                <SelectItem value="out-of-stock">Out of Stock</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="in-stock">{t("inventory.status.inStock")}</SelectItem>
+                <SelectItem value="low-stock">{t("inventory.status.lowStock")}</SelectItem>
+                <SelectItem value="out-of-stock">{t("inventory.status.outOfStock")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -715,28 +800,28 @@ export function Inventory() {
       {/* Inventory Table */}
       <Card>
         <CardContent className="pt-6">
-          {loading && <div>Loading products...</div>}
+          {loading && <div>{t("inventory.loading")}</div>}
           {loadError && <div className="text-red-500">{loadError}</div>}
           {filteredInventory.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Package className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No products found</p>
+              <p className="text-muted-foreground">{t("inventory.noProducts")}</p>
             </div>
           ) : (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Image</TableHead>
-                    <TableHead>SKU</TableHead>
-                    <TableHead>Product Name</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Stock</TableHead>
-                    <TableHead>Unit Price</TableHead>
-                    <TableHead>Cost Price</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead>{t("inventory.image")}</TableHead>
+                    <TableHead>{t("inventory.sku")}</TableHead>
+                    <TableHead>{t("inventory.productName")}</TableHead>
+                    <TableHead>{t("inventory.categoryLabel")}</TableHead>
+                    <TableHead>{t("inventory.typeLabel")}</TableHead>
+                    <TableHead>{t("inventory.stock")}</TableHead>
+                    <TableHead>{t("inventory.unitPrice")}</TableHead>
+                    <TableHead>{t("inventory.costPrice")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                    <TableHead className="text-end">{t("common.actions")}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -760,31 +845,31 @@ export function Inventory() {
                       <TableCell className="font-mono text-sm">{item.sku}</TableCell>
                       <TableCell>
                         <div>
-                          <p className="font-medium">{item.name}</p>
-                          <p className="text-sm text-muted-foreground">{item.nameAr}</p>
+                          <p className="font-medium">{localizedName(item.name, item.nameAr)}</p>
+                          <p className="text-sm text-muted-foreground">{language === "ar" ? item.name : item.nameAr}</p>
                         </div>
                       </TableCell>
-                      <TableCell>{item.category}</TableCell>
+                      <TableCell>{categoryLabel(item.category)}</TableCell>
                       <TableCell>
                         <Badge variant="outline" className="gap-1">
                           {item.productType === "bundle" ? <Boxes className="h-3 w-3" /> : <Package className="h-3 w-3" />}
-                          {item.productType === "bundle" ? "Bundle" : "Simple"}
+                          {t(item.productType === "bundle" ? "inventory.type.bundle" : "inventory.type.simple")}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <div>
-                          <p className="font-medium">{item.stock} {item.unit}</p>
-                          <p className="text-xs text-muted-foreground">Min: {item.minStock}</p>
+                          <p className="font-medium">{item.stock} {unitLabel(item.unit)}</p>
+                          <p className="text-xs text-muted-foreground">{t("inventory.minShort", { count: item.minStock })}</p>
                         </div>
                       </TableCell>
-                      <TableCell>SAR {item.unitPrice.toFixed(2)}</TableCell>
-                      <TableCell>SAR {item.costPrice.toFixed(2)}</TableCell>
+                      <TableCell>{formatCurrency(item.unitPrice)}</TableCell>
+                      <TableCell>{formatCurrency(item.costPrice)}</TableCell>
                       <TableCell>
                         <Badge className={getStatusColor(item.status)}>
-                          {item.status.replace("-", " ")}
+                          {t(STATUS_KEYS[item.status])}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex justify-end gap-2">
                           <Button size="sm" variant="outline" onClick={() => openViewDialog(item)}>
                             <Eye className="h-4 w-4" />
@@ -813,23 +898,23 @@ export function Inventory() {
       }}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingItem ? "Edit Product" : "Add New Product"}</DialogTitle>
+            <DialogTitle>{editingItem ? t("inventory.editProduct") : t("inventory.addNewProduct")}</DialogTitle>
             <DialogDescription>
-              {editingItem ? "Update product information" : "Add a new product to inventory"}
+              {editingItem ? t("inventory.editDescription") : t("inventory.addDescription")}
             </DialogDescription>
           </DialogHeader>
 
           <Tabs defaultValue="basic" className="mt-4">
             <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="basic">Basic Info</TabsTrigger>
-              <TabsTrigger value="pricing">Pricing & Stock</TabsTrigger>
-              <TabsTrigger value="additional">Additional Info</TabsTrigger>
+              <TabsTrigger value="basic">{t("inventory.tabBasic")}</TabsTrigger>
+              <TabsTrigger value="pricing">{t("inventory.tabPricing")}</TabsTrigger>
+              <TabsTrigger value="additional">{t("inventory.tabAdditional")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="basic" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="sku">SKU *</Label>
+                  <Label htmlFor="sku">{t("inventory.skuRequired")}</Label>
                   <Input
                     id="sku"
                     value={formSku}
@@ -839,20 +924,20 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="productType">Product Type *</Label>
+                  <Label htmlFor="productType">{t("inventory.productTypeRequired")}</Label>
                   <Select value={formProductType} onValueChange={(value: any) => setFormProductType(value)}>
                     <SelectTrigger id="productType">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="simple">Simple Product</SelectItem>
-                      <SelectItem value="bundle">Bundle/Kit</SelectItem>
+                      <SelectItem value="simple">{t("inventory.simpleProduct")}</SelectItem>
+                      <SelectItem value="bundle">{t("inventory.bundleKit")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="name">Product Name (English) *</Label>
+                  <Label htmlFor="name">{t("inventory.nameEnRequired")}</Label>
                   <Input
                     id="name"
                     value={formName}
@@ -862,7 +947,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="nameAr">Product Name (Arabic) *</Label>
+                  <Label htmlFor="nameAr">{t("inventory.nameArRequired")}</Label>
                   <Input
                     id="nameAr"
                     value={formNameAr}
@@ -873,15 +958,15 @@ export function Inventory() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="category">Category *</Label>
+                  <Label htmlFor="category">{t("inventory.categoryRequired")}</Label>
                   <Select value={formCategory} onValueChange={setFormCategory}>
                     <SelectTrigger id="category">
-                      <SelectValue placeholder="Select category" />
+                      <SelectValue placeholder={t("inventory.selectCategory")} />
                     </SelectTrigger>
                     <SelectContent>
                       {categoryOptions.map((cat) => (
                         <SelectItem key={cat} value={cat}>
-                          {cat}
+                          {categoryLabel(cat)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -889,18 +974,18 @@ export function Inventory() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="description">Description (English)</Label>
+                  <Label htmlFor="description">{t("inventory.descriptionEn")}</Label>
                   <Textarea
                     id="description"
                     value={formDescription}
                     onChange={(e) => setFormDescription(e.target.value)}
-                    placeholder="Product description in English"
+                    placeholder={t("inventory.descriptionEnPlaceholder")}
                     rows={3}
                   />
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="descriptionAr">Description (Arabic)</Label>
+                  <Label htmlFor="descriptionAr">{t("inventory.descriptionAr")}</Label>
                   <Textarea
                     id="descriptionAr"
                     value={formDescriptionAr}
@@ -912,19 +997,19 @@ export function Inventory() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="image">Product Image</Label>
+                  <Label htmlFor="image">{t("inventory.productImage")}</Label>
                   <div className="mt-2">
                     {formImage ? (
                       <div className="relative inline-block">
                         <img 
                           src={formImage} 
-                          alt="Product" 
+                          alt={t("inventory.productAlt")} 
                           className="w-32 h-32 object-cover rounded-lg border"
                         />
                         <Button
                           size="sm"
                           variant="destructive"
-                          className="absolute -top-2 -right-2"
+                          className="absolute -top-2 -end-2"
                           onClick={() => setFormImage(null)}
                         >
                           <X className="h-4 w-4" />
@@ -933,7 +1018,7 @@ export function Inventory() {
                     ) : (
                       <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
                         <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground mb-2">Upload product image</p>
+                        <p className="text-sm text-muted-foreground mb-2">{t("inventory.uploadImage")}</p>
                         <Input
                           id="image"
                           type="file"
@@ -941,7 +1026,7 @@ export function Inventory() {
                           onChange={handleImageUpload}
                           className="max-w-xs mx-auto"
                         />
-                        <p className="text-xs text-muted-foreground mt-2">Max size: 5MB</p>
+                        <p className="text-xs text-muted-foreground mt-2">{t("inventory.maxSize")}</p>
                       </div>
                     )}
                   </div>
@@ -952,7 +1037,7 @@ export function Inventory() {
             <TabsContent value="pricing" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="unitPrice">Unit Price (SAR) *</Label>
+                  <Label htmlFor="unitPrice">{t("inventory.unitPriceRequired")}</Label>
                   <Input
                     id="unitPrice"
                     type="number"
@@ -964,7 +1049,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="costPrice">Cost Price (SAR) *</Label>
+                  <Label htmlFor="costPrice">{t("inventory.costPriceRequired")}</Label>
                   <Input
                     id="costPrice"
                     type="number"
@@ -976,7 +1061,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="stock">Current Stock *</Label>
+                  <Label htmlFor="stock">{t("inventory.currentStockRequired")}</Label>
                   <Input
                     id="stock"
                     type="number"
@@ -987,25 +1072,25 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="unit">Unit *</Label>
+                  <Label htmlFor="unit">{t("inventory.unitRequired")}</Label>
                   <Select value={formUnit} onValueChange={setFormUnit}>
                     <SelectTrigger id="unit">
-                      <SelectValue placeholder="Select unit" />
+                      <SelectValue placeholder={t("inventory.selectUnit")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="bottle">Bottle</SelectItem>
-                      <SelectItem value="box">Box</SelectItem>
-                      <SelectItem value="piece">Piece</SelectItem>
-                      <SelectItem value="set">Set</SelectItem>
-                      <SelectItem value="kg">Kilogram</SelectItem>
-                      <SelectItem value="liter">Liter</SelectItem>
-                      <SelectItem value="pack">Pack</SelectItem>
+                      <SelectItem value="bottle">{t("inventory.unit.bottle")}</SelectItem>
+                      <SelectItem value="box">{t("inventory.unit.box")}</SelectItem>
+                      <SelectItem value="piece">{t("inventory.unit.piece")}</SelectItem>
+                      <SelectItem value="set">{t("inventory.unit.set")}</SelectItem>
+                      <SelectItem value="kg">{t("inventory.unit.kg")}</SelectItem>
+                      <SelectItem value="liter">{t("inventory.unit.liter")}</SelectItem>
+                      <SelectItem value="pack">{t("inventory.unit.pack")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="minStock">Minimum Stock *</Label>
+                  <Label htmlFor="minStock">{t("inventory.minStockRequired")}</Label>
                   <Input
                     id="minStock"
                     type="number"
@@ -1016,7 +1101,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="maxStock">Maximum Stock</Label>
+                  <Label htmlFor="maxStock">{t("inventory.maxStock")}</Label>
                   <Input
                     id="maxStock"
                     type="number"
@@ -1027,14 +1112,14 @@ export function Inventory() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="taxable">Taxable</Label>
+                  <Label htmlFor="taxable">{t("inventory.taxable")}</Label>
                   <Select value={formTaxable} onValueChange={setFormTaxable}>
                     <SelectTrigger id="taxable">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="yes">Yes (Subject to VAT)</SelectItem>
-                      <SelectItem value="no">No (VAT Exempt)</SelectItem>
+                      <SelectItem value="yes">{t("inventory.taxableYes")}</SelectItem>
+                      <SelectItem value="no">{t("inventory.taxableNo")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1043,15 +1128,15 @@ export function Inventory() {
                   <div className="col-span-2 bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
-                        <p className="text-muted-foreground">Profit Margin</p>
+                        <p className="text-muted-foreground">{t("inventory.profitMargin")}</p>
                         <p className="font-semibold text-blue-700">
-                          SAR {(parseFloat(formUnitPrice) - parseFloat(formCostPrice)).toFixed(2)}
+                          {formatCurrency(parseFloat(formUnitPrice) - parseFloat(formCostPrice))}
                         </p>
                       </div>
                       <div>
-                        <p className="text-muted-foreground">Margin %</p>
+                        <p className="text-muted-foreground">{t("inventory.marginPercent")}</p>
                         <p className="font-semibold text-blue-700">
-                          {(((parseFloat(formUnitPrice) - parseFloat(formCostPrice)) / parseFloat(formUnitPrice)) * 100).toFixed(1)}%
+                          {formatNumber(((parseFloat(formUnitPrice) - parseFloat(formCostPrice)) / parseFloat(formUnitPrice)) * 100, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%
                         </p>
                       </div>
                     </div>
@@ -1063,27 +1148,27 @@ export function Inventory() {
             <TabsContent value="additional" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="supplier">Supplier</Label>
+                  <Label htmlFor="supplier">{t("inventory.supplier")}</Label>
                   <Input
                     id="supplier"
                     value={formSupplier}
                     onChange={(e) => setFormSupplier(e.target.value)}
-                    placeholder="Supplier name"
+                    placeholder={t("inventory.supplierPlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="location">Storage Location</Label>
+                  <Label htmlFor="location">{t("inventory.storageLocation")}</Label>
                   <Input
                     id="location"
                     value={formLocation}
                     onChange={(e) => setFormLocation(e.target.value)}
-                    placeholder="Warehouse A - Shelf 12"
+                    placeholder={t("inventory.locationPlaceholder")}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="barcode">Barcode</Label>
+                  <Label htmlFor="barcode">{t("inventory.barcode")}</Label>
                   <Input
                     id="barcode"
                     value={formBarcode}
@@ -1093,7 +1178,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="weight">Weight (kg)</Label>
+                  <Label htmlFor="weight">{t("inventory.weightKg")}</Label>
                   <Input
                     id="weight"
                     type="number"
@@ -1105,7 +1190,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="dimensions">Dimensions</Label>
+                  <Label htmlFor="dimensions">{t("inventory.dimensions")}</Label>
                   <Input
                     id="dimensions"
                     value={formDimensions}
@@ -1115,7 +1200,7 @@ export function Inventory() {
                 </div>
 
                 <div>
-                  <Label htmlFor="expiryDate">Expiry Date</Label>
+                  <Label htmlFor="expiryDate">{t("inventory.expiryDate")}</Label>
                   <Input
                     id="expiryDate"
                     type="date"
@@ -1125,12 +1210,12 @@ export function Inventory() {
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="notes">Notes</Label>
+                  <Label htmlFor="notes">{t("common.notes")}</Label>
                   <Textarea
                     id="notes"
                     value={formNotes}
                     onChange={(e) => setFormNotes(e.target.value)}
-                    placeholder="Additional notes about this product"
+                    placeholder={t("inventory.notesPlaceholder")}
                     rows={3}
                   />
                 </div>
@@ -1140,10 +1225,10 @@ export function Inventory() {
 
           <div className="flex justify-end gap-3 pt-4 border-t mt-6">
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleSave} className="bg-purple-600 hover:bg-purple-700 text-white" disabled={uploadingImage}>
-              {uploadingImage ? "Uploading..." : editingItem ? "Update Product" : "Add Product"}
+              {uploadingImage ? t("inventory.uploading") : editingItem ? t("inventory.updateProduct") : t("inventory.addProduct")}
             </Button>
           </div>
         </DialogContent>
@@ -1153,8 +1238,8 @@ export function Inventory() {
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Product Details</DialogTitle>
-            <DialogDescription>Complete information about this product</DialogDescription>
+            <DialogTitle>{t("inventory.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("inventory.detailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedItem && (
@@ -1176,11 +1261,11 @@ export function Inventory() {
                   <div>
                     <div className="flex items-center gap-2 mb-2">
                       <Badge className={getStatusColor(selectedItem.status)}>
-                        {selectedItem.status.replace("-", " ")}
+                        {t(STATUS_KEYS[selectedItem.status])}
                       </Badge>
                       <Badge variant="outline" className="gap-1">
                         {selectedItem.productType === "bundle" ? <Boxes className="h-3 w-3" /> : <Package className="h-3 w-3" />}
-                        {selectedItem.productType === "bundle" ? "Bundle" : "Simple"}
+                        {t(selectedItem.productType === "bundle" ? "inventory.type.bundle" : "inventory.type.simple")}
                       </Badge>
                     </div>
                     <h3 className="text-2xl font-bold">{selectedItem.name}</h3>
@@ -1188,12 +1273,12 @@ export function Inventory() {
                   </div>
                   <div className="grid grid-cols-2 gap-3 text-sm">
                     <div>
-                      <Label className="text-muted-foreground">SKU</Label>
+                      <Label className="text-muted-foreground">{t("inventory.sku")}</Label>
                       <p className="font-mono">{selectedItem.sku}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Category</Label>
-                      <p>{selectedItem.category}</p>
+                      <Label className="text-muted-foreground">{t("inventory.categoryLabel")}</Label>
+                      <p>{categoryLabel(selectedItem.category)}</p>
                     </div>
                   </div>
                 </div>
@@ -1203,27 +1288,27 @@ export function Inventory() {
               <div className="grid grid-cols-4 gap-4">
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Unit Price</p>
-                    <p className="text-2xl font-bold">SAR {selectedItem.unitPrice.toFixed(2)}</p>
+                    <p className="text-sm text-muted-foreground">{t("inventory.unitPrice")}</p>
+                    <p className="text-2xl font-bold">{formatCurrency(selectedItem.unitPrice)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Cost Price</p>
-                    <p className="text-2xl font-bold">SAR {selectedItem.costPrice.toFixed(2)}</p>
+                    <p className="text-sm text-muted-foreground">{t("inventory.costPrice")}</p>
+                    <p className="text-2xl font-bold">{formatCurrency(selectedItem.costPrice)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Current Stock</p>
-                    <p className="text-2xl font-bold">{selectedItem.stock} {selectedItem.unit}</p>
+                    <p className="text-sm text-muted-foreground">{t("inventory.currentStock")}</p>
+                    <p className="text-2xl font-bold">{selectedItem.stock} {unitLabel(selectedItem.unit)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">Stock Value</p>
+                    <p className="text-sm text-muted-foreground">{t("inventory.stockValue")}</p>
                     <p className="text-2xl font-bold">
-                      {(selectedItem.stock * selectedItem.costPrice).toFixed(0)}
+                      {formatCurrency(selectedItem.stock * selectedItem.costPrice)}
                     </p>
                   </CardContent>
                 </Card>
@@ -1232,27 +1317,27 @@ export function Inventory() {
               {/* Details */}
               <div className="grid grid-cols-2 gap-6">
                 <div className="space-y-3">
-                  <h4 className="font-semibold">Product Information</h4>
+                  <h4 className="font-semibold">{t("inventory.productInformation")}</h4>
                   <div className="space-y-2 text-sm">
                     {selectedItem.description && (
                       <div>
-                        <Label className="text-muted-foreground">Description (EN)</Label>
+                        <Label className="text-muted-foreground">{t("inventory.descriptionEnShort")}</Label>
                         <p>{selectedItem.description}</p>
                       </div>
                     )}
                     {selectedItem.descriptionAr && (
                       <div>
-                        <Label className="text-muted-foreground">Description (AR)</Label>
+                        <Label className="text-muted-foreground">{t("inventory.descriptionArShort")}</Label>
                         <p dir="rtl">{selectedItem.descriptionAr}</p>
                       </div>
                     )}
                     <div className="grid grid-cols-2 gap-2">
                       <div>
-                        <Label className="text-muted-foreground">Min Stock</Label>
+                        <Label className="text-muted-foreground">{t("inventory.minStock")}</Label>
                         <p>{selectedItem.minStock} {selectedItem.unit}</p>
                       </div>
                       <div>
-                        <Label className="text-muted-foreground">Max Stock</Label>
+                        <Label className="text-muted-foreground">{t("inventory.maxStockShort")}</Label>
                         <p>{selectedItem.maxStock} {selectedItem.unit}</p>
                       </div>
                     </div>
@@ -1260,68 +1345,114 @@ export function Inventory() {
                 </div>
 
                 <div className="space-y-3">
-                  <h4 className="font-semibold">Additional Details</h4>
+                  <h4 className="font-semibold">{t("inventory.additionalDetails")}</h4>
                   <div className="space-y-2 text-sm">
                     {selectedItem.supplier && (
                       <div>
-                        <Label className="text-muted-foreground">Supplier</Label>
+                        <Label className="text-muted-foreground">{t("inventory.supplier")}</Label>
                         <p>{selectedItem.supplier}</p>
                       </div>
                     )}
                     {selectedItem.location && (
                       <div>
-                        <Label className="text-muted-foreground">Location</Label>
+                        <Label className="text-muted-foreground">{t("inventory.location")}</Label>
                         <p>{selectedItem.location}</p>
                       </div>
                     )}
                     {selectedItem.barcode && (
                       <div>
-                        <Label className="text-muted-foreground">Barcode</Label>
+                        <Label className="text-muted-foreground">{t("inventory.barcode")}</Label>
                         <p className="font-mono">{selectedItem.barcode}</p>
                       </div>
                     )}
                     {selectedItem.weight && (
                       <div>
-                        <Label className="text-muted-foreground">Weight</Label>
+                        <Label className="text-muted-foreground">{t("inventory.weight")}</Label>
                         <p>{selectedItem.weight} kg</p>
                       </div>
                     )}
                     {selectedItem.dimensions && (
                       <div>
-                        <Label className="text-muted-foreground">Dimensions</Label>
+                        <Label className="text-muted-foreground">{t("inventory.dimensions")}</Label>
                         <p>{selectedItem.dimensions}</p>
                       </div>
                     )}
                     <div>
-                      <Label className="text-muted-foreground">Taxable</Label>
-                      <p>{selectedItem.taxable ? "Yes (VAT applicable)" : "No (VAT exempt)"}</p>
+                      <Label className="text-muted-foreground">{t("inventory.taxable")}</Label>
+                      <p>{t(selectedItem.taxable ? "inventory.taxableApplicable" : "inventory.taxableExempt")}</p>
                     </div>
                   </div>
                 </div>
               </div>
 
+              <div className="space-y-3">
+                <h4 className="font-semibold flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  {t("inventory.stockMovements")}
+                </h4>
+                {stockMovementsLoading ? (
+                  <p className="text-sm text-muted-foreground">{t("inventory.loadingMovements")}</p>
+                ) : stockMovements.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("inventory.noMovements")}</p>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto border rounded-lg">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("common.date")}</TableHead>
+                          <TableHead>{t("inventory.movementLabel")}</TableHead>
+                          <TableHead>{t("inventory.reference")}</TableHead>
+                          <TableHead className="text-end">{t("inventory.quantity")}</TableHead>
+                          <TableHead className="text-end">{t("inventory.balance")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {[...stockMovements].reverse().map((movement) => (
+                          <TableRow key={movement.movement_id}>
+                            <TableCell>{formatDate(movement.created_at)}</TableCell>
+                            <TableCell>
+                              {t(STOCK_MOVEMENT_KEYS[movement.movement_type])}
+                              {movement.is_reversal && (
+                                <Badge variant="outline" className="ms-2 text-xs">{t("inventory.reversal")}</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">
+                              {movement.source_reference || movement.notes || '-'}
+                            </TableCell>
+                            <TableCell className={`text-end ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                            </TableCell>
+                            <TableCell className="text-end font-medium">{movement.balance}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+
               {selectedItem.notes && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                  <Label className="text-muted-foreground">Notes</Label>
+                  <Label className="text-muted-foreground">{t("common.notes")}</Label>
                   <p className="text-sm mt-1">{selectedItem.notes}</p>
                 </div>
               )}
 
               <div className="flex justify-between items-center text-xs text-muted-foreground pt-4 border-t">
-                <span>Created: {new Date(selectedItem.createdDate).toLocaleDateString('en-GB')}</span>
-                <span>Last Updated: {new Date(selectedItem.lastUpdated).toLocaleDateString('en-GB')}</span>
+                <span>{t("inventory.createdOn", { date: formatDate(selectedItem.createdDate) })}</span>
+                <span>{t("inventory.lastUpdated", { date: formatDate(selectedItem.lastUpdated) })}</span>
               </div>
 
               <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-                  Close
+                  {t("common.close")}
                 </Button>
                 <Button onClick={() => {
                   setIsViewDialogOpen(false);
                   openEditDialog(selectedItem);
                 }}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Product
+                  <Edit className="h-4 w-4 me-2" />
+                  {t("inventory.editProduct")}
                 </Button>
               </div>
             </div>
@@ -5,6 +5,7 @@ import { Inventory } from "./Inventory";
 import { Suppliers } from "./Suppliers";
 import { Manufacturing } from "./Manufacturing";
 import { Returns } from "./Returns";
+import { useLocale } from "../lib/i18n";
 
 interface InventoryManufacturingTabsProps {
   initialTab?: "inventory" | "suppliers" | "manufacturing" | "returns";
@@ -15,6 +16,7 @@ export function InventoryManufacturingTabs({
   initialTab = "inventory",
   onTabChange 
 }: InventoryManufacturingTabsProps) {
+  const { t } = useLocale();
   const [activeTab, setActiveTab] = useState<string>(initialTab);
 
   useEffect(() => {
@@ -35,20 +37,20 @@ export function InventoryManufacturingTabs({
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
         <TabsList className="grid w-full grid-cols-4 mb-4">
           <TabsTrigger value="inventory">
-            <Package className="h-4 w-4 mr-2" />
-            Inventory
+            <Package className="h-4 w-4 me-2" />
+            {t("page.inventory")}
           </TabsTrigger>
           <TabsTrigger value="suppliers">
-            <Building2 className="h-4 w-4 mr-2" />
-            Suppliers
+            <Building2 className="h-4 w-4 me-2" />
+            {t("page.suppliers")}
           </TabsTrigger>
           <TabsTrigger value="manufacturing">
-            <Factory className="h-4 w-4 mr-2" />
-            Manufacturing
+            <Factory className="h-4 w-4 me-2" />
+            {t("page.manufacturing")}
           </TabsTrigger>
           <TabsTrigger value="returns">
-            <RefreshCcw className="h-4 w-4 mr-2" />
-            Returns
+            <RefreshCcw className="h-4 w-4 me-2" />
+            {t("page.returns")}
           </TabsTrigger>
         </TabsList>
 
@@ -0,0 +1,416 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileText, Plus, Printer, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { Textarea } from "./ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { useAppDispatch } from "../redux-toolkit/hooks";
+import { thunks } from "../redux-toolkit/slices";
+import type { Invoices as InvoicesRow } from "../../supabase/models/invoices";
+import type { InvoiceNoteItem, InvoiceNotes, InvoiceNotesInsert, InvoiceNoteType } from "../../supabase/models/invoice_notes";
+import {
+  NOTE_TYPE_LABELS,
+  adjustedInvoiceTotal,
+  buildNoteLine,
+  creditableLines,
+  invoiceVatRate,
+  noteTotals,
+} from "../lib/invoiceNotes";
+import { useLocale } from "../lib/i18n";
+
+interface DebitLineForm {
+  id: number;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface InvoiceNotesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: InvoicesRow | null;
+  invoiceNumber: string;
+  notes: InvoiceNotes[];
+  onIssued?: (note: InvoiceNotes) => void;
+  onPrint: (note: InvoiceNotes) => void;
+  onExportXml: (note: InvoiceNotes) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyDebitLine = (): DebitLineForm => ({ id: Date.now() + Math.random(), description: "", quantity: "1", unitPrice: "" });
+
+function currentUserId(): string | null {
+  try {
+    const stored = localStorage.getItem("auth_user");
+    return stored ? (JSON.parse(stored).user_id as string) ?? null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue credit and debit notes against an invoice and list the ones already issued
+ */
+export function InvoiceNotesDialog({
+  open,
+  onOpenChange,
+  invoice,
+  invoiceNumber,
+  notes,
+  onIssued,
+  onPrint,
+  onExportXml,
+}: InvoiceNotesDialogProps) {
+  const dispatch = useAppDispatch();
+  const { t, formatNumber, formatCurrency, formatDate, localizedName } = useLocale();
+  const [noteType, setNoteType] = useState<InvoiceNoteType>("credit");
+  const [noteDate, setNoteDate] = useState(today());
+  const [reason, setReason] = useState("");
+  const [creditQuantities, setCreditQuantities] = useState<Record<number, string>>({});
+  const [debitLines, setDebitLines] = useState<DebitLineForm[]>([emptyDebitLine()]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setNoteType("credit");
+    setNoteDate(today());
+    setReason("");
+    setCreditQuantities({});
+    setDebitLines([emptyDebitLine()]);
+  }, [open, invoice?.invoice_id]);
+
+  const vatRate = invoice ? invoiceVatRate(invoice) : 0;
+  const lines = useMemo(() => (invoice ? creditableLines(invoice, notes) : []), [invoice, notes]);
+  const leftToCredit = invoice ? adjustedInvoiceTotal(invoice) : 0;
+
+  const noteItems = useMemo<InvoiceNoteItem[]>(() => {
+    if (noteType === "credit") {
+      return lines
+        .map((line) => ({ line, quantity: Number(creditQuantities[line.sourceIndex] || 0) }))
+        .filter(({ quantity }) => quantity > 0)
+        .map(({ line, quantity }) => buildNoteLine(line.description, quantity, line.unitPrice, vatRate, line.sourceIndex));
+    }
+    return debitLines
+      .map((line) => ({ ...line, qty: Number(line.quantity || 0), price: Number(line.unitPrice || 0) }))
+      .filter((line) => line.description.trim() && line.qty > 0 && line.price > 0)
+      .map((line) => buildNoteLine(line.description.trim(), line.qty, line.price, vatRate));
+  }, [noteType, lines, creditQuantities, debitLines, vatRate]);
+
+  const totals = useMemo(
+    () => noteTotals(noteItems, noteType === "credit" ? leftToCredit : undefined),
+    [noteItems, noteType, leftToCredit]
+  );
+
+  const overCredited = lines.some(
+    (line) => Number(creditQuantities[line.sourceIndex] || 0) > line.quantity - line.creditedQuantity + 0.0001
+  );
+
+  const creditEverything = () => {
+    setCreditQuantities(
+      Object.fromEntries(
+        lines.map((line) => [line.sourceIndex, String(Math.max(0, line.quantity - line.creditedQuantity))])
+      )
+    );
+  };
+
+  const updateDebitLine = (id: number, field: keyof Omit<DebitLineForm, "id">, value: string) => {
+    setDebitLines((prev) => prev.map((line) => (line.id === id ? { ...line, [field]: value } : line)));
+  };
+
+  const formatAmount = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const noteLabel = (type: InvoiceNoteType) => localizedName(NOTE_TYPE_LABELS[type].label, NOTE_TYPE_LABELS[type].labelAr);
+
+  const handleIssue = async () => {
+    if (!invoice) return;
+    if (!reason.trim()) {
+      toast.error(t("invoiceNotes.reasonRequired"));
+      return;
+    }
+    if (noteItems.length === 0) {
+      toast.error(noteType === "credit" ? t("invoiceNotes.creditQuantityRequired") : t("invoiceNotes.chargeRequired"));
+      return;
+    }
+    if (noteType === "credit" && (overCredited || totals.total_amount > leftToCredit)) {
+      toast.error(t("invoiceNotes.creditExceeds", { amount: formatCurrency(leftToCredit) }));
+      return;
+    }
+
+    const values: InvoiceNotesInsert = {
+      note_type: noteType,
+      invoice_id: invoice.invoice_id,
+      invoice_reference: invoiceNumber,
+      note_date: noteDate,
+      reason: reason.trim(),
+      note_items: noteItems,
+      subtotal: totals.subtotal,
+      tax_rate: vatRate,
+      tax_amount: totals.tax_amount,
+      total_amount: totals.total_amount,
+      created_by: currentUserId(),
+    };
+
+    setSaving(true);
+    try {
+      const created = (await dispatch(thunks.invoice_notes.createOne(values)).unwrap()) as InvoiceNotes;
+      toast.success(t("invoiceNotes.issued", { note: noteLabel(noteType), number: created.note_number }));
+      onIssued?.(created);
+      setReason("");
+      setCreditQuantities({});
+      setDebitLines([emptyDebitLine()]);
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("invoiceNotes.issueFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("invoiceNotes.title", { number: invoiceNumber })}</DialogTitle>
+          <DialogDescription>{t("invoiceNotes.description")}</DialogDescription>
+        </DialogHeader>
+
+        {invoice && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">{t("invoiceNotes.invoiceTotal")}</div>
+                <div className="font-semibold">{formatCurrency(Number(invoice.total_amount ?? 0))}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">{t("invoiceNotes.creditedDebited")}</div>
+                <div className="font-semibold">
+                  -{formatAmount(Number(invoice.credited_amount ?? 0))} / +{formatAmount(Number(invoice.debited_amount ?? 0))}
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">{t("invoiceNotes.adjustedTotal")}</div>
+                <div className="font-semibold">{formatCurrency(leftToCredit)}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>{t("invoiceNotes.noteType")}</Label>
+                <Select value={noteType} onValueChange={(value) => setNoteType(value as InvoiceNoteType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(NOTE_TYPE_LABELS) as InvoiceNoteType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {noteLabel(type)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="note-date">{t("common.date")}</Label>
+                <Input id="note-date" type="date" value={noteDate} onChange={(e) => setNoteDate(e.target.value)} />
+              </div>
+              <div className="space-y-2 col-span-3">
+                <Label htmlFor="note-reason">{t("invoiceNotes.reasonRequiredLabel")}</Label>
+                <Textarea
+                  id="note-reason"
+                  rows={2}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={noteType === "credit" ? t("invoiceNotes.creditReasonPlaceholder") : t("invoiceNotes.debitReasonPlaceholder")}
+                />
+              </div>
+            </div>
+
+            {noteType === "credit" ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{t("invoiceNotes.linesToCredit")}</Label>
+                  <Button variant="outline" size="sm" onClick={creditEverything} disabled={leftToCredit <= 0}>
+                    {t("invoiceNotes.fullReversal")}
+                  </Button>
+                </div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("quotations.description")}</TableHead>
+                        <TableHead className="text-end">{t("invoiceNotes.invoiced")}</TableHead>
+                        <TableHead className="text-end">{t("invoiceNotes.credited")}</TableHead>
+                        <TableHead className="text-end">{t("invoiceNotes.netUnitPrice")}</TableHead>
+                        <TableHead className="w-32 text-end">{t("invoiceNotes.creditQty")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line) => {
+                        const available = Math.max(0, line.quantity - line.creditedQuantity);
+                        return (
+                          <TableRow key={line.sourceIndex}>
+                            <TableCell>{line.description}</TableCell>
+                            <TableCell className="text-end">{line.quantity}</TableCell>
+                            <TableCell className="text-end">{line.creditedQuantity || "-"}</TableCell>
+                            <TableCell className="text-end">{formatAmount(line.unitPrice)}</TableCell>
+                            <TableCell className="text-end">
+                              <Input
+                                type="number"
+                                min="0"
+                                max={available}
+                                step="any"
+                                className="h-8 text-end"
+                                disabled={available <= 0}
+                                value={creditQuantities[line.sourceIndex] ?? ""}
+                                onChange={(e) =>
+                                  setCreditQuantities((prev) => ({ ...prev, [line.sourceIndex]: e.target.value }))
+                                }
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+                {overCredited && (
+                  <p className="text-sm text-red-600">{t("invoiceNotes.overCredited")}</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{t("invoiceNotes.charges")}</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => setDebitLines((prev) => [...prev, emptyDebitLine()])}
+                  >
+                    <Plus className="h-4 w-4" />
+                    {t("invoiceNotes.addLine")}
+                  </Button>
+                </div>
+                {debitLines.map((line) => (
+                  <div key={line.id} className="grid grid-cols-12 gap-2">
+                    <Input
+                      className="col-span-7"
+                      placeholder={t("quotations.description")}
+                      value={line.description}
+                      onChange={(e) => updateDebitLine(line.id, "description", e.target.value)}
+                    />
+                    <Input
+                      className="col-span-2"
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder={t("quotations.qty")}
+                      value={line.quantity}
+                      onChange={(e) => updateDebitLine(line.id, "quantity", e.target.value)}
+                    />
+                    <Input
+                      className="col-span-2"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={t("quotations.unitPrice")}
+                      value={line.unitPrice}
+                      onChange={(e) => updateDebitLine(line.id, "unitPrice", e.target.value)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-1"
+                      disabled={debitLines.length === 1}
+                      onClick={() => setDebitLines((prev) => prev.filter((row) => row.id !== line.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-end justify-between gap-4">
+              <div className="text-sm space-y-1">
+                <div>{t("invoiceNotes.subtotal", { amount: formatCurrency(totals.subtotal) })}</div>
+                <div>{t("invoiceNotes.vat", { rate: Math.round(vatRate * 100), amount: formatCurrency(totals.tax_amount) })}</div>
+                <div className="font-semibold">
+                  {t("invoiceNotes.noteTotal", { note: noteLabel(noteType), amount: formatCurrency(totals.total_amount) })}
+                </div>
+              </div>
+              <Button onClick={() => void handleIssue()} disabled={saving || noteItems.length === 0}>
+                {saving ? t("invoiceNotes.issuing") : t("invoiceNotes.issue", { note: noteLabel(noteType) })}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("invoiceNotes.issuedNotes")}</Label>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("invoiceNotes.number")}</TableHead>
+                      <TableHead>{t("invoices.type")}</TableHead>
+                      <TableHead>{t("common.date")}</TableHead>
+                      <TableHead>{t("invoiceNotes.reason")}</TableHead>
+                      <TableHead className="text-end">{t("common.total")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {notes.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                          {t("invoiceNotes.empty")}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      notes.map((note) => (
+                        <TableRow key={note.note_id}>
+                          <TableCell className="font-medium">{note.note_number}</TableCell>
+                          <TableCell>
+                            <Badge variant={note.note_type === "credit" ? "secondary" : "outline"}>
+                              {noteLabel(note.note_type)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{formatDate(note.note_date)}</TableCell>
+                          <TableCell className="max-w-[220px] truncate" title={note.reason}>
+                            {note.reason}
+                          </TableCell>
+                          <TableCell className="text-end">
+                            {note.note_type === "credit" ? "-" : "+"}
+                            {formatAmount(Number(note.total_amount ?? 0))}
+                          </TableCell>
+                          <TableCell className="text-end">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="outline" size="sm" title={t("common.print")} onClick={() => onPrint(note)}>
+                                <Printer className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={t("invoices.exportXml")}
+                                onClick={() => onExportXml(note)}
+                              >
+                                <FileText className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,7 @@
 ﻿import { useState, useRef, useEffect, useMemo, useCallback } from "react";
-import { Plus, Search, Printer, Download, Eye, X, Trash2, Upload, DollarSign, CreditCard, Wallet, Settings, Calendar, Copy, Edit, FileText } from "lucide-react";
+import { Plus, Search, Printer, Download, Eye, X, Trash2, Upload, DollarSign, CreditCard, Wallet, Settings, Calendar, Copy, Edit, FileText, FileMinus } from "lucide-react";
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
-import QRCode from "qrcode";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
@@ -16,6 +15,7 @@ import { Textarea } from "./ui/textarea";
 import { Separator } from "./ui/separator";
 import { Switch } from "./ui/switch";
 import { Skeleton } from "./ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import type { InventoryItem } from "./Inventory";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { CustomerSelector } from "./CustomerSelector";
@@ -25,16 +25,35 @@ import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Customers } from "../../supabase/models/customers";
 import type { Invoices as InvoicesRow } from "../../supabase/models/invoices";
 import type { Payments as PaymentRow } from "../../supabase/models/payments";
+import type { InvoiceNotes as InvoiceNoteRow, InvoiceNoteType } from "../../supabase/models/invoice_notes";
 import { getPrintLogo } from "../lib/getPrintLogo";
 import { getCompanyInfo, getCompanyName } from "../lib/companyInfo";
+import { buildZatcaQrFields, generateZatcaQrDataUrl } from "../lib/zatcaQr";
+import { buildZatcaInvoiceInput, buildZatcaNoteInput, buildZatcaSellerParty, issueZatcaDocument } from "../lib/zatcaEInvoice";
+import { NOTE_TYPE_LABELS, groupNotesByInvoice, isInvoiceLocked } from "../lib/invoiceNotes";
+import { readContractDetails } from "../lib/contractRecords";
+import { InvoiceNotesDialog } from "./InvoiceNotesDialog";
+import { RecordHistory } from "./RecordHistory";
+import { postInvoiceStockMovements } from "../lib/stockLedger";
+import {
+  adoptLegacyAutoInvoiceSettings,
+  fetchRecurringBillingSettings,
+  updateRecurringBillingSettings,
+} from "../lib/recurringBilling";
+import type { RecurringBillingSettingsUpdate } from "../../supabase/models/recurring_billing";
 import { uploadFile, getFilesByOwner, getFileUrl } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { supabase } from "../lib/supabaseClient";
+import { downloadDocumentPdf } from "../lib/documentPdf";
+import { markQuotationConverted } from "../lib/quotations";
+import { useRecordRoute } from "../lib/router";
+import { translateCurrent, useLocale } from "../lib/i18n";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 
 interface InvoiceItem {
   id: number;
   inventoryItem?: InventoryItem;
+  productCode?: string | null; // inventory.product_code when picked from inventory
   isManual: boolean;
   image?: string;
   description: string;
@@ -78,6 +97,14 @@ interface Invoice {
   grandTotal: number;
   paidAmount: number;
   remainingAmount: number;
+  creditedAmount: number; // Credit notes issued against the invoice
+  debitedAmount: number; // Debit notes issued against the invoice
+  isLocked: boolean; // Paid or corrected: changed only through notes
+  noteDocument?: { // Set when a credit/debit note is printed in the invoice layout
+    type: InvoiceNoteType;
+    originalInvoiceNumber: string;
+    reason: string;
+  };
   status: "paid" | "partial" | "draft";
   invoiceType: InvoiceType;
   contractId?: string | null;
@@ -108,6 +135,8 @@ const PAYMENT_METHOD_OPTIONS = [
   { value: "cheque", label: "📝 Cheque - شيك" },
 ] as const;
 
+type PaymentMethod = (typeof PAYMENT_METHOD_OPTIONS)[number]["value"];
+
 const PAYMENT_METHOD_VALUES = new Set<string>(PAYMENT_METHOD_OPTIONS.map((option) => option.value));
 
 const PAYMENT_METHOD_LABELS = PAYMENT_METHOD_OPTIONS.reduce<Record<string, string>>((acc, option) => {
@@ -115,17 +144,16 @@ const PAYMENT_METHOD_LABELS = PAYMENT_METHOD_OPTIONS.reduce<Record<string, strin
   return acc;
 }, {});
 
-// Automatic invoicing settings keys
-const AUTO_INVOICE_ENABLED_KEY = 'autoInvoiceEnabled';
-const AUTO_INVOICE_TIMING_KEY = 'autoInvoiceTiming'; // 'visit_date' or '7_days_before'
-
 export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: InvoicesProps) {
   const dispatch = useAppDispatch();
+  const { t, formatNumber, formatCurrency, formatDate, localizedName } = useLocale();
   const dbCustomers = useAppSelector(selectors.customers.selectAll) as Customers[];
   const customersLoading = useAppSelector(selectors.customers.selectLoading);
   const dbInventory = useAppSelector(selectors.inventory.selectAll) as any[];
   const dbPayments = useAppSelector(selectors.payments.selectAll) as PaymentRow[];
   const paymentsLoading = useAppSelector(selectors.payments.selectLoading);
+  const dbInvoiceNotes = useAppSelector(selectors.invoice_notes.selectAll) as InvoiceNoteRow[];
+  const notesByInvoice = useMemo(() => groupNotesByInvoice(dbInvoiceNotes), [dbInvoiceNotes]);
 
   // Automatic invoicing settings
   const [sortOrder, setSortOrder] = useState<"desc" | "asc">("desc"); // Default to descending (newest first)
@@ -205,7 +233,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       if (context?.previousInvoices) {
         queryClient.setQueryData(['invoices', sortOrder], context.previousInvoices);
       }
-      toast.error('Failed to create invoice');
+      toast.error(t("invoices.createFailed"));
     },
     onSettled: () => {
       // Always refetch after error or success to ensure server state
@@ -217,6 +245,19 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
   const updateInvoiceMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: any }) => {
       const result = await dispatch(thunks.invoices.updateOne({ id, values: data })).unwrap();
+      // Edited lines move stock by the difference from what the invoice already issued
+      if (data.invoice_items !== undefined) {
+        const invoice = result as InvoicesRow;
+        try {
+          const { movements } = await postInvoiceStockMovements(invoice, invoice.invoice_number);
+          if (movements.length > 0) {
+            dispatch(thunks.inventory.fetchAll(undefined));
+          }
+        } catch (stockError) {
+          console.error('Failed to resync invoice stock movements', stockError);
+          toast.error(t("invoices.stockNotResynced", { number: invoice.invoice_number }));
+        }
+      }
       return result;
     },
     onMutate: async ({ id, data }) => {
@@ -237,21 +278,29 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       if (context?.previousInvoices) {
         queryClient.setQueryData(['invoices', sortOrder], context.previousInvoices);
       }
-      toast.error('Failed to update invoice');
+      toast.error(t("invoices.updateFailed"));
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
     },
   });
 
-  const [autoInvoiceEnabled, setAutoInvoiceEnabled] = useState(() => {
-    const stored = localStorage.getItem(AUTO_INVOICE_ENABLED_KEY);
-    return stored === 'true';
-  });
-  const [autoInvoiceTiming, setAutoInvoiceTiming] = useState<'visit_date' | '7_days_before'>(() => {
-    const stored = localStorage.getItem(AUTO_INVOICE_TIMING_KEY);
-    return (stored === '7_days_before' ? '7_days_before' : 'visit_date') as 'visit_date' | '7_days_before';
+  // Automatic invoicing runs on the server (recurring-billing); these are its shared settings
+  const { data: billingSettings } = useQuery({
+    queryKey: ['recurring_billing_settings'],
+    queryFn: async () => adoptLegacyAutoInvoiceSettings(await fetchRecurringBillingSettings()),
   });
+  const autoInvoiceEnabled = billingSettings?.auto_invoice_enabled ?? false;
+  const autoInvoiceTiming = billingSettings?.auto_invoice_timing ?? 'visit_date';
+
+  const saveBillingSettings = async (values: RecurringBillingSettingsUpdate) => {
+    try {
+      const saved = await updateRecurringBillingSettings(values);
+      queryClient.setQueryData(['recurring_billing_settings'], saved);
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("invoices.billingSettingsFailed"));
+    }
+  };
 
   // Update query when sort order changes
   useEffect(() => {
@@ -277,7 +326,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       }
     } catch (error) {
       console.error('Error loading more invoices:', error);
-      toast.error('Failed to load more invoices');
+      toast.error(translateCurrent("invoices.loadMoreFailed"));
     } finally {
       setIsLoadingMore(false);
     }
@@ -312,7 +361,8 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       const invoiceDate = invoice.invoice_date ?? invoice.created_at ?? null;
       const year = invoiceDate ? new Date(invoiceDate).getFullYear() : new Date().getFullYear();
       map.set(invoice.invoice_id, {
-        invoiceNumber: `INV-${year}-${String(index + 1).padStart(3, "0")}`,
+        // Assigned by the database on insert; the fallback only covers optimistic rows
+        invoiceNumber: invoice.invoice_number || `INV-${year}-${String(index + 1).padStart(3, "0")}`,
         sequence: index + 1,
         invoiceYear: year,
       });
@@ -381,7 +431,8 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
         return {
           id: itemIdx + 1,
           inventoryItem: undefined,
-          isManual: true,
+          productCode: item.productCode ?? null,
+          isManual: !item.productCode,
           image: item.image,
           description: item.description || "",
           quantity: qty,
@@ -456,17 +507,21 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       );
       let paidAmount =
         paymentsSum > 0 ? paymentsSum : Number(dbInv.paid_amount ?? 0);
-      if (totalAmount > 0 && paidAmount - totalAmount > 0.0001) {
-        paidAmount = totalAmount;
+      // Credit and debit notes change what is due without touching the invoice itself
+      const creditedAmount = Number(dbInv.credited_amount ?? 0);
+      const debitedAmount = Number(dbInv.debited_amount ?? 0);
+      const dueAmount = Math.max(0, totalAmount + debitedAmount - creditedAmount);
+      if (totalAmount > 0 && paidAmount - dueAmount > 0.0001) {
+        paidAmount = dueAmount;
       }
-      const remainingAmount = Math.max(0, totalAmount - paidAmount);
+      const remainingAmount = Math.max(0, dueAmount - paidAmount);
       // Round remaining amount to 2 decimal places and treat very small amounts as 0
       const roundedRemaining = Number(remainingAmount.toFixed(2));
       const displayRemaining = roundedRemaining <= 0.01 ? 0 : roundedRemaining;
 
       let status: "paid" | "partial" | "draft" = "draft";
       // Use same threshold for consistency - 0.01 to handle floating point precision
-      if (displayRemaining <= 0.01 || paidAmount >= totalAmount - 0.01) {
+      if (displayRemaining <= 0.01 || paidAmount >= dueAmount - 0.01) {
         status = "paid";
       } else if (paidAmount > 0) {
         status = "partial";
@@ -533,6 +588,9 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
         grandTotal: totalAmount,
         paidAmount,
         remainingAmount: displayRemaining,
+        creditedAmount,
+        debitedAmount,
+        isLocked: isInvoiceLocked(dbInv, relatedPayments.length),
         status,
         invoiceType,
         contractId: dbInv.contract_id || null,
@@ -558,18 +616,72 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [isEditingInvoice, setIsEditingInvoice] = useState(false);
   const [editingInvoiceDate, setEditingInvoiceDate] = useState("");
+  const [notesInvoice, setNotesInvoice] = useState<Invoice | null>(null);
   const isDataLoading = invoicesLoading || customersLoading || paymentsLoading;
 
+  // The preview dialog follows the URL (/invoices/<id>), so invoice links open it
+  const { recordId: linkedInvoiceId, openRecord: openInvoice, closeRecord: closeInvoice } = useRecordRoute("invoices");
+  useEffect(() => {
+    if (!linkedInvoiceId) {
+      setIsViewDialogOpen(false);
+      return;
+    }
+    if (invoicesLoading) return;
+
+    const invoice = invoices.find((inv) => inv.dbInvoiceId === linkedInvoiceId);
+    if (invoice) {
+      setSelectedInvoice(invoice);
+      setIsViewDialogOpen(true);
+      return;
+    }
+
+    // Linked invoices can be older than the loaded page
+    let cancelled = false;
+    void supabase
+      .from("invoices")
+      .select("*")
+      .eq("invoice_id", linkedInvoiceId)
+      .is("deleted_at", null)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error || !data) {
+          toast.error(translateCurrent("invoices.notFound"));
+          closeInvoice();
+          return;
+        }
+        queryClient.setQueryData(["invoices", sortOrder], (old: InvoicesRow[] = []) => [...old, data as InvoicesRow]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedInvoiceId, invoices, invoicesLoading, queryClient, sortOrder, closeInvoice]);
+
   // Load secondary data (payments) when needed
   const loadSecondaryData = useCallback(async () => {
     try {
       await dispatch(thunks.payments.fetchAll(undefined)).unwrap();
     } catch (error) {
       console.error('Error loading payments data:', error);
-      toast.error(`Failed to load payments data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(
+        translateCurrent("invoices.paymentsLoadFailed", {
+          message: error instanceof Error ? error.message : translateCurrent("common.unknownError"),
+        })
+      );
     }
   }, [dispatch]);
 
+  useEffect(() => {
+    dispatch(thunks.invoice_notes.fetchAll(undefined));
+  }, [dispatch]);
+
+  // Products for "Add from Inventory" lines
+  useEffect(() => {
+    if (isCreateDialogOpen && dbInventory.length === 0) {
+      dispatch(thunks.inventory.fetchAll(undefined));
+    }
+  }, [isCreateDialogOpen, dbInventory.length, dispatch]);
+
   // Load secondary data when payment dialog opens
   useEffect(() => {
     if (isPaymentDialogOpen && dbPayments.length === 0) {
@@ -593,6 +705,8 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
   }, [dbCustomers]);
   const [selectedCustomerId, setSelectedCustomerId] = useState<number | undefined>();
   const [selectedCustomerDbId, setSelectedCustomerDbId] = useState<string | undefined>();
+  // Quotation being converted, linked to the invoice when it is saved
+  const [sourceQuotation, setSourceQuotation] = useState<{ id: string; number: string; delegateId: string | null } | null>(null);
 
   // Fetch contracts for monthly visit invoices
   const dbContracts = useAppSelector(selectors.contracts.selectAll) as any[];
@@ -723,6 +837,20 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
   useEffect(() => {
     if (pendingQuotationData) {
       // Fill form with quotation data
+      const customerIdx = pendingQuotationData.customerId
+        ? dbCustomers.findIndex(c => c.customer_id === pendingQuotationData.customerId)
+        : -1;
+      setSelectedCustomerId(customerIdx >= 0 ? customerIdx + 1 : undefined);
+      setSelectedCustomerDbId(customerIdx >= 0 ? pendingQuotationData.customerId : undefined);
+      setSourceQuotation(
+        pendingQuotationData.sourceQuotationId
+          ? {
+              id: pendingQuotationData.sourceQuotationId,
+              number: pendingQuotationData.quotationNumber,
+              delegateId: pendingQuotationData.delegateId ?? null,
+            }
+          : null
+      );
       setCustomerName(pendingQuotationData.customerName || "");
       setMobile(pendingQuotationData.mobile || "");
       setLocation(pendingQuotationData.location || "");
@@ -752,14 +880,20 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       setIsCreateDialogOpen(true);
       
       // Show success message
-      toast.success(`Quotation ${pendingQuotationData.quotationNumber} loaded. Complete invoice details below.`);
+      toast.success(translateCurrent("invoices.quotationLoaded", { number: pendingQuotationData.quotationNumber }));
       
       // Clear the pending data
       if (onQuotationDataConsumed) {
         onQuotationDataConsumed();
       }
     }
-  }, [pendingQuotationData, onQuotationDataConsumed]);
+  }, [pendingQuotationData, onQuotationDataConsumed, dbCustomers]);
+
+  // A quotation is only linked to the invoice created from it
+  const handleCreateDialogOpenChange = (open: boolean) => {
+    setIsCreateDialogOpen(open);
+    if (!open) setSourceQuotation(null);
+  };
 
   const filteredInvoices = invoices.filter(invoice => {
     const matchesSearch = 
@@ -814,13 +948,13 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
 
       if (logoUrl) {
         setCompanyLogo(logoUrl);
-        toast.success("Logo uploaded successfully");
+        toast.success(t("quotations.logoUploaded"));
       } else {
-        toast.error("Logo uploaded but URL retrieval failed");
+        toast.error(t("quotations.logoUrlFailed"));
       }
     } catch (error: any) {
       console.error('Error uploading logo:', error);
-      toast.error(error.message || 'Failed to upload logo');
+      toast.error(error.message || t("quotations.logoUploadFailed"));
     }
   };
 
@@ -868,13 +1002,13 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       if (stampUrl) {
         setStamp(stampUrl);
         setIsStampRemoved(false);
-        toast.success("Stamp uploaded successfully");
+        toast.success(t("quotations.stampUploaded"));
       } else {
-        toast.error("Stamp uploaded but URL retrieval failed");
+        toast.error(t("quotations.stampUrlFailed"));
       }
     } catch (error: any) {
       console.error('Error uploading stamp:', error);
-      toast.error(error.message || 'Failed to upload stamp');
+      toast.error(error.message || t("quotations.stampUploadFailed"));
     }
   };
 
@@ -884,7 +1018,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       const reader = new FileReader();
       reader.onloadend = () => {
         updateItemImage(itemId, reader.result as string);
-        toast.success("Image uploaded successfully");
+        toast.success(t("quotations.imageUploaded"));
       };
       reader.readAsDataURL(file);
     }
@@ -944,7 +1078,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       vat: 0,
       total: 0
     }]);
-    toast.success("Manual item added");
+    toast.success(t("quotations.manualItemAdded"));
   };
 
   const addInventoryItem = () => {
@@ -963,7 +1097,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       vat: 0,
       total: 0
     }]);
-    toast.success("Inventory item added - please select from dropdown");
+    toast.success(t("quotations.inventoryItemAdded"));
   };
 
   const removeItem = (id: number) => {
@@ -1004,26 +1138,26 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
     }));
   };
 
-  const loadItemFromInventory = (id: number, inventoryId: string) => {
-    const inventoryItem = dbInventory.find(item => item.id === parseInt(inventoryId));
+  const loadItemFromInventory = (id: number, productCode: string) => {
+    const inventoryItem = dbInventory.find(item => item.product_code === productCode);
     if (!inventoryItem) return;
 
     setItems(items.map(item => {
       if (item.id === id) {
         const updated = {
           ...item,
-          inventoryItem,
+          productCode: inventoryItem.product_code,
           isManual: false,
-          image: inventoryItem.image,
-          description: inventoryItem.name,
-          unitPrice: inventoryItem.unitPrice
+          image: inventoryItem.prod_img || item.image,
+          description: inventoryItem.en_prod_name || inventoryItem.ar_prod_name || "",
+          unitPrice: Number(inventoryItem.prod_selling_price ?? 0)
         };
         const totals = calculateItemTotals(updated, vatEnabled);
         return { ...updated, ...totals };
       }
       return item;
     }));
-    toast.success("Product loaded from inventory");
+    toast.success(t("quotations.productLoaded"));
   };
 
   const loadMoreInventory = (searchTerm: string) => {
@@ -1176,6 +1310,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
   const resetForm = () => {
     setSelectedCustomerId(undefined);
     setSelectedCustomerDbId(undefined);
+    setSourceQuotation(null);
     setInvoiceType("normal");
     setSelectedContractId(null);
     setContractPlanAmount(null);
@@ -1281,10 +1416,14 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
     // Open the create dialog
     setIsCreateDialogOpen(true);
     
-    toast.success(`Invoice ${invoice.invoiceNumber} copied. Review and create as new invoice.`);
+    toast.success(t("invoices.copied", { number: invoice.invoiceNumber }));
   };
 
   const editInvoice = (invoice: Invoice) => {
+    if (invoice.isLocked) {
+      toast.error(t("invoices.locked", { number: invoice.invoiceNumber }));
+      return;
+    }
     setSelectedInvoice(invoice);
     setEditingInvoiceDate(invoice.date);
     setIsEditDialogOpen(true);
@@ -1292,7 +1431,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
 
   const updateInvoiceDate = async () => {
     if (!selectedInvoice || !editingInvoiceDate) {
-      toast.error("Please select a valid date");
+      toast.error(t("invoices.validDate"));
       return;
     }
 
@@ -1304,7 +1443,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       );
 
       if (!dbInvoice) {
-        toast.error("Invoice not found");
+        toast.error(t("invoices.notFound"));
         return;
       }
 
@@ -1318,13 +1457,13 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       });
 
       // No need to refetch - optimistic mutation handles UI updates automatically
-      toast.success("Invoice date updated successfully!");
+      toast.success(t("invoices.dateUpdated"));
       setIsEditDialogOpen(false);
       setSelectedInvoice(null);
       setEditingInvoiceDate("");
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to update invoice date";
+        error?.message || error?.error?.message || t("invoices.dateUpdateFailed");
       toast.error(message);
     } finally {
       setIsEditingInvoice(false);
@@ -1337,41 +1476,40 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
     try {
       // Validation checks first
       if (!customerName.trim()) {
-        toast.error("Please enter customer name");
+        toast.error(t("quotations.customerNameRequired"));
         return;
       }
       if (!mobile.trim()) {
-        toast.error("Please enter mobile number");
+        toast.error(t("quotations.mobileRequired"));
         return;
       }
       // Validate items - for monthly visit invoices, items are auto-created from contract
       if (invoiceType === "normal" && items.every(item => !item.description.trim())) {
-        toast.error("Please add at least one item with description");
+        toast.error(t("quotations.itemRequired"));
         return;
       }
       
       // For monthly visit invoices, ensure we have items (should be auto-created from contract)
       if (invoiceType === "monthly_visit" && items.every(item => !item.description.trim())) {
-        toast.error("Please select a contract to generate invoice items");
+        toast.error(t("invoices.contractItemsRequired"));
         return;
       }
 
-      // Additional validation before database operations
-      const invoiceNumber = `INV-${new Date().getFullYear()}-${String(invoices.length + 1).padStart(3, '0')}`;
-      
       const paid = parseFloat(paidAmount) || 0;
       
       // For monthly visit invoices, ensure grand total matches contract plan amount
       let finalGrandTotal = totals.grandTotal;
+      let finalTotalVAT = totals.totalVAT;
       if (invoiceType === "monthly_visit" && contractPlanAmount !== null) {
         const subtotal = contractPlanAmount;
         const totalVAT = vatEnabled ? subtotal * VAT_RATE : 0;
         finalGrandTotal = subtotal + totalVAT;
+        finalTotalVAT = totalVAT;
       }
       
       // Validate paid amount doesn't exceed grand total
       if (paid > finalGrandTotal) {
-        toast.error(`Paid amount cannot exceed grand total of ${finalGrandTotal.toFixed(2)} ر.س`);
+        toast.error(t("invoices.paidExceedsTotal", { amount: formatCurrency(finalGrandTotal) }));
         return;
       }
       
@@ -1390,29 +1528,29 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       if (discountMode === "global") {
         const globalDiscountAmountNum = parseFloat(globalDiscountAmount) || 0;
         if (globalDiscountAmountNum < 0) {
-          toast.error("Discount amount cannot be negative");
+          toast.error(t("quotations.discountNegative"));
           return;
         }
         if (globalDiscountType === "percentage" && (globalDiscountAmountNum > 100 || globalDiscountAmountNum < 0)) {
-          toast.error("Discount percentage must be between 0 and 100");
+          toast.error(t("quotations.discountPercentRange"));
           return;
         }
         const totals = calculateInvoiceTotals();
         if (globalDiscountType === "fixed" && globalDiscountAmountNum > totals.totalBeforeDiscount) {
-          toast.error("Fixed discount cannot exceed total subtotal");
+          toast.error(t("quotations.fixedDiscountTooHigh"));
           return;
         }
       } else {
         // Validate individual item discounts
         for (const item of items) {
           if (item.discountType === "percentage" && (item.discountPercent < 0 || item.discountPercent > 100)) {
-            toast.error(`Item "${item.description || 'Untitled'}" has invalid discount percentage`);
+            toast.error(t("quotations.itemDiscountInvalid", { item: item.description || t("quotations.untitled") }));
             return;
           }
           if (item.discountType === "fixed") {
             const itemSubtotal = item.quantity * item.unitPrice;
             if (item.discountAmount < 0 || item.discountAmount > itemSubtotal) {
-              toast.error(`Item "${item.description || 'Untitled'}" discount cannot exceed subtotal`);
+              toast.error(t("quotations.itemDiscountTooHigh", { item: item.description || t("quotations.untitled") }));
               return;
             }
           }
@@ -1422,28 +1560,35 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       // Validate contract selection and visit date for monthly visit invoices
       if (invoiceType === "monthly_visit") {
         if (!selectedContractId) {
-          toast.error("Please select a contract for monthly visit invoice");
+          toast.error(t("invoices.contractRequired"));
           return;
         }
         if (!visitDate) {
-          toast.error("Please select the visit date for monthly visit invoice");
+          toast.error(t("invoices.visitDateRequired"));
           return;
         }
       }
 
-      // Generate QR code
-      const qrData = `Invoice: ${invoiceNumber}\nCustomer: ${customerName.trim()}\nTotal: SAR ${finalGrandTotal.toFixed(2)}\nVAT: ${taxNumber}`;
+      // Generate ZATCA QR code
       let qrCode = "";
       
       try {
-        qrCode = await QRCode.toDataURL(qrData);
+        const companyInfo = await getCompanyInfo();
+        qrCode = await generateZatcaQrDataUrl(
+          buildZatcaQrFields(companyInfo, {
+            total_amount: finalGrandTotal,
+            tax_amount: finalTotalVAT,
+            invoice_date: invoiceDate,
+            created_at: new Date().toISOString(),
+          })
+        );
       } catch (err) {
         console.error("QR Code generation error:", err);
       }
 
     const newInvoice: Invoice = {
       id: invoices.length + 1,
-      invoiceNumber,
+      invoiceNumber: "", // Assigned by the database when the row is inserted
       date: invoiceDate,
       customerName: customerName.trim(),
       mobile: mobile.trim(),
@@ -1464,6 +1609,9 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       grandTotal: finalGrandTotal,
       paidAmount: paid,
       remainingAmount: remaining,
+      creditedAmount: 0,
+      debitedAmount: 0,
+      isLocked: paid > 0,
       status,
       invoiceType,
       contractId: invoiceType === "monthly_visit" ? selectedContractId : null,
@@ -1477,13 +1625,13 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       
       // Validate customer_id is present
       if (!selectedCustomerDbId && (!dbCustomers || dbCustomers.length === 0)) {
-        toast.error("Please select a customer before creating an invoice");
+        toast.error(t("invoices.customerRequired"));
         return;
       }
 
       const customerId = selectedCustomerDbId || dbCustomers[0]?.customer_id;
       if (!customerId) {
-        toast.error("Customer ID is required");
+        toast.error(t("invoices.customerIdRequired"));
         return;
       }
 
@@ -1492,6 +1640,7 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       // Clean invoice items - remove non-serializable properties and only keep what's needed
       const cleanedItems = newInvoice.items.map(item => ({
         id: item.id,
+        productCode: item.productCode || null,
         description: item.description,
         quantity: item.quantity,
         unitPrice: item.unitPrice,
@@ -1526,10 +1675,24 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
         // Store discount info if applicable
         discount_type: discountMode === "global" ? globalDiscountType : null,
         discount_amount: discountMode === "global" && parseFloat(globalDiscountAmount) > 0 ? parseFloat(globalDiscountAmount) : null,
+        ...(sourceQuotation ? { source_quotation_id: sourceQuotation.id, delegate_id: sourceQuotation.delegateId } : {}),
       };
       
       const created = await createInvoiceMutation.mutateAsync(insertPayload);
       const createdId = (created as any)?.invoice_id as string | undefined;
+      const issuedNumber = (created as InvoicesRow | undefined)?.invoice_number ?? "";
+      if (createdId) {
+        // Issue stock for lines picked from inventory
+        try {
+          const { movements } = await postInvoiceStockMovements(created as InvoicesRow, issuedNumber);
+          if (movements.length > 0) {
+            dispatch(thunks.inventory.fetchAll(undefined));
+          }
+        } catch (stockError) {
+          console.error('Failed to post invoice stock movements', stockError);
+          toast.error(t("invoices.stockNotUpdated", { number: issuedNumber }));
+        }
+      }
       if (createdId && tempBrandingOwnerId) {
         await supabase
           .from('file_metadata')
@@ -1537,16 +1700,25 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
           .eq('owner_type', 'invoice')
           .eq('owner_id', tempBrandingOwnerId);
       }
+      if (createdId && sourceQuotation) {
+        try {
+          await markQuotationConverted(sourceQuotation.id, { invoiceId: createdId });
+          dispatch(thunks.quotations.fetchAll({ orderBy: 'created_at.desc' }));
+        } catch (quotationError) {
+          console.error('Failed to link the quotation to the invoice', quotationError);
+          toast.error(t("invoices.quotationNotConverted", { number: sourceQuotation.number }));
+        }
+      }
       // No need to refetch - optimistic mutation handles UI updates automatically
 
       resetForm();
       setIsCreateDialogOpen(false);
 
-      toast.success(`Invoice ${invoiceNumber} created successfully!`);
+      toast.success(t("invoices.created", { number: issuedNumber }));
     } catch (err: any) {
       console.error('Failed to persist invoice', err);
-      const errorMessage = err?.message || err?.error?.message || 'Unknown error occurred';
-      toast.error(`Failed to save invoice: ${errorMessage}`);
+      const errorMessage = err?.message || err?.error?.message || t("common.unknownError");
+      toast.error(t("invoices.saveFailed", { message: errorMessage }));
     } finally {
       setIsCreatingInvoice(false);
     }
@@ -1571,23 +1743,45 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
     return () => document.removeEventListener('mousedown', onMouseDown);
   }, [openPrintOptionsInvoiceId]);
 
-  const printInvoice = async (invoice: Invoice, includeImagesOverride?: boolean) => {
-    const includeImages = includeImagesOverride ?? printIncludeImages;
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow popups to print invoices");
+  const exportZatcaXml = async (invoice: Invoice) => {
+    const dbRow = dbInvoices.find((inv) => inv.invoice_id === invoice.dbInvoiceId);
+    if (!dbRow) {
+      toast.error(t("invoices.saveBeforeExport"));
       return;
     }
 
+    try {
+      const companyInfo = await getCompanyInfo();
+      const customer = dbCustomers.find((c) => c.customer_id === dbRow.customer_id) ?? null;
+      const input = buildZatcaInvoiceInput(dbRow, customer, buildZatcaSellerParty(companyInfo), {
+        invoiceNumber: invoice.invoiceNumber,
+      });
+      const signed = await issueZatcaDocument(dbRow.invoice_id, input);
+
+      const blob = new Blob([signed.xml], { type: 'application/xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${invoice.invoiceNumber}.xml`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(t("invoices.eInvoiceExported", { counter: signed.counter }));
+    } catch (error) {
+      console.error("ZATCA export error:", error);
+      toast.error(error instanceof Error ? error.message : t("invoices.eInvoiceExportFailed"));
+    }
+  };
+
+  // The invoice as printed: also the source of its PDF
+  const buildInvoiceHTML = async (invoice: Invoice, includeImages: boolean) => {
     // Get company info for dynamic company name
     const companyInfo = await getCompanyInfo();
     const companyName = getCompanyName(companyInfo); // English name only
     const companyNameAr = companyInfo?.company_name_ar || '';
-    // Get additional company fields from localStorage (for tax number, commercial reg, etc.)
-    const companyTaxNumber = localStorage.getItem('companyTaxNumber') || '';
-    const companyCommercialReg = localStorage.getItem('companyCommercialReg') || '';
-    const companyAddress = localStorage.getItem('companyAddress') || '';
-    const companyCityPostal = localStorage.getItem('companyCityPostal') || '';
+    const companyTaxNumber = companyInfo?.company_tax_number || '';
+    const companyCommercialReg = companyInfo?.company_commercial_register || '';
+    const companyAddress = companyInfo?.company_address || '';
+    const companyCityPostal = companyInfo?.company_city_postal || '';
 
     const resolveOwnerFileUrl = async (
       ownerId: string | undefined,
@@ -1660,30 +1854,32 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       }
     }
 
-    // Generate QR code with data URL
+    // Generate ZATCA QR code (seller, VAT number, timestamp, totals) from the stored invoice row
     let qrCode = "";
     try {
-      // Use simple text data instead of HTML to avoid QR code size limits
-      const simpleData = `Invoice: ${invoice.invoiceNumber}\nDate: ${new Date(invoice.date).toLocaleDateString('en-GB')}\nCustomer: ${invoice.customerName}\nTotal: SAR ${invoice.grandTotal.toFixed(2)}`;
-      qrCode = await QRCode.toDataURL(simpleData, {
-        errorCorrectionLevel: 'H',
-        margin: 1,
-        width: 300
-      });
+      const dbRow = invoice.dbInvoiceId
+        ? dbInvoices.find((inv) => inv.invoice_id === invoice.dbInvoiceId)
+        : undefined;
+      qrCode = await generateZatcaQrDataUrl(
+        buildZatcaQrFields(
+          companyInfo,
+          invoice.noteDocument
+            ? { total_amount: invoice.grandTotal, tax_amount: invoice.totalVAT, invoice_date: invoice.date, created_at: null }
+            : {
+                total_amount: dbRow?.total_amount ?? invoice.grandTotal,
+                tax_amount: dbRow?.tax_amount ?? invoice.totalVAT,
+                invoice_date: dbRow?.invoice_date ?? invoice.date,
+                created_at: dbRow?.created_at ?? null,
+              }
+        )
+      );
     } catch (err) {
       console.error("QR Code generation error:", err);
-      // Fallback: generate an even simpler QR code
-      try {
-        const minimalData = `INV:${invoice.invoiceNumber}|${invoice.grandTotal.toFixed(2)}`;
-        qrCode = await QRCode.toDataURL(minimalData);
-      } catch (fallbackErr) {
-        console.error("QR Code fallback generation error:", fallbackErr);
-      }
     }
 
     // Generate HTML with logo and QR code - always use invoice date for printing
     const displayDate = invoice.date;
-    const invoiceHTML = generateInvoiceHTML(
+    return generateInvoiceHTML(
       invoice,
       logoToUse,
       qrCode,
@@ -1696,7 +1892,17 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
       companyAddress,
       companyCityPostal
     );
-    
+  };
+
+  const printInvoice = async (invoice: Invoice, includeImagesOverride?: boolean) => {
+    const includeImages = includeImagesOverride ?? printIncludeImages;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error(t("invoices.allowPopups"));
+      return;
+    }
+    const invoiceHTML = await buildInvoiceHTML(invoice, includeImages);
+
     // Write HTML to print window
     printWindow.document.open();
     printWindow.document.write(invoiceHTML);
@@ -1749,6 +1955,92 @@ export function Invoices({ pendingQuotationData, onQuotationDataConsumed }: Invo
     printWindow.print();
   };
 
+  const downloadInvoicePdf = async (invoice: Invoice) => {
+    if (!invoice.dbInvoiceId) {
+      toast.error(t("invoices.saveBeforePdf"));
+      return;
+    }
+    const toastId = toast.loading(t("contracts.pdfGenerating"));
+    try {
+      await downloadDocumentPdf({
+        documentType: "invoice",
+        ownerId: invoice.dbInvoiceId,
+        documentNumber: invoice.invoiceNumber,
+        html: await buildInvoiceHTML(invoice, printIncludeImages),
+      });
+      toast.success(t("invoices.downloaded"), { id: toastId });
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("contracts.pdfFailed"), { id: toastId });
+    }
+  };
+
+  // A note is printed in the invoice layout, with the original invoice's customer and branding
+  const noteAsInvoice = (invoice: Invoice, note: InvoiceNoteRow): Invoice => {
+    const items: InvoiceItem[] = (note.note_items ?? []).map((item, index) => ({
+      id: index + 1,
+      isManual: true,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discountPercent: 0,
+      discountAmount: 0,
+      discountType: "percentage",
+      itemDiscount: 0,
+      priceAfterDiscount: item.unitPrice,
+      subtotal: item.subtotal,
+      vat: item.vat,
+      total: item.total,
+    }));
+    return {
+      ...invoice,
+      invoiceNumber: note.note_number,
+      date: note.note_date,
+      items,
+      totalBeforeDiscount: Number(note.subtotal ?? 0),
+      totalDiscount: 0,
+      totalAfterDiscount: Number(note.subtotal ?? 0),
+      totalVAT: Number(note.tax_amount ?? 0),
+      grandTotal: Number(note.total_amount ?? 0),
+      noteDocument: {
+        type: note.note_type,
+        originalInvoiceNumber: note.invoice_reference || invoice.invoiceNumber,
+        reason: note.reason,
+      },
+    };
+  };
+
+  const exportNoteXml = async (invoice: Invoice, note: InvoiceNoteRow) => {
+    const dbRow = dbInvoices.find((inv) => inv.invoice_id === note.invoice_id);
+    if (!dbRow) {
+      toast.error(t("invoices.originalNotFound"));
+      return;
+    }
+
+    try {
+      const companyInfo = await getCompanyInfo();
+      const customer = dbCustomers.find((c) => c.customer_id === dbRow.customer_id) ?? null;
+      const input = buildZatcaNoteInput(note, dbRow, customer, buildZatcaSellerParty(companyInfo), invoice.invoiceNumber);
+      const signed = await issueZatcaDocument(note.note_id, input);
+
+      const blob = new Blob([signed.xml], { type: 'application/xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${note.note_number}.xml`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(
+        t("invoices.noteExported", {
+          note: localizedName(NOTE_TYPE_LABELS[note.note_type].label, NOTE_TYPE_LABELS[note.note_type].labelAr),
+          counter: signed.counter,
+        })
+      );
+    } catch (error) {
+      console.error("ZATCA export error:", error);
+      toast.error(error instanceof Error ? error.message : t("invoices.eInvoiceExportFailed"));
+    }
+  };
+
 
 const generateInvoiceHTML = (
   invoice: Invoice,
@@ -1785,7 +2077,7 @@ const generateInvoiceHTML = (
       <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+        <title>${invoice.noteDocument ? NOTE_TYPE_LABELS[invoice.noteDocument.type].label : 'Invoice'} ${escapeHtml(invoice.invoiceNumber)}</title>
         <style>
           :root {
             --print-footer-height: 75mm;
@@ -2133,8 +2425,8 @@ const generateInvoiceHTML = (
           </div>
   
           <div class="title-section">
-            <div class="title-ar">فاتورة ضريبية</div>
-            <div class="title-en">TAX INVOICE</div>
+            <div class="title-ar">${invoice.noteDocument ? NOTE_TYPE_LABELS[invoice.noteDocument.type].titleAr : 'فاتورة ضريبية'}</div>
+            <div class="title-en">${invoice.noteDocument ? NOTE_TYPE_LABELS[invoice.noteDocument.type].title : 'TAX INVOICE'}</div>
           </div>
   
           <div class="info-grid">
@@ -2154,8 +2446,8 @@ const generateInvoiceHTML = (
   
             <div class="info-box">
               <div class="info-box-header">
-                <span>INVOICE DETAILS</span>
-                <span>تفاصيل الفاتورة</span>
+                <span>${invoice.noteDocument ? 'NOTE DETAILS' : 'INVOICE DETAILS'}</span>
+                <span>${invoice.noteDocument ? 'تفاصيل الإشعار' : 'تفاصيل الفاتورة'}</span>
               </div>
               <div class="info-box-content">
                  <div class="invoice-number-large">#${escapeHtml(invoice.invoiceNumber)}</div>
@@ -2163,13 +2455,21 @@ const generateInvoiceHTML = (
                     <span style="font-size:11px; color:#666;">Date / التاريخ</span>
                     <span style="font-weight:bold;">${new Date(dateToDisplay).toISOString().split('T')[0]}</span>
                  </div>
+                 ${invoice.noteDocument ? `
+                 <div style="display:flex; justify-content:space-between; margin-top:6px;">
+                    <span style="font-size:11px; color:#666;">Original Invoice / الفاتورة الأصلية</span>
+                    <span style="font-weight:bold;">${escapeHtml(invoice.noteDocument.originalInvoiceNumber)}</span>
+                 </div>
+                 <div style="margin-top:6px; font-size:11px;">
+                    <span style="color:#666;">Reason / السبب:</span> ${escapeHtml(invoice.noteDocument.reason)}
+                 </div>` : ''}
               </div>
             </div>
           </div>
   
           <div style="padding: 0 40px; margin-bottom: 0;">
              <div style="background: #e2e8f0; padding: 5px 10px; font-weight:bold; color: #5d6d7e; font-size: 11px;">
-                INVOICE ITEMS / عناصر الفاتورة
+                ${invoice.noteDocument ? 'NOTE ITEMS / عناصر الإشعار' : 'INVOICE ITEMS / عناصر الفاتورة'}
              </div>
           </div>
   
@@ -2260,16 +2560,6 @@ const generateInvoiceHTML = (
     `;
   };
 
-
-  // Save settings when they change
-  useEffect(() => {
-    localStorage.setItem(AUTO_INVOICE_ENABLED_KEY, autoInvoiceEnabled.toString());
-  }, [autoInvoiceEnabled]);
-
-  useEffect(() => {
-    localStorage.setItem(AUTO_INVOICE_TIMING_KEY, autoInvoiceTiming);
-  }, [autoInvoiceTiming]);
-
   const stats = {
     total: invoices.length,
     paid: invoices.filter(inv => inv.status === "paid").length,
@@ -2282,7 +2572,7 @@ const generateInvoiceHTML = (
   const exportToPDF = () => {
     try {
       if (invoices.length === 0) {
-        toast.error("No data to export.");
+        toast.error(t("quotations.noData"));
         return;
       }
 
@@ -2365,13 +2655,13 @@ const generateInvoiceHTML = (
         printWindow.document.write(htmlContent);
         printWindow.document.close();
         printWindow.print();
-        toast.success("PDF export ready for printing");
+        toast.success(t("quotations.pdfExportReady"));
       } else {
-        toast.error("Failed to open print window");
+        toast.error(t("quotations.printWindowFailed"));
       }
     } catch (error) {
       console.error('PDF export error:', error);
-      toast.error("Failed to export PDF");
+      toast.error(t("quotations.pdfExportFailed"));
     }
   };
 
@@ -2395,9 +2685,9 @@ const generateInvoiceHTML = (
       XLSX.utils.book_append_sheet(wb, ws, "Invoices");
       const fileName = `invoices_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -2406,47 +2696,47 @@ const generateInvoiceHTML = (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Invoices</h2>
-          <p className="text-muted-foreground mt-1">Create and manage customer invoices</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("invoices.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("invoices.subtitle")}</p>
         </div>
         <div className="flex items-center gap-2">
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" className="gap-2">
                 <Download className="h-4 w-4" />
-                Export
+                {t("quotations.export")}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent>
               <DropdownMenuItem onClick={exportToExcel}>
-                <Download className="h-4 w-4 mr-2" />
-                Export as Excel
+                <Download className="h-4 w-4 me-2" />
+                {t("quotations.exportExcel")}
               </DropdownMenuItem>
               <DropdownMenuItem onClick={exportToPDF}>
-                <FileText className="h-4 w-4 mr-2" />
-                Export as PDF
+                <FileText className="h-4 w-4 me-2" />
+                {t("quotations.exportPdf")}
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <Dialog open={isCreateDialogOpen} onOpenChange={handleCreateDialogOpenChange}>
           <DialogTrigger asChild>
             <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white" disabled={customersLoading}>
               <Plus className="h-4 w-4" />
-              New Invoice
+              {t("invoices.new")}
             </Button>
           </DialogTrigger>
           <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
             <DialogHeader className="flex-shrink-0">
-              <DialogTitle className="text-lg">Create New Invoice</DialogTitle>
-              <DialogDescription className="text-sm">Fill in customer details and add items</DialogDescription>
+              <DialogTitle className="text-lg">{t("invoices.createTitle")}</DialogTitle>
+              <DialogDescription className="text-sm">{t("quotations.createDescription")}</DialogDescription>
             </DialogHeader>
 
-            <div className="overflow-y-auto overflow-x-hidden flex-1 pr-2">
+            <div className="overflow-y-auto overflow-x-hidden flex-1 pe-2">
               <div className="space-y-3 px-1 py-2">
                 {/* Customer Information */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Customer Information</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.customerInformation")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="col-span-2">
@@ -2455,8 +2745,8 @@ const generateInvoiceHTML = (
                         selectedCustomerId={selectedCustomerId}
                         onCustomerSelect={handleCustomerSelect}
                         hideQuickAdd
-                        label="Select Customer"
-                        placeholder="Search customer by name, company, or mobile..."
+                        label={t("quotations.selectCustomer")}
+                        placeholder={t("contracts.customerSelectorPlaceholder")}
                         required
                       />
                     </div>
@@ -2464,17 +2754,17 @@ const generateInvoiceHTML = (
                     {selectedCustomerId && (
                       <div className="grid grid-cols-2 gap-2 pt-2 border-t">
                         <div className="space-y-1">
-                          <Label htmlFor="customerName" className="text-xs">Customer Name</Label>
+                          <Label htmlFor="customerName" className="text-xs">{t("quotations.customerName")}</Label>
                           <Input 
                             id="customerName" 
                             value={customerName} 
                             onChange={(e) => setCustomerName(e.target.value)}
-                            placeholder="Customer Name"
+                            placeholder={t("quotations.customerName")}
                             className="h-8 text-sm"
                           />
                         </div>
                         <div className="space-y-1">
-                          <Label htmlFor="mobile" className="text-xs">Mobile Number</Label>
+                          <Label htmlFor="mobile" className="text-xs">{t("quotations.mobileNumber")}</Label>
                           <Input 
                             id="mobile" 
                             value={mobile} 
@@ -2485,18 +2775,18 @@ const generateInvoiceHTML = (
                         </div>
 
                         <div className="space-y-1">
-                          <Label htmlFor="location" className="text-xs">Location</Label>
+                          <Label htmlFor="location" className="text-xs">{t("quotations.location")}</Label>
                           <Input 
                             id="location" 
                             value={location} 
                             onChange={(e) => setLocation(e.target.value)}
-                            placeholder="Riyadh, Al Malaz District"
+                            placeholder={t("quotations.locationPlaceholder")}
                             className="h-8 text-sm"
                           />
                         </div>
 
                         <div className="space-y-1">
-                          <Label htmlFor="commercialRegister" className="text-xs">Commercial Register</Label>
+                          <Label htmlFor="commercialRegister" className="text-xs">{t("quotations.commercialRegister")}</Label>
                           <Input 
                             id="commercialRegister" 
                             value={commercialRegister} 
@@ -2506,7 +2796,7 @@ const generateInvoiceHTML = (
                           />
                         </div>
                         <div className="col-span-2 space-y-1">
-                          <Label htmlFor="taxNumber" className="text-xs">VAT Number</Label>
+                          <Label htmlFor="taxNumber" className="text-xs">{t("quotations.vatNumber")}</Label>
                           <Input 
                             id="taxNumber" 
                             value={taxNumber} 
@@ -2523,11 +2813,11 @@ const generateInvoiceHTML = (
                 {/* Invoice Date */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Invoice Date</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.invoiceDate")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="space-y-1">
-                      <Label htmlFor="invoiceDate" className="text-xs">Select Invoice Date *</Label>
+                      <Label htmlFor="invoiceDate" className="text-xs">{t("invoices.selectInvoiceDate")}</Label>
                       <Input 
                         id="invoiceDate" 
                         type="date"
@@ -2536,7 +2826,7 @@ const generateInvoiceHTML = (
                         className="h-8 text-sm cursor-pointer"
                       />
                       <p className="text-xs text-muted-foreground">
-                        The date that will appear on the invoice
+                        {t("invoices.invoiceDateHint")}
                       </p>
                     </div>
                   </CardContent>
@@ -2545,11 +2835,11 @@ const generateInvoiceHTML = (
                 {/* Invoice Type Selection */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Invoice Type</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.invoiceType")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="space-y-2">
-                      <Label htmlFor="invoiceType" className="text-xs">Select Invoice Type *</Label>
+                      <Label htmlFor="invoiceType" className="text-xs">{t("invoices.selectInvoiceType")}</Label>
                       <Select value={invoiceType} onValueChange={(value: InvoiceType) => {
                         setInvoiceType(value);
                         if (value === "normal") {
@@ -2598,20 +2888,20 @@ const generateInvoiceHTML = (
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="normal">Normal Invoice - فاتورة عادية</SelectItem>
-                          <SelectItem value="monthly_visit">Monthly Visit Invoice - فاتورة زيارة شهرية</SelectItem>
+                          <SelectItem value="normal">{t("invoices.typeNormal")}</SelectItem>
+                          <SelectItem value="monthly_visit">{t("invoices.typeMonthlyVisit")}</SelectItem>
                         </SelectContent>
                       </Select>
                       <p className="text-xs text-muted-foreground">
-                        {invoiceType === "normal" 
-                          ? "Regular invoice for item purchases"
-                          : "Recurring invoice for monthly service visits"}
+                        {invoiceType === "normal"
+                          ? t("invoices.typeNormalHint")
+                          : t("invoices.typeMonthlyVisitHint")}
                       </p>
                     </div>
 
                     {invoiceType === "monthly_visit" && (
                       <div className="space-y-2 pt-2 border-t">
-                        <Label htmlFor="contractId" className="text-xs">Link to Contract *</Label>
+                        <Label htmlFor="contractId" className="text-xs">{t("invoices.linkContract")}</Label>
                         <Select 
                           value={selectedContractId || ""} 
                           onValueChange={(value) => {
@@ -2619,13 +2909,9 @@ const generateInvoiceHTML = (
                             // Prefill paid amount based on contract payment plan
                             if (value) {
                               const contract = dbContracts.find(c => c.contract_id === value);
-                              if (contract && contract.notes) {
+                              if (contract) {
                                 try {
-                                  const contractData = JSON.parse(contract.notes);
-                                  const paymentPlan = contractData.paymentPlan || "monthly";
-                                  const monthlyAmount = contractData.monthlyAmount || 0;
-                                  const semiAnnualAmount = contractData.semiAnnualAmount || 0;
-                                  const annualAmount = contractData.annualAmount || 0;
+                                  const { paymentPlan, monthlyAmount, semiAnnualAmount, annualAmount } = readContractDetails(contract);
                                   
                                   // Calculate monthly invoice amount based on payment plan
                                   let invoiceAmount = 0;
@@ -2692,7 +2978,7 @@ const generateInvoiceHTML = (
                           }}
                         >
                           <SelectTrigger id="contractId" className="h-8 text-sm">
-                            <SelectValue placeholder="Select contract..." />
+                            <SelectValue placeholder={t("invoices.selectContract")} />
                           </SelectTrigger>
                           <SelectContent>
                             {selectedCustomerDbId ? (
@@ -2703,24 +2989,24 @@ const generateInvoiceHTML = (
                                 return activeContracts.length > 0 ? (
                                   activeContracts.map(contract => (
                                     <SelectItem key={contract.contract_id} value={contract.contract_id}>
-                                      {contract.contract_number || contract.contract_id.slice(0, 8)} - {contract.contract_status}
+                                      {contract.contract_number || contract.contract_id.slice(0, 8)} - {t("status.active")}
                                     </SelectItem>
                                   ))
                                 ) : (
-                                  <div className="px-2 py-1.5 text-sm text-muted-foreground">No active contracts found</div>
+                                  <div className="px-2 py-1.5 text-sm text-muted-foreground">{t("invoices.noActiveContracts")}</div>
                                 );
                               })()
                             ) : (
-                              <div className="px-2 py-1.5 text-sm text-muted-foreground">Please select a customer first</div>
+                              <div className="px-2 py-1.5 text-sm text-muted-foreground">{t("invoices.selectCustomerFirst")}</div>
                             )}
                           </SelectContent>
                         </Select>
                         <p className="text-xs text-muted-foreground">
-                          Select the active contract for this monthly visit invoice
+                          {t("invoices.contractHint")}
                         </p>
                         
                         <div className="space-y-1">
-                          <Label htmlFor="visitDate" className="text-xs">Visit Date - تاريخ الزيارة *</Label>
+                          <Label htmlFor="visitDate" className="text-xs">{t("invoices.visitDate")}</Label>
                           <Input
                             id="visitDate"
                             type="date"
@@ -2730,7 +3016,7 @@ const generateInvoiceHTML = (
                             required={invoiceType === "monthly_visit"}
                           />
                           <p className="text-xs text-muted-foreground">
-                            Select the date of the monthly visit this invoice is for
+                            {t("invoices.visitDateHint")}
                           </p>
                         </div>
                       </div>
@@ -2741,22 +3027,22 @@ const generateInvoiceHTML = (
                 {/* Branding */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Branding & Customization</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.branding")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="text-xs text-muted-foreground bg-blue-50 p-2 rounded">
-                      Default logo and stamp from Settings are shown below. Upload custom assets to override for this quotation only.
+                      {t("invoices.brandingHint")}
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                       <div className="space-y-1">
                         <div className="flex items-start gap-2">
-                          <Label className="text-xs shrink-0">Company Logo</Label>
-                          <div className="ml-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
+                          <Label className="text-xs shrink-0">{t("quotations.companyLogo")}</Label>
+                          <div className="ms-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
                             {isUsingDefaultLogo && defaultLogoUrl && (
-                              <Badge variant="outline" className="text-xs whitespace-nowrap">System Default</Badge>
+                              <Badge variant="outline" className="text-xs whitespace-nowrap">{t("quotations.systemDefault")}</Badge>
                             )}
                             {!isUsingDefaultLogo && (
-                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">Custom</Badge>
+                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">{t("quotations.custom")}</Badge>
                             )}
                           </div>
                         </div>
@@ -2773,27 +3059,27 @@ const generateInvoiceHTML = (
                           onClick={() => logoInputRef.current?.click()}
                           className="w-full h-8 text-xs"
                         >
-                          <Upload className="h-3 w-3 mr-1" />
-                          {isUsingDefaultLogo ? "Override Logo" : "Change Logo"}
+                          <Upload className="h-3 w-3 me-1" />
+                          {isUsingDefaultLogo ? t("quotations.overrideLogo") : t("quotations.changeLogo")}
                         </Button>
                         {companyLogo && (
                           <div className="relative">
                             <ImageWithFallback 
                               src={companyLogo} 
-                              alt="Company Logo" 
+                              alt={t("quotations.companyLogo")} 
                               className="h-16 w-auto object-contain border rounded"
                             />
                             <Button
                               type="button"
                               variant="ghost"
                               size="icon"
-                              className="absolute top-0 right-0 h-6 w-6"
+                              className="absolute top-0 end-0 h-6 w-6"
                               onClick={() => {
                                 setCompanyLogo(defaultLogoUrl || "");
                                 setLogoFilename(null);
                                 setIsUsingDefaultLogo(true);
                               }}
-                              title={isUsingDefaultLogo ? "Using system default" : "Reset to default"}
+                              title={isUsingDefaultLogo ? t("quotations.usingSystemDefault") : t("quotations.resetToDefault")}
                             >
                               <X className="h-4 w-4" />
                             </Button>
@@ -2801,23 +3087,23 @@ const generateInvoiceHTML = (
                         )}
                         {!companyLogo && defaultLogoUrl && (
                           <div className="text-xs text-muted-foreground mt-1">
-                            Using system default logo
+                            {t("quotations.usingDefaultLogo")}
                           </div>
                         )}
                       </div>
 
                       <div className="space-y-1">
                         <div className="flex items-start gap-2">
-                          <Label className="text-xs shrink-0">Stamp (Optional)</Label>
-                          <div className="ml-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
+                          <Label className="text-xs shrink-0">{t("quotations.stampOptional")}</Label>
+                          <div className="ms-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
                             {isStampRemoved && (
-                              <Badge variant="outline" className="text-xs whitespace-nowrap">Removed</Badge>
+                              <Badge variant="outline" className="text-xs whitespace-nowrap">{t("quotations.removed")}</Badge>
                             )}
                             {isUsingDefaultStamp && defaultStampUrl && (
-                              <Badge variant="outline" className="text-xs whitespace-nowrap">System Default</Badge>
+                              <Badge variant="outline" className="text-xs whitespace-nowrap">{t("quotations.systemDefault")}</Badge>
                             )}
                             {!isStampRemoved && !isUsingDefaultStamp && (
-                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">Custom</Badge>
+                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">{t("quotations.custom")}</Badge>
                             )}
                           </div>
                         </div>
@@ -2835,8 +3121,8 @@ const generateInvoiceHTML = (
                           className="w-full h-8 text-xs"
                           disabled={isStampRemoved && !defaultStampUrl}
                         >
-                          <Upload className="h-3 w-3 mr-1" />
-                          {isStampRemoved ? "Upload Stamp" : (isUsingDefaultStamp ? "Override Stamp" : "Change Stamp")}
+                          <Upload className="h-3 w-3 me-1" />
+                          {isStampRemoved ? t("quotations.uploadStamp") : (isUsingDefaultStamp ? t("quotations.overrideStamp") : t("quotations.changeStamp"))}
                         </Button>
                         {defaultStampUrl && (
                           <Button
@@ -2851,7 +3137,7 @@ const generateInvoiceHTML = (
                             }}
                             disabled={!isStampRemoved && isUsingDefaultStamp}
                           >
-                            Use Default
+                            {t("quotations.useDefault")}
                           </Button>
                         )}
                         {stamp && (
@@ -2865,14 +3151,14 @@ const generateInvoiceHTML = (
                               type="button"
                               variant="ghost"
                               size="icon"
-                              className="absolute top-0 right-0 h-6 w-6"
+                              className="absolute top-0 end-0 h-6 w-6"
                               onClick={() => {
                                 setIsStampRemoved(true);
                                 setStamp('');
                                 setStampFilename('__NO_STAMP__');
                                 setIsUsingDefaultStamp(false);
                               }}
-                              title="Remove stamp"
+                              title={t("quotations.removeStamp")}
                             >
                               <X className="h-4 w-4" />
                             </Button>
@@ -2880,7 +3166,7 @@ const generateInvoiceHTML = (
                         )}
                         {!stamp && defaultStampUrl && (
                           <div className="text-xs text-muted-foreground mt-1">
-                            Using system default stamp
+                            {t("quotations.usingDefaultStamp")}
                           </div>
                         )}
                       </div>
@@ -2894,12 +3180,12 @@ const generateInvoiceHTML = (
                 {/* Global Discount Controls */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Discount Settings</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.discountSettings")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label className="text-xs">Discount Mode</Label>
+                        <Label className="text-xs">{t("quotations.discountMode")}</Label>
                         <Select 
                           value={discountMode} 
                           onValueChange={(value: "individual" | "global") => {
@@ -2924,28 +3210,28 @@ const generateInvoiceHTML = (
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="individual">Individual Items</SelectItem>
-                            <SelectItem value="global">Global Discount</SelectItem>
+                            <SelectItem value="individual">{t("invoices.individualItems")}</SelectItem>
+                            <SelectItem value="global">{t("invoices.globalDiscount")}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
                       <div className="space-y-2">
-                        <Label className="text-xs">VAT (15%)</Label>
+                        <Label className="text-xs">{t("quotations.vat")}</Label>
                         <div className="flex items-center space-x-2">
                           <Switch
                             checked={vatEnabled}
                             onCheckedChange={setVatEnabled}
                           />
                           <span className="text-sm text-gray-600">
-                            {vatEnabled ? "Enabled" : "Disabled"}
+                            {vatEnabled ? t("quotations.enabled") : t("quotations.disabled")}
                           </span>
                         </div>
                       </div>
                       {discountMode === "global" && (
                         <>
                           <div className="space-y-2">
-                            <Label className="text-xs">Global Discount Type</Label>
+                            <Label className="text-xs">{t("invoices.globalDiscountType")}</Label>
                             <Select 
                               value={globalDiscountType} 
                               onValueChange={(value: "percentage" | "fixed") => setGlobalDiscountType(value)}
@@ -2954,15 +3240,15 @@ const generateInvoiceHTML = (
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="percentage">Percentage (%)</SelectItem>
-                                <SelectItem value="fixed">Fixed (ر.س)</SelectItem>
+                                <SelectItem value="percentage">{t("quotations.percentage")}</SelectItem>
+                                <SelectItem value="fixed">{t("quotations.fixed")}</SelectItem>
                               </SelectContent>
                             </Select>
                           </div>
 
                           <div className="space-y-2 col-span-2">
                             <Label className="text-xs">
-                              Global Discount {globalDiscountType === "percentage" ? "(%)" : "(ر.س)"}
+                              {globalDiscountType === "percentage" ? t("invoices.globalDiscountPercent") : t("invoices.globalDiscountFixed")}
                             </Label>
                             <Input 
                               type="number" 
@@ -2971,7 +3257,7 @@ const generateInvoiceHTML = (
                               step="0.01"
                               value={globalDiscountAmount} 
                               onChange={(e) => setGlobalDiscountAmount(e.target.value)}
-                              placeholder={globalDiscountType === "percentage" ? "Enter percentage" : "Enter fixed amount"}
+                              placeholder={globalDiscountType === "percentage" ? t("invoices.enterPercentage") : t("invoices.enterFixedAmount")}
                               className="h-8 text-sm"
                             />
                           </div>
@@ -2983,16 +3269,16 @@ const generateInvoiceHTML = (
 
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Invoice Items</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.items")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2">
                     {items.map((item, index) => (
                       <div key={item.id} className="space-y-2 p-2 border rounded-lg bg-muted/30">
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
-                            <span className="font-medium text-xs">Item {index + 1}</span>
+                            <span className="font-medium text-xs">{t("invoices.itemNumber", { number: index + 1 })}</span>
                             <Badge variant={item.isManual ? "default" : "secondary"} className="text-xs">
-                              {item.isManual ? "Manual" : "From Inventory"}
+                              {item.isManual ? t("quotations.manual") : t("quotations.fromInventory")}
                             </Badge>
                           </div>
                           {items.length > 1 && (
@@ -3010,12 +3296,12 @@ const generateInvoiceHTML = (
                         <div className="space-y-2 w-full">
                           {!item.isManual && (
                             <div className="space-y-1 w-full">
-                              <Label className="text-xs">Load from Inventory *</Label>
+                              <Label className="text-xs">{t("invoices.loadFromInventory")}</Label>
                               <div className="relative">
-                                <Search className="absolute left-2 top-2 h-3 w-3 text-muted-foreground" />
+                                <Search className="absolute start-2 top-2 h-3 w-3 text-muted-foreground" />
                                 <Input
-                                  placeholder="Search products..."
-                                  className="pl-7 h-8 text-sm"
+                                  placeholder={t("invoices.searchProducts")}
+                                  className="ps-7 h-8 text-sm"
                                   onChange={(e) => {
                                     const searchTerm = e.target.value;
                                     loadMoreInventory(searchTerm);
@@ -3024,12 +3310,16 @@ const generateInvoiceHTML = (
                               </div>
                               <Select onValueChange={(value) => loadItemFromInventory(item.id, value)}>
                                 <SelectTrigger className="h-8 text-sm w-full">
-                                  <SelectValue placeholder="Select product..." />
+                                  <SelectValue placeholder={t("quotations.selectProduct")} />
                                 </SelectTrigger>
                                 <SelectContent>
                                   {dbInventory.map(inv => (
-                                    <SelectItem key={inv.id} value={inv.id.toString()}>
-                                      {inv.name} - SAR {inv.unitPrice.toFixed(2)}
+                                    <SelectItem key={inv.product_code} value={inv.product_code}>
+                                      {t("invoices.inventoryOption", {
+                                        name: localizedName(inv.en_prod_name, inv.ar_prod_name),
+                                        price: formatCurrency(Number(inv.prod_selling_price ?? 0)),
+                                        stock: formatNumber(Number(inv.current_stock ?? 0)),
+                                      })}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -3038,7 +3328,7 @@ const generateInvoiceHTML = (
                           )}
 
                           <div className="space-y-1 w-full">
-                            <Label className="text-xs">Item Image</Label>
+                            <Label className="text-xs">{t("invoices.itemImage")}</Label>
                             <input
                               type="file"
                               accept="image/*"
@@ -3053,8 +3343,8 @@ const generateInvoiceHTML = (
                               onClick={() => document.getElementById(`item-image-${item.id}`)?.click()}
                               className="w-full h-7 text-xs"
                             >
-                              <Upload className="h-3 w-3 mr-1" />
-                              Upload Image
+                              <Upload className="h-3 w-3 me-1" />
+                              {t("invoices.uploadImage")}
                             </Button>
                             {item.image && (
                               <div className="relative inline-block">
@@ -3067,7 +3357,7 @@ const generateInvoiceHTML = (
                                   type="button"
                                   variant="ghost"
                                   size="icon"
-                                  className="absolute -top-2 -right-2 h-5 w-5"
+                                  className="absolute -top-2 -end-2 h-5 w-5"
                                   onClick={() => updateItemImage(item.id, "")}
                                 >
                                   <X className="h-3 w-3" />
@@ -3077,18 +3367,18 @@ const generateInvoiceHTML = (
                           </div>
 
                           <div className="space-y-1 w-full">
-                            <Label className="text-xs">Description *</Label>
+                            <Label className="text-xs">{t("quotations.descriptionRequired")}</Label>
                             <Input
                               value={item.description}
                               onChange={(e) => updateItem(item.id, 'description', e.target.value)}
-                              placeholder="Item description"
+                              placeholder={t("invoices.descriptionPlaceholder")}
                               className="h-8 text-sm w-full"
                             />
                           </div>
 
                           <div className="grid grid-cols-2 gap-2">
                             <div className="space-y-1">
-                              <Label className="text-xs">Quantity</Label>
+                              <Label className="text-xs">{t("invoices.quantity")}</Label>
                               <Input
                                 type="number"
                                 min="1"
@@ -3099,7 +3389,7 @@ const generateInvoiceHTML = (
                             </div>
 
                             <div className="space-y-1">
-                              <Label className="text-xs">Unit Price</Label>
+                              <Label className="text-xs">{t("quotations.unitPrice")}</Label>
                               <Input
                                 type="number"
                                 min="0"
@@ -3111,7 +3401,7 @@ const generateInvoiceHTML = (
                             </div>
 
                             <div className="space-y-1">
-                              <Label className="text-xs">Discount Type</Label>
+                              <Label className="text-xs">{t("quotations.discountType")}</Label>
                               <Select 
                                 value={item.discountType || "percentage"} 
                                 onValueChange={(value: "percentage" | "fixed") => updateItem(item.id, "discountType", value)}
@@ -3121,15 +3411,15 @@ const generateInvoiceHTML = (
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  <SelectItem value="percentage">Percentage (%)</SelectItem>
-                                  <SelectItem value="fixed">Fixed (ر.س)</SelectItem>
+                                  <SelectItem value="percentage">{t("quotations.percentage")}</SelectItem>
+                                  <SelectItem value="fixed">{t("quotations.fixed")}</SelectItem>
                                 </SelectContent>
                               </Select>
                             </div>
 
                             <div className="space-y-1">
                               <Label className="text-xs">
-                                Discount {item.discountType === "percentage" ? "(%)" : "(ر.س)"}
+                                {item.discountType === "percentage" ? t("quotations.discountPercent") : t("quotations.discountFixed")}
                               </Label>
                               <Input 
                                 type="number" 
@@ -3151,18 +3441,18 @@ const generateInvoiceHTML = (
                             </div>
 
                             <div className="space-y-1">
-                              <Label className="text-xs text-muted-foreground">Discount</Label>
+                              <Label className="text-xs text-muted-foreground">{t("quotations.discount")}</Label>
                               <div className="h-8 flex items-center">
                                 <p className="text-sm text-muted-foreground">
-                                  {item.discountType === "percentage" 
-                                    ? `${item.discountPercent.toFixed(2)}%` 
-                                    : `ر.س ${item.discountAmount.toFixed(2)}`}
+                                  {item.discountType === "percentage"
+                                    ? `${formatNumber(item.discountPercent, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`
+                                    : formatCurrency(item.discountAmount)}
                                 </p>
                               </div>
                             </div>
 
                             <div className="space-y-1">
-                              <Label className="text-xs">Total</Label>
+                              <Label className="text-xs">{t("common.total")}</Label>
                               <Input
                                 type="text"
                                 value={item.total.toFixed(2)}
@@ -3182,8 +3472,8 @@ const generateInvoiceHTML = (
                         onClick={addManualItem}
                         className="w-full h-8 text-xs"
                       >
-                        <Plus className="h-3 w-3 mr-1" />
-                        Add Manual Item
+                        <Plus className="h-3 w-3 me-1" />
+                        {t("quotations.addManualItem")}
                       </Button>
                       <Button
                         type="button"
@@ -3191,10 +3481,10 @@ const generateInvoiceHTML = (
                         onClick={addInventoryItem}
                         disabled={dbInventory.length === 0}
                         className="w-full h-8 text-xs"
-                        title={dbInventory.length === 0 ? "No items currently in inventory" : ""}
+                        title={dbInventory.length === 0 ? t("invoices.noInventory") : ""}
                       >
-                        <Plus className="h-3 w-3 mr-1" />
-                        {dbInventory.length === 0 ? "No items currently in inventory" : "Add from Inventory"}
+                        <Plus className="h-3 w-3 me-1" />
+                        {dbInventory.length === 0 ? t("invoices.noInventory") : t("quotations.addFromInventory")}
                       </Button>
                     </div>
                   </CardContent>
@@ -3205,42 +3495,42 @@ const generateInvoiceHTML = (
                 {/* Totals Summary */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Invoice Summary</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.summaryTitle")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-1.5">
                     <div className="flex justify-between text-xs">
-                      <span className="text-muted-foreground">Subtotal:</span>
-                      <span>SAR {totals.totalBeforeDiscount.toFixed(2)}</span>
+                      <span className="text-muted-foreground">{t("quotations.subtotalLabel")}</span>
+                      <span>{formatCurrency(totals.totalBeforeDiscount)}</span>
                     </div>
                     {totals.totalDiscount > 0 && (
                       <div className="flex justify-between text-xs">
-                        <span className="text-muted-foreground">Discount:</span>
-                        <span className="text-destructive">- SAR {totals.totalDiscount.toFixed(2)}</span>
+                        <span className="text-muted-foreground">{t("quotations.discountLabel")}</span>
+                        <span className="text-destructive">-{formatCurrency(totals.totalDiscount)}</span>
                       </div>
                     )}
                     <div className="flex justify-between text-xs">
-                      <span className="text-muted-foreground">After Discount:</span>
-                      <span>SAR {totals.totalAfterDiscount.toFixed(2)}</span>
+                      <span className="text-muted-foreground">{t("quotations.afterDiscount")}</span>
+                      <span>{formatCurrency(totals.totalAfterDiscount)}</span>
                     </div>
                     <div className="flex justify-between text-xs">
-                      <span className="text-muted-foreground">VAT (15%):</span>
-                      <span>SAR {totals.totalVAT.toFixed(2)}</span>
+                      <span className="text-muted-foreground">{t("quotations.vatLabel")}</span>
+                      <span>{formatCurrency(totals.totalVAT)}</span>
                     </div>
                     <Separator />
                     <div className="flex justify-between font-semibold text-sm">
                       <span>
-                        Grand Total:
+                        {t("quotations.grandTotal")}
                         {invoiceType === "monthly_visit" && contractPlanAmount !== null && (
-                          <span className="text-xs text-muted-foreground font-normal ml-2">
-                            (Based on contract plan)
+                          <span className="text-xs text-muted-foreground font-normal ms-2">
+                            {t("invoices.basedOnContract")}
                           </span>
                         )}
                       </span>
-                      <span className="text-primary">SAR {totals.grandTotal.toFixed(2)}</span>
+                      <span className="text-primary">{formatCurrency(totals.grandTotal)}</span>
                     </div>
                     {invoiceType === "monthly_visit" && contractPlanAmount !== null && (
                       <p className="text-xs text-muted-foreground italic">
-                        Grand total is calculated from the selected contract's payment plan amount
+                        {t("invoices.contractTotalHint")}
                       </p>
                     )}
                   </CardContent>
@@ -3249,13 +3539,13 @@ const generateInvoiceHTML = (
                 {/* Notes */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Additional Notes</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.additionalNotes")}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <Textarea
                       value={notes}
                       onChange={(e) => setNotes(e.target.value)}
-                      placeholder="Enter any additional notes..."
+                      placeholder={t("invoices.notesPlaceholder")}
                       rows={2}
                       className="text-sm"
                     />
@@ -3265,14 +3555,14 @@ const generateInvoiceHTML = (
                 {/* Terms & Conditions */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Terms & Conditions</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.terms")}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="p-4 rounded-lg" style={{ backgroundColor: '#f3f4f6' }}>
                       <Textarea
                         value={termsAndConditions}
                         onChange={(e) => setTermsAndConditions(e.target.value)}
-                        placeholder="Enter terms and conditions..."
+                        placeholder={t("quotations.termsPlaceholder")}
                         rows={6}
                         className="text-sm resize-none border-none bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0"
                       />
@@ -3283,11 +3573,11 @@ const generateInvoiceHTML = (
                 {/* Payment Information */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Payment Information - معلومات الدفع</CardTitle>
+                    <CardTitle className="text-sm">{t("invoices.paymentInformation")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2">
                     <div className="space-y-1">
-                      <Label htmlFor="paidAmount" className="text-xs">Paid Amount - المبلغ المدفوع (SAR) *</Label>
+                      <Label htmlFor="paidAmount" className="text-xs">{t("invoices.paidAmountRequired")}</Label>
                       <Input 
                         id="paidAmount"
                         type="number"
@@ -3305,7 +3595,7 @@ const generateInvoiceHTML = (
                             setPaidAmount('0');
                           } else if (numValue > totals.grandTotal) {
                             setPaidAmount(totals.grandTotal.toFixed(2));
-                            toast.warning(`Paid amount cannot exceed grand total of ${totals.grandTotal.toFixed(2)} ر.س`);
+                            toast.warning(t("invoices.paidExceedsTotal", { amount: formatCurrency(totals.grandTotal) }));
                           } else {
                             setPaidAmount(value);
                           }
@@ -3314,29 +3604,29 @@ const generateInvoiceHTML = (
                         className="h-8 text-sm"
                       />
                       <p className="text-xs text-muted-foreground">
-                        {invoiceType === "monthly_visit" 
-                          ? `Enter amount paid (max: ${totals.grandTotal.toFixed(2)} ر.س). Status will be automatically set.`
-                          : "Enter amount paid. Status will be automatically set."}
+                        {invoiceType === "monthly_visit"
+                          ? t("invoices.paidAmountHintMax", { amount: formatCurrency(totals.grandTotal) })
+                          : t("invoices.paidAmountHint")}
                       </p>
                     </div>
                     
                     <div className="bg-muted/50 p-2 rounded-lg space-y-1.5">
                       <div className="flex justify-between text-xs">
-                        <span className="text-muted-foreground">Total Amount:</span>
-                        <span className="font-semibold">{totals.grandTotal.toFixed(2)} ر.س</span>
+                        <span className="text-muted-foreground">{t("invoices.totalAmountLabel")}</span>
+                        <span className="font-semibold">{formatCurrency(totals.grandTotal)}</span>
                       </div>
                       <div className="flex justify-between text-xs">
-                        <span className="text-muted-foreground">Paid Amount:</span>
-                        <span className="font-semibold text-green-600">{(parseFloat(paidAmount) || 0).toFixed(2)} ر.س</span>
+                        <span className="text-muted-foreground">{t("invoices.paidAmountLabel")}</span>
+                        <span className="font-semibold text-green-600">{formatCurrency((parseFloat(paidAmount) || 0))}</span>
                       </div>
                       <div className="flex justify-between text-xs border-t pt-1.5">
-                        <span className="text-muted-foreground">Remaining:</span>
+                        <span className="text-muted-foreground">{t("invoices.remainingLabel")}</span>
                         <span className="font-semibold text-orange-600">
-                          {Math.max(0, totals.grandTotal - (parseFloat(paidAmount) || 0)).toFixed(2)} ر.س
+                          {formatCurrency(Math.max(0, totals.grandTotal - (parseFloat(paidAmount) || 0)))}
                         </span>
                       </div>
                       <div className="flex justify-between text-xs border-t pt-1.5">
-                        <span className="text-muted-foreground">Status:</span>
+                        <span className="text-muted-foreground">{t("invoices.statusLabel")}</span>
                         <span>
                           {(() => {
                             const paid = parseFloat(paidAmount) || 0;
@@ -3347,11 +3637,11 @@ const generateInvoiceHTML = (
                             const remaining = Math.max(0, roundedTotal - roundedPaid);
                             
                             if (remaining <= 0.01) {
-                              return <Badge className="bg-green-100 text-green-700 border-green-200 text-xs py-0">Paid - مدفوعة</Badge>;
+                              return <Badge className="bg-green-100 text-green-700 border-green-200 text-xs py-0">{t("status.paid")}</Badge>;
                             } else if (roundedPaid > 0) {
-                              return <Badge className="bg-yellow-100 text-yellow-700 border-yellow-200 text-xs py-0">Partial - جزئي</Badge>;
+                              return <Badge className="bg-yellow-100 text-yellow-700 border-yellow-200 text-xs py-0">{t("status.partial")}</Badge>;
                             } else {
-                              return <Badge className="bg-gray-100 text-gray-700 border-gray-200 text-xs py-0">Draft - مسودة</Badge>;
+                              return <Badge className="bg-gray-100 text-gray-700 border-gray-200 text-xs py-0">{t("status.draft")}</Badge>;
                             }
                           })()}
                         </span>
@@ -3366,39 +3656,39 @@ const generateInvoiceHTML = (
                     <CardHeader className="pb-2">
                       <CardTitle className="text-sm flex items-center gap-2">
                         <Settings className="h-4 w-4" />
-                        Automatic Invoicing Settings
+                        {t("invoices.autoSettings")}
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
                       <div className="flex items-center justify-between">
                         <div className="space-y-0.5 flex-1">
-                          <Label htmlFor="autoInvoiceEnabled" className="text-xs">Enable Automatic Invoicing</Label>
+                          <Label htmlFor="autoInvoiceEnabled" className="text-xs">{t("invoices.autoEnable")}</Label>
                           <p className="text-xs text-muted-foreground">
-                            Automatically create invoices when monthly visits are generated
+                            {t("invoices.autoEnableHint")}
                           </p>
                         </div>
                         <Switch
                           id="autoInvoiceEnabled"
                           checked={autoInvoiceEnabled}
-                          onCheckedChange={setAutoInvoiceEnabled}
+                          onCheckedChange={(checked) => void saveBillingSettings({ auto_invoice_enabled: checked })}
                         />
                       </div>
                       {autoInvoiceEnabled && (
                         <div className="space-y-2 pt-2 border-t">
-                          <Label htmlFor="autoInvoiceTiming" className="text-xs">Invoice Generation Timing</Label>
-                          <Select value={autoInvoiceTiming} onValueChange={(value: 'visit_date' | '7_days_before') => setAutoInvoiceTiming(value)}>
+                          <Label htmlFor="autoInvoiceTiming" className="text-xs">{t("invoices.autoTiming")}</Label>
+                          <Select value={autoInvoiceTiming} onValueChange={(value: 'visit_date' | '7_days_before') => void saveBillingSettings({ auto_invoice_timing: value })}>
                             <SelectTrigger id="autoInvoiceTiming" className="h-8 text-sm">
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="visit_date">On Visit Date</SelectItem>
-                              <SelectItem value="7_days_before">7 Days Before Visit Date</SelectItem>
+                              <SelectItem value="visit_date">{t("invoices.timingVisitDate")}</SelectItem>
+                              <SelectItem value="7_days_before">{t("invoices.timing7Days")}</SelectItem>
                             </SelectContent>
                           </Select>
                           <p className="text-xs text-muted-foreground">
-                            {autoInvoiceTiming === 'visit_date' 
-                              ? 'Invoice will be generated on the same day as the monthly visit'
-                              : 'Invoice will be generated 7 days before the monthly visit date'}
+                            {autoInvoiceTiming === 'visit_date'
+                              ? t("invoices.timingVisitDateHint")
+                              : t("invoices.timing7DaysHint")}
                           </p>
                         </div>
                       )}
@@ -3409,11 +3699,11 @@ const generateInvoiceHTML = (
             </div>
 
             <div className="flex justify-end gap-2 pt-3 border-t mt-3 flex-shrink-0">
-              <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)} className="h-9">
-                Cancel
+              <Button variant="outline" onClick={() => handleCreateDialogOpenChange(false)} className="h-9">
+                {t("common.cancel")}
               </Button>
               <Button onClick={createInvoice} disabled={isCreatingInvoice} className="h-9 bg-purple-600 hover:bg-purple-700 text-white">
-                {isCreatingInvoice ? "Creating..." : "Create Invoice"}
+                {isCreatingInvoice ? t("invoices.creating") : t("invoices.create")}
               </Button>
             </div>
           </DialogContent>
@@ -3425,7 +3715,7 @@ const generateInvoiceHTML = (
       <div className="grid gap-4 md:grid-cols-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Invoices</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("invoices.statTotal")}</CardTitle>
             <DollarSign className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
@@ -3437,7 +3727,7 @@ const generateInvoiceHTML = (
             ) : (
               <>
                 <div className="text-3xl font-bold text-blue-600">{stats.total}</div>
-                <p className="text-xs text-muted-foreground mt-1">All invoices</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("invoices.statAll")}</p>
               </>
             )}
           </CardContent>
@@ -3445,7 +3735,7 @@ const generateInvoiceHTML = (
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Paid</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.paid")}</CardTitle>
             <Wallet className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
@@ -3457,7 +3747,7 @@ const generateInvoiceHTML = (
             ) : (
               <>
                 <div className="text-3xl font-bold text-green-600">{stats.paid}</div>
-                <p className="text-xs text-muted-foreground mt-1">Fully paid</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("invoices.statFullyPaid")}</p>
               </>
             )}
           </CardContent>
@@ -3465,7 +3755,7 @@ const generateInvoiceHTML = (
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Partial</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.partial")}</CardTitle>
             <CreditCard className="h-5 w-5 text-yellow-500" />
           </CardHeader>
           <CardContent>
@@ -3477,7 +3767,7 @@ const generateInvoiceHTML = (
             ) : (
               <>
                 <div className="text-3xl font-bold text-yellow-600">{stats.partial}</div>
-                <p className="text-xs text-muted-foreground mt-1">Partially paid</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("invoices.statPartiallyPaid")}</p>
               </>
             )}
           </CardContent>
@@ -3485,7 +3775,7 @@ const generateInvoiceHTML = (
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Draft</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.draft")}</CardTitle>
             <DollarSign className="h-5 w-5 text-gray-500" />
           </CardHeader>
           <CardContent>
@@ -3497,7 +3787,7 @@ const generateInvoiceHTML = (
             ) : (
               <>
                 <div className="text-3xl font-bold text-gray-600">{stats.draft}</div>
-                <p className="text-xs text-muted-foreground mt-1">Unpaid</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("status.unpaid")}</p>
               </>
             )}
           </CardContent>
@@ -3505,7 +3795,7 @@ const generateInvoiceHTML = (
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("invoices.statRevenue")}</CardTitle>
             <Wallet className="h-5 w-5 text-purple-500" />
           </CardHeader>
           <CardContent>
@@ -3516,8 +3806,8 @@ const generateInvoiceHTML = (
               </>
             ) : (
               <>
-                <div className="text-2xl font-bold text-purple-600">{stats.totalRevenue.toFixed(0)}</div>
-                <p className="text-xs text-muted-foreground mt-1">SAR collected</p>
+                <div className="text-2xl font-bold text-purple-600">{formatNumber(stats.totalRevenue, { maximumFractionDigits: 0 })}</div>
+                <p className="text-xs text-muted-foreground mt-1">{t("invoices.statCollected")}</p>
               </>
             )}
           </CardContent>
@@ -3525,7 +3815,7 @@ const generateInvoiceHTML = (
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.pending")}</CardTitle>
             <CreditCard className="h-5 w-5 text-orange-500" />
           </CardHeader>
           <CardContent>
@@ -3536,8 +3826,8 @@ const generateInvoiceHTML = (
               </>
             ) : (
               <>
-                <div className="text-2xl font-bold text-orange-600">{stats.pendingAmount.toFixed(0)}</div>
-                <p className="text-xs text-muted-foreground mt-1">SAR pending</p>
+                <div className="text-2xl font-bold text-orange-600">{formatNumber(stats.pendingAmount, { maximumFractionDigits: 0 })}</div>
+                <p className="text-xs text-muted-foreground mt-1">{t("invoices.statPending")}</p>
               </>
             )}
           </CardContent>
@@ -3548,12 +3838,12 @@ const generateInvoiceHTML = (
       <Card>
         <CardContent className="pt-6">
           <div className="relative">
-            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
-              placeholder="Search invoices by number or customer..."
+              placeholder={t("invoices.searchPlaceholder")}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-9"
+              className="ps-9"
             />
           </div>
         </CardContent>
@@ -3563,45 +3853,45 @@ const generateInvoiceHTML = (
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>All Invoices</CardTitle>
+            <CardTitle>{t("invoices.all")}</CardTitle>
             <div className="flex flex-col sm:flex-row gap-3">
               <div className="flex flex-col gap-2">
-                <Label htmlFor="search">Search</Label>
+                <Label htmlFor="search">{t("invoices.search")}</Label>
                 <div className="relative">
-                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                   <Input
                     id="search"
-                    placeholder="Search invoices..."
+                    placeholder={t("invoices.searchShort")}
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-8 w-full sm:w-[250px]"
+                    className="ps-8 w-full sm:w-[250px]"
                   />
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row gap-3">
                 <div className="flex flex-col gap-2">
-                  <Label>Status</Label>
+                  <Label>{t("common.status")}</Label>
                   <Select value={statusFilter} onValueChange={setStatusFilter}>
                     <SelectTrigger className="w-[220px]">
-                      <SelectValue placeholder="All statuses" />
+                      <SelectValue placeholder={t("invoices.allStatuses")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All Statuses</SelectItem>
-                      <SelectItem value="paid">Paid</SelectItem>
-                      <SelectItem value="partial">Partial</SelectItem>
-                      <SelectItem value="draft">Draft</SelectItem>
+                      <SelectItem value="all">{t("invoices.allStatuses")}</SelectItem>
+                      <SelectItem value="paid">{t("status.paid")}</SelectItem>
+                      <SelectItem value="partial">{t("status.partial")}</SelectItem>
+                      <SelectItem value="draft">{t("status.draft")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="flex flex-col gap-2">
-                  <Label>Sort Order</Label>
+                  <Label>{t("invoices.sortOrder")}</Label>
                   <Select value={sortOrder} onValueChange={(value: "asc" | "desc") => setSortOrder(value)}>
                     <SelectTrigger className="w-[220px]">
-                      <SelectValue placeholder="Sort order" />
+                      <SelectValue placeholder={t("invoices.sortOrder")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="desc">Newest First</SelectItem>
-                      <SelectItem value="asc">Oldest First</SelectItem>
+                      <SelectItem value="desc">{t("invoices.newestFirst")}</SelectItem>
+                      <SelectItem value="asc">{t("invoices.oldestFirst")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -3613,14 +3903,14 @@ const generateInvoiceHTML = (
           {invoicesError ? (
             <div className="text-center py-12">
               <div className="text-red-600 text-sm">
-                Failed to load invoices. Please try again.
+                {t("invoices.loadFailed")}
               </div>
               <Button 
                 variant="outline" 
                 onClick={() => refetchInvoices()} 
                 className="mt-4"
               >
-                Try Again
+                {t("invoices.tryAgain")}
               </Button>
             </div>
           ) : isDataLoading ? (
@@ -3661,22 +3951,22 @@ const generateInvoiceHTML = (
           ) : filteredInvoices.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-muted-foreground text-sm">
-                {searchQuery ? "No invoices found matching your search" : "No invoices created yet. Create your first invoice to get started!"}
+                {searchQuery ? t("invoices.noMatches") : t("invoices.empty")}
               </div>
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Invoice #</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead className="text-right">Total</TableHead>
-                  <TableHead className="text-right">Paid</TableHead>
-                  <TableHead className="text-right">Remaining</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("invoices.number")}</TableHead>
+                  <TableHead>{t("invoices.type")}</TableHead>
+                  <TableHead>{t("common.customer")}</TableHead>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead className="text-end">{t("common.total")}</TableHead>
+                  <TableHead className="text-end">{t("invoices.paid")}</TableHead>
+                  <TableHead className="text-end">{t("invoices.remaining")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -3689,23 +3979,23 @@ const generateInvoiceHTML = (
                           ? "bg-blue-100 text-blue-700 border-blue-200" 
                           : "bg-gray-100 text-gray-700 border-gray-200"
                       }>
-                        {invoice.invoiceType === "monthly_visit" ? "Monthly Visit" : "Normal"}
+                        {invoice.invoiceType === "monthly_visit" ? t("invoices.typeMonthlyVisitShort") : t("invoices.typeNormalShort")}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <div>{invoice.customerName}</div>
                       <div className="text-xs text-muted-foreground">{invoice.mobile}</div>
                     </TableCell>
-                    <TableCell>{new Date(invoice.date).toLocaleDateString('en-GB')}</TableCell>
-                    <TableCell className="text-right font-semibold">
-                      {invoice.grandTotal.toFixed(2)} ر.س
+                    <TableCell>{formatDate(invoice.date)}</TableCell>
+                    <TableCell className="text-end font-semibold">
+                      {formatCurrency(invoice.grandTotal)}
                     </TableCell>
-                    <TableCell className="text-right text-green-600 font-medium">
-                      {invoice.paidAmount.toFixed(2)} ر.س
+                    <TableCell className="text-end text-green-600 font-medium">
+                      {formatCurrency(invoice.paidAmount)}
                     </TableCell>
-                    <TableCell className="text-right font-medium">
+                    <TableCell className="text-end font-medium">
                       <span className={invoice.remainingAmount > 0 ? "text-orange-600" : "text-muted-foreground"}>
-                        {invoice.remainingAmount.toFixed(2)} ر.س
+                        {formatCurrency(invoice.remainingAmount)}
                       </span>
                     </TableCell>
                     <TableCell>
@@ -3714,10 +4004,10 @@ const generateInvoiceHTML = (
                         invoice.status === "partial" ? "bg-yellow-100 text-yellow-700 border-yellow-200" :
                         "bg-gray-100 text-gray-700 border-gray-200"
                       }>
-                        {invoice.status === "paid" ? "Paid" : invoice.status === "partial" ? "Partial" : "Draft"}
+                        {t(`status.${invoice.status}`)}
                       </Badge>
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end">
                       <div className="flex justify-end gap-2">
                         {invoice.invoiceType === "monthly_visit" && invoice.contractId && (
                           <Button
@@ -3729,7 +4019,7 @@ const generateInvoiceHTML = (
                               try {
                                 const contract = dbContracts.find(c => c.contract_id === invoice.contractId);
                                 if (!contract) {
-                                  toast.error("Contract not found");
+                                  toast.error(t("contracts.notFound"));
                                   return;
                                 }
 
@@ -3753,18 +4043,18 @@ const generateInvoiceHTML = (
                                   })));
                                   
                                   setIsCreateDialogOpen(true);
-                                  toast.success("Monthly visit invoice form pre-filled. Review and create.");
+                                  toast.success(t("invoices.renewPrefilled"));
                                 } else {
-                                  toast.error("Customer not found");
+                                  toast.error(t("invoices.customerNotFound"));
                                 }
                               } catch (error) {
-                                toast.error("Failed to renew invoice");
+                                toast.error(t("invoices.renewFailed"));
                                 console.error(error);
                               }
                             }}
                           >
                             <Calendar className="h-4 w-4" />
-                            Renew
+                            {t("invoices.renew")}
                           </Button>
                         )}
                         {invoice.remainingAmount > 0.01 && (
@@ -3781,23 +4071,43 @@ const generateInvoiceHTML = (
                             }}
                           >
                             <Wallet className="h-4 w-4" />
-                            Collect
+                            {t("invoices.collect")}
                           </Button>
                         )}
                         <Button
                           variant="outline"
                           size="sm"
                           className="gap-2 bg-blue-50 hover:bg-blue-100 text-blue-700 border-blue-200"
+                          title={invoice.isLocked ? t("invoices.lockedHint") : t("invoices.editDateHint")}
+                          disabled={invoice.isLocked}
                           onClick={() => editInvoice(invoice)}
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {invoice.dbInvoiceId && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2 bg-amber-50 hover:bg-amber-100 text-amber-700 border-amber-200"
+                            title={t("invoices.notesHint")}
+                            onClick={() => setNotesInvoice(invoice)}
+                          >
+                            <FileMinus className="h-4 w-4" />
+                            {(notesByInvoice.get(invoice.dbInvoiceId)?.length ?? 0) > 0 && (
+                              <span className="text-xs">{notesByInvoice.get(invoice.dbInvoiceId)?.length}</span>
+                            )}
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
                           onClick={() => {
-                            setSelectedInvoice(invoice);
-                            setIsViewDialogOpen(true);
+                            if (invoice.dbInvoiceId) {
+                              openInvoice(invoice.dbInvoiceId);
+                            } else {
+                              setSelectedInvoice(invoice);
+                              setIsViewDialogOpen(true);
+                            }
                           }}
                         >
                           <Eye className="h-4 w-4" />
@@ -3823,28 +4133,28 @@ const generateInvoiceHTML = (
                             <Printer className="h-4 w-4" />
                           </Button>
                           {openPrintOptionsInvoiceId === invoice.id && (
-                            <div className="absolute right-0 top-full mt-2 z-50 w-52 rounded-md border bg-white shadow-md flex flex-col">
+                            <div className="absolute end-0 top-full mt-2 z-50 w-52 rounded-md border bg-white shadow-md flex flex-col">
                               <button
                                 type="button"
-                                className="w-full px-3 py-2 text-left text-sm"
+                                className="w-full px-3 py-2 text-start text-sm"
                                 onClick={() => {
                                   setPrintIncludeImages(true);
                                   setOpenPrintOptionsInvoiceId(null);
                                   void printInvoice(invoice, true);
                                 }}
                               >
-                                Print with images
+                                {t("quotations.printWithImages")}
                               </button>
                               <button
                                 type="button"
-                                className="w-full px-3 py-2 text-left text-sm border-t"
+                                className="w-full px-3 py-2 text-start text-sm border-t"
                                 onClick={() => {
                                   setPrintIncludeImages(false);
                                   setOpenPrintOptionsInvoiceId(null);
                                   void printInvoice(invoice, false);
                                 }}
                               >
-                                Print without images
+                                {t("quotations.printWithoutImages")}
                               </button>
                             </div>
                           )}
@@ -3852,39 +4162,19 @@ const generateInvoiceHTML = (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={async () => {
-                            // Load logo for download
-                            const logoForDownload = invoice.companyLogo || (await getPrintLogo()) || undefined;
-                            const companyInfoForDownload = await getCompanyInfo();
-                            const companyNameForDownload = getCompanyName(companyInfoForDownload); // English name only
-                            const companyNameArForDownload = companyInfoForDownload?.company_name_ar || '';
-                            const companyTaxNumberForDownload = localStorage.getItem('companyTaxNumber') || '';
-                            const companyCommercialRegForDownload = localStorage.getItem('companyCommercialReg') || '';
-                            const companyAddressForDownload = localStorage.getItem('companyAddress') || '';
-                            const companyCityPostalForDownload = localStorage.getItem('companyCityPostal') || '';
-                            const blob = new Blob([generateInvoiceHTML(
-                              invoice,
-                              logoForDownload,
-                              undefined,
-                              undefined,
-                              true,
-                              companyNameForDownload,
-                              companyNameArForDownload,
-                              companyTaxNumberForDownload,
-                              companyCommercialRegForDownload,
-                              companyAddressForDownload,
-                              companyCityPostalForDownload
-                            )], { type: 'text/html' });
-                            const url = URL.createObjectURL(blob);
-                            const a = document.createElement('a');
-                            a.href = url;
-                            a.download = `${invoice.invoiceNumber}.html`;
-                            a.click();
-                            toast.success("Invoice downloaded successfully");
-                          }}
+                          title={t("contracts.downloadPdf")}
+                          onClick={() => void downloadInvoicePdf(invoice)}
                         >
                           <Download className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title={t("invoices.exportXml")}
+                          onClick={() => void exportZatcaXml(invoice)}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -3905,12 +4195,12 @@ const generateInvoiceHTML = (
                 {isLoadingMore ? (
                   <>
                     <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                    Loading...
+                    {t("common.loading")}
                   </>
                 ) : (
                   <>
-                    Load More Invoices
-                    <span className="text-muted-foreground">({dbInvoices.length} loaded)</span>
+                    {t("invoices.loadMore")}
+                    <span className="text-muted-foreground">{t("invoices.loaded", { count: dbInvoices.length })}</span>
                   </>
                 )}
               </Button>
@@ -3920,7 +4210,7 @@ const generateInvoiceHTML = (
           {/* End of data message */}
           {!hasMore && dbInvoices.length > 0 && (
             <div className="text-center text-muted-foreground mt-4 text-sm">
-              Showing all {dbInvoices.length} invoices
+              {t("invoices.showingAll", { count: dbInvoices.length })}
             </div>
           )}
         </CardContent>
@@ -3930,13 +4220,13 @@ const generateInvoiceHTML = (
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Edit Invoice</DialogTitle>
-            <DialogDescription>Update invoice date and other details</DialogDescription>
+            <DialogTitle>{t("invoices.editTitle")}</DialogTitle>
+            <DialogDescription>{t("invoices.editDescription")}</DialogDescription>
           </DialogHeader>
           {selectedInvoice && (
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="edit-invoice-number">Invoice Number</Label>
+                <Label htmlFor="edit-invoice-number">{t("invoices.invoiceNumber")}</Label>
                 <Input
                   id="edit-invoice-number"
                   value={selectedInvoice.invoiceNumber}
@@ -3946,7 +4236,7 @@ const generateInvoiceHTML = (
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="edit-customer">Customer</Label>
+                <Label htmlFor="edit-customer">{t("common.customer")}</Label>
                 <Input
                   id="edit-customer"
                   value={selectedInvoice.customerName}
@@ -3956,7 +4246,7 @@ const generateInvoiceHTML = (
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="edit-date">Invoice Date</Label>
+                <Label htmlFor="edit-date">{t("invoices.invoiceDate")}</Label>
                 <Input
                   id="edit-date"
                   type="date"
@@ -3967,22 +4257,22 @@ const generateInvoiceHTML = (
               </div>
               
               <div className="space-y-2">
-                <Label>Current Total</Label>
+                <Label>{t("invoices.currentTotal")}</Label>
                 <Input
-                  value={`${selectedInvoice.grandTotal.toFixed(2)} ر.س`}
+                  value={formatCurrency(selectedInvoice.grandTotal)}
                   disabled
                   className="bg-muted"
                 />
               </div>
               
               <div className="space-y-2">
-                <Label>Current Status</Label>
+                <Label>{t("invoices.currentStatus")}</Label>
                 <Badge className={
                   selectedInvoice.status === "paid" ? "bg-green-100 text-green-700 border-green-200" :
                   selectedInvoice.status === "partial" ? "bg-yellow-100 text-yellow-700 border-yellow-200" :
                   "bg-gray-100 text-gray-700 border-gray-200"
                 }>
-                  {selectedInvoice.status === "paid" ? "Paid" : selectedInvoice.status === "partial" ? "Partial" : "Draft"}
+                  {t(`status.${selectedInvoice.status}`)}
                 </Badge>
               </div>
             </div>
@@ -3997,194 +4287,223 @@ const generateInvoiceHTML = (
                 setEditingInvoiceDate("");
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={updateInvoiceDate}
               disabled={isEditingInvoice}
               className="bg-blue-600 hover:bg-blue-700"
             >
-              {isEditingInvoice ? "Updating..." : "Update Invoice"}
+              {isEditingInvoice ? t("invoices.updating") : t("invoices.update")}
             </Button>
           </div>
         </DialogContent>
       </Dialog>
 
       {/* View Dialog */}
-      <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+      <Dialog
+        open={isViewDialogOpen}
+        onOpenChange={(open) => {
+          setIsViewDialogOpen(open);
+          if (!open) closeInvoice();
+        }}
+      >
         <DialogContent className="max-w-4xl max-h-[90vh]">
           <DialogHeader>
-            <DialogTitle>Invoice Preview</DialogTitle>
-            <DialogDescription>Preview invoice before printing or downloading</DialogDescription>
+            <DialogTitle>{t("invoices.previewTitle")}</DialogTitle>
+            <DialogDescription>{t("invoices.previewDescription")}</DialogDescription>
           </DialogHeader>
           {selectedInvoice && (
-            <div className="space-y-4 overflow-y-auto max-h-[calc(90vh-200px)] p-1">
-              {/* Invoice Header */}
-              <div className="border rounded-lg p-4 bg-gradient-to-br from-purple-50 to-blue-50">
-                <div className="flex items-center justify-between mb-4">
-                  <div>
-                    <h3 className="text-xl font-bold text-purple-900">منى سمارت - Mana Smart</h3>
-                    <p className="text-sm text-muted-foreground">Khobar, Saudi Arabia</p>
-                  </div>
-                  <div className="text-right">
-                    <h2 className="text-2xl font-bold text-purple-600">INVOICE</h2>
-                    <p className="text-sm font-mono">{selectedInvoice.invoiceNumber}</p>
-                    <Badge className="mt-1 bg-green-600 text-white">TAX INVOICE</Badge>
+            <Tabs defaultValue="invoice" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="invoice">{t("invoices.tabInvoice")}</TabsTrigger>
+                <TabsTrigger value="history">{t("contracts.historyTab")}</TabsTrigger>
+              </TabsList>
+              <TabsContent value="history">
+                <RecordHistory table="invoices" rowId={selectedInvoice.dbInvoiceId} />
+              </TabsContent>
+              <TabsContent value="invoice">
+                <div className="space-y-4 overflow-y-auto max-h-[calc(90vh-250px)] p-1">
+                  {/* Invoice Header */}
+                  <div className="border rounded-lg p-4 bg-gradient-to-br from-purple-50 to-blue-50">
+                    <div className="flex items-center justify-between mb-4">
+                      <div>
+                        <h3 className="text-xl font-bold text-purple-900">منى سمارت - Mana Smart</h3>
+                        <p className="text-sm text-muted-foreground">Khobar, Saudi Arabia</p>
+                      </div>
+                      <div className="text-end">
+                        <h2 className="text-2xl font-bold text-purple-600">INVOICE</h2>
+                        <p className="text-sm font-mono">{selectedInvoice.invoiceNumber}</p>
+                        <Badge className="mt-1 bg-green-600 text-white">TAX INVOICE</Badge>
+                      </div>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      <p>VAT: 311234567800003 | C.R.: 2051245473</p>
+                      <p>{t("invoices.dateValue", { date: formatDate(selectedInvoice.date) })}</p>
+                    </div>
                   </div>
-                </div>
-                <div className="text-xs text-muted-foreground">
-                  <p>VAT: 311234567800003 | C.R.: 2051245473</p>
-                  <p>Date: {new Date(selectedInvoice.date).toLocaleDateString('en-GB')}</p>
-                </div>
-              </div>
 
-              {/* Customer Info */}
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-base">Bill To</CardTitle>
-                </CardHeader>
-                <CardContent className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <Label className="text-muted-foreground">Name:</Label>
-                    <p className="font-medium">{selectedInvoice.customerName}</p>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground">C.R.:</Label>
-                    <p className="font-medium">{selectedInvoice.commercialRegister}</p>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground">Mobile:</Label>
-                    <p className="font-medium">{selectedInvoice.mobile}</p>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground">VAT:</Label>
-                    <p className="font-medium">{selectedInvoice.taxNumber}</p>
-                  </div>
-                  <div className="col-span-2">
-                    <Label className="text-muted-foreground">Location:</Label>
-                    <p className="font-medium">{selectedInvoice.location}</p>
-                  </div>
-                </CardContent>
-              </Card>
+                  {/* Customer Info */}
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-base">{t("invoices.billTo")}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <Label className="text-muted-foreground">{t("quotations.nameLabel")}</Label>
+                        <p className="font-medium">{selectedInvoice.customerName}</p>
+                      </div>
+                      <div>
+                        <Label className="text-muted-foreground">{t("quotations.crLabel")}</Label>
+                        <p className="font-medium">{selectedInvoice.commercialRegister}</p>
+                      </div>
+                      <div>
+                        <Label className="text-muted-foreground">{t("quotations.mobileLabel")}</Label>
+                        <p className="font-medium">{selectedInvoice.mobile}</p>
+                      </div>
+                      <div>
+                        <Label className="text-muted-foreground">{t("quotations.vatNumberLabel")}</Label>
+                        <p className="font-medium">{selectedInvoice.taxNumber}</p>
+                      </div>
+                      <div className="col-span-2">
+                        <Label className="text-muted-foreground">{t("quotations.locationLabel")}</Label>
+                        <p className="font-medium">{selectedInvoice.location}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
 
-              {/* Items */}
-              <Card>
-                <CardContent className="p-0">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Description</TableHead>
-                        <TableHead className="text-center">Qty</TableHead>
-                        <TableHead className="text-right">Price</TableHead>
-                        <TableHead className="text-center">Disc%</TableHead>
-                        <TableHead className="text-right">Total</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {selectedInvoice.items.map((item) => (
-                        <TableRow key={item.id}>
-                          <TableCell>{item.description}</TableCell>
-                          <TableCell className="text-center">{item.quantity}</TableCell>
-                          <TableCell className="text-right">{item.unitPrice.toFixed(2)} ر.س</TableCell>
-                          <TableCell className="text-center">{item.discountPercent}%</TableCell>
-                          <TableCell className="text-right font-medium">{item.total.toFixed(2)} ر.س</TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </CardContent>
-              </Card>
+                  {/* Items */}
+                  <Card>
+                    <CardContent className="p-0">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{t("quotations.description")}</TableHead>
+                            <TableHead className="text-center">{t("quotations.qty")}</TableHead>
+                            <TableHead className="text-end">{t("invoices.price")}</TableHead>
+                            <TableHead className="text-center">{t("quotations.discPercent")}</TableHead>
+                            <TableHead className="text-end">{t("common.total")}</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {selectedInvoice.items.map((item) => (
+                            <TableRow key={item.id}>
+                              <TableCell>{item.description}</TableCell>
+                              <TableCell className="text-center">{item.quantity}</TableCell>
+                              <TableCell className="text-end">{formatCurrency(item.unitPrice)}</TableCell>
+                              <TableCell className="text-center">{item.discountPercent}%</TableCell>
+                              <TableCell className="text-end font-medium">{formatCurrency(item.total)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
 
-              {/* Summary */}
-              <Card className="bg-gray-50">
-                <CardContent className="pt-6">
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Subtotal:</span>
-                      <span>{selectedInvoice.totalBeforeDiscount.toFixed(2)} ر.س</span>
-                    </div>
-                    {selectedInvoice.totalDiscount > 0 && (
-                      <div className="flex justify-between text-sm">
-                        <span className="text-muted-foreground">Discount:</span>
-                        <span className="text-red-600">- {selectedInvoice.totalDiscount.toFixed(2)} ر.س</span>
+                  {/* Summary */}
+                  <Card className="bg-gray-50">
+                    <CardContent className="pt-6">
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">{t("quotations.subtotalLabel")}</span>
+                          <span>{formatCurrency(selectedInvoice.totalBeforeDiscount)}</span>
+                        </div>
+                        {selectedInvoice.totalDiscount > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">{t("quotations.discountLabel")}</span>
+                            <span className="text-red-600">-{formatCurrency(selectedInvoice.totalDiscount)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">{t("quotations.afterDiscount")}</span>
+                          <span>{formatCurrency(selectedInvoice.totalAfterDiscount)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">{t("quotations.vatLabel")}</span>
+                          <span>{formatCurrency(selectedInvoice.totalVAT)}</span>
+                        </div>
+                        <Separator />
+                        <div className="flex justify-between text-lg font-bold">
+                          <span>{t("quotations.grandTotal")}</span>
+                          <span className="text-purple-600">{formatCurrency(selectedInvoice.grandTotal)}</span>
+                        </div>
+                        {selectedInvoice.creditedAmount > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">{t("invoices.creditNotes")}</span>
+                            <span>-{formatCurrency(selectedInvoice.creditedAmount)}</span>
+                          </div>
+                        )}
+                        {selectedInvoice.debitedAmount > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">{t("invoices.debitNotes")}</span>
+                            <span>+{formatCurrency(selectedInvoice.debitedAmount)}</span>
+                          </div>
+                        )}
+                        <Separator />
+                        <div className="flex justify-between text-sm font-semibold">
+                          <span className="text-green-600">{t("invoices.paidLabel")}</span>
+                          <span className="text-green-600">{formatCurrency(selectedInvoice.paidAmount)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm font-semibold">
+                          <span className="text-orange-600">{t("invoices.remainingLabel")}</span>
+                          <span className="text-orange-600">{formatCurrency(selectedInvoice.remainingAmount)}</span>
+                        </div>
                       </div>
-                    )}
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">After Discount:</span>
-                      <span>{selectedInvoice.totalAfterDiscount.toFixed(2)} ر.س</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">VAT (15%):</span>
-                      <span>{selectedInvoice.totalVAT.toFixed(2)} ر.س</span>
-                    </div>
-                    <Separator />
-                    <div className="flex justify-between text-lg font-bold">
-                      <span>Grand Total:</span>
-                      <span className="text-purple-600">{selectedInvoice.grandTotal.toFixed(2)} ر.س</span>
-                    </div>
-                    <Separator />
-                    <div className="flex justify-between text-sm font-semibold">
-                      <span className="text-green-600">Paid:</span>
-                      <span className="text-green-600">{selectedInvoice.paidAmount.toFixed(2)} ر.س</span>
-                    </div>
-                    <div className="flex justify-between text-sm font-semibold">
-                      <span className="text-orange-600">Remaining:</span>
-                      <span className="text-orange-600">{selectedInvoice.remainingAmount.toFixed(2)} ر.س</span>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+                    </CardContent>
+                  </Card>
 
-              {/* Print Date Selection */}
-              {/* <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm">Print Date Options</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <Label className="text-xs">Choose date to display on printed invoice:</Label>
-                    <Select 
-                      value={printDateOption} 
-                      onValueChange={(value: "invoice_date" | "today" | "custom") => setPrintDateOption(value)}
-                    >
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="invoice_date">Invoice Date ({new Date(selectedInvoice.date).toLocaleDateString('en-GB')})</SelectItem>
-                        <SelectItem value="today">Today's Date ({new Date().toLocaleDateString('en-GB')})</SelectItem>
-                        <SelectItem value="custom">Custom Date</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    {printDateOption === "custom" && (
-                      <div className="mt-2">
-                        <Label className="text-xs">Select Custom Date:</Label>
-                        <Input
-                          type="date"
-                          value={customPrintDate}
-                          onChange={(e) => setCustomPrintDate(e.target.value)}
-                          className="h-8 text-sm mt-1"
-                        />
+                  {/* Print Date Selection */}
+                  {/* <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Print Date Options</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <Label className="text-xs">Choose date to display on printed invoice:</Label>
+                        <Select 
+                          value={printDateOption} 
+                          onValueChange={(value: "invoice_date" | "today" | "custom") => setPrintDateOption(value)}
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="invoice_date">Invoice Date ({new Date(selectedInvoice.date).toLocaleDateString('en-GB')})</SelectItem>
+                            <SelectItem value="today">Today's Date ({new Date().toLocaleDateString('en-GB')})</SelectItem>
+                            <SelectItem value="custom">Custom Date</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {printDateOption === "custom" && (
+                          <div className="mt-2">
+                            <Label className="text-xs">Select Custom Date:</Label>
+                            <Input
+                              type="date"
+                              value={customPrintDate}
+                              onChange={(e) => setCustomPrintDate(e.target.value)}
+                              className="h-8 text-sm mt-1"
+                            />
+                          </div>
+                        )}
                       </div>
-                    )}
+                    </CardContent>
+                  </Card> */}
+
+                  {/* Actions */}
+                  <div className="flex justify-end gap-2 pt-4 border-t">
+                    <Button variant="outline" onClick={closeInvoice}>
+                      {t("common.close")}
+                    </Button>
+                    <Button onClick={() => {
+                      void printInvoice(selectedInvoice);
+                      closeInvoice();
+                    }}>
+                      <Printer className="h-4 w-4 me-2" />
+                      {t("common.print")}
+                    </Button>
                   </div>
-                </CardContent>
-              </Card> */}
-
-              {/* Actions */}
-              <div className="flex justify-end gap-2 pt-4 border-t">
-                <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-                  Close
-                </Button>
-                <Button onClick={() => {
-                  void printInvoice(selectedInvoice);
-                  setIsViewDialogOpen(false);
-                }}>
-                  <Printer className="h-4 w-4 mr-2" />
-                  Print
-                </Button>
-              </div>
-            </div>
+                </div>
+              </TabsContent>
+            </Tabs>
           )}
         </DialogContent>
       </Dialog>
@@ -4195,10 +4514,10 @@ const generateInvoiceHTML = (
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <CreditCard className="h-5 w-5 text-green-600" />
-              Collect Payment - تحصيل الدفعة
+              {t("invoices.collectTitle")}
             </DialogTitle>
             <DialogDescription>
-              Record payment for invoice {selectedInvoice?.invoiceNumber}
+              {t("invoices.collectDescription", { number: selectedInvoice?.invoiceNumber ?? "" })}
             </DialogDescription>
           </DialogHeader>
 
@@ -4209,29 +4528,29 @@ const generateInvoiceHTML = (
                 <CardContent className="pt-6">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label className="text-sm text-muted-foreground">Customer</Label>
+                      <Label className="text-sm text-muted-foreground">{t("common.customer")}</Label>
                       <p className="font-semibold">{selectedInvoice.customerName}</p>
                       <p className="text-sm text-muted-foreground">{selectedInvoice.mobile}</p>
                     </div>
                     <div>
-                      <Label className="text-sm text-muted-foreground">Invoice Number</Label>
+                      <Label className="text-sm text-muted-foreground">{t("invoices.invoiceNumber")}</Label>
                       <p className="font-semibold">{selectedInvoice.invoiceNumber}</p>
-                      <p className="text-sm text-muted-foreground">{new Date(selectedInvoice.date).toLocaleDateString('en-GB')}</p>
+                      <p className="text-sm text-muted-foreground">{formatDate(selectedInvoice.date)}</p>
                     </div>
                   </div>
                   <Separator className="my-4" />
                   <div className="grid grid-cols-3 gap-4">
                     <div className="text-center p-3 bg-white rounded-lg border">
-                      <Label className="text-xs text-muted-foreground">Total Amount</Label>
-                      <p className="text-2xl font-bold text-blue-600">{selectedInvoice.grandTotal.toFixed(2)} ر.س</p>
+                      <Label className="text-xs text-muted-foreground">{t("invoices.totalAmount")}</Label>
+                      <p className="text-2xl font-bold text-blue-600">{formatCurrency(selectedInvoice.grandTotal)}</p>
                     </div>
                     <div className="text-center p-3 bg-white rounded-lg border">
-                      <Label className="text-xs text-muted-foreground">Paid Amount</Label>
-                      <p className="text-2xl font-bold text-green-600">{selectedInvoice.paidAmount.toFixed(2)} ر.س</p>
+                      <Label className="text-xs text-muted-foreground">{t("invoices.paidAmount")}</Label>
+                      <p className="text-2xl font-bold text-green-600">{formatCurrency(selectedInvoice.paidAmount)}</p>
                     </div>
                     <div className="text-center p-3 bg-white rounded-lg border">
-                      <Label className="text-xs text-muted-foreground">Remaining</Label>
-                      <p className="text-2xl font-bold text-orange-600">{selectedInvoice.remainingAmount.toFixed(2)} ر.س</p>
+                      <Label className="text-xs text-muted-foreground">{t("invoices.remaining")}</Label>
+                      <p className="text-2xl font-bold text-orange-600">{formatCurrency(selectedInvoice.remainingAmount)}</p>
                     </div>
                   </div>
                 </CardContent>
@@ -4241,7 +4560,7 @@ const generateInvoiceHTML = (
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="paymentAmount">Payment Amount (ر.س) *</Label>
+                    <Label htmlFor="paymentAmount">{t("invoices.paymentAmount")}</Label>
                     <Input
                       id="paymentAmount"
                       type="number"
@@ -4263,7 +4582,7 @@ const generateInvoiceHTML = (
                           const roundedRemainingInput = Math.round(selectedInvoice.remainingAmount * 100) / 100;
                           if (roundedValue > roundedRemainingInput + 0.01) {
                             setPaymentAmount(selectedInvoice.remainingAmount.toFixed(2));
-                            toast.warning(`Payment amount cannot exceed remaining amount of ${selectedInvoice.remainingAmount.toFixed(2)} ر.س`);
+                            toast.warning(t("invoices.paymentExceedsRemainingAmount", { amount: formatCurrency(selectedInvoice.remainingAmount) }));
                           } else {
                             setPaymentAmount(value);
                           }
@@ -4288,13 +4607,13 @@ const generateInvoiceHTML = (
                         variant="outline"
                         onClick={() => setPaymentAmount(selectedInvoice.remainingAmount.toFixed(2))}
                       >
-                        Full Amount
+                        {t("invoices.fullAmount")}
                       </Button>
                     </div>
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="paymentDate">Payment Date *</Label>
+                    <Label htmlFor="paymentDate">{t("invoices.paymentDate")}</Label>
                     <Input
                       id="paymentDate"
                       type="date"
@@ -4305,15 +4624,15 @@ const generateInvoiceHTML = (
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="paymentMethod">Payment Method *</Label>
+                  <Label htmlFor="paymentMethod">{t("invoices.paymentMethod")}</Label>
                   <Select value={paymentMethod} onValueChange={setPaymentMethod}>
                     <SelectTrigger id="paymentMethod">
-                      <SelectValue placeholder="Select payment method" />
+                      <SelectValue placeholder={t("invoices.selectPaymentMethod")} />
                     </SelectTrigger>
                     <SelectContent>
                       {PAYMENT_METHOD_OPTIONS.map((option) => (
                         <SelectItem key={option.value} value={option.value}>
-                          {option.label}
+                          {t(`invoices.paymentMethod.${option.value}`)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -4326,7 +4645,7 @@ const generateInvoiceHTML = (
                     <CardHeader className="pb-3">
                       <CardTitle className="text-base flex items-center gap-2">
                         <Wallet className="h-5 w-5 text-green-600" />
-                        Payment History - سجل المدفوعات
+                        {t("invoices.paymentHistory")}
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
@@ -4338,14 +4657,17 @@ const generateInvoiceHTML = (
                                 <span className="text-xs font-bold text-green-700">#{index + 1}</span>
                               </div>
                               <div>
-                                <p className="font-medium">{payment.amount.toFixed(2)} ر.س</p>
+                                <p className="font-medium">{formatCurrency(payment.amount)}</p>
                                 <p className="text-xs text-muted-foreground">
-                                  {new Date(payment.date).toLocaleDateString('en-GB')} • {payment.method}
+                                  {formatDate(payment.date)} •{" "}
+                                  {payment.methodValue && PAYMENT_METHOD_VALUES.has(payment.methodValue)
+                                    ? t(`invoices.paymentMethod.${payment.methodValue as PaymentMethod}`)
+                                    : payment.method}
                                 </p>
                               </div>
                             </div>
                             <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                              Paid
+                              {t("status.paid")}
                             </Badge>
                           </div>
                         ))}
@@ -4359,27 +4681,27 @@ const generateInvoiceHTML = (
                     <CardContent className="pt-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <Label className="text-sm text-muted-foreground">New Paid Amount</Label>
+                          <Label className="text-sm text-muted-foreground">{t("invoices.newPaidAmount")}</Label>
                           <p className="text-xl font-bold text-green-600">
-                            {(selectedInvoice.paidAmount + parseFloat(paymentAmount || "0")).toFixed(2)} ر.س
+                            {formatCurrency((selectedInvoice.paidAmount + parseFloat(paymentAmount || "0")))}
                           </p>
                         </div>
                         <div>
-                          <Label className="text-sm text-muted-foreground">New Remaining</Label>
+                          <Label className="text-sm text-muted-foreground">{t("invoices.newRemaining")}</Label>
                           <p className="text-xl font-bold text-orange-600">
-                            {Math.max(0, selectedInvoice.remainingAmount - parseFloat(paymentAmount || "0")).toFixed(2)} ر.س
+                            {formatCurrency(Math.max(0, selectedInvoice.remainingAmount - parseFloat(paymentAmount || "0")))}
                           </p>
                         </div>
                         <div>
-                          <Label className="text-sm text-muted-foreground">New Status</Label>
+                          <Label className="text-sm text-muted-foreground">{t("invoices.newStatus")}</Label>
                           <Badge className={
                             Math.max(0, selectedInvoice.remainingAmount - parseFloat(paymentAmount || "0")) <= 0
                               ? "bg-green-100 text-green-700 border-green-200"
                               : "bg-yellow-100 text-yellow-700 border-yellow-200"
                           }>
                             {Math.max(0, selectedInvoice.remainingAmount - parseFloat(paymentAmount || "0")) <= 0
-                              ? "✅ Paid"
-                              : "💰 Partial"}
+                              ? `✅ ${t("status.paid")}`
+                              : `💰 ${t("status.partial")}`}
                           </Badge>
                         </div>
                       </div>
@@ -4394,7 +4716,7 @@ const generateInvoiceHTML = (
                   variant="outline"
                   onClick={() => setIsPaymentDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button
                   className="gap-2 bg-green-600 hover:bg-green-700"
@@ -4404,24 +4726,24 @@ const generateInvoiceHTML = (
                     
                     try {
                       if (!selectedInvoice) {
-                        toast.error("No invoice selected");
+                        toast.error(t("invoices.noInvoiceSelected"));
                         return;
                       }
 
                       const amount = parseFloat(paymentAmount);
 
                       if (!paymentAmount || Number.isNaN(amount) || amount <= 0) {
-                        toast.error("Please enter a valid payment amount");
+                        toast.error(t("invoices.validPaymentAmount"));
                         return;
                       }
 
                       if (!paymentMethod) {
-                        toast.error("Please select a payment method");
+                        toast.error(t("invoices.paymentMethodRequired"));
                         return;
                       }
 
                       if (!PAYMENT_METHOD_VALUES.has(paymentMethod)) {
-                        toast.error("Selected payment method is not supported. Please choose another method.");
+                        toast.error(t("invoices.paymentMethodUnsupported"));
                         return;
                       }
 
@@ -4429,7 +4751,7 @@ const generateInvoiceHTML = (
                       (inv) => inv.invoice_id === selectedInvoice.dbInvoiceId
                     );
                     if (!dbInvoice) {
-                      toast.error("Invoice not found");
+                      toast.error(t("invoices.notFound"));
                       return;
                     }
 
@@ -4456,6 +4778,11 @@ const generateInvoiceHTML = (
                     if (totalAmount <= 0 && calculatedItemsTotal > 0) {
                       totalAmount = calculatedItemsTotal;
                     }
+                    // What is due after credit/debit notes
+                    totalAmount = Math.max(
+                      0,
+                      totalAmount + Number(dbInvoice.debited_amount ?? 0) - Number(dbInvoice.credited_amount ?? 0)
+                    );
 
                     const relatedPayments = dbPayments.filter(
                       (payment) => payment.invoice_id === dbInvoice.invoice_id
@@ -4502,7 +4829,7 @@ const generateInvoiceHTML = (
                     const roundedRemaining = Math.round(remainingBefore * 100) / 100;
 
                     if (roundedAmount > roundedRemaining + 0.01) {
-                      toast.error("Payment amount cannot exceed remaining amount");
+                      toast.error(t("invoices.paymentExceedsRemaining"));
                       return;
                     }
 
@@ -4519,7 +4846,7 @@ const generateInvoiceHTML = (
                       ).unwrap();
                     } catch (error: any) {
                       const message =
-                        error?.message || error?.error?.message || "Failed to record payment";
+                        error?.message || error?.error?.message || t("invoices.recordPaymentFailed");
                       toast.error(message);
                       return;
                     }
@@ -4568,21 +4895,21 @@ const generateInvoiceHTML = (
                       refetchInvoices(); // Refetch after payment update
                     } catch (error: any) {
                       const message =
-                        error?.message || error?.error?.message || "Failed to update invoice";
+                        error?.message || error?.error?.message || t("invoices.updateFailed");
                       toast.error(message);
                       return;
                     }
 
                     // No need to fetchAll since createOne and updateOne should optimistically update the Redux store
 
-                    toast.success(`Payment of ${amount.toFixed(2)} ر.س collected successfully!`);
+                    toast.success(t("invoices.paymentCollected", { amount: formatCurrency(amount) }));
                     setIsPaymentDialogOpen(false);
                     setPaymentAmount("");
                     setPaymentMethod("");
                     setPaymentDate(new Date().toISOString().split("T")[0]);
                     } catch (error: any) {
                       const message =
-                        error?.message || error?.error?.message || "Failed to process payment";
+                        error?.message || error?.error?.message || t("invoices.processPaymentFailed");
                       toast.error(message);
                     } finally {
                       setIsProcessingPayment(false);
@@ -4590,13 +4917,33 @@ const generateInvoiceHTML = (
                   }}
                 >
                   <Wallet className="h-4 w-4" />
-                  {isProcessingPayment ? "Processing..." : "Confirm Payment"}
+                  {isProcessingPayment ? t("invoices.processing") : t("invoices.confirmPayment")}
                 </Button>
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <InvoiceNotesDialog
+        open={notesInvoice !== null}
+        onOpenChange={(open) => {
+          if (!open) setNotesInvoice(null);
+        }}
+        invoice={dbInvoices.find((inv) => inv.invoice_id === notesInvoice?.dbInvoiceId) ?? null}
+        invoiceNumber={notesInvoice?.invoiceNumber ?? ""}
+        notes={notesInvoice?.dbInvoiceId ? notesByInvoice.get(notesInvoice.dbInvoiceId) ?? [] : []}
+        onIssued={() => {
+          // credited/debited totals are updated on the invoice by the database
+          void refetchInvoices();
+        }}
+        onPrint={(note) => {
+          if (notesInvoice) void printInvoice(noteAsInvoice(notesInvoice, note));
+        }}
+        onExportXml={(note) => {
+          if (notesInvoice) void exportNoteXml(notesInvoice, note);
+        }}
+      />
     </div>
   );
 }
@@ -27,6 +27,8 @@ import { Textarea } from "./ui/textarea";
 import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { thunks, selectors } from "../redux-toolkit/slices";
 import type { Delegates } from "../../supabase/models/delegates";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 // Data now comes from Supabase via Redux
 
@@ -43,6 +45,32 @@ const getInterestColor = (interest: string) => {
   }
 };
 
+const SOURCE_KEYS: Record<string, MessageKey> = {
+  website: "leads.source.website",
+  referral: "leads.source.referral",
+  exhibition: "leads.source.exhibition",
+  call: "leads.source.directCall",
+  "direct call": "leads.source.directCall",
+  social: "leads.source.socialMedia",
+  "social media": "leads.source.socialMedia",
+};
+
+const INTEREST_KEYS: Record<string, MessageKey> = {
+  high: "leads.interest.high",
+  medium: "leads.interest.medium",
+  low: "leads.interest.low",
+};
+
+const STATUS_KEYS: Record<string, MessageKey> = {
+  new: "leads.status.new",
+  contacted: "leads.status.contacted",
+  quoted: "leads.status.quoted",
+  follow_up: "leads.status.followUp",
+  negotiating: "leads.status.negotiating",
+  won: "leads.status.won",
+  lost: "leads.status.lost",
+};
+
 interface Lead {
   id: number;
   dbId?: string;
@@ -63,6 +91,12 @@ interface Lead {
 }
 
 export function Leads() {
+  const { t, formatNumber } = useLocale();
+  // Sources and interest levels are stored as typed, in either case
+  const optionLabel = (keys: Record<string, MessageKey>, value: string) => {
+    const key = keys[value.toLowerCase()];
+    return key ? t(key) : value;
+  };
   const dispatch = useAppDispatch();
   const dbLeads = useAppSelector(selectors.leads.selectAll) as any[];
   const dbDelegates = useAppSelector(selectors.delegates.selectAll) as Delegates[];
@@ -144,11 +178,11 @@ export function Leads() {
         }
       })
       .then(() => {
-        toast.success(`${lead.name} has been converted to a customer!`, {
-          description: 'The lead has been moved to the Customers section',
+        toast.success(translateCurrent('leads.converted', { name: lead.name }), {
+          description: translateCurrent('leads.convertedDescription'),
         });
       })
-      .catch((e: any) => toast.error(e.message || 'Failed to convert lead'));
+      .catch((e: any) => toast.error(e.message || translateCurrent('leads.convertFailed')));
   };
 
   const updateLeadStatus = (leadId: number, newStatus: string) => {
@@ -161,18 +195,10 @@ export function Leads() {
       .then(() => {
         // Refetch leads to ensure UI is updated
         dispatch(thunks.leads.fetchAll(undefined));
-        const statusLabels: Record<string, string> = {
-          new: 'New',
-          contacted: 'Contacted',
-          quoted: 'Quoted',
-          follow_up: 'Follow-up',
-          negotiating: 'Negotiating',
-          won: 'Won',
-          lost: 'Lost'
-        };
-        toast.success(`Lead status updated to ${statusLabels[dbStatus] || dbStatus}`);
+        const status = STATUS_KEYS[dbStatus] ? translateCurrent(STATUS_KEYS[dbStatus]) : dbStatus;
+        toast.success(translateCurrent('leads.statusUpdated', { status }));
       })
-      .catch((e: any) => toast.error(e.message || 'Failed to update lead'));
+      .catch((e: any) => toast.error(e.message || translateCurrent('leads.updateFailed')));
   };
 
   const handleEditLead = (lead: Lead) => {
@@ -199,19 +225,19 @@ export function Leads() {
       .then(() => {
         setIsEditDialogOpen(false);
         setEditingLead(null);
-        toast.success('Lead updated successfully!');
+        toast.success(translateCurrent('leads.updated'));
       })
-      .catch((e: any) => toast.error(e.message || 'Failed to update lead'));
+      .catch((e: any) => toast.error(e.message || translateCurrent('leads.updateFailed')));
   };
 
   const handleDeleteLead = (leadId: number) => {
     const target = leads.find(l => l.id === leadId);
     if (!target?.dbId) return;
-    if (confirm('Are you sure you want to delete this lead?')) {
+    if (confirm(t('leads.deleteConfirm'))) {
       dispatch(thunks.leads.deleteOne(target.dbId))
         .unwrap()
-        .then(() => toast.success('Lead deleted successfully!'))
-        .catch((e: any) => toast.error(e.message || 'Failed to delete lead'));
+        .then(() => toast.success(translateCurrent('leads.deleted')))
+        .catch((e: any) => toast.error(e.message || translateCurrent('leads.deleteFailed')));
     }
   };
 
@@ -240,8 +266,8 @@ export function Leads() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2>Leads Management</h2>
-          <p className="text-muted-foreground mt-1">Manage potential customers and track opportunities</p>
+          <h2>{t("leads.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("leads.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <ImportExcelButton section="Leads" />
@@ -249,95 +275,95 @@ export function Leads() {
             <DialogTrigger asChild>
               <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                Add New Lead
+                {t("leads.addNew")}
               </Button>
             </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Add New Lead</DialogTitle>
-              <DialogDescription>Enter potential customer details</DialogDescription>
+              <DialogTitle>{t("leads.addNew")}</DialogTitle>
+              <DialogDescription>{t("leads.addDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="lead-name">Company/Organization Name</Label>
-                  <Input id="lead-name" placeholder="Enter name" value={createForm.name} onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })} />
+                  <Label htmlFor="lead-name">{t("leads.companyName")}</Label>
+                  <Input id="lead-name" placeholder={t("leads.namePlaceholder")} value={createForm.name} onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="lead-contact">Contact Person</Label>
-                  <Input id="lead-contact" placeholder="Contact person name" value={createForm.contactPerson} onChange={(e) => setCreateForm({ ...createForm, contactPerson: e.target.value })} />
+                  <Label htmlFor="lead-contact">{t("leads.contactPerson")}</Label>
+                  <Input id="lead-contact" placeholder={t("leads.contactPersonPlaceholder")} value={createForm.contactPerson} onChange={(e) => setCreateForm({ ...createForm, contactPerson: e.target.value })} />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="lead-phone">Phone Number</Label>
+                  <Label htmlFor="lead-phone">{t("leads.phoneNumber")}</Label>
                   <Input id="lead-phone" placeholder="05xxxxxxxx" value={createForm.phone} onChange={(e) => setCreateForm({ ...createForm, phone: e.target.value })} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="lead-email">Email Address</Label>
+                  <Label htmlFor="lead-email">{t("leads.emailAddress")}</Label>
                   <Input id="lead-email" type="email" placeholder="email@example.com" value={createForm.email} onChange={(e) => setCreateForm({ ...createForm, email: e.target.value })} />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="lead-source">Lead Source</Label>
+                  <Label htmlFor="lead-source">{t("leads.leadSource")}</Label>
                   <Select value={createForm.source} onValueChange={(value) => setCreateForm({ ...createForm, source: value })}>
                     <SelectTrigger id="lead-source">
-                      <SelectValue placeholder="Select source" />
+                      <SelectValue placeholder={t("leads.selectSource")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="website">🌐 Website</SelectItem>
-                      <SelectItem value="referral">👥 Referral</SelectItem>
-                      <SelectItem value="exhibition">🎪 Exhibition</SelectItem>
-                      <SelectItem value="call">📱 Direct Call</SelectItem>
-                      <SelectItem value="social">📲 Social Media</SelectItem>
+                      <SelectItem value="website">🌐 {t("leads.source.website")}</SelectItem>
+                      <SelectItem value="referral">👥 {t("leads.source.referral")}</SelectItem>
+                      <SelectItem value="exhibition">🎪 {t("leads.source.exhibition")}</SelectItem>
+                      <SelectItem value="call">📱 {t("leads.source.directCall")}</SelectItem>
+                      <SelectItem value="social">📲 {t("leads.source.socialMedia")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="lead-interest">Interest Level</Label>
+                  <Label htmlFor="lead-interest">{t("leads.interestLevel")}</Label>
                   <Select value={createForm.interest} onValueChange={(value) => setCreateForm({ ...createForm, interest: value })}>
                     <SelectTrigger id="lead-interest">
-                      <SelectValue placeholder="Select level" />
+                      <SelectValue placeholder={t("leads.selectLevel")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="high">{t("leads.interest.high")}</SelectItem>
+                      <SelectItem value="medium">{t("leads.interest.medium")}</SelectItem>
+                      <SelectItem value="low">{t("leads.interest.low")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="lead-value">Estimated Value (Monthly)</Label>
+                  <Label htmlFor="lead-value">{t("leads.estimatedValueMonthly")}</Label>
                   <Input id="lead-value" placeholder="0.00" value={createForm.estimatedValue} onChange={(e) => setCreateForm({ ...createForm, estimatedValue: e.target.value })} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="lead-contact-method">Contact Method</Label>
+                  <Label htmlFor="lead-contact-method">{t("leads.contactMethod")}</Label>
                   <Select value={createForm.contactMethod} onValueChange={(value) => setCreateForm({ ...createForm, contactMethod: value })}>
                     <SelectTrigger id="lead-contact-method">
-                      <SelectValue placeholder="Select method" />
+                      <SelectValue placeholder={t("leads.selectMethod")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="field-visit">🚗 Field Visit</SelectItem>
-                      <SelectItem value="whatsapp">💬 WhatsApp</SelectItem>
-                      <SelectItem value="phone">📞 Phone Call</SelectItem>
-                      <SelectItem value="email">📧 Email</SelectItem>
+                      <SelectItem value="field-visit">🚗 {t("leads.method.fieldVisit")}</SelectItem>
+                      <SelectItem value="whatsapp">💬 {t("leads.method.whatsapp")}</SelectItem>
+                      <SelectItem value="phone">📞 {t("leads.method.phoneCall")}</SelectItem>
+                      <SelectItem value="email">📧 {t("leads.method.email")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="lead-representative">Assigned Representative</Label>
+                <Label htmlFor="lead-representative">{t("leads.assignedRepresentative")}</Label>
                 <Select value={createForm.delegateId || "none"} onValueChange={(value) => setCreateForm({ ...createForm, delegateId: value === "none" ? "" : value })}>
                   <SelectTrigger id="lead-representative">
-                    <SelectValue placeholder="Select representative" />
+                    <SelectValue placeholder={t("leads.selectRepresentative")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="none">{t("common.none")}</SelectItem>
                     {dbDelegates.length === 0 ? (
-                      <SelectItem value="none" disabled>No representatives available. Add representatives first.</SelectItem>
+                      <SelectItem value="none" disabled>{t("leads.noRepresentatives")}</SelectItem>
                     ) : (
                       dbDelegates.map(delegate => (
                         <SelectItem key={delegate.delegate_id} value={delegate.delegate_id}>
@@ -349,13 +375,13 @@ export function Leads() {
                 </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="lead-notes">Notes</Label>
-                <Textarea id="lead-notes" placeholder="Any notes about the customer..." rows={3} value={createForm.notes} onChange={(e) => setCreateForm({ ...createForm, notes: e.target.value })} />
+                <Label htmlFor="lead-notes">{t("common.notes")}</Label>
+                <Textarea id="lead-notes" placeholder={t("leads.notesPlaceholder")} rows={3} value={createForm.notes} onChange={(e) => setCreateForm({ ...createForm, notes: e.target.value })} />
               </div>
             </div>
             <div className="flex justify-end gap-3">
               <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={() => {
                 const values: any = {
@@ -375,14 +401,14 @@ export function Leads() {
                   .then(() => {
                     setIsAddDialogOpen(false);
                     setCreateForm({ name: '', contactPerson: '', phone: '', email: '', source: '', interest: '', status: 'New', estimatedValue: '', contactMethod: '', notes: '', delegateId: '' });
-                    toast.success('Lead added successfully!');
+                    toast.success(translateCurrent('leads.added'));
                   })
                   .catch((e: any) => {
                     console.error('Lead creation error:', e);
-                    toast.error(e?.message || e?.error?.message || 'Failed to add lead');
+                    toast.error(e?.message || e?.error?.message || translateCurrent('leads.addFailed'));
                   });
               }}>
-                Save Lead
+                {t("leads.save")}
               </Button>
             </div>
           </DialogContent>
@@ -393,34 +419,34 @@ export function Leads() {
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4>Total Leads</h4>
+            <h4>{t("leads.totalLeads")}</h4>
             <User className="h-4 w-4 text-primary" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{totalLeads}</div>
-            <p className="text-xs text-muted-foreground mt-1">New opportunities</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("leads.newOpportunities")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4>High Interest</h4>
+            <h4>{t("leads.highInterest")}</h4>
             <Star className="h-4 w-4 text-primary" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">{highInterest}</div>
-            <p className="text-xs text-muted-foreground mt-1">Requires follow-up</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("leads.requiresFollowUp")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4>Estimated Revenue</h4>
+            <h4>{t("leads.estimatedRevenue")}</h4>
             <ArrowRight className="h-4 w-4 text-primary" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{estimatedRevenue.toLocaleString()} SAR</div>
-            <p className="text-xs text-muted-foreground mt-1">Monthly upon conversion</p>
+            <div className="text-2xl font-bold">{t("leads.amountSar", { amount: formatNumber(estimatedRevenue) })}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leads.monthlyOnConversion")}</p>
           </CardContent>
         </Card>
       </div>
@@ -429,66 +455,66 @@ export function Leads() {
         <CardHeader>
           <div className="flex items-center gap-4">
             <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
               <Input
-                placeholder="Search for lead..."
+                placeholder={t("leads.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
+                className="ps-9"
               />
             </div>
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-[160px]">
-                <SelectValue placeholder="All Status" />
+                <SelectValue placeholder={t("common.allStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="new">🆕 New</SelectItem>
-                <SelectItem value="contacted">📞 Contacted</SelectItem>
-                <SelectItem value="quoted">💰 Quoted</SelectItem>
-                <SelectItem value="follow_up">🔄 Follow-up</SelectItem>
-                <SelectItem value="negotiating">🤝 Negotiating</SelectItem>
-                <SelectItem value="won">✅ Won</SelectItem>
-                <SelectItem value="lost">❌ Lost</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="new">🆕 {t("leads.status.new")}</SelectItem>
+                <SelectItem value="contacted">📞 {t("leads.status.contacted")}</SelectItem>
+                <SelectItem value="quoted">💰 {t("leads.status.quoted")}</SelectItem>
+                <SelectItem value="follow_up">🔄 {t("leads.status.followUp")}</SelectItem>
+                <SelectItem value="negotiating">🤝 {t("leads.status.negotiating")}</SelectItem>
+                <SelectItem value="won">✅ {t("leads.status.won")}</SelectItem>
+                <SelectItem value="lost">❌ {t("leads.status.lost")}</SelectItem>
               </SelectContent>
             </Select>
             <Select value={sourceFilter} onValueChange={setSourceFilter}>
               <SelectTrigger className="w-[160px]">
-                <SelectValue placeholder="All Sources" />
+                <SelectValue placeholder={t("leads.allSources")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Sources</SelectItem>
-                <SelectItem value="website">🌐 Website</SelectItem>
-                <SelectItem value="referral">👥 Referral</SelectItem>
-                <SelectItem value="exhibition">🎪 Exhibition</SelectItem>
-                <SelectItem value="direct call">📱 Direct Call</SelectItem>
-                <SelectItem value="social media">📲 Social Media</SelectItem>
+                <SelectItem value="all">{t("leads.allSources")}</SelectItem>
+                <SelectItem value="website">🌐 {t("leads.source.website")}</SelectItem>
+                <SelectItem value="referral">👥 {t("leads.source.referral")}</SelectItem>
+                <SelectItem value="exhibition">🎪 {t("leads.source.exhibition")}</SelectItem>
+                <SelectItem value="direct call">📱 {t("leads.source.directCall")}</SelectItem>
+                <SelectItem value="social media">📲 {t("leads.source.socialMedia")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </CardHeader>
         <CardContent>
-          {loading && <div>Loading leads...</div>}
+          {loading && <div>{t("leads.loading")}</div>}
           {loadError && <div className="text-red-500">{loadError}</div>}
           {!loading && !loadError && filteredLeads.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <User className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No leads found</p>
+              <p className="text-muted-foreground">{t("leads.empty")}</p>
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Company Name</TableHead>
-                  <TableHead>Contact Person</TableHead>
-                  <TableHead>Contact Info</TableHead>
-                  <TableHead>Representative</TableHead>
-                  <TableHead>Source</TableHead>
-                  <TableHead>Contact Method</TableHead>
-                  <TableHead>Interest Level</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Estimated Value</TableHead>
-                  <TableHead className="text-center">Actions</TableHead>
+                  <TableHead>{t("leads.companyNameShort")}</TableHead>
+                  <TableHead>{t("leads.contactPerson")}</TableHead>
+                  <TableHead>{t("leads.contactInfo")}</TableHead>
+                  <TableHead>{t("leads.representative")}</TableHead>
+                  <TableHead>{t("leads.sourceColumn")}</TableHead>
+                  <TableHead>{t("leads.contactMethod")}</TableHead>
+                  <TableHead>{t("leads.interestLevel")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("leads.estimatedValue")}</TableHead>
+                  <TableHead className="text-center">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -516,17 +542,17 @@ export function Leads() {
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <User className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">{lead.representative || "Not assigned"}</span>
+                      <span className="text-sm">{lead.representative || t("common.notAssigned")}</span>
                     </div>
                   </TableCell>
-                  <TableCell>{lead.source}</TableCell>
+                  <TableCell>{optionLabel(SOURCE_KEYS, lead.source)}</TableCell>
                   <TableCell>
                     {lead.contactMethod ? (
                       <span className="text-sm">
-                        {lead.contactMethod === 'field-visit' && '🚗 Field Visit'}
-                        {lead.contactMethod === 'whatsapp' && '💬 WhatsApp'}
-                        {lead.contactMethod === 'phone' && '📞 Phone'}
-                        {lead.contactMethod === 'email' && '📧 Email'}
+                        {lead.contactMethod === 'field-visit' && `🚗 ${t("leads.method.fieldVisit")}`}
+                        {lead.contactMethod === 'whatsapp' && `💬 ${t("leads.method.whatsapp")}`}
+                        {lead.contactMethod === 'phone' && `📞 ${t("common.phone")}`}
+                        {lead.contactMethod === 'email' && `📧 ${t("leads.method.email")}`}
                       </span>
                     ) : (
                       <span className="text-muted-foreground text-sm">-</span>
@@ -535,7 +561,7 @@ export function Leads() {
                   <TableCell>
                     <Badge variant={getInterestColor(lead.interest)} className="gap-1.5">
                       <Star className="h-3 w-3" />
-                      {lead.interest}
+                      {optionLabel(INTEREST_KEYS, lead.interest)}
                     </Badge>
                   </TableCell>
                   <TableCell>
@@ -551,24 +577,24 @@ export function Leads() {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="new">🆕 New</SelectItem>
-                            <SelectItem value="contacted">📞 Contacted</SelectItem>
-                            <SelectItem value="quoted">💰 Quoted</SelectItem>
-                            <SelectItem value="follow_up">🔄 Follow-up</SelectItem>
-                            <SelectItem value="negotiating">🤝 Negotiating</SelectItem>
-                            <SelectItem value="won">✅ Won</SelectItem>
-                            <SelectItem value="lost">❌ Lost</SelectItem>
+                            <SelectItem value="new">🆕 {t("leads.status.new")}</SelectItem>
+                            <SelectItem value="contacted">📞 {t("leads.status.contacted")}</SelectItem>
+                            <SelectItem value="quoted">💰 {t("leads.status.quoted")}</SelectItem>
+                            <SelectItem value="follow_up">🔄 {t("leads.status.followUp")}</SelectItem>
+                            <SelectItem value="negotiating">🤝 {t("leads.status.negotiating")}</SelectItem>
+                            <SelectItem value="won">✅ {t("leads.status.won")}</SelectItem>
+                            <SelectItem value="lost">❌ {t("leads.status.lost")}</SelectItem>
                           </SelectContent>
                         </Select>
                       );
                     })()}
                   </TableCell>
-                  <TableCell>{lead.estimatedValue} SAR</TableCell>
+                  <TableCell>{t("leads.amountSar", { amount: lead.estimatedValue })}</TableCell>
                   <TableCell>
                     <div className="flex justify-center gap-2">
                       <Button size="sm" variant="outline" onClick={() => convertToCustomer(lead)}>
-                        <ArrowRight className="h-3.5 w-3.5 mr-1" />
-                        Convert to Customer
+                        <ArrowRight className="h-3.5 w-3.5 me-1" />
+                        {t("leads.convert")}
                       </Button>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -579,11 +605,11 @@ export function Leads() {
                         <DropdownMenuContent align="end">
                           <DropdownMenuItem className="gap-2" onClick={() => handleEditLead(lead)}>
                             <Edit className="h-4 w-4" />
-                            Edit
+                            {t("common.edit")}
                           </DropdownMenuItem>
                           <DropdownMenuItem className="gap-2 text-destructive" onClick={() => handleDeleteLead(lead.id)}>
                             <Trash2 className="h-4 w-4" />
-                            Delete
+                            {t("common.delete")}
                           </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
@@ -602,33 +628,33 @@ export function Leads() {
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Edit Lead</DialogTitle>
-              <DialogDescription>Update potential customer details</DialogDescription>
+              <DialogTitle>{t("leads.edit")}</DialogTitle>
+              <DialogDescription>{t("leads.editDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-name">Company/Organization Name</Label>
+                  <Label htmlFor="edit-lead-name">{t("leads.companyName")}</Label>
                   <Input 
                     id="edit-lead-name" 
                     value={editingLead.name}
                     onChange={(e) => setEditingLead({ ...editingLead, name: e.target.value })}
-                    placeholder="Enter name" 
+                    placeholder={t("leads.namePlaceholder")} 
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-contact">Contact Person</Label>
+                  <Label htmlFor="edit-lead-contact">{t("leads.contactPerson")}</Label>
                   <Input 
                     id="edit-lead-contact" 
                     value={editingLead.contactPerson}
                     onChange={(e) => setEditingLead({ ...editingLead, contactPerson: e.target.value })}
-                    placeholder="Contact person name" 
+                    placeholder={t("leads.contactPersonPlaceholder")} 
                   />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-phone">Phone Number</Label>
+                  <Label htmlFor="edit-lead-phone">{t("leads.phoneNumber")}</Label>
                   <Input 
                     id="edit-lead-phone" 
                     value={editingLead.phone}
@@ -637,7 +663,7 @@ export function Leads() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-email">Email Address</Label>
+                  <Label htmlFor="edit-lead-email">{t("leads.emailAddress")}</Label>
                   <Input 
                     id="edit-lead-email" 
                     type="email" 
@@ -649,7 +675,7 @@ export function Leads() {
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-source">Lead Source</Label>
+                  <Label htmlFor="edit-lead-source">{t("leads.leadSource")}</Label>
                   <Select 
                     value={editingLead.source}
                     onValueChange={(value) => setEditingLead({ ...editingLead, source: value })}
@@ -658,16 +684,16 @@ export function Leads() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Website">🌐 Website</SelectItem>
-                      <SelectItem value="Referral">👥 Referral</SelectItem>
-                      <SelectItem value="Exhibition">🎪 Exhibition</SelectItem>
-                      <SelectItem value="Direct Call">📱 Direct Call</SelectItem>
-                      <SelectItem value="Social Media">📲 Social Media</SelectItem>
+                      <SelectItem value="Website">🌐 {t("leads.source.website")}</SelectItem>
+                      <SelectItem value="Referral">👥 {t("leads.source.referral")}</SelectItem>
+                      <SelectItem value="Exhibition">🎪 {t("leads.source.exhibition")}</SelectItem>
+                      <SelectItem value="Direct Call">📱 {t("leads.source.directCall")}</SelectItem>
+                      <SelectItem value="Social Media">📲 {t("leads.source.socialMedia")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-interest">Interest Level</Label>
+                  <Label htmlFor="edit-lead-interest">{t("leads.interestLevel")}</Label>
                   <Select 
                     value={editingLead.interest}
                     onValueChange={(value) => setEditingLead({ ...editingLead, interest: value })}
@@ -676,16 +702,16 @@ export function Leads() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="High">High</SelectItem>
-                      <SelectItem value="Medium">Medium</SelectItem>
-                      <SelectItem value="Low">Low</SelectItem>
+                      <SelectItem value="High">{t("leads.interest.high")}</SelectItem>
+                      <SelectItem value="Medium">{t("leads.interest.medium")}</SelectItem>
+                      <SelectItem value="Low">{t("leads.interest.low")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-status">Status</Label>
+                  <Label htmlFor="edit-lead-status">{t("common.status")}</Label>
                   <Select 
                     value={(editingLead.status || 'new').toLowerCase()}
                     onValueChange={(value) => setEditingLead({ ...editingLead, status: value })}
@@ -694,18 +720,18 @@ export function Leads() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="new">🆕 New</SelectItem>
-                      <SelectItem value="contacted">📞 Contacted</SelectItem>
-                      <SelectItem value="quoted">💰 Quoted</SelectItem>
-                      <SelectItem value="follow_up">🔄 Follow-up</SelectItem>
-                      <SelectItem value="negotiating">🤝 Negotiating</SelectItem>
-                      <SelectItem value="won">✅ Won</SelectItem>
-                      <SelectItem value="lost">❌ Lost</SelectItem>
+                      <SelectItem value="new">🆕 {t("leads.status.new")}</SelectItem>
+                      <SelectItem value="contacted">📞 {t("leads.status.contacted")}</SelectItem>
+                      <SelectItem value="quoted">💰 {t("leads.status.quoted")}</SelectItem>
+                      <SelectItem value="follow_up">🔄 {t("leads.status.followUp")}</SelectItem>
+                      <SelectItem value="negotiating">🤝 {t("leads.status.negotiating")}</SelectItem>
+                      <SelectItem value="won">✅ {t("leads.status.won")}</SelectItem>
+                      <SelectItem value="lost">❌ {t("leads.status.lost")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-value">Estimated Value (Monthly SAR)</Label>
+                  <Label htmlFor="edit-lead-value">{t("leads.estimatedValueMonthlySar")}</Label>
                   <Input 
                     id="edit-lead-value" 
                     value={editingLead.estimatedValue}
@@ -716,24 +742,24 @@ export function Leads() {
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-contact-method">Contact Method</Label>
+                  <Label htmlFor="edit-lead-contact-method">{t("leads.contactMethod")}</Label>
                   <Select 
                     value={editingLead.contactMethod || ""}
                     onValueChange={(value) => setEditingLead({ ...editingLead, contactMethod: value })}
                   >
                     <SelectTrigger id="edit-lead-contact-method">
-                      <SelectValue placeholder="Select method" />
+                      <SelectValue placeholder={t("leads.selectMethod")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="field-visit">🚗 Field Visit</SelectItem>
-                      <SelectItem value="whatsapp">💬 WhatsApp</SelectItem>
-                      <SelectItem value="phone">📞 Phone Call</SelectItem>
-                      <SelectItem value="email">📧 Email</SelectItem>
+                      <SelectItem value="field-visit">🚗 {t("leads.method.fieldVisit")}</SelectItem>
+                      <SelectItem value="whatsapp">💬 {t("leads.method.whatsapp")}</SelectItem>
+                      <SelectItem value="phone">📞 {t("leads.method.phoneCall")}</SelectItem>
+                      <SelectItem value="email">📧 {t("leads.method.email")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-lead-representative">Assigned Representative</Label>
+                  <Label htmlFor="edit-lead-representative">{t("leads.assignedRepresentative")}</Label>
                   <Select
                     value={editingLead.delegateDbId || "none"}
                     onValueChange={(value) => {
@@ -754,10 +780,10 @@ export function Leads() {
                     }}
                   >
                     <SelectTrigger id="edit-lead-representative">
-                      <SelectValue placeholder="Select representative" />
+                      <SelectValue placeholder={t("leads.selectRepresentative")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="none">{t("common.none")}</SelectItem>
                       {dbDelegates.map(delegate => (
                         <SelectItem key={delegate.delegate_id} value={delegate.delegate_id}>
                           {delegate.delegate_name}
@@ -768,12 +794,12 @@ export function Leads() {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="edit-lead-notes">Notes</Label>
+                <Label htmlFor="edit-lead-notes">{t("common.notes")}</Label>
                 <Textarea 
                   id="edit-lead-notes" 
                   value={editingLead.notes}
                   onChange={(e) => setEditingLead({ ...editingLead, notes: e.target.value })}
-                  placeholder="Any notes about the customer..." 
+                  placeholder={t("leads.notesPlaceholder")} 
                   rows={3} 
                 />
               </div>
@@ -783,10 +809,10 @@ export function Leads() {
                 setIsEditDialogOpen(false);
                 setEditingLead(null);
               }}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleSaveEdit}>
-                Save Changes
+                {t("common.saveChanges")}
               </Button>
             </div>
           </DialogContent>
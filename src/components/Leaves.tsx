@@ -34,6 +34,8 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Employees as DbEmployee } from "../../supabase/models/employees";
 import type { Leaves as DbLeave } from "../../supabase/models/leaves";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 type LeaveTypeOption = DbLeave["leave_type"];
 type LeaveStatusOption = DbLeave["status"];
@@ -103,6 +105,20 @@ const statusColors: Record<LeaveStatusOption, string> = {
   rejected: "bg-red-100 text-red-700 border-red-200",
 };
 
+const LEAVE_TYPE_KEYS: Record<LeaveTypeOption, MessageKey> = {
+  annual: "leaves.type.annual",
+  sick: "leaves.type.sick",
+  emergency: "leaves.type.emergency",
+  unpaid: "leaves.type.unpaid",
+  other: "leaves.type.other",
+};
+
+const STATUS_KEYS: Record<LeaveStatusOption, MessageKey> = {
+  pending: "status.pending",
+  approved: "status.approved",
+  rejected: "status.rejected",
+};
+
 const calculateDays = (start: string, end: string) => {
   const startDate = new Date(start);
   const endDate = new Date(end);
@@ -110,14 +126,8 @@ const calculateDays = (start: string, end: string) => {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
 };
 
-const formatDate = (value: string | null, options?: Intl.DateTimeFormatOptions) => {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "—";
-  return date.toLocaleDateString("en-GB", options);
-};
-
 export function Leaves() {
+  const { t, formatNumber, formatDate, formatDateTime, localizedName } = useLocale();
   const dispatch = useAppDispatch();
   const dbLeaves = useAppSelector(selectors.leaves.selectAll) as DbLeave[];
   const leavesLoading = useAppSelector(selectors.leaves.selectLoading);
@@ -159,7 +169,7 @@ export function Leaves() {
           leave.employee_name ??
           employee?.name_en ??
           employee?.name_ar ??
-          "Unknown Employee";
+          t("leaves.unknownEmployee");
         const department = leave.employee_department ?? employee?.department ?? "—";
         const position = leave.employee_position ?? employee?.position ?? "—";
 
@@ -183,7 +193,7 @@ export function Leaves() {
         };
       })
       .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
-  }, [dbLeaves, employeeLookup]);
+  }, [dbLeaves, employeeLookup, t]);
 
   const selectedLeave = useMemo(() => {
     if (!selectedLeaveId) return null;
@@ -273,9 +283,9 @@ export function Leaves() {
       XLSX.utils.book_append_sheet(wb, ws, "Leaves");
       const fileName = `leaves_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -337,12 +347,12 @@ export function Leaves() {
       !formState.endDate ||
       !formState.reason
     ) {
-      toast.error("Please fill all required fields.");
+      toast.error(t("leaves.requiredFields"));
       return false;
     }
 
     if (new Date(formState.startDate) > new Date(formState.endDate)) {
-      toast.error("End date must be after start date.");
+      toast.error(t("leaves.endBeforeStart"));
       return false;
     }
 
@@ -400,7 +410,7 @@ export function Leaves() {
             values: payload,
           })
         ).unwrap();
-        toast.success("Leave request updated successfully!");
+        toast.success(translateCurrent("leaves.updated"));
       } else {
         await dispatch(
           thunks.leaves.createOne({
@@ -410,14 +420,14 @@ export function Leaves() {
             approved_date: null,
           })
         ).unwrap();
-        toast.success("Leave request created successfully!");
+        toast.success(translateCurrent("leaves.created"));
       }
 
       setIsFormOpen(false);
       resetForm();
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to save leave request.";
+        error?.message || error?.error?.message || translateCurrent("leaves.saveFailed");
       toast.error(message);
     } finally {
       setIsSubmitting(false);
@@ -436,10 +446,10 @@ export function Leaves() {
           },
         })
       ).unwrap();
-      toast.success("Leave request approved!");
+      toast.success(translateCurrent("leaves.approved"));
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to approve leave.";
+        error?.message || error?.error?.message || translateCurrent("leaves.approveFailed");
       toast.error(message);
     }
   };
@@ -456,25 +466,25 @@ export function Leaves() {
           },
         })
       ).unwrap();
-      toast.success("Leave request rejected.");
+      toast.success(translateCurrent("leaves.rejected"));
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to reject leave.";
+        error?.message || error?.error?.message || translateCurrent("leaves.rejectFailed");
       toast.error(message);
     }
   };
 
   const deleteLeave = async (leaveId: string) => {
-    if (!window.confirm("Are you sure you want to delete this leave request?")) {
+    if (!window.confirm(t("leaves.deleteConfirm"))) {
       return;
     }
 
     try {
       await dispatch(thunks.leaves.deleteOne(leaveId)).unwrap();
-      toast.success("Leave request deleted.");
+      toast.success(translateCurrent("leaves.deleted"));
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to delete leave.";
+        error?.message || error?.error?.message || translateCurrent("leaves.deleteFailed");
       toast.error(message);
     }
   };
@@ -497,15 +507,15 @@ export function Leaves() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Leave Management</h2>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("leaves.title")}</h2>
           <p className="text-muted-foreground mt-1">
-            Manage employee leave requests and approvals
+            {t("leaves.subtitle")}
           </p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Dialog
             open={isFormOpen}
@@ -522,27 +532,25 @@ export function Leaves() {
                 onClick={openCreateForm}
               >
                 <Plus className="h-4 w-4" />
-                Add Leave Request
+                {t("leaves.add")}
               </Button>
             </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>
-                {formMode === "create" ? "Submit Leave Request" : "Update Leave Request"}
+                {formMode === "create" ? t("leaves.submitTitle") : t("leaves.updateTitle")}
               </DialogTitle>
               <DialogDescription>
-                {formMode === "create"
-                  ? "Fill in the details for a new leave request"
-                  : "Modify the leave request details"}
+                {formMode === "create" ? t("leaves.submitDescription") : t("leaves.updateDescription")}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 pt-4">
               <div className="space-y-2" ref={employeeSearchRef}>
-                <Label htmlFor="employeeSearch">Find Employee</Label>
+                <Label htmlFor="employeeSearch">{t("leaves.findEmployee")}</Label>
                 <div className="relative">
                   <Input
                     id="employeeSearch"
-                    placeholder="Search employees by name, ID, or department"
+                    placeholder={t("leaves.findEmployeePlaceholder")}
                     value={employeeSearchTerm}
                     onChange={(e) => setEmployeeSearchTerm(e.target.value)}
                     onFocus={() => {
@@ -554,25 +562,25 @@ export function Leaves() {
                     <div className="absolute z-20 mt-1 w-full rounded-md border bg-white shadow-md">
                       {employeesLoading ? (
                         <div className="px-4 py-2 text-sm text-muted-foreground">
-                          Loading employees...
+                          {t("leaves.loadingEmployees")}
                         </div>
                       ) : employeeSuggestions.length === 0 ? (
                         <div className="px-4 py-2 text-sm text-muted-foreground">
-                          No employees found. You can fill the fields manually.
+                          {t("leaves.noEmployees")}
                         </div>
                       ) : (
                         employeeSuggestions.map((employee) => (
                           <button
                             key={employee.employee_id}
                             type="button"
-                            className="flex w-full flex-col items-start px-4 py-2 text-left hover:bg-muted"
+                            className="flex w-full flex-col items-start px-4 py-2 text-start hover:bg-muted"
                             onClick={() => handleSelectEmployee(employee)}
                           >
                             <span className="font-medium">
-                              {employee.name_en ?? employee.name_ar ?? "Unnamed Employee"}
+                              {localizedName(employee.name_en, employee.name_ar) || t("leaves.unnamedEmployee")}
                             </span>
                             <span className="text-xs text-muted-foreground">
-                              {employee.employee_id} • {employee.department ?? "—"}
+                              {employee.employee_id} • {employee.department ?? t("common.notSet")}
                             </span>
                           </button>
                         ))
@@ -581,13 +589,13 @@ export function Leaves() {
                   )}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Select an employee to prefill details or leave blank to enter manually.
+                  {t("leaves.findEmployeeHint")}
                 </p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="employeeId">Employee ID *</Label>
+                  <Label htmlFor="employeeId">{t("leaves.employeeIdRequired")}</Label>
                   <Input
                     id="employeeId"
                     placeholder="EMP-001"
@@ -598,10 +606,10 @@ export function Leaves() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="employeeName">Employee Name *</Label>
+                  <Label htmlFor="employeeName">{t("leaves.employeeNameRequired")}</Label>
                   <Input
                     id="employeeName"
-                    placeholder="Full name"
+                    placeholder={t("leaves.fullNamePlaceholder")}
                     value={formState.employeeName}
                     onChange={(e) =>
                       setFormState((prev) => ({ ...prev, employeeName: e.target.value }))
@@ -612,10 +620,10 @@ export function Leaves() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="employeeDepartment">Department</Label>
+                  <Label htmlFor="employeeDepartment">{t("leaves.department")}</Label>
                   <Input
                     id="employeeDepartment"
-                    placeholder="Department"
+                    placeholder={t("leaves.department")}
                     value={formState.employeeDepartment}
                     onChange={(e) =>
                       setFormState((prev) => ({
@@ -626,10 +634,10 @@ export function Leaves() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="employeePosition">Position</Label>
+                  <Label htmlFor="employeePosition">{t("leaves.position")}</Label>
                   <Input
                     id="employeePosition"
-                    placeholder="Position"
+                    placeholder={t("leaves.position")}
                     value={formState.employeePosition}
                     onChange={(e) =>
                       setFormState((prev) => ({
@@ -642,7 +650,7 @@ export function Leaves() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="leaveType">Leave Type *</Label>
+                <Label htmlFor="leaveType">{t("leaves.leaveTypeRequired")}</Label>
                 <Select
                   value={formState.leaveType}
                   onValueChange={(value) =>
@@ -650,21 +658,21 @@ export function Leaves() {
                   }
                 >
                   <SelectTrigger id="leaveType">
-                    <SelectValue placeholder="Select leave type" />
+                    <SelectValue placeholder={t("leaves.selectLeaveType")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="annual">Annual Leave</SelectItem>
-                    <SelectItem value="sick">Sick Leave</SelectItem>
-                    <SelectItem value="emergency">Emergency Leave</SelectItem>
-                    <SelectItem value="unpaid">Unpaid Leave</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="annual">{t("leaves.type.annual")}</SelectItem>
+                    <SelectItem value="sick">{t("leaves.type.sick")}</SelectItem>
+                    <SelectItem value="emergency">{t("leaves.type.emergency")}</SelectItem>
+                    <SelectItem value="unpaid">{t("leaves.type.unpaid")}</SelectItem>
+                    <SelectItem value="other">{t("leaves.type.other")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="startDate">Start Date *</Label>
+                  <Label htmlFor="startDate">{t("leaves.startDateRequired")}</Label>
                   <Input
                     id="startDate"
                     type="date"
@@ -675,7 +683,7 @@ export function Leaves() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="endDate">End Date *</Label>
+                  <Label htmlFor="endDate">{t("leaves.endDateRequired")}</Label>
                   <Input
                     id="endDate"
                     type="date"
@@ -692,17 +700,17 @@ export function Leaves() {
                 new Date(formState.startDate) <= new Date(formState.endDate) && (
                   <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                     <div className="text-sm text-blue-900">
-                      <strong>Duration:</strong>{" "}
-                      {calculateDays(formState.startDate, formState.endDate)} day(s)
+                      <strong>{t("leaves.durationLabel")}</strong>{" "}
+                      {t("leaves.days", { count: formatNumber(calculateDays(formState.startDate, formState.endDate)) })}
                     </div>
                   </div>
                 )}
 
               <div className="space-y-2">
-                <Label htmlFor="reason">Reason *</Label>
+                <Label htmlFor="reason">{t("leaves.reasonRequired")}</Label>
                 <Textarea
                   id="reason"
-                  placeholder="Reason for leave request..."
+                  placeholder={t("leaves.reasonPlaceholder")}
                   value={formState.reason}
                   onChange={(e) =>
                     setFormState((prev) => ({ ...prev, reason: e.target.value }))
@@ -712,10 +720,10 @@ export function Leaves() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="notes">Additional Notes</Label>
+                <Label htmlFor="notes">{t("leaves.additionalNotes")}</Label>
                 <Textarea
                   id="notes"
-                  placeholder="Any additional information..."
+                  placeholder={t("leaves.notesPlaceholder")}
                   value={formState.notes}
                   onChange={(e) =>
                     setFormState((prev) => ({ ...prev, notes: e.target.value }))
@@ -726,7 +734,7 @@ export function Leaves() {
 
               {formMode === "edit" && (
                 <div className="space-y-2">
-                  <Label htmlFor="status">Status</Label>
+                  <Label htmlFor="status">{t("common.status")}</Label>
                   <Select
                     value={formState.status}
                     onValueChange={(value) =>
@@ -740,9 +748,9 @@ export function Leaves() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="approved">Approved</SelectItem>
-                      <SelectItem value="rejected">Rejected</SelectItem>
+                      <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                      <SelectItem value="approved">{t("status.approved")}</SelectItem>
+                      <SelectItem value="rejected">{t("status.rejected")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -756,14 +764,18 @@ export function Leaves() {
                   resetForm();
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 onClick={handleSubmit}
                 className="bg-purple-600 hover:bg-purple-700 text-white"
                 disabled={isSubmitting}
               >
-                {isSubmitting ? "Saving..." : formMode === "create" ? "Submit Request" : "Save Changes"}
+                {isSubmitting
+                  ? t("common.saving")
+                  : formMode === "create"
+                    ? t("leaves.submitRequest")
+                    : t("common.saveChanges")}
               </Button>
             </div>
           </DialogContent>
@@ -775,46 +787,46 @@ export function Leaves() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
-              Total Requests
+              {t("leaves.totalRequests")}
             </CardTitle>
             <User className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalLeaves}</div>
-            <p className="text-xs text-muted-foreground mt-1">All time</p>
+            <div className="text-2xl font-bold">{formatNumber(totalLeaves)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.allTime")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.pending")}</CardTitle>
             <AlertCircle className="h-4 w-4 text-yellow-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">{pendingLeaves}</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting approval</p>
+            <div className="text-2xl font-bold text-yellow-600">{formatNumber(pendingLeaves)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.awaitingApproval")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Approved</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.approved")}</CardTitle>
             <CheckCircle2 className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{approvedLeaves}</div>
-            <p className="text-xs text-muted-foreground mt-1">This year</p>
+            <div className="text-2xl font-bold text-green-600">{formatNumber(approvedLeaves)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.thisYear")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Days</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("leaves.totalDays")}</CardTitle>
             <Clock className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">{totalDays}</div>
-            <p className="text-xs text-muted-foreground mt-1">Approved leave days</p>
+            <div className="text-2xl font-bold text-blue-600">{formatNumber(totalDays)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("leaves.approvedDays")}</p>
           </CardContent>
         </Card>
       </div>
@@ -822,41 +834,41 @@ export function Leaves() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Leave Requests</CardTitle>
+            <CardTitle>{t("leaves.requests")}</CardTitle>
             <div className="flex items-center gap-2">
               <Select value={filterType} onValueChange={setFilterType}>
                 <SelectTrigger className="w-[150px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="All Types" />
+                  <Filter className="h-4 w-4 me-2" />
+                  <SelectValue placeholder={t("leaves.allTypes")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="annual">Annual</SelectItem>
-                  <SelectItem value="sick">Sick</SelectItem>
-                  <SelectItem value="emergency">Emergency</SelectItem>
-                  <SelectItem value="unpaid">Unpaid</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
+                  <SelectItem value="all">{t("leaves.allTypes")}</SelectItem>
+                  <SelectItem value="annual">{t("leaves.type.annual")}</SelectItem>
+                  <SelectItem value="sick">{t("leaves.type.sick")}</SelectItem>
+                  <SelectItem value="emergency">{t("leaves.type.emergency")}</SelectItem>
+                  <SelectItem value="unpaid">{t("leaves.type.unpaid")}</SelectItem>
+                  <SelectItem value="other">{t("leaves.type.other")}</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={filterStatus} onValueChange={setFilterStatus}>
                 <SelectTrigger className="w-[150px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="All Status" />
+                  <Filter className="h-4 w-4 me-2" />
+                  <SelectValue placeholder={t("common.allStatus")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                  <SelectItem value="approved">{t("status.approved")}</SelectItem>
+                  <SelectItem value="rejected">{t("status.rejected")}</SelectItem>
                 </SelectContent>
               </Select>
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search leaves..."
+                  placeholder={t("leaves.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[250px]"
+                  className="ps-8 w-[250px]"
                 />
               </div>
             </div>
@@ -867,21 +879,21 @@ export function Leaves() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Leave #</TableHead>
-                  <TableHead>Employee</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Start Date</TableHead>
-                  <TableHead>End Date</TableHead>
-                  <TableHead>Days</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("leaves.number")}</TableHead>
+                  <TableHead>{t("leaves.employee")}</TableHead>
+                  <TableHead>{t("leaves.type")}</TableHead>
+                  <TableHead>{t("leaves.startDate")}</TableHead>
+                  <TableHead>{t("leaves.endDate")}</TableHead>
+                  <TableHead>{t("leaves.daysColumn")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {leavesLoading && (
                   <TableRow>
                     <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
-                      Loading leave requests...
+                      {t("leaves.loading")}
                     </TableCell>
                   </TableRow>
                 )}
@@ -906,36 +918,28 @@ export function Leaves() {
                       </TableCell>
                       <TableCell>
                         <Badge className={leaveTypeColors[leave.leaveType]}>
-                          {leave.leaveType}
+                          {t(LEAVE_TYPE_KEYS[leave.leaveType])}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <div className="text-sm">
-                          {formatDate(leave.startDate, {
-                            year: "numeric",
-                            month: "short",
-                            day: "numeric",
-                          })}
+                          {formatDate(leave.startDate)}
                         </div>
                       </TableCell>
                       <TableCell>
                         <div className="text-sm">
-                          {formatDate(leave.endDate, {
-                            year: "numeric",
-                            month: "short",
-                            day: "numeric",
-                          })}
+                          {formatDate(leave.endDate)}
                         </div>
                       </TableCell>
                       <TableCell>
-                        <div className="font-semibold">{leave.totalDays}</div>
+                        <div className="font-semibold">{formatNumber(leave.totalDays)}</div>
                       </TableCell>
                       <TableCell>
                         <Badge className={statusColors[leave.status]}>
-                          {leave.status}
+                          {t(STATUS_KEYS[leave.status])}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex items-center justify-end gap-2">
                           <Button
                             variant="ghost"
@@ -945,7 +949,7 @@ export function Leaves() {
                               setIsDetailsDialogOpen(true);
                             }}
                           >
-                            View
+                            {t("common.view")}
                           </Button>
                           <Button
                             variant="outline"
@@ -994,9 +998,7 @@ export function Leaves() {
             <div className="flex flex-col items-center justify-center py-12">
               <Clock className="h-12 w-12 text-muted-foreground mb-3" />
               <p className="text-muted-foreground">
-                {searchQuery
-                  ? "No leave requests found matching your search."
-                  : "No leave requests found"}
+                {searchQuery ? t("leaves.noMatches") : t("leaves.empty")}
               </p>
             </div>
           )}
@@ -1014,14 +1016,14 @@ export function Leaves() {
       >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Leave Request Details</DialogTitle>
+            <DialogTitle>{t("leaves.detailsTitle")}</DialogTitle>
             <DialogDescription>{selectedLeave?.leaveNumber}</DialogDescription>
           </DialogHeader>
           {selectedLeave && (
             <div className="space-y-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Employee</Label>
+                  <Label className="text-muted-foreground">{t("leaves.employee")}</Label>
                   <div>
                     <div className="font-medium">{selectedLeave.employeeName}</div>
                     <div className="text-sm text-muted-foreground">
@@ -1033,10 +1035,10 @@ export function Leaves() {
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Leave Type</Label>
+                  <Label className="text-muted-foreground">{t("leaves.leaveType")}</Label>
                   <div>
                     <Badge className={leaveTypeColors[selectedLeave.leaveType]}>
-                      {selectedLeave.leaveType}
+                      {t(LEAVE_TYPE_KEYS[selectedLeave.leaveType])}
                     </Badge>
                   </div>
                 </div>
@@ -1044,35 +1046,27 @@ export function Leaves() {
 
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Start Date</Label>
+                  <Label className="text-muted-foreground">{t("leaves.startDate")}</Label>
                   <div className="font-medium">
-                    {formatDate(selectedLeave.startDate, {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                    })}
+                    {formatDate(selectedLeave.startDate)}
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">End Date</Label>
+                  <Label className="text-muted-foreground">{t("leaves.endDate")}</Label>
                   <div className="font-medium">
-                    {formatDate(selectedLeave.endDate, {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                    })}
+                    {formatDate(selectedLeave.endDate)}
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Duration</Label>
+                  <Label className="text-muted-foreground">{t("leaves.duration")}</Label>
                   <div className="font-bold text-blue-600">
-                    {selectedLeave.totalDays} day(s)
+                    {t("leaves.days", { count: formatNumber(selectedLeave.totalDays) })}
                   </div>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label>Reason</Label>
+                <Label>{t("leaves.reason")}</Label>
                 <div className="p-3 bg-muted rounded-lg text-sm">
                   {selectedLeave.reason}
                 </div>
@@ -1080,7 +1074,7 @@ export function Leaves() {
 
               {selectedLeave.notes && (
                 <div className="space-y-2">
-                  <Label>Additional Notes</Label>
+                  <Label>{t("leaves.additionalNotes")}</Label>
                   <div className="p-3 bg-muted rounded-lg text-sm">
                     {selectedLeave.notes}
                   </div>
@@ -1088,43 +1082,31 @@ export function Leaves() {
               )}
 
               <div className="space-y-1">
-                <Label className="text-muted-foreground">Status</Label>
+                <Label className="text-muted-foreground">{t("common.status")}</Label>
                 <div>
                   <Badge className={statusColors[selectedLeave.status]}>
-                    {selectedLeave.status}
+                    {t(STATUS_KEYS[selectedLeave.status])}
                   </Badge>
                 </div>
               </div>
 
               <div className="pt-4 border-t grid grid-cols-2 gap-4">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground text-xs">Applied Date</Label>
+                  <Label className="text-muted-foreground text-xs">{t("leaves.appliedDate")}</Label>
                   <div className="text-sm">
-                    {formatDate(selectedLeave.appliedDate, {
-                      year: "numeric",
-                      month: "short",
-                      day: "numeric",
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
+                    {formatDateTime(selectedLeave.appliedDate)}
                   </div>
                 </div>
                 {selectedLeave.approvedBy && (
                   <>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-xs">Approved By</Label>
+                      <Label className="text-muted-foreground text-xs">{t("leaves.approvedBy")}</Label>
                       <div className="text-sm">{selectedLeave.approvedBy}</div>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground text-xs">Approved Date</Label>
+                      <Label className="text-muted-foreground text-xs">{t("leaves.approvedDate")}</Label>
                       <div className="text-sm">
-                        {formatDate(selectedLeave.approvedDate, {
-                          year: "numeric",
-                          month: "short",
-                          day: "numeric",
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
+                        {formatDateTime(selectedLeave.approvedDate)}
                       </div>
                     </div>
                   </>
@@ -1140,8 +1122,8 @@ export function Leaves() {
                       setIsDetailsDialogOpen(false);
                     }}
                   >
-                    <CheckCircle2 className="h-4 w-4 mr-2" />
-                    Approve Request
+                    <CheckCircle2 className="h-4 w-4 me-2" />
+                    {t("leaves.approveRequest")}
                   </Button>
                   <Button
                     variant="outline"
@@ -1151,8 +1133,8 @@ export function Leaves() {
                       setIsDetailsDialogOpen(false);
                     }}
                   >
-                    <XCircle className="h-4 w-4 mr-2" />
-                    Reject Request
+                    <XCircle className="h-4 w-4 me-2" />
+                    {t("leaves.rejectRequest")}
                   </Button>
                 </div>
               )}
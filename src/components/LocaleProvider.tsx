@@ -0,0 +1,18 @@
+import { useLayoutEffect, type ReactNode } from "react";
+import { DirectionProvider } from "@radix-ui/react-direction";
+import { useLocale } from "../lib/i18n";
+
+/**
+ * Applies the user's language to the document (lang/dir) and to the Radix primitives behind the ui components,
+ * which do not read the document direction themselves
+ */
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const { language, dir } = useLocale();
+
+  useLayoutEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = dir;
+  }, [language, dir]);
+
+  return <DirectionProvider dir={dir}>{children}</DirectionProvider>;
+}
@@ -3,14 +3,24 @@ import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
-import { Eye, EyeOff } from "lucide-react";
-import { sha256Hex } from "../lib/hash";
+import { Eye, EyeOff, Languages, ShieldCheck } from "lucide-react";
+import {
+  confirmTwoFactorSetupLogin,
+  isTwoFactorChallenge,
+  loginWithPassword,
+  startTwoFactorSetupLogin,
+  verifyTwoFactorLogin,
+  type LoginResponse,
+  type TwoFactorSetup,
+} from "../lib/authSession";
 import { supabase } from "../lib/supabaseClient";
 import { toast } from "sonner";
 import { getFilesByOwner, getFileUrl } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import type { CompanyBranding } from "../../supabase/models/company_branding";
+import { RecoveryCodesList, TwoFactorCodeInput, TwoFactorQrCode } from "./TwoFactorEnrollment";
+import { setLocalePreferences, useLocale } from "../lib/i18n";
 
 export interface AuthUserPayload {
   fullName: string;
@@ -21,11 +31,15 @@ export interface AuthUserPayload {
   email: string;
 }
 
+// Password first, then the authenticator code (or enrolment when 2FA is required but not set up)
+type LoginStep = "credentials" | "two_factor" | "two_factor_setup" | "recovery_codes";
+
 interface LoginProps {
   onLogin?: (payload: AuthUserPayload) => void;
 }
 
 export function Login({ onLogin }: LoginProps) {
+  const { t, language } = useLocale();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
@@ -35,6 +49,14 @@ export function Login({ onLogin }: LoginProps) {
   const [systemLogo, setSystemLogo] = useState<string | null>(null);
   const [systemName, setSystemName] = useState("Scent Management System");
   const [systemSubtitle, setSystemSubtitle] = useState("نظام إدارة أعمال التعطير");
+  const [step, setStep] = useState<LoginStep>("credentials");
+  const [challengeToken, setChallengeToken] = useState("");
+  const [otpCode, setOtpCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingLogin, setPendingLogin] = useState<LoginResponse | null>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const emailInputRef = useRef<HTMLInputElement>(null);
   const passwordInputRef = useRef<HTMLInputElement>(null);
@@ -168,7 +190,7 @@ export function Login({ onLogin }: LoginProps) {
   const handleEmailBlur = () => {
     const trimmedEmail = username.trim();
     if (trimmedEmail && !validateEmail(trimmedEmail)) {
-      const errorMsg = "البريد الإلكتروني غير صحيح / Invalid email format";
+      const errorMsg = t("login.emailInvalid");
       setEmailError(errorMsg);
       toast.error(errorMsg);
     } else {
@@ -184,14 +206,14 @@ export function Login({ onLogin }: LoginProps) {
     // Validate email format before submission
     const trimmedEmail = username.trim();
     if (!trimmedEmail) {
-      const errorMsg = "يرجى إدخال البريد الإلكتروني / Please enter your email";
+      const errorMsg = t("login.emailRequired");
       setEmailError(errorMsg);
       toast.error(errorMsg);
       return;
     }
     
     if (!validateEmail(trimmedEmail)) {
-      const errorMsg = "البريد الإلكتروني غير صحيح / Invalid email format";
+      const errorMsg = t("login.emailInvalid");
       setEmailError(errorMsg);
       toast.error(errorMsg);
       return;
@@ -199,72 +221,149 @@ export function Login({ onLogin }: LoginProps) {
     
     setLoading(true);
     try {
-      const email = trimmedEmail;
-      const passHash = await sha256Hex(password);
-      const { data: user, error: qErr } = await supabase
-        .from('system_users')
-        .select('*')
-        .eq('email', email)
-        .eq('password_hash', passHash)
-        .single();
-      
-      if (qErr || !user) {
-        throw qErr || new Error('Invalid credentials');
+      const result = await loginWithPassword(trimmedEmail, password);
+
+      // Clear password field immediately after the password step for security
+      setPassword("");
+      if (passwordInputRef.current) {
+        passwordInputRef.current.value = "";
       }
-      
-      // Check if user is inactive
-      if (user.status !== 'active') {
-        const errorMsg = 'Your account has been deactivated. Please contact the administrator for support. / تم تعطيل حسابك. يرجى الاتصال بالمسؤول للحصول على الدعم.';
-        setError(errorMsg);
-        toast.error(errorMsg);
+
+      if (!isTwoFactorChallenge(result)) {
+        finishLogin(result);
         return;
       }
-      // Fetch role
-      let roleName: string | undefined;
-      let rolePermissions: any = null;
-      if (user.role_id) {
-        const { data: role } = await supabase
-          .from("roles")
-          .select("role_name, permissions")
-          .eq("role_id", user.role_id)
-          .single();
-        roleName = role?.role_name;
-        rolePermissions = role?.permissions ?? null;
+
+      setChallengeToken(result.challenge_token);
+      setOtpCode("");
+      setRecoveryCode("");
+      setUseRecoveryCode(false);
+      if (result.two_factor_setup_required) {
+        setSetup(await startTwoFactorSetupLogin(result.challenge_token));
+        setStep("two_factor_setup");
+      } else {
+        setStep("two_factor");
       }
-      const payload: AuthUserPayload = {
-        fullName: user.full_name ?? user.email,
-        roleName: roleName ?? "",
-        roleId: user.role_id ?? undefined,
-        rolePermissions,
-        userId: user.user_id,
-        email: user.email,
-      };
-      localStorage.setItem('auth_user', JSON.stringify({
-        user_id: payload.userId,
-        email: payload.email,
-        full_name: payload.fullName,
-        role_id: user.role_id,
-        role_name: payload.roleName,
-        role_permissions: rolePermissions,
-      }));
-      
-      // Clear password field immediately after successful login for security
-      setPassword("");
-      if (passwordInputRef.current) {
-        passwordInputRef.current.value = "";
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "";
+      if (/locked/i.test(message)) {
+        setError(t("login.locked"));
+      } else if (/not active/i.test(message)) {
+        setError(t("login.deactivated"));
+      } else {
+        setError(t("login.invalidCredentials"));
       }
-      
-      onLogin?.(payload);
-    } catch (err: any) {
-      setError('اسم المستخدم أو كلمة المرور غير صحيحة / Invalid username or password');
     } finally {
       setLoading(false);
     }
   };
 
+  const finishLogin = ({ token, expires_at, user }: LoginResponse) => {
+    const payload: AuthUserPayload = {
+      fullName: user.full_name ?? user.email,
+      roleName: user.role_name ?? "",
+      roleId: user.role_id ?? undefined,
+      rolePermissions: user.role_permissions ?? null,
+      userId: user.user_id,
+      email: user.email,
+    };
+    localStorage.setItem('auth_user', JSON.stringify({
+      user_id: payload.userId,
+      email: payload.email,
+      full_name: payload.fullName,
+      role_id: user.role_id,
+      role_name: payload.roleName,
+      role_permissions: payload.rolePermissions,
+      session_token: token,
+      session_expires_at: expires_at,
+    }));
+
+    onLogin?.(payload);
+  };
+
+  const backToCredentials = () => {
+    setStep("credentials");
+    setChallengeToken("");
+    setOtpCode("");
+    setRecoveryCode("");
+    setSetup(null);
+    setRecoveryCodes([]);
+    setPendingLogin(null);
+    setError("");
+  };
+
+  const showTwoFactorError = (err: unknown) => {
+    const message = err instanceof Error ? err.message : "";
+    if (/expired/i.test(message)) {
+      backToCredentials();
+      setError(t("login.verificationExpired"));
+    } else if (/locked/i.test(message)) {
+      backToCredentials();
+      setError(t("login.locked"));
+    } else {
+      setError(t("login.invalidCode"));
+    }
+  };
+
+  const handleVerifyTwoFactor = async (code = otpCode) => {
+    const input = useRecoveryCode ? { recovery_code: recoveryCode.trim() } : { code };
+    if (useRecoveryCode ? !input.recovery_code : code.length !== 6) return;
+
+    setError("");
+    setLoading(true);
+    try {
+      const response = await verifyTwoFactorLogin(challengeToken, input);
+      if (useRecoveryCode && typeof response.recovery_codes_remaining === "number") {
+        toast.warning(t("login.recoveryCodeUsed", { count: response.recovery_codes_remaining }));
+      }
+      finishLogin(response);
+    } catch (err) {
+      setOtpCode("");
+      showTwoFactorError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmSetup = async (code = otpCode) => {
+    if (code.length !== 6) return;
+
+    setError("");
+    setLoading(true);
+    try {
+      const response = await confirmTwoFactorSetupLogin(challengeToken, code);
+      setPendingLogin(response);
+      setRecoveryCodes(response.recovery_codes);
+      setStep("recovery_codes");
+    } catch (err) {
+      setOtpCode("");
+      showTwoFactorError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorBox = error && (
+    <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
+      {error}
+    </div>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-blue-50 p-4">
       <div className="w-full max-w-md">
+        <div className="flex justify-end mb-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="gap-2 text-muted-foreground"
+            onClick={() => setLocalePreferences({ language: language === "ar" ? "en" : "ar" })}
+          >
+            <Languages className="h-4 w-4" />
+            {t(language === "ar" ? "language.en" : "language.ar")}
+          </Button>
+        </div>
         <div className="text-center mb-8">
           <div className="flex justify-center mb-4">
             {systemLogo ? (
@@ -297,12 +396,11 @@ export function Login({ onLogin }: LoginProps) {
           <p className="text-muted-foreground">{systemSubtitle}</p>
         </div>
 
+        {step === "credentials" ? (
         <Card className="shadow-xl border-0">
           <CardHeader className="space-y-1">
-            <CardTitle className="text-xl">تسجيل الدخول / Login</CardTitle>
-            <CardDescription>
-              Enter your credentials to access the system
-            </CardDescription>
+            <CardTitle className="text-xl">{t("login.title")}</CardTitle>
+            <CardDescription>{t("login.description")}</CardDescription>
           </CardHeader>
           <CardContent>
             <form 
@@ -318,13 +416,13 @@ export function Login({ onLogin }: LoginProps) {
               <input type="password" name="fake-password" autoComplete="new-password" style={{ display: 'none' }} tabIndex={-1} />
               
               <div className="space-y-2">
-                <Label htmlFor="username">Email / البريد الإلكتروني</Label>
+                <Label htmlFor="username">{t("login.email")}</Label>
                 <Input
                   ref={emailInputRef}
                   id="username"
                   name="email-login"
                   type="email"
-                  placeholder="Enter your email (e.g., user@example.com)"
+                  placeholder={t("login.emailPlaceholder")}
                   value={username}
                   onChange={(e) => handleEmailChange(e.target.value)}
                   onBlur={handleEmailBlur}
@@ -341,25 +439,25 @@ export function Login({ onLogin }: LoginProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password / كلمة المرور</Label>
+                <Label htmlFor="password">{t("login.password")}</Label>
                 <div className="relative">
                   <Input
                     ref={passwordInputRef}
                     id="password"
                     name="password-login"
                     type={showPassword ? "text" : "password"}
-                    placeholder="Enter your password"
+                    placeholder={t("login.passwordPlaceholder")}
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
                     autoComplete="new-password"
                     required
-                    className="h-11 pr-10"
+                    className="h-11 pe-10"
                   />
                   <Button
                     type="button"
                     variant="ghost"
                     size="icon"
-                    className="absolute right-0 top-0 h-11 w-11"
+                    className="absolute end-0 top-0 h-11 w-11"
                     onClick={() => setShowPassword(!showPassword)}
                   >
                     {showPassword ? (
@@ -371,23 +469,124 @@ export function Login({ onLogin }: LoginProps) {
                 </div>
               </div>
 
-              {error && (
-                <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
-                  {error}
-                </div>
-              )}
+              {errorBox}
 
               <Button type="submit" className="w-full h-11" disabled={loading}>
-                Login / تسجيل الدخول
+                {t("login.submit")}
               </Button>
 
               
             </form>
           </CardContent>
         </Card>
+        ) : (
+        <Card className="shadow-xl border-0">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              {step === "two_factor" && t("login.twoFactorTitle")}
+              {step === "two_factor_setup" && t("login.twoFactorSetupTitle")}
+              {step === "recovery_codes" && t("login.recoveryCodesTitle")}
+            </CardTitle>
+            <CardDescription>
+              {step === "two_factor" && t(useRecoveryCode ? "login.enterRecoveryCode" : "login.enterAuthenticatorCode")}
+              {step === "two_factor_setup" && t("login.setupDescription")}
+              {step === "recovery_codes" && t("login.twoFactorEnabled")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {step === "two_factor" && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void handleVerifyTwoFactor();
+                }}
+                className="space-y-4"
+              >
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recovery-code">{t("login.recoveryCode")}</Label>
+                    <Input
+                      id="recovery-code"
+                      placeholder="xxxxx-xxxxx"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      autoComplete="off"
+                      autoFocus
+                      className="h-11 font-mono"
+                    />
+                  </div>
+                ) : (
+                  <TwoFactorCodeInput
+                    value={otpCode}
+                    onChange={setOtpCode}
+                    onComplete={(code) => void handleVerifyTwoFactor(code)}
+                    disabled={loading}
+                  />
+                )}
+
+                {errorBox}
+
+                <Button type="submit" className="w-full h-11" disabled={loading}>
+                  {t("login.verify")}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setError("");
+                  }}
+                >
+                  {t(useRecoveryCode ? "login.useAuthenticator" : "login.useRecoveryCode")}
+                </Button>
+              </form>
+            )}
+
+            {step === "two_factor_setup" && (
+              <>
+                {setup && <TwoFactorQrCode otpauthUrl={setup.otpauth_url} secret={setup.secret} />}
+                <TwoFactorCodeInput
+                  value={otpCode}
+                  onChange={setOtpCode}
+                  onComplete={(code) => void handleConfirmSetup(code)}
+                  disabled={loading}
+                />
+                {errorBox}
+                <Button
+                  className="w-full h-11"
+                  disabled={loading || otpCode.length !== 6}
+                  onClick={() => void handleConfirmSetup()}
+                >
+                  {t("login.enableAndContinue")}
+                </Button>
+              </>
+            )}
+
+            {step === "recovery_codes" && (
+              <>
+                <RecoveryCodesList codes={recoveryCodes} />
+                <Button
+                  className="w-full h-11"
+                  onClick={() => pendingLogin && finishLogin(pendingLogin)}
+                >
+                  {t("login.savedCodes")}
+                </Button>
+              </>
+            )}
+
+            {step !== "recovery_codes" && (
+              <Button type="button" variant="ghost" className="w-full" onClick={backToCredentials}>
+                {t("login.backToLogin")}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+        )}
 
         <p className="text-center text-xs text-muted-foreground mt-6">
-          © 2025 Scent Management System. All rights reserved.
+          {t("login.copyright", { year: new Date().getFullYear() })}
         </p>
       </div>
     </div>
@@ -16,6 +16,16 @@ import { selectors, thunks } from "../redux-toolkit/slices";
 import type { ManufacturingRawMaterials } from "../../supabase/models/manufacturing_raw_materials";
 import type { ManufacturingRecipes } from "../../supabase/models/manufacturing_recipes";
 import type { ManufacturingOrders } from "../../supabase/models/manufacturing_orders";
+import { postStockAdjustment, reverseSourceStockMovements, syncManufacturingOrderStockMovements } from "../lib/stockLedger";
+import {
+  computeManufacturingCost,
+  explodeRecipeRequirements,
+  exportShortageReport,
+  findMaterialShortages,
+  type MaterialShortage
+} from "../lib/manufacturingCosting";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 // Types
 type UUID = string;
@@ -69,11 +79,36 @@ interface ManufacturingOrder {
   startDate: string;
   completionDate?: string;
   totalCost: number;
+  standardCost: number | null;
+  actualCost: number | null;
+  shortageOverride: boolean;
   notes: string;
   createdBy: string;
 }
 
+const ORDER_STATUS_KEYS: Record<ManufacturingOrder["status"], MessageKey> = {
+  pending: "status.pending",
+  "in-progress": "manufacturing.status.inProgress",
+  completed: "manufacturing.status.completed",
+  cancelled: "status.cancelled"
+};
+
+// Units are stored by code; anything else is shown as entered
+const UNIT_KEYS: Record<string, MessageKey> = {
+  ml: "manufacturing.unit.ml",
+  liter: "manufacturing.unit.liter",
+  gram: "manufacturing.unit.gram",
+  kg: "manufacturing.unit.kg",
+  piece: "manufacturing.unit.piece",
+  set: "manufacturing.unit.set"
+};
+
 export function Manufacturing() {
+  const { t, formatNumber, formatCurrency, formatDate, localizedName } = useLocale();
+  const unitLabel = (unit: string) => {
+    const key = UNIT_KEYS[unit];
+    return key ? t(key) : unit;
+  };
   const dispatch = useAppDispatch();
   const [activeTab, setActiveTab] = useState("orders");
 
@@ -201,6 +236,9 @@ export function Manufacturing() {
         startDate: order.mfg_order_start_date ?? "",
         completionDate: order.mfg_order_completion_date ?? undefined,
         totalCost: Number(order.mfg_order_total_cost ?? 0),
+        standardCost: order.mfg_order_standard_cost != null ? Number(order.mfg_order_standard_cost) : null,
+        actualCost: order.mfg_order_actual_cost != null ? Number(order.mfg_order_actual_cost) : null,
+        shortageOverride: Boolean(order.mfg_order_shortage_override),
         notes: order.mfg_order_notes ?? "",
         createdBy: order.created_by ?? ""
       };
@@ -263,27 +301,31 @@ export function Manufacturing() {
     createdBy: ""
   });
   const [isOrderSubmitting, setIsOrderSubmitting] = useState(false);
+  const [shortageOrder, setShortageOrder] = useState<ManufacturingOrder | null>(null);
+  const [shortages, setShortages] = useState<MaterialShortage[]>([]);
+  const [shortageOverrideReason, setShortageOverrideReason] = useState("");
 
   const isAnyLoading = materialsLoading || recipesLoading || ordersLoading;
   const dataErrors = useMemo(() => {
     const errors: string[] = [];
-    if (materialsError) errors.push(`Materials: ${materialsError}`);
-    if (recipesError) errors.push(`Recipes: ${recipesError}`);
-    if (ordersError) errors.push(`Orders: ${ordersError}`);
+    if (materialsError) errors.push(t("manufacturing.materialsError", { error: materialsError }));
+    if (recipesError) errors.push(t("manufacturing.recipesError", { error: recipesError }));
+    if (ordersError) errors.push(t("manufacturing.ordersError", { error: ordersError }));
     return errors;
-  }, [materialsError, ordersError, recipesError]);
+  }, [materialsError, ordersError, recipesError, t]);
 
   // Raw Material Functions
   const handleSaveMaterial = async () => {
     const nameEn = materialForm.nameEn.trim();
     const sku = materialForm.sku.trim();
     if (!nameEn || !sku || !materialForm.costPerUnit) {
-      toast.error("Please fill in all required fields");
+      toast.error(t("manufacturing.requiredFields"));
       return;
     }
 
     const nameAr = materialForm.nameAr.trim();
     const category = materialForm.category.trim();
+    const stock = parseFloat(materialForm.currentStock || "0");
 
     const payload = {
       material_en_name: nameEn,
@@ -291,7 +333,6 @@ export function Manufacturing() {
       material_sku: sku,
       unit: materialForm.unit,
       cost_per_unit: parseFloat(materialForm.costPerUnit),
-      current_stock: parseFloat(materialForm.currentStock || "0"),
       min_stock: parseFloat(materialForm.minStock || "0"),
       category: category || null
     };
@@ -305,15 +346,27 @@ export function Manufacturing() {
             values: payload
           })
         ).unwrap();
-        toast.success("Raw material updated successfully!");
+        // Stock is derived from the ledger; a changed quantity is posted as an adjustment
+        const stockDelta = stock - (materialLookup.get(editingMaterialId)?.currentStock ?? 0);
+        if (stockDelta !== 0) {
+          await postStockAdjustment("raw_material", editingMaterialId, stockDelta, "Manual stock correction");
+          dispatch(thunks.manufacturing_raw_materials.fetchAll(undefined));
+        }
+        toast.success(translateCurrent("manufacturing.materialUpdated"));
       } else {
-        await dispatch(thunks.manufacturing_raw_materials.createOne(payload)).unwrap();
-        toast.success("Raw material added successfully!");
+        const created = await dispatch(
+          thunks.manufacturing_raw_materials.createOne({ ...payload, current_stock: 0 })
+        ).unwrap();
+        if (stock) {
+          await postStockAdjustment("raw_material", created.material_id, stock, "Opening stock");
+          dispatch(thunks.manufacturing_raw_materials.fetchAll(undefined));
+        }
+        toast.success(translateCurrent("manufacturing.materialAdded"));
       }
       setIsMaterialDialogOpen(false);
       resetMaterialForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to save raw material");
+      toast.error(error?.message ?? translateCurrent("manufacturing.materialSaveFailed"));
     } finally {
       setIsMaterialSubmitting(false);
     }
@@ -355,15 +408,15 @@ export function Manufacturing() {
 
   const handleDeleteMaterial = async (materialId: string) => {
     if (!materialId) return;
-    const confirmDelete = window.confirm("Are you sure you want to delete this raw material?");
+    const confirmDelete = window.confirm(t("manufacturing.materialDeleteConfirm"));
     if (!confirmDelete) return;
 
     setIsMaterialSubmitting(true);
     try {
       await dispatch(thunks.manufacturing_raw_materials.deleteOne(materialId)).unwrap();
-      toast.success("Raw material deleted successfully!");
+      toast.success(translateCurrent("manufacturing.materialDeleted"));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to delete raw material");
+      toast.error(error?.message ?? translateCurrent("manufacturing.materialDeleteFailed"));
     } finally {
       setIsMaterialSubmitting(false);
     }
@@ -372,19 +425,19 @@ export function Manufacturing() {
   // Recipe Functions
   const handleAddItemToRecipe = () => {
     if (!currentItem.materialId || !currentItem.quantity) {
-      toast.error("Please select material and enter quantity");
+      toast.error(t("manufacturing.selectMaterialAndQuantity"));
       return;
     }
 
     const material = materialLookup.get(currentItem.materialId);
     if (!material) {
-      toast.error("Selected material not found");
+      toast.error(t("manufacturing.materialNotFound"));
       return;
     }
 
     const quantity = parseFloat(currentItem.quantity);
     if (Number.isNaN(quantity) || quantity <= 0) {
-      toast.error("Quantity must be greater than zero");
+      toast.error(t("manufacturing.quantityPositive"));
       return;
     }
     const totalCost = quantity * material.costPerUnit;
@@ -400,7 +453,7 @@ export function Manufacturing() {
 
     setRecipeItems([...recipeItems, newItem]);
     setCurrentItem({ materialId: "", quantity: "" });
-    toast.success("Item added to recipe!");
+    toast.success(t("manufacturing.itemAdded"));
   };
 
   const handleRemoveItemFromRecipe = (index: number) => {
@@ -428,14 +481,14 @@ export function Manufacturing() {
     const productNameEn = recipeForm.productNameEn.trim();
     const productSku = recipeForm.productSku.trim();
     if (!productNameEn || !productSku || recipeItems.length === 0) {
-      toast.error("Please fill in product details and add at least one material");
+      toast.error(t("manufacturing.recipeRequired"));
       return;
     }
 
     const costs = calculateRecipeCosts();
     const outputQty = parseFloat(recipeForm.outputQuantity || "1");
     if (Number.isNaN(outputQty) || outputQty <= 0) {
-      toast.error("Output quantity must be greater than zero");
+      toast.error(t("manufacturing.outputPositive"));
       return;
     }
 
@@ -473,15 +526,15 @@ export function Manufacturing() {
             values: { ...payload, recipe_sku: editingRecipeSku }
           })
         ).unwrap();
-        toast.success("Manufacturing recipe updated successfully!");
+        toast.success(translateCurrent("manufacturing.recipeUpdated"));
       } else {
         await dispatch(thunks.manufacturing_recipes.createOne(payload)).unwrap();
-        toast.success("Manufacturing recipe created successfully!");
+        toast.success(translateCurrent("manufacturing.recipeCreated"));
       }
       setIsRecipeDialogOpen(false);
       resetRecipeForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to save recipe");
+      toast.error(error?.message ?? translateCurrent("manufacturing.recipeSaveFailed"));
     } finally {
       setIsRecipeSubmitting(false);
     }
@@ -526,18 +579,18 @@ export function Manufacturing() {
 
   const handleDeleteRecipe = async (recipeSku: string) => {
     if (!recipeSku) return;
-    const confirmDelete = window.confirm("Are you sure you want to delete this manufacturing recipe?");
+    const confirmDelete = window.confirm(t("manufacturing.recipeDeleteConfirm"));
     if (!confirmDelete) return;
     setIsRecipeSubmitting(true);
     try {
       await dispatch(thunks.manufacturing_recipes.deleteOne(recipeSku)).unwrap();
-      toast.success("Recipe deleted successfully!");
+      toast.success(translateCurrent("manufacturing.recipeDeleted"));
       if (viewRecipeSku === recipeSku) {
         setIsViewRecipeDialogOpen(false);
         setViewRecipeSku(null);
       }
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to delete recipe");
+      toast.error(error?.message ?? translateCurrent("manufacturing.recipeDeleteFailed"));
     } finally {
       setIsRecipeSubmitting(false);
     }
@@ -546,19 +599,19 @@ export function Manufacturing() {
   // Manufacturing Order Functions
   const handleSaveOrder = async () => {
     if (!orderForm.recipeId || !orderForm.batchSize) {
-      toast.error("Please select recipe and enter batch size");
+      toast.error(t("manufacturing.selectRecipeAndBatch"));
       return;
     }
 
     const recipe = recipeLookupBySku.get(orderForm.recipeId);
     if (!recipe) {
-      toast.error("Unable to find selected recipe");
+      toast.error(t("manufacturing.recipeNotFound"));
       return;
     }
 
     const batchSize = parseFloat(orderForm.batchSize);
     if (Number.isNaN(batchSize) || batchSize <= 0) {
-      toast.error("Batch size must be greater than zero");
+      toast.error(t("manufacturing.batchPositive"));
       return;
     }
     const totalCost = recipe.costPerUnit * batchSize;
@@ -592,15 +645,15 @@ export function Manufacturing() {
             values: { ...payload }
           })
         ).unwrap();
-        toast.success("Manufacturing order updated successfully!");
+        toast.success(translateCurrent("manufacturing.orderUpdated"));
       } else {
         await dispatch(thunks.manufacturing_orders.createOne(payload)).unwrap();
-        toast.success("Manufacturing order created successfully!");
+        toast.success(translateCurrent("manufacturing.orderCreated"));
       }
       setIsOrderDialogOpen(false);
       resetOrderForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to save manufacturing order");
+      toast.error(error?.message ?? translateCurrent("manufacturing.orderSaveFailed"));
     } finally {
       setIsOrderSubmitting(false);
     }
@@ -636,24 +689,41 @@ export function Manufacturing() {
 
   const handleDeleteOrder = async (orderId: string) => {
     if (!orderId) return;
-    const confirmDelete = window.confirm("Are you sure you want to delete this manufacturing order?");
+    const confirmDelete = window.confirm(t("manufacturing.orderDeleteConfirm"));
     if (!confirmDelete) return;
     setIsOrderSubmitting(true);
     try {
+      // A completed order consumed materials and received the product; take both back out of stock first
+      const movements = await reverseSourceStockMovements(
+        {
+          sourceType: "manufacturing_order",
+          sourceId: orderId,
+          sourceReference: orders.find((order) => order.id === orderId)?.orderNumber ?? null,
+        },
+        "Manufacturing order deleted"
+      );
+      if (movements.length > 0) {
+        dispatch(thunks.manufacturing_raw_materials.fetchAll(undefined));
+        dispatch(thunks.inventory.fetchAll(undefined));
+      }
       await dispatch(thunks.manufacturing_orders.deleteOne(orderId)).unwrap();
-      toast.success("Manufacturing order deleted successfully!");
+      toast.success(translateCurrent("manufacturing.orderDeleted"));
       if (editingOrderId === orderId) {
         resetOrderForm();
         setIsOrderDialogOpen(false);
       }
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to delete manufacturing order");
+      toast.error(error?.message ?? translateCurrent("manufacturing.orderDeleteFailed"));
     } finally {
       setIsOrderSubmitting(false);
     }
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: ManufacturingOrder["status"]) => {
+  const handleUpdateOrderStatus = async (
+    orderId: string,
+    newStatus: ManufacturingOrder["status"],
+    overrideReason?: string
+  ) => {
     if (!orderId) return;
     const existingOrder = orders.find(order => order.id === orderId);
     if (!existingOrder) return;
@@ -663,7 +733,28 @@ export function Manufacturing() {
     };
 
     if (newStatus === "completed") {
+      const recipeRow = recipesState.find((recipe) => recipe.recipe_sku === existingOrder.recipeId);
+      if (!recipeRow) {
+        toast.error(t("manufacturing.orderRecipeMissing"));
+        return;
+      }
+      const orderRow = { mfg_order_batch_size: existingOrder.batchSize };
+      const requirements = explodeRecipeRequirements(orderRow, recipeRow, materialsState);
+      const shortages = findMaterialShortages(requirements);
+      // Short materials block completion unless someone overrides with a reason
+      if (shortages.length > 0 && !overrideReason) {
+        setShortageOrder(existingOrder);
+        setShortages(shortages);
+        setShortageOverrideReason("");
+        return;
+      }
+      const costs = computeManufacturingCost(orderRow, recipeRow, requirements);
       payload.mfg_order_completion_date = new Date().toISOString().split("T")[0];
+      payload.mfg_order_standard_cost = costs.standard.total;
+      payload.mfg_order_actual_cost = costs.actual.total;
+      payload.mfg_order_cost_breakdown = costs;
+      payload.mfg_order_shortage_override = shortages.length > 0;
+      payload.mfg_order_override_reason = shortages.length > 0 ? overrideReason ?? null : null;
     } else if (newStatus === "in-progress") {
       payload.mfg_order_completion_date = null;
       if (!existingOrder.startDate) {
@@ -672,18 +763,46 @@ export function Manufacturing() {
     } else if (newStatus === "cancelled") {
       payload.mfg_order_completion_date = null;
     }
+    if (newStatus !== "completed" && existingOrder.status === "completed") {
+      payload.mfg_order_actual_cost = null;
+      payload.mfg_order_cost_breakdown = null;
+      payload.mfg_order_shortage_override = false;
+      payload.mfg_order_override_reason = null;
+    }
 
     setIsOrderSubmitting(true);
     try {
-      await dispatch(
+      const updatedOrder = await dispatch(
         thunks.manufacturing_orders.updateOne({
           id: orderId,
           values: payload
         })
       ).unwrap();
-      toast.success(`Order status updated to ${newStatus}!`);
+      // Completion consumes materials and receives the finished product; leaving "completed" reverses it
+      const recipeRow = recipesState.find((recipe) => recipe.recipe_sku === updatedOrder.recipe_sku) ?? null;
+      const { movements, unresolved } = await syncManufacturingOrderStockMovements(updatedOrder, recipeRow);
+      if (movements.length > 0) {
+        dispatch(thunks.manufacturing_raw_materials.fetchAll(undefined));
+        dispatch(thunks.inventory.fetchAll(undefined));
+      }
+      if (newStatus === "completed" && unresolved.length > 0) {
+        toast.warning(translateCurrent("manufacturing.noInventoryProduct", { name: existingOrder.recipeName }));
+      }
+      if (newStatus === "completed" && updatedOrder.mfg_order_actual_cost != null) {
+        const variance = Number(updatedOrder.mfg_order_actual_cost) - Number(updatedOrder.mfg_order_standard_cost ?? 0);
+        if (Math.abs(variance) >= 0.01) {
+          toast.info(
+            translateCurrent(variance > 0 ? "manufacturing.costAboveStandard" : "manufacturing.costBelowStandard", {
+              amount: formatCurrency(Math.abs(variance))
+            })
+          );
+        }
+      }
+      setShortageOrder(null);
+      setShortages([]);
+      toast.success(translateCurrent("manufacturing.statusUpdated", { status: translateCurrent(ORDER_STATUS_KEYS[newStatus]) }));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to update order status");
+      toast.error(error?.message ?? translateCurrent("manufacturing.statusUpdateFailed"));
     } finally {
       setIsOrderSubmitting(false);
     }
@@ -728,6 +847,7 @@ export function Manufacturing() {
         "Start Date": order.startDate || "",
         "Completion Date": order.completionDate || "",
         "Total Cost (SAR)": order.totalCost,
+        "Actual Cost (SAR)": order.actualCost ?? "",
         "Notes": order.notes || "",
       }));
 
@@ -740,9 +860,9 @@ export function Manufacturing() {
       XLSX.utils.book_append_sheet(wb, ws, "Manufacturing Orders");
       const fileName = `manufacturing_orders_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Manufacturing orders exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export manufacturing orders");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -773,9 +893,9 @@ export function Manufacturing() {
       XLSX.utils.book_append_sheet(wb, ws, "Recipes");
       const fileName = `recipes_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Recipes exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export recipes");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -803,9 +923,9 @@ export function Manufacturing() {
       XLSX.utils.book_append_sheet(wb, ws, "Raw Materials");
       const fileName = `raw_materials_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Raw materials exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export raw materials");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -820,10 +940,10 @@ export function Manufacturing() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Manufacturing - التصنيع</h2>
-          <p className="text-muted-foreground mt-1">Manage production and costing</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("manufacturing.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("manufacturing.subtitle")}</p>
           {isAnyLoading && (
-            <p className="text-xs text-muted-foreground mt-1">Syncing latest data...</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("manufacturing.syncing")}</p>
           )}
         </div>
       </div>
@@ -840,45 +960,45 @@ export function Manufacturing() {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Materials Value</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("manufacturing.totalMaterialsValue")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalMaterialsValue.toFixed(2)} SAR</div>
-            <p className="text-xs text-muted-foreground mt-1">Raw materials inventory</p>
+            <div className="text-2xl font-bold">{formatCurrency(totalMaterialsValue)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("manufacturing.rawMaterialsInventory")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Low Stock Items</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("manufacturing.lowStockItems")}</CardTitle>
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{lowStockMaterials}</div>
-            <p className="text-xs text-muted-foreground mt-1">Need reordering</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("manufacturing.needReordering")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Pending Orders</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("manufacturing.pendingOrders")}</CardTitle>
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{pendingOrders}</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting production</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("manufacturing.awaitingProduction")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Completed Orders</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("manufacturing.completedOrders")}</CardTitle>
             <CheckCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{completedOrders}</div>
-            <p className="text-xs text-muted-foreground mt-1">This month</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("manufacturing.thisMonth")}</p>
           </CardContent>
         </Card>
       </div>
@@ -887,16 +1007,16 @@ export function Manufacturing() {
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="orders">
-            <Factory className="h-4 w-4 mr-2" />
-            Manufacturing Orders
+            <Factory className="h-4 w-4 me-2" />
+            {t("manufacturing.tabOrders")}
           </TabsTrigger>
           <TabsTrigger value="recipes">
-            <FileText className="h-4 w-4 mr-2" />
-            Recipes (BOM)
+            <FileText className="h-4 w-4 me-2" />
+            {t("manufacturing.tabRecipes")}
           </TabsTrigger>
           <TabsTrigger value="materials">
-            <ShoppingCart className="h-4 w-4 mr-2" />
-            Raw Materials
+            <ShoppingCart className="h-4 w-4 me-2" />
+            {t("manufacturing.tabMaterials")}
           </TabsTrigger>
         </TabsList>
 
@@ -906,24 +1026,24 @@ export function Manufacturing() {
             <CardContent className="pt-6">
               <div className="flex flex-col sm:flex-row gap-4 mb-4">
                 <div className="relative flex-1">
-                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                   <Input
-                    placeholder="Search orders..."
+                    placeholder={t("manufacturing.searchOrders")}
                     value={orderSearchQuery}
                     onChange={(e) => setOrderSearchQuery(e.target.value)}
-                    className="pl-10"
+                    className="ps-10"
                   />
                 </div>
                 <Select value={orderStatusFilter} onValueChange={setOrderStatusFilter}>
                   <SelectTrigger className="w-[180px]">
-                    <SelectValue placeholder="Filter by status" />
+                    <SelectValue placeholder={t("manufacturing.filterByStatus")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="in-progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                    <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                    <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                    <SelectItem value="in-progress">{t("manufacturing.status.inProgress")}</SelectItem>
+                    <SelectItem value="completed">{t("manufacturing.status.completed")}</SelectItem>
+                    <SelectItem value="cancelled">{t("status.cancelled")}</SelectItem>
                   </SelectContent>
                 </Select>
                 <div className="flex gap-2">
@@ -933,7 +1053,7 @@ export function Manufacturing() {
                     className="gap-2"
                   >
                     <Download className="h-4 w-4" />
-                    Export Excel
+                    {t("common.exportExcel")}
                   </Button>
                   <Button
                     onClick={openCreateOrderDialog}
@@ -941,7 +1061,7 @@ export function Manufacturing() {
                     disabled={isOrderSubmitting}
                   >
                     <Plus className="h-4 w-4" />
-                    New Order
+                    {t("manufacturing.newOrder")}
                   </Button>
                 </div>
               </div>
@@ -950,13 +1070,13 @@ export function Manufacturing() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Order #</TableHead>
-                      <TableHead>Product</TableHead>
-                      <TableHead>Batch Size</TableHead>
-                      <TableHead>Total Cost</TableHead>
-                      <TableHead>Start Date</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-center">Actions</TableHead>
+                      <TableHead>{t("manufacturing.orderNumber")}</TableHead>
+                      <TableHead>{t("manufacturing.product")}</TableHead>
+                      <TableHead>{t("manufacturing.batchSize")}</TableHead>
+                      <TableHead>{t("manufacturing.totalCost")}</TableHead>
+                      <TableHead>{t("manufacturing.startDate")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-center">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -964,7 +1084,7 @@ export function Manufacturing() {
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-10 text-muted-foreground">
                         <Factory className="h-12 w-12 mx-auto mb-3 opacity-20"  />
-                          No manufacturing orders found
+                          {t("manufacturing.noOrders")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -977,14 +1097,27 @@ export function Manufacturing() {
                               <div className="text-xs text-muted-foreground">{order.productSku}</div>
                             </div>
                           </TableCell>
-                          <TableCell>{order.batchSize} units</TableCell>
-                          <TableCell>{order.totalCost.toFixed(2)} SAR</TableCell>
+                          <TableCell>{t("manufacturing.unitsCount", { count: formatNumber(order.batchSize) })}</TableCell>
+                          <TableCell>
+                            <div>{formatCurrency(order.totalCost)}</div>
+                            {order.status === "completed" && order.actualCost != null && (
+                              <div
+                                className={`text-xs ${
+                                  order.actualCost > (order.standardCost ?? order.totalCost) ? "text-red-600" : "text-green-600"
+                                }`}
+                                title={t("manufacturing.actualCostHint")}
+                              >
+                                {t("manufacturing.actualCost", { amount: formatCurrency(order.actualCost) })}
+                                {order.shortageOverride && ` · ${t("manufacturing.shortageOverride")}`}
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell>
-                            {order.startDate ? new Date(order.startDate).toLocaleDateString('en-GB') : "-"}
+                            {formatDate(order.startDate)}
                           </TableCell>
                           <TableCell>
                             <Badge className={statusColors[order.status]}>
-                              {order.status}
+                              {t(ORDER_STATUS_KEYS[order.status])}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -994,7 +1127,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                     onClick={() => handleUpdateOrderStatus(order.id, "in-progress")}
-                                  title="Start Production"
+                                  title={t("manufacturing.startProduction")}
                                     disabled={isOrderSubmitting}
                                 >
                                   <Clock className="h-4 w-4 text-blue-600" />
@@ -1005,7 +1138,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                     onClick={() => handleUpdateOrderStatus(order.id, "completed")}
-                                  title="Mark as Completed"
+                                  title={t("manufacturing.markCompleted")}
                                     disabled={isOrderSubmitting}
                                 >
                                   <CheckCircle className="h-4 w-4 text-green-600" />
@@ -1016,7 +1149,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                     onClick={() => handleUpdateOrderStatus(order.id, "cancelled")}
-                                  title="Cancel Order"
+                                  title={t("manufacturing.cancelOrder")}
                                     disabled={isOrderSubmitting}
                                 >
                                   <XCircle className="h-4 w-4 text-red-600" />
@@ -1026,7 +1159,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => handleEditOrder(order)}
-                                  title="Edit Order"
+                                  title={t("manufacturing.editOrder")}
                                   disabled={isOrderSubmitting}
                                 >
                                   <Edit className="h-4 w-4 text-purple-600" />
@@ -1035,7 +1168,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => handleDeleteOrder(order.id)}
-                                  title="Delete Order"
+                                  title={t("manufacturing.deleteOrder")}
                                   disabled={isOrderSubmitting}
                                 >
                                   <Trash2 className="h-4 w-4 text-red-600" />
@@ -1058,12 +1191,12 @@ export function Manufacturing() {
             <CardContent className="pt-6">
               <div className="flex flex-col sm:flex-row gap-4 mb-4">
                 <div className="relative flex-1">
-                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                   <Input
-                    placeholder="Search recipes..."
+                    placeholder={t("manufacturing.searchRecipes")}
                     value={recipeSearchQuery}
                     onChange={(e) => setRecipeSearchQuery(e.target.value)}
-                    className="pl-10"
+                    className="ps-10"
                   />
                 </div>
                 <div className="flex gap-2">
@@ -1073,11 +1206,11 @@ export function Manufacturing() {
                     className="gap-2"
                   >
                     <Download className="h-4 w-4" />
-                    Export Excel
+                    {t("common.exportExcel")}
                   </Button>
                   <Button onClick={openCreateRecipeDialog} className="gap-2" disabled={isRecipeSubmitting}>
                     <Plus className="h-4 w-4" />
-                    New Recipe
+                    {t("manufacturing.newRecipe")}
                   </Button>
                 </div>
               </div>
@@ -1086,20 +1219,20 @@ export function Manufacturing() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Product</TableHead>
-                      <TableHead>SKU</TableHead>
-                      <TableHead>Output</TableHead>
-                      <TableHead>Material Cost</TableHead>
-                      <TableHead>Total Cost</TableHead>
-                      <TableHead>Cost/Unit</TableHead>
-                      <TableHead className="text-center">Actions</TableHead>
+                      <TableHead>{t("manufacturing.product")}</TableHead>
+                      <TableHead>{t("manufacturing.sku")}</TableHead>
+                      <TableHead>{t("manufacturing.output")}</TableHead>
+                      <TableHead>{t("manufacturing.materialCost")}</TableHead>
+                      <TableHead>{t("manufacturing.totalCost")}</TableHead>
+                      <TableHead>{t("manufacturing.costPerUnit")}</TableHead>
+                      <TableHead className="text-center">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {filteredRecipes.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center text-muted-foreground">
-                          No recipes found
+                          {t("manufacturing.noRecipes")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -1112,10 +1245,10 @@ export function Manufacturing() {
                             </div>
                           </TableCell>
                           <TableCell>{recipe.productSku}</TableCell>
-                          <TableCell>{recipe.outputQuantity} {recipe.outputUnit}</TableCell>
-                          <TableCell>{recipe.totalMaterialCost.toFixed(2)} SAR</TableCell>
-                          <TableCell>{recipe.totalCost.toFixed(2)} SAR</TableCell>
-                          <TableCell className="font-medium">{recipe.costPerUnit.toFixed(2)} SAR</TableCell>
+                          <TableCell>{formatNumber(recipe.outputQuantity)} {unitLabel(recipe.outputUnit)}</TableCell>
+                          <TableCell>{formatCurrency(recipe.totalMaterialCost)}</TableCell>
+                          <TableCell>{formatCurrency(recipe.totalCost)}</TableCell>
+                          <TableCell className="font-medium">{formatCurrency(recipe.costPerUnit)}</TableCell>
                           <TableCell>
                             <div className="flex items-center justify-center gap-1">
                               <Button
@@ -1125,7 +1258,7 @@ export function Manufacturing() {
                                   setViewRecipeSku(recipe.productSku);
                                   setIsViewRecipeDialogOpen(true);
                                 }}
-                                title="View Details"
+                                title={t("manufacturing.viewDetails")}
                               >
                                 <Eye className="h-4 w-4 text-blue-600" />
                               </Button>
@@ -1133,7 +1266,7 @@ export function Manufacturing() {
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => handleEditRecipe(recipe)}
-                                title="Edit"
+                                title={t("common.edit")}
                                 disabled={isRecipeSubmitting}
                               >
                                 <Edit className="h-4 w-4 text-purple-600" />
@@ -1142,7 +1275,7 @@ export function Manufacturing() {
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => handleDeleteRecipe(recipe.productSku)}
-                                title="Delete"
+                                title={t("common.delete")}
                                 disabled={isRecipeSubmitting}
                               >
                                 <Trash2 className="h-4 w-4 text-red-600" />
@@ -1165,12 +1298,12 @@ export function Manufacturing() {
             <CardContent className="pt-6">
               <div className="flex flex-col sm:flex-row gap-4 mb-4">
                 <div className="relative flex-1">
-                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                   <Input
-                    placeholder="Search materials..."
+                    placeholder={t("manufacturing.searchMaterials")}
                     value={materialSearchQuery}
                     onChange={(e) => setMaterialSearchQuery(e.target.value)}
-                    className="pl-10"
+                    className="ps-10"
                   />
                 </div>
                 <div className="flex gap-2">
@@ -1180,11 +1313,11 @@ export function Manufacturing() {
                     className="gap-2"
                   >
                     <Download className="h-4 w-4" />
-                    Export Excel
+                    {t("common.exportExcel")}
                   </Button>
                   <Button onClick={openCreateMaterialDialog} className="gap-2" disabled={isMaterialSubmitting}>
                     <Plus className="h-4 w-4" />
-                    Add Material
+                    {t("manufacturing.addMaterial")}
                   </Button>
                 </div>
               </div>
@@ -1193,21 +1326,21 @@ export function Manufacturing() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Material</TableHead>
-                      <TableHead>SKU</TableHead>
-                      <TableHead>Category</TableHead>
-                      <TableHead>Cost/Unit</TableHead>
-                      <TableHead>Current Stock</TableHead>
-                      <TableHead>Min Stock</TableHead>
-                      <TableHead>Total Value</TableHead>
-                  <TableHead className="text-center">Actions</TableHead>
+                      <TableHead>{t("manufacturing.material")}</TableHead>
+                      <TableHead>{t("manufacturing.sku")}</TableHead>
+                      <TableHead>{t("manufacturing.category")}</TableHead>
+                      <TableHead>{t("manufacturing.costPerUnit")}</TableHead>
+                      <TableHead>{t("manufacturing.currentStock")}</TableHead>
+                      <TableHead>{t("manufacturing.minStock")}</TableHead>
+                      <TableHead>{t("manufacturing.totalValue")}</TableHead>
+                  <TableHead className="text-center">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {filteredMaterials.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center text-muted-foreground">
-                          No materials found
+                          {t("manufacturing.noMaterials")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -1223,15 +1356,15 @@ export function Manufacturing() {
                             </TableCell>
                             <TableCell>{material.sku}</TableCell>
                             <TableCell>{material.category}</TableCell>
-                            <TableCell>{material.costPerUnit.toFixed(2)} SAR</TableCell>
+                            <TableCell>{formatCurrency(material.costPerUnit)}</TableCell>
                             <TableCell>
                               <span className={isLowStock ? "text-red-600 font-medium" : ""}>
-                                {material.currentStock} {material.unit}
+                                {formatNumber(material.currentStock)} {unitLabel(material.unit)}
                               </span>
                             </TableCell>
-                            <TableCell>{material.minStock} {material.unit}</TableCell>
+                            <TableCell>{formatNumber(material.minStock)} {unitLabel(material.unit)}</TableCell>
                             <TableCell className="font-medium">
-                              {(material.currentStock * material.costPerUnit).toFixed(2)} SAR
+                              {formatCurrency((material.currentStock * material.costPerUnit))}
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center justify-center gap-1">
@@ -1239,7 +1372,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => handleEditMaterial(material)}
-                                  title="Edit Material"
+                                  title={t("manufacturing.editMaterial")}
                                   disabled={isMaterialSubmitting}
                                 >
                                   <Edit className="h-4 w-4 text-blue-600" />
@@ -1248,7 +1381,7 @@ export function Manufacturing() {
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => handleDeleteMaterial(material.id)}
-                                  title="Delete Material"
+                                  title={t("manufacturing.deleteMaterial")}
                                   disabled={isMaterialSubmitting}
                                 >
                                   <Trash2 className="h-4 w-4 text-red-600" />
@@ -1279,14 +1412,14 @@ export function Manufacturing() {
       >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Add Raw Material</DialogTitle>
-            <DialogDescription>Add a new raw material to inventory</DialogDescription>
+            <DialogTitle>{t("manufacturing.materialDialogTitle")}</DialogTitle>
+            <DialogDescription>{t("manufacturing.materialDialogDescription")}</DialogDescription>
           </DialogHeader>
 
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="nameEn">Name (English) *</Label>
+                <Label htmlFor="nameEn">{t("manufacturing.nameEnRequired")}</Label>
                 <Input
                   id="nameEn"
                   value={materialForm.nameEn}
@@ -1294,7 +1427,7 @@ export function Manufacturing() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="nameAr">Name (Arabic)</Label>
+                <Label htmlFor="nameAr">{t("manufacturing.nameAr")}</Label>
                 <Input
                   id="nameAr"
                   value={materialForm.nameAr}
@@ -1305,7 +1438,7 @@ export function Manufacturing() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="sku">SKU *</Label>
+                <Label htmlFor="sku">{t("manufacturing.skuRequired")}</Label>
                 <Input
                   id="sku"
                   value={materialForm.sku}
@@ -1313,35 +1446,35 @@ export function Manufacturing() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
+                <Label htmlFor="category">{t("manufacturing.category")}</Label>
                 <Input
                   id="category"
                   value={materialForm.category}
                   onChange={(e) => setMaterialForm({ ...materialForm, category: e.target.value })}
-                  placeholder="e.g., Fragrance Oils"
+                  placeholder={t("manufacturing.categoryPlaceholder")}
                 />
               </div>
             </div>
 
             <div className="grid grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="unit">Unit</Label>
+                <Label htmlFor="unit">{t("manufacturing.unit")}</Label>
                 <Select value={materialForm.unit} onValueChange={(value) => setMaterialForm({ ...materialForm, unit: value })}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="ml">ml</SelectItem>
-                    <SelectItem value="liter">Liter</SelectItem>
-                    <SelectItem value="gram">Gram</SelectItem>
-                    <SelectItem value="kg">Kg</SelectItem>
-                    <SelectItem value="piece">Piece</SelectItem>
-                    <SelectItem value="set">Set</SelectItem>
+                    <SelectItem value="ml">{t(UNIT_KEYS.ml)}</SelectItem>
+                    <SelectItem value="liter">{t(UNIT_KEYS.liter)}</SelectItem>
+                    <SelectItem value="gram">{t(UNIT_KEYS.gram)}</SelectItem>
+                    <SelectItem value="kg">{t(UNIT_KEYS.kg)}</SelectItem>
+                    <SelectItem value="piece">{t(UNIT_KEYS.piece)}</SelectItem>
+                    <SelectItem value="set">{t(UNIT_KEYS.set)}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="costPerUnit">Cost/Unit (SAR) *</Label>
+                <Label htmlFor="costPerUnit">{t("manufacturing.costPerUnitRequired")}</Label>
                 <Input
                   id="costPerUnit"
                   type="number"
@@ -1354,7 +1487,7 @@ export function Manufacturing() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="currentStock">Current Stock</Label>
+                <Label htmlFor="currentStock">{t("manufacturing.currentStock")}</Label>
                 <Input
                   id="currentStock"
                   type="number"
@@ -1364,7 +1497,7 @@ export function Manufacturing() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="minStock">Minimum Stock</Label>
+                <Label htmlFor="minStock">{t("manufacturing.minimumStock")}</Label>
                 <Input
                   id="minStock"
                   type="number"
@@ -1378,10 +1511,10 @@ export function Manufacturing() {
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsMaterialDialogOpen(false)} disabled={isMaterialSubmitting}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleSaveMaterial} disabled={isMaterialSubmitting}>
-              {editingMaterialId ? "Update Material" : "Save Material"}
+              {editingMaterialId ? t("manufacturing.updateMaterial") : t("manufacturing.saveMaterial")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1399,17 +1532,17 @@ export function Manufacturing() {
       >
         <DialogContent className="max-w-4xl">
           <DialogHeader>
-            <DialogTitle>Create Manufacturing Recipe (BOM)</DialogTitle>
-            <DialogDescription>Define how to manufacture a product</DialogDescription>
+            <DialogTitle>{t("manufacturing.recipeDialogTitle")}</DialogTitle>
+            <DialogDescription>{t("manufacturing.recipeDialogDescription")}</DialogDescription>
           </DialogHeader>
 
           <div className="space-y-6 py-4">
             {/* Product Info */}
             <div className="space-y-4">
-              <h4 className="font-medium">Product Information</h4>
+              <h4 className="font-medium">{t("manufacturing.productInformation")}</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="productNameEn">Product Name (English) *</Label>
+                  <Label htmlFor="productNameEn">{t("manufacturing.productNameEnRequired")}</Label>
                   <Input
                     id="productNameEn"
                     value={recipeForm.productNameEn}
@@ -1417,7 +1550,7 @@ export function Manufacturing() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="productNameAr">Product Name (Arabic)</Label>
+                  <Label htmlFor="productNameAr">{t("manufacturing.productNameAr")}</Label>
                   <Input
                     id="productNameAr"
                     value={recipeForm.productNameAr}
@@ -1428,7 +1561,7 @@ export function Manufacturing() {
 
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="productSku">Product SKU *</Label>
+                  <Label htmlFor="productSku">{t("manufacturing.productSkuRequired")}</Label>
                   <Input
                     id="productSku"
                     value={recipeForm.productSku}
@@ -1437,7 +1570,7 @@ export function Manufacturing() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="outputQuantity">Output Quantity</Label>
+                  <Label htmlFor="outputQuantity">{t("manufacturing.outputQuantity")}</Label>
                   <Input
                     id="outputQuantity"
                     type="number"
@@ -1448,16 +1581,16 @@ export function Manufacturing() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="outputUnit">Output Unit</Label>
+                  <Label htmlFor="outputUnit">{t("manufacturing.outputUnit")}</Label>
                   <Select value={recipeForm.outputUnit} onValueChange={(value) => setRecipeForm({ ...recipeForm, outputUnit: value })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="piece">Piece</SelectItem>
-                      <SelectItem value="set">Set</SelectItem>
-                      <SelectItem value="kg">Kg</SelectItem>
-                      <SelectItem value="liter">Liter</SelectItem>
+                      <SelectItem value="piece">{t(UNIT_KEYS.piece)}</SelectItem>
+                      <SelectItem value="set">{t(UNIT_KEYS.set)}</SelectItem>
+                      <SelectItem value="kg">{t(UNIT_KEYS.kg)}</SelectItem>
+                      <SelectItem value="liter">{t(UNIT_KEYS.liter)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1466,17 +1599,17 @@ export function Manufacturing() {
 
             {/* Materials */}
             <div className="space-y-4">
-              <h4 className="font-medium">Materials (Bill of Materials)</h4>
+              <h4 className="font-medium">{t("manufacturing.materialsBom")}</h4>
               
               <div className="flex gap-2">
                 <Select value={currentItem.materialId} onValueChange={(value) => setCurrentItem({ ...currentItem, materialId: value })}>
                   <SelectTrigger className="flex-1">
-                    <SelectValue placeholder="Select material" />
+                    <SelectValue placeholder={t("manufacturing.selectMaterial")} />
                   </SelectTrigger>
                   <SelectContent>
                     {rawMaterials.map((material) => (
                       <SelectItem key={material.id} value={material.id}>
-                        {material.nameEn} ({material.unit})
+                        {localizedName(material.nameEn, material.nameAr)} ({unitLabel(material.unit)})
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -1484,7 +1617,7 @@ export function Manufacturing() {
                 <Input
                   type="number"
                   step="0.01"
-                  placeholder="Quantity"
+                  placeholder={t("manufacturing.quantity")}
                   value={currentItem.quantity}
                   onChange={(e) => setCurrentItem({ ...currentItem, quantity: e.target.value })}
                   className="w-32"
@@ -1499,10 +1632,10 @@ export function Manufacturing() {
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>Material</TableHead>
-                        <TableHead>Quantity</TableHead>
-                        <TableHead>Cost/Unit</TableHead>
-                        <TableHead>Total Cost</TableHead>
+                        <TableHead>{t("manufacturing.material")}</TableHead>
+                        <TableHead>{t("manufacturing.quantity")}</TableHead>
+                        <TableHead>{t("manufacturing.costPerUnit")}</TableHead>
+                        <TableHead>{t("manufacturing.totalCost")}</TableHead>
                         <TableHead></TableHead>
                       </TableRow>
                     </TableHeader>
@@ -1510,9 +1643,9 @@ export function Manufacturing() {
                       {recipeItems.map((item, index) => (
                         <TableRow key={index}>
                           <TableCell>{item.materialName}</TableCell>
-                          <TableCell>{item.quantity} {item.unit}</TableCell>
-                          <TableCell>{item.costPerUnit.toFixed(2)} SAR</TableCell>
-                          <TableCell>{item.totalCost.toFixed(2)} SAR</TableCell>
+                          <TableCell>{formatNumber(item.quantity)} {unitLabel(item.unit)}</TableCell>
+                          <TableCell>{formatCurrency(item.costPerUnit)}</TableCell>
+                          <TableCell>{formatCurrency(item.totalCost)}</TableCell>
                           <TableCell>
                             <Button
                               variant="ghost"
@@ -1532,10 +1665,10 @@ export function Manufacturing() {
 
             {/* Additional Costs */}
             <div className="space-y-4">
-              <h4 className="font-medium">Additional Costs</h4>
+              <h4 className="font-medium">{t("manufacturing.additionalCosts")}</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="laborCost">Labor Cost (SAR)</Label>
+                  <Label htmlFor="laborCost">{t("manufacturing.laborCostSar")}</Label>
                   <Input
                     id="laborCost"
                     type="number"
@@ -1546,7 +1679,7 @@ export function Manufacturing() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="overheadCost">Overhead Cost (SAR)</Label>
+                  <Label htmlFor="overheadCost">{t("manufacturing.overheadCostSar")}</Label>
                   <Input
                     id="overheadCost"
                     type="number"
@@ -1564,28 +1697,28 @@ export function Manufacturing() {
               <div className="rounded-lg bg-gradient-to-r from-gray-50 to-white p-4 border">
                 <div className="flex items-center gap-2 mb-3">
                   <Calculator className="h-5 w-5 text-blue-600" />
-                  <h4 className="font-medium">Cost Summary</h4>
+                  <h4 className="font-medium">{t("manufacturing.costSummary")}</h4>
                 </div>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span>Material Cost:</span>
-                    <span className="font-medium">{calculateRecipeCosts().totalMaterialCost.toFixed(2)} SAR</span>
+                    <span>{t("manufacturing.materialCostLabel")}</span>
+                    <span className="font-medium">{formatCurrency(calculateRecipeCosts().totalMaterialCost)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Labor Cost:</span>
-                    <span className="font-medium">{calculateRecipeCosts().laborCost.toFixed(2)} SAR</span>
+                    <span>{t("manufacturing.laborCostLabel")}</span>
+                    <span className="font-medium">{formatCurrency(calculateRecipeCosts().laborCost)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Overhead Cost:</span>
-                    <span className="font-medium">{calculateRecipeCosts().overheadCost.toFixed(2)} SAR</span>
+                    <span>{t("manufacturing.overheadCostLabel")}</span>
+                    <span className="font-medium">{formatCurrency(calculateRecipeCosts().overheadCost)}</span>
                   </div>
                   <div className="flex justify-between pt-2 border-t text-base">
-                    <span className="font-semibold">Total Cost:</span>
-                    <span className="font-bold text-blue-600">{calculateRecipeCosts().totalCost.toFixed(2)} SAR</span>
+                    <span className="font-semibold">{t("manufacturing.totalCostLabel")}</span>
+                    <span className="font-bold text-blue-600">{formatCurrency(calculateRecipeCosts().totalCost)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="font-semibold">Cost per Unit:</span>
-                    <span className="font-bold text-green-600">{calculateRecipeCosts().costPerUnit.toFixed(2)} SAR</span>
+                    <span className="font-semibold">{t("manufacturing.costPerUnitLabel")}</span>
+                    <span className="font-bold text-green-600">{formatCurrency(calculateRecipeCosts().costPerUnit)}</span>
                   </div>
                 </div>
               </div>
@@ -1593,22 +1726,22 @@ export function Manufacturing() {
 
             {/* Notes */}
             <div className="space-y-2">
-              <Label htmlFor="notes">Notes</Label>
+              <Label htmlFor="notes">{t("common.notes")}</Label>
               <Input
                 id="notes"
                 value={recipeForm.notes}
                 onChange={(e) => setRecipeForm({ ...recipeForm, notes: e.target.value })}
-                placeholder="Additional notes..."
+                placeholder={t("manufacturing.notesPlaceholder")}
               />
             </div>
           </div>
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsRecipeDialogOpen(false)} disabled={isRecipeSubmitting}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleSaveRecipe} disabled={isRecipeSubmitting}>
-              {editingRecipeSku ? "Update Recipe" : "Save Recipe"}
+              {editingRecipeSku ? t("manufacturing.updateRecipe") : t("manufacturing.saveRecipe")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1626,43 +1759,43 @@ export function Manufacturing() {
       >
         <DialogContent className="max-w-3xl">
           <DialogHeader>
-            <DialogTitle>Recipe Details</DialogTitle>
-            <DialogDescription>View complete recipe information and cost breakdown</DialogDescription>
+            <DialogTitle>{t("manufacturing.recipeDetails")}</DialogTitle>
+            <DialogDescription>{t("manufacturing.recipeDetailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedRecipe && (
             <div className="space-y-6 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Product Name</Label>
+                  <Label className="text-muted-foreground">{t("manufacturing.productName")}</Label>
                   <p className="font-medium">{selectedRecipe.productNameEn}</p>
                   <p className="text-sm text-muted-foreground">{selectedRecipe.productNameAr}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">SKU</Label>
+                  <Label className="text-muted-foreground">{t("manufacturing.sku")}</Label>
                   <p className="font-medium">{selectedRecipe.productSku}</p>
                 </div>
               </div>
 
               <div>
-                <Label className="text-muted-foreground mb-2 block">Bill of Materials</Label>
+                <Label className="text-muted-foreground mb-2 block">{t("manufacturing.bom")}</Label>
                 <div className="rounded-md border">
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>Material</TableHead>
-                        <TableHead>Quantity</TableHead>
-                        <TableHead>Cost/Unit</TableHead>
-                        <TableHead>Total</TableHead>
+                        <TableHead>{t("manufacturing.material")}</TableHead>
+                        <TableHead>{t("manufacturing.quantity")}</TableHead>
+                        <TableHead>{t("manufacturing.costPerUnit")}</TableHead>
+                        <TableHead>{t("common.total")}</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {selectedRecipe.items.map((item, index) => (
                         <TableRow key={index}>
                           <TableCell>{item.materialName}</TableCell>
-                          <TableCell>{item.quantity} {item.unit}</TableCell>
-                          <TableCell>{item.costPerUnit.toFixed(2)} SAR</TableCell>
-                          <TableCell>{item.totalCost.toFixed(2)} SAR</TableCell>
+                          <TableCell>{formatNumber(item.quantity)} {unitLabel(item.unit)}</TableCell>
+                          <TableCell>{formatCurrency(item.costPerUnit)}</TableCell>
+                          <TableCell>{formatCurrency(item.totalCost)}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -1671,34 +1804,34 @@ export function Manufacturing() {
               </div>
 
               <div className="rounded-lg bg-gradient-to-r from-gray-50 to-white p-4 border">
-                <h4 className="font-medium mb-3">Cost Breakdown</h4>
+                <h4 className="font-medium mb-3">{t("manufacturing.costBreakdown")}</h4>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span>Material Cost:</span>
-                    <span className="font-medium">{selectedRecipe.totalMaterialCost.toFixed(2)} SAR</span>
+                    <span>{t("manufacturing.materialCostLabel")}</span>
+                    <span className="font-medium">{formatCurrency(selectedRecipe.totalMaterialCost)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Labor Cost:</span>
-                    <span className="font-medium">{selectedRecipe.laborCost.toFixed(2)} SAR</span>
+                    <span>{t("manufacturing.laborCostLabel")}</span>
+                    <span className="font-medium">{formatCurrency(selectedRecipe.laborCost)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Overhead Cost:</span>
-                    <span className="font-medium">{selectedRecipe.overheadCost.toFixed(2)} SAR</span>
+                    <span>{t("manufacturing.overheadCostLabel")}</span>
+                    <span className="font-medium">{formatCurrency(selectedRecipe.overheadCost)}</span>
                   </div>
                   <div className="flex justify-between pt-2 border-t text-base">
-                    <span className="font-semibold">Total Cost:</span>
-                    <span className="font-bold text-blue-600">{selectedRecipe.totalCost.toFixed(2)} SAR</span>
+                    <span className="font-semibold">{t("manufacturing.totalCostLabel")}</span>
+                    <span className="font-bold text-blue-600">{formatCurrency(selectedRecipe.totalCost)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="font-semibold">Cost per Unit:</span>
-                    <span className="font-bold text-green-600">{selectedRecipe.costPerUnit.toFixed(2)} SAR</span>
+                    <span className="font-semibold">{t("manufacturing.costPerUnitLabel")}</span>
+                    <span className="font-bold text-green-600">{formatCurrency(selectedRecipe.costPerUnit)}</span>
                   </div>
                 </div>
               </div>
 
               {selectedRecipe.notes && (
                 <div>
-                  <Label className="text-muted-foreground">Notes</Label>
+                  <Label className="text-muted-foreground">{t("common.notes")}</Label>
                   <p className="text-sm mt-1">{selectedRecipe.notes}</p>
                 </div>
               )}
@@ -1712,7 +1845,7 @@ export function Manufacturing() {
                 setViewRecipeSku(null);
               }}
             >
-              Close
+              {t("common.close")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1730,21 +1863,24 @@ export function Manufacturing() {
       >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Create Manufacturing Order</DialogTitle>
-            <DialogDescription>Start a new production batch</DialogDescription>
+            <DialogTitle>{t("manufacturing.orderDialogTitle")}</DialogTitle>
+            <DialogDescription>{t("manufacturing.orderDialogDescription")}</DialogDescription>
           </DialogHeader>
 
           <div className="grid gap-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="recipeId">Select Recipe *</Label>
+              <Label htmlFor="recipeId">{t("manufacturing.selectRecipeRequired")}</Label>
               <Select value={orderForm.recipeId} onValueChange={(value) => setOrderForm({ ...orderForm, recipeId: value })}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Choose a recipe" />
+                  <SelectValue placeholder={t("manufacturing.chooseRecipe")} />
                 </SelectTrigger>
                 <SelectContent>
                   {recipes.map((recipe) => (
                     <SelectItem key={recipe.id} value={recipe.productSku}>
-                      {recipe.productNameEn} - {recipe.costPerUnit.toFixed(2)} SAR/unit
+                      {t("manufacturing.recipeOption", {
+                        name: localizedName(recipe.productNameEn, recipe.productNameAr),
+                        cost: formatCurrency(recipe.costPerUnit)
+                      })}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1753,7 +1889,7 @@ export function Manufacturing() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="batchSize">Batch Size (units) *</Label>
+                <Label htmlFor="batchSize">{t("manufacturing.batchSizeRequired")}</Label>
                 <Input
                   id="batchSize"
                   type="number"
@@ -1762,7 +1898,7 @@ export function Manufacturing() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="startDate">Start Date</Label>
+                <Label htmlFor="startDate">{t("manufacturing.startDate")}</Label>
                 <Input
                   id="startDate"
                   type="date"
@@ -1774,47 +1910,124 @@ export function Manufacturing() {
 
             {orderForm.recipeId && orderForm.batchSize && (
               <div className="rounded-lg bg-blue-50 p-4 border border-blue-200">
-                <h4 className="font-medium text-blue-900 mb-2">Estimated Cost</h4>
+                <h4 className="font-medium text-blue-900 mb-2">{t("manufacturing.estimatedCost")}</h4>
                 <p className="text-2xl font-bold text-blue-600">
-                  {(recipeLookupBySku.get(orderForm.recipeId)?.costPerUnit || 0) * parseFloat(orderForm.batchSize || "0")} SAR
+                  {formatCurrency((recipeLookupBySku.get(orderForm.recipeId)?.costPerUnit || 0) * parseFloat(orderForm.batchSize || "0"))}
                 </p>
                 <p className="text-sm text-blue-700 mt-1">
-                  for {orderForm.batchSize} units
+                  {t("manufacturing.forUnits", { count: formatNumber(parseFloat(orderForm.batchSize || "0")) })}
                 </p>
               </div>
             )}
 
             <div className="space-y-2">
-              <Label htmlFor="createdBy">Created By</Label>
+              <Label htmlFor="createdBy">{t("manufacturing.createdBy")}</Label>
               <Input
                 id="createdBy"
                 value={orderForm.createdBy}
                 onChange={(e) => setOrderForm({ ...orderForm, createdBy: e.target.value })}
-                placeholder="Your name"
+                placeholder={t("manufacturing.createdByPlaceholder")}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="orderNotes">Notes</Label>
+              <Label htmlFor="orderNotes">{t("common.notes")}</Label>
               <Input
                 id="orderNotes"
                 value={orderForm.notes}
                 onChange={(e) => setOrderForm({ ...orderForm, notes: e.target.value })}
-                placeholder="Additional notes..."
+                placeholder={t("manufacturing.notesPlaceholder")}
               />
             </div>
           </div>
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsOrderDialogOpen(false)} disabled={isOrderSubmitting}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleSaveOrder}
               className="bg-purple-600 hover:bg-purple-700 text-white"
               disabled={isOrderSubmitting}
             >
-              {editingOrderId ? "Update Order" : "Create Order"}
+              {editingOrderId ? t("manufacturing.updateOrder") : t("manufacturing.createOrder")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Material Shortage Dialog */}
+      <Dialog
+        open={shortageOrder !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setShortageOrder(null);
+            setShortages([]);
+          }
+        }}
+      >
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t("manufacturing.shortageTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("manufacturing.shortageDescription", { number: shortageOrder?.orderNumber ?? "" })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("manufacturing.material")}</TableHead>
+                <TableHead className="text-end">{t("manufacturing.required")}</TableHead>
+                <TableHead className="text-end">{t("manufacturing.onHand")}</TableHead>
+                <TableHead className="text-end">{t("manufacturing.toPurchase")}</TableHead>
+                <TableHead className="text-end">{t("manufacturing.estCost")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shortages.map((shortage) => (
+                <TableRow key={shortage.materialId}>
+                  <TableCell>
+                    <div className="font-medium">{shortage.name}</div>
+                    <div className="text-xs text-muted-foreground">{shortage.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-end">{formatNumber(shortage.required)} {unitLabel(shortage.unit)}</TableCell>
+                  <TableCell className="text-end">{formatNumber(shortage.available)} {unitLabel(shortage.unit)}</TableCell>
+                  <TableCell className="text-end font-medium text-red-600">{formatNumber(shortage.shortfall)} {unitLabel(shortage.unit)}</TableCell>
+                  <TableCell className="text-end">{formatCurrency(shortage.estimatedCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="space-y-2">
+            <Label htmlFor="shortageOverrideReason">{t("manufacturing.overrideReason")}</Label>
+            <Input
+              id="shortageOverrideReason"
+              value={shortageOverrideReason}
+              onChange={(e) => setShortageOverrideReason(e.target.value)}
+              placeholder={t("manufacturing.overrideReasonPlaceholder")}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => shortageOrder && exportShortageReport(shortageOrder.orderNumber, shortages)}
+            >
+              <Download className="h-4 w-4" />
+              {t("manufacturing.exportPurchaseList")}
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              disabled={!shortageOverrideReason.trim() || isOrderSubmitting}
+              onClick={() =>
+                shortageOrder &&
+                handleUpdateOrderStatus(shortageOrder.id, "completed", shortageOverrideReason.trim())
+              }
+            >
+              {t("manufacturing.completeAnyway")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -36,6 +36,8 @@ import type {
   MarketingCampaignsInsert,
   MarketingCampaignsUpdate,
 } from "../../supabase/models/marketing_campaigns";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface Campaign {
   id: string;
@@ -63,6 +65,12 @@ interface CampaignForm {
   status: Campaign["status"];
 }
 
+const STATUS_KEYS: Record<Campaign["status"], MessageKey> = {
+  active: "status.active",
+  paused: "marketing.status.paused",
+  completed: "marketing.status.completed",
+};
+
 const defaultCampaignForm: CampaignForm = {
   name: "",
   platform: "",
@@ -98,9 +106,11 @@ const parseNumberField = (value: string, fallback = 0) => {
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const formatPercent = (value: number) => `${Number.isFinite(value) ? value.toFixed(0) : 0}%`;
-
 export function Marketing() {
+  const { t, formatNumber, formatCurrency, formatDate } = useLocale();
+  const formatPercent = (ratio: number, maximumFractionDigits = 0) =>
+    formatNumber(Number.isFinite(ratio) ? ratio : 0, { style: "percent", maximumFractionDigits });
+  const formatCompact = (value: number) => formatNumber(value, { notation: "compact", maximumFractionDigits: 1 });
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -172,9 +182,9 @@ export function Marketing() {
       XLSX.utils.book_append_sheet(wb, ws, "Marketing Campaigns");
       const fileName = `marketing_campaigns_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(translateCurrent("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(translateCurrent("common.exportFailed"));
       console.error(error);
     }
   };
@@ -199,7 +209,7 @@ export function Marketing() {
 
         setCampaigns((data ?? []).map(mapRowToCampaign));
       } catch (err) {
-        const message = err instanceof Error ? err.message : "Failed to load campaigns";
+        const message = err instanceof Error ? err.message : translateCurrent("marketing.loadFailed");
         setError(message);
         toast.error(message);
       } finally {
@@ -227,7 +237,7 @@ export function Marketing() {
       !addForm.startDate ||
       !addForm.endDate
     ) {
-      toast.error("Please fill all required fields");
+      toast.error(t("representatives.requiredFields"));
       return;
     }
 
@@ -262,9 +272,9 @@ export function Marketing() {
       setCampaigns((prev) => [mapRowToCampaign(data), ...prev]);
       setIsAddOpen(false);
       setAddForm(defaultCampaignForm);
-      toast.success("Campaign added successfully");
+      toast.success(translateCurrent("marketing.added"));
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to add campaign";
+      const message = err instanceof Error ? err.message : translateCurrent("marketing.addFailed");
       toast.error(message);
     } finally {
       setIsAddSaving(false);
@@ -296,7 +306,7 @@ export function Marketing() {
       !editForm.startDate ||
       !editForm.endDate
     ) {
-      toast.error("Please fill all required fields");
+      toast.error(t("representatives.requiredFields"));
       return;
     }
 
@@ -336,9 +346,9 @@ export function Marketing() {
         )
       );
       setEditCampaignId(null);
-      toast.success("Campaign updated successfully");
+      toast.success(translateCurrent("marketing.updated"));
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to update campaign";
+      const message = err instanceof Error ? err.message : translateCurrent("marketing.updateFailed");
       toast.error(message);
     } finally {
       setIsEditSaving(false);
@@ -349,7 +359,7 @@ export function Marketing() {
     const campaign = campaigns.find((item) => item.id === id);
     if (!campaign) return;
 
-    const confirmed = window.confirm(`Delete campaign "${campaign.name}"?`);
+    const confirmed = window.confirm(t("marketing.deleteConfirm", { name: campaign.name }));
     if (!confirmed) return;
 
     try {
@@ -360,9 +370,9 @@ export function Marketing() {
       if (deleteError) throw deleteError;
 
       setCampaigns((prev) => prev.filter((item) => item.id !== id));
-      toast.success("Campaign deleted successfully");
+      toast.success(translateCurrent("marketing.deleted"));
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to delete campaign";
+      const message = err instanceof Error ? err.message : translateCurrent("marketing.deleteFailed");
       toast.error(message);
     }
   };
@@ -393,7 +403,7 @@ export function Marketing() {
         prev.map((item) => (item.id === id ? mapRowToCampaign(data) : item))
       );
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to change status";
+      const message = err instanceof Error ? err.message : translateCurrent("marketing.statusFailed");
       toast.error(message);
     }
   };
@@ -441,7 +451,7 @@ export function Marketing() {
       return (
         <TableRow>
           <TableCell colSpan={9} className="text-center text-muted-foreground">
-            No campaigns found. Use "New Campaign" to add one.
+            {t("marketing.empty")}
           </TableCell>
         </TableRow>
       );
@@ -453,22 +463,20 @@ export function Marketing() {
           <div className="font-medium">{campaign.name}</div>
         </TableCell>
         <TableCell>{campaign.platform}</TableCell>
-        <TableCell>SAR {campaign.budget.toLocaleString()}</TableCell>
+        <TableCell>{formatCurrency(campaign.budget)}</TableCell>
         <TableCell>
           <div>
-            <div>SAR {campaign.spent.toLocaleString()}</div>
+            <div>{formatCurrency(campaign.spent)}</div>
             <div className="text-xs text-muted-foreground">
-              {campaign.budget > 0
-                ? formatPercent((campaign.spent / campaign.budget) * 100)
-                : "0%"}
+              {formatPercent(campaign.budget > 0 ? campaign.spent / campaign.budget : 0)}
             </div>
           </div>
         </TableCell>
         <TableCell>
           <div className="text-sm">
-            <div>{new Date(campaign.startDate).toLocaleDateString("en-GB")}</div>
+            <div>{formatDate(campaign.startDate)}</div>
             <div className="text-muted-foreground">
-              {new Date(campaign.endDate).toLocaleDateString("en-GB")}
+              {formatDate(campaign.endDate)}
             </div>
           </div>
         </TableCell>
@@ -476,23 +484,23 @@ export function Marketing() {
           <div className="space-y-1 text-sm">
             <div className="flex items-center gap-1">
               <Eye className="w-3 h-3 text-muted-foreground" />
-              {(campaign.impressions / 1000).toFixed(0)}K
+              {formatCompact(campaign.impressions)}
             </div>
             <div className="flex items-center gap-1">
               <MousePointerClick className="w-3 h-3 text-muted-foreground" />
-              {campaign.clicks.toLocaleString()}
+              {formatNumber(campaign.clicks)}
             </div>
           </div>
         </TableCell>
         <TableCell>
-          <Badge className={getStatusBadge(campaign.status)}>{campaign.status}</Badge>
+          <Badge className={getStatusBadge(campaign.status)}>{t(STATUS_KEYS[campaign.status])}</Badge>
         </TableCell>
         <TableCell>
           <div className="text-sm text-muted-foreground">
-            {new Date(campaign.lastModified).toLocaleDateString("en-GB")}
+            {formatDate(campaign.lastModified)}
           </div>
         </TableCell>
-        <TableCell className="text-right">
+        <TableCell className="text-end">
           <div className="flex justify-end gap-1">
             {campaign.status !== "completed" && (
               <Button
@@ -535,8 +543,8 @@ export function Marketing() {
             <Megaphone className="w-6 h-6 text-blue-600" />
           </div>
           <div>
-            <h1 className="text-2xl">Marketing Campaigns</h1>
-            <p className="text-sm text-muted-foreground">Manage your marketing campaigns</p>
+            <h1 className="text-2xl">{t("marketing.title")}</h1>
+            <p className="text-sm text-muted-foreground">{t("marketing.subtitle")}</p>
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -545,20 +553,20 @@ export function Marketing() {
             size="icon"
             onClick={handleRefresh}
             disabled={refreshing || loading}
-            title="Refresh campaigns"
+            title={t("marketing.refresh")}
           >
             {refreshing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
           </Button>
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button
             onClick={handleOpenAddDialog}
             className="bg-purple-600 hover:bg-purple-700 text-white"
           >
-            <Plus className="w-4 h-4 mr-2" />
-            New Campaign
+            <Plus className="w-4 h-4 me-2" />
+            {t("marketing.newCampaign")}
           </Button>
         </div>
       </div>
@@ -566,60 +574,60 @@ export function Marketing() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Active Campaigns</CardTitle>
+            <CardTitle className="text-sm">{t("marketing.activeCampaigns")}</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">{statistics.activeCampaigns}</div>
-            <p className="text-xs text-muted-foreground">Currently running</p>
+            <div className="text-2xl">{formatNumber(statistics.activeCampaigns)}</div>
+            <p className="text-xs text-muted-foreground">{t("marketing.currentlyRunning")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Total Budget</CardTitle>
+            <CardTitle className="text-sm">{t("marketing.totalBudget")}</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {statistics.totalBudget.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground">Allocated budget</p>
+            <div className="text-2xl">{formatCurrency(statistics.totalBudget)}</div>
+            <p className="text-xs text-muted-foreground">{t("marketing.allocatedBudget")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Total Spent</CardTitle>
+            <CardTitle className="text-sm">{t("marketing.totalSpent")}</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {statistics.totalSpent.toLocaleString()}</div>
+            <div className="text-2xl">{formatCurrency(statistics.totalSpent)}</div>
             <p className="text-xs text-muted-foreground">
-              {statistics.totalBudget > 0
-                ? `${((statistics.totalSpent / statistics.totalBudget) * 100).toFixed(0)}% utilized`
-                : "0% utilized"}
+              {t("marketing.utilized", {
+                percent: formatPercent(statistics.totalBudget > 0 ? statistics.totalSpent / statistics.totalBudget : 0),
+              })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Impressions</CardTitle>
+            <CardTitle className="text-sm">{t("marketing.impressions")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl">
-              {(statistics.totalImpressions / 1_000_000).toFixed(1)}M
+              {formatCompact(statistics.totalImpressions)}
             </div>
-            <p className="text-xs text-muted-foreground">Total views</p>
+            <p className="text-xs text-muted-foreground">{t("marketing.totalViews")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Clicks</CardTitle>
+            <CardTitle className="text-sm">{t("marketing.clicks")}</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">{(statistics.totalClicks / 1000).toFixed(1)}K</div>
+            <div className="text-2xl">{formatCompact(statistics.totalClicks)}</div>
             <p className="text-xs text-muted-foreground">
-              {statistics.totalImpressions > 0
-                ? `${((statistics.totalClicks / statistics.totalImpressions) * 100).toFixed(2)}% CTR`
-                : "0% CTR"}
+              {t("marketing.ctr", {
+                percent: formatPercent(statistics.totalImpressions > 0 ? statistics.totalClicks / statistics.totalImpressions : 0, 2),
+              })}
             </p>
           </CardContent>
         </Card>
@@ -627,23 +635,23 @@ export function Marketing() {
 
       <Card>
         <CardHeader>
-          <CardTitle>All Campaigns</CardTitle>
-          <CardDescription>View and manage your marketing campaigns</CardDescription>
+          <CardTitle>{t("marketing.allCampaigns")}</CardTitle>
+          <CardDescription>{t("marketing.allCampaignsDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Campaign</TableHead>
-                  <TableHead>Platform</TableHead>
-                  <TableHead>Budget</TableHead>
-                  <TableHead>Spent</TableHead>
-                  <TableHead>Period</TableHead>
-                  <TableHead>Performance</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Last Modified</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("marketing.campaign")}</TableHead>
+                  <TableHead>{t("platformCustomers.platform")}</TableHead>
+                  <TableHead>{t("marketing.budget")}</TableHead>
+                  <TableHead>{t("marketing.spent")}</TableHead>
+                  <TableHead>{t("marketing.period")}</TableHead>
+                  <TableHead>{t("marketing.performance")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("marketing.lastModified")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>{renderTableContent()}</TableBody>
@@ -663,29 +671,29 @@ export function Marketing() {
       >
         <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>New Campaign</DialogTitle>
-            <DialogDescription>Create a new marketing campaign</DialogDescription>
+            <DialogTitle>{t("marketing.newCampaign")}</DialogTitle>
+            <DialogDescription>{t("marketing.newDescription")}</DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="name">Campaign Name *</Label>
+              <Label htmlFor="name">{t("marketing.nameRequired")}</Label>
               <Input
                 id="name"
                 value={addForm.name}
                 onChange={(e) => setAddForm((prev) => ({ ...prev, name: e.target.value }))}
-                placeholder="e.g., Ramadan Collection 2025"
+                placeholder={t("marketing.namePlaceholder")}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="platform">Platform *</Label>
+              <Label htmlFor="platform">{t("marketing.platformRequired")}</Label>
               <Select
                 value={addForm.platform}
                 onValueChange={(value) => setAddForm((prev) => ({ ...prev, platform: value }))}
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select platform" />
+                  <SelectValue placeholder={t("marketing.selectPlatform")} />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="Instagram">Instagram</SelectItem>
@@ -700,7 +708,7 @@ export function Marketing() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="budget">Budget (SAR) *</Label>
+              <Label htmlFor="budget">{t("marketing.budgetRequired")}</Label>
               <Input
                 id="budget"
                 type="number"
@@ -712,7 +720,7 @@ export function Marketing() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="startDate">Start Date *</Label>
+                <Label htmlFor="startDate">{t("marketing.startDateRequired")}</Label>
                 <Input
                   id="startDate"
                   type="date"
@@ -722,7 +730,7 @@ export function Marketing() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="endDate">End Date *</Label>
+                <Label htmlFor="endDate">{t("marketing.endDateRequired")}</Label>
                 <Input
                   id="endDate"
                   type="date"
@@ -734,7 +742,7 @@ export function Marketing() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="impressions">Starting Impressions</Label>
+                <Label htmlFor="impressions">{t("marketing.startingImpressions")}</Label>
                 <Input
                   id="impressions"
                   type="number"
@@ -744,7 +752,7 @@ export function Marketing() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="clicks">Starting Clicks</Label>
+                <Label htmlFor="clicks">{t("marketing.startingClicks")}</Label>
                 <Input
                   id="clicks"
                   type="number"
@@ -758,14 +766,14 @@ export function Marketing() {
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddOpen(false)} disabled={isAddSaving}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleAddCampaign}
               className="bg-purple-600 hover:bg-purple-700 text-white"
               disabled={isAddSaving}
             >
-              {isAddSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create Campaign"}
+              {isAddSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : t("marketing.create")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -781,14 +789,14 @@ export function Marketing() {
       >
         <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>Edit Campaign</DialogTitle>
-            <DialogDescription>Update campaign details</DialogDescription>
+            <DialogTitle>{t("marketing.editTitle")}</DialogTitle>
+            <DialogDescription>{t("marketing.editDescription")}</DialogDescription>
           </DialogHeader>
 
           {editCampaignId && (
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="editName">Campaign Name</Label>
+                <Label htmlFor="editName">{t("marketing.name")}</Label>
                 <Input
                   id="editName"
                   value={editForm.name}
@@ -797,7 +805,7 @@ export function Marketing() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="editPlatform">Platform</Label>
+                <Label htmlFor="editPlatform">{t("platformCustomers.platform")}</Label>
                 <Select
                   value={editForm.platform}
                   onValueChange={(value) => setEditForm((prev) => ({ ...prev, platform: value }))}
@@ -819,7 +827,7 @@ export function Marketing() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="editBudget">Budget (SAR)</Label>
+                  <Label htmlFor="editBudget">{t("marketing.budgetSar")}</Label>
                   <Input
                     id="editBudget"
                     type="number"
@@ -829,7 +837,7 @@ export function Marketing() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="editSpent">Spent (SAR)</Label>
+                  <Label htmlFor="editSpent">{t("marketing.spentSar")}</Label>
                   <Input
                     id="editSpent"
                     type="number"
@@ -841,7 +849,7 @@ export function Marketing() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="editStartDate">Start Date</Label>
+                  <Label htmlFor="editStartDate">{t("marketing.startDate")}</Label>
                   <Input
                     id="editStartDate"
                     type="date"
@@ -851,7 +859,7 @@ export function Marketing() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="editEndDate">End Date</Label>
+                  <Label htmlFor="editEndDate">{t("marketing.endDate")}</Label>
                   <Input
                     id="editEndDate"
                     type="date"
@@ -863,7 +871,7 @@ export function Marketing() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="editImpressions">Impressions</Label>
+                  <Label htmlFor="editImpressions">{t("marketing.impressions")}</Label>
                   <Input
                     id="editImpressions"
                     type="number"
@@ -872,7 +880,7 @@ export function Marketing() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="editClicks">Clicks</Label>
+                  <Label htmlFor="editClicks">{t("marketing.clicks")}</Label>
                   <Input
                     id="editClicks"
                     type="number"
@@ -883,7 +891,7 @@ export function Marketing() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="editStatus">Status</Label>
+                <Label htmlFor="editStatus">{t("common.status")}</Label>
                 <Select
                   value={editForm.status}
                   onValueChange={(value) =>
@@ -894,9 +902,9 @@ export function Marketing() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="paused">Paused</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="active">{t("status.active")}</SelectItem>
+                    <SelectItem value="paused">{t("marketing.status.paused")}</SelectItem>
+                    <SelectItem value="completed">{t("marketing.status.completed")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -905,10 +913,10 @@ export function Marketing() {
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setEditCampaignId(null)} disabled={isEditSaving}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleUpdateCampaign} disabled={isEditSaving}>
-              {isEditSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Changes"}
+              {isEditSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : t("common.saveChanges")}
             </Button>
           </DialogFooter>
         </DialogContent>
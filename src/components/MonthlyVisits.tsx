@@ -27,6 +27,8 @@ import { Label } from "./ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Textarea } from "./ui/textarea";
 import { Skeleton } from "./ui/skeleton";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 type VisitStatus = "scheduled" | "completed" | "cancelled";
 
@@ -46,10 +48,10 @@ interface MonthlyVisitRecord {
   notes: string | null;
 }
 
-const STATUS_LABEL: Record<VisitStatus, string> = {
-  scheduled: "Scheduled",
-  completed: "Completed",
-  cancelled: "Cancelled",
+const STATUS_KEYS: Record<VisitStatus, MessageKey> = {
+  scheduled: "visits.status.scheduled",
+  completed: "visits.status.completed",
+  cancelled: "visits.status.cancelled",
 };
 
 const STATUS_BADGE_CLASS: Record<VisitStatus, string> = {
@@ -70,6 +72,7 @@ const normalizeStatus = (value?: string | null): VisitStatus => {
 };
 
 export function MonthlyVisits() {
+  const { t, formatNumber, formatDate } = useLocale();
   const [visits, setVisits] = useState<MonthlyVisitRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -110,7 +113,7 @@ export function MonthlyVisits() {
     if (fetchError) {
       console.error(fetchError);
       const message =
-        fetchError instanceof Error ? fetchError.message : "Failed to load monthly visits";
+        fetchError instanceof Error ? fetchError.message : translateCurrent("monthlyVisits.loadFailed");
       setError(message);
       toast.error(message);
       setLoading(false);
@@ -129,12 +132,12 @@ export function MonthlyVisits() {
         visitTime: row.visit_time,
         status: normalizeStatus(row.status),
         customerId: customer?.customer_id ?? "",
-        customerName: customer?.customer_name ?? "Unknown Customer",
+        customerName: customer?.customer_name ?? translateCurrent("visits.unknownCustomer"),
         customerCompany: customer?.company ?? null,
         contractId: contract?.contract_id ?? "",
         contractNumber: contract?.contract_number ?? "—",
         delegateId: delegate?.delegate_id ?? null,
-        delegateName: delegate?.delegate_name ?? "Unassigned",
+        delegateName: delegate?.delegate_name ?? translateCurrent("visits.unassigned"),
         address: row.address ?? customer?.customer_address ?? null,
         notes: row.notes,
       };
@@ -211,7 +214,7 @@ export function MonthlyVisits() {
     if (updateError) {
       console.error(updateError);
       const message =
-        updateError instanceof Error ? updateError.message : "Failed to update visit status";
+        updateError instanceof Error ? updateError.message : translateCurrent("visits.statusFailed");
       toast.error(message);
       setSaving(false);
       return;
@@ -222,7 +225,7 @@ export function MonthlyVisits() {
         visit.id === visitId ? { ...visit, status: normalizeStatus(data?.status) } : visit
       )
     );
-    toast.success(`Visit ${STATUS_LABEL[nextStatus].toLowerCase()} successfully`);
+    toast.success(translateCurrent("visits.markedAs", { status: translateCurrent(STATUS_KEYS[nextStatus]) }));
     setSaving(false);
   };
 
@@ -231,7 +234,9 @@ export function MonthlyVisits() {
     if (visit.status === "completed" && !canEditCompletedVisit(visit)) {
       const latestScheduled = getLatestScheduledVisit(visit.contractId);
       toast.error(
-        `Cannot edit this completed visit. A newer scheduled visit exists for ${latestScheduled ? new Date(latestScheduled.visitDate).toLocaleDateString('en-GB') : 'a future date'}.`
+        latestScheduled
+          ? t("monthlyVisits.newerVisitExists", { date: formatDate(latestScheduled.visitDate) })
+          : t("monthlyVisits.newerVisitExistsUndated")
       );
       return;
     }
@@ -263,7 +268,7 @@ export function MonthlyVisits() {
     });
 
     if (conflictingVisit) {
-      toast.error(`A scheduled visit already exists for ${new Date(conflictingVisit.visitDate).toLocaleDateString('en-GB')}. Please choose a different date.`);
+      toast.error(t("monthlyVisits.dateConflict", { date: formatDate(conflictingVisit.visitDate) }));
       return;
     }
 
@@ -293,13 +298,13 @@ export function MonthlyVisits() {
       if (data) {
         // Refresh visits to get updated data
         await fetchMonthlyVisits();
-        toast.success("Visit updated successfully");
+        toast.success(translateCurrent("visits.updated"));
         setIsEditDialogOpen(false);
         setEditingVisit(null);
       }
     } catch (error) {
       console.error(error);
-      const message = error instanceof Error ? error.message : "Failed to update visit";
+      const message = error instanceof Error ? error.message : translateCurrent("visits.updateFailed");
       toast.error(message);
     } finally {
       setSaving(false);
@@ -333,9 +338,9 @@ export function MonthlyVisits() {
       XLSX.utils.book_append_sheet(wb, ws, "Monthly Visits");
       const fileName = `monthly_visits_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(translateCurrent("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(translateCurrent("common.exportFailed"));
       console.error(error);
     }
   };
@@ -344,9 +349,9 @@ export function MonthlyVisits() {
     <div className="space-y-6">
       <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Monthly Visits</h2>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("page.monthlyVisits")}</h2>
           <p className="text-muted-foreground mt-1">
-            Automatically scheduled visits for signed monthly contracts.
+            {t("monthlyVisits.subtitle")}
           </p>
         </div>
         <div className="flex gap-2">
@@ -357,7 +362,7 @@ export function MonthlyVisits() {
             disabled={loading || saving}
           >
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button
             variant="outline"
@@ -366,7 +371,7 @@ export function MonthlyVisits() {
             disabled={loading || saving}
           >
             {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-            Refresh
+            {t("common.refresh")}
           </Button>
         </div>
       </div>
@@ -374,7 +379,7 @@ export function MonthlyVisits() {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Visits</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.total")}</CardTitle>
             <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -385,8 +390,8 @@ export function MonthlyVisits() {
               </>
             ) : (
               <>
-                <div className="text-2xl font-bold">{stats.total}</div>
-                <p className="text-xs text-muted-foreground mt-1">Upcoming and historical</p>
+                <div className="text-2xl font-bold">{formatNumber(stats.total)}</div>
+                <p className="text-xs text-muted-foreground mt-1">{t("monthlyVisits.upcomingAndHistorical")}</p>
               </>
             )}
           </CardContent>
@@ -394,7 +399,7 @@ export function MonthlyVisits() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Scheduled</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.status.scheduled")}</CardTitle>
             <Clock className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
@@ -405,8 +410,8 @@ export function MonthlyVisits() {
               </>
             ) : (
               <>
-                <div className="text-2xl font-bold text-blue-600">{stats.scheduled}</div>
-                <p className="text-xs text-muted-foreground mt-1">Awaiting service</p>
+                <div className="text-2xl font-bold text-blue-600">{formatNumber(stats.scheduled)}</div>
+                <p className="text-xs text-muted-foreground mt-1">{t("monthlyVisits.awaitingService")}</p>
               </>
             )}
           </CardContent>
@@ -414,7 +419,7 @@ export function MonthlyVisits() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Completed</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.status.completed")}</CardTitle>
             <CheckCircle2 className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
@@ -425,8 +430,8 @@ export function MonthlyVisits() {
               </>
             ) : (
               <>
-                <div className="text-2xl font-bold text-green-600">{stats.completed}</div>
-                <p className="text-xs text-muted-foreground mt-1">Finished visits</p>
+                <div className="text-2xl font-bold text-green-600">{formatNumber(stats.completed)}</div>
+                <p className="text-xs text-muted-foreground mt-1">{t("monthlyVisits.finishedVisits")}</p>
               </>
             )}
           </CardContent>
@@ -434,7 +439,7 @@ export function MonthlyVisits() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Cancelled</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.status.cancelled")}</CardTitle>
             <XCircle className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
@@ -445,8 +450,8 @@ export function MonthlyVisits() {
               </>
             ) : (
               <>
-                <div className="text-2xl font-bold text-red-600">{stats.cancelled}</div>
-                <p className="text-xs text-muted-foreground mt-1">Cancelled visits</p>
+                <div className="text-2xl font-bold text-red-600">{formatNumber(stats.cancelled)}</div>
+                <p className="text-xs text-muted-foreground mt-1">{t("monthlyVisits.cancelledVisits")}</p>
               </>
             )}
           </CardContent>
@@ -456,36 +461,36 @@ export function MonthlyVisits() {
       <Card>
         <CardContent className="flex flex-col gap-4 md:flex-row md:items-end md:justify-end pt-6">
           <div className="flex flex-col gap-2">
-            <Label>Status</Label>
+            <Label>{t("common.status")}</Label>
             <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
               <SelectTrigger className="w-[220px]">
-                <SelectValue placeholder="All statuses" />
+                <SelectValue placeholder={t("monthlyVisits.allStatuses")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All statuses</SelectItem>
-                <SelectItem value="scheduled">Scheduled</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="all">{t("monthlyVisits.allStatuses")}</SelectItem>
+                <SelectItem value="scheduled">{t("visits.status.scheduled")}</SelectItem>
+                <SelectItem value="completed">{t("visits.status.completed")}</SelectItem>
+                <SelectItem value="cancelled">{t("visits.status.cancelled")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
           <div className="flex flex-col gap-2">
-            <Label>Sort Order</Label>
+            <Label>{t("monthlyVisits.sortOrder")}</Label>
             <Select value={sortOrder} onValueChange={(value: "asc" | "desc") => setSortOrder(value)}>
               <SelectTrigger className="w-[220px]">
-                <SelectValue placeholder="Sort order" />
+                <SelectValue placeholder={t("visits.sortOrder")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="desc">Newest First</SelectItem>
-                <SelectItem value="asc">Oldest First</SelectItem>
+                <SelectItem value="desc">{t("visits.newestFirst")}</SelectItem>
+                <SelectItem value="asc">{t("visits.oldestFirst")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
           <div className="flex flex-col gap-2">
-            <Label htmlFor="search">Search</Label>
+            <Label htmlFor="search">{t("common.search")}</Label>
             <Input
               id="search"
-              placeholder="Search by customer, contract, delegate, or address..."
+              placeholder={t("monthlyVisits.searchPlaceholder")}
               value={searchQuery}
               onChange={(event) => setSearchQuery(event.target.value)}
               className="md:w-[320px]"
@@ -496,21 +501,21 @@ export function MonthlyVisits() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Monthly Visits Schedule</CardTitle>
+          <CardTitle>{t("monthlyVisits.scheduleTitle")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Contract</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Company</TableHead>
-                  <TableHead>Visit Date</TableHead>
-                  <TableHead>Representative</TableHead>
-                  <TableHead>Address</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("monthlyVisits.contract")}</TableHead>
+                  <TableHead>{t("common.customer")}</TableHead>
+                  <TableHead>{t("monthlyVisits.company")}</TableHead>
+                  <TableHead>{t("monthlyVisits.visitDate")}</TableHead>
+                  <TableHead>{t("visits.representative")}</TableHead>
+                  <TableHead>{t("visits.address")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -532,7 +537,7 @@ export function MonthlyVisits() {
                     <TableCell colSpan={8} className="p-0">
                       <div className="flex flex-col items-center justify-center py-12">
                         <Calendar className="h-12 w-12 text-muted-foreground mb-3" />
-                        <p className="text-muted-foreground">No visits found</p>
+                        <p className="text-muted-foreground">{t("visits.empty")}</p>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -549,7 +554,7 @@ export function MonthlyVisits() {
                         visit.status === "completed" 
                           ? "bg-gray-50/50 opacity-90" 
                           : visit.status === "scheduled" && isLatestScheduled
-                          ? "bg-blue-50/30 border-l-2 border-l-blue-500"
+                          ? "bg-blue-50/30 border-s-2 border-s-blue-500"
                           : ""
                       }
                     >
@@ -558,7 +563,7 @@ export function MonthlyVisits() {
                           <span className="font-mono text-sm">{visit.contractNumber}</span>
                           {isLatestScheduled && visit.status === "scheduled" && (
                             <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs">
-                              Latest
+                              {t("monthlyVisits.latest")}
                             </Badge>
                           )}
                         </div>
@@ -580,7 +585,7 @@ export function MonthlyVisits() {
                       <TableCell>
                         <div className="flex flex-col">
                           <span className="font-medium">
-                            {new Date(visit.visitDate).toLocaleDateString('en-GB')}
+                            {formatDate(visit.visitDate)}
                           </span>
                           {visit.visitTime && (
                             <span className="text-xs text-muted-foreground">
@@ -600,17 +605,17 @@ export function MonthlyVisits() {
                       </TableCell>
                       <TableCell>
                         <Badge className={STATUS_BADGE_CLASS[visit.status]}>
-                          {STATUS_LABEL[visit.status]}
+                          {t(STATUS_KEYS[visit.status])}
                         </Badge>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex justify-end gap-2">
                           <Button
                             variant="outline"
                             size="sm"
                             onClick={() => handleEditVisit(visit)}
                             disabled={saving || (visit.status === "completed" && !canEdit)}
-                            title={visit.status === "completed" && !canEdit ? "Cannot edit: A newer scheduled visit exists" : "Edit visit"}
+                            title={visit.status === "completed" && !canEdit ? t("monthlyVisits.cannotEdit") : t("monthlyVisits.editVisit")}
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
@@ -621,7 +626,7 @@ export function MonthlyVisits() {
                               onClick={() => void updateVisitStatus(visit.id, "completed")}
                               disabled={saving}
                             >
-                              Complete
+                              {t("monthlyVisits.complete")}
                             </Button>
                           )}
                           {visit.status !== "scheduled" && (
@@ -631,7 +636,7 @@ export function MonthlyVisits() {
                               onClick={() => void updateVisitStatus(visit.id, "scheduled")}
                               disabled={saving}
                             >
-                              Reset
+                              {t("monthlyVisits.reset")}
                             </Button>
                           )}
                           {visit.status !== "cancelled" && (
@@ -642,7 +647,7 @@ export function MonthlyVisits() {
                               onClick={() => void updateVisitStatus(visit.id, "cancelled")}
                               disabled={saving}
                             >
-                              Cancel
+                              {t("common.cancel")}
                             </Button>
                           )}
                         </div>
@@ -662,9 +667,10 @@ export function MonthlyVisits() {
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Edit Monthly Visit</DialogTitle>
+            <DialogTitle>{t("monthlyVisits.editTitle")}</DialogTitle>
             <DialogDescription>
-              {editingVisit && `Update visit details for ${editingVisit.customerName} - ${editingVisit.contractNumber}`}
+              {editingVisit &&
+                t("monthlyVisits.editDescription", { customer: editingVisit.customerName, contract: editingVisit.contractNumber })}
             </DialogDescription>
           </DialogHeader>
           
@@ -672,7 +678,7 @@ export function MonthlyVisits() {
             <div className="space-y-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-visitDate">Visit Date *</Label>
+                  <Label htmlFor="edit-visitDate">{t("visits.dateRequired")}</Label>
                   <Input
                     id="edit-visitDate"
                     type="date"
@@ -682,7 +688,7 @@ export function MonthlyVisits() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-visitTime">Visit Time</Label>
+                  <Label htmlFor="edit-visitTime">{t("visits.time")}</Label>
                   <Input
                     id="edit-visitTime"
                     type="time"
@@ -693,29 +699,29 @@ export function MonthlyVisits() {
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="edit-address">Address</Label>
+                <Label htmlFor="edit-address">{t("visits.address")}</Label>
                 <Input
                   id="edit-address"
                   value={editFormData.address}
                   onChange={(e) => setEditFormData({ ...editFormData, address: e.target.value })}
-                  placeholder="Visit address"
+                  placeholder={t("monthlyVisits.addressPlaceholder")}
                 />
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="edit-notes">Notes</Label>
+                <Label htmlFor="edit-notes">{t("common.notes")}</Label>
                 <Textarea
                   id="edit-notes"
                   value={editFormData.notes}
                   onChange={(e) => setEditFormData({ ...editFormData, notes: e.target.value })}
-                  placeholder="Additional notes about the visit"
+                  placeholder={t("monthlyVisits.notesPlaceholder")}
                   rows={3}
                 />
               </div>
 
               {editingVisit.status === "completed" && !canEditCompletedVisit(editingVisit) && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
-                  ⚠️ This completed visit cannot be edited because a newer scheduled visit exists for this contract.
+                  {t("monthlyVisits.lockedWarning")}
                 </div>
               )}
             </div>
@@ -730,15 +736,15 @@ export function MonthlyVisits() {
               }}
               disabled={saving}
             >
-              <X className="h-4 w-4 mr-2" />
-              Cancel
+              <X className="h-4 w-4 me-2" />
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleSaveEdit}
               disabled={saving || !editFormData.visitDate}
             >
-              <Save className="h-4 w-4 mr-2" />
-              {saving ? "Saving..." : "Save Changes"}
+              <Save className="h-4 w-4 me-2" />
+              {saving ? t("common.saving") : t("common.saveChanges")}
             </Button>
           </div>
         </DialogContent>
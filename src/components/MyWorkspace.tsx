@@ -24,6 +24,8 @@ import type { SystemUsers } from "../../supabase/models/system_users";
 import { getFilesByOwner, getFileUrl } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { supabase } from "../lib/supabaseClient";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface EmployeeRequest {
   id: string;
@@ -182,59 +184,97 @@ interface EmployeeData {
 //   },
 // ];
 
-const REQUEST_TYPE_LABELS: Record<DbEmployeeRequest["request_type"], string> = {
-  advance: "Salary Advance",
-  loan: "Loan Request",
-  overtime: "Overtime Request",
-  leave: "Leave Request",
-  other: "Other Request",
+const REQUEST_TYPE_KEYS: Record<DbEmployeeRequest["request_type"], MessageKey> = {
+  advance: "employeeRequests.type.advance",
+  loan: "employeeRequests.type.loan",
+  overtime: "employeeRequests.type.overtime",
+  leave: "employeeRequests.type.leave",
+  other: "employeeRequests.type.other",
 };
 
-const REQUEST_STATUS_LABELS: Record<DbEmployeeRequest["status"], string> = {
-  pending: "Pending",
-  approved: "Approved",
-  rejected: "Rejected",
-  completed: "Completed",
+const REQUEST_STATUS_KEYS: Record<DbEmployeeRequest["status"], MessageKey> = {
+  pending: "status.pending",
+  approved: "status.approved",
+  rejected: "status.rejected",
+  completed: "employeeRequests.status.completed",
 };
 
-const REQUEST_TYPE_OPTIONS = [
-  { value: "advance", label: "Salary Advance" },
-  { value: "loan", label: "Loan Request" },
-  { value: "overtime", label: "Overtime Request" },
-  { value: "leave", label: "Leave Request" },
-  { value: "other", label: "Other Request" },
+const REQUEST_TYPE_OPTIONS: { value: DbEmployeeRequest["request_type"]; label: MessageKey }[] = [
+  { value: "advance", label: "employeeRequests.type.advance" },
+  { value: "loan", label: "employeeRequests.type.loan" },
+  { value: "overtime", label: "employeeRequests.type.overtime" },
+  { value: "leave", label: "employeeRequests.type.leave" },
+  { value: "other", label: "employeeRequests.type.other" },
 ];
 
-const LEAVE_TYPE_LABELS: Record<DbLeave["leave_type"], string> = {
-  annual: "Annual Leave",
-  sick: "Sick Leave",
-  emergency: "Emergency Leave",
-  unpaid: "Unpaid Leave",
-  other: "Other Leave",
+const LEAVE_TYPE_KEYS: Record<DbLeave["leave_type"], MessageKey> = {
+  annual: "leaves.type.annual",
+  sick: "leaves.type.sick",
+  emergency: "leaves.type.emergency",
+  unpaid: "leaves.type.unpaid",
+  other: "leaves.type.other",
 };
 
-const LEAVE_STATUS_LABELS: Record<DbLeave["status"], string> = {
-  pending: "Pending",
-  approved: "Approved",
-  rejected: "Rejected",
+const LEAVE_STATUS_KEYS: Record<DbLeave["status"], MessageKey> = {
+  pending: "status.pending",
+  approved: "status.approved",
+  rejected: "status.rejected",
 };
 
-const LEAVE_TYPE_OPTIONS = [
-  { value: "annual", label: "Annual Leave" },
-  { value: "sick", label: "Sick Leave" },
-  { value: "emergency", label: "Emergency Leave" },
-  { value: "unpaid", label: "Unpaid Leave" },
-  { value: "other", label: "Other Leave" },
+const LEAVE_TYPE_OPTIONS: { value: DbLeave["leave_type"]; label: MessageKey }[] = [
+  { value: "annual", label: "leaves.type.annual" },
+  { value: "sick", label: "leaves.type.sick" },
+  { value: "emergency", label: "leaves.type.emergency" },
+  { value: "unpaid", label: "leaves.type.unpaid" },
+  { value: "other", label: "leaves.type.other" },
 ];
 
-const VISIT_STATUS_LABELS: Record<string, string> = {
-  scheduled: "Scheduled",
-  completed: "Completed",
-  cancelled: "Cancelled",
+const VISIT_STATUS_KEYS: Record<string, MessageKey> = {
+  scheduled: "visits.status.scheduled",
+  completed: "visits.status.completed",
+  cancelled: "visits.status.cancelled",
+};
+
+const EMPLOYEE_STATUS_KEYS: Record<string, MessageKey> = {
+  active: "status.active",
+  inactive: "status.inactive",
 };
 
 const TASK_STATUS_OPTIONS = ["New", "In Progress", "Completed"] as const;
 
+const TASK_STATUS_KEYS: Record<string, MessageKey> = {
+  New: "support.status.new",
+  "In Progress": "support.status.inProgress",
+  Completed: "support.status.completed",
+};
+
+const PRIORITY_KEYS: Record<string, MessageKey> = {
+  High: "support.priority.high",
+  Medium: "support.priority.medium",
+  Low: "support.priority.low",
+};
+
+// Custody categories and conditions are stored in English; anything else is shown as entered
+const CUSTODY_CATEGORY_KEYS: Record<string, MessageKey> = {
+  Laptop: "custody.category.laptop",
+  Mobile: "custody.category.mobile",
+  Tablet: "custody.category.tablet",
+  Monitor: "custody.category.monitor",
+  Printer: "custody.category.printer",
+  Vehicle: "custody.category.vehicle",
+  "Access Card": "custody.category.accessCard",
+  Keys: "custody.category.keys",
+  Other: "custody.category.other",
+  General: "myWorkspace.generalCategory",
+};
+
+const CUSTODY_CONDITION_KEYS: Record<string, MessageKey> = {
+  New: "custody.condition.new",
+  Good: "custody.condition.good",
+  Fair: "custody.condition.fair",
+  Poor: "custody.condition.poor",
+};
+
 const toTitleCase = (value: string) =>
   value
     .split(/[\s_-]+/)
@@ -380,6 +420,7 @@ const getCategoryIcon = (category: string) => {
 
 export function MyWorkspace() {
   const dispatch = useAppDispatch();
+  const { t, formatCurrency, formatDate } = useLocale();
 
   const [authUser, setAuthUser] = useState<{
     userId: string;
@@ -584,8 +625,8 @@ export function MyWorkspace() {
   const employeeData: EmployeeData = useMemo(() => {
     const statusLabel =
       (currentSystemUser?.status ?? "inactive").toLowerCase() === "inactive"
-        ? "Inactive"
-        : "Active";
+        ? "inactive"
+        : "active";
 
     if (!employeeRecord) {
       return {
@@ -656,7 +697,7 @@ export function MyWorkspace() {
     if (custodyItemsData.length === 0) return [];
     return custodyItemsData.map((item) => ({
       id: item.custody_id,
-      itemName: item.item_en_name ?? "Unnamed Item",
+      itemName: item.item_en_name ?? t("myWorkspace.unnamedItem"),
       itemNameAr: item.item_ar_name ?? "",
       serialNumber: item.item_serial_number ?? undefined,
       category: item.item_category ?? "General",
@@ -666,7 +707,7 @@ export function MyWorkspace() {
       value: Number(item.item_value ?? 0),
       notes: item.item_notes ?? undefined,
     }));
-  }, [custodyItemsData]);
+  }, [custodyItemsData, t]);
 
   const employeeRequests = useMemo<EmployeeRequest[]>(() => {
     if (employeeRequestsData.length === 0) return [];
@@ -674,25 +715,23 @@ export function MyWorkspace() {
       .map((req) => {
         const typeKey = req.request_type ?? "other";
         const statusKey = req.status ?? "pending";
+        const typeLabelKey = REQUEST_TYPE_KEYS[typeKey as DbEmployeeRequest["request_type"]];
+        const typeLabel = typeLabelKey ? t(typeLabelKey) : undefined;
         return {
           id: req.request_id,
           requestNumber: req.request_number ?? "—",
-          type:
-            REQUEST_TYPE_LABELS[typeKey as DbEmployeeRequest["request_type"]] ??
-            toTitleCase(typeKey),
-          subject: req.notes ?? REQUEST_TYPE_LABELS[typeKey as DbEmployeeRequest["request_type"]] ?? "Employee Request",
+          type: typeLabel ?? toTitleCase(typeKey),
+          subject: req.notes ?? typeLabel ?? t("myWorkspace.employeeRequest"),
           description: req.description ?? "",
-          status:
-            REQUEST_STATUS_LABELS[statusKey as DbEmployeeRequest["status"]] ??
-            toTitleCase(statusKey),
+          status: statusKey,
           date: req.requested_date ?? req.created_at ?? "",
           response: req.approved_by
-            ? `Approved by ${req.approved_by}`
+            ? t("myWorkspace.approvedBy", { name: req.approved_by })
             : req.notes ?? undefined,
         };
       })
       .sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
-  }, [employeeRequestsData]);
+  }, [employeeRequestsData, t]);
 
   const leaveRequests = useMemo<LeaveRequest[]>(() => {
     if (leavesData.length === 0) return [];
@@ -703,21 +742,21 @@ export function MyWorkspace() {
         return {
           id: leave.leave_id,
           leaveNumber: leave.leave_number ?? "—",
-          type:
-            LEAVE_TYPE_LABELS[typeKey as DbLeave["leave_type"]] ?? toTitleCase(typeKey),
+          type: LEAVE_TYPE_KEYS[typeKey as DbLeave["leave_type"]]
+            ? t(LEAVE_TYPE_KEYS[typeKey as DbLeave["leave_type"]])
+            : toTitleCase(typeKey),
           startDate: leave.start_date,
           endDate: leave.end_date,
           days: Number(leave.total_days ?? calculateDays(leave.start_date, leave.end_date)),
           reason: leave.reason ?? "",
-          status:
-            LEAVE_STATUS_LABELS[statusKey as DbLeave["status"]] ?? toTitleCase(statusKey),
+          status: statusKey,
           response: leave.approved_by
-            ? `Approved by ${leave.approved_by}`
+            ? t("myWorkspace.approvedBy", { name: leave.approved_by })
             : leave.notes ?? undefined,
         };
       })
       .sort((a, b) => (b.startDate ?? "").localeCompare(a.startDate ?? ""));
-  }, [leavesData]);
+  }, [leavesData, t]);
 
   const visits = useMemo<Visit[]>(() => {
     if (visitsData.length === 0) return [];
@@ -726,22 +765,22 @@ export function MyWorkspace() {
         const statusKey = (visit.status ?? "scheduled").toLowerCase();
         return {
           id: visit.visit_id,
-          customer: visit.customer_id ?? "Customer",
+          customer: visit.customer_id ?? t("common.customer"),
           date: visit.visit_date,
           time: visit.visit_time ?? "",
-          status: VISIT_STATUS_LABELS[statusKey] ?? toTitleCase(statusKey),
+          status: statusKey,
           notes: visit.notes ?? undefined,
         };
       })
       .sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
-  }, [visitsData]);
+  }, [visitsData, t]);
 
   const tasks = useMemo<Task[]>(() => {
     if (supportTicketsData.length === 0) return [];
     return supportTicketsData
       .map((ticket) => ({
         id: ticket.ticket_id,
-        title: ticket.subject ?? "Support Ticket",
+        title: ticket.subject ?? t("myWorkspace.supportTicket"),
         description: ticket.description ?? "",
         priority: toTitleCase(ticket.priority ?? "Medium"),
         dueDate: ticket.created_at ?? "",
@@ -752,15 +791,15 @@ export function MyWorkspace() {
           : "New",
       }))
       .sort((a, b) => (a.dueDate ?? "").localeCompare(b.dueDate ?? ""));
-  }, [supportTicketsData]);
+  }, [supportTicketsData, t]);
 
   const stats = useMemo(
     () => ({
       pendingRequests: employeeRequests.filter((r) => r.status.toLowerCase().includes("pending")).length,
       pendingLeaves: leaveRequests.filter((l) => l.status.toLowerCase().includes("pending")).length,
       upcomingVisits: visits.filter((v) => v.status.toLowerCase() === "scheduled").length,
-      pendingTasks: tasks.filter((t) => {
-        const status = t.status.toLowerCase();
+      pendingTasks: tasks.filter((task) => {
+        const status = task.status.toLowerCase();
         return status === "pending" || status === "new";
       }).length,
       custodyValue: custodyItems.reduce(
@@ -784,14 +823,24 @@ export function MyWorkspace() {
 
   const hasLinkedEmployee = Boolean(employeeId);
 
+  const getLabel = (value: string, keys: Record<string, MessageKey>) => {
+    const key = keys[value];
+    return key ? t(key) : toTitleCase(value);
+  };
+
+  const getCustodyLabel = (value: string, keys: Record<string, MessageKey>) => {
+    const key = keys[value];
+    return key ? t(key) : value;
+  };
+
   const handleSubmitRequest = async () => {
     if (!requestSubject.trim() || !requestDescription.trim()) {
-      toast.error("Please fill all required fields");
+      toast.error(t("myWorkspace.requiredFields"));
       return;
     }
 
     if (!hasLinkedEmployee) {
-      toast.error("Your account is not linked to an employee profile yet.");
+      toast.error(t("myWorkspace.notLinked"));
       return;
     }
 
@@ -824,13 +873,13 @@ export function MyWorkspace() {
     try {
       setIsSubmittingRequest(true);
       await dispatch(thunks.employee_requests.createOne(payload)).unwrap();
-      toast.success("Request submitted successfully!");
+      toast.success(translateCurrent("myWorkspace.requestSubmitted"));
       setIsRequestDialogOpen(false);
       setRequestType("advance");
       setRequestSubject("");
       setRequestDescription("");
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to submit request");
+      toast.error(error?.message ?? translateCurrent("myWorkspace.requestFailed"));
     } finally {
       setIsSubmittingRequest(false);
     }
@@ -838,18 +887,18 @@ export function MyWorkspace() {
 
   const handleSubmitLeave = async () => {
     if (!leaveStartDate || !leaveEndDate || !leaveReason.trim()) {
-      toast.error("Please fill all required fields");
+      toast.error(t("myWorkspace.requiredFields"));
       return;
     }
 
     if (!hasLinkedEmployee) {
-      toast.error("Your account is not linked to an employee profile yet.");
+      toast.error(t("myWorkspace.notLinked"));
       return;
     }
 
     const days = calculateDays(leaveStartDate, leaveEndDate);
     if (days <= 0) {
-      toast.error("End date must be after start date");
+      toast.error(t("myWorkspace.endBeforeStart"));
       return;
     }
 
@@ -881,14 +930,14 @@ export function MyWorkspace() {
     try {
       setIsSubmittingLeave(true);
       await dispatch(thunks.leaves.createOne(payload)).unwrap();
-      toast.success("Leave request submitted successfully!");
+      toast.success(translateCurrent("myWorkspace.leaveSubmitted"));
       setIsLeaveDialogOpen(false);
       setLeaveType("annual");
       setLeaveStartDate("");
       setLeaveEndDate("");
       setLeaveReason("");
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to submit leave request");
+      toast.error(error?.message ?? translateCurrent("myWorkspace.leaveFailed"));
     } finally {
       setIsSubmittingLeave(false);
     }
@@ -905,9 +954,11 @@ export function MyWorkspace() {
           values: { status: newStatus },
         })
       ).unwrap();
-      toast.success(`Task status updated to ${newStatus}`);
+      toast.success(
+        translateCurrent("support.statusUpdated", { status: translateCurrent(TASK_STATUS_KEYS[newStatus]) })
+      );
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to update task status");
+      toast.error(error?.message ?? translateCurrent("myWorkspace.taskStatusFailed"));
     }
   };
 
@@ -925,11 +976,10 @@ export function MyWorkspace() {
     if (years < 0) return "—";
     
     if (years > 0) {
-      return `${years} year${years > 1 ? "s" : ""}${
-        months > 0 ? ` ${months} month${months > 1 ? "s" : ""}` : ""
-      }`;
+      const yearsLabel = t("myWorkspace.years", { count: years });
+      return months > 0 ? `${yearsLabel} ${t("myWorkspace.months", { count: months })}` : yearsLabel;
     }
-    return `${months} month${months === 1 ? "" : "s"}`;
+    return t("myWorkspace.months", { count: months });
   };
 
   return (
@@ -939,9 +989,9 @@ export function MyWorkspace() {
           <CardContent className="flex items-start gap-3 py-4">
             <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5" />
             <div className="text-sm text-yellow-800">
-              <p className="font-medium">Employee profile not linked</p>
+              <p className="font-medium">{t("myWorkspace.notLinkedTitle")}</p>
               <p className="text-xs mt-1">
-                We could not find an employee record connected to your account. Please contact your administrator to complete your setup.
+                {t("myWorkspace.notLinkedDescription")}
               </p>
             </div>
           </CardContent>
@@ -953,7 +1003,7 @@ export function MyWorkspace() {
           <CardContent className="py-4">
             <p className="text-sm text-muted-foreground flex items-center gap-2">
               <Loader2 className="h-4 w-4 animate-spin" />
-              Loading your workspace data...
+              {t("myWorkspace.loading")}
             </p>
           </CardContent>
         </Card>
@@ -980,7 +1030,7 @@ export function MyWorkspace() {
                   <p className="text-lg text-muted-foreground mb-2" dir="rtl">{employeeData.nameAr}</p>
                   <div className="flex items-center gap-4 flex-wrap">
                     <Badge className={cn(getStatusColor(employeeData.status), "text-sm px-3 py-1")}>
-                      {employeeData.status}
+                      {getLabel(employeeData.status, EMPLOYEE_STATUS_KEYS)}
                     </Badge>
                     <span className="text-sm font-mono text-muted-foreground">{employeeData.employeeNumber}</span>
                     <span className="text-sm text-muted-foreground">{employeeData.position}</span>
@@ -993,10 +1043,10 @@ export function MyWorkspace() {
                     size="sm"
                     className="gap-2"
                     disabled={!hasLinkedEmployee}
-                    title={!hasLinkedEmployee ? "Link an employee profile to submit requests" : undefined}
+                    title={!hasLinkedEmployee ? t("myWorkspace.linkToRequest") : undefined}
                   >
                     <FileText className="h-4 w-4" />
-                    New Request
+                    {t("myWorkspace.newRequest")}
                   </Button>
                   <Button
                     onClick={() => setIsLeaveDialogOpen(true)}
@@ -1004,10 +1054,10 @@ export function MyWorkspace() {
                     variant="outline"
                     className="gap-2"
                     disabled={!hasLinkedEmployee}
-                    title={!hasLinkedEmployee ? "Link an employee profile to request leave" : undefined}
+                    title={!hasLinkedEmployee ? t("myWorkspace.linkToLeave") : undefined}
                   >
                     <Calendar className="h-4 w-4" />
-                    Request Leave
+                    {t("myWorkspace.requestLeave")}
                   </Button>
                 </div>
               </div>
@@ -1020,58 +1070,58 @@ export function MyWorkspace() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending Requests</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("myWorkspace.pendingRequests")}</CardTitle>
             <FileText className="h-5 w-5 text-orange-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-orange-600">{stats.pendingRequests}</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting approval</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("myWorkspace.awaitingApproval")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Leave Requests</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("myWorkspace.leaveRequests")}</CardTitle>
             <Calendar className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-blue-600">{stats.pendingLeaves}</div>
-            <p className="text-xs text-muted-foreground mt-1">Pending approval</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("myWorkspace.pendingApproval")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Upcoming Visits</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("myWorkspace.upcomingVisits")}</CardTitle>
             <Users className="h-5 w-5 text-primary" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-primary">{stats.upcomingVisits}</div>
-            <p className="text-xs text-muted-foreground mt-1">Scheduled</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("myWorkspace.scheduled")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending Tasks</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("myWorkspace.pendingTasks")}</CardTitle>
             <Briefcase className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-green-600">{stats.pendingTasks}</div>
-            <p className="text-xs text-muted-foreground mt-1">To complete</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("myWorkspace.toComplete")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Custody Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("myWorkspace.custodyValue")}</CardTitle>
             <Package className="h-5 w-5 text-indigo-500" />
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-indigo-600">
-              {stats.custodyValue.toLocaleString()}
+              {formatCurrency(stats.custodyValue)}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">SAR - Total items</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("myWorkspace.custodyValueHint")}</p>
           </CardContent>
         </Card>
       </div>
@@ -1079,21 +1129,21 @@ export function MyWorkspace() {
       {/* Main Content Tabs */}
       <Tabs defaultValue="profile" className="space-y-4">
         <TabsList className="grid w-full grid-cols-6">
-          <TabsTrigger value="profile">Profile & Custody</TabsTrigger>
+          <TabsTrigger value="profile">{t("myWorkspace.tabProfile")}</TabsTrigger>
           <TabsTrigger value="tasks">
             <div className="flex items-center gap-2">
               <ListTodo className="h-4 w-4" />
-              My Tasks
+              {t("myWorkspace.tabTasks")}
               {stats.pendingTasks > 0 && (
-                <Badge className="bg-red-500 text-white text-xs px-1.5 py-0.5 ml-1">
+                <Badge className="bg-red-500 text-white text-xs px-1.5 py-0.5 ms-1">
                   {stats.pendingTasks}
                 </Badge>
               )}
             </div>
           </TabsTrigger>
-          <TabsTrigger value="requests">My Requests</TabsTrigger>
-          <TabsTrigger value="leaves">My Leaves</TabsTrigger>
-          <TabsTrigger value="visits">My Visits</TabsTrigger>
+          <TabsTrigger value="requests">{t("myWorkspace.tabRequests")}</TabsTrigger>
+          <TabsTrigger value="leaves">{t("myWorkspace.tabLeaves")}</TabsTrigger>
+          <TabsTrigger value="visits">{t("myWorkspace.tabVisits")}</TabsTrigger>
         </TabsList>
 
         {/* Profile & Custody Tab */}
@@ -1104,47 +1154,43 @@ export function MyWorkspace() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <User className="h-5 w-5" />
-                  Employee Information
+                  {t("myWorkspace.employeeInformation")}
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-muted-foreground text-xs">Employee Number</Label>
+                    <Label className="text-muted-foreground text-xs">{t("myWorkspace.employeeNumber")}</Label>
                     <p className="font-mono">{employeeData.employeeNumber}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground text-xs">National ID</Label>
+                    <Label className="text-muted-foreground text-xs">{t("myWorkspace.nationalId")}</Label>
                     <p className="font-mono">{employeeData.nationalId}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground text-xs">Date of Birth</Label>
+                    <Label className="text-muted-foreground text-xs">{t("myWorkspace.dateOfBirth")}</Label>
                     <p>
-                      {employeeData.dateOfBirth
-                        ? new Date(employeeData.dateOfBirth).toLocaleDateString('en-GB')
-                        : "—"}
+                      {formatDate(employeeData.dateOfBirth)}
                     </p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground text-xs">Joining Date</Label>
+                    <Label className="text-muted-foreground text-xs">{t("myWorkspace.joiningDate")}</Label>
                     <p>
-                      {employeeData.joiningDate
-                        ? new Date(employeeData.joiningDate).toLocaleDateString('en-GB')
-                        : "—"}
+                      {formatDate(employeeData.joiningDate)}
                     </p>
                   </div>
                   <div className="col-span-2">
-                    <Label className="text-muted-foreground text-xs">Employment Duration</Label>
+                    <Label className="text-muted-foreground text-xs">{t("myWorkspace.employmentDuration")}</Label>
                     <p className="font-medium text-primary">{calculateEmploymentDuration()}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground text-xs">Contract Type</Label>
+                    <Label className="text-muted-foreground text-xs">{t("myWorkspace.contractType")}</Label>
                     <p>{employeeData.contractType}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground text-xs">Status</Label>
+                    <Label className="text-muted-foreground text-xs">{t("common.status")}</Label>
                     <Badge className={getStatusColor(employeeData.status)}>
-                      {employeeData.status}
+                      {getLabel(employeeData.status, EMPLOYEE_STATUS_KEYS)}
                     </Badge>
                   </div>
                 </div>
@@ -1152,27 +1198,27 @@ export function MyWorkspace() {
                 <div className="pt-4 border-t">
                   <h4 className="font-semibold mb-3 flex items-center gap-2">
                     <Mail className="h-4 w-4" />
-                    Contact Information
+                    {t("myWorkspace.contactInformation")}
                   </h4>
                   <div className="space-y-2 text-sm">
                     <div className="flex items-start gap-2">
                       <Mail className="h-4 w-4 mt-0.5 text-muted-foreground" />
                       <div>
-                        <Label className="text-muted-foreground text-xs">Email</Label>
+                        <Label className="text-muted-foreground text-xs">{t("common.email")}</Label>
                         <p>{employeeData.email}</p>
                       </div>
                     </div>
                     <div className="flex items-start gap-2">
                       <Phone className="h-4 w-4 mt-0.5 text-muted-foreground" />
                       <div>
-                        <Label className="text-muted-foreground text-xs">Phone</Label>
+                        <Label className="text-muted-foreground text-xs">{t("common.phone")}</Label>
                         <p>{employeeData.phone}</p>
                       </div>
                     </div>
                     <div className="flex items-start gap-2">
                       <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground" />
                       <div>
-                        <Label className="text-muted-foreground text-xs">Address</Label>
+                        <Label className="text-muted-foreground text-xs">{t("myWorkspace.address")}</Label>
                         <p>{employeeData.address}</p>
                       </div>
                     </div>
@@ -1182,15 +1228,15 @@ export function MyWorkspace() {
                 <div className="pt-4 border-t">
                   <h4 className="font-semibold mb-3 flex items-center gap-2">
                     <AlertCircle className="h-4 w-4" />
-                    Emergency Contact
+                    {t("myWorkspace.emergencyContact")}
                   </h4>
                   <div className="space-y-2 text-sm">
                     <div>
-                      <Label className="text-muted-foreground text-xs">Contact Person</Label>
+                      <Label className="text-muted-foreground text-xs">{t("myWorkspace.contactPerson")}</Label>
                       <p>{employeeData.emergencyContact}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground text-xs">Emergency Phone</Label>
+                      <Label className="text-muted-foreground text-xs">{t("myWorkspace.emergencyPhone")}</Label>
                       <p>{employeeData.emergencyPhone}</p>
                     </div>
                   </div>
@@ -1204,27 +1250,27 @@ export function MyWorkspace() {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <CreditCard className="h-5 w-5" />
-                    Financial Information
+                    {t("myWorkspace.financialInformation")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label className="text-muted-foreground text-xs">Basic Salary</Label>
+                      <Label className="text-muted-foreground text-xs">{t("myWorkspace.basicSalary")}</Label>
                       <p className="text-xl font-bold text-green-600">
-                        {employeeData.basicSalary.toLocaleString()} SAR
+                        {formatCurrency(employeeData.basicSalary)}
                       </p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground text-xs">Allowances</Label>
+                      <Label className="text-muted-foreground text-xs">{t("myWorkspace.allowances")}</Label>
                       <p className="text-xl font-bold text-blue-600">
-                        {employeeData.allowances.toLocaleString()} SAR
+                        {formatCurrency(employeeData.allowances)}
                       </p>
                     </div>
                     <div className="col-span-2 bg-primary/5 rounded-lg p-3">
-                      <Label className="text-muted-foreground text-xs">Total Salary</Label>
+                      <Label className="text-muted-foreground text-xs">{t("myWorkspace.totalSalary")}</Label>
                       <p className="text-2xl font-bold text-primary">
-                        {(employeeData.basicSalary + employeeData.allowances).toLocaleString()} SAR
+                        {formatCurrency(employeeData.basicSalary + employeeData.allowances)}
                       </p>
                     </div>
                   </div>
@@ -1232,19 +1278,19 @@ export function MyWorkspace() {
                   <div className="pt-4 border-t">
                     <h4 className="font-semibold mb-3 flex items-center gap-2">
                       <Building2 className="h-4 w-4" />
-                      Bank Details
+                      {t("myWorkspace.bankDetails")}
                     </h4>
                     <div className="space-y-2 text-sm">
                       <div>
-                        <Label className="text-muted-foreground text-xs">Bank Name</Label>
+                        <Label className="text-muted-foreground text-xs">{t("myWorkspace.bankName")}</Label>
                         <p>{employeeData.bankName}</p>
                       </div>
                       <div>
-                        <Label className="text-muted-foreground text-xs">Account Number</Label>
+                        <Label className="text-muted-foreground text-xs">{t("myWorkspace.accountNumber")}</Label>
                         <p className="font-mono">{employeeData.bankAccount}</p>
                       </div>
                       <div>
-                        <Label className="text-muted-foreground text-xs">IBAN</Label>
+                        <Label className="text-muted-foreground text-xs">{t("myWorkspace.iban")}</Label>
                         <p className="font-mono text-xs">{employeeData.iban}</p>
                       </div>
                     </div>
@@ -1257,19 +1303,19 @@ export function MyWorkspace() {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Package className="h-5 w-5" />
-                    Custody Summary
+                    {t("myWorkspace.custodySummary")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground">Total Items</span>
+                      <span className="text-sm text-muted-foreground">{t("myWorkspace.totalItems")}</span>
                       <span className="font-semibold">{custodyItems.length}</span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground">Total Value</span>
+                      <span className="text-sm text-muted-foreground">{t("myWorkspace.totalValue")}</span>
                       <span className="font-bold text-lg text-primary">
-                        {stats.custodyValue.toLocaleString()} SAR
+                        {formatCurrency(stats.custodyValue)}
                       </span>
                     </div>
                     <div className="pt-3 border-t space-y-2">
@@ -1293,10 +1339,10 @@ export function MyWorkspace() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Package className="h-5 w-5" />
-                Custody Items - العهدة
+                {t("myWorkspace.custodyItems")}
               </CardTitle>
               <p className="text-sm text-muted-foreground">
-                All equipment and assets assigned to you
+                {t("myWorkspace.custodyItemsDescription")}
               </p>
             </CardHeader>
             <CardContent>
@@ -1315,7 +1361,7 @@ export function MyWorkspace() {
                               <p className="text-sm text-muted-foreground" dir="rtl">{item.itemNameAr}</p>
                             </div>
                             <Badge className={getConditionColor(item.condition)}>
-                              {item.condition}
+                              {getCustodyLabel(item.condition, CUSTODY_CONDITION_KEYS)}
                             </Badge>
                           </div>
                           
@@ -1323,28 +1369,28 @@ export function MyWorkspace() {
                           
                           <div className="grid grid-cols-4 gap-4 text-sm">
                             <div>
-                              <Label className="text-muted-foreground text-xs">Serial Number</Label>
-                              <p className="font-mono">{item.serialNumber || 'N/A'}</p>
+                              <Label className="text-muted-foreground text-xs">{t("myWorkspace.serialNumber")}</Label>
+                              <p className="font-mono">{item.serialNumber || t("common.notAvailable")}</p>
                             </div>
                             <div>
-                              <Label className="text-muted-foreground text-xs">Date Received</Label>
-                              <p>{new Date(item.dateReceived).toLocaleDateString('en-GB')}</p>
+                              <Label className="text-muted-foreground text-xs">{t("myWorkspace.dateReceived")}</Label>
+                              <p>{formatDate(item.dateReceived)}</p>
                             </div>
                             <div>
-                              <Label className="text-muted-foreground text-xs">Value</Label>
+                              <Label className="text-muted-foreground text-xs">{t("myWorkspace.value")}</Label>
                               <p className="font-semibold text-primary">
-                                {item.value.toLocaleString()} SAR
+                                {formatCurrency(item.value)}
                               </p>
                             </div>
                             <div>
-                              <Label className="text-muted-foreground text-xs">Category</Label>
-                              <p>{item.category}</p>
+                              <Label className="text-muted-foreground text-xs">{t("myWorkspace.category")}</Label>
+                              <p>{getCustodyLabel(item.category, CUSTODY_CATEGORY_KEYS)}</p>
                             </div>
                           </div>
                           
                           {item.notes && (
                             <div className="mt-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs">
-                              <strong>Note:</strong> {item.notes}
+                              <strong>{t("myWorkspace.note")}</strong> {item.notes}
                             </div>
                           )}
                         </div>
@@ -1363,9 +1409,9 @@ export function MyWorkspace() {
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <FileText className="h-12 w-12 text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No requests yet</p>
+                <p className="text-muted-foreground">{t("myWorkspace.noRequests")}</p>
                 <Button onClick={() => setIsRequestDialogOpen(true)} variant="outline" className="mt-4">
-                  Submit Your First Request
+                  {t("myWorkspace.firstRequest")}
                 </Button>
               </CardContent>
             </Card>
@@ -1377,15 +1423,15 @@ export function MyWorkspace() {
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center gap-2">
                         <span className="font-mono text-sm text-muted-foreground">{request.requestNumber}</span>
-                        <Badge className={getStatusColor(request.status)}>{request.status}</Badge>
+                        <Badge className={getStatusColor(request.status)}>{getLabel(request.status, REQUEST_STATUS_KEYS)}</Badge>
                         <Badge variant="outline">{request.type}</Badge>
                       </div>
                       <h3 className="font-semibold">{request.subject}</h3>
                       <p className="text-sm text-muted-foreground">{request.description}</p>
-                      <p className="text-xs text-muted-foreground">Submitted: {new Date(request.date).toLocaleDateString('en-GB')}</p>
+                      <p className="text-xs text-muted-foreground">{t("myWorkspace.submittedOn", { date: formatDate(request.date) })}</p>
                       {request.response && (
                         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mt-2">
-                          <p className="text-sm text-blue-800"><strong>Response:</strong> {request.response}</p>
+                          <p className="text-sm text-blue-800"><strong>{t("myWorkspace.response")}</strong> {request.response}</p>
                         </div>
                       )}
                     </div>
@@ -1402,9 +1448,9 @@ export function MyWorkspace() {
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <Calendar className="h-12 w-12 text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No leave requests</p>
+                <p className="text-muted-foreground">{t("myWorkspace.noLeaves")}</p>
                 <Button onClick={() => setIsLeaveDialogOpen(true)} variant="outline" className="mt-4">
-                  Request Your First Leave
+                  {t("myWorkspace.firstLeave")}
                 </Button>
               </CardContent>
             </Card>
@@ -1416,19 +1462,19 @@ export function MyWorkspace() {
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center gap-2">
                         <span className="font-mono text-sm text-muted-foreground">{leave.leaveNumber}</span>
-                        <Badge className={getStatusColor(leave.status)}>{leave.status}</Badge>
+                        <Badge className={getStatusColor(leave.status)}>{getLabel(leave.status, LEAVE_STATUS_KEYS)}</Badge>
                         <Badge variant="outline">{leave.type}</Badge>
                       </div>
                       <div className="flex items-center gap-4 text-sm">
                         <span className="font-medium">
-                          {new Date(leave.startDate).toLocaleDateString('en-GB')} - {new Date(leave.endDate).toLocaleDateString('en-GB')}
+                          {formatDate(leave.startDate)} - {formatDate(leave.endDate)}
                         </span>
-                        <Badge variant="secondary">{leave.days} days</Badge>
+                        <Badge variant="secondary">{t("leaves.days", { count: leave.days })}</Badge>
                       </div>
-                      <p className="text-sm text-muted-foreground"><strong>Reason:</strong> {leave.reason}</p>
+                      <p className="text-sm text-muted-foreground"><strong>{t("myWorkspace.reason")}</strong> {leave.reason}</p>
                       {leave.response && (
                         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mt-2">
-                          <p className="text-sm text-blue-800"><strong>Response:</strong> {leave.response}</p>
+                          <p className="text-sm text-blue-800"><strong>{t("myWorkspace.response")}</strong> {leave.response}</p>
                         </div>
                       )}
                     </div>
@@ -1445,7 +1491,7 @@ export function MyWorkspace() {
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <Users className="h-12 w-12 text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No visits scheduled</p>
+                <p className="text-muted-foreground">{t("myWorkspace.noVisits")}</p>
               </CardContent>
             </Card>
           ) : (
@@ -1456,12 +1502,12 @@ export function MyWorkspace() {
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center gap-2">
                         <h3 className="font-semibold">{visit.customer}</h3>
-                        <Badge className={getStatusColor(visit.status)}>{visit.status}</Badge>
+                        <Badge className={getStatusColor(visit.status)}>{getLabel(visit.status, VISIT_STATUS_KEYS)}</Badge>
                       </div>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span className="flex items-center gap-1">
                           <Calendar className="h-4 w-4" />
-                          {new Date(visit.date).toLocaleDateString('en-GB')}
+                          {formatDate(visit.date)}
                         </span>
                         <span className="flex items-center gap-1">
                           <Clock className="h-4 w-4" />
@@ -1471,7 +1517,7 @@ export function MyWorkspace() {
                       {visit.notes && <p className="text-sm text-muted-foreground">{visit.notes}</p>}
                     </div>
                     <Button size="sm" variant="outline">
-                      View Details
+                      {t("myWorkspace.viewDetails")}
                     </Button>
                   </div>
                 </CardContent>
@@ -1486,7 +1532,7 @@ export function MyWorkspace() {
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <Briefcase className="h-12 w-12 text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No tasks assigned</p>
+                <p className="text-muted-foreground">{t("myWorkspace.noTasks")}</p>
               </CardContent>
             </Card>
           ) : (
@@ -1497,13 +1543,13 @@ export function MyWorkspace() {
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center gap-2">
                         <h3 className="font-semibold">{task.title}</h3>
-                        <Badge className={getPriorityColor(task.priority)}>{task.priority}</Badge>
-                        <Badge className={getStatusColor(task.status)}>{task.status}</Badge>
+                        <Badge className={getPriorityColor(task.priority)}>{getLabel(task.priority, PRIORITY_KEYS)}</Badge>
+                        <Badge className={getStatusColor(task.status)}>{getLabel(task.status, TASK_STATUS_KEYS)}</Badge>
                       </div>
                       <p className="text-sm text-muted-foreground">{task.description}</p>
                       <p className="text-xs text-muted-foreground flex items-center gap-1">
                         <Clock className="h-3 w-3" />
-                        Due: {task.dueDate ? new Date(task.dueDate).toLocaleDateString('en-GB') : "—"}
+                        {t("myWorkspace.dueOn", { date: formatDate(task.dueDate) })}
                       </p>
                     </div>
                     <Select
@@ -1521,7 +1567,7 @@ export function MyWorkspace() {
                       <SelectContent>
                         {TASK_STATUS_OPTIONS.map((status) => (
                           <SelectItem key={status} value={status}>
-                            {status}
+                            {t(TASK_STATUS_KEYS[status])}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -1538,20 +1584,20 @@ export function MyWorkspace() {
       <Dialog open={isRequestDialogOpen} onOpenChange={setIsRequestDialogOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Submit New Request</DialogTitle>
-            <DialogDescription>Fill in the details for your request</DialogDescription>
+            <DialogTitle>{t("myWorkspace.submitRequestTitle")}</DialogTitle>
+            <DialogDescription>{t("myWorkspace.submitRequestDescription")}</DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div>
-              <Label htmlFor="request-type">Request Type *</Label>
+              <Label htmlFor="request-type">{t("myWorkspace.requestType")}</Label>
               <Select value={requestType} onValueChange={setRequestType}>
                 <SelectTrigger id="request-type">
-                  <SelectValue placeholder="Select type" />
+                  <SelectValue placeholder={t("myWorkspace.selectType")} />
                 </SelectTrigger>
                 <SelectContent>
                   {REQUEST_TYPE_OPTIONS.map((option) => (
                     <SelectItem key={option.value} value={option.value}>
-                      {option.label}
+                      {t(option.label)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1559,29 +1605,29 @@ export function MyWorkspace() {
             </div>
 
             <div>
-              <Label htmlFor="request-subject">Subject *</Label>
+              <Label htmlFor="request-subject">{t("myWorkspace.subject")}</Label>
               <Input
                 id="request-subject"
                 value={requestSubject}
                 onChange={(e) => setRequestSubject(e.target.value)}
-                placeholder="Brief description of your request"
+                placeholder={t("myWorkspace.subjectPlaceholder")}
               />
             </div>
 
             <div>
-              <Label htmlFor="request-description">Description *</Label>
+              <Label htmlFor="request-description">{t("myWorkspace.description")}</Label>
               <Textarea
                 id="request-description"
                 value={requestDescription}
                 onChange={(e) => setRequestDescription(e.target.value)}
-                placeholder="Provide detailed information about your request"
+                placeholder={t("myWorkspace.descriptionPlaceholder")}
                 rows={5}
               />
             </div>
 
             <div className="flex justify-end gap-3 pt-4 border-t">
               <Button variant="outline" onClick={() => setIsRequestDialogOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 onClick={handleSubmitRequest}
@@ -1589,7 +1635,7 @@ export function MyWorkspace() {
                 disabled={isSubmittingRequest || !hasLinkedEmployee}
               >
                 <Send className="h-4 w-4" />
-                {isSubmittingRequest ? "Submitting..." : "Submit Request"}
+                {isSubmittingRequest ? t("myWorkspace.submitting") : t("myWorkspace.submitRequest")}
               </Button>
             </div>
           </div>
@@ -1600,20 +1646,20 @@ export function MyWorkspace() {
       <Dialog open={isLeaveDialogOpen} onOpenChange={setIsLeaveDialogOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Request Leave</DialogTitle>
-            <DialogDescription>Submit your leave request</DialogDescription>
+            <DialogTitle>{t("myWorkspace.requestLeave")}</DialogTitle>
+            <DialogDescription>{t("myWorkspace.leaveDialogDescription")}</DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div>
-              <Label htmlFor="leave-type">Leave Type *</Label>
+              <Label htmlFor="leave-type">{t("myWorkspace.leaveType")}</Label>
               <Select value={leaveType} onValueChange={setLeaveType}>
                 <SelectTrigger id="leave-type">
-                  <SelectValue placeholder="Select type" />
+                  <SelectValue placeholder={t("myWorkspace.selectType")} />
                 </SelectTrigger>
                 <SelectContent>
                   {LEAVE_TYPE_OPTIONS.map((option) => (
                     <SelectItem key={option.value} value={option.value}>
-                      {option.label}
+                      {t(option.label)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1622,7 +1668,7 @@ export function MyWorkspace() {
 
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="leave-start">Start Date *</Label>
+                <Label htmlFor="leave-start">{t("myWorkspace.startDate")}</Label>
                 <Input
                   id="leave-start"
                   type="date"
@@ -1631,7 +1677,7 @@ export function MyWorkspace() {
                 />
               </div>
               <div>
-                <Label htmlFor="leave-end">End Date *</Label>
+                <Label htmlFor="leave-end">{t("myWorkspace.endDate")}</Label>
                 <Input
                   id="leave-end"
                   type="date"
@@ -1644,25 +1690,25 @@ export function MyWorkspace() {
             {leaveStartDate && leaveEndDate && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                 <p className="text-sm text-blue-800">
-                  <strong>Total Days:</strong> {calculateDays(leaveStartDate, leaveEndDate)} days
+                  <strong>{t("myWorkspace.totalDays")}</strong> {t("leaves.days", { count: calculateDays(leaveStartDate, leaveEndDate) })}
                 </p>
               </div>
             )}
 
             <div>
-              <Label htmlFor="leave-reason">Reason *</Label>
+              <Label htmlFor="leave-reason">{t("myWorkspace.reasonRequired")}</Label>
               <Textarea
                 id="leave-reason"
                 value={leaveReason}
                 onChange={(e) => setLeaveReason(e.target.value)}
-                placeholder="Explain the reason for your leave"
+                placeholder={t("myWorkspace.reasonPlaceholder")}
                 rows={4}
               />
             </div>
 
             <div className="flex justify-end gap-3 pt-4 border-t">
               <Button variant="outline" onClick={() => setIsLeaveDialogOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 onClick={handleSubmitLeave}
@@ -1670,7 +1716,7 @@ export function MyWorkspace() {
                 disabled={isSubmittingLeave || !hasLinkedEmployee}
               >
                 <Send className="h-4 w-4" />
-                {isSubmittingLeave ? "Submitting..." : "Submit Leave Request"}
+                {isSubmittingLeave ? t("myWorkspace.submitting") : t("myWorkspace.submitLeave")}
               </Button>
             </div>
           </div>
@@ -23,6 +23,9 @@ import type { Invoices as InvoiceRow } from "../../supabase/models/invoices";
 import type { Payments as PaymentRecord } from "../../supabase/models/payments";
 import type { Customers } from "../../supabase/models/customers";
 import { getPrintLogo } from "../lib/getPrintLogo";
+import { downloadDocumentPdf } from "../lib/documentPdf";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 interface PaymentDisplay {
   id: number;
@@ -40,12 +43,13 @@ interface PaymentDisplay {
   payments: PaymentRecord[];
 }
 
+// label is the bilingual form printed on receipts and exported; key is the on-screen label
 const paymentMethodOptions = [
-  { value: "cash", label: "💵 Cash - نقدي" },
-  { value: "bank_transfer", label: "🏦 Bank Transfer - تحويل بنكي" },
-  { value: "credit_card", label: "💳 Credit Card - بطاقة ائتمان" },
-  { value: "cheque", label: "📝 Cheque - شيك" },
-] as const;
+  { value: "cash", label: "💵 Cash - نقدي", key: "payments.method.cash" },
+  { value: "bank_transfer", label: "🏦 Bank Transfer - تحويل بنكي", key: "payments.method.bankTransfer" },
+  { value: "credit_card", label: "💳 Credit Card - بطاقة ائتمان", key: "payments.method.creditCard" },
+  { value: "cheque", label: "📝 Cheque - شيك", key: "payments.method.cheque" },
+] as const satisfies ReadonlyArray<{ value: string; label: string; key: MessageKey }>;
 
 const allowedPaymentMethods = new Set(paymentMethodOptions.map((option) => option.value));
 
@@ -54,6 +58,18 @@ const paymentMethodLabels = paymentMethodOptions.reduce<Record<string, string>>(
   return acc;
 }, {});
 
+const paymentMethodKeys = paymentMethodOptions.reduce<Record<string, MessageKey>>((acc, option) => {
+  acc[option.value] = option.key;
+  return acc;
+}, {});
+
+const STATUS_KEYS: Record<PaymentDisplay["status"], MessageKey> = {
+  Paid: "status.paid",
+  Partial: "status.partial",
+  Pending: "status.pending",
+  Overdue: "status.overdue",
+};
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case "Paid":
@@ -83,6 +99,7 @@ const getStatusIcon = (status: string) => {
 };
 
 export function Payments() {
+  const { t, formatCurrency, formatDate } = useLocale();
   const dispatch = useAppDispatch();
   const dbInvoices = useAppSelector(selectors.invoices.selectAll) as InvoiceRow[];
   const dbPayments = useAppSelector(selectors.payments.selectAll) as PaymentRecord[];
@@ -120,7 +137,7 @@ export function Payments() {
     sorted.forEach((invoice, index) => {
       const invoiceDate = invoice.invoice_date ?? invoice.created_at ?? null;
       const invoiceYear = invoiceDate ? new Date(invoiceDate).getFullYear() : new Date().getFullYear();
-      const invoiceNumber = `INV-${invoiceYear}-${String(index + 1).padStart(3, "0")}`;
+      const invoiceNumber = invoice.invoice_number || `INV-${invoiceYear}-${String(index + 1).padStart(3, "0")}`;
       map.set(invoice.invoice_id, {
         invoiceNumber,
         sequence: index + 1,
@@ -226,7 +243,7 @@ export function Payments() {
         id: sequenceId,
         invoiceId: invoice.invoice_id,
         invoiceNumber,
-        customer: customer?.customer_name ?? "Unknown Customer",
+        customer: customer?.customer_name ?? t("payments.unknownCustomer"),
         amount,
         paidAmount,
         remainingAmount: displayRemaining,
@@ -240,7 +257,7 @@ export function Payments() {
           .sort((a, b) => parseTimestamp(a.payment_date) - parseTimestamp(b.payment_date)),
       };
     });
-  }, [dbInvoices, dbPayments, dbCustomers]);
+  }, [dbInvoices, dbPayments, dbCustomers, t]);
 
   const [filterStatus, setFilterStatus] = useState("all");
   const [invoiceSearchQuery, setInvoiceSearchQuery] = useState("");
@@ -297,17 +314,12 @@ export function Payments() {
     setIsAddDialogOpen(true);
   };
 
-  const handlePrint = async (payment: any) => {
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Failed to open print window");
-      return;
-    }
-
+  // The receipt as printed: also the source of its PDF
+  const buildReceiptHTML = async (payment: any) => {
     // Load logo from Settings
     const logoToUse = await getPrintLogo();
 
-    const html = `
+    return `
       <!DOCTYPE html>
       <html dir="rtl">
       <head>
@@ -483,37 +495,61 @@ export function Payments() {
       </body>
       </html>
     `;
+  };
+
+  const handlePrint = async (payment: PaymentDisplay) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error(t("payments.printWindowFailed"));
+      return;
+    }
+    const html = await buildReceiptHTML(payment);
 
     printWindow.document.write(html);
     printWindow.document.close();
     printWindow.print();
-    toast.success(`Printing receipt for ${payment.invoiceNumber}`);
+    toast.success(t("payments.printing", { number: payment.invoiceNumber }));
+  };
+
+  const handleDownloadReceiptPdf = async (payment: PaymentDisplay) => {
+    const toastId = toast.loading(t("payments.generatingPdf"));
+    try {
+      await downloadDocumentPdf({
+        documentType: "payment_receipt",
+        ownerId: payment.invoiceId,
+        documentNumber: `Receipt-${payment.invoiceNumber}`,
+        html: await buildReceiptHTML(payment),
+      });
+      toast.success(translateCurrent("payments.receiptDownloaded"), { id: toastId });
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || translateCurrent("payments.pdfFailed"), { id: toastId });
+    }
   };
 
   const handleSavePayment = async () => {
     if (!formData.invoiceId) {
-      toast.error("Please select an invoice");
+      toast.error(t("payments.selectInvoiceError"));
       return;
     }
     if (!formData.amount || !formData.paymentDate || !formData.paymentMethod) {
-      toast.error("Please fill all required fields");
+      toast.error(t("payments.requiredFields"));
       return;
     }
 
     if (!formData.paymentMethod || !allowedPaymentMethods.has(formData.paymentMethod as "cash" | "bank_transfer" | "credit_card" | "cheque")) {
-      toast.error("Selected payment method is not supported. Please choose another method.");
+      toast.error(t("payments.methodUnsupported"));
       return;
     }
 
     const paymentAmount = parseFloat(formData.amount);
     if (Number.isNaN(paymentAmount) || paymentAmount <= 0) {
-      toast.error("Please enter a valid payment amount");
+      toast.error(t("payments.invalidAmount"));
       return;
     }
 
     const invoice = dbInvoices.find((inv) => inv.invoice_id === formData.invoiceId);
     if (!invoice) {
-      toast.error("Invoice not found");
+      toast.error(t("payments.invoiceNotFound"));
       return;
     }
 
@@ -559,7 +595,7 @@ export function Payments() {
     let remainingBefore = Math.max(0, totalAmount - currentPaid);
 
     if (paymentAmount - remainingBefore > 0.0001) {
-      toast.error("Payment amount cannot exceed remaining amount");
+      toast.error(t("payments.exceedsRemaining"));
       return;
     }
 
@@ -576,7 +612,7 @@ export function Payments() {
       ).unwrap();
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to record payment";
+        error?.message || error?.error?.message || translateCurrent("payments.recordFailed");
       toast.error(message);
       return;
     }
@@ -609,7 +645,7 @@ export function Payments() {
       ).unwrap();
     } catch (error: any) {
       const message =
-        error?.message || error?.error?.message || "Failed to update invoice";
+        error?.message || error?.error?.message || translateCurrent("payments.invoiceUpdateFailed");
       toast.error(message);
       return;
     }
@@ -631,7 +667,7 @@ export function Payments() {
       reference: "",
     });
 
-    toast.success(`Payment of ${paymentAmount.toLocaleString()} ر.س recorded successfully!`);
+    toast.success(translateCurrent("payments.recorded", { amount: formatCurrency(paymentAmount) }));
   };
 
   const filteredPayments = payments.filter((payment) => {
@@ -665,9 +701,9 @@ export function Payments() {
       XLSX.utils.book_append_sheet(wb, ws, "Payments");
       const fileName = `payments_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -676,17 +712,17 @@ export function Payments() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2>Payment Management</h2>
-          <p className="text-muted-foreground mt-1">Collections, invoices, and payments</p>
+          <h2>{t("payments.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("payments.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white" onClick={handleNewPayment}>
             <Plus className="h-4 w-4" />
-            Record New Payment
+            {t("payments.recordNew")}
           </Button>
         </div>
         <Dialog open={isAddDialogOpen} onOpenChange={(open) => {
@@ -707,10 +743,10 @@ export function Payments() {
           <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>
-                {selectedPayment ? `Record Payment for ${selectedPayment.invoiceNumber}` : 'Record New Payment'}
+                {selectedPayment ? t("payments.recordFor", { number: selectedPayment.invoiceNumber }) : t("payments.recordNew")}
               </DialogTitle>
               <DialogDescription>
-                {selectedPayment ? `Record payment received from ${selectedPayment.customer}` : 'Enter received payment details'}
+                {selectedPayment ? t("payments.recordFromCustomer", { customer: selectedPayment.customer }) : t("payments.enterDetails")}
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
@@ -719,16 +755,16 @@ export function Payments() {
                   <CardContent className="pt-4">
                     <div className="grid grid-cols-3 gap-4">
                       <div className="text-center p-3 bg-white rounded-lg border">
-                        <Label className="text-xs text-muted-foreground">Total Amount</Label>
-                        <p className="text-xl font-bold text-blue-600">{selectedPayment.amount.toLocaleString()} ر.س</p>
+                        <Label className="text-xs text-muted-foreground">{t("payments.totalAmount")}</Label>
+                        <p className="text-xl font-bold text-blue-600">{formatCurrency(selectedPayment.amount)}</p>
                       </div>
                       <div className="text-center p-3 bg-white rounded-lg border">
-                        <Label className="text-xs text-muted-foreground">Paid Amount</Label>
-                        <p className="text-xl font-bold text-green-600">{selectedPayment.paidAmount.toLocaleString()} ر.س</p>
+                        <Label className="text-xs text-muted-foreground">{t("payments.paidAmount")}</Label>
+                        <p className="text-xl font-bold text-green-600">{formatCurrency(selectedPayment.paidAmount)}</p>
                       </div>
                       <div className="text-center p-3 bg-white rounded-lg border">
-                        <Label className="text-xs text-muted-foreground">Remaining</Label>
-                        <p className="text-xl font-bold text-orange-600">{selectedPayment.remainingAmount.toLocaleString()} ر.س</p>
+                        <Label className="text-xs text-muted-foreground">{t("payments.remaining")}</Label>
+                        <p className="text-xl font-bold text-orange-600">{formatCurrency(selectedPayment.remainingAmount)}</p>
                       </div>
                     </div>
                   </CardContent>
@@ -737,7 +773,7 @@ export function Payments() {
               
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="invoice">Invoice Number</Label>
+                  <Label htmlFor="invoice">{t("payments.invoiceNumber")}</Label>
                   {selectedPayment ? (
                     <div className="space-y-2">
                       <Input 
@@ -747,13 +783,13 @@ export function Payments() {
                         className="bg-muted"
                       />
                       <p className="text-xs text-muted-foreground">
-                        Customer: {selectedPayment.customer}
+                        {t("payments.customerLabel", { customer: selectedPayment.customer })}
                       </p>
                     </div>
                   ) : (
                     <div className="space-y-2">
                       <Input
-                        placeholder="Search invoice number..."
+                        placeholder={t("payments.searchInvoiceNumber")}
                         value={invoiceSearchQuery}
                         onChange={(e) => setInvoiceSearchQuery(e.target.value)}
                         className="mb-2"
@@ -782,7 +818,7 @@ export function Payments() {
                         }}
                       >
                         <SelectTrigger id="invoice">
-                          <SelectValue placeholder="Select invoice" />
+                          <SelectValue placeholder={t("payments.selectInvoice")} />
                         </SelectTrigger>
                         <SelectContent>
                           {payments
@@ -797,8 +833,8 @@ export function Payments() {
                                 <div className="flex items-center justify-between gap-2 w-full">
                                   <span>{payment.invoiceNumber} - {payment.customer}</span>
                                   <span className="text-xs">
-                                    <span className="text-green-600">Paid: {payment.paidAmount.toLocaleString()}</span> | 
-                                    <span className="text-orange-600 ml-1">Remaining: {payment.remainingAmount.toLocaleString()} ر.س</span>
+                                    <span className="text-green-600">{t("payments.paidShort", { amount: formatCurrency(payment.paidAmount) })}</span> | 
+                                    <span className="text-orange-600 ms-1">{t("payments.remainingShort", { amount: formatCurrency(payment.remainingAmount) })}</span>
                                   </span>
                                 </div>
                               </SelectItem>
@@ -809,7 +845,7 @@ export function Payments() {
                   )}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Amount Paid (SAR)</Label>
+                  <Label htmlFor="amount">{t("payments.amountPaidSar")}</Label>
                   <Input 
                     id="amount" 
                     type="number"
@@ -834,7 +870,7 @@ export function Payments() {
                         variant="outline"
                         onClick={() => setFormData({ ...formData, amount: selectedPayment.remainingAmount.toString() })}
                       >
-                        Full Amount
+                        {t("payments.fullAmount")}
                       </Button>
                     </div>
                   )}
@@ -842,7 +878,7 @@ export function Payments() {
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="payment-date">Payment Date</Label>
+                  <Label htmlFor="payment-date">{t("payments.paymentDate")}</Label>
                   <Input 
                     id="payment-date" 
                     type="date"
@@ -851,15 +887,15 @@ export function Payments() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="payment-method">Payment Method</Label>
+                  <Label htmlFor="payment-method">{t("payments.paymentMethod")}</Label>
                   <Select value={formData.paymentMethod} onValueChange={(value) => setFormData({ ...formData, paymentMethod: value })}>
                     <SelectTrigger id="payment-method">
-                      <SelectValue placeholder="Select method" />
+                      <SelectValue placeholder={t("payments.selectMethod")} />
                     </SelectTrigger>
                     <SelectContent>
                       {paymentMethodOptions.map((option) => (
                         <SelectItem key={option.value} value={option.value}>
-                          {option.label}
+                          {t(option.key)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -867,10 +903,10 @@ export function Payments() {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="reference">Reference / Receipt Number</Label>
+                <Label htmlFor="reference">{t("payments.reference")}</Label>
                 <Input 
                   id="reference" 
-                  placeholder="Transfer or receipt number"
+                  placeholder={t("payments.referencePlaceholder")}
                   value={formData.reference}
                   onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
                 />
@@ -890,10 +926,10 @@ export function Payments() {
                   reference: "",
                 });
               }}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleSavePayment}>
-                Record Payment
+                {t("payments.record")}
               </Button>
             </div>
           </DialogContent>
@@ -903,56 +939,56 @@ export function Payments() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4 className="text-sm font-medium text-muted-foreground">Total Paid</h4>
+            <h4 className="text-sm font-medium text-muted-foreground">{t("payments.totalPaid")}</h4>
             <CheckCircle className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-green-600">{totalPaid.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">ر.س - Collected amounts</p>
+            <div className="text-3xl font-bold text-green-600">{formatCurrency(totalPaid)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payments.collected")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4 className="text-sm font-medium text-muted-foreground">Total Remaining</h4>
+            <h4 className="text-sm font-medium text-muted-foreground">{t("payments.totalRemaining")}</h4>
             <DollarSign className="h-5 w-5 text-orange-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-orange-600">{totalRemaining.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">ر.س - Outstanding balance</p>
+            <div className="text-3xl font-bold text-orange-600">{formatCurrency(totalRemaining)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payments.outstanding")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4 className="text-sm font-medium text-muted-foreground">Partial Payments</h4>
+            <h4 className="text-sm font-medium text-muted-foreground">{t("payments.partialPayments")}</h4>
             <Clock className="h-5 w-5 text-yellow-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-yellow-600">{totalPartial.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">ر.س - Partially paid</p>
+            <div className="text-3xl font-bold text-yellow-600">{formatCurrency(totalPartial)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payments.partiallyPaid")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4 className="text-sm font-medium text-muted-foreground">Pending</h4>
+            <h4 className="text-sm font-medium text-muted-foreground">{t("status.pending")}</h4>
             <Clock className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-blue-600">{totalPending.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">ر.س - Upcoming receivables</p>
+            <div className="text-3xl font-bold text-blue-600">{formatCurrency(totalPending)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payments.upcoming")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <h4 className="text-sm font-medium text-muted-foreground">Overdue</h4>
+            <h4 className="text-sm font-medium text-muted-foreground">{t("status.overdue")}</h4>
             <AlertCircle className="h-5 w-5 text-red-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-red-600">{totalOverdue.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">ر.س - Requires follow-up</p>
+            <div className="text-3xl font-bold text-red-600">{formatCurrency(totalOverdue)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payments.requiresFollowUp")}</p>
           </CardContent>
         </Card>
       </div>
@@ -961,12 +997,12 @@ export function Payments() {
         <CardHeader>
           <div className="flex items-center gap-4">
             <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
               <Input
-                placeholder="Search for invoice..."
+                placeholder={t("payments.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
+                className="ps-9"
               />
             </div>
             <Select defaultValue="all" value={filterStatus} onValueChange={setFilterStatus}>
@@ -974,18 +1010,18 @@ export function Payments() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Invoices</SelectItem>
-                <SelectItem value="paid">✅ Paid</SelectItem>
-                <SelectItem value="partial">💰 Partial</SelectItem>
-                <SelectItem value="pending">📝 Pending</SelectItem>
-                <SelectItem value="overdue">⚠️ Overdue</SelectItem>
+                <SelectItem value="all">{t("payments.allInvoices")}</SelectItem>
+                <SelectItem value="paid">✅ {t("status.paid")}</SelectItem>
+                <SelectItem value="partial">💰 {t("status.partial")}</SelectItem>
+                <SelectItem value="pending">📝 {t("status.pending")}</SelectItem>
+                <SelectItem value="overdue">⚠️ {t("status.overdue")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
-            <div className="py-6 text-center text-muted-foreground">Loading payments...</div>
+            <div className="py-6 text-center text-muted-foreground">{t("payments.loading")}</div>
           ) : payments.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-16 px-4">
               <div className="relative mb-6">
@@ -994,37 +1030,37 @@ export function Payments() {
                   <Receipt className="h-16 w-16 text-purple-600" />
                 </div>
               </div>
-              <h3 className="text-xl font-semibold text-foreground mb-2">No Payments Yet</h3>
+              <h3 className="text-xl font-semibold text-foreground mb-2">{t("payments.emptyTitle")}</h3>
               <p className="text-muted-foreground text-center max-w-md mb-6">
-                Start tracking your payments by recording your first payment. Click the "Record New Payment" button to get started.
+                {t("payments.emptyDescription")}
               </p>
               <Button 
                 onClick={handleNewPayment}
                 className="gap-2 bg-purple-600 hover:bg-purple-700 text-white"
               >
                 <Plus className="h-4 w-4" />
-                Record New Payment
+                {t("payments.recordNew")}
               </Button>
             </div>
           ) : filteredPayments.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Receipt className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No payments found matching your search criteria.</p>
+              <p className="text-muted-foreground">{t("payments.noMatches")}</p>
             </div>
           ) : (
             <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Invoice Number</TableHead>
-                <TableHead>Customer</TableHead>
-                <TableHead className="text-right">Total Amount</TableHead>
-                <TableHead className="text-right">Paid</TableHead>
-                <TableHead className="text-right">Remaining</TableHead>
-                <TableHead>Due Date</TableHead>
-                <TableHead>Payment Date</TableHead>
-                <TableHead>Payment Method</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead className="text-center">Actions</TableHead>
+                <TableHead>{t("payments.invoiceNumber")}</TableHead>
+                <TableHead>{t("common.customer")}</TableHead>
+                <TableHead className="text-end">{t("payments.totalAmount")}</TableHead>
+                <TableHead className="text-end">{t("status.paid")}</TableHead>
+                <TableHead className="text-end">{t("payments.remaining")}</TableHead>
+                <TableHead>{t("payments.dueDate")}</TableHead>
+                <TableHead>{t("payments.paymentDate")}</TableHead>
+                <TableHead>{t("payments.paymentMethod")}</TableHead>
+                <TableHead>{t("common.status")}</TableHead>
+                <TableHead className="text-center">{t("common.actions")}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -1039,22 +1075,22 @@ export function Payments() {
                       </div>
                     </TableCell>
                     <TableCell>{payment.customer}</TableCell>
-                    <TableCell className="text-right font-semibold">{payment.amount.toLocaleString()} ر.س</TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end font-semibold">{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell className="text-end">
                       <span className="font-medium text-green-600">
-                        {payment.paidAmount.toLocaleString()} ر.س
+                        {formatCurrency(payment.paidAmount)}
                       </span>
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end">
                       <span className={`font-medium ${payment.remainingAmount > 0 ? 'text-orange-600' : 'text-muted-foreground'}`}>
-                        {payment.remainingAmount.toLocaleString()} ر.س
+                        {formatCurrency(payment.remainingAmount)}
                       </span>
                     </TableCell>
-                    <TableCell>{payment.dueDate}</TableCell>
-                    <TableCell>{payment.paymentDate || "-"}</TableCell>
+                    <TableCell>{formatDate(payment.dueDate)}</TableCell>
+                    <TableCell>{payment.paymentDate ? formatDate(payment.paymentDate) : "-"}</TableCell>
                     <TableCell>
                       {payment.paymentMethod
-                        ? paymentMethodLabels[payment.paymentMethod] ?? payment.paymentMethod
+                        ? (paymentMethodKeys[payment.paymentMethod] ? t(paymentMethodKeys[payment.paymentMethod]) : payment.paymentMethod)
                         : "-"}
                     </TableCell>
                     <TableCell>
@@ -1069,7 +1105,7 @@ export function Payments() {
                         }`}
                       >
                         <StatusIcon className="h-3 w-3" />
-                        {payment.status}
+                        {t(STATUS_KEYS[payment.status])}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -1081,13 +1117,13 @@ export function Payments() {
                             onClick={() => handleRecordPayment(payment)}
                           >
                             <DollarSign className="h-4 w-4" />
-                            {payment.status === "Partial" ? `Collect (${payment.remainingAmount.toLocaleString()} ر.س)` : "Record Payment"}
+                            {payment.status === "Partial" ? t("payments.collect", { amount: formatCurrency(payment.remainingAmount) }) : t("payments.record")}
                           </Button>
                         )}
                         {payment.status === "Paid" && (
                           <Badge className="bg-green-100 text-green-700 border-green-200">
-                            <CheckCircle className="h-3 w-3 mr-1" />
-                            Fully Paid
+                            <CheckCircle className="h-3 w-3 me-1" />
+                            {t("payments.fullyPaid")}
                           </Badge>
                         )}
                         <Button 
@@ -1095,7 +1131,15 @@ export function Payments() {
                           variant="outline"
                           onClick={() => handlePrint(payment)}
                         >
-                          Print
+                          {t("common.print")}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title={t("payments.downloadPdf")}
+                          onClick={() => void handleDownloadReceiptPdf(payment)}
+                        >
+                          <Download className="h-4 w-4" />
                         </Button>
                       </div>
                     </TableCell>
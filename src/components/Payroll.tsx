@@ -1,5 +1,5 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import { Plus, Search, Download, DollarSign, FileText, Upload, Paperclip, Eye, X, Filter, Loader2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Plus, Search, Download, DollarSign, FileText, Paperclip, Eye, Filter, Loader2, Calculator, RefreshCw, Landmark, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
 import { Button } from "./ui/button";
@@ -14,6 +14,14 @@ import { Textarea } from "./ui/textarea";
 import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Payrolls as DbPayroll } from "../../supabase/models/payrolls";
+import type { Employees as DbEmployee } from "../../supabase/models/employees";
+import type { Leaves as DbLeave } from "../../supabase/models/leaves";
+import type { EmployeeAttendance as DbAttendance } from "../../supabase/models/employee_attendance";
+import type { EmployeeRequests as DbEmployeeRequest } from "../../supabase/models/employee_requests";
+import { calculatePayrollRun, parsePayrollRunDetails, type PayrollRunDetails } from "../lib/payrollCalculation";
+import { buildWpsFile, downloadWpsFile } from "../lib/wpsExport";
+import { saveCompanyBranding, useCompanySettings } from "../lib/companySettings";
+import { useLocale } from "../lib/i18n";
 
 interface AttachmentDetails {
   name: string;
@@ -34,7 +42,8 @@ interface PayrollRecord {
   createdDate: string | null;
   createdBy: string | null;
   paidDate?: string | null;
-  attachedFile?: AttachmentDetails;
+  attachedFile?: AttachmentDetails; // Uploaded breakdown on payrolls created before calculated runs
+  run?: PayrollRunDetails;
 }
 
 const monthNames = [
@@ -82,39 +91,80 @@ const parseAttachmentDetails = (details: unknown): AttachmentDetails | undefined
   };
 };
 
-const serializeAttachmentDetails = (attachment: AttachmentDetails | null) => {
-  if (!attachment) return null;
-  return {
-    name: attachment.name,
-    size: attachment.size,
-    dataUrl: attachment.dataUrl,
-  };
-};
-
-const formatDate = (value: string | null | undefined, options: Intl.DateTimeFormatOptions) => {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "—";
-  return date.toLocaleDateString("en-GB", options);
-};
-
-const formatDateTime = (value: string | null | undefined, options: Intl.DateTimeFormatOptions) => {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "—";
-  return date.toLocaleString("en-US", options);
-};
-
 const statusColors = {
   draft: "bg-gray-100 text-gray-700 border-gray-200",
   approved: "bg-blue-100 text-blue-700 border-blue-200",
   paid: "bg-green-100 text-green-700 border-green-200",
 };
 
+function PayrollRunTable({ run }: { run: PayrollRunDetails }) {
+  const { t, formatNumber } = useLocale();
+  const formatAmount = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("payroll.employee")}</TableHead>
+            <TableHead className="text-end">{t("payroll.basic")}</TableHead>
+            <TableHead className="text-end">{t("payroll.allowances")}</TableHead>
+            <TableHead className="text-end">{t("payroll.overtime")}</TableHead>
+            <TableHead className="text-end">{t("payroll.gosi")}</TableHead>
+            <TableHead className="text-end">{t("payroll.leaveAbsence")}</TableHead>
+            <TableHead className="text-end">{t("payroll.loans")}</TableHead>
+            <TableHead className="text-end">{t("payroll.net")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {run.lines.map((line) => (
+            <TableRow key={line.employee_id}>
+              <TableCell>
+                <div className="font-medium">{line.name_en}</div>
+                <div className="text-xs text-muted-foreground">{line.department ?? "—"}</div>
+              </TableCell>
+              <TableCell className="text-end">{formatAmount(line.basic)}</TableCell>
+              <TableCell className="text-end">
+                {formatAmount(line.housing + line.transport + line.other_allowances)}
+              </TableCell>
+              <TableCell className="text-end">{formatAmount(line.overtime)}</TableCell>
+              <TableCell className="text-end text-red-600">{formatAmount(line.gosi)}</TableCell>
+              <TableCell className="text-end text-red-600">
+                {formatAmount(line.unpaid_leave_deduction + line.absence_deduction)}
+                {line.unpaid_leave_days + line.absence_days > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    {t("payroll.days", { count: line.unpaid_leave_days + line.absence_days })}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="text-end text-red-600">{formatAmount(line.loan_deduction)}</TableCell>
+              <TableCell className="text-end font-semibold">{formatAmount(line.net)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow className="bg-muted/50 font-semibold">
+            <TableCell>{t("payroll.totalEmployees", { count: run.totals.employees })}</TableCell>
+            <TableCell colSpan={2} className="text-end">{t("payroll.gross", { amount: formatAmount(run.totals.gross) })}</TableCell>
+            <TableCell className="text-end">{formatAmount(run.totals.overtime)}</TableCell>
+            <TableCell className="text-end">{formatAmount(run.totals.gosi)}</TableCell>
+            <TableCell colSpan={2} className="text-end">{t("payroll.deducted", { amount: formatAmount(run.totals.deductions) })}</TableCell>
+            <TableCell className="text-end text-green-700">{formatAmount(run.totals.net)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
 export function Payroll() {
   const dispatch = useAppDispatch();
+  const companySettings = useCompanySettings();
+  const { t, formatNumber, formatCurrency, formatDate, formatDateTime, monthName } = useLocale();
   const dbPayrolls = useAppSelector(selectors.payrolls.selectAll) as DbPayroll[];
   const payrollsLoading = useAppSelector(selectors.payrolls.selectLoading);
+  const dbEmployees = useAppSelector(selectors.employees.selectAll) as DbEmployee[];
+  const dbLeaves = useAppSelector(selectors.leaves.selectAll) as DbLeave[];
+  const dbAttendance = useAppSelector(selectors.employee_attendance.selectAll) as DbAttendance[];
+  const dbRequests = useAppSelector(selectors.employee_requests.selectAll) as DbEmployeeRequest[];
 
   const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
@@ -126,16 +176,32 @@ export function Payroll() {
   const [month, setMonth] = useState("");
   const [year, setYear] = useState("");
   const [date, setDate] = useState("");
-  const [totalAmount, setTotalAmount] = useState("");
   const [notes, setNotes] = useState("");
-  const [attachedFile, setAttachedFile] = useState<AttachmentDetails | null>(null);
+  const [preview, setPreview] = useState<PayrollRunDetails | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // WPS bank file
+  const [wpsRecordId, setWpsRecordId] = useState<string | null>(null);
+  const [wpsEstablishmentId, setWpsEstablishmentId] = useState("");
+  const [wpsCompanyIban, setWpsCompanyIban] = useState("");
+  const [wpsPaymentDate, setWpsPaymentDate] = useState(() => new Date().toISOString().slice(0, 10));
 
   useEffect(() => {
     dispatch(thunks.payrolls.fetchAll(undefined));
+    // Inputs for calculating payroll runs
+    dispatch(thunks.employees.fetchAll(undefined));
+    dispatch(thunks.leaves.fetchAll(undefined));
+    dispatch(thunks.employee_attendance.fetchAll(undefined));
+    dispatch(thunks.employee_requests.fetchAll(undefined));
   }, [dispatch]);
 
+  const calculateRun = (monthValue: string, yearValue: number) =>
+    calculatePayrollRun(
+      { employees: dbEmployees, leaves: dbLeaves, attendance: dbAttendance, requests: dbRequests },
+      yearValue,
+      Number(monthValue)
+    );
+
   const payrollRecords = useMemo<PayrollRecord[]>(() => {
     return dbPayrolls
       .map((record) => {
@@ -156,6 +222,7 @@ export function Payroll() {
           createdBy: record.created_by,
           paidDate: record.paid_at ?? undefined,
           attachedFile: parseAttachmentDetails(record.attached_details),
+          run: parsePayrollRunDetails(record.attached_details) ?? undefined,
         };
       })
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -166,6 +233,48 @@ export function Payroll() {
     return payrollRecords.find((record) => record.id === selectedRecordId) ?? null;
   }, [payrollRecords, selectedRecordId]);
 
+  const periodLabel = (record: PayrollRecord) => {
+    const index = monthNames.indexOf(record.month);
+    return `${index >= 0 ? monthName(index + 1) : record.month} ${record.year}`;
+  };
+
+  const wpsRecord = useMemo(
+    () => payrollRecords.find((record) => record.id === wpsRecordId) ?? null,
+    [payrollRecords, wpsRecordId]
+  );
+
+  const wpsFile = useMemo(() => {
+    if (!wpsRecord?.run) return null;
+    return buildWpsFile(
+      wpsRecord.run,
+      dbEmployees,
+      { establishmentId: wpsEstablishmentId, companyIban: wpsCompanyIban },
+      wpsPaymentDate
+    );
+  }, [wpsRecord, dbEmployees, wpsEstablishmentId, wpsCompanyIban, wpsPaymentDate]);
+
+  // The establishment number and IBAN are company details, shared with every other browser
+  const openWpsDialog = (recordId: string) => {
+    setWpsEstablishmentId(companySettings?.branding?.wps_establishment_id ?? "");
+    setWpsCompanyIban(companySettings?.branding?.company_iban ?? "");
+    setWpsRecordId(recordId);
+  };
+
+  const handleDownloadWps = () => {
+    if (!wpsFile?.content) return;
+    const establishmentId = wpsEstablishmentId.trim();
+    const companyIban = wpsCompanyIban.trim();
+    const branding = companySettings?.branding;
+    if (establishmentId !== (branding?.wps_establishment_id ?? "") || companyIban !== (branding?.company_iban ?? "")) {
+      saveCompanyBranding({ wps_establishment_id: establishmentId || null, company_iban: companyIban || null }).catch(
+        (error) => toast.error(error?.message ?? t("payroll.wpsDetailsSaveFailed"))
+      );
+    }
+    downloadWpsFile(wpsFile);
+    toast.success(t("payroll.wpsCreated", { count: wpsFile.records.length }));
+    setWpsRecordId(null);
+  };
+
   useEffect(() => {
     if (!selectedRecordId) return;
     if (!payrollRecords.some((record) => record.id === selectedRecordId)) {
@@ -187,127 +296,89 @@ export function Payroll() {
     });
   }, [payrollRecords, searchQuery, filterStatus]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Check file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        toast.error("File size should not exceed 10MB");
-        return;
-      }
-      
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setAttachedFile({
-          name: file.name,
-          size: file.size,
-          dataUrl: reader.result as string
-        });
-        toast.success("File attached successfully");
-      };
-      reader.readAsDataURL(file);
+  const handleCalculate = () => {
+    if (!month || !year) {
+      toast.error(t("payroll.selectPeriod"));
+      return;
     }
-  };
-
-  const downloadTemplate = () => {
-    // Create a simple template structure
-    const templateContent = `Payroll Template - Scent System
-
-Month: 
-Year: 
-Date: 
-Total Amount (SAR): 
-
-Employee Details:
---------------------------------------------------
-Employee ID | Name | Position | Base Salary | Allowances | Deductions | Social Insurance | Net Salary
---------------------------------------------------
-
-
-
-Notes:
-
-
-This is a template file for payroll records. Fill in the employee details and save this file to upload with your payroll record.
-`;
-
-    const blob = new Blob([templateContent], { type: 'text/plain' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'Payroll_Template.txt';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
-    toast.success("Template downloaded successfully");
+    const run = calculateRun(month, parseInt(year, 10));
+    if (run.lines.length === 0) {
+      toast.error(t("payroll.noEmployees"));
+      return;
+    }
+    setPreview(run);
   };
 
   const handleCreatePayroll = async () => {
-    if (!month || !year || !date || !totalAmount) {
-      toast.error("Please fill all required fields");
+    if (!month || !year || !date) {
+      toast.error(t("payroll.requiredFields"));
       return;
     }
 
-    if (!attachedFile) {
-      toast.error("Please upload the payroll details file.");
+    if (!preview) {
+      toast.error(t("payroll.calculateFirst"));
       return;
     }
 
     const yearNumber = parseInt(year, 10);
     if (!Number.isFinite(yearNumber)) {
-      toast.error("Invalid year selected.");
-      return;
-    }
-
-    const amountNumber = parseFloat(totalAmount);
-    if (!Number.isFinite(amountNumber)) {
-      toast.error("Total amount must be a valid number.");
+      toast.error(t("payroll.invalidYear"));
       return;
     }
 
-    const existingForMonth = dbPayrolls.filter(
-      (record) => record.payroll_year === yearNumber && record.payroll_month === month
-    ).length;
-    const payrollNumber = `PAY-${year}-${month}-${String(existingForMonth + 1).padStart(3, "0")}`;
-
     setIsSubmitting(true);
     try {
-      await dispatch(
+      // The payroll number is assigned by the database on insert
+      const created = await dispatch(
         thunks.payrolls.createOne({
-          payroll_number: payrollNumber,
           payroll_month: month,
           payroll_year: yearNumber,
           payroll_date: date,
           status: "draft",
-          total_amount: amountNumber,
+          total_amount: preview.totals.net,
           notes: notes || null,
-          attached_details: serializeAttachmentDetails(attachedFile),
+          attached_details: preview,
           created_by: "Current User",
         })
       ).unwrap();
 
-      toast.success("Payroll created successfully!");
+      toast.success(t("payroll.created", { number: created.payroll_number }));
       setIsAddDialogOpen(false);
       resetForm();
-    } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to create payroll record.";
+    } catch (error) {
+      const message = (error as { message?: string })?.message || t("payroll.createFailed");
       toast.error(message);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Draft runs can be recalculated after leave, attendance or requests change
+  const recalculatePayroll = async (record: PayrollRecord) => {
+    const run = calculateRun(record.monthValue, record.year);
+    try {
+      await dispatch(
+        thunks.payrolls.updateOne({
+          id: record.id,
+          values: {
+            total_amount: run.totals.net,
+            attached_details: run,
+          },
+        })
+      ).unwrap();
+      toast.success(t("payroll.recalculated"));
+    } catch (error) {
+      const message = (error as { message?: string })?.message || t("payroll.recalculateFailed");
+      toast.error(message);
+    }
+  };
+
   const resetForm = () => {
     setMonth("");
     setYear("");
     setDate("");
-    setTotalAmount("");
     setNotes("");
-    setAttachedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+    setPreview(null);
   };
 
   const markAsApproved = async (id: string) => {
@@ -320,9 +391,9 @@ This is a template file for payroll records. Fill in the employee details and sa
           },
         })
       ).unwrap();
-      toast.success("Payroll approved successfully!");
+      toast.success(t("payroll.approved"));
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to approve payroll.";
+      const message = error?.message || error?.error?.message || t("payroll.approveFailed");
       toast.error(message);
     }
   };
@@ -338,9 +409,9 @@ This is a template file for payroll records. Fill in the employee details and sa
           },
         })
       ).unwrap();
-      toast.success("Payroll marked as paid!");
+      toast.success(t("payroll.markedPaid"));
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to mark payroll as paid.";
+      const message = error?.message || error?.error?.message || t("payroll.markPaidFailed");
       toast.error(message);
     }
   };
@@ -388,9 +459,9 @@ This is a template file for payroll records. Fill in the employee details and sa
       XLSX.utils.book_append_sheet(wb, ws, "Payroll");
       const fileName = `payroll_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -399,17 +470,13 @@ This is a template file for payroll records. Fill in the employee details and sa
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Payroll Management</h2>
-          <p className="text-muted-foreground mt-1">Manage monthly payroll records and employee salaries</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("payroll.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("payroll.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
-          </Button>
-          <Button variant="outline" onClick={downloadTemplate} className="gap-2">
-            <FileText className="h-4 w-4" />
-            Download Template
+            {t("common.exportExcel")}
           </Button>
           <Dialog
             open={isAddDialogOpen}
@@ -424,43 +491,55 @@ This is a template file for payroll records. Fill in the employee details and sa
             <DialogTrigger asChild>
               <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                Add Payroll
+                {t("payroll.add")}
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-xl">
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Add New Payroll Record</DialogTitle>
-                <DialogDescription>Create a new payroll record with total amount and attached details</DialogDescription>
+                <DialogTitle>{t("payroll.addTitle")}</DialogTitle>
+                <DialogDescription>{t("payroll.addDescription")}</DialogDescription>
               </DialogHeader>
               <div className="space-y-4 pt-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="month">Month *</Label>
-                    <Select value={month} onValueChange={setMonth}>
+                    <Label htmlFor="month">{t("payroll.monthRequired")}</Label>
+                    <Select
+                      value={month}
+                      onValueChange={(value) => {
+                        setMonth(value);
+                        setPreview(null);
+                      }}
+                    >
                       <SelectTrigger id="month">
-                        <SelectValue placeholder="Select month" />
+                        <SelectValue placeholder={t("payroll.selectMonth")} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="01">January</SelectItem>
-                        <SelectItem value="02">February</SelectItem>
-                        <SelectItem value="03">March</SelectItem>
-                        <SelectItem value="04">April</SelectItem>
-                        <SelectItem value="05">May</SelectItem>
-                        <SelectItem value="06">June</SelectItem>
-                        <SelectItem value="07">July</SelectItem>
-                        <SelectItem value="08">August</SelectItem>
-                        <SelectItem value="09">September</SelectItem>
-                        <SelectItem value="10">October</SelectItem>
-                        <SelectItem value="11">November</SelectItem>
-                        <SelectItem value="12">December</SelectItem>
+                        <SelectItem value="01">{monthName(1)}</SelectItem>
+                        <SelectItem value="02">{monthName(2)}</SelectItem>
+                        <SelectItem value="03">{monthName(3)}</SelectItem>
+                        <SelectItem value="04">{monthName(4)}</SelectItem>
+                        <SelectItem value="05">{monthName(5)}</SelectItem>
+                        <SelectItem value="06">{monthName(6)}</SelectItem>
+                        <SelectItem value="07">{monthName(7)}</SelectItem>
+                        <SelectItem value="08">{monthName(8)}</SelectItem>
+                        <SelectItem value="09">{monthName(9)}</SelectItem>
+                        <SelectItem value="10">{monthName(10)}</SelectItem>
+                        <SelectItem value="11">{monthName(11)}</SelectItem>
+                        <SelectItem value="12">{monthName(12)}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="year">Year *</Label>
-                    <Select value={year} onValueChange={setYear}>
+                    <Label htmlFor="year">{t("payroll.yearRequired")}</Label>
+                    <Select
+                      value={year}
+                      onValueChange={(value) => {
+                        setYear(value);
+                        setPreview(null);
+                      }}
+                    >
                       <SelectTrigger id="year">
-                        <SelectValue placeholder="Select year" />
+                        <SelectValue placeholder={t("payroll.selectYear")} />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="2024">2024</SelectItem>
@@ -472,7 +551,7 @@ This is a template file for payroll records. Fill in the employee details and sa
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="date">Date *</Label>
+                  <Label htmlFor="date">{t("payroll.dateRequired")}</Label>
                   <Input 
                     id="date" 
                     type="date" 
@@ -482,24 +561,10 @@ This is a template file for payroll records. Fill in the employee details and sa
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="totalAmount">Total Amount (SAR) *</Label>
-                  <Input 
-                    id="totalAmount" 
-                    type="number" 
-                    placeholder="0.00"
-                    value={totalAmount}
-                    onChange={(e) => setTotalAmount(e.target.value)}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Enter the total net payroll amount for all employees
-                  </p>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
+                  <Label htmlFor="notes">{t("common.notes")}</Label>
                   <Textarea 
                     id="notes" 
-                    placeholder="Additional notes about this payroll..."
+                    placeholder={t("payroll.notesPlaceholder")}
                     value={notes}
                     onChange={(e) => setNotes(e.target.value)}
                     rows={3}
@@ -507,52 +572,27 @@ This is a template file for payroll records. Fill in the employee details and sa
                 </div>
                 
                 <div className="space-y-2">
-                  <Label>Attach Payroll Details *</Label>
-                  <div className="space-y-2">
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      onChange={handleFileUpload}
-                      accept=".pdf,.xlsx,.xls,.doc,.docx,.txt"
-                      className="hidden"
-                    />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => fileInputRef.current?.click()}
-                      className="w-full"
-                    >
-                      <Upload className="h-4 w-4 mr-2" />
-                      {attachedFile ? "Change File" : "Upload Payroll Details"}
+                  <div className="flex items-center justify-between">
+                    <Label>{t("payroll.breakdownRequired")}</Label>
+                    <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleCalculate}>
+                      <Calculator className="h-4 w-4" />
+                      {preview ? t("payroll.recalculate") : t("payroll.calculate")}
                     </Button>
-                    {attachedFile && (
-                      <div className="flex items-center gap-2 p-3 bg-muted rounded-md">
-                        <Paperclip className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm flex-1 truncate">{attachedFile.name}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {(attachedFile.size / 1024).toFixed(1)} KB
-                        </span>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => setAttachedFile(null)}
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    )}
+                  </div>
+                  {preview ? (
+                    <PayrollRunTable run={preview} />
+                  ) : (
                     <p className="text-xs text-muted-foreground">
-                      Upload the detailed payroll breakdown file containing employee information
+                      {t("payroll.calculationHint")}
                     </p>
-                  </div>
+                  )}
                 </div>
               </div>
               <div className="flex justify-end gap-3 pt-4">
                 <Button variant="outline" onClick={() => {
                   setIsAddDialogOpen(false);
                   resetForm();
-                }}>Cancel</Button>
+                }}>{t("common.cancel")}</Button>
                 <Button
                   onClick={handleCreatePayroll}
                   className="bg-purple-600 hover:bg-purple-700 text-white"
@@ -560,11 +600,11 @@ This is a template file for payroll records. Fill in the employee details and sa
                 >
                   {isSubmitting ? (
                     <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Adding...
+                      <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                      {t("payroll.adding")}
                     </>
                   ) : (
-                    "Add Payroll"
+                    t("payroll.add")
                   )}
                 </Button>
               </div>
@@ -577,45 +617,45 @@ This is a template file for payroll records. Fill in the employee details and sa
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Records</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("payroll.totalRecords")}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{payrollRecords.length}</div>
-            <p className="text-xs text-muted-foreground mt-1">Payroll records</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("payroll.records")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Current Month</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("payroll.currentMonth")}</CardTitle>
             <DollarSign className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">{totalMonthlyPayroll.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Latest payroll</p>
+            <div className="text-2xl font-bold text-blue-600">{formatCurrency(totalMonthlyPayroll)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payroll.latest")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.pending")}</CardTitle>
             <DollarSign className="h-4 w-4 text-yellow-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">{pendingPayroll.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Not yet paid</p>
+            <div className="text-2xl font-bold text-yellow-600">{formatCurrency(pendingPayroll)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payroll.notYetPaid")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">YTD Total</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("payroll.ytdTotal")}</CardTitle>
             <DollarSign className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{ytdPayroll.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Year to date</p>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(ytdPayroll)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("payroll.yearToDate")}</p>
           </CardContent>
         </Card>
       </div>
@@ -624,27 +664,27 @@ This is a template file for payroll records. Fill in the employee details and sa
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Payroll Records</CardTitle>
+            <CardTitle>{t("payroll.recordsTitle")}</CardTitle>
             <div className="flex items-center gap-2">
               <Select value={filterStatus} onValueChange={setFilterStatus}>
                 <SelectTrigger className="w-[180px]">
-                  <Filter className="h-4 w-4 mr-2" />
+                  <Filter className="h-4 w-4 me-2" />
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="draft">Draft</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  <SelectItem value="draft">{t("status.draft")}</SelectItem>
+                  <SelectItem value="approved">{t("status.approved")}</SelectItem>
+                  <SelectItem value="paid">{t("status.paid")}</SelectItem>
                 </SelectContent>
               </Select>
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search payrolls..."
+                  placeholder={t("payroll.search")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[250px]"
+                  className="ps-8 w-[250px]"
                 />
               </div>
             </div>
@@ -655,21 +695,21 @@ This is a template file for payroll records. Fill in the employee details and sa
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Payroll #</TableHead>
-                  <TableHead>Period</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Total Amount</TableHead>
-                  <TableHead>Attachment</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("payroll.number")}</TableHead>
+                  <TableHead>{t("payroll.period")}</TableHead>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("payroll.totalAmount")}</TableHead>
+                  <TableHead>{t("payroll.details")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {payrollsLoading && (
                   <TableRow>
                     <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
-                      <Loader2 className="mr-2 inline h-4 w-4 animate-spin" />
-                      Loading payroll records...
+                      <Loader2 className="me-2 inline h-4 w-4 animate-spin" />
+                      {t("payroll.loading")}
                     </TableCell>
                   </TableRow>
                 )}
@@ -679,36 +719,34 @@ This is a template file for payroll records. Fill in the employee details and sa
                       <div className="font-mono text-sm text-muted-foreground">{record.payrollNumber}</div>
                     </TableCell>
                     <TableCell>
-                      <div className="font-medium">{record.month} {record.year}</div>
+                      <div className="font-medium">{periodLabel(record)}</div>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm text-muted-foreground">
-                        {formatDate(record.date, {
-                          year: "numeric",
-                          month: "short",
-                          day: "numeric",
-                        })}
+                        {formatDate(record.date)}
                       </div>
                     </TableCell>
                     <TableCell className="font-semibold text-green-600">
-                      {record.totalAmount.toLocaleString()} ر.س
+                      {formatCurrency(record.totalAmount)}
                     </TableCell>
                     <TableCell>
-                      {record.attachedFile ? (
+                      {record.run ? (
+                        <span className="text-xs text-muted-foreground">{t("payroll.employeeCount", { count: record.run.totals.employees })}</span>
+                      ) : record.attachedFile ? (
                         <div className="flex items-center gap-1 text-xs">
                           <Paperclip className="h-3 w-3 text-blue-600" />
                           <span className="text-blue-600 truncate max-w-[100px]">{record.attachedFile.name}</span>
                         </div>
                       ) : (
-                        <span className="text-xs text-muted-foreground">No file</span>
+                        <span className="text-xs text-muted-foreground">{t("payroll.noFile")}</span>
                       )}
                     </TableCell>
                     <TableCell>
                       <Badge className={statusColors[record.status]}>
-                        {record.status}
+                        {t(`status.${record.status}`)}
                       </Badge>
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end">
                       <div className="flex items-center justify-end gap-2">
                         <Button
                           variant="ghost"
@@ -718,16 +756,26 @@ This is a template file for payroll records. Fill in the employee details and sa
                             setIsDetailsDialogOpen(true);
                           }}
                         >
-                          <Eye className="h-4 w-4 mr-1" />
-                          View
+                          <Eye className="h-4 w-4 me-1" />
+                          {t("common.view")}
                         </Button>
+                        {record.status === "draft" && record.run && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t("payroll.recalculate")}
+                            onClick={() => recalculatePayroll(record)}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                        )}
                         {record.status === "draft" && (
                           <Button
                             variant="outline"
                             size="sm"
                             onClick={() => markAsApproved(record.id)}
                           >
-                            Approve
+                            {t("payroll.approve")}
                           </Button>
                         )}
                         {record.status === "approved" && (
@@ -736,7 +784,18 @@ This is a template file for payroll records. Fill in the employee details and sa
                             size="sm"
                             onClick={() => markAsPaid(record.id)}
                           >
-                            Mark Paid
+                            {t("payroll.markPaid")}
+                          </Button>
+                        )}
+                        {(record.status === "approved" || record.status === "paid") && record.run && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => openWpsDialog(record.id)}
+                          >
+                            <Landmark className="h-4 w-4" />
+                            {t("payroll.wpsFile")}
                           </Button>
                         )}
                       </div>
@@ -750,8 +809,8 @@ This is a template file for payroll records. Fill in the employee details and sa
                         <DollarSign className="h-12 w-12 text-muted-foreground mb-3" />
                         <p className="text-muted-foreground">
                           {searchQuery
-                            ? "No payroll records found matching your search."
-                            : "No payroll records found"}
+                            ? t("payroll.emptySearch")
+                            : t("payroll.empty")}
                         </p>
                       </div>
                     </TableCell>
@@ -763,6 +822,103 @@ This is a template file for payroll records. Fill in the employee details and sa
         </CardContent>
       </Card>
 
+      {/* WPS Export Dialog */}
+      <Dialog
+        open={!!wpsRecordId}
+        onOpenChange={(open) => {
+          if (!open) setWpsRecordId(null);
+        }}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("payroll.wpsTitle")}</DialogTitle>
+            <DialogDescription>
+              {wpsRecord?.payrollNumber} - {wpsRecord ? periodLabel(wpsRecord) : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {wpsFile && (
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="wpsEstablishmentId">{t("payroll.establishmentNumber")}</Label>
+                  <Input
+                    id="wpsEstablishmentId"
+                    placeholder={t("payroll.establishmentPlaceholder")}
+                    value={wpsEstablishmentId}
+                    onChange={(e) => setWpsEstablishmentId(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="wpsPaymentDate">{t("payroll.paymentDate")}</Label>
+                  <Input
+                    id="wpsPaymentDate"
+                    type="date"
+                    value={wpsPaymentDate}
+                    onChange={(e) => setWpsPaymentDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="wpsCompanyIban">{t("payroll.companyIban")}</Label>
+                <Input
+                  id="wpsCompanyIban"
+                  placeholder="SA00 0000 0000 0000 0000 0000"
+                  value={wpsCompanyIban}
+                  onChange={(e) => setWpsCompanyIban(e.target.value)}
+                />
+              </div>
+
+              {wpsFile.issues.length > 0 ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm font-medium text-red-700">
+                    <AlertTriangle className="h-4 w-4" />
+                    {t("payroll.wpsIssues", { count: wpsFile.issues.length })}
+                  </div>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("payroll.employee")}</TableHead>
+                          <TableHead>{t("payroll.problems")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {wpsFile.issues.map((issue) => (
+                          <TableRow key={issue.employee_id || issue.name}>
+                            <TableCell className="font-medium">{issue.name}</TableCell>
+                            <TableCell className="text-sm text-red-700">{issue.problems.join("; ")}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t("payroll.wpsBankHint")}
+                  </p>
+                </div>
+              ) : (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                  {t("payroll.wpsReady", {
+                    count: wpsFile.records.length,
+                    amount: formatCurrency(wpsFile.records.reduce((sum, record) => sum + record.net, 0)),
+                  })}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button variant="outline" onClick={() => setWpsRecordId(null)}>
+                  {t("common.cancel")}
+                </Button>
+                <Button className="gap-2" onClick={handleDownloadWps} disabled={!wpsFile.content}>
+                  <Download className="h-4 w-4" />
+                  {t("payroll.downloadSif")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Details Dialog */}
       <Dialog
         open={isDetailsDialogOpen}
@@ -773,69 +929,72 @@ This is a template file for payroll records. Fill in the employee details and sa
           }
         }}
       >
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Payroll Details</DialogTitle>
+            <DialogTitle>{t("payroll.detailsTitle")}</DialogTitle>
             <DialogDescription>
-              {selectedRecord?.payrollNumber} - {selectedRecord?.month} {selectedRecord?.year}
+              {selectedRecord?.payrollNumber} - {selectedRecord ? periodLabel(selectedRecord) : ""}
             </DialogDescription>
           </DialogHeader>
           {selectedRecord && (
             <div className="space-y-6 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Payroll Number</Label>
+                  <Label className="text-muted-foreground">{t("payroll.payrollNumber")}</Label>
                   <div className="font-mono">{selectedRecord.payrollNumber}</div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Period</Label>
-                  <div className="font-medium">{selectedRecord.month} {selectedRecord.year}</div>
+                  <Label className="text-muted-foreground">{t("payroll.period")}</Label>
+                  <div className="font-medium">{periodLabel(selectedRecord)}</div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Date</Label>
+                  <Label className="text-muted-foreground">{t("common.date")}</Label>
                   <div>
-                    {formatDate(selectedRecord.date, {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                    })}
+                    {formatDate(selectedRecord.date)}
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">Status</Label>
+                  <Label className="text-muted-foreground">{t("common.status")}</Label>
                   <div>
                     <Badge className={statusColors[selectedRecord.status]}>
-                      {selectedRecord.status}
+                      {t(`status.${selectedRecord.status}`)}
                     </Badge>
                   </div>
                 </div>
               </div>
 
               <div className="p-4 bg-gradient-to-r from-green-50 to-emerald-50 rounded-lg border border-green-200">
-                <div className="text-sm text-muted-foreground mb-1">Total Payroll Amount</div>
+                <div className="text-sm text-muted-foreground mb-1">{t("payroll.totalPayrollAmount")}</div>
                 <div className="text-3xl font-bold text-green-700">
-                  {selectedRecord.totalAmount.toLocaleString()} ر.س
+                  {formatCurrency(selectedRecord.totalAmount)}
                 </div>
               </div>
 
               {selectedRecord.notes && (
                 <div className="space-y-2">
-                  <Label>Notes</Label>
+                  <Label>{t("common.notes")}</Label>
                   <div className="p-3 bg-muted rounded-lg text-sm">
                     {selectedRecord.notes}
                   </div>
                 </div>
               )}
 
+              {selectedRecord.run && (
+                <div className="space-y-2">
+                  <Label>{t("payroll.breakdown")}</Label>
+                  <PayrollRunTable run={selectedRecord.run} />
+                </div>
+              )}
+
               {selectedRecord.attachedFile && (
                 <div className="space-y-2">
-                  <Label>Attached File</Label>
+                  <Label>{t("payroll.attachedFile")}</Label>
                   <div className="flex items-center gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                     <Paperclip className="h-5 w-5 text-blue-600" />
                     <div className="flex-1">
                       <div className="font-medium text-sm">{selectedRecord.attachedFile.name}</div>
                       <div className="text-xs text-muted-foreground">
-                        {(selectedRecord.attachedFile.size / 1024).toFixed(1)} KB
+                        {formatNumber(selectedRecord.attachedFile.size / 1024, { maximumFractionDigits: 1 })} KB
                       </div>
                     </div>
                     <Button
@@ -850,8 +1009,8 @@ This is a template file for payroll records. Fill in the employee details and sa
                         link.click();
                       }}
                     >
-                      <Download className="h-4 w-4 mr-1" />
-                      Download
+                      <Download className="h-4 w-4 me-1" />
+                      {t("common.download")}
                     </Button>
                   </div>
                 </div>
@@ -859,32 +1018,20 @@ This is a template file for payroll records. Fill in the employee details and sa
 
               <div className="grid grid-cols-2 gap-4 pt-4 border-t">
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground text-xs">Created Date</Label>
+                  <Label className="text-muted-foreground text-xs">{t("payroll.createdDate")}</Label>
                   <div className="text-sm">
-                    {formatDateTime(selectedRecord.createdDate, {
-                      year: "numeric",
-                      month: "short",
-                      day: "numeric",
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
+                    {formatDateTime(selectedRecord.createdDate)}
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground text-xs">Created By</Label>
+                  <Label className="text-muted-foreground text-xs">{t("payroll.createdBy")}</Label>
                   <div className="text-sm">{selectedRecord.createdBy ?? "—"}</div>
                 </div>
                 {selectedRecord.paidDate && (
                   <div className="space-y-1">
-                    <Label className="text-muted-foreground text-xs">Paid Date</Label>
+                    <Label className="text-muted-foreground text-xs">{t("payroll.paidDate")}</Label>
                     <div className="text-sm text-green-600">
-                      {formatDateTime(selectedRecord.paidDate, {
-                        year: "numeric",
-                        month: "short",
-                        day: "numeric",
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      })}
+                      {formatDateTime(selectedRecord.paidDate)}
                     </div>
                   </div>
                 )}
@@ -895,31 +1042,31 @@ This is a template file for payroll records. Fill in the employee details and sa
       </Dialog>
 
       {/* Info Card */}
-      <Card className="border-l-4 border-l-blue-600">
+      <Card className="border-s-4 border-s-blue-600">
         <CardHeader>
-          <CardTitle className="text-lg">How to Use Payroll Management</CardTitle>
+          <CardTitle className="text-lg">{t("payroll.howTo")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-2 text-sm text-muted-foreground">
             <div className="flex items-start gap-2">
               <div className="h-5 w-5 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs mt-0.5">1</div>
-              <span>Download the payroll template using the "Download Template" button</span>
+              <span>{t("payroll.howToStep1")}</span>
             </div>
             <div className="flex items-start gap-2">
               <div className="h-5 w-5 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs mt-0.5">2</div>
-              <span>Fill in the template with employee details, salaries, deductions, etc.</span>
+              <span>{t("payroll.howToStep2")}</span>
             </div>
             <div className="flex items-start gap-2">
               <div className="h-5 w-5 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs mt-0.5">3</div>
-              <span>Create a new payroll record and enter the total amount</span>
+              <span>{t("payroll.howToStep3")}</span>
             </div>
             <div className="flex items-start gap-2">
               <div className="h-5 w-5 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs mt-0.5">4</div>
-              <span>Upload your completed template file with the payroll record</span>
+              <span>{t("payroll.howToStep4")}</span>
             </div>
             <div className="flex items-start gap-2">
               <div className="h-5 w-5 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs mt-0.5">5</div>
-              <span>Approve the payroll when ready, then mark as paid after processing</span>
+              <span>{t("payroll.howToStep5")}</span>
             </div>
           </div>
         </CardContent>
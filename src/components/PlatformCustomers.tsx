@@ -13,6 +13,8 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { PlatformCustomers as PlatformCustomersRecord } from "../../supabase/models/platform_customers";
 import type { PlatformOrders as PlatformOrdersRecord } from "../../supabase/models/platform_orders";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 const normalizePhone = (value?: string | null) => (value ? value.replace(/\D+/g, "") : "");
 const normalizeEmail = (value?: string | null) => (value ? value.trim().toLowerCase() : "");
@@ -24,23 +26,28 @@ const toIsoString = (value?: string | null) => {
   return date.toISOString();
 };
 
-const formatDate = (value?: string | null) => {
+// Excel exports stay in English
+const formatExportDate = (value?: string | null) => {
   const iso = toIsoString(value ?? undefined);
   if (!iso) return "-";
   return new Date(iso).toLocaleDateString("en-GB");
 };
 
 const getPlatformBadge = (platform: string) => {
-  const badges = {
-    amazon: { color: "bg-orange-100 text-orange-700 border-orange-200", label: "Amazon" },
-    noon: { color: "bg-yellow-100 text-yellow-700 border-yellow-200", label: "Noon" },
-    website: { color: "bg-blue-100 text-blue-700 border-blue-200", label: "Website" },
-    "golden-scent": { color: "bg-amber-100 text-amber-700 border-amber-200", label: "Golden Scent" },
-    trendyol: { color: "bg-purple-100 text-purple-700 border-purple-200", label: "Trendyol" },
-    "sales-rep": { color: "bg-green-100 text-green-700 border-green-200", label: "Sales Rep" },
-    other: { color: "bg-gray-100 text-gray-700 border-gray-200", label: "Other" },
-  } as const;
-  return badges[platform as keyof typeof badges] ?? badges.other;
+  const badges: Record<string, { color: string; label: string; labelKey: MessageKey }> = {
+    amazon: { color: "bg-orange-100 text-orange-700 border-orange-200", label: "Amazon", labelKey: "platform.amazon" },
+    noon: { color: "bg-yellow-100 text-yellow-700 border-yellow-200", label: "Noon", labelKey: "platform.noon" },
+    website: { color: "bg-blue-100 text-blue-700 border-blue-200", label: "Website", labelKey: "platform.website" },
+    "golden-scent": {
+      color: "bg-amber-100 text-amber-700 border-amber-200",
+      label: "Golden Scent",
+      labelKey: "platform.goldenScent",
+    },
+    trendyol: { color: "bg-purple-100 text-purple-700 border-purple-200", label: "Trendyol", labelKey: "platform.trendyol" },
+    "sales-rep": { color: "bg-green-100 text-green-700 border-green-200", label: "Sales Rep", labelKey: "platform.salesRep" },
+    other: { color: "bg-gray-100 text-gray-700 border-gray-200", label: "Other", labelKey: "platform.other" },
+  };
+  return badges[platform] ?? badges.other;
 };
 
 interface PlatformCustomerView {
@@ -67,6 +74,7 @@ const parseOrderMeta = (raw: PlatformOrdersRecord["order_items"]) => {
 };
 
 export function PlatformCustomers() {
+  const { t, formatNumber, formatCurrency, formatDate } = useLocale();
   const dispatch = useAppDispatch();
   const customerRecords = useAppSelector(selectors.platform_customers.selectAll) as PlatformCustomersRecord[];
   const customersLoading = useAppSelector(selectors.platform_customers.selectLoading);
@@ -109,7 +117,7 @@ export function PlatformCustomers() {
       return {
         record,
         id: record.customer_id,
-        customerName: record.customer_name ?? "Platform Customer",
+        customerName: record.customer_name ?? t("platformCustomers.defaultName"),
         customerPhone: record.customer_phone ?? "",
         customerEmail: record.customer_email ?? "",
         shippingAddress: record.customer_address ?? "",
@@ -123,7 +131,7 @@ export function PlatformCustomers() {
         status: (record.customer_status as "active" | "inactive" | null) ?? "active",
       };
     });
-  }, [customerRecords, customerPlatformMap]);
+  }, [customerRecords, customerPlatformMap, t]);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [filterPlatform, setFilterPlatform] = useState<string>("all");
@@ -172,8 +180,8 @@ export function PlatformCustomers() {
         Platform: customer.platformLabel,
         "Total Orders": customer.totalOrders,
         "Total Spent (SAR)": customer.totalSpent.toFixed(2),
-        "First Order": formatDate(customer.firstOrderDate),
-        "Last Order": formatDate(customer.lastOrderDate),
+        "First Order": formatExportDate(customer.firstOrderDate),
+        "Last Order": formatExportDate(customer.lastOrderDate),
         Status: customer.status,
       }));
 
@@ -196,9 +204,9 @@ export function PlatformCustomers() {
       XLSX.utils.book_append_sheet(wb, ws, "Platform Customers");
       const fileName = `platform_customers_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(translateCurrent("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(translateCurrent("common.exportFailed"));
       console.error(error);
     }
   };
@@ -207,54 +215,54 @@ export function PlatformCustomers() {
     <div className="p-4 md:p-6 space-y-6">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
-          <h1 className="text-2xl mb-1">Platform Customers</h1>
-          <p className="text-sm text-muted-foreground">Manage customers from all sales platforms</p>
+          <h1 className="text-2xl mb-1">{t("page.platformCustomers")}</h1>
+          <p className="text-sm text-muted-foreground">{t("platformCustomers.subtitle")}</p>
         </div>
         <Button onClick={exportToExcel} className="gap-2 bg-green-600 hover:bg-green-700" disabled={customersLoading}>
           <FileSpreadsheet className="w-4 h-4" />
-          Export to Excel
+          {t("platformCustomers.exportExcel")}
         </Button>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Total Customers</CardTitle>
+            <CardTitle className="text-sm">{t("platformCustomers.totalCustomers")}</CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">{totalCustomers}</div>
-            <p className="text-xs text-muted-foreground">{activeCustomers} active</p>
+            <div className="text-2xl">{formatNumber(totalCustomers)}</div>
+            <p className="text-xs text-muted-foreground">{t("platformCustomers.activeCount", { count: formatNumber(activeCustomers) })}</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Total Revenue</CardTitle>
+            <CardTitle className="text-sm">{t("platformCustomers.totalRevenue")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {totalRevenue.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground">From all platforms</p>
+            <div className="text-2xl">{formatCurrency(totalRevenue)}</div>
+            <p className="text-xs text-muted-foreground">{t("platformCustomers.fromAllPlatforms")}</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Avg Order Value</CardTitle>
+            <CardTitle className="text-sm">{t("platformCustomers.avgOrderValue")}</CardTitle>
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {averageOrderValue.toFixed(0)}</div>
-            <p className="text-xs text-muted-foreground">Per order average</p>
+            <div className="text-2xl">{formatCurrency(averageOrderValue)}</div>
+            <p className="text-xs text-muted-foreground">{t("platformCustomers.perOrderAverage")}</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Total Orders</CardTitle>
+            <CardTitle className="text-sm">{t("platformCustomers.totalOrders")}</CardTitle>
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">{totalOrdersCount}</div>
-            <p className="text-xs text-muted-foreground">All platforms combined</p>
+            <div className="text-2xl">{formatNumber(totalOrdersCount)}</div>
+            <p className="text-xs text-muted-foreground">{t("platformCustomers.allPlatformsCombined")}</p>
           </CardContent>
         </Card>
       </div>
@@ -263,25 +271,25 @@ export function PlatformCustomers() {
         <CardContent className="pt-6">
           <div className="flex flex-col md:flex-row gap-4">
             <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
-                placeholder="Search by name, phone, or email..."
+                placeholder={t("platformCustomers.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
+                className="ps-9"
               />
             </div>
             <Select value={filterPlatform} onValueChange={setFilterPlatform}>
               <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="Platform" />
+                <SelectValue placeholder={t("platformCustomers.platform")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Platforms</SelectItem>
+                <SelectItem value="all">{t("platformCustomers.allPlatforms")}</SelectItem>
                 {platforms.map((platform) => {
                   const badge = getPlatformBadge(platform);
                   return (
                     <SelectItem key={platform} value={platform}>
-                      {badge.label}
+                      {t(badge.labelKey)}
                     </SelectItem>
                   );
                 })}
@@ -289,10 +297,10 @@ export function PlatformCustomers() {
             </Select>
             <Select value={filterCity} onValueChange={setFilterCity}>
               <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="City" />
+                <SelectValue placeholder={t("platformCustomers.city")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Cities</SelectItem>
+                <SelectItem value="all">{t("platformCustomers.allCities")}</SelectItem>
                 {cities.map((city) => (
                   <SelectItem key={city} value={city}>
                     {city}
@@ -306,30 +314,30 @@ export function PlatformCustomers() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Customers ({filteredCustomers.length})</CardTitle>
-          <CardDescription>View and manage customers from all sales platforms</CardDescription>
+          <CardTitle>{t("platformCustomers.listTitle", { count: formatNumber(filteredCustomers.length) })}</CardTitle>
+          <CardDescription>{t("platformCustomers.listDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Contact</TableHead>
-                  <TableHead>Location</TableHead>
-                  <TableHead>Platform</TableHead>
-                  <TableHead className="text-center">Orders</TableHead>
-                  <TableHead className="text-right">Total Spent</TableHead>
-                  <TableHead>Last Order</TableHead>
-                  <TableHead className="text-center">Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("common.customer")}</TableHead>
+                  <TableHead>{t("platformCustomers.contact")}</TableHead>
+                  <TableHead>{t("platformCustomers.location")}</TableHead>
+                  <TableHead>{t("platformCustomers.platform")}</TableHead>
+                  <TableHead className="text-center">{t("platformCustomers.orders")}</TableHead>
+                  <TableHead className="text-end">{t("platformCustomers.totalSpent")}</TableHead>
+                  <TableHead>{t("platformCustomers.lastOrder")}</TableHead>
+                  <TableHead className="text-center">{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredCustomers.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
-                      {customersLoading ? "Loading customers..." : "No customers found"}
+                      {customersLoading ? t("platformCustomers.loading") : t("platformCustomers.empty")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -340,7 +348,7 @@ export function PlatformCustomers() {
                         <TableCell>
                           <div>
                             <div className="font-medium">{customer.customerName}</div>
-                            <div className="text-xs text-muted-foreground">ID: {customer.id}</div>
+                            <div className="text-xs text-muted-foreground">{t("platformCustomers.idLabel", { id: customer.id })}</div>
                           </div>
                         </TableCell>
                         <TableCell>
@@ -363,19 +371,19 @@ export function PlatformCustomers() {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline" className={`${platformBadge.color} border`}>
-                            {platformBadge.label}
+                            {t(platformBadge.labelKey)}
                           </Badge>
                         </TableCell>
                         <TableCell className="text-center">
-                          <Badge variant="secondary">{customer.totalOrders}</Badge>
+                          <Badge variant="secondary">{formatNumber(customer.totalOrders)}</Badge>
                         </TableCell>
-                        <TableCell className="text-right">
-                          <span className="font-medium">SAR {customer.totalSpent.toLocaleString()}</span>
+                        <TableCell className="text-end">
+                          <span className="font-medium">{formatCurrency(customer.totalSpent)}</span>
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1 text-xs">
                             <Calendar className="w-3 h-3 text-muted-foreground" />
-                            <span>{formatDate(customer.lastOrderDate)}</span>
+                            <span>{formatDate(toIsoString(customer.lastOrderDate))}</span>
                           </div>
                         </TableCell>
                         <TableCell className="text-center">
@@ -383,10 +391,10 @@ export function PlatformCustomers() {
                             variant={customer.status === "active" ? "default" : "secondary"}
                             className={customer.status === "active" ? "bg-green-100 text-green-700" : ""}
                           >
-                            {customer.status}
+                            {t(`status.${customer.status}`)}
                           </Badge>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">
                           <Button
                             variant="ghost"
                             size="icon"
@@ -411,91 +419,91 @@ export function PlatformCustomers() {
       <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Customer Details</DialogTitle>
-            <DialogDescription>Complete information about this customer</DialogDescription>
+            <DialogTitle>{t("platformCustomers.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("platformCustomers.detailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedCustomer && (
             <div className="space-y-6">
               <div>
-                <h4 className="font-semibold mb-3">Personal Information</h4>
+                <h4 className="font-semibold mb-3">{t("platformCustomers.personalInfo")}</h4>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="text-sm text-muted-foreground">Full Name</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.fullName")}</label>
                     <p className="font-medium">{selectedCustomer.customerName}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Customer ID</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.customerId")}</label>
                     <p className="font-medium">#{selectedCustomer.id}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Phone Number</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.phoneNumber")}</label>
                     <p className="font-medium">{selectedCustomer.customerPhone || "-"}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Email Address</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.emailAddress")}</label>
                     <p className="font-medium">{selectedCustomer.customerEmail || "-"}</p>
                   </div>
                   <div className="col-span-2">
-                    <label className="text-sm text-muted-foreground">City</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.city")}</label>
                     <p className="font-medium">{selectedCustomer.city || "-"}</p>
                   </div>
                   <div className="col-span-2">
-                    <label className="text-sm text-muted-foreground">Shipping Address</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.shippingAddress")}</label>
                     <p className="font-medium">{selectedCustomer.shippingAddress || "-"}</p>
                   </div>
                 </div>
               </div>
 
               <div>
-                <h4 className="font-semibold mb-3">Order Statistics</h4>
+                <h4 className="font-semibold mb-3">{t("platformCustomers.orderStatistics")}</h4>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="text-sm text-muted-foreground">Platform</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.platform")}</label>
                     <div className="mt-1">
                       <Badge variant="outline" className={`${getPlatformBadge(selectedCustomer.platform).color} border`}>
-                        {selectedCustomer.platformLabel}
+                        {t(getPlatformBadge(selectedCustomer.platform).labelKey)}
                       </Badge>
                     </div>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Status</label>
+                    <label className="text-sm text-muted-foreground">{t("common.status")}</label>
                     <div className="mt-1">
                       <Badge
                         variant={selectedCustomer.status === "active" ? "default" : "secondary"}
                         className={selectedCustomer.status === "active" ? "bg-green-100 text-green-700" : ""}
                       >
-                        {selectedCustomer.status}
+                        {t(`status.${selectedCustomer.status}`)}
                       </Badge>
                     </div>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Total Orders</label>
-                    <p className="font-medium text-xl">{selectedCustomer.totalOrders}</p>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.totalOrders")}</label>
+                    <p className="font-medium text-xl">{formatNumber(selectedCustomer.totalOrders)}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Total Spent</label>
-                    <p className="font-medium text-xl">SAR {selectedCustomer.totalSpent.toLocaleString()}</p>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.totalSpent")}</label>
+                    <p className="font-medium text-xl">{formatCurrency(selectedCustomer.totalSpent)}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">First Order</label>
-                    <p className="font-medium">{formatDate(selectedCustomer.firstOrderDate)}</p>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.firstOrder")}</label>
+                    <p className="font-medium">{formatDate(toIsoString(selectedCustomer.firstOrderDate))}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Last Order</label>
-                    <p className="font-medium">{formatDate(selectedCustomer.lastOrderDate)}</p>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.lastOrder")}</label>
+                    <p className="font-medium">{formatDate(toIsoString(selectedCustomer.lastOrderDate))}</p>
                   </div>
                   <div>
-                    <label className="text-sm text-muted-foreground">Average Order Value</label>
+                    <label className="text-sm text-muted-foreground">{t("platformCustomers.averageOrderValue")}</label>
                     <p className="font-medium">
-                      SAR {selectedCustomer.totalOrders > 0 ? (selectedCustomer.totalSpent / selectedCustomer.totalOrders).toFixed(2) : "0.00"}
+                      {formatCurrency(selectedCustomer.totalOrders > 0 ? selectedCustomer.totalSpent / selectedCustomer.totalOrders : 0)}
                     </p>
                   </div>
                 </div>
               </div>
 
               <div>
-                <h4 className="font-semibold mb-3">Quick Actions</h4>
+                <h4 className="font-semibold mb-3">{t("platformCustomers.quickActions")}</h4>
                 <div className="flex gap-2">
                   <Button
                     variant="outline"
@@ -506,7 +514,7 @@ export function PlatformCustomers() {
                     }}
                   >
                     <Phone className="w-4 h-4" />
-                    Call
+                    {t("platformCustomers.call")}
                   </Button>
                   <Button
                     variant="outline"
@@ -517,14 +525,14 @@ export function PlatformCustomers() {
                     }}
                   >
                     <Mail className="w-4 h-4" />
-                    Email
+                    {t("common.email")}
                   </Button>
                   <Button
                     variant="outline"
                     className="gap-2"
                     onClick={() => {
                       if (!selectedCustomer.customerPhone) return;
-                      const message = `Hello ${selectedCustomer.customerName}, thank you for being our valued customer!`;
+                      const message = t("platformCustomers.whatsappGreeting", { name: selectedCustomer.customerName });
                       window.open(
                         `https://wa.me/${selectedCustomer.customerPhone.replace(/\s+/g, "")}?text=${encodeURIComponent(message)}`,
                         "_blank"
@@ -532,7 +540,7 @@ export function PlatformCustomers() {
                     }}
                   >
                     <MessageSquare className="w-4 h-4" />
-                    WhatsApp
+                    {t("platformCustomers.whatsapp")}
                   </Button>
                 </div>
               </div>
@@ -16,6 +16,8 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { PlatformOrders as PlatformOrdersRecord, PlatformOrdersInsert } from "../../supabase/models/platform_orders";
 import type { PlatformCustomers as PlatformCustomersRecord, PlatformCustomersInsert, PlatformCustomersUpdate } from "../../supabase/models/platform_customers";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 const DEFAULT_ORDER_STATUS: OrderStatus = "pending";
 const DEFAULT_PAYMENT_STATUS: OrderPaymentStatus = "pending";
@@ -30,27 +32,46 @@ const toIsoString = (value?: string | null) => {
   return date.toISOString();
 };
 
-const formatDate = (value?: string | null) => {
-  const iso = toIsoString(value ?? undefined);
-  if (!iso) return "-";
-  return new Date(iso).toLocaleDateString("en-GB");
+type OrderPlatform = "amazon" | "noon" | "website" | "golden-scent" | "trendyol" | "sales-rep" | "other";
+type OrderStatus = "pending" | "confirmed" | "processing" | "shipped" | "delivered" | "cancelled";
+type OrderPaymentStatus = "pending" | "paid" | "refunded";
+type OrderPaymentMethod = "cod" | "card" | "bank-transfer" | "apple-pay" | "tamara" | "tabby" | "online-payment" | "other";
+
+const PLATFORM_KEYS: Record<OrderPlatform, MessageKey> = {
+  amazon: "platform.amazon",
+  noon: "platform.noon",
+  website: "platform.website",
+  "golden-scent": "platform.goldenScent",
+  trendyol: "platform.trendyol",
+  "sales-rep": "platform.salesRep",
+  other: "platform.other",
 };
 
-const formatTime = (value?: string | null) => {
-  const iso = toIsoString(value ?? undefined);
-  if (!iso) return "";
-  return new Date(iso).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+const ORDER_STATUS_KEYS: Record<OrderStatus, MessageKey> = {
+  pending: "status.pending",
+  confirmed: "platformOrders.status.confirmed",
+  processing: "platformOrders.status.processing",
+  shipped: "platformOrders.status.shipped",
+  delivered: "platformOrders.status.delivered",
+  cancelled: "status.cancelled",
 };
 
-const formatCurrency = (value: number) => {
-  if (!Number.isFinite(value)) return "0";
-  return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const PAYMENT_STATUS_KEYS: Record<OrderPaymentStatus, MessageKey> = {
+  pending: "status.pending",
+  paid: "status.paid",
+  refunded: "platformOrders.paymentStatus.refunded",
 };
 
-type OrderPlatform = "amazon" | "noon" | "website" | "golden-scent" | "trendyol" | "sales-rep" | "other";
-type OrderStatus = "pending" | "confirmed" | "processing" | "shipped" | "delivered" | "cancelled";
-type OrderPaymentStatus = "pending" | "paid" | "refunded";
-type OrderPaymentMethod = "cod" | "card" | "bank-transfer" | "apple-pay" | "tamara" | "tabby" | "online-payment" | "other";
+const PAYMENT_METHOD_KEYS: Record<OrderPaymentMethod, MessageKey> = {
+  cod: "platformOrders.paymentMethod.cod",
+  card: "platformOrders.paymentMethod.card",
+  "bank-transfer": "platformOrders.paymentMethod.bankTransfer",
+  "apple-pay": "platformOrders.paymentMethod.applePay",
+  tamara: "platformOrders.paymentMethod.tamara",
+  tabby: "platformOrders.paymentMethod.tabby",
+  "online-payment": "platformOrders.paymentMethod.onlinePayment",
+  other: "platformOrders.paymentMethod.other",
+};
 
 interface OrderItemForm {
   productId: string;
@@ -117,7 +138,7 @@ const parseOrderMeta = (raw: PlatformOrdersRecord["order_items"]): OrderMeta =>
   return raw as OrderMeta;
 };
 
-const mapOrderRecordToView = (record: PlatformOrdersRecord): OrderView => {
+const mapOrderRecordToView = (record: PlatformOrdersRecord, fallbackCustomerName: string): OrderView => {
   const meta = parseOrderMeta(record.order_items);
   const items = Array.isArray(meta.items) ? meta.items : [];
   const summary = meta.summary ?? {};
@@ -132,7 +153,7 @@ const mapOrderRecordToView = (record: PlatformOrdersRecord): OrderView => {
     id: record.order_id,
     orderNumber: record.order_platform_reference ?? "",
     platform: meta.platform ?? "other",
-    customerName: meta.customer?.name ?? "Customer",
+    customerName: meta.customer?.name ?? fallbackCustomerName,
     customerPhone: meta.customer?.phone ?? "",
     customerEmail: meta.customer?.email ?? "",
     shippingAddress: meta.customer?.address ?? "",
@@ -211,6 +232,7 @@ const computeCustomerStatsFromOrders = (
 
 export function PlatformOrders() {
   const dispatch = useAppDispatch();
+  const { t, formatCurrency, formatDate, formatDateTime } = useLocale();
   const orderRecords = useAppSelector(selectors.platform_orders.selectAll) as PlatformOrdersRecord[];
   const ordersLoading = useAppSelector(selectors.platform_orders.selectLoading);
   const platformCustomersRecords = useAppSelector(selectors.platform_customers.selectAll) as PlatformCustomersRecord[];
@@ -220,7 +242,10 @@ export function PlatformOrders() {
     dispatch(thunks.platform_customers.fetchAll(undefined));
   }, [dispatch]);
 
-  const orders = useMemo(() => orderRecords.map(mapOrderRecordToView), [orderRecords]);
+  const orders = useMemo(
+    () => orderRecords.map((record) => mapOrderRecordToView(record, t("common.customer"))),
+    [orderRecords, t]
+  );
 
   const [searchQuery, setSearchQuery] = useState("");
   const [filterPlatform, setFilterPlatform] = useState<string>("all");
@@ -361,7 +386,7 @@ export function PlatformOrders() {
           await dispatch(thunks.platform_customers.createOne(baseValues)).unwrap();
         }
       } catch (error: any) {
-        const message = error?.message || error?.error?.message || "Failed to sync platform customer";
+        const message = error?.message || error?.error?.message || translateCurrent("platformOrders.syncCustomerFailed");
         toast.error(message);
       }
     },
@@ -371,7 +396,7 @@ export function PlatformOrders() {
   // Sync all orders to create/update customers
   const syncAllCustomers = useCallback(async () => {
     try {
-      toast.loading("Syncing customers from all orders...");
+      toast.loading(t("platformOrders.syncingCustomers"));
       // Get unique customer identifiers from all orders
       const customerMap = new Map<string, PlatformOrdersRecord>();
       
@@ -406,17 +431,17 @@ export function PlatformOrders() {
       // Refetch customers to show updated list
       await dispatch(thunks.platform_customers.fetchAll(undefined));
       toast.dismiss();
-      toast.success(`Synced ${synced} customers from ${orderRecords.length} orders`);
+      toast.success(translateCurrent("platformOrders.customersSynced", { customers: synced, orders: orderRecords.length }));
     } catch (error: any) {
       toast.dismiss();
-      const message = error?.message || error?.error?.message || "Failed to sync customers";
+      const message = error?.message || error?.error?.message || translateCurrent("platformOrders.syncCustomersFailed");
       toast.error(message);
     }
-  }, [orderRecords, ensureCustomerForOrder, dispatch]);
+  }, [orderRecords, ensureCustomerForOrder, dispatch, t]);
 
   const handleAddItem = () => {
     if (!newItem.productName || !newItem.sku || newItem.quantity <= 0 || newItem.price <= 0) {
-      toast.error("Please fill all item fields");
+      toast.error(t("platformOrders.itemFieldsRequired"));
       return;
     }
 
@@ -431,7 +456,7 @@ export function PlatformOrders() {
 
     setOrderItems((prev) => [...prev, item]);
     setNewItem({ productName: "", sku: "", quantity: 1, price: 0 });
-    toast.success("Item added");
+    toast.success(t("platformOrders.itemAdded"));
   };
 
   const handleRemoveItem = (index: number) => {
@@ -440,7 +465,7 @@ export function PlatformOrders() {
 
   const handleAddOrder = async () => {
     if (!newOrderForm.customerName || !newOrderForm.customerPhone || !newOrderForm.city || orderItems.length === 0) {
-      toast.error("Please fill all required fields and add at least one item");
+      toast.error(t("platformOrders.requiredFields"));
       return;
     }
 
@@ -500,13 +525,13 @@ export function PlatformOrders() {
 
     try {
       const created = await dispatch(thunks.platform_orders.createOne(payload)).unwrap();
-      toast.success("Order added successfully");
+      toast.success(translateCurrent("platformOrders.added"));
       setIsAddDialogOpen(false);
       resetNewOrderForm();
       // Always sync customer for all orders (stats will only count confirmed/paid)
       await ensureCustomerForOrder(created);
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to add order";
+      const message = error?.message || error?.error?.message || translateCurrent("platformOrders.addFailed");
       toast.error(message);
     }
   };
@@ -522,14 +547,14 @@ export function PlatformOrders() {
           },
         })
       ).unwrap();
-      toast.success("Order status updated");
+      toast.success(translateCurrent("platformOrders.statusUpdated"));
       // Refetch orders to ensure we have latest data, then sync customer stats
       await dispatch(thunks.platform_orders.fetchAll(undefined));
       // Use updated record merged with existing orders for calculation
       const ordersForCalc = orderRecords.map(o => o.order_id === updated.order_id ? updated : o);
       await ensureCustomerForOrder(updated, ordersForCalc);
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to update status";
+      const message = error?.message || error?.error?.message || translateCurrent("platformOrders.statusUpdateFailed");
       toast.error(message);
     }
   };
@@ -545,14 +570,14 @@ export function PlatformOrders() {
           },
         })
       ).unwrap();
-      toast.success("Payment status updated");
+      toast.success(translateCurrent("platformOrders.paymentStatusUpdated"));
       // Refetch orders to ensure we have latest data, then sync customer stats
       await dispatch(thunks.platform_orders.fetchAll(undefined));
       // Use updated record merged with existing orders for calculation
       const ordersForCalc = orderRecords.map(o => o.order_id === updated.order_id ? updated : o);
       await ensureCustomerForOrder(updated, ordersForCalc);
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to update payment status";
+      const message = error?.message || error?.error?.message || translateCurrent("platformOrders.paymentStatusUpdateFailed");
       toast.error(message);
     }
   };
@@ -578,7 +603,7 @@ export function PlatformOrders() {
           values: updates,
         })
       ).unwrap();
-      toast.success("Order updated successfully");
+      toast.success(translateCurrent("platformOrders.updated"));
       setIsStatusDialogOpen(false);
       // Refetch orders to ensure we have latest data, then sync customer stats
       await dispatch(thunks.platform_orders.fetchAll(undefined));
@@ -586,7 +611,7 @@ export function PlatformOrders() {
       const ordersForCalc = orderRecords.map(o => o.order_id === updated.order_id ? updated : o);
       await ensureCustomerForOrder(updated, ordersForCalc);
     } catch (error: any) {
-      const message = error?.message || error?.error?.message || "Failed to update order";
+      const message = error?.message || error?.error?.message || translateCurrent("platformOrders.updateFailed");
       toast.error(message);
     }
   };
@@ -603,13 +628,13 @@ export function PlatformOrders() {
 
   const getPlatformBadge = (platform: string) => {
     const badges = {
-      amazon: { color: "bg-orange-100 text-orange-700 border-orange-200", label: "Amazon" },
-      noon: { color: "bg-yellow-100 text-yellow-700 border-yellow-200", label: "Noon" },
-      website: { color: "bg-blue-100 text-blue-700 border-blue-200", label: "Website" },
-      "golden-scent": { color: "bg-amber-100 text-amber-700 border-amber-200", label: "Golden Scent" },
-      trendyol: { color: "bg-purple-100 text-purple-700 border-purple-200", label: "Trendyol" },
-      "sales-rep": { color: "bg-green-100 text-green-700 border-green-200", label: "Sales Rep" },
-      other: { color: "bg-gray-100 text-gray-700 border-gray-200", label: "Other" },
+      amazon: { color: "bg-orange-100 text-orange-700 border-orange-200", label: t(PLATFORM_KEYS.amazon) },
+      noon: { color: "bg-yellow-100 text-yellow-700 border-yellow-200", label: t(PLATFORM_KEYS.noon) },
+      website: { color: "bg-blue-100 text-blue-700 border-blue-200", label: t(PLATFORM_KEYS.website) },
+      "golden-scent": { color: "bg-amber-100 text-amber-700 border-amber-200", label: t(PLATFORM_KEYS["golden-scent"]) },
+      trendyol: { color: "bg-purple-100 text-purple-700 border-purple-200", label: t(PLATFORM_KEYS.trendyol) },
+      "sales-rep": { color: "bg-green-100 text-green-700 border-green-200", label: t(PLATFORM_KEYS["sales-rep"]) },
+      other: { color: "bg-gray-100 text-gray-700 border-gray-200", label: t(PLATFORM_KEYS.other) },
     } as const;
     return badges[platform as keyof typeof badges] ?? badges.other;
   };
@@ -652,30 +677,30 @@ export function PlatformOrders() {
       XLSX.utils.book_append_sheet(wb, ws, "Platform Orders");
       const fileName = `platform_orders_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
 
   const getStatusBadge = (status: string) => {
     const badges = {
-      pending: { variant: "secondary" as const, label: "Pending" },
-      confirmed: { variant: "default" as const, label: "Confirmed" },
-      processing: { variant: "default" as const, label: "Processing" },
-      shipped: { variant: "default" as const, label: "Shipped" },
-      delivered: { variant: "default" as const, label: "Delivered" },
-      cancelled: { variant: "destructive" as const, label: "Cancelled" },
+      pending: { variant: "secondary" as const, label: t(ORDER_STATUS_KEYS.pending) },
+      confirmed: { variant: "default" as const, label: t(ORDER_STATUS_KEYS.confirmed) },
+      processing: { variant: "default" as const, label: t(ORDER_STATUS_KEYS.processing) },
+      shipped: { variant: "default" as const, label: t(ORDER_STATUS_KEYS.shipped) },
+      delivered: { variant: "default" as const, label: t(ORDER_STATUS_KEYS.delivered) },
+      cancelled: { variant: "destructive" as const, label: t(ORDER_STATUS_KEYS.cancelled) },
     };
     return badges[status as keyof typeof badges] ?? badges.pending;
   };
 
   const getPaymentStatusBadge = (status: string) => {
     const badges = {
-      pending: { color: "bg-gray-100 text-gray-700", label: "Pending" },
-      paid: { color: "bg-green-100 text-green-700", label: "Paid" },
-      refunded: { color: "bg-red-100 text-red-700", label: "Refunded" },
+      pending: { color: "bg-gray-100 text-gray-700", label: t(PAYMENT_STATUS_KEYS.pending) },
+      paid: { color: "bg-green-100 text-green-700", label: t(PAYMENT_STATUS_KEYS.paid) },
+      refunded: { color: "bg-red-100 text-red-700", label: t(PAYMENT_STATUS_KEYS.refunded) },
     };
     return badges[status as keyof typeof badges] ?? badges.pending;
   };
@@ -683,52 +708,52 @@ export function PlatformOrders() {
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="text-2xl font-semibold tracking-tight">Platform Orders</h2>
-        <p className="text-muted-foreground mt-1">Manage orders from Amazon, Noon, and your website</p>
+        <h2 className="text-2xl font-semibold tracking-tight">{t("platformOrders.title")}</h2>
+        <p className="text-muted-foreground mt-1">{t("platformOrders.subtitle")}</p>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Orders</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("platformOrders.totalOrders")}</CardTitle>
             <ShoppingCart className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{totalOrdersCount}</div>
-            <p className="text-xs text-muted-foreground">Across all platforms</p>
+            <p className="text-xs text-muted-foreground">{t("platformOrders.acrossAllPlatforms")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Pending Orders</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("platformOrders.pendingOrders")}</CardTitle>
             <Clock className="h-4 w-4 text-orange-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-orange-600">{pendingOrders}</div>
-            <p className="text-xs text-muted-foreground">Awaiting confirmation</p>
+            <p className="text-xs text-muted-foreground">{t("platformOrders.awaitingConfirmation")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Processing</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("platformOrders.status.processing")}</CardTitle>
             <Package className="h-4 w-4 text-blue-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-blue-600">{processingOrders}</div>
-            <p className="text-xs text-muted-foreground">Being prepared</p>
+            <p className="text-xs text-muted-foreground">{t("platformOrders.beingPrepared")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("platformOrders.totalRevenue")}</CardTitle>
             <Package className="h-4 w-4 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{formatCurrency(totalRevenue)} ر.س</div>
-            <p className="text-xs text-muted-foreground">Paid orders</p>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(totalRevenue)}</div>
+            <p className="text-xs text-muted-foreground">{t("platformOrders.paidOrders")}</p>
           </CardContent>
         </Card>
       </div>
@@ -737,21 +762,21 @@ export function PlatformOrders() {
         <CardHeader>
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
             <div>
-              <CardTitle>Orders List</CardTitle>
-              <CardDescription>View and manage all platform orders</CardDescription>
+              <CardTitle>{t("platformOrders.listTitle")}</CardTitle>
+              <CardDescription>{t("platformOrders.listDescription")}</CardDescription>
             </div>
             <div className="flex gap-2">
               <Button onClick={syncAllCustomers} variant="outline" className="gap-2" disabled={ordersLoading}>
                 <RefreshCcw className="h-4 w-4" />
-                Sync Customers
+                {t("platformOrders.syncCustomers")}
               </Button>
               <Button onClick={exportToExcel} variant="outline" className="gap-2">
                 <Download className="h-4 w-4" />
-                Export Excel
+                {t("common.exportExcel")}
               </Button>
               <Button onClick={() => setIsAddDialogOpen(true)} disabled={ordersLoading}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add New Order
+                <Plus className="me-2 h-4 w-4" />
+                {t("platformOrders.addOrder")}
               </Button>
             </div>
           </div>
@@ -759,41 +784,41 @@ export function PlatformOrders() {
         <CardContent className="space-y-4">
           <div className="flex flex-col md:flex-row gap-4">
             <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search orders..."
+                placeholder={t("platformOrders.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
+                className="ps-9"
               />
             </div>
             <Select value={filterPlatform} onValueChange={setFilterPlatform}>
               <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="Platform" />
+                <SelectValue placeholder={t("platformOrders.platform")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Platforms</SelectItem>
-                <SelectItem value="noon">Noon</SelectItem>
-                <SelectItem value="amazon">Amazon</SelectItem>
-                <SelectItem value="website">Website</SelectItem>
-                <SelectItem value="golden-scent">Golden Scent</SelectItem>
-                <SelectItem value="trendyol">Trendyol</SelectItem>
-                <SelectItem value="sales-rep">Sales Rep</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
+                <SelectItem value="all">{t("platformOrders.allPlatforms")}</SelectItem>
+                <SelectItem value="noon">{t(PLATFORM_KEYS.noon)}</SelectItem>
+                <SelectItem value="amazon">{t(PLATFORM_KEYS.amazon)}</SelectItem>
+                <SelectItem value="website">{t(PLATFORM_KEYS.website)}</SelectItem>
+                <SelectItem value="golden-scent">{t(PLATFORM_KEYS["golden-scent"])}</SelectItem>
+                <SelectItem value="trendyol">{t(PLATFORM_KEYS.trendyol)}</SelectItem>
+                <SelectItem value="sales-rep">{t(PLATFORM_KEYS["sales-rep"])}</SelectItem>
+                <SelectItem value="other">{t(PLATFORM_KEYS.other)}</SelectItem>
               </SelectContent>
             </Select>
             <Select value={filterStatus} onValueChange={setFilterStatus}>
               <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="Status" />
+                <SelectValue placeholder={t("common.status")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="confirmed">Confirmed</SelectItem>
-                <SelectItem value="processing">Processing</SelectItem>
-                <SelectItem value="shipped">Shipped</SelectItem>
-                <SelectItem value="delivered">Delivered</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                <SelectItem value="confirmed">{t(ORDER_STATUS_KEYS.confirmed)}</SelectItem>
+                <SelectItem value="processing">{t(ORDER_STATUS_KEYS.processing)}</SelectItem>
+                <SelectItem value="shipped">{t(ORDER_STATUS_KEYS.shipped)}</SelectItem>
+                <SelectItem value="delivered">{t(ORDER_STATUS_KEYS.delivered)}</SelectItem>
+                <SelectItem value="cancelled">{t(ORDER_STATUS_KEYS.cancelled)}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -802,23 +827,23 @@ export function PlatformOrders() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Order #</TableHead>
-                  <TableHead>Platform</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Items</TableHead>
-                  <TableHead>Total</TableHead>
-                  <TableHead>Payment</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead>Last Modified</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("platformOrders.orderNumberShort")}</TableHead>
+                  <TableHead>{t("platformOrders.platform")}</TableHead>
+                  <TableHead>{t("common.customer")}</TableHead>
+                  <TableHead>{t("platformOrders.items")}</TableHead>
+                  <TableHead>{t("common.total")}</TableHead>
+                  <TableHead>{t("platformOrders.payment")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("platformOrders.created")}</TableHead>
+                  <TableHead>{t("platformOrders.lastModified")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredOrders.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
-                      {ordersLoading ? "Loading orders..." : "No orders found"}
+                      {ordersLoading ? t("platformOrders.loading") : t("platformOrders.empty")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -839,8 +864,8 @@ export function PlatformOrders() {
                             <div className="text-sm text-muted-foreground">{order.customerPhone}</div>
                           </div>
                         </TableCell>
-                        <TableCell>{order.items.length} item(s)</TableCell>
-                        <TableCell className="font-medium">{formatCurrency(order.total)} ر.س</TableCell>
+                        <TableCell>{t("platformOrders.itemCount", { count: order.items.length })}</TableCell>
+                        <TableCell className="font-medium">{formatCurrency(order.total)}</TableCell>
                         <TableCell>
                           <Badge className={paymentBadge.color}>{paymentBadge.label}</Badge>
                         </TableCell>
@@ -848,14 +873,12 @@ export function PlatformOrders() {
                           <Badge variant={statusBadge.variant}>{statusBadge.label}</Badge>
                         </TableCell>
                         <TableCell>
-                          <div className="text-sm">{formatDate(order.createdAt)}</div>
-                          <div className="text-xs text-muted-foreground">{formatTime(order.createdAt)}</div>
+                          <div className="text-sm">{formatDateTime(toIsoString(order.createdAt))}</div>
                         </TableCell>
                         <TableCell>
-                          <div className="text-sm">{formatDate(order.lastModified)}</div>
-                          <div className="text-xs text-muted-foreground">{formatTime(order.lastModified)}</div>
+                          <div className="text-sm">{formatDateTime(toIsoString(order.lastModified))}</div>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">
                           <div className="flex gap-1 justify-end">
                             <Button
                               variant="ghost"
@@ -888,19 +911,19 @@ export function PlatformOrders() {
       <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh]">
           <DialogHeader>
-            <DialogTitle>Order Details</DialogTitle>
-            <DialogDescription>View complete order information</DialogDescription>
+            <DialogTitle>{t("platformOrders.detailsTitle")}</DialogTitle>
+            <DialogDescription>{t("platformOrders.detailsDescription")}</DialogDescription>
           </DialogHeader>
           {selectedOrder && (
-            <ScrollArea className="max-h-[70vh] pr-4">
+            <ScrollArea className="max-h-[70vh] pe-4">
               <div className="space-y-6">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-muted-foreground">Order Number</Label>
+                    <Label className="text-muted-foreground">{t("platformOrders.orderNumber")}</Label>
                     <p className="font-medium">{selectedOrder.orderNumber}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Platform</Label>
+                    <Label className="text-muted-foreground">{t("platformOrders.platform")}</Label>
                     <div className="mt-1">
                       <Badge className={getPlatformBadge(selectedOrder.platform).color}>
                         {getPlatformBadge(selectedOrder.platform).label}
@@ -908,48 +931,48 @@ export function PlatformOrders() {
                     </div>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Order Date</Label>
-                    <p className="font-medium">{formatDate(selectedOrder.orderDate)}</p>
+                    <Label className="text-muted-foreground">{t("platformOrders.orderDate")}</Label>
+                    <p className="font-medium">{formatDate(toIsoString(selectedOrder.orderDate))}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Payment Method</Label>
-                    <p className="font-medium">{selectedOrder.paymentMethod}</p>
+                    <Label className="text-muted-foreground">{t("platformOrders.paymentMethod")}</Label>
+                    <p className="font-medium">{t(PAYMENT_METHOD_KEYS[selectedOrder.paymentMethod] ?? PAYMENT_METHOD_KEYS.other)}</p>
                   </div>
                 </div>
 
                 <div>
-                  <h4 className="font-semibold mb-3">Customer Information</h4>
+                  <h4 className="font-semibold mb-3">{t("platformOrders.customerInformation")}</h4>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label className="text-muted-foreground">Name</Label>
+                      <Label className="text-muted-foreground">{t("platformOrders.name")}</Label>
                       <p className="font-medium">{selectedOrder.customerName}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Phone</Label>
+                      <Label className="text-muted-foreground">{t("common.phone")}</Label>
                       <p className="font-medium">{selectedOrder.customerPhone}</p>
                     </div>
                     <div className="col-span-2">
-                      <Label className="text-muted-foreground">Email</Label>
+                      <Label className="text-muted-foreground">{t("common.email")}</Label>
                       <p className="font-medium">{selectedOrder.customerEmail || "-"}</p>
                     </div>
                     <div className="col-span-2">
-                      <Label className="text-muted-foreground">Shipping Address</Label>
+                      <Label className="text-muted-foreground">{t("platformOrders.shippingAddress")}</Label>
                       <p className="font-medium">{selectedOrder.shippingAddress}, {selectedOrder.city}</p>
                     </div>
                   </div>
                 </div>
 
                 <div>
-                  <h4 className="font-semibold mb-3">Order Items</h4>
+                  <h4 className="font-semibold mb-3">{t("platformOrders.orderItems")}</h4>
                   <div className="border rounded-lg">
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Product</TableHead>
-                          <TableHead>SKU</TableHead>
-                          <TableHead>Qty</TableHead>
-                          <TableHead>Price</TableHead>
-                          <TableHead>Total</TableHead>
+                          <TableHead>{t("platformOrders.product")}</TableHead>
+                          <TableHead>{t("platformOrders.sku")}</TableHead>
+                          <TableHead>{t("platformOrders.qty")}</TableHead>
+                          <TableHead>{t("platformOrders.price")}</TableHead>
+                          <TableHead>{t("common.total")}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -958,8 +981,8 @@ export function PlatformOrders() {
                             <TableCell className="font-medium">{item.productName}</TableCell>
                             <TableCell className="text-sm text-muted-foreground">{item.sku}</TableCell>
                             <TableCell>{item.quantity}</TableCell>
-                            <TableCell>{formatCurrency(item.price)} ر.س</TableCell>
-                            <TableCell className="font-medium">{formatCurrency(item.total)} ر.س</TableCell>
+                            <TableCell>{formatCurrency(item.price)}</TableCell>
+                            <TableCell className="font-medium">{formatCurrency(item.total)}</TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
@@ -968,30 +991,30 @@ export function PlatformOrders() {
                 </div>
 
                 <div>
-                  <h4 className="font-semibold mb-3">Order Summary</h4>
+                  <h4 className="font-semibold mb-3">{t("platformOrders.orderSummary")}</h4>
                   <div className="space-y-2">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Subtotal</span>
-                      <span className="font-medium">{formatCurrency(selectedOrder.subtotal)} ر.س</span>
+                      <span className="text-muted-foreground">{t("platformOrders.subtotal")}</span>
+                      <span className="font-medium">{formatCurrency(selectedOrder.subtotal)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Shipping</span>
-                      <span className="font-medium">{formatCurrency(selectedOrder.shipping)} ر.س</span>
+                      <span className="text-muted-foreground">{t("platformOrders.shipping")}</span>
+                      <span className="font-medium">{formatCurrency(selectedOrder.shipping)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Tax (15%)</span>
-                      <span className="font-medium">{formatCurrency(selectedOrder.tax)} ر.س</span>
+                      <span className="text-muted-foreground">{t("platformOrders.tax")}</span>
+                      <span className="font-medium">{formatCurrency(selectedOrder.tax)}</span>
                     </div>
                     <div className="flex justify-between pt-2 border-t">
-                      <span className="font-semibold">Total</span>
-                      <span className="font-bold text-lg">{formatCurrency(selectedOrder.total)} ر.س</span>
+                      <span className="font-semibold">{t("common.total")}</span>
+                      <span className="font-bold text-lg">{formatCurrency(selectedOrder.total)}</span>
                     </div>
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label>Order Status</Label>
+                    <Label>{t("platformOrders.orderStatus")}</Label>
                     <Select
                       value={selectedOrder.status}
                       onValueChange={(value) => handleUpdateStatus(selectedOrder.id, value as OrderStatus)}
@@ -1000,17 +1023,17 @@ export function PlatformOrders() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="confirmed">Confirmed</SelectItem>
-                        <SelectItem value="processing">Processing</SelectItem>
-                        <SelectItem value="shipped">Shipped</SelectItem>
-                        <SelectItem value="delivered">Delivered</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
+                        <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                        <SelectItem value="confirmed">{t(ORDER_STATUS_KEYS.confirmed)}</SelectItem>
+                        <SelectItem value="processing">{t(ORDER_STATUS_KEYS.processing)}</SelectItem>
+                        <SelectItem value="shipped">{t(ORDER_STATUS_KEYS.shipped)}</SelectItem>
+                        <SelectItem value="delivered">{t(ORDER_STATUS_KEYS.delivered)}</SelectItem>
+                        <SelectItem value="cancelled">{t(ORDER_STATUS_KEYS.cancelled)}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   <div>
-                    <Label>Payment Status</Label>
+                    <Label>{t("platformOrders.paymentStatus")}</Label>
                     <Select
                       value={selectedOrder.paymentStatus}
                       onValueChange={(value) => handleUpdatePaymentStatus(selectedOrder.id, value as OrderPaymentStatus)}
@@ -1019,9 +1042,9 @@ export function PlatformOrders() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="paid">Paid</SelectItem>
-                        <SelectItem value="refunded">Refunded</SelectItem>
+                        <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                        <SelectItem value="paid">{t(PAYMENT_STATUS_KEYS.paid)}</SelectItem>
+                        <SelectItem value="refunded">{t(PAYMENT_STATUS_KEYS.refunded)}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -1029,7 +1052,7 @@ export function PlatformOrders() {
 
                 {selectedOrder.trackingNumber && (
                   <div>
-                    <Label className="text-muted-foreground">Tracking Number</Label>
+                    <Label className="text-muted-foreground">{t("platformOrders.trackingNumber")}</Label>
                     <div className="flex items-center gap-2 mt-1">
                       <p className="font-medium font-mono">{selectedOrder.trackingNumber}</p>
                       <Button variant="ghost" size="icon">
@@ -1041,7 +1064,7 @@ export function PlatformOrders() {
 
                 {selectedOrder.notes && (
                   <div>
-                    <Label className="text-muted-foreground">Notes</Label>
+                    <Label className="text-muted-foreground">{t("common.notes")}</Label>
                     <p className="mt-1 text-sm">{selectedOrder.notes}</p>
                   </div>
                 )}
@@ -1050,11 +1073,11 @@ export function PlatformOrders() {
           )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDetailsDialogOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
             <Button>
-              <Download className="mr-2 h-4 w-4" />
-              Print Invoice
+              <Download className="me-2 h-4 w-4" />
+              {t("platformOrders.printInvoice")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1063,37 +1086,37 @@ export function PlatformOrders() {
       <Dialog open={isStatusDialogOpen} onOpenChange={setIsStatusDialogOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Update Order Status</DialogTitle>
-            <DialogDescription>Update both order and payment status</DialogDescription>
+            <DialogTitle>{t("platformOrders.statusDialogTitle")}</DialogTitle>
+            <DialogDescription>{t("platformOrders.statusDialogDescription")}</DialogDescription>
           </DialogHeader>
           {selectedOrder && (
             <div className="space-y-4 py-4">
               <div>
-                <Label>Order Status</Label>
+                <Label>{t("platformOrders.orderStatus")}</Label>
                 <Select value={statusDraft} onValueChange={(value) => setStatusDraft(value as OrderStatus)}>
                   <SelectTrigger className="mt-1">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="confirmed">Confirmed</SelectItem>
-                    <SelectItem value="processing">Processing</SelectItem>
-                    <SelectItem value="shipped">Shipped</SelectItem>
-                    <SelectItem value="delivered">Delivered</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                    <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                    <SelectItem value="confirmed">{t(ORDER_STATUS_KEYS.confirmed)}</SelectItem>
+                    <SelectItem value="processing">{t(ORDER_STATUS_KEYS.processing)}</SelectItem>
+                    <SelectItem value="shipped">{t(ORDER_STATUS_KEYS.shipped)}</SelectItem>
+                    <SelectItem value="delivered">{t(ORDER_STATUS_KEYS.delivered)}</SelectItem>
+                    <SelectItem value="cancelled">{t(ORDER_STATUS_KEYS.cancelled)}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               <div>
-                <Label>Payment Status</Label>
+                <Label>{t("platformOrders.paymentStatus")}</Label>
                 <Select value={paymentStatusDraft} onValueChange={(value) => setPaymentStatusDraft(value as OrderPaymentStatus)}>
                   <SelectTrigger className="mt-1">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="paid">Paid</SelectItem>
-                    <SelectItem value="refunded">Refunded</SelectItem>
+                    <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                    <SelectItem value="paid">{t(PAYMENT_STATUS_KEYS.paid)}</SelectItem>
+                    <SelectItem value="refunded">{t(PAYMENT_STATUS_KEYS.refunded)}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -1101,10 +1124,10 @@ export function PlatformOrders() {
           )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsStatusDialogOpen(false)}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleUpdateBothStatuses}>
-              Save Changes
+              {t("common.saveChanges")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1116,14 +1139,14 @@ export function PlatformOrders() {
       }}>
         <DialogContent className="max-w-7xl max-h-[95vh] w-[95vw]">
           <DialogHeader>
-            <DialogTitle>Add New Order</DialogTitle>
-            <DialogDescription>Create a new order from platform</DialogDescription>
+            <DialogTitle>{t("platformOrders.addOrder")}</DialogTitle>
+            <DialogDescription>{t("platformOrders.addDescription")}</DialogDescription>
           </DialogHeader>
-          <ScrollArea className="max-h-[75vh] pr-4">
+          <ScrollArea className="max-h-[75vh] pe-4">
             <div className="space-y-6">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label>Platform *</Label>
+                  <Label>{t("platformOrders.platformRequired")}</Label>
                   <Select
                     value={newOrderForm.platform}
                     onValueChange={(value) => setNewOrderForm((prev) => ({ ...prev, platform: value as OrderPlatform }))}
@@ -1132,18 +1155,18 @@ export function PlatformOrders() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="noon">Noon</SelectItem>
-                      <SelectItem value="amazon">Amazon</SelectItem>
-                      <SelectItem value="website">Website</SelectItem>
-                      <SelectItem value="golden-scent">Golden Scent</SelectItem>
-                      <SelectItem value="trendyol">Trendyol</SelectItem>
-                      <SelectItem value="sales-rep">Sales Rep</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      <SelectItem value="noon">{t(PLATFORM_KEYS.noon)}</SelectItem>
+                      <SelectItem value="amazon">{t(PLATFORM_KEYS.amazon)}</SelectItem>
+                      <SelectItem value="website">{t(PLATFORM_KEYS.website)}</SelectItem>
+                      <SelectItem value="golden-scent">{t(PLATFORM_KEYS["golden-scent"])}</SelectItem>
+                      <SelectItem value="trendyol">{t(PLATFORM_KEYS.trendyol)}</SelectItem>
+                      <SelectItem value="sales-rep">{t(PLATFORM_KEYS["sales-rep"])}</SelectItem>
+                      <SelectItem value="other">{t(PLATFORM_KEYS.other)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
-                  <Label>Payment Method *</Label>
+                  <Label>{t("platformOrders.paymentMethodRequired")}</Label>
                   <Select
                     value={newOrderForm.paymentMethod}
                     onValueChange={(value) => setNewOrderForm((prev) => ({ ...prev, paymentMethod: value as OrderPaymentMethod }))}
@@ -1152,35 +1175,35 @@ export function PlatformOrders() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="cod">Cash on Delivery</SelectItem>
-                      <SelectItem value="card">Card</SelectItem>
-                      <SelectItem value="bank-transfer">Bank Transfer</SelectItem>
-                      <SelectItem value="apple-pay">Apple Pay</SelectItem>
-                      <SelectItem value="tamara">Tamara</SelectItem>
-                      <SelectItem value="tabby">Tabby</SelectItem>
-                      <SelectItem value="online-payment">Online Payment</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      <SelectItem value="cod">{t(PAYMENT_METHOD_KEYS["cod"])}</SelectItem>
+                      <SelectItem value="card">{t(PAYMENT_METHOD_KEYS["card"])}</SelectItem>
+                      <SelectItem value="bank-transfer">{t(PAYMENT_METHOD_KEYS["bank-transfer"])}</SelectItem>
+                      <SelectItem value="apple-pay">{t(PAYMENT_METHOD_KEYS["apple-pay"])}</SelectItem>
+                      <SelectItem value="tamara">{t(PAYMENT_METHOD_KEYS["tamara"])}</SelectItem>
+                      <SelectItem value="tabby">{t(PAYMENT_METHOD_KEYS["tabby"])}</SelectItem>
+                      <SelectItem value="online-payment">{t(PAYMENT_METHOD_KEYS["online-payment"])}</SelectItem>
+                      <SelectItem value="other">{t(PAYMENT_METHOD_KEYS.other)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
-                  <Label>Initial Order Status</Label>
+                  <Label>{t("platformOrders.initialOrderStatus")}</Label>
                   <Select value={newOrderForm.status} onValueChange={(value) => setNewOrderForm((prev) => ({ ...prev, status: value as OrderStatus }))}>
                     <SelectTrigger className="mt-1">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="confirmed">Confirmed</SelectItem>
-                      <SelectItem value="processing">Processing</SelectItem>
-                      <SelectItem value="shipped">Shipped</SelectItem>
-                      <SelectItem value="delivered">Delivered</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                      <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                      <SelectItem value="confirmed">{t(ORDER_STATUS_KEYS.confirmed)}</SelectItem>
+                      <SelectItem value="processing">{t(ORDER_STATUS_KEYS.processing)}</SelectItem>
+                      <SelectItem value="shipped">{t(ORDER_STATUS_KEYS.shipped)}</SelectItem>
+                      <SelectItem value="delivered">{t(ORDER_STATUS_KEYS.delivered)}</SelectItem>
+                      <SelectItem value="cancelled">{t(ORDER_STATUS_KEYS.cancelled)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
-                  <Label>Initial Payment Status</Label>
+                  <Label>{t("platformOrders.initialPaymentStatus")}</Label>
                   <Select
                     value={newOrderForm.paymentStatus}
                     onValueChange={(value) =>
@@ -1191,28 +1214,28 @@ export function PlatformOrders() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="paid">Paid</SelectItem>
-                      <SelectItem value="refunded">Refunded</SelectItem>
+                      <SelectItem value="pending">{t("status.pending")}</SelectItem>
+                      <SelectItem value="paid">{t(PAYMENT_STATUS_KEYS.paid)}</SelectItem>
+                      <SelectItem value="refunded">{t(PAYMENT_STATUS_KEYS.refunded)}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div>
-                <h4 className="font-semibold mb-3">Customer Information</h4>
+                <h4 className="font-semibold mb-3">{t("platformOrders.customerInformation")}</h4>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label>Customer Name *</Label>
+                    <Label>{t("platformOrders.customerNameRequired")}</Label>
                     <Input
                       value={newOrderForm.customerName}
                       onChange={(e) => setNewOrderForm((prev) => ({ ...prev, customerName: e.target.value }))}
-                      placeholder="Enter customer name"
+                      placeholder={t("platformOrders.customerNamePlaceholder")}
                       className="mt-1"
                     />
                   </div>
                   <div>
-                    <Label>Phone *</Label>
+                    <Label>{t("platformOrders.phoneRequired")}</Label>
                     <Input
                       value={newOrderForm.customerPhone}
                       onChange={(e) => setNewOrderForm((prev) => ({ ...prev, customerPhone: e.target.value }))}
@@ -1221,7 +1244,7 @@ export function PlatformOrders() {
                     />
                   </div>
                   <div className="col-span-2">
-                    <Label>Email</Label>
+                    <Label>{t("common.email")}</Label>
                     <Input
                       value={newOrderForm.customerEmail}
                       onChange={(e) => setNewOrderForm((prev) => ({ ...prev, customerEmail: e.target.value }))}
@@ -1230,25 +1253,25 @@ export function PlatformOrders() {
                     />
                   </div>
                   <div className="col-span-2">
-                    <Label>Shipping Address</Label>
+                    <Label>{t("platformOrders.shippingAddress")}</Label>
                     <Input
                       value={newOrderForm.shippingAddress}
                       onChange={(e) => setNewOrderForm((prev) => ({ ...prev, shippingAddress: e.target.value }))}
-                      placeholder="Street address"
+                      placeholder={t("platformOrders.addressPlaceholder")}
                       className="mt-1"
                     />
                   </div>
                   <div>
-                    <Label>City *</Label>
+                    <Label>{t("platformOrders.cityRequired")}</Label>
                     <Input
                       value={newOrderForm.city}
                       onChange={(e) => setNewOrderForm((prev) => ({ ...prev, city: e.target.value }))}
-                      placeholder="City"
+                      placeholder={t("platformOrders.cityPlaceholder")}
                       className="mt-1"
                     />
                   </div>
                   <div>
-                    <Label>Shipping Cost (ر.س)</Label>
+                    <Label>{t("platformOrders.shippingCost")}</Label>
                     <Input
                       type="number"
                       value={newOrderForm.shipping}
@@ -1263,30 +1286,30 @@ export function PlatformOrders() {
               </div>
 
               <div>
-                <h4 className="font-semibold mb-3">Order Items</h4>
+                <h4 className="font-semibold mb-3">{t("platformOrders.orderItems")}</h4>
                 <div className="border rounded-lg p-4 bg-muted/30 mb-3">
                   <div className="flex gap-4">
                     <div className="flex-1 grid grid-cols-2 gap-4">
                       <div>
-                        <Label className="text-xs text-muted-foreground mb-1 block">Product Name *</Label>
+                        <Label className="text-xs text-muted-foreground mb-1 block">{t("platformOrders.productNameRequired")}</Label>
                         <Input
                           value={newItem.productName}
                           onChange={(e) => setNewItem((prev) => ({ ...prev, productName: e.target.value }))}
-                          placeholder="e.g., Product ABC"
+                          placeholder={t("platformOrders.productNamePlaceholder")}
                           className="h-9"
                         />
                       </div>
                       <div>
-                        <Label className="text-xs text-muted-foreground mb-1 block">SKU *</Label>
+                        <Label className="text-xs text-muted-foreground mb-1 block">{t("platformOrders.skuRequired")}</Label>
                         <Input
                           value={newItem.sku}
                           onChange={(e) => setNewItem((prev) => ({ ...prev, sku: e.target.value }))}
-                          placeholder="e.g., SKU-12345"
+                          placeholder={t("platformOrders.skuPlaceholder")}
                           className="h-9"
                         />
                       </div>
                       <div>
-                        <Label className="text-xs text-muted-foreground mb-1 block">Quantity *</Label>
+                        <Label className="text-xs text-muted-foreground mb-1 block">{t("platformOrders.quantityRequired")}</Label>
                         <Input
                           type="number"
                           value={newItem.quantity}
@@ -1297,7 +1320,7 @@ export function PlatformOrders() {
                         />
                       </div>
                       <div>
-                        <Label className="text-xs text-muted-foreground mb-1 block">Price (ر.س) *</Label>
+                        <Label className="text-xs text-muted-foreground mb-1 block">{t("platformOrders.priceRequired")}</Label>
                         <Input
                           type="number"
                           value={newItem.price}
@@ -1311,8 +1334,8 @@ export function PlatformOrders() {
                     </div>
                     <div className="flex items-end">
                       <Button onClick={handleAddItem} type="button" className="h-[50px] min-w-[120px]">
-                        <Plus className="h-4 w-4 mr-1" />
-                        Add Item
+                        <Plus className="h-4 w-4 me-1" />
+                        {t("platformOrders.addItem")}
                       </Button>
                     </div>
                   </div>
@@ -1324,11 +1347,11 @@ export function PlatformOrders() {
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Product</TableHead>
-                          <TableHead>SKU</TableHead>
-                          <TableHead>Qty</TableHead>
-                          <TableHead>Price</TableHead>
-                          <TableHead>Total</TableHead>
+                          <TableHead>{t("platformOrders.product")}</TableHead>
+                          <TableHead>{t("platformOrders.sku")}</TableHead>
+                          <TableHead>{t("platformOrders.qty")}</TableHead>
+                          <TableHead>{t("platformOrders.price")}</TableHead>
+                          <TableHead>{t("common.total")}</TableHead>
                           <TableHead></TableHead>
                         </TableRow>
                       </TableHeader>
@@ -1338,8 +1361,8 @@ export function PlatformOrders() {
                             <TableCell>{item.productName}</TableCell>
                             <TableCell className="text-sm text-muted-foreground">{item.sku}</TableCell>
                             <TableCell>{item.quantity}</TableCell>
-                            <TableCell>{formatCurrency(item.price)} ر.س</TableCell>
-                            <TableCell className="font-medium">{formatCurrency(item.total)} ر.س</TableCell>
+                            <TableCell>{formatCurrency(item.price)}</TableCell>
+                            <TableCell className="font-medium">{formatCurrency(item.total)}</TableCell>
                             <TableCell>
                               <Button variant="ghost" size="icon" onClick={() => handleRemoveItem(index)}>
                                 <XCircle className="h-4 w-4 text-destructive" />
@@ -1352,25 +1375,25 @@ export function PlatformOrders() {
                     <div className="p-4 border-t bg-muted/30">
                       <div className="space-y-2">
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">Subtotal</span>
+                          <span className="text-muted-foreground">{t("platformOrders.subtotal")}</span>
                           <span className="font-medium">
-                            {formatCurrency(orderItems.reduce((sum, item) => sum + item.total, 0))} ر.س
+                            {formatCurrency(orderItems.reduce((sum, item) => sum + item.total, 0))}
                           </span>
                         </div>
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">Shipping</span>
-                          <span className="font-medium">{formatCurrency(newOrderForm.shipping)} ر.س</span>
+                          <span className="text-muted-foreground">{t("platformOrders.shipping")}</span>
+                          <span className="font-medium">{formatCurrency(newOrderForm.shipping)}</span>
                         </div>
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">Tax (15%)</span>
+                          <span className="text-muted-foreground">{t("platformOrders.tax")}</span>
                           <span className="font-medium">
-                            {formatCurrency(orderItems.reduce((sum, item) => sum + item.total, 0) * 0.15)} ر.س
+                            {formatCurrency(orderItems.reduce((sum, item) => sum + item.total, 0) * 0.15)}
                           </span>
                         </div>
                         <div className="flex justify-between pt-2 border-t">
-                          <span className="font-semibold">Total</span>
+                          <span className="font-semibold">{t("common.total")}</span>
                           <span className="font-bold text-lg">
-                            {formatCurrency(orderItems.reduce((sum, item) => sum + item.total, 0) * 1.15 + newOrderForm.shipping)} ر.س
+                            {formatCurrency(orderItems.reduce((sum, item) => sum + item.total, 0) * 1.15 + newOrderForm.shipping)}
                           </span>
                         </div>
                       </div>
@@ -1380,11 +1403,11 @@ export function PlatformOrders() {
               </div>
 
               <div>
-                <Label>Notes</Label>
+                <Label>{t("common.notes")}</Label>
                 <Textarea
                   value={newOrderForm.notes}
                   onChange={(e) => setNewOrderForm((prev) => ({ ...prev, notes: e.target.value }))}
-                  placeholder="Additional notes..."
+                  placeholder={t("platformOrders.notesPlaceholder")}
                   className="mt-1"
                   rows={3}
                 />
@@ -1393,11 +1416,11 @@ export function PlatformOrders() {
           </ScrollArea>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleAddOrder} disabled={ordersLoading}>
-              <Plus className="mr-2 h-4 w-4" />
-              Create Order
+              <Plus className="me-2 h-4 w-4" />
+              {t("platformOrders.createOrder")}
             </Button>
           </DialogFooter>
         </DialogContent>
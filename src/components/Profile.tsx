@@ -13,6 +13,7 @@ import {
   Loader2,
   RefreshCw,
   Shield,
+  Languages,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
@@ -23,14 +24,18 @@ import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Badge } from "./ui/badge";
 import { Skeleton } from "./ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { toast } from "sonner";
-import { sha256Hex } from "../lib/hash";
+import { changeOwnPassword } from "../lib/authSession";
 import { supabase } from "../lib/supabaseClient";
 import type { SystemUsers } from "../../supabase/models/system_users";
 import type { Employees } from "../../supabase/models/employees";
 import type { Roles } from "../../supabase/models/roles";
 import { uploadFile, getFileUrl, deleteFile, getFilesByOwner, validateFile } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
+import { SYSTEM_USER_COLUMNS } from "../../supabase/operations/crud";
+import { TwoFactorSettingsCard } from "./TwoFactorEnrollment";
+import { setLocalePreferences, translateCurrent, useLocale, type CalendarSystem, type Language } from "../lib/i18n";
 
 interface ProfileProps {
   currentUser: string;
@@ -78,20 +83,6 @@ const formatDateForInput = (value?: string | null) => {
   return date.toISOString().slice(0, 10);
 };
 
-const formatDateForDisplay = (value?: string) => {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "—";
-  return date.toLocaleDateString("en-GB");
-};
-
-const formatDateTime = (value?: string | null) => {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "—";
-  return date.toLocaleString();
-};
-
 const splitEmployeeAddress = (raw?: string | null) => {
   if (!raw) {
     return { location: "", address: "" };
@@ -157,6 +148,7 @@ export function Profile({
   recentActivities,
   onUpdateUser,
 }: ProfileProps) {
+  const { t, language, calendar, formatDate, formatDateTime, formatCurrency, formatNumber } = useLocale();
   const initialState: ProfileFormState = {
     fullName: currentUser ?? "",
     email: userEmail ?? "user@perfumesystem.com",
@@ -199,11 +191,8 @@ export function Profile({
   const [statusChanging, setStatusChanging] = useState(false);
 
   const accountStatus = (systemUserRecord?.status ?? "active").toLowerCase();
-  const displayJoinDate = useMemo(() => formatDateForDisplay(userData.joinDate), [userData.joinDate]);
-  const lastLoginDisplay = useMemo(
-    () => formatDateTime(systemUserRecord?.last_login),
-    [systemUserRecord?.last_login]
-  );
+  const displayJoinDate = formatDate(userData.joinDate);
+  const lastLoginDisplay = formatDateTime(systemUserRecord?.last_login);
   const permissionList = useMemo(() => extractPermissions(rolePermissions), [rolePermissions]);
 
   const loadProfile = useCallback(
@@ -232,12 +221,12 @@ export function Profile({
       try {
         const { data: userRow, error: userError } = await supabase
           .from("system_users")
-          .select("*")
+          .select(SYSTEM_USER_COLUMNS)
           .eq("user_id", userId)
           .single<SystemUsers>();
 
         if (userError || !userRow) {
-          throw userError ?? new Error("Unable to load user profile");
+          throw userError ?? new Error(translateCurrent("profile.loadUserFailed"));
         }
 
         setSystemUserRecord(userRow);
@@ -334,7 +323,7 @@ export function Profile({
           bankIban: employee?.bank_iban ?? "",
         });
       } catch (error) {
-        const message = error instanceof Error ? error.message : "Failed to load profile";
+        const message = error instanceof Error ? error.message : translateCurrent("profile.loadFailed");
         setServerError(message);
         toast.error(message);
       } finally {
@@ -383,7 +372,7 @@ export function Profile({
     }
 
     if (!userId) {
-      toast.error("User ID is required to upload profile picture");
+      toast.error(t("profile.userIdRequired"));
       return;
     }
 
@@ -403,7 +392,7 @@ export function Profile({
       }
 
       if (!currentUserId) {
-        throw new Error('User ID is required to upload profile picture');
+        throw new Error(t("profile.userIdRequired"));
       }
 
       // Delete old profile picture if exists
@@ -425,7 +414,7 @@ export function Profile({
       });
 
       if (!result.success || !result.fileMetadata) {
-        throw new Error(result.error || 'Failed to upload profile picture');
+        throw new Error(result.error || translateCurrent("profile.pictureUploadFailed"));
       }
 
       // Get public URL
@@ -436,7 +425,7 @@ export function Profile({
       ));
 
       if (!pictureUrl) {
-        throw new Error('Failed to get picture URL');
+        throw new Error(translateCurrent("profile.pictureUrlFailed"));
       }
 
       // Add cache-busting to the URL
@@ -461,10 +450,10 @@ export function Profile({
       if (!isEditing) {
         setIsEditing(true);
       }
-      toast.success("Profile image uploaded successfully");
+      toast.success(translateCurrent("profile.pictureUploaded"));
     } catch (error: any) {
       console.error('Error uploading profile picture:', error);
-      toast.error(error.message || 'Failed to upload profile picture');
+      toast.error(error.message || translateCurrent("profile.pictureUploadFailed"));
     } finally {
       setUploadingImage(false);
       // Reset input
@@ -476,16 +465,16 @@ export function Profile({
 
   const validateProfile = () => {
     if (!userData.fullName.trim()) {
-      toast.error("Full name is required");
+      toast.error(t("profile.fullNameRequired"));
       return false;
     }
     if (!userData.email.trim()) {
-      toast.error("Email is required");
+      toast.error(t("profile.emailRequired"));
       return false;
     }
     const emailRegex = /\S+@\S+\.\S+/;
     if (!emailRegex.test(userData.email.trim())) {
-      toast.error("Please enter a valid email address");
+      toast.error(t("profile.emailInvalid"));
       return false;
     }
     return true;
@@ -493,7 +482,7 @@ export function Profile({
 
   const handleSaveProfile = async () => {
     if (!userId) {
-      toast.error("Missing user id");
+      toast.error(t("profile.missingUserId"));
       return;
     }
     if (!validateProfile()) return;
@@ -569,7 +558,7 @@ export function Profile({
 
       await loadProfile({ silent: true });
       setIsEditing(false);
-      toast.success("Profile updated successfully");
+      toast.success(translateCurrent("profile.updated"));
       
       // Trigger a refresh of profile picture in parent components
       // This will cause App.tsx and MyWorkspace.tsx to reload the picture
@@ -583,7 +572,7 @@ export function Profile({
         onUpdateUser(updatedSnapshot);
       }
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to update profile";
+      const message = error instanceof Error ? error.message : translateCurrent("profile.updateFailed");
       setServerError(message);
       toast.error(message);
     } finally {
@@ -641,10 +630,10 @@ export function Profile({
       if (error) throw error;
       await loadProfile({ silent: true });
       toast.success(
-        nextStatus === "active" ? "Account re-activated" : "Account deactivated"
+        translateCurrent(nextStatus === "active" ? "profile.accountReactivated" : "profile.accountDeactivated")
       );
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unable to update account status";
+      const message = error instanceof Error ? error.message : translateCurrent("profile.statusFailed");
       toast.error(message);
     } finally {
       setStatusChanging(false);
@@ -654,45 +643,28 @@ export function Profile({
   const handleChangePassword = async () => {
     try {
       if (!userId) {
-        toast.error("Missing user id");
+        toast.error(t("profile.missingUserId"));
         return;
       }
       if (!passwordData.currentPassword || !passwordData.newPassword || !passwordData.confirmPassword) {
-        toast.error("Please fill all password fields");
+        toast.error(t("profile.passwordFieldsRequired"));
         return;
       }
       if (passwordData.newPassword !== passwordData.confirmPassword) {
-        toast.error("New passwords do not match");
+        toast.error(t("profile.passwordMismatch"));
         return;
       }
       if (passwordData.newPassword.length < 6) {
-        toast.error("Password must be at least 6 characters");
+        toast.error(t("profile.passwordTooShort"));
         return;
       }
 
-      const currentHash = await sha256Hex(passwordData.currentPassword);
-      const { data: existing, error: qErr } = await supabase
-        .from("system_users")
-        .select("user_id")
-        .eq("user_id", userId)
-        .eq("password_hash", currentHash)
-        .single();
-      if (qErr || !existing) {
-        toast.error("Current password is incorrect");
-        return;
-      }
+      await changeOwnPassword(passwordData.currentPassword, passwordData.newPassword);
 
-      const newHash = await sha256Hex(passwordData.newPassword);
-      const { error: uErr } = await supabase
-        .from("system_users")
-        .update({ password_hash: newHash })
-        .eq("user_id", userId);
-      if (uErr) throw uErr;
-
-      toast.success("Password changed successfully");
+      toast.success(translateCurrent("profile.passwordChanged"));
       setPasswordData({ currentPassword: "", newPassword: "", confirmPassword: "" });
     } catch (e: any) {
-      toast.error(e.message || "Failed to change password");
+      toast.error(e.message || translateCurrent("profile.passwordChangeFailed"));
     }
   };
 
@@ -743,17 +715,15 @@ export function Profile({
 
       <div className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">My Profile</h2>
-          <p className="text-muted-foreground mt-1">
-            Manage your personal information and account settings
-          </p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("profile.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("profile.subtitle")}</p>
         </div>
         <div className="flex items-center gap-2">
           <Button
             variant="outline"
             size="icon"
             onClick={handleRefresh}
-            title="Reload profile"
+            title={t("profile.reload")}
             disabled={saving || loading}
           >
             <RefreshCw className="h-4 w-4" />
@@ -770,7 +740,7 @@ export function Profile({
             className="whitespace-nowrap"
             disabled={saving}
           >
-            {isEditing ? "Cancel" : "Edit Profile"}
+            {isEditing ? t("common.cancel") : t("profile.edit")}
           </Button>
         </div>
       </div>
@@ -795,7 +765,7 @@ export function Profile({
               </Avatar>
               <label
                 htmlFor="avatar-upload"
-                className={`absolute bottom-0 right-0 bg-primary text-primary-foreground rounded-full p-2 cursor-pointer hover:bg-primary/90 transition-colors shadow-lg ${uploadingImage ? 'opacity-50 cursor-not-allowed' : ''}`}
+                className={`absolute bottom-0 end-0 bg-primary text-primary-foreground rounded-full p-2 cursor-pointer hover:bg-primary/90 transition-colors shadow-lg ${uploadingImage ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                 {uploadingImage ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -815,7 +785,7 @@ export function Profile({
 
             <div className="flex-1 space-y-3">
               <div className="flex flex-wrap items-center gap-3">
-                <h3 className="text-2xl font-bold">{userData.fullName || "Unnamed User"}</h3>
+                <h3 className="text-2xl font-bold">{userData.fullName || t("profile.unnamed")}</h3>
                 {roleName && (
                   <Badge className="bg-purple-100 text-purple-700 border border-purple-200">
                     {roleName}
@@ -828,10 +798,10 @@ export function Profile({
                       : "bg-amber-100 text-amber-700 border border-amber-200"
                   }
                 >
-                  {accountStatus === "active" ? "Active" : "Inactive"}
+                  {t(accountStatus === "active" ? "profile.active" : "profile.inactive")}
                 </Badge>
               </div>
-              <p className="text-muted-foreground mt-1">{userData.position || "Role not set"}</p>
+              <p className="text-muted-foreground mt-1">{userData.position || t("profile.roleNotSet")}</p>
               <div className="flex flex-wrap gap-4 mt-4 text-sm">
                 <div className="flex items-center gap-2">
                   <Mail className="h-4 w-4 text-muted-foreground" />
@@ -847,11 +817,11 @@ export function Profile({
                 </div>
                 <div className="flex items-center gap-2">
                   <Calendar className="h-4 w-4 text-muted-foreground" />
-                  <span>Joined {displayJoinDate}</span>
+                  <span>{t("profile.joined", { date: displayJoinDate })}</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Shield className="h-4 w-4 text-muted-foreground" />
-                  <span>Last login: {lastLoginDisplay}</span>
+                  <span>{t("profile.lastLogin", { date: lastLoginDisplay })}</span>
                 </div>
               </div>
             </div>
@@ -863,7 +833,7 @@ export function Profile({
                 disabled={saving}
               >
                 {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
-                {saving ? "Saving..." : "Save Changes"}
+                {saving ? t("profile.saving") : t("profile.saveChanges")}
               </Button>
             )}
           </div>
@@ -871,109 +841,110 @@ export function Profile({
       </Card>
 
       <Tabs defaultValue="personal" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3 lg:w-[420px]">
-          <TabsTrigger value="personal">Personal Info</TabsTrigger>
-          <TabsTrigger value="employment">Employment</TabsTrigger>
-          <TabsTrigger value="security">Security</TabsTrigger>
+        <TabsList className="grid w-full grid-cols-4 lg:w-[560px]">
+          <TabsTrigger value="personal">{t("profile.tabPersonal")}</TabsTrigger>
+          <TabsTrigger value="employment">{t("profile.tabEmployment")}</TabsTrigger>
+          <TabsTrigger value="security">{t("profile.tabSecurity")}</TabsTrigger>
+          <TabsTrigger value="preferences">{t("profile.tabPreferences")}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="personal" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Personal Information</CardTitle>
-              <CardDescription>Update your personal details and contact information</CardDescription>
+              <CardTitle>{t("profile.personalTitle")}</CardTitle>
+              <CardDescription>{t("profile.personalDescription")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label htmlFor="fullName">Full Name</Label>
+                  <Label htmlFor="fullName">{t("profile.fullName")}</Label>
                   <div className="relative">
-                    <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <User className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="fullName"
                       value={userData.fullName}
                       onChange={handleInputChange("fullName")}
                       disabled={!isEditing}
-                      className="pl-9"
+                      className="ps-9"
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email Address</Label>
+                  <Label htmlFor="email">{t("profile.emailAddress")}</Label>
                   <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Mail className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="email"
                       type="email"
                       value={userData.email}
                       onChange={handleInputChange("email")}
                       disabled={!isEditing}
-                      className="pl-9"
+                      className="ps-9"
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="phone">Phone Number</Label>
+                  <Label htmlFor="phone">{t("profile.phoneNumber")}</Label>
                   <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Phone className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="phone"
                       value={userData.phone}
                       onChange={handleInputChange("phone")}
                       disabled={!isEditing}
-                      className="pl-9"
+                      className="ps-9"
                       dir="ltr"
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="nationalId">National ID</Label>
+                  <Label htmlFor="nationalId">{t("profile.nationalId")}</Label>
                   <div className="relative">
-                    <UserCircle className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <UserCircle className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="nationalId"
                       value={userData.nationalId}
                       onChange={handleInputChange("nationalId")}
                       disabled={!isEditing}
-                      className="pl-9"
+                      className="ps-9"
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="location">City / Location</Label>
+                  <Label htmlFor="location">{t("profile.location")}</Label>
                   <div className="relative">
-                    <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <MapPin className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="location"
                       value={userData.location}
                       onChange={handleInputChange("location")}
                       disabled={!isEditing}
-                      className="pl-9"
+                      className="ps-9"
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="emergencyContact">Emergency Contact</Label>
+                  <Label htmlFor="emergencyContact">{t("profile.emergencyContact")}</Label>
                   <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Phone className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="emergencyContact"
                       value={userData.emergencyContact}
                       onChange={handleInputChange("emergencyContact")}
                       disabled={!isEditing}
-                      className="pl-9"
+                      className="ps-9"
                       dir="ltr"
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="emergencyName">Emergency Contact Name</Label>
+                  <Label htmlFor="emergencyName">{t("profile.emergencyName")}</Label>
                   <Input
                     id="emergencyName"
                     value={userData.emergencyName}
@@ -984,7 +955,7 @@ export function Profile({
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="address">Address</Label>
+                <Label htmlFor="address">{t("profile.address")}</Label>
                 <Textarea
                   id="address"
                   value={userData.address}
@@ -997,11 +968,11 @@ export function Profile({
               {isEditing && (
                 <div className="flex justify-end gap-2 pt-4">
                   <Button variant="outline" onClick={handleCancelEdit} disabled={saving}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button onClick={handleSaveProfile} className="gap-2" disabled={saving}>
                     {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
-                    {saving ? "Saving..." : "Save Changes"}
+                    {saving ? t("profile.saving") : t("profile.saveChanges")}
                   </Button>
                 </div>
               )}
@@ -1012,17 +983,17 @@ export function Profile({
         <TabsContent value="employment" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Employment Details</CardTitle>
-              <CardDescription>Your work-related information</CardDescription>
+              <CardTitle>{t("profile.employmentTitle")}</CardTitle>
+              <CardDescription>{t("profile.employmentDescription")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label>Employee ID</Label>
+                  <Label>{t("profile.employeeId")}</Label>
                   <Input value={userData.employeeId || "—"} disabled />
                 </div>
                 <div className="space-y-2">
-                  <Label>Position</Label>
+                  <Label>{t("profile.position")}</Label>
                   <Input
                     value={userData.position}
                     onChange={handleInputChange("position")}
@@ -1030,7 +1001,7 @@ export function Profile({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Department</Label>
+                  <Label>{t("profile.department")}</Label>
                   <Input
                     value={userData.department}
                     onChange={handleInputChange("department")}
@@ -1038,7 +1009,7 @@ export function Profile({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Start Date</Label>
+                  <Label>{t("profile.startDate")}</Label>
                   <Input
                     type="date"
                     value={userData.joinDate}
@@ -1049,7 +1020,7 @@ export function Profile({
               </div>
 
               <div className="space-y-2">
-                <Label>Contract Type</Label>
+                <Label>{t("profile.contractType")}</Label>
                 <Input
                   value={userData.contractType}
                   onChange={handleInputChange("contractType")}
@@ -1059,7 +1030,7 @@ export function Profile({
 
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label>Base Salary (SAR)</Label>
+                  <Label>{t("profile.baseSalary")}</Label>
                   <Input
                     type="number"
                     min="0"
@@ -1071,7 +1042,7 @@ export function Profile({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Housing Allowance (SAR)</Label>
+                  <Label>{t("profile.housingAllowance")}</Label>
                   <Input
                     type="number"
                     min="0"
@@ -1083,7 +1054,7 @@ export function Profile({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Transport Allowance (SAR)</Label>
+                  <Label>{t("profile.transportAllowance")}</Label>
                   <Input
                     type="number"
                     min="0"
@@ -1095,7 +1066,7 @@ export function Profile({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Other Allowances (SAR)</Label>
+                  <Label>{t("profile.otherAllowances")}</Label>
                   <Input
                     type="number"
                     min="0"
@@ -1110,7 +1081,7 @@ export function Profile({
 
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label>Bank Name</Label>
+                  <Label>{t("profile.bankName")}</Label>
                   <Input
                     value={userData.bankName}
                     onChange={handleInputChange("bankName")}
@@ -1118,7 +1089,7 @@ export function Profile({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Bank IBAN</Label>
+                  <Label>{t("profile.bankIban")}</Label>
                   <Input
                     value={userData.bankIban}
                     onChange={handleInputChange("bankIban")}
@@ -1131,8 +1102,7 @@ export function Profile({
               {!isEditing && (
                 <div className="rounded-lg bg-blue-50 border border-blue-200 p-4 mt-4">
                   <p className="text-sm text-blue-700">
-                    <strong>Note:</strong> Employment details are sourced from the HR database. Contact the HR
-                    department for structural changes such as employment status or compensation plans.
+                    <strong>{t("profile.note")}</strong> {t("profile.employmentNote")}
                   </p>
                 </div>
               )}
@@ -1143,15 +1113,15 @@ export function Profile({
         <TabsContent value="security" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Change Password</CardTitle>
-              <CardDescription>Update your password to keep your account secure</CardDescription>
+              <CardTitle>{t("profile.changePassword")}</CardTitle>
+              <CardDescription>{t("profile.changePasswordDescription")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-4 max-w-md">
                 <div className="space-y-2">
-                  <Label htmlFor="currentPassword">Current Password</Label>
+                  <Label htmlFor="currentPassword">{t("profile.currentPassword")}</Label>
                   <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Lock className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="currentPassword"
                       type="password"
@@ -1159,16 +1129,16 @@ export function Profile({
                       onChange={(e) =>
                         setPasswordData((prev) => ({ ...prev, currentPassword: e.target.value }))
                       }
-                      className="pl-9"
-                      placeholder="Enter current password"
+                      className="ps-9"
+                      placeholder={t("profile.currentPasswordPlaceholder")}
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="newPassword">New Password</Label>
+                  <Label htmlFor="newPassword">{t("profile.newPassword")}</Label>
                   <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Lock className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="newPassword"
                       type="password"
@@ -1176,16 +1146,16 @@ export function Profile({
                       onChange={(e) =>
                         setPasswordData((prev) => ({ ...prev, newPassword: e.target.value }))
                       }
-                      className="pl-9"
-                      placeholder="Enter new password"
+                      className="ps-9"
+                      placeholder={t("profile.newPasswordPlaceholder")}
                     />
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                  <Label htmlFor="confirmPassword">{t("profile.confirmPassword")}</Label>
                   <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Lock className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="confirmPassword"
                       type="password"
@@ -1193,16 +1163,15 @@ export function Profile({
                       onChange={(e) =>
                         setPasswordData((prev) => ({ ...prev, confirmPassword: e.target.value }))
                       }
-                      className="pl-9"
-                      placeholder="Confirm new password"
+                      className="ps-9"
+                      placeholder={t("profile.confirmPasswordPlaceholder")}
                     />
                   </div>
                 </div>
 
                 <div className="rounded-lg bg-amber-50 border border-amber-200 p-3">
                   <p className="text-xs text-amber-700">
-                    Password must be at least 6 characters long and include a mix of letters and numbers for better
-                    security.
+                    {t("profile.passwordHint")}
                   </p>
                 </div>
 
@@ -1213,7 +1182,7 @@ export function Profile({
                     disabled={statusChanging || saving}
                   >
                     <Lock className="h-4 w-4" />
-                    Change Password
+                    {t("profile.changePassword")}
                   </Button>
                   <Button
                     onClick={handleToggleAccountStatus}
@@ -1226,27 +1195,29 @@ export function Profile({
                     ) : (
                       <Shield className="h-4 w-4" />
                     )}
-                    {accountStatus === "active" ? "Deactivate Account" : "Activate Account"}
+                    {accountStatus === "active" ? t("profile.deactivateAccount") : t("profile.activateAccount")}
                   </Button>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {userId && <TwoFactorSettingsCard />}
+
           <Card>
             <CardHeader>
-              <CardTitle>Role & Permissions</CardTitle>
-              <CardDescription>Access rights assigned to this account</CardDescription>
+              <CardTitle>{t("profile.roleTitle")}</CardTitle>
+              <CardDescription>{t("profile.roleDescription")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <p className="text-sm text-muted-foreground">Role</p>
+                <p className="text-sm text-muted-foreground">{t("profile.role")}</p>
                 <Badge className="mt-1 bg-slate-100 text-slate-700 border border-slate-200">
-                  {roleName || "Not assigned"}
+                  {roleName || t("common.notAssigned")}
                 </Badge>
               </div>
               <div>
-                <p className="text-sm text-muted-foreground mb-2">Permissions</p>
+                <p className="text-sm text-muted-foreground mb-2">{t("profile.permissions")}</p>
                 {permissionList.length > 0 ? (
                   <div className="flex flex-wrap gap-2">
                     {permissionList.map((permission) => (
@@ -1256,7 +1227,7 @@ export function Profile({
                     ))}
                   </div>
                 ) : (
-                  <p className="text-sm text-muted-foreground">No granular permissions assigned.</p>
+                  <p className="text-sm text-muted-foreground">{t("profile.noPermissions")}</p>
                 )}
               </div>
             </CardContent>
@@ -1264,13 +1235,13 @@ export function Profile({
 
           <Card>
             <CardHeader>
-              <CardTitle>Account Activity</CardTitle>
-              <CardDescription>Recent login history</CardDescription>
+              <CardTitle>{t("profile.activityTitle")}</CardTitle>
+              <CardDescription>{t("profile.activityDescription")}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
                 {(recentActivities ?? []).length === 0 ? (
-                  <p className="text-sm text-muted-foreground">No recent activity.</p>
+                  <p className="text-sm text-muted-foreground">{t("profile.noActivity")}</p>
                 ) : (
                   (recentActivities ?? []).map((act) => (
                     <div key={act.id} className="flex items-center justify-between py-3 border-b">
@@ -1279,7 +1250,7 @@ export function Profile({
                         <p className="text-xs text-muted-foreground">{act.description}</p>
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        {new Date(act.timestamp).toLocaleString()}
+                        {formatDateTime(act.timestamp)}
                       </p>
                     </div>
                   ))
@@ -1288,6 +1259,59 @@ export function Profile({
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="preferences" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Languages className="h-5 w-5" />
+                {t("profile.preferencesTitle")}
+              </CardTitle>
+              <CardDescription>{t("profile.preferencesDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-4 max-w-md">
+                <div className="space-y-2">
+                  <Label htmlFor="language">{t("profile.language")}</Label>
+                  <Select
+                    value={language}
+                    onValueChange={(value) => setLocalePreferences({ language: value as Language })}
+                  >
+                    <SelectTrigger id="language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="en">{t("language.en")}</SelectItem>
+                      <SelectItem value="ar">{t("language.ar")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="calendar">{t("profile.calendar")}</Label>
+                  <Select
+                    value={calendar}
+                    onValueChange={(value) => setLocalePreferences({ calendar: value as CalendarSystem })}
+                  >
+                    <SelectTrigger id="calendar">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="gregorian">{t("calendar.gregorian")}</SelectItem>
+                      <SelectItem value="hijri">{t("calendar.hijri")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="rounded-lg border bg-muted/40 p-4 text-sm space-y-1 max-w-md">
+                <p className="font-medium">{t("profile.preview")}</p>
+                <p>{formatDateTime(new Date())}</p>
+                <p>{formatCurrency(12345.5)}</p>
+                <p>{formatNumber(1234567.89)}</p>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
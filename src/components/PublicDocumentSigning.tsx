@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { CheckCircle, Clock, FileSignature, Languages, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { SignaturePad } from "./SignaturePad";
+import { fetchSigningDocument, signDocument, type SigningDocument } from "../lib/documentSigning";
+import { setLocalePreferences, translateCurrent, useLocale } from "../lib/i18n";
+
+interface PublicDocumentSigningProps {
+  token: string;
+}
+
+/**
+ * Public page behind a signing link (/sign/<token>). Customers do not sign in: the token identifies the
+ * document, which is shown exactly as it was sent, and the customer signs it with their name and a drawn
+ * signature. The page follows the browser's language preference and can be switched like the login page.
+ */
+export function PublicDocumentSigning({ token }: PublicDocumentSigningProps) {
+  const [document, setDocument] = useState<SigningDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [accepted, setAccepted] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const { t, language, formatDateTime } = useLocale();
+
+  useEffect(() => {
+    fetchSigningDocument(token)
+      .then(setDocument)
+      .catch((error) => setLoadError((error as { message?: string })?.message || translateCurrent("signing.invalidLink")));
+  }, [token]);
+
+  const handleSign = async () => {
+    if (!document) return;
+    if (signerName.trim().length < 2) {
+      toast.error(t("signing.nameRequired"));
+      return;
+    }
+    if (!signature) {
+      toast.error(t("signing.signatureRequired"));
+      return;
+    }
+    if (!accepted) {
+      toast.error(t("signing.acceptRequired"));
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      const signed = await signDocument(token, {
+        signerName: signerName.trim(),
+        signatureImage: signature,
+        documentHash: document.document_hash,
+      });
+      setDocument(signed);
+      toast.success(t("signing.signed"));
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("signing.signFailed"));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const languageSwitch = (
+    <div className="flex justify-end">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="gap-2 text-muted-foreground"
+        onClick={() => setLocalePreferences({ language: language === "ar" ? "en" : "ar" })}
+      >
+        <Languages className="h-4 w-4" />
+        {t(language === "ar" ? "language.en" : "language.ar")}
+      </Button>
+    </div>
+  );
+
+  if (loadError) {
+    return (
+      <StatusCard
+        icon={<XCircle className="h-10 w-10 text-red-500" />}
+        title={t("signing.notAvailable")}
+        description={loadError}
+      />
+    );
+  }
+
+  if (!document) {
+    return <div className="flex min-h-screen items-center justify-center text-muted-foreground">{t("signing.loading")}</div>;
+  }
+
+  const label = t(document.document_type === "contract" ? "signing.contract" : "signing.quotation");
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto max-w-4xl space-y-6 px-4">
+        {languageSwitch}
+        <div className="flex items-center gap-3">
+          <FileSignature className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold">{label}</h1>
+            <p className="text-sm text-muted-foreground">{document.document_number}</p>
+          </div>
+        </div>
+
+        {/* The document runs without scripts and cannot reach this page */}
+        <iframe
+          title={document.document_number}
+          srcDoc={document.document_html}
+          sandbox=""
+          className="h-[70vh] w-full rounded-lg border bg-white"
+        />
+
+        {document.status === "signed" ? (
+          <StatusCard
+            icon={<CheckCircle className="h-10 w-10 text-green-600" />}
+            title={t("signing.signedTitle")}
+            description={t("signing.signedDescription", {
+              name: document.signer_name ?? "",
+              date: formatDateTime(document.signed_at),
+            })}
+          />
+        ) : document.status === "expired" ? (
+          <StatusCard
+            icon={<Clock className="h-10 w-10 text-amber-500" />}
+            title={t("signing.expiredTitle")}
+            description={t("signing.expiredDescription")}
+          />
+        ) : document.status === "revoked" ? (
+          <StatusCard
+            icon={<XCircle className="h-10 w-10 text-red-500" />}
+            title={t("signing.revokedTitle")}
+            description={t("signing.revokedDescription")}
+          />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("signing.sign")}</CardTitle>
+              <CardDescription>{t("signing.validUntil", { date: formatDateTime(document.expires_at) })}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="signer-name">{t("signing.fullName")}</Label>
+                <Input
+                  id="signer-name"
+                  value={signerName}
+                  maxLength={120}
+                  onChange={(event) => setSignerName(event.target.value)}
+                  disabled={isSigning}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("signing.signature")}</Label>
+                <SignaturePad onChange={setSignature} disabled={isSigning} />
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="accept-document"
+                  checked={accepted}
+                  onCheckedChange={(checked) => setAccepted(checked === true)}
+                  disabled={isSigning}
+                />
+                <Label htmlFor="accept-document" className="font-normal leading-snug">
+                  {t(document.document_type === "contract" ? "signing.acceptContract" : "signing.acceptQuotation")}
+                </Label>
+              </div>
+              <Button className="w-full" onClick={() => void handleSign()} disabled={isSigning}>
+                {isSigning ? t("signing.signing") : t("signing.signDocument")}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function StatusCard({ icon, title, description }: { icon: React.ReactNode; title: string; description: string }) {
+  return (
+    <div className="flex justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+          {icon}
+          <h2 className="text-xl font-semibold">{title}</h2>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
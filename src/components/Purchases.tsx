@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Plus, Search, Download, FileText, DollarSign, Package, Filter, Tag, Trash2, ShoppingCart, FileDown } from "lucide-react";
+import { Plus, Search, Download, FileText, DollarSign, Package, Filter, Tag, Trash2, ShoppingCart, FileDown, PackageCheck } from "lucide-react";
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
 import { Button } from "./ui/button";
@@ -24,6 +24,9 @@ import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { selectors, thunks } from "../redux-toolkit/slices";
 import type { Suppliers as SupplierRow } from "../../supabase/models/suppliers";
 import type { PurchaseOrders } from "../../supabase/models/purchase_orders";
+import { syncPurchaseOrderStockMovements } from "../lib/stockLedger";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 const createItemId = () =>
   typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
@@ -101,19 +104,42 @@ const defaultPurchaseCategories = [
   "Other",
 ];
 
-const paymentMethodLabels: Record<string, string> = {
-  cash: "Cash",
-  "bank-transfer": "Bank Transfer",
-  "credit-card": "Credit Card",
-  check: "Check",
+// Categories are stored as the English name; custom categories have no key
+const CATEGORY_KEYS: Record<string, MessageKey> = {
+  "Scent Products": "purchases.category.scentProducts",
+  "Equipment": "purchases.category.equipment",
+  "Office Supplies": "purchases.category.officeSupplies",
+  "Packaging": "purchases.category.packaging",
+  "Maintenance": "purchases.category.maintenance",
+  "Other": "purchases.category.other",
 };
 
-const formatPaymentMethod = (method?: string) => {
-  if (!method) return undefined;
-  return paymentMethodLabels[method] ?? method;
+const PAYMENT_STATUS_KEYS: Record<Purchase["paymentStatus"], MessageKey> = {
+  unpaid: "status.unpaid",
+  partial: "status.partial",
+  paid: "status.paid",
+};
+
+const DELIVERY_STATUS_KEYS: Record<Purchase["deliveryStatus"], MessageKey> = {
+  pending: "status.pending",
+  "in-transit": "purchases.delivery.inTransit",
+  delivered: "purchases.delivery.delivered",
+};
+
+const PAYMENT_METHOD_KEYS: Record<string, MessageKey> = {
+  cash: "purchases.method.cash",
+  "bank-transfer": "purchases.method.bankTransfer",
+  "credit-card": "purchases.method.creditCard",
+  check: "purchases.method.check",
 };
 
 export function Purchases() {
+  const { t, dir, formatNumber, formatCurrency, formatDate } = useLocale();
+  const optionLabel = (keys: Record<string, MessageKey>, value: string) => {
+    const key = keys[value];
+    return key ? t(key) : value;
+  };
+  const formatAmount = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
   const dispatch = useAppDispatch();
   const dbSuppliers = useAppSelector(selectors.suppliers.selectAll) as SupplierRow[];
   const suppliersLoading = useAppSelector(selectors.suppliers.selectLoading);
@@ -168,7 +194,7 @@ export function Purchases() {
       const financial = supplierFinancials.get(supplier.supplier_id);
       return {
         id: idx + 1,
-        name: supplier.supplier_en_name ?? supplier.supplier_ar_name ?? "Unnamed Supplier",
+        name: supplier.supplier_en_name ?? supplier.supplier_ar_name ?? t("purchases.unnamedSupplier"),
         mobile: supplier.supplier_phone_num ?? undefined,
         email: supplier.supplier_email ?? undefined,
         location: [supplier.supplier_address, supplier.supplier_city, supplier.supplier_country].filter(Boolean).join(", "),
@@ -179,7 +205,7 @@ export function Purchases() {
         persistedBalance: financial?.persistedBalance ?? 0,
       };
     });
-  }, [dbSuppliers, supplierFinancials]);
+  }, [dbSuppliers, supplierFinancials, t]);
 
   const supplierMap = useMemo(() => {
     const map = new Map<string, SupplierOption>();
@@ -308,10 +334,10 @@ export function Purchases() {
 
         return {
           id: order.purchase_id,
-          purchaseNumber: payload?.purchase_number ?? payload?.purchaseNumber ?? `PUR-${order.purchase_id.slice(0, 8).toUpperCase()}`,
+          purchaseNumber: order.purchase_number || payload?.purchase_number || payload?.purchaseNumber || `PUR-${order.purchase_id.slice(0, 8).toUpperCase()}`,
           date: order.purchase_date,
           supplierId: order.supplier_id,
-          supplier: supplierInfo?.name ?? "Unknown Supplier",
+          supplier: supplierInfo?.name ?? t("purchases.unknownSupplier"),
           category,
           items,
           subtotal,
@@ -333,7 +359,7 @@ export function Purchases() {
         const dateB = b.date ? new Date(b.date).getTime() : 0;
         return dateB - dateA;
       });
-  }, [dbPurchaseOrders, supplierMap]);
+  }, [dbPurchaseOrders, supplierMap, t]);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [filterCategory, setFilterCategory] = useState("all");
@@ -386,43 +412,43 @@ export function Purchases() {
       console.log('Starting PDF export with filteredPurchases count:', filteredPurchases.length);
       
       if (filteredPurchases.length === 0) {
-        toast.error("No data to export. Try adjusting your filters.");
+        toast.error(t("purchases.nothingToExport"));
         return;
       }
 
       // Create HTML content for PDF
       let htmlContent = `
         <!DOCTYPE html>
-        <html>
+        <html dir="${dir}">
         <head>
-          <title>Purchases Report</title>
+          <title>${t("purchases.report.title")}</title>
           <style>
             body { font-family: Arial, sans-serif; margin: 20px; }
             h1 { color: #333; text-align: center; }
             table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-            th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+            th, td { border: 1px solid #ddd; padding: 8px; text-align: start; }
             th { background-color: #f2f2f2; font-weight: bold; }
             .total-row { font-weight: bold; background-color: #f9f9f9; }
             .header-info { margin-bottom: 20px; }
           </style>
         </head>
         <body>
-          <h1>Purchases Report</h1>
+          <h1>${t("purchases.report.title")}</h1>
           <div class="header-info">
-            <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
-            <p><strong>Total Records:</strong> ${filteredPurchases.length}</p>
+            <p><strong>${t("purchases.report.date")}</strong> ${formatDate(new Date())}</p>
+            <p><strong>${t("purchases.report.totalRecords")}</strong> ${filteredPurchases.length}</p>
           </div>
           <table>
             <thead>
               <tr>
-                <th>Purchase Number</th>
-                <th>Date</th>
-                <th>Supplier</th>
-                <th>Category</th>
-                <th>Items Count</th>
-                <th>Total Amount (SAR)</th>
-                <th>Payment Status</th>
-                <th>Delivery Status</th>
+                <th>${t("purchases.purchaseNumber")}</th>
+                <th>${t("common.date")}</th>
+                <th>${t("purchases.supplier")}</th>
+                <th>${t("purchases.category")}</th>
+                <th>${t("purchases.report.itemsCount")}</th>
+                <th>${t("purchases.totalAmountSar")}</th>
+                <th>${t("purchases.paymentStatus")}</th>
+                <th>${t("purchases.deliveryStatus")}</th>
               </tr>
             </thead>
             <tbody>
@@ -434,13 +460,13 @@ export function Purchases() {
         htmlContent += `
           <tr>
             <td>${purchase.purchaseNumber}</td>
-            <td>${purchase.date}</td>
+            <td>${formatDate(purchase.date)}</td>
             <td>${purchase.supplier}</td>
-            <td>${purchase.category}</td>
+            <td>${optionLabel(CATEGORY_KEYS, purchase.category)}</td>
             <td>${purchase.items.length}</td>
-            <td>${purchase.totalAmount.toFixed(2)}</td>
-            <td>${purchase.paymentStatus}</td>
-            <td>${purchase.deliveryStatus}</td>
+            <td>${formatAmount(purchase.totalAmount)}</td>
+            <td>${t(PAYMENT_STATUS_KEYS[purchase.paymentStatus])}</td>
+            <td>${t(DELIVERY_STATUS_KEYS[purchase.deliveryStatus])}</td>
           </tr>
         `;
       });
@@ -449,8 +475,8 @@ export function Purchases() {
             </tbody>
             <tfoot>
               <tr class="total-row">
-                <td colspan="5"><strong>Grand Total</strong></td>
-                <td><strong>${grandTotal.toFixed(2)}</strong></td>
+                <td colspan="5"><strong>${t("purchases.report.grandTotal")}</strong></td>
+                <td><strong>${formatAmount(grandTotal)}</strong></td>
                 <td colspan="2"></td>
               </tr>
             </tfoot>
@@ -465,13 +491,13 @@ export function Purchases() {
         printWindow.document.write(htmlContent);
         printWindow.document.close();
         printWindow.print();
-        toast.success("PDF export ready for printing");
+        toast.success(t("purchases.pdfReady"));
       } else {
-        toast.error("Failed to open print window");
+        toast.error(t("purchases.printWindowFailed"));
       }
     } catch (error) {
       console.error('PDF export error:', error);
-      toast.error("Failed to export PDF");
+      toast.error(t("purchases.pdfFailed"));
     }
   };
 
@@ -480,7 +506,7 @@ export function Purchases() {
       console.log('Starting export with filteredPurchases count:', filteredPurchases.length);
       
       if (filteredPurchases.length === 0) {
-        toast.error("No data to export. Try adjusting your filters.");
+        toast.error(t("purchases.nothingToExport"));
         return;
       }
 
@@ -524,10 +550,10 @@ export function Purchases() {
       
       console.log('Writing file:', fileName);
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
       console.error('Export error:', error);
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
     }
   };
 
@@ -627,18 +653,18 @@ export function Purchases() {
   const handleAddCategory = () => {
     const trimmed = newCategoryName.trim();
     if (!trimmed) {
-      toast.error("Please enter category name");
+      toast.error(t("purchases.categoryNameRequired"));
       return;
     }
     if (allCategories.includes(trimmed)) {
-      toast.error("Category already exists");
+      toast.error(t("purchases.categoryExists"));
       return;
     }
     setCustomCategories([...customCategories, trimmed]);
     categoryColors[trimmed] = "bg-gray-100 text-gray-700 border-gray-200";
     setIsAddCategoryDialogOpen(false);
     setNewCategoryName("");
-    toast.success("Category added successfully!");
+    toast.success(t("purchases.categoryAdded"));
   };
 
   const handleSupplierSelect = useCallback((supplier: SupplierOption) => {
@@ -668,10 +694,10 @@ export function Purchases() {
       .unwrap()
       .then((created: SupplierRow) => {
         setPendingSupplierId(created.supplier_id);
-        toast.success("Supplier added successfully");
+        toast.success(translateCurrent("purchases.supplierAdded"));
       })
       .catch((error: any) => {
-        toast.error(error?.message ?? "Failed to add supplier");
+        toast.error(error?.message ?? translateCurrent("purchases.supplierAddFailed"));
       });
   }, [dispatch]);
 
@@ -690,7 +716,7 @@ export function Purchases() {
 
   const handleAddPurchase = async () => {
     if (!date || !selectedSupplierOption?.dbId || !category || items.some((item) => !item.itemName.trim())) {
-      toast.error("Please fill all required fields");
+      toast.error(t("purchases.requiredFields"));
       return;
     }
 
@@ -722,16 +748,14 @@ export function Purchases() {
       paymentStatus = "partial";
     }
 
-    const purchaseNumber = `PUR-${new Date().getFullYear()}-${String(dbPurchaseOrders.length + 1).padStart(3, "0")}`;
-
     const payload: Partial<PurchaseOrders> = {
       supplier_id: selectedSupplierOption.dbId,
       purchase_date: date,
       purchase_category: category,
       payment_method: paymentMethod || null,
       purchase_invoice_number: invoiceNumber || null,
+      // purchase_number is assigned by the database and copied into this payload on insert
       purchase_order_items: {
-        purchase_number: purchaseNumber,
         items: normalizedItems,
         subtotal: subtotalValue,
         tax_rate: taxRateValue,
@@ -765,11 +789,33 @@ export function Purchases() {
         }
       }
 
-      toast.success("Purchase order created successfully!");
+      toast.success(translateCurrent("purchases.created"));
       setIsAddDialogOpen(false);
       resetForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to create purchase order");
+      toast.error(error?.message ?? translateCurrent("purchases.createFailed"));
+    }
+  };
+
+  const handleMarkReceived = async (purchase: Purchase) => {
+    try {
+      const updated = await dispatch(
+        thunks.purchase_orders.updateOne({
+          id: purchase.id,
+          values: { delivery_status: "delivered" },
+        })
+      ).unwrap();
+      const { movements, unresolved } = await syncPurchaseOrderStockMovements(updated);
+      if (movements.length > 0) {
+        dispatch(thunks.inventory.fetchAll(undefined));
+        dispatch(thunks.manufacturing_raw_materials.fetchAll(undefined));
+      }
+      toast.success(translateCurrent("purchases.received", { number: purchase.purchaseNumber }));
+      if (unresolved.length > 0) {
+        toast.warning(translateCurrent("purchases.unresolvedItems", { count: unresolved.length }));
+      }
+    } catch (error) {
+      toast.error((error as { message?: string })?.message ?? translateCurrent("purchases.receiveFailed"));
     }
   };
 
@@ -786,9 +832,9 @@ export function Purchases() {
       // Create HTML content for single purchase PDF
       let htmlContent = `
         <!DOCTYPE html>
-        <html>
+        <html dir="${dir}">
         <head>
-          <title>Purchase Order - ${purchase.purchaseNumber}</title>
+          <title>${t("purchases.report.orderTitle")} - ${purchase.purchaseNumber}</title>
           <style>
             body { font-family: Arial, sans-serif; margin: 20px; }
             h1 { color: #333; text-align: center; }
@@ -796,33 +842,33 @@ export function Purchases() {
             .info-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 20px; }
             .info-item { margin-bottom: 10px; }
             table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-            th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+            th, td { border: 1px solid #ddd; padding: 8px; text-align: start; }
             th { background-color: #f2f2f2; font-weight: bold; }
             .total-row { font-weight: bold; background-color: #f9f9f9; }
             .items-table { margin-top: 20px; }
           </style>
         </head>
         <body>
-          <h1>Purchase Order</h1>
+          <h1>${t("purchases.report.orderTitle")}</h1>
           <div class="header-info">
             <div class="info-grid">
-              <div class="info-item"><strong>Purchase Number:</strong> ${purchase.purchaseNumber}</div>
-              <div class="info-item"><strong>Date:</strong> ${purchase.date}</div>
-              <div class="info-item"><strong>Supplier:</strong> ${purchase.supplier}</div>
-              <div class="info-item"><strong>Category:</strong> ${purchase.category}</div>
-              <div class="info-item"><strong>Payment Status:</strong> ${purchase.paymentStatus}</div>
-              <div class="info-item"><strong>Delivery Status:</strong> ${purchase.deliveryStatus}</div>
+              <div class="info-item"><strong>${t("purchases.purchaseNumber")}:</strong> ${purchase.purchaseNumber}</div>
+              <div class="info-item"><strong>${t("common.date")}:</strong> ${formatDate(purchase.date)}</div>
+              <div class="info-item"><strong>${t("purchases.supplier")}:</strong> ${purchase.supplier}</div>
+              <div class="info-item"><strong>${t("purchases.category")}:</strong> ${optionLabel(CATEGORY_KEYS, purchase.category)}</div>
+              <div class="info-item"><strong>${t("purchases.paymentStatus")}:</strong> ${t(PAYMENT_STATUS_KEYS[purchase.paymentStatus])}</div>
+              <div class="info-item"><strong>${t("purchases.deliveryStatus")}:</strong> ${t(DELIVERY_STATUS_KEYS[purchase.deliveryStatus])}</div>
             </div>
           </div>
           
-          <h2>Items</h2>
+          <h2>${t("purchases.items")}</h2>
           <table class="items-table">
             <thead>
               <tr>
-                <th>Item Name</th>
-                <th>Quantity</th>
-                <th>Unit Price (SAR)</th>
-                <th>Total (SAR)</th>
+                <th>${t("purchases.itemName")}</th>
+                <th>${t("purchases.quantity")}</th>
+                <th>${t("purchases.unitPriceSar")}</th>
+                <th>${t("purchases.totalSar")}</th>
               </tr>
             </thead>
             <tbody>
@@ -835,8 +881,8 @@ export function Purchases() {
           <tr>
             <td>${item.itemName}</td>
             <td>${item.quantity}</td>
-            <td>${item.unitPrice.toFixed(2)}</td>
-            <td>${item.total.toFixed(2)}</td>
+            <td>${formatAmount(item.unitPrice)}</td>
+            <td>${formatAmount(item.total)}</td>
           </tr>
         `;
       });
@@ -845,29 +891,29 @@ export function Purchases() {
             </tbody>
             <tfoot>
               <tr class="total-row">
-                <td colspan="3"><strong>Subtotal</strong></td>
-                <td><strong>${purchase.subtotal.toFixed(2)}</strong></td>
+                <td colspan="3"><strong>${t("purchases.subtotal")}</strong></td>
+                <td><strong>${formatAmount(purchase.subtotal)}</strong></td>
               </tr>
               <tr class="total-row">
-                <td colspan="3"><strong>Tax Amount</strong></td>
-                <td><strong>${purchase.taxAmount.toFixed(2)}</strong></td>
+                <td colspan="3"><strong>${t("purchases.taxAmount")}</strong></td>
+                <td><strong>${formatAmount(purchase.taxAmount)}</strong></td>
               </tr>
               <tr class="total-row">
-                <td colspan="3"><strong>Total Amount</strong></td>
-                <td><strong>${purchase.totalAmount.toFixed(2)}</strong></td>
+                <td colspan="3"><strong>${t("purchases.totalAmount")}</strong></td>
+                <td><strong>${formatAmount(purchase.totalAmount)}</strong></td>
               </tr>
               <tr class="total-row">
-                <td colspan="3"><strong>Paid Amount</strong></td>
-                <td><strong>${purchase.paidAmount.toFixed(2)}</strong></td>
+                <td colspan="3"><strong>${t("purchases.paidAmount")}</strong></td>
+                <td><strong>${formatAmount(purchase.paidAmount)}</strong></td>
               </tr>
               <tr class="total-row">
-                <td colspan="3"><strong>Remaining Amount</strong></td>
-                <td><strong>${purchase.remainingAmount.toFixed(2)}</strong></td>
+                <td colspan="3"><strong>${t("purchases.remainingAmount")}</strong></td>
+                <td><strong>${formatAmount(purchase.remainingAmount)}</strong></td>
               </tr>
             </tfoot>
           </table>
           
-          ${purchase.notes ? `<div style="margin-top: 30px;"><strong>Notes:</strong> ${purchase.notes}</div>` : ''}
+          ${purchase.notes ? `<div style="margin-top: 30px;"><strong>${t("common.notes")}:</strong> ${purchase.notes}</div>` : ''}
         </body>
         </html>
       `;
@@ -878,13 +924,13 @@ export function Purchases() {
         printWindow.document.write(htmlContent);
         printWindow.document.close();
         printWindow.print();
-        toast.success(`Purchase ${purchase.purchaseNumber} PDF ready for printing`);
+        toast.success(t("purchases.singlePdfReady", { number: purchase.purchaseNumber }));
       } else {
-        toast.error("Failed to open print window");
+        toast.error(t("purchases.printWindowFailed"));
       }
     } catch (error) {
       console.error('Single PDF export error:', error);
-      toast.error("Failed to export PDF");
+      toast.error(t("purchases.pdfFailed"));
     }
   };
 
@@ -915,10 +961,10 @@ export function Purchases() {
       XLSX.utils.book_append_sheet(wb, ws, "Purchase");
       const fileName = `purchase_${purchase.purchaseNumber}_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success(`Purchase ${purchase.purchaseNumber} exported successfully`);
+      toast.success(t("purchases.singleExported", { number: purchase.purchaseNumber }));
     } catch (error) {
       console.error('Single export error:', error);
-      toast.error("Failed to export purchase");
+      toast.error(t("purchases.singleExportFailed"));
     }
   };
 
@@ -926,25 +972,25 @@ export function Purchases() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Purchases Management</h2>
-          <p className="text-muted-foreground mt-1">Track and manage all purchase orders and inventory</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("purchases.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("purchases.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" className="gap-2">
                 <Download className="h-4 w-4" />
-                Export
+                {t("purchases.export")}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent>
               <DropdownMenuItem onClick={exportToExcel}>
-                <FileDown className="h-4 w-4 mr-2" />
-                Export as Excel
+                <FileDown className="h-4 w-4 me-2" />
+                {t("purchases.exportExcel")}
               </DropdownMenuItem>
               <DropdownMenuItem onClick={exportToPDF}>
-                <FileText className="h-4 w-4 mr-2" />
-                Export as PDF
+                <FileText className="h-4 w-4 me-2" />
+                {t("purchases.exportPdf")}
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
@@ -952,22 +998,22 @@ export function Purchases() {
             <DialogTrigger asChild>
               <Button variant="outline" className="gap-2">
                 <Tag className="h-4 w-4" />
-                Add Category
+                {t("purchases.addCategory")}
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-md">
               <DialogHeader>
-                <DialogTitle>Add New Category</DialogTitle>
-                <DialogDescription>Create a custom purchase category</DialogDescription>
+                <DialogTitle>{t("purchases.newCategoryTitle")}</DialogTitle>
+                <DialogDescription>{t("purchases.newCategoryDescription")}</DialogDescription>
               </DialogHeader>
               <div className="space-y-4 pt-4">
                 <div className="space-y-2">
-                  <Label htmlFor="categoryName">Category Name</Label>
+                  <Label htmlFor="categoryName">{t("purchases.categoryName")}</Label>
                   <Input 
                     id="categoryName" 
                     value={newCategoryName}
                     onChange={(e) => setNewCategoryName(e.target.value)}
-                    placeholder="Enter category name"
+                    placeholder={t("purchases.categoryNamePlaceholder")}
                   />
                 </div>
               </div>
@@ -975,8 +1021,8 @@ export function Purchases() {
                 <Button variant="outline" onClick={() => {
                   setIsAddCategoryDialogOpen(false);
                   setNewCategoryName("");
-                }}>Cancel</Button>
-                <Button onClick={handleAddCategory}>Add Category</Button>
+                }}>{t("common.cancel")}</Button>
+                <Button onClick={handleAddCategory}>{t("purchases.addCategory")}</Button>
               </div>
             </DialogContent>
           </Dialog>
@@ -985,18 +1031,18 @@ export function Purchases() {
             <DialogTrigger asChild>
               <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                New Purchase Order
+                {t("purchases.new")}
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-4xl">
               <DialogHeader>
-                <DialogTitle>Create Purchase Order</DialogTitle>
-                <DialogDescription>Enter purchase order details and items</DialogDescription>
+                <DialogTitle>{t("purchases.createTitle")}</DialogTitle>
+                <DialogDescription>{t("purchases.createDescription")}</DialogDescription>
               </DialogHeader>
               <div className="space-y-4 pt-4">
                 <div className="grid grid-cols-3 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="date">Date *</Label>
+                    <Label htmlFor="date">{t("purchases.dateRequired")}</Label>
                     <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
                   </div>
                   <div className="col-span-2">
@@ -1005,45 +1051,45 @@ export function Purchases() {
                       selectedSupplierId={selectedSupplierOption?.id}
                       onSupplierSelect={handleSupplierSelect}
                       onSupplierAdd={handleSupplierQuickAdd}
-                      label="Supplier"
-                      placeholder="Search supplier by name or mobile..."
+                      label={t("purchases.supplier")}
+                      placeholder={t("purchases.supplierSearchPlaceholder")}
                       required
                     />
                     {suppliersLoading && (
-                      <p className="mt-2 text-xs text-muted-foreground">Loading suppliers...</p>
+                      <p className="mt-2 text-xs text-muted-foreground">{t("purchases.loadingSuppliers")}</p>
                     )}
                     {suppliersError && (
-                      <p className="mt-2 text-xs text-destructive">Failed to load suppliers: {suppliersError}</p>
+                      <p className="mt-2 text-xs text-destructive">{t("purchases.suppliersFailed", { error: suppliersError })}</p>
                     )}
                     {selectedSupplierOption && (
                       <div className="mt-3 space-y-1 text-sm">
                         {availableSupplierCredit > 0 && (
                           <div className="flex items-center justify-between text-green-600 font-medium">
-                            <span>Supplier Balance (credit)</span>
-                            <span>{availableSupplierCredit.toLocaleString()} ر.س</span>
+                            <span>{t("purchases.supplierCredit")}</span>
+                            <span>{formatCurrency(availableSupplierCredit)}</span>
                           </div>
                         )}
                         {existingPayableBalance > 0 && (
                           <div className="flex items-center justify-between text-red-600 font-medium">
-                            <span>Amount Due to Supplier</span>
-                            <span>{existingPayableBalance.toLocaleString()} ر.س</span>
+                            <span>{t("purchases.amountDueToSupplier")}</span>
+                            <span>{formatCurrency(existingPayableBalance)}</span>
                           </div>
                         )}
                         {availableSupplierCredit <= 0 && existingPayableBalance <= 0 && (
-                          <div className="text-xs text-muted-foreground">Balance is currently settled</div>
+                          <div className="text-xs text-muted-foreground">{t("purchases.balanceSettled")}</div>
                         )}
                       </div>
                     )}
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="category">Category *</Label>
+                    <Label htmlFor="category">{t("purchases.categoryRequired")}</Label>
                     <Select value={category} onValueChange={setCategory}>
                       <SelectTrigger id="category">
-                        <SelectValue placeholder="Select category" />
+                        <SelectValue placeholder={t("purchases.selectCategory")} />
                       </SelectTrigger>
                       <SelectContent>
                         {allCategories.map((cat) => (
-                          <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                          <SelectItem key={cat} value={cat}>{optionLabel(CATEGORY_KEYS, cat)}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
@@ -1052,10 +1098,10 @@ export function Purchases() {
 
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
-                    <Label>Items *</Label>
+                    <Label>{t("purchases.itemsRequired")}</Label>
                     <Button type="button" variant="outline" size="sm" onClick={addItemRow}>
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add Item
+                      <Plus className="h-4 w-4 me-1" />
+                      {t("purchases.addItem")}
                     </Button>
                   </div>
                   
@@ -1063,16 +1109,16 @@ export function Purchases() {
                     {items.map((item, index) => (
                       <div key={item.id} className="grid grid-cols-12 gap-2 items-end">
                         <div className="col-span-5 space-y-1">
-                          <Label className="text-xs">Item Name</Label>
+                          <Label className="text-xs">{t("purchases.itemName")}</Label>
                           <Input 
                             value={item.itemName}
                             onChange={(e) => updateItem(index, "itemName", e.target.value)}
-                            placeholder="Item description"
+                            placeholder={t("purchases.itemPlaceholder")}
                             className="h-9"
                           />
                         </div>
                         <div className="col-span-2 space-y-1">
-                          <Label className="text-xs">Quantity</Label>
+                          <Label className="text-xs">{t("purchases.quantity")}</Label>
                           <Input 
                             type="number"
                             value={item.quantity}
@@ -1081,7 +1127,7 @@ export function Purchases() {
                           />
                         </div>
                         <div className="col-span-2 space-y-1">
-                          <Label className="text-xs">Unit Price</Label>
+                          <Label className="text-xs">{t("purchases.unitPrice")}</Label>
                           <Input 
                             type="number"
                             value={item.unitPrice}
@@ -1090,7 +1136,7 @@ export function Purchases() {
                           />
                         </div>
                         <div className="col-span-2 space-y-1">
-                          <Label className="text-xs">Total</Label>
+                          <Label className="text-xs">{t("common.total")}</Label>
                           <Input 
                             value={item.total.toFixed(2)}
                             disabled
@@ -1115,14 +1161,14 @@ export function Purchases() {
                     
                     <div className="pt-3 border-t space-y-2">
                       <div className="flex justify-between items-center text-sm">
-                        <span className="text-muted-foreground">Subtotal</span>
+                        <span className="text-muted-foreground">{t("purchases.subtotal")}</span>
                         <span className="font-medium">
-                          {subtotal.toLocaleString()} ر.س
+                          {formatCurrency(subtotal)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center text-sm">
                         <div className="flex items-center gap-2">
-                          <span className="text-muted-foreground">Tax</span>
+                          <span className="text-muted-foreground">{t("purchases.tax")}</span>
                           <Input 
                             type="number" 
                             value={taxRate} 
@@ -1133,13 +1179,13 @@ export function Purchases() {
                           <span className="text-muted-foreground">%</span>
                         </div>
                         <span className="font-medium">
-                          {taxAmount.toLocaleString()} ر.س
+                          {formatCurrency(taxAmount)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center pt-2 border-t">
-                        <span className="font-medium">Total Amount</span>
+                        <span className="font-medium">{t("purchases.totalAmount")}</span>
                         <span className="text-xl font-bold text-primary">
-                          {totalAmount.toLocaleString()} ر.س
+                          {formatCurrency(totalAmount)}
                         </span>
                       </div>
                     </div>
@@ -1148,7 +1194,7 @@ export function Purchases() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="paidAmount">Paid Amount (SAR)</Label>
+                    <Label htmlFor="paidAmount">{t("purchases.paidAmountSar")}</Label>
                     <Input 
                       id="paidAmount" 
                       type="number"
@@ -1168,13 +1214,13 @@ export function Purchases() {
                         htmlFor="useSupplierBalance"
                         className="text-sm font-normal text-muted-foreground"
                       >
-                        Use Supplier Balance
+                        {t("purchases.useSupplierBalance")}
                       </Label>
                     </div>
                     {selectedSupplierOption && (
                       <div className="space-y-1 pt-2 text-xs">
                         <div className="flex items-center justify-between">
-                          <span className="text-muted-foreground">Projected balance after order</span>
+                          <span className="text-muted-foreground">{t("purchases.projectedBalance")}</span>
                           <span
                             className={
                               projectedNetBalance > 0
@@ -1184,13 +1230,17 @@ export function Purchases() {
                                   : "text-muted-foreground font-medium"
                             }
                           >
-                            {Math.abs(projectedNetBalance).toLocaleString()} ر.س{" "}
-                            {projectedNetBalance > 0 ? "(due)" : projectedNetBalance < 0 ? "(credit)" : "(settled)"}
+                            {formatCurrency(Math.abs(projectedNetBalance))}{" "}
+                            {projectedNetBalance > 0
+                              ? t("purchases.balanceDue")
+                              : projectedNetBalance < 0
+                                ? t("purchases.balanceCredit")
+                                : t("purchases.balanceSettledShort")}
                           </span>
                         </div>
                         {!canUseSupplierBalance && availableSupplierCredit <= 0 && (
                           <p className="text-muted-foreground">
-                            No supplier credit available to apply.
+                            {t("purchases.noCredit")}
                           </p>
                         )}
                       </div>
@@ -1212,12 +1262,12 @@ export function Purchases() {
                         onClick={() => handleQuickPaymentFill("full")}
                         disabled={useSupplierBalance || totalAmount === 0}
                       >
-                        Full Amount
+                        {t("purchases.fullAmount")}
                       </Button>
                     </div>
                   </div>
                   <div className="space-y-2">
-                    <Label>Remaining Amount (SAR)</Label>
+                    <Label>{t("purchases.remainingAmountSar")}</Label>
                     <Input 
                       value={remainingAmount.toFixed(2)}
                       disabled
@@ -1228,21 +1278,21 @@ export function Purchases() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="paymentMethod">Payment Method</Label>
+                    <Label htmlFor="paymentMethod">{t("purchases.paymentMethod")}</Label>
                     <Select value={paymentMethod} onValueChange={setPaymentMethod}>
                       <SelectTrigger id="paymentMethod">
-                        <SelectValue placeholder="Select method" />
+                        <SelectValue placeholder={t("purchases.selectMethod")} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="cash">Cash</SelectItem>
-                        <SelectItem value="credit-card">Credit Card</SelectItem>
-                        <SelectItem value="bank-transfer">Bank Transfer</SelectItem>
-                        <SelectItem value="check">Check</SelectItem>
+                        <SelectItem value="cash">{t("purchases.method.cash")}</SelectItem>
+                        <SelectItem value="credit-card">{t("purchases.method.creditCard")}</SelectItem>
+                        <SelectItem value="bank-transfer">{t("purchases.method.bankTransfer")}</SelectItem>
+                        <SelectItem value="check">{t("purchases.method.check")}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="invoiceNumber">Invoice Number</Label>
+                    <Label htmlFor="invoiceNumber">{t("purchases.invoiceNumber")}</Label>
                     <Input 
                       id="invoiceNumber" 
                       value={invoiceNumber} 
@@ -1253,19 +1303,19 @@ export function Purchases() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
+                  <Label htmlFor="notes">{t("common.notes")}</Label>
                   <Textarea 
                     id="notes" 
                     value={notes} 
                     onChange={(e) => setNotes(e.target.value)}
-                    placeholder="Additional notes"
+                    placeholder={t("purchases.notesPlaceholder")}
                     rows={2}
                   />
                 </div>
               </div>
               <div className="flex justify-end gap-3 pt-4">
-                <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>Cancel</Button>
-                <Button onClick={handleAddPurchase} className="bg-purple-600 hover:bg-purple-700 text-white">Create Purchase Order</Button>
+                <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>{t("common.cancel")}</Button>
+                <Button onClick={handleAddPurchase} className="bg-purple-600 hover:bg-purple-700 text-white">{t("purchases.createTitle")}</Button>
               </div>
             </DialogContent>
           </Dialog>
@@ -1276,34 +1326,34 @@ export function Purchases() {
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Purchases</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("purchases.totalPurchases")}</CardTitle>
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalPurchases.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">All time</p>
+            <div className="text-2xl font-bold">{formatCurrency(totalPurchases)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("purchases.allTime")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Paid</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("purchases.paid")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{totalPaidAmount.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Completed payments</p>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(totalPaidAmount)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("purchases.completedPayments")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Unpaid</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.unpaid")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-red-600">{unpaidAmount.toLocaleString()} ر.س</div>
-            <p className="text-xs text-muted-foreground mt-1">Pending payments</p>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(unpaidAmount)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("purchases.pendingPayments")}</p>
           </CardContent>
         </Card>
       </div>
@@ -1312,39 +1362,39 @@ export function Purchases() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Purchase Orders</CardTitle>
+            <CardTitle>{t("purchases.orders")}</CardTitle>
             <div className="flex items-center gap-2">
               <Select value={filterCategory} onValueChange={setFilterCategory}>
                 <SelectTrigger className="w-[180px]">
-                  <Package className="h-4 w-4 mr-2" />
+                  <Package className="h-4 w-4 me-2" />
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
+                  <SelectItem value="all">{t("purchases.allCategories")}</SelectItem>
                   {allCategories.map((cat) => (
-                    <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                    <SelectItem key={cat} value={cat}>{optionLabel(CATEGORY_KEYS, cat)}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
               <Select value={filterPaymentStatus} onValueChange={setFilterPaymentStatus}>
                 <SelectTrigger className="w-[150px]">
-                  <Filter className="h-4 w-4 mr-2" />
+                  <Filter className="h-4 w-4 me-2" />
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="unpaid">Unpaid</SelectItem>
-                  <SelectItem value="partial">Partial</SelectItem>
-                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  <SelectItem value="unpaid">{t("status.unpaid")}</SelectItem>
+                  <SelectItem value="partial">{t("status.partial")}</SelectItem>
+                  <SelectItem value="paid">{t("status.paid")}</SelectItem>
                 </SelectContent>
               </Select>
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search purchases..."
+                  placeholder={t("purchases.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[250px]"
+                  className="ps-8 w-[250px]"
                 />
               </div>
             </div>
@@ -1352,7 +1402,7 @@ export function Purchases() {
         </CardHeader>
         <CardContent>
           {purchaseOrdersLoading && (
-            <div className="mb-4 text-sm text-muted-foreground">Loading purchase orders...</div>
+            <div className="mb-4 text-sm text-muted-foreground">{t("purchases.loading")}</div>
           )}
           {purchaseOrdersError && (
             <div className="mb-4 text-sm text-destructive">{purchaseOrdersError}</div>
@@ -1360,26 +1410,26 @@ export function Purchases() {
           {!purchaseOrdersLoading && !purchaseOrdersError && filteredPurchases.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <ShoppingCart className="h-12 w-12 mx-auto mb-3 opacity-20" />
-              <p>No purchases found. Create your first purchase order!</p>
+              <p>{t("purchases.empty")}</p>
             </div>
           ) : (
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Purchase #</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Supplier</TableHead>
-                  <TableHead>Category</TableHead>
-                  <TableHead>Items</TableHead>
-                  <TableHead>Subtotal</TableHead>
-                  <TableHead>Tax</TableHead>
-                  <TableHead>Total</TableHead>
-                  <TableHead>Paid</TableHead>
-                  <TableHead>Remaining</TableHead>
-                  <TableHead>Payment</TableHead>
-                  <TableHead>Delivery</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("purchases.number")}</TableHead>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("purchases.supplier")}</TableHead>
+                  <TableHead>{t("purchases.category")}</TableHead>
+                  <TableHead>{t("purchases.items")}</TableHead>
+                  <TableHead>{t("purchases.subtotal")}</TableHead>
+                  <TableHead>{t("purchases.tax")}</TableHead>
+                  <TableHead>{t("common.total")}</TableHead>
+                  <TableHead>{t("purchases.paid")}</TableHead>
+                  <TableHead>{t("purchases.remaining")}</TableHead>
+                  <TableHead>{t("purchases.payment")}</TableHead>
+                  <TableHead>{t("purchases.delivery")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -1391,47 +1441,43 @@ export function Purchases() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      {new Date(purchase.date).toLocaleDateString('en-GB', { 
-                        month: 'short', 
-                        day: 'numeric', 
-                        year: 'numeric' 
-                      })}
+                      {formatDate(purchase.date)}
                     </TableCell>
                     <TableCell>{purchase.supplier}</TableCell>
                     <TableCell>
                       <Badge className={categoryColors[purchase.category] || categoryColors.Other}>
-                        {purchase.category}
+                        {optionLabel(CATEGORY_KEYS, purchase.category)}
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <div className="text-sm text-muted-foreground">{purchase.items.length} items</div>
+                      <div className="text-sm text-muted-foreground">{t("purchases.itemCount", { count: purchase.items.length })}</div>
                     </TableCell>
                     <TableCell className="font-medium">
-                      {purchase.subtotal.toLocaleString()} ر.س
+                      {formatCurrency(purchase.subtotal)}
                     </TableCell>
                     <TableCell className="text-xs text-muted-foreground">
-                      {purchase.taxAmount.toLocaleString()} ر.س
+                      {formatCurrency(purchase.taxAmount)}
                     </TableCell>
                     <TableCell className="font-semibold">
-                      {purchase.totalAmount.toLocaleString()} ر.س
+                      {formatCurrency(purchase.totalAmount)}
                     </TableCell>
                     <TableCell className="text-green-600">
-                      {purchase.paidAmount.toLocaleString()} ر.س
+                      {formatCurrency(purchase.paidAmount)}
                     </TableCell>
                     <TableCell className={purchase.remainingAmount > 0 ? "text-orange-600 font-medium" : "text-muted-foreground"}>
-                      {purchase.remainingAmount.toLocaleString()} ر.س
+                      {formatCurrency(purchase.remainingAmount)}
                     </TableCell>
                     <TableCell>
                       <Badge className={paymentStatusColors[purchase.paymentStatus]}>
-                        {purchase.paymentStatus}
+                        {t(PAYMENT_STATUS_KEYS[purchase.paymentStatus])}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <Badge className={deliveryStatusColors[purchase.deliveryStatus]}>
-                        {purchase.deliveryStatus}
+                        {t(DELIVERY_STATUS_KEYS[purchase.deliveryStatus])}
                       </Badge>
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end">
                       <div className="flex items-center justify-end gap-2">
                         <Button
                           variant="ghost"
@@ -1441,9 +1487,19 @@ export function Purchases() {
                             setIsDetailsDialogOpen(true);
                           }}
                         >
-                          <FileText className="h-4 w-4 mr-1" />
-                          View
+                          <FileText className="h-4 w-4 me-1" />
+                          {t("common.view")}
                         </Button>
+                        {purchase.deliveryStatus !== "delivered" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t("purchases.markReceived")}
+                            onClick={() => void handleMarkReceived(purchase)}
+                          >
+                            <PackageCheck className="h-4 w-4 text-green-600" />
+                          </Button>
+                        )}
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
                             <Button variant="ghost" size="sm">
@@ -1452,12 +1508,12 @@ export function Purchases() {
                           </DropdownMenuTrigger>
                           <DropdownMenuContent>
                             <DropdownMenuItem onClick={() => exportSinglePurchaseToExcel(purchase)}>
-                              <FileDown className="h-4 w-4 mr-2" />
-                              Export as Excel
+                              <FileDown className="h-4 w-4 me-2" />
+                              {t("purchases.exportExcel")}
                             </DropdownMenuItem>
                             <DropdownMenuItem onClick={() => exportSinglePurchaseToPDF(purchase)}>
-                              <FileText className="h-4 w-4 mr-2" />
-                              Export as PDF
+                              <FileText className="h-4 w-4 me-2" />
+                              {t("purchases.exportPdf")}
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -1476,46 +1532,46 @@ export function Purchases() {
       <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
         <DialogContent className="w-full sm:max-w-[95vw] lg:max-w-5xl xl:max-w-6xl max-h-[90vh] overflow-hidden">
           <DialogHeader className="px-2 sm:px-4">
-            <DialogTitle>Purchase Order Details - {selectedPurchase?.purchaseNumber}</DialogTitle>
-            <DialogDescription>Complete purchase order information</DialogDescription>
+            <DialogTitle>{t("purchases.detailsTitle", { number: selectedPurchase?.purchaseNumber ?? "" })}</DialogTitle>
+            <DialogDescription>{t("purchases.detailsDescription")}</DialogDescription>
           </DialogHeader>
 
           {selectedPurchase && (
             <div className="flex flex-col gap-6 px-2 sm:px-4 pb-4 lg:pb-6 overflow-y-auto max-h-[calc(90vh-6rem)]">
               <Card>
                 <CardHeader>
-                  <CardTitle>Order Information</CardTitle>
+                  <CardTitle>{t("purchases.orderInformation")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground">Purchase Number</Label>
+                      <Label className="text-muted-foreground">{t("purchases.purchaseNumber")}</Label>
                       <p className="font-mono break-all">{selectedPurchase.purchaseNumber}</p>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground">Date</Label>
-                      <p>{new Date(selectedPurchase.date).toLocaleDateString('en-GB')}</p>
+                      <Label className="text-muted-foreground">{t("common.date")}</Label>
+                      <p>{formatDate(selectedPurchase.date)}</p>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground">Supplier</Label>
+                      <Label className="text-muted-foreground">{t("purchases.supplier")}</Label>
                       <p className="font-medium break-words">{selectedPurchase.supplier}</p>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground">Category</Label>
+                      <Label className="text-muted-foreground">{t("purchases.category")}</Label>
                       <Badge className={categoryColors[selectedPurchase.category]}>
-                        {selectedPurchase.category}
+                        {optionLabel(CATEGORY_KEYS, selectedPurchase.category)}
                       </Badge>
                     </div>
                     {selectedPurchase.invoiceNumber && (
                       <div className="space-y-1">
-                        <Label className="text-muted-foreground">Invoice Number</Label>
+                        <Label className="text-muted-foreground">{t("purchases.invoiceNumber")}</Label>
                         <p className="font-mono break-all">{selectedPurchase.invoiceNumber}</p>
                       </div>
                     )}
                     {selectedPurchase.paymentMethod && (
                       <div className="space-y-1">
-                        <Label className="text-muted-foreground">Payment Method</Label>
-                        <p>{formatPaymentMethod(selectedPurchase.paymentMethod)}</p>
+                        <Label className="text-muted-foreground">{t("purchases.paymentMethod")}</Label>
+                        <p>{optionLabel(PAYMENT_METHOD_KEYS, selectedPurchase.paymentMethod)}</p>
                       </div>
                     )}
                   </div>
@@ -1524,19 +1580,19 @@ export function Purchases() {
 
               <Card>
                 <CardHeader>
-                  <CardTitle>Items</CardTitle>
+                  <CardTitle>{t("purchases.items")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="overflow-x-auto">
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Item Name</TableHead>
-                          <TableHead>Quantity</TableHead>
-                          <TableHead>Returned Qty</TableHead>
-                          <TableHead>Unit Price</TableHead>
-                          <TableHead>Total</TableHead>
-                          <TableHead>Returned Total</TableHead>
+                          <TableHead>{t("purchases.itemName")}</TableHead>
+                          <TableHead>{t("purchases.quantity")}</TableHead>
+                          <TableHead>{t("purchases.returnedQty")}</TableHead>
+                          <TableHead>{t("purchases.unitPrice")}</TableHead>
+                          <TableHead>{t("common.total")}</TableHead>
+                          <TableHead>{t("purchases.returnedTotal")}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -1545,34 +1601,34 @@ export function Purchases() {
                             <TableCell>{item.itemName}</TableCell>
                             <TableCell>{item.quantity}</TableCell>
                             <TableCell>
-                              {item.returnedQuantity ? item.returnedQuantity.toLocaleString() : "0"}
+                              {formatNumber(item.returnedQuantity ?? 0)}
                             </TableCell>
-                            <TableCell>{item.unitPrice.toLocaleString()} ر.س</TableCell>
-                            <TableCell className="font-medium">{item.total.toLocaleString()} ر.س</TableCell>
+                            <TableCell>{formatCurrency(item.unitPrice)}</TableCell>
+                            <TableCell className="font-medium">{formatCurrency(item.total)}</TableCell>
                             <TableCell className="font-medium">
-                              {item.returnedAmount ? item.returnedAmount.toLocaleString() : "0"} ر.س
+                              {formatCurrency(item.returnedAmount ?? 0)}
                             </TableCell>
                           </TableRow>
                         ))}
                         <TableRow className="border-t-2">
-                          <TableCell colSpan={5} className="text-right font-medium">Subtotal</TableCell>
-                          <TableCell className="font-medium">{selectedPurchase.subtotal.toLocaleString()} ر.س</TableCell>
+                          <TableCell colSpan={5} className="text-end font-medium">{t("purchases.subtotal")}</TableCell>
+                          <TableCell className="font-medium">{formatCurrency(selectedPurchase.subtotal)}</TableCell>
                         </TableRow>
                         <TableRow>
-                          <TableCell colSpan={5} className="text-right text-muted-foreground">Tax (15%)</TableCell>
-                          <TableCell className="text-muted-foreground">{selectedPurchase.taxAmount.toLocaleString()} ر.س</TableCell>
+                          <TableCell colSpan={5} className="text-end text-muted-foreground">{t("purchases.taxRate", { rate: selectedPurchase.taxRate })}</TableCell>
+                          <TableCell className="text-muted-foreground">{formatCurrency(selectedPurchase.taxAmount)}</TableCell>
                         </TableRow>
                         <TableRow className="border-t">
-                          <TableCell colSpan={5} className="text-right font-bold">Total Amount</TableCell>
-                          <TableCell className="font-bold text-primary">{selectedPurchase.totalAmount.toLocaleString()} ر.س</TableCell>
+                          <TableCell colSpan={5} className="text-end font-bold">{t("purchases.totalAmount")}</TableCell>
+                          <TableCell className="font-bold text-primary">{formatCurrency(selectedPurchase.totalAmount)}</TableCell>
                         </TableRow>
                         <TableRow className="bg-green-50">
-                          <TableCell colSpan={5} className="text-right font-medium text-green-700">Paid Amount</TableCell>
-                          <TableCell className="font-medium text-green-700">{selectedPurchase.paidAmount.toLocaleString()} ر.س</TableCell>
+                          <TableCell colSpan={5} className="text-end font-medium text-green-700">{t("purchases.paidAmount")}</TableCell>
+                          <TableCell className="font-medium text-green-700">{formatCurrency(selectedPurchase.paidAmount)}</TableCell>
                         </TableRow>
                         <TableRow className="bg-orange-50">
-                          <TableCell colSpan={5} className="text-right font-medium text-orange-700">Remaining Amount</TableCell>
-                          <TableCell className="font-medium text-orange-700">{selectedPurchase.remainingAmount.toLocaleString()} ر.س</TableCell>
+                          <TableCell colSpan={5} className="text-end font-medium text-orange-700">{t("purchases.remainingAmount")}</TableCell>
+                          <TableCell className="font-medium text-orange-700">{formatCurrency(selectedPurchase.remainingAmount)}</TableCell>
                         </TableRow>
                       </TableBody>
                     </Table>
@@ -1582,31 +1638,31 @@ export function Purchases() {
 
               <Card>
                 <CardHeader>
-                  <CardTitle>Status Information</CardTitle>
+                  <CardTitle>{t("purchases.statusInformation")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground">Payment Status</Label>
+                      <Label className="text-muted-foreground">{t("purchases.paymentStatus")}</Label>
                       <Badge className={paymentStatusColors[selectedPurchase.paymentStatus]}>
-                        {selectedPurchase.paymentStatus}
+                        {t(PAYMENT_STATUS_KEYS[selectedPurchase.paymentStatus])}
                       </Badge>
                     </div>
                     <div className="space-y-1">
-                      <Label className="text-muted-foreground">Delivery Status</Label>
+                      <Label className="text-muted-foreground">{t("purchases.deliveryStatus")}</Label>
                       <Badge className={deliveryStatusColors[selectedPurchase.deliveryStatus]}>
-                        {selectedPurchase.deliveryStatus}
+                        {t(DELIVERY_STATUS_KEYS[selectedPurchase.deliveryStatus])}
                       </Badge>
                     </div>
                     {selectedPurchase.deliveryDate && (
                       <div className="space-y-1">
-                        <Label className="text-muted-foreground">Delivery Date</Label>
-                        <p>{new Date(selectedPurchase.deliveryDate).toLocaleDateString('en-GB')}</p>
+                        <Label className="text-muted-foreground">{t("purchases.deliveryDate")}</Label>
+                        <p>{formatDate(selectedPurchase.deliveryDate)}</p>
                       </div>
                     )}
                     {selectedPurchase.notes && (
                       <div className="md:col-span-2 space-y-1">
-                        <Label className="text-muted-foreground">Notes</Label>
+                        <Label className="text-muted-foreground">{t("common.notes")}</Label>
                         <p>{selectedPurchase.notes}</p>
                       </div>
                     )}
@@ -0,0 +1,114 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "./ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { ScrollArea } from "./ui/scroll-area";
+import { diffQuotationSnapshots, fetchQuotationVersions, quotationSnapshot } from "../lib/quotations";
+import { useLocale } from "../lib/i18n";
+import type { Quotations } from "../../supabase/models/quotations";
+import type { Delegates } from "../../supabase/models/delegates";
+
+interface QuotationVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quotation: Quotations | null;
+  delegates: Delegates[];
+}
+
+/**
+ * Versions of a quotation, newest first, each with what changed from the version before it
+ */
+export function QuotationVersionsDialog({ open, onOpenChange, quotation, delegates }: QuotationVersionsDialogProps) {
+  const { t, formatDateTime } = useLocale();
+  const quotationId = quotation?.quotation_id ?? "";
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["quotation_versions", quotationId, quotation?.quotation_version],
+    queryFn: () => fetchQuotationVersions(quotationId),
+    enabled: open && !!quotationId,
+  });
+
+  const entries = useMemo(() => {
+    if (!quotation) return [];
+    const delegateName = (delegateId: string | null) =>
+      delegateId ? delegates.find((delegate) => delegate.delegate_id === delegateId)?.delegate_name ?? t("common.unknown") : t("common.none");
+
+    // A stored version is saved when the next one replaces it, so version n was made when version n - 1
+    // was stored, with that revision's summary
+    const snapshots = [
+      ...versions.map((version) => ({ version: version.quotation_version, snapshot: version.snapshot })),
+      { version: quotation.quotation_version, snapshot: quotationSnapshot(quotation) },
+    ];
+
+    return snapshots
+      .map((entry, index) => ({
+        ...entry,
+        madeAt: index === 0 ? quotation.created_at : versions[index - 1].created_at,
+        summary: index === 0 ? null : versions[index - 1].change_summary,
+        isCurrent: index === snapshots.length - 1,
+        changes: index === 0 ? [] : diffQuotationSnapshots(snapshots[index - 1].snapshot, entry.snapshot, delegateName),
+      }))
+      .reverse();
+  }, [quotation, versions, delegates, t]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("quotationVersions.title", { number: quotation?.quotation_number ?? "" })}</DialogTitle>
+          <DialogDescription>{t("quotationVersions.description")}</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-3 pe-3">
+            {isLoading ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">{t("common.loading")}</p>
+            ) : (
+              entries.map((entry) => (
+                <div key={entry.version} className="space-y-2 rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">v{entry.version}</span>
+                      {entry.isCurrent && (
+                        <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">
+                          {t("quotationVersions.current")}
+                        </Badge>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {t(entry.version === 1 ? "quotationVersions.created" : "quotationVersions.revised", { date: formatDateTime(entry.madeAt) })}
+                    </span>
+                  </div>
+                  {entry.summary && <p className="text-xs italic text-muted-foreground">“{entry.summary}”</p>}
+                  {entry.version === 1 ? (
+                    <p className="text-xs text-muted-foreground">{t("quotationVersions.original")}</p>
+                  ) : entry.changes.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">{t("quotationVersions.noChanges")}</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-start text-muted-foreground">
+                          <th className="py-1 pe-2 font-medium">{t("quotationVersions.field")}</th>
+                          <th className="py-1 pe-2 font-medium">{t("quotationVersions.before")}</th>
+                          <th className="py-1 font-medium">{t("quotationVersions.after")}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {entry.changes.map((change) => (
+                          <tr key={change.field} className="border-t align-top">
+                            <td className="py-1 pe-2 font-medium">{change.field}</td>
+                            <td className="py-1 pe-2 text-red-700 line-through decoration-red-300">{change.before}</td>
+                            <td className="py-1 text-green-700">{change.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
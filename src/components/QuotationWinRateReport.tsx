@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "./ui/table";
+import { quotationWinRates } from "../lib/quotations";
+import { useLocale } from "../lib/i18n";
+import type { Quotations } from "../../supabase/models/quotations";
+import type { Customers } from "../../supabase/models/customers";
+import type { Delegates } from "../../supabase/models/delegates";
+
+interface QuotationWinRateReportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quotations: Quotations[];
+  customers: Customers[];
+  delegates: Delegates[];
+}
+
+const PERIODS = {
+  all: { label: "winRate.allTime", days: null },
+  "365": { label: "winRate.last12Months", days: 365 },
+  "90": { label: "winRate.last90Days", days: 90 },
+  "30": { label: "winRate.last30Days", days: 30 },
+} as const;
+
+/**
+ * Quotations won per delegate: won / (won + lost), where rejected and expired quotations are lost and
+ * open ones are not counted yet. Values are before VAT.
+ */
+export function QuotationWinRateReport({ open, onOpenChange, quotations, customers, delegates }: QuotationWinRateReportProps) {
+  const { t, formatNumber } = useLocale();
+  const [period, setPeriod] = useState<keyof typeof PERIODS>("all");
+
+  const formatRate = (rate: number | null) => (rate === null ? "-" : formatNumber(rate, { style: "percent", maximumFractionDigits: 0 }));
+  const formatAmount = (value: number) =>
+    formatNumber(value, { style: "currency", currency: "SAR", maximumFractionDigits: 0, minimumFractionDigits: 0 });
+
+  const rows = useMemo(() => {
+    const days = PERIODS[period].days;
+    const since = days === null ? null : new Date(Date.now() - days * 86400000).toISOString();
+    const inPeriod = since === null ? quotations : quotations.filter((quotation) => (quotation.created_at ?? "") >= since);
+    return quotationWinRates(inPeriod, customers, delegates);
+  }, [period, quotations, customers, delegates]);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      quoted: sum.quoted + row.quoted,
+      open: sum.open + row.open,
+      won: sum.won + row.won,
+      lost: sum.lost + row.lost,
+      quotedValue: sum.quotedValue + row.quotedValue,
+      wonValue: sum.wonValue + row.wonValue,
+    }),
+    { quoted: 0, open: 0, won: 0, lost: 0, quotedValue: 0, wonValue: 0 }
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t("winRate.title")}</DialogTitle>
+          <DialogDescription>{t("winRate.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Select value={period} onValueChange={(value) => setPeriod(value as keyof typeof PERIODS)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PERIODS).map(([value, option]) => (
+                <SelectItem key={value} value={value}>
+                  {t(option.label)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{t("winRate.empty")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("winRate.delegate")}</TableHead>
+                <TableHead className="text-end">{t("winRate.quoted")}</TableHead>
+                <TableHead className="text-end">{t("winRate.open")}</TableHead>
+                <TableHead className="text-end">{t("winRate.won")}</TableHead>
+                <TableHead className="text-end">{t("winRate.lost")}</TableHead>
+                <TableHead className="text-end">{t("quotations.winRate")}</TableHead>
+                <TableHead className="text-end">{t("winRate.quotedValue")}</TableHead>
+                <TableHead className="text-end">{t("winRate.wonValue")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.delegateId ?? "none"}>
+                  <TableCell className={row.delegateId ? "font-medium" : "text-muted-foreground"}>
+                    {row.delegateId ? row.delegateName : t("quotations.noDelegate")}
+                  </TableCell>
+                  <TableCell className="text-end">{row.quoted}</TableCell>
+                  <TableCell className="text-end">{row.open}</TableCell>
+                  <TableCell className="text-end text-green-700">{row.won}</TableCell>
+                  <TableCell className="text-end text-red-700">{row.lost}</TableCell>
+                  <TableCell className="text-end font-semibold">{formatRate(row.winRate)}</TableCell>
+                  <TableCell className="text-end">{formatAmount(row.quotedValue)}</TableCell>
+                  <TableCell className="text-end">{formatAmount(row.wonValue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-semibold">{t("common.total")}</TableCell>
+                <TableCell className="text-end">{totals.quoted}</TableCell>
+                <TableCell className="text-end">{totals.open}</TableCell>
+                <TableCell className="text-end">{totals.won}</TableCell>
+                <TableCell className="text-end">{totals.lost}</TableCell>
+                <TableCell className="text-end font-semibold">
+                  {formatRate(totals.won + totals.lost > 0 ? totals.won / (totals.won + totals.lost) : null)}
+                </TableCell>
+                <TableCell className="text-end">{formatAmount(totals.quotedValue)}</TableCell>
+                <TableCell className="text-end">{formatAmount(totals.wonValue)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
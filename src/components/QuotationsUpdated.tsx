@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { Plus, Search, Printer, Send, Eye, X, Trash2, Upload, FileText, MoreVertical, Download } from "lucide-react";
+import { Plus, Search, Printer, Send, Eye, X, Trash2, Upload, FileText, MoreVertical, Download, FileSignature, TrendingUp } from "lucide-react";
 import * as XLSX from "@e965/xlsx";
-import QRCode from "qrcode";
+import { useQuery } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -12,8 +12,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from ".
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
 import { uploadFile, getFileUrl, getFilesByOwner } from "../lib/storage";
 import { getCompanyInfo, getCompanyName } from "../lib/companyInfo";
+import { buildZatcaQrFields, generateZatcaQrDataUrl } from "../lib/zatcaQr";
 import { Separator } from "./ui/separator";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "./ui/dropdown-menu";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Textarea } from "./ui/textarea";
 import { Switch } from "./ui/switch";
@@ -26,6 +27,22 @@ import { thunks, selectors } from "../redux-toolkit/slices";
 import { getPrintLogo } from "../lib/getPrintLogo";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { supabase } from "../lib/supabaseClient";
+import { fetchLatestSignatureStatuses } from "../lib/documentSigning";
+import { downloadDocumentPdf } from "../lib/documentPdf";
+import { useRecordRoute } from "../lib/router";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import { SignatureRequestDialog } from "./SignatureRequestDialog";
+import { QuotationVersionsDialog } from "./QuotationVersionsDialog";
+import { QuotationWinRateReport } from "./QuotationWinRateReport";
+import {
+  effectiveQuotationStatus,
+  quotationValidUntil,
+  reviseQuotation,
+  type QuotationContractDraft,
+} from "../lib/quotations";
+import type { QuotationStatus, Quotations as QuotationRow } from "../../supabase/models/quotations";
+import type { Customers } from "../../supabase/models/customers";
+import type { Delegates } from "../../supabase/models/delegates";
 
 interface QuotationItem {
   id: number;
@@ -68,7 +85,12 @@ interface Quotation {
   totalAfterDiscount: number;
   totalVAT: number;
   grandTotal: number;
-  status: "sent" | "pending" | "cancelled";
+  status: QuotationStatus;
+  version: number;
+  customerId: string | null;
+  delegateId: string | null;
+  convertedInvoiceId: string | null;
+  convertedContractId: string | null;
   discountType?: "percentage" | "fixed";
   discountAmount?: number;
   logoFilename?: string | null;
@@ -77,6 +99,14 @@ interface Quotation {
 
 const VAT_RATE = 0.15;
 
+const STATUS_BADGES: Record<QuotationStatus, { icon: string; className: string }> = {
+  draft: { icon: "📝", className: "bg-gray-50 text-gray-700 border-gray-200" },
+  sent: { icon: "📤", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  accepted: { icon: "✅", className: "bg-green-50 text-green-700 border-green-200" },
+  rejected: { icon: "❌", className: "bg-red-50 text-red-700 border-red-200" },
+  expired: { icon: "⌛", className: "bg-orange-50 text-orange-700 border-orange-200" },
+};
+
 // Data comes from Supabase via Redux now
 
 interface QuotationsProps {
@@ -84,15 +114,18 @@ interface QuotationsProps {
   systemNameAr: string;
   systemNameEn: string;
   onConvertToInvoice?: (quotationData: any) => void;
+  onConvertToContract?: (draft: QuotationContractDraft) => void;
 }
 
-export function Quotations({ onConvertToInvoice }: QuotationsProps) {
+export function Quotations({ onConvertToInvoice, onConvertToContract }: QuotationsProps) {
   const dispatch = useAppDispatch();
   const dbQuotations = useAppSelector(selectors.quotations.selectAll) as any[];
   const dbInventory = useAppSelector(selectors.inventory.selectAll) as any[];
   const dbCustomers = useAppSelector(selectors.customers.selectAll) as any[];
+  const dbDelegates = useAppSelector(selectors.delegates.selectAll) as Delegates[];
   const loading = useAppSelector(selectors.quotations.selectLoading);
   const loadError = useAppSelector(selectors.quotations.selectError);
+  const { t, formatNumber, formatCurrency, formatDate } = useLocale();
   const [sortOrder, setSortOrder] = useState<"desc" | "asc">("desc"); // Default to descending (newest first)
   
   useEffect(() => {
@@ -101,6 +134,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
     }));
     dispatch(thunks.inventory.fetchAll(undefined));
     dispatch(thunks.customers.fetchAll(undefined));
+    dispatch(thunks.delegates.fetchAll(undefined));
   }, [dispatch]);
   // Create quotation number map similar to invoices - based on sorted order
   const quotationNumberMap = useMemo(() => {
@@ -131,7 +165,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       const quotationDate = quotation.quotation_date ?? quotation.created_at ?? new Date().toISOString();
       const quotationYear = new Date(quotationDate).getFullYear();
       map.set(quotation.quotation_id, {
-        quotationNumber: `QT-${quotationYear}-${String(index + 1).padStart(3, "0")}`,
+        quotationNumber: quotation.quotation_number || `QT-${quotationYear}-${String(index + 1).padStart(3, "0")}`,
         sequence: index + 1,
       });
     });
@@ -223,7 +257,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
         dbQuotationId: q.quotation_id,
         quotationNumber: quotationMeta?.quotationNumber ?? `QT${String(idx + 1).padStart(3, "0")}`,
         date: (q.created_at ?? '').slice(0,10) || new Date().toISOString().slice(0,10),
-        expiryDate: q.quotation_validity ? new Date(Date.now() + Number(q.quotation_validity) * 86400000).toISOString().slice(0,10) : new Date().toISOString().slice(0,10),
+        expiryDate: q.valid_until ?? quotationValidUntil(q.created_at ?? new Date().toISOString(), q.quotation_validity),
         customerName: q.customer_name ?? '',
         mobile: q.phone_number ? String(q.phone_number) : '',
         location: q.location ?? '',
@@ -278,7 +312,12 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
         totalAfterDiscount: totals.totalAfterDiscount,
         totalVAT: totals.totalVAT,
         grandTotal: totals.grandTotal,
-        status: ((q.quotation_summary ?? 'pending') as 'pending' | 'sent' | 'cancelled'),
+        status: effectiveQuotationStatus(q),
+        version: q.quotation_version ?? 1,
+        customerId: q.customer_id ?? null,
+        delegateId: q.delegate_id ?? null,
+        convertedInvoiceId: q.converted_invoice_id ?? null,
+        convertedContractId: q.converted_contract_id ?? null,
       } as Quotation;
     });
   }, [dbQuotations, dbCustomers, quotationNumberMap, sortOrder]);
@@ -287,6 +326,50 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [selectedQuotation, setSelectedQuotation] = useState<Quotation | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [signatureQuotation, setSignatureQuotation] = useState<Quotation | null>(null);
+  const [revisingQuotation, setRevisingQuotation] = useState<Quotation | null>(null);
+  const [changeSummary, setChangeSummary] = useState("");
+  const [versionsQuotationId, setVersionsQuotationId] = useState<string | null>(null);
+  const [isWinRateOpen, setIsWinRateOpen] = useState(false);
+
+  // The details dialog follows the URL (/quotations/<id>), so quotation links open it
+  const { recordId: linkedQuotationId, openRecord: openQuotation, closeRecord: closeQuotation } = useRecordRoute("quotations");
+  useEffect(() => {
+    if (!linkedQuotationId) {
+      setIsViewDialogOpen(false);
+      return;
+    }
+
+    const quotation = quotations.find((q) => q.dbQuotationId === linkedQuotationId);
+    if (quotation) {
+      setSelectedQuotation(quotation);
+      setIsViewDialogOpen(true);
+      return;
+    }
+
+    // Not in the list (yet): only give up when the quotation does not exist
+    let cancelled = false;
+    void supabase
+      .from("quotations")
+      .select("quotation_id")
+      .eq("quotation_id", linkedQuotationId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (!cancelled && (error || !data)) {
+          toast.error(translateCurrent("quotations.notFound"));
+          closeQuotation();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedQuotationId, quotations, closeQuotation]);
+
+  // Latest e-signature link of each quotation, for the signature badge
+  const { data: signatureStatuses, refetch: refetchSignatureStatuses } = useQuery({
+    queryKey: ["document_signature_requests", "quotation"],
+    queryFn: () => fetchLatestSignatureStatuses("quotation"),
+  });
 
   // Customer management - map from database to CustomerSelector format
   const customers: Customer[] = useMemo(() => {
@@ -338,6 +421,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
   const [isUsingDefaultStamp, setIsUsingDefaultStamp] = useState(true);
   const [_stampPosition, setStampPosition] = useState({ x: 50, y: 50 });
   const [vatEnabled, setVatEnabled] = useState(true);
+  const [selectedDelegateId, setSelectedDelegateId] = useState<string | null>(null);
 
   // Print date selection state
   const [printDateOption, setPrintDateOption] = useState<"quotation_date" | "today" | "custom">("quotation_date");
@@ -496,13 +580,13 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
 
       if (logoUrl) {
         setCompanyLogo(logoUrl);
-        toast.success("Logo uploaded successfully");
+        toast.success(t("quotations.logoUploaded"));
       } else {
-        toast.error("Logo uploaded but URL retrieval failed");
+        toast.error(t("quotations.logoUrlFailed"));
       }
     } catch (error: any) {
       console.error('Error uploading logo:', error);
-      toast.error(error.message || 'Failed to upload logo');
+      toast.error(error.message || t("quotations.logoUploadFailed"));
     }
   };
 
@@ -555,13 +639,13 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       if (stampUrl) {
         setStamp(stampUrl);
         setIsStampRemoved(false);
-        toast.success("Stamp uploaded successfully");
+        toast.success(t("quotations.stampUploaded"));
       } else {
-        toast.error("Stamp uploaded but URL retrieval failed");
+        toast.error(t("quotations.stampUrlFailed"));
       }
     } catch (error: any) {
       console.error('Error uploading stamp:', error);
-      toast.error(error.message || 'Failed to upload stamp');
+      toast.error(error.message || t("quotations.stampUploadFailed"));
     }
   };
 
@@ -571,7 +655,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       const reader = new FileReader();
       reader.onloadend = () => {
         updateItemImage(itemId, reader.result as string);
-        toast.success("Image uploaded successfully");
+        toast.success(t("quotations.imageUploaded"));
       };
       reader.readAsDataURL(file);
     }
@@ -634,7 +718,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       vat: 0,
       total: 0
     }]);
-    toast.success("Manual item added");
+    toast.success(t("quotations.manualItemAdded"));
   };
 
   const addInventoryItem = () => {
@@ -653,7 +737,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       vat: 0,
       total: 0
     }]);
-    toast.success("Inventory item added - please select from dropdown");
+    toast.success(t("quotations.inventoryItemAdded"));
   };
 
   const removeItem = (id: number) => {
@@ -672,6 +756,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       setTaxNumber(customer.taxNumber || "");
       const original = dbCustomers[customer.id - 1];
       setSelectedCustomerDbId(original?.customer_id);
+      setSelectedDelegateId(original?.delegate_id ?? null);
     } else {
       // Clear selection
       setSelectedCustomerId(undefined);
@@ -737,7 +822,7 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       }
       return item;
     }));
-    toast.success("Product loaded from inventory");
+    toast.success(t("quotations.productLoaded"));
   };
 
   // Apply global discount to all items
@@ -880,6 +965,9 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
     setGlobalDiscountType("percentage");
     setGlobalDiscountAmount("");
     setVatEnabled(true);
+    setSelectedDelegateId(null);
+    setRevisingQuotation(null);
+    setChangeSummary("");
     setCompanyLogo("");
     setStamp("");
     setLogoFilename(null);
@@ -917,15 +1005,15 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
 
   const handleCreateQuotation = async () => {
     if (!customerName.trim()) {
-      toast.error("Please enter customer name");
+      toast.error(t("quotations.customerNameRequired"));
       return;
     }
     if (!mobile.trim()) {
-      toast.error("Please enter mobile number");
+      toast.error(t("quotations.mobileRequired"));
       return;
     }
     if (items.every(item => !item.description.trim())) {
-      toast.error("Please add at least one item with description");
+      toast.error(t("quotations.itemRequired"));
       return;
     }
 
@@ -933,29 +1021,29 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
     if (discountMode === "global") {
       const globalDiscountAmountNum = parseFloat(globalDiscountAmount) || 0;
       if (globalDiscountAmountNum < 0) {
-        toast.error("Discount amount cannot be negative");
+        toast.error(t("quotations.discountNegative"));
         return;
       }
       if (globalDiscountType === "percentage" && (globalDiscountAmountNum > 100 || globalDiscountAmountNum < 0)) {
-        toast.error("Discount percentage must be between 0 and 100");
+        toast.error(t("quotations.discountPercentRange"));
         return;
       }
       const totals = calculateQuotationTotals();
       if (globalDiscountType === "fixed" && globalDiscountAmountNum > totals.totalBeforeDiscount) {
-        toast.error("Fixed discount cannot exceed total subtotal");
+        toast.error(t("quotations.fixedDiscountTooHigh"));
         return;
       }
     } else {
       // Validate individual item discounts
       for (const item of items) {
         if (item.discountType === "percentage" && (item.discountPercent < 0 || item.discountPercent > 100)) {
-          toast.error(`Item "${item.description || 'Untitled'}" has invalid discount percentage`);
+          toast.error(t("quotations.itemDiscountInvalid", { item: item.description || t("quotations.untitled") }));
           return;
         }
         if (item.discountType === "fixed") {
           const itemSubtotal = item.quantity * item.unitPrice;
           if (item.discountAmount < 0 || item.discountAmount > itemSubtotal) {
-            toast.error(`Item "${item.description || 'Untitled'}" discount cannot exceed subtotal`);
+            toast.error(t("quotations.itemDiscountTooHigh", { item: item.description || t("quotations.untitled") }));
             return;
           }
         }
@@ -986,8 +1074,27 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       company_stamp: isStampRemoved ? '__NO_STAMP__' : (stampFilename || null),
       discount_type: discountMode === "global" ? globalDiscountType : null,
       discount_amount: discountMode === "global" ? (parseFloat(globalDiscountAmount) || null) : null,
+      delegate_id: selectedDelegateId,
     };
 
+    if (revisingQuotation) {
+      const current = dbQuotations.find((q) => q.quotation_id === revisingQuotation.dbQuotationId) as QuotationRow | undefined;
+      if (!current) {
+        toast.error(t("quotations.reloadNotFound"));
+        return;
+      }
+      try {
+        const revised = await reviseQuotation(current, values, changeSummary);
+        resetForm();
+        setIsCreateDialogOpen(false);
+        await dispatch(thunks.quotations.fetchAll(undefined));
+        toast.success(t("quotations.revised", { number: revised.quotation_number, version: revised.quotation_version }));
+      } catch (error) {
+        toast.error((error as { message?: string })?.message || t("quotations.reviseFailed"));
+      }
+      return;
+    }
+
     try {
       const created = await dispatch(thunks.quotations.createOne(values)).unwrap();
       const createdId = (created as any)?.quotation_id as string | undefined;
@@ -1002,27 +1109,69 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       resetForm();
       setIsCreateDialogOpen(false);
       await dispatch(thunks.quotations.fetchAll(undefined));
-      toast.success("Quotation created successfully!");
+      toast.success(t("quotations.created"));
     } catch (e: any) {
-      toast.error(e?.message || 'Failed to create quotation');
+      toast.error(e?.message || t("quotations.createFailed"));
     }
   };
 
-  const handleStatusChange = (quotationId: number, newStatus: "sent" | "pending" | "cancelled") => {
-    const q = quotations.find(q => q.id === quotationId);
-    if (!q) return;
-    // We don't have the actual uuid here; derive from selector by index
-    const target = dbQuotations[quotationId - 1];
-    const id = target?.quotation_id as string | undefined;
+  const handleStatusChange = (quotation: Quotation, newStatus: QuotationStatus) => {
+    const id = quotation.dbQuotationId;
     if (!id) return;
-    dispatch(thunks.quotations.updateOne({ id, values: { quotation_summary: newStatus } as any }))
+    const values: Partial<QuotationRow> = { quotation_status: newStatus, status_changed_at: new Date().toISOString() };
+    dispatch(thunks.quotations.updateOne({ id, values }))
       .unwrap()
-      .then(() => toast.success(`Quotation status updated to ${newStatus}`))
-      .catch((e: any) => toast.error(e.message || 'Failed to update status'));
+      .then(() => toast.success(t("quotations.statusChanged", { number: quotation.quotationNumber, status: t(`status.${newStatus}`) })))
+      .catch((e: any) => toast.error(e.message || t("quotations.statusFailed")));
+  };
+
+  // Reopen a quotation in the form; saving it stores the current content as the previous version
+  const startRevision = (quotation: Quotation) => {
+    resetForm();
+    const customerIdx = dbCustomers.findIndex((c) => c.customer_id === quotation.customerId);
+    setSelectedCustomerId(customerIdx >= 0 ? customerIdx + 1 : undefined);
+    setSelectedCustomerDbId(quotation.customerId ?? undefined);
+    setCustomerName(quotation.customerName);
+    setMobile(quotation.mobile);
+    setLocation(quotation.location);
+    setCommercialRegister(quotation.commercialRegister);
+    setTaxNumber(quotation.taxNumber);
+    const dbRow = dbQuotations.find((q) => q.quotation_id === quotation.dbQuotationId);
+    setExpiryDays(String(dbRow?.quotation_validity ?? 30));
+    setNotes(quotation.notes ?? "");
+    setVatEnabled(dbRow?.vat_enabled !== false);
+    setSelectedDelegateId(quotation.delegateId);
+    if (quotation.discountType && (quotation.discountAmount ?? 0) > 0) {
+      setDiscountMode("global");
+      setGlobalDiscountType(quotation.discountType);
+      setGlobalDiscountAmount(String(quotation.discountAmount));
+    }
+    setItems(quotation.items.map((item) => ({ ...item })));
+    setLogoFilename(quotation.logoFilename ?? null);
+    setIsUsingDefaultLogo(!quotation.logoFilename);
+    if (quotation.stampFilename === '__NO_STAMP__') {
+      setIsStampRemoved(true);
+      setIsUsingDefaultStamp(false);
+    } else {
+      setStampFilename(quotation.stampFilename ?? null);
+      setIsUsingDefaultStamp(!quotation.stampFilename);
+    }
+    // Files uploaded while revising belong to the quotation itself
+    setTempBrandingOwnerId(quotation.dbQuotationId ?? null);
+    setRevisingQuotation(quotation);
+    setIsCreateDialogOpen(true);
+  };
+
+  const handleCreateDialogOpenChange = (open: boolean) => {
+    setIsCreateDialogOpen(open);
+    if (!open && revisingQuotation) resetForm();
   };
 
   const convertToInvoice = (quotation: Quotation) => {
     const invoiceData = {
+      sourceQuotationId: quotation.dbQuotationId,
+      customerId: quotation.customerId,
+      delegateId: quotation.delegateId,
       quotationNumber: quotation.quotationNumber,
       customerName: quotation.customerName,
       mobile: quotation.mobile,
@@ -1043,29 +1192,53 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
     
     if (onConvertToInvoice) {
       onConvertToInvoice(invoiceData);
-      toast.success(`Converting quotation ${quotation.quotationNumber} to invoice...`);
+      toast.success(t("quotations.convertingInvoice", { number: quotation.quotationNumber }));
     } else {
-      toast.error("Unable to convert. Please try again.");
+      toast.error(t("quotations.convertFailed"));
     }
   };
 
-  const printQuotation = async (quotation: Quotation, includeImagesOverride?: boolean) => {
-    const includeImages = includeImagesOverride ?? printIncludeImages;
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow popups to print quotations");
-      return;
+  const convertToContract = (quotation: Quotation) => {
+    if (!quotation.dbQuotationId) return;
+    const contractData: QuotationContractDraft = {
+      sourceQuotationId: quotation.dbQuotationId,
+      quotationNumber: quotation.quotationNumber,
+      customerId: quotation.customerId,
+      delegateId: quotation.delegateId,
+      customerName: quotation.customerName,
+      mobile: quotation.mobile,
+      email: quotation.customerEmail ?? "",
+      location: quotation.location,
+      commercialRegister: quotation.commercialRegister,
+      notes: quotation.notes ?? "",
+      totalBeforeVat: quotation.totalAfterDiscount,
+    };
+
+    if (onConvertToContract) {
+      onConvertToContract(contractData);
+      toast.success(t("quotations.convertingContract", { number: quotation.quotationNumber }));
+    } else {
+      toast.error(t("quotations.convertFailed"));
     }
+  };
+
+  // Converted, rejected and expired quotations cannot be converted again
+  const canConvert = (quotation: Quotation) =>
+    !!quotation.dbQuotationId &&
+    !quotation.convertedInvoiceId &&
+    !quotation.convertedContractId &&
+    (quotation.status === "draft" || quotation.status === "sent" || quotation.status === "accepted");
 
+  // The quotation as printed: also what customers see when it is sent for e-signature
+  const buildQuotationHTML = async (quotation: Quotation, includeImages: boolean) => {
     // Get company info for dynamic company name
     const companyInfo = await getCompanyInfo();
     const companyName = companyInfo ? getCompanyName(companyInfo) : ""; // English name only
     const companyNameAr = companyInfo?.company_name_ar || "";
-    // Get additional company fields from localStorage (for tax number, commercial reg, etc.)
-    const companyTaxNumber = (companyInfo as any)?.company_tax_number ?? localStorage.getItem('companyTaxNumber') ?? "";
-    const companyCommercialRegister = (companyInfo as any)?.company_commercial_register ?? localStorage.getItem('companyCommercialReg') ?? "";
-    const companyAddress = companyInfo?.company_address ?? localStorage.getItem('companyAddress') ?? "";
-    const companyCityPostal = (companyInfo as any)?.company_city_postal ?? localStorage.getItem('companyCityPostal') ?? "";
+    const companyTaxNumber = companyInfo?.company_tax_number ?? "";
+    const companyCommercialRegister = companyInfo?.company_commercial_register ?? "";
+    const companyAddress = companyInfo?.company_address ?? "";
+    const companyCityPostal = companyInfo?.company_city_postal ?? "";
 
     const resolveOwnerFileUrl = async (
       ownerId: string | undefined,
@@ -1143,32 +1316,26 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
     const itemsWithImages = quotation.items.filter(item => item.image);
     console.log(`Found ${itemsWithImages.length} items with images out of ${quotation.items.length} total items`);
 
-    // Generate QR code with data URL
+    // Generate ZATCA QR code from the quotation totals
     let qrCode = "";
     try {
-      // Use simple text data instead of HTML to avoid QR code size limits
-      const simpleData = `Quotation: ${quotation.quotationNumber}\nDate: ${new Date(quotation.date).toLocaleDateString('en-GB')}\nValid Until: ${new Date(quotation.expiryDate).toLocaleDateString('en-GB')}\nCustomer: ${quotation.customerName}\nTotal: SAR ${quotation.grandTotal.toFixed(2)}`;
-      qrCode = await QRCode.toDataURL(simpleData, {
-        errorCorrectionLevel: 'H',
-        margin: 1,
-        width: 300
-      });
+      qrCode = await generateZatcaQrDataUrl(
+        buildZatcaQrFields(companyInfo, {
+          total_amount: quotation.grandTotal,
+          tax_amount: quotation.totalVAT,
+          invoice_date: quotation.date,
+          created_at: null,
+        })
+      );
     } catch (err) {
       console.error("QR Code generation error:", err);
-      // Fallback: generate an even simpler QR code
-      try {
-        const minimalData = `QUOT:${quotation.quotationNumber}|${quotation.grandTotal.toFixed(2)}`;
-        qrCode = await QRCode.toDataURL(minimalData);
-      } catch (fallbackErr) {
-        console.error("QR Code fallback generation error:", fallbackErr);
-      }
     }
 
     // Generate HTML with logo, stamp, and QR code
     const displayDate = printDateOption === "today" ? new Date().toISOString().split('T')[0] : 
                         printDateOption === "custom" ? customPrintDate : 
                         quotation.date;
-    const quotationHTML = generateQuotationHTML(
+    return generateQuotationHTML(
       quotation,
       logoToUse,
       stampToUse,
@@ -1182,7 +1349,33 @@ export function Quotations({ onConvertToInvoice }: QuotationsProps) {
       companyAddress,
       companyCityPostal
     );
-    
+  };
+
+  const downloadQuotationPdf = async (quotation: Quotation) => {
+    if (!quotation.dbQuotationId) return;
+    const toastId = toast.loading(t("contracts.pdfGenerating"));
+    try {
+      await downloadDocumentPdf({
+        documentType: "quotation",
+        ownerId: quotation.dbQuotationId,
+        documentNumber: quotation.quotationNumber,
+        html: await buildQuotationHTML(quotation, printIncludeImages),
+      });
+      toast.success(t("contracts.pdfReady"), { id: toastId });
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("contracts.pdfFailed"), { id: toastId });
+    }
+  };
+
+  const printQuotation = async (quotation: Quotation, includeImagesOverride?: boolean) => {
+    const includeImages = includeImagesOverride ?? printIncludeImages;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error(t("quotations.allowPopups"));
+      return;
+    }
+    const quotationHTML = await buildQuotationHTML(quotation, includeImages);
+
     // Write HTML to print window
     printWindow.document.open();
     printWindow.document.write(quotationHTML);
@@ -1516,7 +1709,7 @@ const generateQuotationHTML = (
   const exportToPDF = () => {
     try {
       if (filteredQuotations.length === 0) {
-        toast.error("No data to export.");
+        toast.error(t("quotations.noData"));
         return;
       }
 
@@ -1595,13 +1788,13 @@ const generateQuotationHTML = (
         printWindow.document.write(htmlContent);
         printWindow.document.close();
         printWindow.print();
-        toast.success("PDF export ready for printing");
+        toast.success(t("quotations.pdfExportReady"));
       } else {
-        toast.error("Failed to open print window");
+        toast.error(t("quotations.printWindowFailed"));
       }
     } catch (error) {
       console.error('PDF export error:', error);
-      toast.error("Failed to export PDF");
+      toast.error(t("quotations.pdfExportFailed"));
     }
   };
 
@@ -1623,9 +1816,9 @@ const generateQuotationHTML = (
       XLSX.utils.book_append_sheet(wb, ws, "Quotations");
       const fileName = `quotations_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -1634,47 +1827,72 @@ const generateQuotationHTML = (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Quotations</h2>
-          <p className="text-muted-foreground mt-1">Create and manage price quotations</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("quotations.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("quotations.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" className="gap-2">
                 <Download className="h-4 w-4" />
-                Export
+                {t("quotations.export")}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent>
               <DropdownMenuItem onClick={exportToExcel}>
-                <Download className="h-4 w-4 mr-2" />
-                Export as Excel
+                <Download className="h-4 w-4 me-2" />
+                {t("quotations.exportExcel")}
               </DropdownMenuItem>
               <DropdownMenuItem onClick={exportToPDF}>
-                <FileText className="h-4 w-4 mr-2" />
-                Export as PDF
+                <FileText className="h-4 w-4 me-2" />
+                {t("quotations.exportPdf")}
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <Button variant="outline" className="gap-2" onClick={() => setIsWinRateOpen(true)}>
+            <TrendingUp className="h-4 w-4" />
+            {t("quotations.winRate")}
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={handleCreateDialogOpenChange}>
           <DialogTrigger asChild>
             <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
               <Plus className="h-4 w-4" />
-              New Quotation
+              {t("quotations.new")}
             </Button>
           </DialogTrigger>
           <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
             <DialogHeader className="flex-shrink-0">
-              <DialogTitle className="text-lg">Create New Quotation</DialogTitle>
-              <DialogDescription className="text-sm">Fill in customer details and add items</DialogDescription>
+              <DialogTitle className="text-lg">
+                {revisingQuotation
+                  ? t("quotations.reviseTitle", { number: revisingQuotation.quotationNumber, version: revisingQuotation.version + 1 })
+                  : t("quotations.createTitle")}
+              </DialogTitle>
+              <DialogDescription className="text-sm">
+                {revisingQuotation
+                  ? t("quotations.reviseDescription", { version: revisingQuotation.version })
+                  : t("quotations.createDescription")}
+              </DialogDescription>
             </DialogHeader>
 
-            <div className="overflow-y-auto overflow-x-hidden flex-1 pr-2">
+            <div className="overflow-y-auto overflow-x-hidden flex-1 pe-2">
               <div className="space-y-3 px-1 py-2">
+                {revisingQuotation && (
+                  <div className="space-y-1">
+                    <Label htmlFor="changeSummary" className="text-xs">{t("quotations.whatChanged")}</Label>
+                    <Input
+                      id="changeSummary"
+                      value={changeSummary}
+                      onChange={(e) => setChangeSummary(e.target.value)}
+                      placeholder={t("quotations.whatChangedPlaceholder")}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                )}
+
                 {/* Customer Information */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Customer Information</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.customerInformation")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="col-span-2">
@@ -1683,8 +1901,8 @@ const generateQuotationHTML = (
                         selectedCustomerId={selectedCustomerId}
                         onCustomerSelect={handleCustomerSelect}
                         hideQuickAdd
-                        label="Select Customer"
-                        placeholder="Search customer by name, company, or mobile..."
+                        label={t("quotations.selectCustomer")}
+                        placeholder={t("contracts.customerSelectorPlaceholder")}
                         required
                       />
                     </div>
@@ -1692,17 +1910,17 @@ const generateQuotationHTML = (
                     {selectedCustomerId && (
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pt-2 border-t">
                         <div className="space-y-1">
-                          <Label htmlFor="customerName" className="text-xs">Customer Name</Label>
+                          <Label htmlFor="customerName" className="text-xs">{t("quotations.customerName")}</Label>
                           <Input 
                             id="customerName" 
                             value={customerName} 
                             onChange={(e) => setCustomerName(e.target.value)}
-                            placeholder="Customer Name"
+                            placeholder={t("quotations.customerName")}
                             className="h-8 text-sm"
                           />
                         </div>
                         <div className="space-y-1">
-                          <Label htmlFor="mobile" className="text-xs">Mobile Number</Label>
+                          <Label htmlFor="mobile" className="text-xs">{t("quotations.mobileNumber")}</Label>
                           <Input 
                             id="mobile" 
                             value={mobile} 
@@ -1713,33 +1931,33 @@ const generateQuotationHTML = (
                         </div>
 
                         <div className="space-y-1">
-                          <Label htmlFor="location" className="text-xs">Location</Label>
+                          <Label htmlFor="location" className="text-xs">{t("quotations.location")}</Label>
                           <Input 
                             id="location" 
                             value={location} 
                             onChange={(e) => setLocation(e.target.value)}
-                            placeholder="Riyadh, Al Malaz District"
+                            placeholder={t("quotations.locationPlaceholder")}
                             className="h-8 text-sm"
                           />
                         </div>
                         <div className="space-y-1">
-                          <Label htmlFor="expiryDays" className="text-xs">Valid For (Days)</Label>
+                          <Label htmlFor="expiryDays" className="text-xs">{t("quotations.validFor")}</Label>
                           <Select value={expiryDays} onValueChange={setExpiryDays}>
                             <SelectTrigger id="expiryDays" className="h-8 text-sm">
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="7">7 Days</SelectItem>
-                              <SelectItem value="15">15 Days</SelectItem>
-                              <SelectItem value="30">30 Days</SelectItem>
-                              <SelectItem value="60">60 Days</SelectItem>
-                              <SelectItem value="90">90 Days</SelectItem>
+                              <SelectItem value="7">{t("quotations.days", { count: 7 })}</SelectItem>
+                              <SelectItem value="15">{t("quotations.days", { count: 15 })}</SelectItem>
+                              <SelectItem value="30">{t("quotations.days", { count: 30 })}</SelectItem>
+                              <SelectItem value="60">{t("quotations.days", { count: 60 })}</SelectItem>
+                              <SelectItem value="90">{t("quotations.days", { count: 90 })}</SelectItem>
                             </SelectContent>
                           </Select>
                         </div>
 
                         <div className="space-y-1">
-                          <Label htmlFor="commercialRegister" className="text-xs">Commercial Register</Label>
+                          <Label htmlFor="commercialRegister" className="text-xs">{t("quotations.commercialRegister")}</Label>
                           <Input 
                             id="commercialRegister" 
                             value={commercialRegister} 
@@ -1749,7 +1967,7 @@ const generateQuotationHTML = (
                           />
                         </div>
                         <div className="space-y-1">
-                          <Label htmlFor="taxNumber" className="text-xs">VAT Number</Label>
+                          <Label htmlFor="taxNumber" className="text-xs">{t("quotations.vatNumber")}</Label>
                           <Input 
                             id="taxNumber" 
                             value={taxNumber} 
@@ -1758,6 +1976,25 @@ const generateQuotationHTML = (
                             className="h-8 text-sm"
                           />
                         </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="delegate" className="text-xs">{t("quotations.delegate")}</Label>
+                          <Select
+                            value={selectedDelegateId ?? "none"}
+                            onValueChange={(value) => setSelectedDelegateId(value === "none" ? null : value)}
+                          >
+                            <SelectTrigger id="delegate" className="h-8 text-sm">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">{t("quotations.noDelegate")}</SelectItem>
+                              {dbDelegates.map((delegate) => (
+                                <SelectItem key={delegate.delegate_id} value={delegate.delegate_id}>
+                                  {delegate.delegate_name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                     )}
                   </CardContent>
@@ -1766,22 +2003,22 @@ const generateQuotationHTML = (
                 {/* Branding */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Branding & Customization</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.branding")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="text-xs text-muted-foreground bg-blue-50 p-2 rounded">
-                      Default logo and stamp from Settings are shown below. Upload custom assets to override for this quotation only.
+                      {t("quotations.brandingHint")}
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                       <div className="space-y-1">
                         <div className="flex items-start gap-2">
-                          <Label className="text-xs shrink-0">Company Logo</Label>
-                          <div className="ml-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
+                          <Label className="text-xs shrink-0">{t("quotations.companyLogo")}</Label>
+                          <div className="ms-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
                             {isUsingDefaultLogo && defaultLogoUrl && (
-                              <Badge variant="outline" className="text-xs whitespace-nowrap">System Default</Badge>
+                              <Badge variant="outline" className="text-xs whitespace-nowrap">{t("quotations.systemDefault")}</Badge>
                             )}
                             {!isUsingDefaultLogo && (
-                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">Custom</Badge>
+                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">{t("quotations.custom")}</Badge>
                             )}
                           </div>
                         </div>
@@ -1798,8 +2035,8 @@ const generateQuotationHTML = (
                           onClick={() => logoInputRef.current?.click()}
                           className="w-full h-8 text-xs"
                         >
-                          <Upload className="h-3 w-3 mr-1" />
-                          {isUsingDefaultLogo ? "Override Logo" : "Change Logo"}
+                          <Upload className="h-3 w-3 me-1" />
+                          {isUsingDefaultLogo ? t("quotations.overrideLogo") : t("quotations.changeLogo")}
                         </Button>
                         {companyLogo && (
                           <div className="relative">
@@ -1812,13 +2049,13 @@ const generateQuotationHTML = (
                               type="button"
                               variant="ghost"
                               size="icon"
-                              className="absolute top-0 right-0 h-6 w-6"
+                              className="absolute top-0 end-0 h-6 w-6"
                               onClick={() => {
                                 setCompanyLogo(defaultLogoUrl || "");
                                 setLogoFilename(null);
                                 setIsUsingDefaultLogo(true);
                               }}
-                              title={isUsingDefaultLogo ? "Using system default" : "Reset to default"}
+                              title={isUsingDefaultLogo ? t("quotations.usingSystemDefault") : t("quotations.resetToDefault")}
                             >
                               <X className="h-4 w-4" />
                             </Button>
@@ -1826,23 +2063,23 @@ const generateQuotationHTML = (
                         )}
                         {!companyLogo && defaultLogoUrl && (
                           <div className="text-xs text-muted-foreground mt-1">
-                            Using system default logo
+                            {t("quotations.usingDefaultLogo")}
                           </div>
                         )}
                       </div>
 
                       <div className="space-y-1">
                         <div className="flex items-start gap-2">
-                          <Label className="text-xs shrink-0">Stamp (Optional)</Label>
-                          <div className="ml-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
+                          <Label className="text-xs shrink-0">{t("quotations.stampOptional")}</Label>
+                          <div className="ms-auto flex flex-wrap items-center justify-end gap-1 min-w-0">
                             {isStampRemoved && (
-                              <Badge variant="outline" className="text-xs whitespace-nowrap">Removed</Badge>
+                              <Badge variant="outline" className="text-xs whitespace-nowrap">{t("quotations.removed")}</Badge>
                             )}
                             {isUsingDefaultStamp && defaultStampUrl && (
-                              <Badge variant="outline" className="text-xs whitespace-nowrap">System Default</Badge>
+                              <Badge variant="outline" className="text-xs whitespace-nowrap">{t("quotations.systemDefault")}</Badge>
                             )}
                             {!isStampRemoved && !isUsingDefaultStamp && (
-                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">Custom</Badge>
+                              <Badge variant="default" className="text-xs bg-green-600 whitespace-nowrap">{t("quotations.custom")}</Badge>
                             )}
                           </div>
                         </div>
@@ -1860,8 +2097,8 @@ const generateQuotationHTML = (
                           className="w-full h-8 text-xs"
                           disabled={isStampRemoved && !defaultStampUrl}
                         >
-                          <Upload className="h-3 w-3 mr-1" />
-                          {isStampRemoved ? "Upload Stamp" : (isUsingDefaultStamp ? "Override Stamp" : "Change Stamp")}
+                          <Upload className="h-3 w-3 me-1" />
+                          {isStampRemoved ? t("quotations.uploadStamp") : (isUsingDefaultStamp ? t("quotations.overrideStamp") : t("quotations.changeStamp"))}
                         </Button>
                         {defaultStampUrl && (
                           <Button
@@ -1876,7 +2113,7 @@ const generateQuotationHTML = (
                             }}
                             disabled={!isStampRemoved && isUsingDefaultStamp}
                           >
-                            Use Default
+                            {t("quotations.useDefault")}
                           </Button>
                         )}
                         {stamp && (
@@ -1890,14 +2127,14 @@ const generateQuotationHTML = (
                               type="button"
                               variant="ghost"
                               size="icon"
-                              className="absolute top-0 right-0 h-6 w-6"
+                              className="absolute top-0 end-0 h-6 w-6"
                               onClick={() => {
                                 setIsStampRemoved(true);
                                 setStamp('');
                                 setStampFilename('__NO_STAMP__');
                                 setIsUsingDefaultStamp(false);
                               }}
-                              title="Remove stamp"
+                              title={t("quotations.removeStamp")}
                             >
                               <X className="h-4 w-4" />
                             </Button>
@@ -1905,7 +2142,7 @@ const generateQuotationHTML = (
                         )}
                         {!stamp && defaultStampUrl && (
                           <div className="text-xs text-muted-foreground mt-1">
-                            Using system default stamp
+                            {t("quotations.usingDefaultStamp")}
                           </div>
                         )}
                       </div>
@@ -1916,7 +2153,7 @@ const generateQuotationHTML = (
                 {/* Items */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Quotation Items</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.items")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     {items.map((item, index) => (
@@ -1924,9 +2161,9 @@ const generateQuotationHTML = (
                         <CardContent className="pt-3 pb-3">
                           <div className="flex items-center justify-between gap-3 mb-3">
                             <div className="flex flex-wrap items-center gap-2">
-                              <h4 className="text-xs font-medium">Item #{index + 1}</h4>
+                              <h4 className="text-xs font-medium">{t("quotations.itemNumber", { number: index + 1 })}</h4>
                               <Badge variant={item.isManual ? "default" : "secondary"} className="text-xs">
-                                {item.isManual ? "Manual" : "From Inventory"}
+                                {item.isManual ? t("quotations.manual") : t("quotations.fromInventory")}
                               </Badge>
                               {!item.isManual && (
                                 <div className="w-52">
@@ -1935,11 +2172,11 @@ const generateQuotationHTML = (
                                     onValueChange={(value) => loadItemFromInventory(item.id, value)}
                                   >
                                     <SelectTrigger className="h-8">
-                                      <SelectValue placeholder="Select product..." />
+                                      <SelectValue placeholder={t("quotations.selectProduct")} />
                                     </SelectTrigger>
                                     <SelectContent>
                                       {dbInventory.length === 0 ? (
-                                        <SelectItem disabled value="__none__">No items in inventory yet</SelectItem>
+                                        <SelectItem disabled value="__none__">{t("quotations.noInventory")}</SelectItem>
                                       ) : (
                                         dbInventory.map((p: any) => (
                                           <SelectItem key={p.product_code} value={p.product_code}>
@@ -1958,7 +2195,7 @@ const generateQuotationHTML = (
                                 size="icon"
                                 className="h-6 w-6"
                                 onClick={() => removeItem(item.id)}
-                                title="Remove item"
+                                title={t("quotations.removeItem")}
                               >
                                 <Trash2 className="h-3.5 w-3.5 text-destructive" />
                               </Button>
@@ -1967,7 +2204,7 @@ const generateQuotationHTML = (
 
                           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
                             <div className="space-y-1">
-                              <Label className="text-xs">Image</Label>
+                              <Label className="text-xs">{t("quotations.image")}</Label>
                               <input
                                 type="file"
                                 accept="image/*"
@@ -1982,8 +2219,8 @@ const generateQuotationHTML = (
                                 onClick={() => document.getElementById(`item-image-${item.id}`)?.click()}
                                 className="w-full h-8 text-xs"
                               >
-                                <Upload className="h-3 w-3 mr-1" />
-                                Upload
+                                <Upload className="h-3 w-3 me-1" />
+                                {t("quotations.upload")}
                               </Button>
                               {item.image && (
                                 <div className="relative">
@@ -1996,7 +2233,7 @@ const generateQuotationHTML = (
                                     type="button"
                                     variant="ghost"
                                     size="icon"
-                                    className="absolute -top-1 -right-1 h-5 w-5"
+                                    className="absolute -top-1 -end-1 h-5 w-5"
                                     onClick={() => updateItemImage(item.id, "")}
                                   >
                                     <X className="h-3 w-3" />
@@ -2005,11 +2242,11 @@ const generateQuotationHTML = (
                               )}
                             </div>
                             <div className="col-span-1 sm:col-span-2 lg:col-span-3 space-y-1">
-                              <Label className="text-xs">Description *</Label>
+                              <Label className="text-xs">{t("quotations.descriptionRequired")}</Label>
                               <Input 
                                 value={item.description} 
                                 onChange={(e) => updateItem(item.id, "description", e.target.value)}
-                                placeholder="Product or service description"
+                                placeholder={t("quotations.descriptionPlaceholder")}
                                 className="h-8 text-sm"
                               />
                             </div>
@@ -2018,7 +2255,7 @@ const generateQuotationHTML = (
                           {/* First row: Quantity and Unit Price */}
                           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3 items-end">
                             <div className="space-y-1">
-                              <Label className="text-xs">Quantity *</Label>
+                              <Label className="text-xs">{t("quotations.quantityRequired")}</Label>
                               <Input 
                                 type="number" 
                                 min="1"
@@ -2029,7 +2266,7 @@ const generateQuotationHTML = (
                             </div>
 
                             <div className="space-y-1">
-                              <Label className="text-xs">Unit Price (SAR) *</Label>
+                              <Label className="text-xs">{t("quotations.unitPriceRequired")}</Label>
                               <Input 
                                 type="number" 
                                 min="0"
@@ -2045,7 +2282,7 @@ const generateQuotationHTML = (
                           {discountMode === "individual" && (
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3 items-end">
                               <div className="space-y-1">
-                                <Label className="text-xs">Discount Type</Label>
+                                <Label className="text-xs">{t("quotations.discountType")}</Label>
                                 <Select 
                                   value={item.discountType || "percentage"} 
                                   onValueChange={(value: "percentage" | "fixed") => updateItem(item.id, "discountType", value)}
@@ -2054,15 +2291,15 @@ const generateQuotationHTML = (
                                     <SelectValue />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    <SelectItem value="percentage">Percentage (%)</SelectItem>
-                                    <SelectItem value="fixed">Fixed (SAR)</SelectItem>
+                                    <SelectItem value="percentage">{t("quotations.percentage")}</SelectItem>
+                                    <SelectItem value="fixed">{t("quotations.fixed")}</SelectItem>
                                   </SelectContent>
                                 </Select>
                               </div>
 
                               <div className="space-y-1">
                                 <Label className="text-xs">
-                                  Discount {item.discountType === "percentage" ? "(%)" : "(SAR)"}
+                                  {item.discountType === "percentage" ? t("quotations.discountPercent") : t("quotations.discountFixed")}
                                 </Label>
                                 <Input 
                                   type="number" 
@@ -2088,19 +2325,19 @@ const generateQuotationHTML = (
                           {discountMode === "global" && (
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
                               <div className="space-y-1">
-                                <Label className="text-xs text-muted-foreground">Discount</Label>
+                                <Label className="text-xs text-muted-foreground">{t("quotations.discount")}</Label>
                                 <div className="h-8 flex items-center">
                                   <p className="text-sm text-muted-foreground">
                                     {item.discountType === "percentage" 
-                                      ? `${item.discountPercent.toFixed(2)}%` 
-                                      : `SAR ${item.discountAmount.toFixed(2)}`}
+                                      ? `${formatNumber(item.discountPercent, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`
+                                      : formatCurrency(item.discountAmount)}
                                   </p>
                                 </div>
                               </div>
                               <div className="space-y-1">
-                                <Label className="text-xs text-muted-foreground">Item Discount</Label>
+                                <Label className="text-xs text-muted-foreground">{t("quotations.itemDiscount")}</Label>
                                 <div className="h-8 flex items-center">
-                                  <p className="text-sm text-muted-foreground">SAR {item.itemDiscount.toFixed(2)}</p>
+                                  <p className="text-sm text-muted-foreground">{formatCurrency(item.itemDiscount)}</p>
                                 </div>
                               </div>
                             </div>
@@ -2109,27 +2346,27 @@ const generateQuotationHTML = (
                           {/* Item Totals Display */}
                           <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-3 mt-3 pt-3 border-t">
                             <div className="space-y-1">
-                              <Label className="text-xs text-muted-foreground">Subtotal</Label>
+                              <Label className="text-xs text-muted-foreground">{t("quotations.subtotal")}</Label>
                               <div className="h-8 flex items-center">
-                                <p className="text-sm font-medium">SAR {item.subtotal.toFixed(2)}</p>
+                                <p className="text-sm font-medium">{formatCurrency(item.subtotal)}</p>
                               </div>
                             </div>
                             <div className="space-y-1">
-                              <Label className="text-xs text-muted-foreground">Item Discount</Label>
+                              <Label className="text-xs text-muted-foreground">{t("quotations.itemDiscount")}</Label>
                               <div className="h-8 flex items-center">
-                                <p className="text-sm text-destructive">- SAR {item.itemDiscount.toFixed(2)}</p>
+                                <p className="text-sm text-destructive">- {formatCurrency(item.itemDiscount)}</p>
                               </div>
                             </div>
                             <div className="space-y-1">
-                              <Label className="text-xs text-muted-foreground">Item Total</Label>
+                              <Label className="text-xs text-muted-foreground">{t("quotations.itemTotal")}</Label>
                               <div className="h-8 flex items-center">
-                                <p className="text-sm font-medium">SAR {(item.subtotal - item.itemDiscount).toFixed(2)}</p>
+                                <p className="text-sm font-medium">{formatCurrency(item.subtotal - item.itemDiscount)}</p>
                               </div>
                             </div>
                             <div className="space-y-1">
-                              <Label className="text-xs text-muted-foreground">Total (incl. VAT)</Label>
+                              <Label className="text-xs text-muted-foreground">{t("quotations.totalInclVat")}</Label>
                               <div className="h-8 flex items-center">
-                                <p className="text-sm font-bold text-primary">SAR {item.total.toFixed(2)}</p>
+                                <p className="text-sm font-bold text-primary">{formatCurrency(item.total)}</p>
                               </div>
                             </div>
                           </div>
@@ -2139,12 +2376,12 @@ const generateQuotationHTML = (
 
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                       <Button onClick={addManualItem} variant="outline" size="sm" className="w-full h-8 text-xs">
-                        <Plus className="h-3 w-3 mr-1" />
-                        Add Manual Item
+                        <Plus className="h-3 w-3 me-1" />
+                        {t("quotations.addManualItem")}
                       </Button>
                       <Button onClick={addInventoryItem} variant="outline" size="sm" className="w-full h-8 text-xs">
-                        <Plus className="h-3 w-3 mr-1" />
-                        Add from Inventory
+                        <Plus className="h-3 w-3 me-1" />
+                        {t("quotations.addFromInventory")}
                       </Button>
                     </div>
                   </CardContent>
@@ -2153,13 +2390,13 @@ const generateQuotationHTML = (
                 {/* Notes */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Notes</CardTitle>
+                    <CardTitle className="text-sm">{t("common.notes")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-1">
                     <Textarea 
                       value={notes} 
                       onChange={(e) => setNotes(e.target.value)}
-                      placeholder="Additional notes..."
+                      placeholder={t("quotations.notesPlaceholder")}
                       rows={2}
                       className="text-sm"
                     />
@@ -2169,14 +2406,14 @@ const generateQuotationHTML = (
                 {/* Terms & Conditions */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Terms & Conditions</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.terms")}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="p-4 rounded-lg" style={{ backgroundColor: '#f3f4f6' }}>
                       <Textarea 
                         value={termsAndConditions} 
                         onChange={(e) => setTermsAndConditions(e.target.value)}
-                        placeholder="Enter terms and conditions..."
+                        placeholder={t("quotations.termsPlaceholder")}
                         rows={3}
                         className="text-sm resize-none border-none bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0"
                       />
@@ -2187,12 +2424,12 @@ const generateQuotationHTML = (
                 {/* Discount Section */}
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Discount Configuration</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.discountConfiguration")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label className="text-xs font-semibold">Discount Mode</Label>
+                        <Label className="text-xs font-semibold">{t("quotations.discountMode")}</Label>
                         <Select 
                           value={discountMode} 
                           onValueChange={(value: "individual" | "global") => {
@@ -2218,21 +2455,21 @@ const generateQuotationHTML = (
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="individual">Individual Item Discounts</SelectItem>
-                            <SelectItem value="global">Apply Discount to All Items</SelectItem>
+                            <SelectItem value="individual">{t("quotations.individualDiscounts")}</SelectItem>
+                            <SelectItem value="global">{t("quotations.globalDiscount")}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
                       <div className="space-y-2">
-                        <Label className="text-xs font-semibold">VAT (15%)</Label>
-                        <div className="flex items-center space-x-2">
+                        <Label className="text-xs font-semibold">{t("quotations.vat")}</Label>
+                        <div className="flex items-center gap-2">
                           <Switch
                             checked={vatEnabled}
                             onCheckedChange={setVatEnabled}
                           />
                           <span className="text-sm text-gray-600">
-                            {vatEnabled ? "Enabled" : "Disabled"}
+                            {vatEnabled ? t("quotations.enabled") : t("quotations.disabled")}
                           </span>
                         </div>
                       </div>
@@ -2242,7 +2479,7 @@ const generateQuotationHTML = (
                       <>
                         <div className="grid grid-cols-2 gap-3">
                           <div className="space-y-1">
-                            <Label htmlFor="globalDiscountType" className="text-xs">Discount Type</Label>
+                            <Label htmlFor="globalDiscountType" className="text-xs">{t("quotations.discountType")}</Label>
                             <Select 
                               value={globalDiscountType} 
                               onValueChange={(value: "percentage" | "fixed") => {
@@ -2254,14 +2491,14 @@ const generateQuotationHTML = (
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="percentage">Percentage (%)</SelectItem>
-                                <SelectItem value="fixed">Fixed Amount (SAR)</SelectItem>
+                                <SelectItem value="percentage">{t("quotations.percentage")}</SelectItem>
+                                <SelectItem value="fixed">{t("quotations.fixedAmount")}</SelectItem>
                               </SelectContent>
                             </Select>
                           </div>
                           <div className="space-y-1">
                             <Label htmlFor="globalDiscountAmount" className="text-xs">
-                              Discount Amount {globalDiscountType === "percentage" ? "(%)" : "(SAR)"}
+                              {globalDiscountType === "percentage" ? t("quotations.discountAmountPercent") : t("quotations.discountAmountFixed")}
                             </Label>
                             <Input
                               id="globalDiscountAmount"
@@ -2276,7 +2513,7 @@ const generateQuotationHTML = (
                                   const num = parseFloat(value);
                                   if (isNaN(num) || num < 0 || num > 100) {
                                     if (value !== "" && value !== "-") {
-                                      toast.error("Discount percentage must be between 0 and 100");
+                                      toast.error(t("quotations.discountPercentRange"));
                                     }
                                   }
                                 }
@@ -2290,19 +2527,19 @@ const generateQuotationHTML = (
                         {globalDiscountAmount && parseFloat(globalDiscountAmount) > 0 && (
                           <div className="text-xs text-muted-foreground bg-blue-50 p-2 rounded">
                             {globalDiscountType === "percentage" 
-                              ? `Applying ${globalDiscountAmount}% discount to all item subtotals`
-                              : `Distributing SAR ${parseFloat(globalDiscountAmount).toFixed(2)} discount proportionally across all items`}
+                              ? t("quotations.applyingPercent", { percent: globalDiscountAmount })
+                              : t("quotations.distributingFixed", { amount: formatCurrency(parseFloat(globalDiscountAmount)) })}
                           </div>
                         )}
                         <div className="text-xs text-muted-foreground bg-amber-50 p-2 rounded border border-amber-200">
-                          <strong>Note:</strong> Individual item discount fields are disabled in this mode. Discounts are automatically calculated and applied to all items.
+                          <strong>{t("contracts.note")}</strong> {t("quotations.globalModeNote")}
                         </div>
                       </>
                     )}
 
                     {discountMode === "individual" && (
                       <div className="text-xs text-muted-foreground bg-green-50 p-2 rounded border border-green-200">
-                        <strong>Individual Mode:</strong> You can set discounts for each item independently. Each item supports either percentage or fixed amount discounts.
+                        <strong>{t("quotations.individualMode")}</strong> {t("quotations.individualModeNote")}
                       </div>
                     )}
                   </CardContent>
@@ -2311,32 +2548,32 @@ const generateQuotationHTML = (
                 {/* Summary */}
                 <Card className="bg-muted/30">
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Quotation Summary</CardTitle>
+                    <CardTitle className="text-sm">{t("quotations.summaryTitle")}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-1 text-xs">
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Subtotal (All Items):</span>
-                        <span className="font-medium">SAR {totals.totalBeforeDiscount.toFixed(2)}</span>
+                        <span className="text-muted-foreground">{t("quotations.subtotalAll")}</span>
+                        <span className="font-medium">{formatCurrency(totals.totalBeforeDiscount)}</span>
                       </div>
                       {totals.totalDiscount > 0 && (
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">Total Discount:</span>
-                          <span className="font-medium text-destructive">- SAR {totals.totalDiscount.toFixed(2)}</span>
+                          <span className="text-muted-foreground">{t("quotations.totalDiscount")}</span>
+                          <span className="font-medium text-destructive">- {formatCurrency(totals.totalDiscount)}</span>
                         </div>
                       )}
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Item Totals (After Discount):</span>
-                        <span className="font-medium">SAR {totals.totalAfterDiscount.toFixed(2)}</span>
+                        <span className="text-muted-foreground">{t("quotations.itemTotalsAfterDiscount")}</span>
+                        <span className="font-medium">{formatCurrency(totals.totalAfterDiscount)}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">VAT (15%):</span>
-                        <span className="font-medium">SAR {totals.totalVAT.toFixed(2)}</span>
+                        <span className="text-muted-foreground">{t("quotations.vatLabel")}</span>
+                        <span className="font-medium">{formatCurrency(totals.totalVAT)}</span>
                       </div>
                       <Separator />
                       <div className="flex justify-between text-sm">
-                        <span className="font-semibold">Grand Total:</span>
-                        <span className="font-bold text-primary">SAR {totals.grandTotal.toFixed(2)}</span>
+                        <span className="font-semibold">{t("quotations.grandTotal")}</span>
+                        <span className="font-bold text-primary">{formatCurrency(totals.grandTotal)}</span>
                       </div>
                     </div>
                   </CardContent>
@@ -2345,8 +2582,10 @@ const generateQuotationHTML = (
             </div>
 
             <div className="flex justify-end gap-2 pt-3 border-t mt-3 flex-shrink-0">
-              <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)} className="h-9">Cancel</Button>
-              <Button onClick={handleCreateQuotation} className="h-9 bg-purple-600 hover:bg-purple-700 text-white">Create Quotation</Button>
+              <Button variant="outline" onClick={() => handleCreateDialogOpenChange(false)} className="h-9">{t("common.cancel")}</Button>
+              <Button onClick={handleCreateQuotation} className="h-9 bg-purple-600 hover:bg-purple-700 text-white">
+                {revisingQuotation ? t("quotations.saveRevision") : t("quotations.create")}
+              </Button>
             </div>
           </DialogContent>
         </Dialog>
@@ -2357,47 +2596,51 @@ const generateQuotationHTML = (
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Quotations</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("quotations.total")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{quotations.length}</div>
-            <p className="text-xs text-muted-foreground mt-1">All time</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("quotations.allTime")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Sent</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.sent")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-blue-600">
               {quotations.filter(q => q.status === "sent").length}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">Sent to customers</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {t("quotations.awaitingCustomer", { count: quotations.filter(q => q.status === "draft").length })}
+            </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("status.accepted")}</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">
-              {quotations.filter(q => q.status === "pending").length}
+            <div className="text-2xl font-bold text-green-600">
+              {quotations.filter(q => q.status === "accepted").length}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting action</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {t("quotations.rejectedOrExpired", { count: quotations.filter(q => q.status === "rejected" || q.status === "expired").length })}
+            </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("quotations.totalValue")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              SAR {quotations.reduce((sum, q) => sum + q.grandTotal, 0).toFixed(0)}
+              {formatCurrency(quotations.reduce((sum, q) => sum + q.grandTotal, 0))}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">All quotations</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("quotations.allQuotations")}</p>
           </CardContent>
         </Card>
       </div>
@@ -2406,15 +2649,15 @@ const generateQuotationHTML = (
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>All Quotations</CardTitle>
+            <CardTitle>{t("quotations.all")}</CardTitle>
             <div className="flex items-center gap-2">
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search quotations..."
+                  placeholder={t("quotations.search")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-8 w-[250px]"
+                  className="ps-8 w-[250px]"
                 />
               </div>
               <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -2422,76 +2665,83 @@ const generateQuotationHTML = (
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="sent">📤 Sent</SelectItem>
-                  <SelectItem value="pending">⏳ Pending</SelectItem>
-                  <SelectItem value="cancelled">❌ Cancelled</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  {(Object.keys(STATUS_BADGES) as QuotationStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {STATUS_BADGES[status].icon} {t(`status.${status}`)}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Select value={sortOrder} onValueChange={(value: "asc" | "desc") => setSortOrder(value)}>
                 <SelectTrigger className="w-[160px]">
-                  <SelectValue placeholder="Sort order" />
+                  <SelectValue placeholder={t("contracts.sortOrder")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="desc">Newest First</SelectItem>
-                  <SelectItem value="asc">Oldest First</SelectItem>
+                  <SelectItem value="desc">{t("contracts.newestFirst")}</SelectItem>
+                  <SelectItem value="asc">{t("contracts.oldestFirst")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
         </CardHeader>
         <CardContent>
-          {loading && <div>Loading quotations...</div>}
+          {loading && <div>{t("quotations.loading")}</div>}
           {loadError && <div className="text-red-500">{loadError}</div>}
           {quotations.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mb-3" />
-              <p className="text-muted-foreground">No quotations found</p>
+              <p className="text-muted-foreground">{t("quotations.empty")}</p>
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Quotation #</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Valid Until</TableHead>
-                  <TableHead>Amount</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-center">Convert</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("quotations.number")}</TableHead>
+                  <TableHead>{t("common.customer")}</TableHead>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("quotations.validUntil")}</TableHead>
+                  <TableHead>{t("quotations.amount")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-center">{t("quotations.convert")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredQuotations.map((quotation) => {
-                  const isExpired = new Date(quotation.expiryDate) < new Date();
+                  const isExpired = quotation.status === "expired";
+                  const isConverted = !!(quotation.convertedInvoiceId || quotation.convertedContractId);
                   
                   return (
                   <TableRow key={quotation.id}>
-                    <TableCell className="font-medium">{quotation.quotationNumber}</TableCell>
+                    <TableCell className="font-medium">
+                      {quotation.quotationNumber}
+                      {quotation.version > 1 && (
+                        <span className="ms-1 text-xs font-normal text-muted-foreground">v{quotation.version}</span>
+                      )}
+                    </TableCell>
                     <TableCell>{quotation.customerName}</TableCell>
-                    <TableCell>{new Date(quotation.date).toLocaleDateString('en-GB')}</TableCell>
+                    <TableCell>{formatDate(quotation.date)}</TableCell>
                     <TableCell className={isExpired ? "text-red-600 font-semibold" : ""}>
-                      {new Date(quotation.expiryDate).toLocaleDateString('en-GB')}
-                      {isExpired && <span className="ml-2 text-xs">(Expired)</span>}
+                      {formatDate(quotation.expiryDate)}
+                      {isExpired && <span className="ms-2 text-xs">({t("status.expired")})</span>}
                     </TableCell>
-                    <TableCell>SAR {quotation.grandTotal.toFixed(2)}</TableCell>
+                    <TableCell>{formatCurrency(quotation.grandTotal)}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
-                        <Badge
-                          variant="outline"
-                          className={`${
-                            quotation.status === "sent" 
-                              ? "bg-blue-50 text-blue-700 border-blue-200" 
-                              : quotation.status === "pending" 
-                              ? "bg-yellow-50 text-yellow-700 border-yellow-200" 
-                              : "bg-red-50 text-red-700 border-red-200"
-                          }`}
-                        >
-                          {quotation.status === "sent" ? "📤 Sent" : 
-                           quotation.status === "pending" ? "⏳ Pending" : 
-                           "❌ Cancelled"}
+                        <Badge variant="outline" className={STATUS_BADGES[quotation.status].className}>
+                          {STATUS_BADGES[quotation.status].icon} {t(`status.${quotation.status}`)}
                         </Badge>
+                        {quotation.dbQuotationId && signatureStatuses?.get(quotation.dbQuotationId) === "signed" && (
+                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                            ✍️ {t("quotations.signed")}
+                          </Badge>
+                        )}
+                        {quotation.dbQuotationId && signatureStatuses?.get(quotation.dbQuotationId) === "pending" && (
+                          <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">
+                            ✍️ {t("quotations.awaitingSignature")}
+                          </Badge>
+                        )}
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
                             <Button variant="ghost" size="icon" className="h-6 w-6">
@@ -2499,41 +2749,94 @@ const generateQuotationHTML = (
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => handleStatusChange(quotation.id, "sent")}>
-                              📤 Mark as Sent
+                            <DropdownMenuItem
+                              onClick={() => handleStatusChange(quotation, "sent")}
+                              disabled={isConverted || isExpired}
+                            >
+                              📤 {t("quotations.markSent")}
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleStatusChange(quotation.id, "pending")}>
-                              ⏳ Mark as Pending
+                            <DropdownMenuItem
+                              onClick={() => handleStatusChange(quotation, "accepted")}
+                              disabled={isConverted}
+                            >
+                              ✅ {t("quotations.markAccepted")}
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleStatusChange(quotation.id, "cancelled")}>
-                              ❌ Mark as Cancelled
+                            <DropdownMenuItem
+                              onClick={() => handleStatusChange(quotation, "rejected")}
+                              disabled={isConverted}
+                            >
+                              ❌ {t("quotations.markRejected")}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleStatusChange(quotation, "draft")}
+                              disabled={isConverted || isExpired}
+                            >
+                              📝 {t("quotations.backToDraft")}
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => startRevision(quotation)} disabled={!quotation.dbQuotationId || isConverted}>
+                              ✏️ {t("quotations.revise")}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setVersionsQuotationId(quotation.dbQuotationId ?? null)}
+                              disabled={!quotation.dbQuotationId}
+                            >
+                              🕘 {t("quotations.versionHistory")}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setSignatureQuotation(quotation)}
+                              disabled={!quotation.dbQuotationId || quotation.status === "rejected" || isExpired}
+                            >
+                              ✍️ {t("contracts.sendForSignature")}
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </div>
                     </TableCell>
                     <TableCell className="text-center">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => convertToInvoice(quotation)}
-                        disabled={quotation.status === "cancelled"}
-                        className="gap-1.5"
-                      >
-                        <FileText className="h-4 w-4" />
-                        To Invoice
-                      </Button>
+                      {isConverted ? (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                          {quotation.convertedInvoiceId ? t("quotations.convertedInvoice") : t("quotations.convertedContract")}
+                        </Badge>
+                      ) : (
+                        <div className="flex justify-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => convertToInvoice(quotation)}
+                            disabled={!canConvert(quotation)}
+                            className="gap-1.5"
+                          >
+                            <FileText className="h-4 w-4" />
+                            {t("quotations.toInvoice")}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => convertToContract(quotation)}
+                            disabled={!canConvert(quotation)}
+                            className="gap-1.5"
+                          >
+                            <FileSignature className="h-4 w-4" />
+                            {t("quotations.toContract")}
+                          </Button>
+                        </div>
+                      )}
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end">
                       <div className="flex justify-end gap-1">
                         <Button
                           variant="ghost"
                           size="icon"
                           onClick={() => {
-                            setSelectedQuotation(quotation);
-                            setIsViewDialogOpen(true);
+                            if (quotation.dbQuotationId) {
+                              openQuotation(quotation.dbQuotationId);
+                            } else {
+                              setSelectedQuotation(quotation);
+                              setIsViewDialogOpen(true);
+                            }
                           }}
-                          title="View Details"
+                          title={t("contracts.viewDetails")}
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
@@ -2546,33 +2849,44 @@ const generateQuotationHTML = (
                                 prev === quotation.id ? null : quotation.id
                               )
                             }
-                            title="Print"
+                            title={t("common.print")}
                           >
                             <Printer className="h-4 w-4" />
                           </Button>
                           {openPrintOptionsQuotationId === quotation.id && (
-                            <div className="absolute right-0 top-full mt-2 z-50 w-52 rounded-md border bg-white shadow-md flex flex-col">
+                            <div className="absolute end-0 top-full mt-2 z-50 w-52 rounded-md border bg-white shadow-md flex flex-col">
                               <button
                                 type="button"
-                                className="w-full px-3 py-2 text-left text-sm"
+                                className="w-full px-3 py-2 text-start text-sm"
                                 onClick={() => {
                                   setPrintIncludeImages(true);
                                   setOpenPrintOptionsQuotationId(null);
                                   void printQuotation(quotation, true);
                                 }}
                               >
-                                Print with images
+                                {t("quotations.printWithImages")}
                               </button>
                               <button
                                 type="button"
-                                className="w-full px-3 py-2 text-left text-sm border-t"
+                                className="w-full px-3 py-2 text-start text-sm border-t"
                                 onClick={() => {
                                   setPrintIncludeImages(false);
                                   setOpenPrintOptionsQuotationId(null);
                                   void printQuotation(quotation, false);
                                 }}
                               >
-                                Print without images
+                                {t("quotations.printWithoutImages")}
+                              </button>
+                              <button
+                                type="button"
+                                className="w-full px-3 py-2 text-start text-sm border-t disabled:text-muted-foreground"
+                                disabled={!quotation.dbQuotationId}
+                                onClick={() => {
+                                  setOpenPrintOptionsQuotationId(null);
+                                  void downloadQuotationPdf(quotation);
+                                }}
+                              >
+                                {t("contracts.downloadPdf")}
                               </button>
                             </div>
                           )}
@@ -2585,7 +2899,7 @@ const generateQuotationHTML = (
                             const body = `Dear ${quotation.customerName},\n\nPlease find attached quotation ${quotation.quotationNumber} for your review.\n\nQuotation Details:\n- Date: ${new Date(quotation.date).toLocaleDateString('en-GB')}\n- Valid Until: ${new Date(quotation.expiryDate).toLocaleDateString('en-GB')}\n- Total Amount: SAR ${quotation.grandTotal.toFixed(2)}\n\nThank you for your business.\n\nBest regards,\nMana Smart Trading`;
                             const recipient = quotation.customerEmail?.trim();
                             if (!recipient) {
-                              toast.error("No customer email found for this quotation");
+                              toast.error(t("quotations.noEmail"));
                               return;
                             }
                             const mailto = `mailto:${encodeURIComponent(recipient)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
@@ -2596,9 +2910,9 @@ const generateQuotationHTML = (
                             document.body.appendChild(link);
                             link.click();
                             document.body.removeChild(link);
-                            toast.success("Opening email client...");
+                            toast.success(t("quotations.openingEmail"));
                           }}
-                          title="Send Email"
+                          title={t("quotations.sendEmail")}
                         >
                           <Send className="h-4 w-4" />
                         </Button>
@@ -2614,14 +2928,20 @@ const generateQuotationHTML = (
       </Card>
 
       {/* View Quotation Dialog */}
-      <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+      <Dialog
+        open={isViewDialogOpen}
+        onOpenChange={(open) => {
+          setIsViewDialogOpen(open);
+          if (!open) closeQuotation();
+        }}
+      >
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           {selectedQuotation && (
             <>
               <DialogHeader>
-                <DialogTitle>Quotation Details - {selectedQuotation.quotationNumber}</DialogTitle>
+                <DialogTitle>{t("quotations.detailsTitle", { number: selectedQuotation.quotationNumber })}</DialogTitle>
                 <DialogDescription>
-                  Customer: {selectedQuotation.customerName} | Date: {new Date(selectedQuotation.date).toLocaleDateString('en-GB')}
+                  {t("quotations.detailsDescription", { customer: selectedQuotation.customerName, date: formatDate(selectedQuotation.date) })}
                 </DialogDescription>
               </DialogHeader>
 
@@ -2629,39 +2949,39 @@ const generateQuotationHTML = (
               {/* Customer Info */}
               <Card>
                 <CardHeader className="pb-3">
-                  <CardTitle className="text-base">Customer Information</CardTitle>
+                  <CardTitle className="text-base">{t("quotations.customerInformation")}</CardTitle>
                 </CardHeader>
                 <CardContent className="grid grid-cols-2 gap-3 text-sm">
                   <div>
-                    <span className="text-muted-foreground">Name:</span>
+                    <span className="text-muted-foreground">{t("quotations.nameLabel")}</span>
                     <p className="font-medium">{selectedQuotation.customerName}</p>
                   </div>
                   <div>
-                    <span className="text-muted-foreground">Mobile:</span>
+                    <span className="text-muted-foreground">{t("quotations.mobileLabel")}</span>
                     <p className="font-medium">{selectedQuotation.mobile}</p>
                   </div>
                   {selectedQuotation.location && (
                     <div>
-                      <span className="text-muted-foreground">Location:</span>
+                      <span className="text-muted-foreground">{t("quotations.locationLabel")}</span>
                       <p className="font-medium">{selectedQuotation.location}</p>
                     </div>
                   )}
                   {selectedQuotation.commercialRegister && (
                     <div>
-                      <span className="text-muted-foreground">C.R.:</span>
+                      <span className="text-muted-foreground">{t("quotations.crLabel")}</span>
                       <p className="font-medium">{selectedQuotation.commercialRegister}</p>
                     </div>
                   )}
                   {selectedQuotation.taxNumber && (
                     <div>
-                      <span className="text-muted-foreground">VAT:</span>
+                      <span className="text-muted-foreground">{t("quotations.vatNumberLabel")}</span>
                       <p className="font-medium">{selectedQuotation.taxNumber}</p>
                     </div>
                   )}
                   <div>
-                    <span className="text-muted-foreground">Valid Until:</span>
+                    <span className="text-muted-foreground">{t("quotations.validUntilLabel")}</span>
                     <p className={`font-medium ${new Date(selectedQuotation.expiryDate) < new Date() ? 'text-red-600' : ''}`}>
-                      {new Date(selectedQuotation.expiryDate).toLocaleDateString('en-GB')}
+                      {formatDate(selectedQuotation.expiryDate)}
                     </p>
                   </div>
                 </CardContent>
@@ -2670,17 +2990,17 @@ const generateQuotationHTML = (
               {/* Items */}
               <Card>
                 <CardHeader className="pb-3">
-                  <CardTitle className="text-base">Items</CardTitle>
+                  <CardTitle className="text-base">{t("quotations.itemsTitle")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>Description</TableHead>
-                        <TableHead className="text-center">Qty</TableHead>
-                        <TableHead className="text-right">Unit Price</TableHead>
-                        <TableHead className="text-center">Disc %</TableHead>
-                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead>{t("quotations.description")}</TableHead>
+                        <TableHead className="text-center">{t("quotations.qty")}</TableHead>
+                        <TableHead className="text-end">{t("quotations.unitPrice")}</TableHead>
+                        <TableHead className="text-center">{t("quotations.discPercent")}</TableHead>
+                        <TableHead className="text-end">{t("common.total")}</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -2699,9 +3019,9 @@ const generateQuotationHTML = (
                             </div>
                           </TableCell>
                           <TableCell className="text-center">{item.quantity}</TableCell>
-                          <TableCell className="text-right">SAR {item.unitPrice.toFixed(2)}</TableCell>
-                          <TableCell className="text-center">{item.discountPercent}%</TableCell>
-                          <TableCell className="text-right font-medium">SAR {item.total.toFixed(2)}</TableCell>
+                          <TableCell className="text-end">{formatCurrency(item.unitPrice)}</TableCell>
+                          <TableCell className="text-center">{formatNumber(item.discountPercent)}%</TableCell>
+                          <TableCell className="text-end font-medium">{formatCurrency(item.total)}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -2712,31 +3032,31 @@ const generateQuotationHTML = (
               {/* Summary */}
               <Card>
                 <CardHeader className="pb-3">
-                  <CardTitle className="text-base">Summary</CardTitle>
+                  <CardTitle className="text-base">{t("quotations.summary")}</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2">
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Subtotal:</span>
-                    <span>SAR {selectedQuotation.totalBeforeDiscount.toFixed(2)}</span>
+                    <span className="text-muted-foreground">{t("quotations.subtotalLabel")}</span>
+                    <span>{formatCurrency(selectedQuotation.totalBeforeDiscount)}</span>
                   </div>
                   {selectedQuotation.totalDiscount > 0 && (
                     <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Discount:</span>
-                      <span className="text-red-600">- SAR {selectedQuotation.totalDiscount.toFixed(2)}</span>
+                      <span className="text-muted-foreground">{t("quotations.discountLabel")}</span>
+                      <span className="text-red-600">- {formatCurrency(selectedQuotation.totalDiscount)}</span>
                     </div>
                   )}
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">After Discount:</span>
-                    <span>SAR {selectedQuotation.totalAfterDiscount.toFixed(2)}</span>
+                    <span className="text-muted-foreground">{t("quotations.afterDiscount")}</span>
+                    <span>{formatCurrency(selectedQuotation.totalAfterDiscount)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">VAT (15%):</span>
-                    <span>SAR {selectedQuotation.totalVAT.toFixed(2)}</span>
+                    <span className="text-muted-foreground">{t("quotations.vatLabel")}</span>
+                    <span>{formatCurrency(selectedQuotation.totalVAT)}</span>
                   </div>
                   <Separator />
                   <div className="flex justify-between font-semibold">
-                    <span>Grand Total:</span>
-                    <span className="text-primary">SAR {selectedQuotation.grandTotal.toFixed(2)}</span>
+                    <span>{t("quotations.grandTotal")}</span>
+                    <span className="text-primary">{formatCurrency(selectedQuotation.grandTotal)}</span>
                   </div>
                 </CardContent>
               </Card>
@@ -2745,7 +3065,7 @@ const generateQuotationHTML = (
               {selectedQuotation.notes && (
                 <Card>
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-base">Notes</CardTitle>
+                    <CardTitle className="text-base">{t("common.notes")}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-muted-foreground">{selectedQuotation.notes}</p>
@@ -2756,11 +3076,11 @@ const generateQuotationHTML = (
               {/* Print Date Selection */}
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-sm">Print Date Options</CardTitle>
+                  <CardTitle className="text-sm">{t("quotations.printDateOptions")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
-                    <Label className="text-xs">Choose date to display on printed quotation:</Label>
+                    <Label className="text-xs">{t("quotations.printDateChoose")}</Label>
                     <Select 
                       value={printDateOption} 
                       onValueChange={(value: "quotation_date" | "today" | "custom") => setPrintDateOption(value)}
@@ -2769,14 +3089,14 @@ const generateQuotationHTML = (
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="quotation_date">Quotation Date ({new Date(selectedQuotation.date).toLocaleDateString('en-GB')})</SelectItem>
-                        <SelectItem value="today">Today's Date ({new Date().toLocaleDateString('en-GB')})</SelectItem>
-                        <SelectItem value="custom">Custom Date</SelectItem>
+                        <SelectItem value="quotation_date">{t("quotations.printDateQuotation", { date: formatDate(selectedQuotation.date) })}</SelectItem>
+                        <SelectItem value="today">{t("quotations.printDateToday", { date: formatDate(new Date()) })}</SelectItem>
+                        <SelectItem value="custom">{t("quotations.printDateCustom")}</SelectItem>
                       </SelectContent>
                     </Select>
                     {printDateOption === "custom" && (
                       <div className="mt-2">
-                        <Label className="text-xs">Select Custom Date:</Label>
+                        <Label className="text-xs">{t("quotations.selectCustomDate")}</Label>
                         <Input
                           type="date"
                           value={customPrintDate}
@@ -2790,12 +3110,12 @@ const generateQuotationHTML = (
               </Card>
 
               <div className="flex justify-end gap-2 pt-4 border-t">
-                <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-                  Close
+                <Button variant="outline" onClick={closeQuotation}>
+                  {t("common.close")}
                 </Button>
                 <Button onClick={() => void printQuotation(selectedQuotation)}>
-                  <Printer className="h-4 w-4 mr-2" />
-                  Print
+                  <Printer className="h-4 w-4 me-2" />
+                  {t("common.print")}
                 </Button>
               </div>
             </div>
@@ -2803,6 +3123,42 @@ const generateQuotationHTML = (
           )}
         </DialogContent>
       </Dialog>
+
+      {/* E-Signature Dialog */}
+      {signatureQuotation?.dbQuotationId && (
+        <SignatureRequestDialog
+          open={!!signatureQuotation}
+          onOpenChange={(open) => {
+            if (open) return;
+            setSignatureQuotation(null);
+            void refetchSignatureStatuses();
+          }}
+          documentType="quotation"
+          documentId={signatureQuotation.dbQuotationId}
+          documentNumber={signatureQuotation.quotationNumber}
+          recipient={{
+            name: signatureQuotation.customerName,
+            phone: signatureQuotation.mobile,
+            email: signatureQuotation.customerEmail,
+          }}
+          buildDocumentHtml={() => buildQuotationHTML(signatureQuotation, printIncludeImages)}
+        />
+      )}
+
+      <QuotationVersionsDialog
+        open={!!versionsQuotationId}
+        onOpenChange={(open) => !open && setVersionsQuotationId(null)}
+        quotation={(dbQuotations.find((q) => q.quotation_id === versionsQuotationId) as QuotationRow | undefined) ?? null}
+        delegates={dbDelegates}
+      />
+
+      <QuotationWinRateReport
+        open={isWinRateOpen}
+        onOpenChange={setIsWinRateOpen}
+        quotations={dbQuotations as QuotationRow[]}
+        customers={dbCustomers as Customers[]}
+        delegates={dbDelegates}
+      />
     </div>
   );
 }
@@ -0,0 +1,221 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Download } from "lucide-react";
+import * as XLSX from "@e965/xlsx";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "./ui/table";
+import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
+import { selectors, thunks } from "../redux-toolkit/slices";
+import type { Customers } from "../../supabase/models/customers";
+import type { Delegates } from "../../supabase/models/delegates";
+import type { Invoices } from "../../supabase/models/invoices";
+import type { Payments } from "../../supabase/models/payments";
+import type { InvoiceNotes } from "../../supabase/models/invoice_notes";
+import { groupNotesByInvoice } from "../lib/invoiceNotes";
+import { useLocale } from "../lib/i18n";
+import {
+  AGING_BUCKETS,
+  ageInvoices,
+  emptyAgingTotals,
+  groupPaymentsByInvoice,
+  sumAging,
+  type AgingTotals,
+  type OpenInvoice,
+} from "../lib/receivables";
+
+interface CustomerAging {
+  customerId: string;
+  customerName: string;
+  totals: AgingTotals;
+}
+
+interface DelegateAging {
+  delegateId: string | null;
+  delegateName: string;
+  customers: CustomerAging[];
+  totals: AgingTotals;
+}
+
+/**
+ * Company-wide receivables aging, grouped by the delegate on each invoice
+ * (falling back to the customer's delegate)
+ */
+export function ReceivablesAging() {
+  const dispatch = useAppDispatch();
+  const customers = useAppSelector(selectors.customers.selectAll) as Customers[];
+  const delegates = useAppSelector(selectors.delegates.selectAll) as Delegates[];
+  const invoices = useAppSelector(selectors.invoices.selectAll) as Invoices[];
+  const payments = useAppSelector(selectors.payments.selectAll) as Payments[];
+  const invoiceNotes = useAppSelector(selectors.invoice_notes.selectAll) as InvoiceNotes[];
+  const [asOf, setAsOf] = useState(new Date().toISOString().split("T")[0]);
+  const { t, formatNumber, localizedName } = useLocale();
+
+  const formatAmount = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  useEffect(() => {
+    dispatch(thunks.customers.fetchAll(undefined));
+    dispatch(thunks.delegates.fetchAll(undefined));
+    dispatch(thunks.invoices.fetchAll(undefined));
+    dispatch(thunks.payments.fetchAll(undefined));
+    dispatch(thunks.invoice_notes.fetchAll(undefined));
+  }, [dispatch]);
+
+  const groups = useMemo<DelegateAging[]>(() => {
+    if (!asOf) return [];
+    const customersById = new Map(customers.map((customer) => [customer.customer_id, customer]));
+    const delegateNames = new Map(delegates.map((delegate) => [delegate.delegate_id, delegate.delegate_name]));
+    const openInvoices = ageInvoices(
+      invoices,
+      groupPaymentsByInvoice(payments),
+      asOf,
+      groupNotesByInvoice(invoiceNotes)
+    );
+
+    const byDelegate = new Map<string, Map<string, OpenInvoice[]>>();
+    openInvoices.forEach((row) => {
+      const delegateId = row.invoice.delegate_id ?? customersById.get(row.invoice.customer_id)?.delegate_id ?? "";
+      const byCustomer = byDelegate.get(delegateId) ?? new Map<string, OpenInvoice[]>();
+      byCustomer.set(row.invoice.customer_id, [...(byCustomer.get(row.invoice.customer_id) ?? []), row]);
+      byDelegate.set(delegateId, byCustomer);
+    });
+
+    return Array.from(byDelegate.entries())
+      .map(([delegateId, byCustomer]) => {
+        const customerRows = Array.from(byCustomer.entries())
+          .map(([customerId, rows]) => {
+            const customer = customersById.get(customerId);
+            return {
+              customerId,
+              customerName: customer?.customer_name ?? customer?.company ?? customerId.slice(0, 8).toUpperCase(),
+              totals: sumAging(rows),
+            };
+          })
+          .sort((a, b) => b.totals.total - a.totals.total);
+        return {
+          delegateId: delegateId || null,
+          delegateName: delegateId ? delegateNames.get(delegateId) ?? t("aging.unknownDelegate") : t("aging.unassigned"),
+          customers: customerRows,
+          totals: sumAging(Array.from(byCustomer.values()).flat()),
+        };
+      })
+      .sort((a, b) => b.totals.total - a.totals.total);
+  }, [asOf, customers, delegates, invoices, payments, invoiceNotes, t]);
+
+  const grandTotals = useMemo(() => {
+    const totals = emptyAgingTotals();
+    groups.forEach((group) => {
+      AGING_BUCKETS.forEach(({ key }) => {
+        totals[key] += group.totals[key];
+      });
+      totals.total += group.totals.total;
+    });
+    return totals;
+  }, [groups]);
+
+  const handleExport = () => {
+    const rows = groups.flatMap((group) =>
+      group.customers.map((customer) => ({
+        Delegate: group.delegateName,
+        Customer: customer.customerName,
+        ...Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.label, customer.totals[bucket.key]])),
+        Total: customer.totals.total,
+      }))
+    );
+    const worksheet = XLSX.utils.json_to_sheet(rows);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "AR Aging");
+    XLSX.writeFile(workbook, `ar_aging_${asOf}.xlsx`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <CardTitle>{t("aging.title")}</CardTitle>
+            <CardDescription>{t("aging.description")}</CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="aging-as-of" className="text-xs">{t("aging.asOf")}</Label>
+              <Input id="aging-as-of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-40" />
+            </div>
+            <Button variant="outline" className="gap-2" onClick={handleExport} disabled={groups.length === 0}>
+              <Download className="h-4 w-4" />
+              {t("common.exportExcel")}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("common.customer")}</TableHead>
+                {AGING_BUCKETS.map((bucket) => (
+                  <TableHead key={bucket.key} className="text-end">
+                    {localizedName(bucket.label, bucket.labelAr)}
+                  </TableHead>
+                ))}
+                <TableHead className="text-end">{t("common.total")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={AGING_BUCKETS.length + 2} className="text-center py-8 text-muted-foreground">
+                    {t("aging.empty")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map((group) => (
+                  <Fragment key={group.delegateId ?? "unassigned"}>
+                    <TableRow className="bg-muted/40">
+                      <TableCell className="font-medium">{group.delegateName}</TableCell>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <TableCell key={bucket.key} className="text-end font-medium">
+                          {formatAmount(group.totals[bucket.key])}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-end font-medium">{formatAmount(group.totals.total)}</TableCell>
+                    </TableRow>
+                    {group.customers.map((customer) => (
+                      <TableRow key={customer.customerId}>
+                        <TableCell className="ps-8">{customer.customerName}</TableCell>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableCell
+                            key={bucket.key}
+                            className={`text-end ${
+                              bucket.key !== "current" && customer.totals[bucket.key] > 0 ? "text-red-600" : ""
+                            }`}
+                          >
+                            {customer.totals[bucket.key] > 0 ? formatAmount(customer.totals[bucket.key]) : "-"}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-end">{formatAmount(customer.totals.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>{t("common.total")}</TableCell>
+                {AGING_BUCKETS.map((bucket) => (
+                  <TableCell key={bucket.key} className="text-end">
+                    {formatAmount(grandTotals[bucket.key])}
+                  </TableCell>
+                ))}
+                <TableCell className="text-end">{formatAmount(grandTotals.total)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
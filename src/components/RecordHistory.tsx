@@ -0,0 +1,91 @@
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { useRecordAuditLog } from "../hooks/useAuditLog";
+import { AUDIT_ACTION_BADGES, AUDIT_ACTION_LABELS, auditChanges } from "../lib/auditLog";
+import { useLocale } from "../lib/i18n";
+import type { AuditLog } from "../../supabase/models/audit_log";
+
+/**
+ * Field-by-field changes of one audit entry
+ */
+export function AuditChangesTable({ entry }: { entry: AuditLog }) {
+  const { t } = useLocale();
+  const changes = auditChanges(entry);
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">{t("history.noFieldValues")}</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-start text-muted-foreground">
+          <th className="py-1 pe-2 font-medium">{t("history.field")}</th>
+          {entry.action !== "insert" && <th className="py-1 pe-2 font-medium">{t("history.before")}</th>}
+          {entry.action !== "delete" && <th className="py-1 font-medium">{t("history.after")}</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-t align-top">
+            <td className="py-1 pe-2 font-medium whitespace-nowrap">{change.label}</td>
+            {entry.action !== "insert" && (
+              <td className="py-1 pe-2 break-all text-red-700 line-through decoration-red-300">{change.before}</td>
+            )}
+            {entry.action !== "delete" && <td className="py-1 break-all text-green-700">{change.after}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface RecordHistoryProps {
+  table: string;
+  rowId: string | null | undefined;
+}
+
+/**
+ * Audit trail of one record (the History tab of invoices, contracts and employees), newest first
+ */
+export function RecordHistory({ table, rowId }: RecordHistoryProps) {
+  const { t, formatDateTime } = useLocale();
+  const { data: entries = [], isLoading, error } = useRecordAuditLog(table, rowId);
+
+  if (!rowId) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t("history.notSaved")}</p>;
+  }
+  if (isLoading) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t("history.loadingRecord")}</p>;
+  }
+  if (error) {
+    return (
+      <p className="py-6 text-center text-sm text-destructive">
+        {(error as { message?: string })?.message || t("history.loadFailedRecord")}
+      </p>
+    );
+  }
+  if (entries.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t("history.noChanges")}</p>;
+  }
+
+  return (
+    <ScrollArea className="max-h-[55vh]">
+      <div className="space-y-3 pe-3">
+        {entries.map((entry) => (
+          <div key={entry.audit_id} className="space-y-2 rounded-md border p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge className={`text-xs ${AUDIT_ACTION_BADGES[entry.action]}`}>{t(AUDIT_ACTION_LABELS[entry.action])}</Badge>
+                <span className={entry.actor_id ? "font-medium" : "text-muted-foreground"}>
+                  {entry.actor_name ?? (entry.actor_id ? t("history.unknownUser") : t("history.system"))}
+                </span>
+              </div>
+              <span className="text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</span>
+            </div>
+            <AuditChangesTable entry={entry} />
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
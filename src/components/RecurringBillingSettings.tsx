@@ -0,0 +1,415 @@
+import { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Loader2, Play, RefreshCw, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import {
+  adoptLegacyAutoInvoiceSettings,
+  fetchRecurringBillingRunItems,
+  fetchRecurringBillingRuns,
+  fetchRecurringBillingSettings,
+  runRecurringBillingNow,
+  updateRecurringBillingSettings,
+} from "../lib/recurringBilling";
+import type {
+  AutoInvoiceTiming,
+  RenewalOfferType,
+  RecurringBillingRunItems,
+  RecurringBillingRuns,
+  RecurringBillingSettings as Settings,
+} from "../../supabase/models/recurring_billing";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
+
+const errorMessage = (error: unknown, fallback: string) => (error as { message?: string })?.message || fallback;
+
+const RUN_STATUS_CLASSES: Record<RecurringBillingRuns["status"], string> = {
+  running: "bg-blue-100 text-blue-700",
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const OUTCOME_CLASSES: Record<RecurringBillingRunItems["outcome"], string> = {
+  created: "bg-green-100 text-green-700",
+  skipped: "bg-gray-100 text-gray-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const RUN_STATUS_KEYS: Record<RecurringBillingRuns["status"], MessageKey> = {
+  running: "billing.run.running",
+  completed: "billing.run.completed",
+  failed: "billing.run.failed",
+};
+
+const TRIGGER_KEYS: Record<RecurringBillingRuns["trigger_source"], MessageKey> = {
+  schedule: "billing.trigger.schedule",
+  manual: "billing.trigger.manual",
+};
+
+const OUTCOME_KEYS: Record<RecurringBillingRunItems["outcome"], MessageKey> = {
+  created: "billing.outcome.created",
+  skipped: "billing.outcome.skipped",
+  failed: "billing.outcome.failed",
+};
+
+const ITEM_TYPE_KEYS: Record<RecurringBillingRunItems["item_type"], MessageKey> = {
+  visit: "billing.item.visit",
+  invoice: "billing.item.invoice",
+  expiry: "billing.item.expiry",
+  renewal: "billing.item.renewal",
+};
+
+/**
+ * Settings and run log of the scheduled visit and invoice generation for contracts
+ */
+export function RecurringBillingSettings() {
+  const { t, formatNumber, formatDate, formatDateTime } = useLocale();
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [draft, setDraft] = useState<Settings | null>(null);
+  const [runs, setRuns] = useState<RecurringBillingRuns[]>([]);
+  const [runItems, setRunItems] = useState<Record<string, RecurringBillingRunItems[]>>({});
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await fetchRecurringBillingRuns());
+    } catch (error) {
+      toast.error(errorMessage(error, translateCurrent("billing.runsLoadFailed")));
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const stored = await adoptLegacyAutoInvoiceSettings(await fetchRecurringBillingSettings());
+        setSettings(stored);
+        setDraft(stored);
+        setRuns(await fetchRecurringBillingRuns());
+      } catch (error) {
+        toast.error(errorMessage(error, translateCurrent("billing.loadFailed")));
+      } finally {
+        setLoading(false);
+      }
+    };
+    void load();
+  }, []);
+
+  const isDirty =
+    !!settings &&
+    !!draft &&
+    (draft.auto_visits_enabled !== settings.auto_visits_enabled ||
+      draft.visit_lead_days !== settings.visit_lead_days ||
+      draft.auto_invoice_enabled !== settings.auto_invoice_enabled ||
+      draft.auto_invoice_timing !== settings.auto_invoice_timing ||
+      draft.renewal_notice_days !== settings.renewal_notice_days ||
+      draft.renewal_offer_type !== settings.renewal_offer_type ||
+      Number(draft.renewal_escalation_percent) !== Number(settings.renewal_escalation_percent));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!Number.isInteger(draft.visit_lead_days) || draft.visit_lead_days < 0 || draft.visit_lead_days > 60) {
+      toast.error(t("billing.invalidLeadDays"));
+      return;
+    }
+    if (!Number.isInteger(draft.renewal_notice_days) || draft.renewal_notice_days < 0 || draft.renewal_notice_days > 180) {
+      toast.error(t("billing.invalidNoticeDays"));
+      return;
+    }
+    const escalation = Number(draft.renewal_escalation_percent);
+    if (!Number.isFinite(escalation) || escalation < 0 || escalation > 100) {
+      toast.error(t("billing.invalidEscalation"));
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await updateRecurringBillingSettings({
+        auto_visits_enabled: draft.auto_visits_enabled,
+        visit_lead_days: draft.visit_lead_days,
+        auto_invoice_enabled: draft.auto_invoice_enabled,
+        auto_invoice_timing: draft.auto_invoice_timing,
+        renewal_notice_days: draft.renewal_notice_days,
+        renewal_offer_type: draft.renewal_offer_type,
+        renewal_escalation_percent: escalation,
+      });
+      setSettings(saved);
+      setDraft(saved);
+      toast.success(translateCurrent("billing.saved"));
+    } catch (error) {
+      toast.error(errorMessage(error, translateCurrent("billing.saveFailed")));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const result = await runRecurringBillingNow();
+      toast.success(
+        translateCurrent("billing.runFinished", {
+          expired: result.contracts_expired,
+          renewals: result.renewals_offered,
+          visits: result.visits_created,
+          invoices: result.invoices_created,
+          skipped: result.skipped_count,
+        })
+      );
+    } catch (error) {
+      toast.error(errorMessage(error, translateCurrent("billing.runFailed")));
+    } finally {
+      setRunning(false);
+      await loadRuns();
+    }
+  };
+
+  const toggleRun = async (runId: string) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+    setExpandedRunId(runId);
+    if (runItems[runId]) return;
+    try {
+      const items = await fetchRecurringBillingRunItems(runId);
+      setRunItems((prev) => ({ ...prev, [runId]: items }));
+    } catch (error) {
+      toast.error(errorMessage(error, translateCurrent("billing.runDetailsFailed")));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("billing.title")}</CardTitle>
+        <CardDescription>
+          {t("billing.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !draft ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            <span className="ms-2 text-sm text-muted-foreground">{t("billing.loading")}</span>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="autoVisitsEnabled">{t("billing.autoVisits")}</Label>
+                    <p className="text-xs text-muted-foreground">{t("billing.autoVisitsHint")}</p>
+                  </div>
+                  <Switch
+                    id="autoVisitsEnabled"
+                    checked={draft.auto_visits_enabled}
+                    onCheckedChange={(checked) => setDraft({ ...draft, auto_visits_enabled: checked })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="visitLeadDays" className="text-xs">{t("billing.leadDays")}</Label>
+                  <Input
+                    id="visitLeadDays"
+                    type="number"
+                    min={0}
+                    max={60}
+                    value={draft.visit_lead_days}
+                    disabled={!draft.auto_visits_enabled}
+                    onChange={(e) => setDraft({ ...draft, visit_lead_days: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="autoInvoiceEnabled">{t("billing.autoInvoice")}</Label>
+                    <p className="text-xs text-muted-foreground">{t("billing.autoInvoiceHint")}</p>
+                  </div>
+                  <Switch
+                    id="autoInvoiceEnabled"
+                    checked={draft.auto_invoice_enabled}
+                    onCheckedChange={(checked) => setDraft({ ...draft, auto_invoice_enabled: checked })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="autoInvoiceTiming" className="text-xs">{t("billing.timing")}</Label>
+                  <Select
+                    value={draft.auto_invoice_timing}
+                    disabled={!draft.auto_invoice_enabled}
+                    onValueChange={(value: AutoInvoiceTiming) => setDraft({ ...draft, auto_invoice_timing: value })}
+                  >
+                    <SelectTrigger id="autoInvoiceTiming">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="visit_date">{t("billing.timing.visitDate")}</SelectItem>
+                      <SelectItem value="7_days_before">{t("billing.timing.weekBefore")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-3 rounded-lg border p-4 md:col-span-2">
+                <div className="space-y-0.5">
+                  <Label>{t("billing.renewals")}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t("billing.renewalsHint")}
+                  </p>
+                </div>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="renewalNoticeDays" className="text-xs">{t("billing.noticeDays")}</Label>
+                    <Input
+                      id="renewalNoticeDays"
+                      type="number"
+                      min={0}
+                      max={180}
+                      value={draft.renewal_notice_days}
+                      onChange={(e) => setDraft({ ...draft, renewal_notice_days: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="renewalOfferType" className="text-xs">{t("billing.offerType")}</Label>
+                    <Select
+                      value={draft.renewal_offer_type}
+                      onValueChange={(value: RenewalOfferType) => setDraft({ ...draft, renewal_offer_type: value })}
+                    >
+                      <SelectTrigger id="renewalOfferType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">{t("billing.offer.none")}</SelectItem>
+                        <SelectItem value="contract">{t("billing.offer.contract")}</SelectItem>
+                        <SelectItem value="quotation">{t("billing.offer.quotation")}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="renewalEscalationPercent" className="text-xs">{t("billing.escalation")}</Label>
+                    <Input
+                      id="renewalEscalationPercent"
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.5"
+                      value={draft.renewal_escalation_percent}
+                      disabled={draft.renewal_offer_type === "none"}
+                      onChange={(e) => setDraft({ ...draft, renewal_escalation_percent: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" className="gap-2" disabled={running} onClick={() => void handleRunNow()}>
+                {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                {t("billing.runNow")}
+              </Button>
+              <Button className="gap-2" disabled={!isDirty || saving} onClick={() => void handleSave()}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                {t("common.save")}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">{t("billing.runLog")}</h4>
+                <Button variant="ghost" size="sm" className="gap-1" onClick={() => void loadRuns()}>
+                  <RefreshCw className="h-4 w-4" />
+                  {t("billing.refresh")}
+                </Button>
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>{t("billing.started")}</TableHead>
+                      <TableHead>{t("billing.billingDate")}</TableHead>
+                      <TableHead>{t("billing.trigger")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-end">{t("billing.column.expired")}</TableHead>
+                      <TableHead className="text-end">{t("billing.column.renewals")}</TableHead>
+                      <TableHead className="text-end">{t("billing.column.visits")}</TableHead>
+                      <TableHead className="text-end">{t("billing.column.invoices")}</TableHead>
+                      <TableHead className="text-end">{t("billing.column.skipped")}</TableHead>
+                      <TableHead className="text-end">{t("billing.column.failed")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={11} className="py-6 text-center text-sm text-muted-foreground">
+                          {t("billing.noRuns")}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      runs.map((run) => (
+                        <Fragment key={run.run_id}>
+                          <TableRow className="cursor-pointer" onClick={() => void toggleRun(run.run_id)}>
+                            <TableCell>
+                              {expandedRunId === run.run_id ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm">{formatDateTime(run.started_at)}</TableCell>
+                            <TableCell className="text-sm">{formatDate(run.run_date)}</TableCell>
+                            <TableCell className="text-sm">{t(TRIGGER_KEYS[run.trigger_source])}</TableCell>
+                            <TableCell>
+                              <Badge className={RUN_STATUS_CLASSES[run.status]}>{t(RUN_STATUS_KEYS[run.status])}</Badge>
+                            </TableCell>
+                            <TableCell className="text-end">{formatNumber(run.contracts_expired)}</TableCell>
+                            <TableCell className="text-end">{formatNumber(run.renewals_offered)}</TableCell>
+                            <TableCell className="text-end">{formatNumber(run.visits_created)}</TableCell>
+                            <TableCell className="text-end">{formatNumber(run.invoices_created)}</TableCell>
+                            <TableCell className="text-end">{formatNumber(run.skipped_count)}</TableCell>
+                            <TableCell className="text-end">{formatNumber(run.failed_count)}</TableCell>
+                          </TableRow>
+                          {expandedRunId === run.run_id && (
+                            <TableRow>
+                              <TableCell colSpan={11} className="bg-muted/40">
+                                {run.error && <p className="mb-2 text-sm text-red-600">{run.error}</p>}
+                                {!runItems[run.run_id] ? (
+                                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                ) : runItems[run.run_id].length === 0 ? (
+                                  <p className="text-sm text-muted-foreground">{t("billing.nothingDue")}</p>
+                                ) : (
+                                  <div className="space-y-1">
+                                    {runItems[run.run_id].map((item) => (
+                                      <div key={item.item_id} className="flex flex-wrap items-center gap-2 text-sm">
+                                        <Badge className={OUTCOME_CLASSES[item.outcome]}>{t(OUTCOME_KEYS[item.outcome])}</Badge>
+                                        <span>{t(ITEM_TYPE_KEYS[item.item_type])}</span>
+                                        <span className="font-mono">{item.contract_number ?? t("billing.allContracts")}</span>
+                                        {item.target_date && <span>{formatDate(item.target_date)}</span>}
+                                        {item.reason && <span className="text-muted-foreground">{item.reason}</span>}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,262 @@
+import { useMemo, useState } from "react";
+import { RotateCcw, Search, Trash2, RefreshCcw } from "lucide-react";
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { useAppDispatch } from "../redux-toolkit/hooks";
+import { thunks } from "../redux-toolkit/slices";
+import { hasPermission, type ResolvedPermissions } from "../lib/permissions";
+import { supabase } from "../lib/supabaseClient";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import {
+  RECYCLE_BIN_SOURCES,
+  fetchRecycleBin,
+  purgeRecord,
+  restoreRecord,
+  type RecycleBinItem,
+  type RecycleBinTable,
+} from "../lib/recycleBin";
+import type { SystemUsers } from "../../supabase/models/system_users";
+import type { MessageKey } from "../locales/en";
+
+interface RecycleBinProps {
+  currentPermissions: ResolvedPermissions;
+}
+
+const ENTITY_KEYS: Record<RecycleBinTable, MessageKey> = {
+  customers: "recycleBin.customer",
+  contracts: "recycleBin.contract",
+  invoices: "recycleBin.invoice",
+  employees: "recycleBin.employee",
+};
+
+const TYPE_KEYS: Record<RecycleBinTable, MessageKey> = {
+  customers: "recycleBin.customers",
+  contracts: "recycleBin.contracts",
+  invoices: "recycleBin.invoices",
+  employees: "recycleBin.employees",
+};
+
+/**
+ * Deleted customers, contracts, invoices and employees, with restore and permanent purge
+ */
+export function RecycleBin({ currentPermissions }: RecycleBinProps) {
+  const dispatch = useAppDispatch();
+  const queryClient = useQueryClient();
+  const canRestore = hasPermission(currentPermissions, "recycleBin", "update");
+  const canPurge = hasPermission(currentPermissions, "recycleBin", "delete");
+
+  const [typeFilter, setTypeFilter] = useState<"all" | RecycleBinTable>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [itemToPurge, setItemToPurge] = useState<RecycleBinItem | null>(null);
+  const { t, formatDateTime } = useLocale();
+
+  const { data: items = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ["recycle_bin"],
+    queryFn: fetchRecycleBin,
+  });
+
+  const { data: userNames = new Map<string, string>() } = useQuery({
+    queryKey: ["system_users", "names"],
+    queryFn: async () => {
+      const { data, error: usersError } = await supabase
+        .from("system_users")
+        .select("user_id, full_name, email")
+        .order("full_name", { ascending: true });
+      if (usersError) throw usersError;
+      return (data ?? []) as Pick<SystemUsers, "user_id" | "full_name" | "email">[];
+    },
+    select: (users) => new Map(users.map((user) => [user.user_id, user.full_name || user.email])),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Lists elsewhere in the app hold their own copies of these tables
+  const refreshTable = (table: RecycleBinTable) => {
+    const refreshSlice: Record<RecycleBinTable, () => unknown> = {
+      customers: () => dispatch(thunks.customers.fetchAll(undefined)),
+      contracts: () => dispatch(thunks.contracts.fetchAll(undefined)),
+      // Restoring an invoice issues its stock again
+      invoices: () => [dispatch(thunks.invoices.fetchAll(undefined)), dispatch(thunks.inventory.fetchAll(undefined))],
+      employees: () => dispatch(thunks.employees.fetchAll(undefined)),
+    };
+    refreshSlice[table]();
+    void queryClient.invalidateQueries({ queryKey: [table] });
+    void queryClient.invalidateQueries({ queryKey: ["recycle_bin"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: RecycleBinItem) => restoreRecord(item.table, item.id),
+    onSuccess: (_, item) => {
+      refreshTable(item.table);
+      toast.success(translateCurrent("recycleBin.restored", { entity: translateCurrent(ENTITY_KEYS[item.table]), label: item.label }));
+    },
+    onError: (restoreError) => {
+      toast.error((restoreError as { message?: string })?.message || translateCurrent("recycleBin.restoreFailed"));
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: RecycleBinItem) => purgeRecord(item.table, item.id),
+    onSuccess: (_, item) => {
+      setItemToPurge(null);
+      void queryClient.invalidateQueries({ queryKey: ["recycle_bin"] });
+      toast.success(translateCurrent("recycleBin.purged", { entity: translateCurrent(ENTITY_KEYS[item.table]), label: item.label }));
+    },
+    onError: (purgeError) => {
+      toast.error((purgeError as { message?: string })?.message || translateCurrent("recycleBin.purgeFailed"));
+    },
+  });
+
+  const filteredItems = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return items.filter(
+      (item) =>
+        (typeFilter === "all" || item.table === typeFilter) &&
+        (!query || item.label.toLowerCase().includes(query) || item.detail.toLowerCase().includes(query))
+    );
+  }, [items, typeFilter, searchQuery]);
+
+  const deletedByName = (userId: string | null) =>
+    userId ? userNames.get(userId) ?? t("recycleBin.unknownUser") : t("recycleBin.system");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("page.recycleBin")}</h2>
+          <p className="text-muted-foreground mt-1">{t("recycleBin.subtitle")}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void refetch()} disabled={isFetching}>
+          <RefreshCcw className={`h-4 w-4 me-2 ${isFetching ? "animate-spin" : ""}`} />
+          {t("recycleBin.refresh")}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("recycleBin.deletedRecords", { count: filteredItems.length })}</CardTitle>
+          <CardDescription>{t("recycleBin.description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row">
+            <div className="relative flex-1">
+              <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder={t("recycleBin.searchPlaceholder")}
+                value={searchQuery}
+                onChange={(event) => setSearchQuery(event.target.value)}
+                className="ps-9"
+              />
+            </div>
+            <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as "all" | RecycleBinTable)}>
+              <SelectTrigger className="md:w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("recycleBin.allTypes")}</SelectItem>
+                {(Object.keys(RECYCLE_BIN_SOURCES) as RecycleBinTable[]).map((table) => (
+                  <SelectItem key={table} value={table}>
+                    {t(TYPE_KEYS[table])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+              {(error as { message?: string })?.message || t("recycleBin.loadFailed")}
+            </div>
+          ) : isLoading ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">{t("common.loading")}</div>
+          ) : filteredItems.length === 0 ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">{t("recycleBin.empty")}</div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("recycleBin.type")}</TableHead>
+                    <TableHead>{t("recycleBin.record")}</TableHead>
+                    <TableHead>{t("recycleBin.deletedBy")}</TableHead>
+                    <TableHead>{t("recycleBin.deletedAt")}</TableHead>
+                    <TableHead className="text-end">{t("common.actions")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredItems.map((item) => (
+                    <TableRow key={`${item.table}-${item.id}`}>
+                      <TableCell>
+                        <Badge variant="outline">{t(ENTITY_KEYS[item.table])}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{item.label}</div>
+                        {item.detail && <div className="text-xs text-muted-foreground">{item.detail}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{deletedByName(item.deletedBy)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatDateTime(item.deletedAt)}</TableCell>
+                      <TableCell className="text-end">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!canRestore || restoreMutation.isPending}
+                            onClick={() => restoreMutation.mutate(item)}
+                          >
+                            <RotateCcw className="h-4 w-4 me-1" />
+                            {t("recycleBin.restore")}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive"
+                            disabled={!canPurge}
+                            onClick={() => setItemToPurge(item)}
+                          >
+                            <Trash2 className="h-4 w-4 me-1" />
+                            {t("recycleBin.purge")}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!itemToPurge} onOpenChange={(open) => !open && setItemToPurge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("recycleBin.purgeTitle")}</DialogTitle>
+            <DialogDescription>
+              {itemToPurge &&
+                t("recycleBin.purgeDescription", { entity: t(ENTITY_KEYS[itemToPurge.table]), label: itemToPurge.label })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setItemToPurge(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={purgeMutation.isPending}
+              onClick={() => itemToPurge && purgeMutation.mutate(itemToPurge)}
+            >
+              <Trash2 className="h-4 w-4 me-2" />
+              {t("recycleBin.purge")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -16,6 +16,8 @@ import type { Expenses as ExpensesRecord } from "../../supabase/models/expenses"
 import type { Inventory as InventoryRecord } from "../../supabase/models/inventory";
 import type { Payrolls } from "../../supabase/models/payrolls";
 import * as XLSX from "@e965/xlsx";
+import { ReceivablesAging } from "./ReceivablesAging";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 const MONTH_NAMES = [
   "January",
@@ -70,6 +72,7 @@ export function Reports() {
   const [filterApplied, setFilterApplied] = useState(false);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const { t, formatNumber, formatCurrency, monthName } = useLocale();
   const [salesRows, setSalesRows] = useState<SalesRow[]>(
     MONTH_NAMES.map((month) => ({
       month,
@@ -101,7 +104,7 @@ export function Reports() {
       
       // Validate dates
       if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
-        setFetchError("Invalid date range selected");
+        setFetchError(translateCurrent("reports.invalidRange"));
         setLoading(false);
         return;
       }
@@ -117,6 +120,7 @@ export function Reports() {
           supabase
             .from("invoices")
             .select("invoice_id,invoice_date,total_amount,customer_id,remaining_amount")
+            .is("deleted_at", null)
             .gte("invoice_date", fromDateStr).lte("invoice_date", toDateStr),
           supabase.from("customers").select("customer_id,customer_name"),
           supabase
@@ -357,7 +361,7 @@ export function Reports() {
         });
       } catch (error) {
         const message =
-          error instanceof Error ? error.message : "Failed to load report data. Please try again shortly.";
+          error instanceof Error ? error.message : translateCurrent("reports.loadFailed");
         setFetchError(message);
       } finally {
         setLoading(false);
@@ -405,17 +409,17 @@ export function Reports() {
     const to = new Date(dateTo);
     
     if (isNaN(from.getTime()) || isNaN(to.getTime())) {
-      toast.error("Please select valid dates");
+      toast.error(t("reports.invalidDates"));
       return;
     }
     
     if (from > to) {
-      toast.error("From date cannot be after To date");
+      toast.error(t("reports.fromAfterTo"));
       return;
     }
     
     setFilterApplied(true);
-    toast.success("Filters applied successfully!");
+    toast.success(t("reports.filtersApplied"));
     // fetchReports will be triggered by useEffect when filterApplied changes
   };
 
@@ -457,9 +461,9 @@ export function Reports() {
       const wb = XLSX.utils.book_new();
       XLSX.utils.book_append_sheet(wb, ws, sheetName);
       XLSX.writeFile(wb, `${filename}_${new Date().toISOString().split("T")[0]}.xlsx`);
-      toast.success(`${filename} exported successfully!`);
+      toast.success(t("reports.exported", { name: filename }));
     } catch (error) {
-      toast.error("Failed to export report");
+      toast.error(t("reports.exportFailed"));
     }
   };
 
@@ -467,32 +471,42 @@ export function Reports() {
     if (reportData) {
       exportToExcel(reportData.data, reportName, reportData.sheetName);
     } else {
-      toast.info("Preparing report for download...");
+      toast.info(t("reports.preparing"));
     }
   };
 
-  const formatCurrency = (value: number, fractionDigits = 0) =>
-    `${value.toLocaleString(undefined, {
+  const formatCurrencyOrDash = (value: number) => (value > 0 ? formatCurrency(value) : "—");
+
+  const formatNumberOrDash = (value: number) => (value > 0 ? formatNumber(value) : "—");
+
+  const formatAverageOrDash = (value: number | null) => (value && value > 0 ? formatCurrency(value) : "—");
+
+  const formatPercent = (value: number, fractionDigits = 1) =>
+    formatNumber(value / 100, {
+      style: "percent",
       minimumFractionDigits: fractionDigits,
       maximumFractionDigits: fractionDigits,
-    })} ر.س`;
-
-  const formatCurrencyOrDash = (value: number, fractionDigits = 0) =>
-    value > 0 ? formatCurrency(value, fractionDigits) : "—";
+    });
 
-  const formatNumberOrDash = (value: number) => (value > 0 ? value.toLocaleString() : "—");
+  // Months are kept by their English name so the Excel exports stay stable
+  const monthLabel = (month: string) => {
+    const index = MONTH_NAMES.indexOf(month);
+    return index >= 0 ? monthName(index + 1) : month;
+  };
 
-  const formatAverageOrDash = (value: number | null) =>
-    value && value > 0
-      ? `${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ر.س`
-      : "—";
+  const stockStatusLabel = (status: string) => {
+    if (status === "Out of Stock") return t("reports.stockOut");
+    if (status === "Low") return t("reports.stockLow");
+    if (status === "Good") return t("reports.stockGood");
+    return status;
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Reports & Analytics</h2>
-          <p className="text-muted-foreground mt-1">Generate and view comprehensive business reports</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("reports.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("reports.subtitle")}</p>
         </div>
       </div>
 
@@ -503,19 +517,19 @@ export function Reports() {
       )}
       {loading && (
         <div className="rounded-md border border-primary/20 bg-primary/5 p-3 text-sm text-primary">
-          Loading the latest report data...
+          {t("reports.loading")}
         </div>
       )}
 
       {/* Date Range Filter */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Report Filters</CardTitle>
+          <CardTitle className="text-lg">{t("reports.filters")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="flex items-end gap-4">
             <div className="space-y-2 flex-1">
-              <Label htmlFor="dateFrom">From Date</Label>
+              <Label htmlFor="dateFrom">{t("reports.fromDate")}</Label>
               <Input
                 id="dateFrom"
                 type="date"
@@ -524,7 +538,7 @@ export function Reports() {
               />
             </div>
             <div className="space-y-2 flex-1">
-              <Label htmlFor="dateTo">To Date</Label>
+              <Label htmlFor="dateTo">{t("reports.toDate")}</Label>
               <Input
                 id="dateTo"
                 type="date"
@@ -533,22 +547,22 @@ export function Reports() {
               />
             </div>
             <div className="space-y-2 flex-1">
-              <Label htmlFor="reportType">Report Type</Label>
+              <Label htmlFor="reportType">{t("reports.type")}</Label>
               <Select value={reportType} onValueChange={setReportType}>
                 <SelectTrigger id="reportType">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Reports</SelectItem>
-                  <SelectItem value="sales">Sales Only</SelectItem>
-                  <SelectItem value="expenses">Expenses Only</SelectItem>
-                  <SelectItem value="inventory">Inventory Only</SelectItem>
+                  <SelectItem value="all">{t("reports.typeAll")}</SelectItem>
+                  <SelectItem value="sales">{t("reports.typeSales")}</SelectItem>
+                  <SelectItem value="expenses">{t("reports.typeExpenses")}</SelectItem>
+                  <SelectItem value="inventory">{t("reports.typeInventory")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <Button className="gap-2" onClick={applyFilters}>
               <Filter className="h-4 w-4" />
-              Apply Filter
+              {t("reports.applyFilter")}
             </Button>
           </div>
         </CardContent>
@@ -558,56 +572,57 @@ export function Reports() {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("reports.totalRevenue")}</CardTitle>
             <DollarSign className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">{formatCurrency(totalRevenue)}</div>
-            <p className="text-xs text-muted-foreground mt-1">Year to date</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("reports.yearToDate")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Expenses</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("reports.totalExpenses")}</CardTitle>
             <TrendingUp className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">{formatCurrency(totalExpensesAmount)}</div>
-            <p className="text-xs text-muted-foreground mt-1">All categories</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("reports.allCategories")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Net Profit</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("reports.netProfit")}</CardTitle>
             <TrendingUp className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-blue-600">{formatCurrency(netProfit)}</div>
-            <p className="text-xs text-muted-foreground mt-1">{profitMargin.toFixed(1)}% margin</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("reports.margin", { percent: formatPercent(profitMargin) })}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Active Customers</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("reports.activeCustomers")}</CardTitle>
             <Users className="h-4 w-4 text-purple-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-purple-600">{customerRows.length}</div>
-            <p className="text-xs text-muted-foreground mt-1">Top performers</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("reports.topPerformers")}</p>
           </CardContent>
         </Card>
       </div>
 
       <Tabs defaultValue="sales" className="space-y-4">
         <TabsList>
-          <TabsTrigger value="sales">Sales Report</TabsTrigger>
-          <TabsTrigger value="expenses">Expenses Report</TabsTrigger>
-          <TabsTrigger value="customers">Customer Report</TabsTrigger>
-          <TabsTrigger value="inventory">Inventory Report</TabsTrigger>
-          <TabsTrigger value="profitloss">Profit & Loss</TabsTrigger>
+          <TabsTrigger value="sales">{t("reports.salesTab")}</TabsTrigger>
+          <TabsTrigger value="expenses">{t("reports.expensesTab")}</TabsTrigger>
+          <TabsTrigger value="customers">{t("reports.customersTab")}</TabsTrigger>
+          <TabsTrigger value="inventory">{t("reports.inventoryTab")}</TabsTrigger>
+          <TabsTrigger value="profitloss">{t("reports.profitLossTab")}</TabsTrigger>
+          <TabsTrigger value="aging">{t("reports.agingTab")}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="sales" className="space-y-4">
@@ -615,8 +630,8 @@ export function Reports() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Monthly Sales Report</CardTitle>
-                  <CardDescription>Sales performance by month</CardDescription>
+                  <CardTitle>{t("reports.salesTitle")}</CardTitle>
+                  <CardDescription>{t("reports.salesDescription")}</CardDescription>
                 </div>
                 <Button
                   onClick={() => {
@@ -632,7 +647,7 @@ export function Reports() {
                   className="gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
@@ -645,54 +660,54 @@ export function Reports() {
                         className="cursor-pointer hover:bg-muted"
                         onClick={() => handleSort("month")}
                       >
-                        Month {sortField === "month" && (sortDirection === "asc" ? "↑" : "↓")}
+                        {t("reports.month")} {sortField === "month" && (sortDirection === "asc" ? "↑" : "↓")}
                       </TableHead>
                       <TableHead 
-                        className="text-right cursor-pointer hover:bg-muted"
+                        className="text-end cursor-pointer hover:bg-muted"
                         onClick={() => handleSort("revenue")}
                       >
-                        Revenue {sortField === "revenue" && (sortDirection === "asc" ? "↑" : "↓")}
+                        {t("reports.revenue")} {sortField === "revenue" && (sortDirection === "asc" ? "↑" : "↓")}
                       </TableHead>
                       <TableHead 
-                        className="text-right cursor-pointer hover:bg-muted"
+                        className="text-end cursor-pointer hover:bg-muted"
                         onClick={() => handleSort("invoices")}
                       >
-                        Invoices {sortField === "invoices" && (sortDirection === "asc" ? "↑" : "↓")}
+                        {t("reports.invoices")} {sortField === "invoices" && (sortDirection === "asc" ? "↑" : "↓")}
                       </TableHead>
                       <TableHead 
-                        className="text-right cursor-pointer hover:bg-muted"
+                        className="text-end cursor-pointer hover:bg-muted"
                         onClick={() => handleSort("customers")}
                       >
-                        Customers {sortField === "customers" && (sortDirection === "asc" ? "↑" : "↓")}
+                        {t("reports.customers")} {sortField === "customers" && (sortDirection === "asc" ? "↑" : "↓")}
                       </TableHead>
                       <TableHead 
-                        className="text-right cursor-pointer hover:bg-muted"
+                        className="text-end cursor-pointer hover:bg-muted"
                         onClick={() => handleSort("avgPerInvoice")}
                       >
-                        Avg per Invoice {sortField === "avgPerInvoice" && (sortDirection === "asc" ? "↑" : "↓")}
+                        {t("reports.avgPerInvoice")} {sortField === "avgPerInvoice" && (sortDirection === "asc" ? "↑" : "↓")}
                       </TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {sortedSalesData.map((row) => (
                       <TableRow key={row.month}>
-                        <TableCell className="font-medium">{row.month}</TableCell>
-                        <TableCell className="text-right font-semibold text-green-600">
+                        <TableCell className="font-medium">{monthLabel(row.month)}</TableCell>
+                        <TableCell className="text-end font-semibold text-green-600">
                           {formatCurrencyOrDash(row.revenue)}
                         </TableCell>
-                        <TableCell className="text-right">{formatNumberOrDash(row.invoices)}</TableCell>
-                        <TableCell className="text-right">{formatNumberOrDash(row.customers)}</TableCell>
-                        <TableCell className="text-right">{formatAverageOrDash(row.avgPerInvoice)}</TableCell>
+                        <TableCell className="text-end">{formatNumberOrDash(row.invoices)}</TableCell>
+                        <TableCell className="text-end">{formatNumberOrDash(row.customers)}</TableCell>
+                        <TableCell className="text-end">{formatAverageOrDash(row.avgPerInvoice)}</TableCell>
                       </TableRow>
                     ))}
                     <TableRow className="bg-muted/50 font-bold">
-                      <TableCell>Total</TableCell>
-                      <TableCell className="text-right text-green-600">
+                      <TableCell>{t("common.total")}</TableCell>
+                      <TableCell className="text-end text-green-600">
                         {formatCurrencyOrDash(totalRevenue)}
                       </TableCell>
-                      <TableCell className="text-right">{formatNumberOrDash(totalInvoices)}</TableCell>
-                      <TableCell className="text-right">-</TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">{formatNumberOrDash(totalInvoices)}</TableCell>
+                      <TableCell className="text-end">-</TableCell>
+                      <TableCell className="text-end">
                         {formatAverageOrDash(totalInvoices > 0 ? totalRevenue / totalInvoices : null)}
                       </TableCell>
                     </TableRow>
@@ -708,8 +723,8 @@ export function Reports() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Expenses Breakdown</CardTitle>
-                  <CardDescription>Expenses by category</CardDescription>
+                  <CardTitle>{t("reports.expensesTitle")}</CardTitle>
+                  <CardDescription>{t("reports.expensesDescription")}</CardDescription>
                 </div>
                 <Button
                   onClick={() => {
@@ -723,7 +738,7 @@ export function Reports() {
                   className="gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
@@ -732,20 +747,20 @@ export function Reports() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Category</TableHead>
-                      <TableHead className="text-right">Amount</TableHead>
-                      <TableHead className="text-right">Percentage</TableHead>
-                      <TableHead>Distribution</TableHead>
+                      <TableHead>{t("reports.category")}</TableHead>
+                      <TableHead className="text-end">{t("reports.amount")}</TableHead>
+                      <TableHead className="text-end">{t("reports.percentage")}</TableHead>
+                      <TableHead>{t("reports.distribution")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {expensesRows.map((row) => (
                       <TableRow key={row.category}>
                         <TableCell className="font-medium">{row.category}</TableCell>
-                        <TableCell className="text-right font-semibold text-red-600">
+                        <TableCell className="text-end font-semibold text-red-600">
                           {formatCurrencyOrDash(row.amount)}
                         </TableCell>
-                        <TableCell className="text-right">{row.percentage}%</TableCell>
+                        <TableCell className="text-end">{formatPercent(row.percentage, 0)}</TableCell>
                         <TableCell>
                           <div className="w-full bg-gray-200 rounded-full h-2">
                             <div
@@ -757,11 +772,11 @@ export function Reports() {
                       </TableRow>
                     ))}
                     <TableRow className="bg-muted/50 font-bold">
-                      <TableCell>Total</TableCell>
-                      <TableCell className="text-right text-red-600">
+                      <TableCell>{t("common.total")}</TableCell>
+                      <TableCell className="text-end text-red-600">
                         {formatCurrencyOrDash(totalExpensesAmount)}
                       </TableCell>
-                      <TableCell className="text-right">100%</TableCell>
+                      <TableCell className="text-end">{formatPercent(100, 0)}</TableCell>
                       <TableCell></TableCell>
                     </TableRow>
                   </TableBody>
@@ -776,8 +791,8 @@ export function Reports() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Top Customers Report</CardTitle>
-                  <CardDescription>Best performing customers</CardDescription>
+                  <CardTitle>{t("reports.customersTitle")}</CardTitle>
+                  <CardDescription>{t("reports.customersDescription")}</CardDescription>
                 </div>
                 <Button
                   onClick={() => {
@@ -793,7 +808,7 @@ export function Reports() {
                   className="gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
@@ -802,40 +817,40 @@ export function Reports() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Customer Name</TableHead>
-                      <TableHead className="text-right">Total Revenue</TableHead>
-                      <TableHead className="text-right">Invoices</TableHead>
-                      <TableHead className="text-right">Outstanding</TableHead>
-                      <TableHead className="text-right">Avg per Invoice</TableHead>
+                      <TableHead>{t("reports.customerName")}</TableHead>
+                      <TableHead className="text-end">{t("reports.totalRevenue")}</TableHead>
+                      <TableHead className="text-end">{t("reports.invoices")}</TableHead>
+                      <TableHead className="text-end">{t("reports.outstanding")}</TableHead>
+                      <TableHead className="text-end">{t("reports.avgPerInvoice")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {customerRows.map((row) => (
                       <TableRow key={row.name}>
                         <TableCell className="font-medium">{row.name}</TableCell>
-                        <TableCell className="text-right font-semibold text-green-600">
+                        <TableCell className="text-end font-semibold text-green-600">
                           {formatCurrencyOrDash(row.revenue)}
                         </TableCell>
-                        <TableCell className="text-right">{formatNumberOrDash(row.invoices)}</TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">{formatNumberOrDash(row.invoices)}</TableCell>
+                        <TableCell className="text-end">
                           <span className={row.outstanding > 0 ? "text-yellow-600" : "text-green-600"}>
                             {formatCurrencyOrDash(row.outstanding)}
                           </span>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">
                           {formatAverageOrDash(row.invoices > 0 ? row.revenue / row.invoices : null)}
                         </TableCell>
                       </TableRow>
                     ))}
                     <TableRow className="bg-muted/50 font-bold">
-                      <TableCell>Total</TableCell>
-                      <TableCell className="text-right text-green-600">
+                      <TableCell>{t("common.total")}</TableCell>
+                      <TableCell className="text-end text-green-600">
                         {formatCurrencyOrDash(customerRows.reduce((sum, row) => sum + row.revenue, 0))}
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         {formatNumberOrDash(customerRows.reduce((sum, row) => sum + row.invoices, 0))}
                       </TableCell>
-                      <TableCell className="text-right text-yellow-600">
+                      <TableCell className="text-end text-yellow-600">
                         {formatCurrencyOrDash(customerRows.reduce((sum, row) => sum + row.outstanding, 0))}
                       </TableCell>
                       <TableCell></TableCell>
@@ -852,8 +867,8 @@ export function Reports() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Inventory Status Report</CardTitle>
-                  <CardDescription>Current stock levels and values</CardDescription>
+                  <CardTitle>{t("reports.inventoryTitle")}</CardTitle>
+                  <CardDescription>{t("reports.inventoryDescription")}</CardDescription>
                 </div>
                 <Button
                   onClick={() => {
@@ -869,7 +884,7 @@ export function Reports() {
                   className="gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
@@ -878,20 +893,20 @@ export function Reports() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Item Name</TableHead>
-                      <TableHead className="text-right">Current Stock</TableHead>
-                      <TableHead className="text-right">Reorder Point</TableHead>
-                      <TableHead className="text-right">Stock Value</TableHead>
-                      <TableHead>Status</TableHead>
+                      <TableHead>{t("reports.itemName")}</TableHead>
+                      <TableHead className="text-end">{t("reports.currentStock")}</TableHead>
+                      <TableHead className="text-end">{t("reports.reorderPoint")}</TableHead>
+                      <TableHead className="text-end">{t("reports.stockValue")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {inventoryRows.map((row) => (
                       <TableRow key={row.item}>
                         <TableCell className="font-medium">{row.item}</TableCell>
-                        <TableCell className="text-right">{formatNumberOrDash(row.stock)}</TableCell>
-                        <TableCell className="text-right">{formatNumberOrDash(row.reorderPoint)}</TableCell>
-                        <TableCell className="text-right font-semibold">
+                        <TableCell className="text-end">{formatNumberOrDash(row.stock)}</TableCell>
+                        <TableCell className="text-end">{formatNumberOrDash(row.reorderPoint)}</TableCell>
+                        <TableCell className="text-end font-semibold">
                           {formatCurrencyOrDash(row.value)}
                         </TableCell>
                         <TableCell>
@@ -904,16 +919,16 @@ export function Reports() {
                                 : "bg-red-100 text-red-700"
                             }`}
                           >
-                            {row.status}
+                            {stockStatusLabel(row.status)}
                           </span>
                         </TableCell>
                       </TableRow>
                     ))}
                     <TableRow className="bg-muted/50 font-bold">
-                      <TableCell>Total Value</TableCell>
+                      <TableCell>{t("reports.totalValue")}</TableCell>
                       <TableCell></TableCell>
                       <TableCell></TableCell>
-                      <TableCell className="text-right text-blue-600">
+                      <TableCell className="text-end text-blue-600">
                         {formatCurrencyOrDash(inventoryRows.reduce((sum, row) => sum + row.value, 0))}
                       </TableCell>
                       <TableCell></TableCell>
@@ -930,8 +945,8 @@ export function Reports() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Profit & Loss Statement</CardTitle>
-                  <CardDescription>Comprehensive financial overview</CardDescription>
+                  <CardTitle>{t("reports.profitLossTitle")}</CardTitle>
+                  <CardDescription>{t("reports.profitLossDescription")}</CardDescription>
                 </div>
                 <Button
                   onClick={() => {
@@ -951,30 +966,30 @@ export function Reports() {
                   className="gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
                 <div className="space-y-3">
-                  <h3 className="font-semibold text-lg border-b pb-2">Revenue</h3>
+                  <h3 className="font-semibold text-lg border-b pb-2">{t("reports.revenue")}</h3>
                   <div className="flex justify-between text-sm">
-                    <span>Sales Revenue</span>
+                    <span>{t("reports.salesRevenue")}</span>
                     <span className="font-medium">{formatCurrency(totals.totalRevenue * 0.85)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span>Service Revenue</span>
+                    <span>{t("reports.serviceRevenue")}</span>
                     <span className="font-medium">{formatCurrency(totals.totalRevenue * 0.15)}</span>
                   </div>
                   <div className="flex justify-between font-bold text-green-600 pt-2 border-t">
-                    <span>Total Revenue</span>
+                    <span>{t("reports.totalRevenue")}</span>
                     <span>{formatCurrency(totals.totalRevenue)}</span>
                   </div>
                 </div>
 
                 <div className="space-y-3">
-                  <h3 className="font-semibold text-lg border-b pb-2">Expenses</h3>
+                  <h3 className="font-semibold text-lg border-b pb-2">{t("reports.expenses")}</h3>
                   {expensesRows.map((expense) => (
                     <div key={expense.category} className="flex justify-between text-sm">
                       <span>{expense.category}</span>
@@ -982,7 +997,7 @@ export function Reports() {
                     </div>
                   ))}
                   <div className="flex justify-between font-bold text-red-600 pt-2 border-t">
-                    <span>Total Expenses</span>
+                    <span>{t("reports.totalExpenses")}</span>
                     <span>{formatCurrency(totals.totalExpenses)}</span>
                   </div>
                 </div>
@@ -990,15 +1005,15 @@ export function Reports() {
                 <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-6 rounded-lg border-2 border-blue-200">
                   <div className="flex justify-between items-center">
                     <div>
-                      <div className="text-sm text-muted-foreground mb-1">Net Profit</div>
+                      <div className="text-sm text-muted-foreground mb-1">{t("reports.netProfit")}</div>
                       <div className="text-3xl font-bold text-blue-600">
                         {formatCurrency(totals.netProfit)}
                       </div>
                     </div>
-                    <div className="text-right">
-                      <div className="text-sm text-muted-foreground mb-1">Profit Margin</div>
+                    <div className="text-end">
+                      <div className="text-sm text-muted-foreground mb-1">{t("reports.profitMargin")}</div>
                       <div className="text-3xl font-bold text-purple-600">
-                        {totals.profitMargin.toFixed(1)}%
+                        {formatPercent(totals.profitMargin)}
                       </div>
                     </div>
                   </div>
@@ -1007,12 +1022,16 @@ export function Reports() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="aging" className="space-y-4">
+          <ReceivablesAging />
+        </TabsContent>
       </Tabs>
 
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Quick Export Options</CardTitle>
-          <CardDescription>Generate and download reports quickly</CardDescription>
+          <CardTitle className="text-lg">{t("reports.quickExport")}</CardTitle>
+          <CardDescription>{t("reports.quickExportDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
@@ -1038,7 +1057,7 @@ export function Reports() {
               className="gap-2 justify-start"
             >
               <FileText className="h-4 w-4" />
-              Complete Financial Report
+              {t("reports.completeFinancial")}
             </Button>
             <Button
               variant="outline"
@@ -1053,7 +1072,7 @@ export function Reports() {
               className="gap-2 justify-start"
             >
               <Calendar className="h-4 w-4" />
-              Monthly Summary
+              {t("reports.monthlySummary")}
             </Button>
             <Button
               variant="outline"
@@ -1071,7 +1090,7 @@ export function Reports() {
               className="gap-2 justify-start"
             >
               <TrendingUp className="h-4 w-4" />
-              Annual Report
+              {t("reports.annual")}
             </Button>
             <Button
               variant="outline"
@@ -1088,7 +1107,7 @@ export function Reports() {
               className="gap-2 justify-start"
             >
               <DollarSign className="h-4 w-4" />
-              Tax Report
+              {t("reports.tax")}
             </Button>
             <Button
               variant="outline"
@@ -1104,7 +1123,7 @@ export function Reports() {
               className="gap-2 justify-start"
             >
               <Users className="h-4 w-4" />
-              Customer Analysis
+              {t("reports.customerAnalysis")}
             </Button>
             <Button
               variant="outline"
@@ -1120,7 +1139,7 @@ export function Reports() {
               className="gap-2 justify-start"
             >
               <Package className="h-4 w-4" />
-              Inventory Valuation
+              {t("reports.inventoryValuation")}
             </Button>
           </div>
         </CardContent>
@@ -30,6 +30,8 @@ import { thunks, selectors } from "../redux-toolkit/slices";
 import type { Delegates } from "../../supabase/models/delegates";
 import type { Customers } from "../../supabase/models/customers";
 import type { MonthlyVisits } from "../../supabase/models/monthly_visits";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface AssignedCustomer {
   id: number;
@@ -55,8 +57,14 @@ interface Representative {
   assignedCustomers: AssignedCustomer[];
 }
 
+const STATUS_KEYS: Record<Representative["status"], MessageKey> = {
+  Active: "status.active",
+  "On Leave": "representatives.status.onLeave",
+  Inactive: "status.inactive",
+};
 
 export function Representatives() {
+  const { t, formatNumber, formatDate } = useLocale();
   const dispatch = useAppDispatch();
   const dbDelegates = useAppSelector(selectors.delegates.selectAll) as Delegates[];
   const dbCustomers = useAppSelector(selectors.customers.selectAll) as Customers[];
@@ -179,12 +187,12 @@ export function Representatives() {
 
   const handleSaveEdit = async () => {
     if (!selectedRep || !formName || !formPhone || !formEmail || !formArea) {
-      toast.error("Please fill all required fields");
+      toast.error(t("representatives.requiredFields"));
       return;
     }
 
     if (!selectedRep.dbId) {
-      toast.error("Representative ID not found");
+      toast.error(t("representatives.idNotFound"));
       return;
     }
 
@@ -206,16 +214,18 @@ export function Representatives() {
       dispatch(thunks.delegates.fetchAll(undefined));
       setIsEditDialogOpen(false);
       resetForm();
-      toast.success("Representative updated successfully!");
+      toast.success(translateCurrent("representatives.updated"));
     } catch (error: any) {
       console.error('Failed to update representative:', error);
-      toast.error(`Failed to update representative: ${error.message || 'Unknown error'}`);
+      toast.error(
+        translateCurrent("representatives.updateFailed", { error: error.message || translateCurrent("common.unknownError") })
+      );
     }
   };
 
   const handleAddRep = async () => {
     if (!formName || !formPhone || !formEmail || !formArea) {
-      toast.error("Please fill all required fields");
+      toast.error(t("representatives.requiredFields"));
       return;
     }
 
@@ -235,36 +245,40 @@ export function Representatives() {
       dispatch(thunks.delegates.fetchAll(undefined));
       setIsAddDialogOpen(false);
       resetForm();
-      toast.success("Representative added successfully!");
+      toast.success(translateCurrent("representatives.added"));
     } catch (error: any) {
       console.error('Failed to create representative:', error);
-      toast.error(`Failed to create representative: ${error.message || 'Unknown error'}`);
+      toast.error(
+        translateCurrent("representatives.createFailed", { error: error.message || translateCurrent("common.unknownError") })
+      );
     }
   };
 
   const handleDeleteRep = async (rep: Representative) => {
     if (!rep.dbId) {
-      toast.error("Representative ID not found");
+      toast.error(t("representatives.idNotFound"));
       return;
     }
 
     // Check if representative has assigned customers
     if (rep.assignedCustomers.length > 0) {
-      toast.error("Cannot delete representative with assigned customers. Please reassign customers first.");
+      toast.error(t("representatives.hasCustomers"));
       return;
     }
 
-    if (!confirm(`Are you sure you want to delete ${rep.name}? This action cannot be undone.`)) {
+    if (!confirm(t("representatives.deleteConfirm", { name: rep.name }))) {
       return;
     }
 
     try {
       await dispatch(thunks.delegates.deleteOne(rep.dbId)).unwrap();
       dispatch(thunks.delegates.fetchAll(undefined));
-      toast.success("Representative deleted successfully!");
+      toast.success(translateCurrent("representatives.deleted"));
     } catch (error: any) {
       console.error('Failed to delete representative:', error);
-      toast.error(`Failed to delete representative: ${error.message || 'Unknown error'}`);
+      toast.error(
+        translateCurrent("representatives.deleteFailed", { error: error.message || translateCurrent("common.unknownError") })
+      );
     }
   };
 
@@ -305,9 +319,9 @@ export function Representatives() {
       XLSX.utils.book_append_sheet(wb, ws, "Representatives");
       const fileName = `representatives_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(translateCurrent("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(translateCurrent("common.exportFailed"));
       console.error(error);
     }
   };
@@ -316,13 +330,13 @@ export function Representatives() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2>Representative Management</h2>
-          <p className="text-muted-foreground mt-1">Manage representatives, assigned customers and visits</p>
+          <h2>{t("representatives.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("representatives.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Dialog open={isAddDialogOpen} onOpenChange={(open) => {
             setIsAddDialogOpen(open);
@@ -331,27 +345,27 @@ export function Representatives() {
             <DialogTrigger asChild>
               <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
                 <Plus className="h-4 w-4" />
-                Add New Representative
+                {t("representatives.addNew")}
               </Button>
             </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Add New Representative</DialogTitle>
-              <DialogDescription>Enter new representative details</DialogDescription>
+              <DialogTitle>{t("representatives.addNew")}</DialogTitle>
+              <DialogDescription>{t("representatives.addDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="space-y-2">
-                <Label htmlFor="rep-name">Full Name *</Label>
+                <Label htmlFor="rep-name">{t("representatives.fullNameRequired")}</Label>
                 <Input 
                   id="rep-name" 
-                  placeholder="Enter full name" 
+                  placeholder={t("representatives.fullNamePlaceholder")} 
                   value={formName}
                   onChange={(e) => setFormName(e.target.value)}
                 />
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="rep-phone">Phone Number *</Label>
+                  <Label htmlFor="rep-phone">{t("representatives.phoneRequired")}</Label>
                   <Input 
                     id="rep-phone" 
                     placeholder="05xxxxxxxx" 
@@ -360,7 +374,7 @@ export function Representatives() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="rep-email">Email *</Label>
+                  <Label htmlFor="rep-email">{t("representatives.emailRequired")}</Label>
                   <Input 
                     id="rep-email" 
                     type="email" 
@@ -371,32 +385,32 @@ export function Representatives() {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="rep-area">Coverage Area *</Label>
+                <Label htmlFor="rep-area">{t("representatives.areaRequired")}</Label>
                 <Input 
                   id="rep-area" 
-                  placeholder="e.g., Riyadh - North"
+                  placeholder={t("representatives.areaPlaceholder")}
                   value={formArea}
                   onChange={(e) => setFormArea(e.target.value)}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="rep-status">Status</Label>
+                <Label htmlFor="rep-status">{t("common.status")}</Label>
                 <Select value={formStatus} onValueChange={(value: any) => setFormStatus(value)}>
                   <SelectTrigger id="rep-status">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Active">Active</SelectItem>
-                    <SelectItem value="On Leave">On Leave</SelectItem>
-                    <SelectItem value="Inactive">Inactive</SelectItem>
+                    <SelectItem value="Active">{t("status.active")}</SelectItem>
+                    <SelectItem value="On Leave">{t("representatives.status.onLeave")}</SelectItem>
+                    <SelectItem value="Inactive">{t("status.inactive")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
             </div>
             <div className="flex justify-end gap-3">
-              <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>Cancel</Button>
+              <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>{t("common.cancel")}</Button>
               <Button onClick={handleAddRep} className="bg-purple-600 hover:bg-purple-700 text-white" disabled={delegatesLoading}>
-                {delegatesLoading ? "Adding..." : "Add Representative"}
+                {delegatesLoading ? t("representatives.adding") : t("representatives.add")}
               </Button>
             </div>
           </DialogContent>
@@ -408,49 +422,49 @@ export function Representatives() {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Representatives</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("representatives.total")}</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{representatives.length}</div>
+            <div className="text-2xl font-bold">{formatNumber(representatives.length)}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              {representatives.filter(r => r.status === "Active").length} active
+              {t("representatives.activeCount", { count: formatNumber(representatives.filter(r => r.status === "Active").length) })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Active Clients</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("representatives.totalActiveClients")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              {representatives.reduce((sum, r) => sum + r.activeClients, 0)}
+              {formatNumber(representatives.reduce((sum, r) => sum + r.activeClients, 0))}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">Across all reps</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("representatives.acrossAllReps")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Inactive Clients</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("representatives.inactiveClients")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-orange-600">
-              {representatives.reduce((sum, r) => sum + r.inactiveClients, 0)}
+              {formatNumber(representatives.reduce((sum, r) => sum + r.inactiveClients, 0))}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">Need reactivation</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("representatives.needReactivation")}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Monthly Visits</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("representatives.monthlyVisits")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {representatives.reduce((sum, r) => sum + r.monthlyVisits, 0)}
+              {formatNumber(representatives.reduce((sum, r) => sum + r.monthlyVisits, 0))}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">This month</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("visits.thisMonth")}</p>
           </CardContent>
         </Card>
       </div>
@@ -459,14 +473,14 @@ export function Representatives() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>All Representatives</CardTitle>
+            <CardTitle>{t("representatives.all")}</CardTitle>
             <div className="relative">
-              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search representatives..."
+                placeholder={t("representatives.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-8 w-[300px]"
+                className="ps-8 w-[300px]"
               />
             </div>
           </div>
@@ -476,21 +490,21 @@ export function Representatives() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Representative</TableHead>
-                  <TableHead>Contact</TableHead>
-                  <TableHead>Area</TableHead>
-                  <TableHead>Active Clients</TableHead>
-                  <TableHead>Inactive Clients</TableHead>
-                  <TableHead>Monthly Visits</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("visits.representative")}</TableHead>
+                  <TableHead>{t("representatives.contact")}</TableHead>
+                  <TableHead>{t("representatives.area")}</TableHead>
+                  <TableHead>{t("representatives.activeClients")}</TableHead>
+                  <TableHead>{t("representatives.inactiveClients")}</TableHead>
+                  <TableHead>{t("representatives.monthlyVisits")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {delegatesLoading && filteredRepresentatives.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
-                      Loading representatives...
+                      {t("representatives.loading")}
                     </TableCell>
                   </TableRow>
                 ) : filteredRepresentatives.length === 0 ? (
@@ -498,7 +512,7 @@ export function Representatives() {
                     <TableCell colSpan={8} className="p-0">
                       <div className="flex flex-col items-center justify-center py-12">
                         <User className="h-12 w-12 text-muted-foreground mb-3" />
-                        <p className="text-muted-foreground">No representatives found</p>
+                        <p className="text-muted-foreground">{t("representatives.empty")}</p>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -533,18 +547,18 @@ export function Representatives() {
                     <TableCell>{rep.area}</TableCell>
                     <TableCell>
                       <Badge variant="secondary" className="bg-green-100 text-green-700 border-green-200">
-                        {rep.activeClients} Active
+                        {t("representatives.activeCount", { count: formatNumber(rep.activeClients) })}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <Badge variant="secondary" className="bg-orange-100 text-orange-700 border-orange-200">
-                        {rep.inactiveClients} Inactive
+                        {t("representatives.inactiveCount", { count: formatNumber(rep.inactiveClients) })}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4 text-muted-foreground" />
-                        {rep.monthlyVisits}
+                        {formatNumber(rep.monthlyVisits)}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -557,18 +571,18 @@ export function Representatives() {
                             : "bg-gray-100 text-gray-700 border-gray-200"
                         }
                       >
-                        {rep.status}
+                        {t(STATUS_KEYS[rep.status])}
                       </Badge>
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-end">
                       <div className="flex items-center justify-end gap-2">
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => handleViewCustomers(rep)}
                         >
-                          <Eye className="h-4 w-4 mr-1" />
-                          View Customers
+                          <Eye className="h-4 w-4 me-1" />
+                          {t("representatives.viewCustomers")}
                         </Button>
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
@@ -578,15 +592,15 @@ export function Representatives() {
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
                             <DropdownMenuItem onClick={() => handleEditRep(rep)}>
-                              <Edit className="mr-2 h-4 w-4" />
-                              Edit
+                              <Edit className="me-2 h-4 w-4" />
+                              {t("common.edit")}
                             </DropdownMenuItem>
                             <DropdownMenuItem 
                               className="text-destructive"
                               onClick={() => handleDeleteRep(rep)}
                             >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
+                              <Trash2 className="me-2 h-4 w-4" />
+                              {t("common.delete")}
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -608,22 +622,22 @@ export function Representatives() {
       }}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Edit Representative</DialogTitle>
-            <DialogDescription>Update representative details</DialogDescription>
+            <DialogTitle>{t("representatives.editTitle")}</DialogTitle>
+            <DialogDescription>{t("representatives.editDescription")}</DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="edit-name">Full Name *</Label>
+              <Label htmlFor="edit-name">{t("representatives.fullNameRequired")}</Label>
               <Input 
                 id="edit-name" 
-                placeholder="Enter full name" 
+                placeholder={t("representatives.fullNamePlaceholder")} 
                 value={formName}
                 onChange={(e) => setFormName(e.target.value)}
               />
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="edit-phone">Phone Number *</Label>
+                <Label htmlFor="edit-phone">{t("representatives.phoneRequired")}</Label>
                 <Input 
                   id="edit-phone" 
                   placeholder="05xxxxxxxx" 
@@ -632,7 +646,7 @@ export function Representatives() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="edit-email">Email *</Label>
+                <Label htmlFor="edit-email">{t("representatives.emailRequired")}</Label>
                 <Input 
                   id="edit-email" 
                   type="email" 
@@ -643,32 +657,32 @@ export function Representatives() {
               </div>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-area">Coverage Area *</Label>
+              <Label htmlFor="edit-area">{t("representatives.areaRequired")}</Label>
               <Input 
                 id="edit-area" 
-                placeholder="e.g., Riyadh - North"
+                placeholder={t("representatives.areaPlaceholder")}
                 value={formArea}
                 onChange={(e) => setFormArea(e.target.value)}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-status">Status</Label>
+              <Label htmlFor="edit-status">{t("common.status")}</Label>
               <Select value={formStatus} onValueChange={(value: any) => setFormStatus(value)}>
                 <SelectTrigger id="edit-status">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Active">Active</SelectItem>
-                  <SelectItem value="On Leave">On Leave</SelectItem>
-                  <SelectItem value="Inactive">Inactive</SelectItem>
+                  <SelectItem value="Active">{t("status.active")}</SelectItem>
+                  <SelectItem value="On Leave">{t("representatives.status.onLeave")}</SelectItem>
+                  <SelectItem value="Inactive">{t("status.inactive")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
           <div className="flex justify-end gap-3">
-            <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>Cancel</Button>
+            <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>{t("common.cancel")}</Button>
             <Button onClick={handleSaveEdit} className="bg-purple-600 hover:bg-purple-700 text-white" disabled={delegatesLoading}>
-              {delegatesLoading ? "Saving..." : "Save Changes"}
+              {delegatesLoading ? t("common.saving") : t("common.saveChanges")}
             </Button>
           </div>
         </DialogContent>
@@ -679,10 +693,10 @@ export function Representatives() {
         <DialogContent className="max-w-5xl">
           <DialogHeader>
             <DialogTitle>
-              {selectedRep?.name} - Assigned Customers
+              {t("representatives.assignedCustomersTitle", { name: selectedRep?.name ?? "" })}
             </DialogTitle>
             <DialogDescription>
-              View and manage customers assigned to this representative
+              {t("representatives.assignedCustomersDescription")}
             </DialogDescription>
           </DialogHeader>
 
@@ -694,9 +708,9 @@ export function Representatives() {
                   <CardContent className="pt-6">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-600">
-                        {selectedRep.activeClients}
+                        {formatNumber(selectedRep.activeClients)}
                       </div>
-                      <p className="text-sm text-muted-foreground">Active Clients</p>
+                      <p className="text-sm text-muted-foreground">{t("representatives.activeClients")}</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -704,9 +718,9 @@ export function Representatives() {
                   <CardContent className="pt-6">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-orange-600">
-                        {selectedRep.inactiveClients}
+                        {formatNumber(selectedRep.inactiveClients)}
                       </div>
-                      <p className="text-sm text-muted-foreground">Inactive Clients</p>
+                      <p className="text-sm text-muted-foreground">{t("representatives.inactiveClients")}</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -714,9 +728,9 @@ export function Representatives() {
                   <CardContent className="pt-6">
                     <div className="text-center">
                       <div className="text-2xl font-bold">
-                        {selectedRep.monthlyVisits}
+                        {formatNumber(selectedRep.monthlyVisits)}
                       </div>
-                      <p className="text-sm text-muted-foreground">Monthly Visits</p>
+                      <p className="text-sm text-muted-foreground">{t("representatives.monthlyVisits")}</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -726,13 +740,17 @@ export function Representatives() {
               <Tabs value={customerFilter} onValueChange={(v) => setCustomerFilter(v as any)}>
                 <TabsList className="grid w-full grid-cols-3">
                   <TabsTrigger value="all">
-                    All ({selectedRep.assignedCustomers.length})
+                    {t("visits.allCount", { count: formatNumber(selectedRep.assignedCustomers.length) })}
                   </TabsTrigger>
                   <TabsTrigger value="active">
-                    Active ({selectedRep.assignedCustomers.filter(c => c.status === "active").length})
+                    {t("representatives.activeTab", {
+                      count: formatNumber(selectedRep.assignedCustomers.filter(c => c.status === "active").length),
+                    })}
                   </TabsTrigger>
                   <TabsTrigger value="inactive">
-                    Inactive ({selectedRep.assignedCustomers.filter(c => c.status === "inactive").length})
+                    {t("representatives.inactiveTab", {
+                      count: formatNumber(selectedRep.assignedCustomers.filter(c => c.status === "inactive").length),
+                    })}
                   </TabsTrigger>
                 </TabsList>
 
@@ -741,20 +759,20 @@ export function Representatives() {
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Customer</TableHead>
-                          <TableHead>Company</TableHead>
-                          <TableHead>Mobile</TableHead>
-                          <TableHead>Last Visit</TableHead>
-                          <TableHead>Next Visit</TableHead>
-                          <TableHead>Status</TableHead>
-                          <TableHead className="text-right">Actions</TableHead>
+                          <TableHead>{t("common.customer")}</TableHead>
+                          <TableHead>{t("monthlyVisits.company")}</TableHead>
+                          <TableHead>{t("representatives.mobile")}</TableHead>
+                          <TableHead>{t("representatives.lastVisit")}</TableHead>
+                          <TableHead>{t("representatives.nextVisit")}</TableHead>
+                          <TableHead>{t("common.status")}</TableHead>
+                          <TableHead className="text-end">{t("common.actions")}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {getFilteredCustomers(selectedRep.assignedCustomers).length === 0 ? (
                           <TableRow>
                             <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                              No customers found
+                              {t("platformCustomers.empty")}
                             </TableCell>
                           </TableRow>
                         ) : (
@@ -771,12 +789,12 @@ export function Representatives() {
                                 </div>
                               </TableCell>
                               <TableCell>
-                                {new Date(customer.lastVisit).toLocaleDateString('en-GB')}
+                                {formatDate(customer.lastVisit)}
                               </TableCell>
                               <TableCell>
                                 {customer.nextVisit !== "N/A" 
-                                  ? new Date(customer.nextVisit).toLocaleDateString('en-GB')
-                                  : <span className="text-muted-foreground">N/A</span>
+                                  ? formatDate(customer.nextVisit)
+                                  : <span className="text-muted-foreground">{t("common.notAvailable")}</span>
                                 }
                               </TableCell>
                               <TableCell>
@@ -787,10 +805,10 @@ export function Representatives() {
                                       : "bg-gray-100 text-gray-700 border-gray-200"
                                   }
                                 >
-                                  {customer.status}
+                                  {t(`status.${customer.status}`)}
                                 </Badge>
                               </TableCell>
-                              <TableCell className="text-right">
+                              <TableCell className="text-end">
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -799,8 +817,8 @@ export function Representatives() {
                                     window.open(whatsappUrl, '_blank');
                                   }}
                                 >
-                                  <Phone className="h-4 w-4 mr-1" />
-                                  Contact
+                                  <Phone className="h-4 w-4 me-1" />
+                                  {t("representatives.contact")}
                                 </Button>
                               </TableCell>
                             </TableRow>
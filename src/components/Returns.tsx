@@ -42,6 +42,9 @@ import type { ReturnsManagement } from "../../supabase/models/returns_management
 import type { PurchaseOrders } from "../../supabase/models/purchase_orders";
 import type { Expenses as ExpenseRow } from "../../supabase/models/expenses";
 import type { Suppliers } from "../../supabase/models/suppliers";
+import { syncReturnStockMovements } from "../lib/stockLedger";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 type ReturnType = "purchase" | "expense";
 type ReturnStatus = "Pending" | "Approved" | "Rejected" | "Completed";
@@ -112,6 +115,31 @@ const RETURN_REASONS = [
 
 const RETURN_STATUSES: ReturnStatus[] = ["Pending", "Approved", "Rejected", "Completed"];
 
+const STATUS_KEYS: Record<ReturnStatus, MessageKey> = {
+  Pending: "status.pending",
+  Approved: "status.approved",
+  Rejected: "status.rejected",
+  Completed: "returns.status.completed"
+};
+
+// Reasons are stored in English; anything else is shown as entered
+const REASON_KEYS: Record<string, MessageKey> = {
+  "Defective products": "returns.reason.defective",
+  "Wrong items delivered": "returns.reason.wrongItems",
+  "Poor quality": "returns.reason.poorQuality",
+  "Damaged during shipping": "returns.reason.damaged",
+  "Not as described": "returns.reason.notAsDescribed",
+  "Duplicate order": "returns.reason.duplicate",
+  Other: "returns.reason.other"
+};
+
+const PAYMENT_STATUS_KEYS: Record<string, MessageKey> = {
+  paid: "status.paid",
+  partial: "status.partial",
+  unpaid: "status.unpaid",
+  overdue: "status.overdue"
+};
+
 interface PurchaseOrderItemInfo {
   id: string;
   description: string;
@@ -148,10 +176,6 @@ interface PurchaseOrderAdjustmentResult {
   totalReturnedAmount: number;
 }
 
-function formatCurrency(value: number) {
-  return Number(value || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-}
-
 function titleCaseStatus(value: string | null | undefined): ReturnStatus {
   switch ((value ?? "").toLowerCase()) {
     case "approved":
@@ -841,6 +865,7 @@ function RecordCombobox({
   placeholder: string;
   disabled?: boolean;
 }) {
+  const { t } = useLocale();
   const [open, setOpen] = useState(false);
   const selected = options.find((option) => option.value === value);
   return (
@@ -856,13 +881,13 @@ function RecordCombobox({
             className="w-full justify-between"
           >
             {selected ? selected.label : placeholder}
-            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+            <ChevronsUpDown className="ms-2 h-4 w-4 shrink-0 opacity-50" />
           </Button>
         </PopoverTrigger>
         <PopoverContent className="p-0 w-[var(--radix-popover-trigger-width)] min-w-[280px]">
           <Command>
-            <CommandInput placeholder="Search..." />
-            <CommandEmpty>No results found.</CommandEmpty>
+            <CommandInput placeholder={t("returns.comboSearch")} />
+            <CommandEmpty>{t("returns.noResults")}</CommandEmpty>
             <CommandGroup>
               {options.map((option) => (
                 <CommandItem
@@ -896,6 +921,7 @@ function RecordCombobox({
 
 export function Returns() {
   const dispatch = useAppDispatch();
+  const { t, formatCurrency, formatNumber, formatDate, formatDateTime } = useLocale();
 
   const returnRows = useAppSelector(selectors.returns_management.selectAll) as ReturnsManagement[];
   const returnsLoading = useAppSelector(selectors.returns_management.selectLoading);
@@ -1062,7 +1088,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
       const descriptionParts = [
         supplier?.supplier_en_name ?? supplier?.supplier_ar_name ?? undefined,
         purchase.purchase_date
-          ? new Date(purchase.purchase_date).toLocaleDateString("en-GB")
+          ? formatDate(purchase.purchase_date)
           : undefined
       ].filter(Boolean);
       return {
@@ -1095,7 +1121,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         ]
       };
     });
-  }, [purchaseOrders, supplierMap]);
+  }, [purchaseOrders, supplierMap, formatDate]);
 
   const expenseOptions: ComboboxOption[] = useMemo(() => {
     return expenses.map((expense) => {
@@ -1103,7 +1129,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
       const extraParts = [
         expense.paid_to ?? undefined,
         expense.expense_date
-          ? new Date(expense.expense_date).toLocaleDateString("en-GB")
+          ? formatDate(expense.expense_date)
           : undefined
       ].filter(Boolean);
       return {
@@ -1130,7 +1156,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         ]
       };
     });
-  }, [expenses]);
+  }, [expenses, formatDate]);
 
   const selectedPurchase = useMemo(() => {
     if (formType !== "purchase" || useManualReference) return undefined;
@@ -1292,7 +1318,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
           })
         ).unwrap();
       } catch (error: any) {
-        toast.error(error?.message ?? "Failed to sync purchase order return items");
+        toast.error(error?.message ?? translateCurrent("returns.syncItemsFailed"));
         throw error;
       }
     },
@@ -1325,7 +1351,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
       const existingIndex = prev.findIndex((item) => item.sourceItemId === sourceId);
       if (nextValue === true) {
         if (availableQuantity <= 0) {
-          toast.error("All quantities for this item have already been returned.");
+          toast.error(t("returns.allReturned"));
           return prev;
         }
         if (existingIndex >= 0) {
@@ -1442,6 +1468,15 @@ const [manualSupplierId, setManualSupplierId] = useState("");
     setFormItems((prev) => prev.filter((item) => item.id !== id));
   };
 
+  // Completed purchase returns send stock back to the supplier; anything else reverses it
+  const syncReturnStock = async (returnId: string, row: ReturnsManagement | null) => {
+    const { movements } = await syncReturnStockMovements(returnId, row);
+    if (movements.length > 0) {
+      dispatch(thunks.inventory.fetchAll(undefined));
+      dispatch(thunks.manufacturing_raw_materials.fetchAll(undefined));
+    }
+  };
+
   const adjustSupplierBalance = async (
     supplierId: string,
     delta: number,
@@ -1460,7 +1495,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
       ).unwrap();
     } catch (error: any) {
       if (!options?.silent) {
-        toast.error(error?.message ?? "Failed to update supplier balance");
+        toast.error(error?.message ?? translateCurrent("returns.balanceUpdateFailed"));
       }
       throw error;
     }
@@ -1470,36 +1505,36 @@ const [manualSupplierId, setManualSupplierId] = useState("");
     if (formType === "purchase") {
       if (useManualReference) {
         if (!manualReference.trim()) {
-          toast.error("Please enter the supplier invoice number");
+          toast.error(t("returns.enterInvoiceNumber"));
       return;
     }
         if (!manualSupplierId) {
-          toast.error("Please select the supplier for this return");
+          toast.error(t("returns.selectSupplier"));
       return;
     }
       } else if (!formPurchaseId) {
-        toast.error("Please select a purchase order");
+        toast.error(t("returns.selectPurchase"));
       return;
     }
     } else {
       if (useManualReference) {
         if (!manualReference.trim()) {
-          toast.error("Please enter the expense reference number");
+          toast.error(t("returns.enterExpenseReference"));
           return;
         }
       } else if (!formExpenseId) {
-        toast.error("Please select an expense");
+        toast.error(t("returns.selectExpense"));
         return;
       }
     }
     if (!formReason) {
-      toast.error("Please select a reason");
+      toast.error(t("returns.selectReason"));
       return;
     }
     const baseAmount = totals.baseAmount;
     const totalAmount = totals.total;
     if (totalAmount <= 0) {
-      toast.error("Return amount must be greater than zero");
+      toast.error(t("returns.amountRequired"));
       return;
     }
     const purchase =
@@ -1674,7 +1709,11 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         }
       }
 
-      toast.success(formMode === "create" ? "Return created successfully" : "Return updated successfully");
+      if (persistedRow) {
+        await syncReturnStock(persistedRow.return_id, persistedRow);
+      }
+
+      toast.success(translateCurrent(formMode === "create" ? "returns.created" : "returns.updated"));
       setIsDialogOpen(false);
       resetForm();
     } catch (error: any) {
@@ -1726,13 +1765,13 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         }
       }
 
-      toast.error(error?.message ?? "Failed to save return");
+      toast.error(error?.message ?? translateCurrent("returns.saveFailed"));
       return;
     }
   };
 
   const handleDeleteReturn = async (record: ReturnRecord) => {
-    const confirmDelete = window.confirm("Are you sure you want to delete this return?");
+    const confirmDelete = window.confirm(t("returns.deleteConfirm"));
     if (!confirmDelete) return;
     try {
       await dispatch(thunks.returns_management.deleteOne(record.id)).unwrap();
@@ -1743,9 +1782,10 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         const nextRows = returnRows.filter((row) => row.return_id !== record.id);
         await syncPurchaseOrderReturns(record.purchaseId, nextRows);
       }
-      toast.success("Return deleted successfully");
+      await syncReturnStock(record.id, null);
+      toast.success(translateCurrent("returns.deleted"));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to delete return");
+      toast.error(error?.message ?? translateCurrent("returns.deleteFailed"));
     }
   };
 
@@ -1768,10 +1808,11 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         );
         await syncPurchaseOrderReturns(record.purchaseId, snapshot);
       }
+      await syncReturnStock(record.id, updatedRow);
 
-      toast.success(`Return marked as ${nextStatus}`);
+      toast.success(translateCurrent("returns.statusUpdated", { status: translateCurrent(STATUS_KEYS[nextStatus]) }));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to update status");
+      toast.error(error?.message ?? translateCurrent("returns.statusUpdateFailed"));
     }
   };
 
@@ -1786,17 +1827,25 @@ const [manualSupplierId, setManualSupplierId] = useState("");
     return (
       <Badge variant={map[status].variant} className="flex items-center gap-1">
         <Icon className="h-3 w-3" />
-        {status}
+        {t(STATUS_KEYS[status])}
       </Badge>
     );
   };
 
   const typeBadge = (type: ReturnType) => (
       <Badge variant={type === "purchase" ? "default" : "secondary"}>
-        {type === "purchase" ? "Purchase" : "Expense"}
+        {t(type === "purchase" ? "returns.type.purchase" : "returns.type.expense")}
       </Badge>
     );
 
+  const reasonLabel = (reason: string) => (REASON_KEYS[reason] ? t(REASON_KEYS[reason]) : reason);
+
+  const paymentStatusLabel = (value: string | null | undefined) => {
+    if (!value) return t("common.unknown");
+    const key = PAYMENT_STATUS_KEYS[value.toLowerCase()];
+    return key ? t(key) : value;
+  };
+
   const combinedLoading = returnsLoading || purchaseLoading || expensesLoading || suppliersLoading;
   const combinedErrors = [returnsError, purchaseError, expensesError, suppliersError].filter(Boolean);
 
@@ -1835,9 +1884,9 @@ const [manualSupplierId, setManualSupplierId] = useState("");
       XLSX.utils.book_append_sheet(wb, ws, "Returns");
       const fileName = `returns_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -1846,20 +1895,20 @@ const [manualSupplierId, setManualSupplierId] = useState("");
     <div className="space-y-6">
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
         <div>
-          <h1 className="text-purple-600 text-2xl font-semibold">Returns Management</h1>
+          <h1 className="text-purple-600 text-2xl font-semibold">{t("returns.title")}</h1>
           <p className="text-muted-foreground">
-            Track and manage returns for purchase orders and expenses
+            {t("returns.subtitle")}
           </p>
-          {combinedLoading && <p className="text-xs text-muted-foreground mt-1">Syncing data…</p>}
+          {combinedLoading && <p className="text-xs text-muted-foreground mt-1">{t("returns.syncing")}</p>}
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button onClick={startCreate} className="bg-purple-600 hover:bg-purple-700 gap-2">
             <Plus className="h-4 w-4" />
-            New Return
+            {t("returns.new")}
           </Button>
         </div>
       </div>
@@ -1875,51 +1924,51 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <Card className="border-l-4 border-l-blue-500">
+        <Card className="border-s-4 border-s-blue-500">
           <CardHeader className="pb-2">
-            <CardDescription>Total Returns</CardDescription>
+            <CardDescription>{t("returns.totalReturns")}</CardDescription>
             <CardTitle className="text-purple-600">{totalReturns}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center text-sm text-muted-foreground">
-              <RefreshCcw className="mr-2 h-4 w-4" />
-              All return requests
+              <RefreshCcw className="me-2 h-4 w-4" />
+              {t("returns.allRequests")}
             </div>
           </CardContent>
         </Card>
-        <Card className="border-l-4 border-l-yellow-500">
+        <Card className="border-s-4 border-s-yellow-500">
           <CardHeader className="pb-2">
-            <CardDescription>Pending Returns</CardDescription>
+            <CardDescription>{t("returns.pendingReturns")}</CardDescription>
             <CardTitle className="text-yellow-600">{pendingReturns}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center text-sm text-muted-foreground">
-              <AlertCircle className="mr-2 h-4 w-4" />
-              Awaiting approval
+              <AlertCircle className="me-2 h-4 w-4" />
+              {t("returns.awaitingApproval")}
             </div>
           </CardContent>
         </Card>
-        <Card className="border-l-4 border-l-green-500">
+        <Card className="border-s-4 border-s-green-500">
           <CardHeader className="pb-2">
-            <CardDescription>Approved / Completed</CardDescription>
+            <CardDescription>{t("returns.approvedCompleted")}</CardDescription>
             <CardTitle className="text-green-600">{approvedReturns}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center text-sm text-muted-foreground">
-              <CheckCircle className="mr-2 h-4 w-4" />
-              Returns cleared
+              <CheckCircle className="me-2 h-4 w-4" />
+              {t("returns.cleared")}
             </div>
           </CardContent>
         </Card>
-        <Card className="border-l-4 border-l-rose-500">
+        <Card className="border-s-4 border-s-rose-500">
           <CardHeader className="pb-2">
-            <CardDescription>Total Return Value</CardDescription>
-            <CardTitle className="text-rose-600">SAR {formatCurrency(totalReturnAmount)}</CardTitle>
+            <CardDescription>{t("returns.totalValue")}</CardDescription>
+            <CardTitle className="text-rose-600">{formatCurrency(totalReturnAmount)}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center text-sm text-muted-foreground">
-              <DollarSign className="mr-2 h-4 w-4" />
-              Amount owed back to us
+              <DollarSign className="me-2 h-4 w-4" />
+              {t("returns.owedBack")}
             </div>
           </CardContent>
         </Card>
@@ -1927,7 +1976,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
 
       <Card>
         <CardHeader>
-          <CardTitle>Returns</CardTitle>
+          <CardTitle>{t("returns.listTitle")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col md:flex-row gap-3 mb-6">
@@ -1935,7 +1984,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
                 <Input
-                  placeholder="Search by code, number, supplier, or reason…"
+                  placeholder={t("returns.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(event) => setSearchQuery(event.target.value)}
                   className="pl-9"
@@ -1944,23 +1993,23 @@ const [manualSupplierId, setManualSupplierId] = useState("");
             </div>
             <Select value={filterType} onValueChange={setFilterType}>
               <SelectTrigger className="w-full md:w-[170px]">
-                <SelectValue placeholder="Type" />
+                <SelectValue placeholder={t("returns.typeFilter")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="purchase">Purchase</SelectItem>
-                <SelectItem value="expense">Expense</SelectItem>
+                <SelectItem value="all">{t("returns.allTypes")}</SelectItem>
+                <SelectItem value="purchase">{t("returns.type.purchase")}</SelectItem>
+                <SelectItem value="expense">{t("returns.type.expense")}</SelectItem>
               </SelectContent>
             </Select>
             <Select value={filterStatus} onValueChange={setFilterStatus}>
               <SelectTrigger className="w-full md:w-[170px]">
-                <SelectValue placeholder="Status" />
+                <SelectValue placeholder={t("common.status")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
                 {RETURN_STATUSES.map((status) => (
                   <SelectItem key={status} value={status}>
-                    {status}
+                    {t(STATUS_KEYS[status])}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -1971,13 +2020,13 @@ const [manualSupplierId, setManualSupplierId] = useState("");
             <Table>
               <TableHeader className="bg-muted/40">
                 <TableRow>
-                  <TableHead>Return</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Related Document</TableHead>
-                  <TableHead>Supplier</TableHead>
-                  <TableHead className="text-right">Total</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("returns.return")}</TableHead>
+                  <TableHead>{t("returns.typeFilter")}</TableHead>
+                  <TableHead>{t("returns.relatedDocument")}</TableHead>
+                  <TableHead>{t("returns.supplier")}</TableHead>
+                  <TableHead className="text-end">{t("common.total")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -1985,7 +2034,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                   <TableRow>
                     <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                     <Undo2 className="h-12 w-12 mx-auto mb-3 opacity-20"  />
-                      No returns found
+                      {t("returns.noReturns")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -1998,7 +2047,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                           </span>
                           {record.createdAt && (
                             <span className="text-xs text-muted-foreground">
-                              {new Date(record.createdAt).toLocaleDateString("en-GB")}
+                              {formatDate(record.createdAt)}
                             </span>
                           )}
                         </div>
@@ -2014,22 +2063,22 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                           <span className="text-xs text-muted-foreground">
                             {record.type === "purchase"
                               ? record.purchaseDate
-                                ? new Date(record.purchaseDate).toLocaleDateString("en-GB")
+                                ? formatDate(record.purchaseDate)
                                 : "—"
                               : record.expenseDate
-                                ? new Date(record.expenseDate).toLocaleDateString("en-GB")
+                                ? formatDate(record.expenseDate)
                                 : "—"}
                           </span>
                           {record.manualReference && (
                             <span className="text-xs text-muted-foreground">
-                              Ref: {record.manualReference}
+                              {t("returns.ref", { reference: record.manualReference })}
                             </span>
                           )}
                         </div>
                       </TableCell>
                       <TableCell>{record.supplierName ?? "—"}</TableCell>
-                      <TableCell className="text-right font-medium">
-                        SAR {formatCurrency(record.totalAmount)}
+                      <TableCell className="text-end font-medium">
+                        {formatCurrency(record.totalAmount)}
                       </TableCell>
                       <TableCell>{statusBadge(record.status)}</TableCell>
                       <TableCell>
@@ -2041,7 +2090,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                               setViewReturn(record);
                               setIsViewOpen(true);
                             }}
-                            title="View details"
+                            title={t("returns.viewDetails")}
                           >
                             <Eye className="h-4 w-4 text-purple-600" />
                           </Button>
@@ -2049,7 +2098,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                             variant="ghost"
                             size="icon"
                             onClick={() => startEdit(record)}
-                            title="Edit"
+                            title={t("common.edit")}
                           >
                             <Edit className="h-4 w-4 text-purple-600" />
                           </Button>
@@ -2057,7 +2106,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                             variant="ghost"
                             size="icon"
                             onClick={() => handleDeleteReturn(record)}
-                            title="Delete"
+                            title={t("common.delete")}
                           >
                             <Trash2 className="h-4 w-4 text-rose-600" />
                           </Button>
@@ -2067,7 +2116,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                 variant="outline"
                                 size="icon"
                                 onClick={() => handleStatusChange(record, "Approved")}
-                                title="Approve"
+                                title={t("returns.approve")}
                               >
                                 <CheckCircle className="h-4 w-4 text-green-600" />
                               </Button>
@@ -2075,7 +2124,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                 variant="outline"
                                 size="icon"
                                 onClick={() => handleStatusChange(record, "Rejected")}
-                                title="Reject"
+                                title={t("returns.reject")}
                               >
                                 <XCircle className="h-4 w-4 text-red-600" />
                               </Button>
@@ -2086,9 +2135,9 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                               variant="outline"
                               size="sm"
                               onClick={() => handleStatusChange(record, "Completed")}
-                              title="Mark Completed"
+                              title={t("returns.markCompleted")}
                             >
-                              Complete
+                              {t("returns.complete")}
                             </Button>
                           )}
                         </div>
@@ -2112,19 +2161,19 @@ const [manualSupplierId, setManualSupplierId] = useState("");
         <DialogContent className="w-full max-w-6xl sm:w-[95vw] max-h-[92vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
-              {formMode === "create" ? "Create Return" : "Update Return"}
+              {t(formMode === "create" ? "returns.createTitle" : "returns.updateTitle")}
             </DialogTitle>
             <DialogDescription>
               {formMode === "create"
-                ? "Select a purchase order or expense to register a return."
-                : "Modify the return details and adjust the owed balance if necessary."}
+                ? t("returns.createDescription")
+                : t("returns.updateDescription")}
             </DialogDescription>
           </DialogHeader>
 
             <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label>Return Type</Label>
+                <Label>{t("returns.returnType")}</Label>
                 <Select
                   value={formType}
                   onValueChange={(value: ReturnType) => {
@@ -2142,13 +2191,13 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="purchase">Purchase Order</SelectItem>
-                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="purchase">{t("returns.type.purchaseOrder")}</SelectItem>
+                    <SelectItem value="expense">{t("returns.type.expense")}</SelectItem>
                   </SelectContent>
                 </Select>
                 </div>
               <div className="space-y-2">
-                <Label>Status</Label>
+                <Label>{t("common.status")}</Label>
                 <Select value={formStatus} onValueChange={(value: ReturnStatus) => setFormStatus(value)}>
                   <SelectTrigger>
                     <SelectValue />
@@ -2156,7 +2205,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                   <SelectContent>
                     {RETURN_STATUSES.map((status) => (
                       <SelectItem key={status} value={status}>
-                        {status}
+                        {t(STATUS_KEYS[status])}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -2166,10 +2215,9 @@ const [manualSupplierId, setManualSupplierId] = useState("");
 
             <div className="rounded-lg border p-4 flex items-start justify-between">
               <div className="space-y-1">
-                <Label className="font-medium">Manual reference</Label>
+                <Label className="font-medium">{t("returns.manualReference")}</Label>
                 <p className="text-xs text-muted-foreground">
-                  Enable if the {formType === "purchase" ? "purchase order" : "expense"} is not
-                  listed above.
+                  {t(formType === "purchase" ? "returns.manualHintPurchase" : "returns.manualHintExpense")}
                 </p>
                 </div>
               <Switch
@@ -2192,15 +2240,15 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                 <div className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label>Invoice Number *</Label>
+                      <Label>{t("returns.invoiceNumberRequired")}</Label>
                       <Input
                         value={manualReference}
                         onChange={(event) => setManualReference(event.target.value)}
-                        placeholder="Enter supplier invoice number"
+                        placeholder={t("returns.invoiceNumberPlaceholder")}
                       />
                   </div>
                     <div className="space-y-2">
-                      <Label>Invoice Date</Label>
+                      <Label>{t("returns.invoiceDate")}</Label>
                       <Input
                         type="date"
                         value={manualDate}
@@ -2209,22 +2257,22 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                   </div>
                   </div>
                   <RecordCombobox
-                    label="Supplier *"
+                    label={t("returns.supplierRequired")}
                     value={manualSupplierId}
                     onChange={setManualSupplierId}
                     options={supplierOptions}
-                    placeholder="Select supplier"
+                    placeholder={t("returns.supplierPlaceholder")}
                     disabled={supplierOptions.length === 0}
                   />
                   </div>
               ) : (
                 <div className="space-y-4">
                   <RecordCombobox
-                    label="Purchase Order"
+                    label={t("returns.type.purchaseOrder")}
                     value={formPurchaseId}
                     onChange={setFormPurchaseId}
                     options={purchaseOptions}
-                    placeholder="Select purchase order"
+                    placeholder={t("returns.purchasePlaceholder")}
                     disabled={purchaseOptions.length === 0}
                   />
 
@@ -2232,14 +2280,14 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                     <div className="space-y-4">
                       <Card>
                         <CardHeader className="pb-3">
-                          <CardTitle className="text-base">Purchase Summary</CardTitle>
+                          <CardTitle className="text-base">{t("returns.purchaseSummary")}</CardTitle>
                           <CardDescription>
                             {formatPurchaseIdentifier(selectedPurchase, selectedPurchase.purchase_id)}
                           </CardDescription>
                         </CardHeader>
                         <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
                           <div>
-                            <span className="text-muted-foreground block">Supplier</span>
+                            <span className="text-muted-foreground block">{t("returns.supplier")}</span>
                             <span className="font-medium">
                               {selectedPurchaseSupplier?.supplier_en_name ??
                                 selectedPurchaseSupplier?.supplier_ar_name ??
@@ -2247,39 +2295,39 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                             </span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground block">Date</span>
+                            <span className="text-muted-foreground block">{t("common.date")}</span>
                             <span>
                               {selectedPurchase.purchase_date
-                                ? new Date(selectedPurchase.purchase_date).toLocaleDateString("en-GB")
+                                ? formatDate(selectedPurchase.purchase_date)
                                 : "—"}
                             </span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground block">Payment Status</span>
+                            <span className="text-muted-foreground block">{t("returns.paymentStatus")}</span>
                             <span className="font-medium">
-                              {(selectedPurchase.payment_status ?? "Unknown").toString()}
+                              {paymentStatusLabel(selectedPurchase.payment_status)}
                             </span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground block">Items</span>
+                            <span className="text-muted-foreground block">{t("returns.items")}</span>
                             <span>{selectedPurchaseItems.length}</span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground block">Subtotal</span>
+                            <span className="text-muted-foreground block">{t("returns.subtotal")}</span>
                             <span className="font-medium text-purple-600">
-                              SAR {formatCurrency(selectedPurchaseTotals.subtotal)}
+                              {formatCurrency(selectedPurchaseTotals.subtotal)}
                             </span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground block">Paid</span>
+                            <span className="text-muted-foreground block">{t("returns.paid")}</span>
                             <span className="font-medium text-green-600">
-                              SAR {formatCurrency(selectedPurchaseTotals.paid)}
+                              {formatCurrency(selectedPurchaseTotals.paid)}
                             </span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground block">Remaining</span>
+                            <span className="text-muted-foreground block">{t("returns.remaining")}</span>
                             <span className="font-medium text-rose-600">
-                              SAR {formatCurrency(selectedPurchaseTotals.remaining)}
+                              {formatCurrency(selectedPurchaseTotals.remaining)}
                             </span>
                           </div>
                         </CardContent>
@@ -2289,9 +2337,9 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                         <CardHeader className="pb-3 space-y-2">
                           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                             <div>
-                              <CardTitle className="text-base">Select Items to Return</CardTitle>
+                              <CardTitle className="text-base">{t("returns.selectItems")}</CardTitle>
                               <CardDescription>
-                                Choose the specific lines you want to include in this return.
+                                {t("returns.selectItemsDescription")}
                               </CardDescription>
                             </div>
                             <div className="flex gap-2">
@@ -2302,7 +2350,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                 onClick={() => handleToggleAllPurchaseItems(true)}
                                 disabled={selectedPurchaseItems.length === 0 || allPurchaseItemsSelected}
                               >
-                                Select All
+                                {t("returns.selectAll")}
                               </Button>
                               <Button
                                 type="button"
@@ -2311,7 +2359,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                 onClick={() => handleToggleAllPurchaseItems(false)}
                                 disabled={!somePurchaseItemsSelected}
                               >
-                                Clear
+                                {t("returns.clear")}
                               </Button>
                             </div>
                           </div>
@@ -2320,12 +2368,12 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                           <Table>
                             <TableHeader className="bg-muted/40">
                               <TableRow>
-                                <TableHead className="w-16 text-center">Return</TableHead>
-                                <TableHead>Item</TableHead>
-                                <TableHead className="text-center">Ordered / Remaining</TableHead>
-                                <TableHead className="text-center w-32">Return Qty</TableHead>
-                                <TableHead className="text-center w-32">Unit Price</TableHead>
-                                <TableHead className="text-center w-28">Line Total</TableHead>
+                                <TableHead className="w-16 text-center">{t("returns.return")}</TableHead>
+                                <TableHead>{t("returns.item")}</TableHead>
+                                <TableHead className="text-center">{t("returns.orderedRemaining")}</TableHead>
+                                <TableHead className="text-center w-32">{t("returns.returnQty")}</TableHead>
+                                <TableHead className="text-center w-32">{t("returns.unitPrice")}</TableHead>
+                                <TableHead className="text-center w-28">{t("returns.lineTotal")}</TableHead>
                               </TableRow>
                             </TableHeader>
                             <TableBody>
@@ -2335,7 +2383,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                     colSpan={6}
                                     className="text-center text-muted-foreground py-6"
                                   >
-                                    No items found for this purchase order.
+                                    {t("returns.noPurchaseItems")}
                                   </TableCell>
                                 </TableRow>
                               ) : (
@@ -2358,7 +2406,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                           onCheckedChange={(value) =>
                                             handleTogglePurchaseItem(item, value)
                                           }
-                                          aria-label={`Toggle return for ${item.description}`}
+                                          aria-label={t("returns.toggleItem", { item: item.description })}
                                         />
                                       </TableCell>
                                       <TableCell>
@@ -2367,7 +2415,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                       <TableCell className="text-center">
                                         <div>{item.quantity}</div>
                                         <div className="text-[11px] text-muted-foreground">
-                                          Rem: {item.remainingQuantity ?? item.quantity}
+                                          {t("returns.remainingShort", { count: item.remainingQuantity ?? item.quantity })}
                                         </div>
                                       </TableCell>
                                       <TableCell className="text-center">
@@ -2414,7 +2462,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                                         />
                                       </TableCell>
                                       <TableCell className="text-center font-medium">
-                                        SAR {formatCurrency(lineTotal)}
+                                        {formatCurrency(lineTotal)}
                                       </TableCell>
                                     </TableRow>
                                   );
@@ -2431,15 +2479,15 @@ const [manualSupplierId, setManualSupplierId] = useState("");
             ) : useManualReference ? (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Expense Reference *</Label>
+                  <Label>{t("returns.expenseReferenceRequired")}</Label>
                   <Input
                     value={manualReference}
                     onChange={(event) => setManualReference(event.target.value)}
-                    placeholder="Enter expense reference number"
+                    placeholder={t("returns.expenseReferencePlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Expense Date</Label>
+                  <Label>{t("returns.expenseDate")}</Label>
                   <Input
                     type="date"
                     value={manualDate}
@@ -2449,11 +2497,11 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               </div>
             ) : (
               <RecordCombobox
-                label="Expense"
+                label={t("returns.type.expense")}
                 value={formExpenseId}
                 onChange={setFormExpenseId}
                 options={expenseOptions}
-                placeholder="Select expense"
+                placeholder={t("returns.expensePlaceholder")}
                 disabled={expenseOptions.length === 0}
               />
             )}
@@ -2461,53 +2509,53 @@ const [manualSupplierId, setManualSupplierId] = useState("");
           {formType === "expense" && !useManualReference && selectedExpense && (
             <Card>
               <CardHeader className="pb-3">
-                <CardTitle className="text-base">Expense Summary</CardTitle>
+                <CardTitle className="text-base">{t("returns.expenseSummary")}</CardTitle>
                 <CardDescription>
                   {formatExpenseIdentifier(selectedExpense, selectedExpense.expense_id)}
                 </CardDescription>
               </CardHeader>
               <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
                 <div>
-                  <span className="text-muted-foreground block">Paid To</span>
+                  <span className="text-muted-foreground block">{t("returns.paidTo")}</span>
                   <span className="font-medium">
                     {selectedExpense.paid_to ?? selectedExpense.description ?? "—"}
                   </span>
                 </div>
                 <div>
-                  <span className="text-muted-foreground block">Date</span>
+                  <span className="text-muted-foreground block">{t("common.date")}</span>
                   <span>
                     {selectedExpense.expense_date
-                      ? new Date(selectedExpense.expense_date).toLocaleDateString("en-GB")
+                      ? formatDate(selectedExpense.expense_date)
                       : "—"}
                   </span>
                 </div>
                 <div>
-                  <span className="text-muted-foreground block">Base Amount</span>
+                  <span className="text-muted-foreground block">{t("returns.baseAmount")}</span>
                   <span className="font-medium text-purple-600">
-                    SAR {formatCurrency(selectedExpenseTotals.base)}
+                    {formatCurrency(selectedExpenseTotals.base)}
                   </span>
                 </div>
                 <div>
-                  <span className="text-muted-foreground block">Tax</span>
+                  <span className="text-muted-foreground block">{t("returns.tax")}</span>
                   <span className="font-medium text-purple-600">
-                    SAR {formatCurrency(selectedExpenseTotals.tax)}
+                    {formatCurrency(selectedExpenseTotals.tax)}
                   </span>
                 </div>
                 <div>
-                  <span className="text-muted-foreground block">Total Paid</span>
+                  <span className="text-muted-foreground block">{t("returns.totalPaid")}</span>
                   <span className="font-medium text-green-600">
-                    SAR {formatCurrency(selectedExpenseTotals.paid)}
+                    {formatCurrency(selectedExpenseTotals.paid)}
                   </span>
                 </div>
                 <div>
-                  <span className="text-muted-foreground block">Remaining</span>
+                  <span className="text-muted-foreground block">{t("returns.remaining")}</span>
                   <span className="font-medium text-rose-600">
-                    SAR {formatCurrency(selectedExpenseTotals.remaining)}
+                    {formatCurrency(selectedExpenseTotals.remaining)}
                   </span>
                 </div>
                 {selectedExpense.notes && (
                   <div className="sm:col-span-2">
-                    <span className="text-muted-foreground block">Notes</span>
+                    <span className="text-muted-foreground block">{t("common.notes")}</span>
                     <span>{selectedExpense.notes}</span>
                   </div>
                 )}
@@ -2516,15 +2564,15 @@ const [manualSupplierId, setManualSupplierId] = useState("");
           )}
 
             <div className="space-y-2">
-              <Label>Reason *</Label>
+              <Label>{t("returns.reasonRequired")}</Label>
               <Select value={formReason} onValueChange={setFormReason}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Choose reason" />
+                  <SelectValue placeholder={t("returns.reasonPlaceholder")} />
                 </SelectTrigger>
                 <SelectContent>
                   {RETURN_REASONS.map((reason) => (
                     <SelectItem key={reason} value={reason}>
-                      {reason}
+                      {reasonLabel(reason)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -2532,11 +2580,11 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               </div>
 
             <div className="space-y-2">
-              <Label>Additional Notes</Label>
+              <Label>{t("returns.additionalNotes")}</Label>
               <Textarea
                 value={formNotes}
                 onChange={(event) => setFormNotes(event.target.value)}
-                placeholder="Provide any additional context for this return…"
+                placeholder={t("returns.notesPlaceholder")}
                 rows={3}
               />
               </div>
@@ -2544,28 +2592,28 @@ const [manualSupplierId, setManualSupplierId] = useState("");
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <Label>
-                  {formType === "purchase" ? "Additional Manual Items" : "Return Items"}
+                  {t(formType === "purchase" ? "returns.additionalManualItems" : "returns.returnItems")}
                 </Label>
                 <Button type="button" variant="outline" size="sm" onClick={handleAddItemRow}>
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add Item
+                  <Plus className="h-4 w-4 me-1" />
+                  {t("returns.addItem")}
                 </Button>
               </div>
               {manualFormItems.length === 0 ? (
                 <p className="text-xs text-muted-foreground">
                   {formType === "purchase"
-                    ? "Select items from the purchase order above or add manual adjustments here."
-                    : "Add line items for this return or leave empty to use the amount fields below."}
+                    ? t("returns.manualItemsHintPurchase")
+                    : t("returns.manualItemsHintExpense")}
                 </p>
               ) : (
                 <div className="border rounded-lg overflow-hidden">
                   <Table>
                     <TableHeader className="bg-muted/40">
                       <TableRow>
-                        <TableHead>Description</TableHead>
-                        <TableHead className="text-center w-24">Quantity</TableHead>
-                        <TableHead className="text-center w-28">Unit Price</TableHead>
-                        <TableHead className="text-center w-16">Remove</TableHead>
+                        <TableHead>{t("returns.description")}</TableHead>
+                        <TableHead className="text-center w-24">{t("returns.quantity")}</TableHead>
+                        <TableHead className="text-center w-28">{t("returns.unitPrice")}</TableHead>
+                        <TableHead className="text-center w-16">{t("returns.remove")}</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -2577,7 +2625,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                               onChange={(event) =>
                                 updateItemRow(item.id, "description", event.target.value)
                               }
-                              placeholder="Item description"
+                              placeholder={t("returns.itemDescription")}
                             />
                           </TableCell>
                           <TableCell className="text-center">
@@ -2622,7 +2670,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label>Return Amount (SAR)</Label>
+                <Label>{t("returns.returnAmount")}</Label>
                 <Input
                   type="number"
                   value={formAmount}
@@ -2631,12 +2679,12 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                 />
                 <p className="text-xs text-muted-foreground">
                   {formType === "purchase" && formItems.length > 0
-                    ? "Amount derived from items above."
-                    : "Enter the amount being returned before tax."}
+                    ? t("returns.amountFromItems")
+                    : t("returns.amountBeforeTax")}
                 </p>
                 </div>
               <div className="space-y-2">
-                <Label>Tax Amount (SAR)</Label>
+                <Label>{t("returns.taxAmount")}</Label>
                 <Input
                   type="number"
                   value={formTaxAmount}
@@ -2644,8 +2692,8 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                 />
                 </div>
               <div className="space-y-2">
-                <Label>Total Return (SAR)</Label>
-                <Input value={formatCurrency(totals.total)} readOnly className="bg-muted font-medium" />
+                <Label>{t("returns.totalReturn")}</Label>
+                <Input value={formatNumber(totals.total, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} readOnly className="bg-muted font-medium" />
               </div>
                 </div>
               </div>
@@ -2659,10 +2707,10 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                 resetForm();
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
           <Button onClick={handleSaveReturn}>
-              {formMode === "create" ? "Create Return" : "Save Changes"}
+              {formMode === "create" ? t("returns.createTitle") : t("common.saveChanges")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -2677,9 +2725,9 @@ const [manualSupplierId, setManualSupplierId] = useState("");
       >
         <DialogContent className="w-full max-w-4xl sm:w-[95vw] max-h-[92vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Return Details</DialogTitle>
+            <DialogTitle>{t("returns.detailsTitle")}</DialogTitle>
             <DialogDescription>
-              Review the full breakdown of this return and its associated transaction.
+              {t("returns.detailsDescription")}
             </DialogDescription>
           </DialogHeader>
 
@@ -2688,33 +2736,33 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-base">Return</CardTitle>
+                    <CardTitle className="text-base">{t("returns.return")}</CardTitle>
                     <CardDescription>{viewReturn.id.toUpperCase()}</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Type</span>
+                      <span className="text-muted-foreground">{t("returns.typeFilter")}</span>
                       {typeBadge(viewReturn.type)}
                   </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Status</span>
+                      <span className="text-muted-foreground">{t("common.status")}</span>
                       {statusBadge(viewReturn.status)}
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Created</span>
+                      <span className="text-muted-foreground">{t("returns.createdLabel")}</span>
                       <span>
                         {viewReturn.createdAt
-                          ? new Date(viewReturn.createdAt).toLocaleDateString("en-GB")
+                          ? formatDate(viewReturn.createdAt)
                           : "—"}
                       </span>
                     </div>
               <div>
-                      <span className="text-muted-foreground block">Reason</span>
-                      <span className="font-medium">{viewReturn.reason}</span>
+                      <span className="text-muted-foreground block">{t("returns.reason")}</span>
+                      <span className="font-medium">{reasonLabel(viewReturn.reason)}</span>
                   </div>
                     {viewReturn.notes && (
                     <div>
-                        <span className="text-muted-foreground block">Notes</span>
+                        <span className="text-muted-foreground block">{t("common.notes")}</span>
                         <span className="text-sm">{viewReturn.notes}</span>
                     </div>
                   )}
@@ -2723,7 +2771,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               <Card>
                 <CardHeader className="pb-2">
                   <CardTitle className="text-base">
-                    {viewReturn.type === "purchase" ? "Purchase Order" : "Expense"}
+                    {t(viewReturn.type === "purchase" ? "returns.type.purchaseOrder" : "returns.type.expense")}
                   </CardTitle>
                   <CardDescription>
                     {viewReturn.manualReference
@@ -2734,46 +2782,46 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                   </CardDescription>
                   {viewReturn.isManual && (
                     <Badge variant="outline" className="mt-2 w-fit">
-                      Manual entry
+                      {t("returns.manualEntry")}
                     </Badge>
                   )}
                 </CardHeader>
                 <CardContent className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Date</span>
+                    <span className="text-muted-foreground">{t("common.date")}</span>
                     <span>
                       {viewReturn.manualDate
-                        ? new Date(viewReturn.manualDate).toLocaleDateString("en-GB")
+                        ? formatDate(viewReturn.manualDate)
                         : viewReturn.type === "purchase"
                           ? viewReturn.purchaseDate
-                            ? new Date(viewReturn.purchaseDate).toLocaleDateString("en-GB")
+                            ? formatDate(viewReturn.purchaseDate)
                             : "—"
                           : viewReturn.expenseDate
-                            ? new Date(viewReturn.expenseDate).toLocaleDateString("en-GB")
+                            ? formatDate(viewReturn.expenseDate)
                             : "—"}
                     </span>
                     </div>
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Supplier</span>
+                    <span className="text-muted-foreground">{t("returns.supplier")}</span>
                     <span>{viewReturn.supplierName ?? "—"}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Return Value</span>
+                    <span className="text-muted-foreground">{t("returns.returnValue")}</span>
                     <span className="font-medium text-purple-600">
-                      SAR {formatCurrency(viewReturn.baseAmount)}
+                      {formatCurrency(viewReturn.baseAmount)}
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Tax</span>
+                    <span className="text-muted-foreground">{t("returns.tax")}</span>
                     <span className="font-medium text-purple-600">
-                      SAR {formatCurrency(viewReturn.taxAmount)}
+                      {formatCurrency(viewReturn.taxAmount)}
                     </span>
                   </div>
                   <Separator />
                   <div className="flex justify-between">
-                    <span>Total Refunded</span>
+                    <span>{t("returns.totalRefunded")}</span>
                     <span className="text-lg font-bold text-rose-600">
-                      SAR {formatCurrency(viewReturn.totalAmount)}
+                      {formatCurrency(viewReturn.totalAmount)}
                     </span>
                   </div>
                 </CardContent>
@@ -2783,17 +2831,17 @@ const [manualSupplierId, setManualSupplierId] = useState("");
               {viewReturn.items.length > 0 && (
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-base">Returned Items</CardTitle>
-                    <CardDescription>Quantities and values returned to inventory</CardDescription>
+                    <CardTitle className="text-base">{t("returns.returnedItems")}</CardTitle>
+                    <CardDescription>{t("returns.returnedItemsDescription")}</CardDescription>
                   </CardHeader>
                   <CardContent className="p-0">
                     <Table>
                       <TableHeader className="bg-muted/40">
                         <TableRow>
-                          <TableHead>Description</TableHead>
-                          <TableHead className="text-center">Qty</TableHead>
-                          <TableHead className="text-center">Unit Price</TableHead>
-                          <TableHead className="text-center">Total</TableHead>
+                          <TableHead>{t("returns.description")}</TableHead>
+                          <TableHead className="text-center">{t("returns.qty")}</TableHead>
+                          <TableHead className="text-center">{t("returns.unitPrice")}</TableHead>
+                          <TableHead className="text-center">{t("common.total")}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -2810,10 +2858,10 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                               ) : null}
                             </TableCell>
                             <TableCell className="text-center">
-                              SAR {formatCurrency(item.unitPrice)}
+                              {formatCurrency(item.unitPrice)}
                             </TableCell>
                             <TableCell className="text-center">
-                              SAR {formatCurrency(item.total)}
+                              {formatCurrency(item.total)}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -2825,33 +2873,33 @@ const [manualSupplierId, setManualSupplierId] = useState("");
 
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-base">Notes & Audit</CardTitle>
+                  <CardTitle className="text-base">{t("returns.notesAudit")}</CardTitle>
                 </CardHeader>
                 <CardContent className="text-sm space-y-3">
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Created at</span>
+                    <span className="text-muted-foreground">{t("returns.createdAt")}</span>
                     <span>
                       {viewReturn.createdAt
-                        ? new Date(viewReturn.createdAt).toLocaleString()
+                        ? formatDateTime(viewReturn.createdAt)
                         : "—"}
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Supplier Impact</span>
+                    <span className="text-muted-foreground">{t("returns.supplierImpact")}</span>
                     <span>
                       {viewReturn.type === "purchase" && viewReturn.supplierName
-                        ? `Balance increased by SAR ${formatCurrency(viewReturn.totalAmount)}`
-                        : "No supplier impact"}
+                        ? t("returns.balanceIncreased", { amount: formatCurrency(viewReturn.totalAmount) })
+                        : t("returns.noSupplierImpact")}
                     </span>
                   </div>
                     <div>
-                    <span className="text-muted-foreground block">Reason</span>
-                    <span className="font-medium">{viewReturn.reason}</span>
+                    <span className="text-muted-foreground block">{t("returns.reason")}</span>
+                    <span className="font-medium">{reasonLabel(viewReturn.reason)}</span>
                     </div>
                   {viewReturn.manualReference && (
                     <div>
                       <span className="text-muted-foreground block">
-                        {viewReturn.type === "purchase" ? "Manual invoice" : "Manual reference"}
+                        {t(viewReturn.type === "purchase" ? "returns.manualInvoice" : "returns.manualReference")}
                       </span>
                       <span>{viewReturn.manualReference}</span>
                     </div>
@@ -2859,7 +2907,7 @@ const [manualSupplierId, setManualSupplierId] = useState("");
                   {viewReturn.notes ? (
                     <p className="text-muted-foreground">{viewReturn.notes}</p>
                   ) : (
-                    <p className="text-muted-foreground">No additional notes provided.</p>
+                    <p className="text-muted-foreground">{t("returns.noNotes")}</p>
                   )}
                 </CardContent>
               </Card>
@@ -2868,11 +2916,11 @@ const [manualSupplierId, setManualSupplierId] = useState("");
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsViewOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
             <Button className="gap-2" disabled>
               <Download className="h-4 w-4" />
-              Download
+              {t("common.download")}
             </Button>
           </DialogFooter>
         </DialogContent>
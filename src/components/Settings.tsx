@@ -34,27 +34,30 @@ import { toast } from "sonner";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { useAppDispatch, useAppSelector } from "../redux-toolkit/hooks";
 import { thunks, selectors } from "../redux-toolkit/slices";
-import { sha256Hex } from "../lib/hash";
+import { setRoleTwoFactorRequirement, setUserPassword } from "../lib/authSession";
 import { supabase } from "../lib/supabaseClient";
 import type { Employees } from "../../supabase/models/employees";
 import type { Roles } from "../../supabase/models/roles";
 import type { SystemUsers } from "../../supabase/models/system_users";
 import type { CompanyBranding } from "../../supabase/models/company_branding";
-import type { SystemSettings } from "../../supabase/models/system_settings";
 import { uploadFile, getFileUrl, deleteFile, getFilesByOwner, deleteFilesByRecord } from "../lib/storage";
 import { FILE_CATEGORIES } from "../../supabase/models/file_metadata";
 import { validateFile } from "../lib/storage";
 import { uploadLogoToS3WithFixedPath } from "../lib/s3Storage";
 import { loadLogoWithAllFallbacks, downloadLogoToLocalBackup, clearLocalLogoBackup } from "../lib/logoManager";
 import { updateBackupEnabled } from "../lib/backupApi";
+import { loadCompanySettings, refreshCompanySettings, saveCompanyBranding, saveSystemSettings } from "../lib/companySettings";
 import { ACCESS_AREAS, ACCESS_AREA_MAP } from "../config/access-areas";
 import type { AccessAction } from "../config/access-areas";
 import type { PageId } from "../config/page-map";
 import { BackupSettings } from "./BackupSettings";
+import { DocumentNumberingSettings } from "./DocumentNumberingSettings";
+import { RecurringBillingSettings } from "./RecurringBillingSettings";
 import {
   normalizePermissions,
   hasPermission,
   permissionSummary,
+  ACCESS_ACTION_KEYS,
   mergePermission,
   removePermission,
   type PermissionMap,
@@ -62,9 +65,27 @@ import {
 } from "../lib/permissions";
 import { refreshPermissionsForRole, refreshAllPermissions } from "../lib/permissionRefresh";
 import { permissionEvents, PERMISSION_EVENTS } from "../lib/permissionEvents";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 type NormalizedRole = Roles & { resolvedPermissions: ResolvedPermissions };
 
+// Access area categories as named in config/access-areas
+const ACCESS_CATEGORY_KEYS: Record<string, MessageKey> = {
+  "Dashboard & Analytics": "section.dashboard",
+  "Sales & Customers": "section.sales",
+  Operations: "section.operations",
+  "HR & Employees": "section.hr",
+  "Inventory & Manufacturing": "section.inventory",
+  "Assets & Custody": "section.assets",
+  "E-Commerce Platforms": "section.ecommerce",
+  Marketing: "section.marketing",
+  "Finance & Accounting": "section.finance",
+  "Templates & Communication": "section.templates",
+  "System Settings": "section.system",
+  User: "settings.roles.categoryUser",
+};
+
 interface AddUserFormValues {
   employeeId?: string;
   name: string;
@@ -80,11 +101,14 @@ interface AddUserFormValues {
 interface AddRoleFormValues {
   role_name: string;
   permissions: ResolvedPermissions;
+  require_two_factor: boolean;
 }
 
 const DEFAULT_SUPERUSER_EMAIL = "admin@mana-smart.com";
 const DEFAULT_SUPERUSER_PASSWORD = "ChangeMeNow!123";
 const DEFAULT_SUPERUSER_NAME = "Super Administrator";
+// Account seeded with the schema, whose password nobody knows
+const PLACEHOLDER_SUPERUSER_EMAIL = "admin@example.com";
 
 interface SettingsProps {
   systemName: string;
@@ -115,6 +139,7 @@ export function Settings({
   currentPermissions,
   currentUserEmail,
 }: SettingsProps) {
+  const { t } = useLocale();
   const dispatch = useAppDispatch();
   const dbRoles = useAppSelector(selectors.roles.selectAll) as Roles[];
   const rolesLoading = useAppSelector(selectors.roles.selectLoading);
@@ -188,9 +213,7 @@ export function Settings({
       return role?.resolvedPermissions === "all";
     });
 
-    const placeholderSuperUser = superUsers.find((user) => {
-      return user.email === "admin@example.com" || !user.password_hash || user.password_hash === "hash_here";
-    });
+    const placeholderSuperUser = superUsers.find((user) => user.email === PLACEHOLDER_SUPERUSER_EMAIL);
 
     const defaultEmailSuperUsers = superUsers.filter((user) => user.email === DEFAULT_SUPERUSER_EMAIL);
     const primaryCandidate = placeholderSuperUser ?? defaultEmailSuperUsers[0] ?? superUsers[0];
@@ -216,7 +239,7 @@ export function Settings({
 
         if (!targetRole) {
           superUserEnsuredRef.current = false;
-          toast.error('Unable to ensure a super admin role');
+          toast.error(translateCurrent("settings.superAdminRoleFailed"));
           return;
         }
 
@@ -231,15 +254,14 @@ export function Settings({
           if (primaryCandidate.email !== DEFAULT_SUPERUSER_EMAIL) {
             updates.email = DEFAULT_SUPERUSER_EMAIL;
           }
-          if (!primaryCandidate.password_hash || primaryCandidate.password_hash === 'hash_here') {
-            updates.password_hash = await sha256Hex(DEFAULT_SUPERUSER_PASSWORD);
-          }
-          if (Object.keys(updates).length > 0) {
-            await dispatch(
-              thunks.system_users.updateOne({ id: primaryCandidate.user_id, values: updates as any })
-            ).unwrap();
-            toast.success(`Default superuser credentials reset (${DEFAULT_SUPERUSER_EMAIL}).`);
+          await dispatch(
+            thunks.system_users.updateOne({ id: primaryCandidate.user_id, values: updates as any })
+          ).unwrap();
+          // Hashed by auth-password; the browser never writes password hashes
+          if (primaryCandidate === placeholderSuperUser) {
+            await setUserPassword(primaryCandidate.user_id, DEFAULT_SUPERUSER_PASSWORD);
           }
+          toast.success(translateCurrent("settings.superuserReset", { email: DEFAULT_SUPERUSER_EMAIL }));
         }
 
         const duplicateDefaults = superUsers.filter((user) => {
@@ -259,19 +281,18 @@ export function Settings({
         }
 
         if (!primaryCandidate) {
-          const password_hash = await sha256Hex(DEFAULT_SUPERUSER_PASSWORD);
-          await dispatch(
+          const created = await dispatch(
             thunks.system_users.createOne({
               email: DEFAULT_SUPERUSER_EMAIL,
               full_name: DEFAULT_SUPERUSER_NAME,
-              password_hash,
               status: 'active',
               role_id: targetRole.role_id,
               employee_id: null,
               phone_number: null,
             } as any)
           ).unwrap();
-          toast.success(`Default superuser created (${DEFAULT_SUPERUSER_EMAIL}). Remember to change the password after first login.`);
+          await setUserPassword(created.user_id, DEFAULT_SUPERUSER_PASSWORD);
+          toast.success(translateCurrent("settings.superuserCreated", { email: DEFAULT_SUPERUSER_EMAIL }));
         }
 
         if (primaryCandidate || duplicateDefaults.length > 0) {
@@ -279,7 +300,7 @@ export function Settings({
         }
       } catch (error: any) {
         superUserEnsuredRef.current = false;
-        toast.error(error.message || 'Failed to ensure default superuser');
+        toast.error(error.message || translateCurrent("settings.superuserFailed"));
       }
     };
 
@@ -318,7 +339,6 @@ export function Settings({
   const [smsNotifications, setSmsNotifications] = useState(false);
   const [autoBackup, setAutoBackup] = useState(true);
   const [twoFactorAuth, setTwoFactorAuth] = useState(false);
-  const [systemSettingsId, setSystemSettingsId] = useState<string | null>(null);
   const [systemSettingsLoading, setSystemSettingsLoading] = useState(true);
   const [systemSettingsSaving, setSystemSettingsSaving] = useState(false);
 
@@ -327,22 +347,8 @@ export function Settings({
       setBrandingLoading(true);
       setLogoLoading(true); // Start logo loading
       try {
-        const { data, error } = await supabase
-          .from("company_branding")
-          .select("*")
-          .order("created_at", { ascending: false })
-          .limit(1)
-          .maybeSingle<CompanyBranding>();
+        const { branding: data } = await refreshCompanySettings();
 
-        if (error) {
-          // PGRST116 means no rows found - this is expected if branding hasn't been set up yet
-          if (error.code !== "PGRST116") {
-            toast.error(error.message ?? "Failed to load branding settings");
-          }
-          setLogoLoading(false);
-          return;
-        }
-        
         if (data) {
           setBrandingId(data.branding_id);
           setLocalSystemName(data.system_sidebar_name ?? "");
@@ -353,10 +359,9 @@ export function Settings({
           setCompanyEmail(data.company_email ?? "");
           setCompanyPhone(data.company_phone ?? "");
           setCompanyAddress(data.company_address ?? "");
-          // Load new company fields from localStorage (database may not have them yet)
-          setCompanyTaxNumber(localStorage.getItem('companyTaxNumber') ?? "");
-          setCompanyCommercialReg(localStorage.getItem('companyCommercialReg') ?? "");
-          setCompanyCityPostal(localStorage.getItem('companyCityPostal') ?? "");
+          setCompanyTaxNumber(data.company_tax_number ?? "");
+          setCompanyCommercialReg(data.company_commercial_register ?? "");
+          setCompanyCityPostal(data.company_city_postal ?? "");
 
           setSystemName(data.system_sidebar_name ?? "");
           setSystemSubtitle(data.system_sidebar_subtitle ?? "");
@@ -411,7 +416,7 @@ export function Settings({
         // Update system logo state - will be handled by the useEffect below
       } catch (error: any) {
         console.error('Error loading branding:', error);
-        toast.error('Failed to load branding settings');
+        toast.error(error?.message ?? translateCurrent("settings.brandingLoadFailed"));
       } finally {
         setBrandingLoading(false);
       }
@@ -431,18 +436,9 @@ export function Settings({
     const loadSystemSettings = async () => {
       setSystemSettingsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from("system_settings")
-          .select("*")
-          .order("created_at", { ascending: false })
-          .limit(1)
-          .maybeSingle<SystemSettings>();
-
-        if (error && error.code !== "PGRST116") {
-          console.error('Error loading system settings:', error);
-          toast.error(error.message ?? "Failed to load system settings");
-        } else if (data) {
-          setSystemSettingsId(data.setting_id);
+        const { system: data } = await loadCompanySettings();
+
+        if (data) {
           setEmailNotifications(data.email_notifications ?? true);
           setSmsNotifications(data.sms_notifications ?? false);
           setAutoBackup(data.auto_backup ?? true);
@@ -456,7 +452,7 @@ export function Settings({
         }
       } catch (error: any) {
         console.error('Error loading system settings:', error);
-        toast.error('Failed to load system settings');
+        toast.error(error?.message ?? translateCurrent("settings.systemLoadFailed"));
       } finally {
         setSystemSettingsLoading(false);
       }
@@ -506,7 +502,7 @@ export function Settings({
 
       if (!currentUserId) {
         console.error('No authenticated user found for logo upload');
-        throw new Error('User not authenticated');
+        throw new Error(translateCurrent("settings.notAuthenticated"));
       }
 
       // Ensure branding record exists first
@@ -539,7 +535,7 @@ export function Settings({
             localSystemNameEn,
             currentUserId
           });
-          throw new Error(`Failed to create branding record: ${createError?.message || 'Unknown error'}`);
+          throw new Error(translateCurrent("settings.brandingRecordFailedWithReason", { error: createError?.message || translateCurrent("common.unknownError") }));
         }
         currentBrandingId = newBranding.branding_id;
         setBrandingId(currentBrandingId);
@@ -562,7 +558,7 @@ export function Settings({
       );
 
       if (!result.success) {
-        throw new Error(result.error || 'Failed to upload logo');
+        throw new Error(result.error || translateCurrent("settings.logoUploadFailed"));
       }
 
       // Get signed URL from result
@@ -608,21 +604,21 @@ export function Settings({
           // Don't fail - logo is uploaded and displayed
         }
         
-        toast.success("Logo uploaded and saved successfully");
+        toast.success(translateCurrent("settings.logoSaved"));
       } else {
         // URL not available, but file is uploaded - try to load with fallback
         const loadResult = await loadLogoWithAllFallbacks(currentBrandingId);
         if (loadResult.success && loadResult.url) {
           setLocalSystemLogo(loadResult.url);
           setSystemLogo(loadResult.url);
-          toast.success("Logo uploaded successfully");
+          toast.success(translateCurrent("settings.logoUploaded"));
         } else {
-          toast.warning('Logo uploaded successfully, but URL retrieval is delayed. Please refresh the page.');
+          toast.warning(translateCurrent("settings.logoUrlDelayed"));
         }
       }
     } catch (error: any) {
       console.error('Error uploading logo:', error);
-      toast.error(error.message || 'Failed to upload logo');
+      toast.error(error.message || translateCurrent("settings.logoUploadFailed"));
     } finally {
       setUploadingLogo(false);
       if (logoInputRef.current) {
@@ -658,7 +654,7 @@ export function Settings({
       }
 
       if (!currentUserId) {
-        throw new Error('User not authenticated');
+        throw new Error(translateCurrent("settings.notAuthenticated"));
       }
 
       // Delete old stamp if exists
@@ -681,7 +677,7 @@ export function Settings({
           .maybeSingle<CompanyBranding>();
 
         if (createError || !newBranding) {
-          throw new Error('Failed to create branding record');
+          throw new Error(translateCurrent("settings.brandingRecordFailed"));
         }
         currentBrandingId = newBranding.branding_id;
         setBrandingId(currentBrandingId);
@@ -699,7 +695,7 @@ export function Settings({
       });
 
       if (!result.success || !result.fileMetadata) {
-        throw new Error(result.error || 'Failed to upload stamp');
+        throw new Error(result.error || translateCurrent("settings.stampUploadFailed"));
       }
 
       // Get signed URL (stamps are private)
@@ -719,10 +715,10 @@ export function Settings({
         setLocalSystemStamp(stampUrl);
       }
       
-      toast.success("Stamp uploaded successfully");
+      toast.success(translateCurrent("settings.stampUploaded"));
     } catch (error: any) {
       console.error('Error uploading stamp:', error);
-      toast.error(error.message || 'Failed to upload stamp');
+      toast.error(error.message || translateCurrent("settings.stampUploadFailed"));
     } finally {
       setUploadingStamp(false);
       if (stampInputRef.current) {
@@ -759,13 +755,13 @@ export function Settings({
             .eq("branding_id", brandingId);
         }
         
-        toast.success("Logo deleted successfully");
+        toast.success(translateCurrent("settings.logoDeleted"));
       } else {
-        throw new Error('Failed to delete logo');
+        throw new Error(translateCurrent("settings.logoDeleteFailed"));
       }
     } catch (error: any) {
       console.error('Error deleting logo:', error);
-      toast.error(error.message || 'Failed to delete logo');
+      toast.error(error.message || translateCurrent("settings.logoDeleteFailed"));
     }
   };
 
@@ -780,13 +776,13 @@ export function Settings({
       if (success) {
         setLocalSystemStamp(null);
         setStampFileId(null);
-        toast.success("Stamp deleted successfully");
+        toast.success(translateCurrent("settings.stampDeleted"));
       } else {
-        throw new Error('Failed to delete stamp');
+        throw new Error(translateCurrent("settings.stampDeleteFailed"));
       }
     } catch (error: any) {
       console.error('Error deleting stamp:', error);
-      toast.error(error.message || 'Failed to delete stamp');
+      toast.error(error.message || translateCurrent("settings.stampDeleteFailed"));
     }
   };
 
@@ -803,40 +799,15 @@ export function Settings({
       company_phone: companyPhone || null,
       company_email: companyEmail || null,
       company_address: companyAddress || null,
+      company_tax_number: companyTaxNumber.trim() || null,
+      company_commercial_register: companyCommercialReg.trim() || null,
+      company_city_postal: companyCityPostal.trim() || null,
     };
 
     setBrandingSaving(true);
     try {
-      if (brandingId) {
-        const { data, error } = await supabase
-          .from("company_branding")
-          .update(payload)
-          .eq("branding_id", brandingId)
-          .select()
-          .maybeSingle<CompanyBranding>();
-
-        if (error) {
-          throw error;
-        }
-
-        if (data) {
-          setBrandingId(data.branding_id);
-        }
-      } else {
-        const { data, error } = await supabase
-          .from("company_branding")
-          .insert(payload)
-          .select()
-          .maybeSingle<CompanyBranding>();
-
-        if (error) {
-          throw error;
-        }
-
-        if (data) {
-          setBrandingId(data.branding_id);
-        }
-      }
+      const data = await saveCompanyBranding(payload);
+      setBrandingId(data.branding_id);
 
       setSystemName(localSystemName);
       setSystemSubtitle(localSystemSubtitle);
@@ -845,95 +816,39 @@ export function Settings({
       }
       setSystemNameAr(localSystemNameAr);
       setSystemNameEn(localSystemNameEn);
-      // Save new company fields to localStorage (database may not have these fields yet)
-      localStorage.setItem('companyTaxNumber', companyTaxNumber);
-      localStorage.setItem('companyCommercialReg', companyCommercialReg);
-      localStorage.setItem('companyCityPostal', companyCityPostal);
       toast.success(successMessage);
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to save branding settings");
+      toast.error(error?.message ?? translateCurrent("settings.brandingSaveFailed"));
     } finally {
       setBrandingSaving(false);
     }
   };
 
   const handleSaveBranding = () => {
-    void persistBranding("System branding saved successfully");
+    void persistBranding(t("settings.brandingSaved"));
   };
 
   const handleSaveCompanySettings = () => {
-    void persistBranding("Company settings saved successfully");
+    void persistBranding(t("settings.companySaved"));
   };
 
   const handleSaveSystemSettings = async () => {
     setSystemSettingsSaving(true);
     try {
-      // Get current user ID from localStorage (custom auth)
-      const stored = localStorage.getItem('auth_user');
-      let currentUserId: string | null = null;
-      
-      if (stored) {
-        try {
-          const parsed = JSON.parse(stored);
-          currentUserId = parsed.user_id || null;
-        } catch (e) {
-          console.error('Failed to parse auth_user', e);
-        }
-      }
-
-      const payload: Partial<SystemSettings> = {
+      await saveSystemSettings({
         email_notifications: emailNotifications,
         sms_notifications: smsNotifications,
         auto_backup: autoBackup,
         two_factor_auth: twoFactorAuth,
-        updated_by: currentUserId,
-      };
-
-      if (systemSettingsId) {
-        // Update existing settings
-        const { data, error } = await supabase
-          .from("system_settings")
-          .update(payload)
-          .eq("setting_id", systemSettingsId)
-          .select()
-          .maybeSingle<SystemSettings>();
-
-        if (error) {
-          throw error;
-        }
-
-        if (data) {
-          setSystemSettingsId(data.setting_id);
-        }
-      } else {
-        // Create new settings
-        const insertPayload: any = {
-          ...payload,
-          created_by: currentUserId,
-        };
-
-        const { data, error } = await supabase
-          .from("system_settings")
-          .insert(insertPayload)
-          .select()
-          .maybeSingle<SystemSettings>();
-
-        if (error) {
-          throw error;
-        }
-
-        if (data) {
-          setSystemSettingsId(data.setting_id);
-        }
-      }
+      });
 
-      toast.success("System settings saved successfully");
+      toast.success(translateCurrent("settings.systemSaved"));
       
       // Apply settings immediately (you can add actual functionality here)
       applySystemSettings();
     } catch (error: any) {
       console.error('Error saving system settings:', error);
-      toast.error(error?.message ?? "Failed to save system settings");
+      toast.error(error?.message ?? translateCurrent("settings.systemSaveFailed"));
     } finally {
       setSystemSettingsSaving(false);
     }
@@ -965,20 +880,13 @@ export function Settings({
     }
 
     // Apply two-factor authentication setting
+    // Enforced at sign-in by the auth-login function, which reads system_settings.two_factor_auth;
+    // users without an authenticator are asked to enrol at their next login
     if (twoFactorAuth) {
-      console.log('Two-factor authentication enabled');
-      // TODO: Enforce 2FA for all users
+      console.log('Two-factor authentication required for all users');
     } else {
-      console.log('Two-factor authentication disabled');
+      console.log('Two-factor authentication required only for roles that enforce it');
     }
-
-    // Store settings in localStorage for quick access
-    localStorage.setItem('system_settings', JSON.stringify({
-      emailNotifications,
-      smsNotifications,
-      autoBackup,
-      twoFactorAuth,
-    }));
   };
 
   const handleAddUser = async (userData: AddUserFormValues) => {
@@ -995,38 +903,37 @@ export function Settings({
       }
 
       if (existingUser) {
-        toast.error(`Email ${userData.email} is already in use. Please use a different email address.`);
+        toast.error(translateCurrent("settings.emailInUse", { email: userData.email }));
         return;
       }
 
       const role = normalizedRoles.find((r) => r.role_id === userData.roleId);
       if (!role) {
-        toast.error("Selected role not found in database");
+        toast.error(translateCurrent("settings.roleNotFound"));
         return;
       }
       const password = userData.password;
       if (!password) {
-        toast.error('Password is required');
+        toast.error(translateCurrent("settings.passwordRequired"));
         return;
       }
-      const password_hash = await sha256Hex(password);
       const values: any = {
         email: userData.email.trim(),
         full_name: userData.name,
-        password_hash,
         status: 'active',
         role_id: role.role_id,
         employee_id: userData.employeeId ?? null,
         phone_number: userData.phone ?? null,
       };
-      await dispatch(thunks.system_users.createOne(values)).unwrap();
+      const created = await dispatch(thunks.system_users.createOne(values)).unwrap();
+      await setUserPassword(created.user_id, password);
       setIsAddUserOpen(false);
-      toast.success(`System user created for ${userData.name}`);
+      toast.success(translateCurrent("settings.userCreated", { name: userData.name }));
       dispatch(thunks.system_users.fetchAll(undefined));
     } catch (e: any) {
-      const errorMessage = e.message || 'Failed to create system user';
+      const errorMessage = e.message || translateCurrent("settings.userCreateFailed");
       if (errorMessage.includes("duplicate key") || errorMessage.includes("system_users_email_key")) {
-        toast.error(`Email ${userData.email} is already in use. Please use a different email address.`);
+        toast.error(translateCurrent("settings.emailInUse", { email: userData.email }));
       } else {
         toast.error(errorMessage);
       }
@@ -1035,7 +942,7 @@ export function Settings({
 
   const handleAddAdmin = async (userData: AddUserFormValues) => {
     if (currentPermissions !== "all") {
-      toast.error("Only super administrators can create admin users");
+      toast.error(t("settings.adminOnlyCreate"));
       return;
     }
     try {
@@ -1051,43 +958,42 @@ export function Settings({
       }
 
       if (existingUser) {
-        toast.error(`Email ${userData.email} is already in use. Please use a different email address.`);
+        toast.error(translateCurrent("settings.emailInUse", { email: userData.email }));
         return;
       }
 
       const role = normalizedRoles.find((r) => r.role_id === userData.roleId);
       if (!role) {
-        toast.error("Selected role not found in database");
+        toast.error(translateCurrent("settings.roleNotFound"));
         return;
       }
       // Verify that the selected role has "all" permissions
       if (role.resolvedPermissions !== "all") {
-        toast.error("Selected role does not have super admin permissions");
+        toast.error(translateCurrent("settings.roleNotSuperAdmin"));
         return;
       }
       const password = userData.password;
       if (!password) {
-        toast.error('Password is required');
+        toast.error(translateCurrent("settings.passwordRequired"));
         return;
       }
-      const password_hash = await sha256Hex(password);
       const values: any = {
         email: userData.email.trim(),
         full_name: userData.name,
-        password_hash,
         status: 'active',
         role_id: role.role_id,
         employee_id: null, // Admin users don't need to be linked to employees
         phone_number: userData.phone ?? null,
       };
-      await dispatch(thunks.system_users.createOne(values)).unwrap();
+      const created = await dispatch(thunks.system_users.createOne(values)).unwrap();
+      await setUserPassword(created.user_id, password);
       setIsAddAdminOpen(false);
-      toast.success(`Admin user created successfully: ${userData.name}`);
+      toast.success(translateCurrent("settings.adminCreated", { name: userData.name }));
       dispatch(thunks.system_users.fetchAll(undefined));
     } catch (e: any) {
-      const errorMessage = e.message || 'Failed to create admin user';
+      const errorMessage = e.message || translateCurrent("settings.adminCreateFailed");
       if (errorMessage.includes("duplicate key") || errorMessage.includes("system_users_email_key")) {
-        toast.error(`Email ${userData.email} is already in use. Please use a different email address.`);
+        toast.error(translateCurrent("settings.emailInUse", { email: userData.email }));
       } else {
         toast.error(errorMessage);
       }
@@ -1097,13 +1003,13 @@ export function Settings({
   const handleDeleteUserClick = (userId: string) => {
     // Only super admins can delete users
     if (currentPermissions !== "all") {
-      toast.error("Only super administrators can delete users");
+      toast.error(t("settings.adminOnlyDelete"));
       return;
     }
 
     const userRelation = usersWithRelations.find(({ user }) => user.user_id === userId);
     if (!userRelation) {
-      toast.error("User not found");
+      toast.error(t("settings.userNotFound"));
       return;
     }
 
@@ -1129,7 +1035,7 @@ export function Settings({
 
     // Check if trying to delete own account
     if (currentUserId === userToDelete.user.user_id) {
-      toast.error("You cannot delete your own account");
+      toast.error(t("settings.cannotDeleteSelf"));
       setIsDeleteDialogOpen(false);
       setUserToDelete(null);
       return;
@@ -1142,7 +1048,7 @@ export function Settings({
     if (isTargetSuperAdmin) {
       // For super admin deletion, require exact username match
       if (deleteConfirmationText.trim() !== targetUserName.trim()) {
-        toast.error("Username does not match. Please type the exact username to confirm deletion.");
+        toast.error(t("settings.usernameMismatch"));
         return;
       }
     } else {
@@ -1168,13 +1074,13 @@ export function Settings({
       
       // Delete the user
       await dispatch(thunks.system_users.deleteOne(userToDelete.user.user_id)).unwrap();
-      toast.success("User deleted successfully");
+      toast.success(translateCurrent("settings.userDeleted"));
       setIsDeleteDialogOpen(false);
       setUserToDelete(null);
       setDeleteConfirmationText("");
       dispatch(thunks.system_users.fetchAll(undefined));
     } catch (e: any) {
-      toast.error(e.message || "Failed to delete user");
+      toast.error(e.message || translateCurrent("settings.userDeleteFailed"));
     }
   };
 
@@ -1182,9 +1088,9 @@ export function Settings({
     try {
       const nextStatus = currentStatus === 'inactive' ? 'active' : 'inactive';
       await dispatch(thunks.system_users.updateOne({ id: userId, values: { status: nextStatus } })).unwrap();
-      toast.success("User status updated");
+      toast.success(translateCurrent("settings.userStatusUpdated"));
     } catch (e: any) {
-      toast.error(e.message || "Failed to update user status");
+      toast.error(e.message || translateCurrent("settings.userStatusFailed"));
     }
   };
 
@@ -1193,12 +1099,12 @@ export function Settings({
 
   const handleStartEditUser = (userId: string) => {
     if (!canEditAllUsers) {
-      toast.error("You do not have permission to edit users.");
+      toast.error(t("settings.noEditUsersPermission"));
       return;
     }
     const userRelation = usersWithRelations.find(({ user }) => user.user_id === userId);
     if (!userRelation) {
-      toast.error("User not found");
+      toast.error(t("settings.userNotFound"));
       return;
     }
     setUserBeingEdited(userRelation);
@@ -1207,7 +1113,7 @@ export function Settings({
 
   const handleEditUser = async (userData: AddUserFormValues) => {
     if (!canEditAllUsers || !userBeingEdited) {
-      toast.error("You do not have permission to edit users.");
+      toast.error(t("settings.noEditUsersPermission"));
       return;
     }
     try {
@@ -1224,14 +1130,14 @@ export function Settings({
         }
 
         if (existingUser && existingUser.user_id !== userBeingEdited.user.user_id) {
-          toast.error(`Email ${userData.email} is already in use. Please use a different email address.`);
+          toast.error(translateCurrent("settings.emailInUse", { email: userData.email }));
           return;
         }
       }
 
       const role = normalizedRoles.find((r) => r.role_id === userData.roleId);
       if (!role) {
-        toast.error("Selected role not found in database");
+        toast.error(translateCurrent("settings.roleNotFound"));
         return;
       }
 
@@ -1243,16 +1149,15 @@ export function Settings({
         phone_number: userData.phone ?? null,
       };
 
-      // Only update password if a new one was provided
+      await dispatch(thunks.system_users.updateOne({ id: userBeingEdited.user.user_id, values: updates as any })).unwrap();
+
+      // Only update password if a new one was provided; it is hashed on the server
       if (userData.password && userData.password.trim() !== '') {
-        const password_hash = await sha256Hex(userData.password);
-        updates.password_hash = password_hash;
+        await setUserPassword(userBeingEdited.user.user_id, userData.password);
       }
-
-      await dispatch(thunks.system_users.updateOne({ id: userBeingEdited.user.user_id, values: updates as any })).unwrap();
       setIsEditUserOpen(false);
       setUserBeingEdited(null);
-      toast.success(`System user updated: ${userData.name}`);
+      toast.success(translateCurrent("settings.userUpdated", { name: userData.name }));
       dispatch(thunks.system_users.fetchAll(undefined));
       
       // Refresh permissions if role changed
@@ -1274,9 +1179,9 @@ export function Settings({
         });
       }
     } catch (e: any) {
-      const errorMessage = e.message || 'Failed to update system user';
+      const errorMessage = e.message || translateCurrent("settings.userUpdateFailed");
       if (errorMessage.includes("duplicate key") || errorMessage.includes("system_users_email_key")) {
-        toast.error(`Email ${userData.email} is already in use. Please use a different email address.`);
+        toast.error(translateCurrent("settings.emailInUse", { email: userData.email }));
       } else {
         toast.error(errorMessage);
       }
@@ -1285,7 +1190,7 @@ export function Settings({
 
   const handleAddRole = async (roleData: AddRoleFormValues) => {
     if (!canManageRoles) {
-      toast.error("You do not have permission to modify roles.");
+      toast.error(t("settings.noModifyRolesPermission"));
       return;
     }
     try {
@@ -1296,8 +1201,12 @@ export function Settings({
           users_count: 0,
         } as any),
       ).unwrap();
+      // Only the auth-2fa function may change who has to use 2FA
+      if (roleData.require_two_factor && result?.role_id) {
+        await setRoleTwoFactorRequirement(result.role_id, true);
+      }
       setIsAddRoleOpen(false);
-      toast.success("Role created successfully");
+      toast.success(translateCurrent("settings.roleCreated"));
       dispatch(thunks.roles.fetchAll(undefined));
       
       // Refresh permissions for users with this role (if any)
@@ -1305,9 +1214,9 @@ export function Settings({
         await refreshPermissionsForRole(result.role_id);
       }
     } catch (e: any) {
-      const message = e?.message ?? "Failed to create role";
+      const message = e?.message ?? translateCurrent("settings.roleCreateFailed");
       if (message.includes("roles_role_name_key") || e?.code === "23505") {
-        toast.error("Role name already exists. Please choose another name.");
+        toast.error(translateCurrent("settings.roleNameExists"));
       } else {
         toast.error(message);
       }
@@ -1324,7 +1233,7 @@ export function Settings({
 
   const handleEditRole = async (roleData: AddRoleFormValues) => {
     if (!canEditAllRoles || !roleBeingEdited) {
-      toast.error("You do not have permission to modify roles.");
+      toast.error(t("settings.noModifyRolesPermission"));
       return;
     }
     try {
@@ -1337,7 +1246,10 @@ export function Settings({
           } as any,
         }),
       ).unwrap();
-      toast.success(`Role updated successfully (${roleData.role_name})`);
+      if (roleData.require_two_factor !== (roleBeingEdited.require_two_factor === true)) {
+        await setRoleTwoFactorRequirement(roleBeingEdited.role_id, roleData.require_two_factor);
+      }
+      toast.success(translateCurrent("settings.roleUpdated", { name: roleData.role_name }));
       setIsEditRoleOpen(false);
       const updatedRoleId = roleBeingEdited.role_id;
       setRoleBeingEdited(null);
@@ -1345,11 +1257,11 @@ export function Settings({
       
       // Refresh permissions for all users with this role
       await refreshPermissionsForRole(updatedRoleId);
-      toast.info("Permissions refreshed for all users with this role");
+      toast.info(translateCurrent("settings.rolePermissionsRefreshed"));
     } catch (e: any) {
-      const message = e?.message ?? "Failed to update role";
+      const message = e?.message ?? translateCurrent("settings.roleUpdateFailed");
       if (message.includes("roles_role_name_key") || e?.code === "23505") {
-        toast.error("Role name already exists. Please choose another name.");
+        toast.error(translateCurrent("settings.roleNameExists"));
       } else {
         toast.error(message);
       }
@@ -1358,35 +1270,35 @@ export function Settings({
 
   const handleDeleteRole = async (roleId: string) => {
     if (!canManageRoles) {
-      toast.error("You do not have permission to modify roles.");
+      toast.error(t("settings.noModifyRolesPermission"));
       return;
     }
     const role = normalizedRoles.find(r => r.role_id === roleId);
     if (role && (role.users_count ?? 0) > 0) {
-      toast.error("Cannot delete role with assigned users");
+      toast.error(t("settings.roleHasUsers"));
       return;
     }
     try {
       await dispatch(thunks.roles.deleteOne(roleId)).unwrap();
-      toast.success("Role deleted successfully");
+      toast.success(translateCurrent("settings.roleDeleted"));
     } catch (e: any) {
-      toast.error(e.message || "Failed to delete role");
+      toast.error(e.message || translateCurrent("settings.roleDeleteFailed"));
     }
   };
 
   const handleRefreshAllPermissions = async () => {
     if (!canEditAllRoles) {
-      toast.error("You do not have permission to refresh permissions.");
+      toast.error(t("settings.noRefreshPermission"));
       return;
     }
 
     try {
-      toast.info("Refreshing permissions for all users...");
+      toast.info(t("settings.refreshingPermissions"));
       await refreshAllPermissions();
-      toast.success("All permissions have been refreshed successfully!");
+      toast.success(translateCurrent("settings.permissionsRefreshed"));
     } catch (error: any) {
       console.error("Error refreshing all permissions:", error);
-      toast.error(error.message || "Failed to refresh permissions");
+      toast.error(error.message || translateCurrent("settings.permissionsRefreshFailed"));
     }
   };
 
@@ -1396,10 +1308,10 @@ export function Settings({
         <div>
           <h1 className="flex items-center gap-2">
             <SettingsIcon className="h-7 w-7 text-primary" />
-            Settings & Permissions
+            {t("page.settings")}
           </h1>
           <p className="text-muted-foreground mt-1">
-            Manage system settings, users, and permissions
+            {t("settings.subtitle")}
           </p>
         </div>
       </div>
@@ -1411,42 +1323,42 @@ export function Settings({
             className="gap-2 data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=inactive]:bg-transparent"
           >
             <ImageIcon className="h-4 w-4" />
-            <span className="hidden sm:inline">Branding</span>
+            <span className="hidden sm:inline">{t("settings.tab.branding")}</span>
           </TabsTrigger>
           <TabsTrigger 
             value="company" 
             className="gap-2 data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=inactive]:bg-transparent"
           >
             <Building2 className="h-4 w-4" />
-            <span className="hidden sm:inline">Company</span>
+            <span className="hidden sm:inline">{t("settings.tab.company")}</span>
           </TabsTrigger>
           <TabsTrigger 
             value="users" 
             className="gap-2 data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=inactive]:bg-transparent"
           >
             <Users className="h-4 w-4" />
-            <span className="hidden sm:inline">Users</span>
+            <span className="hidden sm:inline">{t("settings.tab.users")}</span>
           </TabsTrigger>
           <TabsTrigger 
             value="roles" 
             className="gap-2 data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=inactive]:bg-transparent"
           >
             <Shield className="h-4 w-4" />
-            <span className="hidden sm:inline">Roles</span>
+            <span className="hidden sm:inline">{t("settings.tab.roles")}</span>
           </TabsTrigger>
           <TabsTrigger 
             value="system" 
             className="gap-2 data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=inactive]:bg-transparent"
           >
             <SettingsIcon className="h-4 w-4" />
-            <span className="hidden sm:inline">System</span>
+            <span className="hidden sm:inline">{t("settings.tab.system")}</span>
           </TabsTrigger>
           <TabsTrigger 
             value="backup" 
             className="gap-2 data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=inactive]:bg-transparent"
           >
             <Database className="h-4 w-4" />
-            <span className="hidden sm:inline">Backup</span>
+            <span className="hidden sm:inline">{t("settings.tab.backup")}</span>
           </TabsTrigger>
         </TabsList>
 
@@ -1454,13 +1366,13 @@ export function Settings({
         <TabsContent value="branding" className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>System Branding - هوية النظام</CardTitle>
-              <CardDescription>Customize the system logo and name displayed in the sidebar</CardDescription>
+              <CardTitle>{t("settings.branding.title")}</CardTitle>
+              <CardDescription>{t("settings.branding.description")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="systemLogo">System Logo - شعار النظام</Label>
+                  <Label htmlFor="systemLogo">{t("settings.branding.logo")}</Label>
                   <div className="flex items-start gap-4">
                     <div className="flex-1">
                       <input
@@ -1479,18 +1391,18 @@ export function Settings({
                       >
                         {uploadingLogo ? (
                           <>
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                            Uploading...
+                            <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                            {t("settings.branding.uploading")}
                           </>
                         ) : (
                           <>
-                            <Upload className="h-4 w-4 mr-2" />
-                            Upload Logo
+                            <Upload className="h-4 w-4 me-2" />
+                            {t("settings.branding.uploadLogo")}
                           </>
                         )}
                       </Button>
                       <p className="text-xs text-muted-foreground mt-2">
-                        Recommended: 200x200px, PNG or JPG
+                        {t("settings.branding.logoHint")}
                       </p>
                     </div>
                     {localSystemLogo && (
@@ -1503,7 +1415,7 @@ export function Settings({
                           ) : (
                             <ImageWithFallback
                               src={localSystemLogo}
-                              alt="System Logo Preview"
+                              alt={t("settings.branding.logoPreview")}
                               className="w-full h-full object-contain"
                               brandingId={brandingId || undefined}
                               autoRegenerate={true}
@@ -1515,7 +1427,7 @@ export function Settings({
                           type="button"
                           variant="ghost"
                           size="icon"
-                          className="absolute -top-2 -right-2 h-6 w-6 rounded-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          className="absolute -top-2 -end-2 h-6 w-6 rounded-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
                           onClick={handleDeleteLogo}
                           disabled={uploadingLogo}
                         >
@@ -1547,7 +1459,7 @@ export function Settings({
 
                 {/* Company Stamp */}
                 <div className="space-y-2 border-t pt-4">
-                  <Label htmlFor="companyStamp">Company Stamp - ختم الشركة</Label>
+                  <Label htmlFor="companyStamp">{t("settings.branding.stamp")}</Label>
                   <div className="flex items-start gap-4">
                     <div className="flex-1">
                       <input
@@ -1566,18 +1478,18 @@ export function Settings({
                       >
                         {uploadingStamp ? (
                           <>
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                            Uploading...
+                            <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                            {t("settings.branding.uploading")}
                           </>
                         ) : (
                           <>
-                            <Upload className="h-4 w-4 mr-2" />
-                            Upload Stamp
+                            <Upload className="h-4 w-4 me-2" />
+                            {t("settings.branding.uploadStamp")}
                           </>
                         )}
                       </Button>
                       <p className="text-xs text-muted-foreground mt-2">
-                        Recommended: PNG with transparent background, max 2MB
+                        {t("settings.branding.stampHint")}
                       </p>
                     </div>
                     {localSystemStamp && (
@@ -1590,7 +1502,7 @@ export function Settings({
                           ) : (
                             <ImageWithFallback
                               src={localSystemStamp}
-                              alt="Company Stamp Preview"
+                              alt={t("settings.branding.stampPreview")}
                               className="w-full h-full object-contain"
                             />
                           )}
@@ -1599,7 +1511,7 @@ export function Settings({
                           type="button"
                           variant="ghost"
                           size="icon"
-                          className="absolute -top-2 -right-2 h-6 w-6 rounded-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          className="absolute -top-2 -end-2 h-6 w-6 rounded-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
                           onClick={handleDeleteStamp}
                           disabled={uploadingStamp}
                         >
@@ -1611,7 +1523,7 @@ export function Settings({
                       <div className="w-24 h-24 border-2 border-dashed border-border rounded-lg flex items-center justify-center bg-muted/30">
                         <div className="text-center">
                           <ImageIcon className="h-8 w-8 text-muted-foreground mx-auto mb-1" />
-                          <p className="text-xs text-muted-foreground">No stamp</p>
+                          <p className="text-xs text-muted-foreground">{t("settings.branding.noStamp")}</p>
                         </div>
                       </div>
                     )}
@@ -1620,7 +1532,7 @@ export function Settings({
 
                 <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
-                    <Label htmlFor="systemName">System Name (Sidebar) - اسم النظام (القائمة)</Label>
+                    <Label htmlFor="systemName">{t("settings.branding.systemName")}</Label>
                     <Input
                       id="systemName"
                       value={localSystemName}
@@ -1629,7 +1541,7 @@ export function Settings({
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="systemSubtitle">System Subtitle (Sidebar) - العنوان الفرعي</Label>
+                    <Label htmlFor="systemSubtitle">{t("settings.branding.systemSubtitle")}</Label>
                     <Input
                       id="systemSubtitle"
                       value={localSystemSubtitle}
@@ -1640,24 +1552,24 @@ export function Settings({
                 </div>
 
                 <div className="border-t pt-4 mt-4">
-                  <h3 className="text-sm font-medium mb-4">Company Name for Documents - الاسم التجاري للمطبوعات</h3>
+                  <h3 className="text-sm font-medium mb-4">{t("settings.branding.documentName")}</h3>
                   <div className="grid gap-4 md:grid-cols-2">
                     <div className="space-y-2">
-                      <Label htmlFor="systemNameAr">Arabic Name - الاسم بالعربي</Label>
+                      <Label htmlFor="systemNameAr">{t("settings.branding.arabicName")}</Label>
                       <Input
                         id="systemNameAr"
                         value={localSystemNameAr}
                         onChange={(e) => setLocalSystemNameAr(e.target.value)}
                         placeholder="منى سمارت"
                         dir="rtl"
-                        className="text-right"
+                        className="text-end"
                       />
                       <p className="text-xs text-muted-foreground">
-                        This name will appear on all printed documents (invoices, contracts, quotations)
+                        {t("settings.branding.documentNameHint")}
                       </p>
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="systemNameEn">English Name - الاسم بالإنجليزي</Label>
+                      <Label htmlFor="systemNameEn">{t("settings.branding.englishName")}</Label>
                       <Input
                         id="systemNameEn"
                         value={localSystemNameEn}
@@ -1665,7 +1577,7 @@ export function Settings({
                         placeholder="Mana Smart"
                       />
                       <p className="text-xs text-muted-foreground">
-                        This name will appear on all printed documents (invoices, contracts, quotations)
+                        {t("settings.branding.documentNameHint")}
                       </p>
                     </div>
                   </div>
@@ -1673,12 +1585,12 @@ export function Settings({
 
                 <div className="pt-4 border-t">
                   <div className="bg-muted/50 rounded-lg p-4">
-                    <p className="text-sm font-medium mb-3">Preview - معاينة</p>
+                    <p className="text-sm font-medium mb-3">{t("settings.branding.preview")}</p>
                     <div className="flex items-center gap-3 bg-card p-4 rounded-lg border">
                       {localSystemLogo ? (
                         <ImageWithFallback
                           src={localSystemLogo}
-                          alt="Logo Preview" 
+                          alt={t("settings.branding.logoPreview")} 
                           className="h-10 w-10 object-contain rounded-lg"
                           brandingId={brandingId || undefined}
                           autoRegenerate={true}
@@ -1702,8 +1614,8 @@ export function Settings({
                         </div>
                       )}
                       <div>
-                        <h1 className="text-base font-semibold">{localSystemName || "System Name"}</h1>
-                        <p className="text-xs text-muted-foreground">{localSystemSubtitle || "Subtitle"}</p>
+                        <h1 className="text-base font-semibold">{localSystemName || t("settings.branding.systemNameFallback")}</h1>
+                        <p className="text-xs text-muted-foreground">{localSystemSubtitle || t("settings.branding.subtitleFallback")}</p>
                       </div>
                     </div>
                   </div>
@@ -1717,7 +1629,7 @@ export function Settings({
                   disabled={brandingLoading || brandingSaving}
                 >
                   <Save className="h-4 w-4" />
-                  {brandingSaving ? "Saving..." : "Save Branding Settings"}
+                  {brandingSaving ? t("settings.saving") : t("settings.branding.save")}
                 </Button>
               </div>
             </CardContent>
@@ -1728,13 +1640,13 @@ export function Settings({
         <TabsContent value="company" className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Company Information</CardTitle>
-              <CardDescription>Update your company details and contact information</CardDescription>
+              <CardTitle>{t("settings.company.title")}</CardTitle>
+              <CardDescription>{t("settings.company.description")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label htmlFor="companyName">Company Name</Label>
+                  <Label htmlFor="companyName">{t("settings.company.name")}</Label>
                   <Input
                     id="companyName"
                     value={companyName}
@@ -1742,44 +1654,44 @@ export function Settings({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="companyEmail">Email</Label>
+                  <Label htmlFor="companyEmail">{t("common.email")}</Label>
                   <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Mail className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="companyEmail"
                       type="email"
                       value={companyEmail}
                       onChange={(e) => setCompanyEmail(e.target.value)}
-                      className="pl-10"
+                      className="ps-10"
                     />
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="companyPhone">Phone</Label>
+                  <Label htmlFor="companyPhone">{t("common.phone")}</Label>
                   <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Phone className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="companyPhone"
                       value={companyPhone}
                       onChange={(e) => setCompanyPhone(e.target.value)}
-                      className="pl-10"
+                      className="ps-10"
                     />
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="companyAddress">Address</Label>
+                  <Label htmlFor="companyAddress">{t("settings.company.address")}</Label>
                   <div className="relative">
-                    <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <MapPin className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                       id="companyAddress"
                       value={companyAddress}
                       onChange={(e) => setCompanyAddress(e.target.value)}
-                      className="pl-10"
+                      className="ps-10"
                     />
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="companyTaxNumber">Tax Number (الرقم الضريبي)</Label>
+                  <Label htmlFor="companyTaxNumber">{t("settings.company.taxNumber")}</Label>
                   <Input
                     id="companyTaxNumber"
                     value={companyTaxNumber}
@@ -1788,7 +1700,7 @@ export function Settings({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="companyCommercialReg">Commercial Registration (السجل التجاري)</Label>
+                  <Label htmlFor="companyCommercialReg">{t("settings.company.commercialReg")}</Label>
                   <Input
                     id="companyCommercialReg"
                     value={companyCommercialReg}
@@ -1797,12 +1709,12 @@ export function Settings({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="companyCityPostal">City / Postal Code</Label>
+                  <Label htmlFor="companyCityPostal">{t("settings.company.cityPostal")}</Label>
                   <Input
                     id="companyCityPostal"
                     value={companyCityPostal}
                     onChange={(e) => setCompanyCityPostal(e.target.value)}
-                    placeholder="Al-Khobar, Al-Jisr District 37417"
+                    placeholder={t("settings.company.cityPostalPlaceholder")}
                   />
                 </div>
               </div>
@@ -1813,7 +1725,7 @@ export function Settings({
                   disabled={brandingLoading || brandingSaving}
                 >
                   <Save className="h-4 w-4" />
-                  {brandingSaving ? "Saving..." : "Save Changes"}
+                  {brandingSaving ? t("settings.saving") : t("common.saveChanges")}
                 </Button>
               </div>
             </CardContent>
@@ -1828,10 +1740,10 @@ export function Settings({
                 <Users className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
                 <div className="space-y-1">
                   <p className="text-sm font-medium text-blue-900">
-                    Users & Employees Integration
+                    {t("settings.users.integrationTitle")}
                   </p>
                   <p className="text-xs text-blue-700">
-                    Each system user is linked to an employee record. Employee information (ID, Department, Position, Phone) is automatically synchronized.
+                    {t("settings.users.integrationHint")}
                   </p>
                 </div>
               </div>
@@ -1842,8 +1754,8 @@ export function Settings({
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>User Management - إدارة المستخدمين</CardTitle>
-                  <CardDescription>Manage system users and their access - إدارة المستخدمين والصلاحيات</CardDescription>
+                  <CardTitle>{t("settings.users.title")}</CardTitle>
+                  <CardDescription>{t("settings.users.description")}</CardDescription>
                 </div>
                 <div className="flex items-center gap-2">
                   <Dialog open={isAddUserOpen} onOpenChange={setIsAddUserOpen}>
@@ -1853,13 +1765,13 @@ export function Settings({
                         disabled={isDataLoading || normalizedRoles.length === 0 || dbEmployees.length === 0}
                       >
                         <Plus className="h-4 w-4" />
-                        Add User
+                        {t("settings.users.add")}
                       </Button>
                     </DialogTrigger>
                     <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                       <DialogHeader>
-                        <DialogTitle>Add New User - إضافة مستخدم جديد</DialogTitle>
-                        <DialogDescription>Link employee account with system user access</DialogDescription>
+                        <DialogTitle>{t("settings.users.addTitle")}</DialogTitle>
+                        <DialogDescription>{t("settings.users.addDescription")}</DialogDescription>
                       </DialogHeader>
                       <AddUserForm onSubmit={handleAddUser} roles={normalizedRoles} employees={dbEmployees} />
                     </DialogContent>
@@ -1872,13 +1784,13 @@ export function Settings({
                           disabled={isDataLoading || normalizedRoles.length === 0}
                         >
                           <Shield className="h-4 w-4" />
-                          Create Admin
+                          {t("settings.admin.create")}
                         </Button>
                       </DialogTrigger>
                       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                         <DialogHeader>
-                          <DialogTitle>Create New Admin - إنشاء مسؤول جديد</DialogTitle>
-                          <DialogDescription>Create a new super administrator account with full system access</DialogDescription>
+                          <DialogTitle>{t("settings.admin.createTitle")}</DialogTitle>
+                          <DialogDescription>{t("settings.admin.createDescription")}</DialogDescription>
                         </DialogHeader>
                         <AddAdminForm onSubmit={handleAddAdmin} roles={normalizedRoles} />
                       </DialogContent>
@@ -1892,48 +1804,48 @@ export function Settings({
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Employee ID</TableHead>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead>Phone</TableHead>
-                      <TableHead>Department</TableHead>
-                      <TableHead>Position</TableHead>
-                      <TableHead>Role</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("settings.users.employeeId")}</TableHead>
+                      <TableHead>{t("settings.users.name")}</TableHead>
+                      <TableHead>{t("common.email")}</TableHead>
+                      <TableHead>{t("common.phone")}</TableHead>
+                      <TableHead>{t("settings.users.department")}</TableHead>
+                      <TableHead>{t("settings.users.position")}</TableHead>
+                      <TableHead>{t("settings.users.role")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {usersWithRelations.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={9} className="text-center text-sm text-muted-foreground">
-                          {isDataLoading ? "Loading users..." : "No users found"}
+                          {isDataLoading ? t("settings.users.loading") : t("settings.users.empty")}
                         </TableCell>
                       </TableRow>
                     ) : usersWithRelations.map(({ user, employee, role }) => (
                       <TableRow key={user.user_id}>
-                        <TableCell className="font-medium">{employee?.employee_id ?? "N/A"}</TableCell>
-                        <TableCell>{user.full_name || employee?.name_en || employee?.name_ar || "N/A"}</TableCell>
+                        <TableCell className="font-medium">{employee?.employee_id ?? t("common.notAvailable")}</TableCell>
+                        <TableCell>{user.full_name || employee?.name_en || employee?.name_ar || t("common.notAvailable")}</TableCell>
                         <TableCell className="text-muted-foreground">{user.email}</TableCell>
-                        <TableCell className="text-muted-foreground">{employee?.phone_number || user.phone_number || "N/A"}</TableCell>
-                        <TableCell>{employee?.department || "N/A"}</TableCell>
-                        <TableCell>{employee?.position || "N/A"}</TableCell>
+                        <TableCell className="text-muted-foreground">{employee?.phone_number || user.phone_number || t("common.notAvailable")}</TableCell>
+                        <TableCell>{employee?.department || t("common.notAvailable")}</TableCell>
+                        <TableCell>{employee?.position || t("common.notAvailable")}</TableCell>
                         <TableCell>
-                          <Badge variant="outline">{role?.role_name || "Unassigned"}</Badge>
+                          <Badge variant="outline">{role?.role_name || t("settings.users.unassigned")}</Badge>
                         </TableCell>
                         <TableCell>
                           <Badge variant={user.status === "active" ? "default" : "secondary"}>
-                            {user.status || "inactive"}
+                            {t(user.status === "active" ? "status.active" : "status.inactive")}
                           </Badge>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">
                           <div className="flex justify-end gap-2">
                             {canEditAllUsers && (
                               <Button
                                 variant="ghost"
                                 size="icon"
                                 onClick={() => handleStartEditUser(user.user_id)}
-                                title="Edit user"
+                                title={t("settings.users.edit")}
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
@@ -1942,7 +1854,7 @@ export function Settings({
                               variant="ghost"
                               size="icon"
                               onClick={() => handleToggleUserStatus(user.user_id, user.status)}
-                              title="Toggle user status"
+                              title={t("settings.users.toggleStatus")}
                             >
                               <Shield className="h-4 w-4" />
                             </Button>
@@ -1951,7 +1863,7 @@ export function Settings({
                               size="icon"
                               onClick={() => handleDeleteUserClick(user.user_id)}
                               disabled={currentPermissions !== "all"}
-                              title={currentPermissions !== "all" ? "Only super administrators can delete users" : "Delete user"}
+                              title={currentPermissions !== "all" ? t("settings.adminOnlyDelete") : t("settings.users.delete")}
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -1974,8 +1886,8 @@ export function Settings({
             >
               <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
-                  <DialogTitle>Edit User - تعديل المستخدم</DialogTitle>
-                  <DialogDescription>Update system user information and access</DialogDescription>
+                  <DialogTitle>{t("settings.users.editTitle")}</DialogTitle>
+                  <DialogDescription>{t("settings.users.editDescription")}</DialogDescription>
                 </DialogHeader>
                 <EditUserForm 
                   user={userBeingEdited.user}
@@ -2007,9 +1919,9 @@ export function Settings({
             >
               <DialogContent className="max-w-md">
                 <DialogHeader>
-                  <DialogTitle className="text-destructive">Delete User - حذف المستخدم</DialogTitle>
+                  <DialogTitle className="text-destructive">{t("settings.users.deleteTitle")}</DialogTitle>
                   <DialogDescription>
-                    This action cannot be undone. This will permanently delete the user account.
+                    {t("settings.users.deleteDescription")}
                   </DialogDescription>
                 </DialogHeader>
                 
@@ -2019,15 +1931,15 @@ export function Settings({
                       <Shield className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
                       <div className="space-y-2">
                         <p className="text-sm font-semibold text-red-900 dark:text-red-100">
-                          ⚠️ Warning: Deleting User Account
+                          {t("settings.users.deleteWarning")}
                         </p>
                         <div className="text-sm text-red-700 dark:text-red-300 space-y-1">
-                          <p><strong>User:</strong> {userToDelete.user.full_name || userToDelete.user.email}</p>
-                          <p><strong>Email:</strong> {userToDelete.user.email}</p>
-                          <p><strong>Role:</strong> {userToDelete.role?.role_name || "Unassigned"}</p>
+                          <p><strong>{t("settings.users.userLabel")}</strong> {userToDelete.user.full_name || userToDelete.user.email}</p>
+                          <p><strong>{t("settings.users.emailLabel")}</strong> {userToDelete.user.email}</p>
+                          <p><strong>{t("settings.users.roleLabel")}</strong> {userToDelete.role?.role_name || t("settings.users.unassigned")}</p>
                           {userToDelete.role?.resolvedPermissions === "all" && (
                             <p className="font-bold text-red-900 dark:text-red-100">
-                              ⚠️ This is a Super Administrator account!
+                              {t("settings.users.superAdminAccount")}
                             </p>
                           )}
                         </div>
@@ -2054,10 +1966,10 @@ export function Settings({
                       return (
                         <div className="bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
                           <p className="text-sm font-semibold text-yellow-900 dark:text-yellow-100">
-                            🚫 You cannot delete your own account
+                            {t("settings.users.cannotDeleteSelfTitle")}
                           </p>
                           <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
-                            For security reasons, you cannot delete your own account. Please ask another super administrator to do this.
+                            {t("settings.users.cannotDeleteSelfHint")}
                           </p>
                         </div>
                       );
@@ -2068,15 +1980,15 @@ export function Settings({
                         <div className="space-y-3">
                           <div className="bg-orange-50 dark:bg-orange-950 border border-orange-200 dark:border-orange-800 rounded-lg p-4">
                             <p className="text-sm font-semibold text-orange-900 dark:text-orange-100 mb-2">
-                              ⚠️ Deleting Super Administrator Account
+                              {t("settings.users.deleteSuperAdminTitle")}
                             </p>
                             <p className="text-xs text-orange-700 dark:text-orange-300">
-                              You are about to delete a Super Administrator account. This requires additional confirmation.
+                              {t("settings.users.deleteSuperAdminHint")}
                             </p>
                           </div>
                           <div className="space-y-2">
                             <Label htmlFor="deleteConfirmation">
-                              Type the username to confirm deletion:
+                              {t("settings.users.typeUsername")}
                             </Label>
                             <Input
                               id="deleteConfirmation"
@@ -2086,7 +1998,7 @@ export function Settings({
                               className="font-mono"
                             />
                             <p className="text-xs text-muted-foreground">
-                              You must type: <strong>{targetUserName}</strong>
+                              {t("settings.users.mustType")} <strong>{targetUserName}</strong>
                             </p>
                           </div>
                         </div>
@@ -2097,10 +2009,10 @@ export function Settings({
                     return (
                       <div className="bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
                         <p className="text-sm font-semibold text-yellow-900 dark:text-yellow-100">
-                          ⚠️ Confirm Deletion
+                          {t("settings.users.confirmDeleteTitle")}
                         </p>
                         <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
-                          Are you sure you want to delete this user account? This action cannot be undone.
+                          {t("settings.users.confirmDeleteHint")}
                         </p>
                       </div>
                     );
@@ -2116,7 +2028,7 @@ export function Settings({
                       setDeleteConfirmationText("");
                     }}
                   >
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button
                     variant="destructive"
@@ -2145,8 +2057,8 @@ export function Settings({
                       })()
                     }
                   >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete User
+                    <Trash2 className="h-4 w-4 me-2" />
+                    {t("settings.users.delete")}
                   </Button>
                 </DialogFooter>
               </DialogContent>
@@ -2160,11 +2072,11 @@ export function Settings({
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Roles & Permissions</CardTitle>
-                  <CardDescription>Manage user roles and their permissions</CardDescription>
+                  <CardTitle>{t("settings.roles.title")}</CardTitle>
+                  <CardDescription>{t("settings.roles.description")}</CardDescription>
                   {!canManageRoles && (
                     <p className="mt-2 text-xs text-muted-foreground">
-                      Only administrators with full access can modify roles. You can view existing roles below.
+                      {t("settings.roles.readOnlyHint")}
                     </p>
                   )}
                 </div>
@@ -2176,7 +2088,7 @@ export function Settings({
                       onClick={handleRefreshAllPermissions}
                     >
                       <RefreshCcw className="h-4 w-4" />
-                      Refresh All Permissions
+                      {t("settings.roles.refreshAll")}
                     </Button>
                     <Dialog open={isAddRoleOpen} onOpenChange={setIsAddRoleOpen}>
                       <DialogTrigger asChild>
@@ -2185,13 +2097,13 @@ export function Settings({
                           disabled={isDataLoading}
                         >
                           <Plus className="h-4 w-4" />
-                          Add Role
+                          {t("settings.roles.add")}
                         </Button>
                       </DialogTrigger>
                     <DialogContent className="max-w-2xl">
                       <DialogHeader>
-                        <DialogTitle>Create New Role</DialogTitle>
-                        <DialogDescription>Define a new role and assign permissions</DialogDescription>
+                        <DialogTitle>{t("settings.roles.createTitle")}</DialogTitle>
+                        <DialogDescription>{t("settings.roles.createDescription")}</DialogDescription>
                       </DialogHeader>
                       <AddRoleForm onSubmit={handleAddRole} existingRoles={normalizedRoles} />
                     </DialogContent>
@@ -2205,29 +2117,29 @@ export function Settings({
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Role Name</TableHead>
-                      <TableHead>Permissions</TableHead>
-                      <TableHead>Users</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("settings.roles.name")}</TableHead>
+                      <TableHead>{t("settings.roles.permissions")}</TableHead>
+                      <TableHead>{t("settings.tab.users")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {normalizedRoles.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
-                          {isDataLoading ? "Loading roles..." : "No roles defined yet"}
+                          {isDataLoading ? t("settings.roles.loading") : t("settings.roles.empty")}
                         </TableCell>
                       </TableRow>
                     ) : normalizedRoles.map((role) => (
                       <TableRow key={role.role_id}>
                         <TableCell>{role.role_name}</TableCell>
                         <TableCell className="text-sm text-muted-foreground">
-                          {permissionSummary(role.resolvedPermissions)}
+                          {permissionSummary(role.resolvedPermissions, t)}
                         </TableCell>
                         <TableCell>
-                          <Badge variant="outline">{role.users_count ?? 0} users</Badge>
+                          <Badge variant="outline">{t("settings.roles.usersCount", { count: role.users_count ?? 0 })}</Badge>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">
                           <div className="flex justify-end gap-2">
                             <Button
                               variant="ghost"
@@ -2264,8 +2176,8 @@ export function Settings({
             >
               <DialogContent className="max-w-2xl">
                 <DialogHeader>
-                  <DialogTitle>Edit Role</DialogTitle>
-                  <DialogDescription>Update role details and permissions</DialogDescription>
+                  <DialogTitle>{t("settings.roles.editTitle")}</DialogTitle>
+                  <DialogDescription>{t("settings.roles.editDescription")}</DialogDescription>
                 </DialogHeader>
                 <EditRoleForm
                   role={roleBeingEdited}
@@ -2285,22 +2197,22 @@ export function Settings({
         <TabsContent value="system" className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>System Settings</CardTitle>
-              <CardDescription>Configure system preferences and security</CardDescription>
+              <CardTitle>{t("section.system")}</CardTitle>
+              <CardDescription>{t("settings.system.description")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               {systemSettingsLoading ? (
                 <div className="flex items-center justify-center py-8">
                   <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-                  <span className="ml-2 text-sm text-muted-foreground">Loading settings...</span>
+                  <span className="ms-2 text-sm text-muted-foreground">{t("settings.system.loading")}</span>
                 </div>
               ) : (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Email Notifications</Label>
+                      <Label>{t("settings.system.emailNotifications")}</Label>
                       <p className="text-sm text-muted-foreground">
-                        Send email notifications for important events
+                        {t("settings.system.emailNotificationsHint")}
                       </p>
                     </div>
                     <Switch
@@ -2312,9 +2224,9 @@ export function Settings({
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>SMS Notifications</Label>
+                    <Label>{t("settings.system.smsNotifications")}</Label>
                     <p className="text-sm text-muted-foreground">
-                      Send SMS alerts for critical updates
+                      {t("settings.system.smsNotificationsHint")}
                     </p>
                   </div>
                     <Switch
@@ -2326,9 +2238,9 @@ export function Settings({
 
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Automatic Backup</Label>
+                      <Label>{t("settings.system.autoBackup")}</Label>
                       <p className="text-sm text-muted-foreground">
-                        Daily automated backup of system data
+                        {t("settings.system.autoBackupHint")}
                       </p>
                     </div>
                     <Switch
@@ -2348,9 +2260,9 @@ export function Settings({
 
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Two-Factor Authentication</Label>
+                      <Label>{t("settings.system.twoFactor")}</Label>
                       <p className="text-sm text-muted-foreground">
-                        Require 2FA for all user logins
+                        {t("settings.system.twoFactorHint")}
                       </p>
                     </div>
                     <Switch
@@ -2371,18 +2283,22 @@ export function Settings({
                   {systemSettingsSaving ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      Saving...
+                      {t("settings.saving")}
                     </>
                   ) : (
                     <>
                       <Save className="h-4 w-4" />
-                      Save Settings
+                      {t("settings.system.save")}
                     </>
                   )}
                 </Button>
               </div>
             </CardContent>
           </Card>
+
+          <DocumentNumberingSettings />
+
+          <RecurringBillingSettings />
         </TabsContent>
 
         {/* Backup Settings */}
@@ -2414,6 +2330,7 @@ function EditUserForm({
   employees: Employees[];
   onCancel: () => void;
 }) {
+  const { t, localizedName } = useLocale();
   const [selectedEmployeeId, setSelectedEmployeeId] = useState(user.employee_id || "");
   const [name, setName] = useState(user.full_name || employee?.name_en || employee?.name_ar || "");
   const [email, setEmail] = useState(user.email);
@@ -2453,16 +2370,16 @@ function EditUserForm({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!roleId) {
-      toast.error("Select a system role");
+      toast.error(t("settings.selectRole"));
       return;
     }
     if (password && password !== confirmPassword) {
-      toast.error("Passwords do not match");
+      toast.error(t("settings.passwordMismatch"));
       return;
     }
     const selectedRole = roles.find(r => r.role_id === roleId);
     if (!selectedRole) {
-      toast.error("Selected role could not be found");
+      toast.error(t("settings.roleNotFound"));
       return;
     }
     onSubmit({
@@ -2485,47 +2402,47 @@ function EditUserForm({
           <Edit className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
           <div className="space-y-1">
             <p className="text-sm font-medium text-blue-900 dark:text-blue-100">
-              Edit System User
+              {t("settings.users.editFormTitle")}
             </p>
             <p className="text-xs text-blue-700 dark:text-blue-300">
-              Update user information and access permissions. Leave password blank to keep existing password.
+              {t("settings.users.editFormHint")}
             </p>
           </div>
         </div>
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="editEmployee">Select Employee - اختر الموظف</Label>
+        <Label htmlFor="editEmployee">{t("settings.users.selectEmployee")}</Label>
         <Select value={selectedEmployeeId} onValueChange={handleEmployeeSelect}>
           <SelectTrigger>
-            <SelectValue placeholder="Select employee from database..." />
+            <SelectValue placeholder={t("settings.users.selectEmployeePlaceholder")} />
           </SelectTrigger>
           <SelectContent>
             {employees.map((emp) => (
               <SelectItem key={emp.employee_id} value={emp.employee_id}>
-                {emp.name_en || emp.name_ar || "Unnamed"} ({emp.department || "Unknown"})
+                {localizedName(emp.name_en, emp.name_ar) || t("settings.users.unnamed")} ({emp.department || t("common.unknown")})
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground">
-          Select an existing employee to automatically fill their information
+          {t("settings.users.selectEmployeeHint")}
         </p>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="editEmployeeId">Employee ID - رقم الموظف</Label>
+          <Label htmlFor="editEmployeeId">{t("settings.users.employeeId")}</Label>
           <Input
             id="editEmployeeId"
             value={selectedEmployeeId ? selectedEmployeeId : ""}
             disabled
-            placeholder="Auto-filled"
+            placeholder={t("settings.users.autoFilled")}
             className="bg-muted"
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="editName">Full Name - الاسم الكامل</Label>
+          <Label htmlFor="editName">{t("settings.users.fullName")}</Label>
           <Input
             id="editName"
             value={name}
@@ -2537,7 +2454,7 @@ function EditUserForm({
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="editEmail">Email - البريد الإلكتروني</Label>
+          <Label htmlFor="editEmail">{t("common.email")}</Label>
           <Input
             id="editEmail"
             type="email"
@@ -2547,7 +2464,7 @@ function EditUserForm({
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="editPhone">Phone - الهاتف</Label>
+          <Label htmlFor="editPhone">{t("common.phone")}</Label>
           <Input
             id="editPhone"
             value={phone}
@@ -2558,7 +2475,7 @@ function EditUserForm({
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="editDepartment">Department - القسم</Label>
+          <Label htmlFor="editDepartment">{t("settings.users.department")}</Label>
           <Input
             id="editDepartment"
             value={department}
@@ -2566,7 +2483,7 @@ function EditUserForm({
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="editPosition">Position - المنصب</Label>
+          <Label htmlFor="editPosition">{t("settings.users.position")}</Label>
           <Input
             id="editPosition"
             value={position}
@@ -2576,10 +2493,10 @@ function EditUserForm({
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="editRole">System Role - صلاحيات النظام</Label>
+        <Label htmlFor="editRole">{t("settings.users.systemRole")}</Label>
         <Select value={roleId} onValueChange={setRoleId} required>
           <SelectTrigger>
-            <SelectValue placeholder="Select system role..." />
+            <SelectValue placeholder={t("settings.users.systemRolePlaceholder")} />
           </SelectTrigger>
           <SelectContent>
             {roles.map((r) => (
@@ -2590,43 +2507,43 @@ function EditUserForm({
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground">
-          System role determines what the user can access in the system
+          {t("settings.users.systemRoleHint")}
         </p>
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="editPassword">New Password - كلمة المرور الجديدة (Optional)</Label>
+        <Label htmlFor="editPassword">{t("settings.users.newPassword")}</Label>
         <Input
           id="editPassword"
           type="password"
           value={password}
           onChange={(e) => setPassword(e.target.value)}
-          placeholder="Leave blank to keep existing password"
+          placeholder={t("settings.users.newPasswordPlaceholder")}
         />
         <p className="text-xs text-muted-foreground">
-          Only enter a password if you want to change it
+          {t("settings.users.newPasswordHint")}
         </p>
       </div>
 
       {password && (
         <div className="space-y-2">
-          <Label htmlFor="editConfirmPassword">Confirm New Password - تأكيد كلمة المرور</Label>
+          <Label htmlFor="editConfirmPassword">{t("settings.users.confirmNewPassword")}</Label>
           <Input
             id="editConfirmPassword"
             type="password"
             value={confirmPassword}
             onChange={(e) => setConfirmPassword(e.target.value)}
-            placeholder="Re-enter new password"
+            placeholder={t("settings.users.reenterNewPassword")}
           />
         </div>
       )}
 
       <DialogFooter>
         <Button type="button" variant="outline" onClick={onCancel}>
-          Cancel
+          {t("common.cancel")}
         </Button>
         <Button type="submit" disabled={!roleId} className="bg-purple-600 hover:bg-purple-700 text-white">
-          Update User Account
+          {t("settings.users.update")}
         </Button>
       </DialogFooter>
     </form>
@@ -2634,6 +2551,7 @@ function EditUserForm({
 }
 
 function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserFormValues) => void; roles: NormalizedRole[]; employees: Employees[] }) {
+  const { t, localizedName } = useLocale();
   const [selectedEmployeeId, setSelectedEmployeeId] = useState("");
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
@@ -2659,24 +2577,24 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedEmployeeId) {
-      toast.error("Select an employee to continue");
+      toast.error(t("settings.selectEmployee"));
       return;
     }
     if (!roleId) {
-      toast.error("Select a system role");
+      toast.error(t("settings.selectRole"));
       return;
     }
     if (!password) {
-      toast.error("Password is required");
+      toast.error(t("settings.passwordRequired"));
       return;
     }
     if (password !== confirmPassword) {
-      toast.error("Passwords do not match");
+      toast.error(t("settings.passwordMismatch"));
       return;
     }
     const selectedRole = roles.find(r => r.role_id === roleId);
     if (!selectedRole) {
-      toast.error("Selected role could not be found");
+      toast.error(t("settings.roleNotFound"));
       return;
     }
     onSubmit({
@@ -2699,47 +2617,47 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
           <Users className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
           <div className="space-y-1">
             <p className="text-sm font-medium text-blue-900 dark:text-blue-100">
-              Link Employee to System User
+              {t("settings.users.linkTitle")}
             </p>
             <p className="text-xs text-blue-700 dark:text-blue-300">
-              Select an employee from the database to create their system login account. All employee information will be automatically linked.
+              {t("settings.users.linkHint")}
             </p>
           </div>
         </div>
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="employee">Select Employee - اختر الموظف</Label>
+        <Label htmlFor="employee">{t("settings.users.selectEmployee")}</Label>
         <Select value={selectedEmployeeId} onValueChange={handleEmployeeSelect}>
           <SelectTrigger>
-            <SelectValue placeholder="Select employee from database..." />
+            <SelectValue placeholder={t("settings.users.selectEmployeePlaceholder")} />
           </SelectTrigger>
           <SelectContent>
             {employees.map((emp) => (
               <SelectItem key={emp.employee_id} value={emp.employee_id}>
-                {emp.name_en || emp.name_ar || "Unnamed"} ({emp.department || "Unknown"})
+                {localizedName(emp.name_en, emp.name_ar) || t("settings.users.unnamed")} ({emp.department || t("common.unknown")})
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground">
-          Select an existing employee to automatically fill their information
+          {t("settings.users.selectEmployeeHint")}
         </p>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="employeeId">Employee ID - رقم الموظف</Label>
+          <Label htmlFor="employeeId">{t("settings.users.employeeId")}</Label>
           <Input
             id="employeeId"
             value={selectedEmployeeId ? selectedEmployeeId : ""}
             disabled
-            placeholder="Auto-filled"
+            placeholder={t("settings.users.autoFilled")}
             className="bg-muted"
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="name">Full Name - الاسم الكامل</Label>
+          <Label htmlFor="name">{t("settings.users.fullName")}</Label>
           <Input
             id="name"
             value={name}
@@ -2753,7 +2671,7 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="email">Email - البريد الإلكتروني</Label>
+          <Label htmlFor="email">{t("common.email")}</Label>
           <Input
             id="email"
             type="email"
@@ -2765,7 +2683,7 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="phone">Phone - الهاتف</Label>
+          <Label htmlFor="phone">{t("common.phone")}</Label>
           <Input
             id="phone"
             value={phone}
@@ -2778,7 +2696,7 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="department">Department - القسم</Label>
+          <Label htmlFor="department">{t("settings.users.department")}</Label>
           <Input
             id="department"
             value={department}
@@ -2788,7 +2706,7 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="position">Position - المنصب</Label>
+          <Label htmlFor="position">{t("settings.users.position")}</Label>
           <Input
             id="position"
             value={position}
@@ -2800,10 +2718,10 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="role">System Role - صلاحيات النظام</Label>
+        <Label htmlFor="role">{t("settings.users.systemRole")}</Label>
         <Select value={roleId} onValueChange={setRoleId} required>
           <SelectTrigger>
-            <SelectValue placeholder="Select system role..." />
+            <SelectValue placeholder={t("settings.users.systemRolePlaceholder")} />
           </SelectTrigger>
           <SelectContent>
             {roles.map((r) => (
@@ -2814,37 +2732,37 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground">
-          System role determines what the user can access in the system
+          {t("settings.users.systemRoleHint")}
         </p>
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="password">Password - كلمة المرور</Label>
+        <Label htmlFor="password">{t("settings.users.password")}</Label>
         <Input
           id="password"
           type="password"
           value={password}
           onChange={(e) => setPassword(e.target.value)}
           required
-          placeholder="Enter secure password"
+          placeholder={t("settings.users.passwordPlaceholder")}
         />
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="confirmPassword">Confirm Password - تأكيد كلمة المرور</Label>
+        <Label htmlFor="confirmPassword">{t("settings.users.confirmPassword")}</Label>
         <Input
           id="confirmPassword"
           type="password"
           value={confirmPassword}
           onChange={(e) => setConfirmPassword(e.target.value)}
           required
-          placeholder="Re-enter password"
+          placeholder={t("settings.users.reenterPassword")}
         />
       </div>
 
       <DialogFooter>
         <Button type="submit" disabled={!selectedEmployeeId || !roleId} className="bg-purple-600 hover:bg-purple-700 text-white">
-          Create User Account
+          {t("settings.users.create")}
         </Button>
       </DialogFooter>
     </form>
@@ -2852,6 +2770,7 @@ function AddUserForm({ onSubmit, roles, employees }: { onSubmit: (data: AddUserF
 }
 
 function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues) => void; roles: NormalizedRole[] }) {
+  const { t } = useLocale();
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [emailError, setEmailError] = useState("");
@@ -2883,7 +2802,7 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
   const handleEmailBlur = () => {
     const trimmedEmail = email.trim();
     if (trimmedEmail && !validateEmail(trimmedEmail)) {
-      const errorMsg = "البريد الإلكتروني غير صحيح / Invalid email format";
+      const errorMsg = t("settings.invalidEmail");
       setEmailError(errorMsg);
       toast.error(errorMsg);
     } else {
@@ -2897,47 +2816,47 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
     // Validate email
     const trimmedEmail = email.trim();
     if (!trimmedEmail) {
-      const errorMsg = "يرجى إدخال البريد الإلكتروني / Please enter your email";
+      const errorMsg = t("settings.emailRequired");
       setEmailError(errorMsg);
       toast.error(errorMsg);
       return;
     }
     
     if (!validateEmail(trimmedEmail)) {
-      const errorMsg = "البريد الإلكتروني غير صحيح / Invalid email format";
+      const errorMsg = t("settings.invalidEmail");
       setEmailError(errorMsg);
       toast.error(errorMsg);
       return;
     }
 
     if (!name.trim()) {
-      toast.error("Name is required");
+      toast.error(t("settings.nameRequired"));
       return;
     }
 
     if (!roleId) {
-      toast.error("Select a super admin role");
+      toast.error(t("settings.selectSuperAdminRole"));
       return;
     }
 
     const selectedRole = adminRoles.find((r) => r.role_id === roleId);
     if (!selectedRole) {
-      toast.error("Selected role is not a super admin role");
+      toast.error(t("settings.roleNotSuperAdmin"));
       return;
     }
 
     if (!password) {
-      toast.error("Password is required");
+      toast.error(t("settings.passwordRequired"));
       return;
     }
 
     if (password.length < 8) {
-      toast.error("Password must be at least 8 characters long");
+      toast.error(t("settings.passwordTooShort"));
       return;
     }
 
     if (password !== confirmPassword) {
-      toast.error("Passwords do not match");
+      toast.error(t("settings.passwordMismatch"));
       return;
     }
 
@@ -2961,10 +2880,10 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
           <Shield className="h-5 w-5 text-purple-600 dark:text-purple-400 flex-shrink-0 mt-0.5" />
           <div className="space-y-1">
             <p className="text-sm font-medium text-purple-900 dark:text-purple-100">
-              Create Super Administrator Account
+              {t("settings.admin.formTitle")}
             </p>
             <p className="text-xs text-purple-700 dark:text-purple-300">
-              Create a new administrator account with full system access. Admin accounts are not required to be linked to employee records.
+              {t("settings.admin.formHint")}
             </p>
           </div>
         </div>
@@ -2973,24 +2892,24 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
       {adminRoles.length === 0 && (
         <div className="rounded-lg bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 p-4">
           <p className="text-sm text-yellow-900 dark:text-yellow-100">
-            ⚠ No super admin roles found. Please create a role with full access permissions first.
+            {t("settings.admin.noRoles")}
           </p>
         </div>
       )}
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="adminName">Full Name - الاسم الكامل *</Label>
+          <Label htmlFor="adminName">{t("settings.users.fullNameRequired")}</Label>
           <Input
             id="adminName"
             value={name}
             onChange={(e) => setName(e.target.value)}
             required
-            placeholder="Enter full name"
+            placeholder={t("settings.admin.namePlaceholder")}
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="adminEmail">Email - البريد الإلكتروني *</Label>
+          <Label htmlFor="adminEmail">{t("settings.users.emailRequired")}</Label>
           <Input
             id="adminEmail"
             type="email"
@@ -3011,7 +2930,7 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="adminPhone">Phone - الهاتف (Optional)</Label>
+        <Label htmlFor="adminPhone">{t("settings.users.phoneOptional")}</Label>
         <Input
           id="adminPhone"
           value={phone}
@@ -3021,49 +2940,49 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="adminRole">Super Admin Role - صلاحيات المسؤول *</Label>
+        <Label htmlFor="adminRole">{t("settings.admin.role")}</Label>
         <Select value={roleId} onValueChange={setRoleId} required disabled={adminRoles.length === 0}>
           <SelectTrigger>
-            <SelectValue placeholder="Select super admin role..." />
+            <SelectValue placeholder={t("settings.admin.rolePlaceholder")} />
           </SelectTrigger>
           <SelectContent>
             {adminRoles.map((r) => (
               <SelectItem key={r.role_id} value={r.role_id}>
-                {r.role_name} (Full Access)
+                {t("settings.admin.roleOption", { name: r.role_name })}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground">
-          Only roles with full system access are available for admin accounts
+          {t("settings.admin.roleHint")}
         </p>
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="adminPassword">Password - كلمة المرور *</Label>
+        <Label htmlFor="adminPassword">{t("settings.users.passwordRequired")}</Label>
         <Input
           id="adminPassword"
           type="password"
           value={password}
           onChange={(e) => setPassword(e.target.value)}
           required
-          placeholder="Enter secure password (min 8 characters)"
+          placeholder={t("settings.admin.passwordPlaceholder")}
           minLength={8}
         />
         <p className="text-xs text-muted-foreground">
-          Password must be at least 8 characters long
+          {t("settings.passwordTooShort")}
         </p>
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="adminConfirmPassword">Confirm Password - تأكيد كلمة المرور *</Label>
+        <Label htmlFor="adminConfirmPassword">{t("settings.users.confirmPasswordRequired")}</Label>
         <Input
           id="adminConfirmPassword"
           type="password"
           value={confirmPassword}
           onChange={(e) => setConfirmPassword(e.target.value)}
           required
-          placeholder="Re-enter password"
+          placeholder={t("settings.users.reenterPassword")}
         />
       </div>
 
@@ -3073,8 +2992,8 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
           disabled={!name.trim() || !email.trim() || !roleId || !password || adminRoles.length === 0} 
           className="bg-purple-600 hover:bg-purple-700 text-white"
         >
-          <Shield className="h-4 w-4 mr-2" />
-          Create Admin Account
+          <Shield className="h-4 w-4 me-2" />
+          {t("settings.admin.createAccount")}
         </Button>
       </DialogFooter>
     </form>
@@ -3082,8 +3001,10 @@ function AddAdminForm({ onSubmit, roles }: { onSubmit: (data: AddUserFormValues)
 }
 
 function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleFormValues) => void; existingRoles: NormalizedRole[] }) {
+  const { t } = useLocale();
   const [name, setName] = useState("");
   const [grantAll, setGrantAll] = useState(false);
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
   const [selectedPermissions, setSelectedPermissions] = useState<PermissionMap>(() => ({} as PermissionMap));
 
   const categories = useMemo(
@@ -3105,7 +3026,7 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
-      toast.error("Role name is required");
+      toast.error(t("settings.roleNameRequired"));
       return;
     }
 
@@ -3114,12 +3035,12 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
       (role) => role.role_name.toLowerCase() === trimmedName.toLowerCase(),
     );
     if (duplicate) {
-      toast.error("Role name already exists. Please choose another name.");
+      toast.error(t("settings.roleNameExists"));
       return;
     }
 
     if (!grantAll && Object.keys(selectedPermissions).length === 0) {
-      toast.error("Select at least one permission or enable full access");
+      toast.error(t("settings.selectPermission"));
       return;
     }
 
@@ -3130,6 +3051,7 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
     onSubmit({
       role_name: trimmedName,
       permissions: permissionsPayload,
+      require_two_factor: requireTwoFactor,
     });
   };
 
@@ -3175,12 +3097,12 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
-        <Label htmlFor="roleName">Role Name</Label>
+        <Label htmlFor="roleName">{t("settings.roles.name")}</Label>
         <Input
           id="roleName"
           value={name}
           onChange={(e) => setName(e.target.value)}
-          placeholder="e.g., Sales Manager"
+          placeholder={t("settings.roles.namePlaceholder")}
           required
         />
       </div>
@@ -3188,9 +3110,9 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
       <div className="rounded-lg border bg-purple-50/40 p-4 space-y-2">
         <div className="flex items-center justify-between gap-3">
           <div>
-            <p className="text-sm font-medium text-purple-900">Full Access</p>
+            <p className="text-sm font-medium text-purple-900">{t("settings.roles.fullAccess")}</p>
             <p className="text-xs text-purple-700">
-              Grant full access to all modules and actions in the system
+              {t("settings.roles.fullAccessHint")}
             </p>
           </div>
           <Switch
@@ -3203,16 +3125,25 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
             }}
           />
         </div>
+        <div className="flex items-center justify-between gap-3 border-t border-purple-100 pt-2">
+          <div>
+            <p className="text-sm font-medium text-purple-900">{t("settings.roles.requireTwoFactor")}</p>
+            <p className="text-xs text-purple-700">
+              {t("settings.roles.requireTwoFactorHint")}
+            </p>
+          </div>
+          <Switch checked={requireTwoFactor} onCheckedChange={setRequireTwoFactor} />
+        </div>
       </div>
 
       <div className="space-y-3">
-        <Label>Module Permissions</Label>
+        <Label>{t("settings.roles.modulePermissions")}</Label>
         <div className="border rounded-lg p-4 max-h-96 overflow-y-auto space-y-4 bg-gray-50/50">
           {categories.map((category) => {
             const areas = ACCESS_AREAS.filter((area) => area.category === category);
             return (
               <div key={category} className="space-y-2">
-                <h4 className="font-medium text-sm text-purple-600">{category}</h4>
+                <h4 className="font-medium text-sm text-purple-600">{ACCESS_CATEGORY_KEYS[category] ? t(ACCESS_CATEGORY_KEYS[category]) : category}</h4>
                 <div className="space-y-3">
                   {areas.map((area) => {
                     const hasAll = areaHasAllActions(area.id);
@@ -3225,7 +3156,7 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
                       >
                         <div className="flex items-start justify-between gap-2">
                           <div>
-                            <p className="text-sm font-semibold text-foreground">{area.label}</p>
+                            <p className="text-sm font-semibold text-foreground">{t(`page.${area.id}`)}</p>
                             {area.description && (
                               <p className="text-xs text-muted-foreground mt-0.5">
                                 {area.description}
@@ -3240,13 +3171,13 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
                           >
                             {hasAll ? (
                               <>
-                                <CheckSquare className="h-4 w-4 mr-2" />
-                                All actions
+                                <CheckSquare className="h-4 w-4 me-2" />
+                                {t("settings.roles.allActions")}
                               </>
                             ) : (
                               <>
-                                <Square className="h-4 w-4 mr-2" />
-                                Select all
+                                <Square className="h-4 w-4 me-2" />
+                                {t("settings.roles.selectAll")}
                               </>
                             )}
                           </Button>
@@ -3266,7 +3197,7 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
                                 }`}
                                 disabled={grantAll}
                               >
-                                <span className="capitalize">{action}</span>
+                                <span>{t(ACCESS_ACTION_KEYS[action])}</span>
                                 {selected ? (
                                   <CheckSquare className="h-4 w-4 text-purple-600" />
                                 ) : (
@@ -3291,7 +3222,7 @@ function AddRoleForm({ onSubmit, existingRoles }: { onSubmit: (data: AddRoleForm
           type="submit"
           className="bg-purple-600 hover:bg-purple-700 text-white"
         >
-          Create Role
+          {t("settings.roles.create")}
         </Button>
       </DialogFooter>
     </form>
@@ -3317,8 +3248,10 @@ function EditRoleForm({
   onSubmit: (data: AddRoleFormValues) => void;
   onCancel: () => void;
 }) {
+  const { t } = useLocale();
   const [name, setName] = useState(role.role_name);
   const [grantAll, setGrantAll] = useState(role.resolvedPermissions === "all");
+  const [requireTwoFactor, setRequireTwoFactor] = useState(role.require_two_factor === true);
   const [selectedPermissions, setSelectedPermissions] = useState<PermissionMap>(() => {
     if (role.resolvedPermissions === "all") {
       return {} as PermissionMap;
@@ -3329,6 +3262,7 @@ function EditRoleForm({
   useEffect(() => {
     setName(role.role_name);
     setGrantAll(role.resolvedPermissions === "all");
+    setRequireTwoFactor(role.require_two_factor === true);
     setSelectedPermissions(() => {
       if (role.resolvedPermissions === "all") {
         return {} as PermissionMap;
@@ -3346,7 +3280,7 @@ function EditRoleForm({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
-      toast.error("Role name is required");
+      toast.error(t("settings.roleNameRequired"));
       return;
     }
     const trimmedName = name.trim();
@@ -3356,7 +3290,7 @@ function EditRoleForm({
         existing.role_name.toLowerCase() === trimmedName.toLowerCase(),
     );
     if (duplicate) {
-      toast.error("Role name already exists. Please choose another name.");
+      toast.error(t("settings.roleNameExists"));
       return;
     }
 
@@ -3367,6 +3301,7 @@ function EditRoleForm({
     onSubmit({
       role_name: trimmedName,
       permissions: payloadPermissions,
+      require_two_factor: requireTwoFactor,
     });
   };
 
@@ -3422,12 +3357,12 @@ function EditRoleForm({
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
-        <Label htmlFor="editRoleName">Role Name</Label>
+        <Label htmlFor="editRoleName">{t("settings.roles.name")}</Label>
         <Input
           id="editRoleName"
           value={name}
           onChange={(e) => setName(e.target.value)}
-          placeholder="Role name"
+          placeholder={t("settings.roles.name")}
           required
         />
       </div>
@@ -3435,9 +3370,9 @@ function EditRoleForm({
       <div className="rounded-lg border bg-purple-50/40 p-4 space-y-2">
         <div className="flex items-center justify-between gap-3">
           <div>
-            <p className="text-sm font-medium text-purple-900">Full Access</p>
+            <p className="text-sm font-medium text-purple-900">{t("settings.roles.fullAccess")}</p>
             <p className="text-xs text-purple-700">
-              Grant full access to all modules and actions in the system
+              {t("settings.roles.fullAccessHint")}
             </p>
           </div>
           <Switch
@@ -3450,16 +3385,25 @@ function EditRoleForm({
             }}
           />
         </div>
+        <div className="flex items-center justify-between gap-3 border-t border-purple-100 pt-2">
+          <div>
+            <p className="text-sm font-medium text-purple-900">{t("settings.roles.requireTwoFactor")}</p>
+            <p className="text-xs text-purple-700">
+              {t("settings.roles.requireTwoFactorHint")}
+            </p>
+          </div>
+          <Switch checked={requireTwoFactor} onCheckedChange={setRequireTwoFactor} />
+        </div>
       </div>
 
       <div className="space-y-3">
-        <Label>Module Permissions</Label>
+        <Label>{t("settings.roles.modulePermissions")}</Label>
         <div className="border rounded-lg p-4 max-h-96 overflow-y-auto space-y-4 bg-gray-50/50">
           {categories.map((category) => {
             const areas = ACCESS_AREAS.filter((area) => area.category === category);
             return (
               <div key={category} className="space-y-2">
-                <h4 className="text-sm font-medium text-purple-600">{category}</h4>
+                <h4 className="text-sm font-medium text-purple-600">{ACCESS_CATEGORY_KEYS[category] ? t(ACCESS_CATEGORY_KEYS[category]) : category}</h4>
                 <div className="space-y-3">
                   {areas.map((area) => {
                     const hasAll = areaHasAllActions(area.id);
@@ -3472,7 +3416,7 @@ function EditRoleForm({
                       >
                         <div className="flex items-start justify-between gap-2">
                           <div>
-                            <p className="text-sm font-semibold text-foreground">{area.label}</p>
+                            <p className="text-sm font-semibold text-foreground">{t(`page.${area.id}`)}</p>
                             {area.description && (
                               <p className="text-xs text-muted-foreground mt-0.5">
                                 {area.description}
@@ -3487,13 +3431,13 @@ function EditRoleForm({
                           >
                             {hasAll ? (
                               <>
-                                <CheckSquare className="h-4 w-4 mr-2" />
-                                All actions
+                                <CheckSquare className="h-4 w-4 me-2" />
+                                {t("settings.roles.allActions")}
                               </>
                             ) : (
                               <>
-                                <Square className="h-4 w-4 mr-2" />
-                                Select all
+                                <Square className="h-4 w-4 me-2" />
+                                {t("settings.roles.selectAll")}
                               </>
                             )}
                           </Button>
@@ -3513,7 +3457,7 @@ function EditRoleForm({
                                 }`}
                                 disabled={grantAll}
                               >
-                                <span className="capitalize">{action}</span>
+                                <span>{t(ACCESS_ACTION_KEYS[action])}</span>
                                 {selected ? (
                                   <CheckSquare className="h-4 w-4 text-purple-600" />
                                 ) : (
@@ -3535,10 +3479,10 @@ function EditRoleForm({
 
       <DialogFooter>
         <Button type="button" variant="outline" onClick={onCancel}>
-          Cancel
+          {t("common.cancel")}
         </Button>
         <Button type="submit" className="bg-purple-600 hover:bg-purple-700 text-white">
-          Save Changes
+          {t("common.saveChanges")}
         </Button>
       </DialogFooter>
     </form>
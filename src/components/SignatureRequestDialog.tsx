@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive, Copy, Link, Mail, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  archiveSignedDocument,
+  createSignatureRequest,
+  fetchSignatureRequests,
+  type CreatedSignatureRequest,
+} from "../lib/documentSigning";
+import { useLocale } from "../lib/i18n";
+import type { SignatureDocumentType, SignatureRequestStatus } from "../../supabase/models/document_signature_requests";
+
+interface SignatureRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentType: SignatureDocumentType;
+  documentId: string;
+  documentNumber: string;
+  recipient: { name: string; phone?: string | null; email?: string | null };
+  // Renders the document exactly as the customer should see and sign it
+  buildDocumentHtml: () => Promise<string>;
+}
+
+const STATUS_STYLES: Record<SignatureRequestStatus, string> = {
+  pending: "bg-blue-100 text-blue-700",
+  signed: "bg-green-100 text-green-700",
+  expired: "bg-gray-100 text-gray-700",
+  revoked: "bg-red-100 text-red-700",
+};
+
+const EXPIRY_OPTIONS = ["3", "7", "14", "30"];
+
+/**
+ * Send a contract or quotation to the customer for e-signature and follow its signing links
+ */
+export function SignatureRequestDialog({
+  open,
+  onOpenChange,
+  documentType,
+  documentId,
+  documentNumber,
+  recipient,
+  buildDocumentHtml,
+}: SignatureRequestDialogProps) {
+  const queryClient = useQueryClient();
+  const { t, formatDateTime } = useLocale();
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [created, setCreated] = useState<CreatedSignatureRequest | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
+
+  const queryKey = ["document_signature_requests", documentType, documentId];
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => fetchSignatureRequests(documentType, documentId),
+    enabled: open && !!documentId,
+  });
+
+  useEffect(() => {
+    if (open) setCreated(null);
+  }, [open, documentId]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const request = await createSignatureRequest({
+        documentType,
+        documentId,
+        documentNumber,
+        documentHtml: await buildDocumentHtml(),
+        expiresInDays: Number(expiresInDays),
+      });
+      setCreated(request);
+      queryClient.invalidateQueries({ queryKey });
+      toast.success(t("signature.linkCreated"));
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("signature.createFailed"));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const message = (url: string) =>
+    `Hello ${recipient.name},\n\nPlease review and sign ${documentNumber} here:\n${url}\n\nBest regards,\nMana Smart Trading Company`;
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t("signature.linkCopied"));
+    } catch {
+      toast.error(t("signature.copyFailed"));
+    }
+  };
+
+  const handleWhatsApp = (url: string) => {
+    const phone = recipient.phone?.replace(/\D/g, "") ?? "";
+    window.open(`https://wa.me/${phone}?text=${encodeURIComponent(message(url))}`, "_blank");
+  };
+
+  const handleEmail = (url: string) => {
+    const subject = `Please sign ${documentNumber}`;
+    window.open(`mailto:${recipient.email ?? ""}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message(url))}`);
+  };
+
+  const handleArchive = async (requestId: string) => {
+    setArchivingId(requestId);
+    try {
+      await archiveSignedDocument(requestId);
+      queryClient.invalidateQueries({ queryKey });
+      toast.success(t("signature.archived"));
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || t("signature.archiveFailed"));
+    } finally {
+      setArchivingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("signature.title", { number: documentNumber })}</DialogTitle>
+          <DialogDescription>{t("signature.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label>{t("signature.validFor")}</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={days}>
+                      {t("quotations.days", { count: days })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="gap-2" onClick={() => void handleCreate()} disabled={isCreating}>
+              <Link className="h-4 w-4" />
+              {isCreating ? t("invoices.creating") : t("signature.create")}
+            </Button>
+          </div>
+
+          {created && (
+            <div className="space-y-2 rounded-md border bg-muted/40 p-3">
+              <Input readOnly value={created.url} onFocus={(event) => event.target.select()} />
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" className="gap-1" onClick={() => void handleCopy(created.url)}>
+                  <Copy className="h-4 w-4" />
+                  {t("signature.copy")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => handleWhatsApp(created.url)}
+                  disabled={!recipient.phone}
+                >
+                  <MessageSquare className="h-4 w-4" />
+                  WhatsApp
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => handleEmail(created.url)}
+                  disabled={!recipient.email}
+                >
+                  <Mail className="h-4 w-4" />
+                  {t("common.email")}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t("signature.createdHint", { date: formatDateTime(created.expires_at) })}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t("signature.links")}</Label>
+            <ScrollArea className="max-h-80">
+              <div className="space-y-2">
+                {isLoading ? (
+                  <p className="py-4 text-center text-sm text-muted-foreground">{t("common.loading")}</p>
+                ) : requests.length === 0 ? (
+                  <p className="py-4 text-center text-sm text-muted-foreground">{t("signature.empty")}</p>
+                ) : (
+                  requests.map((request) => (
+                    <div key={request.request_id} className="space-y-2 rounded-md border p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <Badge className={STATUS_STYLES[request.status]}>{t(`status.${request.status}`)}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {t("signature.createdAt", { date: formatDateTime(request.created_at) })}
+                          {request.status === "pending" && ` · ${t("signature.expiresAt", { date: formatDateTime(request.expires_at) })}`}
+                          {request.viewed_at && ` · ${t("signature.openedAt", { date: formatDateTime(request.viewed_at) })}`}
+                        </span>
+                      </div>
+                      {request.status === "signed" && (
+                        <div className="flex gap-3">
+                          {request.signature_image && (
+                            <img
+                              src={request.signature_image}
+                              alt={t("signature.signatureOf", { name: request.signer_name ?? "" })}
+                              className="h-16 w-40 rounded border bg-white object-contain"
+                            />
+                          )}
+                          <div className="min-w-0 flex-1 space-y-1 text-xs">
+                            <p>
+                              {t("signature.signedBy", { name: request.signer_name ?? "", date: formatDateTime(request.signed_at) })}
+                            </p>
+                            <p className="text-muted-foreground">{t("signature.ipAddress", { ip: request.signer_ip ?? t("common.unknown") })}</p>
+                            <p className="break-all font-mono text-muted-foreground">SHA-256: {request.document_hash}</p>
+                            {request.signed_file_id ? (
+                              <p className="text-green-700">{t("signature.archivedHint")}</p>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 gap-1 px-2 text-xs"
+                                onClick={() => void handleArchive(request.request_id)}
+                                disabled={archivingId === request.request_id}
+                              >
+                                <Archive className="h-3 w-3" />
+                                {t("signature.archive")}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { toast } from "sonner";
+import { useLocale } from "../lib/i18n";
 
 export interface Supplier {
   id: number;
@@ -36,10 +37,11 @@ export function SupplierSelector({
   selectedSupplierId,
   onSupplierSelect,
   onSupplierAdd,
-  label = "Supplier",
-  placeholder = "Search supplier...",
+  label,
+  placeholder,
   required = false
 }: SupplierSelectorProps) {
+  const { t } = useLocale();
   const [open, setOpen] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
 
@@ -53,7 +55,7 @@ export function SupplierSelector({
 
   const handleAddNewSupplier = () => {
     if (!newSupplierName.trim()) {
-      toast.error("Please enter supplier name");
+      toast.error(t("selector.supplierNameRequired"));
       return;
     }
 
@@ -79,7 +81,7 @@ export function SupplierSelector({
   return (
     <div className="space-y-2">
       <Label>
-        {label} {required && <span className="text-destructive">*</span>}
+        {label ?? t("selector.supplier")} {required && <span className="text-destructive">*</span>}
       </Label>
 
       <div className="flex gap-2">
@@ -99,16 +101,16 @@ export function SupplierSelector({
                   )}
                 </div>
               ) : (
-                <span className="text-muted-foreground truncate">{placeholder}</span>
+                <span className="text-muted-foreground truncate">{placeholder ?? t("selector.supplierSearch")}</span>
               )}
-              <Search className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+              <Search className="ms-2 h-4 w-4 shrink-0 opacity-50" />
             </Button>
           </PopoverTrigger>
           <PopoverContent className="w-[350px] p-0" align="start">
             <Command>
-              <CommandInput placeholder="Search by name or mobile..." />
+              <CommandInput placeholder={t("selector.supplierSearchHint")} />
               <CommandList>
-                <CommandEmpty>No supplier found.</CommandEmpty>
+                <CommandEmpty>{t("selector.supplierEmpty")}</CommandEmpty>
                 <CommandGroup>
                   {suppliers.map((supplier) => (
                     <CommandItem
@@ -140,7 +142,7 @@ export function SupplierSelector({
             variant="outline"
             size="icon"
             onClick={() => onSupplierSelect({} as Supplier)}
-            title="Clear selection"
+            title={t("selector.clear")}
             className="shrink-0"
           >
             <X className="h-4 w-4" />
@@ -152,7 +154,7 @@ export function SupplierSelector({
             <Button 
               variant="default" 
               size="icon" 
-              title="Add new supplier"
+              title={t("selector.supplierAdd")}
               className="shrink-0 bg-green-600 hover:bg-green-700"
             >
               <Plus className="h-4 w-4" />
@@ -160,27 +162,27 @@ export function SupplierSelector({
           </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Add New Supplier</DialogTitle>
+              <DialogTitle>{t("selector.supplierAddTitle")}</DialogTitle>
               <DialogDescription>
-                Quickly add a new supplier without leaving this page
+                {t("selector.supplierAddDescription")}
               </DialogDescription>
             </DialogHeader>
 
             <div className="grid grid-cols-2 gap-4 py-4">
               <div className="space-y-2">
                 <Label htmlFor="newSupplierName">
-                  Supplier Name <span className="text-destructive">*</span>
+                  {t("selector.supplierName")} <span className="text-destructive">*</span>
                 </Label>
                 <Input
                   id="newSupplierName"
                   value={newSupplierName}
                   onChange={(e) => setNewSupplierName(e.target.value)}
-                  placeholder="Aroma Scents International"
+                  placeholder={t("selector.supplierNamePlaceholder")}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="newSupplierMobile">Mobile</Label>
+                <Label htmlFor="newSupplierMobile">{t("customers.mobileShort")}</Label>
                 <Input
                   id="newSupplierMobile"
                   value={newSupplierMobile}
@@ -190,7 +192,7 @@ export function SupplierSelector({
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="newSupplierEmail">Email</Label>
+                <Label htmlFor="newSupplierEmail">{t("common.email")}</Label>
                 <Input
                   id="newSupplierEmail"
                   type="email"
@@ -201,23 +203,23 @@ export function SupplierSelector({
               </div>
 
               <div className="col-span-2 space-y-2">
-                <Label htmlFor="newSupplierLocation">Location</Label>
+                <Label htmlFor="newSupplierLocation">{t("customers.location")}</Label>
                 <Input
                   id="newSupplierLocation"
                   value={newSupplierLocation}
                   onChange={(e) => setNewSupplierLocation(e.target.value)}
-                  placeholder="Riyadh, Al Malaz District"
+                  placeholder={t("selector.locationPlaceholder")}
                 />
               </div>
             </div>
 
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleAddNewSupplier}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Supplier
+                <Plus className="h-4 w-4 me-2" />
+                {t("selector.supplierAddButton")}
               </Button>
             </div>
           </DialogContent>
@@ -228,19 +230,19 @@ export function SupplierSelector({
         <div className="text-sm text-muted-foreground space-y-1 pt-2 border-t">
           {selectedSupplier.mobile && (
             <div className="flex items-center gap-2">
-              <span className="font-medium">Mobile:</span>
+              <span className="font-medium">{t("selector.mobileLabel")}</span>
               <span>{selectedSupplier.mobile}</span>
             </div>
           )}
           {selectedSupplier.email && (
             <div className="flex items-center gap-2">
-              <span className="font-medium">Email:</span>
+              <span className="font-medium">{t("selector.emailLabel")}</span>
               <span>{selectedSupplier.email}</span>
             </div>
           )}
           {selectedSupplier.location && (
             <div className="flex items-center gap-2">
-              <span className="font-medium">Location:</span>
+              <span className="font-medium">{t("selector.locationLabel")}</span>
               <span>{selectedSupplier.location}</span>
             </div>
           )}
@@ -3,6 +3,7 @@ import { Plus, Search, Edit, Trash2, Building2, DollarSign, FileText, Eye, Trend
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
 import { Button } from "./ui/button";
+import { ImportExcelButton } from "./ImportExcelButton";
 import { Input } from "./ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "./ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
@@ -18,6 +19,8 @@ import { ScrollArea } from "./ui/scroll-area";
 import type { Suppliers as SupplierRow } from "../../supabase/models/suppliers";
 import type { PurchaseOrders } from "../../supabase/models/purchase_orders";
 import type { PurchasePayments } from "../../supabase/models/purchase_payments";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface Supplier {
   id: number;
@@ -57,8 +60,35 @@ interface Payment {
   status: "pending" | "completed" | "cancelled";
 }
 
+const CATEGORY_KEYS: Record<Supplier["category"], MessageKey> = {
+  "raw-materials": "suppliers.category.rawMaterials",
+  packaging: "suppliers.category.packaging",
+  equipment: "suppliers.category.equipment",
+  services: "suppliers.category.services",
+  other: "suppliers.category.other",
+};
+
+const STATUS_KEYS: Record<Supplier["status"], MessageKey> = {
+  active: "status.active",
+  inactive: "status.inactive",
+  blocked: "suppliers.status.blocked",
+};
+
+const PAYMENT_METHOD_KEYS: Record<PaymentMethodCode, MessageKey> = {
+  cash: "purchases.method.cash",
+  "bank-transfer": "purchases.method.bankTransfer",
+  check: "purchases.method.check",
+  "credit-card": "purchases.method.creditCard",
+};
+
+const PAYMENT_STATUS_KEYS: Record<Payment["status"], MessageKey> = {
+  pending: "status.pending",
+  completed: "suppliers.paymentStatus.completed",
+  cancelled: "status.cancelled",
+};
 
 export function Suppliers() {
+  const { t, formatNumber, formatCurrency, formatDate, localizedName } = useLocale();
   const dispatch = useAppDispatch();
   const dbSuppliers = useAppSelector(selectors.suppliers.selectAll) as SupplierRow[];
   const suppliersLoading = useAppSelector(selectors.suppliers.selectLoading);
@@ -154,7 +184,9 @@ export function Suppliers() {
           id: payment.payment_id,
           paymentNumber: `PAY-${payment.payment_id.slice(0, 8).toUpperCase()}`,
           supplierId: payment.supplier_id ?? null,
-          supplierName: supplierInfo?.nameEn ?? "Unknown Supplier",
+          supplierName: supplierInfo
+            ? localizedName(supplierInfo.nameEn, supplierInfo.nameAr)
+            : t("suppliers.unknownSupplier"),
           amount: Number(payment.payment_amount ?? 0),
           paymentDate: payment.payment_date,
           paymentMethod: normalizePaymentMethod(payment.payment_method),
@@ -164,7 +196,7 @@ export function Suppliers() {
         };
       })
       .sort((a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime());
-  }, [dbPurchasePayments, suppliers]);
+  }, [dbPurchasePayments, suppliers, t, localizedName]);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
@@ -209,7 +241,7 @@ export function Suppliers() {
   const remainingBalanceColor =
     remainingBalance < 0 ? "text-red-600" : "text-green-600";
   const remainingBalanceLabel =
-    remainingBalance < 0 ? "Supplier Credit" : "Remaining Balance";
+    remainingBalance < 0 ? t("suppliers.supplierCredit") : t("suppliers.remainingBalance");
   const displayedBalance = Math.abs(remainingBalance);
 
   const handleQuickPaymentFill = (mode: "half" | "full") => {
@@ -248,7 +280,7 @@ export function Suppliers() {
 
   const handleAddSupplier = () => {
     if (!formData.nameEn || !formData.nameAr || !formData.phone) {
-      toast.error("Please fill all required fields");
+      toast.error(t("suppliers.requiredFields"));
       return;
     }
     const values: any = {
@@ -271,16 +303,16 @@ export function Suppliers() {
     dispatch(thunks.suppliers.createOne(values))
       .unwrap()
       .then(() => {
-        toast.success("Supplier added successfully");
+        toast.success(translateCurrent("suppliers.added"));
         setIsAddDialogOpen(false);
         resetForm();
       })
-      .catch((e: any) => toast.error(e.message || 'Failed to add supplier'));
+      .catch((e: any) => toast.error(e.message || translateCurrent("suppliers.addFailed")));
   };
 
   const handleEditSupplier = () => {
     if (!editingSupplier?.dbId || !formData.nameEn || !formData.nameAr || !formData.phone) {
-      toast.error("Please fill all required fields");
+      toast.error(t("suppliers.requiredFields"));
       return;
     }
     const values: any = {
@@ -303,34 +335,34 @@ export function Suppliers() {
     dispatch(thunks.suppliers.updateOne({ id: editingSupplier.dbId, values }))
       .unwrap()
       .then(() => {
-        toast.success("Supplier updated successfully");
+        toast.success(translateCurrent("suppliers.updated"));
         setIsAddDialogOpen(false);
         setEditingSupplier(null);
         resetForm();
       })
-      .catch((e: any) => toast.error(e.message || 'Failed to update supplier'));
+      .catch((e: any) => toast.error(e.message || translateCurrent("suppliers.updateFailed")));
   };
 
   const handleDeleteSupplier = (id: number) => {
     const target = suppliers.find(s => s.id === id);
     if (!target?.dbId) return;
-    if (confirm("Are you sure you want to delete this supplier?")) {
+    if (confirm(t("suppliers.deleteConfirm"))) {
       dispatch(thunks.suppliers.deleteOne(target.dbId))
         .unwrap()
-        .then(() => toast.success("Supplier deleted successfully"))
-        .catch((e: any) => toast.error(e.message || 'Failed to delete'));
+        .then(() => toast.success(translateCurrent("suppliers.deleted")))
+        .catch((e: any) => toast.error(e.message || translateCurrent("suppliers.deleteFailed")));
     }
   };
 
   const handleAddPayment = async () => {
     if (!paymentForm.supplierId || !paymentForm.amount || !paymentForm.referenceNumber) {
-      toast.error("Please fill all required fields");
+      toast.error(t("suppliers.requiredFields"));
       return;
     }
 
     const supplier = suppliers.find((item) => item.dbId === paymentForm.supplierId);
     if (!supplier) {
-      toast.error("Supplier not found");
+      toast.error(t("suppliers.notFound"));
       return;
     }
 
@@ -391,7 +423,7 @@ export function Suppliers() {
         })
       ).unwrap();
 
-    toast.success("Payment recorded successfully");
+    toast.success(translateCurrent("suppliers.paymentRecorded"));
     setIsPaymentDialogOpen(false);
     setPaymentForm({
         supplierId: "",
@@ -402,7 +434,7 @@ export function Suppliers() {
         description: "",
     });
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to record payment");
+      toast.error(error?.message ?? translateCurrent("suppliers.paymentFailed"));
     }
   };
 
@@ -448,25 +480,11 @@ export function Suppliers() {
   };
 
   const getCategoryLabel = (category: string) => {
-    const labels: Record<string, string> = {
-      "raw-materials": "Raw Materials",
-      "packaging": "Packaging",
-      "equipment": "Equipment",
-      "services": "Services",
-      "other": "Other"
-    };
-    return labels[category] || category;
+    const key = CATEGORY_KEYS[category as Supplier["category"]];
+    return key ? t(key) : category;
   };
 
-  const getPaymentMethodLabel = (method: PaymentMethodCode) => {
-    const labels: Record<PaymentMethodCode, string> = {
-      cash: "Cash",
-      "bank-transfer": "Bank Transfer",
-      check: "Check",
-      "credit-card": "Credit Card",
-    };
-    return labels[method];
-  };
+  const getPaymentMethodLabel = (method: PaymentMethodCode) => t(PAYMENT_METHOD_KEYS[method]);
 
   const getSupplierPayments = (supplierId: string) => {
     return payments.filter(p => p.supplierId === supplierId);
@@ -506,9 +524,9 @@ export function Suppliers() {
       XLSX.utils.book_append_sheet(wb, ws, "Suppliers");
       const fileName = `suppliers_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -516,64 +534,64 @@ export function Suppliers() {
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="text-2xl font-semibold tracking-tight">Suppliers Management</h2>
-        <p className="text-muted-foreground mt-1">Manage suppliers and track payments</p>
+        <h2 className="text-2xl font-semibold tracking-tight">{t("suppliers.title")}</h2>
+        <p className="text-muted-foreground mt-1">{t("suppliers.subtitle")}</p>
       </div>
 
       {/* Statistics Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Suppliers</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("suppliers.total")}</CardTitle>
             <Building2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalSuppliers}</div>
+            <div className="text-2xl font-bold">{formatNumber(totalSuppliers)}</div>
             <p className="text-xs text-muted-foreground">
-              {activeSuppliers} active
+              {t("suppliers.activeCount", { count: formatNumber(activeSuppliers) })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Payable</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("suppliers.totalPayable")}</CardTitle>
             <TrendingDown className="h-4 w-4 text-red-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">
-              {totalPayable.toLocaleString()} ر.س
+              {formatCurrency(totalPayable)}
             </div>
             <p className="text-xs text-muted-foreground">
-              Outstanding balance
+              {t("suppliers.outstandingBalance")}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Monthly Payments</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("suppliers.monthlyPayments")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {monthlyPayments.toLocaleString()} ر.س
+              {formatCurrency(monthlyPayments)}
             </div>
             <p className="text-xs text-muted-foreground">
-              This month
+              {t("suppliers.thisMonth")}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Payments</CardTitle>
+            <CardTitle className="text-sm font-medium">{t("suppliers.totalPayments")}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{payments.length}</div>
+            <div className="text-2xl font-bold">{formatNumber(payments.length)}</div>
             <p className="text-xs text-muted-foreground">
-              All time
+              {t("suppliers.allTime")}
             </p>
           </CardContent>
         </Card>
@@ -582,8 +600,8 @@ export function Suppliers() {
       {/* Main Content */}
       <Tabs defaultValue="suppliers" className="space-y-4">
         <TabsList>
-          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
-          <TabsTrigger value="payments">Payments</TabsTrigger>
+          <TabsTrigger value="suppliers">{t("suppliers.tabSuppliers")}</TabsTrigger>
+          <TabsTrigger value="payments">{t("suppliers.tabPayments")}</TabsTrigger>
         </TabsList>
 
         {/* Suppliers Tab */}
@@ -592,21 +610,22 @@ export function Suppliers() {
             <CardHeader>
               <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
                 <div>
-                  <CardTitle>Suppliers List</CardTitle>
-                  <CardDescription>View and manage all suppliers</CardDescription>
+                  <CardTitle>{t("suppliers.listTitle")}</CardTitle>
+                  <CardDescription>{t("suppliers.listDescription")}</CardDescription>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2">
                   <Button onClick={exportToExcel} variant="outline" className="gap-2">
                     <Download className="h-4 w-4" />
-                    Export Excel
+                    {t("common.exportExcel")}
                   </Button>
+                  <ImportExcelButton section="Suppliers" />
                   <Button onClick={() => { resetForm(); setIsAddDialogOpen(true); }} className="bg-purple-600 hover:bg-purple-700 text-white">
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Supplier
+                    <Plus className="me-2 h-4 w-4" />
+                    {t("suppliers.add")}
                   </Button>
                   <Button variant="outline" onClick={() => setIsPaymentDialogOpen(true)}>
-                    <DollarSign className="mr-2 h-4 w-4" />
-                    Add Payment
+                    <DollarSign className="me-2 h-4 w-4" />
+                    {t("suppliers.addPayment")}
                   </Button>
                 </div>
               </div>
@@ -615,54 +634,54 @@ export function Suppliers() {
               {/* Filters */}
               <div className="flex flex-col md:flex-row gap-4">
                 <div className="flex-1 relative">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search suppliers..."
+                    placeholder={t("suppliers.searchPlaceholder")}
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-9"
+                    className="ps-9"
                   />
                 </div>
                 <Select value={filterCategory} onValueChange={setFilterCategory}>
                   <SelectTrigger className="w-full md:w-[200px]">
-                    <SelectValue placeholder="Category" />
+                    <SelectValue placeholder={t("suppliers.category")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Categories</SelectItem>
-                    <SelectItem value="raw-materials">Raw Materials</SelectItem>
-                    <SelectItem value="packaging">Packaging</SelectItem>
-                    <SelectItem value="equipment">Equipment</SelectItem>
-                    <SelectItem value="services">Services</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="all">{t("suppliers.allCategories")}</SelectItem>
+                    <SelectItem value="raw-materials">{t("suppliers.category.rawMaterials")}</SelectItem>
+                    <SelectItem value="packaging">{t("suppliers.category.packaging")}</SelectItem>
+                    <SelectItem value="equipment">{t("suppliers.category.equipment")}</SelectItem>
+                    <SelectItem value="services">{t("suppliers.category.services")}</SelectItem>
+                    <SelectItem value="other">{t("suppliers.category.other")}</SelectItem>
                   </SelectContent>
                 </Select>
                 <Select value={filterStatus} onValueChange={setFilterStatus}>
                   <SelectTrigger className="w-full md:w-[180px]">
-                    <SelectValue placeholder="Status" />
+                    <SelectValue placeholder={t("common.status")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="inactive">Inactive</SelectItem>
-                    <SelectItem value="blocked">Blocked</SelectItem>
+                    <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                    <SelectItem value="active">{t("status.active")}</SelectItem>
+                    <SelectItem value="inactive">{t("status.inactive")}</SelectItem>
+                    <SelectItem value="blocked">{t("suppliers.status.blocked")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               {/* Table */}
-              {suppliersLoading && <div>Loading suppliers...</div>}
+              {suppliersLoading && <div>{t("suppliers.loading")}</div>}
               {suppliersError && <div className="text-red-500">{suppliersError}</div>}
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Code</TableHead>
-                      <TableHead>Supplier Name</TableHead>
-                      <TableHead>Contact</TableHead>
-                      <TableHead>Category</TableHead>
-                      <TableHead>Balance</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("suppliers.code")}</TableHead>
+                      <TableHead>{t("suppliers.name")}</TableHead>
+                      <TableHead>{t("suppliers.contact")}</TableHead>
+                      <TableHead>{t("suppliers.category")}</TableHead>
+                      <TableHead>{t("suppliers.balance")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -670,7 +689,7 @@ export function Suppliers() {
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-10 text-muted-foreground">
                       <User className="h-12 w-12 mx-auto mb-3 opacity-20" />
-                          No suppliers found
+                          {t("suppliers.empty")}
                         </TableCell>
                       </TableRow>
                       
@@ -696,10 +715,10 @@ export function Suppliers() {
                           <TableCell>
                             <div className="flex flex-col">
                               <span className={supplier.currentBalance < 0 ? "text-red-600 font-semibold" : "text-green-600 font-semibold"}>
-                                {Math.abs(supplier.currentBalance).toLocaleString()} ر.س
+                                {formatCurrency(Math.abs(supplier.currentBalance))}
                               </span>
                               <span className="text-xs text-muted-foreground">
-                                {supplier.currentBalance < 0 ? "Credit" : "Due"}
+                                {supplier.currentBalance < 0 ? t("suppliers.credit") : t("suppliers.due")}
                               </span>
                             </div>
                           </TableCell>
@@ -709,10 +728,10 @@ export function Suppliers() {
                               supplier.status === "inactive" ? "secondary" : 
                               "destructive"
                             }>
-                              {supplier.status}
+                              {t(STATUS_KEYS[supplier.status])}
                             </Badge>
                           </TableCell>
-                          <TableCell className="text-right">
+                          <TableCell className="text-end">
                             <div className="flex justify-end gap-2">
                               <Button
                                 variant="ghost"
@@ -756,36 +775,36 @@ export function Suppliers() {
             <CardHeader>
               <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
                 <div>
-                  <CardTitle>Payment History</CardTitle>
-                  <CardDescription>Track all supplier payments</CardDescription>
+                  <CardTitle>{t("suppliers.paymentHistory")}</CardTitle>
+                  <CardDescription>{t("suppliers.paymentHistoryDescription")}</CardDescription>
                 </div>
                 <Button onClick={() => setIsPaymentDialogOpen(true)}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Record Payment
+                  <Plus className="me-2 h-4 w-4" />
+                  {t("suppliers.recordPayment")}
                 </Button>
               </div>
             </CardHeader>
             <CardContent>
-              {purchasePaymentsLoading && <div>Loading payments...</div>}
+              {purchasePaymentsLoading && <div>{t("suppliers.loadingPayments")}</div>}
               {purchasePaymentsError && <div className="text-red-500">{purchasePaymentsError}</div>}
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Payment #</TableHead>
-                      <TableHead>Supplier</TableHead>
-                      <TableHead>Amount</TableHead>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Method</TableHead>
-                      <TableHead>Reference</TableHead>
-                      <TableHead>Status</TableHead>
+                      <TableHead>{t("suppliers.paymentNumber")}</TableHead>
+                      <TableHead>{t("suppliers.supplier")}</TableHead>
+                      <TableHead>{t("suppliers.amount")}</TableHead>
+                      <TableHead>{t("common.date")}</TableHead>
+                      <TableHead>{t("suppliers.method")}</TableHead>
+                      <TableHead>{t("suppliers.reference")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {payments.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                          No payments recorded
+                          {t("suppliers.noPayments")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -794,9 +813,9 @@ export function Suppliers() {
                           <TableCell className="font-medium">{payment.paymentNumber}</TableCell>
                           <TableCell>{payment.supplierName}</TableCell>
                           <TableCell className="font-medium">
-                            {payment.amount.toLocaleString()} ر.س
+                            {formatCurrency(payment.amount)}
                           </TableCell>
-                          <TableCell>{new Date(payment.paymentDate).toLocaleDateString('en-GB')}</TableCell>
+                          <TableCell>{formatDate(payment.paymentDate)}</TableCell>
                           <TableCell>
                             <Badge variant="outline">{getPaymentMethodLabel(payment.paymentMethod)}</Badge>
                           </TableCell>
@@ -807,7 +826,7 @@ export function Suppliers() {
                               payment.status === "pending" ? "secondary" :
                               "destructive"
                             }>
-                              {payment.status}
+                              {t(PAYMENT_STATUS_KEYS[payment.status])}
                             </Badge>
                           </TableCell>
                         </TableRow>
@@ -825,25 +844,25 @@ export function Suppliers() {
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh]">
           <DialogHeader>
-            <DialogTitle>{editingSupplier ? "Edit Supplier" : "Add New Supplier"}</DialogTitle>
+            <DialogTitle>{editingSupplier ? t("suppliers.editTitle") : t("suppliers.addTitle")}</DialogTitle>
             <DialogDescription>
-              {editingSupplier ? "Update supplier information" : "Enter supplier details"}
+              {editingSupplier ? t("suppliers.editDescription") : t("suppliers.addDescription")}
             </DialogDescription>
           </DialogHeader>
-          <ScrollArea className="max-h-[60vh] pr-4">
+          <ScrollArea className="max-h-[60vh] pe-4">
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="nameEn">Name (English) *</Label>
+                  <Label htmlFor="nameEn">{t("suppliers.nameEnRequired")}</Label>
                   <Input
                     id="nameEn"
                     value={formData.nameEn}
                     onChange={(e) => setFormData({ ...formData, nameEn: e.target.value })}
-                    placeholder="Supplier name in English"
+                    placeholder={t("suppliers.nameEnPlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="nameAr">Name (Arabic) *</Label>
+                  <Label htmlFor="nameAr">{t("suppliers.nameArRequired")}</Label>
                   <Input
                     id="nameAr"
                     value={formData.nameAr}
@@ -856,16 +875,16 @@ export function Suppliers() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="contactPerson">Contact Person</Label>
+                  <Label htmlFor="contactPerson">{t("suppliers.contactPerson")}</Label>
                   <Input
                     id="contactPerson"
                     value={formData.contactPerson}
                     onChange={(e) => setFormData({ ...formData, contactPerson: e.target.value })}
-                    placeholder="Contact person name"
+                    placeholder={t("suppliers.contactPersonPlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="phone">Phone *</Label>
+                  <Label htmlFor="phone">{t("suppliers.phoneRequired")}</Label>
                   <Input
                     id="phone"
                     value={formData.phone}
@@ -877,7 +896,7 @@ export function Suppliers() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
+                  <Label htmlFor="email">{t("common.email")}</Label>
                   <Input
                     id="email"
                     type="email"
@@ -887,7 +906,7 @@ export function Suppliers() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="taxNumber">Tax Number</Label>
+                  <Label htmlFor="taxNumber">{t("suppliers.taxNumber")}</Label>
                   <Input
                     id="taxNumber"
                     value={formData.taxNumber}
@@ -898,39 +917,39 @@ export function Suppliers() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="address">Address</Label>
+                <Label htmlFor="address">{t("suppliers.address")}</Label>
                 <Input
                   id="address"
                   value={formData.address}
                   onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                  placeholder="Street address"
+                  placeholder={t("suppliers.addressPlaceholder")}
                 />
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="city">City</Label>
+                  <Label htmlFor="city">{t("suppliers.city")}</Label>
                   <Input
                     id="city"
                     value={formData.city}
                     onChange={(e) => setFormData({ ...formData, city: e.target.value })}
-                    placeholder="City"
+                    placeholder={t("suppliers.city")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="country">Country</Label>
+                  <Label htmlFor="country">{t("suppliers.country")}</Label>
                   <Input
                     id="country"
                     value={formData.country}
                     onChange={(e) => setFormData({ ...formData, country: e.target.value })}
-                    placeholder="Country"
+                    placeholder={t("suppliers.country")}
                   />
                 </div>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="category">Category</Label>
+                  <Label htmlFor="category">{t("suppliers.category")}</Label>
                   <Select
                     value={formData.category}
                     onValueChange={(value) => setFormData({ ...formData, category: value as Supplier['category'] })}
@@ -939,16 +958,16 @@ export function Suppliers() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="raw-materials">Raw Materials</SelectItem>
-                      <SelectItem value="packaging">Packaging</SelectItem>
-                      <SelectItem value="equipment">Equipment</SelectItem>
-                      <SelectItem value="services">Services</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      <SelectItem value="raw-materials">{t("suppliers.category.rawMaterials")}</SelectItem>
+                      <SelectItem value="packaging">{t("suppliers.category.packaging")}</SelectItem>
+                      <SelectItem value="equipment">{t("suppliers.category.equipment")}</SelectItem>
+                      <SelectItem value="services">{t("suppliers.category.services")}</SelectItem>
+                      <SelectItem value="other">{t("suppliers.category.other")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="status">Status</Label>
+                  <Label htmlFor="status">{t("common.status")}</Label>
                   <Select
                     value={formData.status}
                     onValueChange={(value) => setFormData({ ...formData, status: value as Supplier['status'] })}
@@ -957,9 +976,9 @@ export function Suppliers() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="inactive">Inactive</SelectItem>
-                      <SelectItem value="blocked">Blocked</SelectItem>
+                      <SelectItem value="active">{t("status.active")}</SelectItem>
+                      <SelectItem value="inactive">{t("status.inactive")}</SelectItem>
+                      <SelectItem value="blocked">{t("suppliers.status.blocked")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -967,16 +986,16 @@ export function Suppliers() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="paymentTerms">Payment Terms</Label>
+                  <Label htmlFor="paymentTerms">{t("suppliers.paymentTerms")}</Label>
                   <Input
                     id="paymentTerms"
                     value={formData.paymentTerms}
                     onChange={(e) => setFormData({ ...formData, paymentTerms: e.target.value })}
-                    placeholder="e.g., Net 30"
+                    placeholder={t("suppliers.paymentTermsPlaceholder")}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="creditLimit">Credit Limit (SAR)</Label>
+                  <Label htmlFor="creditLimit">{t("suppliers.creditLimitSar")}</Label>
                   <Input
                     id="creditLimit"
                     type="number"
@@ -988,12 +1007,12 @@ export function Suppliers() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="notes">Notes</Label>
+                <Label htmlFor="notes">{t("common.notes")}</Label>
                 <Textarea
                   id="notes"
                   value={formData.notes}
                   onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                  placeholder="Additional notes..."
+                  placeholder={t("suppliers.notesPlaceholder")}
                   rows={3}
                 />
               </div>
@@ -1001,10 +1020,10 @@ export function Suppliers() {
           </ScrollArea>
           <DialogFooter>
             <Button variant="outline" onClick={() => { setIsAddDialogOpen(false); resetForm(); }}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={editingSupplier ? handleEditSupplier : handleAddSupplier} className="bg-purple-600 hover:bg-purple-700 text-white">
-              {editingSupplier ? "Update" : "Add"} Supplier
+              {editingSupplier ? t("suppliers.update") : t("suppliers.add")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1014,23 +1033,25 @@ export function Suppliers() {
       <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>Record Payment</DialogTitle>
-            <DialogDescription>Add a new supplier payment</DialogDescription>
+            <DialogTitle>{t("suppliers.recordPayment")}</DialogTitle>
+            <DialogDescription>{t("suppliers.recordPaymentDescription")}</DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="paymentSupplier">Supplier *</Label>
+              <Label htmlFor="paymentSupplier">{t("suppliers.supplierRequired")}</Label>
               <Select
                 value={paymentForm.supplierId}
                 onValueChange={(value) => setPaymentForm({ ...paymentForm, supplierId: value })}
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select supplier" />
+                  <SelectValue placeholder={t("suppliers.selectSupplier")} />
                 </SelectTrigger>
                 <SelectContent>
                   {suppliers.map((supplier) => (
                     <SelectItem key={supplier.dbId} value={supplier.dbId}>
-                      {supplier.nameEn} - {supplier.currentBalance < 0 ? "Credit" : "Due"}: {Math.abs(supplier.currentBalance).toLocaleString()} ر.س
+                      {localizedName(supplier.nameEn, supplier.nameAr)} -{" "}
+                      {supplier.currentBalance < 0 ? t("suppliers.credit") : t("suppliers.due")}:{" "}
+                      {formatCurrency(Math.abs(supplier.currentBalance))}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1039,7 +1060,7 @@ export function Suppliers() {
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="paymentAmount">Amount (SAR) *</Label>
+                <Label htmlFor="paymentAmount">{t("suppliers.amountRequired")}</Label>
                 <Input
                   id="paymentAmount"
                   type="number"
@@ -1051,7 +1072,7 @@ export function Suppliers() {
                   <span>
                     {remainingBalanceLabel}:&nbsp;
                     <span className={`font-semibold ${remainingBalanceColor}`}>
-                      {displayedBalance.toLocaleString()} ر.س
+                      {formatCurrency(displayedBalance)}
                     </span>
                   </span>
                   <div className="flex gap-1">
@@ -1063,7 +1084,7 @@ export function Suppliers() {
                       onClick={() => handleQuickPaymentFill("half")}
                       disabled={!selectedPaymentSupplier || remainingBalance <= 0}
                     >
-                      50%
+                      {formatNumber(0.5, { style: "percent" })}
                     </Button>
                     <Button
                       type="button"
@@ -1073,18 +1094,18 @@ export function Suppliers() {
                       onClick={() => handleQuickPaymentFill("full")}
                       disabled={!selectedPaymentSupplier || remainingBalance <= 0}
                     >
-                      Full Amount
+                      {t("suppliers.fullAmount")}
                     </Button>
                   </div>
                 </div>
                 {remainingBalance < 0 && (
                   <div className="text-xs text-muted-foreground mt-1">
-                    Future purchase orders will automatically consume this credit.
+                    {t("suppliers.creditHint")}
                   </div>
                 )}
               </div>
               <div className="space-y-2">
-                <Label htmlFor="paymentDate">Payment Date *</Label>
+                <Label htmlFor="paymentDate">{t("suppliers.paymentDateRequired")}</Label>
                 <Input
                   id="paymentDate"
                   type="date"
@@ -1095,7 +1116,7 @@ export function Suppliers() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="paymentMethod">Payment Method *</Label>
+              <Label htmlFor="paymentMethod">{t("suppliers.paymentMethodRequired")}</Label>
               <Select
                 value={paymentForm.paymentMethod}
                 onValueChange={(value) => setPaymentForm({ ...paymentForm, paymentMethod: value as PaymentMethodCode })}
@@ -1104,41 +1125,41 @@ export function Suppliers() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="cash">Cash</SelectItem>
-                  <SelectItem value="bank-transfer">Bank Transfer</SelectItem>
-                  <SelectItem value="check">Check</SelectItem>
-                  <SelectItem value="credit-card">Credit Card</SelectItem>
+                  <SelectItem value="cash">{t("purchases.method.cash")}</SelectItem>
+                  <SelectItem value="bank-transfer">{t("purchases.method.bankTransfer")}</SelectItem>
+                  <SelectItem value="check">{t("purchases.method.check")}</SelectItem>
+                  <SelectItem value="credit-card">{t("purchases.method.creditCard")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="referenceNumber">Reference Number *</Label>
+              <Label htmlFor="referenceNumber">{t("suppliers.referenceRequired")}</Label>
               <Input
                 id="referenceNumber"
                 value={paymentForm.referenceNumber}
                 onChange={(e) => setPaymentForm({ ...paymentForm, referenceNumber: e.target.value })}
-                placeholder="TRF-XXXX or CHK-XXXX"
+                placeholder={t("suppliers.referencePlaceholder")}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="paymentDescription">Description</Label>
+              <Label htmlFor="paymentDescription">{t("suppliers.description")}</Label>
               <Textarea
                 id="paymentDescription"
                 value={paymentForm.description}
                 onChange={(e) => setPaymentForm({ ...paymentForm, description: e.target.value })}
-                placeholder="Payment details..."
+                placeholder={t("suppliers.descriptionPlaceholder")}
                 rows={3}
               />
             </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button onClick={handleAddPayment}>
-              Record Payment
+              {t("suppliers.recordPayment")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1148,7 +1169,7 @@ export function Suppliers() {
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh]">
           <DialogHeader>
-            <DialogTitle>Supplier Details</DialogTitle>
+            <DialogTitle>{t("suppliers.detailsTitle")}</DialogTitle>
           </DialogHeader>
           {selectedSupplier && (
             <ScrollArea className="max-h-[70vh]">
@@ -1156,49 +1177,49 @@ export function Suppliers() {
                 {/* Supplier Info */}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-muted-foreground">Supplier Code</Label>
+                    <Label className="text-muted-foreground">{t("suppliers.supplierCode")}</Label>
                     <p className="font-medium">{selectedSupplier.supplierCode}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Status</Label>
+                    <Label className="text-muted-foreground">{t("common.status")}</Label>
                     <div className="mt-1">
                       <Badge variant={selectedSupplier.status === "active" ? "default" : "secondary"}>
-                        {selectedSupplier.status}
+                        {t(STATUS_KEYS[selectedSupplier.status])}
                       </Badge>
                     </div>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Name (English)</Label>
+                    <Label className="text-muted-foreground">{t("suppliers.nameEn")}</Label>
                     <p className="font-medium">{selectedSupplier.nameEn}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Name (Arabic)</Label>
+                    <Label className="text-muted-foreground">{t("suppliers.nameAr")}</Label>
                     <p className="font-medium" dir="rtl">{selectedSupplier.nameAr}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Contact Person</Label>
+                    <Label className="text-muted-foreground">{t("suppliers.contactPerson")}</Label>
                     <p className="font-medium">{selectedSupplier.contactPerson}</p>
                   </div>
                   <div>
-                    <Label className="text-muted-foreground">Category</Label>
+                    <Label className="text-muted-foreground">{t("suppliers.category")}</Label>
                     <p className="font-medium">{getCategoryLabel(selectedSupplier.category)}</p>
                   </div>
                 </div>
 
                 {/* Contact Info */}
                 <div>
-                  <h4 className="font-semibold mb-3">Contact Information</h4>
+                  <h4 className="font-semibold mb-3">{t("suppliers.contactInformation")}</h4>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label className="text-muted-foreground">Phone</Label>
+                      <Label className="text-muted-foreground">{t("common.phone")}</Label>
                       <p className="font-medium">{selectedSupplier.phone}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Email</Label>
+                      <Label className="text-muted-foreground">{t("common.email")}</Label>
                       <p className="font-medium">{selectedSupplier.email}</p>
                     </div>
                     <div className="col-span-2">
-                      <Label className="text-muted-foreground">Address</Label>
+                      <Label className="text-muted-foreground">{t("suppliers.address")}</Label>
                       <p className="font-medium">{selectedSupplier.address}, {selectedSupplier.city}, {selectedSupplier.country}</p>
                     </div>
                   </div>
@@ -1206,31 +1227,31 @@ export function Suppliers() {
 
                 {/* Financial Info */}
                 <div>
-                  <h4 className="font-semibold mb-3">Financial Information</h4>
+                  <h4 className="font-semibold mb-3">{t("suppliers.financialInformation")}</h4>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label className="text-muted-foreground">Current Balance</Label>
+                      <Label className="text-muted-foreground">{t("suppliers.currentBalance")}</Label>
                       <p className={`font-bold text-lg ${selectedSupplier.currentBalance < 0 ? "text-red-600" : "text-green-600"}`}>
-                        {Math.abs(selectedSupplier.currentBalance).toLocaleString()} ر.س
+                        {formatCurrency(Math.abs(selectedSupplier.currentBalance))}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {selectedSupplier.currentBalance < 0 ? "Supplier credit" : "Amount due"}
+                        {selectedSupplier.currentBalance < 0 ? t("suppliers.supplierCredit") : t("suppliers.amountDue")}
                       </p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Credit Limit</Label>
-                      <p className="font-medium">{selectedSupplier.creditLimit.toLocaleString()} ر.س</p>
+                      <Label className="text-muted-foreground">{t("suppliers.creditLimit")}</Label>
+                      <p className="font-medium">{formatCurrency(selectedSupplier.creditLimit)}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Total Purchases</Label>
-                      <p className="font-medium">{selectedSupplier.totalPurchases.toLocaleString()} ر.س</p>
+                      <Label className="text-muted-foreground">{t("suppliers.totalPurchases")}</Label>
+                      <p className="font-medium">{formatCurrency(selectedSupplier.totalPurchases)}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Payment Terms</Label>
+                      <Label className="text-muted-foreground">{t("suppliers.paymentTerms")}</Label>
                       <p className="font-medium">{selectedSupplier.paymentTerms}</p>
                     </div>
                     <div>
-                      <Label className="text-muted-foreground">Tax Number</Label>
+                      <Label className="text-muted-foreground">{t("suppliers.taxNumber")}</Label>
                       <p className="font-medium">{selectedSupplier.taxNumber}</p>
                     </div>
                   </div>
@@ -1238,29 +1259,29 @@ export function Suppliers() {
 
                 {/* Payment History */}
                 <div>
-                  <h4 className="font-semibold mb-3">Recent Payments</h4>
+                  <h4 className="font-semibold mb-3">{t("suppliers.recentPayments")}</h4>
                   <div className="border rounded-lg">
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Date</TableHead>
-                          <TableHead>Amount</TableHead>
-                          <TableHead>Method</TableHead>
-                          <TableHead>Reference</TableHead>
+                          <TableHead>{t("common.date")}</TableHead>
+                          <TableHead>{t("suppliers.amount")}</TableHead>
+                          <TableHead>{t("suppliers.method")}</TableHead>
+                          <TableHead>{t("suppliers.reference")}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {getSupplierPayments(selectedSupplier.dbId).length === 0 ? (
                           <TableRow>
                             <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
-                              No payments recorded
+                              {t("suppliers.noPayments")}
                             </TableCell>
                           </TableRow>
                         ) : (
                           getSupplierPayments(selectedSupplier.dbId).slice(0, 5).map((payment) => (
                             <TableRow key={payment.id}>
-                              <TableCell>{new Date(payment.paymentDate).toLocaleDateString('en-GB')}</TableCell>
-                              <TableCell className="font-medium">{payment.amount.toLocaleString()} ر.س</TableCell>
+                              <TableCell>{formatDate(payment.paymentDate)}</TableCell>
+                              <TableCell className="font-medium">{formatCurrency(payment.amount)}</TableCell>
                               <TableCell>{getPaymentMethodLabel(payment.paymentMethod)}</TableCell>
                               <TableCell className="text-sm text-muted-foreground">{payment.referenceNumber}</TableCell>
                             </TableRow>
@@ -1274,7 +1295,7 @@ export function Suppliers() {
                 {/* Notes */}
                 {selectedSupplier.notes && (
                   <div>
-                    <Label className="text-muted-foreground">Notes</Label>
+                    <Label className="text-muted-foreground">{t("common.notes")}</Label>
                     <p className="mt-1 text-sm">{selectedSupplier.notes}</p>
                   </div>
                 )}
@@ -1283,7 +1304,7 @@ export function Suppliers() {
           )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsViewDialogOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -24,6 +24,8 @@ import { selectors, thunks } from "../redux-toolkit/slices";
 import type { CustomerSupportTickets } from "../../supabase/models/customer_support_tickets";
 import type { Customers } from "../../supabase/models/customers";
 import type { Delegates } from "../../supabase/models/delegates";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface TicketViewModel {
   id: string;
@@ -41,6 +43,18 @@ interface TicketViewModel {
   resolutionNotes?: string | null;
 }
 
+const STATUS_KEYS: Record<TicketViewModel["status"], MessageKey> = {
+  New: "support.status.new",
+  "In Progress": "support.status.inProgress",
+  Completed: "support.status.completed",
+};
+
+const PRIORITY_KEYS: Record<TicketViewModel["priority"], MessageKey> = {
+  High: "support.priority.high",
+  Medium: "support.priority.medium",
+  Low: "support.priority.low",
+};
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case "Completed": return "bg-green-100 text-green-700 border-green-200";
@@ -60,6 +74,7 @@ const getPriorityColor = (priority: string) => {
 };
 
 export function Support() {
+  const { t, formatNumber, formatDate } = useLocale();
   const dispatch = useAppDispatch();
   const supportTickets = useAppSelector(selectors.customer_support_tickets.selectAll) as CustomerSupportTickets[];
   const customers = useAppSelector(selectors.customers.selectAll) as Customers[];
@@ -124,7 +139,7 @@ export function Support() {
         id: ticket.ticket_id,
         ticketNumber: `TKT-${ticket.ticket_id.slice(0, 8).toUpperCase()}`,
         customerId: ticket.customer_id,
-        customerName: customer?.customer_name ?? customer?.company ?? "Unknown customer",
+        customerName: customer?.customer_name ?? customer?.company ?? t("support.unknownCustomer"),
         subject: ticket.subject ?? "",
         description: ticket.description ?? "",
         priority: normalizePriority(ticket.priority),
@@ -137,7 +152,7 @@ export function Support() {
       };
     })
     .sort((a, b) => new Date(b.createdDate).getTime() - new Date(a.createdDate).getTime());
-  }, [supportTickets, customers, delegates]);
+  }, [supportTickets, customers, delegates, t]);
 
   const filteredTickets = useMemo(() => {
     const query = searchQuery.toLowerCase();
@@ -209,12 +224,12 @@ export function Support() {
 
   const handleSave = async () => {
     if (!formCustomer || !selectedCustomerObj) {
-      toast.error("Please select a customer");
+      toast.error(t("support.selectCustomerError"));
       return;
     }
 
     if (!formSubject || !formDescription) {
-      toast.error("Please fill all required fields");
+      toast.error(t("representatives.requiredFields"));
       return;
     }
 
@@ -232,7 +247,7 @@ export function Support() {
     try {
       if (mode === "add") {
         await dispatch(thunks.customer_support_tickets.createOne(payload)).unwrap();
-        toast.success("Ticket created successfully!");
+        toast.success(translateCurrent("support.created"));
       } else if (mode === "edit" && selectedTicket) {
         await dispatch(
           thunks.customer_support_tickets.updateOne({
@@ -240,21 +255,21 @@ export function Support() {
             values: payload,
           })
         ).unwrap();
-        toast.success("Ticket updated successfully!");
+        toast.success(translateCurrent("support.updated"));
       }
       setIsDialogOpen(false);
       resetForm();
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to save ticket");
+      toast.error(error?.message ?? translateCurrent("support.saveFailed"));
     }
   };
 
   const handleDelete = async (id: string) => {
     try {
       await dispatch(thunks.customer_support_tickets.deleteOne(id)).unwrap();
-      toast.success("Ticket deleted successfully!");
+      toast.success(translateCurrent("support.deleted"));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to delete ticket");
+      toast.error(error?.message ?? translateCurrent("support.deleteFailed"));
     }
   };
 
@@ -266,16 +281,16 @@ export function Support() {
           values: { status: newStatus },
         })
       ).unwrap();
-      toast.success(`Ticket status updated to ${newStatus}`);
+      toast.success(translateCurrent("support.statusUpdated", { status: translateCurrent(STATUS_KEYS[newStatus]) }));
     } catch (error: any) {
-      toast.error(error?.message ?? "Failed to update status");
+      toast.error(error?.message ?? translateCurrent("visits.statusFailed"));
     }
   };
 
   const stats = {
-    new: tickets.filter(t => t.status === "New").length,
-    inProgress: tickets.filter(t => t.status === "In Progress").length,
-    completed: tickets.filter(t => t.status === "Completed").length,
+    new: tickets.filter(ticket => ticket.status === "New").length,
+    inProgress: tickets.filter(ticket => ticket.status === "In Progress").length,
+    completed: tickets.filter(ticket => ticket.status === "Completed").length,
   };
 
   const exportToExcel = () => {
@@ -302,9 +317,9 @@ export function Support() {
       XLSX.utils.book_append_sheet(wb, ws, "Support Tickets");
       const fileName = `support_tickets_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(translateCurrent("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(translateCurrent("common.exportFailed"));
       console.error(error);
     }
   };
@@ -314,8 +329,8 @@ export function Support() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h2>Customer Support</h2>
-          <p className="text-muted-foreground mt-1">Manage customer requests and complaints</p>
+          <h2>{t("support.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("support.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <div className="flex gap-1 bg-muted rounded-lg p-1">
@@ -326,7 +341,7 @@ export function Support() {
               className="gap-2"
             >
               <LayoutGrid className="h-4 w-4" />
-              Cards
+              {t("support.cards")}
             </Button>
             <Button
               size="sm"
@@ -335,16 +350,16 @@ export function Support() {
               className="gap-2"
             >
               <TableIcon className="h-4 w-4" />
-              Table
+              {t("support.table")}
             </Button>
           </div>
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Button onClick={openAddDialog} className="gap-2 bg-purple-600 hover:bg-purple-700 text-white">
             <Plus className="h-4 w-4" />
-            New Ticket
+            {t("support.newTicket")}
           </Button>
         </div>
       </div>
@@ -353,34 +368,34 @@ export function Support() {
       <div className="grid gap-4 md:grid-cols-3">
         <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter("New")}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">New Tickets</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("support.newTickets")}</CardTitle>
             <AlertCircle className="h-5 w-5 text-red-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-red-600">{stats.new}</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting response</p>
+            <div className="text-3xl font-bold text-red-600">{formatNumber(stats.new)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("support.awaitingResponse")}</p>
           </CardContent>
         </Card>
 
         <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter("In Progress")}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">In Progress</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("support.status.inProgress")}</CardTitle>
             <Clock className="h-5 w-5 text-blue-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-blue-600">{stats.inProgress}</div>
-            <p className="text-xs text-muted-foreground mt-1">Being handled</p>
+            <div className="text-3xl font-bold text-blue-600">{formatNumber(stats.inProgress)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("support.beingHandled")}</p>
           </CardContent>
         </Card>
 
         <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter("Completed")}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Completed</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("support.status.completed")}</CardTitle>
             <CheckCircle2 className="h-5 w-5 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-green-600">{stats.completed}</div>
-            <p className="text-xs text-muted-foreground mt-1">Resolved</p>
+            <div className="text-3xl font-bold text-green-600">{formatNumber(stats.completed)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{t("support.resolved")}</p>
           </CardContent>
         </Card>
       </div>
@@ -390,7 +405,7 @@ export function Support() {
         <CardContent className="pt-6">
           <div className="flex gap-3">
             <Input
-              placeholder="Search tickets..."
+              placeholder={t("support.searchPlaceholder")}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="flex-1"
@@ -400,10 +415,10 @@ export function Support() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Tickets</SelectItem>
-                <SelectItem value="New">New</SelectItem>
-                <SelectItem value="In Progress">In Progress</SelectItem>
-                <SelectItem value="Completed">Completed</SelectItem>
+                <SelectItem value="all">{t("support.allTickets")}</SelectItem>
+                <SelectItem value="New">{t("support.status.new")}</SelectItem>
+                <SelectItem value="In Progress">{t("support.status.inProgress")}</SelectItem>
+                <SelectItem value="Completed">{t("support.status.completed")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -412,7 +427,7 @@ export function Support() {
 
       {ticketsLoading && (
         <div className="rounded-md border border-dashed border-muted-foreground/40 bg-muted/20 p-4 text-sm text-muted-foreground">
-          Loading tickets...
+          {t("support.loading")}
         </div>
       )}
 
@@ -429,7 +444,7 @@ export function Support() {
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <MessageSquare className="h-12 w-12 text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No tickets found</p>
+                <p className="text-muted-foreground">{t("support.empty")}</p>
               </CardContent>
             </Card>
           ) : (
@@ -444,10 +459,10 @@ export function Support() {
                           <div className="flex items-center gap-2">
                             <span className="font-mono text-sm text-muted-foreground">{ticket.ticketNumber}</span>
                             <Badge className={getPriorityColor(ticket.priority)}>
-                              {ticket.priority}
+                              {t(PRIORITY_KEYS[ticket.priority])}
                             </Badge>
                             <Badge className={getStatusColor(ticket.status)}>
-                              {ticket.status}
+                              {t(STATUS_KEYS[ticket.status])}
                             </Badge>
                           </div>
                           <h3 className="font-semibold text-lg">{ticket.subject}</h3>
@@ -457,20 +472,24 @@ export function Support() {
                       {/* Content */}
                       <div className="space-y-2">
                         <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                          <span>Customer: <span className="font-medium text-foreground">{ticket.customerName}</span></span>
+                          <span>
+                            {t("support.customerLabel")} <span className="font-medium text-foreground">{ticket.customerName}</span>
+                          </span>
                           <span>•</span>
-                          <span>Date: {new Date(ticket.createdDate).toLocaleDateString('en-GB')}</span>
+                          <span>{t("support.dateLabel", { date: formatDate(ticket.createdDate) })}</span>
                           {ticket.assignedToName && (
                             <>
                               <span>•</span>
-                              <span>Assigned: <span className="font-medium text-foreground">{ticket.assignedToName}</span></span>
+                              <span>
+                                {t("support.assignedLabel")} <span className="font-medium text-foreground">{ticket.assignedToName}</span>
+                              </span>
                             </>
                           )}
                         </div>
                         <p className="text-sm text-muted-foreground">{ticket.description}</p>
                         {ticket.notes && (
                           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mt-2">
-                            <p className="text-sm text-yellow-800"><strong>Note:</strong> {ticket.notes}</p>
+                            <p className="text-sm text-yellow-800"><strong>{t("support.noteLabel")}</strong> {ticket.notes}</p>
                           </div>
                         )}
                       </div>
@@ -487,9 +506,9 @@ export function Support() {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="New">New</SelectItem>
-                            <SelectItem value="In Progress">In Progress</SelectItem>
-                            <SelectItem value="Completed">Completed</SelectItem>
+                            <SelectItem value="New">{t("support.status.new")}</SelectItem>
+                            <SelectItem value="In Progress">{t("support.status.inProgress")}</SelectItem>
+                            <SelectItem value="Completed">{t("support.status.completed")}</SelectItem>
                           </SelectContent>
                         </Select>
                       )}
@@ -520,20 +539,20 @@ export function Support() {
             {filteredTickets.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-12">
                 <MessageSquare className="h-12 w-12 text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No tickets found</p>
+                <p className="text-muted-foreground">{t("support.empty")}</p>
               </div>
             ) : (
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Ticket #</TableHead>
-                    <TableHead>Customer</TableHead>
-                    <TableHead>Subject</TableHead>
-                    <TableHead>Priority</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Assigned To</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead>{t("support.ticketNumberShort")}</TableHead>
+                    <TableHead>{t("common.customer")}</TableHead>
+                    <TableHead>{t("support.subject")}</TableHead>
+                    <TableHead>{t("support.priority")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                    <TableHead>{t("support.assignedTo")}</TableHead>
+                    <TableHead>{t("common.date")}</TableHead>
+                    <TableHead className="text-end">{t("common.actions")}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -544,7 +563,7 @@ export function Support() {
                       <TableCell className="max-w-xs truncate">{ticket.subject}</TableCell>
                       <TableCell>
                         <Badge className={getPriorityColor(ticket.priority)}>
-                          {ticket.priority}
+                          {t(PRIORITY_KEYS[ticket.priority])}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -557,20 +576,20 @@ export function Support() {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="New">New</SelectItem>
-                              <SelectItem value="In Progress">In Progress</SelectItem>
-                              <SelectItem value="Completed">Completed</SelectItem>
+                              <SelectItem value="New">{t("support.status.new")}</SelectItem>
+                              <SelectItem value="In Progress">{t("support.status.inProgress")}</SelectItem>
+                              <SelectItem value="Completed">{t("support.status.completed")}</SelectItem>
                             </SelectContent>
                           </Select>
                         ) : (
                           <Badge className={getStatusColor(ticket.status)}>
-                            {ticket.status}
+                            {t(STATUS_KEYS[ticket.status])}
                           </Badge>
                         )}
                       </TableCell>
-                      <TableCell>{ticket.assignedToName || "Unassigned"}</TableCell>
-                      <TableCell>{new Date(ticket.createdDate).toLocaleDateString('en-GB')}</TableCell>
-                      <TableCell className="text-right">
+                      <TableCell>{ticket.assignedToName || t("visits.unassigned")}</TableCell>
+                      <TableCell>{formatDate(ticket.createdDate)}</TableCell>
+                      <TableCell className="text-end">
                         <div className="flex justify-end gap-2">
                           <Button size="sm" variant="outline" onClick={() => openViewDialog(ticket)}>
                             <Eye className="h-4 w-4" />
@@ -600,12 +619,14 @@ export function Support() {
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
-              {mode === "add" ? "New Support Ticket" : mode === "edit" ? "Edit Ticket" : "Ticket Details"}
+              {mode === "add" ? t("support.newTitle") : mode === "edit" ? t("support.editTitle") : t("support.detailsTitle")}
             </DialogTitle>
             <DialogDescription>
-              {mode === "add" ? "Create a new customer support ticket" : 
-               mode === "edit" ? "Update ticket information" : 
-               `Viewing ticket ${selectedTicket?.ticketNumber}`}
+              {mode === "add"
+                ? t("support.newDescription")
+                : mode === "edit"
+                  ? t("support.editDescription")
+                  : t("support.viewing", { number: selectedTicket?.ticketNumber ?? "" })}
             </DialogDescription>
           </DialogHeader>
 
@@ -613,46 +634,46 @@ export function Support() {
             <div className="space-y-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-muted-foreground">Ticket Number</Label>
+                  <Label className="text-muted-foreground">{t("support.ticketNumber")}</Label>
                   <p className="font-mono">{selectedTicket.ticketNumber}</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Status</Label>
+                  <Label className="text-muted-foreground">{t("common.status")}</Label>
                   <div className="mt-1">
                     <Badge className={getStatusColor(selectedTicket.status)}>
-                      {selectedTicket.status}
+                      {t(STATUS_KEYS[selectedTicket.status])}
                     </Badge>
                   </div>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Priority</Label>
+                  <Label className="text-muted-foreground">{t("support.priority")}</Label>
                   <div className="mt-1">
                     <Badge className={getPriorityColor(selectedTicket.priority)}>
-                      {selectedTicket.priority}
+                      {t(PRIORITY_KEYS[selectedTicket.priority])}
                     </Badge>
                   </div>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Date</Label>
-                  <p>{new Date(selectedTicket.createdDate).toLocaleDateString('en-GB')}</p>
+                  <Label className="text-muted-foreground">{t("common.date")}</Label>
+                  <p>{formatDate(selectedTicket.createdDate)}</p>
                 </div>
                 <div className="col-span-2">
-                  <Label className="text-muted-foreground">Customer</Label>
+                  <Label className="text-muted-foreground">{t("common.customer")}</Label>
                   <p className="font-medium">{selectedTicket.customerName}</p>
                 </div>
                 <div className="col-span-2">
-                  <Label className="text-muted-foreground">Assigned To</Label>
-                  <p>{selectedTicket.assignedToName || "Unassigned"}</p>
+                  <Label className="text-muted-foreground">{t("support.assignedTo")}</Label>
+                  <p>{selectedTicket.assignedToName || t("visits.unassigned")}</p>
                 </div>
               </div>
 
               <div>
-                <Label className="text-muted-foreground">Subject</Label>
+                <Label className="text-muted-foreground">{t("support.subject")}</Label>
                 <p className="font-medium text-lg mt-1">{selectedTicket.subject}</p>
               </div>
 
               <div>
-                <Label className="text-muted-foreground">Description</Label>
+                <Label className="text-muted-foreground">{t("support.description")}</Label>
                 <div className="p-4 border rounded-lg bg-muted/30 mt-1">
                   <p>{selectedTicket.description}</p>
                 </div>
@@ -660,7 +681,7 @@ export function Support() {
 
               {selectedTicket.notes && (
                 <div>
-                  <Label className="text-muted-foreground">Notes</Label>
+                  <Label className="text-muted-foreground">{t("common.notes")}</Label>
                   <div className="p-4 border rounded-lg bg-yellow-50 mt-1">
                     <p className="text-sm">{selectedTicket.notes}</p>
                   </div>
@@ -669,7 +690,7 @@ export function Support() {
 
               {selectedTicket.resolutionNotes && (
                 <div>
-                  <Label className="text-muted-foreground">Resolution</Label>
+                  <Label className="text-muted-foreground">{t("support.resolution")}</Label>
                   <div className="p-4 border rounded-lg bg-green-50 mt-1">
                     <p className="text-sm">{selectedTicket.resolutionNotes}</p>
                   </div>
@@ -677,10 +698,10 @@ export function Support() {
               )}
 
               <div className="flex justify-end gap-3 pt-4 border-t">
-                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Close</Button>
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>{t("common.close")}</Button>
                 <Button onClick={() => openEditDialog(selectedTicket)}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Ticket
+                  <Edit className="h-4 w-4 me-2" />
+                  {t("support.editTitle")}
                 </Button>
               </div>
             </div>
@@ -691,7 +712,7 @@ export function Support() {
                   <CustomerSelector
                     customers={customers.map(c => ({
                       id: parseInt(c.customer_id.slice(0, 8), 16) % 1000000, // Generate a temporary ID
-                      name: c.customer_name ?? c.company ?? "Unnamed customer",
+                      name: c.customer_name ?? c.company ?? t("support.unnamedCustomer"),
                       company: c.company ?? "",
                       mobile: c.contact_num ?? "",
                       email: c.customer_email ?? "",
@@ -710,52 +731,52 @@ export function Support() {
                         setFormCustomer(dbCustomer.customer_id);
                       }
                     }}
-                    label="Customer"
-                    placeholder="Search customer by name, company, or mobile..."
+                    label={t("common.customer")}
+                    placeholder={t("support.customerSearchPlaceholder")}
                     required={true}
                     hideQuickAdd={true}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="priority">Priority</Label>
+                  <Label htmlFor="priority">{t("support.priority")}</Label>
                   <Select value={formPriority} onValueChange={(value) => setFormPriority(value as "High" | "Medium" | "Low")}>
                     <SelectTrigger id="priority">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="High">High</SelectItem>
-                      <SelectItem value="Medium">Medium</SelectItem>
-                      <SelectItem value="Low">Low</SelectItem>
+                      <SelectItem value="High">{t("support.priority.high")}</SelectItem>
+                      <SelectItem value="Medium">{t("support.priority.medium")}</SelectItem>
+                      <SelectItem value="Low">{t("support.priority.low")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="status">Status</Label>
+                  <Label htmlFor="status">{t("common.status")}</Label>
                   <Select value={formStatus} onValueChange={(value) => setFormStatus(value as "New" | "In Progress" | "Completed")}>
                     <SelectTrigger id="status">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="New">New</SelectItem>
-                      <SelectItem value="In Progress">In Progress</SelectItem>
-                      <SelectItem value="Completed">Completed</SelectItem>
+                      <SelectItem value="New">{t("support.status.new")}</SelectItem>
+                      <SelectItem value="In Progress">{t("support.status.inProgress")}</SelectItem>
+                      <SelectItem value="Completed">{t("support.status.completed")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="col-span-2">
-                  <Label htmlFor="assigned">Assign To</Label>
+                  <Label htmlFor="assigned">{t("support.assignTo")}</Label>
                   <Select value={formAssignedTo} onValueChange={setFormAssignedTo}>
                     <SelectTrigger id="assigned">
-                      <SelectValue placeholder={delegates.length ? "Select representative" : "No delegates available"} />
+                      <SelectValue placeholder={delegates.length ? t("visits.selectRepresentative") : t("support.noDelegates")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      <SelectItem value="unassigned">{t("visits.unassigned")}</SelectItem>
                       {delegates.length === 0 ? (
                         <SelectItem value="no-delegates" disabled>
-                          No delegates available
+                          {t("support.noDelegates")}
                         </SelectItem>
                       ) : (
                         delegates.map((delegate) => (
@@ -770,45 +791,45 @@ export function Support() {
               </div>
 
               <div>
-                <Label htmlFor="subject">Subject *</Label>
+                <Label htmlFor="subject">{t("support.subjectRequired")}</Label>
                 <Input
                   id="subject"
                   value={formSubject}
                   onChange={(e) => setFormSubject(e.target.value)}
-                  placeholder="Brief description of the issue"
+                  placeholder={t("support.subjectPlaceholder")}
                 />
               </div>
 
               <div>
-                <Label htmlFor="description">Description *</Label>
+                <Label htmlFor="description">{t("support.descriptionRequired")}</Label>
                 <Textarea
                   id="description"
                   value={formDescription}
                   onChange={(e) => setFormDescription(e.target.value)}
-                  placeholder="Detailed description of the request or complaint"
+                  placeholder={t("support.descriptionPlaceholder")}
                   rows={4}
                 />
               </div>
 
               <div>
-                <Label htmlFor="notes">Notes (Optional)</Label>
+                <Label htmlFor="notes">{t("support.notesOptional")}</Label>
                 <Textarea
                   id="notes"
                   value={formNotes}
                   onChange={(e) => setFormNotes(e.target.value)}
-                  placeholder="Additional notes or comments"
+                  placeholder={t("support.notesPlaceholder")}
                   rows={2}
                 />
               </div>
 
               {formStatus === "Completed" && (
                 <div>
-                  <Label htmlFor="resolution">Resolution Notes</Label>
+                  <Label htmlFor="resolution">{t("support.resolutionNotes")}</Label>
                   <Textarea
                     id="resolution"
                     value={formResolutionNotes}
                     onChange={(e) => setFormResolutionNotes(e.target.value)}
-                    placeholder="How was this ticket resolved?"
+                    placeholder={t("support.resolutionPlaceholder")}
                     rows={3}
                   />
                 </div>
@@ -816,10 +837,10 @@ export function Support() {
 
               <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button onClick={handleSave} className="bg-purple-600 hover:bg-purple-700 text-white">
-                  {mode === "add" ? "Create Ticket" : "Save Changes"}
+                  {mode === "add" ? t("support.create") : t("common.saveChanges")}
                 </Button>
               </div>
             </div>
@@ -12,6 +12,8 @@ import { toast } from "sonner";
 import { supabase } from "../lib/supabaseClient";
 import type { MessageTemplateRow, MessageTemplateInsert, MessageTemplateUpdate, MessageTemplateType, MessageTemplateCategory } from "../../supabase/models/message_templates";
 import { mockMessageTemplates, type MessageTemplateSeed } from "../data/mockMessageTemplates";
+import type { MessageKey } from "../locales/en";
+import { translateCurrent, useLocale } from "../lib/i18n";
 
 interface Template {
   id: string;
@@ -65,13 +67,19 @@ const mapRowToTemplate = (row: MessageTemplateRow): Template => ({
   updatedAt: row.updated_at,
 });
 
-const categoryLabels = {
-  "payment-reminder": "Payment Reminder",
-  "invoice": "Invoice",
-  "contract": "Contract",
-  "welcome": "Welcome",
-  "follow-up": "Follow-up",
-  "visit-reminder": "Visit Reminder",
+const CATEGORY_KEYS: Record<MessageTemplateCategory, MessageKey> = {
+  "payment-reminder": "templates.category.paymentReminder",
+  "invoice": "templates.category.invoice",
+  "contract": "templates.category.contract",
+  "welcome": "templates.category.welcome",
+  "follow-up": "templates.category.followUp",
+  "visit-reminder": "templates.category.visitReminder",
+};
+
+const TYPE_KEYS: Record<MessageTemplateType, MessageKey> = {
+  whatsapp: "templates.type.whatsapp",
+  email: "templates.type.email",
+  sms: "templates.type.sms",
 };
 
 const categoryColors = {
@@ -84,6 +92,7 @@ const categoryColors = {
 };
 
 export function Templates() {
+  const { t } = useLocale();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedType, setSelectedType] = useState<string>("all");
   const [isAddTemplateOpen, setIsAddTemplateOpen] = useState(false);
@@ -123,7 +132,7 @@ export function Templates() {
       }
 
       const seeded = (data ?? []).map(mapRowToTemplate);
-      toast.success("Default message templates imported");
+      toast.success(translateCurrent("templates.seeded"));
       window.dispatchEvent(new CustomEvent("messageTemplatesUpdated"));
       return seeded;
     } catch (err) {
@@ -154,7 +163,7 @@ export function Templates() {
       }
     } catch (err) {
       console.error("Failed to load templates", err);
-      const message = err instanceof Error ? err.message : "Failed to load templates";
+      const message = err instanceof Error ? err.message : translateCurrent("templates.loadFailed");
       setError(message);
       setTemplates(mockTemplates);
     } finally {
@@ -193,11 +202,11 @@ export function Templates() {
 
   const handleAddTemplate = async () => {
     if (!formName.trim()) {
-      toast.error("Please enter template name");
+      toast.error(t("templates.nameRequired"));
       return;
     }
     if (!formContent.trim()) {
-      toast.error("Please enter template content");
+      toast.error(t("templates.contentRequired"));
       return;
     }
 
@@ -228,11 +237,11 @@ export function Templates() {
       setTemplates((prev) => [created, ...prev]);
       setIsAddTemplateOpen(false);
       resetForm();
-      toast.success("Template created successfully!");
+      toast.success(translateCurrent("templates.created"));
       window.dispatchEvent(new CustomEvent("messageTemplatesUpdated"));
     } catch (err) {
       console.error("Failed to create template", err);
-      const message = err instanceof Error ? err.message : "Failed to create template";
+      const message = err instanceof Error ? err.message : translateCurrent("templates.createFailed");
       toast.error(message);
     } finally {
       setIsSaving(false);
@@ -243,11 +252,11 @@ export function Templates() {
     if (!selectedTemplate) return;
     
     if (!formName.trim()) {
-      toast.error("Please enter template name");
+      toast.error(t("templates.nameRequired"));
       return;
     }
     if (!formContent.trim()) {
-      toast.error("Please enter template content");
+      toast.error(t("templates.contentRequired"));
       return;
     }
 
@@ -277,15 +286,15 @@ export function Templates() {
       }
 
       const updated = mapRowToTemplate(data as MessageTemplateRow);
-      setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+      setTemplates((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
       setIsEditTemplateOpen(false);
       setSelectedTemplate(null);
       resetForm();
-      toast.success("Template updated successfully!");
+      toast.success(translateCurrent("templates.updated"));
       window.dispatchEvent(new CustomEvent("messageTemplatesUpdated"));
     } catch (err) {
       console.error("Failed to update template", err);
-      const message = err instanceof Error ? err.message : "Failed to update template";
+      const message = err instanceof Error ? err.message : translateCurrent("templates.updateFailed");
       toast.error(message);
     } finally {
       setIsSaving(false);
@@ -293,10 +302,10 @@ export function Templates() {
   };
 
   const handleDeleteTemplate = async (id: string) => {
-    const template = templates.find((t) => t.id === id);
+    const template = templates.find((item) => item.id === id);
     if (!template) return;
 
-    const confirmDelete = window.confirm(`Delete template "${template.name}"?`);
+    const confirmDelete = window.confirm(t("templates.deleteConfirm", { name: template.name }));
     if (!confirmDelete) {
       return;
     }
@@ -308,12 +317,12 @@ export function Templates() {
         throw error;
       }
 
-      setTemplates((prev) => prev.filter((t) => t.id !== id));
-      toast.success("Template deleted successfully!");
+      setTemplates((prev) => prev.filter((item) => item.id !== id));
+      toast.success(translateCurrent("templates.deleted"));
       window.dispatchEvent(new CustomEvent("messageTemplatesUpdated"));
     } catch (err) {
       console.error("Failed to delete template", err);
-      const message = err instanceof Error ? err.message : "Failed to delete template";
+      const message = err instanceof Error ? err.message : translateCurrent("templates.deleteFailed");
       toast.error(message);
     } finally {
       setDeletingId(null);
@@ -335,7 +344,7 @@ export function Templates() {
     if (navigator.clipboard && navigator.clipboard.writeText) {
       navigator.clipboard.writeText(content)
         .then(() => {
-          toast.success("Template copied to clipboard!");
+          toast.success(translateCurrent("templates.copied"));
         })
         .catch(() => {
           // Fallback method
@@ -359,9 +368,9 @@ export function Templates() {
     
     try {
       document.execCommand('copy');
-      toast.success("Template copied to clipboard!");
+      toast.success(t("templates.copied"));
     } catch (err) {
-      toast.error("Failed to copy. Please copy manually.");
+      toast.error(t("templates.copyFailed"));
     } finally {
       document.body.removeChild(textArea);
     }
@@ -371,8 +380,8 @@ export function Templates() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold tracking-tight">Message Templates</h2>
-          <p className="text-muted-foreground mt-1">Pre-built templates for quick customer communication</p>
+          <h2 className="text-2xl font-semibold tracking-tight">{t("templates.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("templates.subtitle")}</p>
         </div>
         <Dialog open={isAddTemplateOpen} onOpenChange={(open) => {
           setIsAddTemplateOpen(open);
@@ -381,80 +390,80 @@ export function Templates() {
           <DialogTrigger asChild>
             <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white" disabled={isSaving}>
               <Plus className="h-4 w-4" />
-              Create Template
+              {t("templates.create")}
             </Button>
           </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Create New Template</DialogTitle>
-              <DialogDescription>Create a reusable message template</DialogDescription>
+              <DialogTitle>{t("templates.createTitle")}</DialogTitle>
+              <DialogDescription>{t("templates.createDescription")}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="template-name">Template Name *</Label>
+                  <Label htmlFor="template-name">{t("templates.nameLabel")}</Label>
                   <Input 
                     id="template-name" 
-                    placeholder="e.g., Payment Reminder"
+                    placeholder={t("templates.namePlaceholder")}
                     value={formName}
                     onChange={(e) => setFormName(e.target.value)}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="template-type">Type *</Label>
+                  <Label htmlFor="template-type">{t("templates.typeLabel")}</Label>
                   <Select
                     value={formType}
                     onValueChange={(value) => setFormType(value as MessageTemplateType)}
                     disabled={isSaving}
                   >
                     <SelectTrigger id="template-type">
-                      <SelectValue placeholder="Select type" />
+                      <SelectValue placeholder={t("templates.selectType")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="whatsapp">WhatsApp</SelectItem>
-                      <SelectItem value="email">Email</SelectItem>
-                      <SelectItem value="sms">SMS</SelectItem>
+                      <SelectItem value="whatsapp">{t("templates.type.whatsapp")}</SelectItem>
+                      <SelectItem value="email">{t("templates.type.email")}</SelectItem>
+                      <SelectItem value="sms">{t("templates.type.sms")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="template-category">Category *</Label>
+                <Label htmlFor="template-category">{t("templates.categoryLabel")}</Label>
                 <Select
                   value={formCategory}
                   onValueChange={(value) => setFormCategory(value as MessageTemplateCategory)}
                   disabled={isSaving}
                 >
                   <SelectTrigger id="template-category">
-                    <SelectValue placeholder="Select category" />
+                    <SelectValue placeholder={t("templates.selectCategory")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="payment-reminder">Payment Reminder</SelectItem>
-                    <SelectItem value="invoice">Invoice</SelectItem>
-                    <SelectItem value="contract">Contract</SelectItem>
-                    <SelectItem value="welcome">Welcome</SelectItem>
-                    <SelectItem value="follow-up">Follow-up</SelectItem>
-                    <SelectItem value="visit-reminder">Visit Reminder</SelectItem>
+                    <SelectItem value="payment-reminder">{t("templates.category.paymentReminder")}</SelectItem>
+                    <SelectItem value="invoice">{t("templates.category.invoice")}</SelectItem>
+                    <SelectItem value="contract">{t("templates.category.contract")}</SelectItem>
+                    <SelectItem value="welcome">{t("templates.category.welcome")}</SelectItem>
+                    <SelectItem value="follow-up">{t("templates.category.followUp")}</SelectItem>
+                    <SelectItem value="visit-reminder">{t("templates.category.visitReminder")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="template-subject">Subject (for Email)</Label>
+                <Label htmlFor="template-subject">{t("templates.subjectLabel")}</Label>
                 <Input 
                   id="template-subject" 
-                  placeholder="Email subject line"
+                  placeholder={t("templates.subjectPlaceholder")}
                   value={formSubject}
                   onChange={(e) => setFormSubject(e.target.value)}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="template-content">Message Content *</Label>
+                <Label htmlFor="template-content">{t("templates.contentLabel")}</Label>
                 <Textarea 
                   id="template-content" 
-                  placeholder="Use {{variable_name}} for dynamic content"
+                  placeholder={t("templates.contentPlaceholder")}
                   rows={10}
                   value={formContent}
                   onChange={(e) => setFormContent(e.target.value)}
@@ -462,7 +471,7 @@ export function Templates() {
               </div>
 
               <div className="space-y-2">
-                <Label>Available Variables</Label>
+                <Label>{t("templates.availableVariables")}</Label>
                 <div className="flex flex-wrap gap-2">
                   {["customer_name", "invoice_number", "amount", "due_date", "mobile", "location", "contract_number"].map((variable) => (
                     <Badge 
@@ -477,7 +486,7 @@ export function Templates() {
                     </Badge>
                   ))}
                 </div>
-                <p className="text-xs text-muted-foreground">Click on a variable to insert it into the content</p>
+                <p className="text-xs text-muted-foreground">{t("templates.variableHint")}</p>
               </div>
             </div>
             <div className="flex justify-end gap-3">
@@ -485,7 +494,7 @@ export function Templates() {
                 setIsAddTemplateOpen(false);
                 resetForm();
               }} disabled={isSaving}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 onClick={() => {
@@ -494,7 +503,7 @@ export function Templates() {
                 className="bg-purple-600 hover:bg-purple-700 text-white"
                 disabled={isSaving}
               >
-                Create Template
+                {t("templates.create")}
               </Button>
             </div>
           </DialogContent>
@@ -511,66 +520,66 @@ export function Templates() {
       }}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Edit Template</DialogTitle>
-            <DialogDescription>Update your message template</DialogDescription>
+            <DialogTitle>{t("templates.editTitle")}</DialogTitle>
+            <DialogDescription>{t("templates.editDescription")}</DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="edit-template-name">Template Name *</Label>
+                <Label htmlFor="edit-template-name">{t("templates.nameLabel")}</Label>
                 <Input 
                   id="edit-template-name" 
-                  placeholder="e.g., Payment Reminder"
+                  placeholder={t("templates.namePlaceholder")}
                   value={formName}
                   onChange={(e) => setFormName(e.target.value)}
                   disabled={isSaving}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="edit-template-type">Type *</Label>
+                <Label htmlFor="edit-template-type">{t("templates.typeLabel")}</Label>
                 <Select
                   value={formType}
                   onValueChange={(value) => setFormType(value as MessageTemplateType)}
                   disabled={isSaving}
                 >
                   <SelectTrigger id="edit-template-type">
-                    <SelectValue placeholder="Select type" />
+                    <SelectValue placeholder={t("templates.selectType")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="whatsapp">WhatsApp</SelectItem>
-                    <SelectItem value="email">Email</SelectItem>
-                    <SelectItem value="sms">SMS</SelectItem>
+                    <SelectItem value="whatsapp">{t("templates.type.whatsapp")}</SelectItem>
+                    <SelectItem value="email">{t("templates.type.email")}</SelectItem>
+                    <SelectItem value="sms">{t("templates.type.sms")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="edit-template-category">Category *</Label>
+              <Label htmlFor="edit-template-category">{t("templates.categoryLabel")}</Label>
               <Select
                 value={formCategory}
                 onValueChange={(value) => setFormCategory(value as MessageTemplateCategory)}
                 disabled={isSaving}
               >
                 <SelectTrigger id="edit-template-category">
-                  <SelectValue placeholder="Select category" />
+                  <SelectValue placeholder={t("templates.selectCategory")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="payment-reminder">Payment Reminder</SelectItem>
-                  <SelectItem value="invoice">Invoice</SelectItem>
-                  <SelectItem value="contract">Contract</SelectItem>
-                  <SelectItem value="welcome">Welcome</SelectItem>
-                  <SelectItem value="follow-up">Follow-up</SelectItem>
-                  <SelectItem value="visit-reminder">Visit Reminder</SelectItem>
+                  <SelectItem value="payment-reminder">{t("templates.category.paymentReminder")}</SelectItem>
+                  <SelectItem value="invoice">{t("templates.category.invoice")}</SelectItem>
+                  <SelectItem value="contract">{t("templates.category.contract")}</SelectItem>
+                  <SelectItem value="welcome">{t("templates.category.welcome")}</SelectItem>
+                  <SelectItem value="follow-up">{t("templates.category.followUp")}</SelectItem>
+                  <SelectItem value="visit-reminder">{t("templates.category.visitReminder")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="edit-template-subject">Subject (for Email)</Label>
+              <Label htmlFor="edit-template-subject">{t("templates.subjectLabel")}</Label>
               <Input 
                 id="edit-template-subject" 
-                placeholder="Email subject line"
+                placeholder={t("templates.subjectPlaceholder")}
                 value={formSubject}
                 onChange={(e) => setFormSubject(e.target.value)}
                 disabled={isSaving}
@@ -578,10 +587,10 @@ export function Templates() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="edit-template-content">Message Content *</Label>
+              <Label htmlFor="edit-template-content">{t("templates.contentLabel")}</Label>
               <Textarea 
                 id="edit-template-content" 
-                placeholder="Use {{variable_name}} for dynamic content"
+                placeholder={t("templates.contentPlaceholder")}
                 rows={10}
                 value={formContent}
                 onChange={(e) => setFormContent(e.target.value)}
@@ -590,7 +599,7 @@ export function Templates() {
             </div>
 
             <div className="space-y-2">
-              <Label>Available Variables</Label>
+              <Label>{t("templates.availableVariables")}</Label>
               <div className="flex flex-wrap gap-2">
                 {["customer_name", "invoice_number", "amount", "due_date", "mobile", "location", "contract_number"].map((variable) => (
                   <Badge 
@@ -605,7 +614,7 @@ export function Templates() {
                   </Badge>
                 ))}
               </div>
-              <p className="text-xs text-muted-foreground">Click on a variable to insert it into the content</p>
+              <p className="text-xs text-muted-foreground">{t("templates.variableHint")}</p>
             </div>
           </div>
           <div className="flex justify-end gap-3">
@@ -614,7 +623,7 @@ export function Templates() {
               setSelectedTemplate(null);
               resetForm();
             }} disabled={isSaving}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={() => {
@@ -622,7 +631,7 @@ export function Templates() {
               }}
               disabled={isSaving}
             >
-              Update Template
+              {t("templates.update")}
             </Button>
           </div>
         </DialogContent>
@@ -633,12 +642,12 @@ export function Templates() {
         <CardHeader>
           <div className="flex items-center gap-4">
             <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
               <Input
-                placeholder="Search templates..."
+                placeholder={t("templates.searchPlaceholder")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
+                className="ps-9"
               />
             </div>
             <Select value={selectedType} onValueChange={setSelectedType}>
@@ -646,10 +655,10 @@ export function Templates() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="whatsapp">WhatsApp</SelectItem>
-                <SelectItem value="email">Email</SelectItem>
-                <SelectItem value="sms">SMS</SelectItem>
+                <SelectItem value="all">{t("templates.allTypes")}</SelectItem>
+                <SelectItem value="whatsapp">{t("templates.type.whatsapp")}</SelectItem>
+                <SelectItem value="email">{t("templates.type.email")}</SelectItem>
+                <SelectItem value="sms">{t("templates.type.sms")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -666,7 +675,7 @@ export function Templates() {
       {loading ? (
         <Card>
           <CardContent className="py-12">
-            <div className="text-center text-muted-foreground">Loading templates...</div>
+            <div className="text-center text-muted-foreground">{t("customers.loadingTemplates")}</div>
           </CardContent>
         </Card>
       ) : (
@@ -688,10 +697,10 @@ export function Templates() {
                           <CardTitle className="text-base">{template.name}</CardTitle>
                           <div className="flex items-center gap-2 mt-1">
                             <Badge variant="outline" className="text-xs capitalize">
-                              {template.type}
+                              {t(TYPE_KEYS[template.type])}
                             </Badge>
                             <Badge className={`text-xs ${categoryColors[template.category]}`}>
-                              {categoryLabels[template.category]}
+                              {t(CATEGORY_KEYS[template.category])}
                             </Badge>
                           </div>
                         </div>
@@ -701,18 +710,18 @@ export function Templates() {
                   <CardContent className="space-y-4">
                     {template.subject && (
                       <div>
-                        <div className="text-xs font-medium text-muted-foreground mb-1">Subject:</div>
+                        <div className="text-xs font-medium text-muted-foreground mb-1">{t("templates.subject")}</div>
                         <div className="text-sm font-medium">{template.subject}</div>
                       </div>
                     )}
                     <div>
-                      <div className="text-xs font-medium text-muted-foreground mb-1">Content Preview:</div>
+                      <div className="text-xs font-medium text-muted-foreground mb-1">{t("templates.contentPreview")}</div>
                       <div className="text-sm text-muted-foreground line-clamp-4 whitespace-pre-wrap bg-muted/50 p-3 rounded-lg">
                         {template.content}
                       </div>
                     </div>
                     <div>
-                      <div className="text-xs font-medium text-muted-foreground mb-2">Variables:</div>
+                      <div className="text-xs font-medium text-muted-foreground mb-2">{t("templates.variables")}</div>
                       <div className="flex flex-wrap gap-1">
                         {template.variables.map((variable) => (
                           <Badge key={variable} variant="secondary" className="text-xs font-mono">
@@ -729,7 +738,7 @@ export function Templates() {
                         onClick={() => copyToClipboard(template.content)}
                       >
                         <Copy className="h-3.5 w-3.5" />
-                        Copy
+                        {t("templates.copy")}
                       </Button>
                       <Button 
                         size="sm" 
@@ -760,7 +769,7 @@ export function Templates() {
             <Card>
               <CardContent className="py-12">
                 <div className="text-center text-muted-foreground">
-                  {searchQuery ? "No templates found matching your search" : "No templates available. Create your first template to get started!"}
+                  {searchQuery ? t("templates.noMatches") : t("templates.empty")}
                 </div>
               </CardContent>
             </Card>
@@ -769,27 +778,30 @@ export function Templates() {
       )}
 
       {/* Quick Tips */}
-      <Card className="border-l-4 border-l-blue-600">
+      <Card className="border-s-4 border-s-blue-600">
         <CardHeader>
-          <CardTitle className="text-lg">Quick Tips</CardTitle>
+          <CardTitle className="text-lg">{t("templates.quickTips")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-2 text-sm text-muted-foreground">
             <div className="flex items-start gap-2">
               <Check className="h-4 w-4 text-green-600 mt-0.5" />
-              <span>Use <code className="bg-muted px-1.5 py-0.5 rounded text-xs">{`{{variable_name}}`}</code> to insert dynamic content</span>
+              <span>
+                {t("templates.tipVariablesBefore")} <code className="bg-muted px-1.5 py-0.5 rounded text-xs">{`{{variable_name}}`}</code>{" "}
+                {t("templates.tipVariablesAfter")}
+              </span>
             </div>
             <div className="flex items-start gap-2">
               <Check className="h-4 w-4 text-green-600 mt-0.5" />
-              <span>Keep messages personal and friendly for better engagement</span>
+              <span>{t("templates.tipPersonal")}</span>
             </div>
             <div className="flex items-start gap-2">
               <Check className="h-4 w-4 text-green-600 mt-0.5" />
-              <span>Test templates before sending to customers</span>
+              <span>{t("templates.tipTest")}</span>
             </div>
             <div className="flex items-start gap-2">
               <Check className="h-4 w-4 text-green-600 mt-0.5" />
-              <span>Click on variables to insert them directly into your content</span>
+              <span>{t("templates.tipInsert")}</span>
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,380 @@
+import { useCallback, useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "./ui/input-otp";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+} from "../lib/authSession";
+import { useLocale } from "../lib/i18n";
+
+// Shared pieces of the two-factor screens used by Login and Profile
+
+interface TwoFactorQrCodeProps {
+  otpauthUrl: string;
+  secret: string;
+}
+
+export function TwoFactorQrCode({ otpauthUrl, secret }: TwoFactorQrCodeProps) {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const { t } = useLocale();
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(otpauthUrl, { errorCorrectionLevel: "M", margin: 1, width: 200 })
+      .then((url) => {
+        if (!cancelled) setQrDataUrl(url);
+      })
+      .catch((error) => console.error("Failed to render 2FA QR code", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [otpauthUrl]);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {qrDataUrl ? (
+        <img src={qrDataUrl} alt={t("twoFactor.qrAlt")} className="h-44 w-44 rounded-md border bg-white p-2" />
+      ) : (
+        <div className="h-44 w-44 rounded-md border bg-muted animate-pulse" />
+      )}
+      <div className="text-center space-y-1">
+        <p className="text-xs text-muted-foreground">{t("twoFactor.cantScan")}</p>
+        <code className="block break-all rounded bg-muted px-2 py-1 text-xs font-mono">{secret.match(/.{1,4}/g)?.join(" ")}</code>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function TwoFactorCodeInput({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP
+        maxLength={6}
+        value={value}
+        onChange={onChange}
+        onComplete={onComplete}
+        disabled={disabled}
+        inputMode="numeric"
+        pattern="^[0-9]*$"
+        autoFocus
+      >
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((index) => (
+            <InputOTPSlot key={index} index={index} className="h-11 w-11 text-base" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const text = codes.join("\n");
+  const { t } = useLocale();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(t("twoFactor.codesCopied"));
+    } catch {
+      toast.error(t("twoFactor.copyFailed"));
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`${text}\n`], { type: "text/plain;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">{t("twoFactor.saveCodes")}</p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
+          <Copy className="h-4 w-4 me-2" />
+          {t("twoFactor.copy")}
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleDownload}>
+          <Download className="h-4 w-4 me-2" />
+          {t("common.download")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type SettingsMode = "idle" | "setup" | "disable" | "regenerate" | "recovery_codes";
+
+/**
+ * Profile card for the signed-in user's own 2FA: enable, disable and new recovery codes
+ */
+export function TwoFactorSettingsCard() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loadingStatus, setLoadingStatus] = useState(true);
+  const [mode, setMode] = useState<SettingsMode>("idle");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const { t, formatNumber, formatDate } = useLocale();
+
+  const loadStatus = useCallback(async () => {
+    setLoadingStatus(true);
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch (error) {
+      console.error("Failed to load two-factor status", error);
+      setStatus(null);
+    } finally {
+      setLoadingStatus(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const reset = () => {
+    setMode("idle");
+    setSetup(null);
+    setCode("");
+    setRecoveryCode("");
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      setCode("");
+      toast.error((error as { message?: string })?.message || t("twoFactor.requestFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    run(async () => {
+      setSetup(await beginTwoFactorEnrollment());
+      setCode("");
+      setMode("setup");
+    });
+
+  const handleConfirmSetup = (value = code) =>
+    run(async () => {
+      if (value.length !== 6) return;
+      const result = await confirmTwoFactorEnrollment(value);
+      setRecoveryCodes(result.recovery_codes);
+      setSetup(null);
+      setCode("");
+      setMode("recovery_codes");
+      toast.success(t("twoFactor.enabledToast"));
+      await loadStatus();
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      await disableTwoFactor(recoveryCode.trim() ? { recovery_code: recoveryCode.trim() } : { code });
+      reset();
+      toast.success(t("twoFactor.disabledToast"));
+      await loadStatus();
+    });
+
+  const handleRegenerate = (value = code) =>
+    run(async () => {
+      if (value.length !== 6) return;
+      const result = await regenerateRecoveryCodes(value);
+      setRecoveryCodes(result.recovery_codes);
+      setCode("");
+      setMode("recovery_codes");
+      toast.success(t("twoFactor.codesRegenerated"));
+      await loadStatus();
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {t("twoFactor.title")}
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? t("twoFactor.enabled") : t("twoFactor.disabled")}</Badge>
+          )}
+          {status?.required && <Badge variant="outline">{t("twoFactor.required")}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {t("twoFactor.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loadingStatus && !status ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t("common.loading")}
+          </div>
+        ) : !status ? (
+          <p className="text-sm text-muted-foreground">{t("twoFactor.statusUnavailable")}</p>
+        ) : (
+          <div className="max-w-md space-y-4">
+            {mode === "idle" && (
+              <>
+                {status.enabled ? (
+                  <p className="text-sm text-muted-foreground">
+                    {status.enrolled_at
+                      ? t("twoFactor.enabledSince", { date: formatDate(status.enrolled_at) })
+                      : t("twoFactor.enabledStatus")}{" "}
+                    {t(status.recovery_codes_remaining === 1 ? "twoFactor.codeLeft" : "twoFactor.codesLeft", {
+                      count: formatNumber(status.recovery_codes_remaining),
+                    })}
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {status.required
+                      ? t("twoFactor.requiredHint")
+                      : t("twoFactor.protectHint")}
+                  </p>
+                )}
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  {status.enabled ? (
+                    <>
+                      <Button variant="outline" className="gap-2" onClick={() => setMode("regenerate")}>
+                        <KeyRound className="h-4 w-4" />
+                        {t("twoFactor.newCodes")}
+                      </Button>
+                      {!status.required && (
+                        <Button variant="destructive" className="gap-2" onClick={() => setMode("disable")}>
+                          <ShieldOff className="h-4 w-4" />
+                          {t("twoFactor.disable")}
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <Button className="gap-2" onClick={() => void handleStartSetup()} disabled={busy}>
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                      {t("twoFactor.enable")}
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+
+            {mode === "setup" && setup && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {t("twoFactor.scanHint")}
+                </p>
+                <TwoFactorQrCode otpauthUrl={setup.otpauth_url} secret={setup.secret} />
+                <TwoFactorCodeInput value={code} onChange={setCode} onComplete={(value) => void handleConfirmSetup(value)} disabled={busy} />
+                <div className="flex gap-2">
+                  <Button className="flex-1" onClick={() => void handleConfirmSetup()} disabled={busy || code.length !== 6}>
+                    {t("twoFactor.verifyEnable")}
+                  </Button>
+                  <Button variant="outline" onClick={reset} disabled={busy}>
+                    {t("common.cancel")}
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {mode === "regenerate" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {t("twoFactor.regenerateHint")}
+                </p>
+                <TwoFactorCodeInput value={code} onChange={setCode} onComplete={(value) => void handleRegenerate(value)} disabled={busy} />
+                <div className="flex gap-2">
+                  <Button className="flex-1" onClick={() => void handleRegenerate()} disabled={busy || code.length !== 6}>
+                    {t("twoFactor.generate")}
+                  </Button>
+                  <Button variant="outline" onClick={reset} disabled={busy}>
+                    {t("common.cancel")}
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {mode === "disable" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {t("twoFactor.disableHint")}
+                </p>
+                <TwoFactorCodeInput value={code} onChange={setCode} disabled={busy} />
+                <div className="space-y-2">
+                  <Label htmlFor="disable-recovery-code">{t("twoFactor.orRecoveryCode")}</Label>
+                  <Input
+                    id="disable-recovery-code"
+                    placeholder="xxxxx-xxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="destructive"
+                    className="flex-1"
+                    onClick={() => void handleDisable()}
+                    disabled={busy || (code.length !== 6 && !recoveryCode.trim())}
+                  >
+                    {t("twoFactor.disableFull")}
+                  </Button>
+                  <Button variant="outline" onClick={reset} disabled={busy}>
+                    {t("common.cancel")}
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {mode === "recovery_codes" && (
+              <>
+                <RecoveryCodesList codes={recoveryCodes} />
+                <Button
+                  className="w-full"
+                  onClick={() => {
+                    setRecoveryCodes([]);
+                    reset();
+                  }}
+                >
+                  {t("twoFactor.done")}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,7 +10,8 @@ import {
   AlertCircle,
   Clock,
   Pencil,
-  Trash2
+  Trash2,
+  RefreshCw
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -25,8 +26,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { toast } from "sonner";
 import * as XLSX from "@e965/xlsx";
 import { supabase } from "../lib/supabaseClient";
-import type { VatReturnInsert, VatReturnRow, VatReturnUpdate, VatStatus } from "../../supabase/models/vat_management";
+import type { VatReturnInsert, VatReturnRow, VatReturnUpdate, VatSourceDocument, VatSourceSnapshot, VatStatus } from "../../supabase/models/vat_management";
+import { computeVatReturn, isVatSnapshotOutOfDate } from "../lib/vatReturns";
+import type { VatReturnComputation } from "../lib/vatReturns";
 import type { ZakatRecordInsert, ZakatRecordRow, ZakatRecordUpdate, ZakatStatus } from "../../supabase/models/zakat_management";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 
 const VAT_TABLE = "vat_returns";
 const ZAKAT_TABLE = "zakat_records";
@@ -54,6 +59,7 @@ interface QuarterlyVAT {
   paymentDate?: string;
   notes?: string;
   createdAt?: string;
+  sourceSnapshot: VatSourceSnapshot | null;
 }
 
 interface ZakatRecord {
@@ -78,6 +84,13 @@ const quarterDatesMap = (year: number) => ({
   Q4: { start: `${year}-10-01`, end: `${year}-12-31` }
 });
 
+const QUARTER_KEYS: Record<Quarter, MessageKey> = {
+  Q1: "vat.quarter.q1",
+  Q2: "vat.quarter.q2",
+  Q3: "vat.quarter.q3",
+  Q4: "vat.quarter.q4"
+};
+
 const quarterOrder: Record<Quarter, number> = {
   Q1: 1,
   Q2: 2,
@@ -102,7 +115,29 @@ const mapVatRowToRecord = (row: VatReturnRow): QuarterlyVAT => ({
   submissionDate: row.submission_date ?? undefined,
   paymentDate: row.payment_date ?? undefined,
   notes: row.notes ?? undefined,
-  createdAt: row.created_at
+  createdAt: row.created_at,
+  sourceSnapshot: row.source_snapshot ?? null
+});
+
+const VAT_SOURCE_KEYS: Record<VatSourceDocument["source"], MessageKey> = {
+  invoice: "vat.source.invoice",
+  purchase: "vat.source.purchase",
+  expense: "vat.source.expense",
+  return: "vat.source.return",
+  credit_note: "vat.source.creditNote",
+  debit_note: "vat.source.debitNote"
+};
+
+// Figures stored on vat_returns for a computed return
+const vatFiguresFromComputation = (computation: VatReturnComputation) => ({
+  sales_inc_vat: computation.sales.incVat,
+  sales_exc_vat: computation.sales.excVat,
+  vat_on_sales: computation.sales.vat,
+  purchases_inc_vat: computation.purchases.incVat,
+  purchases_exc_vat: computation.purchases.excVat,
+  input_vat: computation.purchases.vat,
+  net_vat_payable: computation.netVatPayable,
+  source_snapshot: computation.snapshot
 });
 
 const mapZakatRowToRecord = (row: ZakatRecordRow): ZakatRecord => ({
@@ -132,6 +167,7 @@ const sortZakatRecords = (records: ZakatRecord[]) =>
   [...records].sort((a, b) => b.year - a.year);
 
 export function VAT() {
+  const { t, formatCurrency, formatDate, formatDateTime } = useLocale();
   const [vatRecords, setVatRecords] = useState<QuarterlyVAT[]>([]);
   const [zakatRecords, setZakatRecords] = useState<ZakatRecord[]>([]);
   const [vatLoading, setVatLoading] = useState(false);
@@ -149,6 +185,10 @@ export function VAT() {
   const [selectedZakat, setSelectedZakat] = useState<ZakatRecord | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isZakatDetailsOpen, setIsZakatDetailsOpen] = useState(false);
+  const [vatComputation, setVatComputation] = useState<VatReturnComputation | null>(null);
+  const [vatComputing, setVatComputing] = useState(false);
+  const [outOfDateVatIds, setOutOfDateVatIds] = useState<Set<string>>(new Set());
+  const [recalculatingVatId, setRecalculatingVatId] = useState<string | null>(null);
   const appendInitialError = useCallback((message: string) => {
     setInitialLoadError((prev) => (prev ? `${prev}\n${message}` : message));
   }, []);
@@ -171,9 +211,9 @@ export function VAT() {
     } catch (error) {
       console.error("Failed to fetch VAT records", error);
       const message =
-        error instanceof Error ? error.message : "Failed to load VAT records";
+        error instanceof Error ? error.message : translateCurrent("vat.loadFailed");
       appendInitialError(message);
-      toast.error("Failed to load VAT records");
+      toast.error(translateCurrent("vat.loadFailed"));
     } finally {
       setVatLoading(false);
     }
@@ -196,9 +236,9 @@ export function VAT() {
     } catch (error) {
       console.error("Failed to fetch Zakat records", error);
       const message =
-        error instanceof Error ? error.message : "Failed to load Zakat records";
+        error instanceof Error ? error.message : translateCurrent("vat.zakatLoadFailed");
       appendInitialError(message);
-      toast.error("Failed to load Zakat records");
+      toast.error(translateCurrent("vat.zakatLoadFailed"));
     } finally {
       setZakatLoading(false);
     }
@@ -237,6 +277,100 @@ export function VAT() {
     });
     setVatFormMode("create");
     setEditingVATId(null);
+    setVatComputation(null);
+  };
+
+  // Fill the form from invoices, purchases, expenses and returns whenever the period changes
+  useEffect(() => {
+    if (!isVatFormOpen) return;
+    const year = parseInt(vatFormData.year);
+    if (Number.isNaN(year) || year < 2000) return;
+
+    const dates = quarterDatesMap(year)[vatFormData.quarter as Quarter];
+    let cancelled = false;
+    setVatComputing(true);
+    computeVatReturn(dates.start, dates.end)
+      .then((computation) => {
+        if (cancelled) return;
+        setVatComputation(computation);
+        setVatFormData((prev) => ({
+          ...prev,
+          totalSalesIncVAT: computation.sales.incVat.toString(),
+          totalPurchasesIncVAT: computation.purchases.incVat.toString()
+        }));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Failed to compute VAT return", error);
+        setVatComputation(null);
+        toast.error(translateCurrent("vat.computeFailed"));
+      })
+      .finally(() => {
+        if (!cancelled) setVatComputing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVatFormOpen, vatFormData.quarter, vatFormData.year]);
+
+  // Flag computed returns whose source documents changed after they were built
+  useEffect(() => {
+    const computed = vatRecords.filter((record) => record.sourceSnapshot);
+    if (computed.length === 0) {
+      setOutOfDateVatIds(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(
+      computed.map(async (record) => {
+        const current = await computeVatReturn(record.startDate, record.endDate);
+        return isVatSnapshotOutOfDate(record.sourceSnapshot, current.snapshot) ? record.id : null;
+      })
+    )
+      .then((ids) => {
+        if (!cancelled) {
+          setOutOfDateVatIds(new Set(ids.filter((id): id is string => id !== null)));
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to check VAT returns for changes", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vatRecords]);
+
+  const handleRecalculateVAT = async (record: QuarterlyVAT) => {
+    setRecalculatingVatId(record.id);
+    try {
+      const computation = await computeVatReturn(record.startDate, record.endDate);
+      const { data, error } = await supabase
+        .from(VAT_TABLE)
+        .update(vatFiguresFromComputation(computation))
+        .eq("vat_return_id", record.id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw error ?? new Error("No data returned while recalculating VAT record");
+      }
+
+      const updatedVAT = mapVatRowToRecord(data as VatReturnRow);
+      setVatRecords(prev => sortVatRecords(prev.map(vat => (vat.id === record.id ? updatedVAT : vat))));
+      if (selectedVAT?.id === record.id) {
+        setSelectedVAT(updatedVAT);
+      }
+      toast.success(translateCurrent("vat.recalculated"));
+    } catch (error) {
+      console.error("Failed to recalculate VAT record", error);
+      const message = error instanceof Error ? error.message : translateCurrent("vat.recalculateFailed");
+      toast.error(message);
+    } finally {
+      setRecalculatingVatId(null);
+    }
   };
 
   const resetZakatForm = () => {
@@ -316,9 +450,9 @@ export function VAT() {
       XLSX.utils.book_append_sheet(wb, ws, "VAT Returns");
       const fileName = `vat_returns_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("VAT Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export VAT Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -346,38 +480,30 @@ export function VAT() {
       XLSX.utils.book_append_sheet(wb, ws, "Zakat Records");
       const fileName = `zakat_records_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Zakat Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Zakat Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
 
   const handleSaveVAT = async () => {
-    if (!vatFormData.totalSalesIncVAT || !vatFormData.totalPurchasesIncVAT) {
-      toast.error("Please fill in all required fields");
-      return;
-    }
-
-    const salesIncVAT = parseFloat(vatFormData.totalSalesIncVAT);
-    const purchasesIncVAT = parseFloat(vatFormData.totalPurchasesIncVAT);
-
-    const sales = calculateVATFromInclusive(salesIncVAT);
-    const purchases = calculateVATFromInclusive(purchasesIncVAT);
-
-    const netVAT = sales.vatAmount - purchases.vatAmount;
-
     // Determine quarter dates
     const year = parseInt(vatFormData.year);
     if (Number.isNaN(year)) {
-      toast.error("Year must be a valid number");
+      toast.error(t("vat.invalidYear"));
       return;
     }
     const dates = quarterDatesMap(year)[vatFormData.quarter as Quarter];
 
+    if (!vatComputation || vatComputation.periodStart !== dates.start || vatComputation.periodEnd !== dates.end) {
+      toast.error(vatComputing ? t("vat.stillCalculating") : t("vat.notCalculated"));
+      return;
+    }
+
     if (vatFormMode === "edit") {
       if (editingVATId === null) {
-        toast.error("Unable to update VAT record");
+        toast.error(t("vat.updateFailed"));
         return;
       }
 
@@ -389,13 +515,7 @@ export function VAT() {
         year,
         period_start_date: dates.start,
         period_end_date: dates.end,
-        sales_inc_vat: salesIncVAT,
-        sales_exc_vat: sales.amountExcVAT,
-        vat_on_sales: sales.vatAmount,
-        purchases_inc_vat: purchasesIncVAT,
-        purchases_exc_vat: purchases.amountExcVAT,
-        input_vat: purchases.vatAmount,
-        net_vat_payable: netVAT,
+        ...vatFiguresFromComputation(vatComputation),
         notes: vatFormData.notes || null
       };
 
@@ -416,12 +536,12 @@ export function VAT() {
         if (selectedVAT?.id === editingVATId) {
           setSelectedVAT(updatedVAT);
         }
-        toast.success("VAT record updated successfully");
+        toast.success(translateCurrent("vat.updated"));
         setIsVatFormOpen(false);
         resetVATForm();
       } catch (error) {
         console.error("Failed to update VAT record", error);
-        const message = error instanceof Error ? error.message : "Failed to update VAT record";
+        const message = error instanceof Error ? error.message : translateCurrent("vat.updateFailed");
         toast.error(message);
       } finally {
         setVatSaving(false);
@@ -434,13 +554,7 @@ export function VAT() {
         year,
         period_start_date: dates.start,
         period_end_date: dates.end,
-        sales_inc_vat: salesIncVAT,
-        sales_exc_vat: sales.amountExcVAT,
-        vat_on_sales: sales.vatAmount,
-        purchases_inc_vat: purchasesIncVAT,
-        purchases_exc_vat: purchases.amountExcVAT,
-        input_vat: purchases.vatAmount,
-        net_vat_payable: netVAT,
+        ...vatFiguresFromComputation(vatComputation),
         status: "draft",
         notes: vatFormData.notes || null
       };
@@ -458,12 +572,12 @@ export function VAT() {
 
         const newVAT = mapVatRowToRecord(data as VatReturnRow);
         setVatRecords(prev => sortVatRecords([newVAT, ...prev]));
-        toast.success("VAT record added successfully");
+        toast.success(translateCurrent("vat.added"));
         setIsVatFormOpen(false);
         resetVATForm();
       } catch (error) {
         console.error("Failed to create VAT record", error);
-        const message = error instanceof Error ? error.message : "Failed to create VAT record";
+        const message = error instanceof Error ? error.message : translateCurrent("vat.createFailed");
         toast.error(message);
       } finally {
         setVatSaving(false);
@@ -473,7 +587,7 @@ export function VAT() {
 
   const handleSaveZakat = async () => {
     if (!zakatFormData.totalAssets || !zakatFormData.totalLiabilities) {
-      toast.error("Please fill in all required fields");
+      toast.error(t("vat.requiredFields"));
       return;
     }
 
@@ -484,13 +598,13 @@ export function VAT() {
 
     const year = parseInt(zakatFormData.year);
     if (Number.isNaN(year)) {
-      toast.error("Year must be a valid number");
+      toast.error(t("vat.invalidYear"));
       return;
     }
 
     if (zakatFormMode === "edit") {
       if (editingZakatId === null) {
-        toast.error("Unable to update Zakat record");
+        toast.error(t("vat.zakatUpdateFailed"));
         return;
       }
 
@@ -524,12 +638,12 @@ export function VAT() {
         if (selectedZakat?.id === editingZakatId) {
           setSelectedZakat(updatedZakat);
         }
-        toast.success("Zakat record updated successfully");
+        toast.success(translateCurrent("vat.zakatUpdated"));
         setIsZakatFormOpen(false);
         resetZakatForm();
       } catch (error) {
         console.error("Failed to update Zakat record", error);
-        const message = error instanceof Error ? error.message : "Failed to update Zakat record";
+        const message = error instanceof Error ? error.message : translateCurrent("vat.zakatUpdateFailed");
         toast.error(message);
       } finally {
         setZakatSaving(false);
@@ -561,12 +675,12 @@ export function VAT() {
 
         const newZakat = mapZakatRowToRecord(data as ZakatRecordRow);
         setZakatRecords(prev => sortZakatRecords([newZakat, ...prev]));
-        toast.success("Zakat record added successfully");
+        toast.success(translateCurrent("vat.zakatAdded"));
         setIsZakatFormOpen(false);
         resetZakatForm();
       } catch (error) {
         console.error("Failed to create Zakat record", error);
-        const message = error instanceof Error ? error.message : "Failed to create Zakat record";
+        const message = error instanceof Error ? error.message : translateCurrent("vat.zakatCreateFailed");
         toast.error(message);
       } finally {
         setZakatSaving(false);
@@ -578,12 +692,12 @@ export function VAT() {
     const record = vatRecords.find(v => v.id === id);
 
     if (!record) {
-      toast.error("VAT record not found");
+      toast.error(t("vat.notFound"));
       return;
     }
 
     const shouldDelete = typeof window !== "undefined"
-      ? window.confirm(`Delete VAT record for ${record.quarter} ${record.year}?`)
+      ? window.confirm(t("vat.deleteConfirm", { period: t("vat.period", { quarter: t(QUARTER_KEYS[record.quarter]), year: record.year }) }))
       : true;
 
     if (!shouldDelete) {
@@ -603,10 +717,10 @@ export function VAT() {
         setIsDetailsOpen(false);
       }
 
-      toast.success("VAT record deleted successfully");
+      toast.success(translateCurrent("vat.deleted"));
     } catch (error) {
       console.error("Failed to delete VAT record", error);
-      const message = error instanceof Error ? error.message : "Failed to delete VAT record";
+      const message = error instanceof Error ? error.message : translateCurrent("vat.deleteFailed");
       toast.error(message);
     }
   };
@@ -615,12 +729,12 @@ export function VAT() {
     const record = zakatRecords.find(z => z.id === id);
 
     if (!record) {
-      toast.error("Zakat record not found");
+      toast.error(t("vat.zakatNotFound"));
       return;
     }
 
     const shouldDelete = typeof window !== "undefined"
-      ? window.confirm(`Delete Zakat record for ${record.year}?`)
+      ? window.confirm(t("vat.zakatDeleteConfirm", { year: record.year }))
       : true;
 
     if (!shouldDelete) {
@@ -640,10 +754,10 @@ export function VAT() {
         setIsZakatDetailsOpen(false);
       }
 
-      toast.success("Zakat record deleted successfully");
+      toast.success(translateCurrent("vat.zakatDeleted"));
     } catch (error) {
       console.error("Failed to delete Zakat record", error);
-      const message = error instanceof Error ? error.message : "Failed to delete Zakat record";
+      const message = error instanceof Error ? error.message : translateCurrent("vat.zakatDeleteFailed");
       toast.error(message);
     }
   };
@@ -651,7 +765,7 @@ export function VAT() {
   const updateVATStatus = async (id: string, newStatus: VatStatus) => {
     const existing = vatRecords.find(v => v.id === id);
     if (!existing) {
-      toast.error("VAT record not found");
+      toast.error(t("vat.notFound"));
       return;
     }
 
@@ -687,10 +801,10 @@ export function VAT() {
       if (selectedVAT?.id === id) {
         setSelectedVAT(updated);
       }
-      toast.success("Status updated successfully");
+      toast.success(translateCurrent("vat.statusUpdated"));
     } catch (error) {
       console.error("Failed to update VAT status", error);
-      const message = error instanceof Error ? error.message : "Failed to update VAT status";
+      const message = error instanceof Error ? error.message : translateCurrent("vat.statusUpdateFailed");
       toast.error(message);
     }
   };
@@ -698,7 +812,7 @@ export function VAT() {
   const updateZakatStatus = async (id: string, newStatus: ZakatStatus) => {
     const existing = zakatRecords.find(z => z.id === id);
     if (!existing) {
-      toast.error("Zakat record not found");
+      toast.error(t("vat.zakatNotFound"));
       return;
     }
 
@@ -734,20 +848,20 @@ export function VAT() {
       if (selectedZakat?.id === id) {
         setSelectedZakat(updated);
       }
-      toast.success("Status updated successfully");
+      toast.success(translateCurrent("vat.statusUpdated"));
     } catch (error) {
       console.error("Failed to update Zakat status", error);
-      const message = error instanceof Error ? error.message : "Failed to update Zakat status";
+      const message = error instanceof Error ? error.message : translateCurrent("vat.statusUpdateFailed");
       toast.error(message);
     }
   };
 
   const getStatusBadge = (status: string) => {
     const badges = {
-      draft: { color: "bg-slate-100 text-slate-700", label: "Draft", icon: FileText },
-      pending: { color: "bg-yellow-100 text-yellow-700", label: "Pending", icon: Clock },
-      submitted: { color: "bg-blue-100 text-blue-700", label: "Submitted", icon: CheckCircle2 },
-      paid: { color: "bg-green-100 text-green-700", label: "Paid", icon: CheckCircle2 }
+      draft: { color: "bg-slate-100 text-slate-700", label: t("status.draft"), icon: FileText },
+      pending: { color: "bg-yellow-100 text-yellow-700", label: t("status.pending"), icon: Clock },
+      submitted: { color: "bg-blue-100 text-blue-700", label: t("vat.submitted"), icon: CheckCircle2 },
+      paid: { color: "bg-green-100 text-green-700", label: t("status.paid"), icon: CheckCircle2 }
     };
     return badges[status as keyof typeof badges] || badges.draft;
   };
@@ -757,9 +871,9 @@ export function VAT() {
       {/* Header */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
-          <h1 className="text-2xl mb-1">VAT & Zakat Management</h1>
+          <h1 className="text-2xl mb-1">{t("vat.title")}</h1>
           <p className="text-sm text-muted-foreground">
-            Manage Value Added Tax (15%) and Zakat (2.5%) calculations and submissions
+            {t("vat.subtitle")}
           </p>
         </div>
         <div className="flex gap-2">
@@ -773,7 +887,7 @@ export function VAT() {
             className="gap-2"
           >
             <Building2 className="w-4 h-4" />
-            Add Zakat
+            {t("vat.addZakat")}
           </Button>
           <Button
             onClick={() => {
@@ -784,7 +898,7 @@ export function VAT() {
             className="gap-2 bg-purple-600 hover:bg-purple-700 text-white"
           >
             <Plus className="w-4 h-4" />
-            New VAT Record
+            {t("vat.new")}
           </Button>
         </div>
       </div>
@@ -799,49 +913,49 @@ export function VAT() {
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Total VAT Collected</CardTitle>
+            <CardTitle className="text-sm">{t("vat.totalCollected")}</CardTitle>
             <Receipt className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {totalVATCollected.toLocaleString()}</div>
+            <div className="text-2xl">{formatCurrency(totalVATCollected)}</div>
             <p className="text-xs text-muted-foreground">
-              Year {currentYear}
+              {t("vat.year", { year: currentYear })}
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Net VAT Payable</CardTitle>
+            <CardTitle className="text-sm">{t("vat.netPayable")}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {totalNetVATPayable.toLocaleString()}</div>
+            <div className="text-2xl">{formatCurrency(totalNetVATPayable)}</div>
             <p className="text-xs text-muted-foreground">
-              After input VAT: SAR {totalInputVAT.toLocaleString()}
+              {t("vat.afterInputVat", { amount: formatCurrency(totalInputVAT) })}
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Pending VAT</CardTitle>
+            <CardTitle className="text-sm">{t("vat.pending")}</CardTitle>
             <AlertCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {pendingVAT.toLocaleString()}</div>
+            <div className="text-2xl">{formatCurrency(pendingVAT)}</div>
             <p className="text-xs text-muted-foreground">
-              Paid: SAR {paidVAT.toLocaleString()}
+              {t("vat.paidAmount", { amount: formatCurrency(paidVAT) })}
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm">Zakat Due</CardTitle>
+            <CardTitle className="text-sm">{t("vat.zakatDue")}</CardTitle>
             <Building2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl">SAR {totalZakatDue.toLocaleString()}</div>
+            <div className="text-2xl">{formatCurrency(totalZakatDue)}</div>
             <p className="text-xs text-muted-foreground">
-              Year {currentYear} @ 2.5%
+              {t("vat.zakatYearRate", { year: currentYear })}
             </p>
           </CardContent>
         </Card>
@@ -850,9 +964,9 @@ export function VAT() {
       {/* Tabs */}
       <Tabs defaultValue="vat" className="space-y-4">
         <TabsList>
-          <TabsTrigger value="vat">VAT Returns</TabsTrigger>
-          <TabsTrigger value="zakat">Zakat</TabsTrigger>
-          <TabsTrigger value="calculator">VAT Calculator</TabsTrigger>
+          <TabsTrigger value="vat">{t("vat.tabReturns")}</TabsTrigger>
+          <TabsTrigger value="zakat">{t("vat.tabZakat")}</TabsTrigger>
+          <TabsTrigger value="calculator">{t("vat.calculator")}</TabsTrigger>
         </TabsList>
 
         {/* VAT Tab */}
@@ -861,12 +975,12 @@ export function VAT() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Quarterly VAT Returns</CardTitle>
-                  <CardDescription>Value Added Tax (15%) quarterly submissions</CardDescription>
+                  <CardTitle>{t("vat.returnsTitle")}</CardTitle>
+                  <CardDescription>{t("vat.returnsDescription")}</CardDescription>
                 </div>
                 <Button onClick={exportVATToExcel} variant="outline" className="gap-2">
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
@@ -875,26 +989,26 @@ export function VAT() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Period</TableHead>
-                      <TableHead>Sales (Inc VAT)</TableHead>
-                      <TableHead>VAT on Sales</TableHead>
-                      <TableHead>Input VAT</TableHead>
-                      <TableHead>Net VAT Payable</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("vat.periodHeading")}</TableHead>
+                      <TableHead>{t("vat.salesIncVat")}</TableHead>
+                      <TableHead>{t("vat.vatOnSales")}</TableHead>
+                      <TableHead>{t("vat.inputVat")}</TableHead>
+                      <TableHead>{t("vat.netPayable")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {vatLoading ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                          Loading VAT records...
+                          {t("vat.loading")}
                         </TableCell>
                       </TableRow>
                     ) : vatRecords.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                          No VAT records found
+                          {t("vat.empty")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -906,42 +1020,50 @@ export function VAT() {
                           <TableRow key={vat.id}>
                             <TableCell>
                               <div>
-                                <div className="font-medium">{vat.quarter} {vat.year}</div>
+                                <div className="font-medium">{t("vat.period", { quarter: t(QUARTER_KEYS[vat.quarter]), year: vat.year })}</div>
                                 <div className="text-xs text-muted-foreground">
-                                  {new Date(vat.startDate).toLocaleDateString('en-GB')} - {new Date(vat.endDate).toLocaleDateString('en-GB')}
+                                  {formatDate(vat.startDate)} - {formatDate(vat.endDate)}
                                 </div>
                               </div>
                             </TableCell>
                             <TableCell>
                               <div>
-                                <div className="font-medium">SAR {vat.totalSalesIncVAT.toLocaleString()}</div>
+                                <div className="font-medium">{formatCurrency(vat.totalSalesIncVAT)}</div>
                                 <div className="text-xs text-muted-foreground">
-                                  Exc: SAR {vat.totalSalesExcVAT.toLocaleString()}
+                                  {t("vat.excludingShort", { amount: formatCurrency(vat.totalSalesExcVAT) })}
                                 </div>
                               </div>
                             </TableCell>
                             <TableCell>
                               <span className="font-medium text-green-600">
-                                SAR {vat.vatAmount.toLocaleString()}
+                                {formatCurrency(vat.vatAmount)}
                               </span>
                             </TableCell>
                             <TableCell>
                               <span className="font-medium text-blue-600">
-                                SAR {vat.inputVAT.toLocaleString()}
+                                {formatCurrency(vat.inputVAT)}
                               </span>
                             </TableCell>
                             <TableCell>
                               <span className="font-medium text-lg">
-                                SAR {vat.netVATPayable.toLocaleString()}
+                                {formatCurrency(vat.netVATPayable)}
                               </span>
                             </TableCell>
                             <TableCell>
-                              <Badge className={statusBadge.color}>
-                                <StatusIcon className="w-3 h-3 mr-1" />
-                                {statusBadge.label}
-                              </Badge>
+                              <div className="flex flex-col items-start gap-1">
+                                <Badge className={statusBadge.color}>
+                                  <StatusIcon className="w-3 h-3 me-1" />
+                                  {statusBadge.label}
+                                </Badge>
+                                {outOfDateVatIds.has(vat.id) && (
+                                  <Badge className="bg-orange-100 text-orange-700 border-orange-200">
+                                    <AlertCircle className="w-3 h-3 me-1" />
+                                    {t("vat.outOfDate")}
+                                  </Badge>
+                                )}
+                              </div>
                             </TableCell>
-                            <TableCell className="text-right">
+                            <TableCell className="text-end">
                               <div className="flex justify-end gap-1">
                                 <Button
                                   variant="ghost"
@@ -988,7 +1110,7 @@ export function VAT() {
                                       void updateVATStatus(vat.id, "submitted");
                                     }}
                                   >
-                                    Submit
+                                    {t("vat.submit")}
                                   </Button>
                                 )}
                                 {vat.status === "submitted" && (
@@ -999,7 +1121,7 @@ export function VAT() {
                                       void updateVATStatus(vat.id, "paid");
                                     }}
                                   >
-                                    Mark Paid
+                                    {t("vat.markPaid")}
                                   </Button>
                                 )}
                               </div>
@@ -1021,12 +1143,12 @@ export function VAT() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Zakat Records</CardTitle>
-                  <CardDescription>Annual Zakat (2.5%) on net assets</CardDescription>
+                  <CardTitle>{t("vat.zakatRecords")}</CardTitle>
+                  <CardDescription>{t("vat.zakatDescription")}</CardDescription>
                 </div>
                 <Button onClick={exportZakatToExcel} variant="outline" className="gap-2">
                   <Download className="h-4 w-4" />
-                  Export Excel
+                  {t("common.exportExcel")}
                 </Button>
               </div>
             </CardHeader>
@@ -1035,26 +1157,26 @@ export function VAT() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Year</TableHead>
-                      <TableHead>Total Assets</TableHead>
-                      <TableHead>Liabilities</TableHead>
-                      <TableHead>Net Assets</TableHead>
-                      <TableHead>Zakat Due (2.5%)</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("vat.yearHeading")}</TableHead>
+                      <TableHead>{t("vat.totalAssets")}</TableHead>
+                      <TableHead>{t("vat.liabilities")}</TableHead>
+                      <TableHead>{t("vat.netAssets")}</TableHead>
+                      <TableHead>{t("vat.zakatDueRate")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-end">{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {zakatLoading ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                          Loading Zakat records...
+                          {t("vat.zakatLoading")}
                         </TableCell>
                       </TableRow>
                     ) : zakatRecords.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                          No Zakat records found
+                          {t("vat.zakatEmpty")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -1068,26 +1190,26 @@ export function VAT() {
                               <div className="font-medium">{zakat.year}</div>
                             </TableCell>
                             <TableCell>
-                              <span className="font-medium">SAR {zakat.totalAssets.toLocaleString()}</span>
+                              <span className="font-medium">{formatCurrency(zakat.totalAssets)}</span>
                             </TableCell>
                             <TableCell>
-                              <span className="text-red-600">SAR {zakat.totalLiabilities.toLocaleString()}</span>
+                              <span className="text-red-600">{formatCurrency(zakat.totalLiabilities)}</span>
                             </TableCell>
                             <TableCell>
-                              <span className="font-medium">SAR {zakat.netAssets.toLocaleString()}</span>
+                              <span className="font-medium">{formatCurrency(zakat.netAssets)}</span>
                             </TableCell>
                             <TableCell>
                               <span className="font-medium text-lg text-blue-600">
-                                SAR {zakat.zakatDue.toLocaleString()}
+                                {formatCurrency(zakat.zakatDue)}
                               </span>
                             </TableCell>
                             <TableCell>
                               <Badge className={statusBadge.color}>
-                                <StatusIcon className="w-3 h-3 mr-1" />
+                                <StatusIcon className="w-3 h-3 me-1" />
                                 {statusBadge.label}
                               </Badge>
                             </TableCell>
-                            <TableCell className="text-right">
+                            <TableCell className="text-end">
                               <div className="flex justify-end gap-1">
                                 <Button
                                   variant="ghost"
@@ -1133,7 +1255,7 @@ export function VAT() {
                                       void updateZakatStatus(zakat.id, "submitted");
                                     }}
                                   >
-                                    Submit
+                                    {t("vat.submit")}
                                   </Button>
                                 )}
                                 {zakat.status === "submitted" && (
@@ -1144,7 +1266,7 @@ export function VAT() {
                                       void updateZakatStatus(zakat.id, "paid");
                                     }}
                                   >
-                                    Mark Paid
+                                    {t("vat.markPaid")}
                                   </Button>
                                 )}
                               </div>
@@ -1165,12 +1287,12 @@ export function VAT() {
           <div className="grid gap-4 md:grid-cols-2">
             <Card>
               <CardHeader>
-                <CardTitle>VAT Calculator</CardTitle>
-                <CardDescription>Calculate VAT from amount including tax</CardDescription>
+                <CardTitle>{t("vat.calculator")}</CardTitle>
+                <CardDescription>{t("vat.calculatorDescription")}</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label htmlFor="amountIncVAT">Amount Including VAT (SAR)</Label>
+                  <Label htmlFor="amountIncVAT">{t("vat.amountIncVat")}</Label>
                   <Input
                     id="amountIncVAT"
                     type="number"
@@ -1187,17 +1309,17 @@ export function VAT() {
                 </div>
                 <div className="pt-4 border-t space-y-3">
                   <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Amount Excluding VAT:</span>
-                    <Input id="amountExcVAT" readOnly className="w-32 text-right" placeholder="100.00" />
+                    <span className="text-sm text-muted-foreground">{t("vat.amountExcVat")}</span>
+                    <Input id="amountExcVAT" readOnly className="w-32 text-end" placeholder="100.00" />
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">VAT Amount (15%):</span>
-                    <Input id="vatOnly" readOnly className="w-32 text-right" placeholder="15.00" />
+                    <span className="text-sm text-muted-foreground">{t("vat.vatAmountRate")}</span>
+                    <Input id="vatOnly" readOnly className="w-32 text-end" placeholder="15.00" />
                   </div>
                 </div>
                 <div className="p-4 bg-blue-50 rounded-lg">
                   <p className="text-sm text-blue-900">
-                    <strong>Formula:</strong> VAT = Amount Inc VAT × (0.15 / 1.15)
+                    <strong>{t("vat.formula")}</strong> {t("vat.vatFormula")}
                   </p>
                 </div>
               </CardContent>
@@ -1205,12 +1327,12 @@ export function VAT() {
 
             <Card>
               <CardHeader>
-                <CardTitle>Zakat Calculator</CardTitle>
-                <CardDescription>Calculate Zakat on net assets (2.5%)</CardDescription>
+                <CardTitle>{t("vat.zakatCalculator")}</CardTitle>
+                <CardDescription>{t("vat.zakatCalculatorDescription")}</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label htmlFor="zakatAssets">Total Assets (SAR)</Label>
+                  <Label htmlFor="zakatAssets">{t("vat.totalAssetsSar")}</Label>
                   <Input
                     id="zakatAssets"
                     type="number"
@@ -1230,7 +1352,7 @@ export function VAT() {
                   />
                 </div>
                 <div>
-                  <Label htmlFor="zakatLiabilities">Total Liabilities (SAR)</Label>
+                  <Label htmlFor="zakatLiabilities">{t("vat.totalLiabilitiesSar")}</Label>
                   <Input
                     id="zakatLiabilities"
                     type="number"
@@ -1251,17 +1373,17 @@ export function VAT() {
                 </div>
                 <div className="pt-4 border-t space-y-3">
                   <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Net Assets:</span>
-                    <Input id="zakatNetAssets" readOnly className="w-40 text-right" placeholder="3500000.00" />
+                    <span className="text-sm text-muted-foreground">{t("vat.netAssetsLabel")}</span>
+                    <Input id="zakatNetAssets" readOnly className="w-40 text-end" placeholder="3500000.00" />
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm font-medium">Zakat Due (2.5%):</span>
-                    <Input id="zakatDueCalc" readOnly className="w-40 text-right font-medium" placeholder="87500.00" />
+                    <span className="text-sm font-medium">{t("vat.zakatDueLabel")}</span>
+                    <Input id="zakatDueCalc" readOnly className="w-40 text-end font-medium" placeholder="87500.00" />
                   </div>
                 </div>
                 <div className="p-4 bg-green-50 rounded-lg">
                   <p className="text-sm text-green-900">
-                    <strong>Formula:</strong> Zakat = Net Assets × 2.5%
+                    <strong>{t("vat.formula")}</strong> {t("vat.zakatFormula")}
                   </p>
                 </div>
               </CardContent>
@@ -1282,33 +1404,33 @@ export function VAT() {
       >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>{vatFormMode === "edit" ? "Edit VAT Record" : "Add VAT Record"}</DialogTitle>
+            <DialogTitle>{vatFormMode === "edit" ? t("vat.editTitle") : t("vat.addTitle")}</DialogTitle>
             <DialogDescription>
               {vatFormMode === "edit"
-                ? "Update the quarterly VAT return values."
-                : "Add a new quarterly VAT return. Enter amounts including VAT."}
+                ? t("vat.editDescription")
+                : t("vat.addDescription")}
             </DialogDescription>
           </DialogHeader>
 
           <div className="grid gap-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
-                <Label htmlFor="quarter">Quarter *</Label>
+                <Label htmlFor="quarter">{t("vat.quarterRequired")}</Label>
                 <Select value={vatFormData.quarter} onValueChange={(value) => setVatFormData({ ...vatFormData, quarter: value })}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Q1">Q1 (Jan - Mar)</SelectItem>
-                    <SelectItem value="Q2">Q2 (Apr - Jun)</SelectItem>
-                    <SelectItem value="Q3">Q3 (Jul - Sep)</SelectItem>
-                    <SelectItem value="Q4">Q4 (Oct - Dec)</SelectItem>
+                    <SelectItem value="Q1">{t("vat.quarterRange.q1")}</SelectItem>
+                    <SelectItem value="Q2">{t("vat.quarterRange.q2")}</SelectItem>
+                    <SelectItem value="Q3">{t("vat.quarterRange.q3")}</SelectItem>
+                    <SelectItem value="Q4">{t("vat.quarterRange.q4")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="grid gap-2">
-                <Label htmlFor="year">Year *</Label>
+                <Label htmlFor="year">{t("vat.yearRequired")}</Label>
                 <Input
                   id="year"
                   type="number"
@@ -1319,63 +1441,66 @@ export function VAT() {
             </div>
 
             <div className="grid gap-2">
-              <Label htmlFor="totalSalesIncVAT">Total Sales (Including VAT) *</Label>
+              <Label htmlFor="totalSalesIncVAT">{t("vat.totalSalesIncVat")}</Label>
               <Input
                 id="totalSalesIncVAT"
                 type="number"
                 value={vatFormData.totalSalesIncVAT}
-                onChange={(e) => setVatFormData({ ...vatFormData, totalSalesIncVAT: e.target.value })}
-                placeholder="575000"
+                readOnly
+                className="bg-muted"
+                placeholder={vatComputing ? t("vat.calculating") : "0"}
               />
               <p className="text-xs text-muted-foreground">
-                Enter total sales amount including 15% VAT
+                {vatComputation
+                  ? t("vat.salesFrom", { count: vatComputation.sales.documents.length })
+                  : t("vat.salesHint")}
               </p>
             </div>
 
             <div className="grid gap-2">
-              <Label htmlFor="totalPurchasesIncVAT">Total Purchases (Including VAT) *</Label>
+              <Label htmlFor="totalPurchasesIncVAT">{t("vat.totalPurchasesIncVat")}</Label>
               <Input
                 id="totalPurchasesIncVAT"
                 type="number"
                 value={vatFormData.totalPurchasesIncVAT}
-                onChange={(e) => setVatFormData({ ...vatFormData, totalPurchasesIncVAT: e.target.value })}
-                placeholder="230000"
+                readOnly
+                className="bg-muted"
+                placeholder={vatComputing ? t("vat.calculating") : "0"}
               />
               <p className="text-xs text-muted-foreground">
-                Enter total purchases amount including 15% VAT
+                {vatComputation
+                  ? t("vat.purchasesFrom", { count: vatComputation.purchases.documents.length })
+                  : t("vat.purchasesHint")}
               </p>
             </div>
 
-            {vatFormData.totalSalesIncVAT && vatFormData.totalPurchasesIncVAT && (
+            {vatComputation && !vatComputing && (
               <div className="p-4 bg-blue-50 rounded-lg space-y-2">
-                <p className="text-sm font-medium text-blue-900">Calculation Preview:</p>
+                <p className="text-sm font-medium text-blue-900">{t("vat.preview")}</p>
                 <div className="text-xs space-y-1 text-blue-800">
                   <div className="flex justify-between">
-                    <span>VAT on Sales:</span>
-                    <span>SAR {calculateVATFromInclusive(parseFloat(vatFormData.totalSalesIncVAT)).vatAmount.toLocaleString()}</span>
+                    <span>{t("vat.vatOnSalesLabel")}</span>
+                    <span>{formatCurrency(vatComputation.sales.vat)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Input VAT:</span>
-                    <span>SAR {calculateVATFromInclusive(parseFloat(vatFormData.totalPurchasesIncVAT)).vatAmount.toLocaleString()}</span>
+                    <span>{t("vat.inputVatLabel")}</span>
+                    <span>{formatCurrency(vatComputation.purchases.vat)}</span>
                   </div>
                   <div className="flex justify-between font-medium pt-1 border-t border-blue-200">
-                    <span>Net VAT Payable:</span>
-                    <span>SAR {(
-                      calculateVATFromInclusive(parseFloat(vatFormData.totalSalesIncVAT)).vatAmount -
-                      calculateVATFromInclusive(parseFloat(vatFormData.totalPurchasesIncVAT)).vatAmount
-                    ).toLocaleString()}</span>
+                    <span>{t("vat.netPayableLabel")}</span>
+                    <span>{formatCurrency(vatComputation.netVatPayable)}</span>
                   </div>
                 </div>
               </div>
             )}
 
             <div className="grid gap-2">
-              <Label htmlFor="notes">Notes</Label>
+              <Label htmlFor="notes">{t("common.notes")}</Label>
               <Textarea
                 id="notes"
                 value={vatFormData.notes}
                 onChange={(e) => setVatFormData({ ...vatFormData, notes: e.target.value })}
-                placeholder="Additional notes..."
+                placeholder={t("vat.notesPlaceholder")}
                 rows={3}
               />
             </div>
@@ -1389,16 +1514,16 @@ export function VAT() {
                 resetVATForm();
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={() => {
                 void handleSaveVAT();
               }}
-              disabled={vatSaving}
+              disabled={vatSaving || vatComputing || !vatComputation}
               className="bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-70"
             >
-              {vatFormMode === "edit" ? "Save Changes" : "Add VAT Record"}
+              {vatFormMode === "edit" ? t("common.saveChanges") : t("vat.addTitle")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1416,17 +1541,17 @@ export function VAT() {
       >
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>{zakatFormMode === "edit" ? "Edit Zakat Record" : "Add Zakat Record"}</DialogTitle>
+            <DialogTitle>{zakatFormMode === "edit" ? t("vat.zakatEditTitle") : t("vat.zakatAddTitle")}</DialogTitle>
             <DialogDescription>
               {zakatFormMode === "edit"
-                ? "Update the annual Zakat calculation (2.5% on net assets)."
-                : "Add annual Zakat calculation (2.5% on net assets)"}
+                ? t("vat.zakatEditDescription")
+                : t("vat.zakatAddDescription")}
             </DialogDescription>
           </DialogHeader>
 
           <div className="grid gap-4">
             <div className="grid gap-2">
-              <Label htmlFor="zakatYear">Year *</Label>
+              <Label htmlFor="zakatYear">{t("vat.yearRequired")}</Label>
               <Input
                 id="zakatYear"
                 type="number"
@@ -1436,7 +1561,7 @@ export function VAT() {
             </div>
 
             <div className="grid gap-2">
-              <Label htmlFor="totalAssets">Total Assets (SAR) *</Label>
+              <Label htmlFor="totalAssets">{t("vat.totalAssetsRequired")}</Label>
               <Input
                 id="totalAssets"
                 type="number"
@@ -1447,7 +1572,7 @@ export function VAT() {
             </div>
 
             <div className="grid gap-2">
-              <Label htmlFor="totalLiabilities">Total Liabilities (SAR) *</Label>
+              <Label htmlFor="totalLiabilities">{t("vat.totalLiabilitiesRequired")}</Label>
               <Input
                 id="totalLiabilities"
                 type="number"
@@ -1459,35 +1584,35 @@ export function VAT() {
 
             {zakatFormData.totalAssets && zakatFormData.totalLiabilities && (
               <div className="p-4 bg-green-50 rounded-lg space-y-2">
-                <p className="text-sm font-medium text-green-900">Calculation Preview:</p>
+                <p className="text-sm font-medium text-green-900">{t("vat.preview")}</p>
                 <div className="text-xs space-y-1 text-green-800">
                   <div className="flex justify-between">
-                    <span>Total Assets:</span>
-                    <span>SAR {parseFloat(zakatFormData.totalAssets).toLocaleString()}</span>
+                    <span>{t("vat.totalAssetsLabel")}</span>
+                    <span>{formatCurrency(parseFloat(zakatFormData.totalAssets))}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Total Liabilities:</span>
-                    <span>SAR {parseFloat(zakatFormData.totalLiabilities).toLocaleString()}</span>
+                    <span>{t("vat.totalLiabilitiesLabel")}</span>
+                    <span>{formatCurrency(parseFloat(zakatFormData.totalLiabilities))}</span>
                   </div>
                   <div className="flex justify-between font-medium pt-1 border-t border-green-200">
-                    <span>Net Assets:</span>
-                    <span>SAR {(parseFloat(zakatFormData.totalAssets) - parseFloat(zakatFormData.totalLiabilities)).toLocaleString()}</span>
+                    <span>{t("vat.netAssetsLabel")}</span>
+                    <span>{formatCurrency((parseFloat(zakatFormData.totalAssets) - parseFloat(zakatFormData.totalLiabilities)))}</span>
                   </div>
                   <div className="flex justify-between font-medium text-base pt-1 border-t border-green-300">
-                    <span>Zakat Due (2.5%):</span>
-                    <span>SAR {((parseFloat(zakatFormData.totalAssets) - parseFloat(zakatFormData.totalLiabilities)) * ZAKAT_RATE).toLocaleString()}</span>
+                    <span>{t("vat.zakatDueLabel")}</span>
+                    <span>{formatCurrency(((parseFloat(zakatFormData.totalAssets) - parseFloat(zakatFormData.totalLiabilities)) * ZAKAT_RATE))}</span>
                   </div>
                 </div>
               </div>
             )}
 
             <div className="grid gap-2">
-              <Label htmlFor="zakatNotes">Notes</Label>
+              <Label htmlFor="zakatNotes">{t("common.notes")}</Label>
               <Textarea
                 id="zakatNotes"
                 value={zakatFormData.notes}
                 onChange={(e) => setZakatFormData({ ...zakatFormData, notes: e.target.value })}
-                placeholder="Additional notes..."
+                placeholder={t("vat.notesPlaceholder")}
                 rows={3}
               />
             </div>
@@ -1501,7 +1626,7 @@ export function VAT() {
                 resetZakatForm();
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={() => {
@@ -1510,7 +1635,7 @@ export function VAT() {
               disabled={zakatSaving}
               className="bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-70"
             >
-              {zakatFormMode === "edit" ? "Save Changes" : "Add Zakat Record"}
+              {zakatFormMode === "edit" ? t("common.saveChanges") : t("vat.zakatAddTitle")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1520,9 +1645,14 @@ export function VAT() {
       <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>VAT Return Details</DialogTitle>
+            <DialogTitle>{t("vat.detailsTitle")}</DialogTitle>
             <DialogDescription>
-              {selectedVAT && `${selectedVAT.quarter} ${selectedVAT.year} - ${new Date(selectedVAT.startDate).toLocaleDateString('en-GB')} to ${new Date(selectedVAT.endDate).toLocaleDateString('en-GB')}`}
+              {selectedVAT &&
+                t("vat.detailsDescription", {
+                  period: t("vat.period", { quarter: t(QUARTER_KEYS[selectedVAT.quarter]), year: selectedVAT.year }),
+                  start: formatDate(selectedVAT.startDate),
+                  end: formatDate(selectedVAT.endDate)
+                })}
             </DialogDescription>
           </DialogHeader>
 
@@ -1531,40 +1661,40 @@ export function VAT() {
               <div className="grid grid-cols-2 gap-4">
                 <Card>
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-sm">Sales</CardTitle>
+                    <CardTitle className="text-sm">{t("vat.sales")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Including VAT:</span>
-                      <span className="font-medium">SAR {selectedVAT.totalSalesIncVAT.toLocaleString()}</span>
+                      <span className="text-muted-foreground">{t("vat.includingVat")}</span>
+                      <span className="font-medium">{formatCurrency(selectedVAT.totalSalesIncVAT)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Excluding VAT:</span>
-                      <span>SAR {selectedVAT.totalSalesExcVAT.toLocaleString()}</span>
+                      <span className="text-muted-foreground">{t("vat.excludingVat")}</span>
+                      <span>{formatCurrency(selectedVAT.totalSalesExcVAT)}</span>
                     </div>
                     <div className="flex justify-between pt-2 border-t">
-                      <span className="text-muted-foreground">VAT (15%):</span>
-                      <span className="font-medium text-green-600">SAR {selectedVAT.vatAmount.toLocaleString()}</span>
+                      <span className="text-muted-foreground">{t("vat.vatRateLabel")}</span>
+                      <span className="font-medium text-green-600">{formatCurrency(selectedVAT.vatAmount)}</span>
                     </div>
                   </CardContent>
                 </Card>
 
                 <Card>
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-sm">Purchases</CardTitle>
+                    <CardTitle className="text-sm">{t("vat.purchases")}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Including VAT:</span>
-                      <span className="font-medium">SAR {selectedVAT.totalPurchasesIncVAT.toLocaleString()}</span>
+                      <span className="text-muted-foreground">{t("vat.includingVat")}</span>
+                      <span className="font-medium">{formatCurrency(selectedVAT.totalPurchasesIncVAT)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Excluding VAT:</span>
-                      <span>SAR {selectedVAT.totalPurchasesExcVAT.toLocaleString()}</span>
+                      <span className="text-muted-foreground">{t("vat.excludingVat")}</span>
+                      <span>{formatCurrency(selectedVAT.totalPurchasesExcVAT)}</span>
                     </div>
                     <div className="flex justify-between pt-2 border-t">
-                      <span className="text-muted-foreground">Input VAT (15%):</span>
-                      <span className="font-medium text-blue-600">SAR {selectedVAT.inputVAT.toLocaleString()}</span>
+                      <span className="text-muted-foreground">{t("vat.inputVatRateLabel")}</span>
+                      <span className="font-medium text-blue-600">{formatCurrency(selectedVAT.inputVAT)}</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -1573,25 +1703,84 @@ export function VAT() {
               <Card className="border-2 border-primary">
                 <CardContent className="pt-6">
                   <div className="flex justify-between items-center">
-                    <span className="text-lg font-medium">Net VAT Payable:</span>
-                    <span className="text-2xl font-bold">SAR {selectedVAT.netVATPayable.toLocaleString()}</span>
+                    <span className="text-lg font-medium">{t("vat.netPayableLabel")}</span>
+                    <span className="text-2xl font-bold">{formatCurrency(selectedVAT.netVATPayable)}</span>
                   </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    VAT on Sales (SAR {selectedVAT.vatAmount.toLocaleString()}) - Input VAT (SAR {selectedVAT.inputVAT.toLocaleString()})
+                    {t("vat.netFormula", {
+                      sales: formatCurrency(selectedVAT.vatAmount),
+                      input: formatCurrency(selectedVAT.inputVAT)
+                    })}
                   </p>
                 </CardContent>
               </Card>
 
+              {outOfDateVatIds.has(selectedVAT.id) && (
+                <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-orange-50 border border-orange-200">
+                  <div className="flex items-center gap-2 text-sm text-orange-800">
+                    <AlertCircle className="w-4 h-4" />
+                    {t("vat.documentsChanged")}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={recalculatingVatId === selectedVAT.id || selectedVAT.status === "paid"}
+                    onClick={() => {
+                      void handleRecalculateVAT(selectedVAT);
+                    }}
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    {t("vat.recalculate")}
+                  </Button>
+                </div>
+              )}
+
+              {selectedVAT.sourceSnapshot && (
+                <div>
+                  <Label>{t("vat.sourceDocuments", { count: selectedVAT.sourceSnapshot.documents.length })}</Label>
+                  <div className="mt-2 max-h-72 overflow-y-auto border rounded-lg">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("vat.type")}</TableHead>
+                          <TableHead>{t("vat.reference")}</TableHead>
+                          <TableHead>{t("common.date")}</TableHead>
+                          <TableHead className="text-end">{t("vat.net")}</TableHead>
+                          <TableHead className="text-end">{t("vat.vat")}</TableHead>
+                          <TableHead className="text-end">{t("common.total")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selectedVAT.sourceSnapshot.documents.map((doc) => (
+                          <TableRow key={`${doc.source}-${doc.id}`}>
+                            <TableCell>{t(VAT_SOURCE_KEYS[doc.source])}</TableCell>
+                            <TableCell className="font-mono text-xs">{doc.reference}</TableCell>
+                            <TableCell>{formatDate(doc.date)}</TableCell>
+                            <TableCell className="text-end">{formatCurrency(doc.net)}</TableCell>
+                            <TableCell className="text-end">{formatCurrency(doc.vat)}</TableCell>
+                            <TableCell className="text-end">{formatCurrency(doc.gross)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t("vat.calculatedAt", { date: formatDateTime(selectedVAT.sourceSnapshot.computed_at) })}
+                  </p>
+                </div>
+              )}
+
               {selectedVAT.notes && (
                 <div>
-                  <Label>Notes</Label>
+                  <Label>{t("common.notes")}</Label>
                   <p className="text-sm mt-1">{selectedVAT.notes}</p>
                 </div>
               )}
 
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <Label className="text-muted-foreground">Status</Label>
+                  <Label className="text-muted-foreground">{t("common.status")}</Label>
                   <div className="mt-1">
                     <Badge className={getStatusBadge(selectedVAT.status).color}>
                       {getStatusBadge(selectedVAT.status).label}
@@ -1600,14 +1789,14 @@ export function VAT() {
                 </div>
                 {selectedVAT.submissionDate && (
                   <div>
-                    <Label className="text-muted-foreground">Submission Date</Label>
-                    <p className="mt-1">{new Date(selectedVAT.submissionDate).toLocaleDateString('en-GB')}</p>
+                    <Label className="text-muted-foreground">{t("vat.submissionDate")}</Label>
+                    <p className="mt-1">{formatDate(selectedVAT.submissionDate)}</p>
                   </div>
                 )}
                 {selectedVAT.paymentDate && (
                   <div>
-                    <Label className="text-muted-foreground">Payment Date</Label>
-                    <p className="mt-1">{new Date(selectedVAT.paymentDate).toLocaleDateString('en-GB')}</p>
+                    <Label className="text-muted-foreground">{t("vat.paymentDate")}</Label>
+                    <p className="mt-1">{formatDate(selectedVAT.paymentDate)}</p>
                   </div>
                 )}
               </div>
@@ -1616,11 +1805,11 @@ export function VAT() {
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDetailsOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
             <Button className="gap-2">
               <Download className="w-4 h-4" />
-              Download Report
+              {t("vat.downloadReport")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1630,9 +1819,9 @@ export function VAT() {
       <Dialog open={isZakatDetailsOpen} onOpenChange={setIsZakatDetailsOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Zakat Details</DialogTitle>
+            <DialogTitle>{t("vat.zakatDetails")}</DialogTitle>
             <DialogDescription>
-              {selectedZakat && `Year ${selectedZakat.year}`}
+              {selectedZakat && t("vat.year", { year: selectedZakat.year })}
             </DialogDescription>
           </DialogHeader>
 
@@ -1641,34 +1830,34 @@ export function VAT() {
               <Card>
                 <CardContent className="pt-6 space-y-3">
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Total Assets:</span>
-                    <span className="font-medium">SAR {selectedZakat.totalAssets.toLocaleString()}</span>
+                    <span className="text-muted-foreground">{t("vat.totalAssetsLabel")}</span>
+                    <span className="font-medium">{formatCurrency(selectedZakat.totalAssets)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Total Liabilities:</span>
-                    <span className="font-medium text-red-600">SAR {selectedZakat.totalLiabilities.toLocaleString()}</span>
+                    <span className="text-muted-foreground">{t("vat.totalLiabilitiesLabel")}</span>
+                    <span className="font-medium text-red-600">{formatCurrency(selectedZakat.totalLiabilities)}</span>
                   </div>
                   <div className="flex justify-between text-sm pt-2 border-t">
-                    <span className="text-muted-foreground">Net Assets:</span>
-                    <span className="font-medium">SAR {selectedZakat.netAssets.toLocaleString()}</span>
+                    <span className="text-muted-foreground">{t("vat.netAssetsLabel")}</span>
+                    <span className="font-medium">{formatCurrency(selectedZakat.netAssets)}</span>
                   </div>
                   <div className="flex justify-between items-center pt-3 border-t-2">
-                    <span className="font-medium">Zakat Due (2.5%):</span>
-                    <span className="text-2xl font-bold text-blue-600">SAR {selectedZakat.zakatDue.toLocaleString()}</span>
+                    <span className="font-medium">{t("vat.zakatDueLabel")}</span>
+                    <span className="text-2xl font-bold text-blue-600">{formatCurrency(selectedZakat.zakatDue)}</span>
                   </div>
                 </CardContent>
               </Card>
 
               {selectedZakat.notes && (
                 <div>
-                  <Label>Notes</Label>
+                  <Label>{t("common.notes")}</Label>
                   <p className="text-sm mt-1">{selectedZakat.notes}</p>
                 </div>
               )}
 
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <Label className="text-muted-foreground">Status</Label>
+                  <Label className="text-muted-foreground">{t("common.status")}</Label>
                   <div className="mt-1">
                     <Badge className={getStatusBadge(selectedZakat.status).color}>
                       {getStatusBadge(selectedZakat.status).label}
@@ -1677,14 +1866,14 @@ export function VAT() {
                 </div>
                 {selectedZakat.submissionDate && (
                   <div>
-                    <Label className="text-muted-foreground">Submission Date</Label>
-                    <p className="mt-1">{new Date(selectedZakat.submissionDate).toLocaleDateString('en-GB')}</p>
+                    <Label className="text-muted-foreground">{t("vat.submissionDate")}</Label>
+                    <p className="mt-1">{formatDate(selectedZakat.submissionDate)}</p>
                   </div>
                 )}
                 {selectedZakat.paymentDate && (
                   <div>
-                    <Label className="text-muted-foreground">Payment Date</Label>
-                    <p className="mt-1">{new Date(selectedZakat.paymentDate).toLocaleDateString('en-GB')}</p>
+                    <Label className="text-muted-foreground">{t("vat.paymentDate")}</Label>
+                    <p className="mt-1">{formatDate(selectedZakat.paymentDate)}</p>
                   </div>
                 )}
               </div>
@@ -1693,11 +1882,11 @@ export function VAT() {
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsZakatDetailsOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
             <Button className="gap-2">
               <Download className="w-4 h-4" />
-              Download Report
+              {t("vat.downloadReport")}
             </Button>
           </DialogFooter>
         </DialogContent>
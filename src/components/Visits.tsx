@@ -41,6 +41,8 @@ import { Textarea } from "./ui/textarea";
 import { Skeleton } from "./ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { supabase } from "../lib/supabaseClient";
+import { translateCurrent, useLocale } from "../lib/i18n";
+import type { MessageKey } from "../locales/en";
 import type { Activity, Reminder } from "../types/activity";
 
 interface VisitsProps {
@@ -104,6 +106,12 @@ const formatStatus = (value?: string | null): VisitStatus => {
 
 const toDbStatus = (status: VisitStatus) => status.toLowerCase();
 
+const STATUS_KEYS: Record<VisitStatus, MessageKey> = {
+  Scheduled: "visits.status.scheduled",
+  Completed: "visits.status.completed",
+  Cancelled: "visits.status.cancelled",
+};
+
 const formatTimeFromDb = (value?: string | null) => {
   if (!value) return null;
   if (value.length >= 5) {
@@ -131,6 +139,7 @@ export function Visits({
   onVisitReminderUpsert,
   onVisitReminderRemove,
 }: VisitsProps) {
+  const { t, formatDate } = useLocale();
   const [visits, setVisits] = useState<VisitRecord[]>([]);
   const [delegates, setDelegates] = useState<Option[]>([]);
   const [customers, setCustomers] = useState<Option[]>([]);
@@ -158,6 +167,7 @@ export function Visits({
         supabase
           .from("customers")
           .select("customer_id, customer_name")
+          .is("deleted_at", null)
           .order("customer_name", { ascending: true }),
         supabase
           .from("manual_visits")
@@ -190,9 +200,9 @@ export function Visits({
       const mappedVisits: VisitRecord[] = (visitsRes.data ?? []).map((visit) => ({
         id: visit.visit_id,
         customerId: visit.customer_id,
-        customerName: customerMap.get(visit.customer_id) ?? "Unknown Customer",
+        customerName: customerMap.get(visit.customer_id) ?? translateCurrent("visits.unknownCustomer"),
         delegateId: visit.delegate_id,
-        delegateName: delegateMap.get(visit.delegate_id) ?? "Unassigned",
+        delegateName: delegateMap.get(visit.delegate_id) ?? translateCurrent("visits.unassigned"),
         visitDate: visit.visit_date,
         visitTime: formatTimeFromDb(visit.visit_time),
         status: formatStatus(visit.status),
@@ -203,7 +213,7 @@ export function Visits({
 
       setVisits(mappedVisits);
     } catch (fetchError) {
-      const message = fetchError instanceof Error ? fetchError.message : "Failed to load visits";
+      const message = fetchError instanceof Error ? fetchError.message : translateCurrent("visits.loadFailed");
       setError(message);
       toast.error(message);
     } finally {
@@ -346,7 +356,7 @@ export function Visits({
 
   const createVisit = async () => {
     if (!formData.customerId || !formData.delegateId || !formData.date) {
-      toast.error("Please fill in the required fields");
+      toast.error(translateCurrent("visits.requiredFields"));
       return;
     }
 
@@ -369,11 +379,11 @@ export function Visits({
         .single();
 
       if (insertError || !data) {
-        throw insertError ?? new Error("Failed to schedule visit");
+        throw insertError ?? new Error(translateCurrent("visits.scheduleFailed"));
       }
 
-      const customerName = customers.find((customer) => customer.id === data.customer_id)?.name ?? "Unknown Customer";
-      const delegateName = delegates.find((delegate) => delegate.id === data.delegate_id)?.name ?? "Unassigned";
+      const customerName = customers.find((customer) => customer.id === data.customer_id)?.name ?? translateCurrent("visits.unknownCustomer");
+      const delegateName = delegates.find((delegate) => delegate.id === data.delegate_id)?.name ?? translateCurrent("visits.unassigned");
 
       const newVisit: VisitRecord = {
         id: data.visit_id,
@@ -390,7 +400,7 @@ export function Visits({
       };
 
       setVisits((prev) => [newVisit, ...prev]); // Add new visit at the beginning (newest first)
-      toast.success("Visit scheduled successfully");
+      toast.success(translateCurrent("visits.scheduled"));
       syncReminderForVisit(newVisit, "Scheduled", newVisit.visitDate, newVisit.visitTime);
       onActivityAdd({
         type: "visit",
@@ -403,7 +413,7 @@ export function Visits({
       });
       resetDialogState();
     } catch (createError) {
-      const message = createError instanceof Error ? createError.message : "Failed to schedule visit";
+      const message = createError instanceof Error ? createError.message : translateCurrent("visits.scheduleFailed");
       toast.error(message);
     } finally {
       setSaving(false);
@@ -413,7 +423,7 @@ export function Visits({
   const updateVisit = async () => {
     if (!editingVisit) return;
     if (!formData.customerId || !formData.delegateId || !formData.date) {
-      toast.error("Please fill in the required fields");
+      toast.error(translateCurrent("visits.requiredFields"));
       return;
     }
 
@@ -434,11 +444,11 @@ export function Visits({
         .single();
 
       if (updateError || !data) {
-        throw updateError ?? new Error("Failed to update visit");
+        throw updateError ?? new Error(translateCurrent("visits.updateFailed"));
       }
 
-      const customerName = customers.find((customer) => customer.id === data.customer_id)?.name ?? "Unknown Customer";
-      const delegateName = delegates.find((delegate) => delegate.id === data.delegate_id)?.name ?? "Unassigned";
+      const customerName = customers.find((customer) => customer.id === data.customer_id)?.name ?? translateCurrent("visits.unknownCustomer");
+      const delegateName = delegates.find((delegate) => delegate.id === data.delegate_id)?.name ?? translateCurrent("visits.unassigned");
 
       const updatedVisit: VisitRecord = {
         id: data.visit_id,
@@ -455,7 +465,7 @@ export function Visits({
       };
 
       setVisits((prev) => prev.map((visit) => (visit.id === updatedVisit.id ? updatedVisit : visit)));
-      toast.success("Visit updated successfully");
+      toast.success(translateCurrent("visits.updated"));
       syncReminderForVisit(updatedVisit, updatedVisit.status, updatedVisit.visitDate, updatedVisit.visitTime);
       onActivityAdd({
         type: "visit",
@@ -468,7 +478,7 @@ export function Visits({
       });
       resetDialogState();
     } catch (updateError) {
-      const message = updateError instanceof Error ? updateError.message : "Failed to update visit";
+      const message = updateError instanceof Error ? updateError.message : translateCurrent("visits.updateFailed");
       toast.error(message);
     } finally {
       setSaving(false);
@@ -495,7 +505,7 @@ export function Visits({
         .single();
 
       if (updateError || !data) {
-        throw updateError ?? new Error("Failed to update status");
+        throw updateError ?? new Error(translateCurrent("visits.statusFailed"));
       }
 
       const updatedVisit: VisitRecord = {
@@ -517,15 +527,15 @@ export function Visits({
         relatedEntity: updatedVisit.customerName,
       });
 
-      toast.success(`Visit marked as ${nextStatus.toLowerCase()}`);
+      toast.success(translateCurrent("visits.markedAs", { status: translateCurrent(STATUS_KEYS[nextStatus]) }));
     } catch (statusError) {
-      const message = statusError instanceof Error ? statusError.message : "Failed to update status";
+      const message = statusError instanceof Error ? statusError.message : translateCurrent("visits.statusFailed");
       toast.error(message);
     }
   };
 
   const deleteVisit = async (visit: VisitRecord) => {
-    const confirmed = window.confirm(`Delete visit for ${visit.customerName}?`);
+    const confirmed = window.confirm(t("visits.deleteConfirm", { customer: visit.customerName }));
     if (!confirmed) return;
 
     try {
@@ -549,9 +559,9 @@ export function Visits({
         userRole: "automation",
         relatedEntity: visit.customerName,
       });
-      toast.success("Visit deleted successfully");
+      toast.success(translateCurrent("visits.deleted"));
     } catch (deleteError) {
-      const message = deleteError instanceof Error ? deleteError.message : "Failed to delete visit";
+      const message = deleteError instanceof Error ? deleteError.message : translateCurrent("visits.deleteFailed");
       toast.error(message);
     }
   };
@@ -574,9 +584,9 @@ export function Visits({
       XLSX.utils.book_append_sheet(wb, ws, "Visits");
       const fileName = `visits_${new Date().toISOString().split("T")[0]}.xlsx`;
       XLSX.writeFile(wb, fileName);
-      toast.success("Excel file exported successfully");
+      toast.success(t("common.exported"));
     } catch (error) {
-      toast.error("Failed to export Excel file");
+      toast.error(t("common.exportFailed"));
       console.error(error);
     }
   };
@@ -585,13 +595,13 @@ export function Visits({
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2>Visit Management</h2>
-          <p className="text-muted-foreground mt-1">Monthly visit schedule by representative</p>
+          <h2>{t("visits.title")}</h2>
+          <p className="text-muted-foreground mt-1">{t("visits.subtitle")}</p>
         </div>
         <div className="flex gap-2">
           <Button onClick={exportToExcel} variant="outline" className="gap-2">
             <Download className="h-4 w-4" />
-            Export Excel
+            {t("common.exportExcel")}
           </Button>
           <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? undefined : resetDialogState())}>
           <DialogTrigger asChild>
@@ -600,28 +610,26 @@ export function Visits({
               onClick={openCreateDialog}
             >
               <Plus className="h-4 w-4" />
-              Schedule New Visit
+              {t("visits.scheduleNew")}
             </Button>
           </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>{editingVisit ? "Edit Visit" : "Schedule New Visit"}</DialogTitle>
+              <DialogTitle>{editingVisit ? t("visits.edit") : t("visits.scheduleNew")}</DialogTitle>
               <DialogDescription>
-                {editingVisit
-                  ? "Update visit details and assigned representative"
-                  : "Set the visit date and assigned representative"}
+                {editingVisit ? t("visits.editDescription") : t("visits.scheduleDescription")}
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="customer">Customer *</Label>
+                  <Label htmlFor="customer">{t("visits.customerRequired")}</Label>
                   <Select
                     value={formData.customerId}
                     onValueChange={(value) => handleFormChange("customerId", value)}
                   >
                     <SelectTrigger id="customer">
-                      <SelectValue placeholder="Select customer" />
+                      <SelectValue placeholder={t("visits.selectCustomer")} />
                     </SelectTrigger>
                     <SelectContent>
                       {customers.map((customer) => (
@@ -633,13 +641,13 @@ export function Visits({
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="representative">Representative *</Label>
+                  <Label htmlFor="representative">{t("visits.representativeRequired")}</Label>
                   <Select
                     value={formData.delegateId}
                     onValueChange={(value) => handleFormChange("delegateId", value)}
                   >
                     <SelectTrigger id="representative">
-                      <SelectValue placeholder="Select representative" />
+                      <SelectValue placeholder={t("visits.selectRepresentative")} />
                     </SelectTrigger>
                     <SelectContent>
                       {delegates.map((delegate) => (
@@ -653,7 +661,7 @@ export function Visits({
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="visit-date">Visit Date *</Label>
+                  <Label htmlFor="visit-date">{t("visits.dateRequired")}</Label>
                   <Input
                     id="visit-date"
                     type="date"
@@ -662,7 +670,7 @@ export function Visits({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="visit-time">Visit Time</Label>
+                  <Label htmlFor="visit-time">{t("visits.time")}</Label>
                   <Input
                     id="visit-time"
                     type="time"
@@ -672,19 +680,19 @@ export function Visits({
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="address">Address</Label>
+                <Label htmlFor="address">{t("visits.address")}</Label>
                 <Input
                   id="address"
-                  placeholder="Visit location"
+                  placeholder={t("visits.locationPlaceholder")}
                   value={formData.address}
                   onChange={(event) => handleFormChange("address", event.target.value)}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="notes">Notes</Label>
+                <Label htmlFor="notes">{t("common.notes")}</Label>
                 <Textarea
                   id="notes"
-                  placeholder="Visit notes and requirements"
+                  placeholder={t("visits.notesPlaceholder")}
                   rows={3}
                   value={formData.notes}
                   onChange={(event) => handleFormChange("notes", event.target.value)}
@@ -693,10 +701,10 @@ export function Visits({
             </div>
             <div className="flex justify-end gap-3">
               <Button variant="outline" onClick={resetDialogState} disabled={saving}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleSubmit} disabled={saving}>
-                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : editingVisit ? "Save Changes" : "Schedule Visit"}
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : editingVisit ? t("common.saveChanges") : t("visits.schedule")}
               </Button>
             </div>
           </DialogContent>
@@ -707,7 +715,7 @@ export function Visits({
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Visits</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.total")}</CardTitle>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -718,7 +726,7 @@ export function Visits({
             ) : (
               <>
                 <div className="text-2xl font-bold">{visits.length}</div>
-                <p className="text-xs text-muted-foreground mt-1">All recorded visits</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("visits.allRecorded")}</p>
               </>
             )}
           </CardContent>
@@ -726,7 +734,7 @@ export function Visits({
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Scheduled</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.status.scheduled")}</CardTitle>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -739,7 +747,7 @@ export function Visits({
                 <div className="text-2xl font-bold text-blue-600">
                   {visits.filter((visit) => visit.status === "Scheduled").length}
                 </div>
-                <p className="text-xs text-muted-foreground mt-1">Upcoming</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("visits.upcoming")}</p>
               </>
             )}
           </CardContent>
@@ -747,7 +755,7 @@ export function Visits({
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Completed</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.status.completed")}</CardTitle>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -760,7 +768,7 @@ export function Visits({
                 <div className="text-2xl font-bold text-green-600">
                   {visits.filter((visit) => visit.status === "Completed").length}
                 </div>
-                <p className="text-xs text-muted-foreground mt-1">Successfully finished</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("visits.finished")}</p>
               </>
             )}
           </CardContent>
@@ -768,7 +776,7 @@ export function Visits({
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Cancelled</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t("visits.status.cancelled")}</CardTitle>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -781,7 +789,7 @@ export function Visits({
                 <div className="text-2xl font-bold text-red-600">
                   {visits.filter((visit) => visit.status === "Cancelled").length}
                 </div>
-                <p className="text-xs text-muted-foreground mt-1">This month</p>
+                <p className="text-xs text-muted-foreground mt-1">{t("visits.thisMonth")}</p>
               </>
             )}
           </CardContent>
@@ -790,13 +798,13 @@ export function Visits({
 
       <Card>
         <CardHeader>
-          <CardTitle>Visits by Representative</CardTitle>
+          <CardTitle>{t("visits.byRepresentative")}</CardTitle>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="all">
             <TabsList className="flex flex-wrap gap-2">
               <TabsTrigger value="all" onClick={() => setSelectedRepId("all")}>
-                All ({visits.length})
+                {t("visits.allCount", { count: visits.length })}
               </TabsTrigger>
               {delegates.map((delegate) => {
                 const stats = getRepStats(delegate.id);
@@ -822,7 +830,7 @@ export function Visits({
                         <CardContent className="pt-6">
                           <div className="text-center">
                             <div className="text-2xl font-bold text-blue-600">{stats.scheduled}</div>
-                            <p className="text-sm text-muted-foreground">Scheduled</p>
+                            <p className="text-sm text-muted-foreground">{t("visits.status.scheduled")}</p>
                           </div>
                         </CardContent>
                       </Card>
@@ -830,7 +838,7 @@ export function Visits({
                         <CardContent className="pt-6">
                           <div className="text-center">
                             <div className="text-2xl font-bold text-green-600">{stats.completed}</div>
-                            <p className="text-sm text-muted-foreground">Completed</p>
+                            <p className="text-sm text-muted-foreground">{t("visits.status.completed")}</p>
                           </div>
                         </CardContent>
                       </Card>
@@ -838,7 +846,7 @@ export function Visits({
                         <CardContent className="pt-6">
                           <div className="text-center">
                             <div className="text-2xl font-bold text-red-600">{stats.cancelled}</div>
-                            <p className="text-sm text-muted-foreground">Cancelled</p>
+                            <p className="text-sm text-muted-foreground">{t("visits.status.cancelled")}</p>
                           </div>
                         </CardContent>
                       </Card>
@@ -854,35 +862,35 @@ export function Visits({
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between gap-4">
-            <CardTitle>All Visits</CardTitle>
+            <CardTitle>{t("visits.all")}</CardTitle>
             <div className="flex flex-col md:flex-row md:items-center gap-3">
               <Select value={filterStatus} onValueChange={setFilterStatus}>
                 <SelectTrigger className="w-[150px]">
-                  <SelectValue placeholder="Status" />
+                  <SelectValue placeholder={t("common.status")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="Scheduled">Scheduled</SelectItem>
-                  <SelectItem value="Completed">Completed</SelectItem>
-                  <SelectItem value="Cancelled">Cancelled</SelectItem>
+                  <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                  <SelectItem value="Scheduled">{t("visits.status.scheduled")}</SelectItem>
+                  <SelectItem value="Completed">{t("visits.status.completed")}</SelectItem>
+                  <SelectItem value="Cancelled">{t("visits.status.cancelled")}</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={sortOrder} onValueChange={(value: "asc" | "desc") => setSortOrder(value)}>
                 <SelectTrigger className="w-[150px]">
-                  <SelectValue placeholder="Sort order" />
+                  <SelectValue placeholder={t("visits.sortOrder")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="desc">Newest First</SelectItem>
-                  <SelectItem value="asc">Oldest First</SelectItem>
+                  <SelectItem value="desc">{t("visits.newestFirst")}</SelectItem>
+                  <SelectItem value="asc">{t("visits.oldestFirst")}</SelectItem>
                 </SelectContent>
               </Select>
               <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Search className="absolute start-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search visits..."
+                  placeholder={t("visits.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(event) => setSearchQuery(event.target.value)}
-                  className="pl-8 w-full md:w-[300px]"
+                  className="ps-8 w-full md:w-[300px]"
                 />
               </div>
             </div>
@@ -893,14 +901,14 @@ export function Visits({
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Visit ID #</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Representative</TableHead>
-                  <TableHead>Date &amp; Time</TableHead>
-                  <TableHead>Address</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Notes</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("visits.visitId")}</TableHead>
+                  <TableHead>{t("common.customer")}</TableHead>
+                  <TableHead>{t("visits.representative")}</TableHead>
+                  <TableHead>{t("visits.dateTime")}</TableHead>
+                  <TableHead>{t("visits.address")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("common.notes")}</TableHead>
+                  <TableHead className="text-end">{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -922,7 +930,7 @@ export function Visits({
                     <TableCell colSpan={8} className="p-0">
                       <div className="flex flex-col items-center justify-center py-12">
                         <Calendar className="h-12 w-12 text-muted-foreground mb-3" />
-                        <p className="text-muted-foreground">No visits found</p>
+                        <p className="text-muted-foreground">{t("visits.empty")}</p>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -948,7 +956,7 @@ export function Visits({
                             <Calendar className="h-4 w-4 text-muted-foreground" />
                             <div>
                               <div className="font-medium">
-                                {visit.visitDate ? new Date(visit.visitDate).toLocaleDateString('en-GB') : "--"}
+                                {visit.visitDate ? formatDate(visit.visitDate) : "--"}
                               </div>
                               <div className="text-sm text-muted-foreground">
                                 {visit.visitTime ?? "--"}
@@ -970,8 +978,8 @@ export function Visits({
                               ? "bg-red-100 text-red-700 border-red-200"
                               : "bg-blue-100 text-blue-700 border-blue-200"
                           }`}>
-                            <StatusIcon className="h-3 w-3 mr-1" />
-                            {visit.status}
+                            <StatusIcon className="h-3 w-3 me-1" />
+                            {t(STATUS_KEYS[visit.status])}
                           </Badge>
                         </TableCell>
                         <TableCell>
@@ -979,7 +987,7 @@ export function Visits({
                             {visit.notes ?? "--"}
                           </div>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-end">
                           <div className="flex justify-end gap-2">
                             <Button
                               variant="outline"
@@ -210,6 +210,12 @@ export const ACCESS_AREAS: AccessArea[] = [
     category: "Finance & Accounting",
     actions: ["view", "create", "update", "export"],
   },
+  {
+    id: "journalEntries",
+    label: "General Ledger",
+    category: "Finance & Accounting",
+    actions: ["view", "create", "update", "export"],
+  },
   {
     id: "reports",
     label: "Reports & Analytics",
@@ -228,6 +234,12 @@ export const ACCESS_AREAS: AccessArea[] = [
     category: "System Settings",
     actions: ["view", "export"],
   },
+  {
+    id: "recycleBin",
+    label: "Recycle Bin",
+    category: "System Settings",
+    actions: ["view", "update", "delete"],
+  },
   {
     id: "settings",
     label: "System Settings & Permissions",
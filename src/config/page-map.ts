@@ -35,6 +35,7 @@ export type PageId =
   | "custody"
   | "assets"
   | "historyLog"
+  | "recycleBin"
   | "profile"
   | "settings";
 
@@ -75,8 +76,52 @@ export const ALL_PAGE_IDS: PageId[] = [
   "custody",
   "assets",
   "historyLog",
+  "recycleBin",
   "profile",
   "settings",
 ];
 
 
+
+// URL path of each page; record routes (e.g. /invoices/<id>) are built on these in lib/router
+export const PAGE_PATHS: Record<PageId, string> = {
+  dashboard: "/",
+  myworkspace: "/my-workspace",
+  customers: "/customers",
+  leads: "/leads",
+  contracts: "/contracts",
+  visits: "/visits",
+  monthlyVisits: "/monthly-visits",
+  payments: "/payments",
+  representatives: "/representatives",
+  support: "/support",
+  quotations: "/quotations",
+  calendar: "/calendar",
+  analytics: "/analytics",
+  statements: "/statements",
+  templates: "/templates",
+  invoices: "/invoices",
+  employees: "/employees",
+  payroll: "/payroll",
+  expenses: "/expenses",
+  purchases: "/purchases",
+  inventory: "/inventory",
+  manufacturing: "/manufacturing",
+  returns: "/returns",
+  suppliers: "/suppliers",
+  platformOrders: "/platform-orders",
+  platformCustomers: "/platform-customers",
+  marketing: "/marketing",
+  vat: "/vat",
+  journalEntries: "/journal-entries",
+  reports: "/reports",
+  leaves: "/leaves",
+  employeeRequests: "/employee-requests",
+  attendanceSheet: "/attendance",
+  custody: "/custody",
+  assets: "/assets",
+  historyLog: "/history-log",
+  recycleBin: "/recycle-bin",
+  profile: "/profile",
+  settings: "/settings",
+};
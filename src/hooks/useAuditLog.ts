@@ -0,0 +1,107 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import type { AuditAction, AuditLog } from '../../supabase/models/audit_log';
+
+export const auditLogKeys = {
+  all: ['audit_log'] as const,
+  list: (filters: AuditLogFilters) => [...auditLogKeys.all, 'list', filters] as const,
+  record: (table: string, rowId: string) => [...auditLogKeys.all, 'record', table, rowId] as const,
+  stats: () => [...auditLogKeys.all, 'stats'] as const,
+};
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  table?: string; // Module
+  actorId?: string; // system_users.user_id, or 'system' for changes without a user
+  action?: AuditAction;
+  entity?: string; // Record reference (invoice number, customer name, ...) or exact row ID
+  dateFrom?: string; // ISO timestamp, inclusive
+  dateTo?: string; // ISO timestamp, exclusive
+}
+
+// Characters that would break a PostgREST or() filter
+const sanitizeFilterValue = (value: string) => value.replace(/[,()"\\]/g, ' ').trim();
+
+// Paged audit entries, newest first, filtered on the server
+export function useAuditLog(filters: AuditLogFilters = {}) {
+  const { page = 1, limit = 50, table, actorId, action, entity, dateFrom, dateTo } = filters;
+
+  return useQuery({
+    queryKey: auditLogKeys.list(filters),
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false });
+
+      if (table) query = query.eq('table_name', table);
+      if (actorId === 'system') query = query.is('actor_id', null);
+      else if (actorId) query = query.eq('actor_id', actorId);
+      if (action) query = query.eq('action', action);
+      if (dateFrom) query = query.gte('created_at', dateFrom);
+      if (dateTo) query = query.lt('created_at', dateTo);
+
+      const search = sanitizeFilterValue(entity ?? '');
+      if (search) {
+        query = query.or(`row_label.ilike.%${search}%,row_id.eq.${search}`);
+      }
+
+      const from = (page - 1) * limit;
+      query = query.range(from, from + limit - 1);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      return {
+        entries: (data ?? []) as AuditLog[],
+        totalCount: count || 0,
+        totalPages: Math.max(1, Math.ceil((count || 0) / limit)),
+      };
+    },
+    staleTime: 30 * 1000,
+    placeholderData: (previousData) => previousData, // Keep the current page while the next one loads
+  });
+}
+
+// Every change to one record, newest first
+export function useRecordAuditLog(table: string, rowId: string | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: auditLogKeys.record(table, rowId ?? ''),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .eq('table_name', table)
+        .eq('row_id', rowId ?? '')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as AuditLog[];
+    },
+    enabled: enabled && !!rowId,
+  });
+}
+
+// Entries today, in the last 7 days and overall
+export function useAuditStats() {
+  return useQuery({
+    queryKey: auditLogKeys.stats(),
+    queryFn: async () => {
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+      const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+      const countSince = async (since?: Date) => {
+        let query = supabase.from('audit_log').select('audit_id', { count: 'exact', head: true });
+        if (since) query = query.gte('created_at', since.toISOString());
+        const { count, error } = await query;
+        if (error) throw error;
+        return count || 0;
+      };
+
+      const [total, today, thisWeek] = await Promise.all([countSince(), countSince(startOfToday), countSince(weekAgo)]);
+      return { total, today, thisWeek };
+    },
+    staleTime: 60 * 1000,
+  });
+}
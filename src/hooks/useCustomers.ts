@@ -36,6 +36,7 @@ export function useCustomers(filters: CustomerListFilters = {}) {
       let query = supabase
         .from('customers')
         .select('customer_id, customer_name, contact_num, customer_email, customer_address, commercial_register, vat_number, status, company, created_at')
+        .is('deleted_at', null)
         .order(orderBy.split('.')[0], { 
           ascending: orderBy.includes('.asc') 
         });
@@ -177,7 +178,7 @@ export function useDeleteCustomer() {
     mutationFn: async (id: string) => {
       const { error } = await supabase
         .from('customers')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() }) // To the recycle bin
         .eq('customer_id', id);
 
       if (error) throw error;
@@ -185,7 +186,7 @@ export function useDeleteCustomer() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: customerKeys.lists() });
-      toast.success('Customer deleted successfully!');
+      toast.success('Customer moved to the Recycle Bin');
     },
     onError: (error: any) => {
       toast.error(`Failed to delete customer: ${error.message}`);
@@ -203,6 +204,7 @@ export function useCustomerSearch(searchTerm: string, enabled = true) {
       const { data, error } = await supabase
         .from('customers')
         .select('customer_id, customer_name, company, contact_num, customer_email')
+        .is('deleted_at', null)
         .or(`
           customer_name.ilike.%${searchTerm}%,
           company.ilike.%${searchTerm}%,
@@ -5,6 +5,7 @@ import type { Customers } from '../../supabase/models/customers';
 import type { Payments as PaymentRow } from '../../supabase/models/payments';
 import type { Contracts } from '../../supabase/models/contracts';
 import { toast } from 'sonner';
+import { postInvoiceStockMovements, reverseSourceStockMovements } from '../lib/stockLedger';
 
 // Types for optimized data fetching
 export interface InvoiceWithCustomer extends InvoiceRow {
@@ -89,6 +90,7 @@ export function useInvoices(filters: InvoiceListFilters = {}) {
             customer_address
           )
         `, { count: 'exact' })
+        .is('deleted_at', null)
         .order(orderBy.split('.')[0], { 
           ascending: orderBy.includes('.asc') 
         });
@@ -226,7 +228,16 @@ export function useCreateInvoice() {
         .single();
 
       if (error) throw error;
-      return data as InvoiceRow;
+      const invoice = data as InvoiceRow;
+
+      // Issue stock for lines picked from inventory
+      try {
+        await postInvoiceStockMovements(invoice, invoice.invoice_number);
+      } catch (stockError) {
+        console.error('Failed to post invoice stock movements', stockError);
+        toast.error(`Invoice saved, but stock was not updated for ${invoice.invoice_number}`);
+      }
+      return invoice;
     },
     onSuccess: (newInvoice) => {
       // Invalidate and refetch invoices list
@@ -266,7 +277,18 @@ export function useUpdateInvoice() {
         .single();
 
       if (error) throw error;
-      return data as InvoiceRow;
+      const invoice = data as InvoiceRow;
+
+      // Edited lines move stock by the difference from what the invoice already issued
+      if (values.invoice_items !== undefined) {
+        try {
+          await postInvoiceStockMovements(invoice, invoice.invoice_number);
+        } catch (stockError) {
+          console.error('Failed to resync invoice stock movements', stockError);
+          toast.error(`Invoice updated, but stock was not updated for ${invoice.invoice_number}`);
+        }
+      }
+      return invoice;
     },
     onMutate: async ({ id, values }) => {
       // Cancel any outgoing refetches
@@ -312,18 +334,31 @@ export function useDeleteInvoice() {
 
   return useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('invoices')
-        .delete()
-        .eq('invoice_id', id);
+        .update({ deleted_at: new Date().toISOString() }) // To the recycle bin
+        .eq('invoice_id', id)
+        .select('invoice_number')
+        .single();
 
       if (error) throw error;
+
+      // The ledger entries are reversed by the database; the stock issued by the invoice goes back here
+      try {
+        await reverseSourceStockMovements(
+          { sourceType: 'invoice', sourceId: id, sourceReference: data.invoice_number },
+          'Invoice moved to the recycle bin'
+        );
+      } catch (stockError) {
+        console.error('Failed to reverse invoice stock movements', stockError);
+        toast.error(`Invoice deleted, but its stock was not returned for ${data.invoice_number}`);
+      }
       return id;
     },
     onSuccess: () => {
       // Invalidate and refetch invoices list
       queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
-      toast.success('Invoice deleted successfully!');
+      toast.success('Invoice moved to the Recycle Bin');
     },
     onError: (error: any) => {
       toast.error(`Failed to delete invoice: ${error.message}`);
@@ -338,7 +373,8 @@ export function useInvoiceStats(filters: Partial<InvoiceListFilters> = {}) {
     queryFn: async () => {
       let query = supabase
         .from('invoices')
-        .select('total_amount, paid_amount, payment_status', { count: 'exact' });
+        .select('total_amount, paid_amount, payment_status', { count: 'exact' })
+        .is('deleted_at', null);
 
       // Apply same filters as main query
       if (filters.customerId) {
@@ -0,0 +1,116 @@
+import type { AuditAction, AuditLog } from '../../supabase/models/audit_log';
+import type { Locale } from './i18n';
+import type { MessageKey } from '../locales/en';
+
+/**
+ * Audit log presentation.
+ * audit_log rows are written by a database trigger on every insert, update and delete of the audited
+ * tables (see the audit_log migration); these helpers name the modules and turn the stored before/after
+ * rows into field-level changes.
+ */
+
+export interface AuditModule {
+	label: string; // Module name in the history log filter
+	labelAr: string;
+	entity: string; // What one row is called
+	entityAr: string;
+}
+
+export const AUDIT_MODULES: Record<string, AuditModule> = {
+	customers: { label: 'Customers', labelAr: 'العملاء', entity: 'Customer', entityAr: 'عميل' },
+	leads: { label: 'Leads', labelAr: 'العملاء المحتملون', entity: 'Lead', entityAr: 'عميل محتمل' },
+	delegates: { label: 'Delegates', labelAr: 'المناديب', entity: 'Delegate', entityAr: 'مندوب' },
+	quotations: { label: 'Quotations', labelAr: 'عروض الأسعار', entity: 'Quotation', entityAr: 'عرض سعر' },
+	contracts: { label: 'Contracts', labelAr: 'العقود', entity: 'Contract', entityAr: 'عقد' },
+	invoices: { label: 'Invoices', labelAr: 'الفواتير', entity: 'Invoice', entityAr: 'فاتورة' },
+	invoice_notes: { label: 'Credit / Debit Notes', labelAr: 'الإشعارات الدائنة / المدينة', entity: 'Note', entityAr: 'إشعار' },
+	payments: { label: 'Payments', labelAr: 'المدفوعات', entity: 'Payment', entityAr: 'دفعة' },
+	monthly_visits: { label: 'Monthly Visits', labelAr: 'الزيارات الشهرية', entity: 'Visit', entityAr: 'زيارة' },
+	employees: { label: 'Employees', labelAr: 'الموظفون', entity: 'Employee', entityAr: 'موظف' },
+	payrolls: { label: 'Payroll', labelAr: 'الرواتب', entity: 'Payroll', entityAr: 'مسير رواتب' },
+	leaves: { label: 'Leaves', labelAr: 'الإجازات', entity: 'Leave', entityAr: 'إجازة' },
+	expenses: { label: 'Expenses', labelAr: 'المصروفات', entity: 'Expense', entityAr: 'مصروف' },
+	suppliers: { label: 'Suppliers', labelAr: 'الموردون', entity: 'Supplier', entityAr: 'مورد' },
+	purchase_orders: { label: 'Purchases', labelAr: 'المشتريات', entity: 'Purchase Order', entityAr: 'أمر شراء' },
+	inventory: { label: 'Inventory', labelAr: 'المخزون', entity: 'Product', entityAr: 'منتج' },
+	platform_orders: { label: 'Platform Orders', labelAr: 'طلبات المنصة', entity: 'Platform Order', entityAr: 'طلب منصة' },
+	roles: { label: 'Roles', labelAr: 'الأدوار', entity: 'Role', entityAr: 'دور' },
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, MessageKey> = {
+	insert: 'audit.created',
+	update: 'audit.updated',
+	delete: 'audit.deleted',
+};
+
+export const AUDIT_ACTION_BADGES: Record<AuditAction, string> = {
+	insert: 'bg-green-100 text-green-700 border-green-200',
+	update: 'bg-blue-100 text-blue-700 border-blue-200',
+	delete: 'bg-red-100 text-red-700 border-red-200',
+};
+
+export interface AuditFieldChange {
+	field: string;
+	label: string;
+	before: string;
+	after: string;
+}
+
+export const auditModule = (table: string): AuditModule => {
+	const label = auditFieldLabel(table);
+	return AUDIT_MODULES[table] ?? { label, labelAr: label, entity: label, entityAr: label };
+};
+
+// payment_status -> Payment status
+export function auditFieldLabel(field: string): string {
+	const words = field.replace(/_/g, ' ').trim();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatAuditValue(value: unknown): string {
+	if (value === null || value === undefined || value === '') return '—';
+	if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * What an entry changed: the changed columns of an update, every filled column of an insert
+ * (after only) or of a delete (before only)
+ */
+export function auditChanges(entry: AuditLog): AuditFieldChange[] {
+	const before = entry.old_data ?? {};
+	const after = entry.new_data ?? {};
+	const fields =
+		entry.action === 'update'
+			? entry.changed_fields ?? []
+			: Object.keys(entry.action === 'insert' ? after : before)
+					.filter((field) => {
+						const value = entry.action === 'insert' ? after[field] : before[field];
+						return value !== null && value !== '' && !field.endsWith('_at') && !field.endsWith('_by');
+					})
+					.sort();
+
+	return fields.map((field) => ({
+		field,
+		label: auditFieldLabel(field),
+		before: entry.action === 'insert' ? '' : formatAuditValue(before[field]),
+		after: entry.action === 'delete' ? '' : formatAuditValue(after[field]),
+	}));
+}
+
+// One-line description for list views, e.g. "Payment status: draft → paid"
+export function auditSummary(entry: AuditLog, { t, localizedName }: Pick<Locale, 't' | 'localizedName'>): string {
+	const module = auditModule(entry.table_name);
+	const entity = localizedName(module.entity, module.entityAr);
+	if (entry.action === 'insert') return t('audit.entityCreated', { entity });
+	if (entry.action === 'delete') return t('audit.entityDeleted', { entity });
+
+	const changes = auditChanges(entry);
+	if (changes.length === 1) {
+		const [change] = changes;
+		const shorten = (value: string) => (value.length > 40 ? `${value.slice(0, 40)}…` : value);
+		return `${change.label}: ${shorten(change.before)} → ${shorten(change.after)}`;
+	}
+	return t('audit.fieldsChanged', { count: changes.length, fields: changes.map((change) => change.label).join(', ') });
+}
@@ -0,0 +1,263 @@
+/**
+ * Session tokens for the custom system_users login.
+ * Passwords are verified by the auth-login edge function, which returns a short-lived signed token.
+ * The token is kept on `auth_user` in localStorage (so every logout path clears it) and is sent to
+ * edge functions in the x-session-token header; it is refreshed shortly before it expires.
+ * Accounts with two-factor authentication get a challenge token first and finish the login
+ * with a TOTP or recovery code (or enrol, when their role requires 2FA).
+ */
+
+export const SESSION_TOKEN_HEADER = 'x-session-token';
+
+// Refresh when less than this is left on the token
+const REFRESH_WINDOW_MS = 10 * 60 * 1000;
+
+// Dispatched on window when the stored session ends without a logout (expired, or the refresh failed)
+export const SESSION_ENDED_EVENT = 'sessionEnded';
+
+export interface LoginResponse {
+	token: string;
+	expires_at: string;
+	user: {
+		user_id: string;
+		email: string;
+		full_name: string | null;
+		role_id: string | null;
+		role_name: string | null;
+		role_permissions: unknown;
+	};
+}
+
+export interface TwoFactorChallenge {
+	two_factor_required?: boolean; // Enter a code from the authenticator app
+	two_factor_setup_required?: boolean; // 2FA is mandatory but not set up yet
+	challenge_token: string;
+	expires_at: string;
+}
+
+export interface TwoFactorSetup {
+	secret: string;
+	otpauth_url: string;
+}
+
+export interface TwoFactorStatus {
+	enabled: boolean;
+	required: boolean;
+	enrolled_at: string | null;
+	recovery_codes_remaining: number;
+}
+
+interface StoredAuthUser {
+	user_id?: string;
+	session_token?: string;
+	session_expires_at?: string;
+	[key: string]: unknown;
+}
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+function readStoredUser(): StoredAuthUser | null {
+	try {
+		const stored = localStorage.getItem('auth_user');
+		return stored ? (JSON.parse(stored) as StoredAuthUser) : null;
+	} catch (error) {
+		console.error('Failed to parse auth_user', error);
+		return null;
+	}
+}
+
+function sessionExpiresAt(stored: StoredAuthUser | null): number {
+	const expiresAt = stored?.session_token && stored.session_expires_at ? new Date(stored.session_expires_at).getTime() : 0;
+	return Number.isNaN(expiresAt) ? 0 : expiresAt;
+}
+
+/**
+ * Whether auth_user holds a session token that has not expired yet
+ */
+export function hasActiveSession(): boolean {
+	return sessionExpiresAt(readStoredUser()) > Date.now();
+}
+
+/**
+ * Drop the stored user and tell the app to show the login screen
+ */
+function endSession(): void {
+	localStorage.removeItem('auth_user');
+	window.dispatchEvent(new CustomEvent(SESSION_ENDED_EVENT));
+}
+
+export function storeSessionToken(token: string, expiresAt: string): void {
+	const stored = readStoredUser();
+	if (!stored) return;
+	localStorage.setItem(
+		'auth_user',
+		JSON.stringify({ ...stored, session_token: token, session_expires_at: expiresAt })
+	);
+}
+
+function functionUrl(name: string): string {
+	const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
+	if (!supabaseUrl) {
+		throw new Error('Supabase configuration is missing. Please check your environment variables.');
+	}
+	return `${supabaseUrl.replace(/\/$/, '')}/functions/v1/${name}`;
+}
+
+async function postAuthFunction<T>(name: string, body: unknown, token?: string | null): Promise<T> {
+	const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+	const response = await fetch(functionUrl(name), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Authorization: `Bearer ${supabaseAnonKey}`,
+			apikey: supabaseAnonKey,
+			...(token ? { [SESSION_TOKEN_HEADER]: token } : {}),
+		},
+		body: JSON.stringify(body),
+	});
+
+	const responseText = await response.text();
+	let data: (T & { error?: string }) | null = null;
+	try {
+		data = responseText ? JSON.parse(responseText) : null;
+	} catch {
+		throw new Error(`Edge Function ${name} returned invalid response: ${responseText}`);
+	}
+
+	if (!response.ok || !data) {
+		throw new Error(data?.error || `HTTP ${response.status}: ${response.statusText}`);
+	}
+	return data;
+}
+
+/**
+ * Verify credentials on the server. Errors carry the server message
+ * (invalid credentials, locked account, inactive account).
+ */
+export async function loginWithPassword(email: string, password: string): Promise<LoginResponse | TwoFactorChallenge> {
+	return await postAuthFunction<LoginResponse | TwoFactorChallenge>('auth-login', { email, password });
+}
+
+export const isTwoFactorChallenge = (result: LoginResponse | TwoFactorChallenge): result is TwoFactorChallenge =>
+	'challenge_token' in result;
+
+/**
+ * Finish a login with an authenticator code or a one-time recovery code
+ */
+export async function verifyTwoFactorLogin(
+	challengeToken: string,
+	input: { code?: string; recovery_code?: string }
+): Promise<LoginResponse & { recovery_codes_remaining?: number }> {
+	return await postAuthFunction('auth-login', { action: 'verify_2fa', challenge_token: challengeToken, ...input });
+}
+
+export async function startTwoFactorSetupLogin(challengeToken: string): Promise<TwoFactorSetup> {
+	return await postAuthFunction<TwoFactorSetup>('auth-login', { action: 'setup_2fa', challenge_token: challengeToken });
+}
+
+export async function confirmTwoFactorSetupLogin(
+	challengeToken: string,
+	code: string
+): Promise<LoginResponse & { recovery_codes: string[] }> {
+	return await postAuthFunction('auth-login', { action: 'confirm_2fa', challenge_token: challengeToken, code });
+}
+
+/**
+ * Current session token, refreshed if it is about to expire. Null when there is no valid session;
+ * a stored user without one (missing or expired token, failed refresh) is logged out.
+ */
+export async function getSessionToken(): Promise<string | null> {
+	const stored = readStoredUser();
+	if (!stored) return null;
+
+	const token = stored.session_token;
+	const remaining = sessionExpiresAt(stored) - Date.now();
+	if (!token || remaining <= 0) {
+		endSession();
+		return null;
+	}
+	if (remaining > REFRESH_WINDOW_MS) return token;
+
+	if (!refreshInFlight) {
+		refreshInFlight = postAuthFunction<{ token: string; expires_at: string }>('auth-login', { action: 'refresh' }, token)
+			.then((result) => {
+				storeSessionToken(result.token, result.expires_at);
+				return result.token;
+			})
+			.catch((error) => {
+				console.error('Failed to refresh session token', error);
+				endSession();
+				return null;
+			})
+			.finally(() => {
+				refreshInFlight = null;
+			});
+	}
+	return await refreshInFlight;
+}
+
+export async function getSessionHeaders(): Promise<Record<string, string>> {
+	const token = await getSessionToken();
+	return token ? { [SESSION_TOKEN_HEADER]: token } : {};
+}
+
+/**
+ * Change the signed-in user's password; the current password is checked on the server
+ */
+export async function changeOwnPassword(currentPassword: string, newPassword: string): Promise<void> {
+	const token = await getSessionToken();
+	if (!token) throw new Error('Your session has expired. Please log in again.');
+	const result = await postAuthFunction<{ token?: string; expires_at?: string }>(
+		'auth-password',
+		{ current_password: currentPassword, new_password: newPassword },
+		token
+	);
+	if (result.token && result.expires_at) {
+		storeSessionToken(result.token, result.expires_at);
+	}
+}
+
+/**
+ * Set another user's password (administrators only)
+ */
+export async function setUserPassword(userId: string, newPassword: string): Promise<void> {
+	const token = await getSessionToken();
+	if (!token) throw new Error('Your session has expired. Please log in again.');
+	const result = await postAuthFunction<{ token?: string; expires_at?: string }>(
+		'auth-password',
+		{ user_id: userId, new_password: newPassword },
+		token
+	);
+	// Setting your own password from user management also rotates your session
+	if (result.token && result.expires_at) {
+		storeSessionToken(result.token, result.expires_at);
+	}
+}
+
+async function postTwoFactorAction<T>(action: string, input: Record<string, unknown> = {}): Promise<T> {
+	const token = await getSessionToken();
+	if (!token) throw new Error('Your session has expired. Please log in again.');
+	return await postAuthFunction<T>('auth-2fa', { action, ...input }, token);
+}
+
+export const getTwoFactorStatus = () => postTwoFactorAction<TwoFactorStatus>('status');
+
+/**
+ * Require (or stop requiring) 2FA for every member of a role (administrators only)
+ */
+export const setRoleTwoFactorRequirement = (roleId: string, required: boolean) =>
+	postTwoFactorAction<{ role_id: string; require_two_factor: boolean }>('set_role_requirement', {
+		role_id: roleId,
+		required,
+	});
+
+export const beginTwoFactorEnrollment = () => postTwoFactorAction<TwoFactorSetup>('setup');
+
+export const confirmTwoFactorEnrollment = (code: string) =>
+	postTwoFactorAction<{ enabled: boolean; recovery_codes: string[] }>('confirm', { code });
+
+export const disableTwoFactor = (input: { code?: string; recovery_code?: string }) =>
+	postTwoFactorAction<{ enabled: boolean }>('disable', input);
+
+export const regenerateRecoveryCodes = (code: string) =>
+	postTwoFactorAction<{ recovery_codes: string[] }>('regenerate_recovery_codes', { code });
@@ -4,27 +4,13 @@
  */
 
 import { supabase } from './supabaseClient';
-
-/**
- * Get current user ID from localStorage (custom auth system)
- */
-function getCurrentUserId(): string | null {
-  try {
-    const stored = localStorage.getItem('auth_user');
-    if (!stored) return null;
-    const parsed = JSON.parse(stored);
-    return parsed?.user_id || null;
-  } catch (error) {
-    console.error('Failed to get user ID from localStorage:', error);
-    return null;
-  }
-}
+import { getSessionHeaders } from './authSession';
 
 /**
  * Call a Supabase Edge Function with authentication
  * Uses direct fetch for better error handling to get full error messages
  * 
- * Automatically includes user_id for authentication verification
+ * Automatically includes the session token header for authentication verification
  */
 async function callEdgeFunction<T = any>(
   functionName: string,
@@ -35,12 +21,8 @@ async function callEdgeFunction<T = any>(
 ): Promise<T> {
   const { body, headers = {} } = options;
   
-  // Get current user ID and include it in the request
-  const userId = getCurrentUserId();
-  const requestBody = {
-    ...(body as Record<string, unknown> || {}),
-    ...(userId ? { user_id: userId } : {}), // Include user_id for authentication
-  };
+  const requestBody = body ?? {};
+  const sessionHeaders = await getSessionHeaders();
 
   try {
     // Use direct fetch to get better error messages
@@ -59,6 +41,7 @@ async function callEdgeFunction<T = any>(
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${supabaseAnonKey}`,
         'apikey': supabaseAnonKey,
+        ...sessionHeaders,
         ...headers,
       },
       body: JSON.stringify(requestBody),
@@ -254,9 +237,9 @@ export async function deleteBackup(
  * @returns Pre-signed URL valid for 15 minutes
  */
 export async function generateSignedUrl(s3Key: string): Promise<{ signed_url: string }> {
-  const userId = getCurrentUserId();
+  const sessionHeaders = await getSessionHeaders();
   
-  if (!userId) {
+  if (Object.keys(sessionHeaders).length === 0) {
     throw new Error('Authentication required. Please log in.');
   }
 
@@ -278,10 +261,10 @@ export async function generateSignedUrl(s3Key: string): Promise<{ signed_url: st
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${supabaseAnonKey}`,
         'apikey': supabaseAnonKey,
+        ...sessionHeaders,
       },
       body: JSON.stringify({
         s3_key: s3Key,
-        user_id: userId,
       }),
     });
 
@@ -317,8 +300,8 @@ export async function generateSignedUrl(s3Key: string): Promise<{ signed_url: st
         const { data, error: invokeError } = await supabase.functions.invoke('generate-signed-url', {
           body: { 
             s3_key: s3Key,
-            user_id: userId,
           },
+          headers: sessionHeaders,
         });
 
         if (invokeError) {
@@ -1,38 +1,11 @@
-import { supabase } from './supabaseClient';
+import { loadCompanySettings } from './companySettings';
 import type { CompanyBranding } from '../../supabase/models/company_branding';
 
-let companyInfoCache: CompanyBranding | null = null;
-let cacheTimestamp = 0;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
+// Reads the shared settings cache (see companySettings.ts), so the details are the same in every browser
 export async function getCompanyInfo(): Promise<CompanyBranding | null> {
-  const now = Date.now();
-  
-  // Return cached data if still valid
-  if (companyInfoCache && (now - cacheTimestamp) < CACHE_DURATION) {
-    return companyInfoCache;
-  }
-
   try {
-    const { data, error } = await supabase
-      .from("company_branding")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle<CompanyBranding>();
-
-    if (error) {
-      console.error('Error fetching company info:', error);
-      return null;
-    }
-
-    if (data) {
-      companyInfoCache = data;
-      cacheTimestamp = now;
-      return data;
-    }
-
-    return null;
+    const { branding } = await loadCompanySettings();
+    return branding;
   } catch (error) {
     console.error('Error fetching company info:', error);
     return null;
@@ -61,3 +34,10 @@ export function getCompanyFullName(companyInfo: CompanyBranding | null): string
   const ar = getCompanyNameArabic(companyInfo);
   return `${en} | ${ar}`;
 }
+
+/**
+ * Seller VAT registration number used on tax documents.
+ */
+export function getCompanyVatNumber(companyInfo: CompanyBranding | null): string {
+  return companyInfo?.company_tax_number?.trim() || "";
+}
@@ -0,0 +1,211 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import type { CompanyBranding, CompanyBrandingInsert } from '../../supabase/models/company_branding';
+import type { SystemSettings, SystemSettingsUpdate } from '../../supabase/models/system_settings';
+
+/**
+ * Company settings.
+ * The company's legal details (names, VAT number, commercial registration, address, WPS identifiers)
+ * are the company_branding row and the system-wide toggles the system_settings row. Printing,
+ * e-invoicing and bank files read them from here rather than from the browser, so every machine
+ * produces the same documents. Both rows are cached after the first load; while a component is
+ * subscribed, changes saved from another session arrive over realtime and replace the cache.
+ */
+
+export interface CompanySettings {
+	branding: CompanyBranding | null;
+	system: SystemSettings | null;
+}
+
+export type CompanyBrandingValues = Partial<Omit<CompanyBranding, 'branding_id' | 'created_at' | 'updated_at'>>;
+
+// localStorage keys older builds saved these details under
+type LegacyBrandingField =
+	| 'company_tax_number'
+	| 'company_commercial_register'
+	| 'company_address'
+	| 'company_city_postal'
+	| 'wps_establishment_id'
+	| 'company_iban';
+
+const LEGACY_BRANDING_KEYS: Record<LegacyBrandingField, string> = {
+	company_tax_number: 'companyTaxNumber',
+	company_commercial_register: 'companyCommercialReg',
+	company_address: 'companyAddress',
+	company_city_postal: 'companyCityPostal',
+	wps_establishment_id: 'wpsEstablishmentId',
+	company_iban: 'wpsCompanyIban',
+};
+
+// Write-only copy of the toggles that Settings used to keep next to the database row
+const LEGACY_SYSTEM_SETTINGS_KEY = 'system_settings';
+
+let snapshot: CompanySettings | null = null;
+let pending: Promise<CompanySettings> | null = null;
+let channel: RealtimeChannel | null = null;
+const listeners = new Set<() => void>();
+
+function currentUserId(): string | null {
+	try {
+		const stored = localStorage.getItem('auth_user');
+		return stored ? JSON.parse(stored).user_id ?? null : null;
+	} catch {
+		return null;
+	}
+}
+
+function publish(update: Partial<CompanySettings>): CompanySettings {
+	snapshot = { branding: null, system: null, ...snapshot, ...update };
+	listeners.forEach((listener) => listener());
+	return snapshot;
+}
+
+async function fetchBranding(): Promise<CompanyBranding | null> {
+	const { data, error } = await supabase
+		.from('company_branding')
+		.select('*')
+		.order('created_at', { ascending: false })
+		.limit(1)
+		.maybeSingle<CompanyBranding>();
+	if (error) throw error;
+	return data;
+}
+
+async function fetchSystemSettings(): Promise<SystemSettings | null> {
+	const { data, error } = await supabase
+		.from('system_settings')
+		.select('*')
+		.order('created_at', { ascending: false })
+		.limit(1)
+		.maybeSingle<SystemSettings>();
+	if (error) throw error;
+	return data;
+}
+
+/**
+ * Copy details this browser saved locally into the branding row, filling only columns that are still
+ * empty so the database always wins. The keys are kept until there is a row to copy them into.
+ */
+async function adoptLegacyBranding(branding: CompanyBranding | null): Promise<CompanyBranding | null> {
+	localStorage.removeItem(LEGACY_SYSTEM_SETTINGS_KEY);
+	if (!branding) return branding;
+
+	const fields = Object.keys(LEGACY_BRANDING_KEYS) as LegacyBrandingField[];
+	const values: CompanyBrandingValues = {};
+	let found = false;
+	for (const field of fields) {
+		const stored = localStorage.getItem(LEGACY_BRANDING_KEYS[field])?.trim();
+		if (!stored) continue;
+		found = true;
+		if (!branding[field]?.trim()) values[field] = stored;
+	}
+	if (!found) return branding;
+
+	let adopted = branding;
+	if (Object.keys(values).length > 0) {
+		const { data, error } = await supabase
+			.from('company_branding')
+			.update(values)
+			.eq('branding_id', branding.branding_id)
+			.select('*')
+			.single<CompanyBranding>();
+		if (error) throw error;
+		adopted = data;
+	}
+	fields.forEach((field) => localStorage.removeItem(LEGACY_BRANDING_KEYS[field]));
+	return adopted;
+}
+
+/**
+ * Fetch both rows from the database, replacing the cache
+ */
+export function refreshCompanySettings(): Promise<CompanySettings> {
+	const request = Promise.all([fetchBranding().then(adoptLegacyBranding), fetchSystemSettings()])
+		.then(([branding, system]) => publish({ branding, system }))
+		.finally(() => {
+			if (pending === request) pending = null;
+		});
+	pending = request;
+	return request;
+}
+
+/**
+ * The cached settings, loading them on first use
+ */
+export function loadCompanySettings(): Promise<CompanySettings> {
+	if (snapshot) return Promise.resolve(snapshot);
+	return pending ?? refreshCompanySettings();
+}
+
+/**
+ * Update the branding row, creating it when the company has none yet
+ */
+export async function saveCompanyBranding(values: CompanyBrandingValues): Promise<CompanyBranding> {
+	const { branding } = await loadCompanySettings();
+	const request = branding
+		? supabase
+				.from('company_branding')
+				.update(values)
+				.eq('branding_id', branding.branding_id)
+		: supabase.from('company_branding').insert(values as CompanyBrandingInsert);
+
+	const { data, error } = await request.select('*').single<CompanyBranding>();
+	if (error) throw error;
+	publish({ branding: data });
+	return data;
+}
+
+/**
+ * Update the system toggles, creating the row when there is none yet
+ */
+export async function saveSystemSettings(values: SystemSettingsUpdate): Promise<SystemSettings> {
+	const { system } = await loadCompanySettings();
+	const userId = currentUserId();
+	const request = system
+		? supabase
+				.from('system_settings')
+				.update({ ...values, updated_by: userId })
+				.eq('setting_id', system.setting_id)
+		: supabase.from('system_settings').insert({ ...values, created_by: userId, updated_by: userId });
+
+	const { data, error } = await request.select('*').single<SystemSettings>();
+	if (error) throw error;
+	publish({ system: data });
+	return data;
+}
+
+function subscribe(listener: () => void) {
+	listeners.add(listener);
+	if (!channel) {
+		const refetch = () => {
+			refreshCompanySettings().catch((error) => console.error('Error refreshing company settings:', error));
+		};
+		channel = supabase
+			.channel('company-settings')
+			.on('postgres_changes', { event: '*', schema: 'public', table: 'company_branding' }, refetch)
+			.on('postgres_changes', { event: '*', schema: 'public', table: 'system_settings' }, refetch)
+			.subscribe();
+	}
+
+	return () => {
+		listeners.delete(listener);
+		if (listeners.size === 0 && channel) {
+			void supabase.removeChannel(channel);
+			channel = null;
+		}
+	};
+}
+
+/**
+ * The company settings for rendering; null until the first load finishes
+ */
+export function useCompanySettings(): CompanySettings | null {
+	const settings = useSyncExternalStore(subscribe, () => snapshot);
+
+	useEffect(() => {
+		loadCompanySettings().catch((error) => console.error('Error loading company settings:', error));
+	}, []);
+
+	return settings;
+}
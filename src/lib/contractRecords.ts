@@ -0,0 +1,333 @@
+import { supabase } from './supabaseClient';
+import type { ContractPaymentPlan, Contracts } from '../../supabase/models/contracts';
+import type { ContractDevices } from '../../supabase/models/contract_devices';
+import type { ContractHistory, ContractHistoryInsert } from '../../supabase/models/contract_history';
+
+/**
+ * Contract records.
+ * Client details, plan amounts, lifecycle dates and the auto-visit flag are contract columns, devices
+ * are contract_devices rows and the history log is contract_history (see the contract_metadata_columns
+ * migration). They used to be a JSON document in contracts.notes; rows still written that way by an
+ * older build are read here too, with the JSON taking precedence because it is the newer write.
+ */
+
+export interface ContractDeviceLine {
+	device_type: string;
+	quantity: number;
+}
+
+export interface ContractHistoryEntry {
+	id: string;
+	action: string;
+	description: string;
+	user: string;
+	timestamp: string;
+	details?: string;
+}
+
+export interface ContractDetails {
+	clientName: string;
+	clientCr: string;
+	clientCity: string;
+	clientRepresentative: string;
+	clientDesignation: string;
+	clientPhone: string;
+	clientEmail: string;
+	postalCode: string;
+	serviceAddress: string;
+	paymentPlan: ContractPaymentPlan;
+	monthlyAmount: number;
+	semiAnnualAmount: number;
+	annualAmount: number;
+	emergencyVisitFee: number;
+	monthlyVisitStartDate: string;
+	autoMonthlyVisitsEnabled: boolean;
+	sentDate?: string;
+	signedDate?: string;
+	attachedDate?: string;
+	attachedFileName?: string;
+	attachedFileData?: string; // Base64 copy kept by the first versions of the screen
+	attachedFileId?: string;
+	attachedFileUrl?: string;
+	suspendedDate?: string;
+	suspensionReason?: string;
+	cancelledDate?: string;
+	cancellationReason?: string;
+	reactivatedDate?: string;
+	notes: string;
+	devices: ContractDeviceLine[];
+	historyLog: ContractHistoryEntry[];
+}
+
+type LegacyNotes = Record<string, unknown>;
+
+const LEGACY_KEYS = [
+	'clientName',
+	'paymentPlan',
+	'monthlyAmount',
+	'historyLog',
+	'deviceTypes',
+	'devicesCount',
+	'monthlyVisitStartDate',
+	'autoMonthlyVisitsEnabled',
+];
+
+/**
+ * The old JSON document when `notes` still holds one, otherwise null (plain notes)
+ */
+export function parseLegacyContractNotes(notes: string | null | undefined): LegacyNotes | null {
+	if (!notes || !notes.trim().startsWith('{')) return null;
+	try {
+		const parsed = JSON.parse(notes);
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+		return LEGACY_KEYS.some((key) => key in parsed) ? (parsed as LegacyNotes) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Device lines from the old free-text pair, e.g. "Pro: 2, Ultra: 3" and "5".
+ * Must match pg_temp.legacy_devices() in the contract_metadata_columns migration.
+ */
+export function parseLegacyDevices(deviceTypes: unknown, devicesCount: unknown): ContractDeviceLine[] {
+	const text = typeof deviceTypes === 'string' ? deviceTypes : '';
+	const total = parseInt(String(devicesCount ?? '').match(/\d+/)?.[0] ?? '', 10);
+	const parts = text
+		.split(/[,،\n]/)
+		.map((part) => part.trim())
+		.filter(Boolean);
+
+	if (parts.length === 0) {
+		return total > 0 ? [{ device_type: 'Unspecified', quantity: total }] : [];
+	}
+	if (parts.every((part) => /^.+?\s*:\s*\d+$/.test(part))) {
+		return parts.map((part) => {
+			const [, type, quantity] = part.match(/^(.+?)\s*:\s*(\d+)$/) ?? [];
+			return { device_type: type.trim(), quantity: Math.max(1, Number(quantity)) };
+		});
+	}
+	if (parts.length === 1) {
+		return [{ device_type: parts[0], quantity: Math.max(1, Number.isNaN(total) ? 1 : total) }];
+	}
+	return [{ device_type: text.trim(), quantity: Math.max(1, Number.isNaN(total) ? parts.length : total) }];
+}
+
+export const countDevices = (devices: ContractDeviceLine[]) => devices.reduce((sum, device) => sum + device.quantity, 0);
+
+/**
+ * Devices as printed on the contract, e.g. "Pro: 2, Ultra: 3"
+ */
+export const formatDeviceTypes = (devices: ContractDeviceLine[]) =>
+	devices.map((device) => (devices.length === 1 ? device.device_type : `${device.device_type}: ${device.quantity}`)).join(', ');
+
+const text = (value: unknown) => (typeof value === 'string' ? value : value == null ? '' : String(value));
+const optionalText = (value: unknown) => (value == null || value === '' ? undefined : String(value));
+const amount = (value: unknown, fallback: number) => {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && value !== '' && value != null ? parsed : fallback;
+};
+
+function legacyHistory(value: unknown): ContractHistoryEntry[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+		.map((entry, index) => ({
+			id: `legacy-${text(entry.id) || index}`,
+			action: text(entry.action) || 'Edited',
+			description: text(entry.description),
+			user: text(entry.user),
+			timestamp: text(entry.timestamp),
+			details: optionalText(entry.details),
+		}));
+}
+
+export function toHistoryEntry(row: ContractHistory): ContractHistoryEntry {
+	return {
+		id: row.history_id,
+		action: row.action,
+		description: row.description,
+		user: row.user_name ?? '',
+		timestamp: row.created_at,
+		details: row.details ?? undefined,
+	};
+}
+
+/**
+ * Everything the contracts screen shows about a contract, from its columns and child rows
+ * (or, for rows still in the old format, from the JSON in notes)
+ */
+export function readContractDetails(
+	row: Contracts,
+	devices: ContractDevices[] = [],
+	history: ContractHistory[] = []
+): ContractDetails {
+	const legacy = parseLegacyContractNotes(row.notes);
+	const pick = (key: string, column: unknown): unknown => (legacy && key in legacy ? legacy[key] : column);
+
+	const storedDevices = devices
+		.filter((device) => device.contract_id === row.contract_id)
+		.sort((a, b) => a.sort_order - b.sort_order)
+		.map((device) => ({ device_type: device.device_type, quantity: device.quantity }));
+	const legacyDevices = legacy ? parseLegacyDevices(legacy.deviceTypes, legacy.devicesCount) : [];
+
+	const historyLog = [
+		...history.filter((entry) => entry.contract_id === row.contract_id).map(toHistoryEntry),
+		...legacyHistory(legacy?.historyLog),
+	].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+	const plan = pick('paymentPlan', row.payment_plan);
+	return {
+		clientName: text(pick('clientName', row.client_name)),
+		clientCr: text(pick('clientCr', row.client_cr)),
+		clientCity: text(pick('clientCity', row.client_city)),
+		clientRepresentative: text(pick('clientRepresentative', row.client_representative)),
+		clientDesignation: text(pick('clientDesignation', row.client_designation)),
+		clientPhone: text(pick('clientPhone', row.client_phone)),
+		clientEmail: text(pick('clientEmail', row.client_email)),
+		postalCode: text(pick('postalCode', row.postal_code)),
+		serviceAddress: row.location || text(legacy?.serviceAddress),
+		paymentPlan: plan === 'semi-annual' || plan === 'annual' ? plan : 'monthly',
+		monthlyAmount: amount(pick('monthlyAmount', row.monthly_amount), 0),
+		semiAnnualAmount: amount(pick('semiAnnualAmount', row.semi_annual_amount), 0),
+		annualAmount: amount(pick('annualAmount', row.annual_amount), 0),
+		emergencyVisitFee: amount(pick('emergencyVisitFee', row.emergency_visit_fee), 500),
+		monthlyVisitStartDate: text(pick('monthlyVisitStartDate', row.monthly_visit_start_date)) || row.contract_start_date,
+		autoMonthlyVisitsEnabled: pick('autoMonthlyVisitsEnabled', row.auto_monthly_visits_enabled) !== false,
+		sentDate: optionalText(pick('sentDate', row.sent_date)),
+		signedDate: optionalText(pick('signedDate', row.signed_date)),
+		attachedDate: optionalText(pick('attachedDate', row.attached_date)),
+		attachedFileName: optionalText(pick('attachedFileName', row.attached_file_name)),
+		attachedFileData: optionalText(legacy?.attachedFileData ?? row.legacy_metadata?.attachedFileData),
+		attachedFileId: optionalText(pick('attachedFileId', row.attached_file_id)),
+		attachedFileUrl: optionalText(pick('attachedFileUrl', row.attached_file_url)),
+		suspendedDate: optionalText(pick('suspendedDate', row.suspended_date)),
+		suspensionReason: optionalText(pick('suspensionReason', row.suspension_reason)),
+		cancelledDate: optionalText(pick('cancelledDate', row.cancelled_date)),
+		cancellationReason: optionalText(pick('cancellationReason', row.cancellation_reason)),
+		reactivatedDate: optionalText(pick('reactivatedDate', row.reactivated_date)),
+		notes: legacy ? text(legacy.notes) : row.notes ?? '',
+		devices: storedDevices.length > 0 ? storedDevices : legacyDevices,
+		historyLog,
+	};
+}
+
+/**
+ * Contract columns for the fields edited on the contract form
+ */
+export function contractDetailsToColumns(
+	details: Omit<ContractDetails, 'devices' | 'historyLog' | 'serviceAddress'> & { serviceAddress?: string }
+): Partial<Contracts> {
+	const date = (value?: string) => value || null;
+	return {
+		client_name: details.clientName || null,
+		client_cr: details.clientCr || null,
+		client_city: details.clientCity || null,
+		client_representative: details.clientRepresentative || null,
+		client_designation: details.clientDesignation || null,
+		client_phone: details.clientPhone || null,
+		client_email: details.clientEmail || null,
+		postal_code: details.postalCode || null,
+		...(details.serviceAddress !== undefined ? { location: details.serviceAddress || null } : {}),
+		payment_plan: details.paymentPlan,
+		monthly_amount: details.monthlyAmount,
+		semi_annual_amount: details.semiAnnualAmount,
+		annual_amount: details.annualAmount,
+		emergency_visit_fee: details.emergencyVisitFee,
+		monthly_visit_start_date: date(details.monthlyVisitStartDate),
+		auto_monthly_visits_enabled: details.autoMonthlyVisitsEnabled,
+		sent_date: date(details.sentDate),
+		signed_date: date(details.signedDate),
+		attached_date: date(details.attachedDate),
+		attached_file_name: details.attachedFileName ?? null,
+		attached_file_id: details.attachedFileId ?? null,
+		attached_file_url: details.attachedFileUrl ?? null,
+		suspended_date: date(details.suspendedDate),
+		suspension_reason: details.suspensionReason ?? null,
+		cancelled_date: date(details.cancelledDate),
+		cancellation_reason: details.cancellationReason ?? null,
+		reactivated_date: date(details.reactivatedDate),
+		notes: details.notes.trim() || null,
+	};
+}
+
+/**
+ * Before a row still in the old format is updated, move its JSON into the columns and child tables so
+ * the update is not hidden behind the JSON. Returns the columns to write along with the update
+ * (nothing for rows already in the new format).
+ */
+export async function upgradeLegacyContract(
+	row: Contracts,
+	devices: ContractDevices[],
+	history: ContractHistory[]
+): Promise<Partial<Contracts>> {
+	const legacy = parseLegacyContractNotes(row.notes);
+	if (!legacy) return {};
+
+	const details = readContractDetails(row, devices, history);
+	if (!devices.some((device) => device.contract_id === row.contract_id) && details.devices.length > 0) {
+		await saveContractDevices(row.contract_id, details.devices);
+	}
+	const entries = legacyHistory(legacy.historyLog);
+	if (entries.length > 0) {
+		const { error } = await supabase.from('contract_history').insert(
+			entries.map((entry) => ({
+				contract_id: row.contract_id,
+				action: entry.action,
+				description: entry.description,
+				details: entry.details ?? null,
+				user_name: entry.user || null,
+				...(entry.timestamp && !Number.isNaN(Date.parse(entry.timestamp)) ? { created_at: entry.timestamp } : {}),
+			}))
+		);
+		if (error) throw error;
+	}
+	return contractDetailsToColumns(details);
+}
+
+/**
+ * Replace the device lines of a contract
+ */
+export async function saveContractDevices(contractId: string, devices: ContractDeviceLine[]): Promise<void> {
+	const { error: deleteError } = await supabase.from('contract_devices').delete().eq('contract_id', contractId);
+	if (deleteError) throw deleteError;
+
+	const rows = devices
+		.filter((device) => device.device_type.trim() && device.quantity > 0)
+		.map((device, index) => ({
+			contract_id: contractId,
+			device_type: device.device_type.trim(),
+			quantity: Math.round(device.quantity),
+			sort_order: index,
+		}));
+	if (rows.length === 0) return;
+
+	const { error } = await supabase.from('contract_devices').insert(rows);
+	if (error) throw error;
+}
+
+/**
+ * History row for an action by the signed-in user
+ */
+export function contractHistoryEntry(
+	contractId: string,
+	action: string,
+	description: string,
+	details?: string
+): ContractHistoryInsert {
+	let userId: string | null = null;
+	try {
+		const stored = localStorage.getItem('auth_user');
+		userId = stored ? JSON.parse(stored).user_id ?? null : null;
+	} catch {
+		userId = null;
+	}
+	return {
+		contract_id: contractId,
+		action,
+		description,
+		details: details ?? null,
+		user_name: localStorage.getItem('userName') || 'System Admin',
+		user_id: userId,
+	};
+}
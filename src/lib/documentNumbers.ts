@@ -0,0 +1,55 @@
+import { supabase } from './supabaseClient';
+import type { DocumentSequenceCounters, DocumentSequences, DocumentSequencesUpdate } from '../../supabase/models/document_sequences';
+
+/**
+ * Document numbering.
+ * Numbers are allocated by the database when a document is inserted (see the document_numbering
+ * migration), so screens no longer build them and read the stored number back instead. This module
+ * reads and edits the per-type format shown in Settings and previews the next number.
+ */
+
+export interface DocumentSequenceWithNext extends DocumentSequences {
+	nextNumber: string;
+}
+
+export const PREFIX_PATTERN = /^[A-Za-z0-9]+$/;
+
+/**
+ * Same format as format_document_number() in the database
+ */
+export function formatDocumentNumber(
+	sequence: Pick<DocumentSequences, 'prefix' | 'reset_yearly' | 'padding'>,
+	year: number,
+	value: number
+): string {
+	const digits = String(value).padStart(sequence.padding, '0');
+	return sequence.reset_yearly ? `${sequence.prefix}-${year}-${digits}` : `${sequence.prefix}-${digits}`;
+}
+
+export async function fetchDocumentSequences(): Promise<DocumentSequenceWithNext[]> {
+	const [sequencesResult, countersResult] = await Promise.all([
+		supabase.from('document_sequences').select('*').order('label', { ascending: true }),
+		supabase.from('document_sequence_counters').select('*'),
+	]);
+	if (sequencesResult.error) throw sequencesResult.error;
+	if (countersResult.error) throw countersResult.error;
+
+	const year = new Date().getFullYear();
+	const counters = (countersResult.data ?? []) as DocumentSequenceCounters[];
+	return ((sequencesResult.data ?? []) as DocumentSequences[]).map((sequence) => {
+		const periodKey = sequence.reset_yearly ? year : 0;
+		const counter = counters.find((row) => row.document_type === sequence.document_type && row.sequence_year === periodKey);
+		return { ...sequence, nextNumber: formatDocumentNumber(sequence, year, (counter?.last_number ?? 0) + 1) };
+	});
+}
+
+export async function updateDocumentSequence(documentType: string, values: DocumentSequencesUpdate): Promise<void> {
+	if (values.prefix !== undefined && !PREFIX_PATTERN.test(values.prefix)) {
+		throw new Error('Prefix may only contain letters and digits');
+	}
+	const { error } = await supabase
+		.from('document_sequences')
+		.update({ ...values, updated_at: new Date().toISOString() })
+		.eq('document_type', documentType);
+	if (error) throw error;
+}
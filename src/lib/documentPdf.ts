@@ -0,0 +1,41 @@
+import { callEdgeFunction } from './edgeFunctions';
+
+/**
+ * Server-side PDFs.
+ * Printable documents are rendered to PDF by the render-pdf edge function from the same HTML the app
+ * prints, so the file does not depend on the browser and a copy is archived with the document
+ * (file_metadata, category document_pdf). The function returns a short-lived download link.
+ */
+
+export type PdfDocumentType = 'invoice' | 'quotation' | 'contract' | 'payment_receipt' | 'customer_statement';
+
+export interface RenderedPdf {
+	file_id: string;
+	file_name: string;
+	size: number;
+	signed_url: string;
+	expires_at: string;
+}
+
+export async function renderDocumentPdf(options: {
+	documentType: PdfDocumentType;
+	ownerId: string; // The document's id; the customer's id for statements
+	documentNumber: string;
+	html: string;
+}): Promise<RenderedPdf> {
+	return await callEdgeFunction<RenderedPdf>('render-pdf', {
+		document_type: options.documentType,
+		owner_id: options.ownerId,
+		document_number: options.documentNumber,
+		html: options.html,
+	});
+}
+
+/**
+ * Render the document and download the PDF. The link is served as an attachment, so the app stays open.
+ */
+export async function downloadDocumentPdf(options: Parameters<typeof renderDocumentPdf>[0]): Promise<RenderedPdf> {
+	const rendered = await renderDocumentPdf(options);
+	window.location.assign(rendered.signed_url);
+	return rendered;
+}
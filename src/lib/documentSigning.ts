@@ -0,0 +1,134 @@
+import { supabase } from './supabaseClient';
+import { callEdgeFunction } from './edgeFunctions';
+import type {
+	DocumentSignatureRequests,
+	SignatureDocumentType,
+	SignatureRequestStatus,
+} from '../../supabase/models/document_signature_requests';
+
+/**
+ * Customer e-signatures.
+ * Staff send a contract or quotation for signature: the rendered document is stored by the
+ * document-signing edge function and the customer gets a /sign/<token> link. The public signing page
+ * shows the document and collects a typed name and a drawn signature. On signing, the function archives
+ * the signed copy (the document with a signature certificate) as a PDF with the document's files.
+ */
+
+// What staff see of a request; the stored document and token hash are left out
+export type SignatureRequestSummary = Omit<DocumentSignatureRequests, 'document_html' | 'token_hash'>;
+
+// What the public signing page gets for a token
+export interface SigningDocument {
+	request_id: string;
+	document_type: SignatureDocumentType;
+	document_id: string;
+	document_number: string;
+	document_html: string;
+	document_hash: string;
+	status: SignatureRequestStatus;
+	expires_at: string;
+	signer_name: string | null;
+	signed_at: string | null;
+	signed_file_id: string | null;
+}
+
+export interface CreatedSignatureRequest {
+	request_id: string;
+	document_hash: string;
+	expires_at: string;
+	url: string;
+}
+
+const SUMMARY_COLUMNS =
+	'request_id, document_type, document_id, document_number, document_hash, status, expires_at, created_by, created_at, viewed_at, signer_name, signature_image, signer_ip, signer_user_agent, signed_at, signed_file_id';
+
+export function signingUrl(token: string): string {
+	return `${window.location.origin}/sign/${token}`;
+}
+
+/**
+ * Store the rendered document and return its signing link. Any open link for the document is revoked.
+ */
+export async function createSignatureRequest(options: {
+	documentType: SignatureDocumentType;
+	documentId: string;
+	documentNumber: string;
+	documentHtml: string;
+	expiresInDays: number;
+}): Promise<CreatedSignatureRequest> {
+	const { token, ...created } = await callEdgeFunction<Omit<CreatedSignatureRequest, 'url'> & { token: string }>(
+		'document-signing',
+		{
+			action: 'create',
+			document_type: options.documentType,
+			document_id: options.documentId,
+			document_number: options.documentNumber,
+			document_html: options.documentHtml,
+			expires_in_days: options.expiresInDays,
+		}
+	);
+	return { ...created, url: signingUrl(token) };
+}
+
+export async function fetchSignatureRequests(
+	documentType: SignatureDocumentType,
+	documentId: string
+): Promise<SignatureRequestSummary[]> {
+	const { data, error } = await supabase
+		.from('document_signature_requests')
+		.select(SUMMARY_COLUMNS)
+		.eq('document_type', documentType)
+		.eq('document_id', documentId)
+		.order('created_at', { ascending: false });
+	if (error) throw error;
+	return (data ?? []) as SignatureRequestSummary[];
+}
+
+/**
+ * Status of the latest signature request of each document of a type, for status badges in lists
+ */
+export async function fetchLatestSignatureStatuses(
+	documentType: SignatureDocumentType
+): Promise<Map<string, SignatureRequestStatus>> {
+	const { data, error } = await supabase
+		.from('document_signature_requests')
+		.select('document_id, status')
+		.eq('document_type', documentType)
+		.order('created_at', { ascending: false });
+	if (error) throw error;
+	const latest = new Map<string, SignatureRequestStatus>();
+	for (const request of (data ?? []) as Pick<DocumentSignatureRequests, 'document_id' | 'status'>[]) {
+		if (!latest.has(request.document_id)) latest.set(request.document_id, request.status);
+	}
+	return latest;
+}
+
+export async function fetchSigningDocument(token: string): Promise<SigningDocument> {
+	return await callEdgeFunction<SigningDocument>('document-signing', { action: 'view', token }, false);
+}
+
+export async function signDocument(
+	token: string,
+	values: { signerName: string; signatureImage: string; documentHash: string }
+): Promise<SigningDocument> {
+	return await callEdgeFunction<SigningDocument>(
+		'document-signing',
+		{
+			action: 'sign',
+			token,
+			signer_name: values.signerName,
+			signature_image: values.signatureImage,
+			document_hash: values.documentHash,
+			accepted: true,
+		},
+		false
+	);
+}
+
+/**
+ * Archive the signed copy of a request whose copy could not be stored when it was signed
+ */
+export async function archiveSignedDocument(requestId: string): Promise<string | null> {
+	const archived = await callEdgeFunction<SigningDocument>('document-signing', { action: 'archive', request_id: requestId });
+	return archived.signed_file_id;
+}
@@ -0,0 +1,36 @@
+import { getSessionHeaders } from './authSession';
+
+/**
+ * Call one of the app's Edge Functions with a JSON body. Staff calls send the session token
+ * (withSession); public pages such as the signing page call without it.
+ */
+export async function callEdgeFunction<T>(name: string, body: Record<string, unknown>, withSession = true): Promise<T> {
+	const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
+	const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+	if (!supabaseUrl || !supabaseAnonKey) {
+		throw new Error('Supabase configuration is missing. Please check your environment variables.');
+	}
+
+	const response = await fetch(`${supabaseUrl.replace(/\/$/, '')}/functions/v1/${name}`, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Authorization: `Bearer ${supabaseAnonKey}`,
+			apikey: supabaseAnonKey,
+			...(withSession ? await getSessionHeaders() : {}),
+		},
+		body: JSON.stringify(body),
+	});
+
+	const responseText = await response.text();
+	let data: (T & { error?: string }) | null = null;
+	try {
+		data = responseText ? JSON.parse(responseText) : null;
+	} catch {
+		throw new Error(`Edge Function ${name} returned invalid response: ${responseText}`);
+	}
+	if (!response.ok || !data) {
+		throw new Error(data?.error || `HTTP ${response.status}: ${response.statusText}`);
+	}
+	return data;
+}
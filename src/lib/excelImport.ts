@@ -0,0 +1,413 @@
+import * as XLSX from '@e965/xlsx';
+import type { Customers } from '../../supabase/models/customers';
+import type { Leads } from '../../supabase/models/leads';
+import type { Contracts } from '../../supabase/models/contracts';
+import type { Inventory } from '../../supabase/models/inventory';
+import type { Suppliers } from '../../supabase/models/suppliers';
+import type { Employees } from '../../supabase/models/employees';
+
+/**
+ * Spreadsheet import: parsing, column mapping, row validation and dry-run planning.
+ * The UI (ImportExcelButton) drives these steps and writes the plan through the CRUD thunks.
+ */
+
+export type ImportSection = 'Customers' | 'Leads' | 'Contracts' | 'Inventory' | 'Suppliers' | 'Employees';
+
+export type ImportFieldType = 'string' | 'number' | 'date' | 'email' | 'phone' | 'vat' | 'customer';
+
+export interface ImportField<T> {
+	key: keyof T & string;
+	label: string;
+	type: ImportFieldType;
+	required?: boolean;
+	aliases?: string[]; // Header names recognised automatically (case/space-insensitive)
+	options?: string[]; // Allowed values (lower-case)
+}
+
+export interface ImportSchema<T> {
+	table: string;
+	idColumn: keyof T & string;
+	matchKey: keyof T & string; // Existing rows with the same value are updated instead of created
+	fields: ImportField<T>[];
+	defaults?: Partial<T>;
+}
+
+export type ColumnMapping = Record<string, string>; // field key -> spreadsheet header ('' = not mapped)
+
+export interface ParsedSheet {
+	headers: string[];
+	rows: Record<string, unknown>[];
+}
+
+export interface ImportRowResult {
+	rowNumber: number; // 1-based spreadsheet row (header is row 1)
+	action: 'create' | 'update' | 'reject';
+	values: Record<string, unknown>;
+	existingId?: string;
+	errors: string[];
+}
+
+export interface ImportPlan {
+	creates: ImportRowResult[];
+	updates: ImportRowResult[];
+	rejects: ImportRowResult[];
+}
+
+export interface ImportContext {
+	existing: Record<string, unknown>[];
+	customers: Customers[];
+}
+
+const customersSchema: ImportSchema<Customers> = {
+	table: 'customers',
+	idColumn: 'customer_id',
+	matchKey: 'contact_num',
+	fields: [
+		{ key: 'customer_name', label: 'Customer Name', type: 'string', required: true, aliases: ['name', 'customer', 'اسم العميل'] },
+		{ key: 'company', label: 'Company', type: 'string', aliases: ['company name', 'الشركة'] },
+		{ key: 'contact_num', label: 'Mobile', type: 'phone', required: true, aliases: ['mobile', 'phone', 'contact number', 'الجوال'] },
+		{ key: 'customer_email', label: 'Email', type: 'email', aliases: ['email', 'e-mail'] },
+		{ key: 'customer_city_of_residence', label: 'City', type: 'string', aliases: ['city', 'المدينة'] },
+		{ key: 'customer_address', label: 'Address', type: 'string', aliases: ['address', 'location', 'العنوان'] },
+		{ key: 'vat_number', label: 'VAT Number', type: 'vat', aliases: ['vat', 'tax number', 'الرقم الضريبي'] },
+		{ key: 'commercial_register', label: 'Commercial Register', type: 'string', aliases: ['cr', 'c.r.', 'السجل التجاري'] },
+		{ key: 'contract_type', label: 'Contract Type', type: 'string' },
+		{ key: 'monthly_amount', label: 'Monthly Amount', type: 'number' },
+		{ key: 'status', label: 'Status', type: 'string', options: ['active', 'inactive'] },
+		{ key: 'comments', label: 'Comments', type: 'string', aliases: ['notes'] },
+	],
+	defaults: { status: 'active' },
+};
+
+const leadsSchema: ImportSchema<Leads> = {
+	table: 'leads',
+	idColumn: 'lead_id',
+	matchKey: 'phone_number',
+	fields: [
+		{ key: 'company_name', label: 'Company Name', type: 'string', required: true, aliases: ['company'] },
+		{ key: 'contact_person', label: 'Contact Person', type: 'string', required: true, aliases: ['contact', 'name'] },
+		{ key: 'phone_number', label: 'Phone', type: 'phone', aliases: ['mobile', 'phone number'] },
+		{ key: 'contact_email', label: 'Email', type: 'email', aliases: ['email'] },
+		{ key: 'lead_source', label: 'Source', type: 'string', aliases: ['source'] },
+		{ key: 'estimated_value', label: 'Estimated Value', type: 'number', aliases: ['value'] },
+		{ key: 'interest_level', label: 'Interest Level', type: 'string', aliases: ['interest'] },
+		{ key: 'status', label: 'Status', type: 'string' },
+		{ key: 'notes', label: 'Notes', type: 'string' },
+	],
+	defaults: { status: 'new' },
+};
+
+const contractsSchema: ImportSchema<Contracts> = {
+	table: 'contracts',
+	idColumn: 'contract_id',
+	matchKey: 'contract_number',
+	fields: [
+		{ key: 'contract_number', label: 'Contract Number', type: 'string', required: true, aliases: ['contract no', 'number'] },
+		{ key: 'customer_id', label: 'Customer (name or mobile)', type: 'customer', required: true, aliases: ['customer', 'customer name', 'mobile'] },
+		{ key: 'contract_amount', label: 'Amount', type: 'number', required: true, aliases: ['amount', 'value'] },
+		{ key: 'contract_start_date', label: 'Start Date', type: 'date', required: true, aliases: ['start', 'start date'] },
+		{ key: 'contract_end_date', label: 'End Date', type: 'date', aliases: ['end', 'end date'] },
+		{ key: 'contract_duration_interval', label: 'Duration', type: 'string', required: true, aliases: ['duration'] },
+		{ key: 'contract_status', label: 'Status', type: 'string', aliases: ['status'] },
+		{ key: 'location', label: 'Location', type: 'string' },
+		{ key: 'client_name', label: 'Client Name', type: 'string', aliases: ['client'] },
+		{ key: 'client_cr', label: 'Client CR', type: 'string', aliases: ['cr', 'commercial register'] },
+		{ key: 'client_phone', label: 'Client Phone', type: 'phone' },
+		{ key: 'client_email', label: 'Client Email', type: 'email' },
+		{ key: 'payment_plan', label: 'Payment Plan', type: 'string', options: ['monthly', 'semi-annual', 'annual'], aliases: ['plan'] },
+		{ key: 'monthly_amount', label: 'Monthly Amount', type: 'number' },
+		{ key: 'semi_annual_amount', label: 'Semi-Annual Amount', type: 'number' },
+		{ key: 'annual_amount', label: 'Annual Amount', type: 'number' },
+		{ key: 'monthly_visit_start_date', label: 'Monthly Visit Start Date', type: 'date', aliases: ['visit start date'] },
+		{ key: 'notes', label: 'Notes', type: 'string' },
+	],
+	defaults: { contract_status: 'active' },
+};
+
+const inventorySchema: ImportSchema<Inventory> = {
+	table: 'inventory',
+	idColumn: 'product_code',
+	matchKey: 'en_prod_name',
+	fields: [
+		{ key: 'en_prod_name', label: 'Product Name (EN)', type: 'string', required: true, aliases: ['name', 'product', 'product name'] },
+		{ key: 'ar_prod_name', label: 'Product Name (AR)', type: 'string', aliases: ['arabic name', 'اسم المنتج'] },
+		{ key: 'category', label: 'Category', type: 'string' },
+		{ key: 'measuring_unit', label: 'Unit', type: 'string', aliases: ['unit'] },
+		{ key: 'current_stock', label: 'Current Stock', type: 'number', aliases: ['stock', 'quantity', 'qty'] },
+		{ key: 'minimum_stock_alert', label: 'Minimum Stock', type: 'number', aliases: ['min stock', 'reorder level'] },
+		{ key: 'prod_cost_price', label: 'Cost Price', type: 'number', aliases: ['cost'] },
+		{ key: 'prod_selling_price', label: 'Selling Price', type: 'number', aliases: ['price', 'selling price'] },
+		{ key: 'prod_supplier', label: 'Supplier', type: 'string' },
+		{ key: 'prod_en_description', label: 'Description', type: 'string', aliases: ['description'] },
+	],
+	defaults: { prod_status: 'in-stock' },
+};
+
+const suppliersSchema: ImportSchema<Suppliers> = {
+	table: 'suppliers',
+	idColumn: 'supplier_id',
+	matchKey: 'supplier_en_name',
+	fields: [
+		{ key: 'supplier_en_name', label: 'Supplier Name (EN)', type: 'string', required: true, aliases: ['name', 'supplier'] },
+		{ key: 'supplier_ar_name', label: 'Supplier Name (AR)', type: 'string', aliases: ['arabic name'] },
+		{ key: 'supplier_contact_person', label: 'Contact Person', type: 'string', aliases: ['contact'] },
+		{ key: 'supplier_phone_num', label: 'Phone', type: 'phone', aliases: ['phone', 'mobile'] },
+		{ key: 'supplier_email', label: 'Email', type: 'email', aliases: ['email'] },
+		{ key: 'supplier_tax_number', label: 'VAT Number', type: 'vat', aliases: ['vat', 'tax number'] },
+		{ key: 'supplier_city', label: 'City', type: 'string', aliases: ['city'] },
+		{ key: 'supplier_country', label: 'Country', type: 'string', aliases: ['country'] },
+		{ key: 'supplier_address', label: 'Address', type: 'string', aliases: ['address'] },
+		{ key: 'supplier_category', label: 'Category', type: 'string', aliases: ['category'] },
+		{ key: 'supplier_payment_terms', label: 'Payment Terms', type: 'string', aliases: ['payment terms'] },
+		{ key: 'supplier_notes', label: 'Notes', type: 'string', aliases: ['notes'] },
+	],
+	defaults: { supplier_status: 'active' },
+};
+
+const employeesSchema: ImportSchema<Employees> = {
+	table: 'employees',
+	idColumn: 'employee_id',
+	matchKey: 'national_id',
+	fields: [
+		{ key: 'name_en', label: 'Name (EN)', type: 'string', required: true, aliases: ['name', 'employee name'] },
+		{ key: 'name_ar', label: 'Name (AR)', type: 'string', aliases: ['arabic name', 'الاسم'] },
+		{ key: 'national_id', label: 'National ID / Iqama', type: 'string', required: true, aliases: ['id', 'iqama', 'national id'] },
+		{ key: 'email', label: 'Email', type: 'email' },
+		{ key: 'phone_number', label: 'Phone', type: 'phone', aliases: ['phone', 'mobile'] },
+		{ key: 'position', label: 'Position', type: 'string', aliases: ['job title'] },
+		{ key: 'department', label: 'Department', type: 'string' },
+		{ key: 'hiring_date', label: 'Hiring Date', type: 'date', aliases: ['hire date', 'joining date'] },
+		{ key: 'base_salary', label: 'Base Salary', type: 'number', aliases: ['basic', 'salary'] },
+		{ key: 'housing_allowance', label: 'Housing Allowance', type: 'number', aliases: ['housing'] },
+		{ key: 'transport_allowance', label: 'Transport Allowance', type: 'number', aliases: ['transport'] },
+		{ key: 'other_allowances', label: 'Other Allowances', type: 'number', aliases: ['other'] },
+		{ key: 'bank_name', label: 'Bank Name', type: 'string', aliases: ['bank'] },
+		{ key: 'bank_iban', label: 'IBAN', type: 'string', aliases: ['iban'] },
+	],
+	defaults: { status: 'active' },
+};
+
+export const IMPORT_SCHEMAS = {
+	Customers: customersSchema,
+	Leads: leadsSchema,
+	Contracts: contractsSchema,
+	Inventory: inventorySchema,
+	Suppliers: suppliersSchema,
+	Employees: employeesSchema,
+} as const;
+
+export function getImportSchema(section: ImportSection): ImportSchema<Record<string, unknown>> {
+	return IMPORT_SCHEMAS[section] as unknown as ImportSchema<Record<string, unknown>>;
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[\s_\-.:]+/g, '');
+
+/**
+ * Read the first sheet of an .xlsx/.xls/.csv file into header + row objects
+ */
+export async function parseSpreadsheet(file: File): Promise<ParsedSheet> {
+	const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+	const sheetName = workbook.SheetNames[0];
+	if (!sheetName) {
+		return { headers: [], rows: [] };
+	}
+	const sheet = workbook.Sheets[sheetName];
+	const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: true });
+	const headerRow = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, blankrows: false })[0] ?? [];
+	const headers = headerRow.map((h) => String(h ?? '').trim()).filter(Boolean);
+	return { headers, rows };
+}
+
+/**
+ * Suggest a mapping by matching headers to field keys, labels and aliases
+ */
+export function suggestColumnMapping<T>(schema: ImportSchema<T>, headers: string[]): ColumnMapping {
+	const byNormalized = new Map(headers.map((h) => [normalizeHeader(h), h]));
+	const mapping: ColumnMapping = {};
+	for (const field of schema.fields) {
+		const candidates = [field.key, field.label, ...(field.aliases ?? [])].map(normalizeHeader);
+		const match = candidates.map((c) => byNormalized.get(c)).find(Boolean);
+		mapping[field.key] = match ?? '';
+	}
+	return mapping;
+}
+
+// Saudi VAT numbers are 15 digits starting and ending with 3
+export const isValidVatNumber = (value: string) => /^3\d{13}3$/.test(value);
+
+const normalizePhone = (value: string) => value.replace(/[\s\-()]/g, '');
+
+function toIsoDate(value: unknown): string | null {
+	if (value instanceof Date && !Number.isNaN(value.getTime())) {
+		// SheetJS builds cellDates values at local midnight; toISOString would shift them a day back east of UTC
+		return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+	}
+	if (typeof value === 'number') {
+		// Excel serial date
+		const parsed = XLSX.SSF.parse_date_code(value);
+		if (parsed) {
+			return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+		}
+	}
+	const text = String(value ?? '').trim();
+	const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+	if (dmy) {
+		return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+	}
+	const parsed = new Date(text);
+	return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+function resolveCustomerId(value: string, customers: Customers[]): string | null {
+	const needle = value.trim().toLowerCase();
+	const phone = normalizePhone(value);
+	const match = customers.find(
+		(c) =>
+			c.customer_id === value ||
+			(c.customer_name ?? '').trim().toLowerCase() === needle ||
+			(c.company ?? '').trim().toLowerCase() === needle ||
+			(c.contact_num ? normalizePhone(c.contact_num) === phone : false)
+	);
+	return match?.customer_id ?? null;
+}
+
+function convertValue(
+	field: ImportField<unknown>,
+	raw: unknown,
+	context: ImportContext
+): { value: unknown; error?: string } {
+	const text = raw instanceof Date ? raw.toISOString() : String(raw ?? '').trim();
+	if (!text) {
+		return { value: null };
+	}
+
+	switch (field.type) {
+		case 'number': {
+			const num = Number(text.replace(/[,\s]/g, '').replace(/SAR|ر\.س/gi, ''));
+			return Number.isFinite(num) ? { value: num } : { value: null, error: `${field.label} must be a number` };
+		}
+		case 'date': {
+			const iso = toIsoDate(raw);
+			return iso ? { value: iso } : { value: null, error: `${field.label} is not a valid date` };
+		}
+		case 'email':
+			return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)
+				? { value: text.toLowerCase() }
+				: { value: null, error: `${field.label} is not a valid email` };
+		case 'phone':
+			return { value: normalizePhone(text) };
+		case 'vat': {
+			const digits = text.replace(/\s/g, '');
+			return isValidVatNumber(digits)
+				? { value: digits }
+				: { value: null, error: `${field.label} must be 15 digits starting and ending with 3` };
+		}
+		case 'customer': {
+			const customerId = resolveCustomerId(text, context.customers);
+			return customerId ? { value: customerId } : { value: null, error: `Customer "${text}" not found` };
+		}
+		default:
+			if (field.options && !field.options.includes(text.toLowerCase())) {
+				return { value: null, error: `${field.label} must be one of: ${field.options.join(', ')}` };
+			}
+			return { value: field.options ? text.toLowerCase() : text };
+	}
+}
+
+/**
+ * Validate every row and decide whether it creates, updates or is rejected.
+ * Nothing is written; the result is the dry-run report.
+ */
+export function buildImportPlan<T>(
+	schema: ImportSchema<T>,
+	sheet: ParsedSheet,
+	mapping: ColumnMapping,
+	context: ImportContext
+): ImportPlan {
+	const plan: ImportPlan = { creates: [], updates: [], rejects: [] };
+	const matchField = schema.fields.find((f) => f.key === schema.matchKey);
+	const normalizeMatch = (value: unknown) => {
+		const text = String(value ?? '').trim();
+		return matchField?.type === 'phone' ? normalizePhone(text) : text.toLowerCase();
+	};
+
+	const existingByMatch = new Map<string, Record<string, unknown>>();
+	context.existing.forEach((row) => {
+		const key = normalizeMatch(row[schema.matchKey]);
+		if (key) existingByMatch.set(key, row);
+	});
+	const seenInFile = new Map<string, number>();
+
+	sheet.rows.forEach((row, index) => {
+		const rowNumber = index + 2;
+		const values: Record<string, unknown> = {};
+		const errors: string[] = [];
+
+		for (const field of schema.fields as ImportField<unknown>[]) {
+			const header = mapping[field.key];
+			if (!header) continue;
+			const { value, error } = convertValue(field, row[header], context);
+			if (error) errors.push(error);
+			if (value !== null) values[field.key] = value;
+		}
+
+		for (const field of schema.fields) {
+			if (field.required && (values[field.key] === undefined || values[field.key] === '')) {
+				if (!errors.some((e) => e.startsWith(field.label))) {
+					errors.push(`${field.label} is required`);
+				}
+			}
+		}
+
+		// Skip completely empty rows silently
+		if (Object.keys(values).length === 0 && errors.every((e) => e.endsWith('is required'))) {
+			return;
+		}
+
+		const matchValue = normalizeMatch(values[schema.matchKey]);
+		if (matchValue) {
+			const firstRow = seenInFile.get(matchValue);
+			if (firstRow !== undefined) {
+				errors.push(`Duplicate ${matchField?.label ?? schema.matchKey} (same as row ${firstRow})`);
+			} else {
+				seenInFile.set(matchValue, rowNumber);
+			}
+		}
+
+		if (errors.length > 0) {
+			plan.rejects.push({ rowNumber, action: 'reject', values, errors });
+			return;
+		}
+
+		const existing = matchValue ? existingByMatch.get(matchValue) : undefined;
+		if (existing) {
+			plan.updates.push({
+				rowNumber,
+				action: 'update',
+				values,
+				existingId: String(existing[schema.idColumn]),
+				errors,
+			});
+		} else {
+			plan.creates.push({
+				rowNumber,
+				action: 'create',
+				values: { ...(schema.defaults ?? {}), ...values },
+				errors,
+			});
+		}
+	});
+
+	return plan;
+}
+
+/**
+ * Download the dry-run rejects so they can be fixed and re-imported
+ */
+export function exportImportRejects(section: ImportSection, rejects: ImportRowResult[]): void {
+	const data = rejects.map((r) => ({ Row: r.rowNumber, Errors: r.errors.join('; '), ...r.values }));
+	const ws = XLSX.utils.json_to_sheet(data);
+	const wb = XLSX.utils.book_new();
+	XLSX.utils.book_append_sheet(wb, ws, 'Rejected Rows');
+	XLSX.writeFile(wb, `${section.toLowerCase()}_import_rejects_${new Date().toISOString().split('T')[0]}.xlsx`);
+}
@@ -0,0 +1,239 @@
+import { supabase } from './supabaseClient';
+import type { GlAccounts, GlAccountType, GlPostingRules } from '../../supabase/models/gl_accounts';
+import type { JournalEntryWithLines, JournalSourceType } from '../../supabase/models/journal_entries';
+
+/**
+ * General ledger.
+ * Invoices, credit/debit notes, payments, purchases, expenses and payroll post journal entries by
+ * database trigger (see the general_ledger migration), using the accounts chosen in `gl_posting_rules`.
+ * This module reads the journal, posts manual entries and turns per-account totals into the trial
+ * balance, profit & loss and balance sheet.
+ */
+
+export interface AccountTotals {
+	debit: number;
+	credit: number;
+}
+
+export interface ManualJournalLine {
+	accountId: string;
+	debit: number;
+	credit: number;
+	memo?: string | null;
+}
+
+export interface TrialBalanceRow {
+	account: GlAccounts;
+	debit: number; // Movements in the period
+	credit: number;
+	balance: number; // Signed by the account's normal side (debit for assets/expenses)
+}
+
+export interface StatementRow {
+	account: GlAccounts;
+	amount: number;
+}
+
+export interface ProfitAndLoss {
+	revenue: StatementRow[];
+	expenses: StatementRow[];
+	totalRevenue: number;
+	totalExpenses: number;
+	netProfit: number;
+}
+
+export interface BalanceSheet {
+	assets: StatementRow[];
+	liabilities: StatementRow[];
+	equity: StatementRow[];
+	currentEarnings: number; // Revenue less expenses not yet closed to retained earnings
+	totalAssets: number;
+	totalLiabilities: number;
+	totalEquity: number; // Includes current earnings
+	balanced: boolean;
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<GlAccountType, string> = {
+	asset: 'Asset',
+	liability: 'Liability',
+	equity: 'Equity',
+	revenue: 'Revenue',
+	expense: 'Expense',
+};
+
+const round2 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+
+// Assets and expenses increase with debits; liabilities, equity and revenue with credits
+export const isDebitNormal = (type: GlAccountType) => type === 'asset' || type === 'expense';
+
+const signedBalance = (type: GlAccountType, totals: AccountTotals | undefined) =>
+	round2(isDebitNormal(type) ? (totals?.debit ?? 0) - (totals?.credit ?? 0) : (totals?.credit ?? 0) - (totals?.debit ?? 0));
+
+const byCode = (a: GlAccounts, b: GlAccounts) => a.account_code.localeCompare(b.account_code, undefined, { numeric: true });
+
+export async function fetchPostingRules(): Promise<GlPostingRules[]> {
+	const { data, error } = await supabase.from('gl_posting_rules').select('*').order('rule_key', { ascending: true });
+	if (error) throw error;
+	return (data ?? []) as GlPostingRules[];
+}
+
+export async function updatePostingRule(ruleKey: string, accountId: string): Promise<void> {
+	const { error } = await supabase
+		.from('gl_posting_rules')
+		.update({ account_id: accountId, updated_at: new Date().toISOString() })
+		.eq('rule_key', ruleKey);
+	if (error) throw error;
+}
+
+/**
+ * Journal entries with their lines, newest first. Dates are inclusive (YYYY-MM-DD).
+ */
+export async function fetchJournalEntries(filters: {
+	from?: string;
+	to?: string;
+	sourceType?: JournalSourceType;
+	limit?: number;
+} = {}): Promise<JournalEntryWithLines[]> {
+	let query = supabase
+		.from('journal_entries')
+		.select('*, journal_lines(*)')
+		.order('entry_number', { ascending: false })
+		.limit(filters.limit ?? 500);
+	if (filters.from) query = query.gte('entry_date', filters.from);
+	if (filters.to) query = query.lte('entry_date', filters.to);
+	if (filters.sourceType) query = query.eq('source_type', filters.sourceType);
+	const { data, error } = await query;
+	if (error) throw error;
+	return (data ?? []) as JournalEntryWithLines[];
+}
+
+/**
+ * Everything a document has posted, oldest first
+ */
+export async function fetchSourceJournalEntries(sourceType: JournalSourceType, sourceId: string): Promise<JournalEntryWithLines[]> {
+	const { data, error } = await supabase
+		.from('journal_entries')
+		.select('*, journal_lines(*)')
+		.eq('source_type', sourceType)
+		.eq('source_id', sourceId)
+		.order('entry_number', { ascending: true });
+	if (error) throw error;
+	return (data ?? []) as JournalEntryWithLines[];
+}
+
+/**
+ * Post a manual entry. The database rejects it unless debits equal credits.
+ */
+export async function postManualJournalEntry(
+	entry: { entryDate: string; description: string; lines: ManualJournalLine[] },
+	createdBy?: string | null
+): Promise<string> {
+	const lines = entry.lines
+		.map((line) => ({
+			account_id: line.accountId,
+			debit: round2(line.debit),
+			credit: round2(line.credit),
+			memo: line.memo ?? null,
+		}))
+		.filter((line) => line.account_id && (line.debit !== 0 || line.credit !== 0));
+
+	const debit = round2(lines.reduce((sum, line) => sum + line.debit, 0));
+	const credit = round2(lines.reduce((sum, line) => sum + line.credit, 0));
+	if (lines.length < 2 || debit === 0 || debit !== credit) {
+		throw new Error(`Entry does not balance: debits ${debit.toFixed(2)}, credits ${credit.toFixed(2)}`);
+	}
+
+	const { data, error } = await supabase.rpc('gl_post_manual_entry', {
+		p_entry_date: entry.entryDate,
+		p_description: entry.description,
+		p_lines: lines,
+		p_created_by: createdBy ?? null,
+	});
+	if (error) throw error;
+	return data as string;
+}
+
+export async function reverseManualJournalEntry(entryId: string, createdBy?: string | null): Promise<string> {
+	const { data, error } = await supabase.rpc('gl_reverse_manual_entry', {
+		p_entry_id: entryId,
+		p_created_by: createdBy ?? null,
+	});
+	if (error) throw error;
+	return data as string;
+}
+
+/**
+ * Debit/credit totals per account for a date range; omit `from` for balances since the beginning
+ */
+export async function fetchAccountTotals(from?: string | null, to?: string | null): Promise<Map<string, AccountTotals>> {
+	const { data, error } = await supabase.rpc('gl_account_totals', { p_from: from || null, p_to: to || null });
+	if (error) throw error;
+	const totals = new Map<string, AccountTotals>();
+	((data ?? []) as Array<{ account_id: string; debit: number | string; credit: number | string }>).forEach((row) => {
+		totals.set(row.account_id, { debit: round2(Number(row.debit)), credit: round2(Number(row.credit)) });
+	});
+	return totals;
+}
+
+export function buildTrialBalance(accounts: GlAccounts[], totals: Map<string, AccountTotals>) {
+	const rows: TrialBalanceRow[] = [...accounts]
+		.sort(byCode)
+		.filter((account) => totals.has(account.account_id))
+		.map((account) => {
+			const accountTotals = totals.get(account.account_id);
+			return {
+				account,
+				debit: accountTotals?.debit ?? 0,
+				credit: accountTotals?.credit ?? 0,
+				balance: signedBalance(account.account_type, accountTotals),
+			};
+		});
+	const totalDebit = round2(rows.reduce((sum, row) => sum + row.debit, 0));
+	const totalCredit = round2(rows.reduce((sum, row) => sum + row.credit, 0));
+	return { rows, totalDebit, totalCredit, balanced: totalDebit === totalCredit };
+}
+
+function statementRows(accounts: GlAccounts[], totals: Map<string, AccountTotals>, type: GlAccountType): StatementRow[] {
+	return accounts
+		.filter((account) => account.account_type === type)
+		.sort(byCode)
+		.map((account) => ({ account, amount: signedBalance(type, totals.get(account.account_id)) }))
+		.filter((row) => row.amount !== 0);
+}
+
+const sumRows = (rows: StatementRow[]) => round2(rows.reduce((sum, row) => sum + row.amount, 0));
+
+/**
+ * Profit & loss from the movements in a period
+ */
+export function buildProfitAndLoss(accounts: GlAccounts[], periodTotals: Map<string, AccountTotals>): ProfitAndLoss {
+	const revenue = statementRows(accounts, periodTotals, 'revenue');
+	const expenses = statementRows(accounts, periodTotals, 'expense');
+	const totalRevenue = sumRows(revenue);
+	const totalExpenses = sumRows(expenses);
+	return { revenue, expenses, totalRevenue, totalExpenses, netProfit: round2(totalRevenue - totalExpenses) };
+}
+
+/**
+ * Balance sheet from balances since the beginning up to the report date
+ */
+export function buildBalanceSheet(accounts: GlAccounts[], totalsToDate: Map<string, AccountTotals>): BalanceSheet {
+	const assets = statementRows(accounts, totalsToDate, 'asset');
+	const liabilities = statementRows(accounts, totalsToDate, 'liability');
+	const equity = statementRows(accounts, totalsToDate, 'equity');
+	const { netProfit: currentEarnings } = buildProfitAndLoss(accounts, totalsToDate);
+
+	const totalAssets = sumRows(assets);
+	const totalLiabilities = sumRows(liabilities);
+	const totalEquity = round2(sumRows(equity) + currentEarnings);
+	return {
+		assets,
+		liabilities,
+		equity,
+		currentEarnings,
+		totalAssets,
+		totalLiabilities,
+		totalEquity,
+		balanced: round2(totalAssets - totalLiabilities - totalEquity) === 0,
+	};
+}
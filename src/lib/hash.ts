@@ -1,9 +0,0 @@
-export async function sha256Hex(input: string): Promise<string> {
-	const enc = new TextEncoder();
-	const data = enc.encode(input);
-	const digest = await crypto.subtle.digest('SHA-256', data);
-	const bytes = Array.from(new Uint8Array(digest));
-	return bytes.map((b) => b.toString(16).padStart(2, '0')).join('');
-}
-
-
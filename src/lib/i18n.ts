@@ -0,0 +1,136 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { en, type MessageKey } from '../locales/en';
+import { ar } from '../locales/ar';
+
+/**
+ * Localisation.
+ * UI strings come from the message catalogues in src/locales, looked up with t(). The language and
+ * the calendar used for dates are per-browser preferences (switched from the profile page); Arabic
+ * turns the document right-to-left (see LocaleProvider). Numbers, dates and SAR amounts are
+ * formatted for the active language, and localizedName() picks a record's _ar field in Arabic.
+ */
+
+export type Language = 'en' | 'ar';
+export type CalendarSystem = 'gregorian' | 'hijri';
+
+export interface LocalePreferences {
+	language: Language;
+	calendar: CalendarSystem;
+}
+
+const STORAGE_KEY = 'locale_preferences';
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en, ar };
+
+function readPreferences(): LocalePreferences {
+	const defaults: LocalePreferences = { language: 'en', calendar: 'gregorian' };
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<LocalePreferences> | null;
+		return {
+			language: stored?.language === 'ar' ? 'ar' : defaults.language,
+			calendar: stored?.calendar === 'hijri' ? 'hijri' : defaults.calendar,
+		};
+	} catch {
+		return defaults;
+	}
+}
+
+let preferences = readPreferences();
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+export const getLocalePreferences = (): LocalePreferences => preferences;
+
+export function setLocalePreferences(update: Partial<LocalePreferences>): void {
+	preferences = { ...preferences, ...update };
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+	listeners.forEach((listener) => listener());
+}
+
+export const textDirection = (language: Language): 'ltr' | 'rtl' => (language === 'ar' ? 'rtl' : 'ltr');
+
+// Latin digits in Arabic as well, so figures read the same as typed values and printed documents
+function localeTag(language: Language, calendar: CalendarSystem = 'gregorian'): string {
+	const base = language === 'ar' ? 'ar-SA' : 'en-GB';
+	const calendarExtension = calendar === 'hijri' ? '-ca-islamic-umalqura' : '';
+	return `${base}-u${calendarExtension}-nu-latn`;
+}
+
+export type TranslateParams = Record<string, string | number>;
+
+export function translate(language: Language, key: MessageKey, params?: TranslateParams): string {
+	const message = CATALOGUES[language][key] ?? en[key];
+	if (!params) return message;
+	return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in params ? String(params[name]) : placeholder
+	);
+}
+
+// For messages raised outside render (toasts from effects and async handlers)
+export const translateCurrent = (key: MessageKey, params?: TranslateParams): string =>
+	translate(preferences.language, key, params);
+
+type DateInput = string | number | Date | null | undefined;
+
+function toDate(value: DateInput): Date | null {
+	if (value === null || value === undefined || value === '') return null;
+	const date = value instanceof Date ? value : new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export interface Locale extends LocalePreferences {
+	dir: 'ltr' | 'rtl';
+	t: (key: MessageKey, params?: TranslateParams) => string;
+	formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+	formatCurrency: (amount: number) => string;
+	// Calendar defaults to the user's preference; pass one to force Gregorian or Hijri
+	formatDate: (value: DateInput, calendar?: CalendarSystem) => string;
+	formatDateTime: (value: DateInput, calendar?: CalendarSystem) => string;
+	monthName: (month: number) => string; // Gregorian month, 1-12
+	localizedName: (name: string | null | undefined, nameAr: string | null | undefined) => string;
+}
+
+export function createLocale({ language, calendar }: LocalePreferences): Locale {
+	const numberTag = localeTag(language);
+	const currencyFormat = new Intl.NumberFormat(numberTag, {
+		style: 'currency',
+		currency: 'SAR',
+		minimumFractionDigits: 2,
+		maximumFractionDigits: 2,
+	});
+
+	const formatWith = (options: Intl.DateTimeFormatOptions) => (value: DateInput, dateCalendar?: CalendarSystem) => {
+		const date = toDate(value);
+		if (!date) return translate(language, 'common.notSet');
+		return new Intl.DateTimeFormat(localeTag(language, dateCalendar ?? calendar), options).format(date);
+	};
+
+	return {
+		language,
+		calendar,
+		dir: textDirection(language),
+		t: (key, params) => translate(language, key, params),
+		formatNumber: (value, options) => new Intl.NumberFormat(numberTag, options).format(value),
+		formatCurrency: (amount) => currencyFormat.format(amount),
+		formatDate: formatWith({ year: 'numeric', month: 'short', day: 'numeric' }),
+		formatDateTime: formatWith({ year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+		monthName: (month) =>
+			new Intl.DateTimeFormat(numberTag, { month: 'long', timeZone: 'UTC' }).format(new Date(Date.UTC(2000, month - 1, 1))),
+		localizedName: (name, nameAr) =>
+			(language === 'ar' && nameAr?.trim() ? nameAr : name?.trim() ? name : nameAr) ?? '',
+	};
+}
+
+/**
+ * The active language with its translator and formatters; re-renders when the user switches language
+ */
+export function useLocale(): Locale {
+	const current = useSyncExternalStore(subscribe, getLocalePreferences);
+	return useMemo(() => createLocale(current), [current]);
+}
@@ -0,0 +1,149 @@
+import type { Invoices } from '../../supabase/models/invoices';
+import type { InvoiceNoteItem, InvoiceNotes, InvoiceNoteType } from '../../supabase/models/invoice_notes';
+
+/**
+ * Credit and debit notes.
+ * A note references an issued invoice and either reverses some of its lines (credit note) or adds
+ * charges to it (debit note). Numbering, the credit limit, the effect on `remaining_amount` and the
+ * lock on edited invoices are enforced by the database (see the invoice_credit_debit_notes
+ * migration); these helpers price note lines the way the invoice was priced and track how much of
+ * each line is left to credit.
+ */
+
+export const NOTE_TYPE_LABELS: Record<InvoiceNoteType, { label: string; labelAr: string; title: string; titleAr: string }> = {
+	credit: { label: 'Credit Note', labelAr: 'إشعار دائن', title: 'TAX CREDIT NOTE', titleAr: 'إشعار دائن ضريبي' },
+	debit: { label: 'Debit Note', labelAr: 'إشعار مدين', title: 'TAX DEBIT NOTE', titleAr: 'إشعار مدين ضريبي' },
+};
+
+export interface CreditableLine {
+	sourceIndex: number;
+	description: string;
+	quantity: number; // As invoiced
+	creditedQuantity: number; // Already reversed by earlier credit notes
+	unitPrice: number; // Net of line and invoice discounts, excluding VAT
+}
+
+// Shape of the entries saved in `invoices.invoice_items`
+interface StoredInvoiceItem {
+	description?: string | null;
+	quantity?: number | string | null;
+	unitPrice?: number | string | null;
+	discountPercent?: number | string | null;
+	discountAmount?: number | string | null;
+	subtotal?: number | string | null;
+}
+
+const round2 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+
+// Largest rounding difference absorbed when a note reverses everything left on an invoice
+const ROUNDING_TOLERANCE = 0.05;
+
+/**
+ * VAT rate of an invoice as a fraction (tax_rate is stored as 0.15, older rows as 15)
+ */
+export function invoiceVatRate(invoice: Invoices): number {
+	if (invoice.vat_enabled === false) return 0;
+	const rate = Number(invoice.tax_rate ?? 0);
+	return rate > 1 ? rate / 100 : rate;
+}
+
+/**
+ * Signed effect of a note on what the customer owes: debit notes add, credit notes subtract
+ */
+export const noteBalanceEffect = (note: InvoiceNotes) =>
+	note.note_type === 'debit' ? Number(note.total_amount ?? 0) : -Number(note.total_amount ?? 0);
+
+export function groupNotesByInvoice(notes: InvoiceNotes[]): Map<string, InvoiceNotes[]> {
+	const grouped = new Map<string, InvoiceNotes[]>();
+	notes.forEach((note) => {
+		const list = grouped.get(note.invoice_id) ?? [];
+		list.push(note);
+		grouped.set(note.invoice_id, list);
+	});
+	return grouped;
+}
+
+/**
+ * Invoice total after the notes issued against it
+ */
+export const adjustedInvoiceTotal = (invoice: Invoices) =>
+	round2(Number(invoice.total_amount ?? 0) + Number(invoice.debited_amount ?? 0) - Number(invoice.credited_amount ?? 0));
+
+/**
+ * Once paid (in part) or corrected by a note, an invoice is changed only through notes
+ */
+export function isInvoiceLocked(invoice: Invoices, paymentCount: number): boolean {
+	return (
+		paymentCount > 0 ||
+		Number(invoice.paid_amount ?? 0) > 0 ||
+		Number(invoice.credited_amount ?? 0) > 0 ||
+		Number(invoice.debited_amount ?? 0) > 0
+	);
+}
+
+/**
+ * Invoice lines with the quantity still available for a credit note. Unit prices include the
+ * invoice-level discount so that crediting every line gives back the invoiced amount.
+ */
+export function creditableLines(invoice: Invoices, notes: InvoiceNotes[]): CreditableLine[] {
+	const items: StoredInvoiceItem[] = Array.isArray(invoice.invoice_items) ? invoice.invoice_items : [];
+	const lineNets = items.map((item) => {
+		if (item?.subtotal != null) return Number(item.subtotal);
+		const quantity = Number(item?.quantity ?? 1) || 1;
+		const gross = quantity * Number(item?.unitPrice ?? 0);
+		const discountPercent = Number(item?.discountPercent ?? 0);
+		return discountPercent > 0 ? gross * (1 - discountPercent / 100) : gross - Math.min(gross, Number(item?.discountAmount ?? 0));
+	});
+	const linesNet = lineNets.reduce((sum, net) => sum + net, 0);
+	const invoiceNet = Number(invoice.total_amount ?? 0) - Number(invoice.tax_amount ?? 0);
+	const factor = linesNet > 0 && invoiceNet > 0 ? invoiceNet / linesNet : 1;
+
+	const credited = new Map<number, number>();
+	notes
+		.filter((note) => note.note_type === 'credit')
+		.forEach((note) => {
+			(note.note_items ?? []).forEach((item) => {
+				if (item.sourceIndex == null) return;
+				credited.set(item.sourceIndex, (credited.get(item.sourceIndex) ?? 0) + Number(item.quantity ?? 0));
+			});
+		});
+
+	return items.map((item, index) => {
+		const quantity = Number(item?.quantity ?? 1) || 1;
+		return {
+			sourceIndex: index,
+			description: String(item?.description ?? '').trim() || `Line ${index + 1}`,
+			quantity,
+			creditedQuantity: credited.get(index) ?? 0,
+			unitPrice: Math.round(((lineNets[index] * factor) / quantity) * 10000) / 10000,
+		};
+	});
+}
+
+export function buildNoteLine(
+	description: string,
+	quantity: number,
+	unitPrice: number,
+	vatRate: number,
+	sourceIndex: number | null = null
+): InvoiceNoteItem {
+	const subtotal = round2(quantity * unitPrice);
+	const vat = round2(subtotal * vatRate);
+	return { sourceIndex, description, quantity, unitPrice, subtotal, vat, total: round2(subtotal + vat) };
+}
+
+/**
+ * Note totals from its lines. `maxTotal` is what is left to credit: a credit note that lands a few
+ * halalas above it (line rounding on a full reversal) is brought down to it through the VAT.
+ */
+export function noteTotals(items: InvoiceNoteItem[], maxTotal?: number) {
+	const subtotal = round2(items.reduce((sum, item) => sum + item.subtotal, 0));
+	let taxAmount = round2(items.reduce((sum, item) => sum + item.vat, 0));
+	if (maxTotal != null) {
+		const excess = round2(subtotal + taxAmount - maxTotal);
+		if (excess > 0 && excess <= ROUNDING_TOLERANCE) {
+			taxAmount = round2(Math.max(0, taxAmount - excess));
+		}
+	}
+	return { subtotal, tax_amount: taxAmount, total_amount: round2(subtotal + taxAmount) };
+}
@@ -0,0 +1,160 @@
+import * as XLSX from '@e965/xlsx';
+import { manufacturingScaleFactor, parseRecipeMaterials } from './stockLedger';
+import type { ManufacturingOrders } from '../../supabase/models/manufacturing_orders';
+import type { ManufacturingRecipes } from '../../supabase/models/manufacturing_recipes';
+import type { ManufacturingRawMaterials } from '../../supabase/models/manufacturing_raw_materials';
+
+/**
+ * Manufacturing order completion checks.
+ * Explodes the recipe BOM for an order to find raw material shortages before completion,
+ * and compares the recipe (standard) cost with the cost at current material prices (actual).
+ */
+
+type OrderForCosting = Pick<ManufacturingOrders, 'mfg_order_batch_size'>;
+type RecipeForCosting = Pick<
+	ManufacturingRecipes,
+	'raw_materials_used' | 'prod_output_quantity' | 'mfg_labour_cost' | 'mfg_overhead_cost' | 'total_cost'
+>;
+
+export interface MaterialRequirement {
+	materialId: string;
+	sku: string;
+	name: string;
+	unit: string;
+	required: number;
+	available: number;
+	standardUnitCost: number; // cost_per_unit stored on the recipe line
+	actualUnitCost: number; // current cost_per_unit of the raw material
+}
+
+export interface MaterialShortage extends MaterialRequirement {
+	shortfall: number;
+	estimatedCost: number; // shortfall at the current material cost
+}
+
+export interface CostSplit {
+	materials: number;
+	labour: number;
+	overhead: number;
+	total: number;
+}
+
+export interface ManufacturingCostBreakdown {
+	standard: CostSplit;
+	actual: CostSplit;
+	variance: number; // actual - standard (positive = over standard)
+	materials: Array<MaterialRequirement & { standardCost: number; actualCost: number }>;
+	computed_at: string; // timestamptz
+}
+
+const round2 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+const round3 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 1000) / 1000;
+
+/**
+ * Raw materials an order needs, scaled from the recipe, with what is on hand
+ */
+export function explodeRecipeRequirements(
+	order: OrderForCosting,
+	recipe: RecipeForCosting,
+	materials: ManufacturingRawMaterials[]
+): MaterialRequirement[] {
+	const factor = manufacturingScaleFactor(order, recipe);
+	const byId = new Map(materials.map((material) => [material.material_id, material]));
+
+	// The same material can appear on several recipe lines
+	const totals = new Map<string, { quantity: number; standardUnitCost: number }>();
+	parseRecipeMaterials(recipe.raw_materials_used).forEach((line) => {
+		const existing = totals.get(line.materialId);
+		totals.set(line.materialId, {
+			quantity: (existing?.quantity ?? 0) + line.quantity * factor,
+			standardUnitCost: line.costPerUnit || existing?.standardUnitCost || 0,
+		});
+	});
+
+	return [...totals.entries()].map(([materialId, { quantity, standardUnitCost }]) => {
+		const material = byId.get(materialId);
+		const actualUnitCost = Number(material?.cost_per_unit ?? standardUnitCost);
+		return {
+			materialId,
+			sku: material?.material_sku ?? '',
+			name: material?.material_en_name ?? material?.material_ar_name ?? materialId,
+			unit: material?.unit ?? '',
+			required: round3(quantity),
+			available: Number(material?.current_stock ?? 0),
+			standardUnitCost: standardUnitCost || actualUnitCost,
+			actualUnitCost,
+		};
+	});
+}
+
+export function findMaterialShortages(requirements: MaterialRequirement[]): MaterialShortage[] {
+	return requirements
+		.filter((req) => req.required > req.available)
+		.map((req) => {
+			const shortfall = round3(req.required - Math.max(0, req.available));
+			return { ...req, shortfall, estimatedCost: round2(shortfall * req.actualUnitCost) };
+		});
+}
+
+/**
+ * Standard cost uses the recipe as costed; actual cost re-prices the same quantities at the
+ * current raw material costs. Labour and overhead come from the recipe in both cases.
+ */
+export function computeManufacturingCost(
+	order: OrderForCosting,
+	recipe: RecipeForCosting,
+	requirements: MaterialRequirement[]
+): ManufacturingCostBreakdown {
+	const factor = manufacturingScaleFactor(order, recipe);
+	const labour = round2(Number(recipe.mfg_labour_cost ?? 0) * factor);
+	const overhead = round2(Number(recipe.mfg_overhead_cost ?? 0) * factor);
+
+	const materials = requirements.map((req) => ({
+		...req,
+		standardCost: round2(req.required * req.standardUnitCost),
+		actualCost: round2(req.required * req.actualUnitCost),
+	}));
+	const standardMaterials = round2(materials.reduce((sum, m) => sum + m.standardCost, 0));
+	const actualMaterials = round2(materials.reduce((sum, m) => sum + m.actualCost, 0));
+
+	const standard: CostSplit = {
+		materials: standardMaterials,
+		labour,
+		overhead,
+		total: round2(standardMaterials + labour + overhead),
+	};
+	const actual: CostSplit = {
+		materials: actualMaterials,
+		labour,
+		overhead,
+		total: round2(actualMaterials + labour + overhead),
+	};
+
+	return {
+		standard,
+		actual,
+		variance: round2(actual.total - standard.total),
+		materials,
+		computed_at: new Date().toISOString(),
+	};
+}
+
+/**
+ * Purchase list for the materials an order is short of
+ */
+export function exportShortageReport(orderNumber: string, shortages: MaterialShortage[]): void {
+	const data = shortages.map((s) => ({
+		'Material': s.name,
+		'SKU': s.sku,
+		'Unit': s.unit,
+		'Required': s.required,
+		'On Hand': s.available,
+		'To Purchase': s.shortfall,
+		'Unit Cost (SAR)': s.actualUnitCost,
+		'Estimated Cost (SAR)': s.estimatedCost,
+	}));
+	const ws = XLSX.utils.json_to_sheet(data);
+	const wb = XLSX.utils.book_new();
+	XLSX.utils.book_append_sheet(wb, ws, 'Shortages');
+	XLSX.writeFile(wb, `${orderNumber || 'manufacturing_order'}_shortages.xlsx`);
+}
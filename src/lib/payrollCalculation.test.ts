@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import type { Employees } from '../../supabase/models/employees';
+import type { Leaves } from '../../supabase/models/leaves';
+import type { EmployeeAttendance } from '../../supabase/models/employee_attendance';
+import type { EmployeeRequests } from '../../supabase/models/employee_requests';
+import {
+	calculateGosi,
+	calculatePayrollLine,
+	calculatePayrollRun,
+	GOSI_MAX_CONTRIBUTORY_WAGE,
+	GOSI_SAUDI_EMPLOYEE_RATE,
+	type PayrollSourceData,
+} from './payrollCalculation';
+
+// 14,000 a month of fixed pay: 466.67 a day on the 30-day month
+const employee = (overrides: Partial<Employees> = {}): Employees =>
+	({
+		employee_id: 'emp-1',
+		name_en: 'Sara Al-Harbi',
+		name_ar: null,
+		national_id: '1012345678',
+		department: 'Operations',
+		position: 'Technician',
+		bank_name: null,
+		bank_iban: null,
+		hiring_date: '2024-01-01',
+		status: 'active',
+		base_salary: 10000,
+		housing_allowance: 2500,
+		transport_allowance: 1000,
+		other_allowances: 500,
+		social_insurance_amount: null,
+		...overrides,
+	}) as Employees;
+
+const unpaidLeave = (startDate: string, endDate: string, overrides: Partial<Leaves> = {}): Leaves =>
+	({
+		leave_id: `leave-${startDate}`,
+		employee_id: 'emp-1',
+		leave_type: 'unpaid',
+		start_date: startDate,
+		end_date: endDate,
+		status: 'approved',
+		...overrides,
+	}) as Leaves;
+
+const request = (overrides: Partial<EmployeeRequests>): EmployeeRequests =>
+	({
+		request_id: 'req-1',
+		employee_id: 'emp-1',
+		request_type: 'loan',
+		status: 'approved',
+		amount: null,
+		repayment_months: null,
+		monthly_deduction: null,
+		requested_date: null,
+		approved_date: null,
+		...overrides,
+	}) as EmployeeRequests;
+
+const attendance = (month: string, statusByDay: Record<string, string>): EmployeeAttendance =>
+	({
+		attendance_id: `att-${month}`,
+		employee_id: 'emp-1',
+		attendance_month: `${month}-01`,
+		status_by_day: statusByDay,
+		total_absent: null,
+	}) as EmployeeAttendance;
+
+const source = (overrides: Partial<PayrollSourceData> = {}): PayrollSourceData => ({
+	employees: [employee()],
+	leaves: [],
+	attendance: [],
+	requests: [],
+	...overrides,
+});
+
+describe('calculateGosi', () => {
+	it('takes the Saudi employee share of basic and housing', () => {
+		expect(calculateGosi(employee())).toBe(1218.75);
+	});
+
+	it('caps the contributory wage', () => {
+		expect(calculateGosi(employee({ base_salary: 60000, housing_allowance: 15000 }))).toBe(
+			GOSI_MAX_CONTRIBUTORY_WAGE * GOSI_SAUDI_EMPLOYEE_RATE
+		);
+	});
+
+	it('deducts nothing for residents and prefers a fixed amount on the record', () => {
+		expect(calculateGosi(employee({ national_id: '2012345678' }))).toBe(0);
+		expect(calculateGosi(employee({ national_id: '2012345678', social_insurance_amount: 400 }))).toBe(400);
+		expect(calculateGosi(employee({ social_insurance_amount: 650.5 }))).toBe(650.5);
+	});
+});
+
+describe('unpaid leave', () => {
+	it('prorates a leave across months by the days falling in each month', () => {
+		const data = source({ leaves: [unpaidLeave('2026-01-29', '2026-02-03')] });
+
+		const january = calculatePayrollLine(employee(), data, 2026, 1);
+		const february = calculatePayrollLine(employee(), data, 2026, 2);
+
+		expect(january.unpaid_leave_days).toBe(3);
+		expect(january.unpaid_leave_deduction).toBe(1400);
+		expect(february.unpaid_leave_days).toBe(3);
+		expect(february.unpaid_leave_deduction).toBe(1400);
+	});
+
+	it('ignores leave that is paid or not approved', () => {
+		const data = source({
+			leaves: [
+				unpaidLeave('2026-02-02', '2026-02-05', { leave_type: 'annual' }),
+				unpaidLeave('2026-02-10', '2026-02-12', { status: 'pending' }),
+			],
+		});
+
+		expect(calculatePayrollLine(employee(), data, 2026, 2).unpaid_leave_deduction).toBe(0);
+	});
+
+	it('deducts at most a month of pay and never takes net below zero', () => {
+		const line = calculatePayrollLine(employee(), source({ leaves: [unpaidLeave('2026-01-01', '2026-01-31')] }), 2026, 1);
+
+		expect(line.unpaid_leave_days).toBe(30);
+		expect(line.unpaid_leave_deduction).toBe(14000);
+		expect(line.net).toBe(0);
+	});
+});
+
+describe('loan deductions', () => {
+	const loan = request({ request_id: 'loan-1', approved_date: '2026-01-15T10:00:00Z', monthly_deduction: 1000, repayment_months: 3 });
+
+	it('deducts instalments from the month after approval for the repayment months', () => {
+		const deduction = (month: number) => calculatePayrollLine(employee(), source({ requests: [loan] }), 2026, month).loan_deduction;
+
+		expect([1, 2, 3, 4, 5].map(deduction)).toEqual([0, 1000, 1000, 1000, 0]);
+	});
+
+	it('adds advances and skips requests that are not approved', () => {
+		const advance = request({ request_id: 'adv-1', request_type: 'advance', approved_date: '2026-01-20', monthly_deduction: 500, repayment_months: 1 });
+		const pending = request({ request_id: 'loan-2', status: 'pending', requested_date: '2026-01-02', monthly_deduction: 700, repayment_months: 2 });
+
+		const line = calculatePayrollLine(employee(), source({ requests: [loan, advance, pending] }), 2026, 2);
+
+		expect(line.loan_deduction).toBe(1500);
+		expect(line.loan_request_ids).toEqual(['loan-1', 'adv-1']);
+	});
+});
+
+describe('calculatePayrollLine', () => {
+	it('combines overtime, GOSI, unpaid leave, absences and loans', () => {
+		const data = source({
+			leaves: [unpaidLeave('2026-01-29', '2026-02-03')],
+			attendance: [attendance('2026-02', { '9': 'A', '10': 'A', '11': 'P' })],
+			requests: [
+				request({ request_id: 'loan-1', approved_date: '2026-01-15', monthly_deduction: 1000, repayment_months: 3 }),
+				request({ request_id: 'ot-1', request_type: 'overtime', approved_date: '2026-02-10', amount: 300 }),
+			],
+		});
+
+		const line = calculatePayrollLine(employee(), data, 2026, 2);
+
+		expect(line).toMatchObject({
+			gross: 14300,
+			overtime: 300,
+			gosi: 1218.75,
+			unpaid_leave_deduction: 1400,
+			absence_days: 2,
+			absence_deduction: 933.33,
+			loan_deduction: 1000,
+			total_deductions: 4552.08,
+			net: 9747.92,
+			overtime_request_ids: ['ot-1'],
+		});
+	});
+});
+
+describe('calculatePayrollRun', () => {
+	it('lists employees by name, leaving out terminated ones and those hired after the month', () => {
+		const run = calculatePayrollRun(
+			source({
+				employees: [
+					employee({ employee_id: 'emp-2', name_en: 'Omar Zaid', national_id: '2012345678' }),
+					employee(),
+					employee({ employee_id: 'emp-3', name_en: 'Left Already', status: 'terminated' }),
+					employee({ employee_id: 'emp-4', name_en: 'Not Yet', hiring_date: '2026-03-01' }),
+				],
+			}),
+			2026,
+			2
+		);
+
+		expect(run.lines.map((line) => line.employee_id)).toEqual(['emp-2', 'emp-1']);
+		expect(run.totals).toEqual({ employees: 2, gross: 28000, gosi: 1218.75, deductions: 1218.75, overtime: 0, net: 26781.25 });
+	});
+});
@@ -0,0 +1,255 @@
+import type { Employees } from '../../supabase/models/employees';
+import type { Leaves } from '../../supabase/models/leaves';
+import type { EmployeeAttendance } from '../../supabase/models/employee_attendance';
+import type { EmployeeRequests } from '../../supabase/models/employee_requests';
+
+/**
+ * Payroll run calculation.
+ * Builds one line per active employee for a month: salary components, GOSI, unpaid leave,
+ * absences, loan/advance instalments and approved overtime. The run is stored in
+ * `payrolls.attached_details` so the figures behind the total can always be shown again.
+ */
+
+// Saudi labour law pays a month as 30 days for daily-rate deductions
+export const PAYROLL_DAYS_PER_MONTH = 30;
+
+// GOSI employee share for Saudi nationals (annuities 9% + SANED 0.75%) on basic + housing
+export const GOSI_SAUDI_EMPLOYEE_RATE = 0.0975;
+export const GOSI_MAX_CONTRIBUTORY_WAGE = 45000;
+
+export interface PayrollLine {
+	employee_id: string;
+	name_en: string;
+	name_ar: string | null;
+	national_id: string | null;
+	department: string | null;
+	position: string | null;
+	bank_name: string | null;
+	bank_iban: string | null;
+	basic: number;
+	housing: number;
+	transport: number;
+	other_allowances: number;
+	overtime: number;
+	gross: number;
+	gosi: number;
+	unpaid_leave_days: number;
+	unpaid_leave_deduction: number;
+	absence_days: number;
+	absence_deduction: number;
+	loan_deduction: number;
+	total_deductions: number;
+	net: number;
+	loan_request_ids: string[];
+	overtime_request_ids: string[];
+}
+
+export interface PayrollRunTotals {
+	employees: number;
+	gross: number;
+	gosi: number;
+	deductions: number;
+	overtime: number;
+	net: number;
+}
+
+export interface PayrollRunDetails {
+	kind: 'payroll_run';
+	period: { year: number; month: number }; // month 1-12
+	generated_at: string; // timestamptz
+	lines: PayrollLine[];
+	totals: PayrollRunTotals;
+}
+
+export interface PayrollSourceData {
+	employees: Employees[];
+	leaves: Leaves[];
+	attendance: EmployeeAttendance[];
+	requests: EmployeeRequests[];
+}
+
+const round2 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+
+const toDate = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+
+function monthBounds(year: number, month: number) {
+	const start = new Date(Date.UTC(year, month - 1, 1));
+	const end = new Date(Date.UTC(year, month, 0));
+	return { start, end };
+}
+
+function overlapDays(from: string, to: string, year: number, month: number): number {
+	const { start, end } = monthBounds(year, month);
+	const a = Math.max(toDate(from).getTime(), start.getTime());
+	const b = Math.min(toDate(to).getTime(), end.getTime());
+	return b < a ? 0 : Math.round((b - a) / 86400000) + 1;
+}
+
+// Whole months from one YYYY-MM to another
+const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+// National IDs start with 1, residence permits (iqama) with 2
+export const isSaudiNational = (nationalId: string | null | undefined) => /^1\d{9}$/.test(String(nationalId ?? '').trim());
+
+/**
+ * Employee GOSI share; a fixed amount on the employee record takes precedence
+ */
+export function calculateGosi(employee: Pick<Employees, 'base_salary' | 'housing_allowance' | 'national_id' | 'social_insurance_amount'>): number {
+	if (employee.social_insurance_amount != null && Number(employee.social_insurance_amount) > 0) {
+		return round2(Number(employee.social_insurance_amount));
+	}
+	if (!isSaudiNational(employee.national_id)) return 0;
+	const wage = Math.min(
+		GOSI_MAX_CONTRIBUTORY_WAGE,
+		Number(employee.base_salary ?? 0) + Number(employee.housing_allowance ?? 0)
+	);
+	return round2(wage * GOSI_SAUDI_EMPLOYEE_RATE);
+}
+
+function unpaidLeaveDays(employeeId: string, leaves: Leaves[], year: number, month: number): number {
+	return leaves
+		.filter((leave) => leave.employee_id === employeeId && leave.status === 'approved' && leave.leave_type === 'unpaid')
+		.reduce((sum, leave) => sum + overlapDays(leave.start_date, leave.end_date, year, month), 0);
+}
+
+function absenceDays(employeeId: string, attendance: EmployeeAttendance[], year: number, month: number): number {
+	const key = `${year}-${String(month).padStart(2, '0')}`;
+	const record = attendance.find(
+		(row) => row.employee_id === employeeId && String(row.attendance_month ?? '').slice(0, 7) === key
+	);
+	if (!record) return 0;
+	const statuses = Object.values(record.status_by_day ?? {});
+	return statuses.length > 0 ? statuses.filter((status) => status === 'A').length : Number(record.total_absent ?? 0);
+}
+
+/**
+ * Loan and advance instalments start the month after approval and run for `repayment_months`
+ */
+function loanInstalments(employeeId: string, requests: EmployeeRequests[], year: number, month: number) {
+	const current = year * 12 + month - 1;
+	const due = requests.filter((request) => {
+		if (request.employee_id !== employeeId) return false;
+		if (request.request_type !== 'loan' && request.request_type !== 'advance') return false;
+		if (request.status !== 'approved' || !Number(request.monthly_deduction)) return false;
+		const approvedOn = request.approved_date ?? request.requested_date;
+		if (!approvedOn) return false;
+		const instalment = current - monthIndex(approvedOn);
+		const months = Number(request.repayment_months ?? 0) || 1;
+		return instalment >= 1 && instalment <= months;
+	});
+	return {
+		amount: round2(due.reduce((sum, request) => sum + Number(request.monthly_deduction ?? 0), 0)),
+		ids: due.map((request) => request.request_id),
+	};
+}
+
+/**
+ * Overtime requests approved during the payroll month
+ */
+function approvedOvertime(employeeId: string, requests: EmployeeRequests[], year: number, month: number) {
+	const key = `${year}-${String(month).padStart(2, '0')}`;
+	const due = requests.filter(
+		(request) =>
+			request.employee_id === employeeId &&
+			request.request_type === 'overtime' &&
+			request.status === 'approved' &&
+			String(request.approved_date ?? request.requested_date ?? '').slice(0, 7) === key
+	);
+	return {
+		amount: round2(due.reduce((sum, request) => sum + Number(request.amount ?? 0), 0)),
+		ids: due.map((request) => request.request_id),
+	};
+}
+
+export function calculatePayrollLine(employee: Employees, data: PayrollSourceData, year: number, month: number): PayrollLine {
+	const basic = round2(Number(employee.base_salary ?? 0));
+	const housing = round2(Number(employee.housing_allowance ?? 0));
+	const transport = round2(Number(employee.transport_allowance ?? 0));
+	const other = round2(Number(employee.other_allowances ?? 0));
+	const overtime = approvedOvertime(employee.employee_id, data.requests, year, month);
+	const fixedPay = basic + housing + transport + other;
+	const dailyRate = fixedPay / PAYROLL_DAYS_PER_MONTH;
+
+	const leaveDays = Math.min(PAYROLL_DAYS_PER_MONTH, unpaidLeaveDays(employee.employee_id, data.leaves, year, month));
+	const absentDays = Math.min(
+		PAYROLL_DAYS_PER_MONTH - leaveDays,
+		absenceDays(employee.employee_id, data.attendance, year, month)
+	);
+	const loans = loanInstalments(employee.employee_id, data.requests, year, month);
+
+	const gross = round2(fixedPay + overtime.amount);
+	const gosi = calculateGosi(employee);
+	const unpaidLeaveDeduction = round2(dailyRate * leaveDays);
+	const absenceDeduction = round2(dailyRate * absentDays);
+	const totalDeductions = round2(gosi + unpaidLeaveDeduction + absenceDeduction + loans.amount);
+
+	return {
+		employee_id: employee.employee_id,
+		name_en: employee.name_en,
+		name_ar: employee.name_ar,
+		national_id: employee.national_id,
+		department: employee.department,
+		position: employee.position,
+		bank_name: employee.bank_name,
+		bank_iban: employee.bank_iban,
+		basic,
+		housing,
+		transport,
+		other_allowances: other,
+		overtime: overtime.amount,
+		gross,
+		gosi,
+		unpaid_leave_days: leaveDays,
+		unpaid_leave_deduction: unpaidLeaveDeduction,
+		absence_days: absentDays,
+		absence_deduction: absenceDeduction,
+		loan_deduction: loans.amount,
+		total_deductions: totalDeductions,
+		// Deductions never take an employee below zero in a single run
+		net: round2(Math.max(0, gross - totalDeductions)),
+		loan_request_ids: loans.ids,
+		overtime_request_ids: overtime.ids,
+	};
+}
+
+/**
+ * Calculate a payroll run for every active employee
+ */
+export function calculatePayrollRun(data: PayrollSourceData, year: number, month: number): PayrollRunDetails {
+	const lines = data.employees
+		.filter((employee) => (employee.status ?? 'active') !== 'terminated')
+		.filter((employee) => !employee.hiring_date || employee.hiring_date.slice(0, 10) <= monthBounds(year, month).end.toISOString().slice(0, 10))
+		.map((employee) => calculatePayrollLine(employee, data, year, month))
+		.sort((a, b) => a.name_en.localeCompare(b.name_en));
+
+	const sum = (pick: (line: PayrollLine) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+
+	return {
+		kind: 'payroll_run',
+		period: { year, month },
+		generated_at: new Date().toISOString(),
+		lines,
+		totals: {
+			employees: lines.length,
+			gross: sum((line) => line.gross),
+			gosi: sum((line) => line.gosi),
+			deductions: sum((line) => line.total_deductions),
+			overtime: sum((line) => line.overtime),
+			net: sum((line) => line.net),
+		},
+	};
+}
+
+export function parsePayrollRunDetails(details: unknown): PayrollRunDetails | null {
+	let parsed: unknown = details;
+	if (typeof details === 'string') {
+		try {
+			parsed = JSON.parse(details);
+		} catch {
+			return null;
+		}
+	}
+	if (!parsed || typeof parsed !== 'object') return null;
+	const run = parsed as Partial<PayrollRunDetails>;
+	return run.kind === 'payroll_run' && Array.isArray(run.lines) ? (run as PayrollRunDetails) : null;
+}
@@ -1,6 +1,8 @@
 import type { AccessArea, AccessAction } from "../config/access-areas";
 import { ACCESS_AREAS, DEFAULT_ACCESS_ACTION } from "../config/access-areas";
 import type { PageId } from "../config/page-map";
+import type { Locale } from "./i18n";
+import type { MessageKey } from "../locales/en";
 
 export type PermissionMap = Record<PageId, AccessAction[]>;
 export type ResolvedPermissions = "all" | PermissionMap;
@@ -110,22 +112,32 @@ const sortActions =
     return order.indexOf(a) - order.indexOf(b);
   };
 
-export function permissionSummary(permissions: ResolvedPermissions, maxAreas = 3) {
-  if (permissions === "all") return "All system access";
+export const ACCESS_ACTION_KEYS: Record<AccessAction, MessageKey> = {
+  view: "settings.action.view",
+  create: "settings.action.create",
+  update: "settings.action.update",
+  delete: "settings.action.delete",
+  approve: "settings.action.approve",
+  export: "settings.action.export",
+  assign: "settings.action.assign",
+};
+
+export function permissionSummary(permissions: ResolvedPermissions, t: Locale["t"], maxAreas = 3) {
+  if (permissions === "all") return t("settings.roles.allAccess");
   const entries = Object.entries(permissions);
-  if (entries.length === 0) return "No access assigned";
+  if (entries.length === 0) return t("settings.roles.noAccess");
 
   const lines = entries.slice(0, maxAreas).map(([areaId, actions]) => {
-    const label = ACCESS_AREA_MAP[areaId as PageId]?.label ?? areaId;
+    const label = ACCESS_AREA_MAP[areaId as PageId] ? t(`page.${areaId as PageId}`) : areaId;
     const actionLabel =
       actions.length >= (ACCESS_AREA_MAP[areaId as PageId]?.actions.length ?? 0)
-        ? "All actions"
-        : actions.join(", ");
+        ? t("settings.roles.allActions")
+        : actions.map((action) => t(ACCESS_ACTION_KEYS[action])).join(", ");
     return `${label}: ${actionLabel}`;
   });
 
   if (entries.length > maxAreas) {
-    lines.push(`+${entries.length - maxAreas} more`);
+    lines.push(t("settings.roles.more", { count: entries.length - maxAreas }));
   }
 
   return lines.join(" • ");
@@ -0,0 +1,358 @@
+import { supabase } from './supabaseClient';
+import type { QuotationStatus, Quotations } from '../../supabase/models/quotations';
+import type { QuotationSnapshot, QuotationVersions, QuotationVersionsInsert } from '../../supabase/models/quotation_versions';
+import type { Customers } from '../../supabase/models/customers';
+import type { Delegates } from '../../supabase/models/delegates';
+
+/**
+ * Quotation lifecycle.
+ * A quotation is a draft until it is sent, and ends accepted (also when it is converted to an invoice or
+ * a contract), rejected, or expired once valid_until has passed. Revising a quotation stores the
+ * previous content as a quotation_versions row and raises quotation_version, so every version can be
+ * compared with the next one. See the quotation_lifecycle migration.
+ */
+
+export const QUOTATION_STATUSES: QuotationStatus[] = ['draft', 'sent', 'accepted', 'rejected', 'expired'];
+
+// Statuses that still wait for the customer's answer
+export const OPEN_QUOTATION_STATUSES: QuotationStatus[] = ['draft', 'sent'];
+
+export interface QuotationChange {
+	field: string;
+	before: string;
+	after: string;
+}
+
+// A quotation being converted to a contract, handed from the quotations screen to the contract form
+export interface QuotationContractDraft {
+	sourceQuotationId: string;
+	quotationNumber: string;
+	customerId: string | null;
+	delegateId: string | null;
+	customerName: string;
+	mobile: string;
+	email: string;
+	location: string;
+	commercialRegister: string;
+	notes: string;
+	totalBeforeVat: number;
+}
+
+export interface DelegateWinRate {
+	delegateId: string | null; // null for quotations without a delegate
+	delegateName: string;
+	quoted: number;
+	open: number;
+	won: number;
+	lost: number; // Rejected or expired
+	winRate: number | null; // Won / decided, null until a quotation is decided
+	quotedValue: number; // Before VAT
+	wonValue: number; // Before VAT
+}
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+function currentUserId(): string | null {
+	try {
+		const stored = localStorage.getItem('auth_user');
+		return stored ? JSON.parse(stored).user_id ?? null : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Last day a quotation issued on issueDate (yyyy-mm-dd) is valid
+ */
+export function quotationValidUntil(issueDate: string, validityDays: number | null): string {
+	const date = new Date(`${issueDate.slice(0, 10)}T00:00:00Z`);
+	date.setUTCDate(date.getUTCDate() + (validityDays ?? 30));
+	return date.toISOString().split('T')[0];
+}
+
+/**
+ * The status to show: open quotations past valid_until are expired even before the daily run marks them
+ */
+export function effectiveQuotationStatus(
+	quotation: Pick<Quotations, 'quotation_status' | 'valid_until'>,
+	today: string = todayIso()
+): QuotationStatus {
+	const status = quotation.quotation_status ?? 'draft';
+	if (OPEN_QUOTATION_STATUSES.includes(status) && quotation.valid_until && quotation.valid_until < today) {
+		return 'expired';
+	}
+	return status;
+}
+
+export function isQuotationConverted(quotation: Pick<Quotations, 'converted_invoice_id' | 'converted_contract_id'>): boolean {
+	return !!(quotation.converted_invoice_id || quotation.converted_contract_id);
+}
+
+interface NormalizedItem {
+	description: string;
+	quantity: number;
+	unitPrice: number;
+	discountPercent: number;
+	discountAmount: number;
+}
+
+// Items are stored with snake_case keys; older rows used camelCase
+function normalizeItems(items: unknown): NormalizedItem[] {
+	if (!Array.isArray(items)) return [];
+	return items.map((value) => {
+		const item = (value ?? {}) as Record<string, unknown>;
+		return {
+			description: String(item.description ?? item.name ?? '').trim(),
+			quantity: Number(item.quantity ?? 0),
+			unitPrice: Number(item.unit_price ?? item.unitPrice ?? 0),
+			discountPercent: Number(item.discount_percent ?? item.discountPercent ?? 0),
+			discountAmount: Number(item.discount_amount ?? item.discountAmount ?? 0),
+		};
+	});
+}
+
+function itemNetTotal(item: NormalizedItem): number {
+	const gross = item.quantity * item.unitPrice;
+	const discount =
+		item.discountAmount > 0
+			? Math.min(gross, item.discountAmount)
+			: gross * (Math.min(100, Math.max(0, item.discountPercent)) / 100);
+	return gross - discount;
+}
+
+/**
+ * Total after item and quotation discounts, before VAT
+ */
+export function quotationNetTotal(
+	quotation: Pick<QuotationSnapshot, 'quotation_items' | 'discount_type' | 'discount_amount'>
+): number {
+	const afterItemDiscounts = normalizeItems(quotation.quotation_items).reduce((sum, item) => sum + itemNetTotal(item), 0);
+	const amount = Number(quotation.discount_amount ?? 0);
+	let discount = 0;
+	if (amount > 0 && quotation.discount_type === 'percentage') {
+		discount = afterItemDiscounts * (Math.min(100, amount) / 100);
+	} else if (amount > 0 && quotation.discount_type === 'fixed') {
+		discount = Math.min(afterItemDiscounts, amount);
+	}
+	return Math.max(0, afterItemDiscounts - discount);
+}
+
+export function quotationSnapshot(quotation: Quotations): QuotationSnapshot {
+	return {
+		customer_id: quotation.customer_id,
+		customer_name: quotation.customer_name,
+		phone_number: quotation.phone_number,
+		location: quotation.location,
+		delegate_id: quotation.delegate_id,
+		quotation_items: quotation.quotation_items,
+		quotation_validity: quotation.quotation_validity,
+		valid_until: quotation.valid_until,
+		quotation_notes: quotation.quotation_notes,
+		vat_enabled: quotation.vat_enabled,
+		discount_type: quotation.discount_type,
+		discount_amount: quotation.discount_amount,
+	};
+}
+
+const money = (value: number) => `SAR ${value.toFixed(2)}`;
+
+function describeItem(item: NormalizedItem): string {
+	const discount =
+		item.discountAmount > 0
+			? `, ${money(item.discountAmount)} off`
+			: item.discountPercent > 0
+				? `, ${item.discountPercent}% off`
+				: '';
+	return `${item.quantity} × ${money(item.unitPrice)}${discount}`;
+}
+
+function describeDiscount(snapshot: QuotationSnapshot): string {
+	const amount = Number(snapshot.discount_amount ?? 0);
+	if (!snapshot.discount_type || amount <= 0) return 'None';
+	return snapshot.discount_type === 'percentage' ? `${amount}%` : money(amount);
+}
+
+/**
+ * What changed from one version of a quotation to the next. Items are matched by description.
+ */
+export function diffQuotationSnapshots(
+	before: QuotationSnapshot,
+	after: QuotationSnapshot,
+	delegateName: (delegateId: string | null) => string = (delegateId) => delegateId ?? 'None'
+): QuotationChange[] {
+	const changes: QuotationChange[] = [];
+	const compare = (field: string, from: string, to: string) => {
+		if (from !== to) changes.push({ field, before: from, after: to });
+	};
+	const text = (value: unknown) => (value === null || value === undefined || value === '' ? '-' : String(value));
+
+	compare('Customer', text(before.customer_name), text(after.customer_name));
+	compare('Mobile', text(before.phone_number), text(after.phone_number));
+	compare('Location', text(before.location), text(after.location));
+	compare('Delegate', delegateName(before.delegate_id), delegateName(after.delegate_id));
+	compare('Valid for (days)', text(before.quotation_validity), text(after.quotation_validity));
+	compare('Valid until', text(before.valid_until), text(after.valid_until));
+	compare('VAT', before.vat_enabled === false ? 'Off' : 'On', after.vat_enabled === false ? 'Off' : 'On');
+	compare('Discount', describeDiscount(before), describeDiscount(after));
+	compare('Notes', text(before.quotation_notes), text(after.quotation_notes));
+
+	const beforeItems = normalizeItems(before.quotation_items);
+	const afterItems = normalizeItems(after.quotation_items);
+	const key = (item: NormalizedItem) => item.description.toLowerCase();
+	const remaining = new Map(beforeItems.map((item) => [key(item), item]));
+	for (const item of afterItems) {
+		const previous = remaining.get(key(item));
+		if (!previous) {
+			changes.push({ field: `Item added: ${item.description || 'Untitled'}`, before: '-', after: describeItem(item) });
+			continue;
+		}
+		remaining.delete(key(item));
+		compare(`Item: ${item.description || 'Untitled'}`, describeItem(previous), describeItem(item));
+	}
+	for (const item of remaining.values()) {
+		changes.push({ field: `Item removed: ${item.description || 'Untitled'}`, before: describeItem(item), after: '-' });
+	}
+
+	compare('Total before VAT', money(quotationNetTotal(before)), money(quotationNetTotal(after)));
+	return changes;
+}
+
+export async function fetchQuotationVersions(quotationId: string): Promise<QuotationVersions[]> {
+	const { data, error } = await supabase
+		.from('quotation_versions')
+		.select('*')
+		.eq('quotation_id', quotationId)
+		.order('quotation_version', { ascending: true });
+	if (error) throw error;
+	return (data ?? []) as QuotationVersions[];
+}
+
+/**
+ * Save a new version of a quotation. The current content is kept in quotation_versions; the revised
+ * quotation is a draft again, valid from today.
+ */
+export async function reviseQuotation(
+	current: Quotations,
+	values: Partial<Quotations>,
+	changeSummary: string
+): Promise<Quotations> {
+	if (isQuotationConverted(current)) {
+		throw new Error(`${current.quotation_number} was already converted and can no longer be revised`);
+	}
+
+	const version: QuotationVersionsInsert = {
+		quotation_id: current.quotation_id,
+		quotation_version: current.quotation_version,
+		snapshot: quotationSnapshot(current),
+		change_summary: changeSummary.trim() || null,
+		created_by: currentUserId(),
+	};
+	const { data: saved, error: versionError } = await supabase
+		.from('quotation_versions')
+		.insert(version)
+		.select('version_id')
+		.single();
+	if (versionError) {
+		if (versionError.code === '23505') {
+			throw new Error(`${current.quotation_number} was revised by someone else. Reload the page and try again.`);
+		}
+		throw versionError;
+	}
+
+	const now = new Date().toISOString();
+	const { data, error } = await supabase
+		.from('quotations')
+		.update({
+			...values,
+			quotation_version: current.quotation_version + 1,
+			quotation_status: 'draft',
+			status_changed_at: now,
+			valid_until: quotationValidUntil(now, values.quotation_validity ?? current.quotation_validity),
+		})
+		.eq('quotation_id', current.quotation_id)
+		.eq('quotation_version', current.quotation_version)
+		.select('*')
+		.single();
+	if (error) {
+		await supabase.from('quotation_versions').delete().eq('version_id', saved.version_id);
+		throw error;
+	}
+	return data as Quotations;
+}
+
+/**
+ * Accept a quotation that was converted to an invoice or a contract and link it to the new document
+ */
+export async function markQuotationConverted(
+	quotationId: string,
+	target: { invoiceId: string } | { contractId: string }
+): Promise<void> {
+	const now = new Date().toISOString();
+	const { error } = await supabase
+		.from('quotations')
+		.update({
+			quotation_status: 'accepted',
+			status_changed_at: now,
+			converted_at: now,
+			...('invoiceId' in target
+				? { converted_invoice_id: target.invoiceId }
+				: { converted_contract_id: target.contractId }),
+		})
+		.eq('quotation_id', quotationId);
+	if (error) throw error;
+}
+
+/**
+ * Quotations won and lost per delegate. A quotation counts for its own delegate, or else for the
+ * customer's delegate.
+ */
+export function quotationWinRates(
+	quotations: Quotations[],
+	customers: Pick<Customers, 'customer_id' | 'delegate_id'>[],
+	delegates: Pick<Delegates, 'delegate_id' | 'delegate_name'>[],
+	today: string = todayIso()
+): DelegateWinRate[] {
+	const customerDelegates = new Map(customers.map((customer) => [customer.customer_id, customer.delegate_id]));
+	const delegateNames = new Map(delegates.map((delegate) => [delegate.delegate_id, delegate.delegate_name]));
+	const rows = new Map<string | null, DelegateWinRate>();
+
+	for (const quotation of quotations) {
+		const delegateId =
+			quotation.delegate_id ?? (quotation.customer_id ? customerDelegates.get(quotation.customer_id) ?? null : null);
+		let row = rows.get(delegateId);
+		if (!row) {
+			row = {
+				delegateId,
+				delegateName: delegateId ? delegateNames.get(delegateId) ?? 'Unknown delegate' : 'No delegate',
+				quoted: 0,
+				open: 0,
+				won: 0,
+				lost: 0,
+				winRate: null,
+				quotedValue: 0,
+				wonValue: 0,
+			};
+			rows.set(delegateId, row);
+		}
+
+		const value = quotationNetTotal(quotation);
+		const status = effectiveQuotationStatus(quotation, today);
+		row.quoted += 1;
+		row.quotedValue += value;
+		if (status === 'accepted') {
+			row.won += 1;
+			row.wonValue += value;
+		} else if (status === 'rejected' || status === 'expired') {
+			row.lost += 1;
+		} else {
+			row.open += 1;
+		}
+	}
+
+	return [...rows.values()]
+		.map((row) => ({ ...row, winRate: row.won + row.lost > 0 ? row.won / (row.won + row.lost) : null }))
+		.sort((a, b) => {
+			if ((a.delegateId === null) !== (b.delegateId === null)) return a.delegateId === null ? 1 : -1;
+			return b.wonValue - a.wonValue;
+		});
+}
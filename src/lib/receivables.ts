@@ -0,0 +1,184 @@
+import type { Invoices } from '../../supabase/models/invoices';
+import type { Payments } from '../../supabase/models/payments';
+import type { InvoiceNotes } from '../../supabase/models/invoice_notes';
+import { noteBalanceEffect } from './invoiceNotes';
+
+/**
+ * Accounts receivable.
+ * A customer's balance is their invoices, less credit notes and plus debit notes, less payments.
+ * An amount recorded as paid on the invoice itself with no payment row behind it counts as settled
+ * on the invoice date, the same way the general ledger posts it. Used by the customer statement (opening balance, aging) and the
+ * company-wide AR aging report so both show the same figures.
+ */
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: Array<{ key: AgingBucket; label: string; labelAr: string }> = [
+	{ key: 'current', label: 'Current', labelAr: 'غير مستحق' },
+	{ key: 'days_1_30', label: '1–30 days', labelAr: '١–٣٠ يوم' },
+	{ key: 'days_31_60', label: '31–60 days', labelAr: '٣١–٦٠ يوم' },
+	{ key: 'days_61_90', label: '61–90 days', labelAr: '٦١–٩٠ يوم' },
+	{ key: 'days_90_plus', label: '90+ days', labelAr: 'أكثر من ٩٠ يوم' },
+];
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface OpenInvoice {
+	invoice: Invoices;
+	outstanding: number;
+	daysPastDue: number; // 0 or less while the invoice is not yet due
+	bucket: AgingBucket;
+}
+
+const round2 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+
+// Dates are compared as YYYY-MM-DD strings
+const dayOf = (value?: string | null) => (value ? value.slice(0, 10) : '');
+
+export const invoiceDate = (invoice: Invoices) => dayOf(invoice.invoice_date ?? invoice.created_at);
+
+export const paymentDate = (payment: Payments) => dayOf(payment.payment_date ?? payment.created_at);
+
+export const noteDate = (note: InvoiceNotes) => dayOf(note.note_date ?? note.created_at);
+
+/**
+ * Invoice total, falling back to subtotal + tax and then the line items for older rows
+ */
+export function invoiceTotal(invoice: Invoices): number {
+	const total = Number(invoice.total_amount ?? 0);
+	if (total > 0) return total;
+	const fallback = Number(invoice.subtotal ?? 0) + Number(invoice.tax_amount ?? 0);
+	if (fallback > 0) return fallback;
+	const items: Array<{ quantity?: number; unitPrice?: number; discountPercent?: number; total?: number; subtotal?: number }> =
+		Array.isArray(invoice.invoice_items) ? invoice.invoice_items : [];
+	return items.reduce((sum, item) => {
+		const quantity = Number(item?.quantity ?? 1);
+		const unit = Number(item?.unitPrice ?? 0);
+		const discount = Number(item?.discountPercent ?? 0);
+		return sum + (Number(item?.total ?? 0) || Number(item?.subtotal ?? 0) || unit * quantity * (1 - discount / 100));
+	}, 0);
+}
+
+export function groupPaymentsByInvoice(payments: Payments[]): Map<string, Payments[]> {
+	const grouped = new Map<string, Payments[]>();
+	payments.forEach((payment) => {
+		if (!payment.invoice_id) return;
+		const list = grouped.get(payment.invoice_id) ?? [];
+		list.push(payment);
+		grouped.set(payment.invoice_id, list);
+	});
+	return grouped;
+}
+
+/**
+ * Part of `paid_amount` not covered by payment rows (paid at issue)
+ */
+export function settledOnInvoice(invoice: Invoices, invoicePayments: Payments[] = []): number {
+	const recorded = invoicePayments.reduce((sum, payment) => sum + Number(payment.paid_amount ?? 0), 0);
+	return round2(Math.max(0, Math.min(invoiceTotal(invoice), Number(invoice.paid_amount ?? 0)) - recorded));
+}
+
+/**
+ * Net effect of the notes issued against an invoice up to `asOf` (inclusive)
+ */
+export function noteAdjustment(invoiceNotes: InvoiceNotes[] = [], asOf?: string): number {
+	return round2(
+		invoiceNotes.filter((note) => !asOf || noteDate(note) <= asOf).reduce((sum, note) => sum + noteBalanceEffect(note), 0)
+	);
+}
+
+/**
+ * Amount still owed on an invoice at the end of `asOf` (inclusive)
+ */
+export function invoiceOutstanding(
+	invoice: Invoices,
+	invoicePayments: Payments[] = [],
+	asOf?: string,
+	invoiceNotes: InvoiceNotes[] = []
+): number {
+	const paid = invoicePayments
+		.filter((payment) => !asOf || paymentDate(payment) <= asOf)
+		.reduce((sum, payment) => sum + Number(payment.paid_amount ?? 0), 0);
+	return round2(
+		invoiceTotal(invoice) + noteAdjustment(invoiceNotes, asOf) - settledOnInvoice(invoice, invoicePayments) - paid
+	);
+}
+
+/**
+ * Balance carried into a period starting on `before`: invoices and notes issued and payments received earlier
+ */
+export function openingBalance(
+	invoices: Invoices[],
+	paymentsByInvoice: Map<string, Payments[]>,
+	before: string,
+	notesByInvoice: Map<string, InvoiceNotes[]> = new Map()
+): number {
+	if (!before) return 0;
+	return round2(
+		invoices.reduce((sum, invoice) => {
+			const invoicePayments = paymentsByInvoice.get(invoice.invoice_id) ?? [];
+			const earlierPayments = invoicePayments
+				.filter((payment) => paymentDate(payment) < before)
+				.reduce((total, payment) => total + Number(payment.paid_amount ?? 0), 0);
+			const invoiced = invoiceDate(invoice) < before ? invoiceTotal(invoice) - settledOnInvoice(invoice, invoicePayments) : 0;
+			const adjusted = (notesByInvoice.get(invoice.invoice_id) ?? [])
+				.filter((note) => noteDate(note) < before)
+				.reduce((total, note) => total + noteBalanceEffect(note), 0);
+			return sum + invoiced + adjusted - earlierPayments;
+		}, 0)
+	);
+}
+
+const daysBetween = (from: string, to: string) =>
+	Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+export function agingBucket(daysPastDue: number): AgingBucket {
+	if (daysPastDue <= 0) return 'current';
+	if (daysPastDue <= 30) return 'days_1_30';
+	if (daysPastDue <= 60) return 'days_31_60';
+	if (daysPastDue <= 90) return 'days_61_90';
+	return 'days_90_plus';
+}
+
+/**
+ * Invoices issued by `asOf` that still have a balance, aged by days past `due_date`
+ * (the invoice date when no due date is set). Overpayments are not aged.
+ */
+export function ageInvoices(
+	invoices: Invoices[],
+	paymentsByInvoice: Map<string, Payments[]>,
+	asOf: string,
+	notesByInvoice: Map<string, InvoiceNotes[]> = new Map()
+): OpenInvoice[] {
+	return invoices
+		.filter((invoice) => invoiceDate(invoice) && invoiceDate(invoice) <= asOf)
+		.map((invoice) => {
+			const outstanding = invoiceOutstanding(
+				invoice,
+				paymentsByInvoice.get(invoice.invoice_id),
+				asOf,
+				notesByInvoice.get(invoice.invoice_id)
+			);
+			const daysPastDue = daysBetween(dayOf(invoice.due_date) || invoiceDate(invoice), asOf);
+			return { invoice, outstanding, daysPastDue, bucket: agingBucket(daysPastDue) };
+		})
+		.filter((row) => row.outstanding > 0.005);
+}
+
+export const emptyAgingTotals = (): AgingTotals => ({
+	current: 0,
+	days_1_30: 0,
+	days_31_60: 0,
+	days_61_90: 0,
+	days_90_plus: 0,
+	total: 0,
+});
+
+export function sumAging(openInvoices: OpenInvoice[]): AgingTotals {
+	const totals = emptyAgingTotals();
+	openInvoices.forEach((row) => {
+		totals[row.bucket] = round2(totals[row.bucket] + row.outstanding);
+		totals.total = round2(totals.total + row.outstanding);
+	});
+	return totals;
+}
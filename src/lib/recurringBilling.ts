@@ -0,0 +1,96 @@
+import { supabase } from './supabaseClient';
+import { callEdgeFunction } from './edgeFunctions';
+import type {
+	RecurringBillingRunItems,
+	RecurringBillingRuns,
+	RecurringBillingSettings,
+	RecurringBillingSettingsUpdate,
+} from '../../supabase/models/recurring_billing';
+
+/**
+ * Recurring billing.
+ * Monthly visits and their invoices are generated on a schedule by the recurring-billing edge function
+ * (see the recurring_billing migration), not in the browser. This module reads and edits its settings,
+ * reads the run log and lets an administrator start a run.
+ */
+
+// Browser-only settings used before billing moved to the server
+const LEGACY_ENABLED_KEY = 'autoInvoiceEnabled';
+const LEGACY_TIMING_KEY = 'autoInvoiceTiming';
+
+export interface RecurringBillingRunResult extends Omit<RecurringBillingRuns, 'trigger_source' | 'triggered_by' | 'started_at' | 'finished_at'> {
+	items: Omit<RecurringBillingRunItems, 'item_id' | 'run_id' | 'created_at'>[];
+}
+
+function currentUserId(): string | null {
+	try {
+		const stored = localStorage.getItem('auth_user');
+		return stored ? JSON.parse(stored).user_id ?? null : null;
+	} catch {
+		return null;
+	}
+}
+
+export async function fetchRecurringBillingSettings(): Promise<RecurringBillingSettings> {
+	const { data, error } = await supabase.from('recurring_billing_settings').select('*').maybeSingle();
+	if (error) throw error;
+	if (!data) throw new Error('Recurring billing settings are missing. Please run the database migrations.');
+	return data as RecurringBillingSettings;
+}
+
+export async function updateRecurringBillingSettings(values: RecurringBillingSettingsUpdate): Promise<RecurringBillingSettings> {
+	const { data, error } = await supabase
+		.from('recurring_billing_settings')
+		.update({ ...values, updated_at: new Date().toISOString(), updated_by: currentUserId() })
+		.eq('settings_id', true)
+		.select('*')
+		.single();
+	if (error) throw error;
+	return data as RecurringBillingSettings;
+}
+
+/**
+ * Carry the old per-browser auto-invoice choice into the database the first time settings are
+ * opened, unless someone has already saved them there. The local keys are removed either way.
+ */
+export async function adoptLegacyAutoInvoiceSettings(settings: RecurringBillingSettings): Promise<RecurringBillingSettings> {
+	const enabled = localStorage.getItem(LEGACY_ENABLED_KEY);
+	const timing = localStorage.getItem(LEGACY_TIMING_KEY);
+	if (enabled === null && timing === null) return settings;
+
+	localStorage.removeItem(LEGACY_ENABLED_KEY);
+	localStorage.removeItem(LEGACY_TIMING_KEY);
+	if (settings.updated_at) return settings;
+
+	return await updateRecurringBillingSettings({
+		auto_invoice_enabled: enabled === 'true',
+		auto_invoice_timing: timing === '7_days_before' ? '7_days_before' : 'visit_date',
+	});
+}
+
+export async function fetchRecurringBillingRuns(limit = 20): Promise<RecurringBillingRuns[]> {
+	const { data, error } = await supabase
+		.from('recurring_billing_runs')
+		.select('*')
+		.order('started_at', { ascending: false })
+		.limit(limit);
+	if (error) throw error;
+	return (data ?? []) as RecurringBillingRuns[];
+}
+
+export async function fetchRecurringBillingRunItems(runId: string): Promise<RecurringBillingRunItems[]> {
+	const { data, error } = await supabase
+		.from('recurring_billing_run_items')
+		.select('*')
+		.eq('run_id', runId)
+		.order('created_at', { ascending: true });
+	if (error) throw error;
+	return (data ?? []) as RecurringBillingRunItems[];
+}
+
+/**
+ * Start a run now instead of waiting for the schedule (administrators only)
+ */
+export async function runRecurringBillingNow(): Promise<RecurringBillingRunResult> {
+	return await callEdgeFunction<RecurringBillingRunResult>('recurring-billing', {});
+}
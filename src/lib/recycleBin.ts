@@ -0,0 +1,126 @@
+import { supabase } from './supabaseClient';
+import { deleteFilesByOwner } from './storage';
+import { postInvoiceStockMovements } from './stockLedger';
+import type { Invoices } from '../../supabase/models/invoices';
+import { SOFT_DELETE_TABLES } from '../../supabase/operations/crud';
+
+/**
+ * Recycle bin.
+ * Customers, contracts, invoices and employees are soft-deleted (deleted_at, see the soft_delete
+ * migration). Deleted rows are listed here and can be restored, or purged for good through the
+ * purge_deleted_record function, which refuses while other records still depend on the row.
+ * An invoice in the bin has its ledger entries and stock movements reversed; restoring reposts them.
+ */
+
+export type RecycleBinTable = (typeof SOFT_DELETE_TABLES)[number];
+
+export interface RecycleBinItem {
+	table: RecycleBinTable;
+	id: string;
+	label: string; // Invoice number, customer name, ...
+	detail: string;
+	deletedAt: string;
+	deletedBy: string | null; // system_users.user_id
+}
+
+interface RecycleBinSource {
+	entity: string;
+	idColumn: string;
+	columns: string;
+	toItem: (row: Record<string, unknown>) => Pick<RecycleBinItem, 'label' | 'detail'>;
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+export const RECYCLE_BIN_SOURCES: Record<RecycleBinTable, RecycleBinSource> = {
+	customers: {
+		entity: 'Customer',
+		idColumn: 'customer_id',
+		columns: 'customer_id, customer_name, contact_num, deleted_at, deleted_by',
+		toItem: (row) => ({ label: text(row.customer_name) || 'Unnamed customer', detail: text(row.contact_num) }),
+	},
+	contracts: {
+		entity: 'Contract',
+		idColumn: 'contract_id',
+		columns: 'contract_id, contract_number, client_name, contract_status, deleted_at, deleted_by',
+		toItem: (row) => ({
+			label: text(row.contract_number) || 'Contract',
+			detail: [text(row.client_name), text(row.contract_status)].filter(Boolean).join(' · '),
+		}),
+	},
+	invoices: {
+		entity: 'Invoice',
+		idColumn: 'invoice_id',
+		columns: 'invoice_id, invoice_number, invoice_date, total_amount, deleted_at, deleted_by',
+		toItem: (row) => ({
+			label: text(row.invoice_number) || 'Invoice',
+			detail: `${text(row.invoice_date)} · ${Number(row.total_amount ?? 0).toFixed(2)} ر.س`,
+		}),
+	},
+	employees: {
+		entity: 'Employee',
+		idColumn: 'employee_id',
+		columns: 'employee_id, name_en, position, deleted_at, deleted_by',
+		toItem: (row) => ({ label: text(row.name_en) || 'Employee', detail: text(row.position) }),
+	},
+};
+
+/**
+ * Everything in the recycle bin, most recently deleted first
+ */
+export async function fetchRecycleBin(): Promise<RecycleBinItem[]> {
+	const results = await Promise.all(
+		SOFT_DELETE_TABLES.map(async (table) => {
+			const source = RECYCLE_BIN_SOURCES[table];
+			const { data, error } = await supabase
+				.from(table)
+				.select(source.columns)
+				.not('deleted_at', 'is', null)
+				.order('deleted_at', { ascending: false });
+			if (error) throw error;
+
+			return ((data ?? []) as unknown as Record<string, unknown>[]).map(
+				(row): RecycleBinItem => ({
+					table,
+					id: text(row[source.idColumn]),
+					...source.toItem(row),
+					deletedAt: text(row.deleted_at),
+					deletedBy: row.deleted_by ? text(row.deleted_by) : null,
+				})
+			);
+		})
+	);
+	return results.flat().sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+export async function restoreRecord(table: RecycleBinTable, id: string): Promise<void> {
+	const { data, error } = await supabase
+		.from(table)
+		.update({ deleted_at: null })
+		.eq(RECYCLE_BIN_SOURCES[table].idColumn, id)
+		.select()
+		.single();
+	if (error) throw error;
+
+	// The database reposts the ledger; stock lines are resolved to items here
+	if (table === 'invoices') {
+		const invoice = data as Invoices;
+		await postInvoiceStockMovements(invoice, invoice.invoice_number);
+	}
+}
+
+/**
+ * Delete a recycle bin record for good. Errors carry the database message naming what still
+ * depends on the record.
+ */
+export async function purgeRecord(table: RecycleBinTable, id: string): Promise<void> {
+	const { error } = await supabase.rpc('purge_deleted_record', { p_table: table, p_id: id });
+	if (error) throw error;
+
+	if (table === 'employees') {
+		const { errors } = await deleteFilesByOwner(id, 'employee');
+		if (errors.length > 0) {
+			console.warn('Some employee files could not be deleted:', errors);
+		}
+	}
+}
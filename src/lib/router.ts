@@ -0,0 +1,97 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { ALL_PAGE_IDS, PAGE_PATHS, type PageId } from '../config/page-map';
+
+/**
+ * URL routing.
+ * Every page has a path (PAGE_PATHS) and a few pages also address one record: /invoices/<id> opens
+ * that invoice, /customers/<id>/statement opens the customer's statement. Navigation goes through
+ * the History API so links can be shared and the browser back button works; vercel.json rewrites
+ * every path to index.html. /sign/<token> is handled before the app loads (see main.tsx).
+ */
+
+export interface AppRoute {
+	page: PageId;
+	recordId?: string;
+}
+
+// Pages whose path can be followed by a record id: /<page path>/<id>
+const RECORD_PAGES: PageId[] = ['customers', 'contracts', 'invoices', 'quotations', 'employees'];
+
+// The record pages are named after their tables, so audit entries and the like can link to them
+export const isRecordPage = (value: string): value is PageId => (RECORD_PAGES as string[]).includes(value);
+
+const STATEMENT_PATTERN = /^\/customers\/([^/]+)\/statement$/;
+
+const PAGE_BY_PATH = new Map(ALL_PAGE_IDS.map((page) => [PAGE_PATHS[page], page]));
+
+/**
+ * The route of a pathname, or null when no page lives there
+ */
+export function parseRoute(pathname: string): AppRoute | null {
+	const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+	const page = PAGE_BY_PATH.get(path);
+	if (page) return { page };
+
+	const statement = path.match(STATEMENT_PATTERN);
+	if (statement) return { page: 'statements', recordId: decodeURIComponent(statement[1]) };
+
+	const separator = path.lastIndexOf('/');
+	const recordPage = PAGE_BY_PATH.get(path.slice(0, separator));
+	if (separator > 0 && recordPage && RECORD_PAGES.includes(recordPage)) {
+		return { page: recordPage, recordId: decodeURIComponent(path.slice(separator + 1)) };
+	}
+	return null;
+}
+
+export function routePath({ page, recordId }: AppRoute): string {
+	if (!recordId) return PAGE_PATHS[page];
+	if (page === 'statements') return `/customers/${encodeURIComponent(recordId)}/statement`;
+	return RECORD_PAGES.includes(page) ? `${PAGE_PATHS[page]}/${encodeURIComponent(recordId)}` : PAGE_PATHS[page];
+}
+
+// pushState does not fire popstate, so navigate() notifies subscribers itself
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+	listeners.add(listener);
+	window.addEventListener('popstate', listener);
+	return () => {
+		listeners.delete(listener);
+		window.removeEventListener('popstate', listener);
+	};
+}
+
+export function navigate(route: AppRoute, options: { replace?: boolean } = {}): void {
+	const path = routePath(route);
+	if (path === window.location.pathname) return;
+
+	if (options.replace) {
+		window.history.replaceState(null, '', path);
+	} else {
+		window.history.pushState(null, '', path);
+	}
+	listeners.forEach((listener) => listener());
+}
+
+/**
+ * The current route; null for paths that match no page
+ */
+export function useRoute(): AppRoute | null {
+	const pathname = useSyncExternalStore(subscribe, () => window.location.pathname);
+	return useMemo(() => parseRoute(pathname), [pathname]);
+}
+
+/**
+ * The record a page's URL points at, for pages that open a record in a dialog. Opening and closing
+ * the dialog goes through the URL, so the dialog follows back/forward and links land on the record.
+ */
+export function useRecordRoute(page: PageId) {
+	const route = useRoute();
+	const recordId = route?.page === page ? route.recordId ?? null : null;
+
+	const openRecord = useCallback((id: string) => navigate({ page, recordId: id }), [page]);
+	const closeRecord = useCallback(() => navigate({ page }), [page]);
+
+	return { recordId, openRecord, closeRecord };
+}
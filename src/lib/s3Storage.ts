@@ -518,6 +518,8 @@ function generateFilePath(category: FileCategory, ownerId: string, fileName: str
 			return `assets/${ownerId}/file-${timestamp}${extension}`;
 		case 'custody_document':
 			return `custody/${ownerId}/document-${timestamp}${extension}`;
+		case 'document_pdf':
+			return `documents/${ownerId}/${timestamp}-${sanitizedFileName}`;
 		default:
 			return `misc/${ownerId}/${sanitizedFileName}`;
 	}
@@ -0,0 +1,430 @@
+import { supabase } from './supabaseClient';
+import type {
+	StockItemType,
+	StockMovements,
+	StockMovementsInsert,
+	StockMovementType,
+	StockSourceType,
+} from '../../supabase/models/stock_movements';
+import type { Invoices } from '../../supabase/models/invoices';
+import type { PurchaseOrders } from '../../supabase/models/purchase_orders';
+import type { ReturnsManagement } from '../../supabase/models/returns_management';
+import type { ManufacturingOrders } from '../../supabase/models/manufacturing_orders';
+import type { ManufacturingRecipes } from '../../supabase/models/manufacturing_recipes';
+
+/**
+ * Inventory stock ledger.
+ * Documents never touch `current_stock` directly; they post movements to `stock_movements`
+ * and the database keeps the item balance in step. Posting is done per source document by
+ * comparing what the document should have moved with what was already posted, so editing,
+ * cancelling or reversing a document only ever appends compensating movements.
+ */
+
+export interface StockLine {
+	itemType?: StockItemType;
+	itemId?: string | null;
+	name?: string | null; // Used to find the item when the line has no id (free-text lines)
+	quantity: number; // Always positive; the direction comes from the movement type
+	unitCost?: number | null;
+}
+
+export interface DesiredStockMovement {
+	itemType: StockItemType;
+	itemId: string;
+	quantity: number; // Signed
+	movementType: StockMovementType;
+	unitCost?: number | null;
+}
+
+export interface StockSource {
+	sourceType: StockSourceType;
+	sourceId: string;
+	sourceReference?: string | null;
+}
+
+interface StockCatalogItem {
+	itemType: StockItemType;
+	itemId: string;
+	names: string[];
+}
+
+// Quantity sign per movement type
+const MOVEMENT_DIRECTION: Record<StockMovementType, 1 | -1> = {
+	opening: 1,
+	adjustment: 1,
+	sale: -1,
+	purchase: 1,
+	purchase_return: -1,
+	mfg_consumption: -1,
+	mfg_output: 1,
+};
+
+const COMPLETED_RETURN_STATUSES = new Set(['completed']);
+
+const round3 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 1000) / 1000;
+
+const normalizeName = (value: string | null | undefined) => String(value ?? '').trim().toLowerCase();
+
+async function loadStockCatalog(): Promise<StockCatalogItem[]> {
+	const [productsResult, materialsResult] = await Promise.all([
+		supabase.from('inventory').select('product_code, en_prod_name, ar_prod_name'),
+		supabase.from('manufacturing_raw_materials').select('material_id, material_sku, material_en_name, material_ar_name'),
+	]);
+	if (productsResult.error) throw productsResult.error;
+	if (materialsResult.error) throw materialsResult.error;
+
+	return [
+		...(productsResult.data ?? []).map((row) => ({
+			itemType: 'product' as const,
+			itemId: row.product_code as string,
+			names: [row.en_prod_name, row.ar_prod_name].map(normalizeName).filter(Boolean),
+		})),
+		...(materialsResult.data ?? []).map((row) => ({
+			itemType: 'raw_material' as const,
+			itemId: row.material_id as string,
+			names: [row.material_sku, row.material_en_name, row.material_ar_name].map(normalizeName).filter(Boolean),
+		})),
+	];
+}
+
+/**
+ * Attach item ids to document lines. Lines that match no stock item (services, free text)
+ * are returned separately so the caller can decide whether to warn.
+ */
+export async function resolveStockLines(
+	lines: StockLine[],
+	preferredType?: StockItemType
+): Promise<{ resolved: Array<StockLine & { itemType: StockItemType; itemId: string }>; unresolved: StockLine[] }> {
+	const needsLookup = lines.some((line) => !line.itemId || !line.itemType);
+	const catalog = needsLookup ? await loadStockCatalog() : [];
+	const resolved: Array<StockLine & { itemType: StockItemType; itemId: string }> = [];
+	const unresolved: StockLine[] = [];
+
+	for (const line of lines) {
+		if (!(line.quantity > 0)) continue;
+		if (line.itemId && line.itemType) {
+			resolved.push({ ...line, itemType: line.itemType, itemId: line.itemId });
+			continue;
+		}
+		const name = normalizeName(line.name);
+		const candidates = catalog.filter(
+			(item) =>
+				(line.itemId ? item.itemId === line.itemId : name && item.names.includes(name)) &&
+				(!line.itemType || item.itemType === line.itemType)
+		);
+		const match = candidates.find((item) => item.itemType === preferredType) ?? candidates[0];
+		if (match) {
+			resolved.push({ ...line, itemType: match.itemType, itemId: match.itemId });
+		} else {
+			unresolved.push(line);
+		}
+	}
+
+	return { resolved, unresolved };
+}
+
+export async function fetchSourceStockMovements(sourceType: StockSourceType, sourceId: string): Promise<StockMovements[]> {
+	const { data, error } = await supabase
+		.from('stock_movements')
+		.select('*')
+		.eq('source_type', sourceType)
+		.eq('source_id', sourceId)
+		.order('created_at', { ascending: true });
+	if (error) throw error;
+	return (data ?? []) as StockMovements[];
+}
+
+export async function fetchItemStockMovements(itemType: StockItemType, itemId: string): Promise<StockMovements[]> {
+	const { data, error } = await supabase
+		.from('stock_movements')
+		.select('*')
+		.eq('item_type', itemType)
+		.eq('item_id', itemId)
+		.order('created_at', { ascending: true });
+	if (error) throw error;
+	return (data ?? []) as StockMovements[];
+}
+
+/**
+ * Bring the ledger for one source document in line with what it should have moved.
+ * Only the differences are posted; anything that reduces an earlier posting is flagged as a reversal.
+ * Returns the movements that were inserted.
+ */
+export async function syncSourceStockMovements(
+	source: StockSource,
+	desired: DesiredStockMovement[],
+	notes?: string | null
+): Promise<StockMovements[]> {
+	const keyOf = (itemType: StockItemType, itemId: string, movementType: StockMovementType) =>
+		`${itemType}:${itemId}:${movementType}`;
+
+	const posted = new Map<string, number>();
+	(await fetchSourceStockMovements(source.sourceType, source.sourceId)).forEach((row) => {
+		const key = keyOf(row.item_type, row.item_id, row.movement_type);
+		posted.set(key, round3((posted.get(key) ?? 0) + Number(row.quantity)));
+	});
+
+	const target = new Map<string, DesiredStockMovement>();
+	desired.forEach((movement) => {
+		const key = keyOf(movement.itemType, movement.itemId, movement.movementType);
+		const existing = target.get(key);
+		target.set(key, existing ? { ...existing, quantity: round3(existing.quantity + movement.quantity) } : movement);
+	});
+
+	const inserts: StockMovementsInsert[] = [];
+	const keys = new Set([...posted.keys(), ...target.keys()]);
+	keys.forEach((key) => {
+		const [itemType, itemId, movementType] = key.split(':') as [StockItemType, string, StockMovementType];
+		const before = posted.get(key) ?? 0;
+		const after = target.get(key)?.quantity ?? 0;
+		const delta = round3(after - before);
+		if (delta === 0) return;
+		inserts.push({
+			item_type: itemType,
+			item_id: itemId,
+			quantity: delta,
+			movement_type: movementType,
+			source_type: source.sourceType,
+			source_id: source.sourceId,
+			source_reference: source.sourceReference ?? null,
+			is_reversal: before !== 0 && Math.abs(after) < Math.abs(before),
+			unit_cost: target.get(key)?.unitCost ?? null,
+			notes: notes ?? null,
+			created_by: null,
+		});
+	});
+
+	if (inserts.length === 0) return [];
+	const { data, error } = await supabase.from('stock_movements').insert(inserts).select();
+	if (error) throw error;
+	return (data ?? []) as StockMovements[];
+}
+
+/**
+ * Post compensating movements that cancel everything a document moved
+ */
+export async function reverseSourceStockMovements(source: StockSource, notes?: string | null): Promise<StockMovements[]> {
+	return syncSourceStockMovements(source, [], notes ?? 'Document reversed');
+}
+
+/**
+ * Manual correction (stock count, damage, etc.)
+ */
+export async function postStockAdjustment(
+	itemType: StockItemType,
+	itemId: string,
+	quantity: number,
+	notes?: string | null
+): Promise<StockMovements | null> {
+	const delta = round3(quantity);
+	if (delta === 0) return null;
+	const insert: StockMovementsInsert = {
+		item_type: itemType,
+		item_id: itemId,
+		quantity: delta,
+		movement_type: 'adjustment',
+		source_type: 'adjustment',
+		source_id: null,
+		source_reference: null,
+		unit_cost: null,
+		notes: notes ?? null,
+		created_by: null,
+	};
+	const { data, error } = await supabase.from('stock_movements').insert(insert).select().single();
+	if (error) throw error;
+	return data as StockMovements;
+}
+
+function toDesired(
+	lines: Array<StockLine & { itemType: StockItemType; itemId: string }>,
+	movementType: StockMovementType
+): DesiredStockMovement[] {
+	return lines.map((line) => ({
+		itemType: line.itemType,
+		itemId: line.itemId,
+		quantity: round3(line.quantity * MOVEMENT_DIRECTION[movementType]),
+		movementType,
+		unitCost: line.unitCost ?? null,
+	}));
+}
+
+// Shape of the jsonb line arrays written by Invoices, Purchases and Returns
+interface DocumentLinePayload {
+	productCode?: string | null;
+	materialId?: string | null;
+	description?: string;
+	itemName?: string;
+	name?: string;
+	quantity?: number | string;
+	unitPrice?: number | string;
+}
+
+function documentLines(rawItems: unknown): StockLine[] {
+	const items = Array.isArray(rawItems) ? (rawItems as DocumentLinePayload[]) : [];
+	return items.map((item) => ({
+		itemType: item.productCode ? 'product' : item.materialId ? 'raw_material' : undefined,
+		itemId: item.productCode ?? item.materialId ?? null,
+		name: item.description ?? item.itemName ?? item.name ?? null,
+		quantity: Number(item.quantity ?? 0),
+		unitCost: item.unitPrice !== undefined ? Number(item.unitPrice) : null,
+	}));
+}
+
+/**
+ * Issue stock for an invoice (products only); after an edit only the difference is posted
+ */
+export async function postInvoiceStockMovements(invoice: Pick<Invoices, 'invoice_id' | 'invoice_items'>, reference?: string) {
+	const { resolved, unresolved } = await resolveStockLines(documentLines(invoice.invoice_items), 'product');
+	const movements = await syncSourceStockMovements(
+		{ sourceType: 'invoice', sourceId: invoice.invoice_id, sourceReference: reference ?? null },
+		toDesired(resolved.filter((line) => line.itemType === 'product'), 'sale')
+	);
+	return { movements, unresolved };
+}
+
+/**
+ * Receive stock for a purchase order once it is delivered; reverses if it goes back to pending
+ */
+export async function syncPurchaseOrderStockMovements(order: PurchaseOrders) {
+	const payload = (order.purchase_order_items ?? {}) as { purchase_number?: string; items?: unknown };
+	const received = String(order.delivery_status ?? '').toLowerCase() === 'delivered';
+	const { resolved, unresolved } = received
+		? await resolveStockLines(documentLines(payload.items))
+		: { resolved: [], unresolved: [] };
+	const movements = await syncSourceStockMovements(
+		{
+			sourceType: 'purchase_order',
+			sourceId: order.purchase_id,
+			sourceReference: payload.purchase_number ?? order.purchase_invoice_number ?? null,
+		},
+		toDesired(resolved, 'purchase')
+	);
+	return { movements, unresolved };
+}
+
+/**
+ * Send stock back to the supplier for completed returns that affect inventory.
+ * Pass `null` when the return was deleted.
+ */
+export async function syncReturnStockMovements(returnId: string, row: ReturnsManagement | null) {
+	const applies =
+		row !== null &&
+		row.affects_inventory &&
+		COMPLETED_RETURN_STATUSES.has(String(row.return_status ?? '').toLowerCase());
+	const items = applies ? (row.return_items as { items?: unknown } | null)?.items : [];
+	const { resolved, unresolved } = applies
+		? await resolveStockLines(documentLines(items))
+		: { resolved: [], unresolved: [] };
+	const movements = await syncSourceStockMovements(
+		{ sourceType: 'return', sourceId: returnId, sourceReference: returnId.slice(0, 8).toUpperCase() },
+		toDesired(resolved, 'purchase_return')
+	);
+	return { movements, unresolved };
+}
+
+// Shape of `manufacturing_recipes.raw_materials_used` as written by Manufacturing
+interface RecipeMaterialPayload {
+	material_id?: string;
+	materialId?: string;
+	id?: string;
+	quantity?: number | string;
+	cost_per_unit?: number | string;
+}
+
+export function parseRecipeMaterials(raw: unknown): Array<{ materialId: string; quantity: number; costPerUnit: number }> {
+	let items: RecipeMaterialPayload[] = [];
+	if (Array.isArray(raw)) {
+		items = raw as RecipeMaterialPayload[];
+	} else if (typeof raw === 'string') {
+		try {
+			const parsed = JSON.parse(raw);
+			items = Array.isArray(parsed) ? parsed : [];
+		} catch {
+			items = [];
+		}
+	} else if (raw && typeof raw === 'object') {
+		items = Object.values(raw as Record<string, RecipeMaterialPayload>);
+	}
+	return items.flatMap((item) => {
+		const materialId = item.material_id ?? item.materialId ?? item.id;
+		return materialId
+			? [{ materialId, quantity: Number(item.quantity ?? 0), costPerUnit: Number(item.cost_per_unit ?? 0) }]
+			: [];
+	});
+}
+
+/**
+ * How many times the recipe runs for an order.
+ * The batch size is in output units (as entered on the order), so it is divided by the
+ * quantity one run of the recipe produces.
+ */
+export function manufacturingScaleFactor(
+	order: Pick<ManufacturingOrders, 'mfg_order_batch_size'>,
+	recipe: Pick<ManufacturingRecipes, 'prod_output_quantity'>
+): number {
+	const batchSize = Number(order.mfg_order_batch_size ?? 0);
+	const outputPerBatch = Number(recipe.prod_output_quantity ?? 0) || 1;
+	return batchSize / outputPerBatch;
+}
+
+/**
+ * Lines a manufacturing order moves: raw materials out, finished product in
+ */
+export async function buildManufacturingStockMovements(
+	order: Pick<ManufacturingOrders, 'mfg_order_batch_size'>,
+	recipe: Pick<ManufacturingRecipes, 'recipe_sku' | 'recipe_en_name' | 'raw_materials_used' | 'prod_output_quantity' | 'cost_per_unit'>
+): Promise<{ desired: DesiredStockMovement[]; unresolved: StockLine[] }> {
+	const batchSize = Number(order.mfg_order_batch_size ?? 0);
+	const factor = manufacturingScaleFactor(order, recipe);
+
+	const consumption = parseRecipeMaterials(recipe.raw_materials_used).map((item) => ({
+		itemType: 'raw_material' as const,
+		itemId: item.materialId,
+		quantity: round3(item.quantity * factor),
+		unitCost: item.costPerUnit,
+	}));
+	const { resolved: output, unresolved } = await resolveStockLines(
+		[
+			{
+				itemType: 'product',
+				name: recipe.recipe_en_name ?? recipe.recipe_sku,
+				quantity: batchSize,
+				unitCost: recipe.cost_per_unit,
+			},
+		],
+		'product'
+	);
+
+	return {
+		desired: [...toDesired(consumption, 'mfg_consumption'), ...toDesired(output, 'mfg_output')],
+		unresolved,
+	};
+}
+
+/**
+ * Post (or reverse) a manufacturing order's movements depending on its status
+ */
+export async function syncManufacturingOrderStockMovements(
+	order: Pick<ManufacturingOrders, 'mfg_order_id' | 'order_number' | 'mfg_order_status' | 'mfg_order_batch_size'>,
+	recipe: Pick<ManufacturingRecipes, 'recipe_sku' | 'recipe_en_name' | 'raw_materials_used' | 'prod_output_quantity' | 'cost_per_unit'> | null
+) {
+	const completed = order.mfg_order_status === 'completed';
+	const { desired, unresolved } =
+		completed && recipe ? await buildManufacturingStockMovements(order, recipe) : { desired: [], unresolved: [] };
+	const movements = await syncSourceStockMovements(
+		{ sourceType: 'manufacturing_order', sourceId: order.mfg_order_id, sourceReference: order.order_number },
+		desired
+	);
+	return { movements, unresolved };
+}
+
+/**
+ * Running balance for a movement history (oldest first)
+ */
+export function withRunningBalance(movements: StockMovements[]): Array<StockMovements & { balance: number }> {
+	let balance = 0;
+	return movements.map((movement) => {
+		balance = round3(balance + Number(movement.quantity));
+		return { ...movement, balance };
+	});
+}
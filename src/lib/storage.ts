@@ -472,6 +472,7 @@ export function getBucketForCategory(category: FileCategory): StorageBucket {
 		[FILE_CATEGORIES.PAYROLL_DOCUMENT]: STORAGE_BUCKETS.PAYROLL,
 		[FILE_CATEGORIES.ASSET_FILE]: STORAGE_BUCKETS.ASSETS,
 		[FILE_CATEGORIES.CUSTODY_DOCUMENT]: STORAGE_BUCKETS.CUSTODY,
+		[FILE_CATEGORIES.DOCUMENT_PDF]: STORAGE_BUCKETS.DOCUMENTS,
 	};
 
 	return categoryToBucket[category] || STORAGE_BUCKETS.PROFILE_PICTURES; // Default fallback
@@ -520,6 +521,8 @@ function generateFilePath(category: FileCategory, ownerId: string, fileName: str
 			return `assets/${ownerId}/file-${timestamp}${extension}`;
 		case 'custody_document':
 			return `custody/${ownerId}/document-${timestamp}${extension}`;
+		case 'document_pdf':
+			return `documents/${ownerId}/${timestamp}-${sanitizedFileName}`;
 		default:
 			return `misc/${ownerId}/${sanitizedFileName}`;
 	}
@@ -91,6 +91,13 @@ export const BUCKET_CONFIGS: BucketConfig[] = [
 		file_size_limit: 10 * 1024 * 1024, // 10 MB
 		allowed_mime_types: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'],
 	},
+	{
+		id: STORAGE_BUCKETS.DOCUMENTS,
+		name: 'Document PDFs',
+		public: false,
+		file_size_limit: 20 * 1024 * 1024, // 20 MB
+		allowed_mime_types: ['application/pdf'],
+	},
 ];
 
 /**
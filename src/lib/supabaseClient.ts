@@ -1,8 +1,18 @@
 import { createClient } from '@supabase/supabase-js'
+import { SESSION_TOKEN_HEADER, getSessionToken } from './authSession';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
+// Every request carries the session token so the audit log can record who made a change
+const fetchWithSession: typeof fetch = async (input, init) => {
+  const token = await getSessionToken();
+  if (!token) return fetch(input, init);
+  const headers = new Headers(init?.headers);
+  headers.set(SESSION_TOKEN_HEADER, token);
+  return fetch(input, { ...init, headers });
+};
+
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
@@ -12,5 +22,6 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     headers: {
       'x-client-info': 'mana-smart-scent-web',
     },
+    fetch: fetchWithSession,
   },
 });
@@ -0,0 +1,261 @@
+import { supabase } from './supabaseClient';
+import type { Invoices } from '../../supabase/models/invoices';
+import type { InvoiceNotes } from '../../supabase/models/invoice_notes';
+import type { PurchaseOrders } from '../../supabase/models/purchase_orders';
+import type { Expenses } from '../../supabase/models/expenses';
+import type { ReturnsManagement } from '../../supabase/models/returns_management';
+import type { VatSourceDocument, VatSourceSnapshot } from '../../supabase/models/vat_management';
+
+/**
+ * VAT return builder.
+ * Sums output VAT from invoices, adjusted by the credit and debit notes issued in the period, and
+ * input VAT from purchase orders and expenses, less completed supplier/expense returns, and keeps the list of source documents so the
+ * return can be drilled into and checked for later edits.
+ */
+
+export interface VatReturnSection {
+	incVat: number;
+	excVat: number;
+	vat: number;
+	documents: VatSourceDocument[];
+}
+
+export interface VatReturnComputation {
+	periodStart: string;
+	periodEnd: string;
+	sales: VatReturnSection;
+	purchases: VatReturnSection;
+	netVatPayable: number;
+	snapshot: VatSourceSnapshot;
+}
+
+// Shape of `purchase_orders.purchase_order_items` as written by Purchases
+interface PurchaseOrderPayload {
+	purchase_number?: string;
+	items?: Array<{ quantity?: number; unitPrice?: number; total?: number }>;
+	subtotal?: number;
+	tax_rate?: number | string;
+	taxRate?: number | string;
+	tax_amount?: number;
+}
+
+const COMPLETED_RETURN_STATUSES = new Set(['completed', 'approved']);
+
+function round2(value: number): number {
+	return Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+}
+
+function toDocument(
+	source: VatSourceDocument['source'],
+	id: string,
+	reference: string,
+	date: string,
+	net: number,
+	vat: number,
+	updatedAt: string | null
+): VatSourceDocument {
+	return {
+		source,
+		id,
+		reference,
+		date,
+		net: round2(net),
+		vat: round2(vat),
+		gross: round2(net + vat),
+		updated_at: updatedAt,
+	};
+}
+
+function summarize(documents: VatSourceDocument[]): VatReturnSection {
+	return documents.reduce<VatReturnSection>(
+		(acc, doc) => ({
+			incVat: round2(acc.incVat + doc.gross),
+			excVat: round2(acc.excVat + doc.net),
+			vat: round2(acc.vat + doc.vat),
+			documents: acc.documents,
+		}),
+		{ incVat: 0, excVat: 0, vat: 0, documents }
+	);
+}
+
+function invoiceToDocument(invoice: Invoices): VatSourceDocument {
+	const vat = Number(invoice.tax_amount ?? 0);
+	const total = Number(invoice.total_amount ?? 0);
+	// total_amount is after discount; derive the taxable base from it when present
+	const net = total > 0 ? total - vat : Number(invoice.subtotal ?? 0);
+	return toDocument(
+		'invoice',
+		invoice.invoice_id,
+		invoice.invoice_number || invoice.invoice_id.slice(0, 8).toUpperCase(),
+		invoice.invoice_date,
+		net,
+		vat,
+		invoice.updated_at
+	);
+}
+
+// Notes fall in the period they are issued in, not the period of the invoice they adjust
+function noteToDocument(note: InvoiceNotes): VatSourceDocument {
+	const sign = note.note_type === 'credit' ? -1 : 1;
+	return toDocument(
+		note.note_type === 'credit' ? 'credit_note' : 'debit_note',
+		note.note_id,
+		note.note_number,
+		note.note_date,
+		sign * Number(note.subtotal ?? 0),
+		sign * Number(note.tax_amount ?? 0),
+		note.created_at
+	);
+}
+
+function purchaseToDocument(order: PurchaseOrders): VatSourceDocument {
+	const payload = (order.purchase_order_items ?? {}) as PurchaseOrderPayload;
+	const items = Array.isArray(payload.items) ? payload.items : [];
+	const subtotal = typeof payload.subtotal === 'number'
+		? payload.subtotal
+		: items.reduce((sum, item) => sum + Number(item?.total ?? Number(item?.quantity ?? 0) * Number(item?.unitPrice ?? 0)), 0);
+	const rawRate = Number(payload.tax_rate ?? payload.taxRate ?? 0);
+	const vat = typeof payload.tax_amount === 'number'
+		? payload.tax_amount
+		: subtotal * (rawRate > 1 ? rawRate / 100 : rawRate);
+	const reference = order.purchase_number || payload.purchase_number || order.purchase_invoice_number || order.purchase_id.slice(0, 8).toUpperCase();
+	return toDocument('purchase', order.purchase_id, String(reference), order.purchase_date, subtotal, vat, order.updated_at);
+}
+
+function expenseToDocument(expense: Expenses): VatSourceDocument {
+	const vat = Number(expense.tax_amount ?? 0);
+	const net = Number(expense.base_amount ?? Number(expense.total_amount ?? 0) - vat);
+	return toDocument(
+		'expense',
+		expense.expense_id,
+		expense.receipt_number || expense.expense_id.slice(0, 8).toUpperCase(),
+		expense.expense_date,
+		net,
+		vat,
+		expense.created_at
+	);
+}
+
+function returnDate(row: ReturnsManagement): string {
+	const metadata = (row.return_items as { metadata?: { manualDate?: string } } | null)?.metadata;
+	return (metadata?.manualDate || row.created_at || '').slice(0, 10);
+}
+
+function returnToDocument(row: ReturnsManagement): VatSourceDocument {
+	// refund_amount holds the base; total_return_amount includes VAT
+	const gross = Number(row.total_return_amount ?? 0);
+	const net = Number(row.refund_amount ?? gross);
+	return toDocument(
+		'return',
+		row.return_id,
+		row.return_id.slice(0, 8).toUpperCase(),
+		returnDate(row),
+		-net,
+		-(gross - net),
+		row.updated_at
+	);
+}
+
+/**
+ * Build a VAT return for an inclusive date range (YYYY-MM-DD)
+ */
+export async function computeVatReturn(periodStart: string, periodEnd: string): Promise<VatReturnComputation> {
+	const [invoicesResult, notesResult, purchasesResult, expensesResult, returnsResult] = await Promise.all([
+		supabase
+			.from('invoices')
+			.select('invoice_id, invoice_number, invoice_date, subtotal, tax_amount, total_amount, updated_at')
+			.is('deleted_at', null)
+			.gte('invoice_date', periodStart)
+			.lte('invoice_date', periodEnd),
+		supabase
+			.from('invoice_notes')
+			.select('note_id, note_type, note_number, note_date, subtotal, tax_amount, created_at')
+			.gte('note_date', periodStart)
+			.lte('note_date', periodEnd),
+		supabase
+			.from('purchase_orders')
+			.select('purchase_id, purchase_number, purchase_date, purchase_order_items, purchase_invoice_number, updated_at')
+			.gte('purchase_date', periodStart)
+			.lte('purchase_date', periodEnd),
+		supabase
+			.from('expenses')
+			.select('expense_id, expense_date, base_amount, tax_amount, total_amount, receipt_number, created_at')
+			.gte('expense_date', periodStart)
+			.lte('expense_date', periodEnd),
+		supabase.from('returns_management').select('*'),
+	]);
+
+	for (const result of [invoicesResult, notesResult, purchasesResult, expensesResult, returnsResult]) {
+		if (result.error) throw result.error;
+	}
+
+	const salesDocuments = [
+		...((invoicesResult.data ?? []) as Invoices[]).map(invoiceToDocument),
+		...((notesResult.data ?? []) as InvoiceNotes[]).map(noteToDocument),
+	];
+
+	const returnDocuments = ((returnsResult.data ?? []) as ReturnsManagement[])
+		.filter((row) => COMPLETED_RETURN_STATUSES.has(String(row.return_status ?? '').toLowerCase()))
+		.map(returnToDocument)
+		.filter((doc) => doc.date >= periodStart && doc.date <= periodEnd);
+
+	const purchaseDocuments = [
+		...((purchasesResult.data ?? []) as PurchaseOrders[]).map(purchaseToDocument),
+		...((expensesResult.data ?? []) as Expenses[]).map(expenseToDocument),
+		...returnDocuments,
+	];
+
+	const sales = summarize(salesDocuments);
+	const purchases = summarize(purchaseDocuments);
+
+	return {
+		periodStart,
+		periodEnd,
+		sales,
+		purchases,
+		netVatPayable: round2(sales.vat - purchases.vat),
+		snapshot: {
+			computed_at: new Date().toISOString(),
+			documents: [...salesDocuments, ...purchaseDocuments],
+		},
+	};
+}
+
+function documentKey(doc: VatSourceDocument): string {
+	return `${doc.source}:${doc.id}`;
+}
+
+/**
+ * Compare a stored snapshot with a fresh computation.
+ * Returns the documents that were added, removed or changed since the return was built.
+ */
+export function diffVatSnapshot(
+	stored: VatSourceSnapshot | null | undefined,
+	current: VatSourceSnapshot
+): { added: VatSourceDocument[]; removed: VatSourceDocument[]; changed: VatSourceDocument[] } {
+	const previous = new Map((stored?.documents ?? []).map((doc) => [documentKey(doc), doc]));
+	const next = new Map(current.documents.map((doc) => [documentKey(doc), doc]));
+
+	const added: VatSourceDocument[] = [];
+	const changed: VatSourceDocument[] = [];
+	next.forEach((doc, key) => {
+		const before = previous.get(key);
+		if (!before) {
+			added.push(doc);
+		} else if (before.gross !== doc.gross || before.vat !== doc.vat || before.date !== doc.date || before.updated_at !== doc.updated_at) {
+			changed.push(doc);
+		}
+	});
+	const removed = [...previous.entries()].filter(([key]) => !next.has(key)).map(([, doc]) => doc);
+
+	return { added, removed, changed };
+}
+
+export function isVatSnapshotOutOfDate(
+	stored: VatSourceSnapshot | null | undefined,
+	current: VatSourceSnapshot
+): boolean {
+	if (!stored) return false; // Manually entered (legacy) returns have nothing to compare against
+	const { added, removed, changed } = diffVatSnapshot(stored, current);
+	return added.length + removed.length + changed.length > 0;
+}
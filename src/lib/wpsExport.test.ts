@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Employees } from '../../supabase/models/employees';
+import type { PayrollLine, PayrollRunDetails } from './payrollCalculation';
+import { bankFromIban, buildWpsFile, isValidIban } from './wpsExport';
+
+// Valid Saudi IBANs: Al Rajhi (80), Saudi National Bank (10) and an unassigned bank code (99)
+const AL_RAJHI_IBAN = 'SA0380000000608010167519';
+const SNB_IBAN = 'SA4210000001234567890123';
+const UNKNOWN_BANK_IBAN = 'SA2799000000000000000001';
+// Last digit changed: the check digits no longer match
+const TAMPERED_IBAN = 'SA0380000000608010167518';
+
+const line = (overrides: Partial<PayrollLine>): PayrollLine =>
+	({
+		employee_id: 'emp-1',
+		name_en: 'Sara Al-Harbi',
+		national_id: '1012345678',
+		bank_iban: null,
+		basic: 10000,
+		housing: 2500,
+		transport: 1000,
+		other_allowances: 500,
+		overtime: 300,
+		total_deductions: 4552.08,
+		net: 9747.92,
+		...overrides,
+	}) as PayrollLine;
+
+const employee = (employeeId: string, bankIban: string | null): Employees =>
+	({ employee_id: employeeId, national_id: null, bank_iban: bankIban, bank_name: null }) as Employees;
+
+const run = (lines: PayrollLine[]): PayrollRunDetails => ({
+	kind: 'payroll_run',
+	period: { year: 2026, month: 2 },
+	generated_at: '2026-02-25T08:00:00Z',
+	lines,
+	totals: { employees: lines.length, gross: 0, gosi: 0, deductions: 0, overtime: 0, net: 0 },
+});
+
+const EMPLOYER = { establishmentId: '7001234567', companyIban: SNB_IBAN };
+
+describe('isValidIban', () => {
+	it('accepts a valid Saudi IBAN, with spaces and in lower case', () => {
+		expect(isValidIban(AL_RAJHI_IBAN)).toBe(true);
+		expect(isValidIban('sa03 8000 0000 6080 1016 7519')).toBe(true);
+	});
+
+	it('rejects an IBAN that fails the mod-97 check', () => {
+		expect(isValidIban(TAMPERED_IBAN)).toBe(false);
+		expect(isValidIban('SA3080000000608010167519')).toBe(false);
+	});
+
+	it('rejects a Saudi IBAN of the wrong length and empty values', () => {
+		expect(isValidIban(AL_RAJHI_IBAN.slice(0, -1))).toBe(false);
+		expect(isValidIban('')).toBe(false);
+		expect(isValidIban(null)).toBe(false);
+	});
+});
+
+describe('bankFromIban', () => {
+	it('maps the bank code in positions 5-6 to the bank', () => {
+		expect(bankFromIban(AL_RAJHI_IBAN)).toEqual({ name: 'Al Rajhi Bank', bic: 'RJHISARI' });
+		expect(bankFromIban(SNB_IBAN)).toEqual({ name: 'Saudi National Bank', bic: 'NCBKSAJE' });
+	});
+
+	it('returns null for unknown codes and foreign IBANs', () => {
+		expect(bankFromIban(UNKNOWN_BANK_IBAN)).toBeNull();
+		expect(bankFromIban('GB82WEST12345698765432')).toBeNull();
+	});
+});
+
+describe('buildWpsFile', () => {
+	it('writes a header with the record count and total net, then one detail per employee', () => {
+		const file = buildWpsFile(
+			run([line({}), line({ employee_id: 'emp-2', name_en: 'Omar,Zaid', national_id: '2012345678', net: 5000, overtime: 0, total_deductions: 0 })]),
+			[employee('emp-1', AL_RAJHI_IBAN), employee('emp-2', SNB_IBAN)],
+			EMPLOYER,
+			'2026-02-27'
+		);
+
+		expect(file.issues).toEqual([]);
+		expect(file.fileName).toBe('SIF_7001234567_20260227.csv');
+		expect(file.content?.split('\r\n')).toEqual([
+			`H,7001234567,${SNB_IBAN},NCBKSAJE,20260227,202602,2,14747.92,SAR`,
+			`D,1012345678,Sara Al-Harbi,RJHISARI,${AL_RAJHI_IBAN},9747.92,10000.00,2500.00,1800.00,4552.08,Salary 202602`,
+			`D,2012345678,Omar Zaid,NCBKSAJE,${SNB_IBAN},5000.00,10000.00,2500.00,1500.00,0.00,Salary 202602`,
+			'',
+		]);
+	});
+
+	it('takes the IBAN from the employee record over the one in the run', () => {
+		const file = buildWpsFile(run([line({ bank_iban: TAMPERED_IBAN })]), [employee('emp-1', AL_RAJHI_IBAN)], EMPLOYER, '2026-02-27');
+
+		expect(file.records.map((record) => record.iban)).toEqual([AL_RAJHI_IBAN]);
+		expect(file.content).not.toBeNull();
+	});
+
+	it('reports invalid IBANs and unknown banks instead of producing a file', () => {
+		const file = buildWpsFile(
+			run([line({}), line({ employee_id: 'emp-2', name_en: 'Omar Zaid' })]),
+			[employee('emp-1', TAMPERED_IBAN), employee('emp-2', UNKNOWN_BANK_IBAN)],
+			EMPLOYER,
+			'2026-02-27'
+		);
+
+		expect(file.content).toBeNull();
+		expect(file.issues).toEqual([
+			{ employee_id: 'emp-1', name: 'Sara Al-Harbi', problems: [`Invalid IBAN ${TAMPERED_IBAN}`] },
+			{ employee_id: 'emp-2', name: 'Omar Zaid', problems: [`Unknown bank for IBAN ${UNKNOWN_BANK_IBAN}`] },
+		]);
+	});
+
+	it('reports an invalid company IBAN', () => {
+		const file = buildWpsFile(run([line({})]), [employee('emp-1', AL_RAJHI_IBAN)], { ...EMPLOYER, companyIban: TAMPERED_IBAN }, '2026-02-27');
+
+		expect(file.content).toBeNull();
+		expect(file.issues).toEqual([{ employee_id: '', name: 'Employer', problems: ['Invalid company IBAN'] }]);
+	});
+});
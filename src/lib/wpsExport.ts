@@ -0,0 +1,206 @@
+import type { Employees } from '../../supabase/models/employees';
+import type { PayrollLine, PayrollRunDetails } from './payrollCalculation';
+
+/**
+ * Wage Protection System (WPS) salary file.
+ * Builds the Mudad-style SIF/CSV bank file for an approved payroll run: one header record for
+ * the establishment and one detail record per employee with the net pay breakdown. Employees
+ * with missing or invalid bank details are reported instead of producing a file the bank rejects.
+ */
+
+export interface WpsEmployerDetails {
+	establishmentId: string; // MHRSD (Mudad) establishment number
+	companyIban: string; // Funding account the salaries are paid from
+}
+
+export interface WpsRecord {
+	national_id: string;
+	name: string;
+	bank_code: string; // SWIFT/BIC of the employee's bank
+	iban: string;
+	basic: number;
+	housing: number;
+	other_earnings: number;
+	deductions: number;
+	net: number;
+}
+
+export interface WpsIssue {
+	employee_id: string;
+	name: string;
+	problems: string[];
+}
+
+export interface WpsFile {
+	records: WpsRecord[];
+	issues: WpsIssue[];
+	content: string | null; // null while there are issues
+	fileName: string;
+}
+
+// IBAN bank identifier (positions 5-6 of a Saudi IBAN) → bank BIC
+export const SAUDI_BANK_CODES: Record<string, { name: string; bic: string }> = {
+	'05': { name: 'Alinma Bank', bic: 'INMASARI' },
+	'10': { name: 'Saudi National Bank', bic: 'NCBKSAJE' },
+	'15': { name: 'Bank AlBilad', bic: 'ALBISARI' },
+	'20': { name: 'Riyad Bank', bic: 'RIBLSARI' },
+	'30': { name: 'Arab National Bank', bic: 'ARNBSARI' },
+	'45': { name: 'Saudi Awwal Bank', bic: 'SABBSARI' },
+	'55': { name: 'Banque Saudi Fransi', bic: 'BSFRSARI' },
+	'60': { name: 'Bank AlJazira', bic: 'BJAZSAJE' },
+	'65': { name: 'Saudi Investment Bank', bic: 'SIBCSARI' },
+	'80': { name: 'Al Rajhi Bank', bic: 'RJHISARI' },
+	'90': { name: 'Gulf International Bank', bic: 'GULFSARI' },
+};
+
+const IBAN_LENGTHS: Record<string, number> = { SA: 24 };
+
+const round2 = (value: number) => Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+
+export const normalizeIban = (iban: string | null | undefined) => String(iban ?? '').replace(/\s+/g, '').toUpperCase();
+
+/**
+ * ISO 13616 check: move the first four characters to the end, map letters to numbers and
+ * require the result mod 97 to equal 1
+ */
+export function isValidIban(iban: string | null | undefined): boolean {
+	const value = normalizeIban(iban);
+	if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(value)) return false;
+	const expectedLength = IBAN_LENGTHS[value.slice(0, 2)];
+	if (expectedLength && value.length !== expectedLength) return false;
+
+	const rearranged = value.slice(4) + value.slice(0, 4);
+	let remainder = 0;
+	for (const char of rearranged) {
+		const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+		for (const digit of digits) {
+			remainder = (remainder * 10 + Number(digit)) % 97;
+		}
+	}
+	return remainder === 1;
+}
+
+export function bankFromIban(iban: string | null | undefined) {
+	const value = normalizeIban(iban);
+	return value.startsWith('SA') ? SAUDI_BANK_CODES[value.slice(4, 6)] ?? null : null;
+}
+
+const formatAmount = (value: number) => round2(value).toFixed(2);
+
+// SIF fields are comma separated, so names are stripped of separators rather than quoted
+const sanitize = (value: string) => value.replace(/[,\r\n"]+/g, ' ').trim();
+
+function buildRecord(line: PayrollLine, employee: Employees | undefined): { record: WpsRecord | null; problems: string[] } {
+	// Bank details are taken from the employee record so corrections after approval are picked up
+	const iban = normalizeIban(employee?.bank_iban ?? line.bank_iban);
+	const nationalId = String(employee?.national_id ?? line.national_id ?? '').trim();
+	const problems: string[] = [];
+
+	if (!nationalId) problems.push('Missing national ID / iqama number');
+	if (!iban) {
+		problems.push('Missing IBAN');
+	} else if (!isValidIban(iban)) {
+		problems.push(`Invalid IBAN ${iban}`);
+	}
+	const bank = iban && isValidIban(iban) ? bankFromIban(iban) : null;
+	if (iban && isValidIban(iban) && !bank) {
+		problems.push(`Unknown bank for IBAN ${iban}${employee?.bank_name ? ` (${employee.bank_name})` : ''}`);
+	}
+	if (line.net <= 0) problems.push('Net pay is zero');
+
+	if (problems.length > 0 || !bank) return { record: null, problems };
+	return {
+		record: {
+			national_id: nationalId,
+			name: sanitize(line.name_en),
+			bank_code: bank.bic,
+			iban,
+			basic: line.basic,
+			housing: line.housing,
+			other_earnings: round2(line.transport + line.other_allowances + line.overtime),
+			deductions: line.total_deductions,
+			net: line.net,
+		},
+		problems,
+	};
+}
+
+/**
+ * Validate the run and, when every employee passes, produce the SIF content.
+ * Header: H, establishment, funding IBAN, funding bank BIC, payment date, salary month,
+ * record count, total net, currency. Details: D, national ID, name, bank BIC, IBAN, net,
+ * basic, housing, other earnings, deductions, payment reference.
+ */
+export function buildWpsFile(
+	run: PayrollRunDetails,
+	employees: Employees[],
+	employer: WpsEmployerDetails,
+	paymentDate: string // YYYY-MM-DD
+): WpsFile {
+	const byId = new Map(employees.map((employee) => [employee.employee_id, employee]));
+	const records: WpsRecord[] = [];
+	const issues: WpsIssue[] = [];
+
+	const establishmentId = employer.establishmentId.trim();
+	const companyIban = normalizeIban(employer.companyIban);
+	const employerProblems: string[] = [];
+	if (!establishmentId) employerProblems.push('Missing establishment number');
+	if (!isValidIban(companyIban)) employerProblems.push('Invalid company IBAN');
+	else if (!bankFromIban(companyIban)) employerProblems.push('Unknown bank for company IBAN');
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(paymentDate)) employerProblems.push('Missing payment date');
+	if (employerProblems.length > 0) {
+		issues.push({ employee_id: '', name: 'Employer', problems: employerProblems });
+	}
+
+	run.lines.forEach((line) => {
+		const { record, problems } = buildRecord(line, byId.get(line.employee_id));
+		if (record) records.push(record);
+		else issues.push({ employee_id: line.employee_id, name: line.name_en, problems });
+	});
+
+	const period = `${run.period.year}${String(run.period.month).padStart(2, '0')}`;
+	const fileName = `SIF_${establishmentId || 'establishment'}_${paymentDate.replace(/-/g, '')}.csv`;
+	if (issues.length > 0) {
+		return { records, issues, content: null, fileName };
+	}
+
+	const totalNet = round2(records.reduce((sum, record) => sum + record.net, 0));
+	const header = [
+		'H',
+		establishmentId,
+		companyIban,
+		bankFromIban(companyIban)?.bic ?? '',
+		paymentDate.replace(/-/g, ''),
+		period,
+		String(records.length),
+		formatAmount(totalNet),
+		'SAR',
+	];
+	const details = records.map((record) => [
+		'D',
+		record.national_id,
+		record.name,
+		record.bank_code,
+		record.iban,
+		formatAmount(record.net),
+		formatAmount(record.basic),
+		formatAmount(record.housing),
+		formatAmount(record.other_earnings),
+		formatAmount(record.deductions),
+		`Salary ${period}`,
+	]);
+
+	const content = [header, ...details].map((fields) => fields.join(',')).join('\r\n') + '\r\n';
+	return { records, issues, content, fileName };
+}
+
+export function downloadWpsFile(file: WpsFile): void {
+	if (!file.content) return;
+	const blob = new Blob([file.content], { type: 'text/csv;charset=utf-8' });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = file.fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
@@ -0,0 +1,157 @@
+import { computeZatcaInvoiceHash, verifyZatcaSignature, ZATCA_INITIAL_PIH } from './zatcaEInvoice';
+import { bytesToBase64 } from './zatcaQr';
+
+/**
+ * Local stand-in for the ZATCA compliance / reporting API.
+ * Accepts the same request body as `/compliance/invoices` and answers with the same
+ * response shape, so e-invoices can be checked offline before the real onboarding.
+ */
+
+export interface ZatcaComplianceRequest {
+	invoiceHash: string;
+	uuid: string;
+	invoice: string; // Base64 of the signed XML
+}
+
+export interface ZatcaValidationMessage {
+	type: 'INFO' | 'WARNING' | 'ERROR';
+	code: string;
+	category: string;
+	message: string;
+	status: 'PASS' | 'WARNING' | 'ERROR';
+}
+
+export interface ZatcaComplianceResponse {
+	validationResults: {
+		infoMessages: ZatcaValidationMessage[];
+		warningMessages: ZatcaValidationMessage[];
+		errorMessages: ZatcaValidationMessage[];
+		status: 'PASS' | 'WARNING' | 'ERROR';
+	};
+	reportingStatus: 'REPORTED' | 'NOT_REPORTED' | null; // Simplified (B2C) documents
+	clearanceStatus: 'CLEARED' | 'NOT_CLEARED' | null; // Standard (B2B) documents
+	clearedInvoice: string | null;
+}
+
+export interface ZatcaComplianceApi {
+	submitInvoice(request: ZatcaComplianceRequest): Promise<ZatcaComplianceResponse>;
+}
+
+function readElement(xml: string, pattern: RegExp): string | null {
+	const match = xml.match(pattern);
+	return match ? match[1] : null;
+}
+
+function decodeBase64Utf8(value: string): string {
+	const bytes = Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+	return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Create an in-memory compliance endpoint. It remembers the last accepted ICV/hash so
+ * broken chains (skipped counters, wrong PIH) are rejected just like on the portal.
+ */
+export function createLocalZatcaComplianceApi(): ZatcaComplianceApi {
+	let lastCounter = 0;
+	let lastHash = ZATCA_INITIAL_PIH;
+
+	return {
+		async submitInvoice(request: ZatcaComplianceRequest): Promise<ZatcaComplianceResponse> {
+			const errors: ZatcaValidationMessage[] = [];
+			const warnings: ZatcaValidationMessage[] = [];
+			const addError = (code: string, category: string, message: string) =>
+				errors.push({ type: 'ERROR', code, category, message, status: 'ERROR' });
+
+			let xml = '';
+			try {
+				xml = decodeBase64Utf8(request.invoice);
+			} catch {
+				addError('invalid-encoding', 'XSD_ZATCA_INVALID', 'Invoice is not valid Base64');
+			}
+
+			const uuid = readElement(xml, /<cbc:UUID>([0-9a-f-]{36})<\/cbc:UUID>/i);
+			const typeName = readElement(xml, /<cbc:InvoiceTypeCode name="(\d{7})">/);
+			const typeCode = readElement(xml, /<cbc:InvoiceTypeCode name="\d{7}">(\d{3})<\/cbc:InvoiceTypeCode>/);
+			const counter = Number(readElement(xml, /<cbc:ID>ICV<\/cbc:ID><cbc:UUID>(\d+)<\/cbc:UUID>/) ?? NaN);
+			const previousHash = readElement(xml, /<cbc:ID>PIH<\/cbc:ID><cac:Attachment><cbc:EmbeddedDocumentBinaryObject[^>]*>([^<]+)</);
+			const digestValue = readElement(xml, /<ds:DigestValue>([^<]+)<\/ds:DigestValue>/);
+			const signatureValue = readElement(xml, /<ds:SignatureValue>([^<]+)<\/ds:SignatureValue>/);
+			const publicKey = readElement(xml, /<ds:ECKeyValue>([^<]+)<\/ds:ECKeyValue>/);
+			const isStandard = typeName?.startsWith('01') ?? false;
+
+			if (xml) {
+				if (!uuid || uuid !== request.uuid) {
+					addError('BR-KSA-03', 'KSA', 'UUID in the document does not match the request');
+				}
+				if (!typeName || !typeCode || !['388', '381', '383'].includes(typeCode)) {
+					addError('BR-KSA-05', 'KSA', 'Invoice type code must be 388, 381 or 383 with a valid subtype');
+				}
+				if ((typeCode === '381' || typeCode === '383') && !xml.includes('<cac:BillingReference>')) {
+					addError('BR-KSA-56', 'KSA', 'Credit and debit notes must reference the original invoice');
+				}
+				if (isStandard && !xml.includes('<cac:AccountingCustomerParty>')) {
+					addError('BR-KSA-42', 'KSA', 'Standard invoices must identify the buyer');
+				}
+				if (!Number.isInteger(counter) || counter !== lastCounter + 1) {
+					addError('BR-KSA-33', 'KSA', `Invoice counter (ICV) must be ${lastCounter + 1}`);
+				}
+				if (previousHash !== lastHash) {
+					addError('BR-KSA-61', 'KSA', 'Previous invoice hash (PIH) does not match the last reported document');
+				}
+
+				const computedHash = await computeZatcaInvoiceHash(xml);
+				if (computedHash !== request.invoiceHash || computedHash !== digestValue) {
+					addError('invalid-invoice-hash', 'INVOICE_HASHING_ERRORS', 'The invoice hash does not match the document');
+				}
+				if (!signatureValue || !publicKey) {
+					addError('BR-KSA-28', 'KSA', 'Document is not signed');
+				} else if (!(await verifyZatcaSignature(request.invoiceHash, signatureValue, publicKey))) {
+					addError('signature-invalid', 'SIGNATURE_ERRORS', 'Signature does not verify against the embedded key');
+				}
+				if (!xml.includes('<cbc:ID>QR</cbc:ID>')) {
+					addError('BR-KSA-27', 'KSA', 'QR code is missing');
+				}
+				if (!xml.includes('<ds:X509Certificate>')) {
+					warnings.push({
+						type: 'WARNING',
+						code: 'certificate-missing',
+						category: 'CERTIFICATE_ERRORS',
+						message: 'No CSID certificate embedded; accepted by the local stub only',
+						status: 'WARNING',
+					});
+				}
+			}
+
+			const passed = errors.length === 0;
+			if (passed) {
+				lastCounter = counter;
+				lastHash = request.invoiceHash;
+			}
+
+			return {
+				validationResults: {
+					infoMessages: passed
+						? [{ type: 'INFO', code: 'XSD_ZATCA_VALID', category: 'XSD validation', message: 'Complied with UBL 2.1 standards', status: 'PASS' }]
+						: [],
+					warningMessages: warnings,
+					errorMessages: errors,
+					status: !passed ? 'ERROR' : warnings.length > 0 ? 'WARNING' : 'PASS',
+				},
+				reportingStatus: isStandard ? null : passed ? 'REPORTED' : 'NOT_REPORTED',
+				clearanceStatus: isStandard ? (passed ? 'CLEARED' : 'NOT_CLEARED') : null,
+				clearedInvoice: isStandard && passed ? request.invoice : null,
+			};
+		},
+	};
+}
+
+/**
+ * Build the request body for a signed document (used for both the stub and the real API)
+ */
+export function toZatcaComplianceRequest(signed: { xml: string; uuid: string; invoiceHash: string }): ZatcaComplianceRequest {
+	return {
+		invoiceHash: signed.invoiceHash,
+		uuid: signed.uuid,
+		invoice: bytesToBase64(new TextEncoder().encode(signed.xml)),
+	};
+}
@@ -0,0 +1,132 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { describe, expect, it, vi } from 'vitest';
+import {
+	computeZatcaInvoiceHash,
+	encodeZatcaPublicKey,
+	signZatcaInvoice,
+	verifyZatcaSignature,
+	ZATCA_INITIAL_PIH,
+	type ZatcaInvoiceInput,
+	type ZatcaSigner,
+} from './zatcaEInvoice';
+import { createLocalZatcaComplianceApi, toZatcaComplianceRequest } from './zatcaComplianceStub';
+import { decodeZatcaTlv, ZATCA_TLV_TAGS } from './zatcaQr';
+
+// Documents are issued through zatca-sign; only the pure signing path is exercised here
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+// Fixed key so failures are reproducible; production keys are generated by zatca-sign
+const PRIVATE_KEY = Uint8Array.from({ length: 32 }, (_, index) => index + 1);
+const signer: ZatcaSigner = {
+	publicKey: encodeZatcaPublicKey(secp256k1.getPublicKey(PRIVATE_KEY, false)),
+	sign: (invoiceHash) => secp256k1.sign(invoiceHash, PRIVATE_KEY, { format: 'der' }),
+};
+
+const SELLER = {
+	name: 'شركة مانا الذكية للتجارة',
+	vatNumber: '300000000000003',
+	commercialRegister: '1010101010',
+	address: { street: 'King Fahd Road', city: 'Riyadh', countryCode: 'SA' },
+};
+
+function simplifiedInvoice(invoiceNumber: string, uuid: string): ZatcaInvoiceInput {
+	return {
+		uuid,
+		invoiceNumber,
+		kind: 'simplified',
+		documentType: 'invoice',
+		issuedAt: '2026-10-18T09:15:00Z',
+		currency: 'SAR',
+		seller: SELLER,
+		buyer: null,
+		lines: [{ id: 1, name: 'Diffuser refill', quantity: 2, unitPrice: 500, discount: 0, netAmount: 1000 }],
+		documentDiscount: 0,
+		vatRate: 15,
+	};
+}
+
+const FIRST_UUID = '3cf5ee18-ee25-44ea-a444-2c37ba7f28be';
+const SECOND_UUID = '8d487816-70b8-4ade-a618-9d620b73814a';
+
+describe('signZatcaInvoice', () => {
+	it('stamps the invoice hash with a DER signature that verifies against the public key', async () => {
+		const signed = await signZatcaInvoice(simplifiedInvoice('INV-0001', FIRST_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+
+		expect(await computeZatcaInvoiceHash(signed.xml)).toBe(signed.invoiceHash);
+		expect(await verifyZatcaSignature(signed.invoiceHash, signed.signatureValue, signer.publicKey)).toBe(true);
+		expect(signed.xml).toContain(`<ds:SignatureValue>${signed.signatureValue}</ds:SignatureValue>`);
+		expect(signed.xml).toContain(`<ds:ECKeyValue>${signer.publicKey}</ds:ECKeyValue>`);
+	});
+
+	it('rejects the signature for another hash or another key', async () => {
+		const signed = await signZatcaInvoice(simplifiedInvoice('INV-0001', FIRST_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+		const otherKey = encodeZatcaPublicKey(secp256k1.getPublicKey(secp256k1.utils.randomSecretKey(), false));
+
+		expect(await verifyZatcaSignature(ZATCA_INITIAL_PIH, signed.signatureValue, signer.publicKey)).toBe(false);
+		expect(await verifyZatcaSignature(signed.invoiceHash, signed.signatureValue, otherKey)).toBe(false);
+	});
+
+	it('puts the hash, signature and public key in QR tags 6 to 8', async () => {
+		const signed = await signZatcaInvoice(simplifiedInvoice('INV-0001', FIRST_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+		const decoded = decodeZatcaTlv(signed.qrPayload);
+
+		expect(decoded[ZATCA_TLV_TAGS.VAT_NUMBER]).toBe('300000000000003');
+		expect(decoded[ZATCA_TLV_TAGS.INVOICE_TOTAL]).toBe('1150.00');
+		expect(decoded[ZATCA_TLV_TAGS.VAT_TOTAL]).toBe('150.00');
+		expect(decoded[ZATCA_TLV_TAGS.INVOICE_HASH]).toBe(signed.invoiceHash);
+		expect(decoded[ZATCA_TLV_TAGS.SIGNATURE]).toBe(signed.signatureValue);
+	});
+
+	it('refuses input that breaks the offline business rules', async () => {
+		const input = { ...simplifiedInvoice('INV-0001', FIRST_UUID), lines: [] };
+		await expect(signZatcaInvoice(input, { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer)).rejects.toThrow(
+			'Invoice must have at least one line'
+		);
+	});
+});
+
+describe('local compliance stub', () => {
+	it('accepts two invoices chained by ICV and PIH', async () => {
+		const api = createLocalZatcaComplianceApi();
+		const first = await signZatcaInvoice(simplifiedInvoice('INV-0001', FIRST_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+		const second = await signZatcaInvoice(simplifiedInvoice('INV-0002', SECOND_UUID), first.chain, signer);
+
+		expect(first.counter).toBe(1);
+		expect(second.counter).toBe(2);
+		expect(second.xml).toContain(`<cbc:ID>ICV</cbc:ID><cbc:UUID>2</cbc:UUID>`);
+		expect(second.xml).toContain(`<cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${first.invoiceHash}</cbc:EmbeddedDocumentBinaryObject>`);
+
+		const firstResponse = await api.submitInvoice(toZatcaComplianceRequest(first));
+		expect(firstResponse.validationResults.errorMessages).toEqual([]);
+		expect(firstResponse.reportingStatus).toBe('REPORTED');
+
+		const secondResponse = await api.submitInvoice(toZatcaComplianceRequest(second));
+		expect(secondResponse.validationResults.errorMessages).toEqual([]);
+		expect(secondResponse.reportingStatus).toBe('REPORTED');
+	});
+
+	it('rejects a document signed from a stale head', async () => {
+		const api = createLocalZatcaComplianceApi();
+		const first = await signZatcaInvoice(simplifiedInvoice('INV-0001', FIRST_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+		// Signed from the initial head again instead of from the first document
+		const forked = await signZatcaInvoice(simplifiedInvoice('INV-0002', SECOND_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+
+		await api.submitInvoice(toZatcaComplianceRequest(first));
+		const response = await api.submitInvoice(toZatcaComplianceRequest(forked));
+		const codes = response.validationResults.errorMessages.map((message) => message.code);
+
+		expect(response.reportingStatus).toBe('NOT_REPORTED');
+		expect(codes).toContain('BR-KSA-33');
+		expect(codes).toContain('BR-KSA-61');
+	});
+
+	it('rejects a document whose signature was tampered with', async () => {
+		const api = createLocalZatcaComplianceApi();
+		const signed = await signZatcaInvoice(simplifiedInvoice('INV-0001', FIRST_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+		const other = await signZatcaInvoice(simplifiedInvoice('INV-0009', SECOND_UUID), { counter: 0, previousHash: ZATCA_INITIAL_PIH }, signer);
+		const tampered = { ...signed, xml: signed.xml.replace(signed.signatureValue, other.signatureValue) };
+
+		const response = await api.submitInvoice(toZatcaComplianceRequest(tampered));
+		expect(response.validationResults.errorMessages.map((message) => message.code)).toEqual(['signature-invalid']);
+	});
+});
@@ -0,0 +1,305 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import type { CompanyBranding } from '../../supabase/models/company_branding';
+import type { Customers } from '../../supabase/models/customers';
+import type { Invoices } from '../../supabase/models/invoices';
+import type { InvoiceNotes } from '../../supabase/models/invoice_notes';
+import type { ZatcaDocuments } from '../../supabase/models/zatca_chain';
+import {
+	base64ToBytes,
+	decodeZatcaPublicKey,
+	formatZatcaTimestamp,
+	type ZatcaChainState,
+	type ZatcaDocumentType,
+	type ZatcaInvoiceInput,
+	type ZatcaInvoiceKind,
+	type ZatcaInvoiceLine,
+	type ZatcaParty,
+	type ZatcaSignedInvoice,
+} from '../../supabase/functions/_shared/zatca.ts';
+import { supabase } from './supabaseClient';
+import { callEdgeFunction } from './edgeFunctions';
+import { getCompanyNameArabic, getCompanyVatNumber } from './companyInfo';
+
+/**
+ * ZATCA Phase 2 (Fatoora) e-invoice generation.
+ * Maps invoice and credit/debit note rows to e-invoice input and has them issued by the zatca-sign
+ * Edge Function, which renders the UBL 2.1 XML, chains it to the previous document (ICV counter +
+ * previous invoice hash) and stamps it with the company's ECDSA secp256k1 key. The key never leaves
+ * the server; the app only gets the signed document back. Rendering and signing live in
+ * supabase/functions/_shared/zatca.ts.
+ */
+
+export {
+	calculateZatcaTotals,
+	computeZatcaInvoiceHash,
+	encodeZatcaPublicKey,
+	extractZatcaHashableXml,
+	renderZatcaInvoiceXml,
+	signZatcaInvoice,
+	validateZatcaInvoiceInput,
+	ZATCA_INITIAL_PIH,
+	type ZatcaAddress,
+	type ZatcaChainState,
+	type ZatcaDocumentType,
+	type ZatcaInvoiceInput,
+	type ZatcaInvoiceKind,
+	type ZatcaInvoiceLine,
+	type ZatcaParty,
+	type ZatcaSignedInvoice,
+	type ZatcaSigner,
+	type ZatcaTotals,
+} from '../../supabase/functions/_shared/zatca.ts';
+
+// localStorage keys older builds kept the chain under; adopted once, see adoptLegacyChain
+const LEGACY_CHAIN_STATE_KEY = 'zatcaChainState';
+const LEGACY_SIGNING_KEY = 'zatcaSigningKey';
+const LEGACY_SIGNED_DOCUMENTS_KEY = 'zatcaSignedDocuments';
+
+export interface BuildZatcaInvoiceOptions {
+	invoiceNumber: string;
+	kind?: ZatcaInvoiceKind;
+	documentType?: ZatcaDocumentType;
+	billingReference?: string | null;
+	noteReason?: string | null;
+	uuid?: string;
+}
+
+// Shape of the entries saved in `invoices.invoice_items`
+interface StoredInvoiceItem {
+	description?: string | null;
+	quantity?: number | string | null;
+	unitPrice?: number | string | null;
+	discountPercent?: number | string | null;
+	discountAmount?: number | string | null;
+	subtotal?: number | string | null;
+}
+
+function round2(value: number): number {
+	return Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+}
+
+/**
+ * Seller party from company branding
+ */
+export function buildZatcaSellerParty(companyInfo: CompanyBranding | null): ZatcaParty {
+	return {
+		name: getCompanyNameArabic(companyInfo),
+		vatNumber: getCompanyVatNumber(companyInfo) || null,
+		commercialRegister: companyInfo?.company_commercial_register || null,
+		address: {
+			street: companyInfo?.company_address || '',
+			city: companyInfo?.company_city_postal || '',
+			countryCode: 'SA',
+		},
+	};
+}
+
+/**
+ * Buyer party from a customer row. Returns null for walk-in (B2C) sales without a customer.
+ */
+export function buildZatcaBuyerParty(customer: Customers | null): ZatcaParty | null {
+	if (!customer) return null;
+	return {
+		name: customer.company || customer.customer_name,
+		vatNumber: customer.vat_number || null,
+		commercialRegister: customer.commercial_register || null,
+		address: {
+			street: customer.customer_address || '',
+			city: customer.customer_city_of_residence || '',
+			countryCode: 'SA',
+		},
+	};
+}
+
+/**
+ * Map an `Invoices` row and its `invoice_items` jsonb to e-invoice input.
+ * Customers with a VAT number get a standard (B2B) invoice unless a kind is given.
+ */
+export function buildZatcaInvoiceInput(
+	invoice: Invoices,
+	customer: Customers | null,
+	seller: ZatcaParty,
+	options: BuildZatcaInvoiceOptions
+): ZatcaInvoiceInput {
+	const items: StoredInvoiceItem[] = Array.isArray(invoice.invoice_items) ? invoice.invoice_items : [];
+	const lines: ZatcaInvoiceLine[] = items
+		.filter((item) => String(item?.description ?? '').trim())
+		.map((item, index) => {
+			const quantity = Number(item?.quantity ?? 1) || 1;
+			const unitPrice = Number(item?.unitPrice ?? 0);
+			const gross = quantity * unitPrice;
+			const discountPercent = Number(item?.discountPercent ?? 0);
+			const discountFixed = Number(item?.discountAmount ?? 0);
+			const discount = discountPercent > 0 ? gross * (discountPercent / 100) : Math.min(gross, discountFixed);
+			const netAmount = item?.subtotal != null ? Number(item.subtotal) : gross - discount;
+			return {
+				id: index + 1,
+				name: String(item.description).trim(),
+				quantity,
+				unitPrice,
+				discount: round2(Math.max(0, gross - netAmount)),
+				netAmount: round2(netAmount),
+			};
+		});
+
+	const lineTotal = lines.reduce((sum, line) => sum + line.netAmount, 0);
+	const discountValue = Number(invoice.discount_amount ?? 0);
+	let documentDiscount = 0;
+	if (invoice.discount_type === 'percentage' && discountValue > 0) {
+		documentDiscount = lineTotal * (Math.min(100, discountValue) / 100);
+	} else if (invoice.discount_type === 'fixed' && discountValue > 0) {
+		documentDiscount = Math.min(lineTotal, discountValue);
+	}
+
+	const rawRate = invoice.vat_enabled === false ? 0 : Number(invoice.tax_rate ?? 0);
+	const vatRate = rawRate > 1 ? rawRate : rawRate * 100;
+
+	return {
+		uuid: options.uuid ?? crypto.randomUUID(),
+		invoiceNumber: options.invoiceNumber,
+		kind: options.kind ?? (customer?.vat_number ? 'standard' : 'simplified'),
+		documentType: options.documentType ?? 'invoice',
+		issuedAt: formatZatcaTimestamp(invoice.created_at ?? invoice.invoice_date),
+		currency: 'SAR',
+		seller,
+		buyer: buildZatcaBuyerParty(customer),
+		lines,
+		documentDiscount: round2(documentDiscount),
+		vatRate: round2(vatRate),
+		billingReference: options.billingReference ?? null,
+		noteReason: options.noteReason ?? null,
+	};
+}
+
+/**
+ * Map a credit/debit note to e-invoice input. Buyer, kind and VAT rate come from the original
+ * invoice; the lines are the note's own and carry no further discount.
+ */
+export function buildZatcaNoteInput(
+	note: InvoiceNotes,
+	invoice: Invoices,
+	customer: Customers | null,
+	seller: ZatcaParty,
+	invoiceNumber: string
+): ZatcaInvoiceInput {
+	const base = buildZatcaInvoiceInput(invoice, customer, seller, {
+		invoiceNumber: note.note_number,
+		documentType: note.note_type === 'credit' ? 'credit_note' : 'debit_note',
+		billingReference: note.invoice_reference || invoiceNumber,
+		noteReason: note.reason,
+	});
+	return {
+		...base,
+		issuedAt: formatZatcaTimestamp(note.created_at ?? note.note_date),
+		lines: (note.note_items ?? []).map((item, index) => ({
+			id: index + 1,
+			name: item.description,
+			quantity: item.quantity,
+			unitPrice: item.unitPrice,
+			discount: 0,
+			netAmount: round2(item.subtotal),
+		})),
+		documentDiscount: 0,
+	};
+}
+
+/**
+ * Verify a DER signature value against an invoice hash with a Base64 SPKI public key
+ */
+export async function verifyZatcaSignature(invoiceHash: string, signatureValue: string, publicKey: string): Promise<boolean> {
+	try {
+		const point = decodeZatcaPublicKey(publicKey);
+		return (
+			point !== null &&
+			secp256k1.verify(base64ToBytes(signatureValue), base64ToBytes(invoiceHash), point, { format: 'der', lowS: false })
+		);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Hand the chain this browser kept under older builds to the database, so counters it already issued
+ * are not issued again. Only a chain nothing was issued from yet takes it over; the local keys are
+ * removed either way (the old P-256 key cannot make secp256k1 stamps).
+ */
+async function adoptLegacyChain(): Promise<void> {
+	localStorage.removeItem(LEGACY_SIGNING_KEY);
+	const storedChain = localStorage.getItem(LEGACY_CHAIN_STATE_KEY);
+	if (storedChain) {
+		let state: ZatcaChainState | null = null;
+		let documents: Record<string, ZatcaSignedInvoice> = {};
+		try {
+			state = JSON.parse(storedChain) as ZatcaChainState;
+			documents = JSON.parse(localStorage.getItem(LEGACY_SIGNED_DOCUMENTS_KEY) ?? '{}') as Record<string, ZatcaSignedInvoice>;
+		} catch (error) {
+			console.error('Failed to read the ZATCA chain saved in this browser:', error);
+		}
+
+		if (state && typeof state.counter === 'number' && state.counter > 0 && typeof state.previousHash === 'string') {
+			await callEdgeFunction<{ adopted: boolean }>('zatca-sign', {
+				action: 'adopt',
+				counter: state.counter,
+				previous_hash: state.previousHash,
+				documents: Object.entries(documents).map(([sourceId, document]) => ({
+					source_id: sourceId,
+					counter: document.counter,
+					uuid: document.uuid,
+					invoice_hash: document.invoiceHash,
+					signature_value: document.signatureValue,
+					qr_payload: document.qrPayload,
+					xml: document.xml,
+				})),
+			});
+		}
+	}
+	localStorage.removeItem(LEGACY_CHAIN_STATE_KEY);
+	localStorage.removeItem(LEGACY_SIGNED_DOCUMENTS_KEY);
+}
+
+function toSignedInvoice(document: ZatcaDocuments): ZatcaSignedInvoice {
+	return {
+		xml: document.xml,
+		uuid: document.uuid,
+		counter: document.counter,
+		invoiceHash: document.invoice_hash,
+		signatureValue: document.signature_value,
+		qrPayload: document.qr_payload,
+		chain: { counter: document.counter, previousHash: document.invoice_hash },
+	};
+}
+
+export async function getStoredZatcaDocument(sourceId: string): Promise<ZatcaSignedInvoice | null> {
+	const { data, error } = await supabase
+		.from('zatca_documents')
+		.select('*')
+		.eq('source_id', sourceId)
+		.maybeSingle<ZatcaDocuments>();
+	if (error) throw error;
+	return data ? toSignedInvoice(data) : null;
+}
+
+/**
+ * Issue the e-invoice for a source row (invoice / note ID) exactly once.
+ * zatca-sign signs it from the current head of the chain and records it; re-exporting returns the
+ * stored document so the ICV/PIH chain is not advanced twice.
+ */
+export async function issueZatcaDocument(
+	sourceId: string,
+	input: ZatcaInvoiceInput,
+	certificate?: string | null
+): Promise<ZatcaSignedInvoice> {
+	const existing = await getStoredZatcaDocument(sourceId);
+	if (existing) {
+		return existing;
+	}
+
+	await adoptLegacyChain();
+	const { document } = await callEdgeFunction<{ document: ZatcaDocuments }>('zatca-sign', {
+		action: 'issue',
+		source_id: sourceId,
+		input,
+		certificate: certificate ?? null,
+	});
+	return toSignedInvoice(document);
+}
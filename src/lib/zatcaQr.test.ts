@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CompanyBranding } from '../../supabase/models/company_branding';
+import { buildZatcaQrFields, decodeZatcaTlv, encodeTlv, encodeZatcaTlv, formatZatcaTimestamp, ZATCA_TLV_TAGS } from './zatcaQr';
+
+// companyInfo reads the settings cache, which needs a configured client; none is used here
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const base64Bytes = (payload: string) => Uint8Array.from(atob(payload), (c) => c.charCodeAt(0));
+
+// Sample from ZATCA's QR code guideline for simplified tax invoices
+const ZATCA_SAMPLE = {
+	sellerName: 'Bobs Records',
+	vatNumber: '310122393500003',
+	timestamp: '2022-04-25T15:30:00Z',
+	invoiceTotal: 1000,
+	vatTotal: 150,
+};
+const ZATCA_SAMPLE_PAYLOAD =
+	'AQxCb2JzIFJlY29yZHMCDzMxMDEyMjM5MzUwMDAwMwMUMjAyMi0wNC0yNVQxNTozMDowMFoEBzEwMDAuMDAFBjE1MC4wMA==';
+
+const ARABIC_SELLER = 'شركة مانا الذكية للتجارة';
+const ARABIC_PAYLOAD =
+	'AS3YtNix2YPYqSDZhdin2YbYpyDYp9mE2LDZg9mK2Kkg2YTZhNiq2KzYp9ix2KkCDzMwMDAwMDAwMDAwMDAwMwMUMjAyNi0xMC0xOFQwOToxNTowMFoEBzExNTAuMDAFBjE1MC4wMA==';
+
+describe('encodeZatcaTlv', () => {
+	it('matches the published ZATCA sample payload', () => {
+		expect(encodeZatcaTlv(ZATCA_SAMPLE)).toBe(ZATCA_SAMPLE_PAYLOAD);
+	});
+
+	it('writes tag, length and value bytes in the required order', () => {
+		const bytes = base64Bytes(encodeZatcaTlv(ZATCA_SAMPLE));
+		expect(Array.from(bytes.slice(0, 2))).toEqual([ZATCA_TLV_TAGS.SELLER_NAME, 12]);
+		expect(Array.from(bytes.slice(14, 16))).toEqual([ZATCA_TLV_TAGS.VAT_NUMBER, 15]);
+		expect(Array.from(bytes.slice(31, 33))).toEqual([ZATCA_TLV_TAGS.TIMESTAMP, 20]);
+		expect(Array.from(bytes.slice(53, 55))).toEqual([ZATCA_TLV_TAGS.INVOICE_TOTAL, 7]);
+		expect(Array.from(bytes.slice(62, 64))).toEqual([ZATCA_TLV_TAGS.VAT_TOTAL, 6]);
+		expect(bytes.length).toBe(70);
+	});
+
+	it('encodes an Arabic seller name as UTF-8 and counts its length in bytes', () => {
+		const payload = encodeZatcaTlv({
+			sellerName: ARABIC_SELLER,
+			vatNumber: '300000000000003',
+			timestamp: '2026-10-18T09:15:00Z',
+			invoiceTotal: 1150,
+			vatTotal: 150,
+		});
+
+		expect(payload).toBe(ARABIC_PAYLOAD);
+		const bytes = base64Bytes(payload);
+		expect(ARABIC_SELLER.length).toBe(24);
+		expect(bytes[0]).toBe(ZATCA_TLV_TAGS.SELLER_NAME);
+		expect(bytes[1]).toBe(45);
+		expect(new TextDecoder().decode(bytes.slice(2, 47))).toBe(ARABIC_SELLER);
+		expect(bytes[47]).toBe(ZATCA_TLV_TAGS.VAT_NUMBER);
+	});
+
+	it('formats amounts with two decimals and trims the name and VAT number', () => {
+		const decoded = decodeZatcaTlv(
+			encodeZatcaTlv({
+				...ZATCA_SAMPLE,
+				sellerName: ' Bobs Records ',
+				vatNumber: '310122393500003 ',
+				invoiceTotal: 99.5,
+				vatTotal: 12.5,
+			})
+		);
+		expect(decoded[ZATCA_TLV_TAGS.SELLER_NAME]).toBe('Bobs Records');
+		expect(decoded[ZATCA_TLV_TAGS.VAT_NUMBER]).toBe('310122393500003');
+		expect(decoded[ZATCA_TLV_TAGS.INVOICE_TOTAL]).toBe('99.50');
+		expect(decoded[ZATCA_TLV_TAGS.VAT_TOTAL]).toBe('12.50');
+	});
+});
+
+describe('encodeTlv', () => {
+	it('accepts a value of exactly 255 bytes', () => {
+		const bytes = base64Bytes(encodeTlv([[ZATCA_TLV_TAGS.SIGNATURE, new Uint8Array(255)]]));
+		expect(bytes[1]).toBe(255);
+		expect(bytes.length).toBe(257);
+	});
+
+	it('rejects values longer than one length byte can describe', () => {
+		// 128 Arabic letters are 256 UTF-8 bytes
+		expect(() => encodeTlv([[ZATCA_TLV_TAGS.SELLER_NAME, 'م'.repeat(128)]])).toThrow('exceeds 255 bytes');
+	});
+});
+
+describe('decodeZatcaTlv', () => {
+	it('reads the published sample back into its fields', () => {
+		expect(decodeZatcaTlv(ZATCA_SAMPLE_PAYLOAD)).toEqual({
+			1: 'Bobs Records',
+			2: '310122393500003',
+			3: '2022-04-25T15:30:00Z',
+			4: '1000.00',
+			5: '150.00',
+		});
+	});
+
+	it('round-trips an Arabic seller name', () => {
+		expect(decodeZatcaTlv(ARABIC_PAYLOAD)[ZATCA_TLV_TAGS.SELLER_NAME]).toBe(ARABIC_SELLER);
+	});
+});
+
+describe('formatZatcaTimestamp', () => {
+	it('drops milliseconds and normalises to UTC', () => {
+		expect(formatZatcaTimestamp('2022-04-25T18:30:00.123+03:00')).toBe('2022-04-25T15:30:00Z');
+	});
+});
+
+describe('buildZatcaQrFields', () => {
+	it('uses the Arabic company name, the VAT number and the invoice creation time', () => {
+		const company = {
+			company_name_ar: ARABIC_SELLER,
+			company_name_en: 'Mana Smart Trading',
+			company_tax_number: '300000000000003',
+		} as CompanyBranding;
+		const fields = buildZatcaQrFields(company, {
+			total_amount: 1150,
+			tax_amount: 150,
+			invoice_date: '2026-10-18',
+			created_at: '2026-10-18T09:15:00.000Z',
+		});
+
+		expect(encodeZatcaTlv(fields)).toBe(ARABIC_PAYLOAD);
+	});
+});
@@ -0,0 +1,83 @@
+import QRCode from 'qrcode';
+import type { CompanyBranding } from '../../supabase/models/company_branding';
+import type { Invoices } from '../../supabase/models/invoices';
+import { getCompanyNameArabic, getCompanyVatNumber } from './companyInfo';
+import {
+	encodeTlv,
+	formatZatcaTimestamp,
+	zatcaPhase1Records,
+	type ZatcaQrFields,
+} from '../../supabase/functions/_shared/zatca.ts';
+
+/**
+ * ZATCA (Fatoora) Phase 1 QR code payload.
+ * The QR holds a Base64 string of TLV records: 1 byte tag, 1 byte length, UTF-8 value.
+ * The encoding itself is shared with the zatca-sign Edge Function (supabase/functions/_shared/zatca.ts).
+ */
+
+export {
+	bytesToBase64,
+	encodeTlv,
+	formatZatcaTimestamp,
+	zatcaPhase1Records,
+	ZATCA_TLV_TAGS,
+	type ZatcaQrFields,
+} from '../../supabase/functions/_shared/zatca.ts';
+
+export type ZatcaInvoiceTotals = Pick<Invoices, 'total_amount' | 'tax_amount' | 'invoice_date' | 'created_at'>;
+
+/**
+ * Encode the five Phase 1 fields as a Base64 TLV string
+ */
+export function encodeZatcaTlv(fields: ZatcaQrFields): string {
+	return encodeTlv(zatcaPhase1Records(fields));
+}
+
+/**
+ * Decode a Base64 TLV payload back into tag/value pairs (useful for verifying printed codes)
+ */
+export function decodeZatcaTlv(payload: string): Record<number, string> {
+	const binary = atob(payload);
+	const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+	const decoder = new TextDecoder();
+	const result: Record<number, string> = {};
+
+	let offset = 0;
+	while (offset + 2 <= bytes.length) {
+		const tag = bytes[offset];
+		const length = bytes[offset + 1];
+		result[tag] = decoder.decode(bytes.slice(offset + 2, offset + 2 + length));
+		offset += 2 + length;
+	}
+
+	return result;
+}
+
+/**
+ * Build QR fields from company branding and an invoice row.
+ * The seller name is the registered (Arabic) name; the timestamp is the invoice creation time,
+ * falling back to the invoice date.
+ */
+export function buildZatcaQrFields(
+	companyInfo: CompanyBranding | null,
+	invoice: ZatcaInvoiceTotals
+): ZatcaQrFields {
+	return {
+		sellerName: getCompanyNameArabic(companyInfo),
+		vatNumber: getCompanyVatNumber(companyInfo),
+		timestamp: formatZatcaTimestamp(invoice.created_at ?? invoice.invoice_date),
+		invoiceTotal: Number(invoice.total_amount ?? 0),
+		vatTotal: Number(invoice.tax_amount ?? 0),
+	};
+}
+
+/**
+ * Render the ZATCA payload as a QR code image (data URL) for print templates
+ */
+export async function generateZatcaQrDataUrl(fields: ZatcaQrFields): Promise<string> {
+	return QRCode.toDataURL(encodeZatcaTlv(fields), {
+		errorCorrectionLevel: 'M',
+		margin: 1,
+		width: 300,
+	});
+}
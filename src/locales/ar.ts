@@ -0,0 +1,4296 @@
+import type { MessageKey } from './en';
+
+// Arabic message catalogue
+export const ar: Record<MessageKey, string> = {
+	// Common
+	'common.loading': 'جارٍ التحميل...',
+	'common.save': 'حفظ',
+	'common.cancel': 'إلغاء',
+	'common.close': 'إغلاق',
+	'common.notSet': '—',
+	'common.saveChanges': 'حفظ التغييرات',
+	'common.saving': 'جارٍ الحفظ...',
+	'common.refresh': 'تحديث',
+	'common.search': 'بحث',
+	'common.edit': 'تعديل',
+	'common.delete': 'حذف',
+	'common.view': 'عرض',
+	'common.print': 'طباعة',
+	'common.download': 'تنزيل',
+	'common.actions': 'الإجراءات',
+	'common.status': 'الحالة',
+	'common.allStatus': 'كل الحالات',
+	'common.exportExcel': 'تصدير إلى Excel',
+	'common.none': 'لا يوجد',
+	'common.notAvailable': 'غير متوفر',
+	'common.notAssigned': 'غير معيّن',
+	'common.email': 'البريد الإلكتروني',
+	'common.phone': 'الهاتف',
+	'common.date': 'التاريخ',
+	'common.customer': 'العميل',
+	'common.notes': 'ملاحظات',
+	'common.total': 'الإجمالي',
+	'common.noResults': 'لا توجد نتائج تطابق عوامل التصفية',
+	'common.exported': 'تم تصدير ملف Excel بنجاح',
+	'common.exportFailed': 'تعذر تصدير ملف Excel',
+	'common.unknownError': 'خطأ غير معروف',
+	'common.unknown': 'غير معروف',
+
+	// Record statuses
+	'status.active': 'نشط',
+	'status.inactive': 'غير نشط',
+	'status.pending': 'قيد الانتظار',
+	'status.draft': 'مسودة',
+	'status.sent': 'مرسل',
+	'status.signed': 'موقّع',
+	'status.expired': 'منتهي',
+	'status.cancelled': 'ملغى',
+	'status.suspended': 'موقوف',
+	'status.attached': 'مرفق',
+	'status.approved': 'معتمد',
+	'status.accepted': 'مقبول',
+	'status.rejected': 'مرفوض',
+	'status.paid': 'مدفوعة',
+	'status.partial': 'مدفوعة جزئيًا',
+	'status.unpaid': 'غير مدفوعة',
+	'status.overdue': 'متأخرة',
+	'status.revoked': 'ملغى',
+
+	// Languages and calendars
+	'language.en': 'English',
+	'language.ar': 'العربية',
+	'calendar.gregorian': 'ميلادي',
+	'calendar.hijri': 'هجري (أم القرى)',
+
+	// Sidebar sections
+	'section.dashboard': 'لوحة التحكم والتحليلات',
+	'section.sales': 'المبيعات والعملاء',
+	'section.operations': 'العمليات',
+	'section.hr': 'الموارد البشرية والموظفون',
+	'section.inventory': 'المخزون والتصنيع',
+	'section.assets': 'الأصول والعهد',
+	'section.ecommerce': 'منصات التجارة الإلكترونية',
+	'section.marketing': 'التسويق',
+	'section.finance': 'المالية والمحاسبة',
+	'section.templates': 'القوالب والتواصل',
+	'section.system': 'إعدادات النظام',
+
+	// Pages
+	'page.dashboard': 'لوحة التحكم',
+	'page.myworkspace': 'مساحة عملي',
+	'page.analytics': 'التحليلات ومؤشرات الأداء',
+	'page.calendar': 'التقويم والتذكيرات',
+	'page.customers': 'العملاء',
+	'page.leads': 'العملاء المحتملون',
+	'page.quotations': 'عروض الأسعار',
+	'page.invoices': 'الفواتير',
+	'page.contracts': 'العقود',
+	'page.statements': 'كشوف حسابات العملاء',
+	'page.visits': 'الزيارات',
+	'page.monthlyVisits': 'الزيارات الشهرية',
+	'page.payments': 'المدفوعات',
+	'page.representatives': 'المندوبون',
+	'page.support': 'دعم العملاء',
+	'page.employees': 'الموظفون',
+	'page.attendanceSheet': 'كشف الحضور',
+	'page.payroll': 'الرواتب',
+	'page.leaves': 'إدارة الإجازات',
+	'page.employeeRequests': 'طلبات الموظفين',
+	'page.inventory': 'المخزون',
+	'page.purchases': 'المشتريات',
+	'page.suppliers': 'الموردون',
+	'page.manufacturing': 'التصنيع',
+	'page.returns': 'المرتجعات',
+	'page.assets': 'الأصول الثابتة',
+	'page.custody': 'عهد الموظفين',
+	'page.platformOrders': 'طلبات المنصات',
+	'page.platformCustomers': 'عملاء المنصات',
+	'page.marketing': 'الحملات والتسويق',
+	'page.expenses': 'المصروفات',
+	'page.vat': 'ضريبة القيمة المضافة والزكاة',
+	'page.journalEntries': 'دفتر الأستاذ العام',
+	'page.reports': 'التقارير',
+	'page.templates': 'قوالب الرسائل',
+	'page.historyLog': 'سجل التغييرات',
+	'page.recycleBin': 'سلة المحذوفات',
+	'page.settings': 'الإعدادات والصلاحيات',
+	'page.profile': 'ملفي الشخصي',
+
+	// App shell
+	'shell.loggedInAs': 'تم تسجيل الدخول باسم',
+	'shell.collapse': 'طي',
+	'shell.settings': 'الإعدادات',
+	'shell.logout': 'تسجيل خروج',
+	'shell.accessRestricted': 'الوصول مقيد',
+	'shell.noPermission': 'ليست لديك صلاحية لعرض قسم {page}.',
+	'shell.noPermissionToast': 'ليست لديك صلاحية للوصول إلى هذا القسم.',
+	'shell.accountDeactivated': 'تم تعطيل حسابك وتسجيل خروجك.',
+	'shell.permissionsUpdated': 'تم تحديث صلاحياتك',
+	'shell.sessionExpired': 'انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.',
+
+	// Login
+	'login.title': 'تسجيل الدخول',
+	'login.description': 'أدخل بيانات الدخول للوصول إلى النظام',
+	'login.email': 'البريد الإلكتروني',
+	'login.emailPlaceholder': 'أدخل بريدك الإلكتروني (مثال: user@example.com)',
+	'login.password': 'كلمة المرور',
+	'login.passwordPlaceholder': 'أدخل كلمة المرور',
+	'login.submit': 'تسجيل الدخول',
+	'login.emailRequired': 'يرجى إدخال البريد الإلكتروني',
+	'login.emailInvalid': 'البريد الإلكتروني غير صحيح',
+	'login.invalidCredentials': 'اسم المستخدم أو كلمة المرور غير صحيحة',
+	'login.locked': 'تم قفل الحساب مؤقتاً بسبب محاولات فاشلة متكررة. يرجى المحاولة لاحقاً.',
+	'login.deactivated': 'تم تعطيل حسابك. يرجى الاتصال بالمسؤول للحصول على الدعم.',
+	'login.verificationExpired': 'انتهت مهلة التحقق. يرجى تسجيل الدخول مرة أخرى.',
+	'login.invalidCode': 'رمز التحقق غير صحيح',
+	'login.twoFactorTitle': 'التحقق بخطوتين',
+	'login.twoFactorSetupTitle': 'إعداد التحقق بخطوتين',
+	'login.recoveryCodesTitle': 'رموز الاسترداد',
+	'login.enterRecoveryCode': 'أدخل أحد رموز الاسترداد الخاصة بك',
+	'login.enterAuthenticatorCode': 'أدخل الرمز المكون من 6 أرقام من تطبيق المصادقة',
+	'login.setupDescription':
+		'يتطلب حسابك التحقق بخطوتين. امسح رمز QR بتطبيق مصادقة (Google Authenticator أو Microsoft Authenticator أو Authy) وأدخل الرمز الظاهر فيه.',
+	'login.twoFactorEnabled': 'تم تفعيل التحقق بخطوتين لحسابك',
+	'login.recoveryCode': 'رمز الاسترداد',
+	'login.verify': 'تحقق',
+	'login.useAuthenticator': 'استخدام رمز تطبيق المصادقة',
+	'login.useRecoveryCode': 'استخدام رمز استرداد بدلاً من ذلك',
+	'login.enableAndContinue': 'تفعيل ومتابعة',
+	'login.savedCodes': 'حفظت الرموز — متابعة',
+	'login.backToLogin': 'العودة لتسجيل الدخول',
+	'login.recoveryCodeUsed': 'تم استخدام رمز استرداد. المتبقي {count} — أنشئ رموزاً جديدة من ملفك الشخصي إذا قاربت على النفاد.',
+	'login.copyright': '© {year} نظام إدارة أعمال التعطير. جميع الحقوق محفوظة.',
+
+	// Profile
+	'profile.title': 'ملفي الشخصي',
+	'profile.subtitle': 'إدارة معلوماتك الشخصية وإعدادات حسابك',
+	'profile.edit': 'تعديل الملف',
+	'profile.saveChanges': 'حفظ التغييرات',
+	'profile.saving': 'جارٍ الحفظ...',
+	'profile.active': 'نشط',
+	'profile.inactive': 'غير نشط',
+	'profile.joined': 'انضم في {date}',
+	'profile.lastLogin': 'آخر تسجيل دخول: {date}',
+	'profile.tabPersonal': 'المعلومات الشخصية',
+	'profile.tabEmployment': 'الوظيفة',
+	'profile.tabSecurity': 'الأمان',
+	'profile.tabPreferences': 'التفضيلات',
+	'profile.preferencesTitle': 'اللغة والتنسيقات',
+	'profile.preferencesDescription':
+		'يُطبق على هذا المتصفح. تحوّل العربية الواجهة إلى الاتجاه من اليمين إلى اليسار وتعرض الأسماء العربية للسجلات التي تحتوي عليها.',
+	'profile.language': 'اللغة',
+	'profile.calendar': 'التقويم المستخدم للتواريخ',
+	'profile.preview': 'معاينة',
+	'profile.loadUserFailed': 'تعذر تحميل ملف المستخدم',
+	'profile.loadFailed': 'تعذر تحميل الملف الشخصي',
+	'profile.userIdRequired': 'معرّف المستخدم مطلوب لرفع صورة الملف الشخصي',
+	'profile.pictureUploadFailed': 'تعذر رفع صورة الملف الشخصي',
+	'profile.pictureUrlFailed': 'تعذر الحصول على رابط الصورة',
+	'profile.pictureUploaded': 'تم رفع صورة الملف الشخصي بنجاح',
+	'profile.fullNameRequired': 'الاسم الكامل مطلوب',
+	'profile.emailRequired': 'البريد الإلكتروني مطلوب',
+	'profile.emailInvalid': 'يرجى إدخال بريد إلكتروني صحيح',
+	'profile.missingUserId': 'معرّف المستخدم غير موجود',
+	'profile.updated': 'تم تحديث الملف الشخصي بنجاح',
+	'profile.updateFailed': 'تعذر تحديث الملف الشخصي',
+	'profile.accountReactivated': 'تمت إعادة تفعيل الحساب',
+	'profile.accountDeactivated': 'تم إيقاف الحساب',
+	'profile.statusFailed': 'تعذر تحديث حالة الحساب',
+	'profile.passwordFieldsRequired': 'يرجى تعبئة جميع حقول كلمة المرور',
+	'profile.passwordMismatch': 'كلمتا المرور الجديدتان غير متطابقتين',
+	'profile.passwordTooShort': 'يجب ألا تقل كلمة المرور عن 6 أحرف',
+	'profile.passwordChanged': 'تم تغيير كلمة المرور بنجاح',
+	'profile.passwordChangeFailed': 'تعذر تغيير كلمة المرور',
+	'profile.reload': 'إعادة تحميل الملف الشخصي',
+	'profile.unnamed': 'مستخدم بدون اسم',
+	'profile.roleNotSet': 'لم يُحدد الدور',
+	'profile.personalTitle': 'المعلومات الشخصية',
+	'profile.personalDescription': 'حدّث بياناتك الشخصية ومعلومات الاتصال',
+	'profile.fullName': 'الاسم الكامل',
+	'profile.emailAddress': 'البريد الإلكتروني',
+	'profile.phoneNumber': 'رقم الهاتف',
+	'profile.nationalId': 'رقم الهوية',
+	'profile.location': 'المدينة / الموقع',
+	'profile.emergencyContact': 'جهة اتصال الطوارئ',
+	'profile.emergencyName': 'اسم جهة اتصال الطوارئ',
+	'profile.address': 'العنوان',
+	'profile.employmentTitle': 'تفاصيل التوظيف',
+	'profile.employmentDescription': 'معلوماتك المتعلقة بالعمل',
+	'profile.employeeId': 'رقم الموظف',
+	'profile.position': 'المسمى الوظيفي',
+	'profile.department': 'القسم',
+	'profile.startDate': 'تاريخ المباشرة',
+	'profile.contractType': 'نوع العقد',
+	'profile.baseSalary': 'الراتب الأساسي (ر.س)',
+	'profile.housingAllowance': 'بدل السكن (ر.س)',
+	'profile.transportAllowance': 'بدل النقل (ر.س)',
+	'profile.otherAllowances': 'بدلات أخرى (ر.س)',
+	'profile.bankName': 'اسم البنك',
+	'profile.bankIban': 'آيبان البنك',
+	'profile.note': 'ملاحظة:',
+	'profile.employmentNote': 'تُستمد تفاصيل التوظيف من قاعدة بيانات الموارد البشرية. تواصل مع قسم الموارد البشرية لإجراء تغييرات جوهرية مثل حالة التوظيف أو خطط التعويضات.',
+	'profile.changePassword': 'تغيير كلمة المرور',
+	'profile.changePasswordDescription': 'حدّث كلمة المرور للحفاظ على أمان حسابك',
+	'profile.currentPassword': 'كلمة المرور الحالية',
+	'profile.currentPasswordPlaceholder': 'أدخل كلمة المرور الحالية',
+	'profile.newPassword': 'كلمة المرور الجديدة',
+	'profile.newPasswordPlaceholder': 'أدخل كلمة المرور الجديدة',
+	'profile.confirmPassword': 'تأكيد كلمة المرور الجديدة',
+	'profile.confirmPasswordPlaceholder': 'أكّد كلمة المرور الجديدة',
+	'profile.passwordHint': 'يجب ألا تقل كلمة المرور عن 6 أحرف، ويُفضل أن تجمع بين الحروف والأرقام لأمان أفضل.',
+	'profile.deactivateAccount': 'إيقاف الحساب',
+	'profile.activateAccount': 'تفعيل الحساب',
+	'profile.roleTitle': 'الدور والصلاحيات',
+	'profile.roleDescription': 'صلاحيات الوصول المسندة لهذا الحساب',
+	'profile.role': 'الدور',
+	'profile.permissions': 'الصلاحيات',
+	'profile.noPermissions': 'لا توجد صلاحيات تفصيلية مسندة.',
+	'profile.activityTitle': 'نشاط الحساب',
+	'profile.activityDescription': 'سجل تسجيلات الدخول الأخيرة',
+	'profile.noActivity': 'لا يوجد نشاط حديث.',
+
+	// Customers
+	'customers.title': 'العملاء',
+	'customers.subtitle': 'إدارة حسابات العملاء وعقودهم',
+	'customers.add': 'إضافة عميل',
+	'customers.addTitle': 'إضافة عميل جديد',
+	'customers.addDescription': 'أدخل بيانات العميل لإنشاء حساب جديد',
+	'customers.editTitle': 'تعديل العميل',
+	'customers.editDescription': 'تحديث بيانات العميل',
+	'customers.detailsTitle': 'تفاصيل العميل',
+	'customers.name': 'اسم العميل',
+	'customers.company': 'الشركة',
+	'customers.companyPlaceholder': 'اسم الشركة',
+	'customers.mobile': 'رقم الجوال',
+	'customers.mobileShort': 'الجوال',
+	'customers.location': 'الموقع',
+	'customers.locationPlaceholder': 'المدينة، الحي',
+	'customers.commercialRegister': 'السجل التجاري',
+	'customers.vatNumber': 'الرقم الضريبي',
+	'customers.contractType': 'نوع العقد',
+	'customers.selectType': 'اختر النوع',
+	'customers.contractMonthly': 'خدمة شهرية',
+	'customers.contractQuarterly': 'خدمة ربع سنوية',
+	'customers.contractYearly': 'خدمة سنوية',
+	'customers.monthlyAmount': 'المبلغ الشهري',
+	'customers.monthlyAmountSar': 'المبلغ الشهري (ر.س)',
+	'customers.representative': 'المندوب المسؤول',
+	'customers.representativeColumn': 'المندوب',
+	'customers.selectRepresentative': 'اختر المندوب',
+	'customers.noRepresentatives': 'لا يوجد مندوبون. أضف المندوبين أولاً.',
+	'customers.startDate': 'تاريخ البدء',
+	'customers.search': 'البحث في العملاء...',
+	'customers.loading': 'جارٍ تحميل العملاء...',
+	'customers.contact': 'التواصل',
+	'customers.quickActions': 'إجراءات سريعة',
+	'customers.empty': 'لا يوجد عملاء',
+	'customers.sendMessage': 'إرسال رسالة',
+	'customers.loadingTemplates': 'جارٍ تحميل القوالب...',
+	'customers.noTemplates': 'لا توجد قوالب',
+	'customers.viewContract': 'عرض العقد',
+	'customers.statement': 'كشف الحساب',
+	'customers.contractTitle': 'تفاصيل العقد',
+	'customers.contractDescription': 'عرض معلومات العقد لـ {company}',
+	'customers.contractInformation': 'معلومات العقد',
+	'customers.contractNumber': 'رقم العقد',
+	'customers.contractDate': 'تاريخ العقد',
+	'customers.paymentPlan': 'خطة الدفع',
+	'customers.clientInformation': 'معلومات العميل',
+	'customers.clientName': 'اسم العميل',
+	'customers.city': 'المدينة',
+	'customers.serviceDetails': 'تفاصيل الخدمة',
+	'customers.serviceAddress': 'عنوان الخدمة',
+	'customers.postalCode': 'الرمز البريدي',
+	'customers.emergencyVisitFee': 'رسوم الزيارة الطارئة',
+	'customers.devicesCount': 'عدد الأجهزة',
+	'customers.deviceTypes': 'أنواع الأجهزة',
+	'customers.importantDates': 'تواريخ مهمة',
+	'customers.sentDate': 'تاريخ الإرسال',
+	'customers.signedDate': 'تاريخ التوقيع',
+	'customers.attachedDate': 'تاريخ الإرفاق',
+	'customers.printContract': 'طباعة العقد',
+	'customers.notFound': 'العميل غير موجود',
+	'customers.openingWhatsApp': 'جارٍ فتح واتساب لـ {name}',
+	'customers.openingEmail': 'جارٍ فتح البريد الإلكتروني لـ {name}',
+	'customers.invalidPhone': 'رقم جوال العميل غير صالح',
+	'customers.preparingSms': 'جارٍ تجهيز رسالة نصية لـ {name}',
+	'customers.sendingTemplate': 'جارٍ إرسال "{template}" إلى {name}',
+	'customers.statusUpdated': 'تم تحديث حالة العميل إلى {status}',
+	'customers.statusUpdateFailed': 'تعذر تحديث الحالة',
+	'customers.noContract': 'لا يوجد عقد لـ {name}',
+	'customers.noContractDescription': 'لا يملك هذا العميل أي عقد بعد. يرجى إنشاء عقد أولاً.',
+	'customers.added': 'تمت إضافة العميل بنجاح!',
+	'customers.addFailed': 'تعذرت إضافة العميل',
+	'customers.updated': 'تم تحديث العميل بنجاح!',
+	'customers.updateFailed': 'تعذر تحديث العميل',
+	'customers.deleteConfirm': 'حذف هذا العميل؟ سيُنقل إلى سلة المحذوفات ويمكن استعادته منها.',
+	'customers.deleted': 'تم نقل العميل إلى سلة المحذوفات',
+	'customers.deleteFailed': 'تعذر حذف العميل',
+
+	// Payroll
+	'payroll.title': 'إدارة الرواتب',
+	'payroll.subtitle': 'إدارة مسيرات الرواتب الشهرية ورواتب الموظفين',
+	'payroll.add': 'إضافة مسير رواتب',
+	'payroll.adding': 'جارٍ الإضافة...',
+	'payroll.addTitle': 'إضافة مسير رواتب جديد',
+	'payroll.addDescription': 'احسب رواتب جميع الموظفين النشطين واحفظ المسير كمسودة',
+	'payroll.monthRequired': 'الشهر *',
+	'payroll.selectMonth': 'اختر الشهر',
+	'payroll.yearRequired': 'السنة *',
+	'payroll.selectYear': 'اختر السنة',
+	'payroll.dateRequired': 'التاريخ *',
+	'payroll.notesPlaceholder': 'ملاحظات إضافية حول هذا المسير...',
+	'payroll.breakdownRequired': 'تفاصيل الموظفين *',
+	'payroll.breakdown': 'تفاصيل الموظفين',
+	'payroll.calculate': 'احتساب الرواتب',
+	'payroll.recalculate': 'إعادة الاحتساب',
+	'payroll.calculationHint': 'تُحتسب الرواتب من سجلات الموظفين والإجازات غير المدفوعة المعتمدة وغياب الحضور وأقساط القروض والسلف والعمل الإضافي المعتمد للشهر المحدد',
+	'payroll.employee': 'الموظف',
+	'payroll.basic': 'الأساسي',
+	'payroll.allowances': 'البدلات',
+	'payroll.overtime': 'العمل الإضافي',
+	'payroll.gosi': 'التأمينات',
+	'payroll.leaveAbsence': 'إجازة / غياب',
+	'payroll.loans': 'القروض',
+	'payroll.net': 'الصافي',
+	'payroll.days': '{count} يوم',
+	'payroll.totalEmployees': 'الإجمالي ({count})',
+	'payroll.gross': '{amount} إجمالي',
+	'payroll.deducted': '{amount} مخصوم',
+	'payroll.totalRecords': 'إجمالي السجلات',
+	'payroll.records': 'سجلات الرواتب',
+	'payroll.currentMonth': 'الشهر الحالي',
+	'payroll.latest': 'آخر مسير',
+	'payroll.notYetPaid': 'لم تُدفع بعد',
+	'payroll.ytdTotal': 'إجمالي السنة حتى الآن',
+	'payroll.yearToDate': 'منذ بداية السنة',
+	'payroll.recordsTitle': 'سجلات الرواتب',
+	'payroll.search': 'البحث في المسيرات...',
+	'payroll.number': 'رقم المسير',
+	'payroll.period': 'الفترة',
+	'payroll.totalAmount': 'المبلغ الإجمالي',
+	'payroll.details': 'التفاصيل',
+	'payroll.loading': 'جارٍ تحميل سجلات الرواتب...',
+	'payroll.employeeCount': '{count} موظف',
+	'payroll.noFile': 'لا يوجد ملف',
+	'payroll.approve': 'اعتماد',
+	'payroll.markPaid': 'تعليم كمدفوع',
+	'payroll.wpsFile': 'ملف حماية الأجور',
+	'payroll.emptySearch': 'لا توجد سجلات رواتب مطابقة للبحث.',
+	'payroll.empty': 'لا توجد سجلات رواتب',
+	'payroll.wpsTitle': 'ملف رواتب حماية الأجور',
+	'payroll.establishmentNumber': 'رقم المنشأة *',
+	'payroll.establishmentPlaceholder': 'مثال: 1-1234567',
+	'payroll.paymentDate': 'تاريخ الدفع *',
+	'payroll.companyIban': 'آيبان رواتب الشركة *',
+	'payroll.wpsIssues': 'عالج {count} مشكلة قبل إنشاء الملف',
+	'payroll.problems': 'المشكلات',
+	'payroll.wpsBankHint': 'تُقرأ البيانات البنكية للموظفين من صفحة الموظفين، لذا تظهر التصحيحات هناك هنا تلقائيًا.',
+	'payroll.wpsReady': '{count} موظف جاهز، بإجمالي {amount}',
+	'payroll.downloadSif': 'تنزيل ملف SIF',
+	'payroll.detailsTitle': 'تفاصيل مسير الرواتب',
+	'payroll.payrollNumber': 'رقم المسير',
+	'payroll.totalPayrollAmount': 'إجمالي مبلغ الرواتب',
+	'payroll.attachedFile': 'الملف المرفق',
+	'payroll.createdDate': 'تاريخ الإنشاء',
+	'payroll.createdBy': 'أنشأه',
+	'payroll.paidDate': 'تاريخ الدفع',
+	'payroll.howTo': 'طريقة استخدام إدارة الرواتب',
+	'payroll.howToStep1': 'حدّث رواتب الموظفين وبدلاتهم وبياناتهم البنكية في صفحة الموظفين',
+	'payroll.howToStep2': 'اعتمد طلبات الإجازات غير المدفوعة والحضور والقروض والعمل الإضافي للشهر',
+	'payroll.howToStep3': 'أنشئ مسير رواتب جديدًا واحسب تفاصيل الموظفين',
+	'payroll.howToStep4': 'راجع خصومات كل موظف وصافي راتبه، وأعد احتساب المسودات عند أي تغيير',
+	'payroll.howToStep5': 'اعتمد المسير عند جاهزيته، ثم علّمه كمدفوع بعد الصرف',
+	'payroll.wpsDetailsSaveFailed': 'تعذر حفظ بيانات الشركة لحماية الأجور',
+	'payroll.wpsCreated': 'تم إنشاء ملف حماية الأجور لـ {count} موظف',
+	'payroll.selectPeriod': 'يرجى اختيار شهر وسنة المسير',
+	'payroll.noEmployees': 'لا يوجد موظفون نشطون لإدراجهم في هذا المسير',
+	'payroll.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'payroll.calculateFirst': 'يرجى احتساب الرواتب أولاً.',
+	'payroll.invalidYear': 'السنة المختارة غير صالحة.',
+	'payroll.created': 'تم إنشاء المسير {number} بنجاح!',
+	'payroll.createFailed': 'تعذر إنشاء سجل الرواتب.',
+	'payroll.recalculated': 'تمت إعادة احتساب المسير',
+	'payroll.recalculateFailed': 'تعذرت إعادة احتساب المسير.',
+	'payroll.approved': 'تم اعتماد المسير بنجاح!',
+	'payroll.approveFailed': 'تعذر اعتماد المسير.',
+	'payroll.markedPaid': 'تم تعليم المسير كمدفوع!',
+	'payroll.markPaidFailed': 'تعذر تعليم المسير كمدفوع.',
+
+	// Reports
+	'reports.title': 'التقارير والتحليلات',
+	'reports.subtitle': 'أنشئ واستعرض تقارير شاملة عن أعمالك',
+	'reports.loading': 'جارٍ تحميل أحدث بيانات التقارير...',
+	'reports.filters': 'عوامل تصفية التقرير',
+	'reports.fromDate': 'من تاريخ',
+	'reports.toDate': 'إلى تاريخ',
+	'reports.type': 'نوع التقرير',
+	'reports.typeAll': 'جميع التقارير',
+	'reports.typeSales': 'المبيعات فقط',
+	'reports.typeExpenses': 'المصروفات فقط',
+	'reports.typeInventory': 'المخزون فقط',
+	'reports.applyFilter': 'تطبيق التصفية',
+	'reports.totalRevenue': 'إجمالي الإيرادات',
+	'reports.yearToDate': 'منذ بداية السنة',
+	'reports.totalExpenses': 'إجمالي المصروفات',
+	'reports.allCategories': 'جميع الفئات',
+	'reports.netProfit': 'صافي الربح',
+	'reports.margin': 'هامش {percent}',
+	'reports.activeCustomers': 'العملاء النشطون',
+	'reports.topPerformers': 'الأعلى أداءً',
+	'reports.salesTab': 'تقرير المبيعات',
+	'reports.expensesTab': 'تقرير المصروفات',
+	'reports.customersTab': 'تقرير العملاء',
+	'reports.inventoryTab': 'تقرير المخزون',
+	'reports.profitLossTab': 'الأرباح والخسائر',
+	'reports.agingTab': 'أعمار الذمم المدينة',
+	'reports.salesTitle': 'تقرير المبيعات الشهري',
+	'reports.salesDescription': 'أداء المبيعات حسب الشهر',
+	'reports.month': 'الشهر',
+	'reports.revenue': 'الإيرادات',
+	'reports.invoices': 'الفواتير',
+	'reports.customers': 'العملاء',
+	'reports.avgPerInvoice': 'متوسط الفاتورة',
+	'reports.expensesTitle': 'تفصيل المصروفات',
+	'reports.expensesDescription': 'المصروفات حسب الفئة',
+	'reports.category': 'الفئة',
+	'reports.amount': 'المبلغ',
+	'reports.percentage': 'النسبة',
+	'reports.distribution': 'التوزيع',
+	'reports.customersTitle': 'تقرير أفضل العملاء',
+	'reports.customersDescription': 'العملاء الأعلى أداءً',
+	'reports.customerName': 'اسم العميل',
+	'reports.outstanding': 'المستحق',
+	'reports.inventoryTitle': 'تقرير حالة المخزون',
+	'reports.inventoryDescription': 'مستويات المخزون الحالية وقيمها',
+	'reports.itemName': 'اسم الصنف',
+	'reports.currentStock': 'المخزون الحالي',
+	'reports.reorderPoint': 'حد إعادة الطلب',
+	'reports.stockValue': 'قيمة المخزون',
+	'reports.stockOut': 'نفد من المخزون',
+	'reports.stockLow': 'منخفض',
+	'reports.stockGood': 'جيد',
+	'reports.totalValue': 'القيمة الإجمالية',
+	'reports.profitLossTitle': 'قائمة الأرباح والخسائر',
+	'reports.profitLossDescription': 'نظرة مالية شاملة',
+	'reports.salesRevenue': 'إيرادات المبيعات',
+	'reports.serviceRevenue': 'إيرادات الخدمات',
+	'reports.expenses': 'المصروفات',
+	'reports.profitMargin': 'هامش الربح',
+	'reports.quickExport': 'خيارات التصدير السريع',
+	'reports.quickExportDescription': 'أنشئ التقارير ونزّلها بسرعة',
+	'reports.completeFinancial': 'التقرير المالي الكامل',
+	'reports.monthlySummary': 'الملخص الشهري',
+	'reports.annual': 'التقرير السنوي',
+	'reports.tax': 'التقرير الضريبي',
+	'reports.customerAnalysis': 'تحليل العملاء',
+	'reports.inventoryValuation': 'تقييم المخزون',
+	'reports.invalidRange': 'نطاق التاريخ المحدد غير صالح',
+	'reports.loadFailed': 'تعذر تحميل بيانات التقارير. يرجى المحاولة بعد قليل.',
+	'reports.invalidDates': 'يرجى اختيار تواريخ صحيحة',
+	'reports.fromAfterTo': 'لا يمكن أن يكون تاريخ البداية بعد تاريخ النهاية',
+	'reports.filtersApplied': 'تم تطبيق عوامل التصفية بنجاح!',
+	'reports.exported': 'تم تصدير {name} بنجاح!',
+	'reports.exportFailed': 'تعذر تصدير التقرير',
+	'reports.preparing': 'جارٍ تجهيز التقرير للتنزيل...',
+
+	// Contracts
+	'contracts.title': 'العقود',
+	'contracts.subtitle': 'إدارة اتفاقيات الخدمة',
+	'contracts.new': 'عقد جديد',
+	'contracts.allStatuses': 'جميع الحالات',
+	'contracts.sortOrder': 'ترتيب العرض',
+	'contracts.newestFirst': 'الأحدث أولاً',
+	'contracts.oldestFirst': 'الأقدم أولاً',
+	'contracts.search': 'بحث',
+	'contracts.searchPlaceholder': 'ابحث برقم العقد أو اسم العميل...',
+	'contracts.all': 'جميع العقود',
+	'contracts.number': 'رقم العقد',
+	'contracts.client': 'العميل',
+	'contracts.contact': 'التواصل',
+	'contracts.contractDate': 'تاريخ العقد',
+	'contracts.visitStart': 'بداية الزيارات',
+	'contracts.paymentPlan': 'خطة الدفع',
+	'contracts.amount': 'المبلغ',
+	'contracts.suspendCancelDate': 'تاريخ الإيقاف/الإلغاء',
+	'contracts.quickSend': 'إرسال سريع',
+	'contracts.empty': 'لا توجد عقود',
+	'contracts.planMonthly': 'شهري',
+	'contracts.planSemiAnnual': 'نصف سنوي (6+1)',
+	'contracts.planAnnual': 'سنوي (12+2)',
+	'contracts.suspendedOn': 'إيقاف: {date}',
+	'contracts.cancelledOn': 'إلغاء: {date}',
+	'contracts.sendWhatsApp': 'إرسال عبر واتساب',
+	'contracts.sendEmail': 'إرسال عبر البريد الإلكتروني',
+	'contracts.actions': 'إجراءات العقد',
+	'contracts.viewDetails': 'عرض التفاصيل',
+	'contracts.edit': 'تعديل العقد',
+	'contracts.viewNotes': 'عرض الملاحظات',
+	'contracts.viewHistory': 'عرض سجل التغييرات',
+	'contracts.markSigned': 'تعليم كموقّع',
+	'contracts.sendForSignature': 'إرسال للتوقيع الإلكتروني',
+	'contracts.attachSigned': 'إرفاق الملف الموقّع',
+	'contracts.print': 'طباعة العقد',
+	'contracts.downloadPdf': 'تنزيل PDF',
+	'contracts.printAttached': 'طباعة الملف المرفق',
+	'contracts.suspend': 'إيقاف العقد',
+	'contracts.cancel': 'إلغاء العقد',
+	'contracts.reactivate': 'إعادة تفعيل العقد',
+	'contracts.delete': 'حذف العقد',
+	'contracts.addTitle': 'اتفاقية خدمة جديدة',
+	'contracts.addDescription': 'إنشاء عقد خدمة تعطير جديد',
+	'contracts.endDate': 'تاريخ انتهاء العقد',
+	'contracts.visitStartDate': 'تاريخ بدء الزيارات الشهرية',
+	'contracts.clientInformation': 'بيانات العميل',
+	'contracts.customerSelectorLabel': 'اختر العميل (أو أدخل البيانات يدويًا)',
+	'contracts.customerSelectorPlaceholder': 'ابحث عن العميل بالاسم أو الشركة أو الجوال...',
+	'contracts.clientName': 'اسم العميل',
+	'contracts.crNumber': 'رقم السجل التجاري',
+	'contracts.city': 'المدينة',
+	'contracts.cityPlaceholder': 'الرياض',
+	'contracts.postalCode': 'الرمز البريدي',
+	'contracts.representative': 'الممثل',
+	'contracts.representativePlaceholder': 'أحمد السالم',
+	'contracts.representativeAvailable': 'الممثل متوفر',
+	'contracts.designation': 'المسمى الوظيفي',
+	'contracts.designationPlaceholder': 'المدير العام',
+	'contracts.phoneNumber': 'رقم الهاتف',
+	'contracts.serviceAddress': 'عنوان الخدمة',
+	'contracts.serviceAddressPlaceholder': 'عنوان الخدمة الكامل',
+	'contracts.pricing': 'التسعير حسب خطة الدفع المختارة',
+	'contracts.note': 'ملاحظة:',
+	'contracts.pricingNote': 'يُفعَّل حقل السعر لخطة الدفع المختارة فقط. أدخل مبلغ الخطة المحددة أعلاه.',
+	'contracts.autoVisits': 'تفعيل الزيارات الشهرية التلقائية قبل 7 أيام',
+	'contracts.autoVisitsEdit': 'تفعيل الإنشاء التلقائي للزيارات الشهرية (تُجدول زيارة الشهر التالي تلقائيًا)',
+	'contracts.monthlyAmount': 'المبلغ الشهري (ر.س)',
+	'contracts.semiAnnualAmount': 'نصف سنوي (6+1) (ر.س)',
+	'contracts.annualAmount': 'سنوي (12+2) (ر.س)',
+	'contracts.devices': 'الأجهزة',
+	'contracts.notes': 'ملاحظات العقد',
+	'contracts.notesPlaceholder': 'أضف أي ملاحظات حول هذا العقد...',
+	'contracts.create': 'إنشاء العقد',
+	'contracts.detailsTitle': 'تفاصيل العقد',
+	'contracts.detailsDescription': 'عرض بيانات العقد وطباعته',
+	'contracts.detailsTab': 'التفاصيل',
+	'contracts.historyTab': 'السجل',
+	'contracts.numberLabel': 'رقم العقد:',
+	'contracts.clientLabel': 'العميل:',
+	'contracts.dateLabel': 'التاريخ:',
+	'contracts.paymentPlanLabel': 'خطة الدفع:',
+	'contracts.devicesLabel': 'الأجهزة:',
+	'contracts.deviceType': 'نوع الجهاز',
+	'contracts.deviceQuantity': 'الكمية',
+	'contracts.removeDevice': 'إزالة الجهاز',
+	'contracts.addDevice': 'إضافة جهاز',
+	'contracts.totalDevices': 'إجمالي الأجهزة: {count}',
+	'contracts.statusLabel': 'الحالة:',
+	'contracts.suspendDescription': 'يرجى ذكر سبب إيقاف هذا العقد',
+	'contracts.suspensionReason': 'سبب الإيقاف',
+	'contracts.suspensionReasonPlaceholder': 'أدخل سبب الإيقاف...',
+	'contracts.cancelDescription': 'يرجى ذكر سبب إلغاء هذا العقد. لا يمكن التراجع عن هذا الإجراء.',
+	'contracts.cancellationReason': 'سبب الإلغاء',
+	'contracts.cancellationReasonPlaceholder': 'أدخل سبب الإلغاء...',
+	'contracts.editDescription': 'تحديث بيانات العقد',
+	'contracts.serviceDetails': 'تفاصيل الخدمة',
+	'contracts.emergencyVisitFee': 'رسوم الزيارة الطارئة (ر.س)',
+	'contracts.notesTitle': 'ملاحظات العقد وتفاصيله',
+	'contracts.numberAndClient': 'العقد رقم {number} - {client}',
+	'contracts.generalNotes': 'ملاحظات عامة',
+	'contracts.noNotes': 'لا توجد ملاحظات',
+	'contracts.suspensionDetails': 'تفاصيل الإيقاف',
+	'contracts.suspendedDate': 'تاريخ الإيقاف:',
+	'contracts.reason': 'السبب:',
+	'contracts.noReason': 'لم يُذكر سبب',
+	'contracts.cancellationDetails': 'تفاصيل الإلغاء',
+	'contracts.cancelledDate': 'تاريخ الإلغاء:',
+	'contracts.reactivationInfo': 'بيانات إعادة التفعيل',
+	'contracts.reactivatedDate': 'تاريخ إعادة التفعيل:',
+	'contracts.historyTitle': 'سجل تغييرات العقد',
+	'contracts.historyCreated': 'إنشاء',
+	'contracts.historyEdited': 'تعديل',
+	'contracts.historySent': 'إرسال',
+	'contracts.historySigned': 'توقيع',
+	'contracts.historyAttached': 'إرفاق',
+	'contracts.historySuspended': 'إيقاف',
+	'contracts.historyCancelled': 'إلغاء',
+	'contracts.historyReactivated': 'إعادة تفعيل',
+	'contracts.noHistory': 'لا يوجد سجل',
+	'contracts.noHistoryDescription': 'لا توجد سجلات تغييرات لهذا العقد بعد.',
+	'contracts.signConfirmTitle': 'تأكيد التعليم كموقّع',
+	'contracts.signConfirmDescription': 'هل تريد تعليم هذا العقد كموقّع؟ ستتغير حالته من مسودة إلى موقّع.',
+	'contracts.contractNumber': 'العقد: {number}',
+	'contracts.clientNameValue': 'العميل: {name}',
+	'contracts.signConfirm': 'تأكيد وتعليم كموقّع',
+	'contracts.attachConfirmTitle': 'تأكيد إرفاق الملف الموقّع',
+	'contracts.attachConfirmDescription': 'سيؤدي إرفاق الملف الموقّع إلى تغيير حالة العقد من موقّع إلى نشط وإنشاء جداول الزيارات الشهرية تلقائيًا.',
+	'contracts.attachVisitsFrom': 'بعد الإرفاق يصبح العقد نشطًا وتُجدول الزيارات الشهرية ابتداءً من {date}.',
+	'contracts.attachVisitsFromActivation': 'بعد الإرفاق يصبح العقد نشطًا وتُجدول الزيارات الشهرية ابتداءً من تاريخ التفعيل.',
+	'contracts.continueUpload': 'متابعة الرفع',
+	'contracts.notFound': 'العقد غير موجود',
+	'contracts.notFoundInDatabase': 'العقد غير موجود في قاعدة البيانات',
+	'contracts.clientRequired': 'يرجى اختيار عميل أو إدخال اسم العميل',
+	'contracts.selectCustomer': 'يرجى اختيار عميل من القائمة',
+	'contracts.endBeforeStart': 'يجب أن يكون تاريخ انتهاء العقد بعد تاريخ العقد',
+	'contracts.quotationNotConverted': 'تم حفظ العقد، لكن لم يُعلَّم عرض السعر {number} كمحوَّل',
+	'contracts.created': 'تم إنشاء العقد {number} بنجاح!',
+	'contracts.createFailed': 'تعذر إنشاء العقد: {message}',
+	'contracts.quotationLoaded': 'تم تحميل عرض السعر {number}. أكمل تفاصيل العقد أدناه.',
+	'contracts.markedSent': 'تم تعليم العقد كمرسل!',
+	'contracts.updateFailed': 'تعذر تحديث العقد: {message}',
+	'contracts.onlyDraftSign': 'يمكن تعليم العقود المسودة فقط كموقّعة',
+	'contracts.markedSigned': 'تم تعليم العقد كموقّع!',
+	'contracts.onlySignedAttach': 'يمكن إرفاق الملفات بالعقود الموقّعة فقط',
+	'contracts.fileType': 'يرجى رفع ملف PDF أو JPG أو PNG',
+	'contracts.fileSize': 'يجب أن يكون حجم الملف أقل من 10 ميجابايت',
+	'contracts.attachedVisitScheduled': 'تم إرفاق العقد وتفعيله! الملف: {file}. جُدولت أول زيارة شهرية في {date}.',
+	'contracts.attachedVisitExists': 'تم إرفاق العقد وتفعيله! الملف: {file}. توجد زيارة مجدولة لهذا العقد مسبقًا.',
+	'contracts.attachedNoVisits': 'تم إرفاق العقد وتفعيله! الملف: {file}. الزيارات الشهرية التلقائية معطلة لهذا العقد.',
+	'contracts.uploadFailed': 'تعذر رفع ملف العقد: {message}',
+	'contracts.suspensionReasonRequired': 'يرجى ذكر سبب الإيقاف',
+	'contracts.suspended': 'تم إيقاف العقد بنجاح!',
+	'contracts.suspendFailed': 'تعذر إيقاف العقد: {message}',
+	'contracts.cancellationReasonRequired': 'يرجى ذكر سبب الإلغاء',
+	'contracts.cancelled': 'تم إلغاء العقد بنجاح!',
+	'contracts.cancelFailed': 'تعذر إلغاء العقد: {message}',
+	'contracts.reactivated': 'تمت إعادة تفعيل العقد بنجاح!',
+	'contracts.reactivateFailed': 'تعذرت إعادة تفعيل العقد: {message}',
+	'contracts.deleteMissingId': 'تعذر حذف العقد: معرّف العقد غير موجود.',
+	'contracts.deleteConfirm': 'حذف هذا العقد؟ سيُنقل إلى سلة المحذوفات ويمكن استعادته من هناك.',
+	'contracts.deleted': 'تم نقل العقد إلى سلة المحذوفات',
+	'contracts.deleteFailed': 'تعذر حذف العقد: {message}',
+	'contracts.updated': 'تم تحديث العقد بنجاح!',
+	'contracts.pdfGenerating': 'جارٍ إنشاء ملف PDF...',
+	'contracts.pdfReady': 'ملف PDF جاهز',
+	'contracts.pdfFailed': 'تعذر إنشاء ملف PDF',
+	'contracts.noAttachedFile': 'لا يوجد ملف عقد مرفق',
+
+	// Quotations
+	'quotations.title': 'عروض الأسعار',
+	'quotations.subtitle': 'إنشاء عروض الأسعار وإدارتها',
+	'quotations.export': 'تصدير',
+	'quotations.exportExcel': 'تصدير Excel',
+	'quotations.exportPdf': 'تصدير PDF',
+	'quotations.winRate': 'نسبة الفوز',
+	'quotations.new': 'عرض سعر جديد',
+	'quotations.reviseTitle': 'مراجعة {number} (الإصدار {version})',
+	'quotations.createTitle': 'إنشاء عرض سعر جديد',
+	'quotations.reviseDescription': 'يُحفظ الإصدار {version} في سجل الإصدارات. عرض السعر المعدّل مسودة صالحة من اليوم.',
+	'quotations.createDescription': 'أدخل بيانات العميل وأضف الأصناف',
+	'quotations.whatChanged': 'ما الذي تغيّر؟',
+	'quotations.whatChangedPlaceholder': 'مثال: طلب العميل 10 أجهزة بدلاً من 8',
+	'quotations.customerInformation': 'بيانات العميل',
+	'quotations.selectCustomer': 'اختر العميل',
+	'quotations.customerName': 'اسم العميل',
+	'quotations.mobileNumber': 'رقم الجوال',
+	'quotations.location': 'الموقع',
+	'quotations.locationPlaceholder': 'الرياض، حي الملز',
+	'quotations.validFor': 'مدة الصلاحية (أيام)',
+	'quotations.days': '{count} يوم',
+	'quotations.commercialRegister': 'السجل التجاري',
+	'quotations.vatNumber': 'الرقم الضريبي',
+	'quotations.delegate': 'المندوب',
+	'quotations.noDelegate': 'بدون مندوب',
+	'quotations.branding': 'الهوية والتخصيص',
+	'quotations.brandingHint': 'يظهر أدناه الشعار والختم الافتراضيان من الإعدادات. ارفع ملفات مخصصة لاستبدالهما في عرض السعر هذا فقط.',
+	'quotations.companyLogo': 'شعار الشركة',
+	'quotations.systemDefault': 'افتراضي النظام',
+	'quotations.custom': 'مخصص',
+	'quotations.removed': 'محذوف',
+	'quotations.overrideLogo': 'استبدال الشعار',
+	'quotations.changeLogo': 'تغيير الشعار',
+	'quotations.usingSystemDefault': 'يُستخدم الافتراضي',
+	'quotations.resetToDefault': 'العودة إلى الافتراضي',
+	'quotations.usingDefaultLogo': 'يُستخدم شعار النظام الافتراضي',
+	'quotations.stampOptional': 'الختم (اختياري)',
+	'quotations.uploadStamp': 'رفع الختم',
+	'quotations.overrideStamp': 'استبدال الختم',
+	'quotations.changeStamp': 'تغيير الختم',
+	'quotations.useDefault': 'استخدام الافتراضي',
+	'quotations.removeStamp': 'إزالة الختم',
+	'quotations.usingDefaultStamp': 'يُستخدم ختم النظام الافتراضي',
+	'quotations.items': 'أصناف عرض السعر',
+	'quotations.itemNumber': 'الصنف رقم {number}',
+	'quotations.manual': 'يدوي',
+	'quotations.fromInventory': 'من المخزون',
+	'quotations.selectProduct': 'اختر المنتج...',
+	'quotations.noInventory': 'لا توجد أصناف في المخزون بعد',
+	'quotations.removeItem': 'إزالة الصنف',
+	'quotations.image': 'الصورة',
+	'quotations.upload': 'رفع',
+	'quotations.descriptionRequired': 'الوصف *',
+	'quotations.descriptionPlaceholder': 'وصف المنتج أو الخدمة',
+	'quotations.quantityRequired': 'الكمية *',
+	'quotations.unitPriceRequired': 'سعر الوحدة (ر.س) *',
+	'quotations.discountType': 'نوع الخصم',
+	'quotations.percentage': 'نسبة مئوية (%)',
+	'quotations.fixed': 'مبلغ ثابت (ر.س)',
+	'quotations.discountPercent': 'الخصم (%)',
+	'quotations.discountFixed': 'الخصم (ر.س)',
+	'quotations.discount': 'الخصم',
+	'quotations.itemDiscount': 'خصم الصنف',
+	'quotations.subtotal': 'المجموع الفرعي',
+	'quotations.itemTotal': 'إجمالي الصنف',
+	'quotations.totalInclVat': 'الإجمالي (شامل الضريبة)',
+	'quotations.addManualItem': 'إضافة صنف يدوي',
+	'quotations.addFromInventory': 'إضافة من المخزون',
+	'quotations.notesPlaceholder': 'ملاحظات إضافية...',
+	'quotations.terms': 'الشروط والأحكام',
+	'quotations.termsPlaceholder': 'أدخل الشروط والأحكام...',
+	'quotations.discountConfiguration': 'إعدادات الخصم',
+	'quotations.discountMode': 'طريقة الخصم',
+	'quotations.individualDiscounts': 'خصم لكل صنف',
+	'quotations.globalDiscount': 'تطبيق الخصم على جميع الأصناف',
+	'quotations.vat': 'ضريبة القيمة المضافة (15%)',
+	'quotations.enabled': 'مفعّلة',
+	'quotations.disabled': 'معطّلة',
+	'quotations.fixedAmount': 'مبلغ ثابت (ر.س)',
+	'quotations.discountAmountPercent': 'قيمة الخصم (%)',
+	'quotations.discountAmountFixed': 'قيمة الخصم (ر.س)',
+	'quotations.applyingPercent': 'تطبيق خصم {percent}% على المجاميع الفرعية لجميع الأصناف',
+	'quotations.distributingFixed': 'توزيع خصم {amount} بالتناسب على جميع الأصناف',
+	'quotations.globalModeNote': 'حقول خصم الأصناف معطلة في هذه الطريقة. يُحتسب الخصم تلقائيًا ويُطبق على جميع الأصناف.',
+	'quotations.individualMode': 'خصم لكل صنف:',
+	'quotations.individualModeNote': 'يمكنك تحديد خصم لكل صنف على حدة، بنسبة مئوية أو بمبلغ ثابت.',
+	'quotations.summaryTitle': 'ملخص عرض السعر',
+	'quotations.subtotalAll': 'المجموع الفرعي (جميع الأصناف):',
+	'quotations.totalDiscount': 'إجمالي الخصم:',
+	'quotations.itemTotalsAfterDiscount': 'إجمالي الأصناف (بعد الخصم):',
+	'quotations.vatLabel': 'ضريبة القيمة المضافة (15%):',
+	'quotations.grandTotal': 'الإجمالي الكلي:',
+	'quotations.saveRevision': 'حفظ المراجعة',
+	'quotations.create': 'إنشاء عرض السعر',
+	'quotations.total': 'إجمالي عروض الأسعار',
+	'quotations.allTime': 'كل الفترات',
+	'quotations.awaitingCustomer': 'بانتظار العميل · {count} مسودة',
+	'quotations.rejectedOrExpired': '{count} مرفوض أو منتهٍ',
+	'quotations.totalValue': 'القيمة الإجمالية',
+	'quotations.allQuotations': 'جميع عروض الأسعار',
+	'quotations.all': 'جميع عروض الأسعار',
+	'quotations.search': 'البحث في عروض الأسعار...',
+	'quotations.loading': 'جارٍ تحميل عروض الأسعار...',
+	'quotations.empty': 'لا توجد عروض أسعار',
+	'quotations.number': 'رقم العرض',
+	'quotations.validUntil': 'صالح حتى',
+	'quotations.amount': 'المبلغ',
+	'quotations.convert': 'تحويل',
+	'quotations.signed': 'موقّع',
+	'quotations.awaitingSignature': 'بانتظار التوقيع',
+	'quotations.markSent': 'تعليم كمرسل',
+	'quotations.markAccepted': 'تعليم كمقبول',
+	'quotations.markRejected': 'تعليم كمرفوض',
+	'quotations.backToDraft': 'إعادة إلى مسودة',
+	'quotations.revise': 'مراجعة (إصدار جديد)',
+	'quotations.versionHistory': 'سجل الإصدارات',
+	'quotations.convertedInvoice': 'حُوّل إلى فاتورة',
+	'quotations.convertedContract': 'حُوّل إلى عقد',
+	'quotations.toInvoice': 'إلى فاتورة',
+	'quotations.toContract': 'إلى عقد',
+	'quotations.printWithImages': 'طباعة مع الصور',
+	'quotations.printWithoutImages': 'طباعة بدون صور',
+	'quotations.sendEmail': 'إرسال بالبريد الإلكتروني',
+	'quotations.detailsTitle': 'تفاصيل عرض السعر - {number}',
+	'quotations.detailsDescription': 'العميل: {customer} | التاريخ: {date}',
+	'quotations.nameLabel': 'الاسم:',
+	'quotations.mobileLabel': 'الجوال:',
+	'quotations.locationLabel': 'الموقع:',
+	'quotations.crLabel': 'السجل التجاري:',
+	'quotations.vatNumberLabel': 'الرقم الضريبي:',
+	'quotations.validUntilLabel': 'صالح حتى:',
+	'quotations.itemsTitle': 'الأصناف',
+	'quotations.description': 'الوصف',
+	'quotations.qty': 'الكمية',
+	'quotations.unitPrice': 'سعر الوحدة',
+	'quotations.discPercent': 'الخصم %',
+	'quotations.summary': 'الملخص',
+	'quotations.subtotalLabel': 'المجموع الفرعي:',
+	'quotations.discountLabel': 'الخصم:',
+	'quotations.afterDiscount': 'بعد الخصم:',
+	'quotations.printDateOptions': 'خيارات تاريخ الطباعة',
+	'quotations.printDateChoose': 'اختر التاريخ الذي يظهر على عرض السعر المطبوع:',
+	'quotations.printDateQuotation': 'تاريخ العرض ({date})',
+	'quotations.printDateToday': 'تاريخ اليوم ({date})',
+	'quotations.printDateCustom': 'تاريخ مخصص',
+	'quotations.selectCustomDate': 'اختر التاريخ:',
+	'quotations.notFound': 'عرض السعر غير موجود',
+	'quotations.logoUploaded': 'تم رفع الشعار بنجاح',
+	'quotations.logoUrlFailed': 'تم رفع الشعار لكن تعذر الحصول على رابطه',
+	'quotations.logoUploadFailed': 'تعذر رفع الشعار',
+	'quotations.stampUploaded': 'تم رفع الختم بنجاح',
+	'quotations.stampUrlFailed': 'تم رفع الختم لكن تعذر الحصول على رابطه',
+	'quotations.stampUploadFailed': 'تعذر رفع الختم',
+	'quotations.imageUploaded': 'تم رفع الصورة بنجاح',
+	'quotations.manualItemAdded': 'تمت إضافة صنف يدوي',
+	'quotations.inventoryItemAdded': 'تمت إضافة صنف من المخزون - اختره من القائمة',
+	'quotations.productLoaded': 'تم تحميل المنتج من المخزون',
+	'quotations.customerNameRequired': 'يرجى إدخال اسم العميل',
+	'quotations.mobileRequired': 'يرجى إدخال رقم الجوال',
+	'quotations.itemRequired': 'يرجى إضافة صنف واحد على الأقل مع وصفه',
+	'quotations.discountNegative': 'لا يمكن أن يكون مبلغ الخصم سالبًا',
+	'quotations.discountPercentRange': 'يجب أن تكون نسبة الخصم بين 0 و100',
+	'quotations.fixedDiscountTooHigh': 'لا يمكن أن يتجاوز الخصم الثابت المجموع الفرعي',
+	'quotations.untitled': 'بدون عنوان',
+	'quotations.itemDiscountInvalid': 'نسبة خصم الصنف "{item}" غير صالحة',
+	'quotations.itemDiscountTooHigh': 'لا يمكن أن يتجاوز خصم الصنف "{item}" مجموعه الفرعي',
+	'quotations.reloadNotFound': 'عرض السعر غير موجود. أعد تحميل الصفحة وحاول مجددًا.',
+	'quotations.revised': 'تمت مراجعة {number} إلى الإصدار {version}',
+	'quotations.reviseFailed': 'تعذرت مراجعة عرض السعر',
+	'quotations.created': 'تم إنشاء عرض السعر بنجاح!',
+	'quotations.createFailed': 'تعذر إنشاء عرض السعر',
+	'quotations.statusChanged': 'تم تعليم عرض السعر {number} كـ {status}',
+	'quotations.statusFailed': 'تعذر تحديث الحالة',
+	'quotations.convertingInvoice': 'جارٍ تحويل عرض السعر {number} إلى فاتورة...',
+	'quotations.convertingContract': 'جارٍ تحويل عرض السعر {number} إلى عقد...',
+	'quotations.convertFailed': 'تعذر التحويل. يرجى المحاولة مجددًا.',
+	'quotations.allowPopups': 'يرجى السماح بالنوافذ المنبثقة لطباعة عروض الأسعار',
+	'quotations.noData': 'لا توجد بيانات للتصدير.',
+	'quotations.pdfExportReady': 'ملف PDF جاهز للطباعة',
+	'quotations.printWindowFailed': 'تعذر فتح نافذة الطباعة',
+	'quotations.pdfExportFailed': 'تعذر تصدير PDF',
+	'quotations.noEmail': 'لا يوجد بريد إلكتروني للعميل في عرض السعر هذا',
+	'quotations.openingEmail': 'جارٍ فتح تطبيق البريد...',
+
+	// Invoices
+	'invoices.title': 'الفواتير',
+	'invoices.subtitle': 'إنشاء فواتير العملاء وإدارتها',
+	'invoices.new': 'فاتورة جديدة',
+	'invoices.createTitle': 'إنشاء فاتورة جديدة',
+	'invoices.invoiceDate': 'تاريخ الفاتورة',
+	'invoices.selectInvoiceDate': 'اختر تاريخ الفاتورة *',
+	'invoices.invoiceDateHint': 'التاريخ الذي سيظهر على الفاتورة',
+	'invoices.invoiceType': 'نوع الفاتورة',
+	'invoices.selectInvoiceType': 'اختر نوع الفاتورة *',
+	'invoices.typeNormal': 'فاتورة عادية',
+	'invoices.typeMonthlyVisit': 'فاتورة زيارة شهرية',
+	'invoices.typeNormalHint': 'فاتورة عادية لشراء الأصناف',
+	'invoices.typeMonthlyVisitHint': 'فاتورة متكررة لزيارات الخدمة الشهرية',
+	'invoices.typeNormalShort': 'عادية',
+	'invoices.typeMonthlyVisitShort': 'زيارة شهرية',
+	'invoices.linkContract': 'ربط بعقد *',
+	'invoices.selectContract': 'اختر العقد...',
+	'invoices.noActiveContracts': 'لا توجد عقود نشطة',
+	'invoices.selectCustomerFirst': 'يرجى اختيار العميل أولاً',
+	'invoices.contractHint': 'اختر العقد النشط لفاتورة الزيارة الشهرية هذه',
+	'invoices.visitDate': 'تاريخ الزيارة *',
+	'invoices.visitDateHint': 'اختر تاريخ الزيارة الشهرية التي تخصها هذه الفاتورة',
+	'invoices.brandingHint': 'يظهر أدناه الشعار والختم الافتراضيان من الإعدادات. ارفع ملفات مخصصة لاستبدالهما في هذه الفاتورة فقط.',
+	'invoices.discountSettings': 'إعدادات الخصم',
+	'invoices.individualItems': 'لكل صنف',
+	'invoices.globalDiscount': 'خصم إجمالي',
+	'invoices.globalDiscountType': 'نوع الخصم الإجمالي',
+	'invoices.globalDiscountPercent': 'الخصم الإجمالي (%)',
+	'invoices.globalDiscountFixed': 'الخصم الإجمالي (ر.س)',
+	'invoices.enterPercentage': 'أدخل النسبة',
+	'invoices.enterFixedAmount': 'أدخل المبلغ الثابت',
+	'invoices.items': 'أصناف الفاتورة',
+	'invoices.itemNumber': 'الصنف {number}',
+	'invoices.loadFromInventory': 'تحميل من المخزون *',
+	'invoices.searchProducts': 'ابحث عن المنتجات...',
+	'invoices.inventoryOption': '{name} - {price} ({stock} في المخزون)',
+	'invoices.itemImage': 'صورة الصنف',
+	'invoices.uploadImage': 'رفع صورة',
+	'invoices.descriptionPlaceholder': 'وصف الصنف',
+	'invoices.quantity': 'الكمية',
+	'invoices.noInventory': 'لا توجد أصناف في المخزون حالياً',
+	'invoices.summaryTitle': 'ملخص الفاتورة',
+	'invoices.basedOnContract': '(حسب خطة العقد)',
+	'invoices.contractTotalHint': 'يُحسب الإجمالي من مبلغ خطة الدفع في العقد المختار',
+	'invoices.additionalNotes': 'ملاحظات إضافية',
+	'invoices.notesPlaceholder': 'أدخل أي ملاحظات إضافية...',
+	'invoices.paymentInformation': 'معلومات الدفع',
+	'invoices.paidAmountRequired': 'المبلغ المدفوع (ر.س) *',
+	'invoices.paidAmountHintMax': 'أدخل المبلغ المدفوع (الحد الأقصى: {amount}). ستُحدَّد الحالة تلقائياً.',
+	'invoices.paidAmountHint': 'أدخل المبلغ المدفوع. ستُحدَّد الحالة تلقائياً.',
+	'invoices.totalAmountLabel': 'المبلغ الإجمالي:',
+	'invoices.paidAmountLabel': 'المبلغ المدفوع:',
+	'invoices.remainingLabel': 'المتبقي:',
+	'invoices.statusLabel': 'الحالة:',
+	'invoices.autoSettings': 'إعدادات الفوترة التلقائية',
+	'invoices.autoEnable': 'تفعيل الفوترة التلقائية',
+	'invoices.autoEnableHint': 'تُنشأ فواتير زيارات العقود بواسطة مهمة الفوترة المجدولة',
+	'invoices.autoTiming': 'توقيت إنشاء الفاتورة',
+	'invoices.timingVisitDate': 'في تاريخ الزيارة',
+	'invoices.timing7Days': 'قبل تاريخ الزيارة بـ 7 أيام',
+	'invoices.timingVisitDateHint': 'ستُنشأ الفاتورة في يوم الزيارة الشهرية نفسه',
+	'invoices.timing7DaysHint': 'ستُنشأ الفاتورة قبل تاريخ الزيارة الشهرية بـ 7 أيام',
+	'invoices.creating': 'جارٍ الإنشاء...',
+	'invoices.create': 'إنشاء الفاتورة',
+	'invoices.statTotal': 'إجمالي الفواتير',
+	'invoices.statAll': 'جميع الفواتير',
+	'invoices.statFullyPaid': 'مدفوعة بالكامل',
+	'invoices.statPartiallyPaid': 'مدفوعة جزئياً',
+	'invoices.statRevenue': 'إجمالي الإيرادات',
+	'invoices.statCollected': 'ريال محصّل',
+	'invoices.statPending': 'ريال مستحق',
+	'invoices.searchPlaceholder': 'ابحث في الفواتير بالرقم أو العميل...',
+	'invoices.all': 'جميع الفواتير',
+	'invoices.search': 'بحث',
+	'invoices.searchShort': 'ابحث في الفواتير...',
+	'invoices.allStatuses': 'جميع الحالات',
+	'invoices.sortOrder': 'الترتيب',
+	'invoices.newestFirst': 'الأحدث أولاً',
+	'invoices.oldestFirst': 'الأقدم أولاً',
+	'invoices.loadFailed': 'تعذّر تحميل الفواتير. يرجى المحاولة مرة أخرى.',
+	'invoices.tryAgain': 'إعادة المحاولة',
+	'invoices.noMatches': 'لا توجد فواتير مطابقة لبحثك',
+	'invoices.empty': 'لم تُنشأ أي فواتير بعد. أنشئ فاتورتك الأولى للبدء!',
+	'invoices.number': 'رقم الفاتورة',
+	'invoices.type': 'النوع',
+	'invoices.paid': 'المدفوع',
+	'invoices.remaining': 'المتبقي',
+	'invoices.renew': 'تجديد',
+	'invoices.collect': 'تحصيل',
+	'invoices.lockedHint': 'مقفلة: أصدر إشعاراً دائناً أو مديناً لتعديل هذه الفاتورة',
+	'invoices.editDateHint': 'تعديل تاريخ الفاتورة',
+	'invoices.notesHint': 'الإشعارات الدائنة / المدينة',
+	'invoices.exportXml': 'تصدير الفاتورة الإلكترونية لهيئة الزكاة (XML)',
+	'invoices.loadMore': 'تحميل المزيد من الفواتير',
+	'invoices.loaded': '(تم تحميل {count})',
+	'invoices.showingAll': 'عرض جميع الفواتير ({count})',
+	'invoices.editTitle': 'تعديل الفاتورة',
+	'invoices.editDescription': 'تحديث تاريخ الفاتورة وتفاصيل أخرى',
+	'invoices.invoiceNumber': 'رقم الفاتورة',
+	'invoices.currentTotal': 'الإجمالي الحالي',
+	'invoices.currentStatus': 'الحالة الحالية',
+	'invoices.updating': 'جارٍ التحديث...',
+	'invoices.update': 'تحديث الفاتورة',
+	'invoices.previewTitle': 'معاينة الفاتورة',
+	'invoices.previewDescription': 'معاينة الفاتورة قبل الطباعة أو التنزيل',
+	'invoices.tabInvoice': 'الفاتورة',
+	'invoices.dateValue': 'التاريخ: {date}',
+	'invoices.billTo': 'فاتورة إلى',
+	'invoices.price': 'السعر',
+	'invoices.creditNotes': 'الإشعارات الدائنة:',
+	'invoices.debitNotes': 'الإشعارات المدينة:',
+	'invoices.paidLabel': 'المدفوع:',
+	'invoices.collectTitle': 'تحصيل الدفعة',
+	'invoices.collectDescription': 'تسجيل دفعة للفاتورة {number}',
+	'invoices.totalAmount': 'المبلغ الإجمالي',
+	'invoices.paidAmount': 'المبلغ المدفوع',
+	'invoices.paymentAmount': 'مبلغ الدفعة (ر.س) *',
+	'invoices.fullAmount': 'كامل المبلغ',
+	'invoices.paymentDate': 'تاريخ الدفع *',
+	'invoices.paymentMethod': 'طريقة الدفع *',
+	'invoices.selectPaymentMethod': 'اختر طريقة الدفع',
+	'invoices.paymentMethod.cash': 'نقدي',
+	'invoices.paymentMethod.bank_transfer': 'تحويل بنكي',
+	'invoices.paymentMethod.credit_card': 'بطاقة ائتمان',
+	'invoices.paymentMethod.cheque': 'شيك',
+	'invoices.paymentHistory': 'سجل المدفوعات',
+	'invoices.newPaidAmount': 'المبلغ المدفوع الجديد',
+	'invoices.newRemaining': 'المتبقي الجديد',
+	'invoices.newStatus': 'الحالة الجديدة',
+	'invoices.processing': 'جارٍ المعالجة...',
+	'invoices.confirmPayment': 'تأكيد الدفع',
+	'invoices.createFailed': 'تعذّر إنشاء الفاتورة',
+	'invoices.stockNotResynced': 'تم تحديث الفاتورة، لكن لم يُحدَّث المخزون للفاتورة {number}',
+	'invoices.updateFailed': 'تعذّر تحديث الفاتورة',
+	'invoices.billingSettingsFailed': 'تعذّر حفظ إعدادات الفوترة التلقائية',
+	'invoices.loadMoreFailed': 'تعذّر تحميل المزيد من الفواتير',
+	'invoices.notFound': 'الفاتورة غير موجودة',
+	'invoices.paymentsLoadFailed': 'تعذّر تحميل بيانات المدفوعات: {message}',
+	'invoices.quotationLoaded': 'تم تحميل عرض السعر {number}. أكمل تفاصيل الفاتورة أدناه.',
+	'invoices.copied': 'تم نسخ الفاتورة {number}. راجعها وأنشئها كفاتورة جديدة.',
+	'invoices.locked': 'الفاتورة {number} عليها مدفوعات أو إشعارات ولا يمكن تعديلها. أصدر إشعاراً دائناً أو مديناً بدلاً من ذلك.',
+	'invoices.validDate': 'يرجى اختيار تاريخ صحيح',
+	'invoices.dateUpdated': 'تم تحديث تاريخ الفاتورة بنجاح!',
+	'invoices.dateUpdateFailed': 'تعذّر تحديث تاريخ الفاتورة',
+	'invoices.contractItemsRequired': 'يرجى اختيار عقد لإنشاء أصناف الفاتورة',
+	'invoices.paidExceedsTotal': 'لا يمكن أن يتجاوز المبلغ المدفوع الإجمالي البالغ {amount}',
+	'invoices.contractRequired': 'يرجى اختيار عقد لفاتورة الزيارة الشهرية',
+	'invoices.visitDateRequired': 'يرجى اختيار تاريخ الزيارة لفاتورة الزيارة الشهرية',
+	'invoices.customerRequired': 'يرجى اختيار العميل قبل إنشاء الفاتورة',
+	'invoices.customerIdRequired': 'معرّف العميل مطلوب',
+	'invoices.stockNotUpdated': 'تم حفظ الفاتورة، لكن لم يُحدَّث المخزون للفاتورة {number}',
+	'invoices.quotationNotConverted': 'تم حفظ الفاتورة، لكن لم يُعلَّم عرض السعر {number} كمحوَّل',
+	'invoices.created': 'تم إنشاء الفاتورة {number} بنجاح!',
+	'invoices.saveFailed': 'تعذّر حفظ الفاتورة: {message}',
+	'invoices.saveBeforeExport': 'احفظ الفاتورة قبل تصدير الفاتورة الإلكترونية',
+	'invoices.eInvoiceExported': 'تم تصدير الفاتورة الإلكترونية (العدّاد {counter})',
+	'invoices.eInvoiceExportFailed': 'تعذّر تصدير الفاتورة الإلكترونية',
+	'invoices.allowPopups': 'يرجى السماح بالنوافذ المنبثقة لطباعة الفواتير',
+	'invoices.saveBeforePdf': 'احفظ الفاتورة قبل تنزيلها بصيغة PDF',
+	'invoices.downloaded': 'تم تنزيل الفاتورة بنجاح',
+	'invoices.originalNotFound': 'الفاتورة الأصلية غير موجودة',
+	'invoices.noteExported': 'تم تصدير {note} (العدّاد {counter})',
+	'invoices.renewPrefilled': 'تمت تعبئة نموذج فاتورة الزيارة الشهرية. راجعه ثم أنشئ الفاتورة.',
+	'invoices.customerNotFound': 'العميل غير موجود',
+	'invoices.renewFailed': 'تعذّر تجديد الفاتورة',
+	'invoices.paymentExceedsRemainingAmount': 'لا يمكن أن يتجاوز مبلغ الدفعة المبلغ المتبقي البالغ {amount}',
+	'invoices.noInvoiceSelected': 'لم يتم اختيار فاتورة',
+	'invoices.validPaymentAmount': 'يرجى إدخال مبلغ دفع صحيح',
+	'invoices.paymentMethodRequired': 'يرجى اختيار طريقة الدفع',
+	'invoices.paymentMethodUnsupported': 'طريقة الدفع المختارة غير مدعومة. يرجى اختيار طريقة أخرى.',
+	'invoices.paymentExceedsRemaining': 'لا يمكن أن يتجاوز مبلغ الدفعة المبلغ المتبقي',
+	'invoices.recordPaymentFailed': 'تعذّر تسجيل الدفعة',
+	'invoices.paymentCollected': 'تم تحصيل دفعة بقيمة {amount} بنجاح!',
+	'invoices.processPaymentFailed': 'تعذّر معالجة الدفعة',
+
+	// Quotation versions and win rate
+	'quotationVersions.title': 'سجل الإصدارات - {number}',
+	'quotationVersions.description': 'تحتفظ كل مراجعة بالإصدار السابق. تُعرض التغييرات مقارنةً بالإصدار الذي قبله.',
+	'quotationVersions.current': 'الحالي',
+	'quotationVersions.created': 'أُنشئ في {date}',
+	'quotationVersions.revised': 'رُوجع في {date}',
+	'quotationVersions.original': 'عرض السعر الأصلي',
+	'quotationVersions.noChanges': 'لا توجد تغييرات على محتوى عرض السعر',
+	'quotationVersions.field': 'الحقل',
+	'quotationVersions.before': 'قبل',
+	'quotationVersions.after': 'بعد',
+	'winRate.title': 'نسبة الفوز بعروض الأسعار حسب المندوب',
+	'winRate.description': 'نسبة الفوز هي عروض الأسعار المقبولة من بين العروض المحسومة (المقبولة أو المرفوضة أو المنتهية). تُحتسب العروض التي بلا مندوب لمندوب العميل.',
+	'winRate.allTime': 'كل الفترات',
+	'winRate.last12Months': 'آخر 12 شهراً',
+	'winRate.last90Days': 'آخر 90 يوماً',
+	'winRate.last30Days': 'آخر 30 يوماً',
+	'winRate.empty': 'لا توجد عروض أسعار في هذه الفترة',
+	'winRate.delegate': 'المندوب',
+	'winRate.quoted': 'المعروض',
+	'winRate.open': 'مفتوحة',
+	'winRate.won': 'مكسوبة',
+	'winRate.lost': 'خاسرة',
+	'winRate.quotedValue': 'قيمة العروض',
+	'winRate.wonValue': 'القيمة المكسوبة',
+
+	// Credit and debit notes
+	'invoiceNotes.title': 'الإشعارات الدائنة / المدينة - {number}',
+	'invoiceNotes.description': 'تُصحَّح الفواتير الصادرة بالإشعارات بدلاً من تعديلها. يعكس الإشعار الدائن بنود الفاتورة، ويضيف الإشعار المدين رسوماً.',
+	'invoiceNotes.invoiceTotal': 'إجمالي الفاتورة',
+	'invoiceNotes.creditedDebited': 'الدائن / المدين',
+	'invoiceNotes.adjustedTotal': 'الإجمالي المعدَّل',
+	'invoiceNotes.noteType': 'نوع الإشعار',
+	'invoiceNotes.reasonRequiredLabel': 'السبب *',
+	'invoiceNotes.creditReasonPlaceholder': 'مثال: أصناف مرتجعة، تصحيح سعر',
+	'invoiceNotes.debitReasonPlaceholder': 'مثال: زيارة خدمة إضافية',
+	'invoiceNotes.linesToCredit': 'البنود المراد إشعارها',
+	'invoiceNotes.fullReversal': 'عكس كامل',
+	'invoiceNotes.invoiced': 'المفوتر',
+	'invoiceNotes.credited': 'المُشعَر به',
+	'invoiceNotes.netUnitPrice': 'صافي سعر الوحدة',
+	'invoiceNotes.creditQty': 'الكمية الدائنة',
+	'invoiceNotes.overCredited': 'لا يمكن إشعار بند بأكثر مما فُوتر.',
+	'invoiceNotes.charges': 'الرسوم',
+	'invoiceNotes.addLine': 'إضافة بند',
+	'invoiceNotes.subtotal': 'المجموع الفرعي: {amount}',
+	'invoiceNotes.vat': 'ضريبة القيمة المضافة ({rate}%): {amount}',
+	'invoiceNotes.noteTotal': 'إجمالي {note}: {amount}',
+	'invoiceNotes.issuing': 'جارٍ الإصدار...',
+	'invoiceNotes.issue': 'إصدار {note}',
+	'invoiceNotes.issuedNotes': 'الإشعارات الصادرة',
+	'invoiceNotes.number': 'الرقم',
+	'invoiceNotes.reason': 'السبب',
+	'invoiceNotes.empty': 'لم تصدر إشعارات لهذه الفاتورة',
+	'invoiceNotes.reasonRequired': 'أدخل سبب هذا الإشعار',
+	'invoiceNotes.creditQuantityRequired': 'أدخل الكمية المراد إشعارها',
+	'invoiceNotes.chargeRequired': 'أضف رسماً واحداً على الأقل',
+	'invoiceNotes.creditExceeds': 'لا يمكن أن يتجاوز الإشعار الدائن المبلغ المتبقي على هذه الفاتورة ({amount})',
+	'invoiceNotes.issued': 'تم إصدار {note} {number}',
+	'invoiceNotes.issueFailed': 'تعذّر إصدار الإشعار',
+
+	// E-signature requests
+	'signature.title': 'إرسال للتوقيع الإلكتروني - {number}',
+	'signature.description': 'يحصل العميل على رابط لعرض المستند وتوقيعه إلكترونياً. يحل الرابط الجديد محل أي رابط مفتوح.',
+	'signature.validFor': 'صلاحية الرابط',
+	'signature.create': 'إنشاء رابط التوقيع',
+	'signature.copy': 'نسخ',
+	'signature.createdHint': 'ينتهي في {date}. يُعرض الرابط الآن فقط؛ أنشئ رابطاً جديداً إذا فُقد.',
+	'signature.links': 'روابط التوقيع',
+	'signature.empty': 'لا توجد روابط توقيع بعد',
+	'signature.createdAt': 'أُنشئ في {date}',
+	'signature.expiresAt': 'ينتهي في {date}',
+	'signature.openedAt': 'فُتح في {date}',
+	'signature.signatureOf': 'توقيع {name}',
+	'signature.signedBy': 'وقّعه {name} في {date}',
+	'signature.ipAddress': 'عنوان IP: {ip}',
+	'signature.archivedHint': 'أُرشفت النسخة الموقّعة مع ملفات العقد',
+	'signature.archive': 'أرشفة النسخة الموقّعة',
+	'signature.linkCreated': 'تم إنشاء رابط التوقيع',
+	'signature.createFailed': 'تعذّر إنشاء رابط التوقيع',
+	'signature.linkCopied': 'تم نسخ الرابط',
+	'signature.copyFailed': 'تعذّر نسخ الرابط',
+	'signature.archived': 'تمت أرشفة النسخة الموقّعة',
+	'signature.archiveFailed': 'تعذّر أرشفة النسخة الموقّعة',
+
+	// Public signing page
+	'signing.contract': 'عقد',
+	'signing.quotation': 'عرض سعر',
+	'signing.loading': 'جارٍ تحميل المستند...',
+	'signing.invalidLink': 'رابط التوقيع هذا غير صالح',
+	'signing.notAvailable': 'الرابط غير متاح',
+	'signing.nameRequired': 'يرجى كتابة اسمك الكامل',
+	'signing.signatureRequired': 'يرجى رسم توقيعك',
+	'signing.acceptRequired': 'يرجى الموافقة على المستند لتوقيعه',
+	'signing.signed': 'شكرًا لك، تم توقيع المستند',
+	'signing.signFailed': 'تعذر توقيع المستند',
+	'signing.signedTitle': 'تم التوقيع',
+	'signing.signedDescription': 'وقّعه {name} في {date}. يمكنك إغلاق هذه الصفحة.',
+	'signing.expiredTitle': 'انتهت صلاحية الرابط',
+	'signing.expiredDescription': 'انتهت صلاحية رابط التوقيع هذا. يرجى طلب رابط جديد منا.',
+	'signing.revokedTitle': 'تم استبدال الرابط',
+	'signing.revokedDescription': 'رابط التوقيع هذا لم يعد صالحًا. يرجى استخدام أحدث رابط أرسلناه إليك.',
+	'signing.sign': 'التوقيع',
+	'signing.validUntil': 'صالح حتى {date}. يُسجَّل اسمك وتوقيعك وعنوان IP ووقت التوقيع مع المستند.',
+	'signing.fullName': 'الاسم الكامل',
+	'signing.signature': 'التوقيع',
+	'signing.acceptContract': 'لقد قرأت هذا العقد وأوافق على شروطه، وأقر بأن توقيعي الإلكتروني ملزم.',
+	'signing.acceptQuotation': 'لقد قرأت عرض السعر هذا وأوافق على شروطه، وأقر بأن توقيعي الإلكتروني ملزم.',
+	'signing.signing': 'جارٍ التوقيع...',
+	'signing.signDocument': 'توقيع المستند',
+	'signing.clear': 'مسح',
+
+	// Receivables aging
+	'aging.title': 'أعمار الذمم المدينة',
+	'aging.description': 'أرصدة الفواتير غير المسددة حسب أيام التأخر عن تاريخ الاستحقاق، مجمعة حسب المندوب',
+	'aging.asOf': 'حتى تاريخ',
+	'aging.empty': 'لا توجد ذمم مدينة مستحقة',
+	'aging.unknownDelegate': 'مندوب غير معروف',
+	'aging.unassigned': 'غير مسند',
+
+	// Recycle bin
+	'recycleBin.subtitle': 'العملاء والعقود والفواتير والموظفون المحذوفون',
+	'recycleBin.refresh': 'تحديث',
+	'recycleBin.deletedRecords': 'السجلات المحذوفة ({count})',
+	'recycleBin.description': 'الاستعادة تعيد السجل إلى مكانه. الحذف النهائي يزيله بلا رجعة، ويُرفض ما دامت سجلات أخرى تستخدمه، مثل فاتورة عليها مدفوعات.',
+	'recycleBin.searchPlaceholder': 'ابحث بالرقم أو الاسم أو التفاصيل...',
+	'recycleBin.allTypes': 'كل الأنواع',
+	'recycleBin.customer': 'عميل',
+	'recycleBin.contract': 'عقد',
+	'recycleBin.invoice': 'فاتورة',
+	'recycleBin.employee': 'موظف',
+	'recycleBin.customers': 'العملاء',
+	'recycleBin.contracts': 'العقود',
+	'recycleBin.invoices': 'الفواتير',
+	'recycleBin.employees': 'الموظفون',
+	'recycleBin.loadFailed': 'تعذر تحميل سلة المحذوفات',
+	'recycleBin.empty': 'سلة المحذوفات فارغة',
+	'recycleBin.type': 'النوع',
+	'recycleBin.record': 'السجل',
+	'recycleBin.deletedBy': 'حذفه',
+	'recycleBin.deletedAt': 'تاريخ الحذف',
+	'recycleBin.restore': 'استعادة',
+	'recycleBin.purge': 'حذف نهائي',
+	'recycleBin.purgeTitle': 'حذف نهائي',
+	'recycleBin.purgeDescription': 'سيُحذف {entity} {label} نهائيًا. لا يمكن التراجع عن ذلك.',
+	'recycleBin.unknownUser': 'مستخدم غير معروف',
+	'recycleBin.system': 'النظام',
+	'recycleBin.restored': 'تمت استعادة {entity} {label}',
+	'recycleBin.restoreFailed': 'تعذرت الاستعادة',
+	'recycleBin.purged': 'تم حذف {entity} {label} نهائيًا',
+	'recycleBin.purgeFailed': 'تعذر الحذف النهائي',
+
+	// Two-factor authentication
+	'twoFactor.qrAlt': 'رمز QR لتطبيق المصادقة',
+	'twoFactor.cantScan': 'لا يمكنك المسح؟ أدخل هذا المفتاح في تطبيق المصادقة:',
+	'twoFactor.codesCopied': 'تم نسخ رموز الاسترداد',
+	'twoFactor.copyFailed': 'تعذر نسخ الرموز. يرجى كتابتها.',
+	'twoFactor.saveCodes': 'احفظ رموز الاسترداد هذه في مكان آمن. يمكن استخدام كل رمز مرة واحدة لتسجيل الدخول إذا فقدت جهاز المصادقة. لن تظهر مرة أخرى.',
+	'twoFactor.copy': 'نسخ',
+	'twoFactor.requestFailed': 'فشل طلب التحقق بخطوتين',
+	'twoFactor.enabledToast': 'تم تفعيل التحقق بخطوتين',
+	'twoFactor.disabledToast': 'تم إيقاف التحقق بخطوتين',
+	'twoFactor.codesRegenerated': 'تم إنشاء رموز استرداد جديدة؛ الرموز القديمة لم تعد صالحة',
+	'twoFactor.title': 'التحقق بخطوتين',
+	'twoFactor.enabled': 'مفعّل',
+	'twoFactor.disabled': 'غير مفعّل',
+	'twoFactor.required': 'إلزامي',
+	'twoFactor.description': 'اطلب رمزًا من تطبيق المصادقة بالإضافة إلى كلمة المرور عند تسجيل الدخول',
+	'twoFactor.statusUnavailable': 'حالة التحقق بخطوتين غير متاحة. يرجى تسجيل الدخول مرة أخرى.',
+	'twoFactor.enabledStatus': 'مفعّل.',
+	'twoFactor.enabledSince': 'مفعّل منذ {date}.',
+	'twoFactor.codeLeft': 'تبقى {count} رمز استرداد.',
+	'twoFactor.codesLeft': 'تبقى {count} رموز استرداد.',
+	'twoFactor.requiredHint': 'التحقق بخطوتين إلزامي لحسابك. أعدّه الآن، وإلا فسيُطلب منك ذلك عند تسجيل الدخول التالي.',
+	'twoFactor.protectHint': 'احمِ حسابك بخطوة تسجيل دخول ثانية.',
+	'twoFactor.newCodes': 'رموز استرداد جديدة',
+	'twoFactor.disable': 'إيقاف',
+	'twoFactor.enable': 'تفعيل التحقق بخطوتين',
+	'twoFactor.scanHint': 'امسح رمز QR بتطبيق المصادقة، ثم أدخل الرمز المكون من 6 أرقام الذي يظهره.',
+	'twoFactor.verifyEnable': 'تحقق وفعّل',
+	'twoFactor.regenerateHint': 'أدخل رمزًا من تطبيق المصادقة. ستتوقف رموز الاسترداد الحالية عن العمل.',
+	'twoFactor.generate': 'إنشاء',
+	'twoFactor.disableHint': 'أدخل رمزًا من تطبيق المصادقة أو أحد رموز الاسترداد لإيقاف التحقق بخطوتين.',
+	'twoFactor.orRecoveryCode': 'أو رمز استرداد',
+	'twoFactor.disableFull': 'إيقاف التحقق بخطوتين',
+	'twoFactor.done': 'تم',
+
+	// History log
+	'audit.created': 'تم الإنشاء',
+	'audit.updated': 'تم التعديل',
+	'audit.deleted': 'تم الحذف',
+	'audit.entityCreated': 'تم إنشاء {entity}',
+	'audit.entityDeleted': 'تم حذف {entity}',
+	'audit.fieldsChanged': 'تم تغيير {count} حقول: {fields}',
+	'history.title': 'سجل النظام',
+	'history.subtitle': 'كل عملية إنشاء وتعديل وحذف، مع من غيّر كل حقل',
+	'history.loadFailed': 'تعذر تحميل السجل. يرجى المحاولة مرة أخرى.',
+	'history.refresh': 'تحديث',
+	'history.totalEvents': 'إجمالي الأحداث',
+	'history.allModulesHint': 'جميع الوحدات المدققة',
+	'history.todayActivity': 'نشاط اليوم',
+	'history.sinceMidnight': 'منذ منتصف الليل',
+	'history.thisWeek': 'هذا الأسبوع',
+	'history.last7Hint': 'آخر ٧ أيام',
+	'history.filterTitle': 'تصفية السجل',
+	'history.filterDescription': 'التصفية حسب الوحدة والمستخدم والسجل والتاريخ',
+	'history.record': 'السجل',
+	'history.recordPlaceholder': 'رقم الفاتورة، العميل، المعرف...',
+	'history.module': 'الوحدة',
+	'history.allModules': 'جميع الوحدات',
+	'history.user': 'المستخدم',
+	'history.allUsers': 'جميع المستخدمين',
+	'history.system': 'النظام',
+	'history.unknownUser': 'مستخدم غير معروف',
+	'history.action': 'الإجراء',
+	'history.allActions': 'جميع الإجراءات',
+	'history.dateRange': 'الفترة',
+	'history.allTime': 'كل الأوقات',
+	'history.today': 'اليوم',
+	'history.yesterday': 'أمس',
+	'history.last7': 'آخر ٧ أيام',
+	'history.last30': 'آخر ٣٠ يومًا',
+	'history.customRange': 'فترة مخصصة',
+	'history.from': 'من',
+	'history.to': 'إلى',
+	'history.activityLog': 'سجل النشاط ({count} إدخال)',
+	'history.loading': 'جارٍ تحميل سجل النشاط...',
+	'history.empty': 'لا توجد إدخالات في السجل للتصفية المحددة.',
+	'history.details': 'التفاصيل',
+	'history.openRecord': 'فتح {entity}',
+	'history.pageOf': 'صفحة {page} من {total}',
+	'history.previous': 'السابق',
+	'history.next': 'التالي',
+	'history.noFieldValues': 'لم تُسجل قيم للحقول',
+	'history.field': 'الحقل',
+	'history.before': 'قبل',
+	'history.after': 'بعد',
+	'history.notSaved': 'لم يتم حفظ هذا السجل بعد',
+	'history.loadingRecord': 'جارٍ تحميل السجل...',
+	'history.loadFailedRecord': 'تعذر تحميل السجل',
+	'history.noChanges': 'لا توجد تغييرات مسجلة بعد',
+
+	// General ledger
+	'ledger.title': 'دفتر الأستاذ العام',
+	'ledger.subtitle': 'قيود مزدوجة مرحّلة من الفواتير والمدفوعات والمشتريات والمصروفات والرواتب',
+	'ledger.loadFailed': 'تعذر تحميل دفتر الأستاذ العام',
+	'ledger.codeNameRequired': 'رمز الحساب واسمه مطلوبان',
+	'ledger.codeUsed': 'رمز الحساب {code} مستخدم بالفعل',
+	'ledger.accountInRule': 'هذا الحساب مستخدم في قاعدة ترحيل. وجّه القاعدة إلى حساب آخر أولًا.',
+	'ledger.accountUpdated': 'تم تحديث الحساب',
+	'ledger.accountAdded': 'تمت إضافة الحساب',
+	'ledger.accountSaveFailed': 'تعذر حفظ الحساب',
+	'ledger.ruleUpdated': 'تم تحديث قاعدة الترحيل: {rule}',
+	'ledger.ruleUpdateFailed': 'تعذر تحديث قاعدة الترحيل',
+	'ledger.descriptionRequired': 'الوصف مطلوب',
+	'ledger.lineAccountRequired': 'اختر حسابًا لكل سطر فيه مبلغ',
+	'ledger.entryPosted': 'تم ترحيل القيد',
+	'ledger.entryPostFailed': 'تعذر ترحيل القيد',
+	'ledger.reverseConfirm': 'عكس القيد رقم {number}؟ سيُرحّل قيد معاكس بتاريخ اليوم.',
+	'ledger.entryReversed': 'تم عكس القيد رقم {number}',
+	'ledger.reverseFailed': 'تعذر عكس القيد',
+	'ledger.noPostings': 'لا توجد ترحيلات',
+	'ledger.totalOf': 'إجمالي {title}',
+	'ledger.from': 'من',
+	'ledger.to': 'إلى',
+	'ledger.refresh': 'تحديث',
+	'ledger.journalEntry': 'قيد يومية',
+	'ledger.netProfitPeriod': 'صافي الربح (الفترة)',
+	'ledger.revenueExpenses': 'الإيرادات {revenue} · المصروفات {expenses}',
+	'ledger.totalAssets': 'إجمالي الأصول',
+	'ledger.asOf': 'حتى {date}',
+	'ledger.trialBalance': 'ميزان المراجعة',
+	'ledger.balanced': 'متوازن',
+	'ledger.outOfBalance': 'غير متوازن',
+	'ledger.debitsCredits': 'المدين {debits} · الدائن {credits}',
+	'ledger.journal': 'اليومية',
+	'ledger.profitLoss': 'الأرباح والخسائر',
+	'ledger.balanceSheet': 'الميزانية العمومية',
+	'ledger.chartOfAccounts': 'دليل الحسابات',
+	'ledger.postingRules': 'قواعد الترحيل',
+	'ledger.journalEntries': 'قيود اليومية',
+	'ledger.journalDescription': 'القيود الآلية تتبع مستنداتها؛ التعديل والحذف يرحّلان قيودًا تسوية',
+	'ledger.allSources': 'جميع المصادر',
+	'ledger.descriptionAccount': 'الوصف / الحساب',
+	'ledger.debit': 'مدين',
+	'ledger.credit': 'دائن',
+	'ledger.loadingJournal': 'جارٍ تحميل اليومية...',
+	'ledger.noEntries': 'لا توجد قيود في هذه الفترة',
+	'ledger.reversal': 'قيد عكسي',
+	'ledger.reverseEntry': 'عكس القيد',
+	'ledger.trialDescription': 'الحركات المدينة والدائنة لكل حساب من {from} إلى {to}',
+	'ledger.theBeginning': 'البداية',
+	'ledger.code': 'الرمز',
+	'ledger.account': 'الحساب',
+	'ledger.type': 'النوع',
+	'ledger.balance': 'الرصيد',
+	'ledger.noPostingsPeriod': 'لا توجد ترحيلات في هذه الفترة',
+	'ledger.plDescription': 'على أساس الاستحقاق، من {from} إلى {to}',
+	'ledger.revenue': 'الإيرادات',
+	'ledger.expenses': 'المصروفات',
+	'ledger.netProfit': 'صافي الربح',
+	'ledger.assets': 'الأصول',
+	'ledger.liabilities': 'الالتزامات',
+	'ledger.equity': 'حقوق الملكية',
+	'ledger.currentEarnings': 'أرباح الفترة (غير المقفلة)',
+	'ledger.totalLiabilitiesEquity': 'إجمالي الالتزامات وحقوق الملكية',
+	'ledger.chartDescription': 'الحسابات التي عليها ترحيلات يمكن إعادة تسميتها أو تعطيلها، لا حذفها',
+	'ledger.addAccount': 'إضافة حساب',
+	'ledger.editAccount': 'تعديل الحساب',
+	'ledger.active': 'نشط',
+	'ledger.inactive': 'غير نشط',
+	'ledger.rulesDescription': 'الحسابات المستخدمة في الترحيل الآلي. يسري التغيير على المستندات المرحّلة أو المعدّلة من الآن.',
+	'ledger.posting': 'الترحيل',
+	'ledger.selectAccount': 'اختر الحساب',
+	'ledger.accountDialogDescription': 'تُجمّع الحسابات حسب النوع في القوائم المالية',
+	'ledger.codePlaceholder': 'مثال: 5300',
+	'ledger.nameEn': 'الاسم (بالإنجليزية)',
+	'ledger.nameAr': 'الاسم (بالعربية)',
+	'ledger.description': 'الوصف',
+	'ledger.newEntry': 'قيد يومية جديد',
+	'ledger.entryDialogDescription': 'يجب أن تتوازن القيود اليدوية: إجمالي المدين يساوي إجمالي الدائن',
+	'ledger.descriptionPlaceholder': 'مثال: مساهمة رأس مال المالك',
+	'ledger.memo': 'ملاحظة',
+	'ledger.addLine': 'إضافة سطر',
+	'ledger.debitsTotal': 'المدين: {amount}',
+	'ledger.creditsTotal': 'الدائن: {amount}',
+	'ledger.difference': 'الفرق: {amount}',
+	'ledger.postEntry': 'ترحيل القيد',
+	'ledger.type.asset': 'أصل',
+	'ledger.type.liability': 'التزام',
+	'ledger.type.equity': 'حقوق ملكية',
+	'ledger.type.revenue': 'إيراد',
+	'ledger.type.expense': 'مصروف',
+	'ledger.source.manual': 'يدوي',
+	'ledger.source.invoice': 'فاتورة',
+	'ledger.source.invoiceNote': 'إشعار دائن / مدين',
+	'ledger.source.payment': 'دفعة عميل',
+	'ledger.source.purchaseOrder': 'شراء',
+	'ledger.source.purchasePayment': 'دفعة مورد',
+	'ledger.source.expense': 'مصروف',
+	'ledger.source.expensePayment': 'سداد مصروف',
+	'ledger.source.payroll': 'الرواتب',
+
+	// Leads
+	'leads.title': 'إدارة العملاء المحتملين',
+	'leads.subtitle': 'إدارة العملاء المحتملين ومتابعة الفرص',
+	'leads.converted': 'تم تحويل {name} إلى عميل!',
+	'leads.convertedDescription': 'نُقل العميل المحتمل إلى قسم العملاء',
+	'leads.convertFailed': 'تعذر تحويل العميل المحتمل',
+	'leads.statusUpdated': 'تم تحديث حالة العميل المحتمل إلى {status}',
+	'leads.updated': 'تم تحديث العميل المحتمل بنجاح!',
+	'leads.updateFailed': 'تعذر تحديث العميل المحتمل',
+	'leads.deleteConfirm': 'هل أنت متأكد من حذف هذا العميل المحتمل؟',
+	'leads.deleted': 'تم حذف العميل المحتمل بنجاح!',
+	'leads.deleteFailed': 'تعذر حذف العميل المحتمل',
+	'leads.added': 'تمت إضافة العميل المحتمل بنجاح!',
+	'leads.addFailed': 'تعذرت إضافة العميل المحتمل',
+	'leads.addNew': 'إضافة عميل محتمل',
+	'leads.addDescription': 'أدخل بيانات العميل المحتمل',
+	'leads.edit': 'تعديل العميل المحتمل',
+	'leads.editDescription': 'حدّث بيانات العميل المحتمل',
+	'leads.companyName': 'اسم الشركة / الجهة',
+	'leads.namePlaceholder': 'أدخل الاسم',
+	'leads.contactPerson': 'الشخص المسؤول',
+	'leads.contactPersonPlaceholder': 'اسم الشخص المسؤول',
+	'leads.phoneNumber': 'رقم الهاتف',
+	'leads.emailAddress': 'البريد الإلكتروني',
+	'leads.leadSource': 'مصدر العميل',
+	'leads.selectSource': 'اختر المصدر',
+	'leads.interestLevel': 'مستوى الاهتمام',
+	'leads.selectLevel': 'اختر المستوى',
+	'leads.estimatedValueMonthly': 'القيمة التقديرية (شهريًا)',
+	'leads.estimatedValueMonthlySar': 'القيمة التقديرية (ريال شهريًا)',
+	'leads.contactMethod': 'طريقة التواصل',
+	'leads.selectMethod': 'اختر الطريقة',
+	'leads.assignedRepresentative': 'المندوب المسؤول',
+	'leads.selectRepresentative': 'اختر المندوب',
+	'leads.noRepresentatives': 'لا يوجد مناديب. أضف المناديب أولًا.',
+	'leads.notesPlaceholder': 'أي ملاحظات عن العميل...',
+	'leads.save': 'حفظ العميل المحتمل',
+	'leads.totalLeads': 'إجمالي العملاء المحتملين',
+	'leads.newOpportunities': 'فرص جديدة',
+	'leads.highInterest': 'اهتمام عالٍ',
+	'leads.requiresFollowUp': 'تتطلب متابعة',
+	'leads.estimatedRevenue': 'الإيرادات التقديرية',
+	'leads.amountSar': '{amount} ريال',
+	'leads.monthlyOnConversion': 'شهريًا عند التحويل',
+	'leads.searchPlaceholder': 'ابحث عن عميل محتمل...',
+	'leads.allSources': 'جميع المصادر',
+	'leads.loading': 'جارٍ تحميل العملاء المحتملين...',
+	'leads.empty': 'لا يوجد عملاء محتملون',
+	'leads.companyNameShort': 'اسم الشركة',
+	'leads.contactInfo': 'بيانات التواصل',
+	'leads.representative': 'المندوب',
+	'leads.sourceColumn': 'المصدر',
+	'leads.estimatedValue': 'القيمة التقديرية',
+	'leads.convert': 'تحويل إلى عميل',
+	'leads.source.website': 'الموقع الإلكتروني',
+	'leads.source.referral': 'إحالة',
+	'leads.source.exhibition': 'معرض',
+	'leads.source.directCall': 'اتصال مباشر',
+	'leads.source.socialMedia': 'وسائل التواصل الاجتماعي',
+	'leads.interest.high': 'عالٍ',
+	'leads.interest.medium': 'متوسط',
+	'leads.interest.low': 'منخفض',
+	'leads.method.fieldVisit': 'زيارة ميدانية',
+	'leads.method.whatsapp': 'واتساب',
+	'leads.method.phoneCall': 'مكالمة هاتفية',
+	'leads.method.email': 'البريد الإلكتروني',
+	'leads.status.new': 'جديد',
+	'leads.status.contacted': 'تم التواصل',
+	'leads.status.quoted': 'تم إرسال عرض سعر',
+	'leads.status.followUp': 'متابعة',
+	'leads.status.negotiating': 'قيد التفاوض',
+	'leads.status.won': 'تم الفوز',
+	'leads.status.lost': 'خسارة',
+
+	// Visits
+	'visits.title': 'إدارة الزيارات',
+	'visits.subtitle': 'جدول الزيارات الشهري حسب المندوب',
+	'visits.loadFailed': 'تعذر تحميل الزيارات',
+	'visits.unknownCustomer': 'عميل غير معروف',
+	'visits.unassigned': 'غير مسند',
+	'visits.requiredFields': 'يرجى تعبئة الحقول المطلوبة',
+	'visits.scheduleFailed': 'تعذرت جدولة الزيارة',
+	'visits.scheduled': 'تمت جدولة الزيارة بنجاح',
+	'visits.updateFailed': 'تعذر تحديث الزيارة',
+	'visits.updated': 'تم تحديث الزيارة بنجاح',
+	'visits.statusFailed': 'تعذر تحديث الحالة',
+	'visits.markedAs': 'تم تعيين الزيارة كـ {status}',
+	'visits.deleteConfirm': 'حذف زيارة {customer}؟',
+	'visits.deleted': 'تم حذف الزيارة بنجاح',
+	'visits.deleteFailed': 'تعذر حذف الزيارة',
+	'visits.scheduleNew': 'جدولة زيارة جديدة',
+	'visits.edit': 'تعديل الزيارة',
+	'visits.editDescription': 'حدّث تفاصيل الزيارة والمندوب المسؤول',
+	'visits.scheduleDescription': 'حدد تاريخ الزيارة والمندوب المسؤول',
+	'visits.customerRequired': 'العميل *',
+	'visits.selectCustomer': 'اختر العميل',
+	'visits.representativeRequired': 'المندوب *',
+	'visits.selectRepresentative': 'اختر المندوب',
+	'visits.dateRequired': 'تاريخ الزيارة *',
+	'visits.time': 'وقت الزيارة',
+	'visits.address': 'العنوان',
+	'visits.locationPlaceholder': 'موقع الزيارة',
+	'visits.notesPlaceholder': 'ملاحظات الزيارة ومتطلباتها',
+	'visits.schedule': 'جدولة الزيارة',
+	'visits.total': 'إجمالي الزيارات',
+	'visits.allRecorded': 'جميع الزيارات المسجلة',
+	'visits.upcoming': 'القادمة',
+	'visits.finished': 'أُنجزت بنجاح',
+	'visits.thisMonth': 'هذا الشهر',
+	'visits.byRepresentative': 'الزيارات حسب المندوب',
+	'visits.allCount': 'الكل ({count})',
+	'visits.all': 'جميع الزيارات',
+	'visits.sortOrder': 'ترتيب العرض',
+	'visits.newestFirst': 'الأحدث أولًا',
+	'visits.oldestFirst': 'الأقدم أولًا',
+	'visits.searchPlaceholder': 'ابحث في الزيارات...',
+	'visits.visitId': 'رقم الزيارة',
+	'visits.representative': 'المندوب',
+	'visits.dateTime': 'التاريخ والوقت',
+	'visits.empty': 'لا توجد زيارات',
+	'visits.status.scheduled': 'مجدولة',
+	'visits.status.completed': 'مكتملة',
+	'visits.status.cancelled': 'ملغاة',
+
+	// Payments
+	'payments.title': 'إدارة المدفوعات',
+	'payments.subtitle': 'التحصيل والفواتير والمدفوعات',
+	'payments.unknownCustomer': 'عميل غير معروف',
+	'payments.printWindowFailed': 'تعذر فتح نافذة الطباعة',
+	'payments.printing': 'جارٍ طباعة إيصال {number}',
+	'payments.generatingPdf': 'جارٍ إنشاء ملف PDF...',
+	'payments.receiptDownloaded': 'تم تنزيل الإيصال',
+	'payments.pdfFailed': 'تعذر إنشاء ملف PDF',
+	'payments.downloadPdf': 'تنزيل PDF',
+	'payments.selectInvoiceError': 'يرجى اختيار فاتورة',
+	'payments.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'payments.methodUnsupported': 'طريقة الدفع المختارة غير مدعومة. يرجى اختيار طريقة أخرى.',
+	'payments.invalidAmount': 'يرجى إدخال مبلغ دفع صحيح',
+	'payments.invoiceNotFound': 'الفاتورة غير موجودة',
+	'payments.exceedsRemaining': 'لا يمكن أن يتجاوز مبلغ الدفع المبلغ المتبقي',
+	'payments.recordFailed': 'تعذر تسجيل الدفعة',
+	'payments.invoiceUpdateFailed': 'تعذر تحديث الفاتورة',
+	'payments.recorded': 'تم تسجيل دفعة بمبلغ {amount} بنجاح!',
+	'payments.recordNew': 'تسجيل دفعة جديدة',
+	'payments.recordFor': 'تسجيل دفعة للفاتورة {number}',
+	'payments.recordFromCustomer': 'تسجيل دفعة مستلمة من {customer}',
+	'payments.enterDetails': 'أدخل تفاصيل الدفعة المستلمة',
+	'payments.totalAmount': 'المبلغ الإجمالي',
+	'payments.paidAmount': 'المبلغ المدفوع',
+	'payments.remaining': 'المتبقي',
+	'payments.invoiceNumber': 'رقم الفاتورة',
+	'payments.customerLabel': 'العميل: {customer}',
+	'payments.searchInvoiceNumber': 'ابحث برقم الفاتورة...',
+	'payments.selectInvoice': 'اختر الفاتورة',
+	'payments.paidShort': 'مدفوع: {amount}',
+	'payments.remainingShort': 'متبقٍ: {amount}',
+	'payments.amountPaidSar': 'المبلغ المدفوع (ريال)',
+	'payments.fullAmount': 'المبلغ كاملًا',
+	'payments.paymentDate': 'تاريخ الدفع',
+	'payments.paymentMethod': 'طريقة الدفع',
+	'payments.selectMethod': 'اختر الطريقة',
+	'payments.reference': 'المرجع / رقم الإيصال',
+	'payments.referencePlaceholder': 'رقم التحويل أو الإيصال',
+	'payments.record': 'تسجيل الدفعة',
+	'payments.totalPaid': 'إجمالي المدفوع',
+	'payments.totalRemaining': 'إجمالي المتبقي',
+	'payments.partialPayments': 'الدفعات الجزئية',
+	'payments.collected': 'المبالغ المحصلة',
+	'payments.outstanding': 'الرصيد المستحق',
+	'payments.partiallyPaid': 'مدفوعة جزئيًا',
+	'payments.upcoming': 'مستحقات قادمة',
+	'payments.requiresFollowUp': 'تتطلب متابعة',
+	'payments.searchPlaceholder': 'ابحث عن فاتورة...',
+	'payments.allInvoices': 'جميع الفواتير',
+	'payments.loading': 'جارٍ تحميل المدفوعات...',
+	'payments.emptyTitle': 'لا توجد مدفوعات بعد',
+	'payments.emptyDescription': 'ابدأ بتتبع مدفوعاتك بتسجيل أول دفعة. اضغط زر "تسجيل دفعة جديدة" للبدء.',
+	'payments.noMatches': 'لا توجد مدفوعات تطابق معايير البحث.',
+	'payments.dueDate': 'تاريخ الاستحقاق',
+	'payments.collect': 'تحصيل ({amount})',
+	'payments.fullyPaid': 'مدفوعة بالكامل',
+	'payments.method.cash': '💵 نقدي',
+	'payments.method.bankTransfer': '🏦 تحويل بنكي',
+	'payments.method.creditCard': '💳 بطاقة ائتمان',
+	'payments.method.cheque': '📝 شيك',
+
+	// Dashboard
+	'dashboard.title': 'نظرة عامة على لوحة التحكم',
+	'dashboard.subtitle': 'مرحباً بعودتك! إليك ما يحدث في أعمالك اليوم.',
+	'dashboard.loadFailed': 'تعذر تحميل بيانات لوحة التحكم',
+	'dashboard.activitiesFailed': 'تعذر تحميل أنشطة النظام',
+	'dashboard.stats.totalRevenue': 'إجمالي الإيرادات',
+	'dashboard.stats.vsPreviousMonth': 'مقارنة بإيرادات الشهر السابق',
+	'dashboard.stats.activeCustomers': 'العملاء النشطون',
+	'dashboard.stats.newThisMonth': '{count} جديد هذا الشهر',
+	'dashboard.stats.customersActive': 'العملاء المصنفون كنشطين',
+	'dashboard.stats.activeContracts': 'العقود النشطة',
+	'dashboard.stats.contractsActive': 'العقود بحالة نشطة',
+	'dashboard.stats.campaignCtr': 'متوسط نسبة النقر للحملات',
+	'dashboard.stats.clicks': '{count} نقرة',
+	'dashboard.stats.impressions': '{count} ظهور إجمالاً',
+	'dashboard.justNow': 'الآن',
+	'dashboard.minuteAgo': 'منذ دقيقة',
+	'dashboard.minutesAgo': 'منذ {count} دقيقة',
+	'dashboard.hourAgo': 'منذ ساعة',
+	'dashboard.hoursAgo': 'منذ {count} ساعة',
+	'dashboard.dayAgo': 'منذ يوم',
+	'dashboard.daysAgo': 'منذ {count} يوم',
+	'dashboard.feed.paymentRecorded': 'تم تسجيل دفعة',
+	'dashboard.feed.paymentReceived': 'تم استلام دفعة بقيمة {amount}',
+	'dashboard.feed.paymentReceivedVia': 'تم استلام دفعة بقيمة {amount} عبر {method}',
+	'dashboard.feed.invoiceRef': 'فاتورة {id}',
+	'dashboard.feed.customerAdded': 'تمت إضافة عميل جديد',
+	'dashboard.feed.contractCreated': 'تم إنشاء عقد',
+	'dashboard.feed.campaignStatus': 'حملة {status}',
+	'dashboard.feed.campaignUpdated': 'تم تحديث حملة',
+	'dashboard.feed.visitLogged': 'تم تسجيل زيارة',
+	'dashboard.feed.scheduledVisit': 'زيارة مجدولة',
+	'dashboard.feed.system': 'النظام',
+	'dashboard.feed.automation': 'آلي',
+	'dashboard.activityType.customer': 'عميل',
+	'dashboard.activityType.lead': 'عميل محتمل',
+	'dashboard.activityType.contract': 'عقد',
+	'dashboard.activityType.visit': 'زيارة',
+	'dashboard.activityType.payment': 'دفعة',
+	'dashboard.activityType.quotation': 'عرض سعر',
+	'dashboard.activityType.invoice': 'فاتورة',
+	'dashboard.activityType.reminder': 'تذكير',
+	'dashboard.activityType.system': 'النظام',
+	'dashboard.priority.high': 'عالية',
+	'dashboard.priority.medium': 'متوسطة',
+	'dashboard.priority.low': 'منخفضة',
+	'dashboard.todayActivities': 'أنشطة اليوم',
+	'dashboard.activeTrend': 'نشط',
+	'dashboard.systemEvents': 'أحداث النظام',
+	'dashboard.revenueTitle': 'نظرة عامة على الإيرادات',
+	'dashboard.revenueDescription': 'الإيرادات الشهرية لآخر 6 أشهر',
+	'dashboard.refreshRevenue': 'تحديث بيانات الإيرادات',
+	'dashboard.noRevenue': 'لا توجد بيانات إيرادات',
+	'dashboard.revenue': 'الإيرادات',
+	'dashboard.byTypeTitle': 'الأنشطة حسب النوع',
+	'dashboard.byTypeDescription': 'توزيع أنشطة اليوم',
+	'dashboard.noActivitiesToday': 'لا توجد أنشطة اليوم',
+	'dashboard.pendingTitle': 'تذكيرات اليوم المعلقة',
+	'dashboard.pendingDescription': 'المهام المجدولة لليوم',
+	'dashboard.noPending': 'لا توجد تذكيرات معلقة لليوم',
+	'dashboard.completedTitle': 'المنجز اليوم',
+	'dashboard.completedDescription': 'المهام المنجزة اليوم',
+	'dashboard.completedAt': 'أُنجزت {time}',
+	'dashboard.customerName': 'العميل: {name}',
+	'dashboard.noCompleted': 'لم تُنجز أي مهام اليوم بعد',
+	'dashboard.upcomingTitle': 'التذكيرات القادمة',
+	'dashboard.upcomingDescription': 'المهام المجدولة التالية',
+	'dashboard.logTitle': 'سجل أنشطة النظام',
+	'dashboard.logDescription': 'أحدث أنشطة النظام',
+	'dashboard.refreshActivities': 'تحديث الأنشطة',
+	'dashboard.noRecords': 'لا توجد سجلات أنشطة',
+	'dashboard.visitsTitle': 'الزيارات الأسبوعية',
+	'dashboard.visitsDescription': 'عدد زيارات العملاء هذا الأسبوع',
+	'dashboard.noVisits': 'لا توجد بيانات زيارات',
+	'dashboard.visits': 'الزيارات',
+	'dashboard.recentTitle': 'الأنشطة الأخيرة',
+	'dashboard.recentDescription': 'آخر أنشطة النظام',
+	'dashboard.todayCount': '{count} اليوم',
+	'dashboard.noActivities': 'لم تُسجل أي أنشطة للنظام بعد',
+	'dashboard.amount': 'المبلغ: {amount}',
+	'dashboard.statusLabel': 'الحالة:',
+	'dashboard.changedFrom': 'تغيّر من',
+	'dashboard.changedTo': 'إلى',
+
+	// Customer statements
+	'statement.title': 'كشوف حساب العملاء',
+	'statement.subtitle': 'إنشاء كشوف حساب تفصيلية لتحصيل المدفوعات',
+	'statement.unknownCustomer': 'عميل غير معروف',
+	'statement.invoiceIssued': 'تم إصدار الفاتورة',
+	'statement.paidOnInvoice': 'مدفوع عند الفاتورة',
+	'statement.paymentVia': 'دفعة عبر {method}',
+	'statement.onInvoice': 'على {reference}',
+	'statement.generatingPdf': 'جارٍ إنشاء ملف PDF...',
+	'statement.downloaded': 'تم تنزيل الكشف',
+	'statement.pdfFailed': 'تعذر إنشاء ملف PDF',
+	'statement.downloadPdf': 'تنزيل PDF',
+	'statement.print': 'طباعة الكشف',
+	'statement.generateTitle': 'إنشاء كشف حساب',
+	'statement.generateDescription': 'اختر العميل والفترة لإنشاء كشف التحصيل',
+	'statement.searchPlaceholder': 'ابحث بالاسم، الجوال، رقم العقد، رقم الحساب',
+	'statement.selectCustomer': 'اختر العميل',
+	'statement.noCustomers': 'لا يوجد عملاء',
+	'statement.fromDate': 'من تاريخ',
+	'statement.toDate': 'إلى تاريخ',
+	'statement.totalInvoiced': 'إجمالي الفواتير',
+	'statement.invoicesIssued': '{count} فاتورة صادرة',
+	'statement.totalPayments': 'إجمالي المدفوعات',
+	'statement.paymentsReceived': '{count} دفعة مستلمة',
+	'statement.openingBalance': 'الرصيد الافتتاحي',
+	'statement.periodStart': 'بداية الفترة: {date}',
+	'statement.outstandingBalance': 'الرصيد المستحق',
+	'statement.amountDue': 'مبلغ مستحق للتحصيل',
+	'statement.fullyPaid': 'الحساب مسدد بالكامل',
+	'statement.agingTitle': 'أعمار الديون',
+	'statement.agingDescription': 'الفواتير غير المسددة حسب أيام التأخير عن تاريخ الاستحقاق، حتى {date}',
+	'statement.totalDue': 'إجمالي المستحق',
+	'statement.historyTitle': 'سجل المعاملات',
+	'statement.showingOne': 'عرض معاملة واحدة لـ {name} ({from} - {to})',
+	'statement.showing': 'عرض {count} معاملة لـ {name} ({from} - {to})',
+	'statement.selectToView': 'اختر عميلاً لعرض المعاملات',
+	'statement.reference': 'المرجع',
+	'statement.type': 'النوع',
+	'statement.details': 'التفاصيل',
+	'statement.invoiced': 'مدين',
+	'statement.paid': 'دائن',
+	'statement.balance': 'الرصيد',
+	'statement.openingBroughtForward': 'رصيد افتتاحي مرحل',
+	'statement.noTransactionsInRange': 'لا توجد معاملات لـ {name} في الفترة المحددة ({from} - {to}).',
+	'statement.noTransactions': 'لا توجد معاملات لهذا العميل.',
+
+	// Expenses
+	'expenses.title': 'إدارة المصروفات',
+	'expenses.subtitle': 'تتبع وإدارة مصروفات المشتريات',
+	'expenses.syncing': 'جارٍ مزامنة أحدث البيانات...',
+	'expenses.category.officeSupplies': 'مستلزمات مكتبية',
+	'expenses.category.transportation': 'مواصلات',
+	'expenses.category.utilities': 'خدمات ومرافق',
+	'expenses.category.marketing': 'تسويق',
+	'expenses.category.maintenance': 'صيانة',
+	'expenses.category.salaries': 'رواتب',
+	'expenses.category.rent': 'إيجار',
+	'expenses.category.other': 'أخرى',
+	'expenses.method.cash': 'نقدي',
+	'expenses.method.creditCard': 'بطاقة ائتمان',
+	'expenses.method.bankTransfer': 'تحويل بنكي',
+	'expenses.method.check': 'شيك',
+	'expenses.remainingBalance': 'الرصيد المتبقي',
+	'expenses.alreadyPaid': 'مدفوع بالكامل',
+	'expenses.paidExceedsTotal': 'لا يمكن أن يتجاوز المبلغ المدفوع المبلغ الإجمالي {total}',
+	'expenses.paymentExceedsBalanceOf': 'لا يمكن أن يتجاوز مبلغ الدفعة الرصيد المتبقي {balance}',
+	'expenses.categoryNameRequired': 'يرجى إدخال اسم الفئة',
+	'expenses.categoryExists': 'الفئة موجودة بالفعل',
+	'expenses.categoryAdded': 'تمت إضافة الفئة بنجاح!',
+	'expenses.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'expenses.paidAmountExceedsTotal': 'لا يمكن أن يتجاوز المبلغ المدفوع ({paid}) المبلغ الإجمالي ({total})',
+	'expenses.updated': 'تم تحديث المصروف بنجاح!',
+	'expenses.added': 'تمت إضافة المصروف بنجاح!',
+	'expenses.saveFailed': 'تعذر حفظ المصروف',
+	'expenses.confirmDelete': 'هل أنت متأكد من حذف هذا المصروف؟',
+	'expenses.deleted': 'تم حذف المصروف بنجاح!',
+	'expenses.deleteFailed': 'تعذر حذف المصروف',
+	'expenses.paymentRequired': 'يرجى اختيار المصروف وإدخال مبلغ الدفعة',
+	'expenses.referenceRequired': 'الرقم المرجعي مطلوب',
+	'expenses.notFound': 'لم يتم العثور على المصروف المحدد',
+	'expenses.alreadyFullyPaid': 'هذا المصروف مدفوع بالكامل',
+	'expenses.paymentExceedsBalance': 'لا يمكن أن يتجاوز مبلغ الدفعة الرصيد المتبقي',
+	'expenses.paymentRecorded': 'تم تسجيل الدفعة بنجاح!',
+	'expenses.paymentFailed': 'تعذر تسجيل الدفعة',
+	'expenses.addCategory': 'إضافة فئة',
+	'expenses.newCategoryTitle': 'إضافة فئة جديدة',
+	'expenses.newCategoryDescription': 'إنشاء فئة مصروفات مخصصة',
+	'expenses.categoryName': 'اسم الفئة',
+	'expenses.categoryNamePlaceholder': 'أدخل اسم الفئة',
+	'expenses.addPayment': 'إضافة دفعة',
+	'expenses.totalExpenses': 'إجمالي المصروفات',
+	'expenses.fullyPaidExpenses': 'المصروفات المدفوعة بالكامل',
+	'expenses.outstanding': 'المستحق',
+	'expenses.awaitingPayment': 'بانتظار الدفع',
+	'expenses.thisMonth': 'هذا الشهر',
+	'expenses.transactionsRecorded': 'المعاملات المسجلة',
+	'expenses.tab.expenses': 'المصروفات',
+	'expenses.tab.payments': 'مدفوعات المصروفات',
+	'expenses.records': 'سجلات المصروفات',
+	'expenses.category': 'الفئة',
+	'expenses.allCategories': 'جميع الفئات',
+	'expenses.searchPlaceholder': 'البحث في المصروفات...',
+	'expenses.number': 'رقم المصروف',
+	'expenses.description': 'الوصف',
+	'expenses.paidTo': 'المدفوع له',
+	'expenses.baseAmount': 'المبلغ الأساسي',
+	'expenses.tax': 'الضريبة',
+	'expenses.paid': 'المدفوع',
+	'expenses.remaining': 'المتبقي',
+	'expenses.empty': 'لا توجد مصروفات',
+	'expenses.recordPayment': 'تسجيل دفعة',
+	'expenses.edit': 'تعديل المصروف',
+	'expenses.delete': 'حذف المصروف',
+	'expenses.viewReceipt': 'عرض الإيصال',
+	'expenses.downloadReceipt': 'تنزيل الإيصال',
+	'expenses.paymentsDescription': 'سجل مرجعي لمدفوعات المصروفات المسجلة',
+	'expenses.paymentDate': 'تاريخ الدفع',
+	'expenses.expense': 'المصروف',
+	'expenses.vendor': 'المورد',
+	'expenses.amount': 'المبلغ',
+	'expenses.method': 'الطريقة',
+	'expenses.reference': 'المرجع',
+	'expenses.noPayments': 'لم تُسجل أي دفعات بعد',
+	'expenses.unknownExpense': 'مصروف غير معروف',
+	'expenses.newTitle': 'إضافة مصروف جديد',
+	'expenses.newDescription': 'أدخل تفاصيل المصروف',
+	'expenses.dateRequired': 'التاريخ *',
+	'expenses.categoryRequired': 'الفئة *',
+	'expenses.selectCategory': 'اختر الفئة',
+	'expenses.descriptionRequired': 'الوصف *',
+	'expenses.descriptionPlaceholder': 'أدخل وصف المصروف',
+	'expenses.amountDetails': 'تفاصيل المبلغ',
+	'expenses.baseAmountSar': 'المبلغ الأساسي (ر.س) *',
+	'expenses.taxRate': 'نسبة الضريبة (%)',
+	'expenses.taxAmountSar': 'مبلغ الضريبة (ر.س)',
+	'expenses.totalAmountSar': 'المبلغ الإجمالي (ر.س)',
+	'expenses.paidAmountSar': 'المبلغ المدفوع (ر.س)',
+	'expenses.remainingAmountSar': 'المبلغ المتبقي (ر.س)',
+	'expenses.paymentMethodRequired': 'طريقة الدفع *',
+	'expenses.selectMethod': 'اختر الطريقة',
+	'expenses.paidToRequired': 'المدفوع له *',
+	'expenses.paidToPlaceholder': 'اسم المورد أو الشركة',
+	'expenses.receiptNumber': 'رقم الإيصال',
+	'expenses.notesPlaceholder': 'ملاحظات إضافية',
+	'expenses.saving': 'جارٍ الحفظ...',
+	'expenses.update': 'تحديث المصروف',
+	'expenses.add': 'إضافة مصروف',
+	'expenses.paymentTitle': 'تسجيل دفعة مصروف',
+	'expenses.paymentDialogDescription': 'تسجيل دفعة على مصروف (للمرجع فقط، لا تتأثر أرصدة الموردين)',
+	'expenses.expenseRequired': 'المصروف *',
+	'expenses.selectExpense': 'اختر المصروف',
+	'expenses.remainingAmount': '{amount} متبقٍ',
+	'expenses.amountSarRequired': 'المبلغ (ر.س) *',
+	'expenses.full': 'كامل',
+	'expenses.paymentDateRequired': 'تاريخ الدفع *',
+	'expenses.methodRequired': 'الطريقة *',
+	'expenses.referenceRequiredLabel': 'المرجع *',
+	'expenses.referencePlaceholder': 'TRX-0001 أو CHE-1234',
+	'expenses.paymentNotesPlaceholder': 'تفاصيل الدفعة...',
+	'expenses.recording': 'جارٍ التسجيل...',
+	'expenses.receiptTitle': 'إيصال المصروف',
+	'expenses.receiptDescription': 'معلومات المصروف التفصيلية',
+	'expenses.paymentMethod': 'طريقة الدفع',
+	'expenses.taxAmount': 'مبلغ الضريبة',
+
+	// Purchases
+	'purchases.title': 'إدارة المشتريات',
+	'purchases.subtitle': 'تتبع وإدارة جميع أوامر الشراء والمخزون',
+	'purchases.export': 'تصدير',
+	'purchases.exportExcel': 'تصدير إلى Excel',
+	'purchases.exportPdf': 'تصدير إلى PDF',
+	'purchases.nothingToExport': 'لا توجد بيانات للتصدير. جرّب تعديل عوامل التصفية.',
+	'purchases.pdfReady': 'ملف PDF جاهز للطباعة',
+	'purchases.printWindowFailed': 'تعذر فتح نافذة الطباعة',
+	'purchases.pdfFailed': 'تعذر تصدير ملف PDF',
+	'purchases.singlePdfReady': 'ملف PDF لأمر الشراء {number} جاهز للطباعة',
+	'purchases.singleExported': 'تم تصدير أمر الشراء {number} بنجاح',
+	'purchases.singleExportFailed': 'تعذر تصدير أمر الشراء',
+	'purchases.report.title': 'تقرير المشتريات',
+	'purchases.report.orderTitle': 'أمر شراء',
+	'purchases.report.date': 'التاريخ:',
+	'purchases.report.totalRecords': 'إجمالي السجلات:',
+	'purchases.report.itemsCount': 'عدد الأصناف',
+	'purchases.report.grandTotal': 'الإجمالي العام',
+	'purchases.category.scentProducts': 'منتجات العطور',
+	'purchases.category.equipment': 'المعدات',
+	'purchases.category.officeSupplies': 'مستلزمات مكتبية',
+	'purchases.category.packaging': 'التغليف',
+	'purchases.category.maintenance': 'الصيانة',
+	'purchases.category.other': 'أخرى',
+	'purchases.delivery.inTransit': 'قيد الشحن',
+	'purchases.delivery.delivered': 'تم التسليم',
+	'purchases.method.cash': 'نقدًا',
+	'purchases.method.creditCard': 'بطاقة ائتمان',
+	'purchases.method.bankTransfer': 'تحويل بنكي',
+	'purchases.method.check': 'شيك',
+	'purchases.unnamedSupplier': 'مورد بدون اسم',
+	'purchases.unknownSupplier': 'مورد غير معروف',
+	'purchases.addCategory': 'إضافة فئة',
+	'purchases.newCategoryTitle': 'إضافة فئة جديدة',
+	'purchases.newCategoryDescription': 'أنشئ فئة مشتريات مخصصة',
+	'purchases.categoryName': 'اسم الفئة',
+	'purchases.categoryNamePlaceholder': 'أدخل اسم الفئة',
+	'purchases.categoryNameRequired': 'يرجى إدخال اسم الفئة',
+	'purchases.categoryExists': 'الفئة موجودة بالفعل',
+	'purchases.categoryAdded': 'تمت إضافة الفئة بنجاح!',
+	'purchases.supplierAdded': 'تمت إضافة المورد بنجاح',
+	'purchases.supplierAddFailed': 'تعذرت إضافة المورد',
+	'purchases.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'purchases.created': 'تم إنشاء أمر الشراء بنجاح!',
+	'purchases.createFailed': 'تعذر إنشاء أمر الشراء',
+	'purchases.received': 'تم استلام {number} في المخزون',
+	'purchases.unresolvedItems': 'أصناف لا تطابق أي منتج أو مادة خام في المخزون ولم تتم إضافتها: {count}',
+	'purchases.receiveFailed': 'تعذر استلام أمر الشراء',
+	'purchases.new': 'أمر شراء جديد',
+	'purchases.createTitle': 'إنشاء أمر شراء',
+	'purchases.createDescription': 'أدخل تفاصيل أمر الشراء وأصنافه',
+	'purchases.dateRequired': 'التاريخ *',
+	'purchases.supplier': 'المورد',
+	'purchases.supplierSearchPlaceholder': 'ابحث عن مورد بالاسم أو الجوال...',
+	'purchases.loadingSuppliers': 'جارٍ تحميل الموردين...',
+	'purchases.suppliersFailed': 'تعذر تحميل الموردين: {error}',
+	'purchases.supplierCredit': 'رصيد المورد (دائن)',
+	'purchases.amountDueToSupplier': 'المبلغ المستحق للمورد',
+	'purchases.balanceSettled': 'الرصيد مسوّى حاليًا',
+	'purchases.category': 'الفئة',
+	'purchases.categoryRequired': 'الفئة *',
+	'purchases.selectCategory': 'اختر الفئة',
+	'purchases.items': 'الأصناف',
+	'purchases.itemsRequired': 'الأصناف *',
+	'purchases.addItem': 'إضافة صنف',
+	'purchases.itemName': 'اسم الصنف',
+	'purchases.itemPlaceholder': 'وصف الصنف',
+	'purchases.quantity': 'الكمية',
+	'purchases.unitPrice': 'سعر الوحدة',
+	'purchases.unitPriceSar': 'سعر الوحدة (ريال)',
+	'purchases.totalSar': 'الإجمالي (ريال)',
+	'purchases.subtotal': 'المجموع الفرعي',
+	'purchases.tax': 'الضريبة',
+	'purchases.taxRate': 'الضريبة ({rate}%)',
+	'purchases.taxAmount': 'مبلغ الضريبة',
+	'purchases.totalAmount': 'المبلغ الإجمالي',
+	'purchases.totalAmountSar': 'المبلغ الإجمالي (ريال)',
+	'purchases.paidAmount': 'المبلغ المدفوع',
+	'purchases.paidAmountSar': 'المبلغ المدفوع (ريال)',
+	'purchases.remainingAmount': 'المبلغ المتبقي',
+	'purchases.remainingAmountSar': 'المبلغ المتبقي (ريال)',
+	'purchases.useSupplierBalance': 'استخدام رصيد المورد',
+	'purchases.projectedBalance': 'الرصيد المتوقع بعد الطلب',
+	'purchases.balanceDue': '(مستحق)',
+	'purchases.balanceCredit': '(دائن)',
+	'purchases.balanceSettledShort': '(مسوّى)',
+	'purchases.noCredit': 'لا يوجد رصيد دائن للمورد لتطبيقه.',
+	'purchases.fullAmount': 'المبلغ كاملًا',
+	'purchases.paymentMethod': 'طريقة الدفع',
+	'purchases.selectMethod': 'اختر الطريقة',
+	'purchases.invoiceNumber': 'رقم الفاتورة',
+	'purchases.notesPlaceholder': 'ملاحظات إضافية',
+	'purchases.totalPurchases': 'إجمالي المشتريات',
+	'purchases.allTime': 'كل الأوقات',
+	'purchases.paid': 'المدفوع',
+	'purchases.completedPayments': 'المدفوعات المكتملة',
+	'purchases.pendingPayments': 'المدفوعات المعلقة',
+	'purchases.orders': 'أوامر الشراء',
+	'purchases.allCategories': 'جميع الفئات',
+	'purchases.searchPlaceholder': 'البحث في المشتريات...',
+	'purchases.loading': 'جارٍ تحميل أوامر الشراء...',
+	'purchases.empty': 'لا توجد مشتريات. أنشئ أول أمر شراء!',
+	'purchases.number': 'رقم الشراء',
+	'purchases.remaining': 'المتبقي',
+	'purchases.payment': 'الدفع',
+	'purchases.delivery': 'التسليم',
+	'purchases.itemCount': '{count} أصناف',
+	'purchases.markReceived': 'تعليم كمستلم',
+	'purchases.detailsTitle': 'تفاصيل أمر الشراء - {number}',
+	'purchases.detailsDescription': 'معلومات أمر الشراء الكاملة',
+	'purchases.orderInformation': 'معلومات الطلب',
+	'purchases.purchaseNumber': 'رقم الشراء',
+	'purchases.returnedQty': 'الكمية المرتجعة',
+	'purchases.returnedTotal': 'إجمالي المرتجع',
+	'purchases.statusInformation': 'معلومات الحالة',
+	'purchases.paymentStatus': 'حالة الدفع',
+	'purchases.deliveryStatus': 'حالة التسليم',
+	'purchases.deliveryDate': 'تاريخ التسليم',
+
+	// VAT and Zakat
+	'vat.title': 'إدارة ضريبة القيمة المضافة والزكاة',
+	'vat.subtitle': 'إدارة حسابات وإقرارات ضريبة القيمة المضافة (15%) والزكاة (2.5%)',
+	'vat.quarter.q1': 'الربع الأول',
+	'vat.quarter.q2': 'الربع الثاني',
+	'vat.quarter.q3': 'الربع الثالث',
+	'vat.quarter.q4': 'الربع الرابع',
+	'vat.quarterRange.q1': 'الربع الأول (يناير - مارس)',
+	'vat.quarterRange.q2': 'الربع الثاني (أبريل - يونيو)',
+	'vat.quarterRange.q3': 'الربع الثالث (يوليو - سبتمبر)',
+	'vat.quarterRange.q4': 'الربع الرابع (أكتوبر - ديسمبر)',
+	'vat.period': '{quarter} {year}',
+	'vat.year': 'سنة {year}',
+	'vat.source.invoice': 'فاتورة',
+	'vat.source.purchase': 'أمر شراء',
+	'vat.source.expense': 'مصروف',
+	'vat.source.return': 'مرتجع',
+	'vat.source.creditNote': 'إشعار دائن',
+	'vat.source.debitNote': 'إشعار مدين',
+	'vat.submitted': 'مقدَّم',
+	'vat.loadFailed': 'تعذر تحميل سجلات ضريبة القيمة المضافة',
+	'vat.zakatLoadFailed': 'تعذر تحميل سجلات الزكاة',
+	'vat.computeFailed': 'تعذر احتساب الضريبة من المستندات',
+	'vat.recalculated': 'تمت إعادة احتساب الإقرار من المستندات المصدرية',
+	'vat.recalculateFailed': 'تعذرت إعادة احتساب سجل الضريبة',
+	'vat.invalidYear': 'يجب أن تكون السنة رقمًا صحيحًا',
+	'vat.stillCalculating': 'ما زال احتساب الضريبة لهذا الربع جاريًا',
+	'vat.notCalculated': 'تعذر احتساب الضريبة لهذا الربع',
+	'vat.updated': 'تم تحديث سجل الضريبة بنجاح',
+	'vat.updateFailed': 'تعذر تحديث سجل الضريبة',
+	'vat.added': 'تمت إضافة سجل الضريبة بنجاح',
+	'vat.createFailed': 'تعذر إنشاء سجل الضريبة',
+	'vat.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'vat.zakatUpdated': 'تم تحديث سجل الزكاة بنجاح',
+	'vat.zakatUpdateFailed': 'تعذر تحديث سجل الزكاة',
+	'vat.zakatAdded': 'تمت إضافة سجل الزكاة بنجاح',
+	'vat.zakatCreateFailed': 'تعذر إنشاء سجل الزكاة',
+	'vat.notFound': 'سجل الضريبة غير موجود',
+	'vat.deleteConfirm': 'حذف سجل الضريبة للفترة {period}؟',
+	'vat.deleted': 'تم حذف سجل الضريبة بنجاح',
+	'vat.deleteFailed': 'تعذر حذف سجل الضريبة',
+	'vat.zakatNotFound': 'سجل الزكاة غير موجود',
+	'vat.zakatDeleteConfirm': 'حذف سجل الزكاة لسنة {year}؟',
+	'vat.zakatDeleted': 'تم حذف سجل الزكاة بنجاح',
+	'vat.zakatDeleteFailed': 'تعذر حذف سجل الزكاة',
+	'vat.statusUpdated': 'تم تحديث الحالة بنجاح',
+	'vat.statusUpdateFailed': 'تعذر تحديث الحالة',
+	'vat.addZakat': 'إضافة زكاة',
+	'vat.new': 'سجل ضريبة جديد',
+	'vat.totalCollected': 'إجمالي الضريبة المحصلة',
+	'vat.netPayable': 'صافي الضريبة المستحقة',
+	'vat.afterInputVat': 'بعد ضريبة المدخلات: {amount}',
+	'vat.pending': 'الضريبة المعلقة',
+	'vat.paidAmount': 'المدفوع: {amount}',
+	'vat.zakatDue': 'الزكاة المستحقة',
+	'vat.zakatYearRate': 'سنة {year} بنسبة 2.5%',
+	'vat.tabReturns': 'إقرارات الضريبة',
+	'vat.tabZakat': 'الزكاة',
+	'vat.calculator': 'حاسبة الضريبة',
+	'vat.returnsTitle': 'الإقرارات الضريبية الربعية',
+	'vat.returnsDescription': 'إقرارات ضريبة القيمة المضافة (15%) الربعية',
+	'vat.periodHeading': 'الفترة',
+	'vat.salesIncVat': 'المبيعات (شاملة الضريبة)',
+	'vat.vatOnSales': 'ضريبة المبيعات',
+	'vat.inputVat': 'ضريبة المدخلات',
+	'vat.loading': 'جارٍ تحميل سجلات الضريبة...',
+	'vat.empty': 'لا توجد سجلات ضريبة',
+	'vat.excludingShort': 'بدون الضريبة: {amount}',
+	'vat.outOfDate': 'الإقرار غير محدَّث',
+	'vat.submit': 'تقديم',
+	'vat.markPaid': 'تعليم كمدفوع',
+	'vat.zakatRecords': 'سجلات الزكاة',
+	'vat.zakatDescription': 'الزكاة السنوية (2.5%) على صافي الأصول',
+	'vat.yearHeading': 'السنة',
+	'vat.totalAssets': 'إجمالي الأصول',
+	'vat.liabilities': 'الالتزامات',
+	'vat.netAssets': 'صافي الأصول',
+	'vat.zakatDueRate': 'الزكاة المستحقة (2.5%)',
+	'vat.zakatLoading': 'جارٍ تحميل سجلات الزكاة...',
+	'vat.zakatEmpty': 'لا توجد سجلات زكاة',
+	'vat.calculatorDescription': 'احسب الضريبة من مبلغ شامل الضريبة',
+	'vat.amountIncVat': 'المبلغ شامل الضريبة (ريال)',
+	'vat.amountExcVat': 'المبلغ بدون الضريبة:',
+	'vat.vatAmountRate': 'مبلغ الضريبة (15%):',
+	'vat.formula': 'المعادلة:',
+	'vat.vatFormula': 'الضريبة = المبلغ شامل الضريبة × (0.15 / 1.15)',
+	'vat.zakatCalculator': 'حاسبة الزكاة',
+	'vat.zakatCalculatorDescription': 'احسب الزكاة على صافي الأصول (2.5%)',
+	'vat.totalAssetsSar': 'إجمالي الأصول (ريال)',
+	'vat.totalLiabilitiesSar': 'إجمالي الالتزامات (ريال)',
+	'vat.netAssetsLabel': 'صافي الأصول:',
+	'vat.zakatDueLabel': 'الزكاة المستحقة (2.5%):',
+	'vat.zakatFormula': 'الزكاة = صافي الأصول × 2.5%',
+	'vat.editTitle': 'تعديل سجل الضريبة',
+	'vat.addTitle': 'إضافة سجل ضريبة',
+	'vat.editDescription': 'حدّث قيم الإقرار الضريبي الربعي.',
+	'vat.addDescription': 'أضف إقرارًا ضريبيًا ربعيًا جديدًا. تُحتسب المبالغ من مستندات الربع.',
+	'vat.quarterRequired': 'الربع *',
+	'vat.yearRequired': 'السنة *',
+	'vat.totalSalesIncVat': 'إجمالي المبيعات (شاملة الضريبة)',
+	'vat.calculating': 'جارٍ الاحتساب...',
+	'vat.salesFrom': 'من {count} فاتورة مؤرخة في الربع',
+	'vat.salesHint': 'تُحتسب من الفواتير المؤرخة في الربع المحدد',
+	'vat.totalPurchasesIncVat': 'إجمالي المشتريات (شاملة الضريبة)',
+	'vat.purchasesFrom': 'من {count} من أوامر الشراء والمصروفات والمرتجعات',
+	'vat.purchasesHint': 'تُحتسب من أوامر الشراء والمصروفات والمرتجعات المكتملة',
+	'vat.preview': 'معاينة الاحتساب:',
+	'vat.vatOnSalesLabel': 'ضريبة المبيعات:',
+	'vat.inputVatLabel': 'ضريبة المدخلات:',
+	'vat.netPayableLabel': 'صافي الضريبة المستحقة:',
+	'vat.totalAssetsLabel': 'إجمالي الأصول:',
+	'vat.totalLiabilitiesLabel': 'إجمالي الالتزامات:',
+	'vat.notesPlaceholder': 'ملاحظات إضافية...',
+	'vat.zakatEditTitle': 'تعديل سجل الزكاة',
+	'vat.zakatAddTitle': 'إضافة سجل زكاة',
+	'vat.zakatEditDescription': 'حدّث احتساب الزكاة السنوية (2.5% على صافي الأصول).',
+	'vat.zakatAddDescription': 'أضف احتساب الزكاة السنوية (2.5% على صافي الأصول)',
+	'vat.totalAssetsRequired': 'إجمالي الأصول (ريال) *',
+	'vat.totalLiabilitiesRequired': 'إجمالي الالتزامات (ريال) *',
+	'vat.detailsTitle': 'تفاصيل الإقرار الضريبي',
+	'vat.detailsDescription': '{period} - من {start} إلى {end}',
+	'vat.sales': 'المبيعات',
+	'vat.purchases': 'المشتريات',
+	'vat.includingVat': 'شاملة الضريبة:',
+	'vat.excludingVat': 'بدون الضريبة:',
+	'vat.vatRateLabel': 'الضريبة (15%):',
+	'vat.inputVatRateLabel': 'ضريبة المدخلات (15%):',
+	'vat.netFormula': 'ضريبة المبيعات ({sales}) - ضريبة المدخلات ({input})',
+	'vat.documentsChanged': 'تغيّرت مستندات هذه الفترة بعد احتساب الإقرار.',
+	'vat.recalculate': 'إعادة الاحتساب',
+	'vat.sourceDocuments': 'المستندات المصدرية ({count})',
+	'vat.type': 'النوع',
+	'vat.reference': 'المرجع',
+	'vat.net': 'الصافي',
+	'vat.vat': 'الضريبة',
+	'vat.calculatedAt': 'احتُسب في {date}',
+	'vat.submissionDate': 'تاريخ التقديم',
+	'vat.paymentDate': 'تاريخ الدفع',
+	'vat.downloadReport': 'تنزيل التقرير',
+	'vat.zakatDetails': 'تفاصيل الزكاة',
+
+	// Manufacturing
+	'manufacturing.title': 'التصنيع',
+	'manufacturing.subtitle': 'إدارة الإنتاج والتكاليف',
+	'manufacturing.syncing': 'جارٍ مزامنة أحدث البيانات...',
+	'manufacturing.status.inProgress': 'قيد التنفيذ',
+	'manufacturing.status.completed': 'مكتمل',
+	'manufacturing.unit.ml': 'مل',
+	'manufacturing.unit.liter': 'لتر',
+	'manufacturing.unit.gram': 'غرام',
+	'manufacturing.unit.kg': 'كغ',
+	'manufacturing.unit.piece': 'قطعة',
+	'manufacturing.unit.set': 'طقم',
+	'manufacturing.materialsError': 'المواد: {error}',
+	'manufacturing.recipesError': 'الوصفات: {error}',
+	'manufacturing.ordersError': 'الأوامر: {error}',
+	'manufacturing.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'manufacturing.materialUpdated': 'تم تحديث المادة الخام بنجاح!',
+	'manufacturing.materialAdded': 'تمت إضافة المادة الخام بنجاح!',
+	'manufacturing.materialSaveFailed': 'تعذر حفظ المادة الخام',
+	'manufacturing.materialDeleteConfirm': 'هل أنت متأكد من حذف هذه المادة الخام؟',
+	'manufacturing.materialDeleted': 'تم حذف المادة الخام بنجاح!',
+	'manufacturing.materialDeleteFailed': 'تعذر حذف المادة الخام',
+	'manufacturing.selectMaterialAndQuantity': 'يرجى اختيار المادة وإدخال الكمية',
+	'manufacturing.materialNotFound': 'المادة المحددة غير موجودة',
+	'manufacturing.quantityPositive': 'يجب أن تكون الكمية أكبر من صفر',
+	'manufacturing.itemAdded': 'تمت إضافة الصنف إلى الوصفة!',
+	'manufacturing.recipeRequired': 'يرجى تعبئة بيانات المنتج وإضافة مادة واحدة على الأقل',
+	'manufacturing.outputPositive': 'يجب أن تكون كمية الإنتاج أكبر من صفر',
+	'manufacturing.recipeUpdated': 'تم تحديث وصفة التصنيع بنجاح!',
+	'manufacturing.recipeCreated': 'تم إنشاء وصفة التصنيع بنجاح!',
+	'manufacturing.recipeSaveFailed': 'تعذر حفظ الوصفة',
+	'manufacturing.recipeDeleteConfirm': 'هل أنت متأكد من حذف وصفة التصنيع هذه؟',
+	'manufacturing.recipeDeleted': 'تم حذف الوصفة بنجاح!',
+	'manufacturing.recipeDeleteFailed': 'تعذر حذف الوصفة',
+	'manufacturing.selectRecipeAndBatch': 'يرجى اختيار الوصفة وإدخال حجم الدفعة',
+	'manufacturing.recipeNotFound': 'تعذر العثور على الوصفة المحددة',
+	'manufacturing.batchPositive': 'يجب أن يكون حجم الدفعة أكبر من صفر',
+	'manufacturing.orderUpdated': 'تم تحديث أمر التصنيع بنجاح!',
+	'manufacturing.orderCreated': 'تم إنشاء أمر التصنيع بنجاح!',
+	'manufacturing.orderSaveFailed': 'تعذر حفظ أمر التصنيع',
+	'manufacturing.orderDeleteConfirm': 'هل أنت متأكد من حذف أمر التصنيع هذا؟',
+	'manufacturing.orderDeleted': 'تم حذف أمر التصنيع بنجاح!',
+	'manufacturing.orderDeleteFailed': 'تعذر حذف أمر التصنيع',
+	'manufacturing.orderRecipeMissing': 'وصفة هذا الأمر لم تعد موجودة',
+	'manufacturing.noInventoryProduct': 'لا يوجد منتج في المخزون باسم "{name}" - لم تتم إضافة المنتجات النهائية إلى المخزون',
+	'manufacturing.costAboveStandard': 'التكلفة الفعلية تتجاوز المعيارية بمقدار {amount}',
+	'manufacturing.costBelowStandard': 'التكلفة الفعلية أقل من المعيارية بمقدار {amount}',
+	'manufacturing.statusUpdated': 'تم تحديث حالة الأمر إلى {status}!',
+	'manufacturing.statusUpdateFailed': 'تعذر تحديث حالة الأمر',
+	'manufacturing.totalMaterialsValue': 'إجمالي قيمة المواد',
+	'manufacturing.rawMaterialsInventory': 'مخزون المواد الخام',
+	'manufacturing.lowStockItems': 'أصناف منخفضة المخزون',
+	'manufacturing.needReordering': 'تحتاج إلى إعادة طلب',
+	'manufacturing.pendingOrders': 'الأوامر المعلقة',
+	'manufacturing.awaitingProduction': 'بانتظار الإنتاج',
+	'manufacturing.completedOrders': 'الأوامر المكتملة',
+	'manufacturing.thisMonth': 'هذا الشهر',
+	'manufacturing.tabOrders': 'أوامر التصنيع',
+	'manufacturing.tabRecipes': 'الوصفات (قائمة المواد)',
+	'manufacturing.tabMaterials': 'المواد الخام',
+	'manufacturing.searchOrders': 'البحث في الأوامر...',
+	'manufacturing.filterByStatus': 'التصفية حسب الحالة',
+	'manufacturing.newOrder': 'أمر جديد',
+	'manufacturing.orderNumber': 'رقم الأمر',
+	'manufacturing.product': 'المنتج',
+	'manufacturing.batchSize': 'حجم الدفعة',
+	'manufacturing.totalCost': 'التكلفة الإجمالية',
+	'manufacturing.startDate': 'تاريخ البدء',
+	'manufacturing.noOrders': 'لا توجد أوامر تصنيع',
+	'manufacturing.unitsCount': '{count} وحدة',
+	'manufacturing.actualCost': 'الفعلية {amount}',
+	'manufacturing.shortageOverride': 'تجاوز النقص',
+	'manufacturing.actualCostHint': 'التكلفة الفعلية عند الإكمال مقابل التكلفة المعيارية للوصفة',
+	'manufacturing.startProduction': 'بدء الإنتاج',
+	'manufacturing.markCompleted': 'تعليم كمكتمل',
+	'manufacturing.cancelOrder': 'إلغاء الأمر',
+	'manufacturing.editOrder': 'تعديل الأمر',
+	'manufacturing.deleteOrder': 'حذف الأمر',
+	'manufacturing.searchRecipes': 'البحث في الوصفات...',
+	'manufacturing.newRecipe': 'وصفة جديدة',
+	'manufacturing.sku': 'رمز الصنف',
+	'manufacturing.output': 'الإنتاج',
+	'manufacturing.materialCost': 'تكلفة المواد',
+	'manufacturing.costPerUnit': 'تكلفة الوحدة',
+	'manufacturing.noRecipes': 'لا توجد وصفات',
+	'manufacturing.viewDetails': 'عرض التفاصيل',
+	'manufacturing.searchMaterials': 'البحث في المواد...',
+	'manufacturing.addMaterial': 'إضافة مادة',
+	'manufacturing.material': 'المادة',
+	'manufacturing.category': 'الفئة',
+	'manufacturing.currentStock': 'المخزون الحالي',
+	'manufacturing.minStock': 'الحد الأدنى',
+	'manufacturing.totalValue': 'القيمة الإجمالية',
+	'manufacturing.noMaterials': 'لا توجد مواد',
+	'manufacturing.editMaterial': 'تعديل المادة',
+	'manufacturing.deleteMaterial': 'حذف المادة',
+	'manufacturing.materialDialogTitle': 'إضافة مادة خام',
+	'manufacturing.materialDialogDescription': 'أضف مادة خام جديدة إلى المخزون',
+	'manufacturing.nameEnRequired': 'الاسم (بالإنجليزية) *',
+	'manufacturing.nameAr': 'الاسم (بالعربية)',
+	'manufacturing.skuRequired': 'رمز الصنف *',
+	'manufacturing.categoryPlaceholder': 'مثال: زيوت عطرية',
+	'manufacturing.unit': 'الوحدة',
+	'manufacturing.costPerUnitRequired': 'تكلفة الوحدة (ريال) *',
+	'manufacturing.minimumStock': 'الحد الأدنى للمخزون',
+	'manufacturing.updateMaterial': 'تحديث المادة',
+	'manufacturing.saveMaterial': 'حفظ المادة',
+	'manufacturing.recipeDialogTitle': 'إنشاء وصفة تصنيع (قائمة المواد)',
+	'manufacturing.recipeDialogDescription': 'حدد طريقة تصنيع المنتج',
+	'manufacturing.productInformation': 'معلومات المنتج',
+	'manufacturing.productNameEnRequired': 'اسم المنتج (بالإنجليزية) *',
+	'manufacturing.productNameAr': 'اسم المنتج (بالعربية)',
+	'manufacturing.productSkuRequired': 'رمز المنتج *',
+	'manufacturing.outputQuantity': 'كمية الإنتاج',
+	'manufacturing.outputUnit': 'وحدة الإنتاج',
+	'manufacturing.materialsBom': 'المواد (قائمة المواد)',
+	'manufacturing.selectMaterial': 'اختر المادة',
+	'manufacturing.quantity': 'الكمية',
+	'manufacturing.additionalCosts': 'تكاليف إضافية',
+	'manufacturing.laborCostSar': 'تكلفة العمالة (ريال)',
+	'manufacturing.overheadCostSar': 'التكاليف غير المباشرة (ريال)',
+	'manufacturing.costSummary': 'ملخص التكلفة',
+	'manufacturing.materialCostLabel': 'تكلفة المواد:',
+	'manufacturing.laborCostLabel': 'تكلفة العمالة:',
+	'manufacturing.overheadCostLabel': 'التكاليف غير المباشرة:',
+	'manufacturing.totalCostLabel': 'التكلفة الإجمالية:',
+	'manufacturing.costPerUnitLabel': 'تكلفة الوحدة:',
+	'manufacturing.notesPlaceholder': 'ملاحظات إضافية...',
+	'manufacturing.updateRecipe': 'تحديث الوصفة',
+	'manufacturing.saveRecipe': 'حفظ الوصفة',
+	'manufacturing.recipeDetails': 'تفاصيل الوصفة',
+	'manufacturing.recipeDetailsDescription': 'عرض معلومات الوصفة الكاملة وتفصيل التكلفة',
+	'manufacturing.productName': 'اسم المنتج',
+	'manufacturing.bom': 'قائمة المواد',
+	'manufacturing.costBreakdown': 'تفصيل التكلفة',
+	'manufacturing.orderDialogTitle': 'إنشاء أمر تصنيع',
+	'manufacturing.orderDialogDescription': 'ابدأ دفعة إنتاج جديدة',
+	'manufacturing.selectRecipeRequired': 'اختر الوصفة *',
+	'manufacturing.chooseRecipe': 'اختر وصفة',
+	'manufacturing.recipeOption': '{name} - {cost} للوحدة',
+	'manufacturing.batchSizeRequired': 'حجم الدفعة (وحدات) *',
+	'manufacturing.estimatedCost': 'التكلفة التقديرية',
+	'manufacturing.forUnits': 'لعدد {count} وحدة',
+	'manufacturing.createdBy': 'أنشئ بواسطة',
+	'manufacturing.createdByPlaceholder': 'اسمك',
+	'manufacturing.updateOrder': 'تحديث الأمر',
+	'manufacturing.createOrder': 'إنشاء الأمر',
+	'manufacturing.shortageTitle': 'المواد الخام غير كافية',
+	'manufacturing.shortageDescription': 'يحتاج {number} إلى مخزون أكثر من المتوفر. اشترِ المواد الناقصة، أو أكمل الأمر مع ذكر السبب.',
+	'manufacturing.required': 'المطلوب',
+	'manufacturing.onHand': 'المتوفر',
+	'manufacturing.toPurchase': 'للشراء',
+	'manufacturing.estCost': 'التكلفة التقديرية',
+	'manufacturing.overrideReason': 'سبب التجاوز',
+	'manufacturing.overrideReasonPlaceholder': 'مثال: تم استلام المواد ولم تُسجل بعد',
+	'manufacturing.exportPurchaseList': 'تصدير قائمة الشراء',
+	'manufacturing.completeAnyway': 'الإكمال على أي حال',
+
+	// Settings
+	'settings.subtitle': 'إدارة إعدادات النظام والمستخدمين والصلاحيات',
+	'settings.tab.branding': 'الهوية',
+	'settings.tab.company': 'الشركة',
+	'settings.tab.users': 'المستخدمون',
+	'settings.tab.roles': 'الأدوار',
+	'settings.tab.system': 'النظام',
+	'settings.tab.backup': 'النسخ الاحتياطي',
+	'settings.saving': 'جارٍ الحفظ...',
+	'settings.superAdminRoleFailed': 'تعذر تجهيز دور المسؤول الأعلى',
+	'settings.superuserReset': 'تمت إعادة تعيين بيانات المسؤول الافتراضي ({email}).',
+	'settings.superuserCreated': 'تم إنشاء المسؤول الافتراضي ({email}). تذكّر تغيير كلمة المرور بعد أول تسجيل دخول.',
+	'settings.superuserFailed': 'تعذر تجهيز المسؤول الافتراضي',
+	'settings.brandingLoadFailed': 'تعذر تحميل إعدادات الهوية',
+	'settings.systemLoadFailed': 'تعذر تحميل إعدادات النظام',
+	'settings.notAuthenticated': 'المستخدم غير مسجل الدخول',
+	'settings.brandingRecordFailed': 'تعذر إنشاء سجل الهوية',
+	'settings.brandingRecordFailedWithReason': 'تعذر إنشاء سجل الهوية: {error}',
+	'settings.logoUploadFailed': 'تعذر رفع الشعار',
+	'settings.logoSaved': 'تم رفع الشعار وحفظه بنجاح',
+	'settings.logoUploaded': 'تم رفع الشعار بنجاح',
+	'settings.logoUrlDelayed': 'تم رفع الشعار بنجاح، لكن جلب الرابط متأخر. يرجى تحديث الصفحة.',
+	'settings.stampUploadFailed': 'تعذر رفع الختم',
+	'settings.stampUploaded': 'تم رفع الختم بنجاح',
+	'settings.logoDeleted': 'تم حذف الشعار بنجاح',
+	'settings.logoDeleteFailed': 'تعذر حذف الشعار',
+	'settings.stampDeleted': 'تم حذف الختم بنجاح',
+	'settings.stampDeleteFailed': 'تعذر حذف الختم',
+	'settings.brandingSaveFailed': 'تعذر حفظ إعدادات الهوية',
+	'settings.brandingSaved': 'تم حفظ هوية النظام بنجاح',
+	'settings.companySaved': 'تم حفظ إعدادات الشركة بنجاح',
+	'settings.systemSaved': 'تم حفظ إعدادات النظام بنجاح',
+	'settings.systemSaveFailed': 'تعذر حفظ إعدادات النظام',
+	'settings.emailInUse': 'البريد الإلكتروني {email} مستخدم بالفعل. يرجى استخدام بريد آخر.',
+	'settings.roleNotFound': 'الدور المحدد غير موجود',
+	'settings.passwordRequired': 'كلمة المرور مطلوبة',
+	'settings.userCreated': 'تم إنشاء مستخدم النظام لـ {name}',
+	'settings.userCreateFailed': 'تعذر إنشاء مستخدم النظام',
+	'settings.adminOnlyCreate': 'يمكن للمسؤولين الأعلى فقط إنشاء مستخدمين مسؤولين',
+	'settings.roleNotSuperAdmin': 'الدور المحدد لا يملك صلاحيات المسؤول الأعلى',
+	'settings.adminCreated': 'تم إنشاء المستخدم المسؤول بنجاح: {name}',
+	'settings.adminCreateFailed': 'تعذر إنشاء المستخدم المسؤول',
+	'settings.adminOnlyDelete': 'يمكن للمسؤولين الأعلى فقط حذف المستخدمين',
+	'settings.userNotFound': 'المستخدم غير موجود',
+	'settings.cannotDeleteSelf': 'لا يمكنك حذف حسابك',
+	'settings.usernameMismatch': 'اسم المستخدم غير مطابق. يرجى كتابة اسم المستخدم كما هو لتأكيد الحذف.',
+	'settings.userDeleted': 'تم حذف المستخدم بنجاح',
+	'settings.userDeleteFailed': 'تعذر حذف المستخدم',
+	'settings.userStatusUpdated': 'تم تحديث حالة المستخدم',
+	'settings.userStatusFailed': 'تعذر تحديث حالة المستخدم',
+	'settings.noEditUsersPermission': 'ليست لديك صلاحية تعديل المستخدمين.',
+	'settings.userUpdated': 'تم تحديث مستخدم النظام: {name}',
+	'settings.userUpdateFailed': 'تعذر تحديث مستخدم النظام',
+	'settings.noModifyRolesPermission': 'ليست لديك صلاحية تعديل الأدوار.',
+	'settings.roleCreated': 'تم إنشاء الدور بنجاح',
+	'settings.roleCreateFailed': 'تعذر إنشاء الدور',
+	'settings.roleNameExists': 'اسم الدور موجود بالفعل. يرجى اختيار اسم آخر.',
+	'settings.roleUpdated': 'تم تحديث الدور بنجاح ({name})',
+	'settings.rolePermissionsRefreshed': 'تم تحديث الصلاحيات لجميع مستخدمي هذا الدور',
+	'settings.roleUpdateFailed': 'تعذر تحديث الدور',
+	'settings.roleHasUsers': 'لا يمكن حذف دور مسند إلى مستخدمين',
+	'settings.roleDeleted': 'تم حذف الدور بنجاح',
+	'settings.roleDeleteFailed': 'تعذر حذف الدور',
+	'settings.noRefreshPermission': 'ليست لديك صلاحية تحديث الصلاحيات.',
+	'settings.refreshingPermissions': 'جارٍ تحديث الصلاحيات لجميع المستخدمين...',
+	'settings.permissionsRefreshed': 'تم تحديث جميع الصلاحيات بنجاح!',
+	'settings.permissionsRefreshFailed': 'تعذر تحديث الصلاحيات',
+	'settings.selectRole': 'اختر دور النظام',
+	'settings.passwordMismatch': 'كلمتا المرور غير متطابقتين',
+	'settings.selectEmployee': 'اختر موظفاً للمتابعة',
+	'settings.invalidEmail': 'البريد الإلكتروني غير صحيح',
+	'settings.emailRequired': 'يرجى إدخال البريد الإلكتروني',
+	'settings.nameRequired': 'الاسم مطلوب',
+	'settings.selectSuperAdminRole': 'اختر دور المسؤول الأعلى',
+	'settings.passwordTooShort': 'يجب ألا تقل كلمة المرور عن 8 أحرف',
+	'settings.roleNameRequired': 'اسم الدور مطلوب',
+	'settings.selectPermission': 'اختر صلاحية واحدة على الأقل أو فعّل الوصول الكامل',
+	'settings.branding.title': 'هوية النظام',
+	'settings.branding.description': 'خصّص شعار النظام واسمه الظاهرين في القائمة الجانبية',
+	'settings.branding.logo': 'شعار النظام',
+	'settings.branding.uploading': 'جارٍ الرفع...',
+	'settings.branding.uploadLogo': 'رفع الشعار',
+	'settings.branding.logoHint': 'المقاس المقترح: 200×200 بكسل، PNG أو JPG',
+	'settings.branding.logoPreview': 'معاينة الشعار',
+	'settings.branding.stamp': 'ختم الشركة',
+	'settings.branding.uploadStamp': 'رفع الختم',
+	'settings.branding.stampHint': 'المقترح: PNG بخلفية شفافة، بحد أقصى 2 ميجابايت',
+	'settings.branding.stampPreview': 'معاينة الختم',
+	'settings.branding.noStamp': 'لا يوجد ختم',
+	'settings.branding.systemName': 'اسم النظام (القائمة)',
+	'settings.branding.systemSubtitle': 'العنوان الفرعي (القائمة)',
+	'settings.branding.documentName': 'الاسم التجاري للمطبوعات',
+	'settings.branding.arabicName': 'الاسم بالعربي',
+	'settings.branding.englishName': 'الاسم بالإنجليزي',
+	'settings.branding.documentNameHint': 'سيظهر هذا الاسم على جميع المطبوعات (الفواتير والعقود وعروض الأسعار)',
+	'settings.branding.preview': 'معاينة',
+	'settings.branding.systemNameFallback': 'اسم النظام',
+	'settings.branding.subtitleFallback': 'العنوان الفرعي',
+	'settings.branding.save': 'حفظ إعدادات الهوية',
+	'settings.company.title': 'معلومات الشركة',
+	'settings.company.description': 'حدّث بيانات شركتك ومعلومات التواصل',
+	'settings.company.name': 'اسم الشركة',
+	'settings.company.address': 'العنوان',
+	'settings.company.taxNumber': 'الرقم الضريبي',
+	'settings.company.commercialReg': 'السجل التجاري',
+	'settings.company.cityPostal': 'المدينة / الرمز البريدي',
+	'settings.company.cityPostalPlaceholder': 'الخبر، حي الجسر 37417',
+	'settings.users.integrationTitle': 'ربط المستخدمين بالموظفين',
+	'settings.users.integrationHint': 'كل مستخدم للنظام مرتبط بسجل موظف. تتم مزامنة بيانات الموظف (الرقم والقسم والمنصب والهاتف) تلقائياً.',
+	'settings.users.title': 'إدارة المستخدمين',
+	'settings.users.description': 'إدارة مستخدمي النظام وصلاحياتهم',
+	'settings.users.add': 'إضافة مستخدم',
+	'settings.users.addTitle': 'إضافة مستخدم جديد',
+	'settings.users.addDescription': 'اربط حساب الموظف بصلاحية دخول النظام',
+	'settings.users.employeeId': 'رقم الموظف',
+	'settings.users.name': 'الاسم',
+	'settings.users.department': 'القسم',
+	'settings.users.position': 'المنصب',
+	'settings.users.role': 'الدور',
+	'settings.users.loading': 'جارٍ تحميل المستخدمين...',
+	'settings.users.empty': 'لا يوجد مستخدمون',
+	'settings.users.unassigned': 'غير مسند',
+	'settings.users.edit': 'تعديل المستخدم',
+	'settings.users.toggleStatus': 'تبديل حالة المستخدم',
+	'settings.users.delete': 'حذف المستخدم',
+	'settings.users.editTitle': 'تعديل المستخدم',
+	'settings.users.editDescription': 'حدّث بيانات مستخدم النظام وصلاحياته',
+	'settings.users.deleteTitle': 'حذف المستخدم',
+	'settings.users.deleteDescription': 'لا يمكن التراجع عن هذا الإجراء. سيُحذف حساب المستخدم نهائياً.',
+	'settings.users.deleteWarning': '⚠️ تحذير: حذف حساب مستخدم',
+	'settings.users.userLabel': 'المستخدم:',
+	'settings.users.emailLabel': 'البريد الإلكتروني:',
+	'settings.users.roleLabel': 'الدور:',
+	'settings.users.superAdminAccount': '⚠️ هذا حساب مسؤول أعلى!',
+	'settings.users.cannotDeleteSelfTitle': '🚫 لا يمكنك حذف حسابك',
+	'settings.users.cannotDeleteSelfHint': 'لأسباب أمنية لا يمكنك حذف حسابك. يرجى الطلب من مسؤول أعلى آخر القيام بذلك.',
+	'settings.users.deleteSuperAdminTitle': '⚠️ حذف حساب مسؤول أعلى',
+	'settings.users.deleteSuperAdminHint': 'أنت على وشك حذف حساب مسؤول أعلى، ويتطلب ذلك تأكيداً إضافياً.',
+	'settings.users.typeUsername': 'اكتب اسم المستخدم لتأكيد الحذف:',
+	'settings.users.mustType': 'يجب أن تكتب:',
+	'settings.users.confirmDeleteTitle': '⚠️ تأكيد الحذف',
+	'settings.users.confirmDeleteHint': 'هل أنت متأكد من حذف حساب هذا المستخدم؟ لا يمكن التراجع عن هذا الإجراء.',
+	'settings.users.editFormTitle': 'تعديل مستخدم النظام',
+	'settings.users.editFormHint': 'حدّث بيانات المستخدم وصلاحياته. اترك كلمة المرور فارغة للإبقاء على الحالية.',
+	'settings.users.selectEmployee': 'اختر الموظف',
+	'settings.users.selectEmployeePlaceholder': 'اختر موظفاً من قاعدة البيانات...',
+	'settings.users.unnamed': 'بدون اسم',
+	'settings.users.selectEmployeeHint': 'اختر موظفاً موجوداً لتعبئة بياناته تلقائياً',
+	'settings.users.autoFilled': 'يُعبأ تلقائياً',
+	'settings.users.fullName': 'الاسم الكامل',
+	'settings.users.systemRole': 'دور النظام',
+	'settings.users.systemRolePlaceholder': 'اختر دور النظام...',
+	'settings.users.systemRoleHint': 'يحدد دور النظام ما يمكن للمستخدم الوصول إليه',
+	'settings.users.newPassword': 'كلمة المرور الجديدة (اختياري)',
+	'settings.users.newPasswordPlaceholder': 'اتركها فارغة للإبقاء على كلمة المرور الحالية',
+	'settings.users.newPasswordHint': 'أدخل كلمة مرور فقط إذا أردت تغييرها',
+	'settings.users.confirmNewPassword': 'تأكيد كلمة المرور الجديدة',
+	'settings.users.reenterNewPassword': 'أعد إدخال كلمة المرور الجديدة',
+	'settings.users.update': 'تحديث حساب المستخدم',
+	'settings.users.linkTitle': 'ربط موظف بمستخدم النظام',
+	'settings.users.linkHint': 'اختر موظفاً من قاعدة البيانات لإنشاء حساب دخوله إلى النظام. سيتم ربط جميع بياناته تلقائياً.',
+	'settings.users.password': 'كلمة المرور',
+	'settings.users.passwordPlaceholder': 'أدخل كلمة مرور آمنة',
+	'settings.users.confirmPassword': 'تأكيد كلمة المرور',
+	'settings.users.reenterPassword': 'أعد إدخال كلمة المرور',
+	'settings.users.create': 'إنشاء حساب المستخدم',
+	'settings.users.fullNameRequired': 'الاسم الكامل *',
+	'settings.users.emailRequired': 'البريد الإلكتروني *',
+	'settings.users.phoneOptional': 'الهاتف (اختياري)',
+	'settings.users.passwordRequired': 'كلمة المرور *',
+	'settings.users.confirmPasswordRequired': 'تأكيد كلمة المرور *',
+	'settings.admin.create': 'إنشاء مسؤول',
+	'settings.admin.createTitle': 'إنشاء مسؤول جديد',
+	'settings.admin.createDescription': 'أنشئ حساب مسؤول أعلى جديد بصلاحيات كاملة على النظام',
+	'settings.admin.formTitle': 'إنشاء حساب مسؤول أعلى',
+	'settings.admin.formHint': 'أنشئ حساب مسؤول جديد بصلاحيات كاملة على النظام. لا يلزم ربط حسابات المسؤولين بسجلات الموظفين.',
+	'settings.admin.noRoles': '⚠ لا توجد أدوار مسؤول أعلى. يرجى إنشاء دور بصلاحيات كاملة أولاً.',
+	'settings.admin.namePlaceholder': 'أدخل الاسم الكامل',
+	'settings.admin.role': 'دور المسؤول الأعلى *',
+	'settings.admin.rolePlaceholder': 'اختر دور المسؤول الأعلى...',
+	'settings.admin.roleOption': '{name} (وصول كامل)',
+	'settings.admin.roleHint': 'تتوفر لحسابات المسؤولين الأدوار ذات الوصول الكامل فقط',
+	'settings.admin.passwordPlaceholder': 'أدخل كلمة مرور آمنة (8 أحرف على الأقل)',
+	'settings.admin.createAccount': 'إنشاء حساب المسؤول',
+	'settings.roles.title': 'الأدوار والصلاحيات',
+	'settings.roles.description': 'إدارة أدوار المستخدمين وصلاحياتها',
+	'settings.roles.readOnlyHint': 'يمكن للمسؤولين ذوي الوصول الكامل فقط تعديل الأدوار. يمكنك عرض الأدوار الحالية أدناه.',
+	'settings.roles.refreshAll': 'تحديث جميع الصلاحيات',
+	'settings.roles.add': 'إضافة دور',
+	'settings.roles.createTitle': 'إنشاء دور جديد',
+	'settings.roles.createDescription': 'عرّف دوراً جديداً وحدد صلاحياته',
+	'settings.roles.name': 'اسم الدور',
+	'settings.roles.namePlaceholder': 'مثال: مدير المبيعات',
+	'settings.roles.permissions': 'الصلاحيات',
+	'settings.roles.loading': 'جارٍ تحميل الأدوار...',
+	'settings.roles.empty': 'لا توجد أدوار بعد',
+	'settings.roles.usersCount': '{count} مستخدم',
+	'settings.roles.editTitle': 'تعديل الدور',
+	'settings.roles.editDescription': 'حدّث بيانات الدور وصلاحياته',
+	'settings.roles.fullAccess': 'وصول كامل',
+	'settings.roles.fullAccessHint': 'منح وصول كامل لجميع الوحدات والإجراءات في النظام',
+	'settings.roles.requireTwoFactor': 'اشتراط التحقق بخطوتين',
+	'settings.roles.requireTwoFactorHint': 'يجب على مستخدمي هذا الدور تسجيل الدخول برمز من تطبيق المصادقة',
+	'settings.roles.modulePermissions': 'صلاحيات الوحدات',
+	'settings.roles.allActions': 'جميع الإجراءات',
+	'settings.roles.selectAll': 'تحديد الكل',
+	'settings.roles.create': 'إنشاء الدور',
+	'settings.roles.allAccess': 'وصول كامل للنظام',
+	'settings.roles.noAccess': 'لا توجد صلاحيات',
+	'settings.roles.more': '+{count} أخرى',
+	'settings.roles.categoryUser': 'المستخدم',
+	'settings.action.view': 'عرض',
+	'settings.action.create': 'إنشاء',
+	'settings.action.update': 'تعديل',
+	'settings.action.delete': 'حذف',
+	'settings.action.approve': 'اعتماد',
+	'settings.action.export': 'تصدير',
+	'settings.action.assign': 'إسناد',
+	'settings.system.description': 'اضبط تفضيلات النظام والأمان',
+	'settings.system.loading': 'جارٍ تحميل الإعدادات...',
+	'settings.system.emailNotifications': 'إشعارات البريد الإلكتروني',
+	'settings.system.emailNotificationsHint': 'إرسال إشعارات بالبريد للأحداث المهمة',
+	'settings.system.smsNotifications': 'إشعارات الرسائل النصية',
+	'settings.system.smsNotificationsHint': 'إرسال رسائل نصية للتحديثات الحرجة',
+	'settings.system.autoBackup': 'النسخ الاحتياطي التلقائي',
+	'settings.system.autoBackupHint': 'نسخ احتياطي يومي تلقائي لبيانات النظام',
+	'settings.system.twoFactor': 'التحقق بخطوتين',
+	'settings.system.twoFactorHint': 'اشتراط التحقق بخطوتين لجميع عمليات الدخول',
+	'settings.system.save': 'حفظ الإعدادات',
+
+	// Contract renewals
+	'renewals.title': 'تجديد العقود',
+	'renewals.description': 'العقود التي تنتهي خلال {days} يوماً ونتيجة تجديدها. يتولى تشغيل الفوترة الدورية المجدول إنهاء العقود وإعداد عروض التجديد.',
+	'renewals.upcoming': 'قادمة',
+	'renewals.upcomingHint': 'تنتهي قريباً، دون عرض بعد',
+	'renewals.offered': 'تم تقديم عرض',
+	'renewals.offeredHint': 'تم إعداد عرض التجديد',
+	'renewals.renewed': 'تم التجديد',
+	'renewals.renewedHint': 'جدّد العميل',
+	'renewals.lapsed': 'منتهية',
+	'renewals.lapsedHint': 'انتهت دون تجديد',
+	'renewals.renewalContract': 'التجديد {number} ({status})',
+	'renewals.quotationSent': 'أُرسل عرض سعر التجديد إلى عروض الأسعار',
+	'renewals.markedRenewed': 'تم تعليم العقد {number} كمجدد',
+	'renewals.markedLapsed': 'تم تعليم العقد {number} كمنتهٍ دون تجديد',
+	'renewals.updateFailed': 'تعذر تحديث التجديد',
+	'renewals.empty': 'لا توجد عقود',
+	'renewals.ends': 'ينتهي {date}',
+	'renewals.noEndDate': 'بدون تاريخ انتهاء',
+	'renewals.notRenewing': 'لن يُجدد',
+
+	// Document numbering
+	'numbering.title': 'ترقيم المستندات',
+	'numbering.description': 'تُسند الأرقام عند حفظ المستند ولا يعاد استخدامها. تسري التغييرات على المستند التالي.',
+	'numbering.loading': 'جارٍ تحميل الترقيم...',
+	'numbering.loadFailed': 'تعذر تحميل ترقيم المستندات',
+	'numbering.invalidPrefix': 'يجب أن تحتوي البادئة على أحرف وأرقام فقط',
+	'numbering.invalidPadding': 'يجب أن يكون عدد الخانات بين 1 و10',
+	'numbering.updated': 'تم تحديث ترقيم {document}',
+	'numbering.updateFailed': 'تعذر تحديث الترقيم',
+	'numbering.document': 'المستند',
+	'numbering.prefix': 'البادئة',
+	'numbering.resetYearly': 'إعادة الترقيم سنوياً',
+	'numbering.digits': 'الخانات',
+	'numbering.nextNumber': 'الرقم التالي',
+	'numbering.type.invoice': 'فاتورة',
+	'numbering.type.creditNote': 'إشعار دائن',
+	'numbering.type.debitNote': 'إشعار مدين',
+	'numbering.type.quotation': 'عرض سعر',
+	'numbering.type.contract': 'عقد',
+	'numbering.type.purchaseOrder': 'أمر شراء',
+	'numbering.type.payroll': 'مسير رواتب',
+
+	// Customer and supplier selectors
+	'selector.customer': 'العميل',
+	'selector.customerSearch': 'ابحث عن عميل...',
+	'selector.customerSearchHint': 'ابحث بالاسم أو الشركة أو الجوال...',
+	'selector.customerEmpty': 'لم يتم العثور على عميل.',
+	'selector.customerAdd': 'إضافة عميل جديد',
+	'selector.customerAddTitle': 'إضافة عميل جديد',
+	'selector.customerAddDescription': 'أضف عميلاً جديداً بسرعة دون مغادرة هذه الصفحة',
+	'selector.customerName': 'اسم العميل',
+	'selector.customerNamePlaceholder': 'أحمد محمد',
+	'selector.companyPlaceholder': 'شركة النخلة التجارية',
+	'selector.customerRequired': 'يرجى إدخال اسم العميل ورقم الجوال',
+	'selector.supplier': 'المورد',
+	'selector.supplierSearch': 'ابحث عن مورد...',
+	'selector.supplierSearchHint': 'ابحث بالاسم أو الجوال...',
+	'selector.supplierEmpty': 'لم يتم العثور على مورد.',
+	'selector.supplierAdd': 'إضافة مورد جديد',
+	'selector.supplierAddTitle': 'إضافة مورد جديد',
+	'selector.supplierAddDescription': 'أضف مورداً جديداً بسرعة دون مغادرة هذه الصفحة',
+	'selector.supplierName': 'اسم المورد',
+	'selector.supplierNamePlaceholder': 'أروما للعطور الدولية',
+	'selector.supplierNameRequired': 'يرجى إدخال اسم المورد',
+	'selector.supplierAddButton': 'إضافة المورد',
+	'selector.clear': 'مسح الاختيار',
+	'selector.locationPlaceholder': 'الرياض، حي الملز',
+	'selector.mobileLabel': 'الجوال:',
+	'selector.emailLabel': 'البريد الإلكتروني:',
+	'selector.locationLabel': 'الموقع:',
+
+	// Excel import
+	'import.button': 'استيراد Excel',
+	'import.title': 'استيراد {section}',
+	'import.mappingDescription': 'طابق أعمدة {file} ({rows} صف) مع حقول {section}.',
+	'import.reviewDescription': 'راجع ما سيحدث قبل حفظ أي شيء.',
+	'import.notMapped': 'غير مربوط',
+	'import.mapRequired': 'اربط الحقول المطلوبة: {fields}',
+	'import.toCreate': '{count} للإنشاء',
+	'import.toUpdate': '{count} للتحديث',
+	'import.rejected': '{count} مرفوض',
+	'import.rejectedRows': 'الصفوف المرفوضة',
+	'import.row': 'الصف',
+	'import.problems': 'المشكلات',
+	'import.firstRejected': 'عرض أول 50 من {count} صفاً مرفوضاً.',
+	'import.progress': 'جارٍ الاستيراد {done} / {total}...',
+	'import.loadingExisting': 'جارٍ تحميل السجلات الحالية...',
+	'import.checkRows': 'فحص الصفوف',
+	'import.back': 'رجوع',
+	'import.importing': 'جارٍ الاستيراد...',
+	'import.importRows': 'استيراد {count} صف',
+	'import.noRows': 'لا يحتوي {file} على صفوف بيانات',
+	'import.readFailed': 'تعذرت قراءة {file}. تأكد أنه ملف Excel أو CSV صالح.',
+	'import.partial': '{section}: تم استيراد {succeeded} صف، وفشل {failed}',
+	'import.done': '{section}: تم إنشاء {created} وتحديث {updated}',
+	'import.skipped': 'تم تخطي {count} صف. نزّل الصفوف المرفوضة لتصحيحها.',
+
+	// Recurring billing
+	'billing.title': 'الفوترة الدورية',
+	'billing.description': 'تُنشأ الزيارات الشهرية وفواتيرها للعقود النشطة بمهمة مجدولة على الخادم، سواء كان التطبيق مفتوحاً أم لا. وتنهي المهمة نفسها العقود بعد تاريخ انتهائها وتعد التجديدات.',
+	'billing.loading': 'جارٍ تحميل الفوترة الدورية...',
+	'billing.runsLoadFailed': 'تعذر تحميل عمليات الفوترة',
+	'billing.loadFailed': 'تعذر تحميل إعدادات الفوترة الدورية',
+	'billing.invalidLeadDays': 'يمكن إنشاء الزيارات قبل موعدها بما بين 0 و60 يوماً',
+	'billing.invalidNoticeDays': 'يجب أن تكون مدة التنبيه بالتجديد بين 0 و180 يوماً',
+	'billing.invalidEscalation': 'يجب أن تكون زيادة سعر التجديد بين 0% و100%',
+	'billing.saved': 'تم حفظ إعدادات الفوترة الدورية',
+	'billing.saveFailed': 'تعذر حفظ إعدادات الفوترة الدورية',
+	'billing.runFinished': 'اكتمل تشغيل الفوترة: انتهى {expired} عقد، وقُدم {renewals} عرض تجديد، وأُنشئت {visits} زيارة و{invoices} فاتورة، وتم تخطي {skipped}',
+	'billing.runFailed': 'فشل تشغيل الفوترة',
+	'billing.runDetailsFailed': 'تعذر تحميل تفاصيل التشغيل',
+	'billing.autoVisits': 'الزيارات الشهرية التلقائية',
+	'billing.autoVisitsHint': 'جدولة الزيارة التالية لكل عقد نشط',
+	'billing.leadDays': 'إنشاء الزيارات قبل موعدها بعدد الأيام',
+	'billing.autoInvoice': 'الفوترة التلقائية',
+	'billing.autoInvoiceHint': 'فوترة الحصة الشهرية من العقد لكل زيارة',
+	'billing.timing': 'توقيت إصدار الفاتورة',
+	'billing.timing.visitDate': 'في تاريخ الزيارة',
+	'billing.timing.weekBefore': 'قبل تاريخ الزيارة بـ 7 أيام',
+	'billing.renewals': 'تجديد العقود',
+	'billing.renewalsHint': 'تُعد العقود التي تجاوزت تاريخ انتهائها منتهية. وتُعلَّم العقود النشطة التي تنتهي قريباً للتجديد ويمكن إعداد عرض تجديد لها.',
+	'billing.noticeDays': 'تعليم العقود التي تنتهي خلال (أيام)',
+	'billing.offerType': 'عرض التجديد',
+	'billing.offer.none': 'تعليم فقط',
+	'billing.offer.contract': 'مسودة عقد تجديد',
+	'billing.offer.quotation': 'عرض سعر للتجديد',
+	'billing.escalation': 'زيادة السعر عند التجديد (%)',
+	'billing.runNow': 'تشغيل الآن',
+	'billing.runLog': 'سجل التشغيل',
+	'billing.refresh': 'تحديث',
+	'billing.started': 'البدء',
+	'billing.billingDate': 'تاريخ الفوترة',
+	'billing.trigger': 'المُشغّل',
+	'billing.column.expired': 'المنتهية',
+	'billing.column.renewals': 'التجديدات',
+	'billing.column.visits': 'الزيارات',
+	'billing.column.invoices': 'الفواتير',
+	'billing.column.skipped': 'المتخطاة',
+	'billing.column.failed': 'الفاشلة',
+	'billing.noRuns': 'لا توجد عمليات فوترة بعد',
+	'billing.nothingDue': 'لم يكن هناك ما يستحق في هذا التشغيل',
+	'billing.allContracts': 'جميع العقود',
+	'billing.run.running': 'قيد التشغيل',
+	'billing.run.completed': 'مكتمل',
+	'billing.run.failed': 'فشل',
+	'billing.trigger.schedule': 'مجدول',
+	'billing.trigger.manual': 'يدوي',
+	'billing.outcome.created': 'تم الإنشاء',
+	'billing.outcome.skipped': 'تم التخطي',
+	'billing.outcome.failed': 'فشل',
+	'billing.item.visit': 'زيارة',
+	'billing.item.invoice': 'فاتورة',
+	'billing.item.expiry': 'انتهاء',
+	'billing.item.renewal': 'تجديد',
+
+	// Sales platforms
+	'platform.amazon': 'أمازون',
+	'platform.noon': 'نون',
+	'platform.website': 'الموقع الإلكتروني',
+	'platform.goldenScent': 'قولدن سنت',
+	'platform.trendyol': 'ترينديول',
+	'platform.salesRep': 'مندوب المبيعات',
+	'platform.other': 'أخرى',
+
+	// Platform customers
+	'platformCustomers.subtitle': 'إدارة العملاء من جميع منصات البيع',
+	'platformCustomers.exportExcel': 'تصدير إلى Excel',
+	'platformCustomers.defaultName': 'عميل منصة',
+	'platformCustomers.totalCustomers': 'إجمالي العملاء',
+	'platformCustomers.activeCount': '{count} نشط',
+	'platformCustomers.totalRevenue': 'إجمالي الإيرادات',
+	'platformCustomers.fromAllPlatforms': 'من جميع المنصات',
+	'platformCustomers.avgOrderValue': 'متوسط قيمة الطلب',
+	'platformCustomers.perOrderAverage': 'المتوسط لكل طلب',
+	'platformCustomers.totalOrders': 'إجمالي الطلبات',
+	'platformCustomers.allPlatformsCombined': 'جميع المنصات مجتمعة',
+	'platformCustomers.searchPlaceholder': 'ابحث بالاسم أو الهاتف أو البريد الإلكتروني...',
+	'platformCustomers.platform': 'المنصة',
+	'platformCustomers.allPlatforms': 'جميع المنصات',
+	'platformCustomers.city': 'المدينة',
+	'platformCustomers.allCities': 'جميع المدن',
+	'platformCustomers.listTitle': 'العملاء ({count})',
+	'platformCustomers.listDescription': 'عرض وإدارة العملاء من جميع منصات البيع',
+	'platformCustomers.contact': 'التواصل',
+	'platformCustomers.location': 'الموقع',
+	'platformCustomers.orders': 'الطلبات',
+	'platformCustomers.totalSpent': 'إجمالي الإنفاق',
+	'platformCustomers.lastOrder': 'آخر طلب',
+	'platformCustomers.firstOrder': 'أول طلب',
+	'platformCustomers.loading': 'جارٍ تحميل العملاء...',
+	'platformCustomers.empty': 'لا يوجد عملاء',
+	'platformCustomers.idLabel': 'المعرّف: {id}',
+	'platformCustomers.detailsTitle': 'تفاصيل العميل',
+	'platformCustomers.detailsDescription': 'المعلومات الكاملة عن هذا العميل',
+	'platformCustomers.personalInfo': 'المعلومات الشخصية',
+	'platformCustomers.fullName': 'الاسم الكامل',
+	'platformCustomers.customerId': 'رقم العميل',
+	'platformCustomers.phoneNumber': 'رقم الهاتف',
+	'platformCustomers.emailAddress': 'البريد الإلكتروني',
+	'platformCustomers.shippingAddress': 'عنوان الشحن',
+	'platformCustomers.orderStatistics': 'إحصائيات الطلبات',
+	'platformCustomers.averageOrderValue': 'متوسط قيمة الطلب',
+	'platformCustomers.quickActions': 'إجراءات سريعة',
+	'platformCustomers.call': 'اتصال',
+	'platformCustomers.whatsapp': 'واتساب',
+	'platformCustomers.whatsappGreeting': 'مرحبًا {name}، شكرًا لكونك من عملائنا الكرام!',
+
+	// Monthly visits
+	'monthlyVisits.subtitle': 'زيارات مجدولة تلقائيًا للعقود الشهرية الموقعة.',
+	'monthlyVisits.loadFailed': 'تعذر تحميل الزيارات الشهرية',
+	'monthlyVisits.newerVisitExists': 'لا يمكن تعديل هذه الزيارة المكتملة. توجد زيارة أحدث مجدولة بتاريخ {date}.',
+	'monthlyVisits.newerVisitExistsUndated': 'لا يمكن تعديل هذه الزيارة المكتملة. توجد زيارة أحدث مجدولة في تاريخ لاحق.',
+	'monthlyVisits.dateConflict': 'توجد زيارة مجدولة بتاريخ {date}. يرجى اختيار تاريخ آخر.',
+	'monthlyVisits.upcomingAndHistorical': 'القادمة والسابقة',
+	'monthlyVisits.awaitingService': 'بانتظار الخدمة',
+	'monthlyVisits.finishedVisits': 'الزيارات المنجزة',
+	'monthlyVisits.cancelledVisits': 'الزيارات الملغاة',
+	'monthlyVisits.allStatuses': 'جميع الحالات',
+	'monthlyVisits.sortOrder': 'ترتيب العرض',
+	'monthlyVisits.searchPlaceholder': 'ابحث بالعميل أو العقد أو المندوب أو العنوان...',
+	'monthlyVisits.scheduleTitle': 'جدول الزيارات الشهرية',
+	'monthlyVisits.contract': 'العقد',
+	'monthlyVisits.company': 'الشركة',
+	'monthlyVisits.visitDate': 'تاريخ الزيارة',
+	'monthlyVisits.latest': 'الأحدث',
+	'monthlyVisits.cannotEdit': 'لا يمكن التعديل: توجد زيارة أحدث مجدولة',
+	'monthlyVisits.editVisit': 'تعديل الزيارة',
+	'monthlyVisits.complete': 'إكمال',
+	'monthlyVisits.reset': 'إعادة جدولة',
+	'monthlyVisits.editTitle': 'تعديل الزيارة الشهرية',
+	'monthlyVisits.editDescription': 'تحديث تفاصيل الزيارة لـ {customer} - {contract}',
+	'monthlyVisits.addressPlaceholder': 'عنوان الزيارة',
+	'monthlyVisits.notesPlaceholder': 'ملاحظات إضافية عن الزيارة',
+	'monthlyVisits.lockedWarning': '⚠️ لا يمكن تعديل هذه الزيارة المكتملة لوجود زيارة أحدث مجدولة لهذا العقد.',
+
+	// Message templates
+	'templates.title': 'قوالب الرسائل',
+	'templates.subtitle': 'قوالب جاهزة للتواصل السريع مع العملاء',
+	'templates.seeded': 'تم استيراد قوالب الرسائل الافتراضية',
+	'templates.loadFailed': 'تعذر تحميل القوالب',
+	'templates.nameRequired': 'يرجى إدخال اسم القالب',
+	'templates.contentRequired': 'يرجى إدخال محتوى القالب',
+	'templates.created': 'تم إنشاء القالب بنجاح!',
+	'templates.createFailed': 'تعذر إنشاء القالب',
+	'templates.updated': 'تم تحديث القالب بنجاح!',
+	'templates.updateFailed': 'تعذر تحديث القالب',
+	'templates.deleteConfirm': 'حذف القالب "{name}"؟',
+	'templates.deleted': 'تم حذف القالب بنجاح!',
+	'templates.deleteFailed': 'تعذر حذف القالب',
+	'templates.copied': 'تم نسخ القالب إلى الحافظة!',
+	'templates.copyFailed': 'تعذر النسخ. يرجى النسخ يدويًا.',
+	'templates.create': 'إنشاء قالب',
+	'templates.createTitle': 'إنشاء قالب جديد',
+	'templates.createDescription': 'أنشئ قالب رسالة قابلًا لإعادة الاستخدام',
+	'templates.editTitle': 'تعديل القالب',
+	'templates.editDescription': 'حدّث قالب الرسالة',
+	'templates.update': 'تحديث القالب',
+	'templates.nameLabel': 'اسم القالب *',
+	'templates.namePlaceholder': 'مثال: تذكير بالدفع',
+	'templates.typeLabel': 'النوع *',
+	'templates.selectType': 'اختر النوع',
+	'templates.categoryLabel': 'الفئة *',
+	'templates.selectCategory': 'اختر الفئة',
+	'templates.subjectLabel': 'الموضوع (للبريد الإلكتروني)',
+	'templates.subjectPlaceholder': 'سطر موضوع البريد الإلكتروني',
+	'templates.contentLabel': 'محتوى الرسالة *',
+	'templates.contentPlaceholder': 'استخدم {{variable_name}} للمحتوى الديناميكي',
+	'templates.availableVariables': 'المتغيرات المتاحة',
+	'templates.variableHint': 'انقر على متغير لإدراجه في المحتوى',
+	'templates.searchPlaceholder': 'ابحث في القوالب...',
+	'templates.allTypes': 'جميع الأنواع',
+	'templates.type.whatsapp': 'واتساب',
+	'templates.type.email': 'البريد الإلكتروني',
+	'templates.type.sms': 'رسالة نصية',
+	'templates.category.paymentReminder': 'تذكير بالدفع',
+	'templates.category.invoice': 'فاتورة',
+	'templates.category.contract': 'عقد',
+	'templates.category.welcome': 'ترحيب',
+	'templates.category.followUp': 'متابعة',
+	'templates.category.visitReminder': 'تذكير بالزيارة',
+	'templates.subject': 'الموضوع:',
+	'templates.contentPreview': 'معاينة المحتوى:',
+	'templates.variables': 'المتغيرات:',
+	'templates.copy': 'نسخ',
+	'templates.noMatches': 'لا توجد قوالب مطابقة لبحثك',
+	'templates.empty': 'لا توجد قوالب. أنشئ قالبك الأول للبدء!',
+	'templates.quickTips': 'نصائح سريعة',
+	'templates.tipVariablesBefore': 'استخدم',
+	'templates.tipVariablesAfter': 'لإدراج محتوى ديناميكي',
+	'templates.tipPersonal': 'اجعل الرسائل شخصية وودية لتفاعل أفضل',
+	'templates.tipTest': 'اختبر القوالب قبل إرسالها إلى العملاء',
+	'templates.tipInsert': 'انقر على المتغيرات لإدراجها مباشرة في المحتوى',
+
+	// Representatives
+	'representatives.title': 'إدارة المندوبين',
+	'representatives.subtitle': 'إدارة المندوبين والعملاء المسندين والزيارات',
+	'representatives.status.onLeave': 'في إجازة',
+	'representatives.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'representatives.idNotFound': 'لم يُعثر على معرّف المندوب',
+	'representatives.updated': 'تم تحديث المندوب بنجاح!',
+	'representatives.updateFailed': 'تعذر تحديث المندوب: {error}',
+	'representatives.added': 'تمت إضافة المندوب بنجاح!',
+	'representatives.createFailed': 'تعذر إنشاء المندوب: {error}',
+	'representatives.hasCustomers': 'لا يمكن حذف مندوب لديه عملاء مسندون. يرجى إعادة إسناد العملاء أولًا.',
+	'representatives.deleteConfirm': 'هل أنت متأكد من حذف {name}؟ لا يمكن التراجع عن هذا الإجراء.',
+	'representatives.deleted': 'تم حذف المندوب بنجاح!',
+	'representatives.deleteFailed': 'تعذر حذف المندوب: {error}',
+	'representatives.addNew': 'إضافة مندوب جديد',
+	'representatives.addDescription': 'أدخل بيانات المندوب الجديد',
+	'representatives.editTitle': 'تعديل المندوب',
+	'representatives.editDescription': 'حدّث بيانات المندوب',
+	'representatives.fullNameRequired': 'الاسم الكامل *',
+	'representatives.fullNamePlaceholder': 'أدخل الاسم الكامل',
+	'representatives.phoneRequired': 'رقم الهاتف *',
+	'representatives.emailRequired': 'البريد الإلكتروني *',
+	'representatives.areaRequired': 'منطقة التغطية *',
+	'representatives.areaPlaceholder': 'مثال: الرياض - الشمال',
+	'representatives.add': 'إضافة المندوب',
+	'representatives.adding': 'جارٍ الإضافة...',
+	'representatives.total': 'إجمالي المندوبين',
+	'representatives.activeCount': '{count} نشط',
+	'representatives.inactiveCount': '{count} غير نشط',
+	'representatives.totalActiveClients': 'إجمالي العملاء النشطين',
+	'representatives.acrossAllReps': 'لدى جميع المندوبين',
+	'representatives.activeClients': 'العملاء النشطون',
+	'representatives.inactiveClients': 'العملاء غير النشطين',
+	'representatives.needReactivation': 'بحاجة إلى إعادة تنشيط',
+	'representatives.monthlyVisits': 'الزيارات الشهرية',
+	'representatives.all': 'جميع المندوبين',
+	'representatives.searchPlaceholder': 'ابحث عن مندوب...',
+	'representatives.contact': 'تواصل',
+	'representatives.area': 'المنطقة',
+	'representatives.loading': 'جارٍ تحميل المندوبين...',
+	'representatives.empty': 'لا يوجد مندوبون',
+	'representatives.viewCustomers': 'عرض العملاء',
+	'representatives.assignedCustomersTitle': '{name} - العملاء المسندون',
+	'representatives.assignedCustomersDescription': 'عرض وإدارة العملاء المسندين إلى هذا المندوب',
+	'representatives.activeTab': 'نشط ({count})',
+	'representatives.inactiveTab': 'غير نشط ({count})',
+	'representatives.mobile': 'الجوال',
+	'representatives.lastVisit': 'آخر زيارة',
+	'representatives.nextVisit': 'الزيارة القادمة',
+
+	// Customer support
+	'support.title': 'دعم العملاء',
+	'support.subtitle': 'إدارة طلبات العملاء وشكاواهم',
+	'support.unknownCustomer': 'عميل غير معروف',
+	'support.unnamedCustomer': 'عميل بلا اسم',
+	'support.selectCustomerError': 'يرجى اختيار عميل',
+	'support.created': 'تم إنشاء التذكرة بنجاح!',
+	'support.updated': 'تم تحديث التذكرة بنجاح!',
+	'support.saveFailed': 'تعذر حفظ التذكرة',
+	'support.deleted': 'تم حذف التذكرة بنجاح!',
+	'support.deleteFailed': 'تعذر حذف التذكرة',
+	'support.statusUpdated': 'تم تحديث حالة التذكرة إلى {status}',
+	'support.status.new': 'جديدة',
+	'support.status.inProgress': 'قيد المعالجة',
+	'support.status.completed': 'مكتملة',
+	'support.priority.high': 'عالية',
+	'support.priority.medium': 'متوسطة',
+	'support.priority.low': 'منخفضة',
+	'support.cards': 'بطاقات',
+	'support.table': 'جدول',
+	'support.newTicket': 'تذكرة جديدة',
+	'support.newTickets': 'التذاكر الجديدة',
+	'support.awaitingResponse': 'بانتظار الرد',
+	'support.beingHandled': 'قيد المعالجة',
+	'support.resolved': 'تم حلها',
+	'support.searchPlaceholder': 'ابحث في التذاكر...',
+	'support.allTickets': 'جميع التذاكر',
+	'support.loading': 'جارٍ تحميل التذاكر...',
+	'support.empty': 'لا توجد تذاكر',
+	'support.customerLabel': 'العميل:',
+	'support.dateLabel': 'التاريخ: {date}',
+	'support.assignedLabel': 'المسند إليه:',
+	'support.noteLabel': 'ملاحظة:',
+	'support.ticketNumberShort': 'رقم التذكرة',
+	'support.ticketNumber': 'رقم التذكرة',
+	'support.subject': 'الموضوع',
+	'support.priority': 'الأولوية',
+	'support.assignedTo': 'مسندة إلى',
+	'support.assignTo': 'إسناد إلى',
+	'support.noDelegates': 'لا يوجد مندوبون',
+	'support.newTitle': 'تذكرة دعم جديدة',
+	'support.newDescription': 'أنشئ تذكرة دعم جديدة لعميل',
+	'support.editTitle': 'تعديل التذكرة',
+	'support.editDescription': 'حدّث بيانات التذكرة',
+	'support.detailsTitle': 'تفاصيل التذكرة',
+	'support.viewing': 'عرض التذكرة {number}',
+	'support.description': 'الوصف',
+	'support.resolution': 'الحل',
+	'support.customerSearchPlaceholder': 'ابحث عن عميل بالاسم أو الشركة أو الجوال...',
+	'support.subjectRequired': 'الموضوع *',
+	'support.subjectPlaceholder': 'وصف موجز للمشكلة',
+	'support.descriptionRequired': 'الوصف *',
+	'support.descriptionPlaceholder': 'وصف تفصيلي للطلب أو الشكوى',
+	'support.notesOptional': 'ملاحظات (اختياري)',
+	'support.notesPlaceholder': 'ملاحظات أو تعليقات إضافية',
+	'support.resolutionNotes': 'ملاحظات الحل',
+	'support.resolutionPlaceholder': 'كيف تم حل هذه التذكرة؟',
+	'support.create': 'إنشاء التذكرة',
+
+	// Marketing campaigns
+	'marketing.title': 'الحملات التسويقية',
+	'marketing.subtitle': 'إدارة حملاتك التسويقية',
+	'marketing.status.paused': 'متوقفة مؤقتًا',
+	'marketing.status.completed': 'مكتملة',
+	'marketing.loadFailed': 'تعذر تحميل الحملات',
+	'marketing.added': 'تمت إضافة الحملة بنجاح',
+	'marketing.addFailed': 'تعذرت إضافة الحملة',
+	'marketing.updated': 'تم تحديث الحملة بنجاح',
+	'marketing.updateFailed': 'تعذر تحديث الحملة',
+	'marketing.deleteConfirm': 'حذف الحملة "{name}"؟',
+	'marketing.deleted': 'تم حذف الحملة بنجاح',
+	'marketing.deleteFailed': 'تعذر حذف الحملة',
+	'marketing.statusFailed': 'تعذر تغيير الحالة',
+	'marketing.empty': 'لا توجد حملات. استخدم "حملة جديدة" لإضافة حملة.',
+	'marketing.refresh': 'تحديث الحملات',
+	'marketing.newCampaign': 'حملة جديدة',
+	'marketing.newDescription': 'أنشئ حملة تسويقية جديدة',
+	'marketing.activeCampaigns': 'الحملات النشطة',
+	'marketing.currentlyRunning': 'قيد التشغيل حاليًا',
+	'marketing.totalBudget': 'إجمالي الميزانية',
+	'marketing.allocatedBudget': 'الميزانية المخصصة',
+	'marketing.totalSpent': 'إجمالي المصروف',
+	'marketing.utilized': '{percent} مستخدمة',
+	'marketing.impressions': 'مرات الظهور',
+	'marketing.totalViews': 'إجمالي المشاهدات',
+	'marketing.clicks': 'النقرات',
+	'marketing.ctr': '{percent} نسبة النقر',
+	'marketing.allCampaigns': 'جميع الحملات',
+	'marketing.allCampaignsDescription': 'عرض وإدارة حملاتك التسويقية',
+	'marketing.campaign': 'الحملة',
+	'marketing.budget': 'الميزانية',
+	'marketing.spent': 'المصروف',
+	'marketing.period': 'الفترة',
+	'marketing.performance': 'الأداء',
+	'marketing.lastModified': 'آخر تعديل',
+	'marketing.name': 'اسم الحملة',
+	'marketing.nameRequired': 'اسم الحملة *',
+	'marketing.namePlaceholder': 'مثال: مجموعة رمضان 2025',
+	'marketing.platformRequired': 'المنصة *',
+	'marketing.selectPlatform': 'اختر المنصة',
+	'marketing.budgetSar': 'الميزانية (ر.س)',
+	'marketing.budgetRequired': 'الميزانية (ر.س) *',
+	'marketing.spentSar': 'المصروف (ر.س)',
+	'marketing.startDate': 'تاريخ البدء',
+	'marketing.startDateRequired': 'تاريخ البدء *',
+	'marketing.endDate': 'تاريخ الانتهاء',
+	'marketing.endDateRequired': 'تاريخ الانتهاء *',
+	'marketing.startingImpressions': 'مرات الظهور الأولية',
+	'marketing.startingClicks': 'النقرات الأولية',
+	'marketing.create': 'إنشاء الحملة',
+	'marketing.editTitle': 'تعديل الحملة',
+	'marketing.editDescription': 'حدّث بيانات الحملة',
+
+	// Attendance sheet
+	'attendance.title': 'كشف الحضور الشهري',
+	'attendance.subtitle': 'إنشاء وإدارة سجلات حضور الموظفين',
+	'attendance.unnamedEmployee': 'موظف بلا اسم',
+	'attendance.generalDepartment': 'عام',
+	'attendance.noEmployees': 'لا يوجد موظفون مطابقون للفلاتر المحددة.',
+	'attendance.loaded': 'تم تحميل كشف الحضور بنجاح!',
+	'attendance.printToPdf': 'يرجى استخدام نافذة الطباعة في المتصفح للحفظ بصيغة PDF',
+	'attendance.generateBeforeExport': 'أنشئ كشف الحضور قبل التصدير',
+	'attendance.generateBeforeSave': 'أنشئ كشف الحضور قبل الحفظ.',
+	'attendance.noChanges': 'لا توجد تغييرات في الحضور لحفظها.',
+	'attendance.saved': 'تم حفظ الحضور بنجاح!',
+	'attendance.saveFailed': 'تعذر حفظ الحضور',
+	'attendance.generateTitle': 'إنشاء كشف الحضور',
+	'attendance.generateDescription': 'اختر الشهر والسنة والقسم لإنشاء سجلات الحضور',
+	'attendance.month': 'الشهر',
+	'attendance.year': 'السنة',
+	'attendance.department': 'القسم',
+	'attendance.allDepartments': 'جميع الأقسام',
+	'attendance.departmentLabel': 'القسم: {department}',
+	'attendance.searchEmployee': 'البحث عن موظف',
+	'attendance.searchPlaceholder': 'الاسم أو الرقم...',
+	'attendance.generate': 'إنشاء الكشف',
+	'attendance.save': 'حفظ الحضور',
+	'attendance.exportPdf': 'تصدير PDF',
+	'attendance.status.present': 'حاضر',
+	'attendance.status.absent': 'غائب',
+	'attendance.status.leave': 'إجازة',
+	'attendance.status.holiday': 'عطلة رسمية',
+	'attendance.status.weekend': 'عطلة أسبوعية',
+	'attendance.cellHint': '💡 انقر على أي خانة لتغيير الحالة',
+	'attendance.recordTitle': 'سجل الحضور - {month} {year}',
+	'attendance.employeeCount': '{count} موظف',
+	'attendance.employee': 'الموظف',
+	'attendance.weekendLocked': 'لا يمكن تعديل أيام العطلة الأسبوعية.',
+	'attendance.alreadySaved': 'تم حفظ الحضور لهذا التاريخ مسبقًا.',
+	'attendance.futureDate': 'لا يمكن تسجيل الحضور لتواريخ مستقبلية.',
+	'attendance.preparedBy': 'إعداد',
+	'attendance.hrManager': 'مدير الموارد البشرية',
+	'attendance.reviewedBy': 'مراجعة',
+	'attendance.departmentManager': 'مدير القسم',
+	'attendance.approvedBy': 'اعتماد',
+	'attendance.generalManager': 'المدير العام',
+	'attendance.generatedOn': 'تاريخ الإنشاء: {date}',
+	'attendance.emptyTitle': 'لم يتم إنشاء كشف حضور',
+	'attendance.emptyDescription': 'اختر الشهر والسنة والقسم أعلاه، ثم انقر "إنشاء الكشف" لإنشاء سجلات الحضور',
+
+	// Analytics
+	'analytics.title': 'التحليلات ومؤشرات الأداء',
+	'analytics.subtitle': 'تابع أداء أعمالك والمؤشرات الرئيسية',
+	'analytics.loadingInsights': 'جارٍ تحميل المؤشرات الحية...',
+	'analytics.loadFailed': 'تعذر تحميل بيانات التحليلات',
+	'analytics.totalRevenue': 'إجمالي الإيرادات',
+	'analytics.netProfit': 'صافي الربح',
+	'analytics.activeCustomers': 'العملاء النشطون',
+	'analytics.totalExpenses': 'إجمالي المصروفات',
+	'analytics.changeVsLastMonth': '{change} مقارنة بالشهر الماضي',
+	'analytics.vsLastMonth': 'مقارنة بالشهر الماضي',
+	'analytics.vsLastQuarter': 'مقارنة بالربع الماضي',
+	'analytics.points': '{value} نقطة',
+	'analytics.calculatingMargin': 'جارٍ حساب الهامش...',
+	'analytics.profitMargin': 'هامش ربح {margin}',
+	'analytics.newThisMonth': '{count} جديد هذا الشهر',
+	'analytics.monthlySales': 'المبيعات الشهرية',
+	'analytics.monthlySalesDescription': 'أداء المبيعات خلال آخر 6 أشهر',
+	'analytics.loadingSales': 'جارٍ تحميل بيانات المبيعات...',
+	'analytics.noSales': 'لا توجد بيانات مبيعات',
+	'analytics.revenueVsExpenses': 'الإيرادات مقابل المصروفات',
+	'analytics.revenueVsExpensesDescription': 'مقارنة مالية خلال 6 أشهر',
+	'analytics.loadingFinance': 'جارٍ تحميل البيانات المالية...',
+	'analytics.noFinance': 'لا توجد بيانات مالية',
+	'analytics.revenue': 'الإيرادات',
+	'analytics.expenses': 'المصروفات',
+	'analytics.visitsTrend': 'اتجاه الزيارات الشهرية',
+	'analytics.visitsTrendDescription': 'أداء الزيارات خلال آخر 6 أشهر',
+	'analytics.loadingVisits': 'جارٍ تحميل بيانات الزيارات...',
+	'analytics.noVisits': 'لا توجد بيانات زيارات لآخر 6 أشهر',
+	'analytics.monthLabel': 'الشهر: {month}',
+	'analytics.totalVisits': 'إجمالي الزيارات',
+	'analytics.totalInvoices': 'إجمالي الفواتير',
+	'analytics.activeContracts': 'العقود النشطة',
+	'analytics.monthly': 'شهري',
+	'analytics.annual': 'سنوي',
+	'analytics.monthlyVisits': 'الزيارات الشهرية',
+	'analytics.quickSummary': 'ملخص سريع',
+	'analytics.quickSummaryDescription': 'نظرة سريعة على مؤشرات الأداء الرئيسية',
+	'analytics.averageDealSize': 'متوسط قيمة الصفقة',
+	'analytics.customerSatisfaction': 'رضا العملاء',
+	'analytics.conversionRate': 'معدل التحويل',
+	'analytics.renewalRate': 'معدل التجديد',
+	'analytics.noRecentData': 'لا توجد بيانات حديثة',
+
+	// Leaves
+	'leaves.title': 'إدارة الإجازات',
+	'leaves.subtitle': 'إدارة طلبات إجازات الموظفين واعتمادها',
+	'leaves.unknownEmployee': 'موظف غير معروف',
+	'leaves.unnamedEmployee': 'موظف بلا اسم',
+	'leaves.type.annual': 'إجازة سنوية',
+	'leaves.type.sick': 'إجازة مرضية',
+	'leaves.type.emergency': 'إجازة طارئة',
+	'leaves.type.unpaid': 'إجازة بدون راتب',
+	'leaves.type.other': 'أخرى',
+	'leaves.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة.',
+	'leaves.endBeforeStart': 'يجب أن يكون تاريخ النهاية بعد تاريخ البداية.',
+	'leaves.updated': 'تم تحديث طلب الإجازة بنجاح!',
+	'leaves.created': 'تم إنشاء طلب الإجازة بنجاح!',
+	'leaves.saveFailed': 'تعذر حفظ طلب الإجازة.',
+	'leaves.approved': 'تم اعتماد طلب الإجازة!',
+	'leaves.approveFailed': 'تعذر اعتماد الإجازة.',
+	'leaves.rejected': 'تم رفض طلب الإجازة.',
+	'leaves.rejectFailed': 'تعذر رفض الإجازة.',
+	'leaves.deleteConfirm': 'هل أنت متأكد من حذف طلب الإجازة هذا؟',
+	'leaves.deleted': 'تم حذف طلب الإجازة.',
+	'leaves.deleteFailed': 'تعذر حذف الإجازة.',
+	'leaves.add': 'إضافة طلب إجازة',
+	'leaves.submitTitle': 'تقديم طلب إجازة',
+	'leaves.updateTitle': 'تحديث طلب الإجازة',
+	'leaves.submitDescription': 'أدخل تفاصيل طلب الإجازة الجديد',
+	'leaves.updateDescription': 'عدّل تفاصيل طلب الإجازة',
+	'leaves.findEmployee': 'البحث عن موظف',
+	'leaves.findEmployeePlaceholder': 'ابحث عن الموظفين بالاسم أو الرقم أو القسم',
+	'leaves.loadingEmployees': 'جارٍ تحميل الموظفين...',
+	'leaves.noEmployees': 'لم يُعثر على موظفين. يمكنك تعبئة الحقول يدويًا.',
+	'leaves.findEmployeeHint': 'اختر موظفًا لتعبئة البيانات تلقائيًا أو اتركه فارغًا للإدخال يدويًا.',
+	'leaves.employeeIdRequired': 'رقم الموظف *',
+	'leaves.employeeNameRequired': 'اسم الموظف *',
+	'leaves.fullNamePlaceholder': 'الاسم الكامل',
+	'leaves.department': 'القسم',
+	'leaves.position': 'المنصب',
+	'leaves.leaveTypeRequired': 'نوع الإجازة *',
+	'leaves.selectLeaveType': 'اختر نوع الإجازة',
+	'leaves.startDateRequired': 'تاريخ البداية *',
+	'leaves.endDateRequired': 'تاريخ النهاية *',
+	'leaves.durationLabel': 'المدة:',
+	'leaves.days': '{count} يوم',
+	'leaves.reasonRequired': 'السبب *',
+	'leaves.reasonPlaceholder': 'سبب طلب الإجازة...',
+	'leaves.additionalNotes': 'ملاحظات إضافية',
+	'leaves.notesPlaceholder': 'أي معلومات إضافية...',
+	'leaves.submitRequest': 'تقديم الطلب',
+	'leaves.totalRequests': 'إجمالي الطلبات',
+	'leaves.allTime': 'منذ البداية',
+	'leaves.awaitingApproval': 'بانتظار الاعتماد',
+	'leaves.thisYear': 'هذا العام',
+	'leaves.totalDays': 'إجمالي الأيام',
+	'leaves.approvedDays': 'أيام الإجازات المعتمدة',
+	'leaves.requests': 'طلبات الإجازة',
+	'leaves.allTypes': 'جميع الأنواع',
+	'leaves.searchPlaceholder': 'ابحث في الإجازات...',
+	'leaves.number': 'رقم الإجازة',
+	'leaves.employee': 'الموظف',
+	'leaves.type': 'النوع',
+	'leaves.startDate': 'تاريخ البداية',
+	'leaves.endDate': 'تاريخ النهاية',
+	'leaves.daysColumn': 'الأيام',
+	'leaves.loading': 'جارٍ تحميل طلبات الإجازة...',
+	'leaves.noMatches': 'لا توجد طلبات إجازة مطابقة لبحثك.',
+	'leaves.empty': 'لا توجد طلبات إجازة',
+	'leaves.detailsTitle': 'تفاصيل طلب الإجازة',
+	'leaves.leaveType': 'نوع الإجازة',
+	'leaves.duration': 'المدة',
+	'leaves.reason': 'السبب',
+	'leaves.appliedDate': 'تاريخ التقديم',
+	'leaves.approvedBy': 'اعتمده',
+	'leaves.approvedDate': 'تاريخ الاعتماد',
+	'leaves.approveRequest': 'اعتماد الطلب',
+	'leaves.rejectRequest': 'رفض الطلب',
+
+	// Suppliers
+	'suppliers.title': 'إدارة الموردين',
+	'suppliers.subtitle': 'إدارة الموردين ومتابعة المدفوعات',
+	'suppliers.category.rawMaterials': 'مواد خام',
+	'suppliers.category.packaging': 'تغليف',
+	'suppliers.category.equipment': 'معدات',
+	'suppliers.category.services': 'خدمات',
+	'suppliers.category.other': 'أخرى',
+	'suppliers.status.blocked': 'محظور',
+	'suppliers.paymentStatus.completed': 'مكتملة',
+	'suppliers.unknownSupplier': 'مورد غير معروف',
+	'suppliers.supplierCredit': 'رصيد دائن للمورد',
+	'suppliers.remainingBalance': 'الرصيد المتبقي',
+	'suppliers.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'suppliers.added': 'تمت إضافة المورد بنجاح',
+	'suppliers.addFailed': 'تعذرت إضافة المورد',
+	'suppliers.updated': 'تم تحديث المورد بنجاح',
+	'suppliers.updateFailed': 'تعذر تحديث المورد',
+	'suppliers.deleteConfirm': 'هل أنت متأكد من حذف هذا المورد؟',
+	'suppliers.deleted': 'تم حذف المورد بنجاح',
+	'suppliers.deleteFailed': 'تعذر الحذف',
+	'suppliers.notFound': 'لم يُعثر على المورد',
+	'suppliers.paymentRecorded': 'تم تسجيل الدفعة بنجاح',
+	'suppliers.paymentFailed': 'تعذر تسجيل الدفعة',
+	'suppliers.total': 'إجمالي الموردين',
+	'suppliers.activeCount': '{count} نشط',
+	'suppliers.totalPayable': 'إجمالي المستحق',
+	'suppliers.outstandingBalance': 'الرصيد القائم',
+	'suppliers.monthlyPayments': 'مدفوعات الشهر',
+	'suppliers.thisMonth': 'هذا الشهر',
+	'suppliers.totalPayments': 'إجمالي المدفوعات',
+	'suppliers.allTime': 'منذ البداية',
+	'suppliers.tabSuppliers': 'الموردون',
+	'suppliers.tabPayments': 'المدفوعات',
+	'suppliers.listTitle': 'قائمة الموردين',
+	'suppliers.listDescription': 'عرض جميع الموردين وإدارتهم',
+	'suppliers.add': 'إضافة مورد',
+	'suppliers.update': 'تحديث المورد',
+	'suppliers.addPayment': 'إضافة دفعة',
+	'suppliers.searchPlaceholder': 'ابحث في الموردين...',
+	'suppliers.category': 'الفئة',
+	'suppliers.allCategories': 'جميع الفئات',
+	'suppliers.loading': 'جارٍ تحميل الموردين...',
+	'suppliers.code': 'الرمز',
+	'suppliers.name': 'اسم المورد',
+	'suppliers.contact': 'التواصل',
+	'suppliers.balance': 'الرصيد',
+	'suppliers.empty': 'لا يوجد موردون',
+	'suppliers.credit': 'دائن',
+	'suppliers.due': 'مستحق',
+	'suppliers.paymentHistory': 'سجل المدفوعات',
+	'suppliers.paymentHistoryDescription': 'تابع جميع مدفوعات الموردين',
+	'suppliers.recordPayment': 'تسجيل دفعة',
+	'suppliers.recordPaymentDescription': 'أضف دفعة جديدة لمورد',
+	'suppliers.loadingPayments': 'جارٍ تحميل المدفوعات...',
+	'suppliers.paymentNumber': 'رقم الدفعة',
+	'suppliers.supplier': 'المورد',
+	'suppliers.amount': 'المبلغ',
+	'suppliers.method': 'الطريقة',
+	'suppliers.reference': 'المرجع',
+	'suppliers.noPayments': 'لا توجد مدفوعات مسجلة',
+	'suppliers.editTitle': 'تعديل المورد',
+	'suppliers.addTitle': 'إضافة مورد جديد',
+	'suppliers.editDescription': 'حدّث بيانات المورد',
+	'suppliers.addDescription': 'أدخل بيانات المورد',
+	'suppliers.nameEnRequired': 'الاسم (بالإنجليزية) *',
+	'suppliers.nameEnPlaceholder': 'اسم المورد بالإنجليزية',
+	'suppliers.nameArRequired': 'الاسم (بالعربية) *',
+	'suppliers.contactPerson': 'جهة الاتصال',
+	'suppliers.contactPersonPlaceholder': 'اسم جهة الاتصال',
+	'suppliers.phoneRequired': 'الهاتف *',
+	'suppliers.taxNumber': 'الرقم الضريبي',
+	'suppliers.address': 'العنوان',
+	'suppliers.addressPlaceholder': 'عنوان الشارع',
+	'suppliers.city': 'المدينة',
+	'suppliers.country': 'الدولة',
+	'suppliers.paymentTerms': 'شروط الدفع',
+	'suppliers.paymentTermsPlaceholder': 'مثال: صافي 30',
+	'suppliers.creditLimitSar': 'حد الائتمان (ر.س)',
+	'suppliers.notesPlaceholder': 'ملاحظات إضافية...',
+	'suppliers.supplierRequired': 'المورد *',
+	'suppliers.selectSupplier': 'اختر المورد',
+	'suppliers.amountRequired': 'المبلغ (ر.س) *',
+	'suppliers.fullAmount': 'المبلغ كاملًا',
+	'suppliers.creditHint': 'ستُخصم أوامر الشراء القادمة من هذا الرصيد تلقائيًا.',
+	'suppliers.paymentDateRequired': 'تاريخ الدفع *',
+	'suppliers.paymentMethodRequired': 'طريقة الدفع *',
+	'suppliers.referenceRequired': 'الرقم المرجعي *',
+	'suppliers.referencePlaceholder': 'TRF-XXXX أو CHK-XXXX',
+	'suppliers.description': 'الوصف',
+	'suppliers.descriptionPlaceholder': 'تفاصيل الدفعة...',
+	'suppliers.detailsTitle': 'تفاصيل المورد',
+	'suppliers.supplierCode': 'رمز المورد',
+	'suppliers.nameEn': 'الاسم (بالإنجليزية)',
+	'suppliers.nameAr': 'الاسم (بالعربية)',
+	'suppliers.contactInformation': 'بيانات التواصل',
+	'suppliers.financialInformation': 'البيانات المالية',
+	'suppliers.currentBalance': 'الرصيد الحالي',
+	'suppliers.amountDue': 'المبلغ المستحق',
+	'suppliers.creditLimit': 'حد الائتمان',
+	'suppliers.totalPurchases': 'إجمالي المشتريات',
+	'suppliers.recentPayments': 'أحدث المدفوعات',
+
+	// Employee requests
+	'employeeRequests.title': 'طلبات الموظفين',
+	'employeeRequests.subtitle': 'إدارة طلبات الإجازة والسلف والقروض وغيرها من طلبات الموظفين',
+	'employeeRequests.type.leave': 'طلب إجازة',
+	'employeeRequests.type.advance': 'سلفة على الراتب',
+	'employeeRequests.type.loan': 'قرض موظف',
+	'employeeRequests.type.overtime': 'بدل عمل إضافي',
+	'employeeRequests.type.other': 'طلب آخر',
+	'employeeRequests.status.completed': 'مكتمل',
+	'employeeRequests.movedToPending': 'أُعيد الطلب إلى قيد الانتظار.',
+	'employeeRequests.approved': 'تم اعتماد الطلب بنجاح!',
+	'employeeRequests.rejected': 'تم رفض الطلب.',
+	'employeeRequests.completed': 'تم تعليم الطلب كمكتمل.',
+	'employeeRequests.statusFailed': 'تعذر تحديث حالة الطلب.',
+	'employeeRequests.leaveDatesRequired': 'يرجى اختيار تاريخي بداية الإجازة ونهايتها.',
+	'employeeRequests.amountRequiredError': 'يرجى إدخال مبلغ هذا الطلب.',
+	'employeeRequests.leaveEndBeforeStart': 'يجب أن يكون تاريخ نهاية الإجازة بعد تاريخ بدايتها.',
+	'employeeRequests.updated': 'تم تحديث الطلب بنجاح!',
+	'employeeRequests.submitted': 'تم تقديم الطلب بنجاح!',
+	'employeeRequests.saveFailed': 'تعذر حفظ الطلب.',
+	'employeeRequests.deleteConfirm': 'هل أنت متأكد من حذف هذا الطلب؟',
+	'employeeRequests.deleted': 'تم حذف الطلب.',
+	'employeeRequests.deleteFailed': 'تعذر حذف الطلب.',
+	'employeeRequests.new': 'طلب جديد',
+	'employeeRequests.submitTitle': 'تقديم طلب موظف',
+	'employeeRequests.updateTitle': 'تحديث طلب الموظف',
+	'employeeRequests.submitDescription': 'أدخل تفاصيل الطلب الجديد',
+	'employeeRequests.updateDescription': 'عدّل تفاصيل الطلب',
+	'employeeRequests.requestTypeRequired': 'نوع الطلب *',
+	'employeeRequests.selectRequestType': 'اختر نوع الطلب',
+	'employeeRequests.amountRequired': 'المبلغ (ر.س) *',
+	'employeeRequests.repaymentMonths': 'مدة السداد (بالأشهر)',
+	'employeeRequests.repaymentMonthsPlaceholder': 'أدخل عدد الأشهر',
+	'employeeRequests.monthlyDeductionLabel': 'الاستقطاع الشهري:',
+	'employeeRequests.descriptionRequired': 'الوصف *',
+	'employeeRequests.descriptionPlaceholder': 'صف الطلب...',
+	'employeeRequests.totalAdvances': 'إجمالي السلف',
+	'employeeRequests.approvedAdvances': 'القروض والسلف المعتمدة',
+	'employeeRequests.searchPlaceholder': 'ابحث في الطلبات...',
+	'employeeRequests.number': 'رقم الطلب',
+	'employeeRequests.details': 'التفاصيل',
+	'employeeRequests.requestedDate': 'تاريخ الطلب',
+	'employeeRequests.loading': 'جارٍ تحميل الطلبات...',
+	'employeeRequests.months': '{count} شهر',
+	'employeeRequests.markCompleted': 'تعليم كمكتمل',
+	'employeeRequests.noMatches': 'لا توجد طلبات مطابقة لبحثك.',
+	'employeeRequests.empty': 'لا توجد طلبات موظفين',
+	'employeeRequests.detailsTitle': 'تفاصيل الطلب',
+	'employeeRequests.requestType': 'نوع الطلب',
+	'employeeRequests.amount': 'المبلغ',
+	'employeeRequests.repaymentPeriod': 'مدة السداد',
+	'employeeRequests.monthlyDeduction': 'الاستقطاع الشهري',
+	'employeeRequests.description': 'الوصف',
+
+	// Platform orders
+	'platformOrders.title': 'طلبات المنصات',
+	'platformOrders.subtitle': 'إدارة الطلبات من أمازون ونون وموقعك الإلكتروني',
+	'platformOrders.status.confirmed': 'مؤكد',
+	'platformOrders.status.processing': 'قيد التجهيز',
+	'platformOrders.status.shipped': 'تم الشحن',
+	'platformOrders.status.delivered': 'تم التسليم',
+	'platformOrders.paymentStatus.refunded': 'مسترد',
+	'platformOrders.paymentMethod.cod': 'الدفع عند الاستلام',
+	'platformOrders.paymentMethod.card': 'بطاقة',
+	'platformOrders.paymentMethod.bankTransfer': 'تحويل بنكي',
+	'platformOrders.paymentMethod.applePay': 'Apple Pay',
+	'platformOrders.paymentMethod.tamara': 'تمارا',
+	'platformOrders.paymentMethod.tabby': 'تابي',
+	'platformOrders.paymentMethod.onlinePayment': 'دفع إلكتروني',
+	'platformOrders.paymentMethod.other': 'أخرى',
+	'platformOrders.syncCustomerFailed': 'تعذرت مزامنة عميل المنصة',
+	'platformOrders.syncingCustomers': 'جارٍ مزامنة العملاء من جميع الطلبات...',
+	'platformOrders.customersSynced': 'تمت مزامنة {customers} عميل من {orders} طلب',
+	'platformOrders.syncCustomersFailed': 'تعذرت مزامنة العملاء',
+	'platformOrders.itemFieldsRequired': 'يرجى تعبئة جميع حقول الصنف',
+	'platformOrders.itemAdded': 'تمت إضافة الصنف',
+	'platformOrders.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة وإضافة صنف واحد على الأقل',
+	'platformOrders.added': 'تمت إضافة الطلب بنجاح',
+	'platformOrders.addFailed': 'تعذرت إضافة الطلب',
+	'platformOrders.statusUpdated': 'تم تحديث حالة الطلب',
+	'platformOrders.statusUpdateFailed': 'تعذر تحديث الحالة',
+	'platformOrders.paymentStatusUpdated': 'تم تحديث حالة الدفع',
+	'platformOrders.paymentStatusUpdateFailed': 'تعذر تحديث حالة الدفع',
+	'platformOrders.updated': 'تم تحديث الطلب بنجاح',
+	'platformOrders.updateFailed': 'تعذر تحديث الطلب',
+	'platformOrders.totalOrders': 'إجمالي الطلبات',
+	'platformOrders.acrossAllPlatforms': 'عبر جميع المنصات',
+	'platformOrders.pendingOrders': 'الطلبات المعلقة',
+	'platformOrders.awaitingConfirmation': 'بانتظار التأكيد',
+	'platformOrders.beingPrepared': 'قيد الإعداد',
+	'platformOrders.totalRevenue': 'إجمالي الإيرادات',
+	'platformOrders.paidOrders': 'الطلبات المدفوعة',
+	'platformOrders.listTitle': 'قائمة الطلبات',
+	'platformOrders.listDescription': 'عرض وإدارة جميع طلبات المنصات',
+	'platformOrders.syncCustomers': 'مزامنة العملاء',
+	'platformOrders.addOrder': 'إضافة طلب جديد',
+	'platformOrders.searchPlaceholder': 'ابحث في الطلبات...',
+	'platformOrders.platform': 'المنصة',
+	'platformOrders.allPlatforms': 'جميع المنصات',
+	'platformOrders.orderNumberShort': 'رقم الطلب',
+	'platformOrders.items': 'الأصناف',
+	'platformOrders.payment': 'الدفع',
+	'platformOrders.created': 'تاريخ الإنشاء',
+	'platformOrders.lastModified': 'آخر تعديل',
+	'platformOrders.loading': 'جارٍ تحميل الطلبات...',
+	'platformOrders.empty': 'لا توجد طلبات',
+	'platformOrders.itemCount': '{count} صنف',
+	'platformOrders.detailsTitle': 'تفاصيل الطلب',
+	'platformOrders.detailsDescription': 'عرض معلومات الطلب كاملة',
+	'platformOrders.orderNumber': 'رقم الطلب',
+	'platformOrders.orderDate': 'تاريخ الطلب',
+	'platformOrders.paymentMethod': 'طريقة الدفع',
+	'platformOrders.customerInformation': 'معلومات العميل',
+	'platformOrders.name': 'الاسم',
+	'platformOrders.shippingAddress': 'عنوان الشحن',
+	'platformOrders.orderItems': 'أصناف الطلب',
+	'platformOrders.product': 'المنتج',
+	'platformOrders.sku': 'رمز المنتج',
+	'platformOrders.qty': 'الكمية',
+	'platformOrders.price': 'السعر',
+	'platformOrders.orderSummary': 'ملخص الطلب',
+	'platformOrders.subtotal': 'المجموع الفرعي',
+	'platformOrders.shipping': 'الشحن',
+	'platformOrders.tax': 'الضريبة (15%)',
+	'platformOrders.orderStatus': 'حالة الطلب',
+	'platformOrders.paymentStatus': 'حالة الدفع',
+	'platformOrders.trackingNumber': 'رقم التتبع',
+	'platformOrders.printInvoice': 'طباعة الفاتورة',
+	'platformOrders.statusDialogTitle': 'تحديث حالة الطلب',
+	'platformOrders.statusDialogDescription': 'تحديث حالة الطلب وحالة الدفع معًا',
+	'platformOrders.addDescription': 'إنشاء طلب جديد من منصة',
+	'platformOrders.platformRequired': 'المنصة *',
+	'platformOrders.paymentMethodRequired': 'طريقة الدفع *',
+	'platformOrders.initialOrderStatus': 'حالة الطلب الأولية',
+	'platformOrders.initialPaymentStatus': 'حالة الدفع الأولية',
+	'platformOrders.customerNameRequired': 'اسم العميل *',
+	'platformOrders.customerNamePlaceholder': 'أدخل اسم العميل',
+	'platformOrders.phoneRequired': 'الهاتف *',
+	'platformOrders.addressPlaceholder': 'عنوان الشارع',
+	'platformOrders.cityRequired': 'المدينة *',
+	'platformOrders.cityPlaceholder': 'المدينة',
+	'platformOrders.shippingCost': 'تكلفة الشحن (ر.س)',
+	'platformOrders.productNameRequired': 'اسم المنتج *',
+	'platformOrders.productNamePlaceholder': 'مثال: منتج ABC',
+	'platformOrders.skuRequired': 'رمز المنتج *',
+	'platformOrders.skuPlaceholder': 'مثال: SKU-12345',
+	'platformOrders.quantityRequired': 'الكمية *',
+	'platformOrders.priceRequired': 'السعر (ر.س) *',
+	'platformOrders.addItem': 'إضافة صنف',
+	'platformOrders.notesPlaceholder': 'ملاحظات إضافية...',
+	'platformOrders.createOrder': 'إنشاء الطلب',
+
+	// Employee custody
+	'custody.title': 'عهدة الموظفين',
+	'custody.subtitle': 'إدارة العهد المسلّمة للموظفين',
+	'custody.status.active': 'نشطة',
+	'custody.status.activeWithEmployee': 'نشطة (لدى الموظف)',
+	'custody.status.returned': 'مُعادة',
+	'custody.status.damaged': 'تالفة',
+	'custody.status.lost': 'مفقودة',
+	'custody.condition.new': 'جديدة',
+	'custody.condition.good': 'جيدة',
+	'custody.condition.fair': 'مقبولة',
+	'custody.condition.poor': 'سيئة',
+	'custody.category.laptop': 'حاسب محمول',
+	'custody.category.mobile': 'هاتف محمول',
+	'custody.category.tablet': 'جهاز لوحي',
+	'custody.category.monitor': 'شاشة',
+	'custody.category.printer': 'طابعة',
+	'custody.category.vehicle': 'مركبة',
+	'custody.category.accessCard': 'بطاقة دخول',
+	'custody.category.keys': 'مفاتيح',
+	'custody.category.other': 'أخرى',
+	'custody.generalDepartment': 'عام',
+	'custody.linkFailed': 'تعذر ربط العهد بسجل الموظف',
+	'custody.imageTooLarge': 'يجب أن يكون حجم الصورة أقل من 5 ميجابايت',
+	'custody.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'custody.invalidValue': 'يرجى إدخال قيمة رقمية صحيحة',
+	'custody.imageUploadFailed': 'تعذر رفع الصورة',
+	'custody.updated': 'تم تحديث العهدة بنجاح!',
+	'custody.added': 'تمت إضافة العهدة بنجاح!',
+	'custody.saveFailed': 'تعذر حفظ العهدة',
+	'custody.deleted': 'تم حذف العهدة بنجاح!',
+	'custody.deleteFailed': 'تعذر حذف العهدة',
+	'custody.newItem': 'عهدة جديدة',
+	'custody.totalItems': 'إجمالي العهد',
+	'custody.allItems': 'جميع العهد',
+	'custody.withEmployees': 'لدى الموظفين',
+	'custody.backToInventory': 'أُعيدت إلى المخزون',
+	'custody.needsAttention': 'تحتاج إلى متابعة',
+	'custody.activeValue': 'قيمة العهد النشطة',
+	'custody.currentValue': 'القيمة الحالية',
+	'custody.searchPlaceholder': 'ابحث بالعهدة أو الموظف أو الرقم التسلسلي...',
+	'custody.allCategories': 'جميع الفئات',
+	'custody.empty': 'لا توجد عهد',
+	'custody.number': 'رقم العهدة',
+	'custody.item': 'العهدة',
+	'custody.category': 'الفئة',
+	'custody.employee': 'الموظف',
+	'custody.dateIssued': 'تاريخ التسليم',
+	'custody.value': 'القيمة',
+	'custody.conditionLabel': 'الحالة الفنية',
+	'custody.editTitle': 'تعديل العهدة',
+	'custody.addTitle': 'إضافة عهدة جديدة',
+	'custody.editDescription': 'تحديث بيانات العهدة',
+	'custody.addDescription': 'تسجيل عهدة جديدة',
+	'custody.tab.item': 'تفاصيل العهدة',
+	'custody.tab.employee': 'بيانات الموظف',
+	'custody.tab.additional': 'معلومات إضافية',
+	'custody.itemNameEnRequired': 'اسم العهدة (بالإنجليزية) *',
+	'custody.itemNameArRequired': 'اسم العهدة (بالعربية) *',
+	'custody.categoryRequired': 'الفئة *',
+	'custody.selectCategory': 'اختر الفئة',
+	'custody.serialNumber': 'الرقم التسلسلي',
+	'custody.descriptionEn': 'الوصف (بالإنجليزية)',
+	'custody.descriptionEnPlaceholder': 'وصف تفصيلي بالإنجليزية',
+	'custody.descriptionAr': 'الوصف (بالعربية)',
+	'custody.itemValueRequired': 'قيمة العهدة (ر.س) *',
+	'custody.conditionRequired': 'الحالة الفنية *',
+	'custody.itemImage': 'صورة العهدة',
+	'custody.uploadImage': 'ارفع صورة العهدة',
+	'custody.maxSize': 'الحد الأقصى للحجم: 5 ميجابايت',
+	'custody.selectEmployeeRequired': 'اختر الموظف *',
+	'custody.chooseEmployee': 'اختر موظفًا من القائمة',
+	'custody.employeeName': 'اسم الموظف',
+	'custody.employeeId': 'رقم الموظف',
+	'custody.dateIssuedRequired': 'تاريخ التسليم *',
+	'custody.statusRequired': 'الحالة *',
+	'custody.dateReturnedOptional': 'تاريخ الإرجاع (إن وجد)',
+	'custody.location': 'الموقع',
+	'custody.locationPlaceholder': 'مكتب الرياض / ميداني',
+	'custody.warrantyExpiry': 'انتهاء الضمان',
+	'custody.notesPlaceholder': 'ملاحظات أو تعليقات إضافية',
+	'custody.update': 'تحديث العهدة',
+	'custody.add': 'إضافة العهدة',
+	'custody.detailsTitle': 'تفاصيل العهدة',
+	'custody.detailsDescription': 'المعلومات الكاملة عن هذه العهدة',
+	'custody.itemValue': 'قيمة العهدة',
+	'custody.duration': 'المدة',
+	'custody.employeeInformation': 'بيانات الموظف',
+	'custody.name': 'الاسم',
+	'custody.descriptionEnShort': 'الوصف (EN)',
+	'custody.descriptionArShort': 'الوصف (AR)',
+	'custody.returnInformation': 'بيانات الإرجاع',
+	'custody.dateReturned': 'تاريخ الإرجاع:',
+	'custody.editItem': 'تعديل العهدة',
+
+	// Fixed assets
+	'assets.title': 'إدارة الأصول الثابتة',
+	'assets.subtitle': 'متابعة وإدارة أصول الشركة',
+	'assets.status.active': 'نشط',
+	'assets.status.underMaintenance': 'تحت الصيانة',
+	'assets.status.disposed': 'مُستبعد',
+	'assets.status.sold': 'مُباع',
+	'assets.condition.excellent': 'ممتاز',
+	'assets.condition.good': 'جيد',
+	'assets.condition.fair': 'مقبول',
+	'assets.condition.poor': 'سيئ',
+	'assets.category.realEstate': 'عقارات',
+	'assets.category.vehicles': 'مركبات',
+	'assets.category.machinery': 'آلات ومعدات',
+	'assets.category.itEquipment': 'معدات تقنية المعلومات',
+	'assets.category.furniture': 'أثاث وتجهيزات',
+	'assets.category.other': 'أخرى',
+	'assets.department.administration': 'الإدارة',
+	'assets.department.manufacturing': 'التصنيع',
+	'assets.department.it': 'تقنية المعلومات',
+	'assets.department.sales': 'المبيعات',
+	'assets.department.logistics': 'الخدمات اللوجستية',
+	'assets.department.finance': 'المالية',
+	'assets.imageTooLarge': 'يجب أن يكون حجم الصورة أقل من 5 ميجابايت',
+	'assets.loadForEditFailed': 'تعذر تحميل الأصل للتعديل',
+	'assets.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'assets.purchasePriceInvalid': 'يجب أن يكون سعر الشراء رقمًا',
+	'assets.currentValueInvalid': 'يجب أن تكون القيمة الحالية رقمًا',
+	'assets.depreciationRateInvalid': 'يجب أن يكون معدل الإهلاك رقمًا',
+	'assets.usefulLifeInvalid': 'يجب أن يكون العمر الإنتاجي رقمًا',
+	'assets.imageUploadFailed': 'تعذر رفع الصورة',
+	'assets.updated': 'تم تحديث الأصل بنجاح!',
+	'assets.added': 'تمت إضافة الأصل بنجاح!',
+	'assets.saveFailed': 'تعذر حفظ الأصل',
+	'assets.deleted': 'تم حذف الأصل بنجاح!',
+	'assets.deleteFailed': 'تعذر حذف الأصل',
+	'assets.newAsset': 'أصل جديد',
+	'assets.totalAssets': 'إجمالي الأصول',
+	'assets.allAssets': 'جميع الأصول',
+	'assets.activeAssets': 'الأصول النشطة',
+	'assets.inUse': 'قيد الاستخدام',
+	'assets.purchaseValue': 'قيمة الشراء',
+	'assets.originalCost': 'التكلفة الأصلية',
+	'assets.currentValue': 'القيمة الحالية',
+	'assets.bookValue': 'القيمة الدفترية',
+	'assets.maintenance': 'الصيانة',
+	'assets.underService': 'قيد الخدمة',
+	'assets.searchPlaceholder': 'ابحث بالاسم أو رقم الأصل أو الرقم التسلسلي...',
+	'assets.allCategories': 'جميع الفئات',
+	'assets.loadFailed': 'تعذر تحميل الأصول',
+	'assets.loading': 'جارٍ تحميل الأصول...',
+	'assets.empty': 'لا توجد أصول',
+	'assets.number': 'رقم الأصل',
+	'assets.assetName': 'اسم الأصل',
+	'assets.category': 'الفئة',
+	'assets.location': 'الموقع',
+	'assets.purchaseDate': 'تاريخ الشراء',
+	'assets.purchasePrice': 'سعر الشراء',
+	'assets.conditionLabel': 'الحالة الفنية',
+	'assets.percentOfOriginal': '{percent} من القيمة الأصلية',
+	'assets.editTitle': 'تعديل الأصل',
+	'assets.addTitle': 'إضافة أصل جديد',
+	'assets.editDescription': 'تحديث بيانات الأصل',
+	'assets.addDescription': 'تسجيل أصل جديد للشركة',
+	'assets.tab.basic': 'المعلومات الأساسية',
+	'assets.tab.financial': 'المالية',
+	'assets.tab.maintenance': 'الصيانة',
+	'assets.tab.additional': 'إضافي',
+	'assets.assetNameEnRequired': 'اسم الأصل (بالإنجليزية) *',
+	'assets.assetNameEnPlaceholder': 'مبنى المكتب',
+	'assets.assetNameArRequired': 'اسم الأصل (بالعربية) *',
+	'assets.categoryRequired': 'الفئة *',
+	'assets.selectCategory': 'اختر الفئة',
+	'assets.typeRequired': 'نوع الأصل *',
+	'assets.typePlaceholder': 'مبنى، مركبة، معدات...',
+	'assets.locationRequired': 'الموقع *',
+	'assets.locationPlaceholder': 'مكتب الرياض',
+	'assets.departmentRequired': 'القسم *',
+	'assets.selectDepartment': 'اختر القسم',
+	'assets.descriptionEn': 'الوصف (بالإنجليزية)',
+	'assets.descriptionEnPlaceholder': 'وصف تفصيلي بالإنجليزية',
+	'assets.descriptionAr': 'الوصف (بالعربية)',
+	'assets.statusRequired': 'الحالة *',
+	'assets.conditionRequired': 'الحالة الفنية *',
+	'assets.purchaseDateRequired': 'تاريخ الشراء *',
+	'assets.purchasePriceRequired': 'سعر الشراء (ر.س) *',
+	'assets.currentValueSar': 'القيمة الحالية (ر.س)',
+	'assets.depreciationRate': 'معدل الإهلاك (%)',
+	'assets.usefulLife': 'العمر الإنتاجي (سنوات)',
+	'assets.enterManually': 'إدخال يدوي',
+	'assets.supplierNamePlaceholder': 'أدخل اسم المورد...',
+	'assets.selectSupplier': 'اختر المورد...',
+	'assets.totalDepreciation': 'إجمالي الإهلاك',
+	'assets.depreciationPercent': 'نسبة الإهلاك',
+	'assets.remainingValue': 'القيمة المتبقية',
+	'assets.warrantyExpiry': 'انتهاء الضمان',
+	'assets.lastMaintenanceDate': 'تاريخ آخر صيانة',
+	'assets.nextMaintenanceDate': 'تاريخ الصيانة القادمة',
+	'assets.serialNumber': 'الرقم التسلسلي',
+	'assets.model': 'الطراز',
+	'assets.modelPlaceholder': 'اسم الطراز أو رقمه',
+	'assets.manufacturer': 'الشركة المصنعة',
+	'assets.manufacturerPlaceholder': 'اسم الشركة المصنعة',
+	'assets.notesPlaceholder': 'ملاحظات أو تعليقات إضافية',
+	'assets.assetImage': 'صورة الأصل',
+	'assets.imageAlt': 'الأصل',
+	'assets.uploadImage': 'ارفع صورة الأصل',
+	'assets.maxSize': 'الحد الأقصى للحجم: 5 ميجابايت',
+	'assets.update': 'تحديث الأصل',
+	'assets.add': 'إضافة الأصل',
+	'assets.detailsTitle': 'تفاصيل الأصل',
+	'assets.detailsDescription': 'المعلومات الكاملة عن هذا الأصل',
+	'assets.depreciation': 'الإهلاك',
+	'assets.depreciationPerYear': '{rate} سنويًا',
+	'assets.assetAge': 'عمر الأصل',
+	'assets.years': '{count} سنة',
+	'assets.assetInformation': 'معلومات الأصل',
+	'assets.descriptionEnShort': 'الوصف (EN)',
+	'assets.descriptionArShort': 'الوصف (AR)',
+	'assets.additionalDetails': 'تفاصيل إضافية',
+	'assets.maintenanceInformation': 'معلومات الصيانة',
+	'assets.lastMaintenance': 'آخر صيانة',
+	'assets.nextMaintenance': 'الصيانة القادمة',
+
+	// My workspace
+	'myWorkspace.generalCategory': 'عام',
+	'myWorkspace.unnamedItem': 'عنصر بدون اسم',
+	'myWorkspace.employeeRequest': 'طلب موظف',
+	'myWorkspace.supportTicket': 'تذكرة دعم',
+	'myWorkspace.approvedBy': 'تمت الموافقة من {name}',
+	'myWorkspace.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'myWorkspace.notLinked': 'حسابك غير مرتبط بملف موظف بعد.',
+	'myWorkspace.endBeforeStart': 'يجب أن يكون تاريخ النهاية بعد تاريخ البداية',
+	'myWorkspace.requestSubmitted': 'تم إرسال الطلب بنجاح!',
+	'myWorkspace.requestFailed': 'تعذر إرسال الطلب',
+	'myWorkspace.leaveSubmitted': 'تم إرسال طلب الإجازة بنجاح!',
+	'myWorkspace.leaveFailed': 'تعذر إرسال طلب الإجازة',
+	'myWorkspace.taskStatusFailed': 'تعذر تحديث حالة المهمة',
+	'myWorkspace.years': '{count} سنة',
+	'myWorkspace.months': '{count} شهر',
+	'myWorkspace.notLinkedTitle': 'ملف الموظف غير مرتبط',
+	'myWorkspace.notLinkedDescription': 'لم نتمكن من العثور على سجل موظف مرتبط بحسابك. يرجى التواصل مع مسؤول النظام لإكمال الإعداد.',
+	'myWorkspace.loading': 'جارٍ تحميل بيانات مساحة عملك...',
+	'myWorkspace.linkToRequest': 'اربط ملف موظف لإرسال الطلبات',
+	'myWorkspace.linkToLeave': 'اربط ملف موظف لطلب إجازة',
+	'myWorkspace.newRequest': 'طلب جديد',
+	'myWorkspace.requestLeave': 'طلب إجازة',
+	'myWorkspace.pendingRequests': 'الطلبات المعلقة',
+	'myWorkspace.awaitingApproval': 'بانتظار الموافقة',
+	'myWorkspace.leaveRequests': 'طلبات الإجازة',
+	'myWorkspace.pendingApproval': 'قيد الموافقة',
+	'myWorkspace.upcomingVisits': 'الزيارات القادمة',
+	'myWorkspace.scheduled': 'مجدولة',
+	'myWorkspace.pendingTasks': 'المهام المعلقة',
+	'myWorkspace.toComplete': 'للإنجاز',
+	'myWorkspace.custodyValue': 'قيمة العهدة',
+	'myWorkspace.custodyValueHint': 'إجمالي قيمة العناصر',
+	'myWorkspace.tabProfile': 'الملف والعهدة',
+	'myWorkspace.tabTasks': 'مهامي',
+	'myWorkspace.tabRequests': 'طلباتي',
+	'myWorkspace.tabLeaves': 'إجازاتي',
+	'myWorkspace.tabVisits': 'زياراتي',
+	'myWorkspace.employeeInformation': 'معلومات الموظف',
+	'myWorkspace.employeeNumber': 'الرقم الوظيفي',
+	'myWorkspace.nationalId': 'رقم الهوية',
+	'myWorkspace.dateOfBirth': 'تاريخ الميلاد',
+	'myWorkspace.joiningDate': 'تاريخ الالتحاق',
+	'myWorkspace.employmentDuration': 'مدة الخدمة',
+	'myWorkspace.contractType': 'نوع العقد',
+	'myWorkspace.contactInformation': 'معلومات الاتصال',
+	'myWorkspace.address': 'العنوان',
+	'myWorkspace.emergencyContact': 'جهة الاتصال في الطوارئ',
+	'myWorkspace.contactPerson': 'الشخص المسؤول',
+	'myWorkspace.emergencyPhone': 'هاتف الطوارئ',
+	'myWorkspace.financialInformation': 'المعلومات المالية',
+	'myWorkspace.basicSalary': 'الراتب الأساسي',
+	'myWorkspace.allowances': 'البدلات',
+	'myWorkspace.totalSalary': 'إجمالي الراتب',
+	'myWorkspace.bankDetails': 'البيانات البنكية',
+	'myWorkspace.bankName': 'اسم البنك',
+	'myWorkspace.accountNumber': 'رقم الحساب',
+	'myWorkspace.iban': 'الآيبان',
+	'myWorkspace.custodySummary': 'ملخص العهدة',
+	'myWorkspace.totalItems': 'إجمالي العناصر',
+	'myWorkspace.totalValue': 'إجمالي القيمة',
+	'myWorkspace.custodyItems': 'عناصر العهدة',
+	'myWorkspace.custodyItemsDescription': 'جميع المعدات والأصول المسلّمة إليك',
+	'myWorkspace.serialNumber': 'الرقم التسلسلي',
+	'myWorkspace.dateReceived': 'تاريخ الاستلام',
+	'myWorkspace.value': 'القيمة',
+	'myWorkspace.category': 'الفئة',
+	'myWorkspace.note': 'ملاحظة:',
+	'myWorkspace.noRequests': 'لا توجد طلبات بعد',
+	'myWorkspace.firstRequest': 'أرسل طلبك الأول',
+	'myWorkspace.submittedOn': 'تاريخ الإرسال: {date}',
+	'myWorkspace.response': 'الرد:',
+	'myWorkspace.noLeaves': 'لا توجد طلبات إجازة',
+	'myWorkspace.firstLeave': 'اطلب إجازتك الأولى',
+	'myWorkspace.reason': 'السبب:',
+	'myWorkspace.noVisits': 'لا توجد زيارات مجدولة',
+	'myWorkspace.viewDetails': 'عرض التفاصيل',
+	'myWorkspace.noTasks': 'لا توجد مهام مسندة',
+	'myWorkspace.dueOn': 'الاستحقاق: {date}',
+	'myWorkspace.submitRequestTitle': 'إرسال طلب جديد',
+	'myWorkspace.submitRequestDescription': 'أدخل تفاصيل طلبك',
+	'myWorkspace.requestType': 'نوع الطلب *',
+	'myWorkspace.selectType': 'اختر النوع',
+	'myWorkspace.subject': 'الموضوع *',
+	'myWorkspace.subjectPlaceholder': 'وصف موجز لطلبك',
+	'myWorkspace.description': 'الوصف *',
+	'myWorkspace.descriptionPlaceholder': 'قدّم معلومات تفصيلية عن طلبك',
+	'myWorkspace.submitting': 'جارٍ الإرسال...',
+	'myWorkspace.submitRequest': 'إرسال الطلب',
+	'myWorkspace.leaveDialogDescription': 'أرسل طلب إجازتك',
+	'myWorkspace.leaveType': 'نوع الإجازة *',
+	'myWorkspace.startDate': 'تاريخ البداية *',
+	'myWorkspace.endDate': 'تاريخ النهاية *',
+	'myWorkspace.totalDays': 'إجمالي الأيام:',
+	'myWorkspace.reasonRequired': 'السبب *',
+	'myWorkspace.reasonPlaceholder': 'اشرح سبب إجازتك',
+	'myWorkspace.submitLeave': 'إرسال طلب الإجازة',
+
+	// Calendar and reminders
+	'reminders.title': 'التقويم والتذكيرات',
+	'reminders.subtitle': 'إدارة جدولك ومواعيدك وتذكيراتك',
+	'reminders.type.visit': 'زيارة',
+	'reminders.type.payment': 'دفعة',
+	'reminders.type.contract': 'عقد',
+	'reminders.type.followUp': 'متابعة',
+	'reminders.type.other': 'أخرى',
+	'reminders.priority.high': 'عالية',
+	'reminders.priority.medium': 'متوسطة',
+	'reminders.priority.low': 'منخفضة',
+	'reminders.completed': 'مكتمل',
+	'reminders.visitTitle': 'زيارة: {customer}',
+	'reminders.monthlyVisitTitle': 'زيارة شهرية: {customer}',
+	'reminders.noAddress': 'لا يوجد عنوان',
+	'reminders.paymentDueTitle': 'دفعة مستحقة: {customer}',
+	'reminders.invoiceDescription': 'فاتورة {number} - المبلغ: {amount}',
+	'reminders.unknownCustomer': 'عميل غير معروف',
+	'reminders.loadFailed': 'تعذر تحميل التذكيرات',
+	'reminders.visitsLoadFailed': 'تعذر تحميل الزيارات',
+	'reminders.invoicesLoadFailed': 'تعذر تحميل تواريخ استحقاق الفواتير',
+	'reminders.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'reminders.noCreatePermission': 'ليس لديك صلاحية إنشاء التذكيرات',
+	'reminders.noUpdateLinkedPermission': 'ليس لديك صلاحية تحديث تذكيرات الزيارات أو الفواتير',
+	'reminders.noDeleteLinkedPermission': 'ليس لديك صلاحية حذف تذكيرات الزيارات أو الفواتير',
+	'reminders.noDeletePermission': 'ليس لديك صلاحية حذف التذكيرات',
+	'reminders.linkedManagedElsewhere': 'تُدار تذكيرات الزيارات والفواتير من خلال وحداتها الخاصة',
+	'reminders.notFound': 'لم يتم العثور على التذكير',
+	'reminders.created': 'تم إنشاء التذكير بنجاح!',
+	'reminders.createFailed': 'تعذر إنشاء التذكير',
+	'reminders.updated': 'تم تحديث التذكير بنجاح!',
+	'reminders.updateFailed': 'تعذر تحديث التذكير',
+	'reminders.deleted': 'تم حذف التذكير بنجاح!',
+	'reminders.deleteFailed': 'تعذر حذف التذكير',
+	'reminders.visitStatusFailed': 'تعذر تحديث حالة الزيارة',
+	'reminders.markedCompleted': 'تم تعليم التذكير كمكتمل!',
+	'reminders.completeFailed': 'تعذر إكمال التذكير',
+	'reminders.reopened': 'أُعيد فتح التذكير وأصبح معلقاً.',
+	'reminders.reopenFailed': 'تعذر إعادة فتح التذكير',
+	'reminders.cancelled': 'تم إلغاء التذكير.',
+	'reminders.cancelFailed': 'تعذر إلغاء التذكير',
+	'reminders.assignedTo': 'مسند إلى: {name}',
+	'reminders.completedAt': 'اكتمل في: {date}',
+	'reminders.complete': 'إكمال',
+	'reminders.done': 'تم',
+	'reminders.reopen': 'إعادة فتح',
+	'reminders.addReminder': 'إضافة تذكير',
+	'reminders.createTitle': 'إنشاء تذكير جديد',
+	'reminders.createDescription': 'أنشئ تذكيراً أو موعداً جديداً',
+	'reminders.type': 'النوع',
+	'reminders.selectType': 'اختر النوع',
+	'reminders.priority': 'الأولوية',
+	'reminders.selectPriority': 'اختر الأولوية',
+	'reminders.titleRequired': 'العنوان *',
+	'reminders.titlePlaceholder': 'أدخل عنوان التذكير',
+	'reminders.description': 'الوصف',
+	'reminders.descriptionPlaceholder': 'تفاصيل إضافية...',
+	'reminders.dateRequired': 'التاريخ *',
+	'reminders.timeRequired': 'الوقت *',
+	'reminders.customerOptional': 'العميل (اختياري)',
+	'reminders.customerPlaceholder': 'اسم العميل',
+	'reminders.assignToOptional': 'إسناد إلى (اختياري)',
+	'reminders.assignToPlaceholder': 'اسم المندوب',
+	'reminders.createReminder': 'إنشاء التذكير',
+	'reminders.editTitle': 'تعديل التذكير',
+	'reminders.editDescription': 'تحديث تفاصيل التذكير',
+	'reminders.selectStatus': 'اختر الحالة',
+	'reminders.todayTitle': 'تذكيرات اليوم',
+	'reminders.editReminder': 'تعديل التذكير',
+	'reminders.deleteReminder': 'حذف التذكير',
+	'reminders.calendar': 'التقويم',
+	'reminders.calendarDescription': 'عرض جدولك وإدارته',
+	'reminders.activities': 'الأنشطة',
+	'reminders.activitiesFor': 'أنشطة يوم {date}',
+	'reminders.noActivities': 'لا توجد أنشطة مجدولة في هذا التاريخ',
+	'reminders.upcoming': 'القادمة',
+	'reminders.upcomingDescription': 'تذكيراتك القادمة',
+	'reminders.noUpcoming': 'لا توجد تذكيرات قادمة',
+	'reminders.allReminders': 'جميع التذكيرات',
+	'reminders.allDescription': 'عرض جميع التذكيرات وإدارتها',
+	'reminders.filter.visits': 'الزيارات',
+	'reminders.filter.payments': 'الدفعات',
+	'reminders.filter.contracts': 'العقود',
+	'reminders.filter.followUps': 'المتابعات',
+	'reminders.tabUpcoming': 'القادمة (الأيام الخمسة التالية)',
+	'reminders.tabMonth': 'الكل (هذا الشهر)',
+	'reminders.allInMonth': 'جميع التذكيرات في {month}',
+	'reminders.noneInMonth': 'لا توجد تذكيرات في {month}',
+
+	// Backups
+	'backup.never': 'أبداً',
+	'backup.sizeKb': '{size} ك.ب',
+	'backup.sizeMb': '{size} م.ب',
+	'backup.settingsLoadFailed': 'تعذر تحميل إعدادات النسخ الاحتياطي',
+	'backup.historyLoadFailed': 'تعذر تحميل سجل النسخ الاحتياطية',
+	'backup.completedOpening': 'اكتمل النسخ الاحتياطي! جارٍ فتح التنزيل...',
+	'backup.completedCheckHistory': 'اكتمل النسخ الاحتياطي! راجع سجل النسخ للتنزيل.',
+	'backup.completedSuccessCheckHistory': 'اكتمل النسخ الاحتياطي بنجاح! راجع سجل النسخ للتنزيل.',
+	'backup.completedDownloadStarted': 'اكتمل النسخ الاحتياطي! بدأ التنزيل.',
+	'backup.failedWithError': 'فشل النسخ الاحتياطي: {error}',
+	'backup.enabled': 'تم تفعيل النسخ الاحتياطي',
+	'backup.disabled': 'تم إيقاف النسخ الاحتياطي',
+	'backup.toggleFailed': 'تعذر تحديث إعداد النسخ الاحتياطي',
+	'backup.cancelledSuccess': 'تم إلغاء النسخ الاحتياطي بنجاح',
+	'backup.cancelInDatabaseFailed': 'تعذر إلغاء النسخة في قاعدة البيانات. قد تكون لا تزال قيد التشغيل.',
+	'backup.pollingCancelled': 'تم إيقاف متابعة النسخ الاحتياطي. قد يستمر النسخ في الخلفية.',
+	'backup.started': 'بدأ النسخ الاحتياطي. قد يستغرق عدة دقائق لقواعد البيانات الكبيرة...',
+	'backup.failedCheckLogs': 'فشل النسخ الاحتياطي. راجع سجلات GitHub Actions للتفاصيل.',
+	'backup.unknownStatus': 'حالة نسخ احتياطي غير معروفة: {status}',
+	'backup.finalizingStep': 'جارٍ إنهاء النسخة (المتابعة في الخلفية)',
+	'backup.finishedFinalizing': 'انتهى النسخ الاحتياطي. بانتظار إنهاء Supabase — تتم المتابعة في الخلفية.',
+	'backup.stillRunning': 'لا يزال النسخ الاحتياطي قيد التشغيل. سيستمر النظام في التحقق تلقائياً، ويمكنك مراجعة سجل النسخ للاطلاع على التحديثات.',
+	'backup.createFailed': 'تعذر إنشاء النسخة الاحتياطية. يرجى المحاولة مرة أخرى.',
+	'backup.checkEdgeLogs': 'راجع سجلات Supabase Edge Function لمزيد من التفاصيل عند الحاجة.',
+	'backup.noFile': 'لا يوجد ملف نسخة احتياطية',
+	'backup.invalidReference': 'مرجع ملف النسخة الاحتياطية غير صالح',
+	'backup.downloadStarted': 'بدأ التنزيل',
+	'backup.urlFailed': 'تعذر إنشاء رابط التنزيل',
+	'backup.invalidId': 'صيغة معرّف النسخة الاحتياطية غير صالحة',
+	'backup.cancelFailed': 'تعذر إلغاء النسخة الاحتياطية',
+	'backup.markedCancelled': 'تم تعليم النسخة كملغاة (أُلغيت {count} نسخة)',
+	'backup.noStuck': 'لا توجد نسخ احتياطية عالقة',
+	'backup.noValidIds': 'لا توجد معرّفات نسخ صالحة للإلغاء',
+	'backup.cancelAllFailed': 'تعذر إلغاء النسخ الاحتياطية',
+	'backup.markedCancelledCount': 'تم تعليم {count} نسخة كملغاة',
+	'backup.cancelStuckFailed': 'تعذر إلغاء النسخ العالقة',
+	'backup.deleteFailed': 'تعذر حذف النسخة الاحتياطية',
+	'backup.deleted': 'تم حذف النسخة الاحتياطية بنجاح',
+	'backup.invalidFileType': 'نوع الملف غير صالح. يرجى اختيار ملف ZIP.',
+	'backup.fileTooLarge': 'حجم الملف يتجاوز 500 ميجابايت. يرجى اختيار ملف أصغر.',
+	'backup.invalidFileName': 'اسم الملف غير صالح. يرجى استخدام اسم صالح.',
+	'backup.selectFile': 'يرجى اختيار ملف نسخة احتياطية للاستعادة',
+	'backup.restoreSuccess': 'اكتملت الاستعادة بنجاح! تم دمج البيانات مع البيانات الحالية.',
+	'backup.restoreWarnings': 'اكتملت الاستعادة مع تحذيرات. راجع النتائج للتفاصيل.',
+	'backup.uploadFailed': 'فشل الرفع',
+	'backup.restoreFailed': 'تعذرت استعادة النسخة الاحتياطية',
+	'backup.enterEmail': 'يرجى إدخال بريد إلكتروني',
+	'backup.emailSent': 'تم إرسال البريد بنجاح',
+	'backup.emailFailed': 'تعذر إرسال البريد',
+	'backup.enterPhone': 'يرجى إدخال رقم هاتف',
+	'backup.whatsappOpened': 'تم فتح رابط المشاركة عبر واتساب',
+	'backup.whatsappSent': 'تم إرسال رسالة واتساب بنجاح',
+	'backup.whatsappFailed': 'تعذرت المشاركة عبر واتساب',
+	'backup.autoDownloaded': 'تم تنزيل النسخة الاحتياطية تلقائياً',
+	'backup.status.success': 'ناجحة',
+	'backup.status.failed': 'فاشلة',
+	'backup.status.inProgressPercent': 'قيد التنفيذ ({progress}%)',
+	'backup.status.cancelled': 'ملغاة',
+	'backup.configTitle': 'إعدادات النسخ الاحتياطي',
+	'backup.configDescription': 'اضبط النسخ الاحتياطي اليومي التلقائي وأنشئ نسخاً يدوية عند الطلب',
+	'backup.enableDaily': 'تفعيل النسخ الاحتياطي اليومي التلقائي',
+	'backup.enableDailyDescription': 'سيعمل النسخ الاحتياطي تلقائياً مرة يومياً في الوقت المحدد',
+	'backup.lastBackup': 'آخر نسخة احتياطية:',
+	'backup.creating': 'جارٍ إنشاء النسخة...',
+	'backup.downloadNow': 'تنزيل نسخة احتياطية الآن',
+	'backup.restore': 'استعادة نسخة احتياطية',
+	'backup.progressTimedOut': 'النسخ يستغرق وقتاً أطول من المتوقع ({progress}%). تستمر المتابعة في الخلفية...',
+	'backup.progress': 'النسخ الاحتياطي قيد التنفيذ... {progress}%',
+	'backup.complete': 'اكتمل النسخ الاحتياطي!',
+	'backup.currentStep': 'الخطوة الحالية: {step}',
+	'backup.timedOutHint': 'يتحقق النظام من سجل النسخ تلقائياً. يمكنك الإغلاق ومراجعة تبويب السجل.',
+	'backup.uploadHistory': 'سجل الرفع',
+	'backup.clear': 'مسح',
+	'backup.upload.completed': 'مكتمل',
+	'backup.upload.error': 'خطأ',
+	'backup.upload.uploading': 'جارٍ الرفع',
+	'backup.sharingTitle': 'مشاركة النسخ والتنزيل التلقائي',
+	'backup.autoDownload': 'تنزيل النسخ التلقائية تلقائياً',
+	'backup.autoDownloadDescription': 'تنزيل النسخ الاحتياطية تلقائياً عند اكتمالها',
+	'backup.emailSharing': 'المشاركة عبر البريد',
+	'backup.emailSharingDescription': 'إرسال النسخ الاحتياطية تلقائياً عبر البريد',
+	'backup.whatsappSharing': 'المشاركة عبر واتساب',
+	'backup.whatsappSharingDescription': 'مشاركة النسخ الاحتياطية تلقائياً عبر واتساب',
+	'backup.historyTitle': 'سجل النسخ الاحتياطية',
+	'backup.historyDescription': 'أحدث عمليات النسخ الاحتياطي',
+	'backup.cancelAllStuck': 'إلغاء كل النسخ العالقة',
+	'backup.filters': 'عوامل التصفية:',
+	'backup.allStatuses': 'جميع الحالات',
+	'backup.filter.success': 'ناجحة',
+	'backup.filter.inProgress': 'قيد التنفيذ',
+	'backup.startDate': 'تاريخ البداية',
+	'backup.endDate': 'تاريخ النهاية',
+	'backup.searchFilename': 'بحث (اسم الملف)',
+	'backup.searchPlaceholder': 'ابحث في النسخ...',
+	'backup.clearFilters': 'مسح عوامل التصفية',
+	'backup.noHistory': 'لا يوجد سجل نسخ احتياطية',
+	'backup.dateTime': 'التاريخ والوقت',
+	'backup.size': 'الحجم',
+	'backup.download': 'تنزيل',
+	'backup.shareEmail': 'مشاركة عبر البريد',
+	'backup.shareWhatsapp': 'مشاركة عبر واتساب',
+	'backup.failedTitle': 'فشل النسخ الاحتياطي',
+	'backup.details': 'التفاصيل',
+	'backup.failedNoDetails': 'فشل - لا توجد تفاصيل للخطأ',
+	'backup.cancelTitle': 'إلغاء النسخة الاحتياطية',
+	'backup.cancelDescription': 'هل أنت متأكد من تعليم هذه النسخة كملغاة؟ لن تظهر بعد ذلك كـ"قيد التنفيذ". قد يستمر سير عمل النسخ في الخلفية.',
+	'backup.keepIt': 'لا، أبقِها',
+	'backup.cancelling': 'جارٍ الإلغاء...',
+	'backup.confirmCancel': 'نعم، ألغِ النسخة',
+	'backup.cancelAllTitle': 'إلغاء كل النسخ العالقة',
+	'backup.cancelAllDescription': 'هل أنت متأكد من تعليم كل النسخ العالقة كملغاة؟ لن تظهر بعد ذلك كـ"قيد التنفيذ". قد يستمر سير عمل النسخ في الخلفية.',
+	'backup.keepThem': 'لا، أبقِها',
+	'backup.confirmCancelAll': 'نعم، ألغِ الكل',
+	'backup.deleteTitle': 'حذف النسخة الاحتياطية',
+	'backup.deleteDescription': 'لا يمكن التراجع عن هذا الإجراء. سيُحذف سجل النسخة نهائياً.',
+	'backup.backupDate': 'تاريخ النسخة:',
+	'backup.deleteConfirm': 'هل أنت متأكد من حذف سجل هذه النسخة؟ سيُزال من السجل نهائياً.',
+	'backup.deleting': 'جارٍ الحذف...',
+	'backup.restoreDescription': 'ارفع ملف نسخة احتياطية لاستعادة البيانات. ستُدمج البيانات مع السجلات الحالية دون استبدالها.',
+	'backup.fileLabel': 'ملف النسخة الاحتياطية (ZIP)',
+	'backup.selected': 'المحدد:',
+	'backup.importantNotes': 'ملاحظات مهمة:',
+	'backup.noteMerge': 'ستُدمج البيانات مع السجلات الحالية (دون استبدال)',
+	'backup.noteAuth': 'لن يُنشأ مستخدمو الدخول إلا إذا لم يكونوا موجودين',
+	'backup.noteStorage': 'لن تُرفع ملفات التخزين إلا إذا لم تكن موجودة',
+	'backup.noteSql': 'تتطلب استعادة SQL لقاعدة البيانات تنفيذاً يدوياً عبر محرر Supabase SQL أو psql',
+	'backup.restoreResults': 'نتائج الاستعادة:',
+	'backup.database': 'قاعدة البيانات:',
+	'backup.restoredRows': 'تمت الاستعادة ({count} صف)',
+	'backup.notRestored': 'لم تتم الاستعادة',
+	'backup.authUsers': 'مستخدمو الدخول:',
+	'backup.mergedUsers': 'تم دمج {count} مستخدم',
+	'backup.skipped': '، تم تخطي {count}',
+	'backup.storageFiles': 'ملفات التخزين:',
+	'backup.uploadedFiles': 'تم رفع {count} ملف',
+	'backup.restoring': 'جارٍ الاستعادة...',
+	'backup.shareEmailTitle': 'مشاركة النسخة عبر البريد',
+	'backup.shareEmailDescription': 'أدخل البريد الإلكتروني لإرسال رابط تنزيل النسخة',
+	'backup.emailAddress': 'البريد الإلكتروني',
+	'backup.sending': 'جارٍ الإرسال...',
+	'backup.sendEmail': 'إرسال البريد',
+	'backup.shareWhatsappTitle': 'مشاركة النسخة عبر واتساب',
+	'backup.shareWhatsappDescription': 'أدخل رقم الهاتف (مع رمز الدولة) لمشاركة النسخة',
+	'backup.phoneNumber': 'رقم الهاتف',
+	'backup.countryCodeHint': 'أدرج رمز الدولة (مثل +966 للسعودية)',
+	'backup.sharing': 'جارٍ المشاركة...',
+
+	// Returns
+	'returns.reason.defective': 'منتجات معيبة',
+	'returns.reason.wrongItems': 'تسليم أصناف خاطئة',
+	'returns.reason.poorQuality': 'جودة رديئة',
+	'returns.reason.damaged': 'تلف أثناء الشحن',
+	'returns.reason.notAsDescribed': 'غير مطابق للوصف',
+	'returns.reason.duplicate': 'طلب مكرر',
+	'returns.reason.other': 'أخرى',
+	'returns.status.completed': 'مكتمل',
+	'returns.type.purchase': 'مشتريات',
+	'returns.type.expense': 'مصروف',
+	'returns.type.purchaseOrder': 'أمر شراء',
+	'returns.comboSearch': 'بحث...',
+	'returns.noResults': 'لا توجد نتائج.',
+	'returns.syncItemsFailed': 'تعذرت مزامنة أصناف المرتجع في أمر الشراء',
+	'returns.allReturned': 'تم إرجاع جميع كميات هذا الصنف مسبقاً.',
+	'returns.balanceUpdateFailed': 'تعذر تحديث رصيد المورد',
+	'returns.enterInvoiceNumber': 'يرجى إدخال رقم فاتورة المورد',
+	'returns.selectSupplier': 'يرجى اختيار مورد هذا المرتجع',
+	'returns.selectPurchase': 'يرجى اختيار أمر شراء',
+	'returns.enterExpenseReference': 'يرجى إدخال الرقم المرجعي للمصروف',
+	'returns.selectExpense': 'يرجى اختيار مصروف',
+	'returns.selectReason': 'يرجى اختيار السبب',
+	'returns.amountRequired': 'يجب أن يكون مبلغ المرتجع أكبر من صفر',
+	'returns.created': 'تم إنشاء المرتجع بنجاح',
+	'returns.updated': 'تم تحديث المرتجع بنجاح',
+	'returns.saveFailed': 'تعذر حفظ المرتجع',
+	'returns.deleteConfirm': 'هل أنت متأكد من حذف هذا المرتجع؟',
+	'returns.deleted': 'تم حذف المرتجع بنجاح',
+	'returns.deleteFailed': 'تعذر حذف المرتجع',
+	'returns.statusUpdated': 'تم تعليم المرتجع كـ{status}',
+	'returns.statusUpdateFailed': 'تعذر تحديث الحالة',
+	'returns.title': 'إدارة المرتجعات',
+	'returns.subtitle': 'تتبع وإدارة مرتجعات أوامر الشراء والمصروفات',
+	'returns.syncing': 'جارٍ مزامنة البيانات…',
+	'returns.new': 'مرتجع جديد',
+	'returns.totalReturns': 'إجمالي المرتجعات',
+	'returns.allRequests': 'جميع طلبات الإرجاع',
+	'returns.pendingReturns': 'مرتجعات معلقة',
+	'returns.awaitingApproval': 'بانتظار الموافقة',
+	'returns.approvedCompleted': 'معتمدة / مكتملة',
+	'returns.cleared': 'مرتجعات منجزة',
+	'returns.totalValue': 'إجمالي قيمة المرتجعات',
+	'returns.owedBack': 'المبلغ المستحق لنا',
+	'returns.listTitle': 'المرتجعات',
+	'returns.searchPlaceholder': 'ابحث بالرمز أو الرقم أو المورد أو السبب…',
+	'returns.typeFilter': 'النوع',
+	'returns.allTypes': 'جميع الأنواع',
+	'returns.return': 'المرتجع',
+	'returns.relatedDocument': 'المستند المرتبط',
+	'returns.supplier': 'المورد',
+	'returns.noReturns': 'لا توجد مرتجعات',
+	'returns.ref': 'مرجع: {reference}',
+	'returns.viewDetails': 'عرض التفاصيل',
+	'returns.approve': 'اعتماد',
+	'returns.reject': 'رفض',
+	'returns.markCompleted': 'تعليم كمكتمل',
+	'returns.complete': 'إكمال',
+	'returns.createTitle': 'إنشاء مرتجع',
+	'returns.updateTitle': 'تحديث المرتجع',
+	'returns.createDescription': 'اختر أمر شراء أو مصروفاً لتسجيل مرتجع.',
+	'returns.updateDescription': 'عدّل تفاصيل المرتجع واضبط الرصيد المستحق عند الحاجة.',
+	'returns.returnType': 'نوع المرتجع',
+	'returns.manualReference': 'مرجع يدوي',
+	'returns.manualHintPurchase': 'فعّل هذا الخيار إذا لم يكن أمر الشراء مدرجاً أعلاه.',
+	'returns.manualHintExpense': 'فعّل هذا الخيار إذا لم يكن المصروف مدرجاً أعلاه.',
+	'returns.invoiceNumberRequired': 'رقم الفاتورة *',
+	'returns.invoiceNumberPlaceholder': 'أدخل رقم فاتورة المورد',
+	'returns.invoiceDate': 'تاريخ الفاتورة',
+	'returns.supplierRequired': 'المورد *',
+	'returns.supplierPlaceholder': 'اختر المورد',
+	'returns.purchasePlaceholder': 'اختر أمر الشراء',
+	'returns.purchaseSummary': 'ملخص الشراء',
+	'returns.paymentStatus': 'حالة الدفع',
+	'returns.items': 'الأصناف',
+	'returns.subtotal': 'المجموع الفرعي',
+	'returns.paid': 'المدفوع',
+	'returns.remaining': 'المتبقي',
+	'returns.selectItems': 'اختر الأصناف المرتجعة',
+	'returns.selectItemsDescription': 'اختر البنود التي تريد تضمينها في هذا المرتجع.',
+	'returns.selectAll': 'تحديد الكل',
+	'returns.clear': 'مسح',
+	'returns.item': 'الصنف',
+	'returns.orderedRemaining': 'المطلوب / المتبقي',
+	'returns.returnQty': 'كمية المرتجع',
+	'returns.unitPrice': 'سعر الوحدة',
+	'returns.lineTotal': 'إجمالي البند',
+	'returns.noPurchaseItems': 'لا توجد أصناف لأمر الشراء هذا.',
+	'returns.toggleItem': 'تبديل إرجاع {item}',
+	'returns.remainingShort': 'متبقٍ: {count}',
+	'returns.expenseReferenceRequired': 'مرجع المصروف *',
+	'returns.expenseReferencePlaceholder': 'أدخل الرقم المرجعي للمصروف',
+	'returns.expenseDate': 'تاريخ المصروف',
+	'returns.expensePlaceholder': 'اختر المصروف',
+	'returns.expenseSummary': 'ملخص المصروف',
+	'returns.paidTo': 'المدفوع إلى',
+	'returns.baseAmount': 'المبلغ الأساسي',
+	'returns.tax': 'الضريبة',
+	'returns.totalPaid': 'إجمالي المدفوع',
+	'returns.reasonRequired': 'السبب *',
+	'returns.reasonPlaceholder': 'اختر السبب',
+	'returns.additionalNotes': 'ملاحظات إضافية',
+	'returns.notesPlaceholder': 'أضف أي تفاصيل إضافية لهذا المرتجع…',
+	'returns.additionalManualItems': 'أصناف يدوية إضافية',
+	'returns.returnItems': 'أصناف المرتجع',
+	'returns.addItem': 'إضافة صنف',
+	'returns.manualItemsHintPurchase': 'اختر أصنافاً من أمر الشراء أعلاه أو أضف تعديلات يدوية هنا.',
+	'returns.manualItemsHintExpense': 'أضف بنوداً لهذا المرتجع أو اتركها فارغة لاستخدام حقول المبالغ أدناه.',
+	'returns.description': 'الوصف',
+	'returns.quantity': 'الكمية',
+	'returns.remove': 'إزالة',
+	'returns.itemDescription': 'وصف الصنف',
+	'returns.returnAmount': 'مبلغ المرتجع (ر.س)',
+	'returns.amountFromItems': 'المبلغ محسوب من الأصناف أعلاه.',
+	'returns.amountBeforeTax': 'أدخل المبلغ المرتجع قبل الضريبة.',
+	'returns.taxAmount': 'مبلغ الضريبة (ر.س)',
+	'returns.totalReturn': 'إجمالي المرتجع (ر.س)',
+	'returns.detailsTitle': 'تفاصيل المرتجع',
+	'returns.detailsDescription': 'راجع التفاصيل الكاملة لهذا المرتجع والعملية المرتبطة به.',
+	'returns.createdLabel': 'تاريخ الإنشاء',
+	'returns.reason': 'السبب',
+	'returns.manualEntry': 'إدخال يدوي',
+	'returns.returnValue': 'قيمة المرتجع',
+	'returns.totalRefunded': 'إجمالي المسترد',
+	'returns.returnedItems': 'الأصناف المرتجعة',
+	'returns.returnedItemsDescription': 'الكميات والقيم المعادة إلى المخزون',
+	'returns.qty': 'الكمية',
+	'returns.notesAudit': 'الملاحظات والتدقيق',
+	'returns.createdAt': 'أُنشئ في',
+	'returns.supplierImpact': 'الأثر على المورد',
+	'returns.balanceIncreased': 'زاد الرصيد بمقدار {amount}',
+	'returns.noSupplierImpact': 'لا أثر على المورد',
+	'returns.manualInvoice': 'فاتورة يدوية',
+	'returns.noNotes': 'لا توجد ملاحظات إضافية.',
+
+	// Inventory
+	'inventory.category.general': 'عام',
+	'inventory.category.essentialOils': 'زيوت عطرية',
+	'inventory.category.concentrates': 'مركزات',
+	'inventory.category.diffusers': 'أجهزة تعطير',
+	'inventory.category.accessories': 'إكسسوارات',
+	'inventory.category.bundles': 'حزم',
+	'inventory.category.rawMaterials': 'مواد خام',
+	'inventory.movement.opening': 'رصيد افتتاحي',
+	'inventory.movement.adjustment': 'تسوية',
+	'inventory.movement.sale': 'بيع (فاتورة)',
+	'inventory.movement.purchase': 'استلام مشتريات',
+	'inventory.movement.purchaseReturn': 'مرتجع للمورد',
+	'inventory.movement.mfgConsumption': 'مستخدم في الإنتاج',
+	'inventory.movement.mfgOutput': 'منتَج',
+	'inventory.status.inStock': 'متوفر',
+	'inventory.status.lowStock': 'مخزون منخفض',
+	'inventory.status.outOfStock': 'نفد المخزون',
+	'inventory.unit.bottle': 'زجاجة',
+	'inventory.unit.box': 'صندوق',
+	'inventory.unit.piece': 'قطعة',
+	'inventory.unit.set': 'طقم',
+	'inventory.unit.kg': 'كيلوغرام',
+	'inventory.unit.liter': 'لتر',
+	'inventory.unit.pack': 'عبوة',
+	'inventory.type.bundle': 'حزمة',
+	'inventory.type.simple': 'منفرد',
+	'inventory.imageTooLarge': 'يجب أن يكون حجم الصورة أقل من 5 ميجابايت',
+	'inventory.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'inventory.imageUploadFailed': 'تعذر رفع الصورة',
+	'inventory.updated': 'تم تحديث المنتج بنجاح!',
+	'inventory.added': 'تمت إضافة المنتج بنجاح!',
+	'inventory.updateFailed': 'تعذر تحديث المنتج',
+	'inventory.addFailed': 'تعذرت إضافة المنتج',
+	'inventory.deleteConfirm': 'هل أنت متأكد من حذف هذا المنتج؟ سيتم حذف الصور المرتبطة به أيضاً.',
+	'inventory.deleted': 'تم حذف المنتج والصور المرتبطة به بنجاح!',
+	'inventory.deleteFailed': 'تعذر حذف المنتج',
+	'inventory.title': 'إدارة المخزون',
+	'inventory.subtitle': 'إدارة المنتجات ومستويات المخزون',
+	'inventory.addProduct': 'إضافة منتج',
+	'inventory.totalItems': 'إجمالي الأصناف',
+	'inventory.productsInSystem': 'المنتجات في النظام',
+	'inventory.availableProducts': 'المنتجات المتوفرة',
+	'inventory.needReorder': 'بحاجة لإعادة طلب',
+	'inventory.urgentReorder': 'إعادة طلب عاجلة',
+	'inventory.totalValue': 'القيمة الإجمالية',
+	'inventory.inventoryValue': 'قيمة المخزون',
+	'inventory.searchPlaceholder': 'ابحث بالاسم أو رمز المنتج أو الباركود...',
+	'inventory.allCategories': 'جميع الفئات',
+	'inventory.loading': 'جارٍ تحميل المنتجات...',
+	'inventory.noProducts': 'لا توجد منتجات',
+	'inventory.image': 'الصورة',
+	'inventory.sku': 'رمز المنتج',
+	'inventory.productName': 'اسم المنتج',
+	'inventory.categoryLabel': 'الفئة',
+	'inventory.typeLabel': 'النوع',
+	'inventory.stock': 'المخزون',
+	'inventory.unitPrice': 'سعر الوحدة',
+	'inventory.costPrice': 'سعر التكلفة',
+	'inventory.minShort': 'الحد الأدنى: {count}',
+	'inventory.editProduct': 'تعديل المنتج',
+	'inventory.addNewProduct': 'إضافة منتج جديد',
+	'inventory.editDescription': 'تحديث بيانات المنتج',
+	'inventory.addDescription': 'إضافة منتج جديد إلى المخزون',
+	'inventory.tabBasic': 'المعلومات الأساسية',
+	'inventory.tabPricing': 'التسعير والمخزون',
+	'inventory.tabAdditional': 'معلومات إضافية',
+	'inventory.skuRequired': 'رمز المنتج *',
+	'inventory.productTypeRequired': 'نوع المنتج *',
+	'inventory.simpleProduct': 'منتج منفرد',
+	'inventory.bundleKit': 'حزمة/طقم',
+	'inventory.nameEnRequired': 'اسم المنتج (بالإنجليزية) *',
+	'inventory.nameArRequired': 'اسم المنتج (بالعربية) *',
+	'inventory.categoryRequired': 'الفئة *',
+	'inventory.selectCategory': 'اختر الفئة',
+	'inventory.descriptionEn': 'الوصف (بالإنجليزية)',
+	'inventory.descriptionEnPlaceholder': 'وصف المنتج بالإنجليزية',
+	'inventory.descriptionAr': 'الوصف (بالعربية)',
+	'inventory.productImage': 'صورة المنتج',
+	'inventory.productAlt': 'المنتج',
+	'inventory.uploadImage': 'ارفع صورة المنتج',
+	'inventory.maxSize': 'الحجم الأقصى: 5 ميجابايت',
+	'inventory.unitPriceRequired': 'سعر الوحدة (ر.س) *',
+	'inventory.costPriceRequired': 'سعر التكلفة (ر.س) *',
+	'inventory.currentStockRequired': 'المخزون الحالي *',
+	'inventory.unitRequired': 'الوحدة *',
+	'inventory.selectUnit': 'اختر الوحدة',
+	'inventory.minStockRequired': 'الحد الأدنى للمخزون *',
+	'inventory.maxStock': 'الحد الأقصى للمخزون',
+	'inventory.taxable': 'خاضع للضريبة',
+	'inventory.taxableYes': 'نعم (خاضع لضريبة القيمة المضافة)',
+	'inventory.taxableNo': 'لا (معفى من ضريبة القيمة المضافة)',
+	'inventory.profitMargin': 'هامش الربح',
+	'inventory.marginPercent': 'نسبة الهامش',
+	'inventory.supplier': 'المورد',
+	'inventory.supplierPlaceholder': 'اسم المورد',
+	'inventory.storageLocation': 'موقع التخزين',
+	'inventory.locationPlaceholder': 'المستودع أ - الرف 12',
+	'inventory.barcode': 'الباركود',
+	'inventory.weightKg': 'الوزن (كغ)',
+	'inventory.dimensions': 'الأبعاد',
+	'inventory.expiryDate': 'تاريخ الانتهاء',
+	'inventory.notesPlaceholder': 'ملاحظات إضافية حول هذا المنتج',
+	'inventory.uploading': 'جارٍ الرفع...',
+	'inventory.updateProduct': 'تحديث المنتج',
+	'inventory.detailsTitle': 'تفاصيل المنتج',
+	'inventory.detailsDescription': 'المعلومات الكاملة لهذا المنتج',
+	'inventory.currentStock': 'المخزون الحالي',
+	'inventory.stockValue': 'قيمة المخزون',
+	'inventory.productInformation': 'معلومات المنتج',
+	'inventory.descriptionEnShort': 'الوصف (EN)',
+	'inventory.descriptionArShort': 'الوصف (AR)',
+	'inventory.minStock': 'الحد الأدنى',
+	'inventory.maxStockShort': 'الحد الأقصى',
+	'inventory.additionalDetails': 'تفاصيل إضافية',
+	'inventory.location': 'الموقع',
+	'inventory.weight': 'الوزن',
+	'inventory.taxableApplicable': 'نعم (تطبق ضريبة القيمة المضافة)',
+	'inventory.taxableExempt': 'لا (معفى من ضريبة القيمة المضافة)',
+	'inventory.stockMovements': 'حركات المخزون',
+	'inventory.loadingMovements': 'جارٍ تحميل الحركات...',
+	'inventory.noMovements': 'لم تُسجل أي حركات مخزون لهذا المنتج بعد.',
+	'inventory.movementLabel': 'الحركة',
+	'inventory.reference': 'المرجع',
+	'inventory.quantity': 'الكمية',
+	'inventory.balance': 'الرصيد',
+	'inventory.reversal': 'عكس',
+	'inventory.createdOn': 'أُنشئ: {date}',
+	'inventory.lastUpdated': 'آخر تحديث: {date}',
+
+	// Employees
+	'employees.title': 'إدارة الموظفين',
+	'employees.subtitle': 'إدارة بيانات الموظفين ومستنداتهم وسجلاتهم',
+	'employees.add': 'إضافة موظف',
+	'employees.addTitle': 'إضافة موظف جديد',
+	'employees.addDescription': 'أدخل بيانات الموظف وتفاصيله',
+	'employees.unnamed': 'موظف بدون اسم',
+	'employees.tab.personal': 'شخصي',
+	'employees.tab.employment': 'التوظيف',
+	'employees.tab.financial': 'مالي',
+	'employees.tab.emergency': 'الطوارئ',
+	'employees.tab.information': 'المعلومات',
+	'employees.tab.documents': 'المستندات ({count})',
+	'employees.tab.history': 'السجل',
+	'employees.uploading': 'جارٍ الرفع...',
+	'employees.changePhoto': 'تغيير الصورة',
+	'employees.uploadPhoto': 'رفع صورة',
+	'employees.nameEnRequired': 'الاسم الكامل (بالإنجليزية) *',
+	'employees.nameAr': 'الاسم الكامل (بالعربية)',
+	'employees.nationalId': 'رقم الهوية',
+	'employees.address': 'العنوان',
+	'employees.addressPlaceholder': 'المدينة، الدولة',
+	'employees.position': 'المسمى الوظيفي',
+	'employees.positionRequired': 'المسمى الوظيفي *',
+	'employees.positionPlaceholder': 'مدير مبيعات',
+	'employees.department': 'القسم',
+	'employees.departmentRequired': 'القسم *',
+	'employees.selectDepartment': 'اختر القسم',
+	'employees.department.general': 'عام',
+	'employees.department.sales': 'المبيعات',
+	'employees.department.finance': 'المالية',
+	'employees.department.operations': 'العمليات',
+	'employees.department.hr': 'الموارد البشرية',
+	'employees.department.it': 'تقنية المعلومات',
+	'employees.contractType': 'نوع العقد',
+	'employees.selectType': 'اختر النوع',
+	'employees.contract.fullTime': 'دوام كامل',
+	'employees.contract.partTime': 'دوام جزئي',
+	'employees.contract.contract': 'عقد',
+	'employees.hireDate': 'تاريخ التعيين',
+	'employees.startDate': 'تاريخ المباشرة',
+	'employees.tenure': 'مدة الخدمة',
+	'employees.tenureYears': '{count} سنة',
+	'employees.salaryComponents': 'مكونات الراتب',
+	'employees.baseSalaryRequired': 'الراتب الأساسي (ر.س) *',
+	'employees.housingAllowanceSar': 'بدل السكن (ر.س)',
+	'employees.transportAllowanceSar': 'بدل النقل (ر.س)',
+	'employees.otherAllowancesSar': 'بدلات أخرى (ر.س)',
+	'employees.totalMonthlySalary': 'إجمالي الراتب الشهري',
+	'employees.socialInsuranceNo': 'رقم التأمينات الاجتماعية',
+	'employees.socialInsuranceAmountSar': 'مبلغ التأمينات الاجتماعية (ر.س)',
+	'employees.socialInsuranceAmount': 'مبلغ التأمينات الاجتماعية',
+	'employees.bankName': 'اسم البنك',
+	'employees.selectBank': 'اختر البنك',
+	'employees.bankAccount': 'الحساب البنكي (الآيبان)',
+	'employees.emergencyContactName': 'اسم جهة اتصال الطوارئ',
+	'employees.contactNamePlaceholder': 'اسم جهة الاتصال',
+	'employees.emergencyContact': 'جهة اتصال الطوارئ',
+	'employees.emergencyPhone': 'هاتف الطوارئ',
+	'employees.stats.total': 'إجمالي الموظفين',
+	'employees.stats.active': '{count} نشط',
+	'employees.stats.payroll': 'إجمالي الرواتب',
+	'employees.stats.monthlyTotal': 'الإجمالي الشهري',
+	'employees.stats.departments': 'الأقسام',
+	'employees.stats.activeDepartments': 'الأقسام النشطة',
+	'employees.stats.documents': 'المستندات',
+	'employees.stats.totalFiles': 'إجمالي الملفات',
+	'employees.list': 'قائمة الموظفين',
+	'employees.searchPlaceholder': 'البحث في الموظفين...',
+	'employees.loading': 'جارٍ تحميل الموظفين...',
+	'employees.empty': 'لا يوجد موظفون',
+	'employees.column.employee': 'الموظف',
+	'employees.column.salary': 'الراتب',
+	'employees.column.documents': 'المستندات',
+	'employees.status.active': 'نشط',
+	'employees.status.onLeave': 'في إجازة',
+	'employees.status.terminated': 'منتهية خدمته',
+	'employees.detailsTitle': 'تفاصيل الموظف',
+	'employees.detailsDescription': 'بيانات الموظف وسجلاته كاملة',
+	'employees.salaryBreakdown': 'تفاصيل الراتب',
+	'employees.baseSalary': 'الراتب الأساسي',
+	'employees.housingAllowance': 'بدل السكن',
+	'employees.transportAllowance': 'بدل النقل',
+	'employees.otherAllowances': 'بدلات أخرى',
+	'employees.documents': 'مستندات الموظف',
+	'employees.uploadDocument': 'رفع مستند',
+	'employees.noDocuments': 'لم تُرفع أي مستندات بعد',
+	'employees.uploadFirstDocument': 'رفع أول مستند',
+	'employees.uploaded': 'رُفع في {date}',
+	'employees.uploadedOn': 'تاريخ الرفع {date}',
+	'employees.docCategory.contract': 'عقد',
+	'employees.docCategory.id': 'الهوية الوطنية / الإقامة',
+	'employees.docCategory.photo': 'صورة الموظف',
+	'employees.docCategory.certificate': 'شهادة / دبلوم',
+	'employees.docCategory.other': 'أخرى',
+	'employees.uploadTitle': 'رفع مستند للموظف',
+	'employees.uploadDescription': 'ارفع العقد أو الهوية أو الصورة أو الشهادات أو مستندات أخرى للموظف {name}',
+	'employees.documentNameRequired': 'اسم المستند *',
+	'employees.documentNamePlaceholder': 'مثال: عقد العمل 2024',
+	'employees.documentCategoryRequired': 'فئة المستند *',
+	'employees.selectCategory': 'اختر الفئة',
+	'employees.uploadFileRequired': 'رفع الملف *',
+	'employees.changeFile': 'تغيير الملف',
+	'employees.chooseFile': 'اختيار ملف',
+	'employees.preview': 'معاينة',
+	'employees.fileSize': '{name} ({size} ك.ب)',
+	'employees.notesOptional': 'ملاحظات (اختياري)',
+	'employees.notesPlaceholder': 'أضف أي ملاحظات إضافية حول هذا المستند...',
+	'employees.previewUnavailable': 'المعاينة غير متاحة لهذا النوع من الملفات',
+	'employees.downloadToView': 'التنزيل للعرض',
+	'employees.notesLabel': 'ملاحظات:',
+	'employees.deleteTitle': 'حذف الموظف',
+	'employees.deleteDescription': 'يُنقل الموظف إلى سلة المحذوفات ويمكن استعادته منها.',
+	'employees.purgeDeletes': 'حذف الموظف نهائياً من سلة المحذوفات يحذف بشكل دائم:',
+	'employees.purge.record': 'سجل الموظف وجميع بياناته الشخصية',
+	'employees.purge.attendance': 'جميع سجلات الحضور',
+	'employees.purge.requests': 'جميع طلبات الموظف',
+	'employees.purge.custody': 'جميع العهد',
+	'employees.purge.documents': 'جميع المستندات والصور',
+	'employees.purge.expensesLeaves': 'المصروفات والإجازات المرتبطة',
+	'employees.notFound': 'الموظف غير موجود',
+	'employees.photoUploaded': 'تم رفع الصورة بنجاح',
+	'employees.photoUrlFailed': 'تعذر الحصول على رابط الصورة',
+	'employees.photoUploadFailed': 'تعذر رفع صورة الموظف',
+	'employees.fileSelected': 'تم اختيار الملف',
+	'employees.selectEmployeeFirst': 'يرجى اختيار موظف أولاً',
+	'employees.documentRequired': 'يرجى إدخال اسم المستند ورفع ملف',
+	'employees.documentUploaded': 'تم رفع المستند بنجاح!',
+	'employees.documentUploadFailed': 'تعذر رفع المستند',
+	'employees.documentDownloaded': 'تم تنزيل المستند',
+	'employees.noFileUrl': 'لا يوجد رابط للملف',
+	'employees.documentDeleted': 'تم حذف المستند بنجاح',
+	'employees.documentDeleteFailed': 'تعذر حذف المستند',
+	'employees.requiredFields': 'يرجى تعبئة جميع الحقول المطلوبة',
+	'employees.added': 'تمت إضافة الموظف بنجاح!',
+	'employees.addFailed': 'تعذرت إضافة الموظف',
+	'employees.activated': 'تم تفعيل الموظف بنجاح!',
+	'employees.onLeave': 'تم تغيير حالة الموظف إلى في إجازة',
+	'employees.terminated': 'تم إنهاء خدمة الموظف بنجاح!',
+	'employees.statusFailed': 'تعذر تحديث حالة الموظف',
+	'employees.movedToRecycleBin': 'تم نقل الموظف إلى سلة المحذوفات',
+	'employees.deleteFailed': 'تعذر حذف الموظف',
+};
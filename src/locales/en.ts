@@ -0,0 +1,4297 @@
+// English message catalogue; ar.ts must provide every key defined here.
+// {name} placeholders are filled by t(key, { name: ... }).
+export const en = {
+	// Common
+	'common.loading': 'Loading...',
+	'common.save': 'Save',
+	'common.cancel': 'Cancel',
+	'common.close': 'Close',
+	'common.notSet': '—',
+	'common.saveChanges': 'Save Changes',
+	'common.saving': 'Saving...',
+	'common.refresh': 'Refresh',
+	'common.search': 'Search',
+	'common.edit': 'Edit',
+	'common.delete': 'Delete',
+	'common.view': 'View',
+	'common.print': 'Print',
+	'common.download': 'Download',
+	'common.actions': 'Actions',
+	'common.status': 'Status',
+	'common.allStatus': 'All Status',
+	'common.exportExcel': 'Export Excel',
+	'common.none': 'None',
+	'common.notAvailable': 'N/A',
+	'common.notAssigned': 'Not assigned',
+	'common.email': 'Email',
+	'common.phone': 'Phone',
+	'common.date': 'Date',
+	'common.customer': 'Customer',
+	'common.notes': 'Notes',
+	'common.total': 'Total',
+	'common.noResults': 'No results match your filters',
+	'common.exported': 'Excel file exported successfully',
+	'common.exportFailed': 'Failed to export Excel file',
+	'common.unknownError': 'Unknown error',
+	'common.unknown': 'Unknown',
+
+	// Record statuses
+	'status.active': 'Active',
+	'status.inactive': 'Inactive',
+	'status.pending': 'Pending',
+	'status.draft': 'Draft',
+	'status.sent': 'Sent',
+	'status.signed': 'Signed',
+	'status.expired': 'Expired',
+	'status.cancelled': 'Cancelled',
+	'status.suspended': 'Suspended',
+	'status.attached': 'Attached',
+	'status.approved': 'Approved',
+	'status.accepted': 'Accepted',
+	'status.rejected': 'Rejected',
+	'status.paid': 'Paid',
+	'status.partial': 'Partially Paid',
+	'status.unpaid': 'Unpaid',
+	'status.overdue': 'Overdue',
+	'status.revoked': 'Revoked',
+
+	// Languages and calendars
+	'language.en': 'English',
+	'language.ar': 'العربية',
+	'calendar.gregorian': 'Gregorian',
+	'calendar.hijri': 'Hijri (Umm al-Qura)',
+
+	// Sidebar sections
+	'section.dashboard': 'Dashboard & Analytics',
+	'section.sales': 'Sales & Customers',
+	'section.operations': 'Operations',
+	'section.hr': 'HR & Employees',
+	'section.inventory': 'Inventory & Manufacturing',
+	'section.assets': 'Assets & Custody',
+	'section.ecommerce': 'E-Commerce Platforms',
+	'section.marketing': 'Marketing',
+	'section.finance': 'Finance & Accounting',
+	'section.templates': 'Templates & Communication',
+	'section.system': 'System Settings',
+
+	// Pages (one per PageId)
+	'page.dashboard': 'Dashboard',
+	'page.myworkspace': 'My Workspace',
+	'page.analytics': 'Analytics & KPIs',
+	'page.calendar': 'Calendar & Reminders',
+	'page.customers': 'Customers',
+	'page.leads': 'Leads',
+	'page.quotations': 'Quotations',
+	'page.invoices': 'Invoices',
+	'page.contracts': 'Contracts',
+	'page.statements': 'Customer Statements',
+	'page.visits': 'Visits',
+	'page.monthlyVisits': 'Monthly Visits',
+	'page.payments': 'Payments',
+	'page.representatives': 'Representatives',
+	'page.support': 'Customer Support',
+	'page.employees': 'Employees',
+	'page.attendanceSheet': 'Attendance Sheet',
+	'page.payroll': 'Payroll',
+	'page.leaves': 'Leave Management',
+	'page.employeeRequests': 'Employee Requests',
+	'page.inventory': 'Inventory',
+	'page.purchases': 'Purchases',
+	'page.suppliers': 'Suppliers',
+	'page.manufacturing': 'Manufacturing',
+	'page.returns': 'Returns',
+	'page.assets': 'Fixed Assets',
+	'page.custody': 'Employee Custody',
+	'page.platformOrders': 'Platform Orders',
+	'page.platformCustomers': 'Platform Customers',
+	'page.marketing': 'Campaigns & Marketing',
+	'page.expenses': 'Expenses',
+	'page.vat': 'VAT & Zakat',
+	'page.journalEntries': 'General Ledger',
+	'page.reports': 'Reports',
+	'page.templates': 'Message Templates',
+	'page.historyLog': 'History Log',
+	'page.recycleBin': 'Recycle Bin',
+	'page.settings': 'Settings & Permissions',
+	'page.profile': 'My Profile',
+
+	// App shell
+	'shell.loggedInAs': 'Logged in as',
+	'shell.collapse': 'Collapse',
+	'shell.settings': 'Settings',
+	'shell.logout': 'Logout',
+	'shell.accessRestricted': 'Access Restricted',
+	'shell.noPermission': 'You do not have permission to view the {page} section.',
+	'shell.noPermissionToast': "You don't have permission to access this section.",
+	'shell.accountDeactivated': 'Your account has been deactivated. You have been logged out.',
+	'shell.permissionsUpdated': 'Your permissions have been updated',
+	'shell.sessionExpired': 'Your session has expired. Please log in again.',
+
+	// Login
+	'login.title': 'Login',
+	'login.description': 'Enter your credentials to access the system',
+	'login.email': 'Email',
+	'login.emailPlaceholder': 'Enter your email (e.g., user@example.com)',
+	'login.password': 'Password',
+	'login.passwordPlaceholder': 'Enter your password',
+	'login.submit': 'Login',
+	'login.emailRequired': 'Please enter your email',
+	'login.emailInvalid': 'Invalid email format',
+	'login.invalidCredentials': 'Invalid username or password',
+	'login.locked': 'Account temporarily locked after too many failed attempts. Please try again later.',
+	'login.deactivated': 'Your account has been deactivated. Please contact the administrator for support.',
+	'login.verificationExpired': 'Verification expired. Please log in again.',
+	'login.invalidCode': 'Invalid verification code',
+	'login.twoFactorTitle': 'Two-Factor Verification',
+	'login.twoFactorSetupTitle': 'Set Up Two-Factor Authentication',
+	'login.recoveryCodesTitle': 'Recovery Codes',
+	'login.enterRecoveryCode': 'Enter one of your recovery codes',
+	'login.enterAuthenticatorCode': 'Enter the 6-digit code from your authenticator app',
+	'login.setupDescription':
+		'Your account requires two-factor authentication. Scan the QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, Authy) and enter the code it shows.',
+	'login.twoFactorEnabled': 'Two-factor authentication is now enabled for your account',
+	'login.recoveryCode': 'Recovery code',
+	'login.verify': 'Verify',
+	'login.useAuthenticator': 'Use authenticator app code',
+	'login.useRecoveryCode': 'Use a recovery code instead',
+	'login.enableAndContinue': 'Enable & Continue',
+	'login.savedCodes': 'I saved my codes — Continue',
+	'login.backToLogin': 'Back to login',
+	'login.recoveryCodeUsed': 'Recovery code used. {count} remaining — generate new codes from your profile if you are running low.',
+	'login.copyright': '© {year} Scent Management System. All rights reserved.',
+
+	// Profile
+	'profile.title': 'My Profile',
+	'profile.subtitle': 'Manage your personal information and account settings',
+	'profile.edit': 'Edit Profile',
+	'profile.saveChanges': 'Save Changes',
+	'profile.saving': 'Saving...',
+	'profile.active': 'Active',
+	'profile.inactive': 'Inactive',
+	'profile.joined': 'Joined {date}',
+	'profile.lastLogin': 'Last login: {date}',
+	'profile.tabPersonal': 'Personal Info',
+	'profile.tabEmployment': 'Employment',
+	'profile.tabSecurity': 'Security',
+	'profile.tabPreferences': 'Preferences',
+	'profile.preferencesTitle': 'Language & Formats',
+	'profile.preferencesDescription':
+		'Applies to this browser. Arabic switches the layout to right-to-left and shows Arabic names where a record has one.',
+	'profile.language': 'Language',
+	'profile.calendar': 'Calendar for dates',
+	'profile.preview': 'Preview',
+	'profile.loadUserFailed': 'Unable to load user profile',
+	'profile.loadFailed': 'Failed to load profile',
+	'profile.userIdRequired': 'User ID is required to upload profile picture',
+	'profile.pictureUploadFailed': 'Failed to upload profile picture',
+	'profile.pictureUrlFailed': 'Failed to get picture URL',
+	'profile.pictureUploaded': 'Profile image uploaded successfully',
+	'profile.fullNameRequired': 'Full name is required',
+	'profile.emailRequired': 'Email is required',
+	'profile.emailInvalid': 'Please enter a valid email address',
+	'profile.missingUserId': 'Missing user id',
+	'profile.updated': 'Profile updated successfully',
+	'profile.updateFailed': 'Failed to update profile',
+	'profile.accountReactivated': 'Account re-activated',
+	'profile.accountDeactivated': 'Account deactivated',
+	'profile.statusFailed': 'Unable to update account status',
+	'profile.passwordFieldsRequired': 'Please fill all password fields',
+	'profile.passwordMismatch': 'New passwords do not match',
+	'profile.passwordTooShort': 'Password must be at least 6 characters',
+	'profile.passwordChanged': 'Password changed successfully',
+	'profile.passwordChangeFailed': 'Failed to change password',
+	'profile.reload': 'Reload profile',
+	'profile.unnamed': 'Unnamed User',
+	'profile.roleNotSet': 'Role not set',
+	'profile.personalTitle': 'Personal Information',
+	'profile.personalDescription': 'Update your personal details and contact information',
+	'profile.fullName': 'Full Name',
+	'profile.emailAddress': 'Email Address',
+	'profile.phoneNumber': 'Phone Number',
+	'profile.nationalId': 'National ID',
+	'profile.location': 'City / Location',
+	'profile.emergencyContact': 'Emergency Contact',
+	'profile.emergencyName': 'Emergency Contact Name',
+	'profile.address': 'Address',
+	'profile.employmentTitle': 'Employment Details',
+	'profile.employmentDescription': 'Your work-related information',
+	'profile.employeeId': 'Employee ID',
+	'profile.position': 'Position',
+	'profile.department': 'Department',
+	'profile.startDate': 'Start Date',
+	'profile.contractType': 'Contract Type',
+	'profile.baseSalary': 'Base Salary (SAR)',
+	'profile.housingAllowance': 'Housing Allowance (SAR)',
+	'profile.transportAllowance': 'Transport Allowance (SAR)',
+	'profile.otherAllowances': 'Other Allowances (SAR)',
+	'profile.bankName': 'Bank Name',
+	'profile.bankIban': 'Bank IBAN',
+	'profile.note': 'Note:',
+	'profile.employmentNote': 'Employment details are sourced from the HR database. Contact the HR department for structural changes such as employment status or compensation plans.',
+	'profile.changePassword': 'Change Password',
+	'profile.changePasswordDescription': 'Update your password to keep your account secure',
+	'profile.currentPassword': 'Current Password',
+	'profile.currentPasswordPlaceholder': 'Enter current password',
+	'profile.newPassword': 'New Password',
+	'profile.newPasswordPlaceholder': 'Enter new password',
+	'profile.confirmPassword': 'Confirm New Password',
+	'profile.confirmPasswordPlaceholder': 'Confirm new password',
+	'profile.passwordHint': 'Password must be at least 6 characters long and include a mix of letters and numbers for better security.',
+	'profile.deactivateAccount': 'Deactivate Account',
+	'profile.activateAccount': 'Activate Account',
+	'profile.roleTitle': 'Role & Permissions',
+	'profile.roleDescription': 'Access rights assigned to this account',
+	'profile.role': 'Role',
+	'profile.permissions': 'Permissions',
+	'profile.noPermissions': 'No granular permissions assigned.',
+	'profile.activityTitle': 'Account Activity',
+	'profile.activityDescription': 'Recent login history',
+	'profile.noActivity': 'No recent activity.',
+
+	// Customers
+	'customers.title': 'Customers',
+	'customers.subtitle': 'Manage customer accounts and contracts',
+	'customers.add': 'Add Customer',
+	'customers.addTitle': 'Add New Customer',
+	'customers.addDescription': 'Enter customer details to create a new account',
+	'customers.editTitle': 'Edit Customer',
+	'customers.editDescription': 'Update customer information',
+	'customers.detailsTitle': 'Customer Details',
+	'customers.name': 'Customer Name',
+	'customers.company': 'Company',
+	'customers.companyPlaceholder': 'Company Name',
+	'customers.mobile': 'Mobile Number',
+	'customers.mobileShort': 'Mobile',
+	'customers.location': 'Location',
+	'customers.locationPlaceholder': 'City, District',
+	'customers.commercialRegister': 'Commercial Register',
+	'customers.vatNumber': 'VAT Number',
+	'customers.contractType': 'Contract Type',
+	'customers.selectType': 'Select type',
+	'customers.contractMonthly': 'Monthly Service',
+	'customers.contractQuarterly': 'Quarterly Service',
+	'customers.contractYearly': 'Yearly Service',
+	'customers.monthlyAmount': 'Monthly Amount',
+	'customers.monthlyAmountSar': 'Monthly Amount (SAR)',
+	'customers.representative': 'Assigned Representative',
+	'customers.representativeColumn': 'Representative',
+	'customers.selectRepresentative': 'Select representative',
+	'customers.noRepresentatives': 'No representatives available. Add representatives first.',
+	'customers.startDate': 'Start Date',
+	'customers.search': 'Search customers...',
+	'customers.loading': 'Loading customers...',
+	'customers.contact': 'Contact',
+	'customers.quickActions': 'Quick Actions',
+	'customers.empty': 'No customers found',
+	'customers.sendMessage': 'Send Message',
+	'customers.loadingTemplates': 'Loading templates...',
+	'customers.noTemplates': 'No templates available',
+	'customers.viewContract': 'View Contract',
+	'customers.statement': 'Statement',
+	'customers.contractTitle': 'Contract Details',
+	'customers.contractDescription': 'View contract information for {company}',
+	'customers.contractInformation': 'Contract Information',
+	'customers.contractNumber': 'Contract Number',
+	'customers.contractDate': 'Contract Date',
+	'customers.paymentPlan': 'Payment Plan',
+	'customers.clientInformation': 'Client Information',
+	'customers.clientName': 'Client Name',
+	'customers.city': 'City',
+	'customers.serviceDetails': 'Service Details',
+	'customers.serviceAddress': 'Service Address',
+	'customers.postalCode': 'Postal Code',
+	'customers.emergencyVisitFee': 'Emergency Visit Fee',
+	'customers.devicesCount': 'Devices Count',
+	'customers.deviceTypes': 'Device Types',
+	'customers.importantDates': 'Important Dates',
+	'customers.sentDate': 'Sent Date',
+	'customers.signedDate': 'Signed Date',
+	'customers.attachedDate': 'Attached Date',
+	'customers.printContract': 'Print Contract',
+	'customers.notFound': 'Customer not found',
+	'customers.openingWhatsApp': 'Opening WhatsApp for {name}',
+	'customers.openingEmail': 'Opening email for {name}',
+	'customers.invalidPhone': 'Customer phone number is invalid',
+	'customers.preparingSms': 'Preparing SMS for {name}',
+	'customers.sendingTemplate': 'Sending "{template}" to {name}',
+	'customers.statusUpdated': 'Customer status updated to {status}',
+	'customers.statusUpdateFailed': 'Failed to update status',
+	'customers.noContract': 'No contract found for {name}',
+	'customers.noContractDescription': 'This customer does not have any contract yet. Please create a contract first.',
+	'customers.added': 'Customer added successfully!',
+	'customers.addFailed': 'Failed to add customer',
+	'customers.updated': 'Customer updated successfully!',
+	'customers.updateFailed': 'Failed to update customer',
+	'customers.deleteConfirm': 'Delete this customer? It is moved to the Recycle Bin and can be restored from there.',
+	'customers.deleted': 'Customer moved to the Recycle Bin',
+	'customers.deleteFailed': 'Failed to delete customer',
+
+	// Payroll
+	'payroll.title': 'Payroll Management',
+	'payroll.subtitle': 'Manage monthly payroll records and employee salaries',
+	'payroll.add': 'Add Payroll',
+	'payroll.adding': 'Adding...',
+	'payroll.addTitle': 'Add New Payroll Record',
+	'payroll.addDescription': 'Calculate salaries for all active employees and save the run as a draft',
+	'payroll.monthRequired': 'Month *',
+	'payroll.selectMonth': 'Select month',
+	'payroll.yearRequired': 'Year *',
+	'payroll.selectYear': 'Select year',
+	'payroll.dateRequired': 'Date *',
+	'payroll.notesPlaceholder': 'Additional notes about this payroll...',
+	'payroll.breakdownRequired': 'Employee Breakdown *',
+	'payroll.breakdown': 'Employee Breakdown',
+	'payroll.calculate': 'Calculate Payroll',
+	'payroll.recalculate': 'Recalculate',
+	'payroll.calculationHint': 'Salaries are calculated from employee records, approved unpaid leave, attendance absences, loan and advance instalments and approved overtime for the selected month',
+	'payroll.employee': 'Employee',
+	'payroll.basic': 'Basic',
+	'payroll.allowances': 'Allowances',
+	'payroll.overtime': 'Overtime',
+	'payroll.gosi': 'GOSI',
+	'payroll.leaveAbsence': 'Leave / Absence',
+	'payroll.loans': 'Loans',
+	'payroll.net': 'Net',
+	'payroll.days': '{count} days',
+	'payroll.totalEmployees': 'Total ({count})',
+	'payroll.gross': '{amount} gross',
+	'payroll.deducted': '{amount} deducted',
+	'payroll.totalRecords': 'Total Records',
+	'payroll.records': 'Payroll records',
+	'payroll.currentMonth': 'Current Month',
+	'payroll.latest': 'Latest payroll',
+	'payroll.notYetPaid': 'Not yet paid',
+	'payroll.ytdTotal': 'YTD Total',
+	'payroll.yearToDate': 'Year to date',
+	'payroll.recordsTitle': 'Payroll Records',
+	'payroll.search': 'Search payrolls...',
+	'payroll.number': 'Payroll #',
+	'payroll.period': 'Period',
+	'payroll.totalAmount': 'Total Amount',
+	'payroll.details': 'Details',
+	'payroll.loading': 'Loading payroll records...',
+	'payroll.employeeCount': '{count} employees',
+	'payroll.noFile': 'No file',
+	'payroll.approve': 'Approve',
+	'payroll.markPaid': 'Mark Paid',
+	'payroll.wpsFile': 'WPS File',
+	'payroll.emptySearch': 'No payroll records found matching your search.',
+	'payroll.empty': 'No payroll records found',
+	'payroll.wpsTitle': 'WPS Salary File',
+	'payroll.establishmentNumber': 'Establishment Number *',
+	'payroll.establishmentPlaceholder': 'e.g. 1-1234567',
+	'payroll.paymentDate': 'Payment Date *',
+	'payroll.companyIban': 'Company Payroll IBAN *',
+	'payroll.wpsIssues': 'Fix {count} issue(s) before the file can be created',
+	'payroll.problems': 'Problems',
+	'payroll.wpsBankHint': 'Employee bank details are read from the Employees page, so corrections there are picked up here.',
+	'payroll.wpsReady': '{count} employees ready, {amount} in total',
+	'payroll.downloadSif': 'Download SIF',
+	'payroll.detailsTitle': 'Payroll Details',
+	'payroll.payrollNumber': 'Payroll Number',
+	'payroll.totalPayrollAmount': 'Total Payroll Amount',
+	'payroll.attachedFile': 'Attached File',
+	'payroll.createdDate': 'Created Date',
+	'payroll.createdBy': 'Created By',
+	'payroll.paidDate': 'Paid Date',
+	'payroll.howTo': 'How to Use Payroll Management',
+	'payroll.howToStep1': 'Keep employee salaries, allowances and bank details up to date in Employees',
+	'payroll.howToStep2': 'Approve unpaid leave, attendance, loans and overtime requests for the month',
+	'payroll.howToStep3': 'Create a new payroll record and calculate the employee breakdown',
+	'payroll.howToStep4': "Review each employee's deductions and net pay, and recalculate drafts if anything changes",
+	'payroll.howToStep5': 'Approve the payroll when ready, then mark as paid after processing',
+	'payroll.wpsDetailsSaveFailed': 'Failed to save the WPS company details',
+	'payroll.wpsCreated': 'WPS file created for {count} employees',
+	'payroll.selectPeriod': 'Please select the payroll month and year',
+	'payroll.noEmployees': 'No active employees to include in this payroll',
+	'payroll.requiredFields': 'Please fill all required fields',
+	'payroll.calculateFirst': 'Please calculate the payroll first.',
+	'payroll.invalidYear': 'Invalid year selected.',
+	'payroll.created': 'Payroll {number} created successfully!',
+	'payroll.createFailed': 'Failed to create payroll record.',
+	'payroll.recalculated': 'Payroll recalculated',
+	'payroll.recalculateFailed': 'Failed to recalculate payroll.',
+	'payroll.approved': 'Payroll approved successfully!',
+	'payroll.approveFailed': 'Failed to approve payroll.',
+	'payroll.markedPaid': 'Payroll marked as paid!',
+	'payroll.markPaidFailed': 'Failed to mark payroll as paid.',
+
+	// Reports
+	'reports.title': 'Reports & Analytics',
+	'reports.subtitle': 'Generate and view comprehensive business reports',
+	'reports.loading': 'Loading the latest report data...',
+	'reports.filters': 'Report Filters',
+	'reports.fromDate': 'From Date',
+	'reports.toDate': 'To Date',
+	'reports.type': 'Report Type',
+	'reports.typeAll': 'All Reports',
+	'reports.typeSales': 'Sales Only',
+	'reports.typeExpenses': 'Expenses Only',
+	'reports.typeInventory': 'Inventory Only',
+	'reports.applyFilter': 'Apply Filter',
+	'reports.totalRevenue': 'Total Revenue',
+	'reports.yearToDate': 'Year to date',
+	'reports.totalExpenses': 'Total Expenses',
+	'reports.allCategories': 'All categories',
+	'reports.netProfit': 'Net Profit',
+	'reports.margin': '{percent} margin',
+	'reports.activeCustomers': 'Active Customers',
+	'reports.topPerformers': 'Top performers',
+	'reports.salesTab': 'Sales Report',
+	'reports.expensesTab': 'Expenses Report',
+	'reports.customersTab': 'Customer Report',
+	'reports.inventoryTab': 'Inventory Report',
+	'reports.profitLossTab': 'Profit & Loss',
+	'reports.agingTab': 'AR Aging',
+	'reports.salesTitle': 'Monthly Sales Report',
+	'reports.salesDescription': 'Sales performance by month',
+	'reports.month': 'Month',
+	'reports.revenue': 'Revenue',
+	'reports.invoices': 'Invoices',
+	'reports.customers': 'Customers',
+	'reports.avgPerInvoice': 'Avg per Invoice',
+	'reports.expensesTitle': 'Expenses Breakdown',
+	'reports.expensesDescription': 'Expenses by category',
+	'reports.category': 'Category',
+	'reports.amount': 'Amount',
+	'reports.percentage': 'Percentage',
+	'reports.distribution': 'Distribution',
+	'reports.customersTitle': 'Top Customers Report',
+	'reports.customersDescription': 'Best performing customers',
+	'reports.customerName': 'Customer Name',
+	'reports.outstanding': 'Outstanding',
+	'reports.inventoryTitle': 'Inventory Status Report',
+	'reports.inventoryDescription': 'Current stock levels and values',
+	'reports.itemName': 'Item Name',
+	'reports.currentStock': 'Current Stock',
+	'reports.reorderPoint': 'Reorder Point',
+	'reports.stockValue': 'Stock Value',
+	'reports.stockOut': 'Out of Stock',
+	'reports.stockLow': 'Low',
+	'reports.stockGood': 'Good',
+	'reports.totalValue': 'Total Value',
+	'reports.profitLossTitle': 'Profit & Loss Statement',
+	'reports.profitLossDescription': 'Comprehensive financial overview',
+	'reports.salesRevenue': 'Sales Revenue',
+	'reports.serviceRevenue': 'Service Revenue',
+	'reports.expenses': 'Expenses',
+	'reports.profitMargin': 'Profit Margin',
+	'reports.quickExport': 'Quick Export Options',
+	'reports.quickExportDescription': 'Generate and download reports quickly',
+	'reports.completeFinancial': 'Complete Financial Report',
+	'reports.monthlySummary': 'Monthly Summary',
+	'reports.annual': 'Annual Report',
+	'reports.tax': 'Tax Report',
+	'reports.customerAnalysis': 'Customer Analysis',
+	'reports.inventoryValuation': 'Inventory Valuation',
+	'reports.invalidRange': 'Invalid date range selected',
+	'reports.loadFailed': 'Failed to load report data. Please try again shortly.',
+	'reports.invalidDates': 'Please select valid dates',
+	'reports.fromAfterTo': 'From date cannot be after To date',
+	'reports.filtersApplied': 'Filters applied successfully!',
+	'reports.exported': '{name} exported successfully!',
+	'reports.exportFailed': 'Failed to export report',
+	'reports.preparing': 'Preparing report for download...',
+
+	// Contracts
+	'contracts.title': 'Contracts',
+	'contracts.subtitle': 'Manage service agreements',
+	'contracts.new': 'New Contract',
+	'contracts.allStatuses': 'All Statuses',
+	'contracts.sortOrder': 'Sort Order',
+	'contracts.newestFirst': 'Newest First',
+	'contracts.oldestFirst': 'Oldest First',
+	'contracts.search': 'Search',
+	'contracts.searchPlaceholder': 'Search by contract number or client...',
+	'contracts.all': 'All Contracts',
+	'contracts.number': 'Contract #',
+	'contracts.client': 'Client',
+	'contracts.contact': 'Contact',
+	'contracts.contractDate': 'Contract Date',
+	'contracts.visitStart': 'Visit Start',
+	'contracts.paymentPlan': 'Payment Plan',
+	'contracts.amount': 'Amount',
+	'contracts.suspendCancelDate': 'Suspend/Cancel Date',
+	'contracts.quickSend': 'Quick Send',
+	'contracts.empty': 'No contracts found',
+	'contracts.planMonthly': 'Monthly',
+	'contracts.planSemiAnnual': 'Semi-Annual (6+1)',
+	'contracts.planAnnual': 'Annual (12+2)',
+	'contracts.suspendedOn': 'Susp: {date}',
+	'contracts.cancelledOn': 'Cancel: {date}',
+	'contracts.sendWhatsApp': 'Send via WhatsApp',
+	'contracts.sendEmail': 'Send via Email',
+	'contracts.actions': 'Contract Actions',
+	'contracts.viewDetails': 'View Details',
+	'contracts.edit': 'Edit Contract',
+	'contracts.viewNotes': 'View Notes',
+	'contracts.viewHistory': 'View History Log',
+	'contracts.markSigned': 'Mark as Signed',
+	'contracts.sendForSignature': 'Send for E-Signature',
+	'contracts.attachSigned': 'Attach Signed File',
+	'contracts.print': 'Print Contract',
+	'contracts.downloadPdf': 'Download PDF',
+	'contracts.printAttached': 'Print Attached File',
+	'contracts.suspend': 'Suspend Contract',
+	'contracts.cancel': 'Cancel Contract',
+	'contracts.reactivate': 'Reactivate Contract',
+	'contracts.delete': 'Delete Contract',
+	'contracts.addTitle': 'New Service Agreement',
+	'contracts.addDescription': 'Create a new aromatic service contract',
+	'contracts.endDate': 'Contract End Date',
+	'contracts.visitStartDate': 'Monthly Visit Start Date',
+	'contracts.clientInformation': 'Client Information',
+	'contracts.customerSelectorLabel': 'Select Customer (or enter manually)',
+	'contracts.customerSelectorPlaceholder': 'Search customer by name, company, or mobile...',
+	'contracts.clientName': 'Client Name',
+	'contracts.crNumber': 'CR Number',
+	'contracts.city': 'City',
+	'contracts.cityPlaceholder': 'Riyadh',
+	'contracts.postalCode': 'Postal Code',
+	'contracts.representative': 'Representative',
+	'contracts.representativePlaceholder': 'Ahmed Al-Salem',
+	'contracts.representativeAvailable': 'Representative available',
+	'contracts.designation': 'Designation',
+	'contracts.designationPlaceholder': 'General Manager',
+	'contracts.phoneNumber': 'Phone Number',
+	'contracts.serviceAddress': 'Service Address',
+	'contracts.serviceAddressPlaceholder': 'Full service address',
+	'contracts.pricing': 'Pricing - Based on Selected Payment Plan',
+	'contracts.note': 'Note:',
+	'contracts.pricingNote': 'Only the pricing input for your selected payment plan is enabled. Fill in the amount for the selected plan above.',
+	'contracts.autoVisits': 'Enable automatic monthly visits before 7 days',
+	'contracts.autoVisitsEdit': 'Enable automatic creation of monthly visits (next month’s visit scheduled automatically)',
+	'contracts.monthlyAmount': 'Monthly Amount (SAR)',
+	'contracts.semiAnnualAmount': 'Semi-Annual (6+1) (SAR)',
+	'contracts.annualAmount': 'Annual (12+2) (SAR)',
+	'contracts.devices': 'Devices',
+	'contracts.notes': 'Contract Notes',
+	'contracts.notesPlaceholder': 'Add any notes about this contract...',
+	'contracts.create': 'Create Contract',
+	'contracts.detailsTitle': 'Contract Details',
+	'contracts.detailsDescription': 'View contract information and print',
+	'contracts.detailsTab': 'Details',
+	'contracts.historyTab': 'History',
+	'contracts.numberLabel': 'Contract #:',
+	'contracts.clientLabel': 'Client:',
+	'contracts.dateLabel': 'Date:',
+	'contracts.paymentPlanLabel': 'Payment Plan:',
+	'contracts.devicesLabel': 'Devices:',
+	'contracts.deviceType': 'Device Type',
+	'contracts.deviceQuantity': 'Quantity',
+	'contracts.removeDevice': 'Remove device',
+	'contracts.addDevice': 'Add device',
+	'contracts.totalDevices': 'Total devices: {count}',
+	'contracts.statusLabel': 'Status:',
+	'contracts.suspendDescription': 'Please provide a reason for suspending this contract',
+	'contracts.suspensionReason': 'Suspension Reason',
+	'contracts.suspensionReasonPlaceholder': 'Enter reason for suspension...',
+	'contracts.cancelDescription': 'Please provide a reason for cancelling this contract. This action cannot be undone.',
+	'contracts.cancellationReason': 'Cancellation Reason',
+	'contracts.cancellationReasonPlaceholder': 'Enter reason for cancellation...',
+	'contracts.editDescription': 'Update contract information',
+	'contracts.serviceDetails': 'Service Details',
+	'contracts.emergencyVisitFee': 'Emergency Visit Fee (SAR)',
+	'contracts.notesTitle': 'Contract Notes & Details',
+	'contracts.numberAndClient': 'Contract #{number} - {client}',
+	'contracts.generalNotes': 'General Notes',
+	'contracts.noNotes': 'No notes added',
+	'contracts.suspensionDetails': 'Suspension Details',
+	'contracts.suspendedDate': 'Suspended Date:',
+	'contracts.reason': 'Reason:',
+	'contracts.noReason': 'No reason provided',
+	'contracts.cancellationDetails': 'Cancellation Details',
+	'contracts.cancelledDate': 'Cancelled Date:',
+	'contracts.reactivationInfo': 'Reactivation Info',
+	'contracts.reactivatedDate': 'Reactivated Date:',
+	'contracts.historyTitle': 'Contract History Log',
+	'contracts.historyCreated': 'Created',
+	'contracts.historyEdited': 'Edited',
+	'contracts.historySent': 'Sent',
+	'contracts.historySigned': 'Signed',
+	'contracts.historyAttached': 'Attached',
+	'contracts.historySuspended': 'Suspended',
+	'contracts.historyCancelled': 'Cancelled',
+	'contracts.historyReactivated': 'Reactivated',
+	'contracts.noHistory': 'No History Available',
+	'contracts.noHistoryDescription': "This contract doesn't have any history logs yet.",
+	'contracts.signConfirmTitle': 'Confirm Mark as Signed',
+	'contracts.signConfirmDescription': 'Are you sure you want to mark this contract as signed? This will change the status from Draft to Signed.',
+	'contracts.contractNumber': 'Contract: {number}',
+	'contracts.clientNameValue': 'Client: {name}',
+	'contracts.signConfirm': 'Confirm & Mark as Signed',
+	'contracts.attachConfirmTitle': 'Confirm Attach Signed File',
+	'contracts.attachConfirmDescription': 'Attaching a signed file will change the contract status from Signed to Active and automatically generate monthly visit schedules.',
+	'contracts.attachVisitsFrom': 'After attaching, the contract will become Active and monthly visits will be scheduled starting from {date}.',
+	'contracts.attachVisitsFromActivation': 'After attaching, the contract will become Active and monthly visits will be scheduled starting from the activation date.',
+	'contracts.continueUpload': 'Continue to Upload',
+	'contracts.notFound': 'Contract not found',
+	'contracts.notFoundInDatabase': 'Contract not found in database',
+	'contracts.clientRequired': 'Please select a customer or enter client name',
+	'contracts.selectCustomer': 'Please select a customer from the list',
+	'contracts.endBeforeStart': 'Contract end date must be after the contract date',
+	'contracts.quotationNotConverted': 'Contract saved, but quotation {number} was not marked as converted',
+	'contracts.created': 'Contract {number} created successfully!',
+	'contracts.createFailed': 'Failed to create contract: {message}',
+	'contracts.quotationLoaded': 'Quotation {number} loaded. Complete the contract details below.',
+	'contracts.markedSent': 'Contract marked as sent!',
+	'contracts.updateFailed': 'Failed to update contract: {message}',
+	'contracts.onlyDraftSign': 'Only draft contracts can be marked as signed',
+	'contracts.markedSigned': 'Contract marked as signed!',
+	'contracts.onlySignedAttach': 'Only signed contracts can have files attached',
+	'contracts.fileType': 'Please upload a PDF, JPG, or PNG file',
+	'contracts.fileSize': 'File size must be less than 10 MB',
+	'contracts.attachedVisitScheduled': 'Contract attached and activated! File: {file}. First monthly visit scheduled for {date}.',
+	'contracts.attachedVisitExists': 'Contract attached and activated! File: {file}. Visit already scheduled for this contract.',
+	'contracts.attachedNoVisits': 'Contract attached and activated! File: {file}. Automatic monthly visits are disabled for this contract.',
+	'contracts.uploadFailed': 'Failed to upload contract file: {message}',
+	'contracts.suspensionReasonRequired': 'Please provide a suspension reason',
+	'contracts.suspended': 'Contract suspended successfully!',
+	'contracts.suspendFailed': 'Failed to suspend contract: {message}',
+	'contracts.cancellationReasonRequired': 'Please provide a cancellation reason',
+	'contracts.cancelled': 'Contract cancelled successfully!',
+	'contracts.cancelFailed': 'Failed to cancel contract: {message}',
+	'contracts.reactivated': 'Contract reactivated successfully!',
+	'contracts.reactivateFailed': 'Failed to reactivate contract: {message}',
+	'contracts.deleteMissingId': 'Unable to delete contract: missing contract identifier.',
+	'contracts.deleteConfirm': 'Delete this contract? It is moved to the Recycle Bin and can be restored from there.',
+	'contracts.deleted': 'Contract moved to the Recycle Bin',
+	'contracts.deleteFailed': 'Failed to delete contract: {message}',
+	'contracts.updated': 'Contract updated successfully!',
+	'contracts.pdfGenerating': 'Generating PDF...',
+	'contracts.pdfReady': 'PDF ready',
+	'contracts.pdfFailed': 'Failed to generate the PDF',
+	'contracts.noAttachedFile': 'No attached contract file found',
+
+	// Quotations
+	'quotations.title': 'Quotations',
+	'quotations.subtitle': 'Create and manage price quotations',
+	'quotations.export': 'Export',
+	'quotations.exportExcel': 'Export as Excel',
+	'quotations.exportPdf': 'Export as PDF',
+	'quotations.winRate': 'Win Rate',
+	'quotations.new': 'New Quotation',
+	'quotations.reviseTitle': 'Revise {number} (v{version})',
+	'quotations.createTitle': 'Create New Quotation',
+	'quotations.reviseDescription': 'v{version} is kept in the version history. The revised quotation is a draft, valid from today.',
+	'quotations.createDescription': 'Fill in customer details and add items',
+	'quotations.whatChanged': 'What changed?',
+	'quotations.whatChangedPlaceholder': 'e.g. Customer asked for 10 devices instead of 8',
+	'quotations.customerInformation': 'Customer Information',
+	'quotations.selectCustomer': 'Select Customer',
+	'quotations.customerName': 'Customer Name',
+	'quotations.mobileNumber': 'Mobile Number',
+	'quotations.location': 'Location',
+	'quotations.locationPlaceholder': 'Riyadh, Al Malaz District',
+	'quotations.validFor': 'Valid For (Days)',
+	'quotations.days': '{count} Days',
+	'quotations.commercialRegister': 'Commercial Register',
+	'quotations.vatNumber': 'VAT Number',
+	'quotations.delegate': 'Delegate',
+	'quotations.noDelegate': 'No delegate',
+	'quotations.branding': 'Branding & Customization',
+	'quotations.brandingHint': 'Default logo and stamp from Settings are shown below. Upload custom assets to override for this quotation only.',
+	'quotations.companyLogo': 'Company Logo',
+	'quotations.systemDefault': 'System Default',
+	'quotations.custom': 'Custom',
+	'quotations.removed': 'Removed',
+	'quotations.overrideLogo': 'Override Logo',
+	'quotations.changeLogo': 'Change Logo',
+	'quotations.usingSystemDefault': 'Using system default',
+	'quotations.resetToDefault': 'Reset to default',
+	'quotations.usingDefaultLogo': 'Using system default logo',
+	'quotations.stampOptional': 'Stamp (Optional)',
+	'quotations.uploadStamp': 'Upload Stamp',
+	'quotations.overrideStamp': 'Override Stamp',
+	'quotations.changeStamp': 'Change Stamp',
+	'quotations.useDefault': 'Use Default',
+	'quotations.removeStamp': 'Remove stamp',
+	'quotations.usingDefaultStamp': 'Using system default stamp',
+	'quotations.items': 'Quotation Items',
+	'quotations.itemNumber': 'Item #{number}',
+	'quotations.manual': 'Manual',
+	'quotations.fromInventory': 'From Inventory',
+	'quotations.selectProduct': 'Select product...',
+	'quotations.noInventory': 'No items in inventory yet',
+	'quotations.removeItem': 'Remove item',
+	'quotations.image': 'Image',
+	'quotations.upload': 'Upload',
+	'quotations.descriptionRequired': 'Description *',
+	'quotations.descriptionPlaceholder': 'Product or service description',
+	'quotations.quantityRequired': 'Quantity *',
+	'quotations.unitPriceRequired': 'Unit Price (SAR) *',
+	'quotations.discountType': 'Discount Type',
+	'quotations.percentage': 'Percentage (%)',
+	'quotations.fixed': 'Fixed (SAR)',
+	'quotations.discountPercent': 'Discount (%)',
+	'quotations.discountFixed': 'Discount (SAR)',
+	'quotations.discount': 'Discount',
+	'quotations.itemDiscount': 'Item Discount',
+	'quotations.subtotal': 'Subtotal',
+	'quotations.itemTotal': 'Item Total',
+	'quotations.totalInclVat': 'Total (incl. VAT)',
+	'quotations.addManualItem': 'Add Manual Item',
+	'quotations.addFromInventory': 'Add from Inventory',
+	'quotations.notesPlaceholder': 'Additional notes...',
+	'quotations.terms': 'Terms & Conditions',
+	'quotations.termsPlaceholder': 'Enter terms and conditions...',
+	'quotations.discountConfiguration': 'Discount Configuration',
+	'quotations.discountMode': 'Discount Mode',
+	'quotations.individualDiscounts': 'Individual Item Discounts',
+	'quotations.globalDiscount': 'Apply Discount to All Items',
+	'quotations.vat': 'VAT (15%)',
+	'quotations.enabled': 'Enabled',
+	'quotations.disabled': 'Disabled',
+	'quotations.fixedAmount': 'Fixed Amount (SAR)',
+	'quotations.discountAmountPercent': 'Discount Amount (%)',
+	'quotations.discountAmountFixed': 'Discount Amount (SAR)',
+	'quotations.applyingPercent': 'Applying {percent}% discount to all item subtotals',
+	'quotations.distributingFixed': 'Distributing {amount} discount proportionally across all items',
+	'quotations.globalModeNote': 'Individual item discount fields are disabled in this mode. Discounts are automatically calculated and applied to all items.',
+	'quotations.individualMode': 'Individual Mode:',
+	'quotations.individualModeNote': 'You can set discounts for each item independently. Each item supports either percentage or fixed amount discounts.',
+	'quotations.summaryTitle': 'Quotation Summary',
+	'quotations.subtotalAll': 'Subtotal (All Items):',
+	'quotations.totalDiscount': 'Total Discount:',
+	'quotations.itemTotalsAfterDiscount': 'Item Totals (After Discount):',
+	'quotations.vatLabel': 'VAT (15%):',
+	'quotations.grandTotal': 'Grand Total:',
+	'quotations.saveRevision': 'Save Revision',
+	'quotations.create': 'Create Quotation',
+	'quotations.total': 'Total Quotations',
+	'quotations.allTime': 'All time',
+	'quotations.awaitingCustomer': 'Awaiting the customer · {count} drafts',
+	'quotations.rejectedOrExpired': '{count} rejected or expired',
+	'quotations.totalValue': 'Total Value',
+	'quotations.allQuotations': 'All quotations',
+	'quotations.all': 'All Quotations',
+	'quotations.search': 'Search quotations...',
+	'quotations.loading': 'Loading quotations...',
+	'quotations.empty': 'No quotations found',
+	'quotations.number': 'Quotation #',
+	'quotations.validUntil': 'Valid Until',
+	'quotations.amount': 'Amount',
+	'quotations.convert': 'Convert',
+	'quotations.signed': 'Signed',
+	'quotations.awaitingSignature': 'Awaiting signature',
+	'quotations.markSent': 'Mark as Sent',
+	'quotations.markAccepted': 'Mark as Accepted',
+	'quotations.markRejected': 'Mark as Rejected',
+	'quotations.backToDraft': 'Back to Draft',
+	'quotations.revise': 'Revise (new version)',
+	'quotations.versionHistory': 'Version History',
+	'quotations.convertedInvoice': 'Converted to invoice',
+	'quotations.convertedContract': 'Converted to contract',
+	'quotations.toInvoice': 'To Invoice',
+	'quotations.toContract': 'To Contract',
+	'quotations.printWithImages': 'Print with images',
+	'quotations.printWithoutImages': 'Print without images',
+	'quotations.sendEmail': 'Send Email',
+	'quotations.detailsTitle': 'Quotation Details - {number}',
+	'quotations.detailsDescription': 'Customer: {customer} | Date: {date}',
+	'quotations.nameLabel': 'Name:',
+	'quotations.mobileLabel': 'Mobile:',
+	'quotations.locationLabel': 'Location:',
+	'quotations.crLabel': 'C.R.:',
+	'quotations.vatNumberLabel': 'VAT:',
+	'quotations.validUntilLabel': 'Valid Until:',
+	'quotations.itemsTitle': 'Items',
+	'quotations.description': 'Description',
+	'quotations.qty': 'Qty',
+	'quotations.unitPrice': 'Unit Price',
+	'quotations.discPercent': 'Disc %',
+	'quotations.summary': 'Summary',
+	'quotations.subtotalLabel': 'Subtotal:',
+	'quotations.discountLabel': 'Discount:',
+	'quotations.afterDiscount': 'After Discount:',
+	'quotations.printDateOptions': 'Print Date Options',
+	'quotations.printDateChoose': 'Choose date to display on printed quotation:',
+	'quotations.printDateQuotation': 'Quotation Date ({date})',
+	'quotations.printDateToday': "Today's Date ({date})",
+	'quotations.printDateCustom': 'Custom Date',
+	'quotations.selectCustomDate': 'Select Custom Date:',
+	'quotations.notFound': 'Quotation not found',
+	'quotations.logoUploaded': 'Logo uploaded successfully',
+	'quotations.logoUrlFailed': 'Logo uploaded but URL retrieval failed',
+	'quotations.logoUploadFailed': 'Failed to upload logo',
+	'quotations.stampUploaded': 'Stamp uploaded successfully',
+	'quotations.stampUrlFailed': 'Stamp uploaded but URL retrieval failed',
+	'quotations.stampUploadFailed': 'Failed to upload stamp',
+	'quotations.imageUploaded': 'Image uploaded successfully',
+	'quotations.manualItemAdded': 'Manual item added',
+	'quotations.inventoryItemAdded': 'Inventory item added - please select from dropdown',
+	'quotations.productLoaded': 'Product loaded from inventory',
+	'quotations.customerNameRequired': 'Please enter customer name',
+	'quotations.mobileRequired': 'Please enter mobile number',
+	'quotations.itemRequired': 'Please add at least one item with description',
+	'quotations.discountNegative': 'Discount amount cannot be negative',
+	'quotations.discountPercentRange': 'Discount percentage must be between 0 and 100',
+	'quotations.fixedDiscountTooHigh': 'Fixed discount cannot exceed total subtotal',
+	'quotations.untitled': 'Untitled',
+	'quotations.itemDiscountInvalid': 'Item "{item}" has invalid discount percentage',
+	'quotations.itemDiscountTooHigh': 'Item "{item}" discount cannot exceed subtotal',
+	'quotations.reloadNotFound': 'Quotation not found. Reload the page and try again.',
+	'quotations.revised': '{number} revised to v{version}',
+	'quotations.reviseFailed': 'Failed to revise quotation',
+	'quotations.created': 'Quotation created successfully!',
+	'quotations.createFailed': 'Failed to create quotation',
+	'quotations.statusChanged': 'Quotation {number} marked as {status}',
+	'quotations.statusFailed': 'Failed to update status',
+	'quotations.convertingInvoice': 'Converting quotation {number} to invoice...',
+	'quotations.convertingContract': 'Converting quotation {number} to contract...',
+	'quotations.convertFailed': 'Unable to convert. Please try again.',
+	'quotations.allowPopups': 'Please allow popups to print quotations',
+	'quotations.noData': 'No data to export.',
+	'quotations.pdfExportReady': 'PDF export ready for printing',
+	'quotations.printWindowFailed': 'Failed to open print window',
+	'quotations.pdfExportFailed': 'Failed to export PDF',
+	'quotations.noEmail': 'No customer email found for this quotation',
+	'quotations.openingEmail': 'Opening email client...',
+
+	// Invoices
+	'invoices.title': 'Invoices',
+	'invoices.subtitle': 'Create and manage customer invoices',
+	'invoices.new': 'New Invoice',
+	'invoices.createTitle': 'Create New Invoice',
+	'invoices.invoiceDate': 'Invoice Date',
+	'invoices.selectInvoiceDate': 'Select Invoice Date *',
+	'invoices.invoiceDateHint': 'The date that will appear on the invoice',
+	'invoices.invoiceType': 'Invoice Type',
+	'invoices.selectInvoiceType': 'Select Invoice Type *',
+	'invoices.typeNormal': 'Normal Invoice',
+	'invoices.typeMonthlyVisit': 'Monthly Visit Invoice',
+	'invoices.typeNormalHint': 'Regular invoice for item purchases',
+	'invoices.typeMonthlyVisitHint': 'Recurring invoice for monthly service visits',
+	'invoices.typeNormalShort': 'Normal',
+	'invoices.typeMonthlyVisitShort': 'Monthly Visit',
+	'invoices.linkContract': 'Link to Contract *',
+	'invoices.selectContract': 'Select contract...',
+	'invoices.noActiveContracts': 'No active contracts found',
+	'invoices.selectCustomerFirst': 'Please select a customer first',
+	'invoices.contractHint': 'Select the active contract for this monthly visit invoice',
+	'invoices.visitDate': 'Visit Date *',
+	'invoices.visitDateHint': 'Select the date of the monthly visit this invoice is for',
+	'invoices.brandingHint': 'Default logo and stamp from Settings are shown below. Upload custom assets to override them for this invoice only.',
+	'invoices.discountSettings': 'Discount Settings',
+	'invoices.individualItems': 'Individual Items',
+	'invoices.globalDiscount': 'Global Discount',
+	'invoices.globalDiscountType': 'Global Discount Type',
+	'invoices.globalDiscountPercent': 'Global Discount (%)',
+	'invoices.globalDiscountFixed': 'Global Discount (SAR)',
+	'invoices.enterPercentage': 'Enter percentage',
+	'invoices.enterFixedAmount': 'Enter fixed amount',
+	'invoices.items': 'Invoice Items',
+	'invoices.itemNumber': 'Item {number}',
+	'invoices.loadFromInventory': 'Load from Inventory *',
+	'invoices.searchProducts': 'Search products...',
+	'invoices.inventoryOption': '{name} - {price} ({stock} in stock)',
+	'invoices.itemImage': 'Item Image',
+	'invoices.uploadImage': 'Upload Image',
+	'invoices.descriptionPlaceholder': 'Item description',
+	'invoices.quantity': 'Quantity',
+	'invoices.noInventory': 'No items currently in inventory',
+	'invoices.summaryTitle': 'Invoice Summary',
+	'invoices.basedOnContract': '(Based on contract plan)',
+	'invoices.contractTotalHint': "Grand total is calculated from the selected contract's payment plan amount",
+	'invoices.additionalNotes': 'Additional Notes',
+	'invoices.notesPlaceholder': 'Enter any additional notes...',
+	'invoices.paymentInformation': 'Payment Information',
+	'invoices.paidAmountRequired': 'Paid Amount (SAR) *',
+	'invoices.paidAmountHintMax': 'Enter amount paid (max: {amount}). Status will be automatically set.',
+	'invoices.paidAmountHint': 'Enter amount paid. Status will be automatically set.',
+	'invoices.totalAmountLabel': 'Total Amount:',
+	'invoices.paidAmountLabel': 'Paid Amount:',
+	'invoices.remainingLabel': 'Remaining:',
+	'invoices.statusLabel': 'Status:',
+	'invoices.autoSettings': 'Automatic Invoicing Settings',
+	'invoices.autoEnable': 'Enable Automatic Invoicing',
+	'invoices.autoEnableHint': 'Invoices for contract visits are created by the scheduled billing job',
+	'invoices.autoTiming': 'Invoice Generation Timing',
+	'invoices.timingVisitDate': 'On Visit Date',
+	'invoices.timing7Days': '7 Days Before Visit Date',
+	'invoices.timingVisitDateHint': 'Invoice will be generated on the same day as the monthly visit',
+	'invoices.timing7DaysHint': 'Invoice will be generated 7 days before the monthly visit date',
+	'invoices.creating': 'Creating...',
+	'invoices.create': 'Create Invoice',
+	'invoices.statTotal': 'Total Invoices',
+	'invoices.statAll': 'All invoices',
+	'invoices.statFullyPaid': 'Fully paid',
+	'invoices.statPartiallyPaid': 'Partially paid',
+	'invoices.statRevenue': 'Total Revenue',
+	'invoices.statCollected': 'SAR collected',
+	'invoices.statPending': 'SAR pending',
+	'invoices.searchPlaceholder': 'Search invoices by number or customer...',
+	'invoices.all': 'All Invoices',
+	'invoices.search': 'Search',
+	'invoices.searchShort': 'Search invoices...',
+	'invoices.allStatuses': 'All Statuses',
+	'invoices.sortOrder': 'Sort Order',
+	'invoices.newestFirst': 'Newest First',
+	'invoices.oldestFirst': 'Oldest First',
+	'invoices.loadFailed': 'Failed to load invoices. Please try again.',
+	'invoices.tryAgain': 'Try Again',
+	'invoices.noMatches': 'No invoices found matching your search',
+	'invoices.empty': 'No invoices created yet. Create your first invoice to get started!',
+	'invoices.number': 'Invoice #',
+	'invoices.type': 'Type',
+	'invoices.paid': 'Paid',
+	'invoices.remaining': 'Remaining',
+	'invoices.renew': 'Renew',
+	'invoices.collect': 'Collect',
+	'invoices.lockedHint': 'Locked: issue a credit or debit note to change this invoice',
+	'invoices.editDateHint': 'Edit invoice date',
+	'invoices.notesHint': 'Credit / Debit notes',
+	'invoices.exportXml': 'Export ZATCA e-invoice (XML)',
+	'invoices.loadMore': 'Load More Invoices',
+	'invoices.loaded': '({count} loaded)',
+	'invoices.showingAll': 'Showing all {count} invoices',
+	'invoices.editTitle': 'Edit Invoice',
+	'invoices.editDescription': 'Update invoice date and other details',
+	'invoices.invoiceNumber': 'Invoice Number',
+	'invoices.currentTotal': 'Current Total',
+	'invoices.currentStatus': 'Current Status',
+	'invoices.updating': 'Updating...',
+	'invoices.update': 'Update Invoice',
+	'invoices.previewTitle': 'Invoice Preview',
+	'invoices.previewDescription': 'Preview invoice before printing or downloading',
+	'invoices.tabInvoice': 'Invoice',
+	'invoices.dateValue': 'Date: {date}',
+	'invoices.billTo': 'Bill To',
+	'invoices.price': 'Price',
+	'invoices.creditNotes': 'Credit Notes:',
+	'invoices.debitNotes': 'Debit Notes:',
+	'invoices.paidLabel': 'Paid:',
+	'invoices.collectTitle': 'Collect Payment',
+	'invoices.collectDescription': 'Record payment for invoice {number}',
+	'invoices.totalAmount': 'Total Amount',
+	'invoices.paidAmount': 'Paid Amount',
+	'invoices.paymentAmount': 'Payment Amount (SAR) *',
+	'invoices.fullAmount': 'Full Amount',
+	'invoices.paymentDate': 'Payment Date *',
+	'invoices.paymentMethod': 'Payment Method *',
+	'invoices.selectPaymentMethod': 'Select payment method',
+	'invoices.paymentMethod.cash': 'Cash',
+	'invoices.paymentMethod.bank_transfer': 'Bank Transfer',
+	'invoices.paymentMethod.credit_card': 'Credit Card',
+	'invoices.paymentMethod.cheque': 'Cheque',
+	'invoices.paymentHistory': 'Payment History',
+	'invoices.newPaidAmount': 'New Paid Amount',
+	'invoices.newRemaining': 'New Remaining',
+	'invoices.newStatus': 'New Status',
+	'invoices.processing': 'Processing...',
+	'invoices.confirmPayment': 'Confirm Payment',
+	'invoices.createFailed': 'Failed to create invoice',
+	'invoices.stockNotResynced': 'Invoice updated, but stock was not updated for {number}',
+	'invoices.updateFailed': 'Failed to update invoice',
+	'invoices.billingSettingsFailed': 'Failed to save automatic invoicing settings',
+	'invoices.loadMoreFailed': 'Failed to load more invoices',
+	'invoices.notFound': 'Invoice not found',
+	'invoices.paymentsLoadFailed': 'Failed to load payments data: {message}',
+	'invoices.quotationLoaded': 'Quotation {number} loaded. Complete invoice details below.',
+	'invoices.copied': 'Invoice {number} copied. Review and create as new invoice.',
+	'invoices.locked': '{number} has payments or notes and can no longer be edited. Issue a credit or debit note instead.',
+	'invoices.validDate': 'Please select a valid date',
+	'invoices.dateUpdated': 'Invoice date updated successfully!',
+	'invoices.dateUpdateFailed': 'Failed to update invoice date',
+	'invoices.contractItemsRequired': 'Please select a contract to generate invoice items',
+	'invoices.paidExceedsTotal': 'Paid amount cannot exceed grand total of {amount}',
+	'invoices.contractRequired': 'Please select a contract for monthly visit invoice',
+	'invoices.visitDateRequired': 'Please select the visit date for monthly visit invoice',
+	'invoices.customerRequired': 'Please select a customer before creating an invoice',
+	'invoices.customerIdRequired': 'Customer ID is required',
+	'invoices.stockNotUpdated': 'Invoice saved, but stock was not updated for {number}',
+	'invoices.quotationNotConverted': 'Invoice saved, but quotation {number} was not marked as converted',
+	'invoices.created': 'Invoice {number} created successfully!',
+	'invoices.saveFailed': 'Failed to save invoice: {message}',
+	'invoices.saveBeforeExport': 'Save the invoice before exporting the e-invoice',
+	'invoices.eInvoiceExported': 'E-invoice exported (ICV {counter})',
+	'invoices.eInvoiceExportFailed': 'Failed to export e-invoice',
+	'invoices.allowPopups': 'Please allow popups to print invoices',
+	'invoices.saveBeforePdf': 'Save the invoice before downloading it as PDF',
+	'invoices.downloaded': 'Invoice downloaded successfully',
+	'invoices.originalNotFound': 'Original invoice not found',
+	'invoices.noteExported': '{note} exported (ICV {counter})',
+	'invoices.renewPrefilled': 'Monthly visit invoice form pre-filled. Review and create.',
+	'invoices.customerNotFound': 'Customer not found',
+	'invoices.renewFailed': 'Failed to renew invoice',
+	'invoices.paymentExceedsRemainingAmount': 'Payment amount cannot exceed remaining amount of {amount}',
+	'invoices.noInvoiceSelected': 'No invoice selected',
+	'invoices.validPaymentAmount': 'Please enter a valid payment amount',
+	'invoices.paymentMethodRequired': 'Please select a payment method',
+	'invoices.paymentMethodUnsupported': 'Selected payment method is not supported. Please choose another method.',
+	'invoices.paymentExceedsRemaining': 'Payment amount cannot exceed remaining amount',
+	'invoices.recordPaymentFailed': 'Failed to record payment',
+	'invoices.paymentCollected': 'Payment of {amount} collected successfully!',
+	'invoices.processPaymentFailed': 'Failed to process payment',
+
+	// Quotation versions and win rate
+	'quotationVersions.title': 'Version History - {number}',
+	'quotationVersions.description': 'Each revision keeps the previous version. Changes are shown against the version before.',
+	'quotationVersions.current': 'Current',
+	'quotationVersions.created': 'Created {date}',
+	'quotationVersions.revised': 'Revised {date}',
+	'quotationVersions.original': 'Original quotation',
+	'quotationVersions.noChanges': 'No changes to the quotation content',
+	'quotationVersions.field': 'Field',
+	'quotationVersions.before': 'Before',
+	'quotationVersions.after': 'After',
+	'winRate.title': 'Quotation Win Rate by Delegate',
+	'winRate.description': "Win rate is accepted quotations out of decided ones (accepted, rejected or expired). Quotations without a delegate count for the customer's delegate.",
+	'winRate.allTime': 'All time',
+	'winRate.last12Months': 'Last 12 months',
+	'winRate.last90Days': 'Last 90 days',
+	'winRate.last30Days': 'Last 30 days',
+	'winRate.empty': 'No quotations in this period',
+	'winRate.delegate': 'Delegate',
+	'winRate.quoted': 'Quoted',
+	'winRate.open': 'Open',
+	'winRate.won': 'Won',
+	'winRate.lost': 'Lost',
+	'winRate.quotedValue': 'Quoted Value',
+	'winRate.wonValue': 'Won Value',
+
+	// Credit and debit notes
+	'invoiceNotes.title': 'Credit / Debit Notes - {number}',
+	'invoiceNotes.description': 'Issued invoices are corrected by notes rather than edited. A credit note reverses invoiced lines; a debit note adds charges.',
+	'invoiceNotes.invoiceTotal': 'Invoice total',
+	'invoiceNotes.creditedDebited': 'Credited / Debited',
+	'invoiceNotes.adjustedTotal': 'Adjusted total',
+	'invoiceNotes.noteType': 'Note type',
+	'invoiceNotes.reasonRequiredLabel': 'Reason *',
+	'invoiceNotes.creditReasonPlaceholder': 'e.g. Returned items, price correction',
+	'invoiceNotes.debitReasonPlaceholder': 'e.g. Additional service visit',
+	'invoiceNotes.linesToCredit': 'Lines to credit',
+	'invoiceNotes.fullReversal': 'Full reversal',
+	'invoiceNotes.invoiced': 'Invoiced',
+	'invoiceNotes.credited': 'Credited',
+	'invoiceNotes.netUnitPrice': 'Net unit price',
+	'invoiceNotes.creditQty': 'Credit qty',
+	'invoiceNotes.overCredited': 'A line cannot be credited for more than was invoiced.',
+	'invoiceNotes.charges': 'Charges',
+	'invoiceNotes.addLine': 'Add line',
+	'invoiceNotes.subtotal': 'Subtotal: {amount}',
+	'invoiceNotes.vat': 'VAT ({rate}%): {amount}',
+	'invoiceNotes.noteTotal': '{note} total: {amount}',
+	'invoiceNotes.issuing': 'Issuing...',
+	'invoiceNotes.issue': 'Issue {note}',
+	'invoiceNotes.issuedNotes': 'Issued notes',
+	'invoiceNotes.number': 'Number',
+	'invoiceNotes.reason': 'Reason',
+	'invoiceNotes.empty': 'No notes issued for this invoice',
+	'invoiceNotes.reasonRequired': 'Enter the reason for this note',
+	'invoiceNotes.creditQuantityRequired': 'Enter a quantity to credit',
+	'invoiceNotes.chargeRequired': 'Add at least one charge',
+	'invoiceNotes.creditExceeds': 'A credit note cannot exceed the {amount} left on this invoice',
+	'invoiceNotes.issued': '{note} {number} issued',
+	'invoiceNotes.issueFailed': 'Failed to issue note',
+
+	// E-signature requests
+	'signature.title': 'Send for E-Signature - {number}',
+	'signature.description': 'The customer gets a link to view the document and sign it online. A new link replaces any open one.',
+	'signature.validFor': 'Link valid for',
+	'signature.create': 'Create signing link',
+	'signature.copy': 'Copy',
+	'signature.createdHint': 'Expires {date}. The link is shown only now; create a new one if it is lost.',
+	'signature.links': 'Signing links',
+	'signature.empty': 'No signing links yet',
+	'signature.createdAt': 'Created {date}',
+	'signature.expiresAt': 'expires {date}',
+	'signature.openedAt': 'opened {date}',
+	'signature.signatureOf': 'Signature of {name}',
+	'signature.signedBy': 'Signed by {name} on {date}',
+	'signature.ipAddress': 'IP address: {ip}',
+	'signature.archivedHint': 'Signed copy archived with the contract files',
+	'signature.archive': 'Archive signed copy',
+	'signature.linkCreated': 'Signing link created',
+	'signature.createFailed': 'Failed to create the signing link',
+	'signature.linkCopied': 'Link copied',
+	'signature.copyFailed': 'Could not copy the link',
+	'signature.archived': 'Signed copy archived',
+	'signature.archiveFailed': 'Failed to archive the signed copy',
+
+	// Public signing page
+	'signing.contract': 'Contract',
+	'signing.quotation': 'Quotation',
+	'signing.loading': 'Loading document...',
+	'signing.invalidLink': 'This signing link is not valid',
+	'signing.notAvailable': 'Link not available',
+	'signing.nameRequired': 'Please type your full name',
+	'signing.signatureRequired': 'Please draw your signature',
+	'signing.acceptRequired': 'Please accept the document to sign it',
+	'signing.signed': 'Thank you, the document has been signed',
+	'signing.signFailed': 'Failed to sign the document',
+	'signing.signedTitle': 'Signed',
+	'signing.signedDescription': 'Signed by {name} on {date}. You may close this page.',
+	'signing.expiredTitle': 'Link expired',
+	'signing.expiredDescription': 'This signing link has expired. Please ask us for a new one.',
+	'signing.revokedTitle': 'Link replaced',
+	'signing.revokedDescription': 'This signing link is no longer valid. Please use the most recent link we sent you.',
+	'signing.sign': 'Sign',
+	'signing.validUntil': 'Valid until {date}. Your name, signature, IP address and the time of signing are recorded with the document.',
+	'signing.fullName': 'Full name',
+	'signing.signature': 'Signature',
+	'signing.acceptContract': 'I have read this contract and agree to its terms, and I accept that my electronic signature is binding.',
+	'signing.acceptQuotation': 'I have read this quotation and agree to its terms, and I accept that my electronic signature is binding.',
+	'signing.signing': 'Signing...',
+	'signing.signDocument': 'Sign document',
+	'signing.clear': 'Clear',
+
+	// Receivables aging
+	'aging.title': 'Accounts Receivable Aging',
+	'aging.description': 'Unpaid invoice balances by days past due date, grouped by delegate',
+	'aging.asOf': 'As of',
+	'aging.empty': 'No outstanding receivables',
+	'aging.unknownDelegate': 'Unknown delegate',
+	'aging.unassigned': 'Unassigned',
+
+	// Recycle bin
+	'recycleBin.subtitle': 'Deleted customers, contracts, invoices and employees',
+	'recycleBin.refresh': 'Refresh',
+	'recycleBin.deletedRecords': 'Deleted Records ({count})',
+	'recycleBin.description': 'Restoring puts a record back where it was. Purging deletes it for good and is refused while other records still use it, such as an invoice with payments.',
+	'recycleBin.searchPlaceholder': 'Search by number, name or details...',
+	'recycleBin.allTypes': 'All Types',
+	'recycleBin.customer': 'Customer',
+	'recycleBin.contract': 'Contract',
+	'recycleBin.invoice': 'Invoice',
+	'recycleBin.employee': 'Employee',
+	'recycleBin.customers': 'Customers',
+	'recycleBin.contracts': 'Contracts',
+	'recycleBin.invoices': 'Invoices',
+	'recycleBin.employees': 'Employees',
+	'recycleBin.loadFailed': 'Failed to load the recycle bin',
+	'recycleBin.empty': 'The recycle bin is empty',
+	'recycleBin.type': 'Type',
+	'recycleBin.record': 'Record',
+	'recycleBin.deletedBy': 'Deleted By',
+	'recycleBin.deletedAt': 'Deleted At',
+	'recycleBin.restore': 'Restore',
+	'recycleBin.purge': 'Purge',
+	'recycleBin.purgeTitle': 'Permanently Delete',
+	'recycleBin.purgeDescription': '{entity} {label} will be deleted for good. This cannot be undone.',
+	'recycleBin.unknownUser': 'Unknown User',
+	'recycleBin.system': 'System',
+	'recycleBin.restored': '{entity} {label} restored',
+	'recycleBin.restoreFailed': 'Failed to restore',
+	'recycleBin.purged': '{entity} {label} permanently deleted',
+	'recycleBin.purgeFailed': 'Failed to purge',
+
+	// Two-factor authentication
+	'twoFactor.qrAlt': 'Authenticator QR code',
+	'twoFactor.cantScan': "Can't scan? Enter this key in your authenticator app:",
+	'twoFactor.codesCopied': 'Recovery codes copied',
+	'twoFactor.copyFailed': 'Could not copy the codes. Please write them down.',
+	'twoFactor.saveCodes': 'Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose your authenticator device. They will not be shown again.',
+	'twoFactor.copy': 'Copy',
+	'twoFactor.requestFailed': 'Two-factor request failed',
+	'twoFactor.enabledToast': 'Two-factor authentication enabled',
+	'twoFactor.disabledToast': 'Two-factor authentication disabled',
+	'twoFactor.codesRegenerated': 'New recovery codes generated; the old ones no longer work',
+	'twoFactor.title': 'Two-Factor Authentication',
+	'twoFactor.enabled': 'Enabled',
+	'twoFactor.disabled': 'Disabled',
+	'twoFactor.required': 'Required',
+	'twoFactor.description': 'Require a code from an authenticator app in addition to your password when you sign in',
+	'twoFactor.statusUnavailable': 'Two-factor status is unavailable. Please sign in again.',
+	'twoFactor.enabledStatus': 'Enabled.',
+	'twoFactor.enabledSince': 'Enabled since {date}.',
+	'twoFactor.codeLeft': '{count} recovery code left.',
+	'twoFactor.codesLeft': '{count} recovery codes left.',
+	'twoFactor.requiredHint': 'Two-factor authentication is required for your account. Set it up now; you will be asked to at your next login otherwise.',
+	'twoFactor.protectHint': 'Protect your account with a second sign-in step.',
+	'twoFactor.newCodes': 'New Recovery Codes',
+	'twoFactor.disable': 'Disable',
+	'twoFactor.enable': 'Enable Two-Factor Authentication',
+	'twoFactor.scanHint': 'Scan the QR code with your authenticator app, then enter the 6-digit code it shows.',
+	'twoFactor.verifyEnable': 'Verify & Enable',
+	'twoFactor.regenerateHint': 'Enter a code from your authenticator app. Your current recovery codes will stop working.',
+	'twoFactor.generate': 'Generate',
+	'twoFactor.disableHint': 'Enter a code from your authenticator app, or one of your recovery codes, to turn off two-factor authentication.',
+	'twoFactor.orRecoveryCode': 'Or recovery code',
+	'twoFactor.disableFull': 'Disable Two-Factor Authentication',
+	'twoFactor.done': 'Done',
+
+	// History log
+	'audit.created': 'Created',
+	'audit.updated': 'Updated',
+	'audit.deleted': 'Deleted',
+	'audit.entityCreated': '{entity} created',
+	'audit.entityDeleted': '{entity} deleted',
+	'audit.fieldsChanged': '{count} fields changed: {fields}',
+	'history.title': 'System History Log',
+	'history.subtitle': 'Every create, update and delete, with who changed which field',
+	'history.loadFailed': 'Failed to load history. Please try again.',
+	'history.refresh': 'Refresh',
+	'history.totalEvents': 'Total Events',
+	'history.allModulesHint': 'All audited modules',
+	'history.todayActivity': "Today's Activity",
+	'history.sinceMidnight': 'Since midnight',
+	'history.thisWeek': 'This Week',
+	'history.last7Hint': 'Last 7 days',
+	'history.filterTitle': 'Filter History',
+	'history.filterDescription': 'Filter by module, user, record and date',
+	'history.record': 'Record',
+	'history.recordPlaceholder': 'Invoice #, customer, ID...',
+	'history.module': 'Module',
+	'history.allModules': 'All Modules',
+	'history.user': 'User',
+	'history.allUsers': 'All Users',
+	'history.system': 'System',
+	'history.unknownUser': 'Unknown User',
+	'history.action': 'Action',
+	'history.allActions': 'All Actions',
+	'history.dateRange': 'Date Range',
+	'history.allTime': 'All Time',
+	'history.today': 'Today',
+	'history.yesterday': 'Yesterday',
+	'history.last7': 'Last 7 Days',
+	'history.last30': 'Last 30 Days',
+	'history.customRange': 'Custom Range',
+	'history.from': 'From',
+	'history.to': 'To',
+	'history.activityLog': 'Activity Log ({count} entries)',
+	'history.loading': 'Loading activity history...',
+	'history.empty': 'No history entries found for the selected filters.',
+	'history.details': 'Details',
+	'history.openRecord': 'Open {entity}',
+	'history.pageOf': 'Page {page} of {total}',
+	'history.previous': 'Previous',
+	'history.next': 'Next',
+	'history.noFieldValues': 'No field values recorded',
+	'history.field': 'Field',
+	'history.before': 'Before',
+	'history.after': 'After',
+	'history.notSaved': 'This record has not been saved yet',
+	'history.loadingRecord': 'Loading history...',
+	'history.loadFailedRecord': 'Failed to load history',
+	'history.noChanges': 'No recorded changes yet',
+
+	// General ledger
+	'ledger.title': 'General Ledger',
+	'ledger.subtitle': 'Double-entry journal posted from invoices, payments, purchases, expenses and payroll',
+	'ledger.loadFailed': 'Failed to load general ledger',
+	'ledger.codeNameRequired': 'Account code and name are required',
+	'ledger.codeUsed': 'Account code {code} is already used',
+	'ledger.accountInRule': 'This account is used by a posting rule. Point the rule to another account first.',
+	'ledger.accountUpdated': 'Account updated',
+	'ledger.accountAdded': 'Account added',
+	'ledger.accountSaveFailed': 'Failed to save account',
+	'ledger.ruleUpdated': 'Posting rule updated: {rule}',
+	'ledger.ruleUpdateFailed': 'Failed to update posting rule',
+	'ledger.descriptionRequired': 'Description is required',
+	'ledger.lineAccountRequired': 'Choose an account for every line with an amount',
+	'ledger.entryPosted': 'Journal entry posted',
+	'ledger.entryPostFailed': 'Failed to post journal entry',
+	'ledger.reverseConfirm': 'Reverse journal entry #{number}? A mirror entry dated today will be posted.',
+	'ledger.entryReversed': 'Entry #{number} reversed',
+	'ledger.reverseFailed': 'Failed to reverse entry',
+	'ledger.noPostings': 'No postings',
+	'ledger.totalOf': 'Total {title}',
+	'ledger.from': 'From',
+	'ledger.to': 'To',
+	'ledger.refresh': 'Refresh',
+	'ledger.journalEntry': 'Journal Entry',
+	'ledger.netProfitPeriod': 'Net Profit (period)',
+	'ledger.revenueExpenses': 'Revenue {revenue} · Expenses {expenses}',
+	'ledger.totalAssets': 'Total Assets',
+	'ledger.asOf': 'As of {date}',
+	'ledger.trialBalance': 'Trial Balance',
+	'ledger.balanced': 'Balanced',
+	'ledger.outOfBalance': 'Out of balance',
+	'ledger.debitsCredits': 'Debits {debits} · Credits {credits}',
+	'ledger.journal': 'Journal',
+	'ledger.profitLoss': 'Profit & Loss',
+	'ledger.balanceSheet': 'Balance Sheet',
+	'ledger.chartOfAccounts': 'Chart of Accounts',
+	'ledger.postingRules': 'Posting Rules',
+	'ledger.journalEntries': 'Journal Entries',
+	'ledger.journalDescription': 'Automatic entries follow their documents; edits and deletions post adjusting entries',
+	'ledger.allSources': 'All sources',
+	'ledger.descriptionAccount': 'Description / Account',
+	'ledger.debit': 'Debit',
+	'ledger.credit': 'Credit',
+	'ledger.loadingJournal': 'Loading journal...',
+	'ledger.noEntries': 'No journal entries in this period',
+	'ledger.reversal': 'Reversal',
+	'ledger.reverseEntry': 'Reverse entry',
+	'ledger.trialDescription': 'Debit and credit movements per account from {from} to {to}',
+	'ledger.theBeginning': 'the beginning',
+	'ledger.code': 'Code',
+	'ledger.account': 'Account',
+	'ledger.type': 'Type',
+	'ledger.balance': 'Balance',
+	'ledger.noPostingsPeriod': 'No postings in this period',
+	'ledger.plDescription': 'Accrual basis, from {from} to {to}',
+	'ledger.revenue': 'Revenue',
+	'ledger.expenses': 'Expenses',
+	'ledger.netProfit': 'Net Profit',
+	'ledger.assets': 'Assets',
+	'ledger.liabilities': 'Liabilities',
+	'ledger.equity': 'Equity',
+	'ledger.currentEarnings': 'Current earnings (unclosed profit)',
+	'ledger.totalLiabilitiesEquity': 'Total Liabilities & Equity',
+	'ledger.chartDescription': 'Accounts that have postings can be renamed or deactivated, not deleted',
+	'ledger.addAccount': 'Add Account',
+	'ledger.editAccount': 'Edit Account',
+	'ledger.active': 'Active',
+	'ledger.inactive': 'Inactive',
+	'ledger.rulesDescription': 'Accounts used by automatic postings. A change applies to documents posted or edited from now on.',
+	'ledger.posting': 'Posting',
+	'ledger.selectAccount': 'Select account',
+	'ledger.accountDialogDescription': 'Accounts are grouped by type on the financial statements',
+	'ledger.codePlaceholder': 'e.g., 5300',
+	'ledger.nameEn': 'Name (English)',
+	'ledger.nameAr': 'Name (Arabic)',
+	'ledger.description': 'Description',
+	'ledger.newEntry': 'New Journal Entry',
+	'ledger.entryDialogDescription': 'Manual entries must balance: total debits equal total credits',
+	'ledger.descriptionPlaceholder': 'e.g., Owner capital contribution',
+	'ledger.memo': 'Memo',
+	'ledger.addLine': 'Add Line',
+	'ledger.debitsTotal': 'Debits: {amount}',
+	'ledger.creditsTotal': 'Credits: {amount}',
+	'ledger.difference': 'Difference: {amount}',
+	'ledger.postEntry': 'Post Entry',
+	'ledger.type.asset': 'Asset',
+	'ledger.type.liability': 'Liability',
+	'ledger.type.equity': 'Equity',
+	'ledger.type.revenue': 'Revenue',
+	'ledger.type.expense': 'Expense',
+	'ledger.source.manual': 'Manual',
+	'ledger.source.invoice': 'Invoice',
+	'ledger.source.invoiceNote': 'Credit / Debit Note',
+	'ledger.source.payment': 'Customer Payment',
+	'ledger.source.purchaseOrder': 'Purchase',
+	'ledger.source.purchasePayment': 'Supplier Payment',
+	'ledger.source.expense': 'Expense',
+	'ledger.source.expensePayment': 'Expense Payment',
+	'ledger.source.payroll': 'Payroll',
+
+	// Leads
+	'leads.title': 'Leads Management',
+	'leads.subtitle': 'Manage potential customers and track opportunities',
+	'leads.converted': '{name} has been converted to a customer!',
+	'leads.convertedDescription': 'The lead has been moved to the Customers section',
+	'leads.convertFailed': 'Failed to convert lead',
+	'leads.statusUpdated': 'Lead status updated to {status}',
+	'leads.updated': 'Lead updated successfully!',
+	'leads.updateFailed': 'Failed to update lead',
+	'leads.deleteConfirm': 'Are you sure you want to delete this lead?',
+	'leads.deleted': 'Lead deleted successfully!',
+	'leads.deleteFailed': 'Failed to delete lead',
+	'leads.added': 'Lead added successfully!',
+	'leads.addFailed': 'Failed to add lead',
+	'leads.addNew': 'Add New Lead',
+	'leads.addDescription': 'Enter potential customer details',
+	'leads.edit': 'Edit Lead',
+	'leads.editDescription': 'Update potential customer details',
+	'leads.companyName': 'Company/Organization Name',
+	'leads.namePlaceholder': 'Enter name',
+	'leads.contactPerson': 'Contact Person',
+	'leads.contactPersonPlaceholder': 'Contact person name',
+	'leads.phoneNumber': 'Phone Number',
+	'leads.emailAddress': 'Email Address',
+	'leads.leadSource': 'Lead Source',
+	'leads.selectSource': 'Select source',
+	'leads.interestLevel': 'Interest Level',
+	'leads.selectLevel': 'Select level',
+	'leads.estimatedValueMonthly': 'Estimated Value (Monthly)',
+	'leads.estimatedValueMonthlySar': 'Estimated Value (Monthly SAR)',
+	'leads.contactMethod': 'Contact Method',
+	'leads.selectMethod': 'Select method',
+	'leads.assignedRepresentative': 'Assigned Representative',
+	'leads.selectRepresentative': 'Select representative',
+	'leads.noRepresentatives': 'No representatives available. Add representatives first.',
+	'leads.notesPlaceholder': 'Any notes about the customer...',
+	'leads.save': 'Save Lead',
+	'leads.totalLeads': 'Total Leads',
+	'leads.newOpportunities': 'New opportunities',
+	'leads.highInterest': 'High Interest',
+	'leads.requiresFollowUp': 'Requires follow-up',
+	'leads.estimatedRevenue': 'Estimated Revenue',
+	'leads.amountSar': '{amount} SAR',
+	'leads.monthlyOnConversion': 'Monthly upon conversion',
+	'leads.searchPlaceholder': 'Search for lead...',
+	'leads.allSources': 'All Sources',
+	'leads.loading': 'Loading leads...',
+	'leads.empty': 'No leads found',
+	'leads.companyNameShort': 'Company Name',
+	'leads.contactInfo': 'Contact Info',
+	'leads.representative': 'Representative',
+	'leads.sourceColumn': 'Source',
+	'leads.estimatedValue': 'Estimated Value',
+	'leads.convert': 'Convert to Customer',
+	'leads.source.website': 'Website',
+	'leads.source.referral': 'Referral',
+	'leads.source.exhibition': 'Exhibition',
+	'leads.source.directCall': 'Direct Call',
+	'leads.source.socialMedia': 'Social Media',
+	'leads.interest.high': 'High',
+	'leads.interest.medium': 'Medium',
+	'leads.interest.low': 'Low',
+	'leads.method.fieldVisit': 'Field Visit',
+	'leads.method.whatsapp': 'WhatsApp',
+	'leads.method.phoneCall': 'Phone Call',
+	'leads.method.email': 'Email',
+	'leads.status.new': 'New',
+	'leads.status.contacted': 'Contacted',
+	'leads.status.quoted': 'Quoted',
+	'leads.status.followUp': 'Follow-up',
+	'leads.status.negotiating': 'Negotiating',
+	'leads.status.won': 'Won',
+	'leads.status.lost': 'Lost',
+
+	// Visits
+	'visits.title': 'Visit Management',
+	'visits.subtitle': 'Monthly visit schedule by representative',
+	'visits.loadFailed': 'Failed to load visits',
+	'visits.unknownCustomer': 'Unknown Customer',
+	'visits.unassigned': 'Unassigned',
+	'visits.requiredFields': 'Please fill in the required fields',
+	'visits.scheduleFailed': 'Failed to schedule visit',
+	'visits.scheduled': 'Visit scheduled successfully',
+	'visits.updateFailed': 'Failed to update visit',
+	'visits.updated': 'Visit updated successfully',
+	'visits.statusFailed': 'Failed to update status',
+	'visits.markedAs': 'Visit marked as {status}',
+	'visits.deleteConfirm': 'Delete visit for {customer}?',
+	'visits.deleted': 'Visit deleted successfully',
+	'visits.deleteFailed': 'Failed to delete visit',
+	'visits.scheduleNew': 'Schedule New Visit',
+	'visits.edit': 'Edit Visit',
+	'visits.editDescription': 'Update visit details and assigned representative',
+	'visits.scheduleDescription': 'Set the visit date and assigned representative',
+	'visits.customerRequired': 'Customer *',
+	'visits.selectCustomer': 'Select customer',
+	'visits.representativeRequired': 'Representative *',
+	'visits.selectRepresentative': 'Select representative',
+	'visits.dateRequired': 'Visit Date *',
+	'visits.time': 'Visit Time',
+	'visits.address': 'Address',
+	'visits.locationPlaceholder': 'Visit location',
+	'visits.notesPlaceholder': 'Visit notes and requirements',
+	'visits.schedule': 'Schedule Visit',
+	'visits.total': 'Total Visits',
+	'visits.allRecorded': 'All recorded visits',
+	'visits.upcoming': 'Upcoming',
+	'visits.finished': 'Successfully finished',
+	'visits.thisMonth': 'This month',
+	'visits.byRepresentative': 'Visits by Representative',
+	'visits.allCount': 'All ({count})',
+	'visits.all': 'All Visits',
+	'visits.sortOrder': 'Sort order',
+	'visits.newestFirst': 'Newest First',
+	'visits.oldestFirst': 'Oldest First',
+	'visits.searchPlaceholder': 'Search visits...',
+	'visits.visitId': 'Visit ID #',
+	'visits.representative': 'Representative',
+	'visits.dateTime': 'Date & Time',
+	'visits.empty': 'No visits found',
+	'visits.status.scheduled': 'Scheduled',
+	'visits.status.completed': 'Completed',
+	'visits.status.cancelled': 'Cancelled',
+
+	// Payments
+	'payments.title': 'Payment Management',
+	'payments.subtitle': 'Collections, invoices, and payments',
+	'payments.unknownCustomer': 'Unknown Customer',
+	'payments.printWindowFailed': 'Failed to open print window',
+	'payments.printing': 'Printing receipt for {number}',
+	'payments.generatingPdf': 'Generating PDF...',
+	'payments.receiptDownloaded': 'Receipt downloaded',
+	'payments.pdfFailed': 'Failed to generate the PDF',
+	'payments.downloadPdf': 'Download PDF',
+	'payments.selectInvoiceError': 'Please select an invoice',
+	'payments.requiredFields': 'Please fill all required fields',
+	'payments.methodUnsupported': 'Selected payment method is not supported. Please choose another method.',
+	'payments.invalidAmount': 'Please enter a valid payment amount',
+	'payments.invoiceNotFound': 'Invoice not found',
+	'payments.exceedsRemaining': 'Payment amount cannot exceed remaining amount',
+	'payments.recordFailed': 'Failed to record payment',
+	'payments.invoiceUpdateFailed': 'Failed to update invoice',
+	'payments.recorded': 'Payment of {amount} recorded successfully!',
+	'payments.recordNew': 'Record New Payment',
+	'payments.recordFor': 'Record Payment for {number}',
+	'payments.recordFromCustomer': 'Record payment received from {customer}',
+	'payments.enterDetails': 'Enter received payment details',
+	'payments.totalAmount': 'Total Amount',
+	'payments.paidAmount': 'Paid Amount',
+	'payments.remaining': 'Remaining',
+	'payments.invoiceNumber': 'Invoice Number',
+	'payments.customerLabel': 'Customer: {customer}',
+	'payments.searchInvoiceNumber': 'Search invoice number...',
+	'payments.selectInvoice': 'Select invoice',
+	'payments.paidShort': 'Paid: {amount}',
+	'payments.remainingShort': 'Remaining: {amount}',
+	'payments.amountPaidSar': 'Amount Paid (SAR)',
+	'payments.fullAmount': 'Full Amount',
+	'payments.paymentDate': 'Payment Date',
+	'payments.paymentMethod': 'Payment Method',
+	'payments.selectMethod': 'Select method',
+	'payments.reference': 'Reference / Receipt Number',
+	'payments.referencePlaceholder': 'Transfer or receipt number',
+	'payments.record': 'Record Payment',
+	'payments.totalPaid': 'Total Paid',
+	'payments.totalRemaining': 'Total Remaining',
+	'payments.partialPayments': 'Partial Payments',
+	'payments.collected': 'Collected amounts',
+	'payments.outstanding': 'Outstanding balance',
+	'payments.partiallyPaid': 'Partially paid',
+	'payments.upcoming': 'Upcoming receivables',
+	'payments.requiresFollowUp': 'Requires follow-up',
+	'payments.searchPlaceholder': 'Search for invoice...',
+	'payments.allInvoices': 'All Invoices',
+	'payments.loading': 'Loading payments...',
+	'payments.emptyTitle': 'No Payments Yet',
+	'payments.emptyDescription': 'Start tracking your payments by recording your first payment. Click the "Record New Payment" button to get started.',
+	'payments.noMatches': 'No payments found matching your search criteria.',
+	'payments.dueDate': 'Due Date',
+	'payments.collect': 'Collect ({amount})',
+	'payments.fullyPaid': 'Fully Paid',
+	'payments.method.cash': '💵 Cash',
+	'payments.method.bankTransfer': '🏦 Bank Transfer',
+	'payments.method.creditCard': '💳 Credit Card',
+	'payments.method.cheque': '📝 Cheque',
+
+	// Dashboard
+	'dashboard.title': 'Dashboard Overview',
+	'dashboard.subtitle': "Welcome back! Here's what's happening with your business today.",
+	'dashboard.loadFailed': 'Failed to load dashboard data',
+	'dashboard.activitiesFailed': 'Failed to load system activities',
+	'dashboard.stats.totalRevenue': 'Total Revenue',
+	'dashboard.stats.vsPreviousMonth': 'vs previous month revenue',
+	'dashboard.stats.activeCustomers': 'Active Customers',
+	'dashboard.stats.newThisMonth': '{count} new this month',
+	'dashboard.stats.customersActive': 'Customers marked as active',
+	'dashboard.stats.activeContracts': 'Active Contracts',
+	'dashboard.stats.contractsActive': 'Contracts with status active',
+	'dashboard.stats.campaignCtr': 'Avg Campaign CTR',
+	'dashboard.stats.clicks': '{count} clicks',
+	'dashboard.stats.impressions': '{count} impressions total',
+	'dashboard.justNow': 'Just now',
+	'dashboard.minuteAgo': '{count} min ago',
+	'dashboard.minutesAgo': '{count} mins ago',
+	'dashboard.hourAgo': '{count} hour ago',
+	'dashboard.hoursAgo': '{count} hours ago',
+	'dashboard.dayAgo': '{count} day ago',
+	'dashboard.daysAgo': '{count} days ago',
+	'dashboard.feed.paymentRecorded': 'Payment recorded',
+	'dashboard.feed.paymentReceived': 'Payment of {amount} received',
+	'dashboard.feed.paymentReceivedVia': 'Payment of {amount} received via {method}',
+	'dashboard.feed.invoiceRef': 'Invoice {id}',
+	'dashboard.feed.customerAdded': 'New customer added',
+	'dashboard.feed.contractCreated': 'Contract created',
+	'dashboard.feed.campaignStatus': 'Campaign {status}',
+	'dashboard.feed.campaignUpdated': 'Campaign updated',
+	'dashboard.feed.visitLogged': 'Visit logged',
+	'dashboard.feed.scheduledVisit': 'Scheduled visit',
+	'dashboard.feed.system': 'System',
+	'dashboard.feed.automation': 'automation',
+	'dashboard.activityType.customer': 'Customer',
+	'dashboard.activityType.lead': 'Lead',
+	'dashboard.activityType.contract': 'Contract',
+	'dashboard.activityType.visit': 'Visit',
+	'dashboard.activityType.payment': 'Payment',
+	'dashboard.activityType.quotation': 'Quotation',
+	'dashboard.activityType.invoice': 'Invoice',
+	'dashboard.activityType.reminder': 'Reminder',
+	'dashboard.activityType.system': 'System',
+	'dashboard.priority.high': 'High',
+	'dashboard.priority.medium': 'Medium',
+	'dashboard.priority.low': 'Low',
+	'dashboard.todayActivities': "Today's Activities",
+	'dashboard.activeTrend': 'Active',
+	'dashboard.systemEvents': 'system events',
+	'dashboard.revenueTitle': 'Revenue Overview',
+	'dashboard.revenueDescription': 'Monthly revenue for the last 6 months',
+	'dashboard.refreshRevenue': 'Refresh revenue data',
+	'dashboard.noRevenue': 'No revenue data available',
+	'dashboard.revenue': 'Revenue',
+	'dashboard.byTypeTitle': 'Activity by Type',
+	'dashboard.byTypeDescription': 'Distribution of activities today',
+	'dashboard.noActivitiesToday': 'No activities today',
+	'dashboard.pendingTitle': "Today's Pending Reminders",
+	'dashboard.pendingDescription': 'Tasks scheduled for today',
+	'dashboard.noPending': 'No pending reminders for today',
+	'dashboard.completedTitle': 'Completed Today',
+	'dashboard.completedDescription': 'Tasks completed today',
+	'dashboard.completedAt': 'Completed {time}',
+	'dashboard.customerName': 'Customer: {name}',
+	'dashboard.noCompleted': 'No tasks completed yet today',
+	'dashboard.upcomingTitle': 'Upcoming Reminders',
+	'dashboard.upcomingDescription': 'Next scheduled tasks',
+	'dashboard.logTitle': 'System Activity Log',
+	'dashboard.logDescription': 'Recent system activities',
+	'dashboard.refreshActivities': 'Refresh activities',
+	'dashboard.noRecords': 'No activity records available',
+	'dashboard.visitsTitle': 'Weekly Visits',
+	'dashboard.visitsDescription': 'Number of customer visits this week',
+	'dashboard.noVisits': 'No visit data available',
+	'dashboard.visits': 'Visits',
+	'dashboard.recentTitle': 'Recent Activities',
+	'dashboard.recentDescription': 'Latest system activities',
+	'dashboard.todayCount': '{count} Today',
+	'dashboard.noActivities': 'No system activities recorded yet',
+	'dashboard.amount': 'Amount: {amount}',
+	'dashboard.statusLabel': 'Status:',
+	'dashboard.changedFrom': 'Changed from',
+	'dashboard.changedTo': 'to',
+
+	// Customer statements
+	'statement.title': 'Customer Statements',
+	'statement.subtitle': 'Generate detailed account statements for payment collection',
+	'statement.unknownCustomer': 'Unknown Customer',
+	'statement.invoiceIssued': 'Invoice issued',
+	'statement.paidOnInvoice': 'Paid on invoice',
+	'statement.paymentVia': 'Payment via {method}',
+	'statement.onInvoice': 'On {reference}',
+	'statement.generatingPdf': 'Generating PDF...',
+	'statement.downloaded': 'Statement downloaded',
+	'statement.pdfFailed': 'Failed to generate the PDF',
+	'statement.downloadPdf': 'Download PDF',
+	'statement.print': 'Print Statement',
+	'statement.generateTitle': 'Generate Statement',
+	'statement.generateDescription': 'Select customer and date range to generate collection statement',
+	'statement.searchPlaceholder': 'Search by name, phone, contract #, account #',
+	'statement.selectCustomer': 'Select customer',
+	'statement.noCustomers': 'No customers found',
+	'statement.fromDate': 'From Date',
+	'statement.toDate': 'To Date',
+	'statement.totalInvoiced': 'Total Invoiced',
+	'statement.invoicesIssued': '{count} invoices issued',
+	'statement.totalPayments': 'Total Payments',
+	'statement.paymentsReceived': '{count} payments received',
+	'statement.openingBalance': 'Opening Balance',
+	'statement.periodStart': 'Period start: {date}',
+	'statement.outstandingBalance': 'Outstanding Balance',
+	'statement.amountDue': 'Amount due for collection',
+	'statement.fullyPaid': 'Account fully paid',
+	'statement.agingTitle': 'Balance Aging',
+	'statement.agingDescription': 'Unpaid invoices by days past due date, as of {date}',
+	'statement.totalDue': 'Total Due',
+	'statement.historyTitle': 'Transaction History',
+	'statement.showingOne': 'Showing {count} transaction for {name} ({from} - {to})',
+	'statement.showing': 'Showing {count} transactions for {name} ({from} - {to})',
+	'statement.selectToView': 'Select a customer to view transactions',
+	'statement.reference': 'Reference',
+	'statement.type': 'Type',
+	'statement.details': 'Details',
+	'statement.invoiced': 'Invoiced',
+	'statement.paid': 'Paid',
+	'statement.balance': 'Balance',
+	'statement.openingBroughtForward': 'Opening balance brought forward',
+	'statement.noTransactionsInRange': 'No transactions found for {name} in the selected date range ({from} - {to}).',
+	'statement.noTransactions': 'No transactions found for this customer.',
+
+	// Expenses
+	'expenses.title': 'Expenses Management',
+	'expenses.subtitle': 'Track and manage purchase expenses',
+	'expenses.syncing': 'Syncing latest data...',
+	'expenses.category.officeSupplies': 'Office Supplies',
+	'expenses.category.transportation': 'Transportation',
+	'expenses.category.utilities': 'Utilities',
+	'expenses.category.marketing': 'Marketing',
+	'expenses.category.maintenance': 'Maintenance',
+	'expenses.category.salaries': 'Salaries',
+	'expenses.category.rent': 'Rent',
+	'expenses.category.other': 'Other',
+	'expenses.method.cash': 'Cash',
+	'expenses.method.creditCard': 'Credit Card',
+	'expenses.method.bankTransfer': 'Bank Transfer',
+	'expenses.method.check': 'Check',
+	'expenses.remainingBalance': 'Remaining Balance',
+	'expenses.alreadyPaid': 'Already Paid',
+	'expenses.paidExceedsTotal': 'Paid amount cannot exceed total amount of {total}',
+	'expenses.paymentExceedsBalanceOf': 'Payment amount cannot exceed remaining balance of {balance}',
+	'expenses.categoryNameRequired': 'Please enter category name',
+	'expenses.categoryExists': 'Category already exists',
+	'expenses.categoryAdded': 'Category added successfully!',
+	'expenses.requiredFields': 'Please fill all required fields',
+	'expenses.paidAmountExceedsTotal': 'Paid amount ({paid}) cannot exceed total amount ({total})',
+	'expenses.updated': 'Expense updated successfully!',
+	'expenses.added': 'Expense added successfully!',
+	'expenses.saveFailed': 'Failed to save expense',
+	'expenses.confirmDelete': 'Are you sure you want to delete this expense?',
+	'expenses.deleted': 'Expense deleted successfully!',
+	'expenses.deleteFailed': 'Failed to delete expense',
+	'expenses.paymentRequired': 'Please select expense and enter payment amount',
+	'expenses.referenceRequired': 'Reference number is required',
+	'expenses.notFound': 'Selected expense not found',
+	'expenses.alreadyFullyPaid': 'This expense is already fully paid',
+	'expenses.paymentExceedsBalance': 'Payment amount cannot exceed remaining balance',
+	'expenses.paymentRecorded': 'Payment recorded successfully!',
+	'expenses.paymentFailed': 'Failed to record payment',
+	'expenses.addCategory': 'Add Category',
+	'expenses.newCategoryTitle': 'Add New Category',
+	'expenses.newCategoryDescription': 'Create a custom expense category',
+	'expenses.categoryName': 'Category Name',
+	'expenses.categoryNamePlaceholder': 'Enter category name',
+	'expenses.addPayment': 'Add Payment',
+	'expenses.totalExpenses': 'Total Expenses',
+	'expenses.fullyPaidExpenses': 'Fully paid expenses',
+	'expenses.outstanding': 'Outstanding',
+	'expenses.awaitingPayment': 'Awaiting payment',
+	'expenses.thisMonth': 'This Month',
+	'expenses.transactionsRecorded': 'Transactions recorded',
+	'expenses.tab.expenses': 'Expenses',
+	'expenses.tab.payments': 'Expense Payments',
+	'expenses.records': 'Expense Records',
+	'expenses.category': 'Category',
+	'expenses.allCategories': 'All Categories',
+	'expenses.searchPlaceholder': 'Search expenses...',
+	'expenses.number': 'Expense #',
+	'expenses.description': 'Description',
+	'expenses.paidTo': 'Paid To',
+	'expenses.baseAmount': 'Base Amount',
+	'expenses.tax': 'Tax',
+	'expenses.paid': 'Paid',
+	'expenses.remaining': 'Remaining',
+	'expenses.empty': 'No expenses found',
+	'expenses.recordPayment': 'Record Payment',
+	'expenses.edit': 'Edit Expense',
+	'expenses.delete': 'Delete Expense',
+	'expenses.viewReceipt': 'View Receipt',
+	'expenses.downloadReceipt': 'Download Receipt',
+	'expenses.paymentsDescription': 'Reference log for recorded expense payments',
+	'expenses.paymentDate': 'Payment Date',
+	'expenses.expense': 'Expense',
+	'expenses.vendor': 'Vendor',
+	'expenses.amount': 'Amount',
+	'expenses.method': 'Method',
+	'expenses.reference': 'Reference',
+	'expenses.noPayments': 'No payments recorded yet',
+	'expenses.unknownExpense': 'Unknown Expense',
+	'expenses.newTitle': 'Add New Expense',
+	'expenses.newDescription': 'Enter expense details',
+	'expenses.dateRequired': 'Date *',
+	'expenses.categoryRequired': 'Category *',
+	'expenses.selectCategory': 'Select category',
+	'expenses.descriptionRequired': 'Description *',
+	'expenses.descriptionPlaceholder': 'Enter expense description',
+	'expenses.amountDetails': 'Amount Details',
+	'expenses.baseAmountSar': 'Base Amount (SAR) *',
+	'expenses.taxRate': 'Tax Rate (%)',
+	'expenses.taxAmountSar': 'Tax Amount (SAR)',
+	'expenses.totalAmountSar': 'Total Amount (SAR)',
+	'expenses.paidAmountSar': 'Paid Amount (SAR)',
+	'expenses.remainingAmountSar': 'Remaining Amount (SAR)',
+	'expenses.paymentMethodRequired': 'Payment Method *',
+	'expenses.selectMethod': 'Select method',
+	'expenses.paidToRequired': 'Paid To *',
+	'expenses.paidToPlaceholder': 'Vendor/Company name',
+	'expenses.receiptNumber': 'Receipt Number',
+	'expenses.notesPlaceholder': 'Additional notes',
+	'expenses.saving': 'Saving...',
+	'expenses.update': 'Update Expense',
+	'expenses.add': 'Add Expense',
+	'expenses.paymentTitle': 'Record Expense Payment',
+	'expenses.paymentDialogDescription': 'Record a payment against an expense (reference only, suppliers are unaffected)',
+	'expenses.expenseRequired': 'Expense *',
+	'expenses.selectExpense': 'Select expense',
+	'expenses.remainingAmount': '{amount} remaining',
+	'expenses.amountSarRequired': 'Amount (SAR) *',
+	'expenses.full': 'Full',
+	'expenses.paymentDateRequired': 'Payment Date *',
+	'expenses.methodRequired': 'Method *',
+	'expenses.referenceRequiredLabel': 'Reference *',
+	'expenses.referencePlaceholder': 'TRX-0001 or CHE-1234',
+	'expenses.paymentNotesPlaceholder': 'Payment details...',
+	'expenses.recording': 'Recording...',
+	'expenses.receiptTitle': 'Expense Receipt',
+	'expenses.receiptDescription': 'Detailed expense information',
+	'expenses.paymentMethod': 'Payment Method',
+	'expenses.taxAmount': 'Tax Amount',
+
+	// Purchases
+	'purchases.title': 'Purchases Management',
+	'purchases.subtitle': 'Track and manage all purchase orders and inventory',
+	'purchases.export': 'Export',
+	'purchases.exportExcel': 'Export as Excel',
+	'purchases.exportPdf': 'Export as PDF',
+	'purchases.nothingToExport': 'No data to export. Try adjusting your filters.',
+	'purchases.pdfReady': 'PDF export ready for printing',
+	'purchases.printWindowFailed': 'Failed to open print window',
+	'purchases.pdfFailed': 'Failed to export PDF',
+	'purchases.singlePdfReady': 'Purchase {number} PDF ready for printing',
+	'purchases.singleExported': 'Purchase {number} exported successfully',
+	'purchases.singleExportFailed': 'Failed to export purchase',
+	'purchases.report.title': 'Purchases Report',
+	'purchases.report.orderTitle': 'Purchase Order',
+	'purchases.report.date': 'Date:',
+	'purchases.report.totalRecords': 'Total Records:',
+	'purchases.report.itemsCount': 'Items Count',
+	'purchases.report.grandTotal': 'Grand Total',
+	'purchases.category.scentProducts': 'Scent Products',
+	'purchases.category.equipment': 'Equipment',
+	'purchases.category.officeSupplies': 'Office Supplies',
+	'purchases.category.packaging': 'Packaging',
+	'purchases.category.maintenance': 'Maintenance',
+	'purchases.category.other': 'Other',
+	'purchases.delivery.inTransit': 'In Transit',
+	'purchases.delivery.delivered': 'Delivered',
+	'purchases.method.cash': 'Cash',
+	'purchases.method.creditCard': 'Credit Card',
+	'purchases.method.bankTransfer': 'Bank Transfer',
+	'purchases.method.check': 'Check',
+	'purchases.unnamedSupplier': 'Unnamed Supplier',
+	'purchases.unknownSupplier': 'Unknown Supplier',
+	'purchases.addCategory': 'Add Category',
+	'purchases.newCategoryTitle': 'Add New Category',
+	'purchases.newCategoryDescription': 'Create a custom purchase category',
+	'purchases.categoryName': 'Category Name',
+	'purchases.categoryNamePlaceholder': 'Enter category name',
+	'purchases.categoryNameRequired': 'Please enter category name',
+	'purchases.categoryExists': 'Category already exists',
+	'purchases.categoryAdded': 'Category added successfully!',
+	'purchases.supplierAdded': 'Supplier added successfully',
+	'purchases.supplierAddFailed': 'Failed to add supplier',
+	'purchases.requiredFields': 'Please fill all required fields',
+	'purchases.created': 'Purchase order created successfully!',
+	'purchases.createFailed': 'Failed to create purchase order',
+	'purchases.received': '{number} received into stock',
+	'purchases.unresolvedItems': 'Items not matching any inventory product or raw material were not stocked: {count}',
+	'purchases.receiveFailed': 'Failed to receive purchase order',
+	'purchases.new': 'New Purchase Order',
+	'purchases.createTitle': 'Create Purchase Order',
+	'purchases.createDescription': 'Enter purchase order details and items',
+	'purchases.dateRequired': 'Date *',
+	'purchases.supplier': 'Supplier',
+	'purchases.supplierSearchPlaceholder': 'Search supplier by name or mobile...',
+	'purchases.loadingSuppliers': 'Loading suppliers...',
+	'purchases.suppliersFailed': 'Failed to load suppliers: {error}',
+	'purchases.supplierCredit': 'Supplier Balance (credit)',
+	'purchases.amountDueToSupplier': 'Amount Due to Supplier',
+	'purchases.balanceSettled': 'Balance is currently settled',
+	'purchases.category': 'Category',
+	'purchases.categoryRequired': 'Category *',
+	'purchases.selectCategory': 'Select category',
+	'purchases.items': 'Items',
+	'purchases.itemsRequired': 'Items *',
+	'purchases.addItem': 'Add Item',
+	'purchases.itemName': 'Item Name',
+	'purchases.itemPlaceholder': 'Item description',
+	'purchases.quantity': 'Quantity',
+	'purchases.unitPrice': 'Unit Price',
+	'purchases.unitPriceSar': 'Unit Price (SAR)',
+	'purchases.totalSar': 'Total (SAR)',
+	'purchases.subtotal': 'Subtotal',
+	'purchases.tax': 'Tax',
+	'purchases.taxRate': 'Tax ({rate}%)',
+	'purchases.taxAmount': 'Tax Amount',
+	'purchases.totalAmount': 'Total Amount',
+	'purchases.totalAmountSar': 'Total Amount (SAR)',
+	'purchases.paidAmount': 'Paid Amount',
+	'purchases.paidAmountSar': 'Paid Amount (SAR)',
+	'purchases.remainingAmount': 'Remaining Amount',
+	'purchases.remainingAmountSar': 'Remaining Amount (SAR)',
+	'purchases.useSupplierBalance': 'Use Supplier Balance',
+	'purchases.projectedBalance': 'Projected balance after order',
+	'purchases.balanceDue': '(due)',
+	'purchases.balanceCredit': '(credit)',
+	'purchases.balanceSettledShort': '(settled)',
+	'purchases.noCredit': 'No supplier credit available to apply.',
+	'purchases.fullAmount': 'Full Amount',
+	'purchases.paymentMethod': 'Payment Method',
+	'purchases.selectMethod': 'Select method',
+	'purchases.invoiceNumber': 'Invoice Number',
+	'purchases.notesPlaceholder': 'Additional notes',
+	'purchases.totalPurchases': 'Total Purchases',
+	'purchases.allTime': 'All time',
+	'purchases.paid': 'Paid',
+	'purchases.completedPayments': 'Completed payments',
+	'purchases.pendingPayments': 'Pending payments',
+	'purchases.orders': 'Purchase Orders',
+	'purchases.allCategories': 'All Categories',
+	'purchases.searchPlaceholder': 'Search purchases...',
+	'purchases.loading': 'Loading purchase orders...',
+	'purchases.empty': 'No purchases found. Create your first purchase order!',
+	'purchases.number': 'Purchase #',
+	'purchases.remaining': 'Remaining',
+	'purchases.payment': 'Payment',
+	'purchases.delivery': 'Delivery',
+	'purchases.itemCount': '{count} items',
+	'purchases.markReceived': 'Mark as Received',
+	'purchases.detailsTitle': 'Purchase Order Details - {number}',
+	'purchases.detailsDescription': 'Complete purchase order information',
+	'purchases.orderInformation': 'Order Information',
+	'purchases.purchaseNumber': 'Purchase Number',
+	'purchases.returnedQty': 'Returned Qty',
+	'purchases.returnedTotal': 'Returned Total',
+	'purchases.statusInformation': 'Status Information',
+	'purchases.paymentStatus': 'Payment Status',
+	'purchases.deliveryStatus': 'Delivery Status',
+	'purchases.deliveryDate': 'Delivery Date',
+
+	// VAT and Zakat
+	'vat.title': 'VAT & Zakat Management',
+	'vat.subtitle': 'Manage Value Added Tax (15%) and Zakat (2.5%) calculations and submissions',
+	'vat.quarter.q1': 'Q1',
+	'vat.quarter.q2': 'Q2',
+	'vat.quarter.q3': 'Q3',
+	'vat.quarter.q4': 'Q4',
+	'vat.quarterRange.q1': 'Q1 (Jan - Mar)',
+	'vat.quarterRange.q2': 'Q2 (Apr - Jun)',
+	'vat.quarterRange.q3': 'Q3 (Jul - Sep)',
+	'vat.quarterRange.q4': 'Q4 (Oct - Dec)',
+	'vat.period': '{quarter} {year}',
+	'vat.year': 'Year {year}',
+	'vat.source.invoice': 'Invoice',
+	'vat.source.purchase': 'Purchase Order',
+	'vat.source.expense': 'Expense',
+	'vat.source.return': 'Return',
+	'vat.source.creditNote': 'Credit Note',
+	'vat.source.debitNote': 'Debit Note',
+	'vat.submitted': 'Submitted',
+	'vat.loadFailed': 'Failed to load VAT records',
+	'vat.zakatLoadFailed': 'Failed to load Zakat records',
+	'vat.computeFailed': 'Failed to calculate VAT from documents',
+	'vat.recalculated': 'VAT return recalculated from source documents',
+	'vat.recalculateFailed': 'Failed to recalculate VAT record',
+	'vat.invalidYear': 'Year must be a valid number',
+	'vat.stillCalculating': 'Still calculating VAT for this quarter',
+	'vat.notCalculated': 'VAT for this quarter could not be calculated',
+	'vat.updated': 'VAT record updated successfully',
+	'vat.updateFailed': 'Failed to update VAT record',
+	'vat.added': 'VAT record added successfully',
+	'vat.createFailed': 'Failed to create VAT record',
+	'vat.requiredFields': 'Please fill in all required fields',
+	'vat.zakatUpdated': 'Zakat record updated successfully',
+	'vat.zakatUpdateFailed': 'Failed to update Zakat record',
+	'vat.zakatAdded': 'Zakat record added successfully',
+	'vat.zakatCreateFailed': 'Failed to create Zakat record',
+	'vat.notFound': 'VAT record not found',
+	'vat.deleteConfirm': 'Delete VAT record for {period}?',
+	'vat.deleted': 'VAT record deleted successfully',
+	'vat.deleteFailed': 'Failed to delete VAT record',
+	'vat.zakatNotFound': 'Zakat record not found',
+	'vat.zakatDeleteConfirm': 'Delete Zakat record for {year}?',
+	'vat.zakatDeleted': 'Zakat record deleted successfully',
+	'vat.zakatDeleteFailed': 'Failed to delete Zakat record',
+	'vat.statusUpdated': 'Status updated successfully',
+	'vat.statusUpdateFailed': 'Failed to update status',
+	'vat.addZakat': 'Add Zakat',
+	'vat.new': 'New VAT Record',
+	'vat.totalCollected': 'Total VAT Collected',
+	'vat.netPayable': 'Net VAT Payable',
+	'vat.afterInputVat': 'After input VAT: {amount}',
+	'vat.pending': 'Pending VAT',
+	'vat.paidAmount': 'Paid: {amount}',
+	'vat.zakatDue': 'Zakat Due',
+	'vat.zakatYearRate': 'Year {year} @ 2.5%',
+	'vat.tabReturns': 'VAT Returns',
+	'vat.tabZakat': 'Zakat',
+	'vat.calculator': 'VAT Calculator',
+	'vat.returnsTitle': 'Quarterly VAT Returns',
+	'vat.returnsDescription': 'Value Added Tax (15%) quarterly submissions',
+	'vat.periodHeading': 'Period',
+	'vat.salesIncVat': 'Sales (Inc VAT)',
+	'vat.vatOnSales': 'VAT on Sales',
+	'vat.inputVat': 'Input VAT',
+	'vat.loading': 'Loading VAT records...',
+	'vat.empty': 'No VAT records found',
+	'vat.excludingShort': 'Exc: {amount}',
+	'vat.outOfDate': 'Return out of date',
+	'vat.submit': 'Submit',
+	'vat.markPaid': 'Mark Paid',
+	'vat.zakatRecords': 'Zakat Records',
+	'vat.zakatDescription': 'Annual Zakat (2.5%) on net assets',
+	'vat.yearHeading': 'Year',
+	'vat.totalAssets': 'Total Assets',
+	'vat.liabilities': 'Liabilities',
+	'vat.netAssets': 'Net Assets',
+	'vat.zakatDueRate': 'Zakat Due (2.5%)',
+	'vat.zakatLoading': 'Loading Zakat records...',
+	'vat.zakatEmpty': 'No Zakat records found',
+	'vat.calculatorDescription': 'Calculate VAT from amount including tax',
+	'vat.amountIncVat': 'Amount Including VAT (SAR)',
+	'vat.amountExcVat': 'Amount Excluding VAT:',
+	'vat.vatAmountRate': 'VAT Amount (15%):',
+	'vat.formula': 'Formula:',
+	'vat.vatFormula': 'VAT = Amount Inc VAT × (0.15 / 1.15)',
+	'vat.zakatCalculator': 'Zakat Calculator',
+	'vat.zakatCalculatorDescription': 'Calculate Zakat on net assets (2.5%)',
+	'vat.totalAssetsSar': 'Total Assets (SAR)',
+	'vat.totalLiabilitiesSar': 'Total Liabilities (SAR)',
+	'vat.netAssetsLabel': 'Net Assets:',
+	'vat.zakatDueLabel': 'Zakat Due (2.5%):',
+	'vat.zakatFormula': 'Zakat = Net Assets × 2.5%',
+	'vat.editTitle': 'Edit VAT Record',
+	'vat.addTitle': 'Add VAT Record',
+	'vat.editDescription': 'Update the quarterly VAT return values.',
+	'vat.addDescription': "Add a new quarterly VAT return. Amounts are calculated from the quarter's documents.",
+	'vat.quarterRequired': 'Quarter *',
+	'vat.yearRequired': 'Year *',
+	'vat.totalSalesIncVat': 'Total Sales (Including VAT)',
+	'vat.calculating': 'Calculating...',
+	'vat.salesFrom': 'From {count} invoice(s) dated in the quarter',
+	'vat.salesHint': 'Calculated from invoices dated in the selected quarter',
+	'vat.totalPurchasesIncVat': 'Total Purchases (Including VAT)',
+	'vat.purchasesFrom': 'From {count} purchase order(s), expense(s) and return(s)',
+	'vat.purchasesHint': 'Calculated from purchase orders, expenses and completed returns',
+	'vat.preview': 'Calculation Preview:',
+	'vat.vatOnSalesLabel': 'VAT on Sales:',
+	'vat.inputVatLabel': 'Input VAT:',
+	'vat.netPayableLabel': 'Net VAT Payable:',
+	'vat.totalAssetsLabel': 'Total Assets:',
+	'vat.totalLiabilitiesLabel': 'Total Liabilities:',
+	'vat.notesPlaceholder': 'Additional notes...',
+	'vat.zakatEditTitle': 'Edit Zakat Record',
+	'vat.zakatAddTitle': 'Add Zakat Record',
+	'vat.zakatEditDescription': 'Update the annual Zakat calculation (2.5% on net assets).',
+	'vat.zakatAddDescription': 'Add annual Zakat calculation (2.5% on net assets)',
+	'vat.totalAssetsRequired': 'Total Assets (SAR) *',
+	'vat.totalLiabilitiesRequired': 'Total Liabilities (SAR) *',
+	'vat.detailsTitle': 'VAT Return Details',
+	'vat.detailsDescription': '{period} - {start} to {end}',
+	'vat.sales': 'Sales',
+	'vat.purchases': 'Purchases',
+	'vat.includingVat': 'Including VAT:',
+	'vat.excludingVat': 'Excluding VAT:',
+	'vat.vatRateLabel': 'VAT (15%):',
+	'vat.inputVatRateLabel': 'Input VAT (15%):',
+	'vat.netFormula': 'VAT on Sales ({sales}) - Input VAT ({input})',
+	'vat.documentsChanged': 'Documents in this period changed after the return was calculated.',
+	'vat.recalculate': 'Recalculate',
+	'vat.sourceDocuments': 'Source Documents ({count})',
+	'vat.type': 'Type',
+	'vat.reference': 'Reference',
+	'vat.net': 'Net',
+	'vat.vat': 'VAT',
+	'vat.calculatedAt': 'Calculated {date}',
+	'vat.submissionDate': 'Submission Date',
+	'vat.paymentDate': 'Payment Date',
+	'vat.downloadReport': 'Download Report',
+	'vat.zakatDetails': 'Zakat Details',
+
+	// Manufacturing
+	'manufacturing.title': 'Manufacturing',
+	'manufacturing.subtitle': 'Manage production and costing',
+	'manufacturing.syncing': 'Syncing latest data...',
+	'manufacturing.status.inProgress': 'In Progress',
+	'manufacturing.status.completed': 'Completed',
+	'manufacturing.unit.ml': 'ml',
+	'manufacturing.unit.liter': 'Liter',
+	'manufacturing.unit.gram': 'Gram',
+	'manufacturing.unit.kg': 'Kg',
+	'manufacturing.unit.piece': 'Piece',
+	'manufacturing.unit.set': 'Set',
+	'manufacturing.materialsError': 'Materials: {error}',
+	'manufacturing.recipesError': 'Recipes: {error}',
+	'manufacturing.ordersError': 'Orders: {error}',
+	'manufacturing.requiredFields': 'Please fill in all required fields',
+	'manufacturing.materialUpdated': 'Raw material updated successfully!',
+	'manufacturing.materialAdded': 'Raw material added successfully!',
+	'manufacturing.materialSaveFailed': 'Failed to save raw material',
+	'manufacturing.materialDeleteConfirm': 'Are you sure you want to delete this raw material?',
+	'manufacturing.materialDeleted': 'Raw material deleted successfully!',
+	'manufacturing.materialDeleteFailed': 'Failed to delete raw material',
+	'manufacturing.selectMaterialAndQuantity': 'Please select material and enter quantity',
+	'manufacturing.materialNotFound': 'Selected material not found',
+	'manufacturing.quantityPositive': 'Quantity must be greater than zero',
+	'manufacturing.itemAdded': 'Item added to recipe!',
+	'manufacturing.recipeRequired': 'Please fill in product details and add at least one material',
+	'manufacturing.outputPositive': 'Output quantity must be greater than zero',
+	'manufacturing.recipeUpdated': 'Manufacturing recipe updated successfully!',
+	'manufacturing.recipeCreated': 'Manufacturing recipe created successfully!',
+	'manufacturing.recipeSaveFailed': 'Failed to save recipe',
+	'manufacturing.recipeDeleteConfirm': 'Are you sure you want to delete this manufacturing recipe?',
+	'manufacturing.recipeDeleted': 'Recipe deleted successfully!',
+	'manufacturing.recipeDeleteFailed': 'Failed to delete recipe',
+	'manufacturing.selectRecipeAndBatch': 'Please select recipe and enter batch size',
+	'manufacturing.recipeNotFound': 'Unable to find selected recipe',
+	'manufacturing.batchPositive': 'Batch size must be greater than zero',
+	'manufacturing.orderUpdated': 'Manufacturing order updated successfully!',
+	'manufacturing.orderCreated': 'Manufacturing order created successfully!',
+	'manufacturing.orderSaveFailed': 'Failed to save manufacturing order',
+	'manufacturing.orderDeleteConfirm': 'Are you sure you want to delete this manufacturing order?',
+	'manufacturing.orderDeleted': 'Manufacturing order deleted successfully!',
+	'manufacturing.orderDeleteFailed': 'Failed to delete manufacturing order',
+	'manufacturing.orderRecipeMissing': 'The recipe for this order no longer exists',
+	'manufacturing.noInventoryProduct': 'No inventory product named "{name}" - finished goods were not added to stock',
+	'manufacturing.costAboveStandard': 'Actual cost exceeds standard by {amount}',
+	'manufacturing.costBelowStandard': 'Actual cost is below standard by {amount}',
+	'manufacturing.statusUpdated': 'Order status updated to {status}!',
+	'manufacturing.statusUpdateFailed': 'Failed to update order status',
+	'manufacturing.totalMaterialsValue': 'Total Materials Value',
+	'manufacturing.rawMaterialsInventory': 'Raw materials inventory',
+	'manufacturing.lowStockItems': 'Low Stock Items',
+	'manufacturing.needReordering': 'Need reordering',
+	'manufacturing.pendingOrders': 'Pending Orders',
+	'manufacturing.awaitingProduction': 'Awaiting production',
+	'manufacturing.completedOrders': 'Completed Orders',
+	'manufacturing.thisMonth': 'This month',
+	'manufacturing.tabOrders': 'Manufacturing Orders',
+	'manufacturing.tabRecipes': 'Recipes (BOM)',
+	'manufacturing.tabMaterials': 'Raw Materials',
+	'manufacturing.searchOrders': 'Search orders...',
+	'manufacturing.filterByStatus': 'Filter by status',
+	'manufacturing.newOrder': 'New Order',
+	'manufacturing.orderNumber': 'Order #',
+	'manufacturing.product': 'Product',
+	'manufacturing.batchSize': 'Batch Size',
+	'manufacturing.totalCost': 'Total Cost',
+	'manufacturing.startDate': 'Start Date',
+	'manufacturing.noOrders': 'No manufacturing orders found',
+	'manufacturing.unitsCount': '{count} units',
+	'manufacturing.actualCost': 'Actual {amount}',
+	'manufacturing.shortageOverride': 'shortage override',
+	'manufacturing.actualCostHint': 'Actual cost at completion vs recipe standard cost',
+	'manufacturing.startProduction': 'Start Production',
+	'manufacturing.markCompleted': 'Mark as Completed',
+	'manufacturing.cancelOrder': 'Cancel Order',
+	'manufacturing.editOrder': 'Edit Order',
+	'manufacturing.deleteOrder': 'Delete Order',
+	'manufacturing.searchRecipes': 'Search recipes...',
+	'manufacturing.newRecipe': 'New Recipe',
+	'manufacturing.sku': 'SKU',
+	'manufacturing.output': 'Output',
+	'manufacturing.materialCost': 'Material Cost',
+	'manufacturing.costPerUnit': 'Cost/Unit',
+	'manufacturing.noRecipes': 'No recipes found',
+	'manufacturing.viewDetails': 'View Details',
+	'manufacturing.searchMaterials': 'Search materials...',
+	'manufacturing.addMaterial': 'Add Material',
+	'manufacturing.material': 'Material',
+	'manufacturing.category': 'Category',
+	'manufacturing.currentStock': 'Current Stock',
+	'manufacturing.minStock': 'Min Stock',
+	'manufacturing.totalValue': 'Total Value',
+	'manufacturing.noMaterials': 'No materials found',
+	'manufacturing.editMaterial': 'Edit Material',
+	'manufacturing.deleteMaterial': 'Delete Material',
+	'manufacturing.materialDialogTitle': 'Add Raw Material',
+	'manufacturing.materialDialogDescription': 'Add a new raw material to inventory',
+	'manufacturing.nameEnRequired': 'Name (English) *',
+	'manufacturing.nameAr': 'Name (Arabic)',
+	'manufacturing.skuRequired': 'SKU *',
+	'manufacturing.categoryPlaceholder': 'e.g., Fragrance Oils',
+	'manufacturing.unit': 'Unit',
+	'manufacturing.costPerUnitRequired': 'Cost/Unit (SAR) *',
+	'manufacturing.minimumStock': 'Minimum Stock',
+	'manufacturing.updateMaterial': 'Update Material',
+	'manufacturing.saveMaterial': 'Save Material',
+	'manufacturing.recipeDialogTitle': 'Create Manufacturing Recipe (BOM)',
+	'manufacturing.recipeDialogDescription': 'Define how to manufacture a product',
+	'manufacturing.productInformation': 'Product Information',
+	'manufacturing.productNameEnRequired': 'Product Name (English) *',
+	'manufacturing.productNameAr': 'Product Name (Arabic)',
+	'manufacturing.productSkuRequired': 'Product SKU *',
+	'manufacturing.outputQuantity': 'Output Quantity',
+	'manufacturing.outputUnit': 'Output Unit',
+	'manufacturing.materialsBom': 'Materials (Bill of Materials)',
+	'manufacturing.selectMaterial': 'Select material',
+	'manufacturing.quantity': 'Quantity',
+	'manufacturing.additionalCosts': 'Additional Costs',
+	'manufacturing.laborCostSar': 'Labor Cost (SAR)',
+	'manufacturing.overheadCostSar': 'Overhead Cost (SAR)',
+	'manufacturing.costSummary': 'Cost Summary',
+	'manufacturing.materialCostLabel': 'Material Cost:',
+	'manufacturing.laborCostLabel': 'Labor Cost:',
+	'manufacturing.overheadCostLabel': 'Overhead Cost:',
+	'manufacturing.totalCostLabel': 'Total Cost:',
+	'manufacturing.costPerUnitLabel': 'Cost per Unit:',
+	'manufacturing.notesPlaceholder': 'Additional notes...',
+	'manufacturing.updateRecipe': 'Update Recipe',
+	'manufacturing.saveRecipe': 'Save Recipe',
+	'manufacturing.recipeDetails': 'Recipe Details',
+	'manufacturing.recipeDetailsDescription': 'View complete recipe information and cost breakdown',
+	'manufacturing.productName': 'Product Name',
+	'manufacturing.bom': 'Bill of Materials',
+	'manufacturing.costBreakdown': 'Cost Breakdown',
+	'manufacturing.orderDialogTitle': 'Create Manufacturing Order',
+	'manufacturing.orderDialogDescription': 'Start a new production batch',
+	'manufacturing.selectRecipeRequired': 'Select Recipe *',
+	'manufacturing.chooseRecipe': 'Choose a recipe',
+	'manufacturing.recipeOption': '{name} - {cost}/unit',
+	'manufacturing.batchSizeRequired': 'Batch Size (units) *',
+	'manufacturing.estimatedCost': 'Estimated Cost',
+	'manufacturing.forUnits': 'for {count} units',
+	'manufacturing.createdBy': 'Created By',
+	'manufacturing.createdByPlaceholder': 'Your name',
+	'manufacturing.updateOrder': 'Update Order',
+	'manufacturing.createOrder': 'Create Order',
+	'manufacturing.shortageTitle': 'Not enough raw materials',
+	'manufacturing.shortageDescription': '{number} needs more stock than is on hand. Purchase the missing materials, or complete the order anyway with a reason.',
+	'manufacturing.required': 'Required',
+	'manufacturing.onHand': 'On Hand',
+	'manufacturing.toPurchase': 'To Purchase',
+	'manufacturing.estCost': 'Est. Cost',
+	'manufacturing.overrideReason': 'Override reason',
+	'manufacturing.overrideReasonPlaceholder': 'e.g. materials received but not yet entered',
+	'manufacturing.exportPurchaseList': 'Export Purchase List',
+	'manufacturing.completeAnyway': 'Complete Anyway',
+
+	// Settings
+	'settings.subtitle': 'Manage system settings, users, and permissions',
+	'settings.tab.branding': 'Branding',
+	'settings.tab.company': 'Company',
+	'settings.tab.users': 'Users',
+	'settings.tab.roles': 'Roles',
+	'settings.tab.system': 'System',
+	'settings.tab.backup': 'Backup',
+	'settings.saving': 'Saving...',
+	'settings.superAdminRoleFailed': 'Unable to ensure a super admin role',
+	'settings.superuserReset': 'Default superuser credentials reset ({email}).',
+	'settings.superuserCreated': 'Default superuser created ({email}). Remember to change the password after first login.',
+	'settings.superuserFailed': 'Failed to ensure default superuser',
+	'settings.brandingLoadFailed': 'Failed to load branding settings',
+	'settings.systemLoadFailed': 'Failed to load system settings',
+	'settings.notAuthenticated': 'User not authenticated',
+	'settings.brandingRecordFailed': 'Failed to create branding record',
+	'settings.brandingRecordFailedWithReason': 'Failed to create branding record: {error}',
+	'settings.logoUploadFailed': 'Failed to upload logo',
+	'settings.logoSaved': 'Logo uploaded and saved successfully',
+	'settings.logoUploaded': 'Logo uploaded successfully',
+	'settings.logoUrlDelayed': 'Logo uploaded successfully, but URL retrieval is delayed. Please refresh the page.',
+	'settings.stampUploadFailed': 'Failed to upload stamp',
+	'settings.stampUploaded': 'Stamp uploaded successfully',
+	'settings.logoDeleted': 'Logo deleted successfully',
+	'settings.logoDeleteFailed': 'Failed to delete logo',
+	'settings.stampDeleted': 'Stamp deleted successfully',
+	'settings.stampDeleteFailed': 'Failed to delete stamp',
+	'settings.brandingSaveFailed': 'Failed to save branding settings',
+	'settings.brandingSaved': 'System branding saved successfully',
+	'settings.companySaved': 'Company settings saved successfully',
+	'settings.systemSaved': 'System settings saved successfully',
+	'settings.systemSaveFailed': 'Failed to save system settings',
+	'settings.emailInUse': 'Email {email} is already in use. Please use a different email address.',
+	'settings.roleNotFound': 'Selected role not found',
+	'settings.passwordRequired': 'Password is required',
+	'settings.userCreated': 'System user created for {name}',
+	'settings.userCreateFailed': 'Failed to create system user',
+	'settings.adminOnlyCreate': 'Only super administrators can create admin users',
+	'settings.roleNotSuperAdmin': 'Selected role does not have super admin permissions',
+	'settings.adminCreated': 'Admin user created successfully: {name}',
+	'settings.adminCreateFailed': 'Failed to create admin user',
+	'settings.adminOnlyDelete': 'Only super administrators can delete users',
+	'settings.userNotFound': 'User not found',
+	'settings.cannotDeleteSelf': 'You cannot delete your own account',
+	'settings.usernameMismatch': 'Username does not match. Please type the exact username to confirm deletion.',
+	'settings.userDeleted': 'User deleted successfully',
+	'settings.userDeleteFailed': 'Failed to delete user',
+	'settings.userStatusUpdated': 'User status updated',
+	'settings.userStatusFailed': 'Failed to update user status',
+	'settings.noEditUsersPermission': 'You do not have permission to edit users.',
+	'settings.userUpdated': 'System user updated: {name}',
+	'settings.userUpdateFailed': 'Failed to update system user',
+	'settings.noModifyRolesPermission': 'You do not have permission to modify roles.',
+	'settings.roleCreated': 'Role created successfully',
+	'settings.roleCreateFailed': 'Failed to create role',
+	'settings.roleNameExists': 'Role name already exists. Please choose another name.',
+	'settings.roleUpdated': 'Role updated successfully ({name})',
+	'settings.rolePermissionsRefreshed': 'Permissions refreshed for all users with this role',
+	'settings.roleUpdateFailed': 'Failed to update role',
+	'settings.roleHasUsers': 'Cannot delete role with assigned users',
+	'settings.roleDeleted': 'Role deleted successfully',
+	'settings.roleDeleteFailed': 'Failed to delete role',
+	'settings.noRefreshPermission': 'You do not have permission to refresh permissions.',
+	'settings.refreshingPermissions': 'Refreshing permissions for all users...',
+	'settings.permissionsRefreshed': 'All permissions have been refreshed successfully!',
+	'settings.permissionsRefreshFailed': 'Failed to refresh permissions',
+	'settings.selectRole': 'Select a system role',
+	'settings.passwordMismatch': 'Passwords do not match',
+	'settings.selectEmployee': 'Select an employee to continue',
+	'settings.invalidEmail': 'Invalid email format',
+	'settings.emailRequired': 'Please enter your email',
+	'settings.nameRequired': 'Name is required',
+	'settings.selectSuperAdminRole': 'Select a super admin role',
+	'settings.passwordTooShort': 'Password must be at least 8 characters long',
+	'settings.roleNameRequired': 'Role name is required',
+	'settings.selectPermission': 'Select at least one permission or enable full access',
+	'settings.branding.title': 'System Branding',
+	'settings.branding.description': 'Customize the system logo and name displayed in the sidebar',
+	'settings.branding.logo': 'System Logo',
+	'settings.branding.uploading': 'Uploading...',
+	'settings.branding.uploadLogo': 'Upload Logo',
+	'settings.branding.logoHint': 'Recommended: 200x200px, PNG or JPG',
+	'settings.branding.logoPreview': 'Logo preview',
+	'settings.branding.stamp': 'Company Stamp',
+	'settings.branding.uploadStamp': 'Upload Stamp',
+	'settings.branding.stampHint': 'Recommended: PNG with transparent background, max 2MB',
+	'settings.branding.stampPreview': 'Stamp preview',
+	'settings.branding.noStamp': 'No stamp',
+	'settings.branding.systemName': 'System Name (Sidebar)',
+	'settings.branding.systemSubtitle': 'System Subtitle (Sidebar)',
+	'settings.branding.documentName': 'Company Name for Documents',
+	'settings.branding.arabicName': 'Arabic Name',
+	'settings.branding.englishName': 'English Name',
+	'settings.branding.documentNameHint': 'This name will appear on all printed documents (invoices, contracts, quotations)',
+	'settings.branding.preview': 'Preview',
+	'settings.branding.systemNameFallback': 'System Name',
+	'settings.branding.subtitleFallback': 'Subtitle',
+	'settings.branding.save': 'Save Branding Settings',
+	'settings.company.title': 'Company Information',
+	'settings.company.description': 'Update your company details and contact information',
+	'settings.company.name': 'Company Name',
+	'settings.company.address': 'Address',
+	'settings.company.taxNumber': 'Tax Number',
+	'settings.company.commercialReg': 'Commercial Registration',
+	'settings.company.cityPostal': 'City / Postal Code',
+	'settings.company.cityPostalPlaceholder': 'Al-Khobar, Al-Jisr District 37417',
+	'settings.users.integrationTitle': 'Users & Employees Integration',
+	'settings.users.integrationHint': 'Each system user is linked to an employee record. Employee information (ID, Department, Position, Phone) is automatically synchronized.',
+	'settings.users.title': 'User Management',
+	'settings.users.description': 'Manage system users and their access',
+	'settings.users.add': 'Add User',
+	'settings.users.addTitle': 'Add New User',
+	'settings.users.addDescription': 'Link employee account with system user access',
+	'settings.users.employeeId': 'Employee ID',
+	'settings.users.name': 'Name',
+	'settings.users.department': 'Department',
+	'settings.users.position': 'Position',
+	'settings.users.role': 'Role',
+	'settings.users.loading': 'Loading users...',
+	'settings.users.empty': 'No users found',
+	'settings.users.unassigned': 'Unassigned',
+	'settings.users.edit': 'Edit user',
+	'settings.users.toggleStatus': 'Toggle user status',
+	'settings.users.delete': 'Delete User',
+	'settings.users.editTitle': 'Edit User',
+	'settings.users.editDescription': 'Update system user information and access',
+	'settings.users.deleteTitle': 'Delete User',
+	'settings.users.deleteDescription': 'This action cannot be undone. This will permanently delete the user account.',
+	'settings.users.deleteWarning': '⚠️ Warning: Deleting User Account',
+	'settings.users.userLabel': 'User:',
+	'settings.users.emailLabel': 'Email:',
+	'settings.users.roleLabel': 'Role:',
+	'settings.users.superAdminAccount': '⚠️ This is a Super Administrator account!',
+	'settings.users.cannotDeleteSelfTitle': '🚫 You cannot delete your own account',
+	'settings.users.cannotDeleteSelfHint': 'For security reasons, you cannot delete your own account. Please ask another super administrator to do this.',
+	'settings.users.deleteSuperAdminTitle': '⚠️ Deleting Super Administrator Account',
+	'settings.users.deleteSuperAdminHint': 'You are about to delete a Super Administrator account. This requires additional confirmation.',
+	'settings.users.typeUsername': 'Type the username to confirm deletion:',
+	'settings.users.mustType': 'You must type:',
+	'settings.users.confirmDeleteTitle': '⚠️ Confirm Deletion',
+	'settings.users.confirmDeleteHint': 'Are you sure you want to delete this user account? This action cannot be undone.',
+	'settings.users.editFormTitle': 'Edit System User',
+	'settings.users.editFormHint': 'Update user information and access permissions. Leave password blank to keep existing password.',
+	'settings.users.selectEmployee': 'Select Employee',
+	'settings.users.selectEmployeePlaceholder': 'Select employee from database...',
+	'settings.users.unnamed': 'Unnamed',
+	'settings.users.selectEmployeeHint': 'Select an existing employee to automatically fill their information',
+	'settings.users.autoFilled': 'Auto-filled',
+	'settings.users.fullName': 'Full Name',
+	'settings.users.systemRole': 'System Role',
+	'settings.users.systemRolePlaceholder': 'Select system role...',
+	'settings.users.systemRoleHint': 'System role determines what the user can access in the system',
+	'settings.users.newPassword': 'New Password (Optional)',
+	'settings.users.newPasswordPlaceholder': 'Leave blank to keep existing password',
+	'settings.users.newPasswordHint': 'Only enter a password if you want to change it',
+	'settings.users.confirmNewPassword': 'Confirm New Password',
+	'settings.users.reenterNewPassword': 'Re-enter new password',
+	'settings.users.update': 'Update User Account',
+	'settings.users.linkTitle': 'Link Employee to System User',
+	'settings.users.linkHint': 'Select an employee from the database to create their system login account. All employee information will be automatically linked.',
+	'settings.users.password': 'Password',
+	'settings.users.passwordPlaceholder': 'Enter secure password',
+	'settings.users.confirmPassword': 'Confirm Password',
+	'settings.users.reenterPassword': 'Re-enter password',
+	'settings.users.create': 'Create User Account',
+	'settings.users.fullNameRequired': 'Full Name *',
+	'settings.users.emailRequired': 'Email *',
+	'settings.users.phoneOptional': 'Phone (Optional)',
+	'settings.users.passwordRequired': 'Password *',
+	'settings.users.confirmPasswordRequired': 'Confirm Password *',
+	'settings.admin.create': 'Create Admin',
+	'settings.admin.createTitle': 'Create New Admin',
+	'settings.admin.createDescription': 'Create a new super administrator account with full system access',
+	'settings.admin.formTitle': 'Create Super Administrator Account',
+	'settings.admin.formHint': 'Create a new administrator account with full system access. Admin accounts are not required to be linked to employee records.',
+	'settings.admin.noRoles': '⚠ No super admin roles found. Please create a role with full access permissions first.',
+	'settings.admin.namePlaceholder': 'Enter full name',
+	'settings.admin.role': 'Super Admin Role *',
+	'settings.admin.rolePlaceholder': 'Select super admin role...',
+	'settings.admin.roleOption': '{name} (Full Access)',
+	'settings.admin.roleHint': 'Only roles with full system access are available for admin accounts',
+	'settings.admin.passwordPlaceholder': 'Enter secure password (min 8 characters)',
+	'settings.admin.createAccount': 'Create Admin Account',
+	'settings.roles.title': 'Roles & Permissions',
+	'settings.roles.description': 'Manage user roles and their permissions',
+	'settings.roles.readOnlyHint': 'Only administrators with full access can modify roles. You can view existing roles below.',
+	'settings.roles.refreshAll': 'Refresh All Permissions',
+	'settings.roles.add': 'Add Role',
+	'settings.roles.createTitle': 'Create New Role',
+	'settings.roles.createDescription': 'Define a new role and assign permissions',
+	'settings.roles.name': 'Role Name',
+	'settings.roles.namePlaceholder': 'e.g., Sales Manager',
+	'settings.roles.permissions': 'Permissions',
+	'settings.roles.loading': 'Loading roles...',
+	'settings.roles.empty': 'No roles defined yet',
+	'settings.roles.usersCount': '{count} users',
+	'settings.roles.editTitle': 'Edit Role',
+	'settings.roles.editDescription': 'Update role details and permissions',
+	'settings.roles.fullAccess': 'Full Access',
+	'settings.roles.fullAccessHint': 'Grant full access to all modules and actions in the system',
+	'settings.roles.requireTwoFactor': 'Require Two-Factor Authentication',
+	'settings.roles.requireTwoFactorHint': 'Users with this role must sign in with an authenticator app code',
+	'settings.roles.modulePermissions': 'Module Permissions',
+	'settings.roles.allActions': 'All actions',
+	'settings.roles.selectAll': 'Select all',
+	'settings.roles.create': 'Create Role',
+	'settings.roles.allAccess': 'All system access',
+	'settings.roles.noAccess': 'No access assigned',
+	'settings.roles.more': '+{count} more',
+	'settings.roles.categoryUser': 'User',
+	'settings.action.view': 'View',
+	'settings.action.create': 'Create',
+	'settings.action.update': 'Update',
+	'settings.action.delete': 'Delete',
+	'settings.action.approve': 'Approve',
+	'settings.action.export': 'Export',
+	'settings.action.assign': 'Assign',
+	'settings.system.description': 'Configure system preferences and security',
+	'settings.system.loading': 'Loading settings...',
+	'settings.system.emailNotifications': 'Email Notifications',
+	'settings.system.emailNotificationsHint': 'Send email notifications for important events',
+	'settings.system.smsNotifications': 'SMS Notifications',
+	'settings.system.smsNotificationsHint': 'Send SMS alerts for critical updates',
+	'settings.system.autoBackup': 'Automatic Backup',
+	'settings.system.autoBackupHint': 'Daily automated backup of system data',
+	'settings.system.twoFactor': 'Two-Factor Authentication',
+	'settings.system.twoFactorHint': 'Require 2FA for all user logins',
+	'settings.system.save': 'Save Settings',
+
+	// Contract renewals
+	'renewals.title': 'Renewal Pipeline',
+	'renewals.description': 'Contracts ending within {days} days and the outcome of their renewal. Expiry and renewal offers are handled by the scheduled recurring billing run.',
+	'renewals.upcoming': 'Upcoming',
+	'renewals.upcomingHint': 'Ending soon, no offer yet',
+	'renewals.offered': 'Offered',
+	'renewals.offeredHint': 'Renewal offer prepared',
+	'renewals.renewed': 'Renewed',
+	'renewals.renewedHint': 'Customer renewed',
+	'renewals.lapsed': 'Lapsed',
+	'renewals.lapsedHint': 'Ended without a renewal',
+	'renewals.renewalContract': 'Renewal {number} ({status})',
+	'renewals.quotationSent': 'Renewal quotation sent to Quotations',
+	'renewals.markedRenewed': 'Contract {number} marked as renewed',
+	'renewals.markedLapsed': 'Contract {number} marked as lapsed',
+	'renewals.updateFailed': 'Failed to update the renewal',
+	'renewals.empty': 'No contracts',
+	'renewals.ends': 'Ends {date}',
+	'renewals.noEndDate': 'No end date',
+	'renewals.notRenewing': 'Not renewing',
+
+	// Document numbering
+	'numbering.title': 'Document Numbering',
+	'numbering.description': 'Numbers are assigned when a document is saved and are never reused. Changes apply to the next document.',
+	'numbering.loading': 'Loading numbering...',
+	'numbering.loadFailed': 'Failed to load document numbering',
+	'numbering.invalidPrefix': 'Prefix may only contain letters and digits',
+	'numbering.invalidPadding': 'Padding must be between 1 and 10 digits',
+	'numbering.updated': '{document} numbering updated',
+	'numbering.updateFailed': 'Failed to update numbering',
+	'numbering.document': 'Document',
+	'numbering.prefix': 'Prefix',
+	'numbering.resetYearly': 'Reset yearly',
+	'numbering.digits': 'Digits',
+	'numbering.nextNumber': 'Next number',
+	'numbering.type.invoice': 'Invoice',
+	'numbering.type.creditNote': 'Credit Note',
+	'numbering.type.debitNote': 'Debit Note',
+	'numbering.type.quotation': 'Quotation',
+	'numbering.type.contract': 'Contract',
+	'numbering.type.purchaseOrder': 'Purchase Order',
+	'numbering.type.payroll': 'Payroll',
+
+	// Customer and supplier selectors
+	'selector.customer': 'Customer',
+	'selector.customerSearch': 'Search customer...',
+	'selector.customerSearchHint': 'Search by name, company, or mobile...',
+	'selector.customerEmpty': 'No customer found.',
+	'selector.customerAdd': 'Add new customer',
+	'selector.customerAddTitle': 'Add New Customer',
+	'selector.customerAddDescription': 'Quickly add a new customer without leaving this page',
+	'selector.customerName': 'Customer Name',
+	'selector.customerNamePlaceholder': 'Ahmed Mohammed',
+	'selector.companyPlaceholder': 'Palm Trading Company',
+	'selector.customerRequired': 'Please enter customer name and mobile number',
+	'selector.supplier': 'Supplier',
+	'selector.supplierSearch': 'Search supplier...',
+	'selector.supplierSearchHint': 'Search by name or mobile...',
+	'selector.supplierEmpty': 'No supplier found.',
+	'selector.supplierAdd': 'Add new supplier',
+	'selector.supplierAddTitle': 'Add New Supplier',
+	'selector.supplierAddDescription': 'Quickly add a new supplier without leaving this page',
+	'selector.supplierName': 'Supplier Name',
+	'selector.supplierNamePlaceholder': 'Aroma Scents International',
+	'selector.supplierNameRequired': 'Please enter supplier name',
+	'selector.supplierAddButton': 'Add Supplier',
+	'selector.clear': 'Clear selection',
+	'selector.locationPlaceholder': 'Riyadh, Al Malaz District',
+	'selector.mobileLabel': 'Mobile:',
+	'selector.emailLabel': 'Email:',
+	'selector.locationLabel': 'Location:',
+
+	// Excel import
+	'import.button': 'Import Excel',
+	'import.title': 'Import {section}',
+	'import.mappingDescription': 'Match the columns in {file} ({rows} rows) to {section} fields.',
+	'import.reviewDescription': 'Review what will happen before anything is saved.',
+	'import.notMapped': 'Not mapped',
+	'import.mapRequired': 'Map the required fields: {fields}',
+	'import.toCreate': '{count} to create',
+	'import.toUpdate': '{count} to update',
+	'import.rejected': '{count} rejected',
+	'import.rejectedRows': 'Rejected rows',
+	'import.row': 'Row',
+	'import.problems': 'Problems',
+	'import.firstRejected': 'Showing the first 50 of {count} rejected rows.',
+	'import.progress': 'Importing {done} / {total}...',
+	'import.loadingExisting': 'Loading existing records...',
+	'import.checkRows': 'Check rows',
+	'import.back': 'Back',
+	'import.importing': 'Importing...',
+	'import.importRows': 'Import {count} rows',
+	'import.noRows': '{file} has no data rows',
+	'import.readFailed': 'Could not read {file}. Make sure it is a valid Excel or CSV file.',
+	'import.partial': '{section}: {succeeded} rows imported, {failed} failed',
+	'import.done': '{section}: {created} created, {updated} updated',
+	'import.skipped': '{count} rows were skipped. Download the rejected rows to fix them.',
+
+	// Recurring billing
+	'billing.title': 'Recurring Billing',
+	'billing.description': 'Monthly visits and their invoices are created for active contracts by a scheduled job on the server, whether or not anyone has the app open. The same job expires contracts past their end date and prepares renewals.',
+	'billing.loading': 'Loading recurring billing...',
+	'billing.runsLoadFailed': 'Failed to load billing runs',
+	'billing.loadFailed': 'Failed to load recurring billing settings',
+	'billing.invalidLeadDays': 'Visits can be created between 0 and 60 days ahead',
+	'billing.invalidNoticeDays': 'The renewal notice period must be between 0 and 180 days',
+	'billing.invalidEscalation': 'The renewal price increase must be between 0% and 100%',
+	'billing.saved': 'Recurring billing settings saved',
+	'billing.saveFailed': 'Failed to save recurring billing settings',
+	'billing.runFinished': 'Billing run finished: {expired} contract(s) expired, {renewals} renewal(s) offered, {visits} visit(s) and {invoices} invoice(s) created, {skipped} skipped',
+	'billing.runFailed': 'Billing run failed',
+	'billing.runDetailsFailed': 'Failed to load run details',
+	'billing.autoVisits': 'Automatic monthly visits',
+	'billing.autoVisitsHint': 'Schedule the next visit of each active contract',
+	'billing.leadDays': 'Create visits this many days ahead',
+	'billing.autoInvoice': 'Automatic invoicing',
+	'billing.autoInvoiceHint': 'Invoice the monthly share of the contract for each visit',
+	'billing.timing': 'Invoice generation timing',
+	'billing.timing.visitDate': 'On Visit Date',
+	'billing.timing.weekBefore': '7 Days Before Visit Date',
+	'billing.renewals': 'Contract renewals',
+	'billing.renewalsHint': 'Contracts past their end date are set to expired. Active contracts ending soon are flagged for renewal and can get a renewal offer prepared.',
+	'billing.noticeDays': 'Flag contracts ending within (days)',
+	'billing.offerType': 'Renewal offer',
+	'billing.offer.none': 'Flag only',
+	'billing.offer.contract': 'Draft renewal contract',
+	'billing.offer.quotation': 'Renewal quotation',
+	'billing.escalation': 'Price increase on renewal (%)',
+	'billing.runNow': 'Run now',
+	'billing.runLog': 'Run log',
+	'billing.refresh': 'Refresh',
+	'billing.started': 'Started',
+	'billing.billingDate': 'Billing date',
+	'billing.trigger': 'Trigger',
+	'billing.column.expired': 'Expired',
+	'billing.column.renewals': 'Renewals',
+	'billing.column.visits': 'Visits',
+	'billing.column.invoices': 'Invoices',
+	'billing.column.skipped': 'Skipped',
+	'billing.column.failed': 'Failed',
+	'billing.noRuns': 'No billing runs yet',
+	'billing.nothingDue': 'Nothing was due in this run',
+	'billing.allContracts': 'All contracts',
+	'billing.run.running': 'Running',
+	'billing.run.completed': 'Completed',
+	'billing.run.failed': 'Failed',
+	'billing.trigger.schedule': 'Schedule',
+	'billing.trigger.manual': 'Manual',
+	'billing.outcome.created': 'Created',
+	'billing.outcome.skipped': 'Skipped',
+	'billing.outcome.failed': 'Failed',
+	'billing.item.visit': 'Visit',
+	'billing.item.invoice': 'Invoice',
+	'billing.item.expiry': 'Expiry',
+	'billing.item.renewal': 'Renewal',
+
+	// Sales platforms
+	'platform.amazon': 'Amazon',
+	'platform.noon': 'Noon',
+	'platform.website': 'Website',
+	'platform.goldenScent': 'Golden Scent',
+	'platform.trendyol': 'Trendyol',
+	'platform.salesRep': 'Sales Rep',
+	'platform.other': 'Other',
+
+	// Platform customers
+	'platformCustomers.subtitle': 'Manage customers from all sales platforms',
+	'platformCustomers.exportExcel': 'Export to Excel',
+	'platformCustomers.defaultName': 'Platform Customer',
+	'platformCustomers.totalCustomers': 'Total Customers',
+	'platformCustomers.activeCount': '{count} active',
+	'platformCustomers.totalRevenue': 'Total Revenue',
+	'platformCustomers.fromAllPlatforms': 'From all platforms',
+	'platformCustomers.avgOrderValue': 'Avg Order Value',
+	'platformCustomers.perOrderAverage': 'Per order average',
+	'platformCustomers.totalOrders': 'Total Orders',
+	'platformCustomers.allPlatformsCombined': 'All platforms combined',
+	'platformCustomers.searchPlaceholder': 'Search by name, phone, or email...',
+	'platformCustomers.platform': 'Platform',
+	'platformCustomers.allPlatforms': 'All Platforms',
+	'platformCustomers.city': 'City',
+	'platformCustomers.allCities': 'All Cities',
+	'platformCustomers.listTitle': 'Customers ({count})',
+	'platformCustomers.listDescription': 'View and manage customers from all sales platforms',
+	'platformCustomers.contact': 'Contact',
+	'platformCustomers.location': 'Location',
+	'platformCustomers.orders': 'Orders',
+	'platformCustomers.totalSpent': 'Total Spent',
+	'platformCustomers.lastOrder': 'Last Order',
+	'platformCustomers.firstOrder': 'First Order',
+	'platformCustomers.loading': 'Loading customers...',
+	'platformCustomers.empty': 'No customers found',
+	'platformCustomers.idLabel': 'ID: {id}',
+	'platformCustomers.detailsTitle': 'Customer Details',
+	'platformCustomers.detailsDescription': 'Complete information about this customer',
+	'platformCustomers.personalInfo': 'Personal Information',
+	'platformCustomers.fullName': 'Full Name',
+	'platformCustomers.customerId': 'Customer ID',
+	'platformCustomers.phoneNumber': 'Phone Number',
+	'platformCustomers.emailAddress': 'Email Address',
+	'platformCustomers.shippingAddress': 'Shipping Address',
+	'platformCustomers.orderStatistics': 'Order Statistics',
+	'platformCustomers.averageOrderValue': 'Average Order Value',
+	'platformCustomers.quickActions': 'Quick Actions',
+	'platformCustomers.call': 'Call',
+	'platformCustomers.whatsapp': 'WhatsApp',
+	'platformCustomers.whatsappGreeting': 'Hello {name}, thank you for being our valued customer!',
+
+	// Monthly visits
+	'monthlyVisits.subtitle': 'Automatically scheduled visits for signed monthly contracts.',
+	'monthlyVisits.loadFailed': 'Failed to load monthly visits',
+	'monthlyVisits.newerVisitExists': 'Cannot edit this completed visit. A newer scheduled visit exists for {date}.',
+	'monthlyVisits.newerVisitExistsUndated': 'Cannot edit this completed visit. A newer scheduled visit exists for a future date.',
+	'monthlyVisits.dateConflict': 'A scheduled visit already exists for {date}. Please choose a different date.',
+	'monthlyVisits.upcomingAndHistorical': 'Upcoming and historical',
+	'monthlyVisits.awaitingService': 'Awaiting service',
+	'monthlyVisits.finishedVisits': 'Finished visits',
+	'monthlyVisits.cancelledVisits': 'Cancelled visits',
+	'monthlyVisits.allStatuses': 'All statuses',
+	'monthlyVisits.sortOrder': 'Sort Order',
+	'monthlyVisits.searchPlaceholder': 'Search by customer, contract, delegate, or address...',
+	'monthlyVisits.scheduleTitle': 'Monthly Visits Schedule',
+	'monthlyVisits.contract': 'Contract',
+	'monthlyVisits.company': 'Company',
+	'monthlyVisits.visitDate': 'Visit Date',
+	'monthlyVisits.latest': 'Latest',
+	'monthlyVisits.cannotEdit': 'Cannot edit: A newer scheduled visit exists',
+	'monthlyVisits.editVisit': 'Edit visit',
+	'monthlyVisits.complete': 'Complete',
+	'monthlyVisits.reset': 'Reset',
+	'monthlyVisits.editTitle': 'Edit Monthly Visit',
+	'monthlyVisits.editDescription': 'Update visit details for {customer} - {contract}',
+	'monthlyVisits.addressPlaceholder': 'Visit address',
+	'monthlyVisits.notesPlaceholder': 'Additional notes about the visit',
+	'monthlyVisits.lockedWarning': '⚠️ This completed visit cannot be edited because a newer scheduled visit exists for this contract.',
+
+	// Message templates
+	'templates.title': 'Message Templates',
+	'templates.subtitle': 'Pre-built templates for quick customer communication',
+	'templates.seeded': 'Default message templates imported',
+	'templates.loadFailed': 'Failed to load templates',
+	'templates.nameRequired': 'Please enter template name',
+	'templates.contentRequired': 'Please enter template content',
+	'templates.created': 'Template created successfully!',
+	'templates.createFailed': 'Failed to create template',
+	'templates.updated': 'Template updated successfully!',
+	'templates.updateFailed': 'Failed to update template',
+	'templates.deleteConfirm': 'Delete template "{name}"?',
+	'templates.deleted': 'Template deleted successfully!',
+	'templates.deleteFailed': 'Failed to delete template',
+	'templates.copied': 'Template copied to clipboard!',
+	'templates.copyFailed': 'Failed to copy. Please copy manually.',
+	'templates.create': 'Create Template',
+	'templates.createTitle': 'Create New Template',
+	'templates.createDescription': 'Create a reusable message template',
+	'templates.editTitle': 'Edit Template',
+	'templates.editDescription': 'Update your message template',
+	'templates.update': 'Update Template',
+	'templates.nameLabel': 'Template Name *',
+	'templates.namePlaceholder': 'e.g., Payment Reminder',
+	'templates.typeLabel': 'Type *',
+	'templates.selectType': 'Select type',
+	'templates.categoryLabel': 'Category *',
+	'templates.selectCategory': 'Select category',
+	'templates.subjectLabel': 'Subject (for Email)',
+	'templates.subjectPlaceholder': 'Email subject line',
+	'templates.contentLabel': 'Message Content *',
+	'templates.contentPlaceholder': 'Use {{variable_name}} for dynamic content',
+	'templates.availableVariables': 'Available Variables',
+	'templates.variableHint': 'Click on a variable to insert it into the content',
+	'templates.searchPlaceholder': 'Search templates...',
+	'templates.allTypes': 'All Types',
+	'templates.type.whatsapp': 'WhatsApp',
+	'templates.type.email': 'Email',
+	'templates.type.sms': 'SMS',
+	'templates.category.paymentReminder': 'Payment Reminder',
+	'templates.category.invoice': 'Invoice',
+	'templates.category.contract': 'Contract',
+	'templates.category.welcome': 'Welcome',
+	'templates.category.followUp': 'Follow-up',
+	'templates.category.visitReminder': 'Visit Reminder',
+	'templates.subject': 'Subject:',
+	'templates.contentPreview': 'Content Preview:',
+	'templates.variables': 'Variables:',
+	'templates.copy': 'Copy',
+	'templates.noMatches': 'No templates found matching your search',
+	'templates.empty': 'No templates available. Create your first template to get started!',
+	'templates.quickTips': 'Quick Tips',
+	'templates.tipVariablesBefore': 'Use',
+	'templates.tipVariablesAfter': 'to insert dynamic content',
+	'templates.tipPersonal': 'Keep messages personal and friendly for better engagement',
+	'templates.tipTest': 'Test templates before sending to customers',
+	'templates.tipInsert': 'Click on variables to insert them directly into your content',
+
+	// Representatives
+	'representatives.title': 'Representative Management',
+	'representatives.subtitle': 'Manage representatives, assigned customers and visits',
+	'representatives.status.onLeave': 'On Leave',
+	'representatives.requiredFields': 'Please fill all required fields',
+	'representatives.idNotFound': 'Representative ID not found',
+	'representatives.updated': 'Representative updated successfully!',
+	'representatives.updateFailed': 'Failed to update representative: {error}',
+	'representatives.added': 'Representative added successfully!',
+	'representatives.createFailed': 'Failed to create representative: {error}',
+	'representatives.hasCustomers': 'Cannot delete representative with assigned customers. Please reassign customers first.',
+	'representatives.deleteConfirm': 'Are you sure you want to delete {name}? This action cannot be undone.',
+	'representatives.deleted': 'Representative deleted successfully!',
+	'representatives.deleteFailed': 'Failed to delete representative: {error}',
+	'representatives.addNew': 'Add New Representative',
+	'representatives.addDescription': 'Enter new representative details',
+	'representatives.editTitle': 'Edit Representative',
+	'representatives.editDescription': 'Update representative details',
+	'representatives.fullNameRequired': 'Full Name *',
+	'representatives.fullNamePlaceholder': 'Enter full name',
+	'representatives.phoneRequired': 'Phone Number *',
+	'representatives.emailRequired': 'Email *',
+	'representatives.areaRequired': 'Coverage Area *',
+	'representatives.areaPlaceholder': 'e.g., Riyadh - North',
+	'representatives.add': 'Add Representative',
+	'representatives.adding': 'Adding...',
+	'representatives.total': 'Total Representatives',
+	'representatives.activeCount': '{count} active',
+	'representatives.inactiveCount': '{count} inactive',
+	'representatives.totalActiveClients': 'Total Active Clients',
+	'representatives.acrossAllReps': 'Across all reps',
+	'representatives.activeClients': 'Active Clients',
+	'representatives.inactiveClients': 'Inactive Clients',
+	'representatives.needReactivation': 'Need reactivation',
+	'representatives.monthlyVisits': 'Monthly Visits',
+	'representatives.all': 'All Representatives',
+	'representatives.searchPlaceholder': 'Search representatives...',
+	'representatives.contact': 'Contact',
+	'representatives.area': 'Area',
+	'representatives.loading': 'Loading representatives...',
+	'representatives.empty': 'No representatives found',
+	'representatives.viewCustomers': 'View Customers',
+	'representatives.assignedCustomersTitle': '{name} - Assigned Customers',
+	'representatives.assignedCustomersDescription': 'View and manage customers assigned to this representative',
+	'representatives.activeTab': 'Active ({count})',
+	'representatives.inactiveTab': 'Inactive ({count})',
+	'representatives.mobile': 'Mobile',
+	'representatives.lastVisit': 'Last Visit',
+	'representatives.nextVisit': 'Next Visit',
+
+	// Customer support
+	'support.title': 'Customer Support',
+	'support.subtitle': 'Manage customer requests and complaints',
+	'support.unknownCustomer': 'Unknown customer',
+	'support.unnamedCustomer': 'Unnamed customer',
+	'support.selectCustomerError': 'Please select a customer',
+	'support.created': 'Ticket created successfully!',
+	'support.updated': 'Ticket updated successfully!',
+	'support.saveFailed': 'Failed to save ticket',
+	'support.deleted': 'Ticket deleted successfully!',
+	'support.deleteFailed': 'Failed to delete ticket',
+	'support.statusUpdated': 'Ticket status updated to {status}',
+	'support.status.new': 'New',
+	'support.status.inProgress': 'In Progress',
+	'support.status.completed': 'Completed',
+	'support.priority.high': 'High',
+	'support.priority.medium': 'Medium',
+	'support.priority.low': 'Low',
+	'support.cards': 'Cards',
+	'support.table': 'Table',
+	'support.newTicket': 'New Ticket',
+	'support.newTickets': 'New Tickets',
+	'support.awaitingResponse': 'Awaiting response',
+	'support.beingHandled': 'Being handled',
+	'support.resolved': 'Resolved',
+	'support.searchPlaceholder': 'Search tickets...',
+	'support.allTickets': 'All Tickets',
+	'support.loading': 'Loading tickets...',
+	'support.empty': 'No tickets found',
+	'support.customerLabel': 'Customer:',
+	'support.dateLabel': 'Date: {date}',
+	'support.assignedLabel': 'Assigned:',
+	'support.noteLabel': 'Note:',
+	'support.ticketNumberShort': 'Ticket #',
+	'support.ticketNumber': 'Ticket Number',
+	'support.subject': 'Subject',
+	'support.priority': 'Priority',
+	'support.assignedTo': 'Assigned To',
+	'support.assignTo': 'Assign To',
+	'support.noDelegates': 'No delegates available',
+	'support.newTitle': 'New Support Ticket',
+	'support.newDescription': 'Create a new customer support ticket',
+	'support.editTitle': 'Edit Ticket',
+	'support.editDescription': 'Update ticket information',
+	'support.detailsTitle': 'Ticket Details',
+	'support.viewing': 'Viewing ticket {number}',
+	'support.description': 'Description',
+	'support.resolution': 'Resolution',
+	'support.customerSearchPlaceholder': 'Search customer by name, company, or mobile...',
+	'support.subjectRequired': 'Subject *',
+	'support.subjectPlaceholder': 'Brief description of the issue',
+	'support.descriptionRequired': 'Description *',
+	'support.descriptionPlaceholder': 'Detailed description of the request or complaint',
+	'support.notesOptional': 'Notes (Optional)',
+	'support.notesPlaceholder': 'Additional notes or comments',
+	'support.resolutionNotes': 'Resolution Notes',
+	'support.resolutionPlaceholder': 'How was this ticket resolved?',
+	'support.create': 'Create Ticket',
+
+	// Marketing campaigns
+	'marketing.title': 'Marketing Campaigns',
+	'marketing.subtitle': 'Manage your marketing campaigns',
+	'marketing.status.paused': 'Paused',
+	'marketing.status.completed': 'Completed',
+	'marketing.loadFailed': 'Failed to load campaigns',
+	'marketing.added': 'Campaign added successfully',
+	'marketing.addFailed': 'Failed to add campaign',
+	'marketing.updated': 'Campaign updated successfully',
+	'marketing.updateFailed': 'Failed to update campaign',
+	'marketing.deleteConfirm': 'Delete campaign "{name}"?',
+	'marketing.deleted': 'Campaign deleted successfully',
+	'marketing.deleteFailed': 'Failed to delete campaign',
+	'marketing.statusFailed': 'Failed to change status',
+	'marketing.empty': 'No campaigns found. Use "New Campaign" to add one.',
+	'marketing.refresh': 'Refresh campaigns',
+	'marketing.newCampaign': 'New Campaign',
+	'marketing.newDescription': 'Create a new marketing campaign',
+	'marketing.activeCampaigns': 'Active Campaigns',
+	'marketing.currentlyRunning': 'Currently running',
+	'marketing.totalBudget': 'Total Budget',
+	'marketing.allocatedBudget': 'Allocated budget',
+	'marketing.totalSpent': 'Total Spent',
+	'marketing.utilized': '{percent} utilized',
+	'marketing.impressions': 'Impressions',
+	'marketing.totalViews': 'Total views',
+	'marketing.clicks': 'Clicks',
+	'marketing.ctr': '{percent} CTR',
+	'marketing.allCampaigns': 'All Campaigns',
+	'marketing.allCampaignsDescription': 'View and manage your marketing campaigns',
+	'marketing.campaign': 'Campaign',
+	'marketing.budget': 'Budget',
+	'marketing.spent': 'Spent',
+	'marketing.period': 'Period',
+	'marketing.performance': 'Performance',
+	'marketing.lastModified': 'Last Modified',
+	'marketing.name': 'Campaign Name',
+	'marketing.nameRequired': 'Campaign Name *',
+	'marketing.namePlaceholder': 'e.g., Ramadan Collection 2025',
+	'marketing.platformRequired': 'Platform *',
+	'marketing.selectPlatform': 'Select platform',
+	'marketing.budgetSar': 'Budget (SAR)',
+	'marketing.budgetRequired': 'Budget (SAR) *',
+	'marketing.spentSar': 'Spent (SAR)',
+	'marketing.startDate': 'Start Date',
+	'marketing.startDateRequired': 'Start Date *',
+	'marketing.endDate': 'End Date',
+	'marketing.endDateRequired': 'End Date *',
+	'marketing.startingImpressions': 'Starting Impressions',
+	'marketing.startingClicks': 'Starting Clicks',
+	'marketing.create': 'Create Campaign',
+	'marketing.editTitle': 'Edit Campaign',
+	'marketing.editDescription': 'Update campaign details',
+
+	// Attendance sheet
+	'attendance.title': 'Monthly Attendance Sheet',
+	'attendance.subtitle': 'Generate and manage employee attendance records',
+	'attendance.unnamedEmployee': 'Unnamed Employee',
+	'attendance.generalDepartment': 'General',
+	'attendance.noEmployees': 'No employees found for the selected filters.',
+	'attendance.loaded': 'Attendance sheet loaded successfully!',
+	'attendance.printToPdf': "Please use your browser's print dialog to save as PDF",
+	'attendance.generateBeforeExport': 'Generate attendance sheet before exporting',
+	'attendance.generateBeforeSave': 'Generate attendance before saving.',
+	'attendance.noChanges': 'No attendance changes to save.',
+	'attendance.saved': 'Attendance saved successfully!',
+	'attendance.saveFailed': 'Failed to save attendance',
+	'attendance.generateTitle': 'Generate Attendance Sheet',
+	'attendance.generateDescription': 'Select month, year, and department to generate attendance records',
+	'attendance.month': 'Month',
+	'attendance.year': 'Year',
+	'attendance.department': 'Department',
+	'attendance.allDepartments': 'All Departments',
+	'attendance.departmentLabel': 'Department: {department}',
+	'attendance.searchEmployee': 'Search Employee',
+	'attendance.searchPlaceholder': 'Name or ID...',
+	'attendance.generate': 'Generate Sheet',
+	'attendance.save': 'Save Attendance',
+	'attendance.exportPdf': 'Export PDF',
+	'attendance.status.present': 'Present',
+	'attendance.status.absent': 'Absent',
+	'attendance.status.leave': 'Leave',
+	'attendance.status.holiday': 'Holiday',
+	'attendance.status.weekend': 'Weekend',
+	'attendance.cellHint': '💡 Click on any cell to change status',
+	'attendance.recordTitle': 'Attendance Record - {month} {year}',
+	'attendance.employeeCount': '{count} Employees',
+	'attendance.employee': 'Employee',
+	'attendance.weekendLocked': 'Weekend entries cannot be modified.',
+	'attendance.alreadySaved': 'Attendance already saved for this date.',
+	'attendance.futureDate': 'Cannot record attendance for future dates.',
+	'attendance.preparedBy': 'Prepared By',
+	'attendance.hrManager': 'HR Manager',
+	'attendance.reviewedBy': 'Reviewed By',
+	'attendance.departmentManager': 'Department Manager',
+	'attendance.approvedBy': 'Approved By',
+	'attendance.generalManager': 'General Manager',
+	'attendance.generatedOn': 'Generated on: {date}',
+	'attendance.emptyTitle': 'No Attendance Sheet Generated',
+	'attendance.emptyDescription': 'Select month, year, and department above, then click "Generate Sheet" to create attendance records',
+
+	// Analytics
+	'analytics.title': 'Analytics & KPIs',
+	'analytics.subtitle': 'Track your business performance and key metrics',
+	'analytics.loadingInsights': 'Loading real-time insights...',
+	'analytics.loadFailed': 'Failed to load analytics data',
+	'analytics.totalRevenue': 'Total Revenue',
+	'analytics.netProfit': 'Net Profit',
+	'analytics.activeCustomers': 'Active Customers',
+	'analytics.totalExpenses': 'Total Expenses',
+	'analytics.changeVsLastMonth': '{change} vs last month',
+	'analytics.vsLastMonth': 'vs last month',
+	'analytics.vsLastQuarter': 'vs last quarter',
+	'analytics.points': '{value} pts',
+	'analytics.calculatingMargin': 'Calculating margin...',
+	'analytics.profitMargin': '{margin} profit margin',
+	'analytics.newThisMonth': '{count} new this month',
+	'analytics.monthlySales': 'Monthly Sales',
+	'analytics.monthlySalesDescription': 'Sales performance over the last 6 months',
+	'analytics.loadingSales': 'Loading sales data...',
+	'analytics.noSales': 'No sales data available',
+	'analytics.revenueVsExpenses': 'Revenue vs Expenses',
+	'analytics.revenueVsExpensesDescription': 'Financial comparison over 6 months',
+	'analytics.loadingFinance': 'Loading financial data...',
+	'analytics.noFinance': 'No financial data available',
+	'analytics.revenue': 'Revenue',
+	'analytics.expenses': 'Expenses',
+	'analytics.visitsTrend': 'Monthly Visits Trend',
+	'analytics.visitsTrendDescription': 'Visit performance over the last 6 months',
+	'analytics.loadingVisits': 'Loading visits data...',
+	'analytics.noVisits': 'No visits data available for the last 6 months',
+	'analytics.monthLabel': 'Month: {month}',
+	'analytics.totalVisits': 'Total Visits',
+	'analytics.totalInvoices': 'Total Invoices',
+	'analytics.activeContracts': 'Active Contracts',
+	'analytics.monthly': 'Monthly',
+	'analytics.annual': 'Annual',
+	'analytics.monthlyVisits': 'Monthly Visits',
+	'analytics.quickSummary': 'Quick Summary',
+	'analytics.quickSummaryDescription': 'Key performance indicators at a glance',
+	'analytics.averageDealSize': 'Average Deal Size',
+	'analytics.customerSatisfaction': 'Customer Satisfaction',
+	'analytics.conversionRate': 'Conversion Rate',
+	'analytics.renewalRate': 'Renewal Rate',
+	'analytics.noRecentData': 'No recent data',
+
+	// Leaves
+	'leaves.title': 'Leave Management',
+	'leaves.subtitle': 'Manage employee leave requests and approvals',
+	'leaves.unknownEmployee': 'Unknown Employee',
+	'leaves.unnamedEmployee': 'Unnamed Employee',
+	'leaves.type.annual': 'Annual Leave',
+	'leaves.type.sick': 'Sick Leave',
+	'leaves.type.emergency': 'Emergency Leave',
+	'leaves.type.unpaid': 'Unpaid Leave',
+	'leaves.type.other': 'Other',
+	'leaves.requiredFields': 'Please fill all required fields.',
+	'leaves.endBeforeStart': 'End date must be after start date.',
+	'leaves.updated': 'Leave request updated successfully!',
+	'leaves.created': 'Leave request created successfully!',
+	'leaves.saveFailed': 'Failed to save leave request.',
+	'leaves.approved': 'Leave request approved!',
+	'leaves.approveFailed': 'Failed to approve leave.',
+	'leaves.rejected': 'Leave request rejected.',
+	'leaves.rejectFailed': 'Failed to reject leave.',
+	'leaves.deleteConfirm': 'Are you sure you want to delete this leave request?',
+	'leaves.deleted': 'Leave request deleted.',
+	'leaves.deleteFailed': 'Failed to delete leave.',
+	'leaves.add': 'Add Leave Request',
+	'leaves.submitTitle': 'Submit Leave Request',
+	'leaves.updateTitle': 'Update Leave Request',
+	'leaves.submitDescription': 'Fill in the details for a new leave request',
+	'leaves.updateDescription': 'Modify the leave request details',
+	'leaves.findEmployee': 'Find Employee',
+	'leaves.findEmployeePlaceholder': 'Search employees by name, ID, or department',
+	'leaves.loadingEmployees': 'Loading employees...',
+	'leaves.noEmployees': 'No employees found. You can fill the fields manually.',
+	'leaves.findEmployeeHint': 'Select an employee to prefill details or leave blank to enter manually.',
+	'leaves.employeeIdRequired': 'Employee ID *',
+	'leaves.employeeNameRequired': 'Employee Name *',
+	'leaves.fullNamePlaceholder': 'Full name',
+	'leaves.department': 'Department',
+	'leaves.position': 'Position',
+	'leaves.leaveTypeRequired': 'Leave Type *',
+	'leaves.selectLeaveType': 'Select leave type',
+	'leaves.startDateRequired': 'Start Date *',
+	'leaves.endDateRequired': 'End Date *',
+	'leaves.durationLabel': 'Duration:',
+	'leaves.days': '{count} day(s)',
+	'leaves.reasonRequired': 'Reason *',
+	'leaves.reasonPlaceholder': 'Reason for leave request...',
+	'leaves.additionalNotes': 'Additional Notes',
+	'leaves.notesPlaceholder': 'Any additional information...',
+	'leaves.submitRequest': 'Submit Request',
+	'leaves.totalRequests': 'Total Requests',
+	'leaves.allTime': 'All time',
+	'leaves.awaitingApproval': 'Awaiting approval',
+	'leaves.thisYear': 'This year',
+	'leaves.totalDays': 'Total Days',
+	'leaves.approvedDays': 'Approved leave days',
+	'leaves.requests': 'Leave Requests',
+	'leaves.allTypes': 'All Types',
+	'leaves.searchPlaceholder': 'Search leaves...',
+	'leaves.number': 'Leave #',
+	'leaves.employee': 'Employee',
+	'leaves.type': 'Type',
+	'leaves.startDate': 'Start Date',
+	'leaves.endDate': 'End Date',
+	'leaves.daysColumn': 'Days',
+	'leaves.loading': 'Loading leave requests...',
+	'leaves.noMatches': 'No leave requests found matching your search.',
+	'leaves.empty': 'No leave requests found',
+	'leaves.detailsTitle': 'Leave Request Details',
+	'leaves.leaveType': 'Leave Type',
+	'leaves.duration': 'Duration',
+	'leaves.reason': 'Reason',
+	'leaves.appliedDate': 'Applied Date',
+	'leaves.approvedBy': 'Approved By',
+	'leaves.approvedDate': 'Approved Date',
+	'leaves.approveRequest': 'Approve Request',
+	'leaves.rejectRequest': 'Reject Request',
+
+	// Suppliers
+	'suppliers.title': 'Suppliers Management',
+	'suppliers.subtitle': 'Manage suppliers and track payments',
+	'suppliers.category.rawMaterials': 'Raw Materials',
+	'suppliers.category.packaging': 'Packaging',
+	'suppliers.category.equipment': 'Equipment',
+	'suppliers.category.services': 'Services',
+	'suppliers.category.other': 'Other',
+	'suppliers.status.blocked': 'Blocked',
+	'suppliers.paymentStatus.completed': 'Completed',
+	'suppliers.unknownSupplier': 'Unknown Supplier',
+	'suppliers.supplierCredit': 'Supplier Credit',
+	'suppliers.remainingBalance': 'Remaining Balance',
+	'suppliers.requiredFields': 'Please fill all required fields',
+	'suppliers.added': 'Supplier added successfully',
+	'suppliers.addFailed': 'Failed to add supplier',
+	'suppliers.updated': 'Supplier updated successfully',
+	'suppliers.updateFailed': 'Failed to update supplier',
+	'suppliers.deleteConfirm': 'Are you sure you want to delete this supplier?',
+	'suppliers.deleted': 'Supplier deleted successfully',
+	'suppliers.deleteFailed': 'Failed to delete',
+	'suppliers.notFound': 'Supplier not found',
+	'suppliers.paymentRecorded': 'Payment recorded successfully',
+	'suppliers.paymentFailed': 'Failed to record payment',
+	'suppliers.total': 'Total Suppliers',
+	'suppliers.activeCount': '{count} active',
+	'suppliers.totalPayable': 'Total Payable',
+	'suppliers.outstandingBalance': 'Outstanding balance',
+	'suppliers.monthlyPayments': 'Monthly Payments',
+	'suppliers.thisMonth': 'This month',
+	'suppliers.totalPayments': 'Total Payments',
+	'suppliers.allTime': 'All time',
+	'suppliers.tabSuppliers': 'Suppliers',
+	'suppliers.tabPayments': 'Payments',
+	'suppliers.listTitle': 'Suppliers List',
+	'suppliers.listDescription': 'View and manage all suppliers',
+	'suppliers.add': 'Add Supplier',
+	'suppliers.update': 'Update Supplier',
+	'suppliers.addPayment': 'Add Payment',
+	'suppliers.searchPlaceholder': 'Search suppliers...',
+	'suppliers.category': 'Category',
+	'suppliers.allCategories': 'All Categories',
+	'suppliers.loading': 'Loading suppliers...',
+	'suppliers.code': 'Code',
+	'suppliers.name': 'Supplier Name',
+	'suppliers.contact': 'Contact',
+	'suppliers.balance': 'Balance',
+	'suppliers.empty': 'No suppliers found',
+	'suppliers.credit': 'Credit',
+	'suppliers.due': 'Due',
+	'suppliers.paymentHistory': 'Payment History',
+	'suppliers.paymentHistoryDescription': 'Track all supplier payments',
+	'suppliers.recordPayment': 'Record Payment',
+	'suppliers.recordPaymentDescription': 'Add a new supplier payment',
+	'suppliers.loadingPayments': 'Loading payments...',
+	'suppliers.paymentNumber': 'Payment #',
+	'suppliers.supplier': 'Supplier',
+	'suppliers.amount': 'Amount',
+	'suppliers.method': 'Method',
+	'suppliers.reference': 'Reference',
+	'suppliers.noPayments': 'No payments recorded',
+	'suppliers.editTitle': 'Edit Supplier',
+	'suppliers.addTitle': 'Add New Supplier',
+	'suppliers.editDescription': 'Update supplier information',
+	'suppliers.addDescription': 'Enter supplier details',
+	'suppliers.nameEnRequired': 'Name (English) *',
+	'suppliers.nameEnPlaceholder': 'Supplier name in English',
+	'suppliers.nameArRequired': 'Name (Arabic) *',
+	'suppliers.contactPerson': 'Contact Person',
+	'suppliers.contactPersonPlaceholder': 'Contact person name',
+	'suppliers.phoneRequired': 'Phone *',
+	'suppliers.taxNumber': 'Tax Number',
+	'suppliers.address': 'Address',
+	'suppliers.addressPlaceholder': 'Street address',
+	'suppliers.city': 'City',
+	'suppliers.country': 'Country',
+	'suppliers.paymentTerms': 'Payment Terms',
+	'suppliers.paymentTermsPlaceholder': 'e.g., Net 30',
+	'suppliers.creditLimitSar': 'Credit Limit (SAR)',
+	'suppliers.notesPlaceholder': 'Additional notes...',
+	'suppliers.supplierRequired': 'Supplier *',
+	'suppliers.selectSupplier': 'Select supplier',
+	'suppliers.amountRequired': 'Amount (SAR) *',
+	'suppliers.fullAmount': 'Full Amount',
+	'suppliers.creditHint': 'Future purchase orders will automatically consume this credit.',
+	'suppliers.paymentDateRequired': 'Payment Date *',
+	'suppliers.paymentMethodRequired': 'Payment Method *',
+	'suppliers.referenceRequired': 'Reference Number *',
+	'suppliers.referencePlaceholder': 'TRF-XXXX or CHK-XXXX',
+	'suppliers.description': 'Description',
+	'suppliers.descriptionPlaceholder': 'Payment details...',
+	'suppliers.detailsTitle': 'Supplier Details',
+	'suppliers.supplierCode': 'Supplier Code',
+	'suppliers.nameEn': 'Name (English)',
+	'suppliers.nameAr': 'Name (Arabic)',
+	'suppliers.contactInformation': 'Contact Information',
+	'suppliers.financialInformation': 'Financial Information',
+	'suppliers.currentBalance': 'Current Balance',
+	'suppliers.amountDue': 'Amount due',
+	'suppliers.creditLimit': 'Credit Limit',
+	'suppliers.totalPurchases': 'Total Purchases',
+	'suppliers.recentPayments': 'Recent Payments',
+
+	// Employee requests
+	'employeeRequests.title': 'Employee Requests',
+	'employeeRequests.subtitle': 'Manage leave requests, salary advances, loans, and other employee requests',
+	'employeeRequests.type.leave': 'Leave Request',
+	'employeeRequests.type.advance': 'Salary Advance',
+	'employeeRequests.type.loan': 'Employee Loan',
+	'employeeRequests.type.overtime': 'Overtime Payment',
+	'employeeRequests.type.other': 'Other Request',
+	'employeeRequests.status.completed': 'Completed',
+	'employeeRequests.movedToPending': 'Request moved back to pending.',
+	'employeeRequests.approved': 'Request approved successfully!',
+	'employeeRequests.rejected': 'Request rejected.',
+	'employeeRequests.completed': 'Request marked as completed.',
+	'employeeRequests.statusFailed': 'Failed to update request status.',
+	'employeeRequests.leaveDatesRequired': 'Please select leave start and end dates.',
+	'employeeRequests.amountRequiredError': 'Please enter the amount for this request.',
+	'employeeRequests.leaveEndBeforeStart': 'Leave end date must be after start date.',
+	'employeeRequests.updated': 'Request updated successfully!',
+	'employeeRequests.submitted': 'Request submitted successfully!',
+	'employeeRequests.saveFailed': 'Failed to save the request.',
+	'employeeRequests.deleteConfirm': 'Are you sure you want to delete this request?',
+	'employeeRequests.deleted': 'Request deleted.',
+	'employeeRequests.deleteFailed': 'Failed to delete request.',
+	'employeeRequests.new': 'New Request',
+	'employeeRequests.submitTitle': 'Submit Employee Request',
+	'employeeRequests.updateTitle': 'Update Employee Request',
+	'employeeRequests.submitDescription': 'Fill in the details for a new request',
+	'employeeRequests.updateDescription': 'Modify the request details',
+	'employeeRequests.requestTypeRequired': 'Request Type *',
+	'employeeRequests.selectRequestType': 'Select request type',
+	'employeeRequests.amountRequired': 'Amount (SAR) *',
+	'employeeRequests.repaymentMonths': 'Repayment Period (Months)',
+	'employeeRequests.repaymentMonthsPlaceholder': 'Enter number of months',
+	'employeeRequests.monthlyDeductionLabel': 'Monthly Deduction:',
+	'employeeRequests.descriptionRequired': 'Description *',
+	'employeeRequests.descriptionPlaceholder': 'Describe the request...',
+	'employeeRequests.totalAdvances': 'Total Advances',
+	'employeeRequests.approvedAdvances': 'Approved loans & advances',
+	'employeeRequests.searchPlaceholder': 'Search requests...',
+	'employeeRequests.number': 'Request #',
+	'employeeRequests.details': 'Details',
+	'employeeRequests.requestedDate': 'Requested Date',
+	'employeeRequests.loading': 'Loading requests...',
+	'employeeRequests.months': '{count} months',
+	'employeeRequests.markCompleted': 'Mark Completed',
+	'employeeRequests.noMatches': 'No requests found matching your search.',
+	'employeeRequests.empty': 'No employee requests found',
+	'employeeRequests.detailsTitle': 'Request Details',
+	'employeeRequests.requestType': 'Request Type',
+	'employeeRequests.amount': 'Amount',
+	'employeeRequests.repaymentPeriod': 'Repayment Period',
+	'employeeRequests.monthlyDeduction': 'Monthly Deduction',
+	'employeeRequests.description': 'Description',
+
+	// Platform orders
+	'platformOrders.title': 'Platform Orders',
+	'platformOrders.subtitle': 'Manage orders from Amazon, Noon, and your website',
+	'platformOrders.status.confirmed': 'Confirmed',
+	'platformOrders.status.processing': 'Processing',
+	'platformOrders.status.shipped': 'Shipped',
+	'platformOrders.status.delivered': 'Delivered',
+	'platformOrders.paymentStatus.refunded': 'Refunded',
+	'platformOrders.paymentMethod.cod': 'Cash on Delivery',
+	'platformOrders.paymentMethod.card': 'Card',
+	'platformOrders.paymentMethod.bankTransfer': 'Bank Transfer',
+	'platformOrders.paymentMethod.applePay': 'Apple Pay',
+	'platformOrders.paymentMethod.tamara': 'Tamara',
+	'platformOrders.paymentMethod.tabby': 'Tabby',
+	'platformOrders.paymentMethod.onlinePayment': 'Online Payment',
+	'platformOrders.paymentMethod.other': 'Other',
+	'platformOrders.syncCustomerFailed': 'Failed to sync platform customer',
+	'platformOrders.syncingCustomers': 'Syncing customers from all orders...',
+	'platformOrders.customersSynced': 'Synced {customers} customers from {orders} orders',
+	'platformOrders.syncCustomersFailed': 'Failed to sync customers',
+	'platformOrders.itemFieldsRequired': 'Please fill all item fields',
+	'platformOrders.itemAdded': 'Item added',
+	'platformOrders.requiredFields': 'Please fill all required fields and add at least one item',
+	'platformOrders.added': 'Order added successfully',
+	'platformOrders.addFailed': 'Failed to add order',
+	'platformOrders.statusUpdated': 'Order status updated',
+	'platformOrders.statusUpdateFailed': 'Failed to update status',
+	'platformOrders.paymentStatusUpdated': 'Payment status updated',
+	'platformOrders.paymentStatusUpdateFailed': 'Failed to update payment status',
+	'platformOrders.updated': 'Order updated successfully',
+	'platformOrders.updateFailed': 'Failed to update order',
+	'platformOrders.totalOrders': 'Total Orders',
+	'platformOrders.acrossAllPlatforms': 'Across all platforms',
+	'platformOrders.pendingOrders': 'Pending Orders',
+	'platformOrders.awaitingConfirmation': 'Awaiting confirmation',
+	'platformOrders.beingPrepared': 'Being prepared',
+	'platformOrders.totalRevenue': 'Total Revenue',
+	'platformOrders.paidOrders': 'Paid orders',
+	'platformOrders.listTitle': 'Orders List',
+	'platformOrders.listDescription': 'View and manage all platform orders',
+	'platformOrders.syncCustomers': 'Sync Customers',
+	'platformOrders.addOrder': 'Add New Order',
+	'platformOrders.searchPlaceholder': 'Search orders...',
+	'platformOrders.platform': 'Platform',
+	'platformOrders.allPlatforms': 'All Platforms',
+	'platformOrders.orderNumberShort': 'Order #',
+	'platformOrders.items': 'Items',
+	'platformOrders.payment': 'Payment',
+	'platformOrders.created': 'Created',
+	'platformOrders.lastModified': 'Last Modified',
+	'platformOrders.loading': 'Loading orders...',
+	'platformOrders.empty': 'No orders found',
+	'platformOrders.itemCount': '{count} item(s)',
+	'platformOrders.detailsTitle': 'Order Details',
+	'platformOrders.detailsDescription': 'View complete order information',
+	'platformOrders.orderNumber': 'Order Number',
+	'platformOrders.orderDate': 'Order Date',
+	'platformOrders.paymentMethod': 'Payment Method',
+	'platformOrders.customerInformation': 'Customer Information',
+	'platformOrders.name': 'Name',
+	'platformOrders.shippingAddress': 'Shipping Address',
+	'platformOrders.orderItems': 'Order Items',
+	'platformOrders.product': 'Product',
+	'platformOrders.sku': 'SKU',
+	'platformOrders.qty': 'Qty',
+	'platformOrders.price': 'Price',
+	'platformOrders.orderSummary': 'Order Summary',
+	'platformOrders.subtotal': 'Subtotal',
+	'platformOrders.shipping': 'Shipping',
+	'platformOrders.tax': 'Tax (15%)',
+	'platformOrders.orderStatus': 'Order Status',
+	'platformOrders.paymentStatus': 'Payment Status',
+	'platformOrders.trackingNumber': 'Tracking Number',
+	'platformOrders.printInvoice': 'Print Invoice',
+	'platformOrders.statusDialogTitle': 'Update Order Status',
+	'platformOrders.statusDialogDescription': 'Update both order and payment status',
+	'platformOrders.addDescription': 'Create a new order from platform',
+	'platformOrders.platformRequired': 'Platform *',
+	'platformOrders.paymentMethodRequired': 'Payment Method *',
+	'platformOrders.initialOrderStatus': 'Initial Order Status',
+	'platformOrders.initialPaymentStatus': 'Initial Payment Status',
+	'platformOrders.customerNameRequired': 'Customer Name *',
+	'platformOrders.customerNamePlaceholder': 'Enter customer name',
+	'platformOrders.phoneRequired': 'Phone *',
+	'platformOrders.addressPlaceholder': 'Street address',
+	'platformOrders.cityRequired': 'City *',
+	'platformOrders.cityPlaceholder': 'City',
+	'platformOrders.shippingCost': 'Shipping Cost (SAR)',
+	'platformOrders.productNameRequired': 'Product Name *',
+	'platformOrders.productNamePlaceholder': 'e.g., Product ABC',
+	'platformOrders.skuRequired': 'SKU *',
+	'platformOrders.skuPlaceholder': 'e.g., SKU-12345',
+	'platformOrders.quantityRequired': 'Quantity *',
+	'platformOrders.priceRequired': 'Price (SAR) *',
+	'platformOrders.addItem': 'Add Item',
+	'platformOrders.notesPlaceholder': 'Additional notes...',
+	'platformOrders.createOrder': 'Create Order',
+
+	// Employee custody
+	'custody.title': 'Employee Custody',
+	'custody.subtitle': 'Manage items assigned to employees',
+	'custody.status.active': 'Active',
+	'custody.status.activeWithEmployee': 'Active (With Employee)',
+	'custody.status.returned': 'Returned',
+	'custody.status.damaged': 'Damaged',
+	'custody.status.lost': 'Lost',
+	'custody.condition.new': 'New',
+	'custody.condition.good': 'Good',
+	'custody.condition.fair': 'Fair',
+	'custody.condition.poor': 'Poor',
+	'custody.category.laptop': 'Laptop',
+	'custody.category.mobile': 'Mobile Phone',
+	'custody.category.tablet': 'Tablet',
+	'custody.category.monitor': 'Monitor',
+	'custody.category.printer': 'Printer',
+	'custody.category.vehicle': 'Vehicle',
+	'custody.category.accessCard': 'Access Card',
+	'custody.category.keys': 'Keys',
+	'custody.category.other': 'Other',
+	'custody.generalDepartment': 'General',
+	'custody.linkFailed': 'Failed to link custody items to employee record',
+	'custody.imageTooLarge': 'Image size should be less than 5MB',
+	'custody.requiredFields': 'Please fill all required fields',
+	'custody.invalidValue': 'Please enter a valid numeric value',
+	'custody.imageUploadFailed': 'Failed to upload image',
+	'custody.updated': 'Custody item updated successfully!',
+	'custody.added': 'Custody item added successfully!',
+	'custody.saveFailed': 'Failed to save custody item',
+	'custody.deleted': 'Custody item deleted successfully!',
+	'custody.deleteFailed': 'Failed to delete custody item',
+	'custody.newItem': 'New Custody Item',
+	'custody.totalItems': 'Total Items',
+	'custody.allItems': 'All custody items',
+	'custody.withEmployees': 'With employees',
+	'custody.backToInventory': 'Back to inventory',
+	'custody.needsAttention': 'Needs attention',
+	'custody.activeValue': 'Active Value',
+	'custody.currentValue': 'Current value',
+	'custody.searchPlaceholder': 'Search by item, employee, serial number...',
+	'custody.allCategories': 'All Categories',
+	'custody.empty': 'No custody items found',
+	'custody.number': 'Custody #',
+	'custody.item': 'Item',
+	'custody.category': 'Category',
+	'custody.employee': 'Employee',
+	'custody.dateIssued': 'Date Issued',
+	'custody.value': 'Value',
+	'custody.conditionLabel': 'Condition',
+	'custody.editTitle': 'Edit Custody Item',
+	'custody.addTitle': 'Add New Custody Item',
+	'custody.editDescription': 'Update custody item information',
+	'custody.addDescription': 'Register a new custody item',
+	'custody.tab.item': 'Item Details',
+	'custody.tab.employee': 'Employee Info',
+	'custody.tab.additional': 'Additional Info',
+	'custody.itemNameEnRequired': 'Item Name (English) *',
+	'custody.itemNameArRequired': 'Item Name (Arabic) *',
+	'custody.categoryRequired': 'Category *',
+	'custody.selectCategory': 'Select category',
+	'custody.serialNumber': 'Serial Number',
+	'custody.descriptionEn': 'Description (English)',
+	'custody.descriptionEnPlaceholder': 'Detailed description in English',
+	'custody.descriptionAr': 'Description (Arabic)',
+	'custody.itemValueRequired': 'Item Value (SAR) *',
+	'custody.conditionRequired': 'Condition *',
+	'custody.itemImage': 'Item Image',
+	'custody.uploadImage': 'Upload item image',
+	'custody.maxSize': 'Max size: 5MB',
+	'custody.selectEmployeeRequired': 'Select Employee *',
+	'custody.chooseEmployee': 'Choose employee from list',
+	'custody.employeeName': 'Employee Name',
+	'custody.employeeId': 'Employee ID',
+	'custody.dateIssuedRequired': 'Date Issued *',
+	'custody.statusRequired': 'Status *',
+	'custody.dateReturnedOptional': 'Date Returned (if applicable)',
+	'custody.location': 'Location',
+	'custody.locationPlaceholder': 'Riyadh Office / Field',
+	'custody.warrantyExpiry': 'Warranty Expiry',
+	'custody.notesPlaceholder': 'Additional notes or comments',
+	'custody.update': 'Update Custody Item',
+	'custody.add': 'Add Custody Item',
+	'custody.detailsTitle': 'Custody Item Details',
+	'custody.detailsDescription': 'Complete information about this custody item',
+	'custody.itemValue': 'Item Value',
+	'custody.duration': 'Duration',
+	'custody.employeeInformation': 'Employee Information',
+	'custody.name': 'Name',
+	'custody.descriptionEnShort': 'Description (EN)',
+	'custody.descriptionArShort': 'Description (AR)',
+	'custody.returnInformation': 'Return Information',
+	'custody.dateReturned': 'Date Returned:',
+	'custody.editItem': 'Edit Item',
+
+	// Fixed assets
+	'assets.title': 'Fixed Assets Management',
+	'assets.subtitle': 'Track and manage company assets',
+	'assets.status.active': 'Active',
+	'assets.status.underMaintenance': 'Under Maintenance',
+	'assets.status.disposed': 'Disposed',
+	'assets.status.sold': 'Sold',
+	'assets.condition.excellent': 'Excellent',
+	'assets.condition.good': 'Good',
+	'assets.condition.fair': 'Fair',
+	'assets.condition.poor': 'Poor',
+	'assets.category.realEstate': 'Real Estate',
+	'assets.category.vehicles': 'Vehicles',
+	'assets.category.machinery': 'Machinery & Equipment',
+	'assets.category.itEquipment': 'IT Equipment',
+	'assets.category.furniture': 'Furniture & Fixtures',
+	'assets.category.other': 'Other',
+	'assets.department.administration': 'Administration',
+	'assets.department.manufacturing': 'Manufacturing',
+	'assets.department.it': 'IT',
+	'assets.department.sales': 'Sales',
+	'assets.department.logistics': 'Logistics',
+	'assets.department.finance': 'Finance',
+	'assets.imageTooLarge': 'Image size should be less than 5MB',
+	'assets.loadForEditFailed': 'Unable to load asset for editing',
+	'assets.requiredFields': 'Please fill all required fields',
+	'assets.purchasePriceInvalid': 'Purchase price must be a number',
+	'assets.currentValueInvalid': 'Current value must be a number',
+	'assets.depreciationRateInvalid': 'Depreciation rate must be a number',
+	'assets.usefulLifeInvalid': 'Useful life must be a number',
+	'assets.imageUploadFailed': 'Failed to upload image',
+	'assets.updated': 'Asset updated successfully!',
+	'assets.added': 'Asset added successfully!',
+	'assets.saveFailed': 'Failed to save asset',
+	'assets.deleted': 'Asset deleted successfully!',
+	'assets.deleteFailed': 'Failed to delete asset',
+	'assets.newAsset': 'New Asset',
+	'assets.totalAssets': 'Total Assets',
+	'assets.allAssets': 'All assets',
+	'assets.activeAssets': 'Active Assets',
+	'assets.inUse': 'In use',
+	'assets.purchaseValue': 'Purchase Value',
+	'assets.originalCost': 'Original cost',
+	'assets.currentValue': 'Current Value',
+	'assets.bookValue': 'Book value',
+	'assets.maintenance': 'Maintenance',
+	'assets.underService': 'Under service',
+	'assets.searchPlaceholder': 'Search by name, asset number, serial number...',
+	'assets.allCategories': 'All Categories',
+	'assets.loadFailed': 'Failed to load assets',
+	'assets.loading': 'Loading assets...',
+	'assets.empty': 'No assets found',
+	'assets.number': 'Asset #',
+	'assets.assetName': 'Asset Name',
+	'assets.category': 'Category',
+	'assets.location': 'Location',
+	'assets.purchaseDate': 'Purchase Date',
+	'assets.purchasePrice': 'Purchase Price',
+	'assets.conditionLabel': 'Condition',
+	'assets.percentOfOriginal': '{percent} of original',
+	'assets.editTitle': 'Edit Asset',
+	'assets.addTitle': 'Add New Asset',
+	'assets.editDescription': 'Update asset information',
+	'assets.addDescription': 'Register a new company asset',
+	'assets.tab.basic': 'Basic Info',
+	'assets.tab.financial': 'Financial',
+	'assets.tab.maintenance': 'Maintenance',
+	'assets.tab.additional': 'Additional',
+	'assets.assetNameEnRequired': 'Asset Name (English) *',
+	'assets.assetNameEnPlaceholder': 'Office Building',
+	'assets.assetNameArRequired': 'Asset Name (Arabic) *',
+	'assets.categoryRequired': 'Category *',
+	'assets.selectCategory': 'Select category',
+	'assets.typeRequired': 'Asset Type *',
+	'assets.typePlaceholder': 'Building, Vehicle, Equipment...',
+	'assets.locationRequired': 'Location *',
+	'assets.locationPlaceholder': 'Riyadh Office',
+	'assets.departmentRequired': 'Department *',
+	'assets.selectDepartment': 'Select department',
+	'assets.descriptionEn': 'Description (English)',
+	'assets.descriptionEnPlaceholder': 'Detailed description in English',
+	'assets.descriptionAr': 'Description (Arabic)',
+	'assets.statusRequired': 'Status *',
+	'assets.conditionRequired': 'Condition *',
+	'assets.purchaseDateRequired': 'Purchase Date *',
+	'assets.purchasePriceRequired': 'Purchase Price (SAR) *',
+	'assets.currentValueSar': 'Current Value (SAR)',
+	'assets.depreciationRate': 'Depreciation Rate (%)',
+	'assets.usefulLife': 'Useful Life (Years)',
+	'assets.enterManually': 'Enter manually',
+	'assets.supplierNamePlaceholder': 'Enter supplier name...',
+	'assets.selectSupplier': 'Select supplier...',
+	'assets.totalDepreciation': 'Total Depreciation',
+	'assets.depreciationPercent': 'Depreciation %',
+	'assets.remainingValue': 'Remaining Value',
+	'assets.warrantyExpiry': 'Warranty Expiry',
+	'assets.lastMaintenanceDate': 'Last Maintenance Date',
+	'assets.nextMaintenanceDate': 'Next Maintenance Date',
+	'assets.serialNumber': 'Serial Number',
+	'assets.model': 'Model',
+	'assets.modelPlaceholder': 'Model name/number',
+	'assets.manufacturer': 'Manufacturer',
+	'assets.manufacturerPlaceholder': 'Manufacturer name',
+	'assets.notesPlaceholder': 'Additional notes or comments',
+	'assets.assetImage': 'Asset Image',
+	'assets.imageAlt': 'Asset',
+	'assets.uploadImage': 'Upload asset image',
+	'assets.maxSize': 'Max size: 5MB',
+	'assets.update': 'Update Asset',
+	'assets.add': 'Add Asset',
+	'assets.detailsTitle': 'Asset Details',
+	'assets.detailsDescription': 'Complete information about this asset',
+	'assets.depreciation': 'Depreciation',
+	'assets.depreciationPerYear': '{rate}/year',
+	'assets.assetAge': 'Asset Age',
+	'assets.years': '{count} year(s)',
+	'assets.assetInformation': 'Asset Information',
+	'assets.descriptionEnShort': 'Description (EN)',
+	'assets.descriptionArShort': 'Description (AR)',
+	'assets.additionalDetails': 'Additional Details',
+	'assets.maintenanceInformation': 'Maintenance Information',
+	'assets.lastMaintenance': 'Last Maintenance',
+	'assets.nextMaintenance': 'Next Maintenance',
+
+	// My workspace
+	'myWorkspace.generalCategory': 'General',
+	'myWorkspace.unnamedItem': 'Unnamed Item',
+	'myWorkspace.employeeRequest': 'Employee Request',
+	'myWorkspace.supportTicket': 'Support Ticket',
+	'myWorkspace.approvedBy': 'Approved by {name}',
+	'myWorkspace.requiredFields': 'Please fill all required fields',
+	'myWorkspace.notLinked': 'Your account is not linked to an employee profile yet.',
+	'myWorkspace.endBeforeStart': 'End date must be after start date',
+	'myWorkspace.requestSubmitted': 'Request submitted successfully!',
+	'myWorkspace.requestFailed': 'Failed to submit request',
+	'myWorkspace.leaveSubmitted': 'Leave request submitted successfully!',
+	'myWorkspace.leaveFailed': 'Failed to submit leave request',
+	'myWorkspace.taskStatusFailed': 'Failed to update task status',
+	'myWorkspace.years': '{count} year(s)',
+	'myWorkspace.months': '{count} month(s)',
+	'myWorkspace.notLinkedTitle': 'Employee profile not linked',
+	'myWorkspace.notLinkedDescription': 'We could not find an employee record connected to your account. Please contact your administrator to complete your setup.',
+	'myWorkspace.loading': 'Loading your workspace data...',
+	'myWorkspace.linkToRequest': 'Link an employee profile to submit requests',
+	'myWorkspace.linkToLeave': 'Link an employee profile to request leave',
+	'myWorkspace.newRequest': 'New Request',
+	'myWorkspace.requestLeave': 'Request Leave',
+	'myWorkspace.pendingRequests': 'Pending Requests',
+	'myWorkspace.awaitingApproval': 'Awaiting approval',
+	'myWorkspace.leaveRequests': 'Leave Requests',
+	'myWorkspace.pendingApproval': 'Pending approval',
+	'myWorkspace.upcomingVisits': 'Upcoming Visits',
+	'myWorkspace.scheduled': 'Scheduled',
+	'myWorkspace.pendingTasks': 'Pending Tasks',
+	'myWorkspace.toComplete': 'To complete',
+	'myWorkspace.custodyValue': 'Custody Value',
+	'myWorkspace.custodyValueHint': 'Total value of items',
+	'myWorkspace.tabProfile': 'Profile & Custody',
+	'myWorkspace.tabTasks': 'My Tasks',
+	'myWorkspace.tabRequests': 'My Requests',
+	'myWorkspace.tabLeaves': 'My Leaves',
+	'myWorkspace.tabVisits': 'My Visits',
+	'myWorkspace.employeeInformation': 'Employee Information',
+	'myWorkspace.employeeNumber': 'Employee Number',
+	'myWorkspace.nationalId': 'National ID',
+	'myWorkspace.dateOfBirth': 'Date of Birth',
+	'myWorkspace.joiningDate': 'Joining Date',
+	'myWorkspace.employmentDuration': 'Employment Duration',
+	'myWorkspace.contractType': 'Contract Type',
+	'myWorkspace.contactInformation': 'Contact Information',
+	'myWorkspace.address': 'Address',
+	'myWorkspace.emergencyContact': 'Emergency Contact',
+	'myWorkspace.contactPerson': 'Contact Person',
+	'myWorkspace.emergencyPhone': 'Emergency Phone',
+	'myWorkspace.financialInformation': 'Financial Information',
+	'myWorkspace.basicSalary': 'Basic Salary',
+	'myWorkspace.allowances': 'Allowances',
+	'myWorkspace.totalSalary': 'Total Salary',
+	'myWorkspace.bankDetails': 'Bank Details',
+	'myWorkspace.bankName': 'Bank Name',
+	'myWorkspace.accountNumber': 'Account Number',
+	'myWorkspace.iban': 'IBAN',
+	'myWorkspace.custodySummary': 'Custody Summary',
+	'myWorkspace.totalItems': 'Total Items',
+	'myWorkspace.totalValue': 'Total Value',
+	'myWorkspace.custodyItems': 'Custody Items',
+	'myWorkspace.custodyItemsDescription': 'All equipment and assets assigned to you',
+	'myWorkspace.serialNumber': 'Serial Number',
+	'myWorkspace.dateReceived': 'Date Received',
+	'myWorkspace.value': 'Value',
+	'myWorkspace.category': 'Category',
+	'myWorkspace.note': 'Note:',
+	'myWorkspace.noRequests': 'No requests yet',
+	'myWorkspace.firstRequest': 'Submit Your First Request',
+	'myWorkspace.submittedOn': 'Submitted: {date}',
+	'myWorkspace.response': 'Response:',
+	'myWorkspace.noLeaves': 'No leave requests',
+	'myWorkspace.firstLeave': 'Request Your First Leave',
+	'myWorkspace.reason': 'Reason:',
+	'myWorkspace.noVisits': 'No visits scheduled',
+	'myWorkspace.viewDetails': 'View Details',
+	'myWorkspace.noTasks': 'No tasks assigned',
+	'myWorkspace.dueOn': 'Due: {date}',
+	'myWorkspace.submitRequestTitle': 'Submit New Request',
+	'myWorkspace.submitRequestDescription': 'Fill in the details for your request',
+	'myWorkspace.requestType': 'Request Type *',
+	'myWorkspace.selectType': 'Select type',
+	'myWorkspace.subject': 'Subject *',
+	'myWorkspace.subjectPlaceholder': 'Brief description of your request',
+	'myWorkspace.description': 'Description *',
+	'myWorkspace.descriptionPlaceholder': 'Provide detailed information about your request',
+	'myWorkspace.submitting': 'Submitting...',
+	'myWorkspace.submitRequest': 'Submit Request',
+	'myWorkspace.leaveDialogDescription': 'Submit your leave request',
+	'myWorkspace.leaveType': 'Leave Type *',
+	'myWorkspace.startDate': 'Start Date *',
+	'myWorkspace.endDate': 'End Date *',
+	'myWorkspace.totalDays': 'Total Days:',
+	'myWorkspace.reasonRequired': 'Reason *',
+	'myWorkspace.reasonPlaceholder': 'Explain the reason for your leave',
+	'myWorkspace.submitLeave': 'Submit Leave Request',
+
+	// Calendar and reminders
+	'reminders.title': 'Calendar & Reminders',
+	'reminders.subtitle': 'Manage your schedule, appointments, and reminders',
+	'reminders.type.visit': 'Visit',
+	'reminders.type.payment': 'Payment',
+	'reminders.type.contract': 'Contract',
+	'reminders.type.followUp': 'Follow-up',
+	'reminders.type.other': 'Other',
+	'reminders.priority.high': 'High',
+	'reminders.priority.medium': 'Medium',
+	'reminders.priority.low': 'Low',
+	'reminders.completed': 'Completed',
+	'reminders.visitTitle': 'Visit: {customer}',
+	'reminders.monthlyVisitTitle': 'Monthly Visit: {customer}',
+	'reminders.noAddress': 'No address',
+	'reminders.paymentDueTitle': 'Payment Due: {customer}',
+	'reminders.invoiceDescription': 'Invoice {number} - Amount: {amount}',
+	'reminders.unknownCustomer': 'Unknown Customer',
+	'reminders.loadFailed': 'Failed to load reminders',
+	'reminders.visitsLoadFailed': 'Failed to load visits',
+	'reminders.invoicesLoadFailed': 'Failed to load invoice due dates',
+	'reminders.requiredFields': 'Please fill all required fields',
+	'reminders.noCreatePermission': 'You do not have permission to create reminders',
+	'reminders.noUpdateLinkedPermission': 'You do not have permission to update visit or invoice reminders',
+	'reminders.noDeleteLinkedPermission': 'You do not have permission to delete visit or invoice reminders',
+	'reminders.noDeletePermission': 'You do not have permission to delete reminders',
+	'reminders.linkedManagedElsewhere': 'Visit and invoice reminders are managed through their respective modules',
+	'reminders.notFound': 'Reminder not found',
+	'reminders.created': 'Reminder created successfully!',
+	'reminders.createFailed': 'Failed to create reminder',
+	'reminders.updated': 'Reminder updated successfully!',
+	'reminders.updateFailed': 'Failed to update reminder',
+	'reminders.deleted': 'Reminder deleted successfully!',
+	'reminders.deleteFailed': 'Failed to delete reminder',
+	'reminders.visitStatusFailed': 'Failed to update visit status',
+	'reminders.markedCompleted': 'Reminder marked as completed!',
+	'reminders.completeFailed': 'Failed to complete reminder',
+	'reminders.reopened': 'Reminder reopened and set to pending.',
+	'reminders.reopenFailed': 'Failed to reopen reminder',
+	'reminders.cancelled': 'Reminder cancelled.',
+	'reminders.cancelFailed': 'Failed to cancel reminder',
+	'reminders.assignedTo': 'Assigned to: {name}',
+	'reminders.completedAt': 'Completed at: {date}',
+	'reminders.complete': 'Complete',
+	'reminders.done': 'Done',
+	'reminders.reopen': 'Reopen',
+	'reminders.addReminder': 'Add Reminder',
+	'reminders.createTitle': 'Create New Reminder',
+	'reminders.createDescription': 'Set up a new reminder or appointment',
+	'reminders.type': 'Type',
+	'reminders.selectType': 'Select type',
+	'reminders.priority': 'Priority',
+	'reminders.selectPriority': 'Select priority',
+	'reminders.titleRequired': 'Title *',
+	'reminders.titlePlaceholder': 'Enter reminder title',
+	'reminders.description': 'Description',
+	'reminders.descriptionPlaceholder': 'Additional details...',
+	'reminders.dateRequired': 'Date *',
+	'reminders.timeRequired': 'Time *',
+	'reminders.customerOptional': 'Customer (Optional)',
+	'reminders.customerPlaceholder': 'Customer name',
+	'reminders.assignToOptional': 'Assign To (Optional)',
+	'reminders.assignToPlaceholder': 'Representative name',
+	'reminders.createReminder': 'Create Reminder',
+	'reminders.editTitle': 'Edit Reminder',
+	'reminders.editDescription': 'Update reminder details',
+	'reminders.selectStatus': 'Select status',
+	'reminders.todayTitle': "Today's Reminders",
+	'reminders.editReminder': 'Edit reminder',
+	'reminders.deleteReminder': 'Delete reminder',
+	'reminders.calendar': 'Calendar',
+	'reminders.calendarDescription': 'View and manage your schedule',
+	'reminders.activities': 'Activities',
+	'reminders.activitiesFor': 'Activities for {date}',
+	'reminders.noActivities': 'No activities scheduled for this date',
+	'reminders.upcoming': 'Upcoming',
+	'reminders.upcomingDescription': 'Your next reminders',
+	'reminders.noUpcoming': 'No upcoming reminders',
+	'reminders.allReminders': 'All Reminders',
+	'reminders.allDescription': 'View and manage all reminders',
+	'reminders.filter.visits': 'Visits',
+	'reminders.filter.payments': 'Payments',
+	'reminders.filter.contracts': 'Contracts',
+	'reminders.filter.followUps': 'Follow-ups',
+	'reminders.tabUpcoming': 'Upcoming (Next 5 Days)',
+	'reminders.tabMonth': 'All (This Month)',
+	'reminders.allInMonth': 'All Reminders in {month}',
+	'reminders.noneInMonth': 'No reminders in {month}',
+
+	// Backups
+	'backup.never': 'Never',
+	'backup.sizeKb': '{size} KB',
+	'backup.sizeMb': '{size} MB',
+	'backup.settingsLoadFailed': 'Failed to load backup settings',
+	'backup.historyLoadFailed': 'Failed to load backup history',
+	'backup.completedOpening': 'Backup completed! Opening download...',
+	'backup.completedCheckHistory': 'Backup completed! Check the backup history to download.',
+	'backup.completedSuccessCheckHistory': 'Backup completed successfully! Check the backup history to download.',
+	'backup.completedDownloadStarted': 'Backup completed! Download started.',
+	'backup.failedWithError': 'Backup failed: {error}',
+	'backup.enabled': 'Backup enabled',
+	'backup.disabled': 'Backup disabled',
+	'backup.toggleFailed': 'Failed to update backup setting',
+	'backup.cancelledSuccess': 'Backup cancelled successfully',
+	'backup.cancelInDatabaseFailed': 'Failed to cancel backup in database. It may still be running.',
+	'backup.pollingCancelled': 'Backup polling cancelled. The backup may still be running in the background.',
+	'backup.started': 'Backup started. This may take several minutes for large databases...',
+	'backup.failedCheckLogs': 'Backup failed. Check GitHub Actions logs for details.',
+	'backup.unknownStatus': 'Unknown backup status: {status}',
+	'backup.finalizingStep': 'Finalizing backup (monitoring in background)',
+	'backup.finishedFinalizing': 'Backup finished. Waiting for Supabase to finalize — monitoring in background.',
+	'backup.stillRunning': 'Backup is still running. The system will continue checking automatically. You can check the backup history for updates.',
+	'backup.createFailed': 'Failed to create backup. Please try again.',
+	'backup.checkEdgeLogs': 'Check Supabase Edge Function logs for more details if needed.',
+	'backup.noFile': 'No backup file available',
+	'backup.invalidReference': 'Invalid backup file reference',
+	'backup.downloadStarted': 'Download started',
+	'backup.urlFailed': 'Failed to generate download URL',
+	'backup.invalidId': 'Invalid backup ID format',
+	'backup.cancelFailed': 'Failed to cancel backup',
+	'backup.markedCancelled': 'Backup marked as cancelled ({count} backup(s) cancelled)',
+	'backup.noStuck': 'No stuck backups found',
+	'backup.noValidIds': 'No valid backup IDs to cancel',
+	'backup.cancelAllFailed': 'Failed to cancel backups',
+	'backup.markedCancelledCount': '{count} backup(s) marked as cancelled',
+	'backup.cancelStuckFailed': 'Failed to cancel stuck backups',
+	'backup.deleteFailed': 'Failed to delete backup',
+	'backup.deleted': 'Backup deleted successfully',
+	'backup.invalidFileType': 'Invalid file type. Please select a ZIP file.',
+	'backup.fileTooLarge': 'File size exceeds 500MB limit. Please select a smaller backup file.',
+	'backup.invalidFileName': 'Invalid file name. Please use a valid filename.',
+	'backup.selectFile': 'Please select a backup file to restore',
+	'backup.restoreSuccess': 'Backup restore completed successfully! Data has been merged with existing data.',
+	'backup.restoreWarnings': 'Restore completed with warnings. Check the results for details.',
+	'backup.uploadFailed': 'Upload failed',
+	'backup.restoreFailed': 'Failed to restore backup',
+	'backup.enterEmail': 'Please enter an email address',
+	'backup.emailSent': 'Email sent successfully',
+	'backup.emailFailed': 'Failed to send email',
+	'backup.enterPhone': 'Please enter a phone number',
+	'backup.whatsappOpened': 'WhatsApp share link opened',
+	'backup.whatsappSent': 'WhatsApp message sent successfully',
+	'backup.whatsappFailed': 'Failed to share via WhatsApp',
+	'backup.autoDownloaded': 'Backup automatically downloaded',
+	'backup.status.success': 'Success',
+	'backup.status.failed': 'Failed',
+	'backup.status.inProgressPercent': 'In Progress ({progress}%)',
+	'backup.status.cancelled': 'Cancelled',
+	'backup.configTitle': 'Backup Configuration',
+	'backup.configDescription': 'Configure automatic daily backups and create manual backups on demand',
+	'backup.enableDaily': 'Enable Automatic Daily Backups',
+	'backup.enableDailyDescription': 'Backups will run automatically once per day at the scheduled time',
+	'backup.lastBackup': 'Last backup:',
+	'backup.creating': 'Creating Backup...',
+	'backup.downloadNow': 'Download Backup Now',
+	'backup.restore': 'Restore Backup',
+	'backup.progressTimedOut': 'Backup taking longer than expected ({progress}%). Still monitoring in background...',
+	'backup.progress': 'Backup in progress... {progress}%',
+	'backup.complete': 'Backup complete!',
+	'backup.currentStep': 'Current step: {step}',
+	'backup.timedOutHint': 'The system is checking the backup history automatically. You can close this and check the history tab.',
+	'backup.uploadHistory': 'Upload History',
+	'backup.clear': 'Clear',
+	'backup.upload.completed': 'Completed',
+	'backup.upload.error': 'Error',
+	'backup.upload.uploading': 'Uploading',
+	'backup.sharingTitle': 'Backup Sharing & Auto-Download',
+	'backup.autoDownload': 'Auto-Download Automatic Backups',
+	'backup.autoDownloadDescription': 'Automatically download backups when they complete',
+	'backup.emailSharing': 'Email Sharing',
+	'backup.emailSharingDescription': 'Automatically send backups via email',
+	'backup.whatsappSharing': 'WhatsApp Sharing',
+	'backup.whatsappSharingDescription': 'Automatically share backups via WhatsApp',
+	'backup.historyTitle': 'Backup History',
+	'backup.historyDescription': 'Recent backup operations',
+	'backup.cancelAllStuck': 'Cancel All Stuck',
+	'backup.filters': 'Filters:',
+	'backup.allStatuses': 'All Statuses',
+	'backup.filter.success': 'Successful',
+	'backup.filter.inProgress': 'In Progress',
+	'backup.startDate': 'Start Date',
+	'backup.endDate': 'End Date',
+	'backup.searchFilename': 'Search (Filename)',
+	'backup.searchPlaceholder': 'Search backups...',
+	'backup.clearFilters': 'Clear Filters',
+	'backup.noHistory': 'No backup history available',
+	'backup.dateTime': 'Date & Time',
+	'backup.size': 'Size',
+	'backup.download': 'Download',
+	'backup.shareEmail': 'Share via Email',
+	'backup.shareWhatsapp': 'Share via WhatsApp',
+	'backup.failedTitle': 'Backup Failed',
+	'backup.details': 'Details',
+	'backup.failedNoDetails': 'Failed - No error details',
+	'backup.cancelTitle': 'Cancel Backup',
+	'backup.cancelDescription': "Are you sure you want to mark this backup as cancelled? This will stop it from showing as 'in progress'. The backup workflow may still be running in the background.",
+	'backup.keepIt': 'No, Keep It',
+	'backup.cancelling': 'Cancelling...',
+	'backup.confirmCancel': 'Yes, Cancel Backup',
+	'backup.cancelAllTitle': 'Cancel All Stuck Backups',
+	'backup.cancelAllDescription': "Are you sure you want to mark all stuck backups as cancelled? This will stop them from showing as 'in progress'. The backup workflows may still be running in the background.",
+	'backup.keepThem': 'No, Keep Them',
+	'backup.confirmCancelAll': 'Yes, Cancel All',
+	'backup.deleteTitle': 'Delete Backup',
+	'backup.deleteDescription': 'This action cannot be undone. The backup record will be permanently removed.',
+	'backup.backupDate': 'Backup Date:',
+	'backup.deleteConfirm': 'Are you sure you want to delete this backup record? This will remove it from the history permanently.',
+	'backup.deleting': 'Deleting...',
+	'backup.restoreDescription': 'Upload a backup file to restore data. The restore will merge data with existing records without overwriting them.',
+	'backup.fileLabel': 'Backup File (ZIP)',
+	'backup.selected': 'Selected:',
+	'backup.importantNotes': 'Important Notes:',
+	'backup.noteMerge': 'Data will be merged with existing records (no overwrites)',
+	'backup.noteAuth': "Auth users will be created only if they don't exist",
+	'backup.noteStorage': "Storage files will be uploaded only if they don't exist",
+	'backup.noteSql': 'Database SQL restore requires manual execution via Supabase SQL Editor or psql',
+	'backup.restoreResults': 'Restore Results:',
+	'backup.database': 'Database:',
+	'backup.restoredRows': 'Restored ({count} rows)',
+	'backup.notRestored': 'Not restored',
+	'backup.authUsers': 'Auth Users:',
+	'backup.mergedUsers': 'Merged {count} user(s)',
+	'backup.skipped': ', skipped {count}',
+	'backup.storageFiles': 'Storage Files:',
+	'backup.uploadedFiles': 'Uploaded {count} file(s)',
+	'backup.restoring': 'Restoring...',
+	'backup.shareEmailTitle': 'Share Backup via Email',
+	'backup.shareEmailDescription': 'Enter the email address to send the backup download link',
+	'backup.emailAddress': 'Email Address',
+	'backup.sending': 'Sending...',
+	'backup.sendEmail': 'Send Email',
+	'backup.shareWhatsappTitle': 'Share Backup via WhatsApp',
+	'backup.shareWhatsappDescription': 'Enter the phone number (with country code) to share the backup',
+	'backup.phoneNumber': 'Phone Number',
+	'backup.countryCodeHint': 'Include country code (e.g., +1 for US, +44 for UK)',
+	'backup.sharing': 'Sharing...',
+
+	// Returns
+	'returns.reason.defective': 'Defective products',
+	'returns.reason.wrongItems': 'Wrong items delivered',
+	'returns.reason.poorQuality': 'Poor quality',
+	'returns.reason.damaged': 'Damaged during shipping',
+	'returns.reason.notAsDescribed': 'Not as described',
+	'returns.reason.duplicate': 'Duplicate order',
+	'returns.reason.other': 'Other',
+	'returns.status.completed': 'Completed',
+	'returns.type.purchase': 'Purchase',
+	'returns.type.expense': 'Expense',
+	'returns.type.purchaseOrder': 'Purchase Order',
+	'returns.comboSearch': 'Search...',
+	'returns.noResults': 'No results found.',
+	'returns.syncItemsFailed': 'Failed to sync purchase order return items',
+	'returns.allReturned': 'All quantities for this item have already been returned.',
+	'returns.balanceUpdateFailed': 'Failed to update supplier balance',
+	'returns.enterInvoiceNumber': 'Please enter the supplier invoice number',
+	'returns.selectSupplier': 'Please select the supplier for this return',
+	'returns.selectPurchase': 'Please select a purchase order',
+	'returns.enterExpenseReference': 'Please enter the expense reference number',
+	'returns.selectExpense': 'Please select an expense',
+	'returns.selectReason': 'Please select a reason',
+	'returns.amountRequired': 'Return amount must be greater than zero',
+	'returns.created': 'Return created successfully',
+	'returns.updated': 'Return updated successfully',
+	'returns.saveFailed': 'Failed to save return',
+	'returns.deleteConfirm': 'Are you sure you want to delete this return?',
+	'returns.deleted': 'Return deleted successfully',
+	'returns.deleteFailed': 'Failed to delete return',
+	'returns.statusUpdated': 'Return marked as {status}',
+	'returns.statusUpdateFailed': 'Failed to update status',
+	'returns.title': 'Returns Management',
+	'returns.subtitle': 'Track and manage returns for purchase orders and expenses',
+	'returns.syncing': 'Syncing data…',
+	'returns.new': 'New Return',
+	'returns.totalReturns': 'Total Returns',
+	'returns.allRequests': 'All return requests',
+	'returns.pendingReturns': 'Pending Returns',
+	'returns.awaitingApproval': 'Awaiting approval',
+	'returns.approvedCompleted': 'Approved / Completed',
+	'returns.cleared': 'Returns cleared',
+	'returns.totalValue': 'Total Return Value',
+	'returns.owedBack': 'Amount owed back to us',
+	'returns.listTitle': 'Returns',
+	'returns.searchPlaceholder': 'Search by code, number, supplier, or reason…',
+	'returns.typeFilter': 'Type',
+	'returns.allTypes': 'All Types',
+	'returns.return': 'Return',
+	'returns.relatedDocument': 'Related Document',
+	'returns.supplier': 'Supplier',
+	'returns.noReturns': 'No returns found',
+	'returns.ref': 'Ref: {reference}',
+	'returns.viewDetails': 'View details',
+	'returns.approve': 'Approve',
+	'returns.reject': 'Reject',
+	'returns.markCompleted': 'Mark Completed',
+	'returns.complete': 'Complete',
+	'returns.createTitle': 'Create Return',
+	'returns.updateTitle': 'Update Return',
+	'returns.createDescription': 'Select a purchase order or expense to register a return.',
+	'returns.updateDescription': 'Modify the return details and adjust the owed balance if necessary.',
+	'returns.returnType': 'Return Type',
+	'returns.manualReference': 'Manual reference',
+	'returns.manualHintPurchase': 'Enable if the purchase order is not listed above.',
+	'returns.manualHintExpense': 'Enable if the expense is not listed above.',
+	'returns.invoiceNumberRequired': 'Invoice Number *',
+	'returns.invoiceNumberPlaceholder': 'Enter supplier invoice number',
+	'returns.invoiceDate': 'Invoice Date',
+	'returns.supplierRequired': 'Supplier *',
+	'returns.supplierPlaceholder': 'Select supplier',
+	'returns.purchasePlaceholder': 'Select purchase order',
+	'returns.purchaseSummary': 'Purchase Summary',
+	'returns.paymentStatus': 'Payment Status',
+	'returns.items': 'Items',
+	'returns.subtotal': 'Subtotal',
+	'returns.paid': 'Paid',
+	'returns.remaining': 'Remaining',
+	'returns.selectItems': 'Select Items to Return',
+	'returns.selectItemsDescription': 'Choose the specific lines you want to include in this return.',
+	'returns.selectAll': 'Select All',
+	'returns.clear': 'Clear',
+	'returns.item': 'Item',
+	'returns.orderedRemaining': 'Ordered / Remaining',
+	'returns.returnQty': 'Return Qty',
+	'returns.unitPrice': 'Unit Price',
+	'returns.lineTotal': 'Line Total',
+	'returns.noPurchaseItems': 'No items found for this purchase order.',
+	'returns.toggleItem': 'Toggle return for {item}',
+	'returns.remainingShort': 'Rem: {count}',
+	'returns.expenseReferenceRequired': 'Expense Reference *',
+	'returns.expenseReferencePlaceholder': 'Enter expense reference number',
+	'returns.expenseDate': 'Expense Date',
+	'returns.expensePlaceholder': 'Select expense',
+	'returns.expenseSummary': 'Expense Summary',
+	'returns.paidTo': 'Paid To',
+	'returns.baseAmount': 'Base Amount',
+	'returns.tax': 'Tax',
+	'returns.totalPaid': 'Total Paid',
+	'returns.reasonRequired': 'Reason *',
+	'returns.reasonPlaceholder': 'Choose reason',
+	'returns.additionalNotes': 'Additional Notes',
+	'returns.notesPlaceholder': 'Provide any additional context for this return…',
+	'returns.additionalManualItems': 'Additional Manual Items',
+	'returns.returnItems': 'Return Items',
+	'returns.addItem': 'Add Item',
+	'returns.manualItemsHintPurchase': 'Select items from the purchase order above or add manual adjustments here.',
+	'returns.manualItemsHintExpense': 'Add line items for this return or leave empty to use the amount fields below.',
+	'returns.description': 'Description',
+	'returns.quantity': 'Quantity',
+	'returns.remove': 'Remove',
+	'returns.itemDescription': 'Item description',
+	'returns.returnAmount': 'Return Amount (SAR)',
+	'returns.amountFromItems': 'Amount derived from items above.',
+	'returns.amountBeforeTax': 'Enter the amount being returned before tax.',
+	'returns.taxAmount': 'Tax Amount (SAR)',
+	'returns.totalReturn': 'Total Return (SAR)',
+	'returns.detailsTitle': 'Return Details',
+	'returns.detailsDescription': 'Review the full breakdown of this return and its associated transaction.',
+	'returns.createdLabel': 'Created',
+	'returns.reason': 'Reason',
+	'returns.manualEntry': 'Manual entry',
+	'returns.returnValue': 'Return Value',
+	'returns.totalRefunded': 'Total Refunded',
+	'returns.returnedItems': 'Returned Items',
+	'returns.returnedItemsDescription': 'Quantities and values returned to inventory',
+	'returns.qty': 'Qty',
+	'returns.notesAudit': 'Notes & Audit',
+	'returns.createdAt': 'Created at',
+	'returns.supplierImpact': 'Supplier Impact',
+	'returns.balanceIncreased': 'Balance increased by {amount}',
+	'returns.noSupplierImpact': 'No supplier impact',
+	'returns.manualInvoice': 'Manual invoice',
+	'returns.noNotes': 'No additional notes provided.',
+
+	// Inventory
+	'inventory.category.general': 'General',
+	'inventory.category.essentialOils': 'Essential Oils',
+	'inventory.category.concentrates': 'Concentrates',
+	'inventory.category.diffusers': 'Diffusers',
+	'inventory.category.accessories': 'Accessories',
+	'inventory.category.bundles': 'Bundles',
+	'inventory.category.rawMaterials': 'Raw Materials',
+	'inventory.movement.opening': 'Opening balance',
+	'inventory.movement.adjustment': 'Adjustment',
+	'inventory.movement.sale': 'Sale (invoice)',
+	'inventory.movement.purchase': 'Purchase received',
+	'inventory.movement.purchaseReturn': 'Returned to supplier',
+	'inventory.movement.mfgConsumption': 'Used in production',
+	'inventory.movement.mfgOutput': 'Produced',
+	'inventory.status.inStock': 'In Stock',
+	'inventory.status.lowStock': 'Low Stock',
+	'inventory.status.outOfStock': 'Out of Stock',
+	'inventory.unit.bottle': 'Bottle',
+	'inventory.unit.box': 'Box',
+	'inventory.unit.piece': 'Piece',
+	'inventory.unit.set': 'Set',
+	'inventory.unit.kg': 'Kilogram',
+	'inventory.unit.liter': 'Liter',
+	'inventory.unit.pack': 'Pack',
+	'inventory.type.bundle': 'Bundle',
+	'inventory.type.simple': 'Simple',
+	'inventory.imageTooLarge': 'Image size should be less than 5MB',
+	'inventory.requiredFields': 'Please fill all required fields',
+	'inventory.imageUploadFailed': 'Failed to upload image',
+	'inventory.updated': 'Product updated successfully!',
+	'inventory.added': 'Product added successfully!',
+	'inventory.updateFailed': 'Failed to update product',
+	'inventory.addFailed': 'Failed to add product',
+	'inventory.deleteConfirm': 'Are you sure you want to delete this product? This will also delete associated images.',
+	'inventory.deleted': 'Product and associated images deleted successfully!',
+	'inventory.deleteFailed': 'Failed to delete product',
+	'inventory.title': 'Inventory Management',
+	'inventory.subtitle': 'Manage your products and stock levels',
+	'inventory.addProduct': 'Add Product',
+	'inventory.totalItems': 'Total Items',
+	'inventory.productsInSystem': 'Products in system',
+	'inventory.availableProducts': 'Available products',
+	'inventory.needReorder': 'Need reorder',
+	'inventory.urgentReorder': 'Urgent reorder',
+	'inventory.totalValue': 'Total Value',
+	'inventory.inventoryValue': 'Inventory value',
+	'inventory.searchPlaceholder': 'Search by name, SKU, or barcode...',
+	'inventory.allCategories': 'All Categories',
+	'inventory.loading': 'Loading products...',
+	'inventory.noProducts': 'No products found',
+	'inventory.image': 'Image',
+	'inventory.sku': 'SKU',
+	'inventory.productName': 'Product Name',
+	'inventory.categoryLabel': 'Category',
+	'inventory.typeLabel': 'Type',
+	'inventory.stock': 'Stock',
+	'inventory.unitPrice': 'Unit Price',
+	'inventory.costPrice': 'Cost Price',
+	'inventory.minShort': 'Min: {count}',
+	'inventory.editProduct': 'Edit Product',
+	'inventory.addNewProduct': 'Add New Product',
+	'inventory.editDescription': 'Update product information',
+	'inventory.addDescription': 'Add a new product to inventory',
+	'inventory.tabBasic': 'Basic Info',
+	'inventory.tabPricing': 'Pricing & Stock',
+	'inventory.tabAdditional': 'Additional Info',
+	'inventory.skuRequired': 'SKU *',
+	'inventory.productTypeRequired': 'Product Type *',
+	'inventory.simpleProduct': 'Simple Product',
+	'inventory.bundleKit': 'Bundle/Kit',
+	'inventory.nameEnRequired': 'Product Name (English) *',
+	'inventory.nameArRequired': 'Product Name (Arabic) *',
+	'inventory.categoryRequired': 'Category *',
+	'inventory.selectCategory': 'Select category',
+	'inventory.descriptionEn': 'Description (English)',
+	'inventory.descriptionEnPlaceholder': 'Product description in English',
+	'inventory.descriptionAr': 'Description (Arabic)',
+	'inventory.productImage': 'Product Image',
+	'inventory.productAlt': 'Product',
+	'inventory.uploadImage': 'Upload product image',
+	'inventory.maxSize': 'Max size: 5MB',
+	'inventory.unitPriceRequired': 'Unit Price (SAR) *',
+	'inventory.costPriceRequired': 'Cost Price (SAR) *',
+	'inventory.currentStockRequired': 'Current Stock *',
+	'inventory.unitRequired': 'Unit *',
+	'inventory.selectUnit': 'Select unit',
+	'inventory.minStockRequired': 'Minimum Stock *',
+	'inventory.maxStock': 'Maximum Stock',
+	'inventory.taxable': 'Taxable',
+	'inventory.taxableYes': 'Yes (Subject to VAT)',
+	'inventory.taxableNo': 'No (VAT Exempt)',
+	'inventory.profitMargin': 'Profit Margin',
+	'inventory.marginPercent': 'Margin %',
+	'inventory.supplier': 'Supplier',
+	'inventory.supplierPlaceholder': 'Supplier name',
+	'inventory.storageLocation': 'Storage Location',
+	'inventory.locationPlaceholder': 'Warehouse A - Shelf 12',
+	'inventory.barcode': 'Barcode',
+	'inventory.weightKg': 'Weight (kg)',
+	'inventory.dimensions': 'Dimensions',
+	'inventory.expiryDate': 'Expiry Date',
+	'inventory.notesPlaceholder': 'Additional notes about this product',
+	'inventory.uploading': 'Uploading...',
+	'inventory.updateProduct': 'Update Product',
+	'inventory.detailsTitle': 'Product Details',
+	'inventory.detailsDescription': 'Complete information about this product',
+	'inventory.currentStock': 'Current Stock',
+	'inventory.stockValue': 'Stock Value',
+	'inventory.productInformation': 'Product Information',
+	'inventory.descriptionEnShort': 'Description (EN)',
+	'inventory.descriptionArShort': 'Description (AR)',
+	'inventory.minStock': 'Min Stock',
+	'inventory.maxStockShort': 'Max Stock',
+	'inventory.additionalDetails': 'Additional Details',
+	'inventory.location': 'Location',
+	'inventory.weight': 'Weight',
+	'inventory.taxableApplicable': 'Yes (VAT applicable)',
+	'inventory.taxableExempt': 'No (VAT exempt)',
+	'inventory.stockMovements': 'Stock Movements',
+	'inventory.loadingMovements': 'Loading movements...',
+	'inventory.noMovements': 'No stock movements recorded for this product yet.',
+	'inventory.movementLabel': 'Movement',
+	'inventory.reference': 'Reference',
+	'inventory.quantity': 'Quantity',
+	'inventory.balance': 'Balance',
+	'inventory.reversal': 'Reversal',
+	'inventory.createdOn': 'Created: {date}',
+	'inventory.lastUpdated': 'Last Updated: {date}',
+
+	// Employees
+	'employees.title': 'Employee Management',
+	'employees.subtitle': 'Manage employee information, documents, and records',
+	'employees.add': 'Add Employee',
+	'employees.addTitle': 'Add New Employee',
+	'employees.addDescription': 'Enter employee information and details',
+	'employees.unnamed': 'Unnamed Employee',
+	'employees.tab.personal': 'Personal',
+	'employees.tab.employment': 'Employment',
+	'employees.tab.financial': 'Financial',
+	'employees.tab.emergency': 'Emergency',
+	'employees.tab.information': 'Information',
+	'employees.tab.documents': 'Documents ({count})',
+	'employees.tab.history': 'History',
+	'employees.uploading': 'Uploading...',
+	'employees.changePhoto': 'Change Photo',
+	'employees.uploadPhoto': 'Upload Photo',
+	'employees.nameEnRequired': 'Full Name (English) *',
+	'employees.nameAr': 'Full Name (Arabic)',
+	'employees.nationalId': 'National ID',
+	'employees.address': 'Address',
+	'employees.addressPlaceholder': 'City, Country',
+	'employees.position': 'Position',
+	'employees.positionRequired': 'Position *',
+	'employees.positionPlaceholder': 'Sales Manager',
+	'employees.department': 'Department',
+	'employees.departmentRequired': 'Department *',
+	'employees.selectDepartment': 'Select department',
+	'employees.department.general': 'General',
+	'employees.department.sales': 'Sales',
+	'employees.department.finance': 'Finance',
+	'employees.department.operations': 'Operations',
+	'employees.department.hr': 'Human Resources',
+	'employees.department.it': 'IT',
+	'employees.contractType': 'Contract Type',
+	'employees.selectType': 'Select type',
+	'employees.contract.fullTime': 'Full Time',
+	'employees.contract.partTime': 'Part Time',
+	'employees.contract.contract': 'Contract',
+	'employees.hireDate': 'Hire Date',
+	'employees.startDate': 'Start Date',
+	'employees.tenure': 'Tenure',
+	'employees.tenureYears': '{count} years',
+	'employees.salaryComponents': 'Salary Components',
+	'employees.baseSalaryRequired': 'Base Salary (SAR) *',
+	'employees.housingAllowanceSar': 'Housing Allowance (SAR)',
+	'employees.transportAllowanceSar': 'Transport Allowance (SAR)',
+	'employees.otherAllowancesSar': 'Other Allowances (SAR)',
+	'employees.totalMonthlySalary': 'Total Monthly Salary',
+	'employees.socialInsuranceNo': 'Social Insurance No.',
+	'employees.socialInsuranceAmountSar': 'Social Insurance Amount (SAR)',
+	'employees.socialInsuranceAmount': 'Social Insurance Amount',
+	'employees.bankName': 'Bank Name',
+	'employees.selectBank': 'Select bank',
+	'employees.bankAccount': 'Bank Account (IBAN)',
+	'employees.emergencyContactName': 'Emergency Contact Name',
+	'employees.contactNamePlaceholder': 'Contact Name',
+	'employees.emergencyContact': 'Emergency Contact',
+	'employees.emergencyPhone': 'Emergency Phone',
+	'employees.stats.total': 'Total Employees',
+	'employees.stats.active': '{count} Active',
+	'employees.stats.payroll': 'Total Payroll',
+	'employees.stats.monthlyTotal': 'Monthly total',
+	'employees.stats.departments': 'Departments',
+	'employees.stats.activeDepartments': 'Active departments',
+	'employees.stats.documents': 'Documents',
+	'employees.stats.totalFiles': 'Total files',
+	'employees.list': 'Employee List',
+	'employees.searchPlaceholder': 'Search employees...',
+	'employees.loading': 'Loading employees...',
+	'employees.empty': 'No employees found',
+	'employees.column.employee': 'Employee',
+	'employees.column.salary': 'Salary',
+	'employees.column.documents': 'Documents',
+	'employees.status.active': 'Active',
+	'employees.status.onLeave': 'On Leave',
+	'employees.status.terminated': 'Terminated',
+	'employees.detailsTitle': 'Employee Details',
+	'employees.detailsDescription': 'Complete employee information and records',
+	'employees.salaryBreakdown': 'Salary Breakdown',
+	'employees.baseSalary': 'Base Salary',
+	'employees.housingAllowance': 'Housing Allowance',
+	'employees.transportAllowance': 'Transport Allowance',
+	'employees.otherAllowances': 'Other Allowances',
+	'employees.documents': 'Employee Documents',
+	'employees.uploadDocument': 'Upload Document',
+	'employees.noDocuments': 'No documents uploaded yet',
+	'employees.uploadFirstDocument': 'Upload First Document',
+	'employees.uploaded': 'Uploaded {date}',
+	'employees.uploadedOn': 'Uploaded on {date}',
+	'employees.docCategory.contract': 'Contract',
+	'employees.docCategory.id': 'National ID / Iqama',
+	'employees.docCategory.photo': 'Employee Photo',
+	'employees.docCategory.certificate': 'Certificate / Diploma',
+	'employees.docCategory.other': 'Other',
+	'employees.uploadTitle': 'Upload Employee Document',
+	'employees.uploadDescription': 'Upload contract, ID, photo, certificates, or other documents for {name}',
+	'employees.documentNameRequired': 'Document Name *',
+	'employees.documentNamePlaceholder': 'e.g., Employment Contract 2024',
+	'employees.documentCategoryRequired': 'Document Category *',
+	'employees.selectCategory': 'Select category',
+	'employees.uploadFileRequired': 'Upload File *',
+	'employees.changeFile': 'Change File',
+	'employees.chooseFile': 'Choose File',
+	'employees.preview': 'Preview',
+	'employees.fileSize': '{name} ({size} KB)',
+	'employees.notesOptional': 'Notes (Optional)',
+	'employees.notesPlaceholder': 'Add any additional notes about this document...',
+	'employees.previewUnavailable': 'Preview not available for this file type',
+	'employees.downloadToView': 'Download to View',
+	'employees.notesLabel': 'Notes:',
+	'employees.deleteTitle': 'Delete Employee',
+	'employees.deleteDescription': 'The employee is moved to the Recycle Bin and can be restored from there.',
+	'employees.purgeDeletes': 'Purging the employee from the Recycle Bin permanently deletes:',
+	'employees.purge.record': 'Employee record and all personal information',
+	'employees.purge.attendance': 'All attendance records',
+	'employees.purge.requests': 'All employee requests',
+	'employees.purge.custody': 'All custody items',
+	'employees.purge.documents': 'All documents and photos',
+	'employees.purge.expensesLeaves': 'Related expenses and leaves',
+	'employees.notFound': 'Employee not found',
+	'employees.photoUploaded': 'Photo uploaded successfully',
+	'employees.photoUrlFailed': 'Failed to get photo URL',
+	'employees.photoUploadFailed': 'Failed to upload employee photo',
+	'employees.fileSelected': 'File selected',
+	'employees.selectEmployeeFirst': 'Please select an employee first',
+	'employees.documentRequired': 'Please provide document name and upload a file',
+	'employees.documentUploaded': 'Document uploaded successfully!',
+	'employees.documentUploadFailed': 'Failed to upload document',
+	'employees.documentDownloaded': 'Document downloaded',
+	'employees.noFileUrl': 'No file URL available',
+	'employees.documentDeleted': 'Document deleted successfully',
+	'employees.documentDeleteFailed': 'Failed to delete document',
+	'employees.requiredFields': 'Please fill all required fields',
+	'employees.added': 'Employee added successfully!',
+	'employees.addFailed': 'Failed to add employee',
+	'employees.activated': 'Employee activated successfully!',
+	'employees.onLeave': 'Employee status changed to on-leave',
+	'employees.terminated': 'Employee terminated successfully!',
+	'employees.statusFailed': 'Failed to update employee status',
+	'employees.movedToRecycleBin': 'Employee moved to the Recycle Bin',
+	'employees.deleteFailed': 'Failed to delete employee',
+} as const;
+
+export type MessageKey = keyof typeof en;
@@ -1,4 +1,4 @@
-import { StrictMode } from 'react'
+import { StrictMode, Suspense, lazy } from 'react'
 import { createRoot } from 'react-dom/client'
 import './globals.css'
 
@@ -8,14 +8,31 @@ import { store } from './redux-toolkit/store'
 import { QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { queryClient } from './lib/queryClient'
+import { Toaster } from './components/ui/sonner'
+import { LocaleProvider } from './components/LocaleProvider'
+
+// Customers open signing links without an account, so /sign/<token> skips the app and its login
+const PublicDocumentSigning = lazy(() =>
+	import('./components/PublicDocumentSigning').then((module) => ({ default: module.PublicDocumentSigning })),
+)
+const signingToken = window.location.pathname.match(/^\/sign\/([^/]+)\/?$/)?.[1]
 
 createRoot(document.getElementById('root')!).render(
 	<StrictMode>
-		<Provider store={store}>
-			<QueryClientProvider client={queryClient}>
-				<App />
-				<ReactQueryDevtools initialIsOpen={false} />
-			</QueryClientProvider>
-		</Provider>
+		<LocaleProvider>
+			{signingToken ? (
+				<Suspense fallback={null}>
+					<PublicDocumentSigning token={decodeURIComponent(signingToken)} />
+					<Toaster position="bottom-right" />
+				</Suspense>
+			) : (
+				<Provider store={store}>
+					<QueryClientProvider client={queryClient}>
+						<App />
+						<ReactQueryDevtools initialIsOpen={false} />
+					</QueryClientProvider>
+				</Provider>
+			)}
+		</LocaleProvider>
 	</StrictMode>,
 )
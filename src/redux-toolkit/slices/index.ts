@@ -18,6 +18,7 @@ import type { MonthlyVisits } from '../../../supabase/models/monthly_visits';
 import type { Leads } from '../../../supabase/models/leads';
 import type { Quotations } from '../../../supabase/models/quotations';
 import type { PriceQuotations } from '../../../supabase/models/price_quotations';
+import type { QuotationVersions } from '../../../supabase/models/quotation_versions';
 import type { SystemUsers } from '../../../supabase/models/system_users';
 import type { Roles } from '../../../supabase/models/roles';
 import type { Delegates } from '../../../supabase/models/delegates';
@@ -33,6 +34,10 @@ import type { ManufacturingRecipes } from '../../../supabase/models/manufacturin
 import type { ManufacturingOrders } from '../../../supabase/models/manufacturing_orders';
 import type { FixedAssetsManagement } from '../../../supabase/models/fixed_assets_management';
 import type { EmployeeCustodyItems } from '../../../supabase/models/employee_custody_items';
+import type { GlAccounts } from '../../../supabase/models/gl_accounts';
+import type { InvoiceNotes } from '../../../supabase/models/invoice_notes';
+import type { ContractDevices } from '../../../supabase/models/contract_devices';
+import type { ContractHistory } from '../../../supabase/models/contract_history';
 
 // Create slices per table relevant to existing components
 const customers = createCrudSlice<Customers>({ table: 'customers', idColumn: 'customer_id' });
@@ -51,6 +56,7 @@ const monthly_visits = createCrudSlice<MonthlyVisits>({ table: 'monthly_visits',
 const leads = createCrudSlice<Leads>({ table: 'leads', idColumn: 'lead_id' });
 const quotations = createCrudSlice<Quotations>({ table: 'quotations', idColumn: 'quotation_id' });
 const price_quotations = createCrudSlice<PriceQuotations>({ table: 'price_quotations', idColumn: 'quotation_id' });
+const quotation_versions = createCrudSlice<QuotationVersions>({ table: 'quotation_versions', idColumn: 'version_id' });
 const system_users = createCrudSlice<SystemUsers>({ table: 'system_users', idColumn: 'user_id' });
 const roles = createCrudSlice<Roles>({ table: 'roles', idColumn: 'role_id' });
 const delegates = createCrudSlice<Delegates>({ table: 'delegates', idColumn: 'delegate_id' });
@@ -66,6 +72,10 @@ const manufacturing_recipes = createCrudSlice<ManufacturingRecipes>({ table: 'ma
 const manufacturing_orders = createCrudSlice<ManufacturingOrders>({ table: 'manufacturing_orders', idColumn: 'mfg_order_id' });
 const fixed_assets_management = createCrudSlice<FixedAssetsManagement>({ table: 'fixed_assets_management', idColumn: 'asset_id' });
 const employee_custody_items = createCrudSlice<EmployeeCustodyItems>({ table: 'employee_custody_items', idColumn: 'custody_id' });
+const gl_accounts = createCrudSlice<GlAccounts>({ table: 'gl_accounts', idColumn: 'account_id' });
+const invoice_notes = createCrudSlice<InvoiceNotes>({ table: 'invoice_notes', idColumn: 'note_id' });
+const contract_devices = createCrudSlice<ContractDevices>({ table: 'contract_devices', idColumn: 'device_id' });
+const contract_history = createCrudSlice<ContractHistory>({ table: 'contract_history', idColumn: 'history_id' });
 
 export const slices = {
 	customers: customers.slice,
@@ -84,6 +94,7 @@ export const slices = {
 	leads: leads.slice,
 	quotations: quotations.slice,
 	price_quotations: price_quotations.slice,
+	quotation_versions: quotation_versions.slice,
 	system_users: system_users.slice,
 	roles: roles.slice,
 	delegates: delegates.slice,
@@ -99,6 +110,10 @@ export const slices = {
 	manufacturing_orders: manufacturing_orders.slice,
 	fixed_assets_management: fixed_assets_management.slice,
 	employee_custody_items: employee_custody_items.slice,
+	gl_accounts: gl_accounts.slice,
+	invoice_notes: invoice_notes.slice,
+	contract_devices: contract_devices.slice,
+	contract_history: contract_history.slice,
 };
 
 export const thunks = {
@@ -118,6 +133,7 @@ export const thunks = {
 	leads: leads.thunks,
 	quotations: quotations.thunks,
 	price_quotations: price_quotations.thunks,
+	quotation_versions: quotation_versions.thunks,
 	system_users: system_users.thunks,
 	roles: roles.thunks,
 	delegates: delegates.thunks,
@@ -133,6 +149,10 @@ export const thunks = {
 	manufacturing_orders: manufacturing_orders.thunks,
 	fixed_assets_management: fixed_assets_management.thunks,
 	employee_custody_items: employee_custody_items.thunks,
+	gl_accounts: gl_accounts.thunks,
+	invoice_notes: invoice_notes.thunks,
+	contract_devices: contract_devices.thunks,
+	contract_history: contract_history.thunks,
 };
 
 export const selectors = {
@@ -152,6 +172,7 @@ export const selectors = {
 	leads: leads.selectors,
 	quotations: quotations.selectors,
 	price_quotations: price_quotations.selectors,
+	quotation_versions: quotation_versions.selectors,
 	system_users: system_users.selectors,
 	roles: roles.selectors,
 	delegates: delegates.selectors,
@@ -167,6 +188,10 @@ export const selectors = {
 	manufacturing_orders: manufacturing_orders.selectors,
 	fixed_assets_management: fixed_assets_management.selectors,
 	employee_custody_items: employee_custody_items.selectors,
+	gl_accounts: gl_accounts.selectors,
+	invoice_notes: invoice_notes.selectors,
+	contract_devices: contract_devices.selectors,
+	contract_history: contract_history.selectors,
 };
 
 const rootReducer = combineReducers({
@@ -186,6 +211,7 @@ const rootReducer = combineReducers({
 	leads: leads.slice.reducer,
 	quotations: quotations.slice.reducer,
 	price_quotations: price_quotations.slice.reducer,
+	quotation_versions: quotation_versions.slice.reducer,
 	system_users: system_users.slice.reducer,
 	roles: roles.slice.reducer,
 	delegates: delegates.slice.reducer,
@@ -201,6 +227,10 @@ const rootReducer = combineReducers({
 	manufacturing_orders: manufacturing_orders.slice.reducer,
 	fixed_assets_management: fixed_assets_management.slice.reducer,
 	employee_custody_items: employee_custody_items.slice.reducer,
+	gl_accounts: gl_accounts.slice.reducer,
+	invoice_notes: invoice_notes.slice.reducer,
+	contract_devices: contract_devices.slice.reducer,
+	contract_history: contract_history.slice.reducer,
 });
 
 export default rootReducer;
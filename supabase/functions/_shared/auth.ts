@@ -1,5 +1,24 @@
 // Shared authentication and authorization utilities for Edge Functions
 
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const AUTH_TOKEN_SECRET = Deno.env.get("AUTH_TOKEN_SECRET") ?? "";
+
+// Header carrying the session token issued by auth-login
+export const SESSION_TOKEN_HEADER = "x-session-token";
+export const SESSION_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+
+// PBKDF2-SHA256 work factor for stored password hashes
+const PASSWORD_HASH_ITERATIONS = 310000;
+
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MINUTES = 15;
+
 export interface AuthResult {
   success: boolean;
   user?: {
@@ -19,14 +38,162 @@ export interface RateLimitResult {
   resetAt: number;
 }
 
+// "session" tokens authorize API calls; the two-factor scopes only allow finishing a login
+export type SessionTokenScope = "session" | "two_factor" | "two_factor_setup";
+
+export interface SessionTokenPayload {
+  sub: string; // system_users.user_id
+  role_id: string | null;
+  scope: SessionTokenScope;
+  iat: number; // seconds
+  exp: number; // seconds
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Constant-time comparison so hash checks do not leak how many bytes matched
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function pbkdf2(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(input));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Hash a password as pbkdf2_sha256$<iterations>$<salt>$<hash>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PASSWORD_HASH_ITERATIONS);
+  return `pbkdf2_sha256$${PASSWORD_HASH_ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
 /**
- * Verify user authentication from request body
+ * Check a password against a stored hash.
+ * Unsalted SHA-256 hashes written by the old browser login still verify, but are flagged
+ * for upgrade, as are PBKDF2 hashes made with fewer iterations than the current setting.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string | null | undefined
+): Promise<{ valid: boolean; needsUpgrade: boolean }> {
+  const stored = storedHash ?? "";
+
+  if (/^[0-9a-f]{64}$/i.test(stored)) {
+    const legacy = await sha256Hex(password);
+    const valid = timingSafeEqual(encoder.encode(legacy), encoder.encode(stored.toLowerCase()));
+    return { valid, needsUpgrade: valid };
+  }
+
+  const [scheme, iterationsText, saltText, hashText] = stored.split("$");
+  const iterations = Number(iterationsText);
+  if (scheme !== "pbkdf2_sha256" || !Number.isInteger(iterations) || iterations <= 0 || !saltText || !hashText) {
+    return { valid: false, needsUpgrade: false };
+  }
+
+  const hash = await pbkdf2(password, fromBase64Url(saltText), iterations);
+  const valid = timingSafeEqual(hash, fromBase64Url(hashText));
+  return { valid, needsUpgrade: valid && iterations < PASSWORD_HASH_ITERATIONS };
+}
+
+async function hmacKey(): Promise<CryptoKey> {
+  if (!AUTH_TOKEN_SECRET) {
+    throw new Error("AUTH_TOKEN_SECRET is not configured");
+  }
+  return await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(AUTH_TOKEN_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Issue a signed (HS256 JWT) session token
+ */
+export async function signSessionToken(
+  user: { user_id: string; role_id: string | null },
+  ttlSeconds = SESSION_TOKEN_TTL_SECONDS,
+  scope: SessionTokenScope = "session"
+): Promise<{ token: string; expiresAt: string }> {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: SessionTokenPayload = { sub: user.user_id, role_id: user.role_id, scope, iat, exp: iat + ttlSeconds };
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(), encoder.encode(`${header}.${body}`));
+  return {
+    token: `${header}.${body}.${toBase64Url(new Uint8Array(signature))}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Validate a token's signature, expiry and scope
+ */
+export async function verifySessionToken(
+  token: string | null | undefined,
+  scope: SessionTokenScope = "session"
+): Promise<SessionTokenPayload | null> {
+  const parts = (token ?? "").split(".");
+  if (parts.length !== 3) return null;
+  const [header, body, signature] = parts;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(),
+      fromBase64Url(signature),
+      encoder.encode(`${header}.${body}`)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionTokenPayload;
+    if (!payload?.sub || typeof payload.exp !== "number") return null;
+    if ((payload.scope ?? "session") !== scope) return null;
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function getSessionToken(req: Request): string | null {
+  const token = req.headers.get(SESSION_TOKEN_HEADER);
+  return token && token.trim() ? token.trim() : null;
+}
+
+/**
+ * Verify the session token sent in the x-session-token header
  */
 export async function verifyAuth(
   supabase: any,
-  userId: string | null | undefined
+  req: Request
 ): Promise<AuthResult> {
-  if (!userId) {
+  const token = getSessionToken(req);
+  if (!token) {
     return {
       success: false,
       error: "Authentication required. Please log in.",
@@ -34,11 +201,20 @@ export async function verifyAuth(
     };
   }
 
+  const session = await verifySessionToken(token);
+  if (!session) {
+    return {
+      success: false,
+      error: "Session expired. Please log in again.",
+      statusCode: 401,
+    };
+  }
+
   // Verify user exists and is active
   const { data: user, error: userError } = await supabase
     .from("system_users")
-    .select("user_id, status, role_id")
-    .eq("user_id", userId)
+    .select("user_id, status, role_id, password_changed_at")
+    .eq("user_id", session.sub)
     .single();
 
   if (userError || !user) {
@@ -57,6 +233,15 @@ export async function verifyAuth(
     };
   }
 
+  // Tokens issued before a password change are no longer valid
+  if (user.password_changed_at && Math.floor(new Date(user.password_changed_at).getTime() / 1000) > session.iat) {
+    return {
+      success: false,
+      error: "Session expired. Please log in again.",
+      statusCode: 401,
+    };
+  }
+
   // Get role information
   let roleName: string | null = null;
   let permissions: any = null;
@@ -0,0 +1,210 @@
+// Shared PDF rendering for Edge Functions
+// Printable documents are the same HTML templates the app prints in the browser. They are rendered to
+// PDF by a headless Chromium service (Gotenberg, https://gotenberg.dev) so the output no longer depends
+// on the user's browser, and stored in Supabase Storage with a file_metadata row.
+//
+// Environment:
+//   PDF_RENDERER_URL                           - base URL of the Gotenberg service
+//   PDF_RENDERER_USERNAME, PDF_RENDERER_PASSWORD - basic auth, when the service requires it
+//   PDF_ARABIC_FONT_URL, PDF_ARABIC_BOLD_FONT_URL - TrueType fonts embedded for Arabic text
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const PDF_RENDERER_URL = (Deno.env.get("PDF_RENDERER_URL") ?? "").replace(/\/$/, "");
+const PDF_RENDERER_USERNAME = Deno.env.get("PDF_RENDERER_USERNAME") ?? "";
+const PDF_RENDERER_PASSWORD = Deno.env.get("PDF_RENDERER_PASSWORD") ?? "";
+const ARABIC_FONT_URL =
+  Deno.env.get("PDF_ARABIC_FONT_URL") ??
+  "https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts/NotoNaskhArabic/hinted/ttf/NotoNaskhArabic-Regular.ttf";
+const ARABIC_BOLD_FONT_URL =
+  Deno.env.get("PDF_ARABIC_BOLD_FONT_URL") ??
+  "https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts/NotoNaskhArabic/hinted/ttf/NotoNaskhArabic-Bold.ttf";
+
+// Families named by the print templates. The renderer has none of them, so Arabic text in any of them
+// is drawn with the embedded font; other scripts fall through to the renderer's own fonts.
+const TEMPLATE_FONT_FAMILIES = ["Segoe UI", "Tahoma", "Geneva", "Verdana", "Arial"];
+const ARABIC_UNICODE_RANGE = "U+0600-06FF, U+0750-077F, U+08A0-08FF, U+FB50-FDFF, U+FE70-FEFF";
+
+export const PDF_SIGNED_URL_TTL_SECONDS = 60 * 60; // 1 hour
+
+export interface StorePdfOptions {
+  bucket: string;
+  category: string;
+  ownerId: string;
+  ownerType: string;
+  fileName: string; // Shown to users and used when the file is downloaded
+  pathPrefix: string; // Folder in the bucket, e.g. "documents/invoice/<id>"
+  description?: string;
+  createdBy?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface StoredPdf {
+  file_id: string;
+  bucket: string;
+  path: string;
+  file_name: string;
+  size: number;
+}
+
+// The file_metadata row recorded for a stored PDF
+interface PdfFileMetadataRow {
+  owner_id: string;
+  owner_type: string;
+  category: string;
+  bucket: string;
+  path: string;
+  file_name: string;
+  mime_type: "application/pdf";
+  size: number;
+  width: null;
+  height: null;
+  description: string | null;
+  is_public: false;
+  metadata: Record<string, unknown> | null;
+  created_by: string | null;
+}
+
+export function isPdfRendererConfigured(): boolean {
+  return PDF_RENDERER_URL !== "";
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+// Fonts are downloaded once per function instance
+let fontCss: Promise<string> | null = null;
+
+async function fontFace(url: string, weight: number): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load font ${url}: HTTP ${response.status}`);
+  const source = `url(data:font/ttf;base64,${toBase64(new Uint8Array(await response.arrayBuffer()))}) format("truetype")`;
+  return TEMPLATE_FONT_FAMILIES.map(
+    (family) =>
+      `@font-face { font-family: "${family}"; src: ${source}; font-weight: ${weight}; unicode-range: ${ARABIC_UNICODE_RANGE}; }`
+  ).join("\n");
+}
+
+function embeddedFontCss(): Promise<string> {
+  if (!fontCss) {
+    fontCss = Promise.all([fontFace(ARABIC_FONT_URL, 400), fontFace(ARABIC_BOLD_FONT_URL, 700)])
+      .then((faces) => faces.join("\n"))
+      .catch((error) => {
+        fontCss = null;
+        throw error;
+      });
+  }
+  return fontCss;
+}
+
+/**
+ * The template as the renderer gets it: scripts removed (templates call window.print()), the Arabic
+ * font embedded and backgrounds kept
+ */
+async function printableHtml(html: string): Promise<string> {
+  const styles = `<style>
+${await embeddedFontCss()}
+html, body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>`;
+  const withoutScripts = html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, "");
+  if (/<head[^>]*>/i.test(withoutScripts)) {
+    return withoutScripts.replace(/<head[^>]*>/i, (head) => `${head}<meta charset="UTF-8">${styles}`);
+  }
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8">${styles}</head><body>${withoutScripts}</body></html>`;
+}
+
+/**
+ * Render a print template to an A4 PDF. Page size and margins set by the template's @page rule win.
+ */
+export async function renderPdf(html: string): Promise<Uint8Array> {
+  if (!isPdfRendererConfigured()) {
+    throw new Error("PDF rendering is not configured. Set PDF_RENDERER_URL for the Edge Functions.");
+  }
+
+  const form = new FormData();
+  form.append("files", new Blob([await printableHtml(html)], { type: "text/html" }), "index.html");
+  form.append("paperWidth", "8.27");
+  form.append("paperHeight", "11.7");
+  form.append("marginTop", "0");
+  form.append("marginBottom", "0");
+  form.append("marginLeft", "0");
+  form.append("marginRight", "0");
+  form.append("preferCssPageSize", "true");
+  form.append("printBackground", "true");
+
+  const headers: Record<string, string> = {};
+  if (PDF_RENDERER_USERNAME) {
+    headers.Authorization = `Basic ${btoa(`${PDF_RENDERER_USERNAME}:${PDF_RENDERER_PASSWORD}`)}`;
+  }
+
+  const response = await fetch(`${PDF_RENDERER_URL}/forms/chromium/convert/html`, {
+    method: "POST",
+    headers,
+    body: form,
+  });
+  if (!response.ok) {
+    throw new Error(`PDF rendering failed: HTTP ${response.status} ${await response.text()}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Upload a rendered PDF and record it in file_metadata
+ */
+export async function storePdf(supabase: SupabaseClient, pdf: Uint8Array, options: StorePdfOptions): Promise<StoredPdf> {
+  const path = `${options.pathPrefix}/${Date.now()}-${options.fileName.replace(/[^\w.-]+/g, "_")}`;
+  const { error: uploadError } = await supabase.storage
+    .from(options.bucket)
+    .upload(path, pdf, { contentType: "application/pdf", upsert: false });
+  if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+  const row: PdfFileMetadataRow = {
+    owner_id: options.ownerId,
+    owner_type: options.ownerType,
+    category: options.category,
+    bucket: options.bucket,
+    path,
+    file_name: options.fileName,
+    mime_type: "application/pdf",
+    size: pdf.length,
+    width: null,
+    height: null,
+    description: options.description ?? null,
+    is_public: false,
+    metadata: options.metadata ?? null,
+    created_by: options.createdBy ?? null,
+  };
+  const { data, error } = await supabase.from("file_metadata").insert(row).select("id").single();
+  if (error) {
+    await supabase.storage.from(options.bucket).remove([path]);
+    throw error;
+  }
+
+  return { file_id: (data as { id: string }).id, bucket: options.bucket, path, file_name: options.fileName, size: pdf.length };
+}
+
+/**
+ * Time-limited link that downloads the stored PDF under its file name
+ */
+export async function signedPdfUrl(supabase: SupabaseClient, stored: Pick<StoredPdf, "bucket" | "path" | "file_name">): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(stored.bucket)
+    .createSignedUrl(stored.path, PDF_SIGNED_URL_TTL_SECONDS, { download: stored.file_name });
+  const signed = data as { signedUrl: string } | null;
+  if (error || !signed?.signedUrl) throw new Error(`Failed to sign the PDF link: ${error?.message ?? "no URL"}`);
+  return signed.signedUrl;
+}
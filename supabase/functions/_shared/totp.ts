@@ -0,0 +1,254 @@
+// Shared TOTP (RFC 6238) two-factor utilities for Edge Functions
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// Secrets are encrypted with a dedicated key when configured, otherwise one derived from the token secret
+const TOTP_ENCRYPTION_KEY = Deno.env.get("TOTP_ENCRYPTION_KEY") ?? Deno.env.get("AUTH_TOKEN_SECRET") ?? "";
+
+export const TOTP_ISSUER = "Mana Smart";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code to allow for clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const encoder = new TextEncoder();
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+export function totpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", base32Decode(secret), { name: "HMAC", hash: "SHA-1" }, false, [
+    "sign",
+  ]);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message.buffer));
+
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a code against the secret. Returns the matched time step, or null.
+ * Steps at or before `lastUsedStep` are rejected so a code cannot be replayed.
+ */
+export async function verifyTotpCode(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null | undefined
+): Promise<number | null> {
+  const normalized = String(code ?? "").replace(/\s+/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset;
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    if ((await hotp(secret, step)) === normalized) return step;
+  }
+  return null;
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(input));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const normalizeRecoveryCode = (code: string) => String(code ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  return await sha256Hex(normalizeRecoveryCode(code));
+}
+
+/**
+ * One-time recovery codes (xxxxx-xxxxx) and the hashes to store
+ */
+export async function generateRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map((code) => hashRecoveryCode(code)));
+  return { codes, hashes };
+}
+
+async function encryptionKey(): Promise<CryptoKey> {
+  if (!TOTP_ENCRYPTION_KEY) {
+    throw new Error("TOTP_ENCRYPTION_KEY is not configured");
+  }
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`totp:${TOTP_ENCRYPTION_KEY}`));
+  return await crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// Stored as base64(iv).base64(ciphertext)
+export async function encryptTotpSecret(secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await encryptionKey(), encoder.encode(secret));
+  return `${btoa(String.fromCharCode(...iv))}.${btoa(String.fromCharCode(...new Uint8Array(cipher)))}`;
+}
+
+export async function decryptTotpSecret(stored: string | null | undefined): Promise<string | null> {
+  const [ivText, cipherText] = String(stored ?? "").split(".");
+  if (!ivText || !cipherText) return null;
+  try {
+    const iv = Uint8Array.from(atob(ivText), (c) => c.charCodeAt(0));
+    const cipher = Uint8Array.from(atob(cipherText), (c) => c.charCodeAt(0));
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, await encryptionKey(), cipher);
+    return new TextDecoder().decode(plain);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a user has to sign in with 2FA: required for their role or for everyone in system settings
+ */
+export async function isTwoFactorRequired(supabase: any, roleId: string | null): Promise<boolean> {
+  const { data: settings } = await supabase
+    .from("system_settings")
+    .select("two_factor_auth")
+    .limit(1)
+    .maybeSingle();
+  if (settings?.two_factor_auth) return true;
+
+  if (!roleId) return false;
+  const { data: role } = await supabase
+    .from("roles")
+    .select("require_two_factor")
+    .eq("role_id", roleId)
+    .maybeSingle();
+  return role?.require_two_factor === true;
+}
+
+/**
+ * Start (or restart) enrolment: store a new, not yet enabled secret and return it for the QR code
+ */
+export async function beginTotpEnrollment(
+  supabase: any,
+  user: { user_id: string; email: string }
+): Promise<{ secret: string; otpauth_url: string }> {
+  const secret = generateTotpSecret();
+  const { error } = await supabase
+    .from("system_users")
+    .update({
+      totp_secret: await encryptTotpSecret(secret),
+      totp_enabled: false,
+      totp_last_used_step: null,
+    })
+    .eq("user_id", user.user_id);
+  if (error) throw error;
+  return { secret, otpauth_url: totpAuthUrl(secret, user.email) };
+}
+
+/**
+ * Finish enrolment with a code from the authenticator app.
+ * Returns the recovery codes to show once, or null when the code is wrong.
+ */
+export async function confirmTotpEnrollment(supabase: any, userId: string, code: string): Promise<string[] | null> {
+  const { data: user, error } = await supabase
+    .from("system_users")
+    .select("totp_secret")
+    .eq("user_id", userId)
+    .single();
+  if (error || !user) return null;
+
+  const secret = await decryptTotpSecret(user.totp_secret);
+  if (!secret) return null;
+  const step = await verifyTotpCode(secret, code, null);
+  if (step === null) return null;
+
+  const recovery = await generateRecoveryCodes();
+  const { error: updateError } = await supabase
+    .from("system_users")
+    .update({
+      totp_enabled: true,
+      totp_recovery_codes: recovery.hashes,
+      totp_last_used_step: step,
+      totp_enrolled_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId);
+  if (updateError) throw updateError;
+  return recovery.codes;
+}
+
+/**
+ * Verify a login code or a recovery code for an enrolled user, consuming it on success
+ */
+export async function verifySecondFactor(
+  supabase: any,
+  user: { user_id: string; totp_secret: string | null; totp_last_used_step: number | null; totp_recovery_codes: unknown },
+  input: { code?: string; recovery_code?: string }
+): Promise<{ valid: boolean; recoveryCodesRemaining: number }> {
+  const stored = Array.isArray(user.totp_recovery_codes) ? (user.totp_recovery_codes as string[]) : [];
+
+  if (input.recovery_code) {
+    const hash = await hashRecoveryCode(input.recovery_code);
+    if (!stored.includes(hash)) return { valid: false, recoveryCodesRemaining: stored.length };
+    const remaining = stored.filter((entry) => entry !== hash);
+    await supabase.from("system_users").update({ totp_recovery_codes: remaining }).eq("user_id", user.user_id);
+    return { valid: true, recoveryCodesRemaining: remaining.length };
+  }
+
+  const secret = await decryptTotpSecret(user.totp_secret);
+  const step = secret ? await verifyTotpCode(secret, input.code ?? "", user.totp_last_used_step) : null;
+  if (step === null) return { valid: false, recoveryCodesRemaining: stored.length };
+  await supabase.from("system_users").update({ totp_last_used_step: step }).eq("user_id", user.user_id);
+  return { valid: true, recoveryCodesRemaining: stored.length };
+}
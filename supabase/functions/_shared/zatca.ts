@@ -0,0 +1,500 @@
+// Shared ZATCA (Fatoora) e-invoice rendering and signing
+// Used by the zatca-sign Edge Function, which holds the company's signing key, and by the app
+// (src/lib/zatcaQr.ts, src/lib/zatcaEInvoice.ts) for the QR payload and to check issued documents.
+// Free of I/O and of imports, so the same file runs under Deno and in the browser bundle; the
+// secp256k1 signer is passed in (see ZatcaSigner).
+
+export const ZATCA_TLV_TAGS = {
+  SELLER_NAME: 1,
+  VAT_NUMBER: 2,
+  TIMESTAMP: 3,
+  INVOICE_TOTAL: 4,
+  VAT_TOTAL: 5,
+  INVOICE_HASH: 6,
+  SIGNATURE: 7,
+  PUBLIC_KEY: 8,
+} as const;
+
+export interface ZatcaQrFields {
+  sellerName: string;
+  vatNumber: string;
+  timestamp: string; // ISO 8601, e.g. 2022-04-25T15:30:00Z
+  invoiceTotal: number; // Total including VAT
+  vatTotal: number;
+}
+
+export type ZatcaInvoiceKind = "standard" | "simplified"; // B2B (clearance) vs B2C (reporting)
+export type ZatcaDocumentType = "invoice" | "credit_note" | "debit_note";
+
+const DOCUMENT_TYPE_CODES: Record<ZatcaDocumentType, string> = {
+  invoice: "388",
+  credit_note: "381",
+  debit_note: "383",
+};
+
+const INVOICE_KIND_CODES: Record<ZatcaInvoiceKind, string> = {
+  standard: "0100000",
+  simplified: "0200000",
+};
+
+const MAX_TLV_VALUE_LENGTH = 255;
+
+// Base64 of SHA-256("0"), the PIH for the first document in a chain
+export const ZATCA_INITIAL_PIH = "NWZlY2ViNjZmZmM4NmYzOGQ5NTI3ODZjNmQ2OTZjNzljMmRiYzIzOWRkNGU5MWI0NjcyOWQ3M2EyN2ZiNTdlOQ==";
+
+// SubjectPublicKeyInfo header for an uncompressed secp256k1 point (id-ecPublicKey, secp256k1)
+const SECP256K1_SPKI_PREFIX = Uint8Array.from([
+  0x30, 0x56, 0x30, 0x10, 0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01, 0x06, 0x05, 0x2b, 0x81, 0x04, 0x00,
+  0x0a, 0x03, 0x42, 0x00,
+]);
+
+export interface ZatcaAddress {
+  street: string;
+  buildingNumber?: string;
+  district?: string;
+  city: string;
+  postalCode?: string;
+  countryCode: string;
+}
+
+export interface ZatcaParty {
+  name: string;
+  vatNumber: string | null;
+  commercialRegister: string | null;
+  address: ZatcaAddress;
+}
+
+export interface ZatcaInvoiceLine {
+  id: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number; // Line-level allowance in SAR
+  netAmount: number; // Quantity × price after line discount, excluding VAT
+}
+
+export interface ZatcaInvoiceInput {
+  uuid: string;
+  invoiceNumber: string;
+  kind: ZatcaInvoiceKind;
+  documentType: ZatcaDocumentType;
+  issuedAt: string; // ISO timestamp
+  currency: string;
+  seller: ZatcaParty;
+  buyer: ZatcaParty | null;
+  lines: ZatcaInvoiceLine[];
+  documentDiscount: number;
+  vatRate: number; // Percent, e.g. 15
+  billingReference?: string | null; // Original invoice number (credit/debit notes)
+  noteReason?: string | null; // Reason for issuing a credit/debit note
+}
+
+export interface ZatcaChainState {
+  counter: number; // ICV of the last issued document
+  previousHash: string; // Hash of the last issued document
+}
+
+export interface ZatcaTotals {
+  lineExtension: number;
+  taxExclusive: number;
+  taxAmount: number;
+  taxInclusive: number;
+}
+
+// Stamps invoice hashes with the company's key: ECDSA secp256k1, DER encoded
+export interface ZatcaSigner {
+  publicKey: string; // Base64 DER SubjectPublicKeyInfo
+  sign(invoiceHash: Uint8Array): Uint8Array;
+}
+
+export interface ZatcaSignedInvoice {
+  xml: string;
+  uuid: string;
+  counter: number;
+  invoiceHash: string;
+  signatureValue: string;
+  qrPayload: string;
+  chain: ZatcaChainState;
+}
+
+interface RenderSignatureParts {
+  invoiceHash: string;
+  signatureValue: string;
+  publicKey: string;
+  certificate?: string | null;
+  qrPayload: string;
+}
+
+function round2(value: number): number {
+  return Math.round((Number.isFinite(value) ? value : 0) * 100) / 100;
+}
+
+function amount(value: number): string {
+  return round2(value).toFixed(2);
+}
+
+function formatAmount(value: number): string {
+  const total = Number.isFinite(value) ? value : 0;
+  return total.toFixed(2);
+}
+
+function escapeXml(value: string | number | null | undefined): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+export function base64ToBytes(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function sha256Base64(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+/**
+ * Normalize a date or timestamp to the ISO form ZATCA expects (no milliseconds, UTC).
+ */
+export function formatZatcaTimestamp(value: string | Date | null | undefined): string {
+  const parsed = value instanceof Date ? value : value ? new Date(value) : new Date();
+  const date = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function encodeTlvRecord(tag: number, value: string | Uint8Array): Uint8Array {
+  const bytes = typeof value === "string" ? new TextEncoder().encode(value) : value;
+  if (bytes.length > MAX_TLV_VALUE_LENGTH) {
+    throw new Error(`ZATCA QR field ${tag} exceeds ${MAX_TLV_VALUE_LENGTH} bytes`);
+  }
+  const record = new Uint8Array(bytes.length + 2);
+  record[0] = tag;
+  record[1] = bytes.length;
+  record.set(bytes, 2);
+  return record;
+}
+
+/**
+ * Encode arbitrary tag/value pairs as a Base64 TLV string.
+ * Phase 2 (signed) invoices append tags 6-8 to the five Phase 1 fields.
+ */
+export function encodeTlv(records: Array<[number, string | Uint8Array]>): string {
+  const encoded = records.map(([tag, value]) => encodeTlvRecord(tag, value));
+  const totalLength = encoded.reduce((sum, record) => sum + record.length, 0);
+  const payload = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const record of encoded) {
+    payload.set(record, offset);
+    offset += record.length;
+  }
+
+  return bytesToBase64(payload);
+}
+
+/**
+ * Phase 1 tag/value pairs in the order ZATCA requires
+ */
+export function zatcaPhase1Records(fields: ZatcaQrFields): Array<[number, string]> {
+  return [
+    [ZATCA_TLV_TAGS.SELLER_NAME, fields.sellerName.trim()],
+    [ZATCA_TLV_TAGS.VAT_NUMBER, fields.vatNumber.trim()],
+    [ZATCA_TLV_TAGS.TIMESTAMP, formatZatcaTimestamp(fields.timestamp)],
+    [ZATCA_TLV_TAGS.INVOICE_TOTAL, formatAmount(fields.invoiceTotal)],
+    [ZATCA_TLV_TAGS.VAT_TOTAL, formatAmount(fields.vatTotal)],
+  ];
+}
+
+export function calculateZatcaTotals(input: ZatcaInvoiceInput): ZatcaTotals {
+  const lineExtension = round2(input.lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const taxExclusive = round2(lineExtension - input.documentDiscount);
+  const taxAmount = round2(taxExclusive * (input.vatRate / 100));
+  return {
+    lineExtension,
+    taxExclusive,
+    taxAmount,
+    taxInclusive: round2(taxExclusive + taxAmount),
+  };
+}
+
+/**
+ * Validate input against the Fatoora business rules we can check offline.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateZatcaInvoiceInput(input: ZatcaInvoiceInput): string[] {
+  const errors: string[] = [];
+  if (!input.seller.vatNumber || !/^3\d{13}3$/.test(input.seller.vatNumber)) {
+    errors.push("Seller VAT number must be 15 digits starting and ending with 3");
+  }
+  if (input.lines.length === 0) {
+    errors.push("Invoice must have at least one line");
+  }
+  if (input.kind === "standard") {
+    if (!input.buyer) {
+      errors.push("Standard (B2B) invoices require a buyer");
+    } else if (!input.buyer.vatNumber && !input.buyer.commercialRegister) {
+      errors.push("Standard (B2B) invoices require the buyer VAT number or commercial register");
+    }
+  }
+  if (input.documentType !== "invoice") {
+    if (!input.billingReference) {
+      errors.push("Credit and debit notes must reference the original invoice");
+    }
+    if (!input.noteReason) {
+      errors.push("Credit and debit notes must state a reason");
+    }
+  }
+  return errors;
+}
+
+function renderAddress(address: ZatcaAddress): string {
+  return [
+    "<cac:PostalAddress>",
+    `<cbc:StreetName>${escapeXml(address.street)}</cbc:StreetName>`,
+    address.buildingNumber ? `<cbc:BuildingNumber>${escapeXml(address.buildingNumber)}</cbc:BuildingNumber>` : "",
+    address.district ? `<cbc:CitySubdivisionName>${escapeXml(address.district)}</cbc:CitySubdivisionName>` : "",
+    `<cbc:CityName>${escapeXml(address.city)}</cbc:CityName>`,
+    address.postalCode ? `<cbc:PostalZone>${escapeXml(address.postalCode)}</cbc:PostalZone>` : "",
+    `<cac:Country><cbc:IdentificationCode>${escapeXml(address.countryCode)}</cbc:IdentificationCode></cac:Country>`,
+    "</cac:PostalAddress>",
+  ].filter(Boolean).join("\n");
+}
+
+function renderParty(tag: "AccountingSupplierParty" | "AccountingCustomerParty", party: ZatcaParty): string {
+  return [
+    `<cac:${tag}>`,
+    "<cac:Party>",
+    party.commercialRegister
+      ? `<cac:PartyIdentification><cbc:ID schemeID="CRN">${escapeXml(party.commercialRegister)}</cbc:ID></cac:PartyIdentification>`
+      : "",
+    renderAddress(party.address),
+    party.vatNumber
+      ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(party.vatNumber)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : "",
+    `<cac:PartyLegalEntity><cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName></cac:PartyLegalEntity>`,
+    "</cac:Party>",
+    `</cac:${tag}>`,
+  ].filter(Boolean).join("\n");
+}
+
+function renderTaxCategory(vatRate: number, tag: "TaxCategory" | "ClassifiedTaxCategory" = "TaxCategory"): string {
+  if (vatRate > 0) {
+    return `<cac:${tag}><cbc:ID>S</cbc:ID><cbc:Percent>${amount(vatRate)}</cbc:Percent><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:${tag}>`;
+  }
+  const exemption = tag === "TaxCategory"
+    ? "<cbc:TaxExemptionReasonCode>VATEX-SA-OOS</cbc:TaxExemptionReasonCode><cbc:TaxExemptionReason>Not subject to VAT</cbc:TaxExemptionReason>"
+    : "";
+  return `<cac:${tag}><cbc:ID>O</cbc:ID><cbc:Percent>0.00</cbc:Percent>${exemption}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:${tag}>`;
+}
+
+function renderUblExtensions(parts: RenderSignatureParts, signedAt: string): string {
+  const keyInfo = parts.certificate
+    ? `<ds:X509Data><ds:X509Certificate>${parts.certificate}</ds:X509Certificate></ds:X509Data>`
+    : `<ds:KeyValue><ds:ECKeyValue>${parts.publicKey}</ds:ECKeyValue></ds:KeyValue>`;
+  return [
+    "<ext:UBLExtensions>",
+    "<ext:UBLExtension>",
+    "<ext:ExtensionURI>urn:oasis:names:specification:ubl:dsig:enveloped:xades</ext:ExtensionURI>",
+    "<ext:ExtensionContent>",
+    '<sig:UBLDocumentSignatures xmlns:sig="urn:oasis:names:specification:ubl:schema:xsd:CommonSignatureComponents-2" xmlns:sac="urn:oasis:names:specification:ubl:schema:xsd:SignatureAggregateComponents-2" xmlns:sbc="urn:oasis:names:specification:ubl:schema:xsd:SignatureBasicComponents-2">',
+    "<sac:SignatureInformation>",
+    "<cbc:ID>urn:oasis:names:specification:ubl:signature:1</cbc:ID>",
+    "<sbc:ReferencedSignatureID>urn:oasis:names:specification:ubl:signature:Invoice</sbc:ReferencedSignatureID>",
+    '<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="signature">',
+    "<ds:SignedInfo>",
+    '<ds:CanonicalizationMethod Algorithm="http://www.w3.org/2006/12/xml-c14n11"/>',
+    '<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256"/>',
+    '<ds:Reference Id="invoiceSignedData" URI="">',
+    '<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>',
+    `<ds:DigestValue>${parts.invoiceHash}</ds:DigestValue>`,
+    "</ds:Reference>",
+    "</ds:SignedInfo>",
+    `<ds:SignatureValue>${parts.signatureValue}</ds:SignatureValue>`,
+    `<ds:KeyInfo>${keyInfo}</ds:KeyInfo>`,
+    `<ds:Object><xades:QualifyingProperties xmlns:xades="http://uri.etsi.org/01903/v1.3.2#" Target="signature"><xades:SignedProperties Id="xadesSignedProperties"><xades:SignedSignatureProperties><xades:SigningTime>${signedAt}</xades:SigningTime></xades:SignedSignatureProperties></xades:SignedProperties></xades:QualifyingProperties></ds:Object>`,
+    "</ds:Signature>",
+    "</sac:SignatureInformation>",
+    "</sig:UBLDocumentSignatures>",
+    "</ext:ExtensionContent>",
+    "</ext:UBLExtension>",
+    "</ext:UBLExtensions>",
+  ].join("\n");
+}
+
+/**
+ * Render the UBL 2.1 document. Without `signature` the output is the hashable body:
+ * no UBLExtensions, QR reference or cac:Signature, exactly as they are stripped before hashing.
+ */
+export function renderZatcaInvoiceXml(
+  input: ZatcaInvoiceInput,
+  counter: number,
+  previousHash: string,
+  signature?: RenderSignatureParts
+): string {
+  const totals = calculateZatcaTotals(input);
+  const [issueDate, issueTimeWithZone] = input.issuedAt.split("T");
+  const issueTime = (issueTimeWithZone ?? "00:00:00Z").replace(/Z$/, "");
+
+  const lines = input.lines.map((line) => {
+    const lineVat = round2(line.netAmount * (input.vatRate / 100));
+    return [
+      "<cac:InvoiceLine>",
+      `<cbc:ID>${line.id}</cbc:ID>`,
+      `<cbc:InvoicedQuantity unitCode="PCE">${line.quantity}</cbc:InvoicedQuantity>`,
+      `<cbc:LineExtensionAmount currencyID="${input.currency}">${amount(line.netAmount)}</cbc:LineExtensionAmount>`,
+      `<cac:TaxTotal><cbc:TaxAmount currencyID="${input.currency}">${amount(lineVat)}</cbc:TaxAmount><cbc:RoundingAmount currencyID="${input.currency}">${amount(line.netAmount + lineVat)}</cbc:RoundingAmount></cac:TaxTotal>`,
+      `<cac:Item><cbc:Name>${escapeXml(line.name)}</cbc:Name>${renderTaxCategory(input.vatRate, "ClassifiedTaxCategory")}</cac:Item>`,
+      `<cac:Price><cbc:PriceAmount currencyID="${input.currency}">${amount(line.quantity > 0 ? line.netAmount / line.quantity : line.unitPrice)}</cbc:PriceAmount>${line.discount > 0 ? `<cac:AllowanceCharge><cbc:ChargeIndicator>false</cbc:ChargeIndicator><cbc:AllowanceChargeReason>discount</cbc:AllowanceChargeReason><cbc:Amount currencyID="${input.currency}">${amount(line.discount / line.quantity)}</cbc:Amount></cac:AllowanceCharge>` : ""}</cac:Price>`,
+      "</cac:InvoiceLine>",
+    ].join("\n");
+  });
+
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2" xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2">',
+    signature ? renderUblExtensions(signature, input.issuedAt) : "",
+    "<cbc:ProfileID>reporting:1.0</cbc:ProfileID>",
+    `<cbc:ID>${escapeXml(input.invoiceNumber)}</cbc:ID>`,
+    `<cbc:UUID>${escapeXml(input.uuid)}</cbc:UUID>`,
+    `<cbc:IssueDate>${issueDate}</cbc:IssueDate>`,
+    `<cbc:IssueTime>${issueTime}</cbc:IssueTime>`,
+    `<cbc:InvoiceTypeCode name="${INVOICE_KIND_CODES[input.kind]}">${DOCUMENT_TYPE_CODES[input.documentType]}</cbc:InvoiceTypeCode>`,
+    `<cbc:DocumentCurrencyCode>${input.currency}</cbc:DocumentCurrencyCode>`,
+    `<cbc:TaxCurrencyCode>${input.currency}</cbc:TaxCurrencyCode>`,
+    input.billingReference
+      ? `<cac:BillingReference><cac:InvoiceDocumentReference><cbc:ID>${escapeXml(input.billingReference)}</cbc:ID></cac:InvoiceDocumentReference></cac:BillingReference>`
+      : "",
+    `<cac:AdditionalDocumentReference><cbc:ID>ICV</cbc:ID><cbc:UUID>${counter}</cbc:UUID></cac:AdditionalDocumentReference>`,
+    `<cac:AdditionalDocumentReference><cbc:ID>PIH</cbc:ID><cac:Attachment><cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${previousHash}</cbc:EmbeddedDocumentBinaryObject></cac:Attachment></cac:AdditionalDocumentReference>`,
+    signature
+      ? `<cac:AdditionalDocumentReference><cbc:ID>QR</cbc:ID><cac:Attachment><cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${signature.qrPayload}</cbc:EmbeddedDocumentBinaryObject></cac:Attachment></cac:AdditionalDocumentReference>`
+      : "",
+    signature
+      ? "<cac:Signature><cbc:ID>urn:oasis:names:specification:ubl:signature:Invoice</cbc:ID><cbc:SignatureMethod>urn:oasis:names:specification:ubl:dsig:enveloped:xades</cbc:SignatureMethod></cac:Signature>"
+      : "",
+    renderParty("AccountingSupplierParty", input.seller),
+    input.buyer ? renderParty("AccountingCustomerParty", input.buyer) : "",
+    `<cac:Delivery><cbc:ActualDeliveryDate>${issueDate}</cbc:ActualDeliveryDate></cac:Delivery>`,
+    `<cac:PaymentMeans><cbc:PaymentMeansCode>10</cbc:PaymentMeansCode>${input.noteReason ? `<cbc:InstructionNote>${escapeXml(input.noteReason)}</cbc:InstructionNote>` : ""}</cac:PaymentMeans>`,
+    input.documentDiscount > 0
+      ? `<cac:AllowanceCharge><cbc:ChargeIndicator>false</cbc:ChargeIndicator><cbc:AllowanceChargeReason>discount</cbc:AllowanceChargeReason><cbc:Amount currencyID="${input.currency}">${amount(input.documentDiscount)}</cbc:Amount>${renderTaxCategory(input.vatRate)}</cac:AllowanceCharge>`
+      : "",
+    `<cac:TaxTotal><cbc:TaxAmount currencyID="${input.currency}">${amount(totals.taxAmount)}</cbc:TaxAmount></cac:TaxTotal>`,
+    `<cac:TaxTotal><cbc:TaxAmount currencyID="${input.currency}">${amount(totals.taxAmount)}</cbc:TaxAmount><cac:TaxSubtotal><cbc:TaxableAmount currencyID="${input.currency}">${amount(totals.taxExclusive)}</cbc:TaxableAmount><cbc:TaxAmount currencyID="${input.currency}">${amount(totals.taxAmount)}</cbc:TaxAmount>${renderTaxCategory(input.vatRate)}</cac:TaxSubtotal></cac:TaxTotal>`,
+    "<cac:LegalMonetaryTotal>",
+    `<cbc:LineExtensionAmount currencyID="${input.currency}">${amount(totals.lineExtension)}</cbc:LineExtensionAmount>`,
+    `<cbc:TaxExclusiveAmount currencyID="${input.currency}">${amount(totals.taxExclusive)}</cbc:TaxExclusiveAmount>`,
+    `<cbc:TaxInclusiveAmount currencyID="${input.currency}">${amount(totals.taxInclusive)}</cbc:TaxInclusiveAmount>`,
+    `<cbc:AllowanceTotalAmount currencyID="${input.currency}">${amount(input.documentDiscount)}</cbc:AllowanceTotalAmount>`,
+    `<cbc:PayableAmount currencyID="${input.currency}">${amount(totals.taxInclusive)}</cbc:PayableAmount>`,
+    "</cac:LegalMonetaryTotal>",
+    ...lines,
+    "</Invoice>",
+  ];
+
+  return parts.filter(Boolean).join("\n");
+}
+
+/**
+ * Strip the parts ZATCA excludes from the invoice hash (XML declaration, UBLExtensions,
+ * QR reference and cac:Signature).
+ */
+export function extractZatcaHashableXml(xml: string): string {
+  return xml
+    .replace(/^<\?xml[^>]*\?>\n/, "")
+    .replace(/\n<ext:UBLExtensions>[\s\S]*?<\/ext:UBLExtensions>/, "")
+    .replace(/\n<cac:AdditionalDocumentReference><cbc:ID>QR<\/cbc:ID>[\s\S]*?<\/cac:AdditionalDocumentReference>/, "")
+    .replace(/\n<cac:Signature>[\s\S]*?<\/cac:Signature>/, "");
+}
+
+/**
+ * Base64 SHA-256 of the hashable part of a document (the value chained as the next PIH)
+ */
+export async function computeZatcaInvoiceHash(xml: string): Promise<string> {
+  return sha256Base64(extractZatcaHashableXml(xml));
+}
+
+/**
+ * Base64 DER SubjectPublicKeyInfo of an uncompressed secp256k1 public key (QR tag 8 and ds:ECKeyValue)
+ */
+export function encodeZatcaPublicKey(point: Uint8Array): string {
+  const spki = new Uint8Array(SECP256K1_SPKI_PREFIX.length + point.length);
+  spki.set(SECP256K1_SPKI_PREFIX);
+  spki.set(point, SECP256K1_SPKI_PREFIX.length);
+  return bytesToBase64(spki);
+}
+
+/**
+ * The uncompressed point of a Base64 SPKI public key, or null when it is not a secp256k1 key
+ */
+export function decodeZatcaPublicKey(publicKey: string): Uint8Array | null {
+  const spki = base64ToBytes(publicKey);
+  const matches = spki.length === SECP256K1_SPKI_PREFIX.length + 65 && SECP256K1_SPKI_PREFIX.every((byte, index) => spki[index] === byte);
+  return matches ? spki.slice(SECP256K1_SPKI_PREFIX.length) : null;
+}
+
+/**
+ * Generate, hash and sign one document as the next link of the chain.
+ * It only becomes part of the chain once recorded by zatca_issue_document.
+ */
+export async function signZatcaInvoice(
+  input: ZatcaInvoiceInput,
+  chain: ZatcaChainState,
+  signer: ZatcaSigner,
+  certificate?: string | null
+): Promise<ZatcaSignedInvoice> {
+  const errors = validateZatcaInvoiceInput(input);
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+
+  const counter = chain.counter + 1;
+  const unsignedXml = renderZatcaInvoiceXml(input, counter, chain.previousHash);
+  const invoiceHash = await computeZatcaInvoiceHash(unsignedXml);
+
+  // SHA-256 of the hash bytes, signed with ECDSA secp256k1 and DER encoded
+  const signatureValue = bytesToBase64(signer.sign(base64ToBytes(invoiceHash)));
+  const publicKey = signer.publicKey;
+
+  const totals = calculateZatcaTotals(input);
+  const qrPayload = encodeTlv([
+    ...zatcaPhase1Records({
+      sellerName: input.seller.name,
+      vatNumber: input.seller.vatNumber ?? "",
+      timestamp: input.issuedAt,
+      invoiceTotal: totals.taxInclusive,
+      vatTotal: totals.taxAmount,
+    }),
+    [ZATCA_TLV_TAGS.INVOICE_HASH, invoiceHash],
+    [ZATCA_TLV_TAGS.SIGNATURE, signatureValue],
+    [ZATCA_TLV_TAGS.PUBLIC_KEY, base64ToBytes(publicKey)],
+  ]);
+
+  const xml = renderZatcaInvoiceXml(input, counter, chain.previousHash, {
+    invoiceHash,
+    signatureValue,
+    publicKey,
+    certificate,
+    qrPayload,
+  });
+
+  return {
+    xml,
+    uuid: input.uuid,
+    counter,
+    invoiceHash,
+    signatureValue,
+    qrPayload,
+    chain: { counter, previousHash: invoiceHash },
+  };
+}
@@ -0,0 +1,185 @@
+// Supabase Edge Function: auth-2fa
+// Two-factor enrolment for the signed-in user: status, start enrolment (QR secret), confirm with
+// a first code, disable, and regenerate recovery codes. Codes are always checked on the server.
+// Administrators also set whether a role requires 2FA (set_role_requirement); API clients cannot
+// write the 2FA columns themselves.
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin, verifyAuth } from "../_shared/auth.ts";
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from "../_shared/totp.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, x-session-token",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  const auth = await verifyAuth(supabase, req);
+  if (!auth.success || !auth.user) {
+    return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  try {
+    if (body.action === "set_role_requirement") {
+      if (!isAdmin(auth.user)) {
+        return jsonResponse(req, 403, { error: "Admin access required to change two-factor requirements" });
+      }
+      const { data: role, error: roleError } = await supabase
+        .from("roles")
+        .update({ require_two_factor: body.required === true })
+        .eq("role_id", String(body.role_id ?? ""))
+        .select("role_id, require_two_factor")
+        .single();
+      if (roleError || !role) {
+        return jsonResponse(req, 404, { error: "Role not found" });
+      }
+      return jsonResponse(req, 200, role);
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from("system_users")
+      .select("user_id, email, role_id, totp_enabled, totp_secret, totp_last_used_step, totp_recovery_codes, totp_enrolled_at")
+      .eq("user_id", auth.user.user_id)
+      .single();
+    if (userError || !user) {
+      return jsonResponse(req, 404, { error: "User not found" });
+    }
+
+    const required = await isTwoFactorRequired(supabase, user.role_id);
+    const recoveryCodes = Array.isArray(user.totp_recovery_codes) ? user.totp_recovery_codes : [];
+    const secondFactor = () =>
+      verifySecondFactor(supabase, user, {
+        code: body.code ? String(body.code) : undefined,
+        recovery_code: body.recovery_code ? String(body.recovery_code) : undefined,
+      });
+
+    switch (body.action) {
+      case "status":
+        return jsonResponse(req, 200, {
+          enabled: user.totp_enabled === true,
+          required,
+          enrolled_at: user.totp_enrolled_at,
+          recovery_codes_remaining: recoveryCodes.length,
+        });
+
+      case "setup":
+        if (user.totp_enabled) {
+          return jsonResponse(req, 409, { error: "Two-factor authentication is already enabled" });
+        }
+        return jsonResponse(req, 200, await beginTotpEnrollment(supabase, user));
+
+      case "confirm": {
+        const codes = await confirmTotpEnrollment(supabase, user.user_id, String(body.code ?? ""));
+        if (!codes) {
+          return jsonResponse(req, 400, { error: "Invalid verification code" });
+        }
+        return jsonResponse(req, 200, { enabled: true, recovery_codes: codes });
+      }
+
+      case "disable": {
+        if (required) {
+          return jsonResponse(req, 403, { error: "Two-factor authentication is required for your role" });
+        }
+        if (!(await secondFactor()).valid) {
+          return jsonResponse(req, 400, { error: "Invalid verification code" });
+        }
+        await supabase
+          .from("system_users")
+          .update({
+            totp_enabled: false,
+            totp_secret: null,
+            totp_recovery_codes: [],
+            totp_last_used_step: null,
+            totp_enrolled_at: null,
+          })
+          .eq("user_id", user.user_id);
+        return jsonResponse(req, 200, { enabled: false });
+      }
+
+      case "regenerate_recovery_codes": {
+        if (!user.totp_enabled) {
+          return jsonResponse(req, 400, { error: "Two-factor authentication is not enabled" });
+        }
+        if (!(await secondFactor()).valid) {
+          return jsonResponse(req, 400, { error: "Invalid verification code" });
+        }
+        const recovery = await generateRecoveryCodes();
+        await supabase
+          .from("system_users")
+          .update({ totp_recovery_codes: recovery.hashes })
+          .eq("user_id", user.user_id);
+        return jsonResponse(req, 200, { recovery_codes: recovery.codes });
+      }
+
+      default:
+        return jsonResponse(req, 400, { error: "Unknown action" });
+    }
+  } catch (error) {
+    console.error("Error managing two-factor authentication:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse(req, 500, { error: "Internal server error", message: errorMessage });
+  }
+});
@@ -0,0 +1,293 @@
+// Supabase Edge Function: auth-login
+// Verifies email/password against system_users and issues a short-lived session token.
+// Users with two-factor authentication get a challenge token instead and must finish with a TOTP
+// or recovery code (or enrol first when their role requires 2FA). Also refreshes a still-valid
+// session token so active sessions do not expire mid-work.
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  LOCKOUT_MINUTES,
+  MAX_FAILED_LOGINS,
+  hashPassword,
+  signSessionToken,
+  verifyAuth,
+  verifyPassword,
+  verifySessionToken,
+  type SessionTokenScope,
+} from "../_shared/auth.ts";
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from "../_shared/totp.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+// Verified when the email is unknown so response time does not reveal which emails exist
+const DUMMY_PASSWORD_HASH = "pbkdf2_sha256$310000$AAAAAAAAAAAAAAAAAAAAAA$AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+
+// Time allowed between the password step and the second factor
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const SETUP_CHALLENGE_TTL_SECONDS = 15 * 60;
+
+const USER_COLUMNS =
+  "user_id, email, full_name, status, role_id, password_hash, failed_login_attempts, locked_until, " +
+  "totp_enabled, totp_secret, totp_last_used_step, totp_recovery_codes";
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, x-session-token",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  const lockedResponse = (lockedUntil: string) =>
+    jsonResponse(req, 423, {
+      error: "Account temporarily locked after too many failed attempts",
+      locked_until: lockedUntil,
+    });
+
+  // Wrong passwords and wrong second-factor codes count towards the same lockout
+  const registerFailure = async (user: { user_id: string; failed_login_attempts: number | null }, error: string) => {
+    const attempts = Number(user.failed_login_attempts ?? 0) + 1;
+    const locked = attempts >= MAX_FAILED_LOGINS;
+    const lockedUntil = locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString() : null;
+    await supabase
+      .from("system_users")
+      .update({
+        failed_login_attempts: locked ? 0 : attempts,
+        locked_until: lockedUntil,
+      })
+      .eq("user_id", user.user_id);
+
+    if (lockedUntil) return lockedResponse(lockedUntil);
+    return jsonResponse(req, 401, { error, attempts_remaining: MAX_FAILED_LOGINS - attempts });
+  };
+
+  const completeLogin = async (
+    user: { user_id: string; email: string; full_name: string | null; role_id: string | null },
+    extra: Record<string, unknown> = {}
+  ) => {
+    const { error: updateError } = await supabase
+      .from("system_users")
+      .update({
+        failed_login_attempts: 0,
+        locked_until: null,
+        last_login: new Date().toISOString(),
+      })
+      .eq("user_id", user.user_id);
+    if (updateError) {
+      console.error("Error updating login state:", updateError);
+    }
+
+    let role: { role_name: string | null; permissions: unknown } | null = null;
+    if (user.role_id) {
+      const { data } = await supabase
+        .from("roles")
+        .select("role_name, permissions")
+        .eq("role_id", user.role_id)
+        .single();
+      role = data ?? null;
+    }
+
+    const session = await signSessionToken(user);
+    return jsonResponse(req, 200, {
+      token: session.token,
+      expires_at: session.expiresAt,
+      user: {
+        user_id: user.user_id,
+        email: user.email,
+        full_name: user.full_name,
+        role_id: user.role_id,
+        role_name: role?.role_name ?? null,
+        role_permissions: role?.permissions ?? null,
+      },
+      ...extra,
+    });
+  };
+
+  // Second-step actions carry the challenge token issued after the password check
+  const loadChallengeUser = async (scope: SessionTokenScope) => {
+    const challenge = await verifySessionToken(String(body.challenge_token ?? ""), scope);
+    if (!challenge) return null;
+    const { data: user } = await supabase
+      .from("system_users")
+      .select(USER_COLUMNS)
+      .eq("user_id", challenge.sub)
+      .single();
+    return user && user.status === "active" ? user : null;
+  };
+
+  try {
+    if (body.action === "refresh") {
+      const auth = await verifyAuth(supabase, req);
+      if (!auth.success || !auth.user) {
+        return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+      }
+      const session = await signSessionToken(auth.user);
+      return jsonResponse(req, 200, { token: session.token, expires_at: session.expiresAt });
+    }
+
+    if (body.action === "verify_2fa") {
+      const user = await loadChallengeUser("two_factor");
+      if (!user) {
+        return jsonResponse(req, 401, { error: "Verification expired. Please log in again." });
+      }
+      if (user.locked_until && new Date(user.locked_until) > new Date()) {
+        return lockedResponse(user.locked_until);
+      }
+      const result = await verifySecondFactor(supabase, user, {
+        code: body.code ? String(body.code) : undefined,
+        recovery_code: body.recovery_code ? String(body.recovery_code) : undefined,
+      });
+      if (!result.valid) {
+        return await registerFailure(user, "Invalid verification code");
+      }
+      return await completeLogin(user, { recovery_codes_remaining: result.recoveryCodesRemaining });
+    }
+
+    if (body.action === "setup_2fa") {
+      const user = await loadChallengeUser("two_factor_setup");
+      if (!user) {
+        return jsonResponse(req, 401, { error: "Verification expired. Please log in again." });
+      }
+      return jsonResponse(req, 200, await beginTotpEnrollment(supabase, user));
+    }
+
+    if (body.action === "confirm_2fa") {
+      const user = await loadChallengeUser("two_factor_setup");
+      if (!user) {
+        return jsonResponse(req, 401, { error: "Verification expired. Please log in again." });
+      }
+      const recoveryCodes = await confirmTotpEnrollment(supabase, user.user_id, String(body.code ?? ""));
+      if (!recoveryCodes) {
+        return jsonResponse(req, 400, { error: "Invalid verification code" });
+      }
+      return await completeLogin(user, { recovery_codes: recoveryCodes });
+    }
+
+    const email = String(body.email ?? "").trim();
+    const password = String(body.password ?? "");
+    if (!email || !password) {
+      return jsonResponse(req, 400, { error: "Email and password are required" });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from("system_users")
+      .select(USER_COLUMNS)
+      .eq("email", email)
+      .maybeSingle();
+
+    if (userError) throw userError;
+
+    if (!user) {
+      await verifyPassword(password, DUMMY_PASSWORD_HASH);
+      return jsonResponse(req, 401, { error: "Invalid email or password" });
+    }
+
+    if (user.locked_until && new Date(user.locked_until) > new Date()) {
+      return lockedResponse(user.locked_until);
+    }
+
+    const { valid, needsUpgrade } = await verifyPassword(password, user.password_hash);
+
+    if (!valid) {
+      return await registerFailure(user, "Invalid email or password");
+    }
+
+    if (user.status !== "active") {
+      return jsonResponse(req, 403, { error: "User account is not active" });
+    }
+
+    // Legacy SHA-256 (or weaker PBKDF2) hashes are replaced now that we have the plain password
+    if (needsUpgrade) {
+      const { error: upgradeError } = await supabase
+        .from("system_users")
+        .update({ password_hash: await hashPassword(password) })
+        .eq("user_id", user.user_id);
+      if (upgradeError) {
+        console.error("Error upgrading password hash:", upgradeError);
+      }
+    }
+
+    // No session until the second factor is done; the challenge token cannot call other functions
+    if (user.totp_enabled) {
+      const challenge = await signSessionToken(user, CHALLENGE_TTL_SECONDS, "two_factor");
+      return jsonResponse(req, 200, {
+        two_factor_required: true,
+        challenge_token: challenge.token,
+        expires_at: challenge.expiresAt,
+      });
+    }
+
+    if (await isTwoFactorRequired(supabase, user.role_id)) {
+      const challenge = await signSessionToken(user, SETUP_CHALLENGE_TTL_SECONDS, "two_factor_setup");
+      return jsonResponse(req, 200, {
+        two_factor_setup_required: true,
+        challenge_token: challenge.token,
+        expires_at: challenge.expiresAt,
+      });
+    }
+
+    return await completeLogin(user);
+  } catch (error) {
+    console.error("Error during login:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse(req, 500, { error: "Internal server error", message: errorMessage });
+  }
+});
@@ -0,0 +1,138 @@
+// Supabase Edge Function: auth-password
+// Hashes passwords on the server: users change their own password (current password required),
+// administrators set a password for another user. Either way existing sessions are invalidated.
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashPassword, isAdmin, signSessionToken, verifyAuth, verifyPassword } from "../_shared/auth.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, x-session-token",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  const auth = await verifyAuth(supabase, req);
+  if (!auth.success || !auth.user) {
+    return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  const newPassword = String(body.new_password ?? "");
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return jsonResponse(req, 400, { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  // Changing someone else's password is an admin operation
+  const targetUserId = String(body.user_id || auth.user.user_id);
+  const isSelf = targetUserId === auth.user.user_id;
+  if (!isSelf && !isAdmin(auth.user)) {
+    return jsonResponse(req, 403, { error: "Admin access required to set another user's password" });
+  }
+
+  try {
+    // Users changing their own password must prove they know the current one; admins setting a
+    // password from user management do not
+    if (isSelf && (!body.user_id || !isAdmin(auth.user))) {
+      const { data: user, error: userError } = await supabase
+        .from("system_users")
+        .select("password_hash")
+        .eq("user_id", targetUserId)
+        .single();
+      if (userError || !user) {
+        return jsonResponse(req, 404, { error: "User not found" });
+      }
+      const { valid } = await verifyPassword(String(body.current_password ?? ""), user.password_hash);
+      if (!valid) {
+        return jsonResponse(req, 400, { error: "Current password is incorrect" });
+      }
+    }
+
+    const changedAt = new Date().toISOString();
+    const { data: updated, error: updateError } = await supabase
+      .from("system_users")
+      .update({
+        password_hash: await hashPassword(newPassword),
+        password_changed_at: changedAt,
+        failed_login_attempts: 0,
+        locked_until: null,
+      })
+      .eq("user_id", targetUserId)
+      .select("user_id, role_id")
+      .single();
+
+    if (updateError || !updated) {
+      throw updateError ?? new Error("User not found");
+    }
+
+    // Older tokens stop working after a password change, so the caller gets a fresh one
+    const session = isSelf ? await signSessionToken(updated) : null;
+
+    return jsonResponse(req, 200, {
+      success: true,
+      token: session?.token,
+      expires_at: session?.expiresAt,
+    });
+  } catch (error) {
+    console.error("Error updating password:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse(req, 500, { error: "Internal server error", message: errorMessage });
+  }
+});
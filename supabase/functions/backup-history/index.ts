@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyAuth } from "../_shared/auth.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -29,7 +30,7 @@ function getCorsHeaders(req: Request) {
   return {
     "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
@@ -55,7 +56,6 @@ serve(async (req: Request) => {
 
   // Verify user authentication for POST requests
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-  let userId: string | null = null;
   let body: any = {};
   let limit = 5;
   const url = new URL(req.url); // Define url at higher scope for both GET and POST
@@ -63,41 +63,7 @@ serve(async (req: Request) => {
   if (req.method === "POST") {
     try {
       body = await req.json();
-      userId = body.user_id || null;
       limit = parseInt(body.limit || "5", 10);
-      
-      if (!userId) {
-        return new Response(
-          JSON.stringify({ error: "Authentication required. Please log in." }),
-          {
-            status: 401,
-            headers: {
-              "Content-Type": "application/json",
-              ...getCorsHeaders(req),
-            },
-          }
-        );
-      }
-
-      // Verify user exists and is active
-      const { data: user, error: userError } = await supabase
-        .from("system_users")
-        .select("user_id, status")
-        .eq("user_id", userId)
-        .single();
-
-      if (userError || !user || user.status !== "active") {
-        return new Response(
-          JSON.stringify({ error: "User not found or account is not active" }),
-          {
-            status: 403,
-            headers: {
-              "Content-Type": "application/json",
-              ...getCorsHeaders(req),
-            },
-          }
-        );
-      }
     } catch (parseError) {
       return new Response(
         JSON.stringify({ error: "Invalid request body" }),
@@ -110,24 +76,23 @@ serve(async (req: Request) => {
         }
       );
     }
+
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        {
+          status: auth.statusCode ?? 401,
+          headers: {
+            "Content-Type": "application/json",
+            ...getCorsHeaders(req),
+          },
+        }
+      );
+    }
   } else {
-    // GET request - less strict, but still verify if user_id provided
+    // GET request - less strict, listing only
     limit = parseInt(url.searchParams.get("limit") || "5", 10);
-    userId = url.searchParams.get("user_id");
-    
-    // If user_id provided in GET, verify it
-    if (userId) {
-      const { data: user } = await supabase
-        .from("system_users")
-        .select("user_id, status")
-        .eq("user_id", userId)
-        .single();
-      
-      // Don't fail if user not found in GET, just ignore user_id
-      if (!user || user.status !== "active") {
-        userId = null;
-      }
-    }
   }
 
   try {
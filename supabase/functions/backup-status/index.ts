@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSessionToken, verifyAuth } from "../_shared/auth.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -34,7 +35,7 @@ function getCorsHeaders(req: Request) {
   return {
     "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
@@ -107,7 +108,6 @@ serve(async (req: Request) => {
 
   // Verify user authentication
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-  let userId: string | null = null;
   let dispatchId: string | null = null;
   let body: any = {};
   
@@ -116,40 +116,19 @@ serve(async (req: Request) => {
     if (req.method === "GET") {
       const url = new URL(req.url);
       dispatchId = url.searchParams.get("dispatch_id");
-      userId = url.searchParams.get("user_id");
     } else if (req.method === "POST") {
       body = await req.json();
       dispatchId = body.dispatch_id || null;
-      userId = body.user_id || null;
     }
 
-    // Require authentication for POST requests
-    if (req.method === "POST" && !userId) {
-      return new Response(
-        JSON.stringify({ error: "Authentication required. Please log in." }),
-        {
-          status: 401,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    // Verify user if provided
-    if (userId) {
-      const { data: user, error: userError } = await supabase
-        .from("system_users")
-        .select("user_id, status")
-        .eq("user_id", userId)
-        .single();
-
-      if (userError || !user || user.status !== "active") {
+    // Require authentication for POST requests; GET verifies a token only if one is sent
+    if (req.method === "POST" || getSessionToken(req)) {
+      const auth = await verifyAuth(supabase, req);
+      if (!auth.success) {
         return new Response(
-          JSON.stringify({ error: "User not found or account is not active" }),
+          JSON.stringify({ error: auth.error }),
           {
-            status: 403,
+            status: auth.statusCode ?? 401,
             headers: {
               "Content-Type": "application/json",
               ...getCorsHeaders(req),
@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin, verifyAuth } from "../_shared/auth.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -29,7 +30,7 @@ function getCorsHeaders(req: Request) {
   return {
     "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
@@ -56,50 +57,16 @@ serve(async (req: Request) => {
   // Verify user authentication and authorization
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
   let body: any = {};
-  let userId: string | null = null;
   
   try {
     body = await req.json();
-    userId = body.user_id || null;
     
-    if (!userId) {
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success || !auth.user) {
       return new Response(
-        JSON.stringify({ error: "Authentication required. Please log in." }),
+        JSON.stringify({ error: auth.error }),
         {
-          status: 401,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    // Verify user exists and is active
-    const { data: user, error: userError } = await supabase
-      .from("system_users")
-      .select("user_id, status, role_id")
-      .eq("user_id", userId)
-      .single();
-
-    if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: "User not found or invalid" }),
-        {
-          status: 403,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    if (user.status !== "active") {
-      return new Response(
-        JSON.stringify({ error: "User account is not active" }),
-        {
-          status: 403,
+          status: auth.statusCode ?? 401,
           headers: {
             "Content-Type": "application/json",
             ...getCorsHeaders(req),
@@ -109,23 +76,7 @@ serve(async (req: Request) => {
     }
 
     // Check for admin role (cancel is critical operation)
-    let isAdmin = false;
-    if (user.role_id) {
-      const { data: role } = await supabase
-        .from("roles")
-        .select("role_name, permissions")
-        .eq("role_id", user.role_id)
-        .single();
-
-      if (role) {
-        const permissions = role.permissions;
-        const roleName = (role.role_name || "").toLowerCase();
-        isAdmin = permissions === "all" || permissions === "ALL" || 
-                  roleName.includes("admin") || roleName.includes("super");
-      }
-    }
-
-    if (!isAdmin) {
+    if (!isAdmin(auth.user)) {
       return new Response(
         JSON.stringify({ error: "Admin access required for cancel operations" }),
         {
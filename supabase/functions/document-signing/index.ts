@@ -0,0 +1,429 @@
+// Supabase Edge Function: document-signing
+// Customer e-signatures for contracts and quotations (see the document_signatures migration).
+//   create  - signed-in staff: store the rendered document and return a one-off signing token
+//   view    - public, with the token: the document to sign and the state of the link
+//   sign    - public, with the token: record the signature, for contracts mark the contract signed, and
+//             archive the signed copy as a PDF with the contract files (see ../_shared/pdf.ts)
+//   archive - signed-in staff: archive the signed copy when that failed at signing time
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkRateLimit, verifyAuth } from "../_shared/auth.ts";
+import { renderPdf, storePdf } from "../_shared/pdf.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024;
+const MAX_SIGNATURE_BYTES = 512 * 1024;
+
+// Public calls per IP address per window
+const PUBLIC_RATE_LIMIT = 30;
+const PUBLIC_RATE_WINDOW_MS = 10 * 60 * 1000;
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+interface SignatureRequestRow {
+  request_id: string;
+  document_type: "contract" | "quotation";
+  document_id: string;
+  document_number: string;
+  document_html: string;
+  document_hash: string;
+  status: "pending" | "signed" | "expired" | "revoked";
+  expires_at: string;
+  viewed_at: string | null;
+  signer_name: string | null;
+  signature_image: string | null;
+  signer_ip: string | null;
+  signed_at: string | null;
+  signed_file_id: string | null;
+}
+
+// Returned to staff when a link is created, with the token
+type CreatedRequestRow = Pick<SignatureRequestRow, "request_id" | "document_hash" | "expires_at">;
+
+interface SignedContractRow {
+  contract_status: string | null;
+}
+
+const errorMessage = (error: unknown) =>
+  (error as { message?: string })?.message || String(error);
+
+const encoder = new TextEncoder();
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(input));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("cf-connecting-ip") ?? req.headers.get("x-real-ip");
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+/**
+ * The signed copy: the document as signed followed by a signature certificate page
+ */
+function signedDocumentHtml(request: SignatureRequestRow): string {
+  const certificate = `
+    <section style="page-break-before: always; font-family: Arial, sans-serif; padding: 24px; direction: ltr;">
+      <h2 style="font-size: 18px; margin-bottom: 16px;">Electronic Signature Certificate - شهادة التوقيع الإلكتروني</h2>
+      <table style="border-collapse: collapse; font-size: 13px; width: 100%;">
+        <tr><td style="padding: 6px; font-weight: bold; width: 180px;">Document</td><td style="padding: 6px;">${escapeHtml(request.document_number)}</td></tr>
+        <tr><td style="padding: 6px; font-weight: bold;">Signed by</td><td style="padding: 6px;">${escapeHtml(request.signer_name ?? "")}</td></tr>
+        <tr><td style="padding: 6px; font-weight: bold;">Signed at (UTC)</td><td style="padding: 6px;">${escapeHtml(request.signed_at ?? "")}</td></tr>
+        <tr><td style="padding: 6px; font-weight: bold;">IP address</td><td style="padding: 6px;">${escapeHtml(request.signer_ip ?? "Unknown")}</td></tr>
+        <tr><td style="padding: 6px; font-weight: bold;">Document SHA-256</td><td style="padding: 6px; font-family: monospace; word-break: break-all;">${request.document_hash}</td></tr>
+      </table>
+      <p style="margin-top: 16px; font-size: 13px;">Signature:</p>
+      <img src="${request.signature_image}" alt="Signature" style="max-width: 320px; border-bottom: 1px solid #333;" />
+    </section>`;
+  const closing = request.document_html.lastIndexOf("</body>");
+  return closing === -1
+    ? request.document_html + certificate
+    : request.document_html.slice(0, closing) + certificate + request.document_html.slice(closing);
+}
+
+/**
+ * Render the signed copy to PDF, store it with the contract files of the document and link it to the
+ * request. Returns the updated request.
+ */
+async function archiveSignedCopy(supabase: SupabaseClient, request: SignatureRequestRow): Promise<SignatureRequestRow> {
+  if (request.signed_file_id) return request;
+  const stored = await storePdf(supabase, await renderPdf(signedDocumentHtml(request)), {
+    bucket: "contracts",
+    category: "contract_file",
+    ownerId: request.document_id,
+    ownerType: request.document_type,
+    fileName: `${request.document_number}-signed.pdf`,
+    pathPrefix: `contracts/${request.document_id}`,
+    description: `Signed copy of ${request.document_number}`,
+    metadata: { signature_request_id: request.request_id, document_hash: request.document_hash },
+  });
+
+  const { data, error } = await supabase
+    .from("document_signature_requests")
+    .update({ signed_file_id: stored.file_id })
+    .eq("request_id", request.request_id)
+    .is("signed_file_id", null)
+    .select("*")
+    .maybeSingle();
+  if (error) throw error;
+  // Archived meanwhile by another call: keep that copy
+  if (!data) await supabase.storage.from(stored.bucket).remove([stored.path]);
+  return (data as SignatureRequestRow | null) ?? request;
+}
+
+/**
+ * What the public page may see about a request
+ */
+function publicView(request: SignatureRequestRow) {
+  return {
+    request_id: request.request_id,
+    document_type: request.document_type,
+    document_id: request.document_id,
+    document_number: request.document_number,
+    document_html: request.document_html,
+    document_hash: request.document_hash,
+    status: request.status,
+    expires_at: request.expires_at,
+    signer_name: request.signer_name,
+    signed_at: request.signed_at,
+    signed_file_id: request.signed_file_id,
+  };
+}
+
+async function findByToken(supabase: SupabaseClient, token: unknown): Promise<SignatureRequestRow | null> {
+  if (typeof token !== "string" || token.length < 32 || token.length > 128) return null;
+  const { data, error } = await supabase
+    .from("document_signature_requests")
+    .select("*")
+    .eq("token_hash", await sha256Hex(token))
+    .maybeSingle();
+  if (error) throw error;
+  return data as SignatureRequestRow | null;
+}
+
+// Pending links past their expiry are closed when they are next used
+async function expireIfDue(supabase: SupabaseClient, request: SignatureRequestRow): Promise<SignatureRequestRow> {
+  if (request.status !== "pending" || new Date(request.expires_at).getTime() > Date.now()) return request;
+  await supabase
+    .from("document_signature_requests")
+    .update({ status: "expired" })
+    .eq("request_id", request.request_id)
+    .eq("status", "pending");
+  return { ...request, status: "expired" };
+}
+
+async function handleCreate(req: Request, supabase: SupabaseClient, body: Record<string, unknown>) {
+  const auth = await verifyAuth(supabase, req);
+  if (!auth.success || !auth.user) {
+    return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+  }
+
+  const { document_type, document_id, document_number, document_html } = body;
+  if (document_type !== "contract" && document_type !== "quotation") {
+    return jsonResponse(req, 400, { error: "document_type must be contract or quotation" });
+  }
+  if (typeof document_id !== "string" || typeof document_number !== "string" || !document_number.trim()) {
+    return jsonResponse(req, 400, { error: "document_id and document_number are required" });
+  }
+  if (typeof document_html !== "string" || !document_html.trim()) {
+    return jsonResponse(req, 400, { error: "document_html is required" });
+  }
+  if (encoder.encode(document_html).length > MAX_DOCUMENT_BYTES) {
+    return jsonResponse(req, 413, { error: "The document is too large to send for signature" });
+  }
+  const expiresInDays = Number(body.expires_in_days ?? DEFAULT_EXPIRY_DAYS);
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+    return jsonResponse(req, 400, { error: `Links can be valid for 1 to ${MAX_EXPIRY_DAYS} days` });
+  }
+
+  const table = document_type === "contract" ? "contracts" : "quotations";
+  const idColumn = document_type === "contract" ? "contract_id" : "quotation_id";
+  const { data: document, error: documentError } = await supabase.from(table).select(idColumn).eq(idColumn, document_id).maybeSingle();
+  if (documentError) return jsonResponse(req, 500, { error: errorMessage(documentError) });
+  if (!document) return jsonResponse(req, 404, { error: `The ${document_type} was not found` });
+
+  // A new link replaces the open one
+  const { error: revokeError } = await supabase
+    .from("document_signature_requests")
+    .update({ status: "revoked" })
+    .eq("document_type", document_type)
+    .eq("document_id", document_id)
+    .eq("status", "pending");
+  if (revokeError) return jsonResponse(req, 500, { error: errorMessage(revokeError) });
+
+  const token = randomToken();
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("document_signature_requests")
+    .insert({
+      document_type,
+      document_id,
+      document_number: document_number.trim(),
+      document_html,
+      document_hash: await sha256Hex(document_html),
+      token_hash: await sha256Hex(token),
+      expires_at: expiresAt,
+      created_by: auth.user.user_id,
+    })
+    .select("request_id, document_hash, expires_at")
+    .single();
+  if (error) return jsonResponse(req, 500, { error: errorMessage(error) });
+
+  return jsonResponse(req, 200, { ...(data as CreatedRequestRow), token });
+}
+
+async function handleView(req: Request, supabase: SupabaseClient, body: Record<string, unknown>) {
+  const found = await findByToken(supabase, body.token);
+  if (!found) return jsonResponse(req, 404, { error: "This signing link is not valid" });
+  const request = await expireIfDue(supabase, found);
+
+  if (request.status === "pending" && !request.viewed_at) {
+    await supabase
+      .from("document_signature_requests")
+      .update({ viewed_at: new Date().toISOString() })
+      .eq("request_id", request.request_id);
+  }
+  return jsonResponse(req, 200, publicView(request));
+}
+
+async function handleSign(req: Request, supabase: SupabaseClient, body: Record<string, unknown>) {
+  const found = await findByToken(supabase, body.token);
+  if (!found) return jsonResponse(req, 404, { error: "This signing link is not valid" });
+  const request = await expireIfDue(supabase, found);
+  if (request.status === "signed") return jsonResponse(req, 409, { error: "This document has already been signed" });
+  if (request.status !== "pending") return jsonResponse(req, 410, { error: `This signing link has been ${request.status}` });
+
+  const signerName = typeof body.signer_name === "string" ? body.signer_name.trim() : "";
+  if (signerName.length < 2 || signerName.length > 120) {
+    return jsonResponse(req, 400, { error: "Please type your full name" });
+  }
+  const signature = typeof body.signature_image === "string" ? body.signature_image : "";
+  if (!/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/.test(signature) || signature.length > MAX_SIGNATURE_BYTES) {
+    return jsonResponse(req, 400, { error: "Please draw your signature" });
+  }
+  if (body.accepted !== true) {
+    return jsonResponse(req, 400, { error: "Please accept the document to sign it" });
+  }
+  // The customer signs what they were shown: the page echoes the hash it received with the document
+  if (body.document_hash !== request.document_hash || (await sha256Hex(request.document_html)) !== request.document_hash) {
+    return jsonResponse(req, 409, { error: "The document has changed since it was opened. Please reload the page." });
+  }
+
+  const signedAt = new Date().toISOString();
+  const signerIp = clientIp(req);
+  const { data: updated, error: updateError } = await supabase
+    .from("document_signature_requests")
+    .update({
+      status: "signed",
+      signer_name: signerName,
+      signature_image: signature,
+      signer_ip: signerIp,
+      signer_user_agent: req.headers.get("user-agent"),
+      signed_at: signedAt,
+    })
+    .eq("request_id", request.request_id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+  if (updateError) return jsonResponse(req, 500, { error: errorMessage(updateError) });
+  if (!updated) return jsonResponse(req, 409, { error: "This document has already been signed" });
+  const signed = updated as SignatureRequestRow;
+
+  if (signed.document_type === "contract") {
+    const { data, error: contractError } = await supabase
+      .from("contracts")
+      .select("contract_status")
+      .eq("contract_id", signed.document_id)
+      .maybeSingle();
+    if (contractError) console.error("Failed to load signed contract:", contractError);
+    const contract = data as SignedContractRow | null;
+
+    const previousStatus = contract?.contract_status ?? "draft";
+    if (contract && previousStatus.toLowerCase() === "draft") {
+      const { error } = await supabase
+        .from("contracts")
+        .update({ contract_status: "signed", signed_date: signedAt.slice(0, 10) })
+        .eq("contract_id", signed.document_id);
+      if (error) console.error("Failed to mark contract signed:", error);
+    }
+    const { error: historyError } = await supabase.from("contract_history").insert({
+      contract_id: signed.document_id,
+      action: "Signed",
+      description: "Contract signed online by the customer",
+      details: `Signed by ${signerName}${signerIp ? ` from ${signerIp}` : ""}. Document SHA-256: ${signed.document_hash}${
+        previousStatus.toLowerCase() === "draft" ? ". Contract status changed from draft to Signed" : ""
+      }`,
+      user_name: signerName,
+      user_id: null,
+    });
+    if (historyError) console.error("Failed to log contract signature:", historyError);
+  }
+
+  // The signature stands even if the copy cannot be archived now; staff can archive it later
+  let archived = signed;
+  try {
+    archived = await archiveSignedCopy(supabase, signed);
+  } catch (error) {
+    console.error("Failed to archive the signed copy:", error);
+  }
+  return jsonResponse(req, 200, publicView(archived));
+}
+
+async function handleArchive(req: Request, supabase: SupabaseClient, body: Record<string, unknown>) {
+  const auth = await verifyAuth(supabase, req);
+  if (!auth.success || !auth.user) {
+    return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+  }
+  if (typeof body.request_id !== "string") return jsonResponse(req, 400, { error: "request_id is required" });
+
+  const { data, error } = await supabase
+    .from("document_signature_requests")
+    .select("*")
+    .eq("request_id", body.request_id)
+    .maybeSingle();
+  if (error) return jsonResponse(req, 500, { error: errorMessage(error) });
+  const request = data as SignatureRequestRow | null;
+  if (!request) return jsonResponse(req, 404, { error: "Signature request not found" });
+  if (request.status !== "signed") return jsonResponse(req, 409, { error: "The document has not been signed" });
+
+  return jsonResponse(req, 200, publicView(await archiveSignedCopy(supabase, request)));
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    const text = await req.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    switch (body.action) {
+      case "create":
+        return await handleCreate(req, supabase, body);
+      case "archive":
+        return await handleArchive(req, supabase, body);
+      case "view":
+      case "sign": {
+        // Token guessing is not practical, but public calls are still throttled per address
+        const limit = checkRateLimit(`document-signing:${clientIp(req) ?? "unknown"}`, PUBLIC_RATE_LIMIT, PUBLIC_RATE_WINDOW_MS);
+        if (!limit.allowed) {
+          return jsonResponse(req, 429, { error: "Too many requests. Please try again later." });
+        }
+        if (body.action === "view") return await handleView(req, supabase, body);
+        return await handleSign(req, supabase, body);
+      }
+      default:
+        return jsonResponse(req, 400, { error: "Unknown action" });
+    }
+  } catch (error) {
+    console.error("document-signing failed:", error);
+    return jsonResponse(req, 500, { error: errorMessage(error) });
+  }
+});
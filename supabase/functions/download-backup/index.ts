@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyAuth } from "../_shared/auth.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { S3Client, GetObjectCommand } from "https://esm.sh/@aws-sdk/client-s3@3";
 // @ts-ignore - Deno handles URL-based imports at runtime
@@ -36,7 +37,7 @@ function getCorsHeaders(req: Request) {
   const isAllowed = allowedOrigins.includes(origin);
   return {
     "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
-    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
@@ -70,7 +71,6 @@ serve(async (req: Request) => {
 
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
   let backupId: string | null = null;
-  let userId: string | null = null;
 
   try {
     // Support both GET (path param) and POST (body)
@@ -78,11 +78,9 @@ serve(async (req: Request) => {
       const url = new URL(req.url);
       const pathParts = url.pathname.split("/");
       backupId = pathParts[pathParts.length - 1] || url.searchParams.get("backup_id");
-      userId = url.searchParams.get("user_id");
     } else {
       const body = await req.json();
       backupId = body.backup_id || null;
-      userId = body.user_id || null;
     }
 
     if (!backupId) {
@@ -95,31 +93,12 @@ serve(async (req: Request) => {
       });
     }
 
-    if (!userId) {
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success) {
       return new Response(
-        JSON.stringify({ error: "Authentication required. Please log in." }),
+        JSON.stringify({ error: auth.error }),
         {
-          status: 401,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    // Verify user exists and is active
-    const { data: user, error: userError } = await supabase
-      .from("system_users")
-      .select("user_id, status")
-      .eq("user_id", userId)
-      .single();
-
-    if (userError || !user || user.status !== "active") {
-      return new Response(
-        JSON.stringify({ error: "User not found or account is not active" }),
-        {
-          status: 403,
+          status: auth.statusCode ?? 401,
           headers: {
             "Content-Type": "application/json",
             ...getCorsHeaders(req),
@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyAuth } from "../_shared/auth.ts";
 // Using crypto for HMAC-SHA256 signing (built into Deno)
 // We'll generate presigned URLs manually to avoid AWS SDK file system access issues
 
@@ -39,7 +40,7 @@ function getCorsHeaders(req: Request) {
   return {
     "Access-Control-Allow-Origin": allowOrigin,
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type, x-requested-with",
+      "authorization, x-client-info, apikey, content-type, x-requested-with, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS, PUT, DELETE",
     "Access-Control-Allow-Credentials": "true",
     "Access-Control-Max-Age": "86400", // 24 hours
@@ -190,38 +191,17 @@ serve(async (req: Request) => {
   const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
   let body: any = {};
-  let userId: string | null = null;
   
   try {
     body = await req.json();
-    userId = body.user_id || null;
     const { s3_key } = body;
     
-    if (!userId) {
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success) {
       return new Response(
-        JSON.stringify({ error: "Authentication required. Please log in." }),
+        JSON.stringify({ error: auth.error }),
         {
-          status: 401,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    // Verify user exists and is active
-    const { data: user, error: userError } = await supabase
-      .from("system_users")
-      .select("user_id, status")
-      .eq("user_id", userId)
-      .single();
-
-    if (userError || !user || user.status !== "active") {
-      return new Response(
-        JSON.stringify({ error: "User not found or account is not active" }),
-        {
-          status: 403,
+          status: auth.statusCode ?? 401,
           headers: {
             "Content-Type": "application/json",
             ...getCorsHeaders(req),
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { addMonths, nextVisitDate, planVisitInvoices, type BilledInvoice, type BillableVisit } from "./billing.ts";
+
+const visit = (visitId: string, visitDate: string, status: string | null = "scheduled"): BillableVisit => ({
+  visit_id: visitId,
+  visit_date: visitDate,
+  status,
+});
+
+const invoice = (invoiceId: string, invoiceDate: string, sourceVisitId: string | null): BilledInvoice => ({
+  invoice_id: invoiceId,
+  invoice_date: invoiceDate,
+  source_visit_id: sourceVisitId,
+});
+
+describe("addMonths", () => {
+  it("clamps the 31st to the end of February", () => {
+    expect(addMonths("2026-01-31", 1)).toBe("2026-02-28");
+    expect(addMonths("2028-01-31", 1)).toBe("2028-02-29");
+  });
+
+  it("clamps to 30-day months and crosses the year end", () => {
+    expect(addMonths("2026-03-31", 1)).toBe("2026-04-30");
+    expect(addMonths("2026-12-31", 2)).toBe("2027-02-28");
+    expect(addMonths("2026-01-15", 1)).toBe("2026-02-15");
+  });
+});
+
+describe("nextVisitDate", () => {
+  it("schedules the first visit one month after the anchor, clamped to February", () => {
+    expect(nextVisitDate("2026-01-31", null, "2026-02-01")).toBe("2026-02-28");
+    expect(nextVisitDate("2027-12-31", "2028-01-31", "2028-02-01")).toBe("2028-02-29");
+  });
+
+  it("returns to the anchor's day of month after a short month", () => {
+    expect(nextVisitDate("2026-01-31", "2026-02-28", "2026-02-01")).toBe("2026-03-31");
+  });
+
+  it("does not backfill missed months", () => {
+    expect(nextVisitDate("2026-01-31", "2026-02-28", "2026-06-10")).toBe("2026-06-30");
+  });
+});
+
+describe("planVisitInvoices", () => {
+  const runDate = "2026-03-10";
+
+  it("creates an invoice for each due visit", () => {
+    const plan = planVisitInvoices([visit("v1", "2026-02-28"), visit("v2", "2026-03-31")], [], "visit_date", runDate);
+
+    expect(plan).toEqual([{ visit: visit("v1", "2026-02-28"), invoiceDate: "2026-02-28", action: "create" }]);
+  });
+
+  it("leaves out visits an invoice already names, so a second run creates nothing", () => {
+    const visits = [visit("v1", "2026-02-28"), visit("v2", "2026-03-05")];
+    const first = planVisitInvoices(visits, [], "visit_date", runDate);
+    const created = first.map((entry, index) => invoice(`i${index}`, entry.invoiceDate, entry.visit.visit_id));
+
+    expect(first.map((entry) => entry.visit.visit_id)).toEqual(["v1", "v2"]);
+    expect(planVisitInvoices(visits, created, "visit_date", runDate)).toEqual([]);
+  });
+
+  it("links an older invoice without a visit to one visit only", () => {
+    const visits = [visit("v1", "2026-03-05"), visit("v2", "2026-03-05")];
+    const plan = planVisitInvoices(visits, [invoice("legacy", "2026-03-05", null)], "visit_date", runDate);
+
+    expect(plan).toEqual([
+      { visit: visits[0], invoiceDate: "2026-03-05", action: "link", invoiceId: "legacy" },
+      { visit: visits[1], invoiceDate: "2026-03-05", action: "create" },
+    ]);
+  });
+
+  it("skips cancelled visits and visits past the lookback window", () => {
+    const plan = planVisitInvoices(
+      [visit("v1", "2026-03-01", "Cancelled"), visit("v2", "2026-01-31"), visit("v3", "2026-03-09")],
+      [],
+      "visit_date",
+      runDate
+    );
+
+    expect(plan.map((entry) => entry.visit.visit_id)).toEqual(["v3"]);
+  });
+
+  it("bills a week ahead when invoicing 7 days before the visit", () => {
+    const plan = planVisitInvoices([visit("v1", "2026-03-17"), visit("v2", "2026-03-18")], [], "7_days_before", runDate);
+
+    expect(plan).toEqual([{ visit: visit("v1", "2026-03-17"), invoiceDate: "2026-03-10", action: "create" }]);
+  });
+});
@@ -0,0 +1,237 @@
+// Date and amount rules for recurring billing, kept free of I/O so the schedule can be reasoned about
+// (and exercised from local-cron.ts with a fixed run date) without a database.
+
+export type PaymentPlan = "monthly" | "semi-annual" | "annual";
+export type AutoInvoiceTiming = "visit_date" | "7_days_before";
+
+export const VAT_RATE = 0.15;
+
+// Invoices are only created for visits at most this many days old, so a first run (or a run after the
+// feature was switched off for a while) does not bill a backlog nobody asked for
+export const INVOICE_LOOKBACK_DAYS = 31;
+
+// Billing terms of a contract
+export interface ContractTerms {
+  paymentPlan: PaymentPlan;
+  monthlyAmount: number;
+  semiAnnualAmount: number;
+  annualAmount: number;
+  autoMonthlyVisitsEnabled: boolean;
+  monthlyVisitStartDate: string | null;
+}
+
+// Contract columns the terms are read from
+export interface ContractTermsColumns {
+  notes: string | null;
+  payment_plan: string | null;
+  monthly_amount: number | string | null;
+  semi_annual_amount: number | string | null;
+  annual_amount: number | string | null;
+  auto_monthly_visits_enabled: boolean | null;
+  monthly_visit_start_date: string | null;
+}
+
+/**
+ * Terms from the contract columns. Rows saved before the contract_metadata_columns migration kept
+ * them as JSON in notes; while a row still holds that JSON its keys win, as on the contracts screen.
+ */
+export function parseContractTerms(contract: ContractTermsColumns): ContractTerms {
+  let legacy: Record<string, unknown> = {};
+  try {
+    const parsed = contract.notes?.trim().startsWith("{") ? JSON.parse(contract.notes) : null;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) legacy = parsed as Record<string, unknown>;
+  } catch {
+    // Plain-text notes
+  }
+  const pick = (key: string, column: unknown) => (key in legacy ? legacy[key] : column);
+
+  const plan = pick("paymentPlan", contract.payment_plan);
+  const startDate = pick("monthlyVisitStartDate", contract.monthly_visit_start_date);
+  return {
+    paymentPlan: plan === "semi-annual" || plan === "annual" ? plan : "monthly",
+    monthlyAmount: Number(pick("monthlyAmount", contract.monthly_amount)) || 0,
+    semiAnnualAmount: Number(pick("semiAnnualAmount", contract.semi_annual_amount)) || 0,
+    annualAmount: Number(pick("annualAmount", contract.annual_amount)) || 0,
+    autoMonthlyVisitsEnabled: pick("autoMonthlyVisitsEnabled", contract.auto_monthly_visits_enabled) !== false,
+    monthlyVisitStartDate: typeof startDate === "string" && isIsoDate(startDate) ? startDate : null,
+  };
+}
+
+/**
+ * Amount billed per visit: the monthly share of the plan price
+ */
+export function visitInvoiceAmount(terms: ContractTerms): number {
+  const amount = terms.paymentPlan === "monthly"
+    ? terms.monthlyAmount
+    : terms.paymentPlan === "semi-annual"
+    ? terms.semiAnnualAmount / 6
+    : terms.annualAmount / 12;
+  return round2(amount);
+}
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Same day of month `months` later, clamped to the end of shorter months (Jan 31 -> Feb 28)
+ */
+export function addMonths(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Next visit of a contract. Visits fall monthly on the anchor's day of month, starting one month after
+ * it (as when a contract is activated). Dates already visited and dates in the past are not scheduled:
+ * missed months are not backfilled.
+ */
+export function nextVisitDate(anchor: string, latestVisit: string | null, runDate: string): string {
+  const notBefore = latestVisit && latestVisit >= runDate ? addDays(latestVisit, 1) : runDate;
+  let step = 1;
+  let candidate = addMonths(anchor, step);
+  // Jump close to the target first so long-running contracts do not loop month by month
+  const [fromYear, fromMonth] = anchor.split("-").map(Number);
+  const [toYear, toMonth] = notBefore.split("-").map(Number);
+  const monthsBetween = (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  if (monthsBetween > 1) {
+    step = monthsBetween - 1;
+    candidate = addMonths(anchor, step);
+  }
+  while (candidate < notBefore) {
+    step += 1;
+    candidate = addMonths(anchor, step);
+  }
+  return candidate;
+}
+
+export function invoiceDateForVisit(visitDate: string, timing: AutoInvoiceTiming): string {
+  return timing === "7_days_before" ? addDays(visitDate, -7) : visitDate;
+}
+
+// A visit that may be invoiced
+export interface BillableVisit {
+  visit_id: string;
+  visit_date: string;
+  status: string | null;
+}
+
+// An invoice already on the contract
+export interface BilledInvoice {
+  invoice_id: string;
+  invoice_date: string;
+  source_visit_id: string | null;
+}
+
+// What a due visit needs: a new invoice, or linking an invoice the app made before billing moved here
+export type VisitInvoicePlan<V extends BillableVisit = BillableVisit> =
+  | { visit: V; invoiceDate: string; action: "create" }
+  | { visit: V; invoiceDate: string; action: "link"; invoiceId: string };
+
+/**
+ * The visits of a contract that are due for an invoice on the run date, and how to bill each.
+ * Visits an invoice already names in source_visit_id are left out, which is what makes runs idempotent
+ * (the unique index on source_visit_id catches two runs racing). An older invoice without a visit link
+ * on the same date is adopted by one visit only.
+ */
+export function planVisitInvoices<V extends BillableVisit>(
+  visits: V[],
+  invoices: BilledInvoice[],
+  timing: AutoInvoiceTiming,
+  runDate: string
+): VisitInvoicePlan<V>[] {
+  const oldestVisit = addDays(runDate, -INVOICE_LOOKBACK_DAYS);
+  const billedVisits = new Set(invoices.map((invoice) => invoice.source_visit_id).filter(Boolean));
+  const adopted = new Set<string>();
+  const plan: VisitInvoicePlan<V>[] = [];
+
+  for (const visit of visits) {
+    const invoiceDate = invoiceDateForVisit(visit.visit_date, timing);
+    if (
+      visit.status?.toLowerCase() === "cancelled" ||
+      visit.visit_date < oldestVisit ||
+      invoiceDate > runDate ||
+      billedVisits.has(visit.visit_id)
+    ) {
+      continue;
+    }
+
+    const legacy = invoices.find(
+      (invoice) => !invoice.source_visit_id && invoice.invoice_date === invoiceDate && !adopted.has(invoice.invoice_id)
+    );
+    if (legacy) {
+      adopted.add(legacy.invoice_id);
+      plan.push({ visit, invoiceDate, action: "link", invoiceId: legacy.invoice_id });
+    } else {
+      plan.push({ visit, invoiceDate, action: "create" });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Today's date in the business time zone, as YYYY-MM-DD
+ */
+export function todayIn(timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date());
+}
+
+export function planLabel(plan: PaymentPlan): string {
+  return plan === "monthly" ? "Monthly" : plan === "semi-annual" ? "Semi-Annual" : "Annual";
+}
+
+/**
+ * Price after the renewal escalation, e.g. 1000 at 5% -> 1050
+ */
+export function escalate(amount: number, percent: number): number {
+  return round2(amount * (1 + percent / 100));
+}
+
+/**
+ * Term of a renewal: starts the day after the contract ends and lasts as long as the contract did
+ * (in whole months when the contract ran from a day of month to the day before, as most do)
+ */
+export function renewalTerm(startDate: string, endDate: string): { start: string; end: string } {
+  const start = addDays(endDate, 1);
+  const [fromYear, fromMonth] = startDate.split("-").map(Number);
+  const [toYear, toMonth] = start.split("-").map(Number);
+  const months = (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  if (months > 0 && addMonths(startDate, months) === start) {
+    return { start, end: addDays(addMonths(start, months), -1) };
+  }
+  const days = Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86400000);
+  return { start, end: addDays(start, Math.max(days, 0)) };
+}
+
+/**
+ * Number of plan periods (months, half years or years) in a term, at least one
+ */
+export function planPeriods(plan: PaymentPlan, start: string, end: string): number {
+  const [fromYear, fromMonth] = start.split("-").map(Number);
+  const [toYear, toMonth] = addDays(end, 1).split("-").map(Number);
+  const months = Math.max(1, (toYear - fromYear) * 12 + (toMonth - fromMonth));
+  const size = plan === "monthly" ? 1 : plan === "semi-annual" ? 6 : 12;
+  return Math.max(1, Math.round(months / size));
+}
+
+/**
+ * Price of one plan period (the amount quoted on a renewal)
+ */
+export function planPrice(terms: ContractTerms): number {
+  return terms.paymentPlan === "monthly"
+    ? terms.monthlyAmount
+    : terms.paymentPlan === "semi-annual"
+    ? terms.semiAnnualAmount
+    : terms.annualAmount;
+}
@@ -0,0 +1,833 @@
+// Supabase Edge Function: recurring-billing
+// Moves contracts through their lifecycle (expiry, renewal offers; see the contract_renewals
+// migration) and expires open quotations past their validity (see the quotation_lifecycle migration),
+// then creates the next monthly visits of active contracts and invoices the visits that are due, using
+// the settings in recurring_billing_settings. Called on a schedule (x-cron-secret header) or from
+// Settings by an administrator ("Run now"). Every run is logged in recurring_billing_runs with one item
+// per contract expired, renewal offered, or visit or invoice created, skipped or failed. Runs are
+// idempotent: see the recurring_billing migration.
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin, verifyAuth } from "../_shared/auth.ts";
+import {
+  INVOICE_LOOKBACK_DAYS,
+  VAT_RATE,
+  addDays,
+  escalate,
+  isIsoDate,
+  nextVisitDate,
+  parseContractTerms,
+  planLabel,
+  planPeriods,
+  planPrice,
+  planVisitInvoices,
+  renewalTerm,
+  round2,
+  todayIn,
+  visitInvoiceAmount,
+  type AutoInvoiceTiming,
+  type BilledInvoice,
+} from "./billing.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+const CRON_SECRET = Deno.env.get("RECURRING_BILLING_CRON_SECRET") ?? "";
+const BILLING_TIME_ZONE = Deno.env.get("BILLING_TIME_ZONE") ?? "Asia/Riyadh";
+
+// A run still marked running after this long has crashed and no longer blocks new runs
+const STALE_RUN_MINUTES = 30;
+
+// Statuses of a contract that is still running; they become 'expired' after contract_end_date
+const LIVE_CONTRACT_STATUSES = ["active", "signed", "attached", "suspended"];
+
+// Statuses of a renewal contract that count as the customer having renewed
+const RENEWED_CONTRACT_STATUSES = ["signed", "attached", "active"];
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, x-session-token, x-cron-secret",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+interface Settings {
+  auto_visits_enabled: boolean;
+  visit_lead_days: number;
+  auto_invoice_enabled: boolean;
+  auto_invoice_timing: AutoInvoiceTiming;
+  renewal_notice_days: number;
+  renewal_offer_type: "none" | "contract" | "quotation";
+  renewal_escalation_percent: number;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_number: string;
+  customer_id: string;
+  contract_start_date: string;
+  contract_end_date: string | null;
+  delegate_id: string | null;
+  location: string | null;
+  notes: string | null;
+  payment_plan: string | null;
+  monthly_amount: number | string | null;
+  semi_annual_amount: number | string | null;
+  annual_amount: number | string | null;
+  auto_monthly_visits_enabled: boolean | null;
+  monthly_visit_start_date: string | null;
+}
+
+// Everything a renewal copies from the contract (selected with *)
+interface LifecycleContractRow extends ContractRow {
+  contract_status: string | null;
+  contract_amount: number | string;
+  contract_duration_interval: string;
+  client_name: string | null;
+  client_cr: string | null;
+  client_city: string | null;
+  client_representative: string | null;
+  client_designation: string | null;
+  client_phone: string | null;
+  client_email: string | null;
+  postal_code: string | null;
+  emergency_visit_fee: number | string;
+  renewal_status: "upcoming" | "offered" | "renewed" | "lapsed" | null;
+  renewal_contract_id: string | null;
+  renewal_quotation_id: string | null;
+}
+
+interface CustomerRow {
+  customer_id: string;
+  customer_name: string | null;
+  delegate_id: string | null;
+  customer_address: string | null;
+}
+
+interface VisitRow {
+  visit_id: string;
+  visit_date: string;
+  status: string | null;
+}
+
+interface RunItem {
+  contract_id: string | null;
+  contract_number: string | null;
+  item_type: "visit" | "invoice" | "expiry" | "renewal";
+  outcome: "created" | "skipped" | "failed";
+  target_date: string | null;
+  visit_id?: string | null;
+  invoice_id?: string | null;
+  reason: string | null;
+}
+
+const errorMessage = (error: unknown) =>
+  (error as { message?: string })?.message || String(error);
+
+// Unique violation: another run (or the app) created the same row first
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === "23505";
+
+async function generateVisits(
+  supabase: SupabaseClient,
+  contract: ContractRow,
+  customer: CustomerRow | undefined,
+  visits: VisitRow[],
+  settings: Settings,
+  runDate: string,
+  items: RunItem[]
+): Promise<VisitRow[]> {
+  const base = { contract_id: contract.contract_id, contract_number: contract.contract_number, item_type: "visit" as const };
+  const terms = parseContractTerms(contract);
+  if (!terms.autoMonthlyVisitsEnabled) {
+    items.push({ ...base, outcome: "skipped", target_date: null, reason: "Automatic visits are disabled for this contract" });
+    return [];
+  }
+
+  const anchor = terms.monthlyVisitStartDate ?? contract.contract_start_date;
+  const horizon = addDays(runDate, settings.visit_lead_days);
+  const created: VisitRow[] = [];
+  let latest = visits.reduce<string | null>((max, visit) => (!max || visit.visit_date > max ? visit.visit_date : max), null);
+
+  for (;;) {
+    const visitDate = nextVisitDate(anchor, latest, runDate);
+    if (visitDate > horizon) break;
+    if (contract.contract_end_date && visitDate > contract.contract_end_date) {
+      items.push({ ...base, outcome: "skipped", target_date: visitDate, reason: `Contract ends on ${contract.contract_end_date}` });
+      break;
+    }
+
+    const { data, error } = await supabase
+      .from("monthly_visits")
+      .insert({
+        contract_id: contract.contract_id,
+        customer_id: contract.customer_id,
+        visit_date: visitDate,
+        visit_time: null,
+        status: "scheduled",
+        address: contract.location ?? customer?.customer_address ?? null,
+        notes: `Monthly visit for contract ${contract.contract_number}`,
+        delegate_id: contract.delegate_id ?? customer?.delegate_id ?? null,
+        created_by: null,
+        updated_by: null,
+      })
+      .select("visit_id, visit_date, status")
+      .single();
+
+    if (error) {
+      items.push({ ...base, outcome: "failed", target_date: visitDate, reason: errorMessage(error) });
+      break;
+    }
+    created.push(data as VisitRow);
+    items.push({ ...base, outcome: "created", target_date: visitDate, visit_id: data.visit_id, reason: null });
+    latest = visitDate;
+  }
+
+  return created;
+}
+
+async function generateInvoices(
+  supabase: SupabaseClient,
+  contract: ContractRow,
+  customer: CustomerRow | undefined,
+  visits: VisitRow[],
+  settings: Settings,
+  runDate: string,
+  items: RunItem[]
+): Promise<void> {
+  const base = { contract_id: contract.contract_id, contract_number: contract.contract_number, item_type: "invoice" as const };
+  const terms = parseContractTerms(contract);
+  // Nothing is due: no need to look up the contract's invoices
+  if (planVisitInvoices(visits, [], settings.auto_invoice_timing, runDate).length === 0) return;
+
+  const { data: billed, error: billedError } = await supabase
+    .from("invoices")
+    .select("invoice_id, invoice_date, source_visit_id")
+    .eq("contract_id", contract.contract_id)
+    .gte("invoice_date", addDays(runDate, -INVOICE_LOOKBACK_DAYS - 7));
+  if (billedError) throw billedError;
+
+  for (const plan of planVisitInvoices(visits, (billed ?? []) as BilledInvoice[], settings.auto_invoice_timing, runDate)) {
+    const { visit, invoiceDate } = plan;
+
+    // Invoices made by the app before billing moved here have no visit link: adopt them, once
+    if (plan.action === "link") {
+      const { error } = await supabase
+        .from("invoices")
+        .update({ source_visit_id: visit.visit_id })
+        .eq("invoice_id", plan.invoiceId);
+      if (error && !isUniqueViolation(error)) throw error;
+      items.push({
+        ...base,
+        outcome: "skipped",
+        target_date: invoiceDate,
+        visit_id: visit.visit_id,
+        invoice_id: plan.invoiceId,
+        reason: "An invoice already exists for this contract on this date; linked it to the visit",
+      });
+      continue;
+    }
+
+    const amount = visitInvoiceAmount(terms);
+    if (amount <= 0) {
+      items.push({
+        ...base,
+        outcome: "skipped",
+        target_date: invoiceDate,
+        visit_id: visit.visit_id,
+        reason: `No ${planLabel(terms.paymentPlan).toLowerCase()} amount on the contract`,
+      });
+      continue;
+    }
+
+    const taxAmount = round2(amount * VAT_RATE);
+    const totalAmount = round2(amount + taxAmount);
+    const { data, error } = await supabase
+      .from("invoices")
+      .insert({
+        customer_id: contract.customer_id,
+        contract_id: contract.contract_id,
+        source_visit_id: visit.visit_id,
+        invoice_items: [
+          {
+            id: 1,
+            description: `Monthly service payment - ${planLabel(terms.paymentPlan)} plan for visit on ${visit.visit_date}`,
+            quantity: 1,
+            unitPrice: amount,
+            discountPercent: 0,
+            priceAfterDiscount: amount,
+            subtotal: amount,
+            vat: taxAmount,
+            total: totalAmount,
+            image: null,
+          },
+        ],
+        invoice_date: invoiceDate,
+        due_date: visit.visit_date,
+        tax_rate: VAT_RATE,
+        subtotal: amount,
+        tax_amount: taxAmount,
+        total_amount: totalAmount,
+        paid_amount: 0,
+        invoice_notes: `Automatic monthly visit invoice generated for visit on ${visit.visit_date}. Payment plan: ${terms.paymentPlan}`,
+        payment_status: "draft",
+        delegate_id: contract.delegate_id ?? customer?.delegate_id ?? null,
+      })
+      .select("invoice_id, invoice_number")
+      .single();
+
+    if (error) {
+      items.push({
+        ...base,
+        outcome: isUniqueViolation(error) ? "skipped" : "failed",
+        target_date: invoiceDate,
+        visit_id: visit.visit_id,
+        reason: isUniqueViolation(error) ? "Invoiced by another run" : errorMessage(error),
+      });
+      continue;
+    }
+    items.push({
+      ...base,
+      outcome: "created",
+      target_date: invoiceDate,
+      visit_id: visit.visit_id,
+      invoice_id: data.invoice_id,
+      reason: data.invoice_number,
+    });
+  }
+}
+
+async function logContractHistory(supabase: SupabaseClient, contractId: string, action: string, description: string, details: string) {
+  const { error } = await supabase
+    .from("contract_history")
+    .insert({ contract_id: contractId, action, description, details, user_name: "System", user_id: null });
+  if (error) throw error;
+}
+
+/**
+ * Set contracts past their end date to expired, which also stops their visits and invoices
+ */
+async function expireContracts(supabase: SupabaseClient, runDate: string, items: RunItem[]) {
+  const { data, error } = await supabase
+    .from("contracts")
+    .select("*")
+    .lt("contract_end_date", runDate)
+    .in("contract_status", LIVE_CONTRACT_STATUSES);
+  if (error) throw error;
+
+  for (const contract of (data ?? []) as LifecycleContractRow[]) {
+    const base = { contract_id: contract.contract_id, contract_number: contract.contract_number, item_type: "expiry" as const };
+    const renewed = contract.renewal_status === "renewed";
+    try {
+      const { error: updateError } = await supabase
+        .from("contracts")
+        .update({ contract_status: "expired", expired_date: runDate, renewal_status: renewed ? "renewed" : "lapsed" })
+        .eq("contract_id", contract.contract_id)
+        .in("contract_status", LIVE_CONTRACT_STATUSES);
+      if (updateError) throw updateError;
+      await logContractHistory(
+        supabase,
+        contract.contract_id,
+        "Expired",
+        "Contract expired",
+        `Contract ended on ${contract.contract_end_date}. Status changed from ${contract.contract_status} to Expired`
+      );
+      items.push({
+        ...base,
+        outcome: "created",
+        target_date: contract.contract_end_date,
+        reason: renewed ? "Expired; the contract was renewed" : "Expired without a renewal",
+      });
+    } catch (error) {
+      items.push({ ...base, outcome: "failed", target_date: contract.contract_end_date, reason: errorMessage(error) });
+    }
+  }
+}
+
+/**
+ * Mark offered renewals as renewed once the customer signed the renewal contract
+ */
+async function syncRenewedContracts(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("contracts")
+    .select("contract_id, renewal_contract_id")
+    .in("renewal_status", ["offered", "lapsed"])
+    .not("renewal_contract_id", "is", null);
+  if (error) throw error;
+  const offered = (data ?? []) as { contract_id: string; renewal_contract_id: string }[];
+  if (offered.length === 0) return;
+
+  const { data: renewals, error: renewalsError } = await supabase
+    .from("contracts")
+    .select("contract_id, contract_number, contract_status")
+    .in("contract_id", offered.map((contract) => contract.renewal_contract_id));
+  if (renewalsError) throw renewalsError;
+  const signed = new Map(
+    ((renewals ?? []) as { contract_id: string; contract_number: string; contract_status: string | null }[])
+      .filter((renewal) => RENEWED_CONTRACT_STATUSES.includes((renewal.contract_status ?? "").toLowerCase()))
+      .map((renewal) => [renewal.contract_id, renewal.contract_number])
+  );
+
+  for (const contract of offered) {
+    const renewalNumber = signed.get(contract.renewal_contract_id);
+    if (!renewalNumber) continue;
+    const { error: updateError } = await supabase
+      .from("contracts")
+      .update({ renewal_status: "renewed" })
+      .eq("contract_id", contract.contract_id);
+    if (updateError) throw updateError;
+    await logContractHistory(supabase, contract.contract_id, "Renewed", "Contract renewed", `Renewal contract ${renewalNumber} was signed`);
+  }
+}
+
+async function createRenewalContract(
+  supabase: SupabaseClient,
+  contract: LifecycleContractRow,
+  settings: Settings
+): Promise<{ contract_id: string; contract_number: string }> {
+  const terms = parseContractTerms(contract);
+  const percent = Number(settings.renewal_escalation_percent) || 0;
+  const term = renewalTerm(contract.contract_start_date, contract.contract_end_date as string);
+
+  const { data, error } = await supabase
+    .from("contracts")
+    .insert({
+      customer_id: contract.customer_id,
+      delegate_id: contract.delegate_id,
+      location: contract.location,
+      client_name: contract.client_name,
+      client_cr: contract.client_cr,
+      client_city: contract.client_city,
+      client_representative: contract.client_representative,
+      client_designation: contract.client_designation,
+      client_phone: contract.client_phone,
+      client_email: contract.client_email,
+      postal_code: contract.postal_code,
+      payment_plan: terms.paymentPlan,
+      monthly_amount: escalate(terms.monthlyAmount, percent),
+      semi_annual_amount: escalate(terms.semiAnnualAmount, percent),
+      annual_amount: escalate(terms.annualAmount, percent),
+      emergency_visit_fee: Number(contract.emergency_visit_fee) || 500,
+      contract_amount: escalate(Number(contract.contract_amount) || 0, percent),
+      contract_duration_interval: contract.contract_duration_interval,
+      contract_status: "draft",
+      contract_start_date: term.start,
+      contract_end_date: term.end,
+      monthly_visit_start_date: term.start,
+      auto_monthly_visits_enabled: terms.autoMonthlyVisitsEnabled,
+      renewed_from_contract_id: contract.contract_id,
+      notes: `Renewal of contract ${contract.contract_number}${percent > 0 ? ` with a ${percent}% price increase` : ""}`,
+    })
+    .select("contract_id, contract_number")
+    .single();
+
+  if (error) {
+    // Offered by an earlier run that stopped before linking it
+    if (!isUniqueViolation(error)) throw error;
+    const { data: existing, error: existingError } = await supabase
+      .from("contracts")
+      .select("contract_id, contract_number")
+      .eq("renewed_from_contract_id", contract.contract_id)
+      .single();
+    if (existingError) throw existingError;
+    return existing;
+  }
+
+  const { data: devices, error: devicesError } = await supabase
+    .from("contract_devices")
+    .select("device_type, quantity, sort_order")
+    .eq("contract_id", contract.contract_id);
+  if (devicesError) throw devicesError;
+  if (devices && devices.length > 0) {
+    const { error: copyError } = await supabase
+      .from("contract_devices")
+      .insert(devices.map((device: Record<string, unknown>) => ({ ...device, contract_id: data.contract_id })));
+    if (copyError) throw copyError;
+  }
+  await logContractHistory(
+    supabase,
+    data.contract_id,
+    "Created",
+    "Renewal draft created",
+    `Renewal of contract ${contract.contract_number} from ${term.start} to ${term.end}`
+  );
+  return data;
+}
+
+async function createRenewalQuotation(
+  supabase: SupabaseClient,
+  contract: LifecycleContractRow,
+  customer: CustomerRow | undefined,
+  settings: Settings,
+  runDate: string
+): Promise<{ quotation_id: string; quotation_number: string }> {
+  const terms = parseContractTerms(contract);
+  const percent = Number(settings.renewal_escalation_percent) || 0;
+  const term = renewalTerm(contract.contract_start_date, contract.contract_end_date as string);
+  const phone = (contract.client_phone ?? "").replace(/\D/g, "");
+  const daysLeft = Math.round(
+    (Date.parse(`${contract.contract_end_date}T00:00:00Z`) - Date.parse(`${runDate}T00:00:00Z`)) / 86400000
+  );
+
+  const { data, error } = await supabase
+    .from("quotations")
+    .insert({
+      customer_id: contract.customer_id,
+      customer_name: contract.client_name ?? customer?.customer_name ?? null,
+      phone_number: phone ? Number(phone) : null,
+      location: contract.location ?? customer?.customer_address ?? null,
+      quotation_items: [
+        {
+          description: `Service contract renewal - ${planLabel(terms.paymentPlan)} plan from ${term.start} to ${term.end}`,
+          quantity: planPeriods(terms.paymentPlan, term.start, term.end),
+          unit_price: escalate(planPrice(terms), percent),
+          discount_percent: 0,
+          discount_amount: 0,
+          image: null,
+        },
+      ],
+      quotation_validity: Math.max(7, daysLeft),
+      quotation_notes: `Renewal of contract ${contract.contract_number}, which ends on ${contract.contract_end_date}.${
+        percent > 0 ? ` Prices include a ${percent}% increase.` : ""
+      }`,
+      delegate_id: contract.delegate_id ?? customer?.delegate_id ?? null,
+      vat_enabled: true,
+      discount_type: null,
+      discount_amount: null,
+      company_logo: null,
+      company_stamp: null,
+    })
+    .select("quotation_id, quotation_number")
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Flag active contracts nearing their end date and prepare the renewal offer chosen in settings
+ */
+async function offerRenewals(supabase: SupabaseClient, settings: Settings, runDate: string, items: RunItem[]) {
+  const { data, error } = await supabase
+    .from("contracts")
+    .select("*")
+    .ilike("contract_status", "active")
+    .is("deleted_at", null)
+    .gte("contract_end_date", runDate)
+    .lte("contract_end_date", addDays(runDate, settings.renewal_notice_days))
+    .or("renewal_status.is.null,renewal_status.eq.upcoming");
+  if (error) throw error;
+  const contracts = (data ?? []) as LifecycleContractRow[];
+  if (contracts.length === 0) return;
+
+  const { data: customerRows, error: customersError } = await supabase
+    .from("customers")
+    .select("customer_id, customer_name, delegate_id, customer_address")
+    .in("customer_id", [...new Set(contracts.map((contract) => contract.customer_id))]);
+  if (customersError) throw customersError;
+  const customers = new Map((customerRows ?? []).map((row: CustomerRow) => [row.customer_id, row]));
+
+  for (const contract of contracts) {
+    const base = {
+      contract_id: contract.contract_id,
+      contract_number: contract.contract_number,
+      item_type: "renewal" as const,
+      target_date: contract.contract_end_date,
+    };
+    try {
+      if (settings.renewal_offer_type === "none") {
+        if (contract.renewal_status === "upcoming") continue;
+        const { error: updateError } = await supabase
+          .from("contracts")
+          .update({ renewal_status: "upcoming" })
+          .eq("contract_id", contract.contract_id);
+        if (updateError) throw updateError;
+        await logContractHistory(
+          supabase,
+          contract.contract_id,
+          "Renewal due",
+          "Contract nearing its end date",
+          `Contract ends on ${contract.contract_end_date}`
+        );
+        items.push({ ...base, outcome: "skipped", reason: "Flagged for renewal; renewal offers are turned off in settings" });
+        continue;
+      }
+
+      let values: Record<string, unknown>;
+      let offer: string;
+      if (settings.renewal_offer_type === "contract") {
+        const renewal = await createRenewalContract(supabase, contract, settings);
+        values = { renewal_contract_id: renewal.contract_id };
+        offer = `Renewal contract ${renewal.contract_number}`;
+      } else {
+        const quotation = await createRenewalQuotation(
+          supabase,
+          contract,
+          customers.get(contract.customer_id) as CustomerRow | undefined,
+          settings,
+          runDate
+        );
+        values = { renewal_quotation_id: quotation.quotation_id };
+        offer = `Renewal quotation ${quotation.quotation_number}`;
+      }
+
+      const { error: updateError } = await supabase
+        .from("contracts")
+        .update({ ...values, renewal_status: "offered", renewal_offered_at: new Date().toISOString() })
+        .eq("contract_id", contract.contract_id);
+      if (updateError) throw updateError;
+      const escalation = Number(settings.renewal_escalation_percent) || 0;
+      await logContractHistory(
+        supabase,
+        contract.contract_id,
+        "Renewal offered",
+        "Renewal offer prepared",
+        `${offer} created${escalation > 0 ? ` with a ${escalation}% price increase` : ""}. Contract ends on ${contract.contract_end_date}`
+      );
+      items.push({ ...base, outcome: "created", reason: offer });
+    } catch (error) {
+      items.push({ ...base, outcome: "failed", reason: errorMessage(error) });
+    }
+  }
+}
+
+/**
+ * Expire draft and sent quotations whose validity ended before the run date
+ */
+async function expireQuotations(supabase: SupabaseClient, runDate: string) {
+  const { error } = await supabase
+    .from("quotations")
+    .update({ quotation_status: "expired", status_changed_at: new Date().toISOString() })
+    .in("quotation_status", ["draft", "sent"])
+    .lt("valid_until", runDate);
+  if (error) throw error;
+}
+
+/**
+ * Lifecycle step of a run, before billing so expired contracts are no longer billed
+ */
+async function runLifecycle(supabase: SupabaseClient, settings: Settings, runDate: string, items: RunItem[]) {
+  await expireQuotations(supabase, runDate);
+  await expireContracts(supabase, runDate, items);
+  await syncRenewedContracts(supabase);
+  await offerRenewals(supabase, settings, runDate, items);
+}
+
+async function runBilling(supabase: SupabaseClient, settings: Settings, runDate: string, items: RunItem[]) {
+  if (!settings.auto_visits_enabled) {
+    items.push({ contract_id: null, contract_number: null, item_type: "visit", outcome: "skipped", target_date: null, reason: "Automatic visits are turned off in settings" });
+  }
+  if (!settings.auto_invoice_enabled) {
+    items.push({ contract_id: null, contract_number: null, item_type: "invoice", outcome: "skipped", target_date: null, reason: "Automatic invoicing is turned off in settings" });
+  }
+  if (!settings.auto_visits_enabled && !settings.auto_invoice_enabled) return 0;
+
+  const { data: contractRows, error: contractsError } = await supabase
+    .from("contracts")
+    .select([
+      "contract_id, contract_number, customer_id, contract_start_date, contract_end_date, delegate_id, location, notes",
+      "payment_plan, monthly_amount, semi_annual_amount, annual_amount, auto_monthly_visits_enabled, monthly_visit_start_date",
+    ].join(", "))
+    .ilike("contract_status", "active")
+    .is("deleted_at", null); // Contracts in the recycle bin are not billed
+  if (contractsError) throw contractsError;
+  const contracts = (contractRows ?? []) as ContractRow[];
+  if (contracts.length === 0) return 0;
+
+  const customerIds = [...new Set(contracts.map((contract) => contract.customer_id))];
+  const { data: customerRows, error: customersError } = await supabase
+    .from("customers")
+    .select("customer_id, customer_name, delegate_id, customer_address")
+    .in("customer_id", customerIds);
+  if (customersError) throw customersError;
+  const customers = new Map((customerRows ?? []).map((row: CustomerRow) => [row.customer_id, row]));
+
+  for (const contract of contracts) {
+    const customer = customers.get(contract.customer_id) as CustomerRow | undefined;
+    try {
+      const { data: visitRows, error: visitsError } = await supabase
+        .from("monthly_visits")
+        .select("visit_id, visit_date, status")
+        .eq("contract_id", contract.contract_id);
+      if (visitsError) throw visitsError;
+      const visits = (visitRows ?? []) as VisitRow[];
+
+      if (settings.auto_visits_enabled) {
+        visits.push(...(await generateVisits(supabase, contract, customer, visits, settings, runDate, items)));
+      }
+      if (settings.auto_invoice_enabled) {
+        await generateInvoices(supabase, contract, customer, visits, settings, runDate, items);
+      }
+    } catch (error) {
+      // One broken contract must not stop the others
+      items.push({
+        contract_id: contract.contract_id,
+        contract_number: contract.contract_number,
+        item_type: settings.auto_visits_enabled ? "visit" : "invoice",
+        outcome: "failed",
+        target_date: null,
+        reason: errorMessage(error),
+      });
+    }
+  }
+  return contracts.length;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  // Scheduled calls carry the shared secret; anyone else must be a signed-in administrator
+  let triggerSource: "schedule" | "manual" = "schedule";
+  let triggeredBy: string | null = null;
+  const cronSecret = req.headers.get("x-cron-secret");
+  if (!CRON_SECRET || cronSecret !== CRON_SECRET) {
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success || !auth.user) {
+      return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+    }
+    if (!isAdmin(auth.user)) {
+      return jsonResponse(req, 403, { error: "Admin access required to run recurring billing" });
+    }
+    triggerSource = "manual";
+    triggeredBy = auth.user.user_id;
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    const text = await req.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  // run_date lets the local scheduler and tests bill as of a given day
+  const runDate = typeof body.run_date === "string" ? body.run_date : todayIn(BILLING_TIME_ZONE);
+  if (!isIsoDate(runDate)) {
+    return jsonResponse(req, 400, { error: "run_date must be a YYYY-MM-DD date" });
+  }
+
+  const { data: settingsRow, error: settingsError } = await supabase
+    .from("recurring_billing_settings")
+    .select([
+      "auto_visits_enabled, visit_lead_days, auto_invoice_enabled, auto_invoice_timing",
+      "renewal_notice_days, renewal_offer_type, renewal_escalation_percent",
+    ].join(", "))
+    .maybeSingle();
+  if (settingsError) {
+    return jsonResponse(req, 500, { error: errorMessage(settingsError) });
+  }
+  const settings: Settings = settingsRow ?? {
+    auto_visits_enabled: true,
+    visit_lead_days: 7,
+    auto_invoice_enabled: false,
+    auto_invoice_timing: "visit_date",
+    renewal_notice_days: 30,
+    renewal_offer_type: "none",
+    renewal_escalation_percent: 0,
+  };
+
+  await supabase
+    .from("recurring_billing_runs")
+    .update({ status: "failed", error: "Run did not finish", finished_at: new Date().toISOString() })
+    .eq("status", "running")
+    .lt("started_at", new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString());
+
+  const { data: run, error: runError } = await supabase
+    .from("recurring_billing_runs")
+    .insert({ run_date: runDate, trigger_source: triggerSource, triggered_by: triggeredBy })
+    .select("run_id")
+    .single();
+  if (runError) {
+    if (isUniqueViolation(runError)) {
+      return jsonResponse(req, 409, { error: "A recurring billing run is already in progress" });
+    }
+    return jsonResponse(req, 500, { error: errorMessage(runError) });
+  }
+
+  const items: RunItem[] = [];
+  let contractsChecked = 0;
+  let failure: string | null = null;
+  try {
+    await runLifecycle(supabase, settings, runDate, items);
+    contractsChecked = await runBilling(supabase, settings, runDate, items);
+  } catch (error) {
+    console.error("Recurring billing run failed:", error);
+    failure = errorMessage(error);
+  }
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from("recurring_billing_run_items")
+      .insert(items.map((item) => ({ run_id: run.run_id, ...item })));
+    if (itemsError) {
+      console.error("Failed to log recurring billing items:", itemsError);
+      failure = failure ?? `Failed to log run items: ${errorMessage(itemsError)}`;
+    }
+  }
+
+  const count = (type: RunItem["item_type"], outcome: RunItem["outcome"]) =>
+    items.filter((item) => item.item_type === type && item.outcome === outcome).length;
+  const summary = {
+    run_id: run.run_id,
+    run_date: runDate,
+    status: failure ? "failed" : "completed",
+    contracts_checked: contractsChecked,
+    visits_created: count("visit", "created"),
+    invoices_created: count("invoice", "created"),
+    contracts_expired: count("expiry", "created"),
+    renewals_offered: count("renewal", "created"),
+    skipped_count: items.filter((item) => item.outcome === "skipped").length,
+    failed_count: items.filter((item) => item.outcome === "failed").length,
+    error: failure,
+  };
+
+  const { error: finishError } = await supabase
+    .from("recurring_billing_runs")
+    .update({ ...summary, finished_at: new Date().toISOString() })
+    .eq("run_id", run.run_id);
+  if (finishError) {
+    console.error("Failed to close recurring billing run:", finishError);
+  }
+
+  return jsonResponse(req, failure ? 500 : 200, { ...summary, items });
+});
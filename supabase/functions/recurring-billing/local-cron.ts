@@ -0,0 +1,61 @@
+// Local stand-in for the pg_cron schedule of recurring-billing (see the recurring_billing migration).
+// Calls the function the way the scheduler does, once or on an interval, and prints the run summary.
+//
+//   deno run --allow-net --allow-env supabase/functions/recurring-billing/local-cron.ts [--once] [--every=60] [--date=2026-11-01]
+//
+// Reads RECURRING_BILLING_URL (default: the local `supabase functions serve` URL) and
+// RECURRING_BILLING_CRON_SECRET, which must match the secret the function was served with.
+
+declare const Deno: {
+  args: string[];
+  env: {
+    get(key: string): string | undefined;
+  };
+  exit(code?: number): never;
+};
+
+const FUNCTION_URL = Deno.env.get("RECURRING_BILLING_URL") ?? "http://127.0.0.1:54321/functions/v1/recurring-billing";
+const CRON_SECRET = Deno.env.get("RECURRING_BILLING_CRON_SECRET") ?? "";
+
+function argValue(name: string): string | undefined {
+  const arg = Deno.args.find((value) => value.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function triggerRun(runDate?: string): Promise<boolean> {
+  const response = await fetch(FUNCTION_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-cron-secret": CRON_SECRET },
+    body: JSON.stringify(runDate ? { run_date: runDate } : {}),
+  });
+  const result = await response.json().catch(() => null);
+  const stamp = new Date().toISOString();
+  if (!response.ok) {
+    console.error(`[${stamp}] recurring-billing failed (HTTP ${response.status}):`, result?.error ?? result);
+    return false;
+  }
+  console.log(
+    `[${stamp}] run ${result.run_id} for ${result.run_date}: ${result.contracts_expired} contract(s) expired, ` +
+      `${result.renewals_offered} renewal(s) offered, ${result.visits_created} visit(s), ` +
+      `${result.invoices_created} invoice(s) created, ${result.skipped_count} skipped, ${result.failed_count} failed`
+  );
+  for (const item of result.items ?? []) {
+    console.log(`  ${item.outcome.padEnd(7)} ${item.item_type.padEnd(7)} ${item.contract_number ?? "-"} ${item.target_date ?? ""} ${item.reason ?? ""}`);
+  }
+  return true;
+}
+
+if (!CRON_SECRET) {
+  console.error("RECURRING_BILLING_CRON_SECRET is not set");
+  Deno.exit(1);
+}
+
+const runDate = argValue("date");
+if (Deno.args.includes("--once")) {
+  Deno.exit((await triggerRun(runDate)) ? 0 : 1);
+}
+
+const everyMinutes = Number(argValue("every") ?? 60);
+console.log(`Calling ${FUNCTION_URL} every ${everyMinutes} minute(s); Ctrl+C to stop`);
+await triggerRun(runDate);
+setInterval(() => void triggerRun(runDate), everyMinutes * 60 * 1000);
@@ -0,0 +1,143 @@
+// Supabase Edge Function: render-pdf
+// Renders a printable document (invoice, quotation, contract, payment receipt, customer statement) to
+// PDF, archives it in the documents bucket with a file_metadata row and returns a signed download link.
+// The app builds the HTML with the same templates it prints, with the logo, stamp and QR code resolved.
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyAuth } from "../_shared/auth.ts";
+import {
+  PDF_SIGNED_URL_TTL_SECONDS,
+  isPdfRendererConfigured,
+  renderPdf,
+  signedPdfUrl,
+  storePdf,
+} from "../_shared/pdf.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const DOCUMENTS_BUCKET = "documents";
+const DOCUMENT_PDF_CATEGORY = "document_pdf";
+const MAX_HTML_BYTES = 5 * 1024 * 1024;
+
+// Document type -> owner type recorded on the file
+const DOCUMENT_OWNERS: Record<string, string> = {
+  invoice: "invoice",
+  quotation: "quotation",
+  contract: "contract",
+  payment_receipt: "invoice", // Receipts are per invoice
+  customer_statement: "customer",
+};
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  const auth = await verifyAuth(supabase, req);
+  if (!auth.success || !auth.user) {
+    return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    const text = await req.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  const { document_type, owner_id, document_number, html } = body;
+  if (typeof document_type !== "string" || !DOCUMENT_OWNERS[document_type]) {
+    return jsonResponse(req, 400, { error: `document_type must be one of ${Object.keys(DOCUMENT_OWNERS).join(", ")}` });
+  }
+  if (typeof owner_id !== "string" || !owner_id) {
+    return jsonResponse(req, 400, { error: "owner_id is required" });
+  }
+  if (typeof document_number !== "string" || !document_number.trim()) {
+    return jsonResponse(req, 400, { error: "document_number is required" });
+  }
+  if (typeof html !== "string" || !html.trim()) {
+    return jsonResponse(req, 400, { error: "html is required" });
+  }
+  if (new TextEncoder().encode(html).length > MAX_HTML_BYTES) {
+    return jsonResponse(req, 413, { error: "The document is too large to render" });
+  }
+  if (!isPdfRendererConfigured()) {
+    return jsonResponse(req, 503, { error: "PDF rendering is not configured. Set PDF_RENDERER_URL for the Edge Functions." });
+  }
+
+  try {
+    const pdf = await renderPdf(html);
+    const ownerType = DOCUMENT_OWNERS[document_type];
+    const stored = await storePdf(supabase, pdf, {
+      bucket: DOCUMENTS_BUCKET,
+      category: DOCUMENT_PDF_CATEGORY,
+      ownerId: owner_id,
+      ownerType,
+      fileName: `${document_number.trim()}.pdf`,
+      pathPrefix: `documents/${owner_id}`,
+      description: `PDF of ${document_number.trim()}`,
+      createdBy: auth.user.user_id,
+      metadata: { document_type, document_number: document_number.trim() },
+    });
+
+    return jsonResponse(req, 200, {
+      file_id: stored.file_id,
+      file_name: stored.file_name,
+      size: stored.size,
+      signed_url: await signedPdfUrl(supabase, stored),
+      expires_at: new Date(Date.now() + PDF_SIGNED_URL_TTL_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error("render-pdf failed:", error);
+    return jsonResponse(req, 500, { error: (error as { message?: string })?.message || String(error) });
+  }
+});
@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin, verifyAuth } from "../_shared/auth.ts";
 // @ts-ignore - Deno handles URL-based imports at runtime
 import { ZipReader, BlobReader, BlobWriter } from "https://deno.land/x/zipjs@v2.7.29/index.js";
 
@@ -31,7 +32,7 @@ function getCorsHeaders(req: Request) {
   return {
     "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type",
+      "authorization, x-client-info, apikey, content-type, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
@@ -134,14 +135,11 @@ serve(async (req: Request) => {
     const contentType = req.headers.get("content-type") || "";
     if (contentType.includes("application/json")) {
       body = await req.json();
-      userId = body.user_id || null;
     } else {
-      // For FormData, we'll need to get user_id from a separate field
-      // For now, we'll require JSON format for authentication
       return new Response(
-        JSON.stringify({ error: "Authentication required. Please use JSON format with user_id." }),
+        JSON.stringify({ error: "Restore requests must be sent as JSON." }),
         {
-          status: 401,
+          status: 400,
           headers: {
             "Content-Type": "application/json",
             ...getCorsHeaders(req),
@@ -150,44 +148,12 @@ serve(async (req: Request) => {
       );
     }
     
-    if (!userId) {
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success || !auth.user) {
       return new Response(
-        JSON.stringify({ error: "Authentication required. Please log in." }),
+        JSON.stringify({ error: auth.error }),
         {
-          status: 401,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    // Verify user exists and is active
-    const { data: user, error: userError } = await supabase
-      .from("system_users")
-      .select("user_id, status, role_id")
-      .eq("user_id", userId)
-      .single();
-
-    if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: "User not found or invalid" }),
-        {
-          status: 403,
-          headers: {
-            "Content-Type": "application/json",
-            ...getCorsHeaders(req),
-          },
-        }
-      );
-    }
-
-    if (user.status !== "active") {
-      return new Response(
-        JSON.stringify({ error: "User account is not active" }),
-        {
-          status: 403,
+          status: auth.statusCode ?? 401,
           headers: {
             "Content-Type": "application/json",
             ...getCorsHeaders(req),
@@ -195,25 +161,10 @@ serve(async (req: Request) => {
         }
       );
     }
+    userId = auth.user.user_id;
 
     // Check for admin role (restore is critical operation)
-    let isAdmin = false;
-    if (user.role_id) {
-      const { data: role } = await supabase
-        .from("roles")
-        .select("role_name, permissions")
-        .eq("role_id", user.role_id)
-        .single();
-
-      if (role) {
-        const permissions = role.permissions;
-        const roleName = (role.role_name || "").toLowerCase();
-        isAdmin = permissions === "all" || permissions === "ALL" || 
-                  roleName.includes("admin") || roleName.includes("super");
-      }
-    }
-
-    if (!isAdmin) {
+    if (!isAdmin(auth.user)) {
       return new Response(
         JSON.stringify({ error: "Admin access required for restore operations" }),
         {
@@ -12,6 +12,7 @@ declare const Deno: {
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @ts-ignore
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SESSION_TOKEN_HEADER, getSessionToken, verifyAuth } from "../_shared/auth.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -28,7 +29,7 @@ function getCorsHeaders(req: Request) {
   const isAllowed = allowedOrigins.includes(origin);
   return {
     "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
-    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
@@ -47,29 +48,14 @@ serve(async (req: Request) => {
 
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
   let body: any = {};
-  let userId: string | null = null;
 
   try {
     body = await req.json();
-    userId = body.user_id || null;
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: "Authentication required" }), {
-        status: 401,
-        headers: { "Content-Type": "application/json", ...getCorsHeaders(req) },
-      });
-    }
-
-    // Verify user
-    const { data: user, error: userError } = await supabase
-      .from("system_users")
-      .select("user_id, status")
-      .eq("user_id", userId)
-      .single();
-
-    if (userError || !user || user.status !== "active") {
-      return new Response(JSON.stringify({ error: "User not found or inactive" }), {
-        status: 403,
+    const auth = await verifyAuth(supabase, req);
+    if (!auth.success) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.statusCode ?? 401,
         headers: { "Content-Type": "application/json", ...getCorsHeaders(req) },
       });
     }
@@ -98,16 +84,16 @@ serve(async (req: Request) => {
     }
 
     // Generate signed URL
-    // Pass user_id to generate-signed-url function for authentication
+    // Forward the caller's session token to generate-signed-url for authentication
     const signedUrlResponse = await fetch(`${SUPABASE_URL}/functions/v1/generate-signed-url`, {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
         "Content-Type": "application/json",
+        [SESSION_TOKEN_HEADER]: getSessionToken(req) ?? "",
       },
       body: JSON.stringify({ 
         s3_key: backup.s3_key,
-        user_id: userId 
       }),
     });
 
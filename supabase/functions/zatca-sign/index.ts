@@ -0,0 +1,229 @@
+// Supabase Edge Function: zatca-sign
+// Issues ZATCA e-invoices from the company's chain (see the zatca_chain migrations). The secp256k1
+// signing key is created here on first use and never leaves the server; the app sends the e-invoice
+// input and gets back the signed document (XML, hash, signature and QR payload).
+//   issue - sign the document for a source row (invoice / note ID) as the next link of the chain and
+//           record it; a source that was issued before returns its stored document
+//   adopt - take over the chain a browser kept under older builds, while nothing was issued yet
+
+// Deno types are provided at runtime - these declarations are for TypeScript IDE support
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+// @ts-ignore - Deno handles URL-based imports at runtime
+import { secp256k1 } from "https://esm.sh/@noble/curves@2.4.0/secp256k1.js";
+import { verifyAuth } from "../_shared/auth.ts";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  encodeZatcaPublicKey,
+  signZatcaInvoice,
+  type ZatcaInvoiceInput,
+  type ZatcaSigner,
+} from "../_shared/zatca.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+// Raised by zatca_issue_document when another request advanced the chain first
+const CHAIN_MOVED_ERROR_CODE = "40001";
+// Attempts to issue when other requests keep advancing the chain in between
+const ISSUE_ATTEMPTS = 5;
+
+const allowedOrigins = [
+  "http://localhost:5173",
+  "https://console-mana.com",
+  "https://www.console-mana.com",
+  "https://mana-smart-scent.vercel.app",
+];
+
+function getCorsHeaders(req: Request) {
+  const origin = req.headers.get("origin") || "";
+  const isAllowed = allowedOrigins.includes(origin);
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin : allowedOrigins[0] || "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(req),
+    },
+  });
+}
+
+interface ZatcaChainRow {
+  counter: number;
+  previous_hash: string;
+  private_key: string | null;
+}
+
+const errorMessage = (error: unknown) =>
+  (error as { message?: string })?.message || String(error);
+
+async function fetchChain(supabase: SupabaseClient): Promise<ZatcaChainRow> {
+  const { data, error } = await supabase
+    .from("zatca_chain")
+    .select("counter, previous_hash, private_key")
+    .eq("chain_id", 1)
+    .single();
+  if (error) throw error;
+  return data as ZatcaChainRow;
+}
+
+/**
+ * The company's signer, its key generated and stored with the chain on first use
+ */
+async function getOrCreateSigner(supabase: SupabaseClient): Promise<ZatcaSigner> {
+  const chain = await fetchChain(supabase);
+  if (chain.private_key) {
+    const privateKey = base64ToBytes(chain.private_key);
+    return {
+      publicKey: encodeZatcaPublicKey(secp256k1.getPublicKey(privateKey, false)),
+      sign: (invoiceHash) => secp256k1.sign(invoiceHash, privateKey, { format: "der" }),
+    };
+  }
+
+  // Only fills an empty key, so requests racing here all end up with the one stored first
+  const { error } = await supabase
+    .from("zatca_chain")
+    .update({ private_key: bytesToBase64(secp256k1.utils.randomSecretKey()) })
+    .eq("chain_id", 1)
+    .is("private_key", null);
+  if (error) throw error;
+  return getOrCreateSigner(supabase);
+}
+
+function isInvoiceInput(value: unknown): value is ZatcaInvoiceInput {
+  const input = value as ZatcaInvoiceInput | null;
+  return (
+    !!input &&
+    typeof input.uuid === "string" &&
+    typeof input.invoiceNumber === "string" &&
+    typeof input.issuedAt === "string" &&
+    !!input.seller &&
+    Array.isArray(input.lines)
+  );
+}
+
+/**
+ * Sign from the current head and record with zatca_issue_document, which locks the chain and refuses
+ * the document when another request issued first; it is then signed again from the new head.
+ */
+async function handleIssue(req: Request, supabase: SupabaseClient, body: Record<string, unknown>): Promise<Response> {
+  const sourceId = String(body.source_id ?? "");
+  if (!sourceId || !isInvoiceInput(body.input)) {
+    return jsonResponse(req, 400, { error: "source_id and input are required" });
+  }
+  const input = body.input;
+  const certificate = typeof body.certificate === "string" ? body.certificate : null;
+
+  const { data: existing, error: existingError } = await supabase
+    .from("zatca_documents")
+    .select("*")
+    .eq("source_id", sourceId)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) {
+    return jsonResponse(req, 200, { document: existing });
+  }
+
+  const signer = await getOrCreateSigner(supabase);
+  for (let attempt = 1; ; attempt++) {
+    const chain = await fetchChain(supabase);
+    let signed;
+    try {
+      signed = await signZatcaInvoice(input, { counter: chain.counter, previousHash: chain.previous_hash }, signer, certificate);
+    } catch (error) {
+      // Business rule failures (missing VAT number, no lines, ...)
+      return jsonResponse(req, 400, { error: errorMessage(error) });
+    }
+
+    const { data, error } = await supabase.rpc("zatca_issue_document", {
+      p_source_id: sourceId,
+      p_counter: signed.counter,
+      p_previous_hash: chain.previous_hash,
+      p_uuid: signed.uuid,
+      p_invoice_hash: signed.invoiceHash,
+      p_signature_value: signed.signatureValue,
+      p_qr_payload: signed.qrPayload,
+      p_xml: signed.xml,
+    });
+    if (!error) {
+      return jsonResponse(req, 200, { document: data });
+    }
+    if (error.code !== CHAIN_MOVED_ERROR_CODE || attempt >= ISSUE_ATTEMPTS) {
+      throw error;
+    }
+  }
+}
+
+async function handleAdopt(req: Request, supabase: SupabaseClient, body: Record<string, unknown>): Promise<Response> {
+  const counter = Number(body.counter);
+  const previousHash = String(body.previous_hash ?? "");
+  if (!Number.isInteger(counter) || counter <= 0 || !previousHash) {
+    return jsonResponse(req, 400, { error: "counter and previous_hash are required" });
+  }
+
+  const { data, error } = await supabase.rpc("zatca_adopt_chain", {
+    p_counter: counter,
+    p_previous_hash: previousHash,
+    p_documents: Array.isArray(body.documents) ? body.documents : [],
+  });
+  if (error) throw error;
+  return jsonResponse(req, 200, { adopted: data === true });
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      status: 200,
+      headers: getCorsHeaders(req),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(req, 405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  const auth = await verifyAuth(supabase, req);
+  if (!auth.success || !auth.user) {
+    return jsonResponse(req, auth.statusCode ?? 401, { error: auth.error });
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse(req, 400, { error: "Invalid request body" });
+  }
+
+  try {
+    switch (body.action) {
+      case "issue":
+        return await handleIssue(req, supabase, body);
+      case "adopt":
+        return await handleAdopt(req, supabase, body);
+      default:
+        return jsonResponse(req, 400, { error: "Unknown action" });
+    }
+  } catch (error) {
+    console.error("zatca-sign failed:", error);
+    return jsonResponse(req, 500, { error: errorMessage(error) });
+  }
+});
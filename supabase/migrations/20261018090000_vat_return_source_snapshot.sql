@@ -0,0 +1,14 @@
+-- VAT returns computed from source documents
+-- Stores the documents (invoices, purchase orders, expenses, returns) each return was built from,
+-- so later edits to those documents can be detected as "return out of date".
+
+ALTER TABLE vat_returns
+  ADD COLUMN IF NOT EXISTS source_snapshot jsonb;
+
+COMMENT ON COLUMN vat_returns.source_snapshot IS
+  'Snapshot {computed_at, documents[]} of the source documents used to compute the return';
+
+-- Period filters used by the VAT return builder
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_date ON invoices(invoice_date);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_purchase_date ON purchase_orders(purchase_date);
+CREATE INDEX IF NOT EXISTS idx_expenses_expense_date ON expenses(expense_date);
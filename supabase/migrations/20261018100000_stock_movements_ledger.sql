@@ -0,0 +1,81 @@
+-- Inventory stock ledger
+-- Append-only list of stock movements for finished products (inventory) and raw materials.
+-- Every movement links to the document that caused it; current_stock on the item tables is
+-- derived from the ledger by trigger and should no longer be edited directly.
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  movement_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type text NOT NULL CHECK (item_type IN ('product', 'raw_material')),
+  item_id uuid NOT NULL,
+  quantity numeric(14, 3) NOT NULL CHECK (quantity <> 0),
+  movement_type text NOT NULL CHECK (movement_type IN (
+    'opening', 'adjustment', 'sale', 'purchase', 'purchase_return', 'mfg_consumption', 'mfg_output'
+  )),
+  source_type text NOT NULL CHECK (source_type IN (
+    'opening', 'adjustment', 'invoice', 'purchase_order', 'return', 'manufacturing_order'
+  )),
+  source_id uuid,
+  source_reference text,
+  is_reversal boolean NOT NULL DEFAULT false,
+  unit_cost numeric(14, 4),
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item ON stock_movements(item_type, item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_source ON stock_movements(source_type, source_id);
+
+-- The ledger is append-only: corrections are new (compensating) movements
+CREATE OR REPLACE FUNCTION stock_movements_block_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'stock_movements is append-only; post a compensating movement instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_block_changes ON stock_movements;
+CREATE TRIGGER trg_stock_movements_block_changes
+  BEFORE UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW EXECUTE FUNCTION stock_movements_block_changes();
+
+-- Keep current_stock equal to the ledger balance
+CREATE OR REPLACE FUNCTION stock_movements_apply_balance() RETURNS trigger AS $$
+DECLARE
+  balance numeric;
+BEGIN
+  SELECT COALESCE(SUM(quantity), 0) INTO balance
+  FROM stock_movements
+  WHERE item_type = NEW.item_type AND item_id = NEW.item_id;
+
+  IF NEW.item_type = 'product' THEN
+    UPDATE inventory SET current_stock = balance WHERE product_code = NEW.item_id;
+  ELSE
+    UPDATE manufacturing_raw_materials
+      SET current_stock = balance, updated_at = now()
+      WHERE material_id = NEW.item_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_apply_balance ON stock_movements;
+CREATE TRIGGER trg_stock_movements_apply_balance
+  AFTER INSERT ON stock_movements
+  FOR EACH ROW EXECUTE FUNCTION stock_movements_apply_balance();
+
+-- Opening balances so the ledger matches the stock on hand before the ledger existed
+INSERT INTO stock_movements (item_type, item_id, quantity, movement_type, source_type, notes)
+SELECT 'product', product_code, current_stock, 'opening', 'opening', 'Opening balance'
+FROM inventory
+WHERE COALESCE(current_stock, 0) <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM stock_movements m WHERE m.item_type = 'product' AND m.item_id = inventory.product_code
+  );
+
+INSERT INTO stock_movements (item_type, item_id, quantity, movement_type, source_type, notes)
+SELECT 'raw_material', material_id, current_stock, 'opening', 'opening', 'Opening balance'
+FROM manufacturing_raw_materials
+WHERE COALESCE(current_stock, 0) <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM stock_movements m WHERE m.item_type = 'raw_material' AND m.item_id = manufacturing_raw_materials.material_id
+  );
@@ -0,0 +1,13 @@
+-- Manufacturing order completion
+-- Standard vs actual cost captured when an order is completed, and the shortage override
+-- (who completed an order although raw materials were short, and why).
+
+ALTER TABLE manufacturing_orders
+  ADD COLUMN IF NOT EXISTS mfg_order_standard_cost numeric(14, 2),
+  ADD COLUMN IF NOT EXISTS mfg_order_actual_cost numeric(14, 2),
+  ADD COLUMN IF NOT EXISTS mfg_order_cost_breakdown jsonb,
+  ADD COLUMN IF NOT EXISTS mfg_order_shortage_override boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS mfg_order_override_reason text;
+
+COMMENT ON COLUMN manufacturing_orders.mfg_order_cost_breakdown IS
+  'Standard vs actual material/labour/overhead cost per order, captured at completion';
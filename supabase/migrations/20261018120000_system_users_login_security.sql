@@ -0,0 +1,12 @@
+-- Server-side login
+-- Passwords are verified by the auth-login edge function (PBKDF2, legacy SHA-256 hashes are
+-- upgraded on the next successful login). Repeated failures lock the account for a while, and
+-- session tokens issued before the last password change are rejected.
+
+ALTER TABLE system_users
+  ADD COLUMN IF NOT EXISTS failed_login_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_until timestamptz,
+  ADD COLUMN IF NOT EXISTS password_changed_at timestamptz;
+
+COMMENT ON COLUMN system_users.password_hash IS
+  'pbkdf2_sha256$<iterations>$<salt>$<hash>; unsalted SHA-256 hex for accounts that have not logged in since the upgrade';
@@ -0,0 +1,14 @@
+-- TOTP two-factor authentication
+-- The secret is encrypted by the edge functions before it is stored; recovery codes are kept as
+-- SHA-256 hashes and removed once used. totp_last_used_step stops a code being replayed.
+-- A user must use 2FA when their role requires it or system_settings.two_factor_auth is on.
+
+ALTER TABLE system_users
+  ADD COLUMN IF NOT EXISTS totp_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS totp_secret text,
+  ADD COLUMN IF NOT EXISTS totp_recovery_codes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS totp_last_used_step bigint,
+  ADD COLUMN IF NOT EXISTS totp_enrolled_at timestamptz;
+
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS require_two_factor boolean NOT NULL DEFAULT false;
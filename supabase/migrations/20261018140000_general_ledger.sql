@@ -0,0 +1,631 @@
+-- General ledger
+-- Double-entry bookkeeping: a chart of accounts, posting rules that map each kind of posting to an
+-- account, and journal entries posted by trigger from invoices, payments, purchase orders, purchase
+-- payments, expenses, expense payments and payrolls. Every entry links to its source row and must
+-- balance. Like stock_movements the journal is append-only: editing or deleting a document posts an
+-- adjusting entry for the difference between what it should have posted and what it already has.
+
+CREATE TABLE IF NOT EXISTS gl_accounts (
+  account_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_code text NOT NULL UNIQUE,
+  account_name text NOT NULL,
+  account_name_ar text,
+  account_type text NOT NULL CHECK (account_type IN ('asset', 'liability', 'equity', 'revenue', 'expense')),
+  parent_account_id uuid REFERENCES gl_accounts(account_id),
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Which account each automatic posting uses; changing a rule affects postings made from then on
+CREATE TABLE IF NOT EXISTS gl_posting_rules (
+  rule_key text PRIMARY KEY,
+  description text NOT NULL,
+  account_id uuid NOT NULL REFERENCES gl_accounts(account_id),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  entry_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_number bigint GENERATED ALWAYS AS IDENTITY UNIQUE,
+  entry_date date NOT NULL,
+  description text,
+  source_type text NOT NULL CHECK (source_type IN (
+    'manual', 'invoice', 'payment', 'purchase_order', 'purchase_payment', 'expense', 'expense_payment', 'payroll'
+  )),
+  source_id uuid,
+  source_reference text,
+  is_reversal boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid
+);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  line_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES journal_entries(entry_id),
+  account_id uuid NOT NULL REFERENCES gl_accounts(account_id),
+  debit numeric(14, 2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit numeric(14, 2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  memo text,
+  -- Exactly one side per line
+  CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_date ON journal_entries(entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_source ON journal_entries(source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account_id);
+
+-- The journal is append-only: corrections are new (adjusting or reversing) entries
+CREATE OR REPLACE FUNCTION journal_block_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only; post an adjusting entry instead', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_journal_entries_block_changes ON journal_entries;
+CREATE TRIGGER trg_journal_entries_block_changes
+  BEFORE UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION journal_block_changes();
+
+DROP TRIGGER IF EXISTS trg_journal_lines_block_changes ON journal_lines;
+CREATE TRIGGER trg_journal_lines_block_changes
+  BEFORE UPDATE OR DELETE ON journal_lines
+  FOR EACH ROW EXECUTE FUNCTION journal_block_changes();
+
+-- Checked at commit so an entry and its lines can be inserted in any order within a transaction
+CREATE OR REPLACE FUNCTION journal_entries_check_balance() RETURNS trigger AS $$
+DECLARE
+  line_count integer;
+  difference numeric;
+BEGIN
+  SELECT COUNT(*), COALESCE(SUM(debit - credit), 0) INTO line_count, difference
+  FROM journal_lines
+  WHERE entry_id = NEW.entry_id;
+
+  IF line_count < 2 OR difference <> 0 THEN
+    RAISE EXCEPTION 'Journal entry % does not balance (% lines, difference %)', NEW.entry_id, line_count, difference;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_journal_entries_check_balance ON journal_entries;
+CREATE CONSTRAINT TRIGGER trg_journal_entries_check_balance
+  AFTER INSERT ON journal_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION journal_entries_check_balance();
+
+-- ---------------------------------------------------------------------------
+-- Default chart of accounts and posting rules
+-- ---------------------------------------------------------------------------
+
+INSERT INTO gl_accounts (account_code, account_name, account_name_ar, account_type) VALUES
+  ('1010', 'Cash on Hand', 'النقدية بالصندوق', 'asset'),
+  ('1020', 'Bank', 'البنك', 'asset'),
+  ('1100', 'Accounts Receivable', 'الذمم المدينة', 'asset'),
+  ('1150', 'Employee Loans & Advances', 'سلف وقروض الموظفين', 'asset'),
+  ('1200', 'Inventory', 'المخزون', 'asset'),
+  ('1300', 'VAT Input', 'ضريبة القيمة المضافة - المدخلات', 'asset'),
+  ('2010', 'Accounts Payable', 'الذمم الدائنة', 'liability'),
+  ('2020', 'Accrued Expenses', 'مصروفات مستحقة', 'liability'),
+  ('2100', 'VAT Output', 'ضريبة القيمة المضافة - المخرجات', 'liability'),
+  ('2200', 'Salaries Payable', 'رواتب مستحقة', 'liability'),
+  ('2210', 'GOSI Payable', 'التأمينات الاجتماعية المستحقة', 'liability'),
+  ('3010', 'Owner''s Capital', 'رأس المال', 'equity'),
+  ('3020', 'Retained Earnings', 'الأرباح المبقاة', 'equity'),
+  ('4010', 'Sales Revenue', 'إيرادات المبيعات', 'revenue'),
+  ('5010', 'Purchases', 'المشتريات', 'expense'),
+  ('5100', 'General Expenses', 'مصروفات عامة', 'expense'),
+  ('5200', 'Salaries & Wages', 'الرواتب والأجور', 'expense')
+ON CONFLICT (account_code) DO NOTHING;
+
+INSERT INTO gl_posting_rules (rule_key, description, account_id)
+SELECT rule.rule_key, rule.description, a.account_id
+FROM (VALUES
+  ('cash', 'Money received or paid in cash', '1010'),
+  ('bank', 'Money received or paid by transfer, card or cheque', '1020'),
+  ('accounts_receivable', 'Amounts customers owe on invoices', '1100'),
+  ('sales_revenue', 'Invoice amounts excluding VAT', '4010'),
+  ('vat_output', 'VAT charged on invoices', '2100'),
+  ('vat_input', 'VAT paid on purchases and expenses', '1300'),
+  ('purchases', 'Purchase orders excluding VAT (use Inventory for perpetual stock accounting)', '5010'),
+  ('accounts_payable', 'Amounts owed to suppliers', '2010'),
+  ('expenses', 'Expenses excluding VAT', '5100'),
+  ('expenses_payable', 'Expenses recorded but not yet paid', '2020'),
+  ('salaries_expense', 'Approved payroll cost', '5200'),
+  ('salaries_payable', 'Net salaries owed to employees', '2200'),
+  ('gosi_payable', 'GOSI withheld from salaries', '2210'),
+  ('employee_loans', 'Loan and advance instalments deducted from salaries', '1150')
+) AS rule(rule_key, description, account_code)
+JOIN gl_accounts a ON a.account_code = rule.account_code
+ON CONFLICT (rule_key) DO NOTHING;
+
+-- ---------------------------------------------------------------------------
+-- Posting engine
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION gl_rule_account(p_rule_key text) RETURNS uuid AS $$
+DECLARE
+  v_account_id uuid;
+BEGIN
+  SELECT account_id INTO v_account_id FROM gl_posting_rules WHERE rule_key = p_rule_key;
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'No ledger account is configured for posting rule "%"', p_rule_key;
+  END IF;
+  RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION gl_cash_rule(p_payment_method text) RETURNS text AS $$
+  SELECT CASE WHEN COALESCE(p_payment_method, '') ILIKE '%cash%' OR COALESCE(p_payment_method, '') LIKE '%نقد%'
+    THEN 'cash' ELSE 'bank' END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Amounts in jsonb documents may be numbers or numeric strings
+CREATE OR REPLACE FUNCTION gl_jsonb_amount(p_value jsonb) RETURNS numeric AS $$
+BEGIN
+  IF p_value IS NULL OR jsonb_typeof(p_value) NOT IN ('number', 'string') THEN
+    RETURN NULL;
+  END IF;
+  RETURN ROUND(NULLIF(p_value #>> '{}', '')::numeric, 2);
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+/*
+ * Bring the journal for one source document in line with what it should have posted.
+ * p_lines is [{rule, amount}] with debits positive and credits negative; it must balance.
+ * Only the per-account difference from earlier postings is posted, as one balanced entry.
+ * An empty p_lines reverses everything the document posted (document deleted or cancelled).
+ */
+CREATE OR REPLACE FUNCTION gl_sync_source(
+  p_source_type text,
+  p_source_id uuid,
+  p_reference text,
+  p_entry_date date,
+  p_description text,
+  p_lines jsonb
+) RETURNS uuid AS $$
+DECLARE
+  v_deltas jsonb;
+  v_imbalance numeric;
+  v_has_posted boolean;
+  v_is_reversal boolean;
+  v_entry_id uuid;
+BEGIN
+  SELECT COALESCE(SUM(ROUND((line->>'amount')::numeric, 2)), 0) INTO v_imbalance
+  FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) AS line;
+  IF v_imbalance <> 0 THEN
+    RAISE EXCEPTION 'Posting for % % does not balance (difference %)', p_source_type, p_source_id, v_imbalance;
+  END IF;
+
+  WITH desired AS (
+    SELECT gl_rule_account(line->>'rule') AS account_id, SUM(ROUND((line->>'amount')::numeric, 2)) AS amount
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) AS line
+    GROUP BY 1
+  ),
+  posted AS (
+    SELECT jl.account_id, SUM(jl.debit - jl.credit) AS amount
+    FROM journal_lines jl
+    JOIN journal_entries je ON je.entry_id = jl.entry_id
+    WHERE je.source_type = p_source_type AND je.source_id = p_source_id
+    GROUP BY jl.account_id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('account_id', account_id, 'amount', delta)), '[]'::jsonb)
+  INTO v_deltas
+  FROM (
+    SELECT COALESCE(d.account_id, p.account_id) AS account_id, COALESCE(d.amount, 0) - COALESCE(p.amount, 0) AS delta
+    FROM desired d
+    FULL JOIN posted p ON p.account_id = d.account_id
+  ) AS differences
+  WHERE delta <> 0;
+
+  IF jsonb_array_length(v_deltas) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_has_posted := EXISTS (
+    SELECT 1 FROM journal_entries WHERE source_type = p_source_type AND source_id = p_source_id
+  );
+  v_is_reversal := v_has_posted AND jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0;
+
+  -- The first posting is dated like the document; later corrections are dated when they happen
+  INSERT INTO journal_entries (entry_date, description, source_type, source_id, source_reference, is_reversal)
+  VALUES (
+    CASE WHEN v_has_posted THEN CURRENT_DATE ELSE COALESCE(p_entry_date, CURRENT_DATE) END,
+    CASE
+      WHEN v_is_reversal THEN 'Reversal: ' || p_description
+      WHEN v_has_posted THEN 'Adjustment: ' || p_description
+      ELSE p_description
+    END,
+    p_source_type,
+    p_source_id,
+    p_reference,
+    v_is_reversal
+  )
+  RETURNING entry_id INTO v_entry_id;
+
+  INSERT INTO journal_lines (entry_id, account_id, debit, credit)
+  SELECT v_entry_id, delta.account_id, GREATEST(delta.amount, 0), GREATEST(-delta.amount, 0)
+  FROM jsonb_to_recordset(v_deltas) AS delta(account_id uuid, amount numeric);
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Posting rules per source document
+-- ---------------------------------------------------------------------------
+
+-- Invoice: Dr receivable / Cr revenue + VAT output. Amounts marked paid on the invoice without a
+-- payments row (paid at creation) are settled against cash here; payments rows post themselves.
+CREATE OR REPLACE FUNCTION gl_post_invoice(p_invoice_id uuid) RETURNS void AS $$
+DECLARE
+  inv invoices%ROWTYPE;
+  v_total numeric;
+  v_tax numeric;
+  v_settled numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO inv FROM invoices WHERE invoice_id = p_invoice_id;
+  IF FOUND THEN
+    v_total := ROUND(COALESCE(inv.total_amount, 0), 2);
+    v_tax := ROUND(COALESCE(inv.tax_amount, 0), 2);
+    SELECT GREATEST(0, LEAST(v_total, ROUND(COALESCE(inv.paid_amount, 0), 2)) - COALESCE(SUM(paid_amount), 0))
+    INTO v_settled
+    FROM payments
+    WHERE invoice_id = p_invoice_id;
+
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'accounts_receivable', 'amount', v_total - v_settled),
+      jsonb_build_object('rule', 'cash', 'amount', v_settled),
+      jsonb_build_object('rule', 'sales_revenue', 'amount', -(v_total - v_tax)),
+      jsonb_build_object('rule', 'vat_output', 'amount', -v_tax)
+    );
+  END IF;
+
+  PERFORM gl_sync_source(
+    'invoice', p_invoice_id, upper(left(p_invoice_id::text, 8)), inv.invoice_date,
+    'Invoice ' || upper(left(p_invoice_id::text, 8)), v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Customer payment: Dr cash/bank / Cr receivable
+CREATE OR REPLACE FUNCTION gl_post_payment(p_payment_id uuid) RETURNS void AS $$
+DECLARE
+  pay payments%ROWTYPE;
+  v_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO pay FROM payments WHERE payment_id = p_payment_id;
+  IF FOUND THEN
+    v_amount := ROUND(COALESCE(pay.paid_amount, 0), 2);
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', gl_cash_rule(pay.payment_method), 'amount', v_amount),
+      jsonb_build_object('rule', 'accounts_receivable', 'amount', -v_amount)
+    );
+  END IF;
+
+  PERFORM gl_sync_source(
+    'payment', p_payment_id, COALESCE(pay.reference_number, upper(left(p_payment_id::text, 8))), pay.payment_date,
+    'Payment for invoice ' || COALESCE(upper(left(pay.invoice_id::text, 8)), ''), v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Purchase order: Dr purchases + VAT input / Cr payable; amounts paid at creation settle against cash
+CREATE OR REPLACE FUNCTION gl_post_purchase_order(p_purchase_id uuid) RETURNS void AS $$
+DECLARE
+  po purchase_orders%ROWTYPE;
+  v_payload jsonb;
+  v_reference text;
+  v_total numeric;
+  v_tax numeric;
+  v_settled numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO po FROM purchase_orders WHERE purchase_id = p_purchase_id;
+  IF FOUND THEN
+    v_payload := CASE WHEN jsonb_typeof(po.purchase_order_items) = 'object' THEN po.purchase_order_items ELSE '{}'::jsonb END;
+    v_total := COALESCE(
+      gl_jsonb_amount(v_payload->'total_amount'),
+      ROUND(COALESCE(po.purchase_paid_amount, 0) + COALESCE(po.purchase_remaining_amount, 0), 2)
+    );
+    v_tax := COALESCE(gl_jsonb_amount(v_payload->'tax_amount'), 0);
+    v_reference := COALESCE(v_payload->>'purchase_number', po.purchase_invoice_number);
+    SELECT GREATEST(0, LEAST(v_total, ROUND(COALESCE(po.purchase_paid_amount, 0), 2)) - COALESCE(SUM(payment_amount), 0))
+    INTO v_settled
+    FROM purchase_payments
+    WHERE purchase_id = p_purchase_id;
+
+    IF lower(COALESCE(po.delivery_status, '')) <> 'cancelled' THEN
+      v_lines := jsonb_build_array(
+        jsonb_build_object('rule', 'purchases', 'amount', v_total - v_tax),
+        jsonb_build_object('rule', 'vat_input', 'amount', v_tax),
+        jsonb_build_object('rule', 'accounts_payable', 'amount', -(v_total - v_settled)),
+        jsonb_build_object('rule', gl_cash_rule(po.payment_method), 'amount', -v_settled)
+      );
+    END IF;
+  END IF;
+
+  v_reference := COALESCE(v_reference, upper(left(p_purchase_id::text, 8)));
+  PERFORM gl_sync_source(
+    'purchase_order', p_purchase_id, v_reference, po.purchase_date, 'Purchase ' || v_reference, v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Supplier payment: Dr payable / Cr cash/bank
+CREATE OR REPLACE FUNCTION gl_post_purchase_payment(p_payment_id uuid) RETURNS void AS $$
+DECLARE
+  pay purchase_payments%ROWTYPE;
+  v_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO pay FROM purchase_payments WHERE payment_id = p_payment_id;
+  IF FOUND THEN
+    v_amount := ROUND(COALESCE(pay.payment_amount, 0), 2);
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'accounts_payable', 'amount', v_amount),
+      jsonb_build_object('rule', gl_cash_rule(pay.payment_method), 'amount', -v_amount)
+    );
+  END IF;
+
+  PERFORM gl_sync_source(
+    'purchase_payment', p_payment_id, COALESCE(pay.reference_number, upper(left(p_payment_id::text, 8))),
+    pay.payment_date, 'Supplier payment', v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Expense: Dr expense + VAT input / Cr accrued expenses; amounts paid at creation settle against cash
+CREATE OR REPLACE FUNCTION gl_post_expense(p_expense_id uuid) RETURNS void AS $$
+DECLARE
+  exp expenses%ROWTYPE;
+  v_reference text;
+  v_total numeric;
+  v_tax numeric;
+  v_settled numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO exp FROM expenses WHERE expense_id = p_expense_id;
+  IF FOUND THEN
+    v_tax := ROUND(COALESCE(exp.tax_amount, 0), 2);
+    v_total := ROUND(COALESCE(exp.total_amount, COALESCE(exp.base_amount, 0) + v_tax), 2);
+    SELECT GREATEST(0, LEAST(v_total, ROUND(COALESCE(exp.paid_amount, 0), 2)) - COALESCE(SUM(payment_amount), 0))
+    INTO v_settled
+    FROM expense_payments
+    WHERE expense_id::text = p_expense_id::text;
+
+    IF lower(COALESCE(exp.status, '')) <> 'cancelled' THEN
+      v_lines := jsonb_build_array(
+        jsonb_build_object('rule', 'expenses', 'amount', v_total - v_tax),
+        jsonb_build_object('rule', 'vat_input', 'amount', v_tax),
+        jsonb_build_object('rule', 'expenses_payable', 'amount', -(v_total - v_settled)),
+        jsonb_build_object('rule', gl_cash_rule(exp.payment_method), 'amount', -v_settled)
+      );
+    END IF;
+    v_reference := exp.receipt_number;
+  END IF;
+
+  v_reference := COALESCE(v_reference, upper(left(p_expense_id::text, 8)));
+  PERFORM gl_sync_source(
+    'expense', p_expense_id, v_reference, exp.expense_date,
+    'Expense ' || COALESCE(exp.category, v_reference), v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Expense payment: Dr accrued expenses / Cr cash/bank
+CREATE OR REPLACE FUNCTION gl_post_expense_payment(p_expense_payment_id uuid) RETURNS void AS $$
+DECLARE
+  pay expense_payments%ROWTYPE;
+  v_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO pay FROM expense_payments WHERE expense_payment_id = p_expense_payment_id;
+  IF FOUND THEN
+    v_amount := ROUND(COALESCE(pay.payment_amount, 0), 2);
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'expenses_payable', 'amount', v_amount),
+      jsonb_build_object('rule', gl_cash_rule(pay.payment_method), 'amount', -v_amount)
+    );
+  END IF;
+
+  PERFORM gl_sync_source(
+    'expense_payment', p_expense_payment_id,
+    COALESCE(pay.reference_number, upper(left(p_expense_payment_id::text, 8))),
+    pay.payment_date, 'Expense payment', v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Payroll once approved: Dr salaries expense / Cr salaries payable, GOSI payable and employee loans
+-- (from the calculated run in attached_details). Marking it paid settles salaries payable from the bank.
+CREATE OR REPLACE FUNCTION gl_post_payroll(p_payroll_id uuid) RETURNS void AS $$
+DECLARE
+  run payrolls%ROWTYPE;
+  v_net numeric;
+  v_gosi numeric := 0;
+  v_loans numeric := 0;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO run FROM payrolls WHERE payroll_id = p_payroll_id;
+  IF FOUND AND run.status IN ('approved', 'paid') THEN
+    IF jsonb_typeof(run.attached_details) = 'object'
+      AND run.attached_details->>'kind' = 'payroll_run'
+      AND jsonb_typeof(run.attached_details->'lines') = 'array' THEN
+      SELECT
+        COALESCE(SUM(gl_jsonb_amount(line->'net')), 0),
+        COALESCE(SUM(gl_jsonb_amount(line->'gosi')), 0),
+        COALESCE(SUM(gl_jsonb_amount(line->'loan_deduction')), 0)
+      INTO v_net, v_gosi, v_loans
+      FROM jsonb_array_elements(run.attached_details->'lines') AS line;
+    ELSE
+      -- Runs created before payroll calculation only have a total
+      v_net := ROUND(COALESCE(run.total_amount, 0), 2);
+    END IF;
+
+    -- Salary cost is net pay plus what was withheld; unpaid leave and absences are not a cost
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'salaries_expense', 'amount', v_net + v_gosi + v_loans),
+      jsonb_build_object('rule', 'gosi_payable', 'amount', -v_gosi),
+      jsonb_build_object('rule', 'employee_loans', 'amount', -v_loans),
+      jsonb_build_object('rule', 'salaries_payable', 'amount', -v_net)
+    );
+
+    IF run.status = 'paid' THEN
+      v_lines := v_lines || jsonb_build_array(
+        jsonb_build_object('rule', 'salaries_payable', 'amount', v_net),
+        jsonb_build_object('rule', 'bank', 'amount', -v_net)
+      );
+    END IF;
+  END IF;
+
+  PERFORM gl_sync_source(
+    'payroll', p_payroll_id, COALESCE(run.payroll_number, upper(left(p_payroll_id::text, 8))), run.payroll_date,
+    'Payroll ' || COALESCE(run.payroll_month || ' ' || run.payroll_year, run.payroll_number, ''), v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Triggers on the source tables
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION gl_post_source_row() RETURNS trigger AS $$
+DECLARE
+  source_row jsonb := to_jsonb(CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END);
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'invoices' THEN PERFORM gl_post_invoice((source_row->>'invoice_id')::uuid);
+    WHEN 'payments' THEN PERFORM gl_post_payment((source_row->>'payment_id')::uuid);
+    WHEN 'purchase_orders' THEN PERFORM gl_post_purchase_order((source_row->>'purchase_id')::uuid);
+    WHEN 'purchase_payments' THEN PERFORM gl_post_purchase_payment((source_row->>'payment_id')::uuid);
+    WHEN 'expenses' THEN PERFORM gl_post_expense((source_row->>'expense_id')::uuid);
+    WHEN 'expense_payments' THEN PERFORM gl_post_expense_payment((source_row->>'expense_payment_id')::uuid);
+    WHEN 'payrolls' THEN PERFORM gl_post_payroll((source_row->>'payroll_id')::uuid);
+  END CASE;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  source_table text;
+BEGIN
+  FOREACH source_table IN ARRAY ARRAY[
+    'invoices', 'payments', 'purchase_orders', 'purchase_payments', 'expenses', 'expense_payments', 'payrolls'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_gl_post ON %I', source_table, source_table);
+    EXECUTE format(
+      'CREATE TRIGGER trg_%s_gl_post AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION gl_post_source_row()',
+      source_table, source_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Manual entries and reports
+-- ---------------------------------------------------------------------------
+
+/*
+ * Post a manual journal entry. p_lines is [{account_id, debit, credit, memo}].
+ */
+CREATE OR REPLACE FUNCTION gl_post_manual_entry(
+  p_entry_date date,
+  p_description text,
+  p_lines jsonb,
+  p_created_by uuid DEFAULT NULL
+) RETURNS uuid AS $$
+DECLARE
+  v_entry_id uuid;
+  v_debit numeric;
+  v_credit numeric;
+BEGIN
+  SELECT COALESCE(SUM(ROUND(COALESCE(debit, 0), 2)), 0), COALESCE(SUM(ROUND(COALESCE(credit, 0), 2)), 0)
+  INTO v_debit, v_credit
+  FROM jsonb_to_recordset(COALESCE(p_lines, '[]'::jsonb)) AS line(account_id uuid, debit numeric, credit numeric);
+  IF v_debit = 0 OR v_debit <> v_credit THEN
+    RAISE EXCEPTION 'Journal entry does not balance: debits % and credits %', v_debit, v_credit;
+  END IF;
+
+  INSERT INTO journal_entries (entry_date, description, source_type, created_by)
+  VALUES (COALESCE(p_entry_date, CURRENT_DATE), p_description, 'manual', p_created_by)
+  RETURNING entry_id INTO v_entry_id;
+
+  INSERT INTO journal_lines (entry_id, account_id, debit, credit, memo)
+  SELECT v_entry_id, line.account_id, ROUND(COALESCE(line.debit, 0), 2), ROUND(COALESCE(line.credit, 0), 2), line.memo
+  FROM jsonb_to_recordset(p_lines) AS line(account_id uuid, debit numeric, credit numeric, memo text)
+  WHERE ROUND(COALESCE(line.debit, 0), 2) <> 0 OR ROUND(COALESCE(line.credit, 0), 2) <> 0;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+/*
+ * Reverse a manual entry by posting its mirror image; automatic entries follow their documents instead
+ */
+CREATE OR REPLACE FUNCTION gl_reverse_manual_entry(p_entry_id uuid, p_created_by uuid DEFAULT NULL) RETURNS uuid AS $$
+DECLARE
+  original journal_entries%ROWTYPE;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO original FROM journal_entries WHERE entry_id = p_entry_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal entry % not found', p_entry_id;
+  END IF;
+  IF original.source_type <> 'manual' THEN
+    RAISE EXCEPTION 'Only manual entries can be reversed; edit or delete the source document instead';
+  END IF;
+  IF EXISTS (SELECT 1 FROM journal_entries WHERE source_type = 'manual' AND source_id = p_entry_id) THEN
+    RAISE EXCEPTION 'Journal entry #% has already been reversed', original.entry_number;
+  END IF;
+
+  INSERT INTO journal_entries (entry_date, description, source_type, source_id, source_reference, is_reversal, created_by)
+  VALUES (
+    CURRENT_DATE, 'Reversal: ' || COALESCE(original.description, ''), 'manual', p_entry_id,
+    '#' || original.entry_number, true, p_created_by
+  )
+  RETURNING entry_id INTO v_entry_id;
+
+  INSERT INTO journal_lines (entry_id, account_id, debit, credit, memo)
+  SELECT v_entry_id, account_id, credit, debit, memo
+  FROM journal_lines
+  WHERE entry_id = p_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Debit and credit totals per account for a date range (either bound may be null)
+CREATE OR REPLACE FUNCTION gl_account_totals(p_from date DEFAULT NULL, p_to date DEFAULT NULL)
+RETURNS TABLE (account_id uuid, debit numeric, credit numeric) AS $$
+  SELECT jl.account_id, SUM(jl.debit), SUM(jl.credit)
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.entry_id = jl.entry_id
+  WHERE (p_from IS NULL OR je.entry_date >= p_from)
+    AND (p_to IS NULL OR je.entry_date <= p_to)
+  GROUP BY jl.account_id;
+$$ LANGUAGE sql STABLE;
+
+-- ---------------------------------------------------------------------------
+-- Post the documents that existed before the ledger
+-- ---------------------------------------------------------------------------
+
+DO $$
+BEGIN
+  PERFORM gl_post_invoice(invoice_id) FROM invoices;
+  PERFORM gl_post_payment(payment_id) FROM payments;
+  PERFORM gl_post_purchase_order(purchase_id) FROM purchase_orders;
+  PERFORM gl_post_purchase_payment(payment_id) FROM purchase_payments;
+  PERFORM gl_post_expense(expense_id) FROM expenses;
+  PERFORM gl_post_expense_payment(expense_payment_id) FROM expense_payments;
+  PERFORM gl_post_payroll(payroll_id) FROM payrolls;
+END;
+$$;
@@ -0,0 +1,243 @@
+-- Credit and debit notes
+-- Corrections to an issued invoice are separate documents that reference it, instead of edits to the
+-- invoice itself. A credit note reverses all or part of the invoice lines, a debit note adds charges.
+-- Notes are numbered per type and year (CN-2026-0001, DN-2026-0001), cannot be changed once issued,
+-- and feed invoices.remaining_amount and the general ledger. An invoice with a payment or a note is
+-- locked: its amounts, lines, customer and date can no longer be edited and it cannot be deleted.
+
+CREATE TABLE IF NOT EXISTS invoice_notes (
+  note_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_type text NOT NULL CHECK (note_type IN ('credit', 'debit')),
+  note_number text UNIQUE,
+  invoice_id uuid NOT NULL REFERENCES invoices(invoice_id),
+  invoice_reference text, -- Invoice number as printed when the note was issued
+  customer_id uuid,
+  note_date date NOT NULL DEFAULT CURRENT_DATE,
+  reason text NOT NULL CHECK (btrim(reason) <> ''),
+  -- [{sourceIndex, description, quantity, unitPrice, subtotal, vat, total}]; sourceIndex points into
+  -- invoices.invoice_items for reversed lines and is null for added charges
+  note_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal numeric(14, 2) NOT NULL CHECK (subtotal >= 0),
+  tax_rate numeric NOT NULL DEFAULT 0,
+  tax_amount numeric(14, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  total_amount numeric(14, 2) NOT NULL CHECK (total_amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_notes_invoice ON invoice_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_notes_date ON invoice_notes(note_date);
+
+CREATE TABLE IF NOT EXISTS invoice_note_sequences (
+  note_type text NOT NULL,
+  sequence_year integer NOT NULL,
+  last_number integer NOT NULL,
+  PRIMARY KEY (note_type, sequence_year)
+);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS credited_amount numeric(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS debited_amount numeric(14, 2) NOT NULL DEFAULT 0;
+
+-- remaining_amount was generated from total_amount - paid_amount; it now includes notes
+ALTER TABLE invoices ALTER COLUMN remaining_amount DROP EXPRESSION IF EXISTS;
+
+CREATE OR REPLACE FUNCTION invoices_set_remaining_amount() RETURNS trigger AS $$
+BEGIN
+  NEW.remaining_amount := GREATEST(0, ROUND(
+    COALESCE(NEW.total_amount, 0) + NEW.debited_amount - NEW.credited_amount - COALESCE(NEW.paid_amount, 0),
+    2
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoices_set_remaining_amount ON invoices;
+CREATE TRIGGER trg_invoices_set_remaining_amount
+  BEFORE INSERT OR UPDATE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION invoices_set_remaining_amount();
+
+-- ---------------------------------------------------------------------------
+-- Locking settled invoices
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION invoice_is_locked(p_invoice_id uuid, p_paid_amount numeric) RETURNS boolean AS $$
+  SELECT COALESCE(p_paid_amount, 0) > 0
+    OR EXISTS (SELECT 1 FROM payments WHERE invoice_id = p_invoice_id)
+    OR EXISTS (SELECT 1 FROM invoice_notes WHERE invoice_id = p_invoice_id);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION invoices_block_locked_changes() RETURNS trigger AS $$
+BEGIN
+  IF NOT invoice_is_locked(OLD.invoice_id, OLD.paid_amount) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Invoice % has payments or credit/debit notes and cannot be deleted; issue a credit note instead',
+      upper(left(OLD.invoice_id::text, 8));
+  END IF;
+
+  -- Payment status, paid/credited/debited amounts, due date and branding may still change
+  IF (NEW.customer_id, NEW.invoice_date, NEW.invoice_items, NEW.subtotal, NEW.tax_amount, NEW.tax_rate,
+      NEW.total_amount, NEW.vat_enabled, NEW.discount_type, NEW.discount_amount)
+     IS DISTINCT FROM
+     (OLD.customer_id, OLD.invoice_date, OLD.invoice_items, OLD.subtotal, OLD.tax_amount, OLD.tax_rate,
+      OLD.total_amount, OLD.vat_enabled, OLD.discount_type, OLD.discount_amount) THEN
+    RAISE EXCEPTION 'Invoice % has payments or credit/debit notes and cannot be edited; issue a credit or debit note instead',
+      upper(left(OLD.invoice_id::text, 8));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoices_block_locked_changes ON invoices;
+CREATE TRIGGER trg_invoices_block_locked_changes
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION invoices_block_locked_changes();
+
+-- ---------------------------------------------------------------------------
+-- Issuing notes
+-- ---------------------------------------------------------------------------
+
+-- Checks the note against its invoice and allocates the next number in the same transaction.
+-- The sequence row is locked by the upsert, so concurrent notes wait instead of sharing a number.
+CREATE OR REPLACE FUNCTION invoice_notes_prepare() RETURNS trigger AS $$
+DECLARE
+  inv invoices%ROWTYPE;
+  v_year integer;
+  v_next integer;
+  v_creditable numeric;
+BEGIN
+  SELECT * INTO inv FROM invoices WHERE invoice_id = NEW.invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', NEW.invoice_id;
+  END IF;
+
+  IF ROUND(NEW.subtotal + NEW.tax_amount, 2) <> ROUND(NEW.total_amount, 2) THEN
+    RAISE EXCEPTION 'Note total % does not equal subtotal % plus VAT %', NEW.total_amount, NEW.subtotal, NEW.tax_amount;
+  END IF;
+
+  IF NEW.note_type = 'credit' THEN
+    v_creditable := ROUND(COALESCE(inv.total_amount, 0) + inv.debited_amount - inv.credited_amount, 2);
+    IF NEW.total_amount > v_creditable THEN
+      RAISE EXCEPTION 'Credit note of % exceeds the % left to credit on this invoice', NEW.total_amount, v_creditable;
+    END IF;
+  END IF;
+
+  NEW.customer_id := inv.customer_id;
+  v_year := EXTRACT(YEAR FROM NEW.note_date)::integer;
+
+  INSERT INTO invoice_note_sequences (note_type, sequence_year, last_number)
+  VALUES (NEW.note_type, v_year, 1)
+  ON CONFLICT (note_type, sequence_year)
+  DO UPDATE SET last_number = invoice_note_sequences.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  NEW.note_number := CASE NEW.note_type WHEN 'credit' THEN 'CN' ELSE 'DN' END
+    || '-' || v_year || '-' || lpad(v_next::text, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoice_notes_prepare ON invoice_notes;
+CREATE TRIGGER trg_invoice_notes_prepare
+  BEFORE INSERT ON invoice_notes
+  FOR EACH ROW EXECUTE FUNCTION invoice_notes_prepare();
+
+CREATE OR REPLACE FUNCTION invoice_notes_block_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Issued credit/debit notes cannot be changed or deleted; issue another note instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoice_notes_block_changes ON invoice_notes;
+CREATE TRIGGER trg_invoice_notes_block_changes
+  BEFORE UPDATE OR DELETE ON invoice_notes
+  FOR EACH ROW EXECUTE FUNCTION invoice_notes_block_changes();
+
+-- updated_at is left alone: the invoice document itself is unchanged, and VAT returns that
+-- already include it must not be flagged as out of date
+CREATE OR REPLACE FUNCTION invoice_notes_update_invoice() RETURNS trigger AS $$
+BEGIN
+  UPDATE invoices
+  SET
+    credited_amount = totals.credited,
+    debited_amount = totals.debited
+  FROM (
+    SELECT
+      COALESCE(SUM(total_amount) FILTER (WHERE note_type = 'credit'), 0) AS credited,
+      COALESCE(SUM(total_amount) FILTER (WHERE note_type = 'debit'), 0) AS debited
+    FROM invoice_notes
+    WHERE invoice_id = NEW.invoice_id
+  ) AS totals
+  WHERE invoices.invoice_id = NEW.invoice_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoice_notes_update_invoice ON invoice_notes;
+CREATE TRIGGER trg_invoice_notes_update_invoice
+  AFTER INSERT ON invoice_notes
+  FOR EACH ROW EXECUTE FUNCTION invoice_notes_update_invoice();
+
+-- ---------------------------------------------------------------------------
+-- General ledger
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE journal_entries DROP CONSTRAINT IF EXISTS journal_entries_source_type_check;
+ALTER TABLE journal_entries ADD CONSTRAINT journal_entries_source_type_check CHECK (source_type IN (
+  'manual', 'invoice', 'invoice_note', 'payment', 'purchase_order', 'purchase_payment', 'expense', 'expense_payment', 'payroll'
+));
+
+-- Credit note: Dr revenue + VAT output / Cr receivable; a debit note posts the opposite
+CREATE OR REPLACE FUNCTION gl_post_invoice_note(p_note_id uuid) RETURNS void AS $$
+DECLARE
+  note invoice_notes%ROWTYPE;
+  v_sign numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO note FROM invoice_notes WHERE note_id = p_note_id;
+  IF FOUND THEN
+    v_sign := CASE note.note_type WHEN 'credit' THEN 1 ELSE -1 END;
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'sales_revenue', 'amount', v_sign * note.subtotal),
+      jsonb_build_object('rule', 'vat_output', 'amount', v_sign * note.tax_amount),
+      jsonb_build_object('rule', 'accounts_receivable', 'amount', -v_sign * note.total_amount)
+    );
+  END IF;
+
+  PERFORM gl_sync_source(
+    'invoice_note', p_note_id, note.note_number, note.note_date,
+    CASE note.note_type WHEN 'credit' THEN 'Credit note ' ELSE 'Debit note ' END
+      || COALESCE(note.note_number, '') || ' for invoice ' || COALESCE(note.invoice_reference, ''),
+    v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION gl_post_source_row() RETURNS trigger AS $$
+DECLARE
+  source_row jsonb := to_jsonb(CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END);
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'invoices' THEN PERFORM gl_post_invoice((source_row->>'invoice_id')::uuid);
+    WHEN 'invoice_notes' THEN PERFORM gl_post_invoice_note((source_row->>'note_id')::uuid);
+    WHEN 'payments' THEN PERFORM gl_post_payment((source_row->>'payment_id')::uuid);
+    WHEN 'purchase_orders' THEN PERFORM gl_post_purchase_order((source_row->>'purchase_id')::uuid);
+    WHEN 'purchase_payments' THEN PERFORM gl_post_purchase_payment((source_row->>'payment_id')::uuid);
+    WHEN 'expenses' THEN PERFORM gl_post_expense((source_row->>'expense_id')::uuid);
+    WHEN 'expense_payments' THEN PERFORM gl_post_expense_payment((source_row->>'expense_payment_id')::uuid);
+    WHEN 'payrolls' THEN PERFORM gl_post_payroll((source_row->>'payroll_id')::uuid);
+  END CASE;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoice_notes_gl_post ON invoice_notes;
+CREATE TRIGGER trg_invoice_notes_gl_post
+  AFTER INSERT ON invoice_notes
+  FOR EACH ROW EXECUTE FUNCTION gl_post_source_row();
+
+-- Existing rows: recompute remaining_amount now that it is a plain column
+UPDATE invoices SET remaining_amount = remaining_amount;
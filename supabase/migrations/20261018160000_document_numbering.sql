@@ -0,0 +1,340 @@
+-- Document numbering
+-- Invoice, credit/debit note, quotation, contract, purchase order and payroll numbers are allocated
+-- by the database while the row is inserted, from one counter per document type (and per year when
+-- the sequence resets yearly). The counter row is locked until the insert commits, so two users
+-- saving at once wait for each other instead of getting the same number, and a failed insert rolls
+-- its number back, leaving no gaps. Deleting a document never frees its number.
+-- Prefix, yearly reset and zero padding are set per document type in Settings. A number supplied
+-- with the row (Excel import) is kept; the unique indexes below reject duplicates.
+
+CREATE TABLE IF NOT EXISTS document_sequences (
+  document_type text PRIMARY KEY,
+  label text NOT NULL,
+  prefix text NOT NULL CHECK (prefix ~ '^[A-Za-z0-9]+$'),
+  reset_yearly boolean NOT NULL DEFAULT true,
+  padding integer NOT NULL DEFAULT 3 CHECK (padding BETWEEN 1 AND 10),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS document_sequence_counters (
+  document_type text NOT NULL REFERENCES document_sequences(document_type) ON DELETE CASCADE,
+  sequence_year integer NOT NULL, -- 0 for sequences that never reset
+  last_number integer NOT NULL CHECK (last_number >= 0),
+  PRIMARY KEY (document_type, sequence_year)
+);
+
+-- Existing formats are kept so numbers already printed stay valid
+INSERT INTO document_sequences (document_type, label, prefix, reset_yearly, padding) VALUES
+  ('invoice', 'Invoice', 'INV', true, 3),
+  ('credit_note', 'Credit Note', 'CN', true, 4),
+  ('debit_note', 'Debit Note', 'DN', true, 4),
+  ('quotation', 'Quotation', 'QT', true, 3),
+  ('contract', 'Contract', 'CNT', true, 3),
+  ('purchase_order', 'Purchase Order', 'PUR', true, 3),
+  ('payroll', 'Payroll', 'PAY', true, 3)
+ON CONFLICT (document_type) DO NOTHING;
+
+-- lpad() truncates; numbers past the padding keep all their digits
+CREATE OR REPLACE FUNCTION format_document_number(
+  p_prefix text,
+  p_reset_yearly boolean,
+  p_padding integer,
+  p_year integer,
+  p_number integer
+) RETURNS text AS $$
+  SELECT p_prefix || '-'
+    || CASE WHEN p_reset_yearly THEN p_year::text || '-' ELSE '' END
+    || CASE WHEN length(p_number::text) >= p_padding THEN p_number::text ELSE lpad(p_number::text, p_padding, '0') END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION next_document_number(p_document_type text, p_date date DEFAULT CURRENT_DATE) RETURNS text AS $$
+DECLARE
+  seq document_sequences%ROWTYPE;
+  v_year integer := EXTRACT(YEAR FROM COALESCE(p_date, CURRENT_DATE))::integer;
+  v_next integer;
+BEGIN
+  SELECT * INTO seq FROM document_sequences WHERE document_type = p_document_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No numbering sequence is configured for %', p_document_type;
+  END IF;
+
+  INSERT INTO document_sequence_counters (document_type, sequence_year, last_number)
+  VALUES (p_document_type, CASE WHEN seq.reset_yearly THEN v_year ELSE 0 END, 1)
+  ON CONFLICT (document_type, sequence_year)
+  DO UPDATE SET last_number = document_sequence_counters.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  RETURN format_document_number(seq.prefix, seq.reset_yearly, seq.padding, v_year, v_next);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Number columns
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS invoice_number text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS quotation_number text;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS purchase_number text;
+
+-- Invoices and quotations were numbered on screen by creation order; store those numbers
+UPDATE invoices SET invoice_number = numbered.invoice_number
+FROM (
+  SELECT
+    invoice_id,
+    format_document_number(
+      'INV', true, 3,
+      EXTRACT(YEAR FROM COALESCE(invoice_date, created_at::date, CURRENT_DATE))::integer,
+      (row_number() OVER (ORDER BY created_at NULLS FIRST, invoice_id))::integer
+    ) AS invoice_number
+  FROM invoices
+) AS numbered
+WHERE invoices.invoice_id = numbered.invoice_id AND invoices.invoice_number IS NULL;
+
+UPDATE quotations SET quotation_number = numbered.quotation_number
+FROM (
+  SELECT
+    quotation_id,
+    format_document_number(
+      'QT', true, 3,
+      EXTRACT(YEAR FROM COALESCE(created_at::date, CURRENT_DATE))::integer,
+      (row_number() OVER (ORDER BY created_at NULLS FIRST, quotation_id))::integer
+    ) AS quotation_number
+  FROM quotations
+) AS numbered
+WHERE quotations.quotation_id = numbered.quotation_id AND quotations.quotation_number IS NULL;
+
+-- Purchase orders kept their number inside purchase_order_items
+UPDATE purchase_orders
+SET purchase_number = NULLIF(btrim(purchase_order_items->>'purchase_number'), '')
+WHERE purchase_number IS NULL AND jsonb_typeof(purchase_order_items) = 'object';
+
+-- ---------------------------------------------------------------------------
+-- Counters resume after the highest number already issued in each year
+-- ---------------------------------------------------------------------------
+
+INSERT INTO document_sequence_counters (document_type, sequence_year, last_number)
+SELECT document_type, (parts[1])::integer, MAX((parts[2])::integer)
+FROM (
+  SELECT 'invoice' AS document_type, regexp_match(invoice_number, '^INV-(\d{4})-(\d+)$') AS parts FROM invoices
+  UNION ALL
+  SELECT CASE note_type WHEN 'credit' THEN 'credit_note' ELSE 'debit_note' END,
+    regexp_match(note_number, '^(?:CN|DN)-(\d{4})-(\d+)$') FROM invoice_notes
+  UNION ALL
+  SELECT 'quotation', regexp_match(quotation_number, '^QT-(\d{4})-(\d+)$') FROM quotations
+  UNION ALL
+  SELECT 'contract', regexp_match(contract_number, '^CNT-(\d{4})-(\d+)$') FROM contracts
+  UNION ALL
+  SELECT 'purchase_order', regexp_match(purchase_number, '^PUR-(\d{4})-(\d+)$') FROM purchase_orders
+  UNION ALL
+  SELECT 'payroll', regexp_match(payroll_number, '^PAY-(\d{4})-(\d+)$') FROM payrolls
+) AS issued
+WHERE parts IS NOT NULL
+GROUP BY document_type, parts[1]
+ON CONFLICT (document_type, sequence_year)
+DO UPDATE SET last_number = GREATEST(document_sequence_counters.last_number, EXCLUDED.last_number);
+
+-- Credit/debit note counters move over from the notes migration
+INSERT INTO document_sequence_counters (document_type, sequence_year, last_number)
+SELECT CASE note_type WHEN 'credit' THEN 'credit_note' ELSE 'debit_note' END, sequence_year, last_number
+FROM invoice_note_sequences
+ON CONFLICT (document_type, sequence_year)
+DO UPDATE SET last_number = GREATEST(document_sequence_counters.last_number, EXCLUDED.last_number);
+
+DROP TABLE IF EXISTS invoice_note_sequences;
+
+-- ---------------------------------------------------------------------------
+-- Blank and duplicate numbers
+-- ---------------------------------------------------------------------------
+
+-- Rows saved without a number, or with a number an earlier row already has (two users saving at
+-- once, or a number reused after a deletion), get the next number. The earliest row keeps its number.
+CREATE OR REPLACE FUNCTION pg_temp.renumber_documents(
+  p_table text,
+  p_id_column text,
+  p_number_column text,
+  p_date_column text,
+  p_document_type text
+) RETURNS void AS $$
+DECLARE
+  doc record;
+BEGIN
+  FOR doc IN EXECUTE format(
+    'SELECT doc_id, doc_date FROM (
+       SELECT %1$I AS doc_id, %2$I::date AS doc_date, created_at AS doc_created,
+         NULLIF(btrim(%3$I), '''') AS doc_number,
+         row_number() OVER (PARTITION BY NULLIF(btrim(%3$I), '''') ORDER BY created_at NULLS FIRST, %1$I) AS occurrence
+       FROM %4$I
+     ) AS docs
+     WHERE doc_number IS NULL OR occurrence > 1
+     ORDER BY doc_created NULLS FIRST, doc_id',
+    p_id_column, p_date_column, p_number_column, p_table
+  )
+  LOOP
+    EXECUTE format('UPDATE %I SET %I = $1 WHERE %I = $2', p_table, p_number_column, p_id_column)
+    USING next_document_number(p_document_type, doc.doc_date), doc.doc_id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT pg_temp.renumber_documents('invoices', 'invoice_id', 'invoice_number', 'invoice_date', 'invoice');
+SELECT pg_temp.renumber_documents('quotations', 'quotation_id', 'quotation_number', 'created_at', 'quotation');
+SELECT pg_temp.renumber_documents('contracts', 'contract_id', 'contract_number', 'contract_start_date', 'contract');
+SELECT pg_temp.renumber_documents('purchase_orders', 'purchase_id', 'purchase_number', 'purchase_date', 'purchase_order');
+SELECT pg_temp.renumber_documents('payrolls', 'payroll_id', 'payroll_number', 'payroll_date', 'payroll');
+
+-- Keep the copy inside purchase_order_items in step for the screens and reports that read it
+UPDATE purchase_orders
+SET purchase_order_items = jsonb_set(purchase_order_items, '{purchase_number}', to_jsonb(purchase_number))
+WHERE jsonb_typeof(purchase_order_items) = 'object'
+  AND purchase_order_items->>'purchase_number' IS DISTINCT FROM purchase_number;
+
+ALTER TABLE invoices ALTER COLUMN invoice_number SET NOT NULL;
+ALTER TABLE quotations ALTER COLUMN quotation_number SET NOT NULL;
+ALTER TABLE purchase_orders ALTER COLUMN purchase_number SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_invoices_invoice_number ON invoices(invoice_number);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_quotations_quotation_number ON quotations(quotation_number);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_contracts_contract_number ON contracts(contract_number);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_purchase_orders_purchase_number ON purchase_orders(purchase_number);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_payrolls_payroll_number ON payrolls(payroll_number);
+
+-- ---------------------------------------------------------------------------
+-- Allocation on insert
+-- ---------------------------------------------------------------------------
+
+-- Arguments: document type, number column, date column the year is taken from.
+-- Issued numbers cannot be changed afterwards.
+CREATE OR REPLACE FUNCTION assign_document_number() RETURNS trigger AS $$
+DECLARE
+  v_type text := TG_ARGV[0];
+  v_number_column text := TG_ARGV[1];
+  v_date_column text := TG_ARGV[2];
+  v_new jsonb := to_jsonb(NEW);
+  v_old_number text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_old_number := NULLIF(btrim(to_jsonb(OLD)->>v_number_column), '');
+    IF v_old_number IS NOT NULL AND (v_new->>v_number_column) IS DISTINCT FROM v_old_number THEN
+      RAISE EXCEPTION 'Document number % cannot be changed', v_old_number;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NULLIF(btrim(v_new->>v_number_column), '') IS NULL THEN
+    NEW := jsonb_populate_record(
+      NEW,
+      jsonb_build_object(v_number_column, next_document_number(v_type, (v_new->>v_date_column)::date))
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoices_document_number ON invoices;
+CREATE TRIGGER trg_invoices_document_number
+  BEFORE INSERT OR UPDATE OF invoice_number ON invoices
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('invoice', 'invoice_number', 'invoice_date');
+
+DROP TRIGGER IF EXISTS trg_quotations_document_number ON quotations;
+CREATE TRIGGER trg_quotations_document_number
+  BEFORE INSERT OR UPDATE OF quotation_number ON quotations
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('quotation', 'quotation_number', 'created_at');
+
+DROP TRIGGER IF EXISTS trg_contracts_document_number ON contracts;
+CREATE TRIGGER trg_contracts_document_number
+  BEFORE INSERT OR UPDATE OF contract_number ON contracts
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('contract', 'contract_number', 'contract_start_date');
+
+DROP TRIGGER IF EXISTS trg_purchase_orders_document_number ON purchase_orders;
+CREATE TRIGGER trg_purchase_orders_document_number
+  BEFORE INSERT OR UPDATE OF purchase_number ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('purchase_order', 'purchase_number', 'purchase_date');
+
+DROP TRIGGER IF EXISTS trg_payrolls_document_number ON payrolls;
+CREATE TRIGGER trg_payrolls_document_number
+  BEFORE INSERT OR UPDATE OF payroll_number ON payrolls
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('payroll', 'payroll_number', 'payroll_date');
+
+-- Runs after trg_purchase_orders_document_number (triggers fire in name order)
+CREATE OR REPLACE FUNCTION purchase_orders_sync_items_number() RETURNS trigger AS $$
+BEGIN
+  IF jsonb_typeof(NEW.purchase_order_items) = 'object' THEN
+    NEW.purchase_order_items := jsonb_set(NEW.purchase_order_items, '{purchase_number}', to_jsonb(NEW.purchase_number));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_purchase_orders_sync_items_number ON purchase_orders;
+CREATE TRIGGER trg_purchase_orders_sync_items_number
+  BEFORE INSERT OR UPDATE OF purchase_order_items ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION purchase_orders_sync_items_number();
+
+-- Credit/debit notes take their number from the shared sequences
+CREATE OR REPLACE FUNCTION invoice_notes_prepare() RETURNS trigger AS $$
+DECLARE
+  inv invoices%ROWTYPE;
+  v_creditable numeric;
+BEGIN
+  SELECT * INTO inv FROM invoices WHERE invoice_id = NEW.invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', NEW.invoice_id;
+  END IF;
+
+  IF ROUND(NEW.subtotal + NEW.tax_amount, 2) <> ROUND(NEW.total_amount, 2) THEN
+    RAISE EXCEPTION 'Note total % does not equal subtotal % plus VAT %', NEW.total_amount, NEW.subtotal, NEW.tax_amount;
+  END IF;
+
+  IF NEW.note_type = 'credit' THEN
+    v_creditable := ROUND(COALESCE(inv.total_amount, 0) + inv.debited_amount - inv.credited_amount, 2);
+    IF NEW.total_amount > v_creditable THEN
+      RAISE EXCEPTION 'Credit note of % exceeds the % left to credit on this invoice', NEW.total_amount, v_creditable;
+    END IF;
+  END IF;
+
+  NEW.customer_id := inv.customer_id;
+  NEW.invoice_reference := COALESCE(NULLIF(btrim(NEW.invoice_reference), ''), inv.invoice_number);
+  NEW.note_number := next_document_number(
+    CASE NEW.note_type WHEN 'credit' THEN 'credit_note' ELSE 'debit_note' END,
+    NEW.note_date
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- General ledger references invoices by number
+-- ---------------------------------------------------------------------------
+
+-- Only the reference text changes: gl_sync_source posts differences in amounts, so existing
+-- entries are not reposted
+CREATE OR REPLACE FUNCTION gl_post_invoice(p_invoice_id uuid) RETURNS void AS $$
+DECLARE
+  inv invoices%ROWTYPE;
+  v_reference text;
+  v_total numeric;
+  v_tax numeric;
+  v_settled numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO inv FROM invoices WHERE invoice_id = p_invoice_id;
+  IF FOUND THEN
+    v_total := ROUND(COALESCE(inv.total_amount, 0), 2);
+    v_tax := ROUND(COALESCE(inv.tax_amount, 0), 2);
+    SELECT GREATEST(0, LEAST(v_total, ROUND(COALESCE(inv.paid_amount, 0), 2)) - COALESCE(SUM(paid_amount), 0))
+    INTO v_settled
+    FROM payments
+    WHERE invoice_id = p_invoice_id;
+
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'accounts_receivable', 'amount', v_total - v_settled),
+      jsonb_build_object('rule', 'cash', 'amount', v_settled),
+      jsonb_build_object('rule', 'sales_revenue', 'amount', -(v_total - v_tax)),
+      jsonb_build_object('rule', 'vat_output', 'amount', -v_tax)
+    );
+  END IF;
+
+  v_reference := COALESCE(inv.invoice_number, upper(left(p_invoice_id::text, 8)));
+  PERFORM gl_sync_source('invoice', p_invoice_id, v_reference, inv.invoice_date, 'Invoice ' || v_reference, v_lines);
+END;
+$$ LANGUAGE plpgsql;
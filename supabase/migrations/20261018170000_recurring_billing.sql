@@ -0,0 +1,82 @@
+-- Recurring billing for contracts
+-- Monthly visits and their invoices are generated by the recurring-billing edge function on a schedule
+-- instead of in whichever browser tab happened to be open. Its settings live here (they used to be the
+-- autoInvoiceEnabled / autoInvoiceTiming localStorage keys) and every run is logged with what it
+-- created or skipped and why.
+--
+-- Runs are idempotent: a visit is only created when the contract has none on that date, and an invoice
+-- points at the visit it bills (invoices.source_visit_id is unique), so running twice creates nothing
+-- new. Only one run can be in progress at a time.
+--
+-- Scheduling (hosted project, pg_cron + pg_net, with the function secret stored in Vault):
+--
+--   SELECT cron.schedule('recurring-billing', '0 3 * * *', $$
+--     SELECT net.http_post(
+--       url := 'https://<project-ref>.supabase.co/functions/v1/recurring-billing',
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'recurring_billing_cron_secret')
+--       ),
+--       body := '{}'::jsonb
+--     );
+--   $$);
+--
+-- Locally, supabase/functions/recurring-billing/local-cron.ts calls the function on an interval instead.
+
+CREATE TABLE IF NOT EXISTS recurring_billing_settings (
+  settings_id boolean PRIMARY KEY DEFAULT true CHECK (settings_id), -- Single row
+  auto_visits_enabled boolean NOT NULL DEFAULT true,
+  visit_lead_days integer NOT NULL DEFAULT 7 CHECK (visit_lead_days BETWEEN 0 AND 60), -- Create a visit this many days before it is due
+  auto_invoice_enabled boolean NOT NULL DEFAULT false,
+  auto_invoice_timing text NOT NULL DEFAULT 'visit_date' CHECK (auto_invoice_timing IN ('visit_date', '7_days_before')),
+  updated_at timestamptz,
+  updated_by uuid
+);
+
+INSERT INTO recurring_billing_settings (settings_id) VALUES (true) ON CONFLICT (settings_id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS recurring_billing_runs (
+  run_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_date date NOT NULL, -- The day the run billed for
+  trigger_source text NOT NULL CHECK (trigger_source IN ('schedule', 'manual')),
+  triggered_by uuid, -- system_users.user_id for manual runs
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  contracts_checked integer NOT NULL DEFAULT 0,
+  visits_created integer NOT NULL DEFAULT 0,
+  invoices_created integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  error text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_billing_runs_started ON recurring_billing_runs(started_at DESC);
+
+-- A second run started while one is in progress fails on this index instead of racing it
+CREATE UNIQUE INDEX IF NOT EXISTS uq_recurring_billing_runs_running
+  ON recurring_billing_runs ((true)) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS recurring_billing_run_items (
+  item_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES recurring_billing_runs(run_id) ON DELETE CASCADE,
+  contract_id uuid REFERENCES contracts(contract_id) ON DELETE SET NULL,
+  contract_number text, -- As it was when the run logged the item
+  item_type text NOT NULL CHECK (item_type IN ('visit', 'invoice')),
+  outcome text NOT NULL CHECK (outcome IN ('created', 'skipped', 'failed')),
+  target_date date, -- Visit date, or invoice date for invoices
+  visit_id uuid,
+  invoice_id uuid,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_billing_run_items_run ON recurring_billing_run_items(run_id);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS source_visit_id uuid REFERENCES monthly_visits(visit_id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_invoices_source_visit
+  ON invoices(source_visit_id) WHERE source_visit_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_monthly_visits_contract_date ON monthly_visits(contract_id, visit_date);
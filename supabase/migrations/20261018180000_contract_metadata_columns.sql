@@ -0,0 +1,230 @@
+-- Contract metadata in columns
+-- The contracts screen used to keep the client details, plan amounts, devices, lifecycle dates, the
+-- history log and the auto-visit flag as a JSON document in contracts.notes. They move to typed
+-- columns here, devices to contract_devices and the history log to contract_history, and notes goes
+-- back to holding only the free-text note. Keys the screen no longer reads are kept in
+-- legacy_metadata rather than dropped.
+--
+-- Rows written in the old format after this migration (a browser still running the previous build)
+-- are read through the compatibility reader in src/lib/contractRecords.ts.
+
+ALTER TABLE contracts
+  ADD COLUMN IF NOT EXISTS client_name text,
+  ADD COLUMN IF NOT EXISTS client_cr text,
+  ADD COLUMN IF NOT EXISTS client_city text,
+  ADD COLUMN IF NOT EXISTS client_representative text,
+  ADD COLUMN IF NOT EXISTS client_designation text,
+  ADD COLUMN IF NOT EXISTS client_phone text,
+  ADD COLUMN IF NOT EXISTS client_email text,
+  ADD COLUMN IF NOT EXISTS postal_code text,
+  ADD COLUMN IF NOT EXISTS payment_plan text NOT NULL DEFAULT 'monthly'
+    CHECK (payment_plan IN ('monthly', 'semi-annual', 'annual')),
+  ADD COLUMN IF NOT EXISTS monthly_amount numeric(14, 2) NOT NULL DEFAULT 0 CHECK (monthly_amount >= 0),
+  ADD COLUMN IF NOT EXISTS semi_annual_amount numeric(14, 2) NOT NULL DEFAULT 0 CHECK (semi_annual_amount >= 0),
+  ADD COLUMN IF NOT EXISTS annual_amount numeric(14, 2) NOT NULL DEFAULT 0 CHECK (annual_amount >= 0),
+  ADD COLUMN IF NOT EXISTS emergency_visit_fee numeric(14, 2) NOT NULL DEFAULT 500 CHECK (emergency_visit_fee >= 0),
+  ADD COLUMN IF NOT EXISTS monthly_visit_start_date date,
+  ADD COLUMN IF NOT EXISTS auto_monthly_visits_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS sent_date date,
+  ADD COLUMN IF NOT EXISTS signed_date date,
+  ADD COLUMN IF NOT EXISTS attached_date date,
+  ADD COLUMN IF NOT EXISTS attached_file_id uuid, -- file_metadata.id of the signed copy
+  ADD COLUMN IF NOT EXISTS attached_file_name text,
+  ADD COLUMN IF NOT EXISTS attached_file_url text,
+  ADD COLUMN IF NOT EXISTS suspended_date date,
+  ADD COLUMN IF NOT EXISTS suspension_reason text,
+  ADD COLUMN IF NOT EXISTS cancelled_date date,
+  ADD COLUMN IF NOT EXISTS cancellation_reason text,
+  ADD COLUMN IF NOT EXISTS reactivated_date date,
+  ADD COLUMN IF NOT EXISTS legacy_metadata jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_payment_plan ON contracts(payment_plan);
+CREATE INDEX IF NOT EXISTS idx_contracts_client_city ON contracts(client_city);
+
+CREATE TABLE IF NOT EXISTS contract_devices (
+  device_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+  device_type text NOT NULL CHECK (btrim(device_type) <> ''),
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_devices_contract ON contract_devices(contract_id);
+
+CREATE TABLE IF NOT EXISTS contract_history (
+  history_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+  action text NOT NULL, -- Created, Edited, Sent, Signed, Attached, Suspended, Cancelled, Reactivated
+  description text NOT NULL DEFAULT '',
+  details text,
+  user_name text, -- Display name at the time of the action
+  user_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_history_contract ON contract_history(contract_id, created_at);
+
+-- ---------------------------------------------------------------------------
+-- Move the JSON kept in notes
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION pg_temp.try_jsonb_object(value text) RETURNS jsonb AS $$
+BEGIN
+  IF value IS NULL OR left(btrim(value), 1) <> '{' THEN
+    RETURN NULL;
+  END IF;
+  RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.try_date(value text) RETURNS date AS $$
+BEGIN
+  RETURN NULLIF(btrim(value), '')::date;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.try_numeric(value text) RETURNS numeric AS $$
+BEGIN
+  RETURN GREATEST(0, NULLIF(btrim(value), '')::numeric);
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.try_timestamptz(value text) RETURNS timestamptz AS $$
+BEGIN
+  RETURN NULLIF(btrim(value), '')::timestamptz;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Text value of a JSON key, null when missing, blank or not a scalar
+CREATE OR REPLACE FUNCTION pg_temp.json_text(data jsonb, key text) RETURNS text AS $$
+  SELECT CASE WHEN jsonb_typeof(data -> key) IN ('string', 'number', 'boolean')
+    THEN NULLIF(btrim(data ->> key), '') END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Device lines from the old free-text pair, e.g. deviceTypes "Pro: 2, Ultra: 3" with devicesCount "5".
+-- Must match parseLegacyDevices() in src/lib/contractRecords.ts.
+CREATE OR REPLACE FUNCTION pg_temp.legacy_devices(device_types text, devices_count text)
+RETURNS TABLE (device_type text, quantity integer, sort_order integer) AS $$
+DECLARE
+  parts text[];
+  total integer;
+BEGIN
+  total := NULLIF(substring(coalesce(devices_count, '') FROM '\d+'), '')::integer;
+  parts := ARRAY(
+    SELECT btrim(part)
+    FROM regexp_split_to_table(coalesce(device_types, ''), '[,،\n]') AS part
+    WHERE btrim(part) <> ''
+  );
+
+  IF cardinality(parts) = 0 THEN
+    IF coalesce(total, 0) > 0 THEN
+      RETURN QUERY SELECT 'Unspecified'::text, total, 0;
+    END IF;
+    RETURN;
+  END IF;
+
+  -- Every part names its own quantity ("Pro: 2")
+  IF (SELECT bool_and(p ~ '^.+?\s*:\s*\d+$') FROM unnest(parts) AS p) THEN
+    RETURN QUERY
+      SELECT btrim(substring(p FROM '^(.+?)\s*:\s*\d+$')), GREATEST(1, substring(p FROM '(\d+)$')::integer), (ord - 1)::integer
+      FROM unnest(parts) WITH ORDINALITY AS t(p, ord);
+    RETURN;
+  END IF;
+
+  IF cardinality(parts) = 1 THEN
+    RETURN QUERY SELECT parts[1], GREATEST(1, coalesce(total, 1)), 0;
+    RETURN;
+  END IF;
+
+  -- Several types without a split of the count: keep the text as one line so nothing is invented
+  RETURN QUERY SELECT btrim(device_types), GREATEST(1, coalesce(total, cardinality(parts))), 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE TEMP TABLE legacy_contract_notes AS
+SELECT contract_id, created_at, pg_temp.try_jsonb_object(notes) AS data
+FROM contracts
+WHERE pg_temp.try_jsonb_object(notes) IS NOT NULL;
+
+INSERT INTO contract_devices (contract_id, device_type, quantity, sort_order)
+SELECT l.contract_id, d.device_type, d.quantity, d.sort_order
+FROM legacy_contract_notes l
+CROSS JOIN LATERAL pg_temp.legacy_devices(pg_temp.json_text(l.data, 'deviceTypes'), pg_temp.json_text(l.data, 'devicesCount')) AS d
+WHERE NOT EXISTS (SELECT 1 FROM contract_devices cd WHERE cd.contract_id = l.contract_id);
+
+INSERT INTO contract_history (contract_id, action, description, details, user_name, created_at)
+SELECT
+  l.contract_id,
+  coalesce(pg_temp.json_text(entry, 'action'), 'Edited'),
+  coalesce(pg_temp.json_text(entry, 'description'), ''),
+  pg_temp.json_text(entry, 'details'),
+  pg_temp.json_text(entry, 'user'),
+  coalesce(pg_temp.try_timestamptz(pg_temp.json_text(entry, 'timestamp')), l.created_at, now())
+FROM legacy_contract_notes l
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(l.data -> 'historyLog') = 'array' THEN l.data -> 'historyLog' ELSE '[]'::jsonb END
+) AS entry
+WHERE jsonb_typeof(entry) = 'object'
+  AND NOT EXISTS (SELECT 1 FROM contract_history ch WHERE ch.contract_id = l.contract_id);
+
+UPDATE contracts c
+SET
+  client_name = pg_temp.json_text(l.data, 'clientName'),
+  client_cr = pg_temp.json_text(l.data, 'clientCr'),
+  client_city = pg_temp.json_text(l.data, 'clientCity'),
+  client_representative = pg_temp.json_text(l.data, 'clientRepresentative'),
+  client_designation = pg_temp.json_text(l.data, 'clientDesignation'),
+  client_phone = pg_temp.json_text(l.data, 'clientPhone'),
+  client_email = pg_temp.json_text(l.data, 'clientEmail'),
+  postal_code = pg_temp.json_text(l.data, 'postalCode'),
+  payment_plan = CASE WHEN l.data ->> 'paymentPlan' IN ('semi-annual', 'annual') THEN l.data ->> 'paymentPlan' ELSE 'monthly' END,
+  monthly_amount = coalesce(pg_temp.try_numeric(pg_temp.json_text(l.data, 'monthlyAmount')), 0),
+  semi_annual_amount = coalesce(pg_temp.try_numeric(pg_temp.json_text(l.data, 'semiAnnualAmount')), 0),
+  annual_amount = coalesce(pg_temp.try_numeric(pg_temp.json_text(l.data, 'annualAmount')), 0),
+  emergency_visit_fee = coalesce(pg_temp.try_numeric(pg_temp.json_text(l.data, 'emergencyVisitFee')), 500),
+  monthly_visit_start_date = pg_temp.try_date(pg_temp.json_text(l.data, 'monthlyVisitStartDate')),
+  auto_monthly_visits_enabled = coalesce(l.data -> 'autoMonthlyVisitsEnabled' <> 'false'::jsonb, true),
+  sent_date = pg_temp.try_date(pg_temp.json_text(l.data, 'sentDate')),
+  signed_date = pg_temp.try_date(pg_temp.json_text(l.data, 'signedDate')),
+  attached_date = pg_temp.try_date(pg_temp.json_text(l.data, 'attachedDate')),
+  attached_file_id = CASE
+    WHEN pg_temp.json_text(l.data, 'attachedFileId') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN (l.data ->> 'attachedFileId')::uuid
+  END,
+  attached_file_name = pg_temp.json_text(l.data, 'attachedFileName'),
+  attached_file_url = pg_temp.json_text(l.data, 'attachedFileUrl'),
+  suspended_date = pg_temp.try_date(pg_temp.json_text(l.data, 'suspendedDate')),
+  suspension_reason = pg_temp.json_text(l.data, 'suspensionReason'),
+  cancelled_date = pg_temp.try_date(pg_temp.json_text(l.data, 'cancelledDate')),
+  cancellation_reason = pg_temp.json_text(l.data, 'cancellationReason'),
+  reactivated_date = pg_temp.try_date(pg_temp.json_text(l.data, 'reactivatedDate')),
+  location = coalesce(c.location, pg_temp.json_text(l.data, 'serviceAddress')),
+  -- The delegate picked on the form was only kept in the JSON
+  delegate_id = coalesce(c.delegate_id, d.delegate_id),
+  notes = CASE WHEN jsonb_typeof(l.data -> 'notes') = 'string' THEN NULLIF(btrim(l.data ->> 'notes'), '') END,
+  legacy_metadata = NULLIF(
+    l.data - ARRAY[
+      'clientName', 'clientCr', 'clientCity', 'clientRepresentative', 'clientDesignation', 'clientPhone',
+      'clientEmail', 'postalCode', 'paymentPlan', 'monthlyAmount', 'semiAnnualAmount', 'annualAmount',
+      'emergencyVisitFee', 'monthlyVisitStartDate', 'autoMonthlyVisitsEnabled', 'sentDate', 'signedDate',
+      'attachedDate', 'attachedFileId', 'attachedFileName', 'attachedFileUrl', 'suspendedDate',
+      'suspensionReason', 'cancelledDate', 'cancellationReason', 'reactivatedDate', 'serviceAddress',
+      'assignedDelegateId', 'assignedDelegateName', 'deviceTypes', 'devicesCount', 'historyLog', 'notes'
+    ],
+    '{}'::jsonb
+  )
+FROM legacy_contract_notes l
+LEFT JOIN delegates d
+  ON d.delegate_id::text = pg_temp.json_text(l.data, 'assignedDelegateId')
+WHERE c.contract_id = l.contract_id;
+
+DROP TABLE legacy_contract_notes;
@@ -0,0 +1,41 @@
+-- Contract lifecycle: expiry and renewals
+-- The daily recurring-billing run now also moves contracts through their lifecycle before it bills:
+--   * contracts past contract_end_date are set to 'expired', so no further visits or invoices are made
+--   * active contracts ending within renewal_notice_days are flagged as upcoming renewals and, depending
+--     on renewal_offer_type, get a draft renewal contract or a renewal quotation, with the prices raised
+--     by renewal_escalation_percent
+--   * a flagged contract is marked renewed once its renewal contract is signed or active
+-- renewal_status drives the renewal pipeline on the contracts screen: upcoming -> offered -> renewed,
+-- or lapsed when the contract expired without a renewal.
+
+ALTER TABLE recurring_billing_settings
+  ADD COLUMN IF NOT EXISTS renewal_notice_days integer NOT NULL DEFAULT 30 CHECK (renewal_notice_days BETWEEN 0 AND 180),
+  ADD COLUMN IF NOT EXISTS renewal_offer_type text NOT NULL DEFAULT 'none'
+    CHECK (renewal_offer_type IN ('none', 'contract', 'quotation')),
+  ADD COLUMN IF NOT EXISTS renewal_escalation_percent numeric(5, 2) NOT NULL DEFAULT 0
+    CHECK (renewal_escalation_percent BETWEEN 0 AND 100);
+
+ALTER TABLE contracts
+  ADD COLUMN IF NOT EXISTS renewal_status text CHECK (renewal_status IN ('upcoming', 'offered', 'renewed', 'lapsed')),
+  ADD COLUMN IF NOT EXISTS renewal_offered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS renewal_contract_id uuid REFERENCES contracts(contract_id) ON DELETE SET NULL, -- Draft renewal offered for this contract
+  ADD COLUMN IF NOT EXISTS renewal_quotation_id uuid REFERENCES quotations(quotation_id) ON DELETE SET NULL, -- Renewal quotation offered for this contract
+  ADD COLUMN IF NOT EXISTS renewed_from_contract_id uuid REFERENCES contracts(contract_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS expired_date date;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_end_date ON contracts(contract_end_date) WHERE contract_end_date IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_contracts_renewal_status ON contracts(renewal_status) WHERE renewal_status IS NOT NULL;
+
+-- A contract is offered at most one renewal contract
+CREATE UNIQUE INDEX IF NOT EXISTS uq_contracts_renewed_from
+  ON contracts(renewed_from_contract_id) WHERE renewed_from_contract_id IS NOT NULL;
+
+ALTER TABLE recurring_billing_runs
+  ADD COLUMN IF NOT EXISTS contracts_expired integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS renewals_offered integer NOT NULL DEFAULT 0;
+
+ALTER TABLE recurring_billing_run_items DROP CONSTRAINT IF EXISTS recurring_billing_run_items_item_type_check;
+ALTER TABLE recurring_billing_run_items
+  ADD CONSTRAINT recurring_billing_run_items_item_type_check
+  CHECK (item_type IN ('visit', 'invoice', 'expiry', 'renewal'));
+
@@ -0,0 +1,38 @@
+-- Customer e-signatures for contracts and quotations
+-- Staff create a signing link for the rendered document (document-signing edge function, "create").
+-- The link carries a random token; only its SHA-256 is stored here, with the exact HTML the customer
+-- will see and the SHA-256 of that HTML. The public /sign/<token> page shows the document, and the
+-- customer types their name, draws a signature and accepts. The function then records the signature
+-- image, IP address, user agent and time, checks the document hash is unchanged and, for contracts,
+-- moves the contract to 'signed'. The signed copy is archived as a contract_file (signed_file_id).
+--
+-- Creating a new link for a document revokes its pending links; links expire after expires_at.
+
+CREATE TABLE IF NOT EXISTS document_signature_requests (
+  request_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type text NOT NULL CHECK (document_type IN ('contract', 'quotation')),
+  document_id uuid NOT NULL, -- contracts.contract_id or quotations.quotation_id
+  document_number text NOT NULL, -- As it was when the link was made
+  document_html text NOT NULL, -- Exactly what the customer is shown and signs
+  document_hash text NOT NULL, -- SHA-256 (hex) of document_html
+  token_hash text NOT NULL UNIQUE, -- SHA-256 (hex) of the link token; the token itself is not stored
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed', 'expired', 'revoked')),
+  expires_at timestamptz NOT NULL,
+  created_by uuid, -- system_users.user_id
+  created_at timestamptz NOT NULL DEFAULT now(),
+  viewed_at timestamptz, -- First time the link was opened
+  signer_name text,
+  signature_image text, -- PNG data URL of the drawn signature
+  signer_ip text,
+  signer_user_agent text,
+  signed_at timestamptz,
+  signed_file_id uuid, -- file_metadata.id of the archived signed copy
+  CHECK (status <> 'signed' OR (signer_name IS NOT NULL AND signature_image IS NOT NULL AND signed_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_signature_requests_document
+  ON document_signature_requests(document_type, document_id, created_at DESC);
+
+-- At most one open link per document
+CREATE UNIQUE INDEX IF NOT EXISTS uq_document_signature_requests_pending
+  ON document_signature_requests(document_type, document_id) WHERE status = 'pending';
@@ -0,0 +1,17 @@
+-- Server-side PDFs of printable documents
+-- The render-pdf edge function renders invoices, quotations, contracts, payment receipts and customer
+-- statements to PDF and keeps each one in this private bucket, recorded in file_metadata with the
+-- category 'document_pdf' and the document as owner. Signed copies of e-signed documents are rendered the
+-- same way and kept with the contract files (contracts bucket).
+-- Same settings as BUCKET_CONFIGS in src/lib/storageBucketSetup.ts.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('documents', 'Document PDFs', false, 20971520, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE
+SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE INDEX IF NOT EXISTS idx_file_metadata_document_pdfs
+  ON file_metadata(owner_id, created_at DESC) WHERE category = 'document_pdf';
@@ -0,0 +1,76 @@
+-- Quotation lifecycle: statuses, revisions and conversion
+--   * quotation_status replaces the free-text quotation_summary (sent / pending / cancelled):
+--     draft -> sent -> accepted | rejected, or expired once valid_until has passed
+--   * valid_until is the issue date plus quotation_validity days; the daily recurring-billing run
+--     expires open quotations past it
+--   * revising a quotation keeps the previous content in quotation_versions and bumps quotation_version
+--   * a quotation converted to an invoice or a contract is accepted and linked both ways
+--     (converted_invoice_id / converted_contract_id, and source_quotation_id on the new document)
+--   * delegate_id credits the quotation to a sales delegate for the win-rate report
+
+ALTER TABLE quotations
+  ADD COLUMN IF NOT EXISTS quotation_status text NOT NULL DEFAULT 'draft'
+    CHECK (quotation_status IN ('draft', 'sent', 'accepted', 'rejected', 'expired')),
+  ADD COLUMN IF NOT EXISTS quotation_version integer NOT NULL DEFAULT 1 CHECK (quotation_version >= 1),
+  ADD COLUMN IF NOT EXISTS valid_until date,
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delegate_id uuid REFERENCES delegates(delegate_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS converted_invoice_id uuid REFERENCES invoices(invoice_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS converted_contract_id uuid REFERENCES contracts(contract_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS converted_at timestamptz;
+
+-- Existing quotations keep their status; cancelled ones count as rejected
+UPDATE quotations
+SET quotation_status = CASE quotation_summary
+    WHEN 'sent' THEN 'sent'
+    WHEN 'cancelled' THEN 'rejected'
+    ELSE 'draft'
+  END
+WHERE quotation_summary IS NOT NULL;
+
+UPDATE quotations
+SET valid_until = COALESCE(created_at, now())::date + COALESCE(quotation_validity, 30)
+WHERE valid_until IS NULL;
+
+UPDATE quotations
+SET quotation_status = 'expired', status_changed_at = now()
+WHERE quotation_status IN ('draft', 'sent') AND valid_until < current_date;
+
+-- Quotations inserted without valid_until (e.g. renewal quotations) are valid from their issue date
+CREATE OR REPLACE FUNCTION set_quotation_valid_until() RETURNS trigger AS $$
+BEGIN
+  IF NEW.valid_until IS NULL THEN
+    NEW.valid_until := COALESCE(NEW.created_at, now())::date + COALESCE(NEW.quotation_validity, 30);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_quotations_valid_until ON quotations;
+CREATE TRIGGER trg_quotations_valid_until
+  BEFORE INSERT ON quotations
+  FOR EACH ROW EXECUTE FUNCTION set_quotation_valid_until();
+
+CREATE INDEX IF NOT EXISTS idx_quotations_status ON quotations(quotation_status, valid_until);
+CREATE INDEX IF NOT EXISTS idx_quotations_delegate ON quotations(delegate_id) WHERE delegate_id IS NOT NULL;
+
+-- Earlier versions of a quotation, as they were before each revision
+CREATE TABLE IF NOT EXISTS quotation_versions (
+  version_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES quotations(quotation_id) ON DELETE CASCADE,
+  quotation_version integer NOT NULL CHECK (quotation_version >= 1),
+  snapshot jsonb NOT NULL, -- Customer, items, discount, VAT, validity and notes of that version
+  change_summary text, -- Why the quotation was revised
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (quotation_id, quotation_version)
+);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS source_quotation_id uuid REFERENCES quotations(quotation_id) ON DELETE SET NULL;
+
+ALTER TABLE contracts
+  ADD COLUMN IF NOT EXISTS source_quotation_id uuid REFERENCES quotations(quotation_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_source_quotation ON invoices(source_quotation_id) WHERE source_quotation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_contracts_source_quotation ON contracts(source_quotation_id) WHERE source_quotation_id IS NOT NULL;
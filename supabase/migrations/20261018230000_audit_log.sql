@@ -0,0 +1,163 @@
+-- Audit log: one row for every insert, update and delete on the audited tables, written by a trigger
+--   * actor_id is the system user whose session token came with the request (x-session-token, checked
+--     against the same AUTH_TOKEN_SECRET the edge functions sign it with). It is null when there is no
+--     valid session: edge functions using the service role, the recurring-billing run, the SQL editor
+--   * old_data / new_data hold the whole row before / after; changed_fields lists the columns an update
+--     changed. Updates that only touch updated_at / updated_by are not logged
+--   * row_label is the record's human reference at the time (invoice number, customer name, ...)
+--   * the log is append-only for API clients; only the trigger writes to it
+--
+-- The secret is read from Vault; store it once per project:
+--   select vault.create_secret('<AUTH_TOKEN_SECRET>', 'auth_token_secret');
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  audit_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  row_id text NOT NULL, -- Primary key of the changed row, as text (inventory is keyed by product code)
+  row_label text, -- Invoice number, customer name, ... when the table has one
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id uuid, -- system_users.user_id, null for system changes
+  actor_name text, -- Display name at the time of the change
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_row ON audit_log(table_name, row_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id, created_at DESC) WHERE actor_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+
+REVOKE INSERT, UPDATE, DELETE ON audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION audit_base64url_decode(value text) RETURNS bytea AS $$
+  SELECT decode(rpad(translate(value, '-_', '+/'), (ceil(length(value) / 4.0) * 4)::int, '='), 'base64');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The system user of the current API request, from its x-session-token header (an HS256 JWT issued by
+-- auth-login). Null when the header is missing, the signature or scope is wrong or the token expired.
+CREATE OR REPLACE FUNCTION audit_request_actor() RETURNS uuid AS $$
+DECLARE
+  token text;
+  parts text[];
+  secret text;
+  payload jsonb;
+BEGIN
+  token := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-session-token';
+  IF token IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  parts := string_to_array(token, '.');
+  IF array_length(parts, 1) <> 3 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT decrypted_secret INTO secret FROM vault.decrypted_secrets WHERE name = 'auth_token_secret';
+  IF secret IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF rtrim(translate(encode(hmac(parts[1] || '.' || parts[2], secret, 'sha256'), 'base64'), '+/', '-_'), '=') <> parts[3] THEN
+    RETURN NULL;
+  END IF;
+
+  payload := convert_from(audit_base64url_decode(parts[2]), 'UTF8')::jsonb;
+  IF coalesce(payload ->> 'scope', 'session') <> 'session' OR (payload ->> 'exp')::bigint <= extract(epoch FROM now()) THEN
+    RETURN NULL;
+  END IF;
+  RETURN (payload ->> 'sub')::uuid;
+EXCEPTION WHEN others THEN
+  -- A malformed token must not block the write it came with
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Trigger arguments: primary key column, then optionally the column used as row_label
+CREATE OR REPLACE FUNCTION audit_row_change() RETURNS trigger AS $$
+DECLARE
+  hidden_columns text[] := ARRAY['password_hash', 'totp_secret', 'totp_recovery_codes'];
+  old_row jsonb;
+  new_row jsonb;
+  changed text[];
+  actor uuid;
+  actor_label text;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - hidden_columns;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - hidden_columns;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(entry.key ORDER BY entry.key) INTO changed
+    FROM jsonb_each(new_row) AS entry
+    WHERE entry.key NOT IN ('updated_at', 'updated_by')
+      AND (old_row -> entry.key) IS DISTINCT FROM entry.value;
+
+    IF changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  actor := audit_request_actor();
+  IF actor IS NOT NULL THEN
+    SELECT coalesce(nullif(full_name, ''), email) INTO actor_label FROM system_users WHERE user_id = actor;
+  END IF;
+
+  INSERT INTO audit_log (table_name, row_id, row_label, action, actor_id, actor_name, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    coalesce(new_row, old_row) ->> TG_ARGV[0],
+    CASE WHEN TG_NARGS > 1 THEN coalesce(new_row, old_row) ->> TG_ARGV[1] END,
+    lower(TG_OP),
+    actor,
+    actor_label,
+    old_row,
+    new_row,
+    changed
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DO $$
+DECLARE
+  audited record;
+BEGIN
+  FOR audited IN
+    SELECT * FROM (VALUES
+      ('customers', 'customer_id', 'customer_name'),
+      ('leads', 'lead_id', 'company_name'),
+      ('delegates', 'delegate_id', 'delegate_name'),
+      ('quotations', 'quotation_id', 'quotation_number'),
+      ('contracts', 'contract_id', 'contract_number'),
+      ('invoices', 'invoice_id', 'invoice_number'),
+      ('invoice_notes', 'note_id', NULL),
+      ('payments', 'payment_id', NULL),
+      ('monthly_visits', 'visit_id', NULL),
+      ('employees', 'employee_id', 'name_en'),
+      ('payrolls', 'payroll_id', NULL),
+      ('leaves', 'leave_id', NULL),
+      ('expenses', 'expense_id', NULL),
+      ('suppliers', 'supplier_id', 'supplier_en_name'),
+      ('purchase_orders', 'purchase_id', 'purchase_number'),
+      ('inventory', 'product_code', 'en_prod_name'),
+      ('platform_orders', 'order_id', 'order_platform_reference'),
+      ('roles', 'role_id', 'role_name')
+    ) AS audited_tables(table_name, id_column, label_column)
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_audit ON %I', audited.table_name, audited.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER trg_%s_audit AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_row_change(%L%s)',
+      audited.table_name,
+      audited.table_name,
+      audited.id_column,
+      CASE WHEN audited.label_column IS NULL THEN '' ELSE format(', %L', audited.label_column) END
+    );
+  END LOOP;
+END;
+$$;
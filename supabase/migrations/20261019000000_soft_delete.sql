@@ -0,0 +1,207 @@
+-- Soft delete for customers, contracts, invoices and employees
+--   * deleting one of these sets deleted_at; deleted_by is filled from the request's session token
+--     (see audit_request_actor in the audit_log migration). The app hides these rows and lists them in
+--     the Recycle Bin, where they can be restored
+--   * purge_deleted_record removes a soft-deleted row for good, and refuses while other records still
+--     depend on it (an invoice with payments, a customer with contracts, ...)
+--   * settled invoices (payments or credit/debit notes) still cannot be deleted at all
+--   * a deleted invoice is reversed out of the general ledger and reposted when restored; its stock
+--     movements are reversed and reposted by the app (src/lib/recycleBin.ts), which resolves invoice
+--     lines to stock items
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid;
+
+ALTER TABLE contracts
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid;
+
+ALTER TABLE employees
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid;
+
+CREATE INDEX IF NOT EXISTS idx_customers_deleted ON customers(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_contracts_deleted ON contracts(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoices_deleted ON invoices(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_employees_deleted ON employees(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_deleted_by() RETURNS trigger AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL THEN
+    NEW.deleted_by := NULL;
+  ELSIF OLD.deleted_at IS NULL THEN
+    NEW.deleted_by := audit_request_actor();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  soft_delete_table text;
+BEGIN
+  FOREACH soft_delete_table IN ARRAY ARRAY['customers', 'contracts', 'invoices', 'employees'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_deleted_by ON %I', soft_delete_table, soft_delete_table);
+    EXECUTE format(
+      'CREATE TRIGGER trg_%s_deleted_by BEFORE UPDATE OF deleted_at ON %I FOR EACH ROW EXECUTE FUNCTION set_deleted_by()',
+      soft_delete_table,
+      soft_delete_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Moving a settled invoice to the recycle bin is blocked like deleting it
+CREATE OR REPLACE FUNCTION invoices_block_locked_changes() RETURNS trigger AS $$
+BEGIN
+  IF NOT invoice_is_locked(OLD.invoice_id, OLD.paid_amount) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Invoice % has payments or credit/debit notes and cannot be deleted; issue a credit note instead',
+      upper(left(OLD.invoice_id::text, 8));
+  END IF;
+
+  -- Payment status, paid/credited/debited amounts, due date and branding may still change
+  IF (NEW.customer_id, NEW.invoice_date, NEW.invoice_items, NEW.subtotal, NEW.tax_amount, NEW.tax_rate,
+      NEW.total_amount, NEW.vat_enabled, NEW.discount_type, NEW.discount_amount)
+     IS DISTINCT FROM
+     (OLD.customer_id, OLD.invoice_date, OLD.invoice_items, OLD.subtotal, OLD.tax_amount, OLD.tax_rate,
+      OLD.total_amount, OLD.vat_enabled, OLD.discount_type, OLD.discount_amount) THEN
+    RAISE EXCEPTION 'Invoice % has payments or credit/debit notes and cannot be edited; issue a credit or debit note instead',
+      upper(left(OLD.invoice_id::text, 8));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Permanently delete a record that is in the recycle bin. Dependent records are checked here rather
+-- than left to foreign keys so the user gets a message saying what still uses the record.
+CREATE OR REPLACE FUNCTION purge_deleted_record(p_table text, p_id uuid) RETURNS void AS $$
+DECLARE
+  v_id_column text;
+  v_deleted_at timestamptz;
+BEGIN
+  v_id_column := CASE p_table
+    WHEN 'customers' THEN 'customer_id'
+    WHEN 'contracts' THEN 'contract_id'
+    WHEN 'invoices' THEN 'invoice_id'
+    WHEN 'employees' THEN 'employee_id'
+  END;
+  IF v_id_column IS NULL THEN
+    RAISE EXCEPTION 'Records of % cannot be purged', p_table;
+  END IF;
+
+  EXECUTE format('SELECT deleted_at FROM %I WHERE %I = $1 FOR UPDATE', p_table, v_id_column)
+    INTO v_deleted_at
+    USING p_id;
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Only records in the recycle bin can be purged';
+  END IF;
+
+  CASE p_table
+    WHEN 'invoices' THEN
+      IF EXISTS (SELECT 1 FROM payments WHERE invoice_id = p_id) THEN
+        RAISE EXCEPTION 'This invoice has payments and cannot be purged';
+      END IF;
+      IF EXISTS (SELECT 1 FROM invoice_notes WHERE invoice_id = p_id) THEN
+        RAISE EXCEPTION 'This invoice has credit/debit notes and cannot be purged';
+      END IF;
+      DELETE FROM invoices WHERE invoice_id = p_id;
+
+    WHEN 'contracts' THEN
+      IF EXISTS (SELECT 1 FROM invoices WHERE contract_id = p_id) THEN
+        RAISE EXCEPTION 'This contract has invoices (including ones in the recycle bin) and cannot be purged';
+      END IF;
+      IF EXISTS (SELECT 1 FROM monthly_visits WHERE contract_id = p_id AND lower(status) = 'completed') THEN
+        RAISE EXCEPTION 'This contract has completed visits and cannot be purged';
+      END IF;
+      DELETE FROM monthly_visits WHERE contract_id = p_id;
+      DELETE FROM contracts WHERE contract_id = p_id;
+
+    WHEN 'customers' THEN
+      IF EXISTS (SELECT 1 FROM contracts WHERE customer_id = p_id) THEN
+        RAISE EXCEPTION 'This customer has contracts (including ones in the recycle bin) and cannot be purged';
+      END IF;
+      IF EXISTS (SELECT 1 FROM invoices WHERE customer_id = p_id) THEN
+        RAISE EXCEPTION 'This customer has invoices (including ones in the recycle bin) and cannot be purged';
+      END IF;
+      IF EXISTS (SELECT 1 FROM quotations WHERE customer_id = p_id) THEN
+        RAISE EXCEPTION 'This customer has quotations and cannot be purged';
+      END IF;
+      DELETE FROM customers WHERE customer_id = p_id;
+
+    WHEN 'employees' THEN
+      -- The employee's own HR records go with it; login accounts are kept and unlinked
+      DELETE FROM employee_attendance WHERE employee_id = p_id;
+      DELETE FROM employee_requests WHERE employee_id = p_id;
+      DELETE FROM employee_custody_items WHERE employee_id = p_id;
+      DELETE FROM expenses_management WHERE employee_id = p_id;
+      DELETE FROM leaves WHERE employee_id = p_id;
+      UPDATE system_users SET employee_id = NULL WHERE employee_id = p_id;
+      DELETE FROM employees WHERE employee_id = p_id;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Invoices in the recycle bin leave the general ledger
+-- ---------------------------------------------------------------------------
+
+-- A deleted invoice posts no lines, so gl_sync_source reverses what it had posted and the ledger agrees
+-- with the VAT return (which skips deleted invoices); restoring it posts the lines again
+CREATE OR REPLACE FUNCTION gl_post_invoice(p_invoice_id uuid) RETURNS void AS $$
+DECLARE
+  inv invoices%ROWTYPE;
+  v_reference text;
+  v_total numeric;
+  v_tax numeric;
+  v_settled numeric;
+  v_lines jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO inv FROM invoices WHERE invoice_id = p_invoice_id;
+  IF FOUND AND inv.deleted_at IS NULL THEN
+    v_total := ROUND(COALESCE(inv.total_amount, 0), 2);
+    v_tax := ROUND(COALESCE(inv.tax_amount, 0), 2);
+    SELECT GREATEST(0, LEAST(v_total, ROUND(COALESCE(inv.paid_amount, 0), 2)) - COALESCE(SUM(paid_amount), 0))
+    INTO v_settled
+    FROM payments
+    WHERE invoice_id = p_invoice_id;
+
+    v_lines := jsonb_build_array(
+      jsonb_build_object('rule', 'accounts_receivable', 'amount', v_total - v_settled),
+      jsonb_build_object('rule', 'cash', 'amount', v_settled),
+      jsonb_build_object('rule', 'sales_revenue', 'amount', -(v_total - v_tax)),
+      jsonb_build_object('rule', 'vat_output', 'amount', -v_tax)
+    );
+  END IF;
+
+  v_reference := COALESCE(inv.invoice_number, upper(left(p_invoice_id::text, 8)));
+  PERFORM gl_sync_source('invoice', p_invoice_id, v_reference, inv.invoice_date, 'Invoice ' || v_reference, v_lines);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Posting only ever appends the difference, so this is a no-op when trg_invoices_gl_post has already
+-- synced the same update; it keeps bin moves posting even if that trigger is narrowed to other columns
+CREATE OR REPLACE FUNCTION invoices_gl_sync_deleted() RETURNS trigger AS $$
+BEGIN
+  PERFORM gl_post_invoice(NEW.invoice_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_invoices_gl_sync_deleted ON invoices;
+CREATE TRIGGER trg_invoices_gl_sync_deleted
+  AFTER UPDATE OF deleted_at ON invoices
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION invoices_gl_sync_deleted();
+
+-- Invoices already in the recycle bin
+SELECT gl_post_invoice(invoice_id) FROM invoices WHERE deleted_at IS NOT NULL;
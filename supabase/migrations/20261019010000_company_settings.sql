@@ -0,0 +1,36 @@
+-- Company settings in the database
+-- The VAT number, commercial registration and city/postal code were kept in each browser's
+-- localStorage (companyTaxNumber, companyCommercialReg, companyCityPostal), as were the WPS
+-- establishment number and payroll IBAN, so documents printed on different machines could carry
+-- different legal details. They become columns of company_branding here.
+--
+-- Values saved locally by older builds are copied into the row the first time a browser that has
+-- them loads the settings, and only into columns that are still empty (see src/lib/companySettings.ts).
+--
+-- company_branding and system_settings are added to the realtime publication so open sessions pick
+-- up changes without reloading.
+
+ALTER TABLE company_branding
+  ADD COLUMN IF NOT EXISTS company_tax_number text, -- Seller VAT registration number on tax documents
+  ADD COLUMN IF NOT EXISTS company_commercial_register text,
+  ADD COLUMN IF NOT EXISTS company_city_postal text,
+  ADD COLUMN IF NOT EXISTS wps_establishment_id text, -- Ministry of Human Resources establishment number
+  ADD COLUMN IF NOT EXISTS company_iban text; -- Account salaries are paid from (WPS files)
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'company_branding'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE company_branding;
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'system_settings'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE system_settings;
+    END IF;
+  END IF;
+END $$;
@@ -0,0 +1,109 @@
+-- ZATCA e-invoice chain in the database
+-- Each e-invoice carries the invoice counter (ICV) and the hash of the document issued before it
+-- (PIH). Counter and hash, the signing key and the signed documents were kept in each browser's
+-- localStorage, so two machines (or a cleared browser) issued the same counters and forked the chain.
+--
+-- zatca_chain is the single chain the company issues from: the last counter and hash, and the
+-- secp256k1 key documents are stamped with. zatca_documents keeps every signed document, one per
+-- invoice or credit/debit note, so re-exporting returns the same XML instead of advancing the chain.
+--
+-- The document is built and signed in the app from the chain head it read. zatca_issue_document
+-- locks the chain row, checks that head is still current and records the document and the new head
+-- in the same step; when another session issued first it raises and the app signs again from the
+-- new head. Counters are therefore never reused and never skipped.
+--
+-- zatca_adopt_chain takes over the chain a browser kept under older builds, but only while the
+-- database chain is still empty (see src/lib/zatcaEInvoice.ts).
+
+CREATE TABLE IF NOT EXISTS zatca_chain (
+  chain_id integer PRIMARY KEY DEFAULT 1 CHECK (chain_id = 1),
+  counter integer NOT NULL DEFAULT 0 CHECK (counter >= 0), -- ICV of the last issued document
+  previous_hash text NOT NULL DEFAULT 'NWZlY2ViNjZmZmM4NmYzOGQ5NTI3ODZjNmQ2OTZjNzljMmRiYzIzOWRkNGU5MWI0NjcyOWQ3M2EyN2ZiNTdlOQ==',
+  private_key text, -- Base64 secp256k1 private key, created on first use
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO zatca_chain (chain_id) VALUES (1) ON CONFLICT (chain_id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS zatca_documents (
+  source_id uuid PRIMARY KEY, -- invoices.invoice_id or invoice_notes.note_id
+  counter integer NOT NULL UNIQUE CHECK (counter > 0),
+  uuid uuid NOT NULL,
+  invoice_hash text NOT NULL,
+  signature_value text NOT NULL,
+  qr_payload text NOT NULL,
+  xml text NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION zatca_issue_document(
+  p_source_id uuid,
+  p_counter integer,
+  p_previous_hash text,
+  p_uuid uuid,
+  p_invoice_hash text,
+  p_signature_value text,
+  p_qr_payload text,
+  p_xml text
+) RETURNS zatca_documents AS $$
+DECLARE
+  head zatca_chain%ROWTYPE;
+  doc zatca_documents%ROWTYPE;
+BEGIN
+  SELECT * INTO head FROM zatca_chain WHERE chain_id = 1 FOR UPDATE;
+
+  -- Issued by another session meanwhile: the stored document stands
+  SELECT * INTO doc FROM zatca_documents WHERE source_id = p_source_id;
+  IF FOUND THEN
+    RETURN doc;
+  END IF;
+
+  IF p_counter <> head.counter + 1 OR p_previous_hash <> head.previous_hash THEN
+    RAISE EXCEPTION 'The e-invoice chain moved on; the next invoice counter is %', head.counter + 1
+      USING ERRCODE = '40001';
+  END IF;
+
+  INSERT INTO zatca_documents (source_id, counter, uuid, invoice_hash, signature_value, qr_payload, xml)
+  VALUES (p_source_id, p_counter, p_uuid, p_invoice_hash, p_signature_value, p_qr_payload, p_xml)
+  RETURNING * INTO doc;
+
+  UPDATE zatca_chain
+  SET counter = p_counter, previous_hash = p_invoice_hash, updated_at = now()
+  WHERE chain_id = 1;
+
+  RETURN doc;
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_documents: [{ source_id, counter, uuid, invoice_hash, signature_value, qr_payload, xml }]
+CREATE OR REPLACE FUNCTION zatca_adopt_chain(p_counter integer, p_previous_hash text, p_documents jsonb)
+RETURNS boolean AS $$
+DECLARE
+  head zatca_chain%ROWTYPE;
+BEGIN
+  SELECT * INTO head FROM zatca_chain WHERE chain_id = 1 FOR UPDATE;
+  IF head.counter <> 0 OR p_counter <= 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO zatca_documents (source_id, counter, uuid, invoice_hash, signature_value, qr_payload, xml)
+  SELECT source_id, counter, uuid, invoice_hash, signature_value, qr_payload, xml
+  FROM jsonb_to_recordset(COALESCE(p_documents, '[]'::jsonb)) AS d(
+    source_id uuid,
+    counter integer,
+    uuid uuid,
+    invoice_hash text,
+    signature_value text,
+    qr_payload text,
+    xml text
+  )
+  WHERE d.counter BETWEEN 1 AND p_counter
+  ON CONFLICT DO NOTHING;
+
+  UPDATE zatca_chain
+  SET counter = p_counter, previous_hash = p_previous_hash, updated_at = now()
+  WHERE chain_id = 1;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,23 @@
+-- ZATCA signing on the server
+-- The chain's secp256k1 key was created in the browser and kept in zatca_chain, which every API client
+-- could read and overwrite: anyone with the anon key could take the company's key, or replace it.
+-- Documents are now signed and recorded by the zatca-sign edge function with the service role, and the
+-- app only gets the signed document back (see src/lib/zatcaEInvoice.ts).
+--
+--   * zatca_chain (key, counter and last hash) is closed to API clients altogether
+--   * zatca_documents stays readable, so issued documents can be exported again, but only the
+--     functions below write to it
+--   * zatca_issue_document / zatca_adopt_chain move the chain, so only the service role may call them
+--
+-- A key an older build stored here was readable by every client; clear private_key before the first
+-- document is issued from this build if it may have leaked (zatca-sign creates a new one). Documents
+-- issued with the old key keep verifying against the public key embedded in them.
+
+REVOKE ALL ON zatca_chain FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON zatca_documents FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION zatca_issue_document(uuid, integer, text, uuid, text, text, text, text)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION zatca_adopt_chain(integer, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION zatca_issue_document(uuid, integer, text, uuid, text, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION zatca_adopt_chain(integer, text, jsonb) TO service_role;
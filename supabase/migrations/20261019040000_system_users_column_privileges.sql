@@ -0,0 +1,29 @@
+-- Keep password hashes away from API clients
+-- system_users was readable and writable column by column with the anon key, so any visitor could read
+-- every password hash, or write one they had computed themselves and log in with it. Passwords are
+-- hashed (PBKDF2) and checked by the auth-login and auth-password edge functions, which use the service
+-- role; API clients now get column privileges without password_hash, and without the lockout columns
+-- auth-login maintains.
+--
+-- New users are created without a usable password ('!' matches no hash) and get one from auth-password
+-- straight after (see src/components/Settings.tsx).
+
+ALTER TABLE system_users ALTER COLUMN password_hash SET DEFAULT '!';
+
+REVOKE SELECT, INSERT, UPDATE ON system_users FROM anon, authenticated;
+
+GRANT SELECT (
+  user_id, email, full_name, phone_number, status, role_id, employee_id, last_login, created_at, updated_at,
+  failed_login_attempts, locked_until, password_changed_at,
+  totp_enabled, totp_secret, totp_recovery_codes, totp_last_used_step, totp_enrolled_at
+) ON system_users TO anon, authenticated;
+
+GRANT INSERT (
+  user_id, email, full_name, phone_number, status, role_id, employee_id, last_login, created_at, updated_at,
+  totp_enabled, totp_secret, totp_recovery_codes, totp_last_used_step, totp_enrolled_at
+) ON system_users TO anon, authenticated;
+
+GRANT UPDATE (
+  email, full_name, phone_number, status, role_id, employee_id, last_login, updated_at,
+  totp_enabled, totp_secret, totp_recovery_codes, totp_last_used_step, totp_enrolled_at
+) ON system_users TO anon, authenticated;
@@ -0,0 +1,18 @@
+-- Two-factor settings are written by the edge functions only
+-- With write access to the 2FA columns an API client could switch 2FA off for any account, plant a
+-- secret of its own, or stop a role requiring 2FA; with read access it could take a user's encrypted
+-- TOTP secret and recovery code hashes. The auth-login and auth-2fa edge functions (service role) now
+-- own these columns, and administrators change roles.require_two_factor through auth-2fa
+-- (set_role_requirement).
+--
+-- totp_enabled and totp_enrolled_at stay readable so the app can show who has enrolled.
+
+REVOKE SELECT (totp_secret, totp_recovery_codes, totp_last_used_step) ON system_users FROM anon, authenticated;
+REVOKE INSERT (totp_enabled, totp_secret, totp_recovery_codes, totp_last_used_step, totp_enrolled_at)
+  ON system_users FROM anon, authenticated;
+REVOKE UPDATE (totp_enabled, totp_secret, totp_recovery_codes, totp_last_used_step, totp_enrolled_at)
+  ON system_users FROM anon, authenticated;
+
+REVOKE INSERT, UPDATE ON roles FROM anon, authenticated;
+GRANT INSERT (role_id, role_name, permissions, users_count, created_at, updated_at) ON roles TO anon, authenticated;
+GRANT UPDATE (role_name, permissions, users_count, updated_at) ON roles TO anon, authenticated;
@@ -0,0 +1,16 @@
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// Written only by the audit_row_change trigger
+export interface AuditLog {
+	audit_id: string; // uuid
+	table_name: string;
+	row_id: string; // Primary key of the changed row, as text
+	row_label: string | null; // Invoice number, customer name, ... at the time of the change
+	action: AuditAction;
+	actor_id: string | null; // system_users.user_id, null for system changes
+	actor_name: string | null; // Display name at the time of the change
+	old_data: Record<string, unknown> | null; // jsonb, null on insert
+	new_data: Record<string, unknown> | null; // jsonb, null on delete
+	changed_fields: string[] | null; // Columns an update changed
+	created_at: string; // timestamptz
+}
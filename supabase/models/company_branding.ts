@@ -10,6 +10,11 @@ export interface CompanyBranding {
 	branding_id: string; // uuid
 	updated_at: string | null; // timestamptz
 	company_address: string | null;
+	company_tax_number: string | null;
+	company_commercial_register: string | null;
+	company_city_postal: string | null;
+	wps_establishment_id: string | null;
+	company_iban: string | null;
 }
 
 export type CompanyBrandingInsert = Omit<CompanyBranding, 'branding_id' | 'created_at' | 'updated_at'> & {
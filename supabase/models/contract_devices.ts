@@ -0,0 +1,13 @@
+export interface ContractDevices {
+	device_id: string; // uuid
+	contract_id: string; // uuid
+	device_type: string;
+	quantity: number;
+	sort_order: number;
+	created_at: string; // timestamptz
+}
+
+export type ContractDevicesInsert = Omit<ContractDevices, 'device_id' | 'created_at'> & {
+	device_id?: string;
+	created_at?: string;
+};
@@ -0,0 +1,15 @@
+export interface ContractHistory {
+	history_id: string; // uuid
+	contract_id: string; // uuid
+	action: string; // Created, Edited, Sent, Signed, Attached, Suspended, Cancelled, Reactivated
+	description: string;
+	details: string | null;
+	user_name: string | null; // Display name at the time of the action
+	user_id: string | null; // uuid
+	created_at: string; // timestamptz
+}
+
+export type ContractHistoryInsert = Omit<ContractHistory, 'history_id' | 'created_at'> & {
+	history_id?: string;
+	created_at?: string;
+};
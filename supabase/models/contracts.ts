@@ -1,3 +1,6 @@
+export type ContractPaymentPlan = 'monthly' | 'semi-annual' | 'annual';
+export type ContractRenewalStatus = 'upcoming' | 'offered' | 'renewed' | 'lapsed';
+
 export interface Contracts {
 	contract_duration_interval: string;
 	delegate_id: string | null; // uuid
@@ -6,22 +9,68 @@ export interface Contracts {
 	created_at: string | null; // timestamptz
 	created_by: string | null; // uuid
 	contract_status: string | null;
-	location: string | null;
-	notes: string | null;
+	location: string | null; // Service address
+	notes: string | null; // Free text (older rows may still hold the JSON read by contractRecords.ts)
 	contract_amount: number;
 	contract_start_date: string; // date
 	contract_id: string; // uuid
 	contract_end_date: string | null; // date
-	contract_number: string;
+	contract_number: string; // CNT-2026-001, assigned on insert unless supplied (import)
 	customer_id: string; // uuid
+	client_name: string | null;
+	client_cr: string | null;
+	client_city: string | null;
+	client_representative: string | null;
+	client_designation: string | null;
+	client_phone: string | null;
+	client_email: string | null;
+	postal_code: string | null;
+	payment_plan: ContractPaymentPlan;
+	monthly_amount: number;
+	semi_annual_amount: number;
+	annual_amount: number;
+	emergency_visit_fee: number;
+	monthly_visit_start_date: string | null; // date
+	auto_monthly_visits_enabled: boolean;
+	sent_date: string | null; // date
+	signed_date: string | null; // date
+	attached_date: string | null; // date
+	attached_file_id: string | null; // uuid, file_metadata.id
+	attached_file_name: string | null;
+	attached_file_url: string | null;
+	suspended_date: string | null; // date
+	suspension_reason: string | null;
+	cancelled_date: string | null; // date
+	cancellation_reason: string | null;
+	reactivated_date: string | null; // date
+	legacy_metadata: Record<string, unknown> | null; // jsonb, keys of the old notes JSON that have no column
+	renewal_status: ContractRenewalStatus | null; // Set by the lifecycle step of the recurring-billing run
+	renewal_offered_at: string | null; // timestamptz
+	renewal_contract_id: string | null; // uuid, draft renewal offered for this contract
+	renewal_quotation_id: string | null; // uuid, renewal quotation offered for this contract
+	renewed_from_contract_id: string | null; // uuid
+	source_quotation_id: string | null; // uuid, quotation converted to this contract
+	expired_date: string | null; // date
+	deleted_at: string | null; // timestamptz, set while the record is in the recycle bin
+	deleted_by: string | null; // uuid
 }
 
-export type ContractsInsert = Omit<Contracts, 'contract_id' | 'created_at' | 'updated_at'> & {
-	contract_id?: string;
-	created_at?: string | null;
-	updated_at?: string | null;
-};
-
-export type ContractsUpdate = Partial<Contracts> & { contract_id: string };
+// Columns with database defaults may be left out on insert
+type ContractDefaults =
+	| 'payment_plan'
+	| 'monthly_amount'
+	| 'semi_annual_amount'
+	| 'annual_amount'
+	| 'emergency_visit_fee'
+	| 'auto_monthly_visits_enabled'
+	| 'source_quotation_id';
 
+export type ContractsInsert = Omit<Contracts, 'contract_id' | 'contract_number' | 'created_at' | 'updated_at' | 'deleted_at' | 'deleted_by' | ContractDefaults> &
+	Partial<Pick<Contracts, ContractDefaults>> & {
+		contract_id?: string;
+		contract_number?: string;
+		created_at?: string | null;
+		updated_at?: string | null;
+	};
 
+export type ContractsUpdate = Partial<Contracts> & { contract_id: string };
@@ -20,9 +20,11 @@ export interface Customers {
 	delegate_id: string | null; // uuid
 	commercial_register: string | null;
 	vat_number: string | null;
+	deleted_at: string | null; // timestamptz, set while the record is in the recycle bin
+	deleted_by: string | null; // uuid
 }
 
-export type CustomersInsert = Omit<Customers, 'customer_id' | 'created_at' | 'updated_at'> & {
+export type CustomersInsert = Omit<Customers, 'customer_id' | 'created_at' | 'updated_at' | 'deleted_at' | 'deleted_by'> & {
 	customer_id?: string;
 	created_at?: string | null;
 	updated_at?: string | null;
@@ -0,0 +1,25 @@
+export type DocumentType =
+	| 'invoice'
+	| 'credit_note'
+	| 'debit_note'
+	| 'quotation'
+	| 'contract'
+	| 'purchase_order'
+	| 'payroll';
+
+export interface DocumentSequences {
+	document_type: DocumentType;
+	label: string;
+	prefix: string; // Letters and digits only
+	reset_yearly: boolean; // PREFIX-2026-001 restarting each year, otherwise PREFIX-001 continuing
+	padding: number; // Minimum digits of the running number
+	updated_at: string; // timestamptz
+}
+
+export type DocumentSequencesUpdate = Partial<Pick<DocumentSequences, 'prefix' | 'reset_yearly' | 'padding'>>;
+
+export interface DocumentSequenceCounters {
+	document_type: DocumentType;
+	sequence_year: number; // 0 for sequences that never reset
+	last_number: number;
+}
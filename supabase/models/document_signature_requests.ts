@@ -0,0 +1,23 @@
+export type SignatureDocumentType = 'contract' | 'quotation';
+export type SignatureRequestStatus = 'pending' | 'signed' | 'expired' | 'revoked';
+
+export interface DocumentSignatureRequests {
+	request_id: string; // uuid
+	document_type: SignatureDocumentType;
+	document_id: string; // uuid, contracts.contract_id or quotations.quotation_id
+	document_number: string;
+	document_html: string; // Exactly what the customer is shown and signs
+	document_hash: string; // SHA-256 (hex) of document_html
+	token_hash: string; // SHA-256 (hex) of the link token
+	status: SignatureRequestStatus;
+	expires_at: string; // timestamptz
+	created_by: string | null; // uuid
+	created_at: string; // timestamptz
+	viewed_at: string | null; // timestamptz
+	signer_name: string | null;
+	signature_image: string | null; // PNG data URL
+	signer_ip: string | null;
+	signer_user_agent: string | null;
+	signed_at: string | null; // timestamptz
+	signed_file_id: string | null; // uuid, file_metadata.id of the archived signed copy
+}
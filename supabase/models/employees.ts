@@ -28,9 +28,11 @@ export interface Employees {
 	created_by: string | null; // uuid
 	updated_at: string | null; // timestamptz
 	updated_by: string | null; // uuid
+	deleted_at: string | null; // timestamptz, set while the record is in the recycle bin
+	deleted_by: string | null; // uuid
 }
 
-export type EmployeesInsert = Omit<Employees, 'employee_id' | 'created_at' | 'updated_at'> & {
+export type EmployeesInsert = Omit<Employees, 'employee_id' | 'created_at' | 'updated_at' | 'deleted_at' | 'deleted_by'> & {
 	employee_id?: string;
 	created_at?: string | null;
 	updated_at?: string | null;
@@ -39,6 +39,7 @@ export const FILE_CATEGORIES = {
 	PAYROLL_DOCUMENT: 'payroll_document',
 	ASSET_FILE: 'asset_file',
 	CUSTODY_DOCUMENT: 'custody_document',
+	DOCUMENT_PDF: 'document_pdf', // PDFs rendered by the render-pdf edge function
 } as const;
 
 export type FileCategory = typeof FILE_CATEGORIES[keyof typeof FILE_CATEGORIES];
@@ -53,6 +54,7 @@ export const STORAGE_BUCKETS = {
 	PAYROLL: 'payroll',
 	ASSETS: 'assets',
 	CUSTODY: 'custody',
+	DOCUMENTS: 'documents',
 	S3: 's3', // AWS S3 storage provider identifier
 } as const;
 
@@ -0,0 +1,30 @@
+export type GlAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface GlAccounts {
+	account_id: string; // uuid
+	account_code: string;
+	account_name: string;
+	account_name_ar: string | null;
+	account_type: GlAccountType;
+	parent_account_id: string | null; // uuid
+	description: string | null;
+	is_active: boolean;
+	created_at: string; // timestamptz
+	updated_at: string; // timestamptz
+}
+
+export type GlAccountsInsert = Omit<GlAccounts, 'account_id' | 'created_at' | 'updated_at' | 'is_active'> & {
+	account_id?: string;
+	is_active?: boolean;
+	created_at?: string;
+	updated_at?: string;
+};
+
+export type GlAccountsUpdate = Partial<GlAccounts> & { account_id: string };
+
+export interface GlPostingRules {
+	rule_key: string; // e.g. accounts_receivable, vat_output, salaries_payable
+	description: string;
+	account_id: string; // uuid
+	updated_at: string; // timestamptz
+}
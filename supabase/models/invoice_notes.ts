@@ -0,0 +1,36 @@
+export type InvoiceNoteType = 'credit' | 'debit';
+
+// Shape of the entries saved in `invoice_notes.note_items`
+export interface InvoiceNoteItem {
+	sourceIndex: number | null; // Index into invoices.invoice_items for reversed lines; null for added charges
+	description: string;
+	quantity: number;
+	unitPrice: number; // Net of discounts, excluding VAT
+	subtotal: number;
+	vat: number;
+	total: number;
+}
+
+export interface InvoiceNotes {
+	note_id: string; // uuid
+	note_type: InvoiceNoteType;
+	note_number: string; // CN-2026-0001 / DN-2026-0001, assigned on insert
+	invoice_id: string; // uuid
+	invoice_reference: string | null;
+	customer_id: string | null; // uuid, copied from the invoice
+	note_date: string; // date
+	reason: string;
+	note_items: InvoiceNoteItem[]; // jsonb
+	subtotal: number;
+	tax_rate: number;
+	tax_amount: number;
+	total_amount: number;
+	created_at: string; // timestamptz
+	created_by: string | null; // uuid
+}
+
+// Notes are immutable once issued: there is no update type
+export type InvoiceNotesInsert = Omit<InvoiceNotes, 'note_id' | 'note_number' | 'customer_id' | 'created_at'> & {
+	note_id?: string;
+	created_at?: string;
+};
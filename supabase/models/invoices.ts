@@ -5,10 +5,13 @@ export interface Invoices {
 	due_date: string; // date
 	customer_id: string; // uuid
 	invoice_id: string; // uuid
+	invoice_number: string; // INV-2026-001, assigned on insert
 	delegate_id: string | null; // uuid
 	invoice_notes: string | null;
 	payment_status: string | null;
 	contract_id: string | null; // uuid
+	source_visit_id: string | null; // uuid, monthly visit billed by recurring billing
+	source_quotation_id: string | null; // uuid, quotation converted to this invoice
 	invoice_date: string; // date
 	subtotal: number;
 	total_amount: number;
@@ -20,13 +23,20 @@ export interface Invoices {
 	created_by: string | null; // uuid
 	updated_at: string | null; // timestamptz
 	updated_by: string | null; // uuid
-	remaining_amount: number | null;
+	remaining_amount: number | null; // total + debit notes - credit notes - paid, kept by trigger
+	credited_amount: number; // Sum of credit notes
+	debited_amount: number; // Sum of debit notes
 	discount_type: string | null;
 	discount_amount: number | null;
+	deleted_at: string | null; // timestamptz, set while the record is in the recycle bin
+	deleted_by: string | null; // uuid
 }
 
-export type InvoicesInsert = Omit<Invoices, 'invoice_id' | 'created_at' | 'updated_at'> & {
+export type InvoicesInsert = Omit<Invoices, 'invoice_id' | 'invoice_number' | 'created_at' | 'updated_at' | 'credited_amount' | 'debited_amount' | 'source_visit_id' | 'source_quotation_id' | 'deleted_at' | 'deleted_by'> & {
 	invoice_id?: string;
+	invoice_number?: string;
+	source_visit_id?: string | null;
+	source_quotation_id?: string | null;
 	created_at?: string | null;
 	updated_at?: string | null;
 };
@@ -0,0 +1,35 @@
+export type JournalSourceType =
+	| 'manual'
+	| 'invoice'
+	| 'invoice_note'
+	| 'payment'
+	| 'purchase_order'
+	| 'purchase_payment'
+	| 'expense'
+	| 'expense_payment'
+	| 'payroll';
+
+export interface JournalEntries {
+	entry_id: string; // uuid
+	entry_number: number;
+	entry_date: string; // date
+	description: string | null;
+	source_type: JournalSourceType;
+	source_id: string | null; // uuid of the source document (or of the reversed entry for manual reversals)
+	source_reference: string | null;
+	is_reversal: boolean;
+	created_at: string; // timestamptz
+	created_by: string | null; // uuid
+}
+
+export interface JournalLines {
+	line_id: string; // uuid
+	entry_id: string; // uuid
+	account_id: string; // uuid
+	debit: number;
+	credit: number;
+	memo: string | null;
+}
+
+// Append-only: entries are posted through gl_post_manual_entry or by the source document triggers
+export type JournalEntryWithLines = JournalEntries & { journal_lines: JournalLines[] };
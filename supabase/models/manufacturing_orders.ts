@@ -8,6 +8,11 @@ export interface ManufacturingOrders {
 	mfg_order_start_date: string | null; // date
 	mfg_order_completion_date: string | null; // date
 	mfg_order_notes: string | null;
+	mfg_order_standard_cost: number | null; // Recipe cost for the batch, captured at completion
+	mfg_order_actual_cost: number | null; // Cost at the material prices on the completion date
+	mfg_order_cost_breakdown: unknown | null; // jsonb (ManufacturingCostBreakdown)
+	mfg_order_shortage_override: boolean;
+	mfg_order_override_reason: string | null;
 	created_by: string | null;
 	created_at: string | null; // timestamptz
 	updated_at: string | null; // timestamptz
@@ -15,9 +20,10 @@ export interface ManufacturingOrders {
 
 export type ManufacturingOrdersInsert = Omit<
 	ManufacturingOrders,
-	'mfg_order_id' | 'created_at' | 'updated_at'
+	'mfg_order_id' | 'created_at' | 'updated_at' | 'mfg_order_shortage_override'
 > & {
 	mfg_order_id?: string;
+	mfg_order_shortage_override?: boolean;
 	created_at?: string | null;
 	updated_at?: string | null;
 };
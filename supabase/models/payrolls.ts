@@ -1,6 +1,6 @@
 export interface Payrolls {
 	payroll_id: string; // uuid
-	payroll_number: string;
+	payroll_number: string; // PAY-2026-001, assigned on insert
 	payroll_month: string;
 	payroll_year: number;
 	payroll_date: string; // date
@@ -15,8 +15,9 @@ export interface Payrolls {
 	paid_at: string | null; // timestamptz
 }
 
-export type PayrollsInsert = Omit<Payrolls, 'payroll_id' | 'created_at' | 'updated_at' | 'paid_at'> & {
+export type PayrollsInsert = Omit<Payrolls, 'payroll_id' | 'payroll_number' | 'created_at' | 'updated_at' | 'paid_at'> & {
 	payroll_id?: string;
+	payroll_number?: string;
 	created_at?: string | null;
 	updated_at?: string | null;
 	paid_at?: string | null;
@@ -8,6 +8,7 @@ export interface PurchaseOrders {
 	purchase_date: string; // date
 	supplier_id: string; // uuid
 	purchase_id: string; // uuid
+	purchase_number: string; // PUR-2026-001, assigned on insert and copied into purchase_order_items
 	purchase_category: string | null;
 	payment_method: string | null;
 	purchase_invoice_number: string | null;
@@ -16,8 +17,9 @@ export interface PurchaseOrders {
 	delivery_status: string | null;
 }
 
-export type PurchaseOrdersInsert = Omit<PurchaseOrders, 'purchase_id' | 'created_at' | 'updated_at'> & {
+export type PurchaseOrdersInsert = Omit<PurchaseOrders, 'purchase_id' | 'purchase_number' | 'created_at' | 'updated_at'> & {
 	purchase_id?: string;
+	purchase_number?: string;
 	created_at?: string | null;
 	updated_at?: string | null;
 };
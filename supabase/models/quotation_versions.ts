@@ -0,0 +1,29 @@
+export interface QuotationSnapshot {
+	customer_id: string | null;
+	customer_name: string | null;
+	phone_number: number | null;
+	location: string | null;
+	delegate_id: string | null;
+	quotation_items: unknown; // jsonb, items as stored on the quotation
+	quotation_validity: number | null;
+	valid_until: string | null; // date
+	quotation_notes: string | null;
+	vat_enabled: boolean | null;
+	discount_type: 'percentage' | 'fixed' | null;
+	discount_amount: number | null;
+}
+
+export interface QuotationVersions {
+	version_id: string; // uuid
+	quotation_id: string; // uuid
+	quotation_version: number; // The version this snapshot was, replaced by the next one
+	snapshot: QuotationSnapshot; // jsonb
+	change_summary: string | null; // Why the quotation was revised
+	created_by: string | null; // uuid
+	created_at: string; // timestamptz
+}
+
+export type QuotationVersionsInsert = Omit<QuotationVersions, 'version_id' | 'created_at'> & {
+	version_id?: string;
+	created_at?: string;
+};
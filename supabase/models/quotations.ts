@@ -1,14 +1,25 @@
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
 export interface Quotations {
 	company_stamp: string | null; // Filename only (not full URL)
 	company_logo: string | null; // Filename only (not full URL)
 	quotation_notes: string | null;
-	quotation_summary: string | null;
+	quotation_summary: string | null; // Superseded by quotation_status
+	quotation_status: QuotationStatus;
+	quotation_version: number; // 1 for the original, raised on each revision
 	location: string | null;
 	customer_name: string | null;
 	quotation_id: string; // uuid
+	quotation_number: string; // QT-2026-001, assigned on insert
 	customer_id: string | null; // uuid
 	phone_number: number | null;
-	quotation_validity: number | null;
+	quotation_validity: number | null; // Days
+	valid_until: string | null; // date, issue date + quotation_validity; set on insert when left out
+	status_changed_at: string | null; // timestamptz
+	delegate_id: string | null; // uuid
+	converted_invoice_id: string | null; // uuid, invoice made from this quotation
+	converted_contract_id: string | null; // uuid, contract made from this quotation
+	converted_at: string | null; // timestamptz
 	vat_enabled: boolean | null;
 	discount_type: "percentage" | "fixed" | null;
 	discount_amount: number | null;
@@ -17,8 +28,21 @@ export interface Quotations {
 	quotation_items: any; // jsonb
 }
 
-export type QuotationsInsert = Omit<Quotations, 'quotation_id' | 'created_at' | 'updated_at'> & {
+// Columns with database defaults may be left out on insert
+type QuotationDefaults =
+	| 'quotation_status'
+	| 'quotation_version'
+	| 'valid_until'
+	| 'status_changed_at'
+	| 'delegate_id'
+	| 'converted_invoice_id'
+	| 'converted_contract_id'
+	| 'converted_at';
+
+export type QuotationsInsert = Omit<Quotations, 'quotation_id' | 'quotation_number' | 'created_at' | 'updated_at' | QuotationDefaults> &
+	Partial<Pick<Quotations, QuotationDefaults>> & {
 	quotation_id?: string;
+	quotation_number?: string;
 	created_at?: string | null;
 	updated_at?: string | null;
 };
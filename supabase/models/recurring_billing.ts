@@ -0,0 +1,60 @@
+export type AutoInvoiceTiming = 'visit_date' | '7_days_before';
+export type RenewalOfferType = 'none' | 'contract' | 'quotation';
+
+export interface RecurringBillingSettings {
+	settings_id: boolean; // Single row, always true
+	auto_visits_enabled: boolean;
+	visit_lead_days: number; // Create a visit this many days before it is due
+	auto_invoice_enabled: boolean;
+	auto_invoice_timing: AutoInvoiceTiming;
+	renewal_notice_days: number; // Flag contracts ending within this many days
+	renewal_offer_type: RenewalOfferType; // What to prepare for a contract nearing its end
+	renewal_escalation_percent: number; // Price increase applied to renewal offers
+	updated_at: string | null; // timestamptz
+	updated_by: string | null; // uuid
+}
+
+export type RecurringBillingSettingsUpdate = Partial<
+	Pick<
+		RecurringBillingSettings,
+		| 'auto_visits_enabled'
+		| 'visit_lead_days'
+		| 'auto_invoice_enabled'
+		| 'auto_invoice_timing'
+		| 'renewal_notice_days'
+		| 'renewal_offer_type'
+		| 'renewal_escalation_percent'
+	>
+>;
+
+export interface RecurringBillingRuns {
+	run_id: string; // uuid
+	run_date: string; // date
+	trigger_source: 'schedule' | 'manual';
+	triggered_by: string | null; // uuid
+	status: 'running' | 'completed' | 'failed';
+	contracts_checked: number;
+	visits_created: number;
+	invoices_created: number;
+	contracts_expired: number;
+	renewals_offered: number;
+	skipped_count: number;
+	failed_count: number;
+	error: string | null;
+	started_at: string; // timestamptz
+	finished_at: string | null; // timestamptz
+}
+
+export interface RecurringBillingRunItems {
+	item_id: string; // uuid
+	run_id: string; // uuid
+	contract_id: string | null; // uuid
+	contract_number: string | null;
+	item_type: 'visit' | 'invoice' | 'expiry' | 'renewal';
+	outcome: 'created' | 'skipped' | 'failed';
+	target_date: string | null; // date
+	visit_id: string | null; // uuid
+	invoice_id: string | null; // uuid
+	reason: string | null;
+	created_at: string; // timestamptz
+}
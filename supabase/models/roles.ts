@@ -5,10 +5,12 @@ export interface Roles {
 	permissions: any | null; // jsonb
 	users_count: number | null;
 	role_name: string;
+	require_two_factor: boolean; // Members must sign in with TOTP
 }
 
-export type RolesInsert = Omit<Roles, 'role_id' | 'created_at' | 'updated_at'> & {
+export type RolesInsert = Omit<Roles, 'role_id' | 'created_at' | 'updated_at' | 'require_two_factor'> & {
 	role_id?: string;
+	require_two_factor?: boolean;
 	created_at?: string | null;
 	updated_at?: string | null;
 };
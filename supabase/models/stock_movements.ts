@@ -0,0 +1,41 @@
+export type StockItemType = 'product' | 'raw_material';
+
+export type StockMovementType =
+	| 'opening'
+	| 'adjustment'
+	| 'sale'
+	| 'purchase'
+	| 'purchase_return'
+	| 'mfg_consumption'
+	| 'mfg_output';
+
+export type StockSourceType =
+	| 'opening'
+	| 'adjustment'
+	| 'invoice'
+	| 'purchase_order'
+	| 'return'
+	| 'manufacturing_order';
+
+export interface StockMovements {
+	movement_id: string; // uuid
+	item_type: StockItemType;
+	item_id: string; // uuid (inventory.product_code or manufacturing_raw_materials.material_id)
+	quantity: number; // Signed: positive = stock in, negative = stock out
+	movement_type: StockMovementType;
+	source_type: StockSourceType;
+	source_id: string | null; // uuid of the source document
+	source_reference: string | null;
+	is_reversal: boolean;
+	unit_cost: number | null;
+	notes: string | null;
+	created_at: string; // timestamptz
+	created_by: string | null; // uuid
+}
+
+// Append-only: rows are never updated or deleted
+export type StockMovementsInsert = Omit<StockMovements, 'movement_id' | 'created_at' | 'is_reversal'> & {
+	movement_id?: string;
+	created_at?: string;
+	is_reversal?: boolean;
+};
@@ -10,10 +10,39 @@ export interface SystemUsers {
 	updated_at: string | null; // timestamptz
 	role_id: string | null; // uuid
 	user_id: string; // uuid
+	failed_login_attempts: number;
+	locked_until: string | null; // timestamptz
+	password_changed_at: string | null; // timestamptz
+	totp_enabled: boolean;
+	totp_secret: string | null; // Encrypted by the edge functions
+	totp_recovery_codes: string[]; // jsonb (SHA-256 hashes)
+	totp_last_used_step: number | null;
+	totp_enrolled_at: string | null; // timestamptz
 }
 
-export type SystemUsersInsert = Omit<SystemUsers, 'user_id' | 'created_at' | 'updated_at'> & {
+export type SystemUsersInsert = Omit<
+	SystemUsers,
+	| 'user_id'
+	| 'created_at'
+	| 'updated_at'
+	| 'failed_login_attempts'
+	| 'locked_until'
+	| 'password_changed_at'
+	| 'totp_enabled'
+	| 'totp_secret'
+	| 'totp_recovery_codes'
+	| 'totp_last_used_step'
+	| 'totp_enrolled_at'
+> & {
 	user_id?: string;
+	failed_login_attempts?: number;
+	locked_until?: string | null;
+	password_changed_at?: string | null;
+	totp_enabled?: boolean;
+	totp_secret?: string | null;
+	totp_recovery_codes?: string[];
+	totp_last_used_step?: number | null;
+	totp_enrolled_at?: string | null;
 	created_at?: string | null;
 	updated_at?: string | null;
 };
@@ -2,6 +2,22 @@ export type VatQuarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
 
 export type VatStatus = 'draft' | 'pending' | 'submitted' | 'paid';
 
+export interface VatSourceDocument {
+	source: 'invoice' | 'purchase' | 'expense' | 'return' | 'credit_note' | 'debit_note';
+	id: string; // uuid of the source row
+	reference: string;
+	date: string; // date
+	net: number;
+	vat: number;
+	gross: number;
+	updated_at: string | null; // timestamptz
+}
+
+export interface VatSourceSnapshot {
+	computed_at: string; // timestamptz
+	documents: VatSourceDocument[];
+}
+
 export interface VatReturnRow {
 	vat_return_id: string; // uuid
 	quarter: VatQuarter;
@@ -19,6 +35,7 @@ export interface VatReturnRow {
 	submission_date: string | null; // date
 	payment_date: string | null; // date
 	notes: string | null;
+	source_snapshot: VatSourceSnapshot | null; // jsonb
 	created_at: string; // timestamptz
 }
 
@@ -38,6 +55,7 @@ export interface VatReturnInsert {
 	submission_date?: string | null;
 	payment_date?: string | null;
 	notes?: string | null;
+	source_snapshot?: VatSourceSnapshot | null;
 }
 
 export type VatReturnUpdate = Partial<VatReturnInsert> & {
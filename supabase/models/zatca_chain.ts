@@ -0,0 +1,18 @@
+export interface ZatcaChain {
+	chain_id: number; // Always 1: the company issues from a single chain
+	counter: number; // ICV of the last issued document
+	previous_hash: string; // Base64 hash of the last issued document
+	private_key: string | null; // Base64 secp256k1 private key, created by zatca-sign; not readable by API clients
+	updated_at: string; // timestamptz
+}
+
+export interface ZatcaDocuments {
+	source_id: string; // uuid of the invoice or credit/debit note
+	counter: number;
+	uuid: string; // uuid
+	invoice_hash: string;
+	signature_value: string; // Base64 DER ECDSA signature
+	qr_payload: string;
+	xml: string;
+	issued_at: string; // timestamptz
+}
@@ -2,6 +2,25 @@ import { supabase as sbClient } from '../../src/lib/supabaseClient';
 
 export type UUID = string;
 
+// Tables whose rows are soft-deleted (deleted_at) and can be restored from the recycle bin;
+// reads through getRows leave those rows out
+export const SOFT_DELETE_TABLES = ['customers', 'contracts', 'invoices', 'employees'] as const;
+
+export const isSoftDeleteTable = (table: string) => (SOFT_DELETE_TABLES as readonly string[]).includes(table);
+
+// system_users columns API clients can read; the password hash and 2FA secrets only leave the database
+// through the auth edge functions (see the system_users_column_privileges migration)
+export const SYSTEM_USER_COLUMNS =
+	'user_id, email, full_name, phone_number, status, role_id, employee_id, last_login, created_at, updated_at, ' +
+	'failed_login_attempts, locked_until, password_changed_at';
+
+// Tables read with a column list instead of *
+const TABLE_COLUMNS: Record<string, string> = {
+	system_users: SYSTEM_USER_COLUMNS,
+};
+
+const tableColumns = (table: string) => TABLE_COLUMNS[table] ?? '*';
+
 export interface PaginationOptions {
 	limit?: number;
 	offset?: number;
@@ -9,7 +28,7 @@ export interface PaginationOptions {
 }
 
 export async function createRow<T>(table: string, values: Partial<T>): Promise<T> {
-	const { data, error } = await sbClient.from(table).insert(values).select().single();
+	const { data, error } = await sbClient.from(table).insert(values).select(tableColumns(table)).single();
 	if (error) throw error;
 	return data as T;
 }
@@ -19,7 +38,10 @@ export async function getRows<T>(
 	filters?: Record<string, unknown> | { limit?: number; orderBy?: string },
 	options?: PaginationOptions
 ): Promise<T[]> {
-	let query = sbClient.from(table).select('*');
+	let query = sbClient.from(table).select(tableColumns(table));
+	if (isSoftDeleteTable(table)) {
+		query = query.is('deleted_at', null);
+	}
 	
 	// Handle both old format (filters + options) and new format (combined filters)
 	let actualFilters: Record<string, unknown> = {};
@@ -79,13 +101,15 @@ export async function getRows<T>(
 }
 
 export async function updateRow<T>(table: string, idColumn: string, id: UUID, values: Partial<T>): Promise<T> {
-	const { data, error } = await sbClient.from(table).update(values).eq(idColumn, id).select().single();
+	const { data, error } = await sbClient.from(table).update(values).eq(idColumn, id).select(tableColumns(table)).single();
 	if (error) throw error;
 	return data as T;
 }
 
 export async function deleteRow(table: string, idColumn: string, id: UUID): Promise<void> {
-	const { error } = await sbClient.from(table).delete().eq(idColumn, id);
+	const { error } = isSoftDeleteTable(table)
+		? await sbClient.from(table).update({ deleted_at: new Date().toISOString() }).eq(idColumn, id)
+		: await sbClient.from(table).delete().eq(idColumn, id);
 	if (error) throw error;
 }
 
@@ -0,0 +1,159 @@
+-- General ledger: invoice posting checks
+-- Verifies gl_post_invoice / gl_sync_source (see the general_ledger, document_numbering and soft_delete
+-- migrations) against a migrated database:
+--   1. an invoice part-paid through a payments row and then edited (paid amount, status, due date)
+--      keeps the settled cash on the payment only: nothing is counted twice
+--   2. an invoice marked paid at creation and then part-paid again settles each amount once
+--   3. an unpaid invoice that was edited and then deleted reverses to zero on every account, and a
+--      recycle-bin move reverses and a restore posts it again
+--
+-- Run against a local or staging database (never production data you care about):
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/tests/general_ledger_invoices.sql
+-- Each check prints "ok - ..." as a notice; the first failure stops the script with the expected and
+-- actual amounts. Everything runs in one transaction that is rolled back, so nothing is left behind.
+
+BEGIN;
+
+-- Ledger balance (debit - credit) a source document left on the account of a posting rule
+CREATE FUNCTION pg_temp.gl_balance(p_source_type text, p_source_id uuid, p_rule text) RETURNS numeric AS $$
+  SELECT COALESCE(SUM(jl.debit - jl.credit), 0)
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.entry_id = jl.entry_id
+  WHERE je.source_type = p_source_type AND je.source_id = p_source_id AND jl.account_id = gl_rule_account(p_rule);
+$$ LANGUAGE sql;
+
+CREATE FUNCTION pg_temp.gl_entries(p_source_type text, p_source_id uuid) RETURNS bigint AS $$
+  SELECT COUNT(*) FROM journal_entries WHERE source_type = p_source_type AND source_id = p_source_id;
+$$ LANGUAGE sql;
+
+CREATE FUNCTION pg_temp.expect_equal(p_check text, p_actual numeric, p_expected numeric) RETURNS void AS $$
+BEGIN
+  IF p_actual IS DISTINCT FROM p_expected THEN
+    RAISE EXCEPTION 'FAILED %: expected %, got %', p_check, p_expected, p_actual;
+  END IF;
+  RAISE NOTICE 'ok - %', p_check;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO customers (customer_id, customer_name)
+VALUES ('00000000-0000-4000-8000-00000000c001', 'Ledger check customer');
+
+-- ---------------------------------------------------------------------------
+-- 1. Part payment through a payments row, then the invoice is edited
+-- ---------------------------------------------------------------------------
+
+INSERT INTO invoices (
+  invoice_id, customer_id, invoice_items, invoice_date, due_date, subtotal, tax_rate, tax_amount, total_amount, paid_amount
+) VALUES (
+  '00000000-0000-4000-8000-00000000a001', '00000000-0000-4000-8000-00000000c001', '[]', '2026-10-01', '2026-10-31',
+  1000, 0.15, 150, 1150, 0
+);
+
+SELECT pg_temp.expect_equal('1: invoice debits receivable', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a001', 'accounts_receivable'), 1150);
+SELECT pg_temp.expect_equal('1: invoice credits revenue', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a001', 'sales_revenue'), -1000);
+SELECT pg_temp.expect_equal('1: invoice credits VAT output', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a001', 'vat_output'), -150);
+
+-- The app records the payment and then updates the invoice's paid amount and status
+INSERT INTO payments (payment_id, invoice_id, payment_date, paid_amount, payment_method)
+VALUES ('00000000-0000-4000-8000-00000000b001', '00000000-0000-4000-8000-00000000a001', '2026-10-05', 400, 'Cash');
+UPDATE invoices SET paid_amount = 400, payment_status = 'partial'
+WHERE invoice_id = '00000000-0000-4000-8000-00000000a001';
+-- Fields that may still change on a part-paid invoice
+UPDATE invoices SET due_date = '2026-11-15', invoice_notes = 'Balance due mid November'
+WHERE invoice_id = '00000000-0000-4000-8000-00000000a001';
+
+SELECT pg_temp.expect_equal('1: payment debits cash', pg_temp.gl_balance('payment', '00000000-0000-4000-8000-00000000b001', 'cash'), 400);
+SELECT pg_temp.expect_equal('1: payment credits receivable', pg_temp.gl_balance('payment', '00000000-0000-4000-8000-00000000b001', 'accounts_receivable'), -400);
+SELECT pg_temp.expect_equal('1: invoice posts no cash for the payment row', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a001', 'cash'), 0);
+SELECT pg_temp.expect_equal('1: invoice receivable unchanged', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a001', 'accounts_receivable'), 1150);
+SELECT pg_temp.expect_equal('1: edits post no adjustment', pg_temp.gl_entries('invoice', '00000000-0000-4000-8000-00000000a001'), 1);
+SELECT pg_temp.expect_equal(
+  '1: receivable left equals the unpaid balance',
+  pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a001', 'accounts_receivable')
+    + pg_temp.gl_balance('payment', '00000000-0000-4000-8000-00000000b001', 'accounts_receivable'),
+  750
+);
+
+-- Amounts are locked once paid: a correction is a credit or debit note
+DO $$
+BEGIN
+  UPDATE invoices SET total_amount = 2300, tax_amount = 300, subtotal = 2000
+  WHERE invoice_id = '00000000-0000-4000-8000-00000000a001';
+  RAISE EXCEPTION 'FAILED 1: the amounts of a part-paid invoice could be edited';
+EXCEPTION WHEN raise_exception THEN
+  IF SQLERRM LIKE 'FAILED%' THEN RAISE; END IF;
+  RAISE NOTICE 'ok - 1: amounts of a part-paid invoice are locked';
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 2. Paid in part at creation, then a payments row for more
+-- ---------------------------------------------------------------------------
+
+INSERT INTO invoices (
+  invoice_id, customer_id, invoice_items, invoice_date, due_date, subtotal, tax_rate, tax_amount, total_amount, paid_amount,
+  payment_status
+) VALUES (
+  '00000000-0000-4000-8000-00000000a002', '00000000-0000-4000-8000-00000000c001', '[]', '2026-10-02', '2026-11-01',
+  500, 0.15, 75, 575, 200, 'partial'
+);
+
+SELECT pg_temp.expect_equal('2: amount paid at creation debits cash', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a002', 'cash'), 200);
+SELECT pg_temp.expect_equal('2: the rest debits receivable', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a002', 'accounts_receivable'), 375);
+
+INSERT INTO payments (payment_id, invoice_id, payment_date, paid_amount, payment_method)
+VALUES ('00000000-0000-4000-8000-00000000b002', '00000000-0000-4000-8000-00000000a002', '2026-10-10', 100, 'Bank Transfer');
+UPDATE invoices SET paid_amount = 300 WHERE invoice_id = '00000000-0000-4000-8000-00000000a002';
+
+SELECT pg_temp.expect_equal('2: invoice cash still only the amount paid at creation', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a002', 'cash'), 200);
+SELECT pg_temp.expect_equal('2: payment debits bank', pg_temp.gl_balance('payment', '00000000-0000-4000-8000-00000000b002', 'bank'), 100);
+SELECT pg_temp.expect_equal(
+  '2: receivable left equals the unpaid balance',
+  pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a002', 'accounts_receivable')
+    + pg_temp.gl_balance('payment', '00000000-0000-4000-8000-00000000b002', 'accounts_receivable'),
+  275
+);
+
+-- ---------------------------------------------------------------------------
+-- 3. Unpaid invoice edited, then deleted; recycle bin and restore
+-- ---------------------------------------------------------------------------
+
+INSERT INTO invoices (
+  invoice_id, customer_id, invoice_items, invoice_date, due_date, subtotal, tax_rate, tax_amount, total_amount, paid_amount
+) VALUES (
+  '00000000-0000-4000-8000-00000000a003', '00000000-0000-4000-8000-00000000c001', '[]', '2026-10-03', '2026-11-02',
+  1000, 0.15, 150, 1150, 0
+);
+UPDATE invoices SET subtotal = 2000, tax_amount = 300, total_amount = 2300
+WHERE invoice_id = '00000000-0000-4000-8000-00000000a003';
+
+SELECT pg_temp.expect_equal('3: edit posts an adjustment', pg_temp.gl_entries('invoice', '00000000-0000-4000-8000-00000000a003'), 2);
+SELECT pg_temp.expect_equal('3: receivable follows the edit', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a003', 'accounts_receivable'), 2300);
+
+UPDATE invoices SET deleted_at = now() WHERE invoice_id = '00000000-0000-4000-8000-00000000a003';
+SELECT pg_temp.expect_equal('3: recycle bin reverses the receivable', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a003', 'accounts_receivable'), 0);
+UPDATE invoices SET deleted_at = NULL WHERE invoice_id = '00000000-0000-4000-8000-00000000a003';
+SELECT pg_temp.expect_equal('3: restore posts the receivable again', pg_temp.gl_balance('invoice', '00000000-0000-4000-8000-00000000a003', 'accounts_receivable'), 2300);
+
+DELETE FROM invoices WHERE invoice_id = '00000000-0000-4000-8000-00000000a003';
+
+SELECT pg_temp.expect_equal(
+  '3: delete leaves nothing on any account',
+  (SELECT COUNT(*) FROM (
+    SELECT jl.account_id
+    FROM journal_lines jl
+    JOIN journal_entries je ON je.entry_id = jl.entry_id
+    WHERE je.source_type = 'invoice' AND je.source_id = '00000000-0000-4000-8000-00000000a003'
+    GROUP BY jl.account_id
+    HAVING SUM(jl.debit - jl.credit) <> 0
+  ) AS open_accounts),
+  0
+);
+SELECT pg_temp.expect_equal(
+  '3: delete is posted as a reversal',
+  (SELECT COUNT(*) FROM journal_entries
+   WHERE source_type = 'invoice' AND source_id = '00000000-0000-4000-8000-00000000a003' AND is_reversal),
+  2
+);
+
+ROLLBACK;
@@ -15,6 +15,7 @@ export default defineConfig({
     react(),
     {
       name: 'copy-htaccess',
+      apply: 'build',
       closeBundle() {
         // Copy .htaccess to dist folder after build
         try {